@@ -77,3 +77,31 @@ describe('SurveyAttemptStore — navigation respects the visible count', () => {
     expect(store().currentQuestionIndex).toBe(0); // rejected, index unchanged
   });
 });
+
+describe('SurveyAttemptStore — skip-logic history stack', () => {
+  it('pops questions in reverse visit order and returns undefined when empty', () => {
+    store().startAttempt('s-1', 5);
+    store().pushQuestionHistory('q1');
+    store().pushQuestionHistory('q4');
+
+    expect(store().popQuestionHistory()).toBe('q4');
+    expect(store().popQuestionHistory()).toBe('q1');
+    expect(store().popQuestionHistory()).toBeUndefined();
+  });
+
+  it('keeps the history in the draft so a resumed attempt retraces the branch', () => {
+    store().startAttempt('s-1', 5);
+    store().setAnswer('q1', 'No');
+    store().pushQuestionHistory('q1');
+    store().setCurrentIndex(1);
+    store().abandonAttempt();
+
+    store().startAttempt('s-1', 5);
+    expect(store().questionHistory).toEqual(['q1']);
+  });
+
+  it('a fresh attempt starts with an empty history', () => {
+    store().startAttempt('s-2', 3);
+    expect(store().questionHistory).toEqual([]);
+  });
+});
@@ -49,12 +49,16 @@ jest.mock('@/services/videoHooks', () => {
   };
 });
 jest.mock('@/services/notificationHooks', () => ({ __esModule: true, useUnreadNotificationCount: () => ({ data: 0 }) }));
-jest.mock('@/services/adHooksRefactored', () => ({
-  __esModule: true,
-  useAdsForPlacement: () => ({ data: [], refetch: jest.fn() }),
-  useRecordAdClick: () => ({ mutate: jest.fn() }),
-  useRecordAdImpression: () => ({ mutate: jest.fn() }),
-}));
+jest.mock('@/services/adHooksRefactored', () => {
+  const viewer = { personalized: false, ageRange: null, gender: null, locations: [], interests: [] };
+  return {
+    __esModule: true,
+    useAdsForPlacement: () => ({ data: [], refetch: jest.fn() }),
+    useRecordAdClick: () => ({ mutate: jest.fn() }),
+    useRecordAdImpression: () => ({ mutate: jest.fn() }),
+    useAdViewerProfile: () => viewer,
+  };
+});
 jest.mock('@/services/adFrequencyManager', () => ({ __esModule: true, useAdFrequency: () => ({ canShowAd: () => false, recordImpression: jest.fn() }) }));
 jest.mock('@/services/useShouldShowAds', () => ({ __esModule: true, useShouldShowAds: () => ({ shouldShowAds: false }) }));
 jest.mock('@/services/purchasesHooks', () => ({ __esModule: true, useVideoPremium: () => ({ isPremium: false, isLoading: false }) }));
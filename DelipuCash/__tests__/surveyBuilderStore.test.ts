@@ -6,9 +6,17 @@
  * previously flowed straight into the store and crashed the builder on open
  * with no way out short of clearing app data. The sanitizer drops any
  * structurally invalid draft ({} merges over store defaults) and still applies
- * the v0→v2 migrations to valid ones.
+ * the v0→v3 migrations to valid ones.
+ *
+ * Also locks that positional {{qN}} piping tokens follow their question when
+ * questions are reordered or deleted, and that switching a question to a matrix
+ * or ranking seeds starter rows and columns.
  */
-import { sanitizePersistedBuilderState } from '@/store/SurveyBuilderStore';
+import {
+  DEFAULT_MATRIX_COLUMNS,
+  sanitizePersistedBuilderState,
+  useSurveyBuilderStore,
+} from '@/store/SurveyBuilderStore';
 
 const validQuestion = {
   id: 'q_1',
@@ -36,9 +44,10 @@ describe('sanitizePersistedBuilderState — corruption guard', () => {
       surveyTitle: 'My survey',
       questions: [{ ...validQuestion, conditionalLogic: null, fileUploadConfig: null, points: 0 }],
       isScoringEnabled: false,
+      computedVariables: [],
       earnedBadges: [],
     };
-    expect(sanitizePersistedBuilderState(state, 2)).toEqual(state);
+    expect(sanitizePersistedBuilderState(state, 4)).toEqual(state);
   });
 });
 
@@ -69,4 +78,87 @@ describe('sanitizePersistedBuilderState — migrations', () => {
     expect(migrated.earnedBadges).toEqual(['first_question']);
     expect(migrated.isScoringEnabled).toBe(false);
   });
+
+  it('v2 → adds an empty computedVariables list', () => {
+    const migrated = sanitizePersistedBuilderState(
+      { questions: [validQuestion], isScoringEnabled: true },
+      2
+    ) as { computedVariables: unknown; isScoringEnabled: unknown };
+
+    expect(migrated.computedVariables).toEqual([]);
+    expect(migrated.isScoringEnabled).toBe(true);
+  });
+
+  it('v3 → writes the draft in English with no other languages', () => {
+    const migrated = sanitizePersistedBuilderState({ questions: [validQuestion], computedVariables: [] }, 3);
+
+    expect(migrated).toMatchObject({ defaultLanguage: 'en', surveyLanguages: [], surveyTranslations: {} });
+  });
+});
+
+describe('piped references follow their question', () => {
+  beforeEach(() => {
+    useSurveyBuilderStore.getState().loadQuestions([
+      { id: 'a', text: 'Rate us', type: 'rating', options: [], required: false },
+      { id: 'b', text: 'Pick one', type: 'radio', options: ['X', 'Y'], required: false },
+      { id: 'c', text: 'You rated us {{q1}} and picked {{q2}}', type: 'text', options: [], required: false },
+    ]);
+  });
+
+  it('reorderQuestions rewrites positions', () => {
+    useSurveyBuilderStore.getState().reorderQuestions(1, 0);
+    const { questions } = useSurveyBuilderStore.getState();
+    expect(questions.map((q) => q.id)).toEqual(['b', 'a', 'c']);
+    expect(questions[2].text).toBe('You rated us {{q2}} and picked {{q1}}');
+  });
+
+  it('removeQuestion marks references to the deleted question', () => {
+    useSurveyBuilderStore.getState().removeQuestion('a');
+    expect(useSurveyBuilderStore.getState().questions[1].text).toBe('You rated us {{q?}} and picked {{q1}}');
+  });
+});
+
+describe('matrix and ranking defaults', () => {
+  beforeEach(() => {
+    useSurveyBuilderStore.getState().loadQuestions([
+      { id: 'a', text: 'How do you feel?', type: 'text', options: [], required: false },
+    ]);
+  });
+
+  it('seeds rows and an agreement scale when a question becomes a matrix', () => {
+    useSurveyBuilderStore.getState().updateQuestion('a', { type: 'matrix' });
+    const [question] = useSurveyBuilderStore.getState().questions;
+    expect(question.options).toEqual(['Row 1', 'Row 2']);
+    expect(question.matrixColumns).toEqual(DEFAULT_MATRIX_COLUMNS);
+  });
+
+  it('keeps authored items when a question becomes a ranking', () => {
+    useSurveyBuilderStore.getState().updateQuestion('a', { type: 'ranking', options: ['Tea', 'Coffee'] });
+    expect(useSurveyBuilderStore.getState().questions[0].options).toEqual(['Tea', 'Coffee']);
+  });
+});
+
+describe('translations follow their labels', () => {
+  beforeEach(() => {
+    useSurveyBuilderStore.getState().loadQuestions([
+      { id: 'a', text: 'Pick one', type: 'radio', options: ['X', 'Y', 'Z'], required: false },
+    ]);
+    useSurveyBuilderStore.getState().addSurveyLanguage('lg');
+    useSurveyBuilderStore.getState().setQuestionTranslation('a', 'lg', { text: 'Londa', options: ['X-lg', 'Y-lg', 'Z-lg'] });
+  });
+
+  it('removeOption drops the translated label at the same index', () => {
+    useSurveyBuilderStore.getState().removeOption('a', 1);
+    expect(useSurveyBuilderStore.getState().questions[0].translations?.lg.options).toEqual(['X-lg', 'Z-lg']);
+  });
+
+  it('removeSurveyLanguage discards that language everywhere', () => {
+    useSurveyBuilderStore.getState().setSurveyTranslation('lg', { title: 'Okulonda' });
+    useSurveyBuilderStore.getState().removeSurveyLanguage('lg');
+
+    const state = useSurveyBuilderStore.getState();
+    expect(state.surveyLanguages).toEqual([]);
+    expect(state.surveyTranslations).toEqual({});
+    expect(state.questions[0].translations).toEqual({});
+  });
 });
@@ -5,7 +5,8 @@
  * badly or block respondents — the builder previously accepted all of these and
  * so did the server/attempt path: empty-string options, inverted rating/number
  * bounds, choice types with <2 real options, and a zero/blank survey. Also
- * validates the new optional response-limit control.
+ * validates the new optional response-limit control, the matrix/ranking
+ * structure guards, screener placement and translation completeness.
  */
 import { validateBuilderSurvey, type BuilderValidationInput } from '@/utils/surveyBuilderValidation';
 
@@ -67,6 +68,65 @@ describe('validateBuilderSurvey — rejects', () => {
     expect(validateBuilderSurvey(base({ startDate: now, endDate: now })).error).toMatch(/end date/i);
   });
 
+  it('a piped reference to a later question (names the question number)', () => {
+    const r = validateBuilderSurvey(base({
+      questions: [
+        { id: 'a', text: 'You said {{q2}}?', type: 'text', options: [] },
+        { id: 'b', text: 'Rate', type: 'rating', options: [] },
+      ],
+    }));
+    expect(r.error).toMatch(/^Question 1 references Q2, which comes later/);
+  });
+
+  it('a broken computed variable (names the variable)', () => {
+    const r = validateBuilderSurvey(base({
+      computedVariables: [{ id: 'v1', name: 'score', kind: 'score', sourceQuestionIds: [] }],
+    }));
+    expect(r.error).toMatch(/^Variable "score": Pick at least one question/);
+  });
+
+  it.each([
+    ['a matrix with one column', { type: 'matrix', options: ['Speed'], matrixColumns: ['Good', ' '] }, /\(matrix\) needs at least 2 columns/],
+    ['a matrix with no rows', { type: 'matrix', options: [''], matrixColumns: ['Bad', 'Good'] }, /\(matrix\) needs at least 1 row/],
+    ['a matrix with a repeated row', { type: 'matrix', options: ['Speed', 'Speed '], matrixColumns: ['Bad', 'Good'] }, /same label/],
+    ['a ranking with one item', { type: 'ranking', options: ['Price', ''] }, /\(ranking\) needs at least 2 items/],
+    ['a ranking with a repeated item', { type: 'ranking', options: ['Price', 'Price'] }, /same label/],
+  ])('%s', (_label, question, message) => {
+    const r = validateBuilderSurvey(base({ questions: [{ text: 'Grid', ...question }] }));
+    expect(r.error).toMatch(message);
+  });
+
+  it('a screener placed after a paid question (names the question number)', () => {
+    const r = validateBuilderSurvey(base({
+      questions: [
+        { text: 'Rate us', type: 'rating', options: [] },
+        { text: 'Do you drive?', type: 'radio', options: ['Yes', 'No'], required: true, screener: { qualifying: ['Yes'] } },
+      ],
+    }));
+    expect(r.error).toMatch(/^Question 2 is a screener, so it must come before every other question/);
+  });
+
+  it('an offered language with an untranslated option (names the question number)', () => {
+    const r = validateBuilderSurvey(base({
+      languages: ['lg'],
+      surveyTranslations: { lg: { title: 'Okukebera' } },
+      questions: [{
+        text: 'Happy?', type: 'radio', options: ['Yes', 'No'],
+        translations: { lg: { text: 'Osanyuse?', options: ['Yee', ''] } },
+      }],
+    }));
+    expect(r.error).toBe('Question 1 needs a Luganda translation of every option');
+  });
+
+  it('an offered language without a translated title', () => {
+    const r = validateBuilderSurvey(base({ languages: ['sw'], questions: [] }));
+    expect(r.error).toMatch(/at least one question/i);
+    expect(validateBuilderSurvey(base({
+      languages: ['sw'],
+      questions: [{ text: 'Happy?', type: 'text', options: [], translations: { sw: { text: 'Furaha?' } } }],
+    })).error).toBe('The survey title needs a Swahili translation');
+  });
+
   it('a non-integer or zero response limit', () => {
     expect(validateBuilderSurvey(base({ maxResponses: '0' })).error).toMatch(/whole number/i);
     expect(validateBuilderSurvey(base({ maxResponses: '12.5' })).error).toMatch(/whole number/i);
@@ -94,6 +154,53 @@ describe('validateBuilderSurvey — accepts', () => {
     expect(r.error).toBeNull();
   });
 
+  it('piped answers and a computed variable from earlier questions', () => {
+    const r = validateBuilderSurvey(base({
+      questions: [
+        { id: 'a', text: 'Rate', type: 'rating', options: [] },
+        { id: 'b', text: 'You rated us {{q1}} ({{score}}) — why?', type: 'paragraph', options: [] },
+      ],
+      computedVariables: [{ id: 'v1', name: 'score', kind: 'score', sourceQuestionIds: ['a'] }],
+    }));
+    expect(r.error).toBeNull();
+  });
+
+  it('a matrix, a ranking and an NPS question', () => {
+    const r = validateBuilderSurvey(base({
+      questions: [
+        { text: 'Rate each', type: 'matrix', options: ['Speed', 'Price'], matrixColumns: ['Bad', 'Okay', 'Good'] },
+        { text: 'Order these', type: 'ranking', options: ['Price', 'Quality', ''] },
+        { text: 'Recommend us?', type: 'nps', options: [] },
+      ],
+    }));
+    expect(r.error).toBeNull();
+  });
+
+  it('a required screener with a quota ahead of the paid questions', () => {
+    const r = validateBuilderSurvey(base({
+      questions: [
+        {
+          text: 'Do you drive?', type: 'radio', options: ['Yes', 'No'], required: true,
+          screener: { qualifying: ['Yes'], quotas: [{ answer: 'Yes', limit: 100 }] },
+        },
+        { text: 'Rate your car', type: 'rating', options: [] },
+      ],
+    }));
+    expect(r.error).toBeNull();
+  });
+
+  it('a fully translated survey', () => {
+    const r = validateBuilderSurvey(base({
+      languages: ['lg'],
+      surveyTranslations: { lg: { title: 'Okukebera' } },
+      questions: [{
+        text: 'Happy?', type: 'radio', options: ['Yes', 'No'],
+        translations: { lg: { text: 'Osanyuse?', options: ['Yee', 'Nedda'] } },
+      }],
+    }));
+    expect(r.error).toBeNull();
+  });
+
   it('rating/number without bounds (no inversion possible)', () => {
     const r = validateBuilderSurvey(base({
       questions: [{ text: 'Rate', type: 'rating', options: [] }],
@@ -0,0 +1,179 @@
+/**
+ * Offline survey submissions: finished attempts queued while offline are replayed on
+ * reconnect with their idempotency key. Covers the store semantics (one attempt per user
+ * and survey, staged-file answers swapped for uploaded ids) and the processor — staged
+ * files upload before the submit, a network failure never uses up a retry, a rejection
+ * does, and another user's attempts are left for them.
+ */
+import { renderHook, waitFor } from '@testing-library/react-native';
+import { onlineManager } from '@tanstack/react-query';
+import { createProvidersWrapper } from '@/test-utils';
+import {
+  toStagedFileAnswer,
+  useSurveySubmissionQueueStore,
+} from '@/store/SurveySubmissionQueueStore';
+import { useSurveySubmissionQueueProcessor } from '@/hooks/useSurveySubmissionQueueProcessor';
+import { surveyApi } from '@/services/surveyApi';
+import { uploadSurveyFile } from '@/services/surveyFileApi';
+import { deleteStagedSurveyFile, stagedFileExists } from '@/utils/surveyFileStaging';
+import { useAuthStore } from '@/utils/auth/store';
+
+const mockShowToast = jest.fn();
+jest.mock('@/components/ui/Toast', () => ({
+  ...jest.requireActual('@/components/ui/Toast'),
+  useToast: () => ({ showToast: mockShowToast }),
+}));
+jest.mock('@/services/surveyFileApi', () => ({
+  uploadSurveyFile: jest.fn(),
+}));
+jest.mock('@/utils/surveyFileStaging', () => ({
+  stagedFileExists: jest.fn(),
+  deleteStagedSurveyFile: jest.fn().mockResolvedValue(undefined),
+}));
+
+const uploadMock = uploadSurveyFile as jest.Mock;
+const existsMock = stagedFileExists as jest.Mock;
+let submitSpy: jest.SpyInstance;
+
+const queue = () => useSurveySubmissionQueueStore.getState();
+
+const enqueue = (overrides: Partial<{ idempotencyKey: string; userId: string; surveyId: string; responses: Record<string, unknown> }> = {}) =>
+  queue().enqueue({
+    idempotencyKey: 'key-00000001',
+    userId: 'u-1',
+    surveyId: 's-1',
+    surveyTitle: 'Mobile money habits',
+    responses: { q1: 'Yes' },
+    startedAt: '2026-10-18T08:00:00.000Z',
+    ...overrides,
+  });
+
+const stageFile = (id = 'staged_1') =>
+  queue().stageFile({
+    id,
+    surveyId: 's-1',
+    questionId: 'q2',
+    uri: `file:///docs/survey-staged/${id}.pdf`,
+    fileName: 'receipt.pdf',
+    mimeType: 'application/pdf',
+    stagedAt: Date.now(),
+  });
+
+const renderProcessor = () => renderHook(() => useSurveySubmissionQueueProcessor(), { wrapper: createProvidersWrapper() });
+
+const accepted = { success: true, data: { success: true, submitted: true, pointsAwarded: 10, message: 'ok' } };
+const offline = { success: false, data: {}, error: 'Network request failed' };
+const rejected = { success: false, data: { success: false, submitted: false, message: 'This survey has ended' }, error: 'This survey has ended' };
+
+beforeEach(() => {
+  queue().clear();
+  mockShowToast.mockClear();
+  uploadMock.mockReset();
+  existsMock.mockReset().mockResolvedValue(true);
+  (deleteStagedSurveyFile as jest.Mock).mockClear();
+  submitSpy = jest.spyOn(surveyApi, 'submitResponse').mockResolvedValue(accepted as never);
+  useAuthStore.setState({ auth: { token: 't', user: { id: 'u-1' } } } as never);
+  onlineManager.setOnline(true);
+});
+afterEach(() => submitSpy.mockRestore());
+
+describe('SurveySubmissionQueueStore', () => {
+  it('keeps one queued attempt per user and survey', () => {
+    enqueue();
+    enqueue({ idempotencyKey: 'key-00000002' }); // same user + survey — ignored
+    enqueue({ idempotencyKey: 'key-00000003', userId: 'u-2' });
+    expect(queue().pending.map((s) => s.idempotencyKey)).toEqual(['key-00000001', 'key-00000003']);
+  });
+
+  it('swaps a staged-file answer for the uploaded file id', () => {
+    stageFile();
+    enqueue({ responses: { q1: 'Yes', q2: toStagedFileAnswer('staged_1') } });
+    queue().resolveStagedFile('key-00000001', 'staged_1', 'file-9');
+    expect(queue().pending[0].responses).toEqual({ q1: 'Yes', q2: 'file-9' });
+    expect(queue().stagedFiles).toEqual({});
+  });
+});
+
+describe('useSurveySubmissionQueueProcessor', () => {
+  it('submits queued attempts on mount with their idempotency key', async () => {
+    enqueue();
+    renderProcessor();
+
+    await waitFor(() => expect(queue().pending).toHaveLength(0));
+    expect(submitSpy).toHaveBeenCalledWith('s-1', { q1: 'Yes' }, {
+      startedAt: '2026-10-18T08:00:00.000Z',
+      idempotencyKey: 'key-00000001',
+    });
+    expect(mockShowToast).toHaveBeenCalledWith(expect.objectContaining({ type: 'success' }));
+  });
+
+  it('uploads staged files first and submits the real file id', async () => {
+    uploadMock.mockResolvedValue({ success: true, data: { id: 'file-9' } });
+    stageFile();
+    enqueue({ responses: { q1: 'Yes', q2: toStagedFileAnswer('staged_1') } });
+    renderProcessor();
+
+    await waitFor(() => expect(queue().pending).toHaveLength(0));
+    expect(uploadMock).toHaveBeenCalledWith('s-1', 'q2', 'file:///docs/survey-staged/staged_1.pdf', 'receipt.pdf', 'application/pdf');
+    expect(submitSpy.mock.calls[0][1]).toEqual({ q1: 'Yes', q2: 'file-9' });
+    expect(deleteStagedSurveyFile).toHaveBeenCalledWith('file:///docs/survey-staged/staged_1.pdf');
+  });
+
+  it('keeps the attempt without using a retry when the network fails', async () => {
+    submitSpy.mockResolvedValue(offline as never);
+    enqueue();
+    renderProcessor();
+
+    await waitFor(() => expect(submitSpy).toHaveBeenCalledTimes(1));
+    await new Promise((r) => setTimeout(r, 30));
+    expect(queue().pending).toHaveLength(1);
+    expect(queue().pending[0].retryCount).toBe(0);
+  });
+
+  it('counts a rejection as a retry and discards the attempt after MAX_RETRIES', async () => {
+    submitSpy.mockResolvedValue(rejected as never);
+    enqueue();
+    queue().recordFailure('key-00000001', 'This survey has ended');
+    renderProcessor();
+
+    await waitFor(() => expect(queue().pending[0]?.retryCount).toBe(2));
+
+    // Third rejection — give up and tell the respondent
+    onlineManager.setOnline(false);
+    onlineManager.setOnline(true);
+    await waitFor(() => expect(queue().pending).toHaveLength(0));
+    expect(mockShowToast).toHaveBeenCalledWith(expect.objectContaining({ type: 'error' }));
+  });
+
+  it('drops an attempt whose staged file is gone from the device', async () => {
+    existsMock.mockResolvedValue(false);
+    stageFile();
+    enqueue({ responses: { q2: toStagedFileAnswer('staged_1') } });
+    renderProcessor();
+
+    await waitFor(() => expect(queue().pending).toHaveLength(0));
+    expect(uploadMock).not.toHaveBeenCalled();
+    expect(submitSpy).not.toHaveBeenCalled();
+    expect(queue().stagedFiles).toEqual({});
+  });
+
+  it("leaves another user's attempts queued", async () => {
+    enqueue({ userId: 'u-2' });
+    renderProcessor();
+
+    await new Promise((r) => setTimeout(r, 30));
+    expect(submitSpy).not.toHaveBeenCalled();
+    expect(queue().pending).toHaveLength(1);
+  });
+
+  it('does not replay while offline', async () => {
+    onlineManager.setOnline(false);
+    enqueue();
+    renderProcessor();
+
+    await new Promise((r) => setTimeout(r, 30));
+    expect(submitSpy).not.toHaveBeenCalled();
+    expect(queue().pending).toHaveLength(1);
+    onlineManager.setOnline(true);
+  });
+});
@@ -5,13 +5,20 @@
  * Only the aggregate data hook (useSurveyResponseData) is mocked; the real SurveyResponseUIStore
  * (and its pure parse/filter/analytics helpers) drives the view. The chart components are stubbed
  * to inert nodes so the SVG/analytics layer doesn't need a real canvas. Mirrors the question-detail
- * UI test: loading / access-denied / loaded states, the three view tabs, and the empty case.
+ * UI test: loading / access-denied / loaded states, the view tabs, and the empty case — plus
+ * saved segments narrowing the data, the Compare (cross-tab) view, the response-quality
+ * badge and filter, the quota fill card, and version scoping.
  */
 import React from 'react';
 import { renderWithProviders, screen, fireEvent, act } from '@/test-utils';
-import { useSurveyResponseData } from '@/services/surveyResponseHooks';
+import { useSurveyQuotas, useSurveyResponseData, useSurveyVersions } from '@/services/surveyResponseHooks';
 import { useSurveyResponseUIStore } from '@/store/SurveyResponseUIStore';
-import { makeResponseData, makeSurveyResponses } from '@/__tests__/fixtures/survey.factory';
+import {
+  makeResponseData,
+  makeSurveyResponse,
+  makeSurveyResponses,
+  makeUploadSurvey,
+} from '@/__tests__/fixtures/survey.factory';
 
 jest.mock('expo-router', () => ({
   __esModule: true,
@@ -21,6 +28,8 @@ jest.mock('expo-router', () => ({
 jest.mock('@/services/surveyResponseHooks', () => ({
   ...jest.requireActual('@/services/surveyResponseHooks'),
   useSurveyResponseData: jest.fn(),
+  useSurveyQuotas: jest.fn(),
+  useSurveyVersions: jest.fn(),
 }));
 jest.mock('@/utils/auth', () => ({
   ...jest.requireActual('@/utils/auth'),
@@ -39,6 +48,15 @@ jest.mock('@/components/ui/SurveyCharts', () => {
     StatCard: Stub,
     WordCloud: Stub,
     MiniLineChart: Stub,
+    // Surface the computed table so the Compare view's wiring can be asserted.
+    CrossTabTable: ({ crossTab }: { crossTab: { rows: string[]; columns: string[]; counts: number[][] } }) =>
+      React.createElement(
+        'Text',
+        null,
+        crossTab.rows.map((row, i) => `${row}: ${crossTab.counts[i].join('/')}`).join('; ')
+      ),
+    QuotaProgress: ({ quotas }: { quotas: { answer: string; filled: number; limit: number }[] }) =>
+      React.createElement('Text', null, quotas.map((q) => `${q.answer} ${q.filled}/${q.limit}`).join('; ')),
     default: Stub,
   };
 });
@@ -46,6 +64,8 @@ jest.mock('@/components/ui/SurveyCharts', () => {
 import SurveyResponsesScreen from '@/app/survey-responses/[id]';
 
 const mockUseResponseData = useSurveyResponseData as jest.Mock;
+const mockUseSurveyQuotas = useSurveyQuotas as jest.Mock;
+const mockUseSurveyVersions = useSurveyVersions as jest.Mock;
 
 async function render(data: ReturnType<typeof makeResponseData>) {
   mockUseResponseData.mockReturnValue(data);
@@ -56,6 +76,8 @@ async function render(data: ReturnType<typeof makeResponseData>) {
 
 beforeEach(() => {
   useSurveyResponseUIStore.getState().reset();
+  mockUseSurveyQuotas.mockReturnValue({ data: [] });
+  mockUseSurveyVersions.mockReturnValue({ data: undefined });
 });
 
 describe('SurveyResponsesScreen — states', () => {
@@ -76,7 +98,7 @@ describe('SurveyResponsesScreen — states', () => {
     expect(screen.getByLabelText('3 responses collected')).toBeOnTheScreen();
     expect(screen.getByRole('button', { name: 'Export responses' })).toBeOnTheScreen();
     expect(screen.getByRole('button', { name: 'Go back' })).toBeOnTheScreen();
-    for (const tab of ['Summary view', 'Questions view', 'Individual view']) {
+    for (const tab of ['Summary view', 'Questions view', 'Compare view', 'Individual view']) {
       expect(screen.getByRole('tab', { name: tab })).toBeOnTheScreen();
     }
   });
@@ -99,3 +121,147 @@ describe('SurveyResponsesScreen — view tabs', () => {
     expect(useSurveyResponseUIStore.getState().viewMode).toBe('individual');
   });
 });
+
+describe('SurveyResponsesScreen — segments & compare', () => {
+  const questions = [
+    makeUploadSurvey({ id: 'q-1', text: 'Age group', type: 'radio', options: JSON.stringify(['Under 25', '25+']) }),
+    makeUploadSurvey({ id: 'q-2', text: 'Would you recommend us?', type: 'boolean' }),
+  ];
+  const answers: [string, string][] = [
+    ['Under 25', 'true'],
+    ['Under 25', 'true'],
+    ['25+', 'false'],
+    ['25+', 'true'],
+  ];
+  const responses = answers.map(([age, recommend], i) =>
+    makeSurveyResponse({ id: `r-${i + 1}`, userId: `u-${i + 1}`, responses: JSON.stringify({ 'q-1': age, 'q-2': recommend }) })
+  );
+
+  it('saves a segment from the filter panel and applies it until cleared', async () => {
+    await render(makeResponseData({ questions, responses }));
+
+    fireEvent.press(screen.getByRole('button', { name: 'Open filters' }));
+    fireEvent.press(screen.getByRole('button', { name: 'Segment by question 1: Age group' }));
+    fireEvent.press(screen.getByRole('checkbox', { name: 'Under 25' }));
+    fireEvent.press(screen.getByRole('button', { name: 'Save segment' }));
+
+    const { activeSegment, savedSegments } = useSurveyResponseUIStore.getState();
+    expect(savedSegments).toEqual([activeSegment]);
+    expect(activeSegment).toMatchObject({ surveyId: 's-1', questionId: 'q-1', values: ['Under 25'] });
+    expect(screen.getByText('Q1: Under 25 · 2 respondents')).toBeOnTheScreen();
+
+    fireEvent.press(screen.getByRole('button', { name: 'Show all respondents' }));
+    expect(useSurveyResponseUIStore.getState().activeSegment).toBeNull();
+    // Clearing only deactivates — the saved segment stays available.
+    expect(screen.getByRole('button', { name: 'Segment Q1: Under 25' })).toBeOnTheScreen();
+  });
+
+  it('cross-tabulates one question by another, within the active segment', async () => {
+    await render(makeResponseData({ questions, responses }));
+    fireEvent.press(screen.getByRole('tab', { name: 'Compare view' }));
+
+    expect(screen.getByText('Rows: Q1. Age group · 4 answered both')).toBeOnTheScreen();
+    expect(screen.getByText('Under 25: 2/0; 25+: 1/1')).toBeOnTheScreen();
+
+    await act(async () => {
+      useSurveyResponseUIStore.getState().setActiveSegment({
+        id: 'seg-1',
+        surveyId: 's-1',
+        name: 'Fans',
+        questionId: 'q-2',
+        values: ['Yes'],
+      });
+    });
+    expect(screen.getByText('Rows: Q1. Age group · 3 answered both')).toBeOnTheScreen();
+    expect(screen.getByText('Under 25: 2; 25+: 1')).toBeOnTheScreen();
+  });
+});
+
+describe('SurveyResponsesScreen — response quality', () => {
+  const questions = [makeUploadSurvey({ id: 'q-1', text: 'Any feedback?', type: 'paragraph' })];
+  const responses = [
+    makeSurveyResponse({ id: 'r-1', userId: 'u-1', responses: JSON.stringify({ 'q-1': 'Loved the quick payouts.' }) }),
+    makeSurveyResponse({ id: 'r-2', userId: 'u-2', responses: JSON.stringify({ 'q-1': 'sdfghjkl qwerty' }) }),
+  ];
+
+  it('badges a flagged response and drops it under the Clean filter', async () => {
+    await render(makeResponseData({ questions, responses }));
+
+    fireEvent.press(screen.getByRole('button', { name: 'Open filters' }));
+    fireEvent.press(screen.getByRole('button', { name: 'Filter by quality flagged' }));
+    expect(screen.getByLabelText('1 responses collected')).toBeOnTheScreen();
+
+    fireEvent.press(screen.getByRole('tab', { name: 'Individual view' }));
+    expect(screen.getByLabelText('Quality score 70. Flagged: Gibberish')).toBeOnTheScreen();
+
+    fireEvent.press(screen.getByRole('button', { name: 'Exclude flagged responses' }));
+    expect(useSurveyResponseUIStore.getState().filters.quality).toBe('clean');
+    expect(screen.getByLabelText('1 responses collected')).toBeOnTheScreen();
+    expect(screen.queryByLabelText(/Quality score/)).toBeNull();
+  });
+});
+
+describe('SurveyResponsesScreen — quotas', () => {
+  it('shows the quota fill card only when the survey has quotas', async () => {
+    await render(makeResponseData({ responses: makeSurveyResponses(2) }));
+    expect(screen.queryByText('Quota Fill')).toBeNull();
+
+    mockUseSurveyQuotas.mockReturnValue({
+      data: [
+        { questionId: 'q-1', questionText: 'Gender', answer: 'Female', limit: 100, filled: 40, full: false },
+        { questionId: 'q-1', questionText: 'Gender', answer: 'Male', limit: 50, filled: 50, full: true },
+      ],
+    });
+    await render(makeResponseData({ responses: makeSurveyResponses(2) }));
+    expect(screen.getByText('Quota Fill')).toBeOnTheScreen();
+    expect(screen.getByText('Female 40/100; Male 50/50')).toBeOnTheScreen();
+    expect(mockUseSurveyQuotas).toHaveBeenCalledWith('s-1', { enabled: true });
+  });
+});
+
+describe('SurveyResponsesScreen — versions', () => {
+  const snapshot = (id: string, text: string, options: string[]) => ({
+    id, text, type: 'radio', options: JSON.stringify(options), placeholder: null, minValue: null, maxValue: null,
+    required: true, conditionalLogic: null, screener: null, translations: null,
+  });
+  const version = (n: number, questions: ReturnType<typeof snapshot>[], responseCount: number) => ({
+    version: n, title: 'Phones', questions, restoredFrom: null, createdAt: '2026-06-01T00:00:00.000Z', responseCount,
+  });
+  const questions = [makeUploadSurvey({ id: 'q-1', text: 'Brand?', type: 'radio', options: JSON.stringify(['Tecno', 'Itel', 'Samsung']) })];
+  const responses = [
+    makeSurveyResponse({ id: 'r-1', userId: 'u-1', surveyVersion: null, responses: JSON.stringify({ 'q-1': 'Tecno' }) }),
+    makeSurveyResponse({ id: 'r-2', userId: 'u-2', surveyVersion: 2, responses: JSON.stringify({ 'q-1': 'Samsung' }) }),
+    makeSurveyResponse({ id: 'r-3', userId: 'u-3', surveyVersion: 2, responses: JSON.stringify({ 'q-1': 'Itel' }) }),
+  ];
+
+  it('scopes every view to one version, and notes answers left out when merged', async () => {
+    mockUseSurveyVersions.mockReturnValue({
+      data: {
+        currentVersion: 2,
+        versions: [
+          version(2, [snapshot('q-1', 'Brand?', ['Tecno', 'Itel', 'Samsung'])], 2),
+          version(1, [snapshot('q-1', 'Brand?', ['Tecno', 'Itel'])], 1),
+        ],
+      },
+    });
+    await render(makeResponseData({ questions, responses }));
+    expect(mockUseSurveyVersions).toHaveBeenCalledWith('s-1', { enabled: true });
+
+    fireEvent.press(screen.getByRole('button', { name: 'Open filters' }));
+    expect(screen.getByText('1 older answer is left out — its question has changed since.')).toBeOnTheScreen();
+
+    fireEvent.press(screen.getByRole('button', { name: 'Only version 1' }));
+    expect(useSurveyResponseUIStore.getState().versionScope).toEqual({ surveyId: 's-1', version: 1 });
+    expect(screen.getByLabelText('1 responses collected')).toBeOnTheScreen();
+
+    fireEvent.press(screen.getByRole('button', { name: 'Merge all versions' }));
+    expect(screen.getByLabelText('3 responses collected')).toBeOnTheScreen();
+  });
+
+  it('hides the version filter until a survey has a second version', async () => {
+    await render(makeResponseData({ questions, responses }));
+    fireEvent.press(screen.getByRole('button', { name: 'Open filters' }));
+    expect(screen.queryByRole('button', { name: 'Merge all versions' })).toBeNull();
+    expect(screen.getByRole('button', { name: 'Version history' })).toBeOnTheScreen();
+  });
+});
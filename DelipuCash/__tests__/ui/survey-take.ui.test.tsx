@@ -5,14 +5,20 @@
  * This is the most complex survey screen: 5 states (success / loading / already-attempted /
  * unavailable / main flow), step navigation, required-field gating, conditional-logic question
  * hiding, and a review→submit→success path. The data-hook surface is mocked; the real
- * SurveyAttemptStore and real conditionalLogic engine drive behaviour. The heavy success overlay
+ * SurveyAttemptStore and real conditionalLogic engine drive behaviour — including screener
+ * questions, which end the attempt early, and multilingual surveys, which show
+ * translated labels while submitting the source ones. The heavy success overlay
  * and the file-upload question (expo-document-picker) are stubbed so the screen renders in jsdom.
  */
 import React from 'react';
 import { Alert } from 'react-native';
 import { renderWithProviders, screen, fireEvent, act } from '@/test-utils';
 import { useSurvey, useCheckSurveyAttempt, useSubmitSurvey } from '@/services/hooks';
+import { useSurveyQuotas } from '@/services/surveyResponseHooks';
 import { useSurveyAttemptStore } from '@/store/SurveyAttemptStore';
+import { useSurveySubmissionQueueStore } from '@/store/SurveySubmissionQueueStore';
+import { SurveySubmitError } from '@/services/surveyApi';
+import { onlineManager } from '@tanstack/react-query';
 import {
   makeSurveyDetailQuery,
   makeSurveyWithQuestions,
@@ -31,6 +37,10 @@ jest.mock('@/services/hooks', () => ({
   useCheckSurveyAttempt: jest.fn(),
   useSubmitSurvey: jest.fn(),
 }));
+jest.mock('@/services/surveyResponseHooks', () => ({
+  ...jest.requireActual('@/services/surveyResponseHooks'),
+  useSurveyQuotas: jest.fn(),
+}));
 jest.mock('@/utils/auth', () => ({
   ...jest.requireActual('@/utils/auth'),
   useAuth: () => ({ auth: { user: { id: 'u-1' } }, isReady: true }),
@@ -84,9 +94,10 @@ import SurveyAttemptScreen from '@/app/survey/[id]';
 const mockUseSurvey = useSurvey as jest.Mock;
 const mockUseCheckAttempt = useCheckSurveyAttempt as jest.Mock;
 const mockUseSubmit = useSubmitSurvey as jest.Mock;
+const mockUseSurveyQuotas = useSurveyQuotas as jest.Mock;
 
 // A submit mutation whose .mutate immediately drives onSuccess with an awarded reward.
-const submitMutate = jest.fn((_args: unknown, opts?: { onSuccess?: (d: unknown) => void }) => {
+const submitMutate = jest.fn((_args: unknown, opts?: { onSuccess?: (d: unknown) => void; onError?: (e: Error) => void }) => {
   opts?.onSuccess?.({ pointsAwarded: 500 });
 });
 
@@ -112,8 +123,10 @@ let alertSpy: jest.SpyInstance;
 
 beforeEach(() => {
   useSurveyAttemptStore.getState().reset();
+  useSurveySubmissionQueueStore.getState().clear();
   submitMutate.mockClear();
   mockUseSubmit.mockReturnValue({ mutate: submitMutate, isPending: false });
+  mockUseSurveyQuotas.mockReturnValue({ data: undefined });
   alertSpy = jest.spyOn(Alert, 'alert').mockImplementation(() => {});
 });
 afterEach(() => alertSpy.mockRestore());
@@ -247,6 +260,163 @@ describe('SurveyAttemptScreen — conditional logic (question hiding)', () => {
   });
 });
 
+describe('SurveyAttemptScreen — skip_to branching', () => {
+  const branchingSurvey = () =>
+    makeSurveyWithQuestions([
+      radio({
+        id: 'q1',
+        text: 'Do you drive?',
+        conditionalLogic: {
+          logicType: 'all',
+          rules: [{ sourceQuestionId: 'q1', operator: 'equals', value: 'No', action: 'skip_to', targetQuestionId: 'q3' }],
+        },
+      }),
+      radio({ id: 'q2', text: 'Is your car electric?' }),
+      radio({ id: 'q3', text: 'How do you commute?' }),
+    ]);
+
+  it('jumps over the skipped question and Back returns to where the jump started', async () => {
+    await render(makeSurveyDetailQuery(branchingSurvey()));
+
+    fireEvent.press(screen.getByRole('radio', { name: 'No' }));
+    // The skipped question drops out of the path entirely.
+    expect(screen.getByText('Questions: 2')).toBeOnTheScreen();
+
+    fireEvent.press(screen.getByRole('button', { name: 'Next' }));
+    expect(screen.getByText('How do you commute?')).toBeOnTheScreen();
+    expect(useSurveyAttemptStore.getState().questionHistory).toEqual(['q1']);
+
+    fireEvent.press(screen.getByRole('button', { name: 'Previous' }));
+    expect(screen.getByText('Do you drive?')).toBeOnTheScreen();
+    expect(useSurveyAttemptStore.getState().questionHistory).toEqual([]);
+  });
+
+  it('does not submit answers left behind on an abandoned branch', async () => {
+    await render(makeSurveyDetailQuery(branchingSurvey()));
+
+    // Take the long branch, answer q2, then go back and switch to the short branch.
+    fireEvent.press(screen.getByRole('radio', { name: 'Yes' }));
+    fireEvent.press(screen.getByRole('button', { name: 'Next' }));
+    fireEvent.press(screen.getByRole('radio', { name: 'Yes' }));
+    fireEvent.press(screen.getByRole('button', { name: 'Previous' }));
+    fireEvent.press(screen.getByRole('radio', { name: 'No' }));
+    fireEvent.press(screen.getByRole('button', { name: 'Next' }));
+    fireEvent.press(screen.getByRole('radio', { name: 'Yes' }));
+    fireEvent.press(screen.getByRole('button', { name: 'Review & Submit' }));
+
+    await act(async () => {
+      fireEvent.press(screen.getByRole('button', { name: 'Submit survey responses' }));
+    });
+
+    expect(submitMutate.mock.calls[0][0]).toEqual({
+      surveyId: 's-1',
+      responses: { q1: 'No', q3: 'Yes' },
+      startedAt: expect.any(String),
+      idempotencyKey: expect.any(String),
+    });
+  });
+});
+
+describe('SurveyAttemptScreen — answer piping', () => {
+  it('fills {{q1}} and computed {{tier}} from earlier answers, keeping option values raw', async () => {
+    await render(
+      makeSurveyDetailQuery(
+        makeSurveyWithQuestions(
+          [
+            radio({ id: 'q1', text: 'Would you recommend us?' }),
+            radio({
+              id: 'q2',
+              text: 'You answered {{q1}} ({{tier}}) — anything to add?',
+              options: JSON.stringify(['Yes, re {{q1}}', 'No']),
+            }),
+          ],
+          {
+            computedVariables: [
+              {
+                id: 'v1',
+                name: 'tier',
+                kind: 'segment',
+                sourceQuestionIds: [],
+                source: 'q1',
+                bands: [{ min: 1, label: 'fan' }, { min: 2, label: 'critic' }],
+                fallback: 'unknown',
+              },
+            ],
+          }
+        )
+      )
+    );
+
+    fireEvent.press(screen.getByRole('radio', { name: 'Yes' }));
+    fireEvent.press(screen.getByRole('button', { name: 'Next' }));
+
+    expect(screen.getByText('You answered Yes (fan) — anything to add?')).toBeOnTheScreen();
+    fireEvent.press(screen.getByRole('radio', { name: 'Yes, re Yes' }));
+    // The stored answer is the option's authored value, not its piped display text.
+    expect(useSurveyAttemptStore.getState().answers.q2).toBe('Yes, re {{q1}}');
+  });
+});
+
+describe('SurveyAttemptScreen — matrix, ranking & NPS', () => {
+  const nextButton = () => screen.getByRole('button', { name: 'Next' });
+
+  it('accepts an NPS of 0 as an answer', async () => {
+    await render(
+      makeSurveyDetailQuery(
+        makeSurveyWithQuestions([
+          makeUploadSurvey({ id: 'q1', type: 'nps', options: '{"min":0,"max":10}' }),
+          radio({ id: 'q2' }),
+        ])
+      )
+    );
+
+    expect(nextButton()).toBeDisabled();
+    fireEvent.press(screen.getByRole('radio', { name: '0 out of 10' }));
+    expect(useSurveyAttemptStore.getState().answers.q1).toBe(0);
+    expect(nextButton()).toBeEnabled();
+  });
+
+  it('gates a matrix until every row is answered, storing a row-aligned answer', async () => {
+    await render(
+      makeSurveyDetailQuery(
+        makeSurveyWithQuestions([
+          makeUploadSurvey({
+            id: 'q1',
+            type: 'matrix',
+            options: JSON.stringify({ rows: ['Speed', 'Price'], columns: ['Bad', 'Good'] }),
+          }),
+          radio({ id: 'q2' }),
+        ])
+      )
+    );
+
+    fireEvent.press(screen.getByRole('radio', { name: 'Price: Good' }));
+    expect(useSurveyAttemptStore.getState().answers.q1).toEqual(['', 'Good']);
+    expect(nextButton()).toBeDisabled();
+
+    fireEvent.press(screen.getByRole('radio', { name: 'Speed: Bad' }));
+    expect(useSurveyAttemptStore.getState().answers.q1).toEqual(['Bad', 'Good']);
+    expect(nextButton()).toBeEnabled();
+  });
+
+  it('records a ranking once the respondent reorders or keeps the order', async () => {
+    await render(
+      makeSurveyDetailQuery(
+        makeSurveyWithQuestions([
+          makeUploadSurvey({ id: 'q1', type: 'ranking', options: JSON.stringify(['Tea', 'Coffee', 'Juice']) }),
+          radio({ id: 'q2' }),
+        ])
+      )
+    );
+
+    expect(nextButton()).toBeDisabled();
+    fireEvent.press(screen.getByRole('button', { name: 'Move Juice up' }));
+    expect(useSurveyAttemptStore.getState().answers.q1).toEqual(['Tea', 'Juice', 'Coffee']);
+    expect(nextButton()).toBeEnabled();
+    expect(screen.queryByRole('button', { name: 'Keep this order' })).toBeNull();
+  });
+});
+
 describe('SurveyAttemptScreen — review & submit', () => {
   it('opens the review modal, submits the collected answers, and shows the success overlay', async () => {
     await render(makeSurveyDetailQuery(makeSurveyWithQuestions([radio({ id: 'q1', text: 'Q one' })])));
@@ -264,12 +434,164 @@ describe('SurveyAttemptScreen — review & submit', () => {
     expect(submitMutate).toHaveBeenCalledTimes(1);
     // The answer is the option TEXT ("Yes") — not a synthetic "opt_0" id — so it
     // matches conditional-logic rule values and analytics buckets server-side.
-    expect(submitMutate.mock.calls[0][0]).toEqual({ surveyId: 's-1', responses: { q1: 'Yes' } });
+    // startedAt is the attempt's start — the owner's speeder check measures from it.
+    expect(submitMutate.mock.calls[0][0]).toEqual({
+      surveyId: 's-1',
+      responses: { q1: 'Yes' },
+      startedAt: useSurveyAttemptStore.getState().startedAt,
+      idempotencyKey: expect.any(String),
+    });
     // onSuccess → success overlay (stubbed) receives the awarded points.
     expect(screen.getByText('Completed: 500 pts')).toBeOnTheScreen();
   });
 });
 
+describe('SurveyAttemptScreen — offline submission queue', () => {
+  const answerAndSubmit = async () => {
+    await render(makeSurveyDetailQuery(makeSurveyWithQuestions([radio({ id: 'q1', text: 'Q one' })])));
+    fireEvent.press(screen.getByRole('radio', { name: 'Yes' }));
+    fireEvent.press(screen.getByRole('button', { name: 'Review & Submit' }));
+    await act(async () => {
+      fireEvent.press(screen.getByRole('button', { name: 'Submit survey responses' }));
+    });
+  };
+
+  afterEach(() => onlineManager.setOnline(true));
+
+  it('queues the attempt instead of submitting while offline', async () => {
+    onlineManager.setOnline(false);
+    await answerAndSubmit();
+
+    expect(submitMutate).not.toHaveBeenCalled();
+    const [queued] = useSurveySubmissionQueueStore.getState().pending;
+    expect(queued).toMatchObject({ userId: 'u-1', surveyId: 's-1', responses: { q1: 'Yes' }, retryCount: 0 });
+    expect(queued.idempotencyKey).toEqual(expect.any(String));
+    expect(alertSpy).toHaveBeenCalledWith('Saved Offline', expect.any(String), expect.any(Array));
+    // The queue holds the answers now — no draft left to resume into a second attempt
+    expect(useSurveyAttemptStore.getState().drafts['s-1']).toBeUndefined();
+    expect(screen.getByText('Waiting to Submit')).toBeOnTheScreen();
+  });
+
+  it('queues with the same idempotency key when the submit never reached the server', async () => {
+    submitMutate.mockImplementationOnce((_args: unknown, opts?: { onError?: (e: Error) => void }) => {
+      opts?.onError?.(new SurveySubmitError('Network request failed', false));
+    });
+    await answerAndSubmit();
+
+    const sentKey = (submitMutate.mock.calls[0][0] as { idempotencyKey: string }).idempotencyKey;
+    expect(useSurveySubmissionQueueStore.getState().pending[0].idempotencyKey).toBe(sentKey);
+    expect(alertSpy).toHaveBeenCalledWith('Saved Offline', expect.any(String), expect.any(Array));
+  });
+
+  it('does not queue a submission the server rejected', async () => {
+    submitMutate.mockImplementationOnce((_args: unknown, opts?: { onError?: (e: Error) => void }) => {
+      opts?.onError?.(new SurveySubmitError('This survey has ended', true));
+    });
+    await answerAndSubmit();
+
+    expect(useSurveySubmissionQueueStore.getState().pending).toHaveLength(0);
+    expect(alertSpy).toHaveBeenCalledWith('Submission Failed', 'This survey has ended', expect.any(Array));
+  });
+});
+
+describe('SurveyAttemptScreen — screeners & quotas', () => {
+  const screened = () =>
+    makeSurveyDetailQuery(
+      makeSurveyWithQuestions([
+        radio({
+          id: 'q1',
+          text: 'Do you drive?',
+          screener: { qualifying: ['Yes'], quotas: [{ answer: 'Yes', limit: 2 }] },
+        }),
+        radio({ id: 'q2', text: 'Paid question' }),
+      ])
+    );
+
+  it('thanks a respondent who does not qualify and never submits', async () => {
+    await render(screened());
+    fireEvent.press(screen.getByRole('radio', { name: 'No' }));
+    fireEvent.press(screen.getByRole('button', { name: 'Next' }));
+
+    expect(screen.getByText('Thanks for Your Interest')).toBeOnTheScreen();
+    expect(submitMutate).not.toHaveBeenCalled();
+    expect(useSurveyAttemptStore.getState().screenedOut['s-1']).toBe('screened_out');
+    expect(useSurveyAttemptStore.getState().drafts['s-1']).toBeUndefined();
+  });
+
+  it('ends the attempt when the qualifying answer’s quota is already full', async () => {
+    mockUseSurveyQuotas.mockReturnValue({
+      data: [{ questionId: 'q1', questionText: 'Do you drive?', answer: 'Yes', limit: 2, filled: 2, full: true }],
+    });
+    await render(screened());
+    fireEvent.press(screen.getByRole('radio', { name: 'Yes' }));
+    fireEvent.press(screen.getByRole('button', { name: 'Next' }));
+
+    expect(screen.getByText('This Survey Is Full')).toBeOnTheScreen();
+    expect(mockUseSurveyQuotas).toHaveBeenCalledWith('s-1', { enabled: true });
+  });
+
+  it('continues into the paid section with a qualifying answer', async () => {
+    await render(screened());
+    fireEvent.press(screen.getByRole('radio', { name: 'Yes' }));
+    fireEvent.press(screen.getByRole('button', { name: 'Next' }));
+    expect(screen.getByText('Question 2 of 2')).toBeOnTheScreen();
+  });
+
+  it('shows the full screen when the server refuses the submit as over quota', async () => {
+    submitMutate.mockImplementationOnce((_args: unknown, opts?: { onError?: (e: Error) => void }) => {
+      opts?.onError?.(new SurveySubmitError('This survey is full', true, 'OVER_QUOTA'));
+    });
+    await render(makeSurveyDetailQuery(makeSurveyWithQuestions([radio({ id: 'q1', text: 'Q one' })])));
+    fireEvent.press(screen.getByRole('radio', { name: 'Yes' }));
+    fireEvent.press(screen.getByRole('button', { name: 'Review & Submit' }));
+    await act(async () => {
+      fireEvent.press(screen.getByRole('button', { name: 'Submit survey responses' }));
+    });
+
+    expect(screen.getByText('This Survey Is Full')).toBeOnTheScreen();
+    expect(alertSpy).not.toHaveBeenCalled();
+  });
+});
+
+describe('SurveyAttemptScreen — multilingual surveys', () => {
+  const multilingual = () =>
+    makeSurveyDetailQuery(
+      makeSurveyWithQuestions(
+        [
+          radio({
+            id: 'q1',
+            text: 'Do you drive?',
+            translations: { lg: { text: 'Ovuga emmotoka?', options: ['Yee', 'Nedda'] } },
+          }),
+        ],
+        { title: 'Driving', defaultLanguage: 'en', languages: ['lg'], translations: { lg: { title: 'Okuvuga' } } }
+      )
+    );
+
+  it('switches to a translation and remembers the pick', async () => {
+    await render(multilingual());
+    expect(screen.getByText('Do you drive?')).toBeOnTheScreen();
+
+    fireEvent.press(screen.getByRole('radio', { name: 'Luganda' }));
+    expect(screen.getByText('Okuvuga')).toBeOnTheScreen();
+    expect(screen.getByText('Ovuga emmotoka?')).toBeOnTheScreen();
+    expect(useSurveyAttemptStore.getState().preferredLanguage).toBe('lg');
+  });
+
+  it('submits the source label and the language it was answered in', async () => {
+    useSurveyAttemptStore.getState().setPreferredLanguage('lg');
+    await render(multilingual());
+
+    fireEvent.press(screen.getByRole('radio', { name: 'Yee' }));
+    fireEvent.press(screen.getByRole('button', { name: 'Review & Submit' }));
+    await act(async () => {
+      fireEvent.press(screen.getByRole('button', { name: 'Submit survey responses' }));
+    });
+
+    expect(submitMutate.mock.calls[0][0]).toMatchObject({ responses: { q1: 'Yes' }, language: 'lg' });
+  });
+});
+
 describe('SurveyAttemptScreen — answer encoding', () => {
   it('submits checkbox answers as an array of option TEXT (not opt_N ids)', async () => {
     await render(
@@ -296,6 +618,8 @@ describe('SurveyAttemptScreen — answer encoding', () => {
     expect(submitMutate.mock.calls[0][0]).toEqual({
       surveyId: 's-1',
       responses: { q1: ['Red', 'Blue'] },
+      startedAt: expect.any(String),
+      idempotencyKey: expect.any(String),
     });
   });
 });
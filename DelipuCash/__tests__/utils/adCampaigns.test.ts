@@ -0,0 +1,166 @@
+/**
+ * Unit tests for campaign dashboard helpers (utils/adCampaigns.ts).
+ *
+ * Locks the pacing and timeline labels, chart scaling, which edits send an
+ * ad back to review, and the CSV export's escaping.
+ */
+import {
+  barHeights,
+  campaignCsv,
+  campaignEditChanges,
+  campaignEditForm,
+  formatPercent,
+  formatUGX,
+  pacingLabel,
+  pacingProgress,
+  seriesTotal,
+  timelineLabel,
+} from '@/utils/adCampaigns';
+import type { AdCampaign, AdPerformanceDay, AdSpendPacing } from '@/types';
+
+const pacing = (overrides: Partial<AdSpendPacing> = {}): AdSpendPacing => ({
+  dailyBudgetLimit: 4000,
+  spentToday: 2000,
+  expectedByNow: 2000,
+  resetsAt: '2026-10-19T00:00:00.000Z',
+  pacing: 'on_track',
+  ...overrides,
+});
+
+const campaign = (overrides: Partial<AdCampaign> = {}): AdCampaign => ({
+  id: 'ad-1',
+  title: 'Fresh juice',
+  headline: null,
+  description: 'Cold-pressed daily',
+  targetUrl: 'https://juice.example',
+  thumbnailUrl: null,
+  type: 'regular',
+  placement: 'feed',
+  pricingModel: 'cpm',
+  status: 'approved',
+  isActive: true,
+  rejectionReason: null,
+  startDate: null,
+  endDate: null,
+  createdAt: '2026-10-01T09:00:00.000Z',
+  totalBudget: 50000,
+  amountSpent: 10000,
+  bidAmount: 2000,
+  dailyBudgetLimit: 4000,
+  impressions: 5000,
+  views: 4000,
+  clicks: 100,
+  conversions: 5,
+  metrics: {
+    ctr: 2,
+    conversionRate: 5,
+    costPerMille: 2000,
+    costPerClick: 100,
+    budgetRemaining: 40000,
+    budgetUtilization: 20,
+    daysRunning: 18,
+  },
+  pacing: pacing(),
+  canPause: true,
+  canResume: false,
+  ...overrides,
+});
+
+const days: AdPerformanceDay[] = [
+  { date: '2026-10-16', impressions: 0, clicks: 0, ctr: 0, spend: 0 },
+  { date: '2026-10-17', impressions: 500, clicks: 10, ctr: 2, spend: 1000 },
+  { date: '2026-10-18', impressions: 250, clicks: 2, ctr: 0.8, spend: 500.5 },
+];
+
+describe('formatting', () => {
+  it('formats UGX and percentages', () => {
+    expect(formatUGX(12500)).toBe('UGX 12,500');
+    expect(formatUGX(0.5)).toBe('UGX 0.5');
+    expect(formatPercent(2.345)).toBe('2.35%');
+    expect(formatPercent(2)).toBe('2%');
+  });
+});
+
+describe('pacing', () => {
+  it('labels each pacing state', () => {
+    expect(pacingLabel(pacing())).toBe('On track · UGX 2,000 of UGX 4,000 today');
+    expect(pacingLabel(pacing({ pacing: 'ahead', spentToday: 3000 }))).toBe('Spending fast · UGX 3,000 of UGX 4,000 today');
+    expect(pacingLabel(pacing({ pacing: 'capped', spentToday: 4000 }))).toMatch(/^Daily budget reached/);
+    expect(pacingLabel(pacing({ pacing: 'no_limit', dailyBudgetLimit: null }))).toBe('No daily limit · UGX 2,000 today');
+  });
+
+  it('shows progress through the daily budget only when there is one', () => {
+    expect(pacingProgress(pacing())).toBe(0.5);
+    expect(pacingProgress(pacing({ spentToday: 5000 }))).toBe(1);
+    expect(pacingProgress(pacing({ dailyBudgetLimit: null }))).toBeNull();
+  });
+});
+
+describe('timelineLabel', () => {
+  const entry = (status: AdCampaign['status'], actor: 'advertiser' | 'review' | 'system') => ({
+    status,
+    actor,
+    reason: null,
+    at: '2026-10-18T12:00:00.000Z',
+  });
+
+  it('tells a submission from a resubmission', () => {
+    expect(timelineLabel(entry('pending', 'advertiser'), true)).toBe('Submitted for review');
+    expect(timelineLabel(entry('pending', 'advertiser'), false)).toBe('Edited — back in review');
+  });
+
+  it('tells an approval from a resume, and names budget exhaustion', () => {
+    expect(timelineLabel(entry('approved', 'review'), false)).toBe('Approved');
+    expect(timelineLabel(entry('approved', 'advertiser'), false)).toBe('Resumed');
+    expect(timelineLabel(entry('completed', 'system'), false)).toBe('Budget spent');
+  });
+});
+
+describe('chart', () => {
+  it('scales each day to the busiest one', () => {
+    expect(barHeights(days, 'impressions')).toEqual([0, 1, 0.5]);
+    expect(barHeights(days.slice(0, 1), 'clicks')).toEqual([0]);
+    expect(seriesTotal(days, 'spend')).toBe(1500.5);
+  });
+});
+
+describe('campaignEditChanges', () => {
+  it('sends only what changed', () => {
+    const form = { ...campaignEditForm(campaign()), totalBudget: '60000' };
+    expect(campaignEditChanges(campaign(), form)).toEqual({
+      error: null,
+      payload: { totalBudget: 60000 },
+      sendsToReview: false,
+    });
+  });
+
+  it('flags a creative change on a reviewed ad', () => {
+    const form = { ...campaignEditForm(campaign()), title: 'Now 50% off' };
+    expect(campaignEditChanges(campaign(), form)).toMatchObject({ payload: { title: 'Now 50% off' }, sendsToReview: true });
+    // A pending ad is already in review
+    expect(campaignEditChanges(campaign({ status: 'pending' }), form)).toMatchObject({ sendsToReview: false });
+  });
+
+  it('clears the daily limit when emptied', () => {
+    const form = { ...campaignEditForm(campaign()), dailyBudgetLimit: ' ' };
+    expect(campaignEditChanges(campaign(), form)).toMatchObject({ payload: { dailyBudgetLimit: null } });
+  });
+
+  it('rejects budgets below the spend, a daily limit over the budget, and bad links', () => {
+    const base = campaignEditForm(campaign());
+    expect(campaignEditChanges(campaign(), { ...base, totalBudget: '5000' }).error).toMatch(/already spent/);
+    expect(campaignEditChanges(campaign(), { ...base, dailyBudgetLimit: '90000' }).error).toMatch(/more than the total/);
+    expect(campaignEditChanges(campaign(), { ...base, targetUrl: 'juice.example' }).error).toMatch(/http/);
+    expect(campaignEditChanges(campaign(), { ...base, title: '  ' }).error).toBe('Add a title');
+  });
+});
+
+describe('campaignCsv', () => {
+  it('writes totals, then one escaped row per day', () => {
+    const csv = campaignCsv(campaign({ title: 'Say "hi", Kampala' }), days).split('\n');
+    expect(csv[0]).toBe('"Campaign","Say ""hi"", Kampala"');
+    expect(csv[1]).toBe('"Status","Running"');
+    expect(csv).toContain('"Date","Impressions","Clicks","CTR (%)","Spend (UGX)"');
+    expect(csv[csv.length - 1]).toBe('"2026-10-18","250","2","0.8","500.5"');
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Unit tests for ad audience targeting (utils/adTargeting.ts).
+ *
+ * Locks which ads a viewer may see, how the fit is ranked, what the
+ * personalized-ads opt-out leaves out, and the "Why this ad?" wording.
+ */
+import {
+  MIN_INTEREST_VIEWS,
+  TOPIC_COUNT_LIMIT,
+  addWatchedTopics,
+  adViewerProfile,
+  interestsFromTopics,
+  matchAdTargeting,
+  rankAdsForViewer,
+  regionFromLocale,
+  whyThisAd,
+} from '@/utils/adTargeting';
+import { DEFAULT_AD_CONFIG, selectAd } from '@/utils/feedAdEngine';
+import type { Ad } from '@/types';
+
+const ad = (overrides: Partial<Ad> = {}): Ad => ({
+  id: 'ad-1',
+  title: 'Fresh juice',
+  isActive: true,
+  priority: 5,
+  ...overrides,
+}) as Ad;
+
+const viewer = adViewerProfile({
+  personalizedAds: true,
+  ageRange: '25-34',
+  gender: 'female',
+  region: { code: 'UG', name: 'Uganda' },
+  topicCounts: { football: 3, cooking: 1 },
+});
+
+describe('interests', () => {
+  it('counts each watched tag once, normalized', () => {
+    expect(addWatchedTopics({ football: 1 }, [' Football', 'football', 'music', ''])).toEqual({ football: 2, music: 1 });
+    const counts = { football: 1 };
+    expect(addWatchedTopics(counts, [' '])).toBe(counts);
+  });
+
+  it('forgets the least-watched tags past the limit, never the ones just counted', () => {
+    const full = Object.fromEntries(Array.from({ length: TOPIC_COUNT_LIMIT }, (_, i) => [`tag-${i}`, i + 1]));
+    const next = addWatchedTopics(full, ['new']);
+    expect(Object.keys(next)).toHaveLength(TOPIC_COUNT_LIMIT);
+    expect(next.new).toBe(1);
+    expect(next['tag-0']).toBeUndefined();
+  });
+
+  it(`needs ${MIN_INTEREST_VIEWS} views of an interest, strongest first`, () => {
+    expect(interestsFromTopics({ cooking: 1, music: 2, soccer: 2, football: 2 })).toEqual(['Sports', 'Music']);
+    expect(interestsFromTopics({})).toEqual([]);
+  });
+});
+
+describe('adViewerProfile', () => {
+  it('keeps only the coarse location when personalized ads are off', () => {
+    expect(adViewerProfile({
+      personalizedAds: false,
+      ageRange: '25-34',
+      gender: 'female',
+      region: { code: 'UG', name: 'Uganda' },
+      topicCounts: { football: 3 },
+    })).toEqual({ personalized: false, ageRange: null, gender: null, locations: ['ug', 'uganda'], interests: [] });
+  });
+
+  it('uses everything it has when they are on', () => {
+    expect(viewer).toEqual({
+      personalized: true,
+      ageRange: '25-34',
+      gender: 'female',
+      locations: ['ug', 'uganda'],
+      interests: ['Sports'],
+    });
+  });
+
+  it('reads the country from a locale', () => {
+    expect(regionFromLocale('en-UG')).toBe('UG');
+    expect(regionFromLocale('sw_ke')).toBe('KE');
+    expect(regionFromLocale('zh-Hant-TW')).toBe('TW');
+    expect(regionFromLocale('en')).toBeNull();
+    expect(regionFromLocale(undefined)).toBeNull();
+  });
+});
+
+describe('matchAdTargeting', () => {
+  it('rules out an ad when a known attribute falls outside its audience', () => {
+    expect(matchAdTargeting(ad({ targetAgeRanges: ['45-54'] }), viewer).eligible).toBe(false);
+    expect(matchAdTargeting(ad({ targetGender: 'male' }), viewer).eligible).toBe(false);
+    expect(matchAdTargeting(ad({ targetLocations: ['Kenya'] }), viewer).eligible).toBe(false);
+  });
+
+  it('scores each part of the audience the viewer is in', () => {
+    expect(matchAdTargeting(ad({
+      targetAgeRanges: ['18-24', '25-34'],
+      targetGender: 'female',
+      targetLocations: ['Kenya', ' Uganda '],
+      targetInterests: ['sports', 'Music'],
+    }), viewer)).toEqual({
+      eligible: true,
+      score: 4,
+      reasons: [
+        "It's for people aged 25-34, like you",
+        "It's for women",
+        "It's for people in Uganda, where you are",
+        'You watch videos about sports',
+      ],
+    });
+  });
+
+  it('is lenient about what it does not know, and interests never rule out', () => {
+    const anonymous = adViewerProfile({ personalizedAds: false });
+    const targeted = ad({ targetAgeRanges: ['45-54'], targetGender: 'male', targetLocations: ['Kenya'], targetInterests: ['Gaming'] });
+    expect(matchAdTargeting(targeted, anonymous)).toEqual({ eligible: true, score: 0, reasons: [] });
+    expect(matchAdTargeting(ad({ targetInterests: ['Gaming'] }), viewer).eligible).toBe(true);
+  });
+});
+
+describe('ranking', () => {
+  it('drops ineligible ads and puts the best fit first, keeping ties in order', () => {
+    const ads = [
+      ad({ id: 'plain' }),
+      ad({ id: 'elsewhere', targetLocations: ['Kenya'] }),
+      ad({ id: 'sports', targetInterests: ['Sports'] }),
+      ad({ id: 'plain-2' }),
+    ];
+    expect(rankAdsForViewer(ads, viewer).map((a) => a.id)).toEqual(['sports', 'plain', 'plain-2']);
+  });
+
+  it('keeps selectAd away from ads aimed at someone else', () => {
+    const context = { sessionExposure: {}, crossSessionExposure: {}, sessionAdCount: 0, viewer };
+    const ads = [ad({ id: 'men', targetGender: 'male', priority: 9 }), ad({ id: 'all', priority: 1 })];
+    expect(selectAd(ads, context, [], DEFAULT_AD_CONFIG)?.id).toBe('all');
+    expect(selectAd([ads[0]], context, [], DEFAULT_AD_CONFIG)).toBeNull();
+    expect(selectAd(ads, { ...context, viewer: undefined }, [], DEFAULT_AD_CONFIG)?.id).toBe('men');
+  });
+});
+
+describe('whyThisAd', () => {
+  it('gives the match reasons, or says the audience is open', () => {
+    expect(whyThisAd(ad({ targetInterests: ['Sports'] }), viewer)).toEqual(['You watch videos about sports']);
+    expect(whyThisAd(ad({ targetAgeRanges: ['13-17', '18-24', '25-34', '35-44', '45-54', '55-64', '65+'] }), viewer))
+      .toEqual(["The advertiser didn't narrow its audience, so anyone can see it"]);
+  });
+
+  it('says when personalization was off', () => {
+    const anonymous = adViewerProfile({ personalizedAds: false });
+    expect(whyThisAd(ad({ targetGender: 'male' }), anonymous)).toEqual([
+      'The advertiser chose an audience, but nothing we know about you was used to pick it',
+      "Personalized ads are off, so your age, gender and viewing weren't used",
+    ]);
+  });
+});
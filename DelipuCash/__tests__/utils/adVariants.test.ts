@@ -0,0 +1,167 @@
+/**
+ * Unit tests for creative test helpers (utils/adVariants.ts).
+ *
+ * Locks how the editor seeds and checks its drafts, which saves send an ad
+ * back to review, and the readout's wording.
+ */
+import {
+  VARIANT_MAX,
+  addDraft,
+  draftCreative,
+  draftsSendToReview,
+  formatShare,
+  readoutLabel,
+  removeDraft,
+  variantDrafts,
+  variantDraftsError,
+  winnerCandidate,
+} from '@/utils/adVariants';
+import type { AdCreativeTest, AdTestReadout, AdVariant } from '@/types';
+
+const variant = (overrides: Partial<AdVariant> = {}): AdVariant => ({
+  id: 'v-a',
+  label: 'A',
+  headline: 'Fresh juice',
+  description: null,
+  imageUrl: 'https://cdn.example/a.jpg',
+  videoUrl: null,
+  thumbnailUrl: null,
+  callToAction: 'shop_now',
+  r2ImageKey: 'ads/a.jpg',
+  r2VideoKey: null,
+  r2ThumbnailKey: null,
+  impressions: 0,
+  clicks: 0,
+  conversions: 0,
+  ctr: 0,
+  conversionRate: 0,
+  share: 0.5,
+  createdAt: '2026-10-18T12:00:00.000Z',
+  ...overrides,
+});
+
+const readout = (overrides: Partial<AdTestReadout> = {}): AdTestReadout => ({
+  status: 'collecting',
+  leaderId: null,
+  runnerUpId: null,
+  lift: null,
+  confidence: 0,
+  needed: 150,
+  ...overrides,
+});
+
+const test = (overrides: Partial<AdCreativeTest> = {}): AdCreativeTest => ({
+  adId: 'ad-1',
+  mode: 'split',
+  winnerVariantId: null,
+  status: 'approved',
+  base: {
+    headline: 'Fresh juice',
+    description: 'Cold-pressed daily',
+    imageUrl: 'https://cdn.example/base.jpg',
+    videoUrl: null,
+    thumbnailUrl: null,
+    callToAction: 'learn_more',
+    r2ImageKey: 'ads/base.jpg',
+    r2VideoKey: null,
+    r2ThumbnailKey: null,
+  },
+  variants: [
+    variant(),
+    variant({ id: 'v-b', label: 'B', headline: 'Juice, delivered' }),
+  ],
+  readout: readout(),
+  ...overrides,
+});
+
+describe('drafts', () => {
+  it('seeds a new test from the ad, and a running one from its variants', () => {
+    const fresh = variantDrafts(test({ mode: null, variants: [] }));
+    expect(fresh).toHaveLength(2);
+    expect(fresh[0]).toMatchObject({ headline: 'Fresh juice', description: 'Cold-pressed daily', r2ImageKey: 'ads/base.jpg' });
+    expect(fresh[1]).toMatchObject({ headline: '', imageUrl: 'https://cdn.example/base.jpg' });
+    expect(fresh[0].id).toBeUndefined();
+
+    expect(variantDrafts(test()).map((draft) => draft.id)).toEqual(['v-a', 'v-b']);
+  });
+
+  it('adds up to the cap and removes down to two', () => {
+    let drafts = variantDrafts(test());
+    drafts = addDraft(addDraft(drafts));
+    expect(drafts).toHaveLength(VARIANT_MAX);
+    expect(drafts[2]).toMatchObject({ headline: '', imageUrl: 'https://cdn.example/a.jpg' });
+    expect(drafts[2].id).toBeUndefined();
+    expect(addDraft(drafts)).toBe(drafts);
+
+    const two = removeDraft(removeDraft(drafts, 3), 0);
+    expect(two.map((draft) => draft.id)).toEqual(['v-b', undefined]);
+    expect(removeDraft(two, 0)).toBe(two);
+  });
+
+  it('trims what it sends', () => {
+    const [draft] = variantDrafts(test());
+    expect(draftCreative({ ...draft, headline: '  Fresh juice ', description: ' ' }))
+      .toMatchObject({ id: 'v-a', headline: 'Fresh juice', description: null });
+  });
+});
+
+describe('variantDraftsError', () => {
+  it('names the variant that needs fixing', () => {
+    const drafts = variantDrafts(test());
+    expect(variantDraftsError(drafts)).toBeNull();
+    expect(variantDraftsError([drafts[0]])).toMatch(/2–4 variants/);
+    expect(variantDraftsError([drafts[0], { ...drafts[1], headline: ' ' }])).toBe('Give variant B a headline');
+    expect(variantDraftsError([drafts[0], { ...drafts[1], headline: 'x'.repeat(121) }])).toMatch(/B's headline under 120/);
+    expect(variantDraftsError([drafts[0], { ...drafts[1], imageUrl: null }])).toBe('Add an image or video to variant B');
+  });
+
+  it('rejects two variants that show the same thing', () => {
+    const [a] = variantDrafts(test());
+    expect(variantDraftsError([a, { ...a, id: undefined, headline: ' Fresh juice' }]))
+      .toBe('Variants A and B are the same — change one');
+  });
+});
+
+describe('draftsSendToReview', () => {
+  it('flags new or edited creative on a reviewed ad', () => {
+    const drafts = variantDrafts(test());
+    expect(draftsSendToReview(test(), drafts)).toBe(false);
+    expect(draftsSendToReview(test(), removeDraft(addDraft(drafts), 2))).toBe(false);
+    expect(draftsSendToReview(test(), addDraft(drafts))).toBe(true);
+    expect(draftsSendToReview(test(), [drafts[0], { ...drafts[1], callToAction: 'sign_up' }])).toBe(true);
+  });
+
+  it('leaves ads not yet reviewed alone', () => {
+    expect(draftsSendToReview(test({ status: 'pending' }), addDraft(variantDrafts(test())))).toBe(false);
+  });
+});
+
+describe('readout', () => {
+  it('says how far the test has got', () => {
+    expect(readoutLabel(test({ readout: readout({ needed: 1200 }) })))
+      .toBe('Collecting data — 1,200 more impressions before a result');
+    expect(readoutLabel(test({ readout: readout({ status: 'inconclusive', needed: 0 }) })))
+      .toBe('No clicks yet — no variant is ahead');
+    expect(readoutLabel(test({
+      readout: readout({ status: 'inconclusive', leaderId: 'v-b', runnerUpId: 'v-a', lift: 12.5, confidence: 0.81, needed: 0 }),
+    }))).toBe('No clear winner yet — B leads A by 12.5% (81% confidence)');
+  });
+
+  it('offers the leader as winner only once it is significant', () => {
+    const significant = test({
+      readout: readout({ status: 'significant', leaderId: 'v-b', runnerUpId: 'v-a', lift: 40, confidence: 0.97, needed: 0 }),
+    });
+    expect(readoutLabel(significant)).toBe('B beats A by 40% at 97% confidence');
+    expect(winnerCandidate(significant)?.id).toBe('v-b');
+    expect(winnerCandidate(test())).toBeNull();
+
+    const picked = { ...significant, winnerVariantId: 'v-b' };
+    expect(readoutLabel(picked)).toBe('B is the winner — it gets all the traffic');
+    expect(winnerCandidate(picked)).toBeNull();
+  });
+
+  it('rounds traffic shares', () => {
+    expect(formatShare(0.625)).toBe('63%');
+    expect(formatShare(1)).toBe('100%');
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Unit tests for caption playback and editing helpers (utils/captions.ts).
+ *
+ * Locks which line shows at a given moment (including overlapping speakers),
+ * how the viewer's CC preference maps onto a video's tracks, and that the
+ * editor rejects what the server's validateCues would.
+ */
+import {
+  activeCueText,
+  captionAppearance,
+  formatCueTime,
+  insertCueAfter,
+  nextCaptionLanguage,
+  parseCueTime,
+  pickCaptionLanguage,
+  validateCueEdits,
+} from '@/utils/captions';
+import type { CaptionCue } from '@/types';
+
+const cue = (start: number, end: number, text: string): CaptionCue => ({ start, end, text });
+
+describe('activeCueText', () => {
+  const cues = [cue(0, 2, 'One'), cue(2, 4, 'Two'), cue(3.5, 6, 'Overlap'), cue(10, 12, 'Later')];
+
+  it('shows the cue covering the time', () => {
+    expect(activeCueText(cues, 1)).toBe('One');
+    expect(activeCueText(cues, 2)).toBe('Two');
+  });
+
+  it('joins overlapping cues, earliest first', () => {
+    expect(activeCueText(cues, 3.75)).toBe('Two\nOverlap');
+  });
+
+  it('is empty before the first cue, in gaps and after the last', () => {
+    expect(activeCueText(cues, -1)).toBeNull();
+    expect(activeCueText(cues, 7)).toBeNull();
+    expect(activeCueText(cues, 20)).toBeNull();
+    expect(activeCueText([], 1)).toBeNull();
+  });
+});
+
+describe('pickCaptionLanguage / nextCaptionLanguage', () => {
+  it('uses the remembered language when the video has it, else its first track', () => {
+    expect(pickCaptionLanguage(['en', 'sw'], { enabled: true, language: 'sw' })).toBe('sw');
+    expect(pickCaptionLanguage(['en', 'lg'], { enabled: true, language: 'sw' })).toBe('en');
+  });
+
+  it('is off when captions are off or the video has none', () => {
+    expect(pickCaptionLanguage(['en'], { enabled: false, language: 'en' })).toBeNull();
+    expect(pickCaptionLanguage([], { enabled: true, language: 'en' })).toBeNull();
+    expect(pickCaptionLanguage(undefined, { enabled: true, language: null })).toBeNull();
+  });
+
+  it('cycles off → each language → off', () => {
+    expect(nextCaptionLanguage(['en', 'sw'], null)).toBe('en');
+    expect(nextCaptionLanguage(['en', 'sw'], 'en')).toBe('sw');
+    expect(nextCaptionLanguage(['en', 'sw'], 'sw')).toBeNull();
+    expect(nextCaptionLanguage([], null)).toBeNull();
+  });
+});
+
+describe('captionAppearance', () => {
+  const base = { isBoldTextEnabled: false, isGrayscaleEnabled: false, isInvertColorsEnabled: false };
+
+  it('is semi-transparent and semibold by default', () => {
+    expect(captionAppearance(base)).toEqual({ fontWeight: '600', backgroundOpacity: 0.75 });
+  });
+
+  it('follows bold text and high-contrast settings', () => {
+    expect(captionAppearance({ ...base, isBoldTextEnabled: true }).fontWeight).toBe('800');
+    expect(captionAppearance({ ...base, isGrayscaleEnabled: true }).backgroundOpacity).toBe(1);
+    expect(captionAppearance({ ...base, isInvertColorsEnabled: true }).backgroundOpacity).toBe(1);
+  });
+});
+
+describe('formatCueTime / parseCueTime', () => {
+  it('formats as m:ss.s', () => {
+    expect(formatCueTime(0)).toBe('0:00.0');
+    expect(formatCueTime(83.45)).toBe('1:23.5');
+    expect(formatCueTime(600)).toBe('10:00.0');
+  });
+
+  it('reads back what it formats, plain seconds and h:mm:ss', () => {
+    expect(parseCueTime(formatCueTime(83.45))).toBe(83.5);
+    expect(parseCueTime('83.5')).toBe(83.5);
+    expect(parseCueTime(' 1:02:03 ')).toBe(3723);
+  });
+
+  it('rejects anything else', () => {
+    expect(parseCueTime('')).toBeNull();
+    expect(parseCueTime('1:2:3:4')).toBeNull();
+    expect(parseCueTime('-1')).toBeNull();
+    expect(parseCueTime('abc')).toBeNull();
+  });
+});
+
+describe('validateCueEdits', () => {
+  it('accepts a valid track', () => {
+    expect(validateCueEdits([cue(0, 1, 'Hi'), cue(1, 2, 'There')])).toBeNull();
+  });
+
+  it('points at the first bad line', () => {
+    expect(validateCueEdits([cue(0, 1, 'Hi'), cue(2, 2, 'Zero length')])).toEqual({
+      index: 1,
+      message: 'Must end after it starts',
+    });
+    expect(validateCueEdits([cue(0, 1, '  ')])?.index).toBe(0);
+    expect(validateCueEdits([cue(Number.NaN, 1, 'Typo')])?.message).toBe('Check the times');
+    expect(validateCueEdits([cue(0, 1, 'x'.repeat(301))])?.message).toMatch(/300 characters/);
+  });
+
+  it('needs at least one line', () => {
+    expect(validateCueEdits([])?.index).toBe(-1);
+  });
+});
+
+describe('insertCueAfter', () => {
+  it('starts the new line where the previous one ends', () => {
+    const next = insertCueAfter([cue(0, 1.5, 'A'), cue(5, 6, 'B')], 0);
+    expect(next).toHaveLength(3);
+    expect(next[1]).toEqual({ start: 1.5, end: 3.5, text: '' });
+    expect(next[2].text).toBe('B');
+  });
+
+  it('adds at the start of an empty track', () => {
+    expect(insertCueAfter([], -1)).toEqual([{ start: 0, end: 2, text: '' }]);
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Unit tests for threaded comment helpers (utils/commentThreads.ts).
+ *
+ * Locks where optimistic and live comments land (a reply joins its thread,
+ * never the top of the list), how threads flatten into sheet rows, and that
+ * @mention spans stay on the right characters while the text is edited.
+ */
+import {
+  activeMentionQuery,
+  buildCommentRows,
+  filterMentionSuggestions,
+  insertComment,
+  insertMention,
+  mentionSegments,
+  removeComment,
+  replaceComment,
+  shiftMentions,
+  threadPosition,
+  toggleReaction,
+  updateThread,
+} from '@/utils/commentThreads';
+import type { Comment, FollowedCreator } from '@/types';
+
+const comment = (id: string, overrides: Partial<Comment> = {}): Comment => ({
+  id,
+  text: id,
+  mediaUrls: [],
+  userId: 'u1',
+  videoId: 'v1',
+  createdAt: '2026-10-18T10:00:00.000Z',
+  parentId: null,
+  rootId: null,
+  depth: 0,
+  replyCount: 0,
+  ...overrides,
+});
+
+const reply = (id: string, parentId: string, rootId: string, depth: number, createdAt: string): Comment =>
+  comment(id, { parentId, rootId, depth, createdAt });
+
+describe('threadPosition', () => {
+  it('nests replies two levels deep, then files them next to their target', () => {
+    const root = comment('c1');
+    const child = reply('r1', 'c1', 'c1', 1, '');
+    const grandchild = reply('r2', 'r1', 'c1', 2, '');
+
+    expect(threadPosition(null)).toEqual({ parentId: null, rootId: null, depth: 0 });
+    expect(threadPosition(root)).toEqual({ parentId: 'c1', rootId: 'c1', depth: 1 });
+    expect(threadPosition(child)).toEqual({ parentId: 'r1', rootId: 'c1', depth: 2 });
+    expect(threadPosition(grandchild)).toEqual({ parentId: 'r1', rootId: 'c1', depth: 2 });
+  });
+});
+
+describe('insertComment / removeComment / replaceComment', () => {
+  it('puts a new top-level comment first, after a pinned one', () => {
+    const list = [comment('pinned', { isPinned: true }), comment('c1')];
+    expect(insertComment(list, comment('new')).map((c) => c.id)).toEqual(['pinned', 'new', 'c1']);
+    expect(insertComment([comment('c1')], comment('new')).map((c) => c.id)).toEqual(['new', 'c1']);
+  });
+
+  it('adds a reply to its thread and bumps the reply counts', () => {
+    const list = [
+      comment('c1', { replyCount: 1, replies: [reply('r1', 'c1', 'c1', 1, '2026-10-18T10:01:00.000Z')] }),
+      comment('c2'),
+    ];
+
+    const next = insertComment(list, reply('r2', 'r1', 'c1', 2, '2026-10-18T10:02:00.000Z'));
+
+    expect(next.map((c) => c.id)).toEqual(['c1', 'c2']);
+    expect(next[0].replyCount).toBe(2);
+    expect(next[0].replies!.map((r) => [r.id, r.replyCount])).toEqual([['r1', 1], ['r2', 0]]);
+  });
+
+  it('leaves the list alone for duplicates and replies to threads that are not loaded', () => {
+    const list = [comment('c1')];
+    expect(insertComment(list, comment('c1'))).toBe(list);
+    expect(insertComment(list, reply('r1', 'other', 'other', 1, ''))).toBe(list);
+  });
+
+  it('removes a reply and decrements its ancestors', () => {
+    const list = [
+      comment('c1', {
+        replyCount: 2,
+        replies: [
+          comment('r1', { parentId: 'c1', rootId: 'c1', depth: 1, replyCount: 1 }),
+          reply('r2', 'r1', 'c1', 2, ''),
+        ],
+      }),
+    ];
+
+    const next = removeComment(list, 'r2');
+
+    expect(next[0].replyCount).toBe(1);
+    expect(next[0].replies!.map((r) => [r.id, r.replyCount])).toEqual([['r1', 0]]);
+    expect(removeComment(next, 'c1')).toEqual([]);
+  });
+
+  it('swaps a temp comment for the server copy, wherever it sits', () => {
+    const list = [comment('c1', { replies: [reply('temp_1', 'c1', 'c1', 1, '')] })];
+
+    const next = replaceComment(list, { ...reply('r1', 'c1', 'c1', 1, ''), status: 'held' }, 'temp_1');
+
+    expect(next[0].replies!.map((r) => [r.id, r.status])).toEqual([['r1', 'held']]);
+  });
+});
+
+describe('updateThread', () => {
+  const thread = { rootId: 'c1', replies: [reply('r1', 'c1', 'c1', 1, '')], total: 1 };
+
+  it('only takes replies that belong to the thread', () => {
+    expect(updateThread(thread, { add: reply('r2', 'r1', 'c1', 2, '') }).total).toBe(2);
+    expect(updateThread(thread, { add: reply('x', 'c9', 'c9', 1, '') })).toBe(thread);
+    expect(updateThread(thread, { add: reply('r1', 'c1', 'c1', 1, '') })).toBe(thread);
+  });
+
+  it('removes replies', () => {
+    expect(updateThread(thread, { removeId: 'r1' })).toEqual({ rootId: 'c1', replies: [], total: 0 });
+    expect(updateThread(thread, { removeId: 'nope' })).toBe(thread);
+  });
+});
+
+describe('toggleReaction', () => {
+  it('adds and removes the viewer reaction, dropping empty counts', () => {
+    const reacted = toggleReaction(comment('c1', { reactions: { '🔥': 2 } }), '❤️');
+    expect(reacted.reactions).toEqual({ '🔥': 2, '❤️': 1 });
+    expect(reacted.myReactions).toEqual(['❤️']);
+
+    const undone = toggleReaction(reacted, '❤️');
+    expect(undone.reactions).toEqual({ '🔥': 2 });
+    expect(undone.myReactions).toEqual([]);
+  });
+});
+
+describe('buildCommentRows', () => {
+  it('nests replies under their parents and offers the rest of the thread', () => {
+    const list = [
+      comment('c1', {
+        replyCount: 4,
+        replies: [reply('r1', 'c1', 'c1', 1, '2026-10-18T10:01:00.000Z'), reply('r2', 'c1', 'c1', 1, '2026-10-18T10:03:00.000Z')],
+      }),
+      comment('c2'),
+    ];
+
+    expect(buildCommentRows(list).map((r) => (r.type === 'more' ? `more:${r.remaining}` : `${r.key}@${r.depth}`))).toEqual([
+      'c1@0', 'r1@1', 'r2@1', 'more:2', 'c2@0',
+    ]);
+  });
+
+  it('merges a loaded thread with the preview, nested replies straight under their parent', () => {
+    const list = [
+      comment('c1', {
+        replyCount: 4,
+        replies: [reply('r1', 'c1', 'c1', 1, '2026-10-18T10:01:00.000Z'), reply('r2', 'c1', 'c1', 1, '2026-10-18T10:03:00.000Z')],
+      }),
+    ];
+    const thread = [
+      reply('r1', 'c1', 'c1', 1, '2026-10-18T10:01:00.000Z'),
+      reply('r1a', 'r1', 'c1', 2, '2026-10-18T10:05:00.000Z'),
+      reply('r2', 'c1', 'c1', 1, '2026-10-18T10:03:00.000Z'),
+      reply('r3', 'c1', 'c1', 1, '2026-10-18T10:04:00.000Z'),
+    ];
+
+    expect(buildCommentRows(list, { c1: thread }).map((r) => `${r.key}${r.type === 'comment' ? `@${r.depth}` : ''}`)).toEqual([
+      'c1@0', 'r1@1', 'r1a@2', 'r2@1', 'r3@1',
+    ]);
+  });
+});
+
+describe('mentions', () => {
+  const ann: FollowedCreator = { id: 'u-ann', firstName: 'Ann', lastName: 'Lee' , avatar: null };
+  const bob: FollowedCreator = { id: 'u-bob', firstName: 'Bob', lastName: 'Annan' , avatar: null };
+
+  it('finds the @query at the cursor', () => {
+    expect(activeMentionQuery('hi @an')).toEqual({ start: 3, query: 'an' });
+    expect(activeMentionQuery('@')).toEqual({ start: 0, query: '' });
+    expect(activeMentionQuery('hi @an there')).toBeNull();
+    expect(activeMentionQuery('hi @an there', 6)).toEqual({ start: 3, query: 'an' });
+    expect(activeMentionQuery('mail me@example')).toBeNull();
+  });
+
+  it('suggests creators whose first or last name starts with the query', () => {
+    expect(filterMentionSuggestions([ann, bob], 'an').map((c) => c.id)).toEqual(['u-ann', 'u-bob']);
+    expect(filterMentionSuggestions([ann, bob], 'le').map((c) => c.id)).toEqual(['u-ann']);
+    expect(filterMentionSuggestions([ann, bob], 'nn')).toEqual([]);
+  });
+
+  it('inserts the mention and records its span', () => {
+    const result = insertMention('hi @an', [], { start: 3 }, 6, ann);
+
+    expect(result.text).toBe('hi @Ann Lee ');
+    expect(result.mentions).toEqual([{ userId: 'u-ann', offset: 3, length: 8 }]);
+    expect(result.cursor).toBe(12);
+  });
+
+  it('shifts spans after an edit and drops the ones it touched', () => {
+    const mentions = [{ userId: 'u-ann', offset: 3, length: 8 }];
+
+    expect(shiftMentions('hi @Ann Lee ok', 'oh hi @Ann Lee ok', mentions)).toEqual([{ userId: 'u-ann', offset: 6, length: 8 }]);
+    expect(shiftMentions('hi @Ann Lee ok', 'hi @Ann Lee ok!', mentions)).toEqual(mentions);
+    expect(shiftMentions('hi @Ann Lee ok', 'hi @Ann Le ok', mentions)).toEqual([]);
+  });
+
+  it('splits text into plain and mention segments', () => {
+    expect(mentionSegments('hi @Ann Lee!', [{ userId: 'u-ann', offset: 3, length: 8 }])).toEqual([
+      { text: 'hi ' },
+      { text: '@Ann Lee', userId: 'u-ann' },
+      { text: '!' },
+    ]);
+    expect(mentionSegments('short', [{ userId: 'x', offset: 3, length: 8 }])).toEqual([{ text: 'short' }]);
+  });
+});
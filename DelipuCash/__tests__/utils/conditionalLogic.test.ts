@@ -15,6 +15,10 @@ import {
   getOperatorsForType,
   getOperatorLabel,
   operatorRequiresValue,
+  resolveSkipTarget,
+  resolveNextQuestionId,
+  getSurveyPath,
+  SKIP_TO_END,
   type AnswerMap,
 } from '@/utils/conditionalLogic';
 import type { ConditionalRule, ConditionalLogicConfig } from '@/store/SurveyBuilderStore';
@@ -189,6 +193,90 @@ describe('validateConditionalLogic', () => {
   });
 });
 
+describe('skip_to navigation', () => {
+  const skip = (sourceQuestionId: string, value: string, targetQuestionId: string): ConditionalRule =>
+    rule({ sourceQuestionId, operator: 'equals', value, action: 'skip_to', targetQuestionId });
+
+  // q1 "Do you drive?" — No jumps past the car questions to q4.
+  const questions = [
+    { id: 'q1', conditionalLogic: config([skip('q1', 'No', 'q4')]) },
+    { id: 'q2', conditionalLogic: null },
+    { id: 'q3', conditionalLogic: null },
+    { id: 'q4', conditionalLogic: null },
+  ];
+
+  it('skip rules never affect visibility', () => {
+    expect(isQuestionVisible(questions[0], { q1: 'No' })).toBe(true);
+    expect(evaluateConditions(config([skip('q1', 'No', 'q4')]), { q1: 'Yes' })).toBe(true);
+  });
+
+  it('resolveSkipTarget returns the first matching rule target, or null', () => {
+    const host = { conditionalLogic: config([skip('q1', 'No', 'q4'), skip('q1', 'Maybe', 'q3')], 'all') };
+    expect(resolveSkipTarget(host, { q1: 'No' })).toBe('q4');
+    expect(resolveSkipTarget(host, { q1: 'Maybe' })).toBe('q3');
+    expect(resolveSkipTarget(host, { q1: 'Yes' })).toBeNull();
+  });
+
+  it('resolveNextQuestionId jumps on a match and falls through otherwise', () => {
+    expect(resolveNextQuestionId(questions, 'q1', { q1: 'No' })).toBe('q4');
+    expect(resolveNextQuestionId(questions, 'q1', { q1: 'Yes' })).toBe('q2');
+    expect(resolveNextQuestionId(questions, 'q4', { q1: 'Yes' })).toBeNull();
+  });
+
+  it('lands on the next VISIBLE question after the jump target', () => {
+    const withHidden = [
+      { id: 'q1', conditionalLogic: config([skip('q1', 'No', 'q3')]) },
+      { id: 'q2', conditionalLogic: null },
+      { id: 'q3', conditionalLogic: config([rule({ sourceQuestionId: 'q1', operator: 'equals', value: 'Yes' })]) },
+      { id: 'q4', conditionalLogic: null },
+    ];
+    expect(resolveNextQuestionId(withHidden, 'q1', { q1: 'No' })).toBe('q4');
+  });
+
+  it('SKIP_TO_END ends the survey; backward targets are ignored', () => {
+    const endAll = [{ id: 'q1', conditionalLogic: config([skip('q1', 'No', SKIP_TO_END)]) }, { id: 'q2', conditionalLogic: null }];
+    expect(resolveNextQuestionId(endAll, 'q1', { q1: 'No' })).toBeNull();
+
+    const backward = [{ id: 'q1', conditionalLogic: null }, { id: 'q2', conditionalLogic: config([skip('q2', 'x', 'q1')]) }, { id: 'q3', conditionalLogic: null }];
+    expect(resolveNextQuestionId(backward, 'q2', { q2: 'x' })).toBe('q3');
+  });
+
+  it('getSurveyPath excludes jumped-over questions', () => {
+    expect(getSurveyPath(questions, { q1: 'No' }).map((q) => q.id)).toEqual(['q1', 'q4']);
+    expect(getSurveyPath(questions, { q1: 'Yes' }).map((q) => q.id)).toEqual(['q1', 'q2', 'q3', 'q4']);
+  });
+
+  it('validation allows a skip rule to read its own host answer', () => {
+    expect(validateConditionalLogic(questions)).toEqual([]);
+  });
+
+  it('validation rejects backward jumps, dangling targets and missing targets', () => {
+    const backward = validateConditionalLogic([
+      { id: 'q1', conditionalLogic: null },
+      { id: 'q2', conditionalLogic: config([skip('q2', 'x', 'q1')]) },
+    ]);
+    expect(backward.some((e) => /jump forward/i.test(e.message))).toBe(true);
+    expect(backward.some((e) => /loop/i.test(e.message))).toBe(true);
+
+    const dangling = validateConditionalLogic([{ id: 'q1', conditionalLogic: config([skip('q1', 'x', 'ghost')]) }]);
+    expect(dangling[0].message).toMatch(/no longer exists/i);
+
+    const missing = validateConditionalLogic([
+      { id: 'q1', conditionalLogic: config([rule({ sourceQuestionId: 'q1', action: 'skip_to' })]) },
+    ]);
+    expect(missing[0].message).toMatch(/where this rule should skip/i);
+  });
+
+  it('validation rejects a skip rule sourced from a later question', () => {
+    const errors = validateConditionalLogic([
+      { id: 'q1', conditionalLogic: config([skip('q2', 'x', 'q3')]) },
+      { id: 'q2', conditionalLogic: null },
+      { id: 'q3', conditionalLogic: null },
+    ]);
+    expect(errors.some((e) => /this question or ones before/i.test(e.message))).toBe(true);
+  });
+});
+
 describe('operator metadata helpers', () => {
   it('getOperatorsForType returns type-specific operators, falling back to the common pair', () => {
     expect(getOperatorsForType('number')).toEqual(
@@ -0,0 +1,137 @@
+/**
+ * Unit tests for cross-tabulation and respondent segments (utils/crossTab.ts).
+ *
+ * Locks how answers bucket into categories per question type, the contingency
+ * counts and row/column percentages, the chi-square p-value against textbook
+ * critical values, and that a segment keeps only matching respondents — while
+ * a segment on a deleted question filters nothing.
+ */
+import {
+  applySegment,
+  chiSquarePValue,
+  chiSquareTest,
+  computeCrossTab,
+  formatPValue,
+  getAnswerCategories,
+  type ResponseSegment,
+} from '@/utils/crossTab';
+
+const age = { id: 'age', type: 'radio', options: JSON.stringify(['18–24', '25–34', '35+']) };
+const plan = { id: 'plan', type: 'dropdown', options: JSON.stringify(['Option 1', 'Option 2']) };
+const perks = { id: 'perks', type: 'checkbox', options: JSON.stringify(['Cash', 'Airtime', 'Data']) };
+
+const respond = (answers: Record<string, unknown>) => ({ responses: answers });
+
+/** n identical respondents */
+const times = (n: number, answers: Record<string, unknown>) => Array.from({ length: n }, () => respond(answers));
+
+describe('getAnswerCategories', () => {
+  it.each<[string, unknown, string[]]>([
+    ['radio', 'Option 2', ['Option 2']],
+    ['checkbox', ['Cash', 'Data', 'Cash'], ['Cash', 'Data']],
+    ['boolean', 'true', ['Yes']],
+    ['boolean', 'no', ['No']],
+    ['rating', '4', ['4']],
+    ['nps', 0, ['0']],
+    ['ranking', ['Tea', 'Coffee'], ['Tea']],
+    ['radio', undefined, []],
+    ['radio', '', []],
+  ])('%s %j → %j', (type, answer, expected) => {
+    expect(getAnswerCategories(type, answer)).toEqual(expected);
+  });
+});
+
+describe('chi-square', () => {
+  it.each([
+    [3.841, 1],
+    [5.991, 2],
+    [11.07, 5],
+  ])('χ² = %d at df %d sits on the 5%% critical value', (statistic, df) => {
+    expect(chiSquarePValue(statistic, df)).toBeCloseTo(0.05, 3);
+  });
+
+  it('returns p = 1 for no deviation and handles large statistics', () => {
+    expect(chiSquarePValue(0, 3)).toBe(1);
+    expect(chiSquarePValue(50, 1)).toBeLessThan(1e-10);
+  });
+
+  it('needs at least a 2×2 table', () => {
+    expect(chiSquareTest([[3, 4]])).toBeNull();
+    expect(chiSquareTest([[3], [4]])).toBeNull();
+  });
+
+  it('flags sparse tables', () => {
+    expect(chiSquareTest([[1, 2], [2, 1]])?.sparse).toBe(true);
+  });
+
+  it('formats p-values for display', () => {
+    expect(formatPValue(0.0423)).toBe('p = 0.042');
+    expect(formatPValue(0.00001)).toBe('p < 0.001');
+  });
+});
+
+describe('computeCrossTab', () => {
+  it('counts respondents in declared order with row and column percentages', () => {
+    const tab = computeCrossTab(age, plan, [
+      ...times(30, { age: '18–24', plan: 'Option 2' }),
+      ...times(10, { age: '18–24', plan: 'Option 1' }),
+      ...times(10, { age: '35+', plan: 'Option 2' }),
+      ...times(30, { age: '35+', plan: 'Option 1' }),
+      respond({ age: '25–34' }), // unanswered column question — left out
+    ]);
+
+    expect(tab.rows).toEqual(['18–24', '35+']); // nobody 25–34 answered both
+    expect(tab.columns).toEqual(['Option 1', 'Option 2']);
+    expect(tab.counts).toEqual([[10, 30], [30, 10]]);
+    expect(tab.respondents).toBe(80);
+    expect(tab.rowPercents[0]).toEqual([25, 75]);
+    expect(tab.columnPercents[0]).toEqual([25, 75]);
+    expect(tab.chiSquare).toMatchObject({ degreesOfFreedom: 1, significant: true, sparse: false });
+    expect(tab.chiSquare!.statistic).toBeCloseTo(20, 5);
+  });
+
+  it('does not call an even split significant', () => {
+    const tab = computeCrossTab(age, plan, [
+      ...times(10, { age: '18–24', plan: 'Option 1' }),
+      ...times(10, { age: '18–24', plan: 'Option 2' }),
+      ...times(10, { age: '35+', plan: 'Option 1' }),
+      ...times(10, { age: '35+', plan: 'Option 2' }),
+    ]);
+    expect(tab.chiSquare).toMatchObject({ statistic: 0, pValue: 1, significant: false });
+  });
+
+  it('counts a checkbox respondent once per ticked option and keeps renamed options', () => {
+    const tab = computeCrossTab(perks, age, [
+      respond({ perks: ['Cash', 'Data'], age: '18–24' }),
+      respond({ perks: ['Vouchers'], age: '35+' }),
+    ]);
+    expect(tab.rows).toEqual(['Cash', 'Data', 'Vouchers']);
+    expect(tab.counts).toEqual([[1, 0], [1, 0], [0, 1]]);
+    expect(tab.total).toBe(3);
+    expect(tab.respondents).toBe(2);
+  });
+});
+
+describe('applySegment', () => {
+  const responses = [
+    respond({ age: '18–24', plan: 'Option 2' }),
+    respond({ age: '35+', plan: 'Option 2' }),
+    respond({ age: '25–34', plan: 'Option 1' }),
+  ];
+  const segment: ResponseSegment = {
+    id: 'seg-1',
+    surveyId: 's-1',
+    name: 'Under 35',
+    questionId: 'age',
+    values: ['18–24', '25–34'],
+  };
+
+  it('keeps respondents whose answer matches any segment value', () => {
+    expect(applySegment(responses, segment, [age, plan])).toEqual([responses[0], responses[2]]);
+  });
+
+  it('filters nothing without a segment or when its question was deleted', () => {
+    expect(applySegment(responses, null, [age, plan])).toBe(responses);
+    expect(applySegment(responses, segment, [plan])).toBe(responses);
+  });
+});
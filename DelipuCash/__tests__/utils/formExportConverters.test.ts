@@ -0,0 +1,230 @@
+/**
+ * Unit tests for Google Forms / Typeform import (utils/formExportConverters.ts).
+ *
+ * Locks the question-type mapping and, above all, the branching: converted
+ * jumps must pass the builder's own validation (utils/conditionalLogic.ts) and
+ * route respondents the way the source form did. Anything unrepresentable is
+ * dropped with a warning, never half-imported.
+ */
+import { convertFormExport, detectFormExport } from '@/utils/formExportConverters';
+import { getSurveyPath, validateConditionalLogic, type AnswerMap } from '@/utils/conditionalLogic';
+import { SKIP_TO_END, type BuilderQuestionData } from '@/store/SurveyBuilderStore';
+
+const pathTexts = (questions: BuilderQuestionData[], answers: AnswerMap) =>
+  getSurveyPath(questions, answers).map((q) => q.text);
+
+describe('detectFormExport', () => {
+  it('tells the two exports apart from our own format', () => {
+    expect(detectFormExport({ formId: 'abc', info: { title: 'x' }, items: [] })).toBe('google_forms');
+    expect(detectFormExport({ id: 'tf1', title: 'x', fields: [] })).toBe('typeform');
+    expect(detectFormExport({ title: 'x', questions: [] })).toBeNull();
+    expect(detectFormExport([1, 2])).toBeNull();
+  });
+});
+
+describe('Google Forms', () => {
+  const item = (itemId: string, title: string, question: Record<string, unknown>) => ({
+    itemId,
+    title,
+    questionItem: { question: { required: true, ...question } },
+  });
+
+  const form = {
+    formId: 'f1',
+    info: { title: 'Shopping', description: 'Where and how' },
+    items: [
+      item('i1', 'Do you shop online?', {
+        choiceQuestion: {
+          type: 'RADIO',
+          options: [
+            { value: 'Yes', goToSectionId: 's2' },
+            { value: 'No', goToAction: 'SUBMIT_FORM' },
+            { value: 'Sometimes' },
+            { isOther: true },
+          ],
+        },
+      }),
+      item('i2', 'Why?', { textQuestion: { paragraph: true } }),
+      { itemId: 's2', title: 'Online', pageBreakItem: {} },
+      item('i3', 'How satisfied?', { scaleQuestion: { low: 0, high: 10 } }),
+      {
+        itemId: 'g1',
+        title: 'Rate the apps',
+        questionGroupItem: {
+          questions: [{ rowQuestion: { title: 'Jumia' } }, { rowQuestion: { title: 'Glovo' } }],
+          grid: { columns: { type: 'RADIO', options: [{ value: 'Bad' }, { value: 'Good' }] } },
+        },
+      },
+      { itemId: 't1', title: 'Thanks', textItem: {} },
+    ],
+  };
+
+  it('maps question types, options and the survey text', () => {
+    const converted = convertFormExport(form)!;
+    expect(converted.title).toBe('Shopping');
+    expect(converted.description).toBe('Where and how');
+    expect(converted.questions.map((q) => [q.id, q.type])).toEqual([
+      ['imported_1', 'radio'],
+      ['imported_2', 'paragraph'],
+      ['imported_3', 'rating'],
+      ['imported_4', 'matrix'],
+    ]);
+    expect(converted.questions[0].options).toEqual(['Yes', 'No', 'Sometimes']);
+    expect(converted.questions[2]).toMatchObject({ minValue: 0, maxValue: 10 });
+    expect(converted.questions[3]).toMatchObject({ options: ['Jumia', 'Glovo'], matrixColumns: ['Bad', 'Good'] });
+    expect(converted.warnings).toEqual(['Item 1 ("Do you shop online?"): the "Other" free-text option was dropped']);
+  });
+
+  it('turns "go to section" and "submit form" into valid skip rules', () => {
+    const { questions } = convertFormExport(form)!;
+    expect(questions[0].conditionalLogic?.rules).toEqual([
+      { sourceQuestionId: 'imported_1', operator: 'equals', value: 'Yes', action: 'skip_to', targetQuestionId: 'imported_3' },
+      { sourceQuestionId: 'imported_1', operator: 'equals', value: 'No', action: 'skip_to', targetQuestionId: SKIP_TO_END },
+    ]);
+    expect(validateConditionalLogic(questions)).toEqual([]);
+
+    expect(pathTexts(questions, { imported_1: 'Yes' })).toEqual(['Do you shop online?', 'How satisfied?', 'Rate the apps']);
+    expect(pathTexts(questions, { imported_1: 'No' })).toEqual(['Do you shop online?']);
+    expect(pathTexts(questions, { imported_1: 'Sometimes' })).toHaveLength(4);
+  });
+
+  it('drops jumps back to an earlier section or to a restart', () => {
+    const looping = {
+      ...form,
+      items: [
+        { itemId: 's0', title: 'Start', pageBreakItem: {} },
+        item('i1', 'Name?', { textQuestion: {} }),
+        item('i2', 'Again?', {
+          choiceQuestion: { type: 'RADIO', options: [{ value: 'Yes', goToSectionId: 's0' }, { value: 'Over', goToAction: 'RESTART_FORM' }] },
+        }),
+      ],
+    };
+    const converted = convertFormExport(looping)!;
+    expect(converted.questions[1].conditionalLogic).toBeNull();
+    expect(converted.warnings).toEqual([
+      'Item 3 ("Again?"): branching to an earlier or missing section was dropped',
+      'Item 3 ("Again?"): "restart form" branching was dropped',
+    ]);
+  });
+});
+
+describe('Typeform', () => {
+  const form = {
+    id: 'tf1',
+    title: 'Delivery',
+    welcome_screens: [{ properties: { description: 'Two minutes' } }],
+    fields: [
+      {
+        ref: 'method',
+        title: 'How do you get deliveries?',
+        type: 'multiple_choice',
+        validations: { required: true },
+        properties: { choices: [{ ref: 'c_boda', label: 'Boda' }, { ref: 'c_pickup', label: 'Pick-up' }] },
+      },
+      { ref: 'intro', title: 'A few more', type: 'statement' },
+      {
+        ref: 'g',
+        title: 'Details',
+        type: 'group',
+        properties: {
+          fields: [
+            { ref: 'fee', title: 'Fee paid?', type: 'number' },
+            { ref: 'again', title: 'Order again?', type: 'yes_no' },
+          ],
+        },
+      },
+      { ref: 'score', title: 'Recommend us?', type: 'opinion_scale', properties: { steps: 11 } },
+      { ref: 'pay', title: 'Pay', type: 'payment' },
+    ],
+    logic: [
+      {
+        type: 'field',
+        ref: 'method',
+        actions: [
+          {
+            action: 'jump',
+            details: { to: { type: 'field', value: 'score' } },
+            condition: { op: 'is', vars: [{ type: 'field', value: 'method' }, { type: 'choice', value: 'c_pickup' }] },
+          },
+        ],
+      },
+      {
+        type: 'field',
+        ref: 'again',
+        actions: [
+          {
+            action: 'jump',
+            details: { to: { type: 'thankyou', value: 'end' } },
+            condition: {
+              op: 'or',
+              vars: [
+                { op: 'is', vars: [{ type: 'field', value: 'again' }, { type: 'constant', value: false }] },
+                { op: 'greater_than', vars: [{ type: 'field', value: 'fee' }, { type: 'constant', value: 5000 }] },
+              ],
+            },
+          },
+          { action: 'add', details: { target: { type: 'variable', value: 'score' } }, condition: { op: 'always', vars: [] } },
+          {
+            action: 'jump',
+            details: { to: { type: 'field', value: 'method' } },
+            condition: { op: 'always', vars: [] },
+          },
+        ],
+      },
+    ],
+  };
+
+  it('flattens groups, skips statements and maps field types', () => {
+    const converted = convertFormExport(form)!;
+    expect(converted.title).toBe('Delivery');
+    expect(converted.description).toBe('Two minutes');
+    expect(converted.questions.map((q) => [q.text, q.type])).toEqual([
+      ['How do you get deliveries?', 'radio'],
+      ['Fee paid?', 'number'],
+      ['Order again?', 'boolean'],
+      ['Recommend us?', 'rating'],
+    ]);
+    expect(converted.questions[0].required).toBe(true);
+    expect(converted.questions[3]).toMatchObject({ minValue: 0, maxValue: 10 });
+    expect(converted.warnings[0]).toBe('Field 5 ("Pay"): unsupported field type "payment", skipped');
+  });
+
+  it('maps jumps to skip rules on the logic block’s field', () => {
+    const { questions } = convertFormExport(form)!;
+    expect(questions[0].conditionalLogic?.rules).toEqual([
+      { sourceQuestionId: 'imported_1', operator: 'equals', value: 'Pick-up', action: 'skip_to', targetQuestionId: 'imported_4' },
+    ]);
+    // `or` splits into one rule per branch; booleans compare as stored
+    expect(questions[2].conditionalLogic?.rules).toEqual([
+      { sourceQuestionId: 'imported_3', operator: 'equals', value: 'false', action: 'skip_to', targetQuestionId: SKIP_TO_END },
+      { sourceQuestionId: 'imported_2', operator: 'greater_than', value: 5000, action: 'skip_to', targetQuestionId: SKIP_TO_END },
+    ]);
+    expect(validateConditionalLogic(questions)).toEqual([]);
+
+    expect(pathTexts(questions, { imported_1: 'Pick-up' })).toEqual(['How do you get deliveries?', 'Recommend us?']);
+    expect(pathTexts(questions, { imported_1: 'Boda', imported_2: 2000, imported_3: 'false' })).toHaveLength(3);
+    expect(pathTexts(questions, { imported_1: 'Boda', imported_2: 2000, imported_3: 'true' })).toHaveLength(4);
+  });
+
+  it('warns about actions and jumps it cannot represent', () => {
+    const { warnings } = convertFormExport(form)!;
+    expect(warnings.slice(1)).toEqual([
+      'Logic on "Order again?": "add" actions were dropped',
+      'Logic on "Order again?": a jump to an earlier or missing question was dropped',
+    ]);
+  });
+
+  it('covers every answer for an `always` jump', () => {
+    const always = {
+      ...form,
+      logic: [{
+        type: 'field',
+        ref: 'method',
+        actions: [{ action: 'jump', details: { to: { type: 'field', value: 'score' } }, condition: { op: 'always', vars: [] } }],
+      }],
+    };
+    const { questions } = convertFormExport(always)!;
+    expect(questions[0].conditionalLogic?.rules.map((r) => r.operator)).toEqual(['is_not_empty', 'is_empty']);
+    expect(pathTexts(questions, {})).toEqual(['How do you get deliveries?', 'Recommend us?']);
+  });
+});
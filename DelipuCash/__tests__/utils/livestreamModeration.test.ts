@@ -0,0 +1,90 @@
+/**
+ * Unit tests for livestream chat moderation helpers (utils/livestreamModeration.ts).
+ *
+ * Locks what a restricted viewer's chat bar says, that restriction and
+ * settings events patch the cached moderation state the way the server
+ * changed it, and that banned words are normalized as the server stores them.
+ */
+import {
+  addBannedWords,
+  applyRestrictionEvent,
+  applySettingsEvent,
+  isRestrictionActive,
+  restrictionNotice,
+  slowModeLabel,
+} from '@/utils/livestreamModeration';
+import type { LivestreamModerationState } from '@/types';
+
+const NOW = Date.UTC(2026, 9, 18, 12);
+const at = (ms: number) => new Date(NOW + ms).toISOString();
+
+const state = (overrides: Partial<LivestreamModerationState> = {}): LivestreamModerationState => ({
+  sessionId: 'sess-1',
+  settings: { slowModeSeconds: 0, followersOnlyChat: false, blockChatLinks: false },
+  isStreamer: false,
+  canModerate: false,
+  myRestriction: null,
+  restrictions: [],
+  ...overrides,
+});
+
+describe('slowModeLabel', () => {
+  it('labels off, seconds and whole minutes', () => {
+    expect(slowModeLabel(0)).toBe('Off');
+    expect(slowModeLabel(30)).toBe('30s');
+    expect(slowModeLabel(120)).toBe('2m');
+  });
+});
+
+describe('restrictions', () => {
+  it('bans always apply; timeouts only until they expire', () => {
+    expect(isRestrictionActive({ kind: 'ban', expiresAt: null }, NOW)).toBe(true);
+    expect(isRestrictionActive({ kind: 'timeout', expiresAt: at(1000) }, NOW)).toBe(true);
+    expect(isRestrictionActive({ kind: 'timeout', expiresAt: at(-1000) }, NOW)).toBe(false);
+    expect(isRestrictionActive(null, NOW)).toBe(false);
+  });
+
+  it('tells a restricted viewer why and for how long', () => {
+    expect(restrictionNotice({ kind: 'ban', expiresAt: null }, NOW)).toBe("You're banned from this chat");
+    expect(restrictionNotice({ kind: 'timeout', expiresAt: at(245_000) }, NOW)).toBe('Timed out · 4:05 left');
+    expect(restrictionNotice({ kind: 'timeout', expiresAt: at(-1) }, NOW)).toBeNull();
+  });
+});
+
+describe('applyRestrictionEvent', () => {
+  const event = { userId: 'fan', userName: 'Fan', kind: 'timeout' as const, expiresAt: at(60_000), createdAt: at(0) };
+
+  it('staff see the restriction list change; lifting removes the entry', () => {
+    const restricted = applyRestrictionEvent(state({ canModerate: true }), event, 'mod');
+    expect(restricted.restrictions).toEqual([
+      { userId: 'fan', userName: 'Fan', kind: 'timeout', expiresAt: at(60_000), createdAt: at(0) },
+    ]);
+    expect(restricted.myRestriction).toBeNull();
+
+    const lifted = applyRestrictionEvent(restricted, { userId: 'fan', kind: null, expiresAt: null }, 'mod');
+    expect(lifted.restrictions).toEqual([]);
+  });
+
+  it('the restricted viewer gets their own restriction but never the list', () => {
+    const mine = applyRestrictionEvent(state(), event, 'fan');
+    expect(mine.myRestriction).toMatchObject({ kind: 'timeout', expiresAt: at(60_000) });
+    expect(mine.restrictions).toEqual([]);
+
+    const lifted = applyRestrictionEvent(mine, { userId: 'fan', kind: null, expiresAt: null }, 'fan');
+    expect(lifted.myRestriction).toBeNull();
+  });
+});
+
+describe('applySettingsEvent', () => {
+  it('replaces the settings and ignores the event envelope', () => {
+    const payload = { sessionId: 'sess-1', slowModeSeconds: 30, followersOnlyChat: true, blockChatLinks: true };
+    const next = applySettingsEvent(state(), payload);
+    expect(next.settings).toEqual({ slowModeSeconds: 30, followersOnlyChat: true, blockChatLinks: true });
+  });
+});
+
+describe('addBannedWords', () => {
+  it('splits on commas, normalizes and skips duplicates', () => {
+    expect(addBannedWords(['airtime'], ' Free  MONEY , airtime,, bit ly ')).toEqual(['airtime', 'free money', 'bit ly']);
+  });
+});
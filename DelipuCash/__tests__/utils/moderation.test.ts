@@ -0,0 +1,99 @@
+/**
+ * Unit tests for review console helpers (utils/moderation.ts).
+ *
+ * Locks the role gate, the report and audit labels, the bulk selection cap
+ * and the rejection reason check.
+ */
+import {
+  BULK_REVIEW_MAX,
+  auditEntryLabel,
+  isModerator,
+  openReportTotal,
+  queueItemKey,
+  rejectionReasonError,
+  reportReasonSummary,
+  reviewResultMessage,
+  toggleSelectAll,
+  toggleSelection,
+} from '@/utils/moderation';
+import { UserRole, type ModerationAuditEntry } from '@/types';
+
+const entry = (overrides: Partial<ModerationAuditEntry> = {}): ModerationAuditEntry => ({
+  id: 'action-1',
+  actor: { id: 'mod-1', name: 'Ada Nabirye', role: UserRole.MODERATOR },
+  targetType: 'ad',
+  targetId: 'ad-1',
+  targetLabel: 'Fresh juice',
+  action: 'approved',
+  reason: null,
+  reportCount: 0,
+  createdAt: '2026-10-18T12:00:00.000Z',
+  ...overrides,
+});
+
+describe('isModerator', () => {
+  it('lets admins and moderators in, and no one else', () => {
+    expect(isModerator(UserRole.ADMIN)).toBe(true);
+    expect(isModerator('MODERATOR')).toBe(true);
+    expect(isModerator(UserRole.USER)).toBe(false);
+    expect(isModerator(undefined)).toBe(false);
+  });
+});
+
+describe('labels', () => {
+  it('summarizes reports by reason', () => {
+    expect(reportReasonSummary({
+      reportCount: 3,
+      reasons: [{ reason: 'scam', count: 2 }, { reason: 'spam', count: 1 }],
+    })).toBe('3 reports · Scam or fraud ×2, Spam');
+    expect(reportReasonSummary({ reportCount: 1, reasons: [{ reason: 'hate', count: 1 }] })).toBe('1 report · Hate speech');
+  });
+
+  it('says who did what in the audit trail', () => {
+    expect(auditEntryLabel(entry())).toBe('Ada Nabirye approved an ad');
+    expect(auditEntryLabel(entry({ targetType: 'response', action: 'removed', reportCount: 4 })))
+      .toBe('Ada Nabirye removed an answer (4 reports)');
+    expect(auditEntryLabel(entry({ actor: { id: 'gone', name: null, role: null }, targetType: 'comment', action: 'dismissed', reportCount: 1 })))
+      .toBe('A moderator dismissed reports on a comment (1 report)');
+  });
+
+  it('counts open reports across types', () => {
+    expect(openReportTotal({ pendingAds: 2, openReports: { video: 1, comment: 3, response: 0, survey: 2 } })).toBe(6);
+    expect(openReportTotal(undefined)).toBe(0);
+  });
+
+  it('reports what a bulk action skipped', () => {
+    expect(reviewResultMessage('approve', 3, [], 'ad')).toBe('Approved 3 ads');
+    expect(reviewResultMessage('remove', 1, [
+      { message: 'No open reports' },
+      { message: 'No open reports' },
+    ], 'item')).toBe('Removed 1 item · 2 skipped: No open reports');
+  });
+});
+
+describe('selection', () => {
+  it('toggles one item and stops at the bulk cap', () => {
+    expect(toggleSelection([], 'a')).toEqual(['a']);
+    expect(toggleSelection(['a', 'b'], 'a')).toEqual(['b']);
+    const full = Array.from({ length: BULK_REVIEW_MAX }, (_, i) => `id-${i}`);
+    expect(toggleSelection(full, 'one-more')).toBe(full);
+  });
+
+  it('selects everything shown, or clears when all already are', () => {
+    expect(toggleSelectAll(['a'], ['a', 'b'])).toEqual(['a', 'b']);
+    expect(toggleSelectAll(['a', 'b'], ['a', 'b'])).toEqual([]);
+    expect(toggleSelectAll([], [])).toEqual([]);
+  });
+
+  it('keys reported items by type and id', () => {
+    expect(queueItemKey({ targetType: 'video', targetId: 'v1' })).toBe('video:v1');
+  });
+});
+
+describe('rejectionReasonError', () => {
+  it('needs a reason the server will take', () => {
+    expect(rejectionReasonError('  ')).toMatch(/advertiser sees it/);
+    expect(rejectionReasonError('x'.repeat(501))).toMatch(/500/);
+    expect(rejectionReasonError('Misleading or unverifiable claims')).toBeNull();
+  });
+});
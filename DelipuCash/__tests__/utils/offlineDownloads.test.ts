@@ -0,0 +1,182 @@
+/**
+ * Unit tests for offline download helpers (utils/offlineDownloads.ts).
+ *
+ * Locks the ChaCha20 keystream against the RFC 8439 vectors, which byte
+ * ranges of a file are encrypted, which queued download starts next and why
+ * the queue waits, the storage cap, and the Downloads tab labels.
+ */
+import {
+  ENCRYPTED_SPAN_BYTES,
+  chacha20Block,
+  chacha20Xor,
+  cryptRange,
+  downloadStatusLabel,
+  encryptedRanges,
+  expiryLabel,
+  fitsStorageCap,
+  isDownloadExpired,
+  nextQueuedDownload,
+  queueBlocker,
+  storageUsedBytes,
+} from '@/utils/offlineDownloads';
+import type { OfflineDownload } from '@/store/OfflineDownloadStore';
+
+const hex = (bytes: Uint8Array) => Buffer.from(bytes).toString('hex');
+const fromHex = (value: string) => new Uint8Array(Buffer.from(value, 'hex'));
+const KEY = Uint8Array.from({ length: 32 }, (_, i) => i);
+
+const NOW = new Date('2026-10-18T12:00:00.000Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+const inDays = (days: number) => new Date(NOW.getTime() + days * DAY_MS).toISOString();
+
+const download = (videoId: string, overrides: Partial<OfflineDownload> = {}): OfflineDownload => ({
+  videoId,
+  userId: 'u1',
+  video: { id: videoId, title: `Video ${videoId}`, thumbnail: '' },
+  status: 'queued',
+  progress: 0,
+  sizeBytes: null,
+  fileUri: null,
+  expiresAt: null,
+  queuedAt: '2026-10-18T10:00:00.000Z',
+  completedAt: null,
+  attempts: 0,
+  error: null,
+  ...overrides,
+});
+
+describe('chacha20Block', () => {
+  it('matches the RFC 8439 §2.3.2 block function vector', () => {
+    const block = chacha20Block(KEY, 1, fromHex('000000090000004a00000000'));
+    expect(hex(block.subarray(0, 16))).toBe('10f1e7e4d13b5915500fdd1fa32071c4');
+  });
+
+  it('rejects a key or nonce of the wrong length', () => {
+    expect(() => chacha20Block(new Uint8Array(16), 0, new Uint8Array(12))).toThrow('32 bytes');
+    expect(() => chacha20Block(KEY, 0, new Uint8Array(8))).toThrow('12 bytes');
+  });
+});
+
+describe('chacha20Xor', () => {
+  it('matches the RFC 8439 §2.4.2 encryption vector', () => {
+    const plaintext = new TextEncoder().encode(
+      "Ladies and Gentlemen of the class of '99: If I could offer you only one tip for the future, sunscreen would be it.",
+    );
+    const ciphertext = chacha20Xor(KEY, fromHex('000000000000004a00000000'), 1, plaintext);
+    expect(hex(ciphertext.subarray(0, 16))).toBe('6e2e359a2568f98041ba0728dd0d6981');
+    expect(ciphertext).toHaveLength(plaintext.length);
+  });
+
+  it('decrypts what it encrypted', () => {
+    const data = Uint8Array.from({ length: 200 }, (_, i) => (i * 7) % 256);
+    const nonce = new Uint8Array(12);
+    const encrypted = chacha20Xor(KEY, nonce, 3, data);
+    expect(hex(encrypted)).not.toBe(hex(data));
+    expect(hex(chacha20Xor(KEY, nonce, 3, encrypted))).toBe(hex(data));
+  });
+});
+
+describe('encryptedRanges', () => {
+  it('encrypts all of a small file', () => {
+    expect(encryptedRanges(0)).toEqual([]);
+    expect(encryptedRanges(1000)).toEqual([{ offset: 0, length: 1000 }]);
+    expect(encryptedRanges(ENCRYPTED_SPAN_BYTES * 2)).toEqual([{ offset: 0, length: ENCRYPTED_SPAN_BYTES * 2 }]);
+  });
+
+  it('encrypts both ends of a large file from a block boundary', () => {
+    const size = 50 * 1024 * 1024 + 13;
+    const [head, tail] = encryptedRanges(size);
+    expect(head).toEqual({ offset: 0, length: ENCRYPTED_SPAN_BYTES });
+    expect(tail.offset % 64).toBe(0);
+    expect(tail.offset + tail.length).toBe(size);
+    expect(tail.length).toBeGreaterThanOrEqual(ENCRYPTED_SPAN_BYTES);
+  });
+});
+
+describe('cryptRange', () => {
+  it('uses the part of the keystream at the range offset', () => {
+    const data = new Uint8Array(256).fill(0xab);
+    const whole = cryptRange(KEY, 0, data);
+    expect(hex(cryptRange(KEY, 128, data.subarray(128)))).toBe(hex(whole.subarray(128)));
+  });
+
+  it('rejects an offset off a block boundary', () => {
+    expect(() => cryptRange(KEY, 10, new Uint8Array(4))).toThrow('64-byte block');
+  });
+});
+
+describe('queueBlocker', () => {
+  it('waits for a connection, then for Wi-Fi when the setting asks for it', () => {
+    expect(queueBlocker({ isOnline: false, isWifi: false }, false)).toBe('offline');
+    expect(queueBlocker({ isOnline: true, isWifi: false }, true)).toBe('waiting_for_wifi');
+    expect(queueBlocker({ isOnline: true, isWifi: false }, false)).toBeNull();
+    expect(queueBlocker({ isOnline: true, isWifi: true }, true)).toBeNull();
+  });
+});
+
+describe('nextQueuedDownload', () => {
+  it('starts the oldest queued download', () => {
+    const downloads = [
+      download('new', { queuedAt: '2026-10-18T11:00:00.000Z' }),
+      download('running', { status: 'downloading', queuedAt: '2026-10-18T08:00:00.000Z' }),
+      download('old', { queuedAt: '2026-10-18T09:00:00.000Z' }),
+    ];
+    expect(nextQueuedDownload(downloads)?.videoId).toBe('old');
+    expect(nextQueuedDownload([download('done', { status: 'ready' })])).toBeNull();
+  });
+});
+
+describe('storage cap', () => {
+  const downloads = [
+    download('a', { status: 'ready', sizeBytes: 600 }),
+    download('b', { status: 'downloading', sizeBytes: 300 }),
+    download('c', { status: 'failed', sizeBytes: 5000 }),
+  ];
+
+  it('counts finished and running downloads only', () => {
+    expect(storageUsedBytes(downloads)).toBe(900);
+    expect(storageUsedBytes(downloads, 'b')).toBe(600);
+  });
+
+  it('lets a download in when it fits next to the others', () => {
+    expect(fitsStorageCap(downloads, 'd', 100, 1000)).toBe(true);
+    expect(fitsStorageCap(downloads, 'd', 101, 1000)).toBe(false);
+    // Its own earlier size doesn't count against it
+    expect(fitsStorageCap(downloads, 'b', 400, 1000)).toBe(true);
+  });
+});
+
+describe('expiry', () => {
+  it('counts a download as expired once its license runs out', () => {
+    expect(isDownloadExpired({ expiresAt: inDays(-1) }, NOW)).toBe(true);
+    expect(isDownloadExpired({ expiresAt: inDays(1) }, NOW)).toBe(false);
+    expect(isDownloadExpired({ expiresAt: null }, NOW)).toBe(false);
+  });
+
+  it('labels how long is left', () => {
+    expect(expiryLabel(inDays(0.5), NOW)).toBe('Expires today');
+    expect(expiryLabel(inDays(1.5), NOW)).toBe('Expires tomorrow');
+    expect(expiryLabel(inDays(12.5), NOW)).toBe('Expires in 12 days');
+    expect(expiryLabel(inDays(-1), NOW)).toBe('Expired');
+  });
+});
+
+describe('downloadStatusLabel', () => {
+  it('says why a queued download is waiting', () => {
+    expect(downloadStatusLabel(download('a'), 'waiting_for_wifi', NOW)).toBe('Waiting for Wi-Fi');
+    expect(downloadStatusLabel(download('a'), 'offline', NOW)).toBe('Waiting for a connection');
+    expect(downloadStatusLabel(download('a'), null, NOW)).toBe('Queued');
+  });
+
+  it('shows progress, failures and expiry', () => {
+    expect(downloadStatusLabel(download('a', { status: 'downloading', progress: 0.426 }), null, NOW)).toBe(
+      'Downloading · 43%',
+    );
+    expect(downloadStatusLabel(download('a', { status: 'failed', error: 'Network error' }), null, NOW)).toBe(
+      'Failed — Network error',
+    );
+    expect(downloadStatusLabel(download('a', { status: 'ready', expiresAt: inDays(3.5) }), null, NOW)).toBe(
+      'Expires in 3 days',
+    );
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Unit tests for the answer-piping engine (utils/piping.ts).
+ *
+ * Locks the token grammar ({{q3}} = answer to question 3, {{name}} = computed
+ * variable), how answers render inside text, score/segment evaluation, the
+ * builder's positional remap when questions move, and the validation that
+ * stops a survey from publishing a reference to a missing or later question.
+ */
+import {
+  parsePipingReference,
+  pipeText,
+  previewPipedText,
+  computeVariables,
+  scoreAnswer,
+  remapPipingReferences,
+  validatePiping,
+  validateComputedVariables,
+  DELETED_REFERENCE_TOKEN,
+  type PipingQuestion,
+} from '@/utils/piping';
+import type { ComputedVariable } from '@/store/SurveyBuilderStore';
+
+const questions: PipingQuestion[] = [
+  { id: 'a', type: 'radio', options: ['Poor', 'Okay', 'Great'] },
+  { id: 'b', type: 'rating' },
+  { id: 'c', type: 'checkbox', options: ['x', 'y', 'z'] },
+  { id: 'd', type: 'boolean', booleanLabels: { yesLabel: 'Yep', noLabel: 'Nope' } },
+];
+
+const score: ComputedVariable = { id: 'v1', name: 'score', kind: 'score', sourceQuestionIds: ['a', 'b'] };
+const tier: ComputedVariable = {
+  id: 'v2',
+  name: 'tier',
+  kind: 'segment',
+  sourceQuestionIds: [],
+  source: 'score',
+  bands: [{ min: 0, label: 'cold' }, { min: 6, label: 'warm' }, { min: 8, label: 'hot' }],
+  fallback: 'unknown',
+};
+
+const builderQ = (id: string, text: string, options: string[] = []) => ({ id, text, options });
+
+describe('parsePipingReference', () => {
+  it.each([
+    ['q3', { kind: 'question', position: 3 }],
+    [' Q12 ', { kind: 'question', position: 12 }],
+    ['score', { kind: 'variable', name: 'score' }],
+    ['q?', { kind: 'deleted' }],
+    ['not valid', { kind: 'invalid', raw: 'not valid' }],
+  ])('%s', (raw, expected) => {
+    expect(parsePipingReference(raw)).toEqual(expected);
+  });
+});
+
+describe('pipeText', () => {
+  const answers = { a: 'Great', b: 4, c: ['x', 'z'], d: 'false' };
+
+  it('fills question references with formatted answers', () => {
+    const context = { questions, answers };
+    expect(pipeText('You rated us {{q2}} — why?', context)).toBe('You rated us 4 — why?');
+    expect(pipeText('You picked {{ q3 }}', context)).toBe('You picked x, z');
+    expect(pipeText('{{q4}}, really?', context)).toBe('Nope, really?');
+  });
+
+  it('fills computed variables and rounds numbers', () => {
+    expect(pipeText('Score {{score}} / {{tier}}', { questions, answers, variables: { score: 7.456, tier: 'warm' } }))
+      .toBe('Score 7.46 / warm');
+  });
+
+  it('drops unresolved tokens without leaving gaps', () => {
+    const context = { questions, answers: {} };
+    expect(pipeText('You rated us {{q2}} — why?', context)).toBe('You rated us — why?');
+    expect(pipeText('Thanks {{nobody}}!', context)).toBe('Thanks!');
+    expect(pipeText('{{q1}} is your pick', context)).toBe('is your pick');
+  });
+
+  it('returns text without tokens untouched', () => {
+    expect(pipeText('Plain  text', { questions, answers })).toBe('Plain  text');
+  });
+});
+
+describe('previewPipedText', () => {
+  it('renders readable placeholders for the builder preview', () => {
+    expect(previewPipedText('You rated us {{q3}} ({{tier}})')).toBe('You rated us [answer to Q3] ([tier])');
+  });
+});
+
+describe('computed variables', () => {
+  it('scores numbers, option positions, checkbox counts and yes/no', () => {
+    expect(scoreAnswer('Great', questions[0])).toBe(3);
+    expect(scoreAnswer(4, questions[1])).toBe(4);
+    expect(scoreAnswer('5', questions[1])).toBe(5);
+    expect(scoreAnswer(['x', 'y'], questions[2])).toBe(2);
+    expect(scoreAnswer('true', questions[3])).toBe(1);
+    expect(scoreAnswer(undefined, questions[1])).toBe(0);
+  });
+
+  it('sums a score and bands a segment that reads an earlier variable', () => {
+    expect(computeVariables([score, tier], questions, { a: 'Great', b: 4 })).toEqual({ score: 7, tier: 'warm' });
+    expect(computeVariables([score, tier], questions, { a: 'Great', b: 5 })).toEqual({ score: 8, tier: 'hot' });
+  });
+
+  it('falls back when a segment source question is unanswered', () => {
+    const byQuestion: ComputedVariable = { ...tier, source: 'b' };
+    expect(computeVariables([byQuestion], questions, {})).toEqual({ tier: 'unknown' });
+  });
+});
+
+describe('remapPipingReferences', () => {
+  it('keeps tokens on the same question after a reorder', () => {
+    const before = [builderQ('a', 'First'), builderQ('b', 'Second'), builderQ('c', 'You said {{q1}} and {{q2}}')];
+    const after = [before[1], before[0], before[2]];
+    const remapped = remapPipingReferences(before, after);
+    expect(remapped[2].text).toBe('You said {{q2}} and {{q1}}');
+    expect(remapped[0]).toBe(before[1]); // untouched questions keep identity
+  });
+
+  it('rewrites references to a deleted question and shifts the rest', () => {
+    const before = [builderQ('a', 'A'), builderQ('b', 'B'), builderQ('c', 'C'), builderQ('d', '{{q2}} / {{q3}}', ['{{q3}}'])];
+    const remapped = remapPipingReferences(before, before.filter((q) => q.id !== 'b'));
+    expect(remapped[2].text).toBe(`${DELETED_REFERENCE_TOKEN} / {{q2}}`);
+    expect(remapped[2].options).toEqual(['{{q2}}']);
+  });
+});
+
+describe('validatePiping', () => {
+  it('accepts references to earlier questions and defined variables', () => {
+    const qs = [builderQ('a', 'Pick'), builderQ('b', 'Rate'), builderQ('c', 'You said {{q1}}, score {{score}}')];
+    expect(validatePiping(qs, [score])).toEqual([]);
+  });
+
+  it.each([
+    ['a missing question', 'Hi {{q9}}', /Q9, which doesn't exist/],
+    ['a later question', 'Hi {{q3}}', /Q3, which comes later/],
+    ['its own answer', 'Hi {{q2}}', /its own answer/],
+    ['a deleted question', `Hi ${DELETED_REFERENCE_TOKEN}`, /deleted/],
+    ['an unknown variable', 'Hi {{ghost}}', /isn't a computed variable/],
+    ['a variable that depends on a later question', 'Hi {{score}}', /depends on Q2/],
+  ])('flags %s', (_label, text, message) => {
+    const qs = [builderQ('a', 'Pick'), builderQ('b', text), builderQ('c', 'Last')];
+    const issues = validatePiping(qs, [{ ...score, sourceQuestionIds: ['a', 'b'] }]);
+    expect(issues).toHaveLength(1);
+    expect(issues[0].questionIndex).toBe(1);
+    expect(issues[0].message).toMatch(message);
+  });
+
+  it('checks options too', () => {
+    const qs = [builderQ('a', 'Pick', ['{{q2}}', 'No']), builderQ('b', 'Rate')];
+    expect(validatePiping(qs)[0]).toMatchObject({ questionIndex: 0 });
+  });
+});
+
+describe('validateComputedVariables', () => {
+  const qs = [{ id: 'a' }, { id: 'b' }];
+
+  it.each<[string, ComputedVariable[], RegExp]>([
+    ['a bad name', [{ ...score, name: '1st' }], /must start with a letter/],
+    ['a reserved name', [{ ...score, name: 'q2' }], /reserved/],
+    ['a duplicate name', [score, { ...score, id: 'v9', name: 'Score' }], /more than once/],
+    ['a score with no sources', [{ ...score, sourceQuestionIds: [] }], /at least one question/],
+    ['a score of a deleted question', [{ ...score, sourceQuestionIds: ['gone'] }], /no longer exists/],
+    ['a segment reading a later variable', [tier, score], /defined above/],
+    ['a band without a label', [score, { ...tier, bands: [{ min: 1, label: ' ' }] }], /label/],
+  ])('flags %s', (_label, variables, message) => {
+    const issues = validateComputedVariables(variables, qs);
+    expect(issues[0]?.message).toMatch(message);
+  });
+
+  it('accepts a score followed by a segment over it', () => {
+    expect(validateComputedVariables([score, tier], qs)).toEqual([]);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Unit tests for playlist helpers (utils/playlists.ts).
+ *
+ * Locks the series chip and playlist card labels, which video plays after a
+ * series part, and how a playlist draft is edited and checked before saving.
+ */
+import {
+  PLAYLIST_DESCRIPTION_MAX,
+  PLAYLIST_MAX_ITEMS,
+  PLAYLIST_TITLE_MAX,
+  moveItem,
+  nextPart,
+  playlistDraftError,
+  playlistSubtitle,
+  seriesChipLabel,
+  toggleItem,
+} from '@/utils/playlists';
+import type { Video } from '@/types';
+
+const video = (id: string): Video => ({ id, title: `Video ${id}` } as Video);
+
+describe('seriesChipLabel', () => {
+  it('shows the part, the part count and the series title', () => {
+    expect(seriesChipLabel({ id: 's1', title: 'Budget meals', part: 2, parts: 5 })).toBe('Part 2 of 5 · Budget meals');
+  });
+});
+
+describe('playlistSubtitle', () => {
+  it('counts parts for a series and videos for a playlist', () => {
+    expect(playlistSubtitle({ kind: 'series', itemCount: 5 })).toBe('Series · 5 parts');
+    expect(playlistSubtitle({ kind: 'playlist', itemCount: 1 })).toBe('Playlist · 1 video');
+    expect(playlistSubtitle({ kind: 'series', itemCount: 1 })).toBe('Series · 1 part');
+  });
+
+  it('says when a playlist is empty', () => {
+    expect(playlistSubtitle({ kind: 'playlist', itemCount: 0 })).toBe('Playlist · Empty');
+  });
+});
+
+describe('nextPart', () => {
+  const parts = [video('a'), video('b'), video('c')];
+
+  it('returns the video after the current one', () => {
+    expect(nextPart(parts, 'a')?.id).toBe('b');
+    expect(nextPart(parts, 'b')?.id).toBe('c');
+  });
+
+  it('returns null on the last part or for a video no longer in the series', () => {
+    expect(nextPart(parts, 'c')).toBeNull();
+    expect(nextPart(parts, 'gone')).toBeNull();
+    expect(nextPart([], 'a')).toBeNull();
+  });
+});
+
+describe('toggleItem', () => {
+  it('adds to the end and removes when already present', () => {
+    expect(toggleItem(['a', 'b'], 'c')).toEqual(['a', 'b', 'c']);
+    expect(toggleItem(['a', 'b', 'c'], 'b')).toEqual(['a', 'c']);
+  });
+
+  it('does not add past the playlist limit, but still removes', () => {
+    const full = Array.from({ length: PLAYLIST_MAX_ITEMS }, (_, i) => `v${i}`);
+    expect(toggleItem(full, 'extra')).toEqual(full);
+    expect(toggleItem(full, 'v0')).toHaveLength(PLAYLIST_MAX_ITEMS - 1);
+  });
+
+  it('never mutates the input', () => {
+    const ids = ['a'];
+    toggleItem(ids, 'b');
+    expect(ids).toEqual(['a']);
+  });
+});
+
+describe('moveItem', () => {
+  it('moves an item up or down', () => {
+    expect(moveItem(['a', 'b', 'c'], 2, 0)).toEqual(['c', 'a', 'b']);
+    expect(moveItem(['a', 'b', 'c'], 0, 1)).toEqual(['b', 'a', 'c']);
+  });
+
+  it('leaves the order alone for out-of-range or no-op moves', () => {
+    expect(moveItem(['a', 'b'], 0, 2)).toEqual(['a', 'b']);
+    expect(moveItem(['a', 'b'], -1, 0)).toEqual(['a', 'b']);
+    expect(moveItem(['a', 'b'], 1, 1)).toEqual(['a', 'b']);
+  });
+});
+
+describe('playlistDraftError', () => {
+  it('accepts a titled draft, even with no videos yet', () => {
+    expect(playlistDraftError({ title: 'Budget meals', videoIds: [] })).toBeNull();
+  });
+
+  it('requires a title that fits', () => {
+    expect(playlistDraftError({ title: '   ', videoIds: [] })).toBe('Give it a title');
+    expect(playlistDraftError({ title: 'x'.repeat(PLAYLIST_TITLE_MAX + 1), videoIds: [] })).toMatch(/title/);
+  });
+
+  it('caps the description and the number of videos', () => {
+    expect(
+      playlistDraftError({ title: 'T', description: 'x'.repeat(PLAYLIST_DESCRIPTION_MAX + 1), videoIds: [] }),
+    ).toMatch(/description/);
+    const tooMany = Array.from({ length: PLAYLIST_MAX_ITEMS + 1 }, (_, i) => `v${i}`);
+    expect(playlistDraftError({ title: 'T', videoIds: tooMany })).toMatch(/at most/);
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Unit tests for livestream replay chat helpers (utils/replayChat.ts).
+ *
+ * Locks which windows load around the playhead, that overlapping windows
+ * merge into one offset-ordered list, and that the chat shown at a position
+ * is exactly what had been sent by then.
+ */
+import {
+  REPLAY_CHAT_WINDOW_MS,
+  mergeReplayWindows,
+  messagesAtPlayhead,
+  playheadIndex,
+  replayChatWindows,
+} from '@/utils/replayChat';
+import type { LivestreamChatMessage } from '@/types';
+
+const message = (id: string, offsetMs: number): LivestreamChatMessage => ({
+  id,
+  userId: 'u1',
+  userName: 'Fan',
+  text: id,
+  offsetMs,
+  timestamp: new Date(Date.UTC(2026, 9, 18, 10) + offsetMs).toISOString(),
+});
+
+describe('replayChatWindows', () => {
+  it('loads the previous, current and next window', () => {
+    const w = REPLAY_CHAT_WINDOW_MS;
+    expect(replayChatWindows(2.5 * w)).toEqual([w, 2 * w, 3 * w]);
+    expect(replayChatWindows(2 * w)).toEqual([w, 2 * w, 3 * w]);
+  });
+
+  it('starts at zero at the beginning of the replay', () => {
+    expect(replayChatWindows(0)).toEqual([0, REPLAY_CHAT_WINDOW_MS]);
+    expect(replayChatWindows(-500)).toEqual([0, REPLAY_CHAT_WINDOW_MS]);
+  });
+});
+
+describe('mergeReplayWindows', () => {
+  it('orders by offset and drops duplicates across windows', () => {
+    const merged = mergeReplayWindows([
+      [message('b', 70_000), message('c', 90_000)],
+      undefined,
+      [message('a', 5_000), message('b', 70_000)],
+    ]);
+
+    expect(merged.map((m) => m.id)).toEqual(['a', 'b', 'c']);
+  });
+});
+
+describe('messagesAtPlayhead', () => {
+  const messages = [message('a', 1_000), message('b', 2_000), message('c', 2_000), message('d', 9_000)];
+
+  it('shows what had been sent by the playhead, inclusive', () => {
+    expect(messagesAtPlayhead(messages, 0)).toEqual([]);
+    expect(messagesAtPlayhead(messages, 2_000).map((m) => m.id)).toEqual(['a', 'b', 'c']);
+    expect(playheadIndex(messages, 8_999)).toBe(3);
+    expect(playheadIndex(messages, 60_000)).toBe(4);
+  });
+
+  it('keeps only the most recent messages', () => {
+    expect(messagesAtPlayhead(messages, 60_000, 2).map((m) => m.id)).toEqual(['c', 'd']);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Unit tests for response quality scoring (utils/responseQuality.ts) and how
+ * the flags reach filterResponses and the exports (store/SurveyResponseUIStore.ts).
+ *
+ * Locks each detector — speeders against the median once there are enough
+ * timed responses, straight-lined ratings and matrices, text copied between
+ * respondents, keyboard mash — and that real sentences, short stock answers
+ * and unscored responses are never flagged.
+ */
+import {
+  annotateQuality,
+  isGibberish,
+  isStraightLined,
+  medianDuration,
+  normalizeText,
+  scoreFlags,
+} from '@/utils/responseQuality';
+import {
+  computeAnalytics,
+  exportToCSV,
+  exportToJSON,
+  filterResponses,
+  parseResponseData,
+  type ParsedResponse,
+} from '@/store/SurveyResponseUIStore';
+import type { Survey, SurveyResponse } from '@/types';
+
+const q = (id: string, type: string) => ({ id, type });
+
+const response = (userId: string, responses: Record<string, unknown>, durationSeconds?: number | null): ParsedResponse => ({
+  userId,
+  createdAt: '2026-01-02T00:00:00.000Z',
+  responses,
+  isComplete: true,
+  durationSeconds,
+});
+
+const survey = { id: 's-1', title: 'Feedback', description: '' } as Survey;
+
+describe('speeders', () => {
+  it('takes the median of reported durations only', () => {
+    expect(medianDuration([300, null, 100, undefined, 200])).toBe(200);
+    expect(medianDuration([100, 200, 300, 400])).toBe(250);
+    expect(medianDuration([null])).toBeNull();
+  });
+
+  it('flags responses under a third of the median once five are timed', () => {
+    const timed = [30, 200, 240, 260, 300].map((s, i) => response(`u-${i}`, {}, s));
+    const scored = annotateQuality([...timed, response('untimed', {}, null)], []);
+    expect(scored.map((r) => r.quality.flags.includes('speeder'))).toEqual([true, false, false, false, false, false]);
+  });
+
+  it('does not judge speed on too few timed responses', () => {
+    const scored = annotateQuality([10, 200, 240, 260].map((s, i) => response(`u-${i}`, {}, s)), []);
+    expect(scored.every((r) => r.quality.flags.length === 0)).toBe(true);
+  });
+});
+
+describe('straight-lining', () => {
+  const ratings = [q('r1', 'rating'), q('r2', 'rating'), q('r3', 'rating')];
+
+  it('flags the same score on every rating question', () => {
+    expect(isStraightLined({ r1: 5, r2: '5', r3: 5 }, ratings)).toBe(true);
+    expect(isStraightLined({ r1: 5, r2: 4, r3: 5 }, ratings)).toBe(false);
+    expect(isStraightLined({ r1: 5, r2: 5 }, ratings)).toBe(false); // two is a coincidence
+  });
+
+  it('flags one column down every answered matrix row', () => {
+    const grid = [q('grid', 'matrix')];
+    expect(isStraightLined({ grid: ['Good', 'Good', '', 'Good'] }, grid)).toBe(true);
+    expect(isStraightLined({ grid: ['Good', 'Okay', 'Good'] }, grid)).toBe(false);
+  });
+});
+
+describe('text checks', () => {
+  it.each([
+    ['asdfgh', true],
+    ['qwerty uiop', true],
+    ['jjjjjj', true],
+    ['xkcd bcdfghjk', true],
+    ['Payouts were quick and the strengths of the app are clear', false],
+    ['Property rights', false],
+    ['Nkwagala nnyo', false],
+    ['ok', false],
+    ['Очень хорошо', false],
+  ])('%j gibberish → %s', (text, expected) => {
+    expect(isGibberish(text)).toBe(expected);
+  });
+
+  it('normalizes case, punctuation and spacing', () => {
+    expect(normalizeText('  Great   app, VERY useful! ')).toBe('great app very useful');
+  });
+
+  it('flags long text shared by different respondents, not short stock answers', () => {
+    const questions = [q('why', 'paragraph')];
+    const scored = annotateQuality(
+      [
+        response('a', { why: 'The payouts arrive really fast.' }),
+        response('b', { why: 'the payouts arrive really fast' }),
+        response('c', { why: 'Good service' }),
+        response('d', { why: 'Good service' }),
+      ],
+      questions
+    );
+    expect(scored.map((r) => r.quality.flags)).toEqual([['duplicate_text'], ['duplicate_text'], [], []]);
+  });
+});
+
+describe('scoring', () => {
+  it('takes a penalty per flag and never goes below 0', () => {
+    expect(scoreFlags([])).toEqual({ score: 100, flags: [] });
+    expect(scoreFlags(['speeder', 'gibberish']).score).toBe(30);
+    expect(scoreFlags(['speeder', 'straight_liner', 'duplicate_text', 'gibberish']).score).toBe(0);
+  });
+});
+
+describe('store integration', () => {
+  const questions = [q('why', 'paragraph')];
+  const scored = annotateQuality(
+    [response('a', { why: 'Helpful and quick' }), response('b', { why: 'asdfghjkl' })],
+    questions
+  );
+
+  it('filters clean or flagged responses, treating unscored ones as clean', () => {
+    expect(filterResponses(scored, { quality: 'flagged' }).map((r) => r.userId)).toEqual(['b']);
+    expect(filterResponses(scored, { quality: 'clean' }).map((r) => r.userId)).toEqual(['a']);
+    expect(filterResponses([response('c', {})], { quality: 'clean' })).toHaveLength(1);
+  });
+
+  it('reads the attempt duration from startedAt → completedAt', () => {
+    const raw = {
+      id: 'r-1',
+      userId: 'u-1',
+      surveyId: 's-1',
+      responses: '{}',
+      startedAt: '2026-01-02T00:00:00.000Z',
+      completedAt: '2026-01-02T00:04:30.000Z',
+      createdAt: '2026-01-02T00:04:30.000Z',
+      updatedAt: '2026-01-02T00:04:30.000Z',
+    } as SurveyResponse;
+    expect(parseResponseData(raw).durationSeconds).toBe(270);
+    expect(parseResponseData({ ...raw, startedAt: null }).durationSeconds).toBeNull();
+  });
+
+  it('reports the median completion time, 0 when nothing was timed', () => {
+    expect(computeAnalytics(survey, [], [response('a', {}, 100), response('b', {}, 300), response('c', {}, 5000)])
+      .averageCompletionTime).toBe(300);
+    expect(computeAnalytics(survey, [], [response('a', {})]).averageCompletionTime).toBe(0);
+  });
+
+  it('exports flags only when responses were scored', () => {
+    const [headers, , flagged] = exportToCSV(survey, [], scored).split('\n');
+    expect(headers).toBe('Timestamp,Respondent,Quality flags');
+    expect(flagged).toBe('"2026-01-02T00:00:00.000Z","b","Gibberish"');
+    expect(exportToCSV(survey, [], [response('a', {})]).split('\n')[0]).toBe('Timestamp,Respondent');
+
+    const exported = JSON.parse(exportToJSON(survey, [], scored));
+    expect(exported.responses[1].quality).toEqual({ score: 70, flags: ['gibberish'] });
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Unit tests for the rewarded ad entry (utils/rewardedAds.ts).
+ *
+ * Locks when the "watch an ad for points" entry shows and can be tapped,
+ * its wording at and below the daily cap, and the playback countdown.
+ */
+import { rewardCountdown, rewardedEntry } from '@/utils/rewardedAds';
+import type { RewardedAdStatus } from '@/types';
+
+const status = (overrides: Partial<RewardedAdStatus> = {}): RewardedAdStatus => ({
+  points: 5,
+  dailyCap: 3,
+  creditedToday: 1,
+  remaining: 2,
+  available: true,
+  ...overrides,
+});
+
+describe('rewardedEntry', () => {
+  it('offers the ad with what is left today', () => {
+    expect(rewardedEntry(status())).toEqual({
+      visible: true,
+      enabled: true,
+      title: 'Watch an ad for +5 points',
+      subtitle: '2 of 3 left today',
+    });
+  });
+
+  it('is hidden until loaded and when rewarded ads are off', () => {
+    expect(rewardedEntry(undefined).visible).toBe(false);
+    expect(rewardedEntry(status({ points: 0 })).visible).toBe(false);
+    expect(rewardedEntry(status({ dailyCap: 0, remaining: 0 })).visible).toBe(false);
+  });
+
+  it('stays visible but disabled at the cap or with no ad ready', () => {
+    expect(rewardedEntry(status({ creditedToday: 3, remaining: 0 }))).toMatchObject({
+      enabled: false,
+      subtitle: "You've watched all 3 ads today — more tomorrow",
+    });
+    expect(rewardedEntry(status({ dailyCap: 1, creditedToday: 1, remaining: 0 })).subtitle)
+      .toBe("You've watched today's ad — more tomorrow");
+    expect(rewardedEntry(status({ available: false }))).toMatchObject({
+      enabled: false,
+      subtitle: 'No ads to watch right now — check back soon',
+    });
+  });
+});
+
+describe('rewardCountdown', () => {
+  it('counts down the rest of the ad', () => {
+    expect(rewardCountdown(3.2, 30)).toBe('Points in 0:27');
+    expect(rewardCountdown(0, 95)).toBe('Points in 1:35');
+  });
+
+  it('waits on the server once played, and prompts before the length is known', () => {
+    expect(rewardCountdown(30, 30)).toBe('Adding your points…');
+    expect(rewardCountdown(0, 0)).toBe('Watch to the end to earn points');
+  });
+});
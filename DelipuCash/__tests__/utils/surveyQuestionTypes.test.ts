@@ -0,0 +1,179 @@
+/**
+ * Unit tests for the matrix, ranking and NPS question types
+ * (utils/surveyQuestionTypes.ts) and how their answers flow into response
+ * analytics and the CSV/JSON exports (store/SurveyResponseUIStore.ts).
+ *
+ * Locks the answer shapes — matrix answers are row-aligned with '' for an
+ * unanswered row, a ranking holds every item most-preferred first, NPS is an
+ * integer 0–10 — and that an NPS of 0 is counted and exported, not dropped.
+ */
+import {
+  getNpsCategory,
+  isMatrixComplete,
+  isNpsScore,
+  isRankingComplete,
+  moveRankedItem,
+  parseMatrixConfig,
+  resolveRankingOrder,
+  setMatrixCell,
+  summarizeNps,
+} from '@/utils/surveyQuestionTypes';
+import {
+  computeQuestionAggregate,
+  exportToCSV,
+  exportToJSON,
+  type ParsedResponse,
+} from '@/store/SurveyResponseUIStore';
+import type { Survey, UploadSurvey } from '@/types';
+
+const question = (id: string, type: string, options: unknown, text = id): UploadSurvey => ({
+  id,
+  text,
+  type,
+  options: JSON.stringify(options),
+  placeholder: null,
+  minValue: null,
+  maxValue: null,
+  required: true,
+  userId: 'u-1',
+  surveyId: 's-1',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+});
+
+const response = (userId: string, responses: Record<string, unknown>): ParsedResponse => ({
+  userId,
+  createdAt: '2026-01-02T00:00:00.000Z',
+  responses,
+  isComplete: true,
+});
+
+const survey = { id: 's-1', title: 'Feedback', description: '' } as Survey;
+
+const grid = question('grid', 'matrix', { rows: ['Speed', 'Price'], columns: ['Bad', 'Okay', 'Good'] }, 'Rate us');
+const rank = question('rank', 'ranking', ['Tea', 'Coffee', 'Juice'], 'Favourite drink');
+const nps = question('nps', 'nps', { min: 0, max: 10 }, 'Recommend us?');
+
+describe('NPS', () => {
+  it.each([
+    [10, 'promoter'],
+    [9, 'promoter'],
+    [8, 'passive'],
+    [7, 'passive'],
+    [6, 'detractor'],
+    [0, 'detractor'],
+  ])('%i is a %s', (score, category) => {
+    expect(getNpsCategory(score)).toBe(category);
+  });
+
+  it('only accepts whole scores from 0 to 10', () => {
+    expect(isNpsScore(0)).toBe(true);
+    expect(isNpsScore(10)).toBe(true);
+    expect(isNpsScore(11)).toBe(false);
+    expect(isNpsScore(7.5)).toBe(false);
+    expect(isNpsScore('9')).toBe(false);
+  });
+
+  it('scores % promoters minus % detractors', () => {
+    expect(summarizeNps([10, 9, 8, 0])).toEqual({ score: 25, promoters: 2, passives: 1, detractors: 1 });
+    expect(summarizeNps([]).score).toBe(0);
+  });
+});
+
+describe('matrix answers', () => {
+  it('reads { rows, columns } from JSON or an object and tolerates junk', () => {
+    expect(parseMatrixConfig('{"rows":["A"],"columns":["x","y"]}')).toEqual({ rows: ['A'], columns: ['x', 'y'] });
+    expect(parseMatrixConfig({ rows: ['A', 3], columns: 'x' })).toEqual({ rows: ['A'], columns: [] });
+    expect(parseMatrixConfig('not json')).toEqual({ rows: [], columns: [] });
+    expect(parseMatrixConfig(['A', 'B'])).toEqual({ rows: [], columns: [] });
+  });
+
+  it('keeps the answer aligned with the rows as cells are picked', () => {
+    const first = setMatrixCell(undefined, 3, 1, 'Good');
+    expect(first).toEqual(['', 'Good', '']);
+    expect(isMatrixComplete(first, 3)).toBe(false);
+
+    const done = setMatrixCell(setMatrixCell(first, 3, 0, 'Bad'), 3, 2, 'Okay');
+    expect(done).toEqual(['Bad', 'Good', 'Okay']);
+    expect(isMatrixComplete(done, 3)).toBe(true);
+  });
+});
+
+describe('ranking answers', () => {
+  const items = ['a', 'b', 'c'];
+
+  it('moves an item and leaves out-of-range moves alone', () => {
+    expect(moveRankedItem(items, 2, 0)).toEqual(['c', 'a', 'b']);
+    expect(moveRankedItem(items, 0, -1)).toBe(items);
+    expect(moveRankedItem(items, 1, 1)).toBe(items);
+  });
+
+  it('is complete only when it orders exactly the question items', () => {
+    expect(isRankingComplete(['c', 'a', 'b'], items)).toBe(true);
+    expect(isRankingComplete(['a', 'b'], items)).toBe(false);
+    expect(isRankingComplete(['a', 'a', 'b'], items)).toBe(false);
+    expect(isRankingComplete(['a', 'b', 'x'], items)).toBe(false);
+  });
+
+  it('shows the question order until the respondent ranks', () => {
+    expect(resolveRankingOrder(undefined, items)).toBe(items);
+    expect(resolveRankingOrder(['b', 'c', 'a'], items)).toEqual(['b', 'c', 'a']);
+  });
+});
+
+describe('response analytics', () => {
+  it('summarizes NPS with a 0–10 distribution, counting 0 as a detractor', () => {
+    const aggregate = computeQuestionAggregate(nps, [
+      response('a', { nps: 10 }),
+      response('b', { nps: 0 }),
+      response('c', { nps: 8 }),
+      response('d', { nps: 9 }),
+    ]);
+    expect(aggregate.npsScore).toBe(25);
+    expect(aggregate).toMatchObject({ promoters: 2, passives: 1, detractors: 1 });
+    expect(aggregate.ratingDistribution).toEqual([1, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1]);
+  });
+
+  it('averages each ranking position and counts first-place picks', () => {
+    const aggregate = computeQuestionAggregate(rank, [
+      response('a', { rank: ['Coffee', 'Tea', 'Juice'] }),
+      response('b', { rank: ['Coffee', 'Juice', 'Tea'] }),
+    ]);
+    expect(aggregate.meanRanks).toEqual({ Coffee: 1, Tea: 2.5, Juice: 2.5 });
+    expect(Object.keys(aggregate.meanRanks!)[0]).toBe('Coffee');
+    expect(aggregate.answerDistribution).toEqual({ Coffee: 2 });
+  });
+
+  it('breaks a matrix down per row, skipping unanswered rows', () => {
+    const aggregate = computeQuestionAggregate(grid, [
+      response('a', { grid: ['Good', 'Bad'] }),
+      response('b', { grid: ['Good', ''] }),
+    ]);
+    expect(aggregate.rowDistributions).toEqual({
+      Speed: { Bad: 0, Okay: 0, Good: 2 },
+      Price: { Bad: 1, Okay: 0, Good: 0 },
+    });
+    expect(aggregate.answerDistribution).toEqual({ Good: 2, Bad: 1 });
+  });
+});
+
+describe('exports', () => {
+  const questions = [grid, rank, nps];
+  const responses = [response('a', { grid: ['Good', ''], rank: ['Juice', 'Tea', 'Coffee'], nps: 0 })];
+
+  it('spreads matrix rows and ranking items into their own CSV columns', () => {
+    const [headers, row] = exportToCSV(survey, questions, responses).split('\n');
+    expect(headers).toBe(
+      'Timestamp,Respondent,Rate us [Speed],Rate us [Price],' +
+        'Favourite drink [Tea],Favourite drink [Coffee],Favourite drink [Juice],Recommend us?'
+    );
+    expect(row).toBe('"2026-01-02T00:00:00.000Z","a","Good","","2","3","1","0"');
+  });
+
+  it('keys matrix answers by row label in JSON', () => {
+    const exported = JSON.parse(exportToJSON(survey, questions, responses));
+    expect(exported.questions[0]).toMatchObject({ rows: ['Speed', 'Price'], columns: ['Bad', 'Okay', 'Good'] });
+    expect(exported.questions[1].items).toEqual(['Tea', 'Coffee', 'Juice']);
+    expect(exported.responses[0].answers).toEqual({ grid: { Speed: 'Good' }, rank: ['Juice', 'Tea', 'Coffee'], nps: 0 });
+  });
+});
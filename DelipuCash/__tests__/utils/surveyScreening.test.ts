@@ -0,0 +1,115 @@
+/**
+ * Unit tests for screener questions and quotas (utils/surveyScreening.ts).
+ *
+ * Locks the builder rules — single-choice only, required, ahead of the paid
+ * section, a real non-qualifying answer, quotas only on qualifying answers —
+ * and the respondent outcome: screened out, over quota against the live fill,
+ * or qualified.
+ */
+import {
+  getQuotaFillRatio,
+  getScreenerAnswerSpace,
+  getScreenerOutcome,
+  validateScreeners,
+  type ScreeningQuestion,
+} from '@/utils/surveyScreening';
+import type { SurveyQuotaFill } from '@/types';
+
+const screener = (overrides: Partial<ScreeningQuestion> = {}): ScreeningQuestion => ({
+  id: 'q-1',
+  type: 'radio',
+  options: ['Female', 'Male', 'Prefer not to say'],
+  required: true,
+  screener: { qualifying: ['Female', 'Male'] },
+  ...overrides,
+});
+
+const paid: ScreeningQuestion = { id: 'q-2', type: 'rating', options: [] };
+
+const fill = (answer: string, full: boolean): SurveyQuotaFill => ({
+  questionId: 'q-1',
+  questionText: 'Gender',
+  answer,
+  limit: 100,
+  filled: full ? 100 : 40,
+  full,
+});
+
+describe('getScreenerAnswerSpace', () => {
+  it('uses the renderer strings for yes/no questions and drops blank options', () => {
+    expect(getScreenerAnswerSpace({ type: 'boolean', options: ['Yes', 'No'] })).toEqual(['true', 'false']);
+    expect(getScreenerAnswerSpace({ type: 'dropdown', options: ['A', ' ', 'B'] })).toEqual(['A', 'B']);
+  });
+});
+
+describe('validateScreeners', () => {
+  it('accepts screeners ahead of the paid section, with quotas on qualifying answers', () => {
+    const first = screener({ screener: { qualifying: ['Female', 'Male'], quotas: [{ answer: 'Female', limit: 100 }] } });
+    const second = screener({ id: 'q-3', type: 'boolean', options: [], screener: { qualifying: ['true'] } });
+    expect(validateScreeners([first, second, paid])).toEqual([]);
+  });
+
+  it.each<[string, ScreeningQuestion, RegExp]>([
+    ['a multi-select screener', screener({ type: 'checkbox' }), /single-choice or yes\/no/],
+    ['an optional screener', screener({ required: false }), /must be required/],
+    ['no qualifying answer', screener({ screener: { qualifying: [] } }), /at least one qualifying answer/],
+    ['a stale qualifying answer', screener({ screener: { qualifying: ['Other'] } }), /no longer an option/],
+    ['every answer qualifying', screener({ screener: { qualifying: ['Female', 'Male', 'Prefer not to say'] } }), /does not qualify/],
+    [
+      'a quota on a non-qualifying answer',
+      screener({ screener: { qualifying: ['Female'], quotas: [{ answer: 'Male', limit: 10 }] } }),
+      /caps "Male", which does not qualify/,
+    ],
+    [
+      'a duplicate quota',
+      screener({ screener: { qualifying: ['Female'], quotas: [{ answer: 'Female', limit: 10 }, { answer: 'Female', limit: 20 }] } }),
+      /two quotas for "Female"/,
+    ],
+    [
+      'a zero quota',
+      screener({ screener: { qualifying: ['Female'], quotas: [{ answer: 'Female', limit: 0 }] } }),
+      /limits of 1 or more/,
+    ],
+  ])('rejects %s', (_label, question, message) => {
+    const issues = validateScreeners([question, paid]);
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toEqual({ questionIndex: 0, message: expect.stringMatching(message) });
+  });
+
+  it('rejects a screener after a paid question', () => {
+    expect(validateScreeners([paid, screener()])).toEqual([
+      { questionIndex: 1, message: 'is a screener, so it must come before every other question' },
+    ]);
+  });
+});
+
+describe('getScreenerOutcome', () => {
+  const question = { id: 'q-1', screener: { qualifying: ['Female', 'Male'], quotas: [{ answer: 'Female', limit: 100 }] } };
+
+  it('screens out a non-qualifying answer', () => {
+    expect(getScreenerOutcome(question, 'Prefer not to say')).toBe('screened_out');
+  });
+
+  it('is over quota only when this answer’s cell is full', () => {
+    expect(getScreenerOutcome(question, 'Female', [fill('Female', true)])).toBe('over_quota');
+    expect(getScreenerOutcome(question, 'Female', [fill('Female', false)])).toBe('qualified');
+    expect(getScreenerOutcome(question, 'Male', [fill('Female', true)])).toBe('qualified');
+  });
+
+  it('qualifies unanswered screeners and plain questions', () => {
+    expect(getScreenerOutcome(question, undefined)).toBe('qualified');
+    expect(getScreenerOutcome({ id: 'q-2' }, 'anything')).toBe('qualified');
+  });
+
+  it('matches yes/no answers stored as booleans', () => {
+    expect(getScreenerOutcome({ id: 'q-3', screener: { qualifying: ['true'] } }, false)).toBe('screened_out');
+  });
+});
+
+describe('getQuotaFillRatio', () => {
+  it('clamps to 0–1', () => {
+    expect(getQuotaFillRatio({ filled: 40, limit: 100 })).toBe(0.4);
+    expect(getQuotaFillRatio({ filled: 120, limit: 100 })).toBe(1);
+    expect(getQuotaFillRatio({ filled: 0, limit: 0 })).toBe(0);
+  });
+});
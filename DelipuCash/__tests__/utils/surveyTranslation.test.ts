@@ -0,0 +1,172 @@
+/**
+ * Unit tests for multilingual surveys (utils/surveyTranslation.ts).
+ *
+ * Locks the language pick (past choice, then device, then the source
+ * language), the completeness check the builder blocks publish on, the
+ * publish-time compaction that keeps translations aligned with the options
+ * SurveyForm actually sends, and the fold of translated answers back onto the
+ * source label — including in the analytics parse (store/SurveyResponseUIStore.ts).
+ * Also covers the importer's translation-column detection (utils/columnAutoMapper.ts).
+ */
+import {
+  canonicalizeAnswer,
+  compactQuestionTranslations,
+  findMissingTranslations,
+  getSourceLabels,
+  pickSurveyLanguage,
+  type TranslatableQuestion,
+} from '@/utils/surveyTranslation';
+import { autoMapColumns, getTranslationColumns } from '@/utils/columnAutoMapper';
+import { parseResponses } from '@/store/SurveyResponseUIStore';
+import type { UploadSurvey } from '@/types';
+import { makeSurveyResponse } from '@/__tests__/fixtures/survey.factory';
+
+const radio = (overrides: Partial<TranslatableQuestion> = {}): TranslatableQuestion => ({
+  type: 'radio',
+  text: 'Where do you shop?',
+  options: ['Market', '', 'Supermarket'],
+  translations: { lg: { text: 'Ogula wa?', options: ['Akatale', '', 'Supamaketi'] } },
+  ...overrides,
+});
+
+describe('pickSurveyLanguage', () => {
+  const survey = { defaultLanguage: 'en', languages: ['lg', 'sw'] };
+
+  it('uses the first preference the survey offers', () => {
+    expect(pickSurveyLanguage(survey, [null, 'sw'])).toBe('sw');
+    expect(pickSurveyLanguage(survey, ['lg', 'sw'])).toBe('lg');
+  });
+
+  it('falls back to the language the survey is written in', () => {
+    expect(pickSurveyLanguage(survey, ['fr', undefined])).toBe('en');
+    expect(pickSurveyLanguage({}, ['lg'])).toBe('en');
+  });
+});
+
+describe('getSourceLabels', () => {
+  it('skips blank options and keeps their builder index', () => {
+    expect(getSourceLabels(radio()).options).toEqual([
+      { index: 0, label: 'Market' },
+      { index: 2, label: 'Supermarket' },
+    ]);
+  });
+
+  it('covers matrix columns and the yes/no labels of a boolean', () => {
+    const matrix = getSourceLabels({ type: 'matrix', options: ['Price'], matrixColumns: ['Bad', 'Good'] });
+    expect(matrix.matrixColumns.map((c) => c.label)).toEqual(['Bad', 'Good']);
+    expect(getSourceLabels({ type: 'boolean', options: [] }).options.map((o) => o.label)).toEqual(['Yes', 'No']);
+    expect(getSourceLabels({ type: 'text', options: [] })).toEqual({ options: [], matrixColumns: [] });
+  });
+});
+
+describe('findMissingTranslations', () => {
+  const complete = {
+    languages: ['lg'],
+    description: 'About shopping',
+    surveyTranslations: { lg: { title: 'Okugula', description: 'Ku kugula' } },
+    questions: [radio()],
+  };
+
+  it('passes a fully translated survey', () => {
+    expect(findMissingTranslations(complete)).toEqual([]);
+  });
+
+  it('asks for the title and description in every offered language', () => {
+    const issues = findMissingTranslations({ ...complete, surveyTranslations: { lg: { title: '' } } });
+    expect(issues.map((i) => i.message)).toEqual([
+      'The survey title needs a Luganda translation',
+      'The survey description needs a Luganda translation',
+    ]);
+    expect(issues.every((i) => i.questionIndex === null)).toBe(true);
+  });
+
+  it('asks for the text first, then every non-blank option and column', () => {
+    const noText = findMissingTranslations({ ...complete, questions: [radio({ translations: {} })] });
+    expect(noText).toEqual([{ language: 'lg', questionIndex: 0, message: 'needs a Luganda translation of its text' }]);
+
+    const missingOption = findMissingTranslations({
+      ...complete,
+      questions: [radio({ translations: { lg: { text: 'Ogula wa?', options: ['Akatale'] } } })],
+    });
+    expect(missingOption.map((i) => i.message)).toEqual(['needs a Luganda translation of every option']);
+
+    const matrix = findMissingTranslations({
+      ...complete,
+      questions: [
+        {
+          type: 'matrix',
+          options: ['Price'],
+          matrixColumns: ['Bad', 'Good'],
+          translations: { lg: { text: 'Ebbeeyi', options: ['Ebbeeyi'], matrixColumns: ['Mbi'] } },
+        },
+      ],
+    });
+    expect(matrix.map((i) => i.message)).toEqual(['needs a Luganda translation of every column']);
+  });
+});
+
+describe('compactQuestionTranslations', () => {
+  it('drops the labels of blank source options so indexes match what publishes', () => {
+    expect(compactQuestionTranslations(radio(), ['lg'])).toEqual({
+      lg: { text: 'Ogula wa?', options: ['Akatale', 'Supamaketi'] },
+    });
+  });
+
+  it('sends nothing for a single-language survey', () => {
+    expect(compactQuestionTranslations(radio(), [])).toBeUndefined();
+  });
+});
+
+describe('canonicalizeAnswer', () => {
+  const published = (overrides: Partial<UploadSurvey>): Pick<UploadSurvey, 'type' | 'options' | 'translations'> => ({
+    type: 'radio',
+    options: JSON.stringify(['Market', 'Supermarket']),
+    translations: { lg: { text: 'Ogula wa?', options: ['Akatale', 'Supamaketi'] } },
+    ...overrides,
+  });
+
+  it('maps a translated label to the source label at the same index', () => {
+    expect(canonicalizeAnswer(published({}), 'Supamaketi')).toBe('Supermarket');
+    expect(canonicalizeAnswer(published({ type: 'checkbox' }), ['Akatale', 'Supermarket'])).toEqual([
+      'Market',
+      'Supermarket',
+    ]);
+  });
+
+  it('maps matrix answers through the column translations', () => {
+    const matrix = published({
+      type: 'matrix',
+      options: JSON.stringify({ rows: ['Price', 'Service'], columns: ['Bad', 'Good'] }),
+      translations: { lg: { text: 'Ebbeeyi', options: ['Ebbeeyi', 'Obuweereza'], matrixColumns: ['Mbi', 'Birungi'] } },
+    });
+    expect(canonicalizeAnswer(matrix, ['Birungi', 'Bad'])).toEqual(['Good', 'Bad']);
+  });
+
+  it('leaves source answers and untranslated questions alone', () => {
+    expect(canonicalizeAnswer(published({}), 'Market')).toBe('Market');
+    expect(canonicalizeAnswer(published({ translations: null }), 'Akatale')).toBe('Akatale');
+  });
+
+  it('folds every language into the same analytics bucket', () => {
+    const question = { id: 'q1', ...published({}) } as UploadSurvey;
+    const response = (answer: string, language: string) =>
+      makeSurveyResponse({ id: `r-${language}`, responses: JSON.stringify({ q1: answer }), language });
+
+    const parsed = parseResponses([response('Market', 'en'), response('Akatale', 'lg')], [question]);
+    expect(parsed.map((r) => [r.responses.q1, r.language])).toEqual([
+      ['Market', 'en'],
+      ['Market', 'lg'],
+    ]);
+  });
+});
+
+describe('translation columns in imports', () => {
+  it('maps language-suffixed headers to translated fields', () => {
+    const mappings = autoMapColumns(['Question', 'Type', 'Options', 'Question (Luganda)', 'Options_sw']);
+    expect(mappings.map((m) => m.targetField)).toEqual(['text', 'type', 'options', 'text_lg', 'options_sw']);
+    expect(getTranslationColumns(mappings)).toEqual([
+      { headerIndex: 3, field: 'text', language: 'lg' },
+      { headerIndex: 4, field: 'options', language: 'sw' },
+    ]);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Unit tests for survey version diffs and version-scoped analytics
+ * (utils/surveyVersioning.ts).
+ *
+ * Locks what "compatible" means — answers from an older version only merge
+ * into the live charts when their question still collects the same answers —
+ * and that scoping to one version charts that version's own questions.
+ */
+import {
+  diffVersions,
+  isCompatibleQuestion,
+  scopeToVersion,
+} from '@/utils/surveyVersioning';
+import type { SurveyVersion, SurveyVersionQuestion } from '@/types';
+import { makeUploadSurvey } from '@/__tests__/fixtures/survey.factory';
+
+const question = (id: string, text: string, overrides: Partial<SurveyVersionQuestion> = {}): SurveyVersionQuestion => ({
+  id,
+  text,
+  type: 'radio',
+  options: JSON.stringify(['Yes', 'No']),
+  placeholder: null,
+  minValue: null,
+  maxValue: null,
+  required: true,
+  conditionalLogic: null,
+  screener: null,
+  translations: null,
+  ...overrides,
+});
+
+const version = (n: number, questions: SurveyVersionQuestion[]): SurveyVersion => ({
+  version: n,
+  title: 'Phones',
+  questions,
+  restoredFrom: null,
+  createdAt: `2026-0${n}-01T00:00:00.000Z`,
+  responseCount: 0,
+});
+
+describe('isCompatibleQuestion', () => {
+  it('ignores wording and option order', () => {
+    expect(isCompatibleQuestion(
+      question('q1', 'Own a phone?'),
+      question('q1', 'Do you own a phone?', { options: JSON.stringify(['No', 'Yes']) }),
+    )).toBe(true);
+  });
+
+  it('breaks on a new type, option set or scale', () => {
+    const base = question('q1', 'Own a phone?');
+    expect(isCompatibleQuestion(base, question('q1', 'Own a phone?', { type: 'checkbox' }))).toBe(false);
+    expect(isCompatibleQuestion(base, question('q1', 'Own a phone?', { options: JSON.stringify(['Yes', 'No', 'Two']) }))).toBe(false);
+    expect(isCompatibleQuestion(
+      question('r', 'Rate us', { type: 'rating', options: '[]', minValue: 1, maxValue: 5 }),
+      question('r', 'Rate us', { type: 'rating', options: '[]', minValue: 1, maxValue: 10 }),
+    )).toBe(false);
+  });
+
+  it('keeps matrix rows in order — answers are row-aligned', () => {
+    const grid = (rows: string[], columns: string[]) =>
+      question('m', 'Rate the apps', { type: 'matrix', options: JSON.stringify({ rows, columns }) });
+    expect(isCompatibleQuestion(grid(['A', 'B'], ['Bad', 'Good']), grid(['A', 'B'], ['Good', 'Bad']))).toBe(true);
+    expect(isCompatibleQuestion(grid(['A', 'B'], ['Bad', 'Good']), grid(['B', 'A'], ['Bad', 'Good']))).toBe(false);
+  });
+});
+
+describe('diffVersions', () => {
+  it('reports added, removed, reworded and changed-option questions', () => {
+    const before = [question('q1', 'Own a phone?'), question('q2', 'Which brand?'), question('q3', 'Age?')];
+    const after = [
+      question('q1', 'Do you own a phone?', { options: JSON.stringify(['Yes', 'No', 'Shared']) }),
+      question('q2', 'Which brand?'),
+      question('q4', 'Monthly data spend?'),
+    ];
+
+    expect(diffVersions(before, after)).toEqual([
+      { kind: 'reworded', questionId: 'q1', text: 'Do you own a phone?', previousText: 'Own a phone?' },
+      { kind: 'options_changed', questionId: 'q1', text: 'Do you own a phone?', addedOptions: ['Shared'], removedOptions: [] },
+      { kind: 'added', questionId: 'q4', text: 'Monthly data spend?' },
+      { kind: 'removed', questionId: 'q3', text: 'Age?' },
+    ]);
+  });
+
+  it('is empty for identical versions', () => {
+    const questions = [question('q1', 'Own a phone?')];
+    expect(diffVersions(questions, questions)).toEqual([]);
+  });
+});
+
+describe('scopeToVersion', () => {
+  const survey = { id: 's-1', userId: 'u-1', currentVersion: 2 };
+  const v1 = version(1, [
+    question('q1', 'Own a phone?'),
+    question('q2', 'Which brand?', { options: JSON.stringify(['Tecno', 'Itel']) }),
+    question('q3', 'Age?', { type: 'number', options: '[]' }),
+  ]);
+  const v2 = version(2, [
+    question('q1', 'Do you own a phone?'),
+    question('q2', 'Which brand?', { options: JSON.stringify(['Tecno', 'Itel', 'Samsung']) }),
+  ]);
+  const live = v2.questions.map((q) => makeUploadSurvey(q));
+  const responses = [
+    { id: 'old', surveyVersion: null, responses: { q1: 'Yes', q2: 'Tecno', q3: 30 } },
+    { id: 'new', surveyVersion: 2, responses: { q1: 'No', q2: 'Samsung' } },
+  ];
+
+  it('merges onto the live questions, dropping answers whose question changed', () => {
+    const scoped = scopeToVersion(survey, live, responses, [v2, v1], null);
+    expect(scoped.questions).toBe(live);
+    expect(scoped.responses.map((r) => r.responses)).toEqual([
+      { q1: 'Yes' },
+      { q1: 'No', q2: 'Samsung' },
+    ]);
+    expect(scoped.droppedAnswers).toBe(2);
+  });
+
+  it('scopes to one version with that version’s own questions', () => {
+    const scoped = scopeToVersion(survey, live, responses, [v2, v1], 1);
+    expect(scoped.responses.map((r) => r.id)).toEqual(['old']);
+    expect(scoped.questions.map((q) => [q.id, q.text, q.surveyId])).toEqual([
+      ['q1', 'Own a phone?', 's-1'],
+      ['q2', 'Which brand?', 's-1'],
+      ['q3', 'Age?', 's-1'],
+    ]);
+
+    expect(scopeToVersion(survey, live, responses, [v2, v1], 2).questions).toBe(live);
+  });
+
+  it('leaves answers alone while the history is still loading', () => {
+    const scoped = scopeToVersion(survey, live, responses, [], null);
+    expect(scoped.responses).toEqual(responses);
+    expect(scoped.droppedAnswers).toBe(0);
+  });
+});
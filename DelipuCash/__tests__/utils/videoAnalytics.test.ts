@@ -0,0 +1,110 @@
+/**
+ * Unit tests for creator analytics helpers (utils/videoAnalytics.ts).
+ *
+ * Locks how metrics are formatted, that swiping away is the one metric where
+ * lower beats typical, where the steepest retention drop is found, and which
+ * reasons the screen gives for a video underperforming.
+ */
+import {
+  MIN_VIEWS_FOR_INSIGHTS,
+  analyticsInsights,
+  compareToMedian,
+  formatCount,
+  formatShare,
+  formatWatchTime,
+  steepestDrop,
+} from '@/utils/videoAnalytics';
+import type { AnalyticsBenchmark, VideoMetrics } from '@/types';
+
+const benchmark: AnalyticsBenchmark = {
+  videos: 5, views: 400, avgViewSeconds: 20, swipeAwayRate: 0.2, completionRate: 0.3,
+};
+
+const metrics = (overrides: Partial<VideoMetrics> = {}): VideoMetrics => ({
+  views: 400,
+  avgViewSeconds: 20,
+  avgViewPercent: 0.33,
+  swipeAwayRate: 0.2,
+  completionRate: 0.3,
+  rewatches: 0,
+  retention: [
+    { percent: 0, share: 1 }, { percent: 25, share: 0.7 }, { percent: 50, share: 0.5 },
+    { percent: 75, share: 0.4 }, { percent: 100, share: 0.3 },
+  ],
+  ...overrides,
+});
+
+describe('formatting', () => {
+  it('formats shares, watch time and counts', () => {
+    expect(formatShare(0.423)).toBe('42%');
+    expect(formatShare(0.042)).toBe('4.2%');
+    expect(formatShare(0)).toBe('0%');
+    expect(formatWatchTime(42.4)).toBe('42s');
+    expect(formatWatchTime(65)).toBe('1m 05s');
+    expect(formatCount(950)).toBe('950');
+    expect(formatCount(12_400)).toBe('12.4K');
+    expect(formatCount(3_000_000)).toBe('3M');
+  });
+});
+
+describe('compareToMedian', () => {
+  it('calls higher views better and higher swipe-aways worse', () => {
+    expect(compareToMedian('views', metrics({ views: 500 }), benchmark)).toMatchObject({ verdict: 'better', label: '+25% vs typical' });
+    expect(compareToMedian('swipeAwayRate', metrics({ swipeAwayRate: 0.3 }), benchmark)).toMatchObject({ verdict: 'worse', label: '+50% vs typical' });
+    expect(compareToMedian('swipeAwayRate', metrics({ swipeAwayRate: 0.1 }), benchmark)).toMatchObject({ verdict: 'better', label: '−50% vs typical' });
+  });
+
+  it('treats small differences as typical and skips missing benchmarks', () => {
+    expect(compareToMedian('views', metrics({ views: 420 }), benchmark)?.verdict).toBe('same');
+    expect(compareToMedian('views', metrics(), { ...benchmark, videos: 1 })).toBeNull();
+    expect(compareToMedian('completionRate', metrics(), { ...benchmark, completionRate: 0 })).toBeNull();
+  });
+});
+
+describe('steepestDrop', () => {
+  it('finds the biggest fall between neighbouring points', () => {
+    const drop = steepestDrop(metrics().retention);
+    expect(drop).toMatchObject({ fromPercent: 0, toPercent: 25 });
+    expect(drop?.drop).toBeCloseTo(0.3);
+    expect(steepestDrop([{ percent: 0, share: 0 }, { percent: 25, share: 0 }])).toBeNull();
+  });
+});
+
+describe('analyticsInsights', () => {
+  it('waits for enough views', () => {
+    expect(analyticsInsights(metrics({ views: MIN_VIEWS_FOR_INSIGHTS - 1 }), benchmark, [])).toHaveLength(1);
+  });
+
+  it('explains a weak hook, a mid-video drop and short views', () => {
+    const insights = analyticsInsights(
+      metrics({
+        swipeAwayRate: 0.5,
+        avgViewSeconds: 8,
+        retention: [
+          { percent: 0, share: 1 }, { percent: 25, share: 0.5 }, { percent: 50, share: 0.1 },
+          { percent: 75, share: 0.05 }, { percent: 100, share: 0.05 },
+        ],
+      }),
+      benchmark,
+      [{ source: 'for-you', views: 400, share: 1 }],
+      60,
+    );
+    expect(insights).toEqual([
+      '50% swiped away in the first 3 seconds, against 20% on your typical video — the opening isn\'t hooking viewers.',
+      '40% of viewers leave between 25% and 50% (around 15s–30s).',
+      'Viewers watch 8s on average, under the 20s of your typical video.',
+    ]);
+  });
+
+  it('points at distribution when views lag outside For You', () => {
+    const insights = analyticsInsights(metrics({ views: 100 }), benchmark, [
+      { source: 'following', views: 80, share: 0.8 },
+      { source: 'for-you', views: 20, share: 0.2 },
+    ]);
+    expect(insights).toEqual(['Most views come from outside For You — the feed hasn\'t picked it up widely yet.']);
+  });
+
+  it('says when a video is holding up', () => {
+    expect(analyticsInsights(metrics(), benchmark, [])).toEqual(['Holding up against your typical video.']);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Unit tests for rendition picking (utils/videoRendition.ts).
+ *
+ * Locks the data-cost contract: cellular and data saver never land on the
+ * adaptive master (it would climb to 720p), a manual pick beats everything,
+ * and a video without a ready ladder keeps playing its MP4.
+ */
+import {
+  pickRendition,
+  qualityOptionsFor,
+  renditionLabel,
+  type RenditionContext,
+} from '@/utils/videoRendition';
+import type { Video, VideoRendition } from '@/types';
+
+const rung = (name: string, height: number, bandwidth: number): VideoRendition => ({
+  name,
+  height,
+  bandwidth,
+  url: `https://api.test/api/videos/v1/hls/${name}.m3u8`,
+});
+
+const LADDER = [rung('360p', 360, 796_000), rung('480p', 480, 1_328_000), rung('720p', 720, 2_628_000), rung('audio', 0, 64_000)];
+
+const video = (renditions: VideoRendition[] | null): Pick<Video, 'videoUrl' | 'hls'> => ({
+  videoUrl: 'https://r2.test/v1.mp4?sig=1',
+  hls: renditions ? { masterUrl: 'https://api.test/api/videos/v1/hls/master.m3u8', renditions } : null,
+});
+
+const wifi: RenditionContext = { quality: 'auto', dataSaver: false, connectionType: 'wifi' };
+
+describe('pickRendition', () => {
+  it('plays the MP4 until the ladder is ready', () => {
+    expect(pickRendition(video(null), wifi)).toEqual({ uri: 'https://r2.test/v1.mp4?sig=1', rendition: null, reason: 'mp4' });
+    expect(pickRendition({ videoUrl: '  ', hls: null }, wifi).uri).toBeNull();
+  });
+
+  it('adapts over the master on Wi-Fi', () => {
+    expect(pickRendition(video(LADDER), wifi)).toMatchObject({ uri: expect.stringContaining('master.m3u8'), reason: 'adaptive' });
+  });
+
+  it('pins cellular to 480p, or 360p on 2G/3G', () => {
+    expect(pickRendition(video(LADDER), { ...wifi, connectionType: 'cellular', cellularGeneration: '4g' }).rendition?.name).toBe('480p');
+    expect(pickRendition(video(LADDER), { ...wifi, connectionType: 'cellular', cellularGeneration: null }).rendition?.name).toBe('480p');
+    expect(pickRendition(video(LADDER), { ...wifi, connectionType: 'cellular', cellularGeneration: '3g' }).rendition?.name).toBe('360p');
+  });
+
+  it('data saver takes the lowest video rung, never audio-only', () => {
+    expect(pickRendition(video(LADDER), { ...wifi, dataSaver: true })).toMatchObject({
+      rendition: { name: '360p' },
+      reason: 'data_saver',
+    });
+  });
+
+  it('a manual pick wins, stepping down when the ladder is shorter', () => {
+    const cellular = { ...wifi, connectionType: 'cellular', dataSaver: true };
+    expect(pickRendition(video(LADDER), { ...cellular, quality: '720p' }).rendition?.name).toBe('720p');
+    expect(pickRendition(video(LADDER), { ...cellular, quality: 'audio' }).rendition?.name).toBe('audio');
+    expect(pickRendition(video(LADDER.slice(0, 2)), { ...wifi, quality: '720p' }).rendition?.name).toBe('480p');
+  });
+
+  it('falls back to auto when the ladder has no audio rung', () => {
+    expect(pickRendition(video(LADDER.slice(0, 3)), { ...wifi, quality: 'audio' }).reason).toBe('adaptive');
+  });
+});
+
+describe('quality menu', () => {
+  it('offers Auto plus the rungs this video has', () => {
+    expect(qualityOptionsFor(video(LADDER.slice(0, 2))).map((o) => o.value)).toEqual(['auto', '480p', '360p']);
+    expect(qualityOptionsFor(video(null)).map((o) => o.value)).toEqual(['auto']);
+  });
+
+  it('labels what is playing', () => {
+    expect(renditionLabel(pickRendition(video(LADDER), wifi))).toBe('Auto');
+    expect(renditionLabel(pickRendition(video(LADDER), { ...wifi, connectionType: 'cellular' }))).toBe('Auto (480p)');
+    expect(renditionLabel(pickRendition(video(LADDER), { ...wifi, quality: 'audio' }))).toBe('Audio only');
+    expect(renditionLabel(pickRendition(video(null), wifi))).toBe('Original');
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Unit tests for watch history helpers (utils/watchHistory.ts).
+ *
+ * Locks where playback resumes, that the local list stays newest-first with
+ * one entry per video, that the server's entries never rewind newer local
+ * progress, and how the history screen is grouped by day.
+ */
+import {
+  LOCAL_HISTORY_LIMIT,
+  SYNC_BATCH_SIZE,
+  groupHistoryByDay,
+  historyDayLabel,
+  historySyncBatch,
+  mergeHistoryEntries,
+  recordProgress,
+  resumePosition,
+  savedProgress,
+  withLocalProgress,
+} from '@/utils/watchHistory';
+import type { WatchHistoryEntry } from '@/store/VideoStore';
+
+const NOW = new Date(2026, 9, 18, 12);
+const hoursAgo = (h: number) => new Date(NOW.getTime() - h * 3_600_000).toISOString();
+
+const entry = (videoId: string, overrides: Partial<WatchHistoryEntry> = {}): WatchHistoryEntry => ({
+  videoId,
+  watchedAt: hoursAgo(1),
+  positionSeconds: 120,
+  progressPercent: 20,
+  duration: 600,
+  ...overrides,
+});
+
+describe('resumePosition', () => {
+  it('resumes between the minimum and practically finished', () => {
+    expect(resumePosition(entry('a', { positionSeconds: 5 }))).toBeNull();
+    expect(resumePosition(entry('a', { positionSeconds: 120 }))).toBe(120);
+    expect(resumePosition(entry('a', { positionSeconds: 590 }))).toBeNull();
+    expect(resumePosition(undefined)).toBeNull();
+  });
+
+  it('reports saved progress for the mini players', () => {
+    expect(savedProgress([entry('a', { progressPercent: 40 })], 'a')).toBe(0.4);
+    expect(savedProgress([entry('a')], 'b')).toBe(0);
+  });
+});
+
+describe('recordProgress', () => {
+  it('moves the video to the front with its new position', () => {
+    const next = recordProgress([entry('a'), entry('b')], 'b', 300, 600, NOW);
+    expect(next.map((e) => e.videoId)).toEqual(['b', 'a']);
+    expect(next[0]).toEqual({ videoId: 'b', watchedAt: NOW.toISOString(), positionSeconds: 300, progressPercent: 50, duration: 600 });
+  });
+
+  it('clamps the position and caps the list', () => {
+    const full = Array.from({ length: LOCAL_HISTORY_LIMIT }, (_, i) => entry(`v${i}`));
+    const next = recordProgress(full, 'new', 900, 600, NOW);
+    expect(next).toHaveLength(LOCAL_HISTORY_LIMIT);
+    expect(next[0]).toMatchObject({ videoId: 'new', positionSeconds: 600, progressPercent: 100 });
+  });
+});
+
+describe('mergeHistoryEntries', () => {
+  const remote = (videoId: string, watchedAt: string, positionSeconds: number) => ({
+    videoId, watchedAt, positionSeconds, durationSeconds: 600, progressPercent: Math.round((positionSeconds / 600) * 100),
+  });
+
+  it('keeps the later watchedAt per video, newest first', () => {
+    const merged = mergeHistoryEntries(
+      [entry('a', { watchedAt: hoursAgo(1), positionSeconds: 60 }), entry('b', { watchedAt: hoursAgo(5) })],
+      [remote('a', hoursAgo(3), 300), remote('b', hoursAgo(2), 420), remote('c', hoursAgo(4), 30)],
+    );
+    expect(merged.map((e) => [e.videoId, e.positionSeconds])).toEqual([['a', 60], ['b', 420], ['c', 30]]);
+    expect(merged[1].duration).toBe(600);
+  });
+});
+
+describe('historySyncBatch', () => {
+  it('sends pending videos still in the history, in the server shape', () => {
+    const batch = historySyncBatch([entry('a'), entry('b')], ['b', 'gone']);
+    expect(batch).toEqual([{ videoId: 'b', positionSeconds: 120, durationSeconds: 600, watchedAt: hoursAgo(1) }]);
+  });
+
+  it('never exceeds the server batch limit', () => {
+    const history = Array.from({ length: SYNC_BATCH_SIZE + 10 }, (_, i) => entry(`v${i}`));
+    expect(historySyncBatch(history, history.map((e) => e.videoId))).toHaveLength(SYNC_BATCH_SIZE);
+  });
+});
+
+describe('history screen', () => {
+  it('labels days relative to now', () => {
+    expect(historyDayLabel(hoursAgo(2), NOW)).toBe('Today');
+    expect(historyDayLabel(hoursAgo(24), NOW)).toBe('Yesterday');
+    expect(historyDayLabel(new Date(2026, 9, 12, 9).toISOString(), NOW)).toBe('Mon 12 Oct');
+    expect(historyDayLabel(new Date(2025, 11, 31, 9).toISOString(), NOW)).toBe('Wed 31 Dec 2025');
+  });
+
+  it('groups consecutive entries by day', () => {
+    const sections = groupHistoryByDay(
+      [{ watchedAt: hoursAgo(1) }, { watchedAt: hoursAgo(2) }, { watchedAt: hoursAgo(26) }],
+      NOW,
+    );
+    expect(sections.map((s) => [s.title, s.data.length])).toEqual([['Today', 2], ['Yesterday', 1]]);
+  });
+
+  it('lays newer local progress over the server list and re-sorts', () => {
+    const item = (videoId: string, watchedAt: string) => ({
+      videoId, watchedAt, positionSeconds: 60, progressPercent: 10, resumeAt: 60,
+    });
+    const shown = withLocalProgress(
+      [item('a', hoursAgo(2)), item('b', hoursAgo(3))],
+      [entry('b', { watchedAt: hoursAgo(1), positionSeconds: 300, progressPercent: 50 }), entry('a', { watchedAt: hoursAgo(4) })],
+    );
+    expect(shown.map((s) => s.videoId)).toEqual(['b', 'a']);
+    expect(shown[0]).toMatchObject({ positionSeconds: 300, progressPercent: 50, resumeAt: 300 });
+    expect(shown[1].positionSeconds).toBe(60);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Unit tests for the Excel reader (utils/xlsxReader.ts).
+ *
+ * Workbooks are assembled here from XML parts: a minimal ZIP writer wraps
+ * stored entries and zlib raw-DEFLATE entries (short parts come out as fixed
+ * Huffman blocks, the long shared-strings part as a dynamic block), so the
+ * inflater, the ZIP directory walk and the cell parsing are all exercised.
+ */
+import { deflateRawSync } from 'zlib';
+import { base64ToBytes, openXlsx } from '@/utils/xlsxReader';
+
+type Part = { name: string; xml: string; store?: boolean };
+
+/** ZIP archive of the given parts (CRCs are left at zero — the reader doesn't check them) */
+function zip(parts: Part[]): Uint8Array {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const part of parts) {
+    const name = Buffer.from(part.name, 'utf8');
+    const raw = Buffer.from(part.xml, 'utf8');
+    const data = part.store ? raw : deflateRawSync(raw);
+    const method = part.store ? 0 : 8;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(parts.length, 8);
+  eocd.writeUInt16LE(parts.length, 10);
+  eocd.writeUInt32LE(directory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+  return new Uint8Array(Buffer.concat([...locals, directory, eocd]));
+}
+
+const workbookParts = (sheets: { name: string; xml: string }[], sharedStrings?: string): Part[] => [
+  {
+    name: 'xl/workbook.xml',
+    xml: `<?xml version="1.0"?><workbook xmlns:r="r"><sheets>${sheets
+      .map((s, i) => `<sheet name="${s.name}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`)
+      .join('')}</sheets></workbook>`,
+    store: true,
+  },
+  {
+    name: 'xl/_rels/workbook.xml.rels',
+    xml: `<Relationships>${sheets
+      .map((_, i) => `<Relationship Id="rId${i + 1}" Type="worksheet" Target="worksheets/sheet${i + 1}.xml"/>`)
+      .join('')}</Relationships>`,
+  },
+  ...sheets.map((s, i) => ({ name: `xl/worksheets/sheet${i + 1}.xml`, xml: s.xml })),
+  ...(sharedStrings ? [{ name: 'xl/sharedStrings.xml', xml: sharedStrings }] : []),
+];
+
+const sheet = (rows: string) => `<worksheet><sheetData>${rows}</sheetData></worksheet>`;
+
+describe('openXlsx', () => {
+  it('reads shared, inline, boolean and numeric cells by their reference', () => {
+    const shared = '<sst><si><t>text</t></si><si><t>type</t></si><si><r><t>How </t></r><r><t xml:space="preserve">old &amp; wise?</t></r></si></sst>';
+    const book = openXlsx(zip(workbookParts([{
+      name: 'Questions',
+      xml: sheet(
+        '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="D1" t="inlineStr"><is><t>required</t></is></c></row>' +
+        '<row r="3"><c r="A3" t="s"><v>2</v></c><c r="B3" t="str"><f>LOWER("NUMBER")</f><v>number</v></c><c r="D3" t="b"><v>1</v></c><c r="E3"><v>42</v></c></row>' +
+        '<row r="4"><c r="A4"/></row>',
+      ),
+    }], shared)));
+
+    expect(book.sheetNames).toEqual(['Questions']);
+    expect(book.readSheet(0)).toEqual([
+      ['text', 'type', '', 'required'],
+      ['How old & wise?', 'number', '', 'true', '42'],
+    ]);
+  });
+
+  it('lists every sheet and reads the one asked for', () => {
+    const book = openXlsx(zip(workbookParts([
+      { name: 'Notes', xml: sheet('<row r="1"><c r="A1" t="inlineStr"><is><t>Read me</t></is></c></row>') },
+      { name: 'Survey', xml: sheet('<row r="1"><c r="B1" t="inlineStr"><is><t>question</t></is></c></row>') },
+    ])));
+
+    expect(book.sheetNames).toEqual(['Notes', 'Survey']);
+    expect(book.readSheet(1)).toEqual([['', 'question']]);
+    expect(() => book.readSheet(2)).toThrow('The workbook has no sheet 3');
+  });
+
+  it('inflates a long, repetitive part (dynamic Huffman block)', () => {
+    const labels = Array.from({ length: 300 }, (_, i) => `Option number ${i} — déjà vu`);
+    const shared = `<sst>${labels.map((l) => `<si><t>${l}</t></si>`).join('')}</sst>`;
+    const rows = labels.map((_, i) => `<row r="${i + 1}"><c r="A${i + 1}" t="s"><v>${i}</v></c></row>`).join('');
+    const book = openXlsx(zip(workbookParts([{ name: 'Big', xml: sheet(rows) }], shared)));
+
+    const read = book.readSheet(0);
+    expect(read).toHaveLength(300);
+    expect(read[299]).toEqual(['Option number 299 — déjà vu']);
+  });
+
+  it('rejects files that are not workbooks', () => {
+    expect(() => openXlsx(new TextEncoder().encode('text,type\nHi,text'))).toThrow('This file is not an Excel workbook (.xlsx)');
+    expect(() => openXlsx(zip([{ name: 'word/document.xml', xml: '<w/>' }]))).toThrow('This file is not an Excel workbook (.xlsx)');
+  });
+});
+
+describe('base64ToBytes', () => {
+  it('decodes what expo-file-system hands back', () => {
+    const bytes = Buffer.from([0, 1, 127, 128, 254, 255, 80, 75]);
+    expect(Array.from(base64ToBytes(bytes.toString('base64')))).toEqual(Array.from(bytes));
+  });
+});
@@ -7,7 +7,8 @@
  * silently skipped bare-array list caches (trending/recommended/search), while
  * the comment updater assumed only the flat {comments,pagination} shape and
  * corrupted the infinite-comments cache. These tests lock in that EVERY shape is
- * handled correctly and that unrelated shapes pass through untouched.
+ * handled correctly and that unrelated shapes pass through untouched — and that
+ * replies land in their thread rather than at the top of the list.
  */
 import {
   makeVideoCacheUpdater,
@@ -94,4 +95,22 @@ describe('makeCommentCacheUpdater', () => {
     expect(next.pages).toBeDefined();
     expect(next.comments).toBeUndefined();
   });
+
+  it('files a reply into its thread, on whichever page holds it', () => {
+    const r = { ...c('r1'), parentId: 'c2', rootId: 'c2', depth: 1 };
+    const cache = { pages: [{ comments: [c('c1')] }, { comments: [{ ...c('c2'), replyCount: 0 }] }] };
+    const next = makeCommentCacheUpdater({ add: r })(cache);
+    expect(next.pages[0].comments.map((x: any) => x.id)).toEqual(['c1']);
+    expect(next.pages[1].comments[0]).toMatchObject({ id: 'c2', replyCount: 1, replies: [{ id: 'r1' }] });
+  });
+
+  it('leaves the flat total (top-level comments) alone for a reply and adds it to its thread cache', () => {
+    const r = { ...c('r1'), parentId: 'c1', rootId: 'c1', depth: 1 };
+    const flat = makeCommentCacheUpdater({ add: r })({ comments: [c('c1')], pagination: { total: 1 } });
+    expect(flat.comments.map((x: any) => x.id)).toEqual(['c1']);
+    expect(flat.pagination.total).toBe(1);
+
+    const thread = makeCommentCacheUpdater({ add: r })({ rootId: 'c1', replies: [], total: 0 });
+    expect(thread).toEqual({ rootId: 'c1', replies: [r], total: 1 });
+  });
 });
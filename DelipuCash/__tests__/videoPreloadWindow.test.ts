@@ -13,6 +13,8 @@ import {
   PRELOAD_BEHIND,
   CELLULAR_PRELOAD_AHEAD,
   CELLULAR_PRELOAD_BEHIND,
+  CELLULAR_NEIGHBOR_BUFFER_SECONDS,
+  computePreloadBuffer,
 } from '@/utils/videoPreload';
 
 describe('computeShouldLoad — default window', () => {
@@ -82,3 +84,11 @@ describe('computeShouldLoad — explicit overrides', () => {
     expect(computeShouldLoad(2, 6, { behind: 3 })).toBe(false);
   });
 });
+
+describe('computePreloadBuffer', () => {
+  it('trims only neighbors under cellular trim to one segment', () => {
+    expect(computePreloadBuffer({ cellularTrim: true })).toBe(CELLULAR_NEIGHBOR_BUFFER_SECONDS);
+    expect(computePreloadBuffer({ cellularTrim: true, isActive: true })).toBeNull();
+    expect(computePreloadBuffer({})).toBeNull();
+  });
+});
@@ -2,9 +2,12 @@ import {
   useTheme
 } from "@/utils/theme";
 import { useAuthStore } from "@/utils/auth/store";
+import { useVideoPremium } from "@/services/purchasesHooks";
+import { useOfflineDownloadStore } from "@/store/OfflineDownloadStore";
 import { Redirect, Tabs } from "expo-router";
 import {
   BarChart2,
+  Download,
   Home,
   LucideIcon,
   MessageSquare,
@@ -35,12 +38,15 @@ interface TabConfig {
   name: string;
   title: string;
   icon: LucideIcon;
+  /** Only listed for video premium subscribers (or while they still have downloads) */
+  premiumOnly?: boolean;
 }
 
 const tabs: TabConfig[] = [
   { name: "home-redesigned", title: "Home", icon: Home },
   { name: "questions-new", title: "Questions", icon: MessageSquare },
   { name: "videos-new", title: "Videos", icon: Video },
+  { name: "downloads", title: "Downloads", icon: Download, premiumOnly: true },
   { name: "surveys-new", title: "Surveys", icon: BarChart2 },
   { name: "profile-new", title: "Profile", icon: User },
 ];
@@ -57,6 +63,10 @@ export default function TabLayout(): React.ReactElement {
   const isTabletWidth = width >= TABLET_BREAKPOINT;
   const isReady = useAuthStore(s => s.isReady);
   const auth = useAuthStore(s => s.auth);
+  const { isPremium: hasVideoPremium } = useVideoPremium();
+  // Offline, premium can't be confirmed — keep the tab while there is something to watch
+  const hasDownloads = useOfflineDownloadStore(s => s.downloads.length > 0);
+  const showPremiumTabs = hasVideoPremium || hasDownloads;
 
   // Responsive values
   const iconSize = isTabletWidth ? 28 : 24;
@@ -125,6 +135,7 @@ export default function TabLayout(): React.ReactElement {
           name={tab.name}
           options={{
             title: tab.title,
+            href: tab.premiumOnly && !showPremiumTabs ? null : undefined,
             tabBarIcon: ({ focused, color }) => (
               <TabIcon Icon={tab.icon} focused={focused} color={color} iconSize={iconSize} />
             ),
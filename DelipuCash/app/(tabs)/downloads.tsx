@@ -0,0 +1,481 @@
+/**
+ * Downloads Screen
+ * Videos saved for offline viewing — a video premium feature
+ *
+ * Features:
+ * - Each download with its progress, why it is waiting, or when it expires
+ * - Tap a finished download to play it through the regular VideoPlayer,
+ *   with no connection needed
+ * - Retry a failed download, or remove any of them
+ * - Wi-Fi only switch and storage cap, with how much is in use
+ *
+ * Videos are queued from "Download" in the video options sheet;
+ * useOfflineDownloadProcessor does the downloading. The tab only shows for
+ * video premium subscribers, or while downloads are still on the device.
+ */
+
+import React, { useCallback, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Modal,
+  StyleSheet,
+  Switch,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { StatusBar } from 'expo-status-bar';
+import { router, type Href } from 'expo-router';
+import { Image as ExpoImage } from 'expo-image';
+import { useNetInfo, NetInfoStateType } from '@react-native-community/netinfo';
+import * as Haptics from '@/utils/haptics';
+import { Download, HardDrive, RotateCcw, Wifi, X } from 'lucide-react-native';
+import { PrimaryButton } from '@/components';
+import { VideoPlayer } from '@/components/video';
+import { useVideoPremium } from '@/services/purchasesHooks';
+import { closeOfflineVideo, deleteOfflineFiles, openOfflineVideo } from '@/services/offlineDownloadService';
+import {
+  useOfflineDownloadStore,
+  selectOfflineDownloads,
+  selectEnqueueDownload,
+  selectRemoveDownload,
+  type OfflineDownload,
+} from '@/store/OfflineDownloadStore';
+import {
+  useAppSettingsStore,
+  selectDownloadWifiOnly,
+  selectDownloadStorageCapBytes,
+  selectToggleDownloadWifiOnly,
+  selectSetDownloadStorageCap,
+} from '@/store/AppSettingsStore';
+import type { Video } from '@/types';
+import { formatDuration, formatFileSize } from '@/utils/video-utils';
+import { getPlaceholderImage } from '@/utils/thumbnail-utils';
+import {
+  STORAGE_CAP_OPTIONS,
+  downloadStatusLabel,
+  queueBlocker,
+  storageUsedBytes,
+} from '@/utils/offlineDownloads';
+import {
+  ICON_SIZE,
+  RADIUS,
+  SPACING,
+  TYPOGRAPHY,
+  useTheme,
+  withAlpha,
+} from '@/utils/theme';
+
+const THUMBNAIL_WIDTH = 128;
+
+interface PlayingDownload {
+  uri: string;
+  video: Video;
+}
+
+const DownloadsScreen = (): React.ReactElement => {
+  const insets = useSafeAreaInsets();
+  const { colors, statusBarStyle } = useTheme();
+  const { isPremium: hasVideoPremium } = useVideoPremium();
+  const net = useNetInfo();
+
+  const downloads = useOfflineDownloadStore(selectOfflineDownloads);
+  const enqueueDownload = useOfflineDownloadStore(selectEnqueueDownload);
+  const removeDownload = useOfflineDownloadStore(selectRemoveDownload);
+  const wifiOnly = useAppSettingsStore(selectDownloadWifiOnly);
+  const capBytes = useAppSettingsStore(selectDownloadStorageCapBytes);
+  const toggleWifiOnly = useAppSettingsStore(selectToggleDownloadWifiOnly);
+  const setStorageCap = useAppSettingsStore(selectSetDownloadStorageCap);
+
+  const [openingId, setOpeningId] = useState<string | null>(null);
+  const [playing, setPlaying] = useState<PlayingDownload | null>(null);
+
+  const blocker = queueBlocker(
+    {
+      isOnline: net.isConnected !== false && net.isInternetReachable !== false,
+      isWifi: net.type === NetInfoStateType.wifi || net.type === NetInfoStateType.ethernet,
+    },
+    wifiOnly,
+  );
+  const usedBytes = useMemo(() => storageUsedBytes(downloads), [downloads]);
+
+  const handlePlay = async (download: OfflineDownload) => {
+    if (download.status !== 'ready' || !download.fileUri || openingId) return;
+    Haptics.selectionAsync();
+    setOpeningId(download.videoId);
+    try {
+      const uri = await openOfflineVideo(download.videoId, download.fileUri);
+      setPlaying({
+        uri,
+        video: {
+          ...download.video,
+          description: null,
+          videoUrl: uri,
+          likes: 0,
+          views: 0,
+          commentsCount: 0,
+          createdAt: download.completedAt ?? download.queuedAt,
+          // The local MP4 is the only rendition; no captions or replay chat offline
+          hls: null,
+          captionLanguages: [],
+          replay: null,
+          series: null,
+        },
+      });
+    } catch (err) {
+      Alert.alert('Could not play download', err instanceof Error ? err.message : 'Try downloading it again.');
+    } finally {
+      setOpeningId(null);
+    }
+  };
+
+  // The decrypted copy only lives while the player is open
+  const handleClosePlayer = useCallback(() => {
+    if (playing) closeOfflineVideo(playing.uri);
+    setPlaying(null);
+  }, [playing]);
+
+  const handleRetry = (download: OfflineDownload) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    enqueueDownload(download.video, download.userId);
+  };
+
+  const handleRemove = (download: OfflineDownload) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    removeDownload(download.videoId);
+    deleteOfflineFiles(download.videoId, download.fileUri);
+  };
+
+  const handleRemoveAll = () => {
+    Alert.alert('Remove all downloads?', 'You can download them again while you have video premium.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: () => downloads.forEach(handleRemove),
+      },
+    ]);
+  };
+
+  const handleStorageCap = (bytes: number) => {
+    Haptics.selectionAsync();
+    setStorageCap(bytes);
+  };
+
+  const renderItem = ({ item }: { item: OfflineDownload }) => {
+    const { video } = item;
+    const ready = item.status === 'ready';
+    const status = downloadStatusLabel(item, blocker);
+    const creator = video.user ? `${video.user.firstName} ${video.user.lastName}`.trim() : null;
+    return (
+      <TouchableOpacity
+        style={styles.row}
+        onPress={() => handlePlay(item)}
+        disabled={!ready || !!openingId}
+        accessibilityRole="button"
+        accessibilityLabel={`${video.title || 'Untitled video'}, ${status}`}
+        accessibilityHint={ready ? 'Plays the downloaded video' : undefined}
+      >
+        <View style={[styles.thumbnail, { backgroundColor: colors.card }]}>
+          <ExpoImage
+            source={{ uri: video.thumbnail || getPlaceholderImage('video') }}
+            style={StyleSheet.absoluteFill}
+            contentFit="cover"
+            cachePolicy="memory-disk"
+            recyclingKey={item.videoId}
+          />
+          {!!video.duration && <Text style={styles.duration}>{formatDuration(video.duration)}</Text>}
+          {item.status === 'downloading' && (
+            <View style={[styles.progressTrack, { backgroundColor: withAlpha('#FFFFFF', 0.35) }]}>
+              <View style={[styles.progressFill, { width: `${Math.round(item.progress * 100)}%`, backgroundColor: colors.primary }]} />
+            </View>
+          )}
+          {openingId === item.videoId && (
+            <View style={styles.thumbnailOverlay}>
+              <ActivityIndicator color="#FFFFFF" />
+            </View>
+          )}
+        </View>
+        <View style={styles.rowBody}>
+          <Text style={[styles.rowTitle, { color: colors.text }]} numberOfLines={2}>
+            {video.title || 'Untitled video'}
+          </Text>
+          {creator && (
+            <Text style={[styles.rowMeta, { color: colors.textSecondary }]} numberOfLines={1}>
+              {creator}
+            </Text>
+          )}
+          <Text
+            style={[styles.rowMeta, { color: item.status === 'failed' ? colors.error : ready ? colors.textMuted : colors.primary }]}
+            numberOfLines={2}
+          >
+            {status}
+            {ready && item.sizeBytes ? ` · ${formatFileSize(item.sizeBytes)}` : ''}
+          </Text>
+        </View>
+        {item.status === 'failed' && (
+          <TouchableOpacity
+            onPress={() => handleRetry(item)}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            accessibilityRole="button"
+            accessibilityLabel={`Retry downloading ${video.title || 'video'}`}
+          >
+            <RotateCcw color={colors.primary} size={ICON_SIZE.md} />
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity
+          onPress={() => handleRemove(item)}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          accessibilityRole="button"
+          accessibilityLabel={`Remove ${video.title || 'video'} from downloads`}
+        >
+          <X color={colors.textMuted} size={ICON_SIZE.md} />
+        </TouchableOpacity>
+      </TouchableOpacity>
+    );
+  };
+
+  const settings = (
+    <View style={[styles.settings, { backgroundColor: colors.card, borderColor: colors.border }]}>
+      <View style={styles.settingRow}>
+        <Wifi color={colors.text} size={ICON_SIZE.md} accessibilityElementsHidden />
+        <Text style={[styles.settingLabel, { color: colors.text }]}>Download on Wi-Fi only</Text>
+        <Switch
+          value={wifiOnly}
+          onValueChange={toggleWifiOnly}
+          trackColor={{ true: withAlpha(colors.primary, 0.4), false: colors.border }}
+          thumbColor={wifiOnly ? colors.primary : colors.textMuted}
+          accessibilityLabel="Download on Wi-Fi only"
+        />
+      </View>
+      <View style={styles.settingRow}>
+        <HardDrive color={colors.text} size={ICON_SIZE.md} accessibilityElementsHidden />
+        <Text style={[styles.settingLabel, { color: colors.text }]}>Storage limit</Text>
+        <Text style={[styles.settingValue, { color: usedBytes > capBytes ? colors.error : colors.textMuted }]}>
+          {formatFileSize(usedBytes)} of {formatFileSize(capBytes)} used
+        </Text>
+      </View>
+      <View style={styles.capRow} accessibilityRole="radiogroup">
+        {STORAGE_CAP_OPTIONS.map((bytes) => {
+          const selected = capBytes === bytes;
+          return (
+            <TouchableOpacity
+              key={bytes}
+              style={[
+                styles.capChip,
+                { borderColor: selected ? colors.primary : colors.border },
+                selected && { backgroundColor: withAlpha(colors.primary, 0.12) },
+              ]}
+              onPress={() => handleStorageCap(bytes)}
+              accessibilityRole="radio"
+              accessibilityState={{ checked: selected }}
+            >
+              <Text style={[styles.capChipLabel, { color: selected ? colors.primary : colors.text }]}>
+                {formatFileSize(bytes)}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+
+  const header = (
+    <View style={[styles.header, { paddingTop: insets.top + SPACING.sm, borderBottomColor: colors.border }]}>
+      <Download color={colors.text} size={ICON_SIZE.lg} accessibilityElementsHidden />
+      <Text style={[styles.headerTitle, { color: colors.text }]} accessibilityRole="header">
+        Downloads
+      </Text>
+      {downloads.length > 0 && (
+        <TouchableOpacity
+          style={styles.headerAction}
+          onPress={handleRemoveAll}
+          accessibilityRole="button"
+          accessibilityLabel="Remove all downloads"
+        >
+          <X color={colors.error} size={ICON_SIZE.md} />
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <StatusBar style={statusBarStyle} />
+      {header}
+      <FlatList
+        data={downloads}
+        keyExtractor={(item) => item.videoId}
+        renderItem={renderItem}
+        ListHeaderComponent={settings}
+        ListEmptyComponent={
+          <View style={styles.empty}>
+            <Download color={colors.textMuted} size={48} accessibilityElementsHidden />
+            <Text style={[styles.message, { color: colors.textSecondary }]}>
+              {hasVideoPremium
+                ? 'Download videos from their options menu to watch them without a connection.'
+                : 'Downloading videos to watch offline comes with video premium.'}
+            </Text>
+            {!hasVideoPremium && (
+              <PrimaryButton title="Get video premium" onPress={() => router.push('/video-subscription' as Href)} />
+            )}
+          </View>
+        }
+        contentContainerStyle={[styles.list, { paddingBottom: insets.bottom + SPACING.xl }]}
+        initialNumToRender={10}
+        windowSize={7}
+      />
+
+      <Modal
+        visible={!!playing}
+        animationType="slide"
+        presentationStyle="fullScreen"
+        onRequestClose={handleClosePlayer}
+        supportedOrientations={['portrait', 'landscape']}
+      >
+        {playing && (
+          <VideoPlayer
+            videoSource={playing.uri}
+            videoDetails={playing.video}
+            onClose={handleClosePlayer}
+            autoPlay
+            loop={false}
+            testID="offline-video-player"
+          />
+        )}
+      </Modal>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    paddingHorizontal: SPACING.md,
+    paddingBottom: SPACING.md,
+    borderBottomWidth: 1,
+  },
+  headerTitle: {
+    flex: 1,
+    fontFamily: TYPOGRAPHY.fontFamily.bold,
+    fontSize: TYPOGRAPHY.fontSize.lg,
+  },
+  headerAction: {
+    padding: SPACING.sm,
+  },
+  list: {
+    paddingHorizontal: SPACING.md,
+    flexGrow: 1,
+  },
+  settings: {
+    marginVertical: SPACING.md,
+    padding: SPACING.md,
+    gap: SPACING.md,
+    borderWidth: 1,
+    borderRadius: RADIUS.md,
+  },
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+  },
+  settingLabel: {
+    flex: 1,
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  settingValue: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  capRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.sm,
+  },
+  capChip: {
+    borderWidth: 1,
+    borderRadius: RADIUS.full,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+  },
+  capChipLabel: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.md,
+    paddingVertical: SPACING.sm,
+  },
+  thumbnail: {
+    width: THUMBNAIL_WIDTH,
+    aspectRatio: 16 / 9,
+    borderRadius: RADIUS.md,
+    overflow: 'hidden',
+  },
+  thumbnailOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(0,0,0,0.4)',
+  },
+  duration: {
+    position: 'absolute',
+    right: SPACING.xs,
+    bottom: SPACING.sm,
+    paddingHorizontal: SPACING.xs,
+    borderRadius: RADIUS.sm,
+    overflow: 'hidden',
+    backgroundColor: 'rgba(0,0,0,0.7)',
+    color: '#FFFFFF',
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  progressTrack: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    height: 3,
+  },
+  progressFill: {
+    height: '100%',
+  },
+  rowBody: {
+    flex: 1,
+    gap: SPACING.xxs,
+  },
+  rowTitle: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  rowMeta: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  empty: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: SPACING.md,
+    paddingTop: SPACING['3xl'],
+    paddingHorizontal: SPACING.xl,
+  },
+  message: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.base,
+    textAlign: 'center',
+  },
+});
+
+export default DownloadsScreen;
@@ -532,6 +532,7 @@ export default function HomePage(): React.ReactElement {
     triggerHaptic('light');
     recordAdClick.mutate({
       adId: ad.id,
+      variantId: ad.variantId,
       placement: "home",
       deviceInfo: { platform: Platform.OS, version: Platform.Version.toString() },
     });
@@ -545,6 +546,7 @@ export default function HomePage(): React.ReactElement {
     const timer = setTimeout(() => {
       recordAdImpression.mutate({
         adId: ad.id,
+        variantId: ad.variantId,
         placement: "home",
         duration: 500,
         wasVisible: true,
@@ -201,6 +201,7 @@ export default function HomePage(): React.ReactElement {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     recordAdClick.mutate({
       adId: ad.id,
+      variantId: ad.variantId,
       placement: 'home',
     });
   }, [recordAdClick]);
@@ -208,6 +209,7 @@ export default function HomePage(): React.ReactElement {
   const handleAdImpression = useCallback((ad: Ad) => {
     recordAdImpression.mutate({
       adId: ad.id,
+      variantId: ad.variantId,
       placement: 'home',
       duration: 0,
       wasVisible: true,
@@ -55,7 +55,12 @@ import {
   Mail,
   MessageSquare,
   History,
+  BarChart3,
+  Bookmark,
+  ListVideo,
   Megaphone,
+  Target,
+  ShieldCheck,
   Sparkles,
   Upload,
   PlusCircle,
@@ -775,6 +780,26 @@ export default function ProfileScreen(): React.ReactElement {
       adminOnly: true,
       accessibilityHint: 'Create a new advertisement',
     },
+    {
+      id: 'my-campaigns',
+      title: 'My Campaigns',
+      icon: Target,
+      iconColor: '#FF5722',
+      iconBgColor: 'rgba(255, 87, 34, 0.1)',
+      route: '/ad-campaigns',
+      adminOnly: true,
+      accessibilityHint: 'See how your ads are performing',
+    },
+    {
+      id: 'review-console',
+      title: 'Review Console',
+      icon: ShieldCheck,
+      iconColor: '#3F51B5',
+      iconBgColor: 'rgba(63, 81, 181, 0.1)',
+      route: '/admin-review',
+      adminOnly: true,
+      accessibilityHint: 'Approve ads and act on reported content',
+    },
     {
       id: 'create-instant-reward',
       title: 'Create Instant Reward',
@@ -1338,6 +1363,40 @@ export default function ProfileScreen(): React.ReactElement {
       icon: <Bell size={ICON_SIZE.base} color={colors.info} />,
       onPress: () => router.push('/notifications' as Href),
     },
+    {
+      type: 'navigation',
+      id: 'watchHistory',
+      label: 'Watch history',
+      subtitle: 'Pick up where you left off',
+      icon: <History size={ICON_SIZE.base} color={colors.primary} />,
+      onPress: () => router.push('/watch-history' as Href),
+    },
+    {
+      type: 'navigation',
+      id: 'savedVideos',
+      label: 'Saved videos',
+      subtitle: 'Your bookmarks and collections',
+      icon: <Bookmark size={ICON_SIZE.base} color={colors.primary} />,
+      onPress: () => router.push('/saved' as Href),
+    },
+    {
+      type: 'navigation',
+      id: 'channel',
+      label: 'Your channel',
+      subtitle: 'Playlists, series and your videos',
+      icon: <ListVideo size={ICON_SIZE.base} color={colors.primary} />,
+      onPress: () => {
+        if (user?.id) router.push(`/creator/${user.id}` as Href);
+      },
+    },
+    {
+      type: 'navigation',
+      id: 'creatorAnalytics',
+      label: 'Creator analytics',
+      subtitle: 'How your videos are watched',
+      icon: <BarChart3 size={ICON_SIZE.base} color={colors.primary} />,
+      onPress: () => router.push('/video-analytics' as Href),
+    },
     {
       type: 'info',
       id: 'language',
@@ -1345,7 +1404,7 @@ export default function ProfileScreen(): React.ReactElement {
       subtitle: 'English (Default)',
       icon: <Globe size={ICON_SIZE.base} color={colors.textMuted} />,
     },
-  ], [isDark, colors, toggleTheme]);
+  ], [isDark, colors, toggleTheme, user?.id]);
 
   // ============================================================================
   // FLAT LIST SECTIONS
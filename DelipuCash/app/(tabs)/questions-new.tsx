@@ -738,6 +738,7 @@ export default function QuestionsScreen(): React.ReactElement {
     (ad: Ad) => {
       recordAdClickMutate({
         adId: ad.id,
+        variantId: ad.variantId,
         placement: "question",
         deviceInfo: { platform: Platform.OS, version: "1.0" },
       });
@@ -749,6 +750,7 @@ export default function QuestionsScreen(): React.ReactElement {
     (ad: Ad, duration: number = 1000) => {
       recordAdImpressionMutate({
         adId: ad.id,
+        variantId: ad.variantId,
         placement: "question",
         duration,
         wasVisible: true,
@@ -610,12 +610,13 @@ export default function SurveysScreen(): React.ReactElement {
 
   // Ad handlers
   const handleAdClick = useCallback((ad: Ad) => {
-    recordAdClick.mutate({ adId: ad.id, placement: 'survey' });
+    recordAdClick.mutate({ adId: ad.id, variantId: ad.variantId, placement: 'survey' });
   }, [recordAdClick]);
 
   const handleAdImpression = useCallback((ad: Ad) => {
     recordAdImpression.mutate({
       adId: ad.id,
+      variantId: ad.variantId,
       placement: 'survey',
       duration: 0,
       wasVisible: true,
@@ -145,9 +145,11 @@ import { computeExternalOverlayVisible } from '@/utils/videoOverlayGate';
 import { useSearch } from '@/hooks/useSearch';
 import {
   useAdsForPlacement,
+  useAdViewerProfile,
   useRecordAdClick,
   useRecordAdImpression,
 } from '@/services/adHooksRefactored';
+import { rankAdsForViewer } from '@/utils/adTargeting';
 import { useAdFrequency } from '@/services/adFrequencyManager';
 import { useShouldShowAds } from '@/services/useShouldShowAds';
 import { useAuth } from '@/utils/auth/useAuth';
@@ -365,7 +367,7 @@ const MiniPlayerWrapper = React.memo(function MiniPlayerWrapper({
 
 export default function VideosScreen(): React.ReactElement {
   const { colors, isDark } = useTheme();
-  const { isReady: authReady, isAuthenticated } = useAuth();
+  const { isReady: authReady, isAuthenticated, auth } = useAuth();
   const { isPremium: hasVideoPremium, isLoading: videoPremiumLoading } = useVideoPremium();
 
   // ============================================================================
@@ -562,6 +564,7 @@ export default function VideosScreen(): React.ReactElement {
   const { mutate: recordAdClick } = useRecordAdClick();
   const { mutate: recordAdImpression } = useRecordAdImpression();
   const adFrequency = useAdFrequency();
+  const adViewer = useAdViewerProfile();
 
   // Interstitial ad state - 2026: Session-capped ad frequency with round-robin selection
   const [showInterstitialAd, setShowInterstitialAd] = useState(false);
@@ -789,6 +792,7 @@ export default function VideosScreen(): React.ReactElement {
       sessionExposure: {},
       crossSessionExposure: {},
       sessionAdCount: sessionAdCountRef.current,
+      viewer: adViewer,
     };
     const feedItems = insertAdsIntoFeed(baseVideos, playableVideoAds, DEFAULT_AD_CONFIG, adContext);
 
@@ -811,12 +815,19 @@ export default function VideosScreen(): React.ReactElement {
         sponsorName: ad.user?.firstName || 'Sponsored',
         ctaUrl: ad.targetUrl || undefined,
         ctaText: ctaLabel,
+        adVariantId: ad.variantId,
       } as Video;
     });
-  }, [forYouVideos, followingVideos, trendingVideos, exploreVideos, activeTab, showSearchResults, searchQuery, searchResultVideos, videoAds, videosWatchedCount, hiddenVideoIds, hiddenCreatorIds]);
+  }, [forYouVideos, followingVideos, trendingVideos, exploreVideos, activeTab, showSearchResults, searchQuery, searchResultVideos, videoAds, adViewer, videosWatchedCount, hiddenVideoIds, hiddenCreatorIds]);
 
   const videos = videosWithAds;
 
+  // The open comments sheet's creator gets the moderation tools
+  const commentsVideoOwnerId = useMemo(
+    () => videos.find((v) => v.id === ui.commentsVideoId)?.userId,
+    [videos, ui.commentsVideoId],
+  );
+
   // Tab-specific empty state messaging
   const emptyState = useMemo(() => {
     switch (activeTab) {
@@ -1004,6 +1015,12 @@ export default function VideosScreen(): React.ReactElement {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Rigid);
   }, [authReady, isAuthenticated, toggleBookmark, bookmarkVideoMutate]);
 
+  // The next part of a series is rarely in this feed — play it on its own screen
+  const handlePlayNextPart = useCallback((next: Video) => {
+    closeFullPlayer();
+    router.push(`/video/${next.id}` as Href);
+  }, [closeFullPlayer]);
+
   const handleExpandPlayer = useCallback((video: Video) => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
     openFullPlayer(video.id);
@@ -1014,6 +1031,7 @@ export default function VideosScreen(): React.ReactElement {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     recordAdClick({
       adId: ad.id,
+      variantId: ad.variantId,
       placement: 'video',
     });
   }, [recordAdClick]);
@@ -1021,6 +1039,7 @@ export default function VideosScreen(): React.ReactElement {
   const handleAdImpression = useCallback((ad: Ad) => {
     recordAdImpression({
       adId: ad.id,
+      variantId: ad.variantId,
       placement: 'video',
       duration: 0,
       wasVisible: true,
@@ -1043,7 +1062,7 @@ export default function VideosScreen(): React.ReactElement {
 
     // Extract original ad ID from prefixed video ID
     const originalAdId = video.id.replace('ad-', '');
-    recordAdClick({ adId: originalAdId, placement: 'video' });
+    recordAdClick({ adId: originalAdId, variantId: video.adVariantId, placement: 'video' });
 
     // Open CTA URL if available
     if (video.ctaUrl) {
@@ -1058,9 +1077,10 @@ export default function VideosScreen(): React.ReactElement {
     if (!video.isSponsored) return;
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
 
-    // Reconstruct minimal Ad object for the feedback modal
+    // The ad itself when it's still loaded (its targeting feeds "Why this ad?"),
+    // else a minimal Ad rebuilt from the synthetic video
     const originalAdId = video.id.replace('ad-', '');
-    const adForFeedback = {
+    const adForFeedback = videoAds?.find((ad) => ad.id === originalAdId) ?? {
       id: originalAdId,
       title: video.title,
       description: video.description || '',
@@ -1079,7 +1099,7 @@ export default function VideosScreen(): React.ReactElement {
 
     setFeedbackAd(adForFeedback);
     setShowAdFeedback(true);
-  }, []);
+  }, [videoAds]);
 
   // 2026: In-feed sponsored video impression tracking + session cap enforcement
   const handleInFeedAdImpression = useCallback((video: Video) => {
@@ -1087,6 +1107,7 @@ export default function VideosScreen(): React.ReactElement {
     const originalAdId = video.id.replace('ad-', '');
     recordAdImpression({
       adId: originalAdId,
+      variantId: video.adVariantId,
       placement: 'video',
       duration: 0,
       wasVisible: true,
@@ -1150,16 +1171,18 @@ export default function VideosScreen(): React.ReactElement {
 
     // Gate interstitial behind both local session cap AND AdFrequencyManager cooldowns/fatigue
     const frequencyAllowed = adFrequency.canShowAd('interstitial');
+    // Only ads whose audience includes this viewer
+    const interstitialAds = rankAdsForViewer(videoAds ?? [], adViewer);
 
     if (
       newCount >= AD_INSERTION_CONFIG.interstitialAfter &&
-      videoAds && videoAds.length > 0 &&
+      interstitialAds.length > 0 &&
       sessionAdCountRef.current < AD_INSERTION_CONFIG.maxAdsPerSession &&
       frequencyAllowed
     ) {
       // Round-robin: cycle through available ads instead of always picking [0]
-      const adIdx = interstitialAdIndexRef.current % videoAds.length;
-      const selectedAd = videoAds[adIdx];
+      const adIdx = interstitialAdIndexRef.current % interstitialAds.length;
+      const selectedAd = interstitialAds[adIdx];
       interstitialAdIndexRef.current = adIdx + 1;
 
       setActiveInterstitialAd(selectedAd);
@@ -1167,7 +1190,7 @@ export default function VideosScreen(): React.ReactElement {
       // Record impression against the selected ad for cooldown tracking
       adFrequency.recordImpression(selectedAd.id, 'interstitial', true);
     }
-  }, [videoAds, adFrequency]);
+  }, [videoAds, adViewer, adFrequency]);
 
   const handleTabChange = useCallback((tab: FeedTab) => {
     // 2026: Rigid haptic for tab switch - distinct from soft interactions
@@ -1280,6 +1303,7 @@ export default function VideosScreen(): React.ReactElement {
             headerHeight={headerHeight > 0 ? headerHeight : undefined}
             emptyTitle={emptyState.title}
             emptySubtitle={emptyState.subtitle}
+            trafficSource={showSearchResults && searchQuery ? 'search' : activeTab}
             onScroll={handleFeedScroll}
             testID="video-feed"
           />
@@ -1442,6 +1466,7 @@ export default function VideosScreen(): React.ReactElement {
           onClose={closeFullPlayer}
           onLike={() => handleLike(currentVideoData)}
           onShare={() => handleShare(currentVideoData)}
+          onPlayNext={handlePlayNextPart}
           isLiked={likedVideoIds.has(currentVideoData.id)}
           autoPlay={true}
           loop={false}
@@ -1462,18 +1487,20 @@ export default function VideosScreen(): React.ReactElement {
       <VideoCommentsSheet
         visible={ui.showComments}
         videoId={ui.commentsVideoId || ''}
+        videoOwnerId={commentsVideoOwnerId}
+        currentUserId={auth?.user?.id}
         comments={commentsData?.comments || []}
         totalCount={commentsData?.pagination?.total}
         isLoading={commentsLoading && ui.showComments}
         onClose={closeComments}
-        onAddComment={async (text: string) => {
+        onAddComment={async (text, options) => {
           if (!authReady) return;
           if (!isAuthenticated) {
             router.push('/(auth)/login' as Href);
             return;
           }
           if (ui.commentsVideoId) {
-            await addComment({ videoId: ui.commentsVideoId, text });
+            await addComment({ videoId: ui.commentsVideoId, text, ...options });
           }
         }}
         onRefresh={() => refetchComments()}
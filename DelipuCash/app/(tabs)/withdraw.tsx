@@ -63,6 +63,7 @@ import { cashToPoints, useInstantRewardStore } from "@/store/InstantRewardStore"
 import useUser from "@/utils/useUser";
 import { useFormValidation, validators } from "@/utils/validation";
 import { NotificationBell } from "@/components";
+import { RewardedAdButton } from "@/components/ads";
 
 interface PaymentMethod {
   id: string;
@@ -747,6 +748,9 @@ export default function WithdrawScreen(): React.ReactElement {
             </Text>
           </View>
 
+          {/* Rewarded ad — earn points before choosing a method */}
+          {step === 1 && <RewardedAdButton style={styles.rewardedAd} />}
+
           {/* Step Indicator */}
           {renderStepIndicator()}
 
@@ -789,6 +793,9 @@ const styles = StyleSheet.create({
     fontSize: 14,
     marginTop: 4,
   },
+  rewardedAd: {
+    marginBottom: 24,
+  },
   stepIndicator: {
     flexDirection: "row",
     justifyContent: "space-between",
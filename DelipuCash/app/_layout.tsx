@@ -40,6 +40,9 @@ import { AdFrequencyManager } from '@/services/adFrequencyManager';
 import { useOfflineQueueProcessor } from '@/hooks/useOfflineQueueProcessor';
 import { useAdEventQueueProcessor } from '@/hooks/useAdEventQueueProcessor';
 import { useUploadQueueProcessor } from '@/hooks/useUploadQueueProcessor';
+import { useSurveySubmissionQueueProcessor } from '@/hooks/useSurveySubmissionQueueProcessor';
+import { useWatchHistorySync } from '@/hooks/useWatchHistorySync';
+import { useOfflineDownloadProcessor } from '@/hooks/useOfflineDownloadProcessor';
 import { telemetry } from '@/services/telemetryApi';
 
 // Suppress Reanimated false-positive warning (all .value reads are inside useAnimatedStyle)
@@ -113,6 +116,9 @@ function GlobalProcessors() {
   useOfflineQueueProcessor();
   useUploadQueueProcessor();
   useAdEventQueueProcessor();
+  useSurveySubmissionQueueProcessor();
+  useWatchHistorySync();
+  useOfflineDownloadProcessor();
   return null;
 }
 
@@ -376,6 +382,16 @@ function RootLayoutInner() {
               <Stack.Screen name="leaderboard" options={{ headerShown: false }} />
               <Stack.Screen name="referrals" options={{ headerShown: false }} />
               <Stack.Screen name="video/[id]" options={{ headerShown: false }} />
+              <Stack.Screen name="watch-history" options={{ headerShown: false }} />
+              <Stack.Screen name="video-analytics" options={{ headerShown: false }} />
+              <Stack.Screen name="ad-campaigns" options={{ headerShown: false }} />
+              <Stack.Screen name="ad-campaign/[id]" options={{ headerShown: false }} />
+              <Stack.Screen name="ad-variants/[id]" options={{ headerShown: false }} />
+              <Stack.Screen name="admin-review" options={{ headerShown: false }} />
+              <Stack.Screen name="playlist/[id]" options={{ headerShown: false }} />
+              <Stack.Screen name="creator/[id]" options={{ headerShown: false }} />
+              <Stack.Screen name="saved" options={{ headerShown: false }} />
+              <Stack.Screen name="save-to-collection" options={{ headerShown: false, presentation: 'modal' }} />
               <Stack.Screen name="verify-login" options={{ headerShown: false }} />
             </Stack>
             <GlobalSystemBars isDark={isDark} />
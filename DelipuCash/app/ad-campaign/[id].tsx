@@ -0,0 +1,724 @@
+/**
+ * Campaign Detail Screen
+ * One ad's performance, spend and review history
+ *
+ * Features:
+ * - Impressions, clicks, CTR, CPM, CPC and budget use (useAdAnalytics)
+ * - Daily impressions, clicks or spend over 7, 28 or 90 days
+ * - Today's spend against the daily budget
+ * - Status timeline — submitted, approved or rejected (with the reason),
+ *   paused, resumed, budget spent
+ * - Pause / resume, and editing the copy, link, budget and bid — changing
+ *   what the ad shows sends it back to review
+ * - CSV export of the daily numbers through the share sheet
+ * - Creative test — each variant's CTR and traffic share, the significance
+ *   readout, even split or auto-optimize, picking a winner, ending the test
+ */
+
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Clipboard,
+  RefreshControl,
+  ScrollView,
+  Share as RNShare,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { StatusBar } from 'expo-status-bar';
+import { router, useLocalSearchParams, type Href } from 'expo-router';
+import * as Haptics from '@/utils/haptics';
+import { ChevronLeft, Download, FlaskConical, Megaphone, Pause, Pencil, Play, Trophy, X } from 'lucide-react-native';
+import { FormInput, PrimaryButton } from '@/components';
+import {
+  useAdAnalytics,
+  useAdCreativeTest,
+  useCampaignPerformance,
+  useEndAdCreativeTest,
+  usePauseAd,
+  useResumeAd,
+  useUpdateAd,
+  useUpdateAdCreativeTest,
+} from '@/services/adHooksRefactored';
+import type { AdCampaign, AdCreativeTest, AdVariantMode, AnalyticsRange } from '@/types';
+import { ANALYTICS_RANGE_OPTIONS, formatCount } from '@/utils/videoAnalytics';
+import {
+  AD_STATUS_LABELS,
+  AD_STATUS_TONES,
+  PERFORMANCE_SERIES_OPTIONS,
+  barHeights,
+  campaignCsv,
+  campaignEditChanges,
+  campaignEditForm,
+  formatPercent,
+  formatUGX,
+  pacingLabel,
+  pacingProgress,
+  seriesTotal,
+  timelineLabel,
+  type CampaignEditForm,
+  type PerformanceSeries,
+} from '@/utils/adCampaigns';
+import { VARIANT_MODE_OPTIONS, formatShare, readoutLabel, winnerCandidate } from '@/utils/adVariants';
+import {
+  ICON_SIZE,
+  RADIUS,
+  SPACING,
+  TYPOGRAPHY,
+  useTheme,
+  withAlpha,
+} from '@/utils/theme';
+
+const CHART_HEIGHT = 100;
+
+const EDIT_FIELDS: { key: keyof CampaignEditForm; label: string; numeric?: boolean; multiline?: boolean }[] = [
+  { key: 'title', label: 'Title' },
+  { key: 'headline', label: 'Headline' },
+  { key: 'description', label: 'Description', multiline: true },
+  { key: 'targetUrl', label: 'Link' },
+  { key: 'totalBudget', label: 'Total budget (UGX)', numeric: true },
+  { key: 'dailyBudgetLimit', label: 'Daily limit (UGX, optional)', numeric: true },
+  { key: 'bidAmount', label: 'Bid (UGX)', numeric: true },
+];
+
+const AdCampaignScreen = (): React.ReactElement => {
+  const insets = useSafeAreaInsets();
+  const { colors, statusBarStyle } = useTheme();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [range, setRange] = useState<AnalyticsRange>('28d');
+  const [series, setSeries] = useState<PerformanceSeries>('impressions');
+  const [form, setForm] = useState<CampaignEditForm | null>(null);
+
+  const { data, isLoading, isError, error, refetch, isRefetching } = useCampaignPerformance(id, range);
+  const analyticsQuery = useAdAnalytics(id);
+  const testQuery = useAdCreativeTest(id);
+  const pauseAd = usePauseAd();
+  const resumeAd = useResumeAd();
+  const updateAd = useUpdateAd();
+  const updateTest = useUpdateAdCreativeTest();
+  const endTest = useEndAdCreativeTest();
+
+  const handleRefresh = () => {
+    refetch();
+    analyticsQuery.refetch();
+    testQuery.refetch();
+  };
+
+  const handleExport = async (campaign: AdCampaign) => {
+    if (!data) return;
+    const content = campaignCsv(campaign, data.daily);
+    try {
+      await RNShare.share({ message: content, title: `${campaign.title} — campaign report` });
+    } catch {
+      Clipboard.setString(content);
+      Alert.alert('Copied', 'Report copied to clipboard');
+    }
+  };
+
+  const handleStatus = async (action: 'pause' | 'resume') => {
+    Haptics.selectionAsync();
+    try {
+      await (action === 'pause' ? pauseAd : resumeAd).mutateAsync(id);
+    } catch (err) {
+      Alert.alert(action === 'pause' ? "Couldn't pause" : "Couldn't resume", err instanceof Error ? err.message : 'Please try again.');
+    }
+  };
+
+  const changeTest = async (changes: { mode?: AdVariantMode; winnerVariantId?: string | null }) => {
+    Haptics.selectionAsync();
+    try {
+      await updateTest.mutateAsync({ adId: id, ...changes });
+    } catch (err) {
+      Alert.alert("Couldn't update the test", err instanceof Error ? err.message : 'Please try again.');
+    }
+  };
+
+  const confirmEndTest = () => {
+    Alert.alert(
+      'End this test?',
+      'Your ad goes back to showing its own creative, and the variants stop running.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'End test',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await endTest.mutateAsync(id);
+            } catch (err) {
+              Alert.alert("Couldn't end the test", err instanceof Error ? err.message : 'Please try again.');
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const save = async (campaign: AdCampaign, values: CampaignEditForm) => {
+    const result = campaignEditChanges(campaign, values);
+    if (result.error !== null) {
+      Alert.alert('Check your changes', result.error);
+      return;
+    }
+    if (Object.keys(result.payload).length === 0) {
+      setForm(null);
+      return;
+    }
+    const submit = async () => {
+      try {
+        await updateAd.mutateAsync({ adId: campaign.id, payload: result.payload });
+        setForm(null);
+      } catch (err) {
+        Alert.alert("Couldn't save", err instanceof Error ? err.message : 'Please try again.');
+      }
+    };
+    if (!result.sendsToReview) {
+      await submit();
+      return;
+    }
+    Alert.alert(
+      'Send back for review?',
+      "Changing what your ad shows means it's reviewed again. It won't run until it's approved.",
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Save', onPress: submit },
+      ],
+    );
+  };
+
+  const header = (campaign?: AdCampaign) => (
+    <View style={[styles.header, { paddingTop: insets.top + SPACING.sm, borderBottomColor: colors.border }]}>
+      <TouchableOpacity
+        style={styles.backButton}
+        onPress={() => router.back()}
+        hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        accessibilityRole="button"
+        accessibilityLabel="Go back"
+      >
+        <ChevronLeft color={colors.text} size={ICON_SIZE.xl} />
+      </TouchableOpacity>
+      <Megaphone color={colors.text} size={ICON_SIZE.lg} accessibilityElementsHidden />
+      <Text style={[styles.headerTitle, { color: colors.text }]} accessibilityRole="header" numberOfLines={1}>
+        {campaign?.title ?? 'Campaign'}
+      </Text>
+      {campaign && !form && (
+        <>
+          <TouchableOpacity
+            style={styles.headerAction}
+            onPress={() => setForm(campaignEditForm(campaign))}
+            accessibilityRole="button"
+            accessibilityLabel="Edit campaign"
+          >
+            <Pencil color={colors.text} size={ICON_SIZE.md} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.headerAction}
+            onPress={() => handleExport(campaign)}
+            accessibilityRole="button"
+            accessibilityLabel="Export as CSV"
+          >
+            <Download color={colors.text} size={ICON_SIZE.md} />
+          </TouchableOpacity>
+        </>
+      )}
+    </View>
+  );
+
+  if (isLoading) {
+    return (
+      <View
+        style={[styles.centered, { backgroundColor: colors.background }]}
+        accessibilityRole="progressbar"
+        accessibilityLabel="Loading campaign"
+      >
+        <StatusBar style={statusBarStyle} />
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  if (isError || !data) {
+    return (
+      <View style={[styles.container, { backgroundColor: colors.background }]} accessibilityRole="alert">
+        <StatusBar style={statusBarStyle} />
+        {header()}
+        <View style={styles.centered}>
+          <X color={colors.error} size={48} accessibilityElementsHidden />
+          <Text style={[styles.message, { color: colors.textSecondary }]}>
+            {error instanceof Error ? error.message : 'Could not load this campaign.'}
+          </Text>
+          <PrimaryButton title="Retry" onPress={() => refetch()} />
+        </View>
+      </View>
+    );
+  }
+
+  const { campaign, daily, timeline } = data;
+  const analytics = analyticsQuery.data;
+  const statusTone = AD_STATUS_TONES[campaign.status];
+  const statusColor = statusTone === 'muted' ? colors.textMuted : colors[statusTone];
+  const progress = pacingProgress(campaign.pacing);
+  const heights = barHeights(daily, series);
+  const total = seriesTotal(daily, series);
+
+  const sectionTitle = (title: string) => (
+    <Text style={[styles.sectionTitle, { color: colors.text }]} accessibilityRole="header">{title}</Text>
+  );
+
+  const chips = <T extends string>(
+    options: { value: T; label: string }[],
+    selectedValue: T,
+    onSelect: (value: T) => void,
+  ) => (
+    <View style={styles.chips} accessibilityRole="tablist">
+      {options.map((option) => {
+        const selected = option.value === selectedValue;
+        return (
+          <TouchableOpacity
+            key={option.value}
+            style={[
+              styles.chip,
+              { borderColor: selected ? colors.primary : colors.border },
+              selected && { backgroundColor: withAlpha(colors.primary, 0.12) },
+            ]}
+            onPress={() => {
+              if (selected) return;
+              Haptics.selectionAsync();
+              onSelect(option.value);
+            }}
+            accessibilityRole="tab"
+            accessibilityState={{ selected }}
+          >
+            <Text style={[styles.chipText, { color: selected ? colors.primary : colors.textSecondary }]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  const openVariants = () => router.push(`/ad-variants/${id}` as Href);
+
+  const creativeTest = (test: AdCreativeTest) => {
+    if (!test.mode) {
+      return (
+        <>
+          <Text style={[styles.note, { color: colors.textSecondary }]}>
+            Try 2–4 versions of your headline, image or video and call to action, and see which one people click.
+          </Text>
+          <PrimaryButton
+            title="Set up a test"
+            variant="outline"
+            leftIcon={<FlaskConical color={colors.primary} size={ICON_SIZE.md} />}
+            onPress={openVariants}
+          />
+        </>
+      );
+    }
+    const candidate = winnerCandidate(test);
+    return (
+      <>
+        {chips(VARIANT_MODE_OPTIONS, test.mode, (mode) => changeTest({ mode }))}
+        <Text style={[styles.note, { color: colors.textMuted }]}>
+          {VARIANT_MODE_OPTIONS.find((option) => option.value === test.mode)?.description}
+        </Text>
+        <View style={[styles.notice, { backgroundColor: withAlpha(colors.primary, 0.08) }]} accessibilityLiveRegion="polite">
+          <Text style={[styles.noticeText, { color: colors.text }]}>{readoutLabel(test)}</Text>
+        </View>
+        {test.variants.map((variant) => {
+          const isWinner = variant.id === test.winnerVariantId;
+          return (
+            <View key={variant.id} style={[styles.variant, { backgroundColor: colors.card, borderColor: colors.border }]}>
+              <View style={styles.statusRow}>
+                <View style={[styles.badge, { backgroundColor: withAlpha(colors.primary, 0.12) }]}>
+                  <Text style={[styles.badgeText, { color: colors.primary }]}>{variant.label}</Text>
+                </View>
+                <Text style={[styles.timelineTitle, styles.variantHeadline, { color: colors.text }]} numberOfLines={1}>
+                  {variant.headline}
+                </Text>
+                {isWinner && <Trophy color={colors.warning} size={ICON_SIZE.sm} accessibilityLabel="Winner" />}
+              </View>
+              <Text style={[styles.note, { color: colors.textSecondary }]}>
+                {formatCount(variant.impressions)} impressions · {formatCount(variant.clicks)} clicks · {formatPercent(variant.ctr)} CTR
+                {variant.conversions > 0 ? ` · ${formatCount(variant.conversions)} conversions` : ''}
+              </Text>
+              <View style={[styles.track, { backgroundColor: withAlpha(colors.primary, 0.08) }]}>
+                <View style={[styles.fill, { width: `${variant.share * 100}%`, backgroundColor: colors.primary }]} />
+              </View>
+              <Text style={[styles.note, { color: colors.textMuted }]}>{formatShare(variant.share)} of traffic</Text>
+            </View>
+          );
+        })}
+        {candidate && (
+          <PrimaryButton
+            title={`Make ${candidate.label} the winner`}
+            leftIcon={<Trophy color={colors.primaryText} size={ICON_SIZE.md} />}
+            onPress={() => changeTest({ winnerVariantId: candidate.id })}
+            loading={updateTest.isPending}
+          />
+        )}
+        {!!test.winnerVariantId && (
+          <PrimaryButton
+            title="Share traffic again"
+            variant="outline"
+            onPress={() => changeTest({ winnerVariantId: null })}
+            loading={updateTest.isPending}
+          />
+        )}
+        <PrimaryButton
+          title="Edit variants"
+          variant="outline"
+          leftIcon={<Pencil color={colors.primary} size={ICON_SIZE.md} />}
+          onPress={openVariants}
+        />
+        <PrimaryButton title="End test" variant="ghost" onPress={confirmEndTest} loading={endTest.isPending} />
+      </>
+    );
+  };
+
+  const metricCards = [
+    { label: 'Impressions', value: formatCount(analytics?.impressions ?? campaign.impressions) },
+    { label: 'Clicks', value: formatCount(analytics?.clicks ?? campaign.clicks) },
+    { label: 'CTR', value: formatPercent(analytics?.ctr ?? campaign.metrics.ctr) },
+    { label: 'Spent', value: formatUGX(analytics?.amountSpent ?? campaign.amountSpent) },
+    { label: 'CPM', value: formatUGX(analytics?.costPerMille ?? campaign.metrics.costPerMille) },
+    { label: 'CPC', value: formatUGX(analytics?.costPerClick ?? campaign.metrics.costPerClick) },
+  ];
+
+  if (form) {
+    return (
+      <View style={[styles.container, { backgroundColor: colors.background }]}>
+        <StatusBar style={statusBarStyle} />
+        {header(campaign)}
+        <ScrollView
+          contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + SPACING.xl }]}
+          keyboardShouldPersistTaps="handled"
+        >
+          <Text style={[styles.note, { color: colors.textMuted }]}>
+            Budget, daily limit and bid changes apply straight away. Changing the title, headline,
+            description or link sends the ad back for review.
+          </Text>
+          {EDIT_FIELDS.map((field) => (
+            <FormInput
+              key={field.key}
+              label={field.label}
+              value={form[field.key]}
+              onChangeText={(text) => setForm({ ...form, [field.key]: text })}
+              keyboardType={field.numeric ? 'numeric' : 'default'}
+              multiline={field.multiline}
+              autoCapitalize={field.key === 'targetUrl' ? 'none' : 'sentences'}
+            />
+          ))}
+          <PrimaryButton title="Save changes" onPress={() => save(campaign, form)} loading={updateAd.isPending} />
+          <PrimaryButton title="Cancel" variant="ghost" onPress={() => setForm(null)} disabled={updateAd.isPending} />
+        </ScrollView>
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <StatusBar style={statusBarStyle} />
+      {header(campaign)}
+      <ScrollView
+        contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + SPACING.xl }]}
+        refreshControl={<RefreshControl refreshing={isRefetching} onRefresh={handleRefresh} tintColor={colors.primary} />}
+      >
+        <View style={styles.statusRow}>
+          <View style={[styles.badge, { backgroundColor: withAlpha(statusColor, 0.12) }]}>
+            <Text style={[styles.badgeText, { color: statusColor }]}>{AD_STATUS_LABELS[campaign.status]}</Text>
+          </View>
+          <Text style={[styles.note, { color: colors.textMuted }]}>
+            {campaign.pricingModel.toUpperCase()} · bid {formatUGX(campaign.bidAmount)}
+          </Text>
+        </View>
+        {campaign.status === 'rejected' && !!campaign.rejectionReason && (
+          <View style={[styles.notice, { backgroundColor: withAlpha(colors.error, 0.08) }]}>
+            <Text style={[styles.noticeText, { color: colors.error }]}>{campaign.rejectionReason}</Text>
+            <Text style={[styles.note, { color: colors.textSecondary }]}>Edit the ad to send it back for review.</Text>
+          </View>
+        )}
+        {campaign.canPause && (
+          <PrimaryButton
+            title="Pause campaign"
+            variant="outline"
+            leftIcon={<Pause color={colors.primary} size={ICON_SIZE.md} />}
+            onPress={() => handleStatus('pause')}
+            loading={pauseAd.isPending}
+          />
+        )}
+        {campaign.canResume && (
+          <PrimaryButton
+            title="Resume campaign"
+            leftIcon={<Play color={colors.primaryText} size={ICON_SIZE.md} />}
+            onPress={() => handleStatus('resume')}
+            loading={resumeAd.isPending}
+          />
+        )}
+
+        <View style={styles.cards}>
+          {metricCards.map((card) => (
+            <View key={card.label} style={[styles.card, { backgroundColor: colors.card, borderColor: colors.border }]}>
+              <Text style={[styles.cardLabel, { color: colors.textSecondary }]}>{card.label}</Text>
+              <Text style={[styles.cardValue, { color: colors.text }]} numberOfLines={1} adjustsFontSizeToFit>
+                {card.value}
+              </Text>
+            </View>
+          ))}
+        </View>
+
+        {sectionTitle('Budget')}
+        <View style={[styles.track, { backgroundColor: withAlpha(colors.primary, 0.08) }]}>
+          <View
+            style={[
+              styles.fill,
+              { width: `${Math.min(100, campaign.metrics.budgetUtilization)}%`, backgroundColor: colors.primary },
+            ]}
+          />
+        </View>
+        <Text style={[styles.note, { color: colors.textSecondary }]}>
+          {formatUGX(campaign.amountSpent)} of {formatUGX(campaign.totalBudget)} · {formatUGX(campaign.metrics.budgetRemaining)} left
+        </Text>
+        {progress !== null && (
+          <View style={[styles.track, { backgroundColor: withAlpha(colors.warning, 0.12) }]}>
+            <View style={[styles.fill, { width: `${progress * 100}%`, backgroundColor: colors.warning }]} />
+          </View>
+        )}
+        <Text style={[styles.note, { color: colors.textSecondary }]}>{pacingLabel(campaign.pacing)}</Text>
+
+        {sectionTitle('Performance')}
+        {chips(ANALYTICS_RANGE_OPTIONS, range, setRange)}
+        {chips(PERFORMANCE_SERIES_OPTIONS, series, setSeries)}
+        <Text style={[styles.total, { color: colors.text }]}>
+          {series === 'spend' ? formatUGX(total) : formatCount(total)}
+          <Text style={[styles.note, { color: colors.textMuted }]}>  in this range</Text>
+        </Text>
+        <View
+          style={[styles.chart, { height: CHART_HEIGHT }]}
+          accessible
+          accessibilityLabel={`${series} per day over ${daily.length} days, ${series === 'spend' ? formatUGX(total) : total} in total`}
+        >
+          {daily.map((day, index) => (
+            <View
+              key={day.date}
+              style={[
+                styles.bar,
+                {
+                  height: `${Math.max(2, heights[index] * 100)}%`,
+                  backgroundColor: heights[index] > 0 ? colors.primary : withAlpha(colors.primary, 0.15),
+                },
+              ]}
+            />
+          ))}
+        </View>
+        {campaign.pricingModel !== 'cpm' && campaign.pricingModel !== 'cpc' && series === 'spend' && (
+          <Text style={[styles.note, { color: colors.textMuted }]}>
+            Daily spend is only broken down for CPM and CPC campaigns.
+          </Text>
+        )}
+
+        {testQuery.data && (
+          <>
+            {sectionTitle('Creative test')}
+            {creativeTest(testQuery.data)}
+          </>
+        )}
+
+        {sectionTitle('History')}
+        {timeline.map((entry, index) => {
+          const tone = AD_STATUS_TONES[entry.status];
+          const dot = tone === 'muted' ? colors.textMuted : colors[tone];
+          return (
+            <View key={`${entry.status}-${entry.at}`} style={styles.timelineRow}>
+              <View style={styles.timelineRail}>
+                <View style={[styles.timelineDot, { backgroundColor: dot }]} />
+                {index < timeline.length - 1 && <View style={[styles.timelineLine, { backgroundColor: colors.border }]} />}
+              </View>
+              <View style={styles.timelineBody}>
+                <Text style={[styles.timelineTitle, { color: colors.text }]}>{timelineLabel(entry, index === 0)}</Text>
+                {!!entry.reason && entry.status === 'rejected' && (
+                  <Text style={[styles.note, { color: colors.error }]}>{entry.reason}</Text>
+                )}
+                <Text style={[styles.note, { color: colors.textMuted }]}>{new Date(entry.at).toLocaleString()}</Text>
+              </View>
+            </View>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: SPACING.md,
+    padding: SPACING.xl,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    paddingHorizontal: SPACING.md,
+    paddingBottom: SPACING.md,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    padding: SPACING.xs,
+  },
+  headerTitle: {
+    flex: 1,
+    fontFamily: TYPOGRAPHY.fontFamily.bold,
+    fontSize: TYPOGRAPHY.fontSize.lg,
+  },
+  headerAction: {
+    padding: SPACING.xs,
+  },
+  content: {
+    padding: SPACING.md,
+    gap: SPACING.md,
+  },
+  message: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.base,
+    textAlign: 'center',
+  },
+  note: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+  },
+  badge: {
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: 2,
+    borderRadius: RADIUS.full,
+  },
+  badgeText: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  notice: {
+    padding: SPACING.md,
+    borderRadius: RADIUS.md,
+    gap: SPACING.xxs,
+  },
+  noticeText: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  chips: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+  },
+  chip: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+    borderWidth: 1,
+    borderRadius: RADIUS.full,
+  },
+  chipText: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  cards: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.sm,
+  },
+  card: {
+    flexGrow: 1,
+    flexBasis: '30%',
+    padding: SPACING.md,
+    borderWidth: 1,
+    borderRadius: RADIUS.md,
+    gap: SPACING.xxs,
+  },
+  cardLabel: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  cardValue: {
+    fontFamily: TYPOGRAPHY.fontFamily.bold,
+    fontSize: TYPOGRAPHY.fontSize.base,
+  },
+  sectionTitle: {
+    fontFamily: TYPOGRAPHY.fontFamily.bold,
+    fontSize: TYPOGRAPHY.fontSize.base,
+    marginTop: SPACING.sm,
+  },
+  track: {
+    height: 8,
+    borderRadius: RADIUS.sm,
+    overflow: 'hidden',
+  },
+  fill: {
+    height: '100%',
+  },
+  total: {
+    fontFamily: TYPOGRAPHY.fontFamily.bold,
+    fontSize: TYPOGRAPHY.fontSize.xl,
+  },
+  chart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 1,
+  },
+  bar: {
+    flex: 1,
+    borderTopLeftRadius: 2,
+    borderTopRightRadius: 2,
+  },
+  variant: {
+    padding: SPACING.md,
+    borderWidth: 1,
+    borderRadius: RADIUS.md,
+    gap: SPACING.xs,
+  },
+  variantHeadline: {
+    flex: 1,
+  },
+  timelineRow: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+  },
+  timelineRail: {
+    width: 12,
+    alignItems: 'center',
+  },
+  timelineDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginTop: 4,
+  },
+  timelineLine: {
+    flex: 1,
+    width: 2,
+    marginTop: 2,
+  },
+  timelineBody: {
+    flex: 1,
+    gap: 2,
+    paddingBottom: SPACING.md,
+  },
+  timelineTitle: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+});
+
+export default AdCampaignScreen;
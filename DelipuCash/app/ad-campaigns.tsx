@@ -0,0 +1,335 @@
+/**
+ * My Campaigns Screen
+ * The advertiser's ads and how each is doing
+ *
+ * Features:
+ * - Every ad the user created, newest first, filterable by status
+ * - Spend against the total budget, CTR and today's pacing per campaign
+ * - Rejection reasons inline, so a rejected ad can be fixed from the detail screen
+ *
+ * Reached from "My Campaigns" in the profile, or "View Campaigns" after
+ * creating an ad. Tapping a campaign opens /ad-campaign/[id].
+ */
+
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { StatusBar } from 'expo-status-bar';
+import { router, type Href } from 'expo-router';
+import { Image as ExpoImage } from 'expo-image';
+import * as Haptics from '@/utils/haptics';
+import { ChevronLeft, ChevronRight, Megaphone, Plus, X } from 'lucide-react-native';
+import { PrimaryButton } from '@/components';
+import { useMyCampaigns } from '@/services/adHooksRefactored';
+import type { AdStatus } from '@/services/adApi';
+import type { AdCampaign } from '@/types';
+import { getPlaceholderImage } from '@/utils/thumbnail-utils';
+import { formatCount } from '@/utils/videoAnalytics';
+import {
+  AD_STATUS_LABELS,
+  AD_STATUS_TONES,
+  CAMPAIGN_STATUS_FILTERS,
+  formatPercent,
+  formatUGX,
+  pacingLabel,
+} from '@/utils/adCampaigns';
+import {
+  ICON_SIZE,
+  RADIUS,
+  SPACING,
+  TYPOGRAPHY,
+  useTheme,
+  withAlpha,
+} from '@/utils/theme';
+
+const THUMBNAIL_SIZE = 64;
+
+const AdCampaignsScreen = (): React.ReactElement => {
+  const insets = useSafeAreaInsets();
+  const { colors, statusBarStyle } = useTheme();
+  const [status, setStatus] = useState<AdStatus | undefined>(undefined);
+  const { data: campaigns = [], isLoading, isError, error, refetch, isRefetching } = useMyCampaigns(status);
+
+  const toneColor = (campaign: AdCampaign) => {
+    const tone = AD_STATUS_TONES[campaign.status];
+    return tone === 'muted' ? colors.textMuted : colors[tone];
+  };
+
+  const handleFilter = (next: AdStatus | undefined) => {
+    if (next === status) return;
+    Haptics.selectionAsync();
+    setStatus(next);
+  };
+
+  const header = (
+    <View style={[styles.header, { paddingTop: insets.top + SPACING.sm, borderBottomColor: colors.border }]}>
+      <TouchableOpacity
+        style={styles.backButton}
+        onPress={() => router.back()}
+        hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        accessibilityRole="button"
+        accessibilityLabel="Go back"
+      >
+        <ChevronLeft color={colors.text} size={ICON_SIZE.xl} />
+      </TouchableOpacity>
+      <Megaphone color={colors.text} size={ICON_SIZE.lg} accessibilityElementsHidden />
+      <Text style={[styles.headerTitle, { color: colors.text }]} accessibilityRole="header">
+        My campaigns
+      </Text>
+      <TouchableOpacity
+        style={styles.headerAction}
+        onPress={() => router.push('/ad-registration' as Href)}
+        accessibilityRole="button"
+        accessibilityLabel="Create an ad"
+      >
+        <Plus color={colors.primary} size={ICON_SIZE.lg} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  if (isLoading) {
+    return (
+      <View
+        style={[styles.centered, { backgroundColor: colors.background }]}
+        accessibilityRole="progressbar"
+        accessibilityLabel="Loading campaigns"
+      >
+        <StatusBar style={statusBarStyle} />
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  if (isError) {
+    return (
+      <View style={[styles.container, { backgroundColor: colors.background }]} accessibilityRole="alert">
+        <StatusBar style={statusBarStyle} />
+        {header}
+        <View style={styles.centered}>
+          <X color={colors.error} size={48} accessibilityElementsHidden />
+          <Text style={[styles.message, { color: colors.textSecondary }]}>
+            {error instanceof Error ? error.message : 'Could not load your campaigns.'}
+          </Text>
+          <PrimaryButton title="Retry" onPress={() => refetch()} />
+        </View>
+      </View>
+    );
+  }
+
+  const filters = (
+    <View style={styles.chips} accessibilityRole="tablist">
+      {CAMPAIGN_STATUS_FILTERS.map((option) => {
+        const selected = option.value === status;
+        return (
+          <TouchableOpacity
+            key={option.label}
+            style={[
+              styles.chip,
+              { borderColor: selected ? colors.primary : colors.border },
+              selected && { backgroundColor: withAlpha(colors.primary, 0.12) },
+            ]}
+            onPress={() => handleFilter(option.value)}
+            accessibilityRole="tab"
+            accessibilityState={{ selected }}
+          >
+            <Text style={[styles.chipText, { color: selected ? colors.primary : colors.textSecondary }]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  const renderCampaign = ({ item }: { item: AdCampaign }) => {
+    const spentShare = item.totalBudget > 0 ? Math.min(1, item.amountSpent / item.totalBudget) : 0;
+    const tone = toneColor(item);
+    return (
+      <TouchableOpacity
+        style={[styles.card, { backgroundColor: colors.card, borderColor: colors.border }]}
+        onPress={() => {
+          Haptics.selectionAsync();
+          router.push({ pathname: '/ad-campaign/[id]', params: { id: item.id } } as Href);
+        }}
+        accessibilityRole="button"
+        accessibilityLabel={`${item.title}, ${AD_STATUS_LABELS[item.status]}, ${formatUGX(item.amountSpent)} of ${formatUGX(item.totalBudget)} spent`}
+        accessibilityHint="Opens this campaign's performance"
+      >
+        <View style={styles.cardRow}>
+          <ExpoImage
+            source={{ uri: item.thumbnailUrl || getPlaceholderImage() }}
+            style={[styles.thumbnail, { backgroundColor: colors.background }]}
+            contentFit="cover"
+            cachePolicy="memory-disk"
+            recyclingKey={item.id}
+          />
+          <View style={styles.cardBody}>
+            <Text style={[styles.title, { color: colors.text }]} numberOfLines={1}>{item.title}</Text>
+            <View style={[styles.badge, { backgroundColor: withAlpha(tone, 0.12) }]}>
+              <Text style={[styles.badgeText, { color: tone }]}>{AD_STATUS_LABELS[item.status]}</Text>
+            </View>
+            <Text style={[styles.meta, { color: colors.textSecondary }]}>
+              {formatCount(item.impressions)} impressions · {formatCount(item.clicks)} clicks · {formatPercent(item.metrics.ctr)} CTR
+            </Text>
+          </View>
+          <ChevronRight color={colors.textMuted} size={ICON_SIZE.md} />
+        </View>
+
+        <View style={[styles.track, { backgroundColor: withAlpha(colors.primary, 0.08) }]}>
+          <View style={[styles.fill, { width: `${spentShare * 100}%`, backgroundColor: colors.primary }]} />
+        </View>
+        <Text style={[styles.meta, { color: colors.textSecondary }]}>
+          {formatUGX(item.amountSpent)} of {formatUGX(item.totalBudget)} spent
+        </Text>
+        {item.status === 'approved' && (
+          <Text style={[styles.meta, { color: colors.textMuted }]}>{pacingLabel(item.pacing)}</Text>
+        )}
+        {item.status === 'rejected' && !!item.rejectionReason && (
+          <Text style={[styles.meta, { color: colors.error }]} numberOfLines={2}>{item.rejectionReason}</Text>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <StatusBar style={statusBarStyle} />
+      {header}
+      <FlatList
+        data={campaigns}
+        keyExtractor={(item) => item.id}
+        renderItem={renderCampaign}
+        ListHeaderComponent={filters}
+        ListEmptyComponent={
+          <View style={styles.empty}>
+            <Text style={[styles.message, { color: colors.textMuted }]}>
+              {status ? `No ${AD_STATUS_LABELS[status].toLowerCase()} campaigns.` : "You haven't created an ad yet."}
+            </Text>
+            {!status && (
+              <PrimaryButton title="Create an ad" onPress={() => router.push('/ad-registration' as Href)} />
+            )}
+          </View>
+        }
+        contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + SPACING.xl }]}
+        refreshControl={<RefreshControl refreshing={isRefetching} onRefresh={refetch} tintColor={colors.primary} />}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: SPACING.md,
+    padding: SPACING.xl,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    paddingHorizontal: SPACING.md,
+    paddingBottom: SPACING.md,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    padding: SPACING.xs,
+  },
+  headerTitle: {
+    flex: 1,
+    fontFamily: TYPOGRAPHY.fontFamily.bold,
+    fontSize: TYPOGRAPHY.fontSize.lg,
+  },
+  headerAction: {
+    padding: SPACING.xs,
+  },
+  content: {
+    padding: SPACING.md,
+    gap: SPACING.md,
+  },
+  message: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.base,
+    textAlign: 'center',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.sm,
+  },
+  chip: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+    borderWidth: 1,
+    borderRadius: RADIUS.full,
+  },
+  chipText: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  card: {
+    padding: SPACING.md,
+    borderWidth: 1,
+    borderRadius: RADIUS.md,
+    gap: SPACING.xs,
+  },
+  cardRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.md,
+  },
+  thumbnail: {
+    width: THUMBNAIL_SIZE,
+    height: THUMBNAIL_SIZE,
+    borderRadius: RADIUS.md,
+  },
+  cardBody: {
+    flex: 1,
+    gap: SPACING.xxs,
+  },
+  title: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.base,
+  },
+  badge: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: 2,
+    borderRadius: RADIUS.full,
+  },
+  badgeText: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  meta: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  track: {
+    height: 6,
+    borderRadius: RADIUS.sm,
+    overflow: 'hidden',
+  },
+  fill: {
+    height: '100%',
+  },
+  empty: {
+    alignItems: 'center',
+    gap: SPACING.md,
+    paddingVertical: SPACING.xl,
+  },
+});
+
+export default AdCampaignsScreen;
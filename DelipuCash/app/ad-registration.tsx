@@ -13,7 +13,7 @@ import { useAuth } from "@/utils/auth/useAuth";
 import { Feather, Ionicons, MaterialCommunityIcons } from "@expo/vector-icons";
 import DateTimePicker from "@react-native-community/datetimepicker";
 import * as ImagePicker from "expo-image-picker";
-import { router } from "expo-router";
+import { router, type Href } from "expo-router";
 import { StatusBar } from "expo-status-bar";
 import React, { useCallback, useMemo, useState } from "react";
 import {
@@ -463,6 +463,8 @@ export default function AdRegistrationScreen(): React.ReactElement {
     etag?: string;
     mimeType?: string;
     size?: number;
+    /** Video length from the picker — rewarded ads pay only after this long */
+    durationSeconds?: number;
   } | null>(null);
   const [showStartPicker, setShowStartPicker] = useState(false);
   const [showEndPicker, setShowEndPicker] = useState(false);
@@ -602,6 +604,8 @@ export default function AdRegistrationScreen(): React.ReactElement {
           etag: uploadResult.data.etag,
           mimeType: uploadResult.data.mimeType,
           size: uploadResult.data.size,
+          // expo-image-picker reports video duration in milliseconds
+          durationSeconds: isVideo && asset.duration ? Math.round(asset.duration / 1000) : undefined,
         });
       }
     } catch (error) {
@@ -757,12 +761,13 @@ export default function AdRegistrationScreen(): React.ReactElement {
           r2VideoEtag: r2Metadata.etag,
           videoMimeType: r2Metadata.mimeType,
           videoSizeBytes: r2Metadata.size,
+          videoDurationSeconds: r2Metadata.durationSeconds,
           storageProvider: 'r2',
         }),
       });
       
       Alert.alert("Ad Campaign Created!", "Your campaign is now under review and will be live within 24 hours.", [
-        { text: "View Campaigns", onPress: () => router.push("/") },
+        { text: "View Campaigns", onPress: () => router.replace("/ad-campaigns" as Href) },
         { text: "Create Another", onPress: () => {
           setForm({
             title: "", description: "", targetUrl: "", type: "regular", placement: "feed",
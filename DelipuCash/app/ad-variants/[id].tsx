@@ -0,0 +1,465 @@
+/**
+ * Creative Test Editor
+ * Set up or edit an ad's 2–4 creative variants
+ *
+ * Features:
+ * - A new test starts from the ad's own creative as variant A
+ * - Per variant: headline, description, call to action and an image or video
+ *   uploaded to R2
+ * - Even split or auto-optimize (traffic shifts toward the better CTR)
+ * - Adding or editing a variant of a reviewed ad sends it back to review —
+ *   confirmed before saving
+ */
+
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { StatusBar } from 'expo-status-bar';
+import { router, useLocalSearchParams } from 'expo-router';
+import { Image as ExpoImage } from 'expo-image';
+import * as ImagePicker from 'expo-image-picker';
+import * as Haptics from '@/utils/haptics';
+import { ChevronLeft, FlaskConical, ImagePlus, Plus, Video as VideoIcon, X } from 'lucide-react-native';
+import { FormInput, PrimaryButton } from '@/components';
+import { useAdCreativeTest, useSaveAdVariants } from '@/services/adHooksRefactored';
+import { useUploadAdMediaToR2 } from '@/services/r2UploadHooks';
+import type { CTAType } from '@/services/adApi';
+import type { AdCreativeTest, AdVariantMode } from '@/types';
+import { useAuth } from '@/utils/auth/useAuth';
+import { getPlaceholderImage } from '@/utils/thumbnail-utils';
+import {
+  AD_CTA_LABELS,
+  MAX_VARIANT_DESCRIPTION_CHARS,
+  MAX_VARIANT_HEADLINE_CHARS,
+  VARIANT_LABELS,
+  VARIANT_MAX,
+  VARIANT_MIN,
+  VARIANT_MODE_OPTIONS,
+  addDraft,
+  draftCreative,
+  draftsSendToReview,
+  removeDraft,
+  variantDrafts,
+  variantDraftsError,
+  type VariantDraft,
+} from '@/utils/adVariants';
+import {
+  ICON_SIZE,
+  RADIUS,
+  SPACING,
+  TYPOGRAPHY,
+  useTheme,
+  withAlpha,
+} from '@/utils/theme';
+
+const CTA_TYPES = Object.keys(AD_CTA_LABELS) as CTAType[];
+
+const AdVariantsScreen = (): React.ReactElement => {
+  const insets = useSafeAreaInsets();
+  const { colors, statusBarStyle } = useTheme();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { auth } = useAuth();
+  const userId = auth?.user?.id;
+  // null until the advertiser changes something — until then the drafts follow the server
+  const [edited, setEdited] = useState<VariantDraft[] | null>(null);
+  const [mode, setMode] = useState<AdVariantMode | null>(null);
+  const [uploadingIndex, setUploadingIndex] = useState<number | null>(null);
+
+  const { data, isLoading, isError, error, refetch } = useAdCreativeTest(id);
+  const saveVariants = useSaveAdVariants();
+  const { mutateAsync: uploadAdMedia } = useUploadAdMediaToR2();
+
+  const header = (
+    <View style={[styles.header, { paddingTop: insets.top + SPACING.sm, borderBottomColor: colors.border }]}>
+      <TouchableOpacity
+        style={styles.backButton}
+        onPress={() => router.back()}
+        hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        accessibilityRole="button"
+        accessibilityLabel="Go back"
+      >
+        <ChevronLeft color={colors.text} size={ICON_SIZE.xl} />
+      </TouchableOpacity>
+      <FlaskConical color={colors.text} size={ICON_SIZE.lg} accessibilityElementsHidden />
+      <Text style={[styles.headerTitle, { color: colors.text }]} accessibilityRole="header" numberOfLines={1}>
+        {data?.mode ? 'Edit variants' : 'Set up a test'}
+      </Text>
+    </View>
+  );
+
+  if (isLoading) {
+    return (
+      <View
+        style={[styles.centered, { backgroundColor: colors.background }]}
+        accessibilityRole="progressbar"
+        accessibilityLabel="Loading creative test"
+      >
+        <StatusBar style={statusBarStyle} />
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  if (isError || !data) {
+    return (
+      <View style={[styles.container, { backgroundColor: colors.background }]} accessibilityRole="alert">
+        <StatusBar style={statusBarStyle} />
+        {header}
+        <View style={styles.centered}>
+          <X color={colors.error} size={48} accessibilityElementsHidden />
+          <Text style={[styles.message, { color: colors.textSecondary }]}>
+            {error instanceof Error ? error.message : 'Could not load this test.'}
+          </Text>
+          <PrimaryButton title="Retry" onPress={() => refetch()} />
+        </View>
+      </View>
+    );
+  }
+
+  const drafts = edited ?? variantDrafts(data);
+  const selectedMode = mode ?? data.mode ?? 'split';
+
+  const updateDraft = (index: number, changes: Partial<VariantDraft>) =>
+    setEdited(drafts.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)));
+
+  const pickMedia = async (index: number) => {
+    if (!userId) return;
+    const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (!permission.granted) {
+      Alert.alert('Permission needed', 'Media access is required to upload creatives.');
+      return;
+    }
+
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ImagePicker.MediaTypeOptions.All,
+      allowsEditing: true,
+      aspect: [16, 9],
+      quality: 0.85,
+    });
+    if (result.canceled || !result.assets.length) return;
+
+    const asset = result.assets[0];
+    const isVideo = asset.type === 'video' || asset.uri.toLowerCase().endsWith('.mp4');
+    setUploadingIndex(index);
+    try {
+      const upload = await uploadAdMedia({
+        mediaUri: asset.uri,
+        userId,
+        adId: id,
+        fileName: asset.fileName ?? asset.uri.split('/').pop() ?? undefined,
+        mimeType: asset.mimeType ?? (isVideo ? 'video/mp4' : 'image/jpeg'),
+      });
+      if (!upload.success) {
+        Alert.alert('Upload failed', upload.error || 'Please try again.');
+        return;
+      }
+      const { url, key } = upload.data;
+      updateDraft(index, isVideo
+        ? { videoUrl: url, r2VideoKey: key, imageUrl: null, r2ImageKey: null, thumbnailUrl: null, r2ThumbnailKey: null }
+        : { imageUrl: url, r2ImageKey: key, videoUrl: null, r2VideoKey: null, thumbnailUrl: null, r2ThumbnailKey: null });
+    } catch {
+      Alert.alert('Upload failed', 'Please try again.');
+    } finally {
+      setUploadingIndex(null);
+    }
+  };
+
+  const save = async (test: AdCreativeTest) => {
+    const problem = variantDraftsError(drafts);
+    if (problem) {
+      Alert.alert('Check your variants', problem);
+      return;
+    }
+    const submit = async () => {
+      try {
+        await saveVariants.mutateAsync({ adId: test.adId, mode: selectedMode, variants: drafts.map(draftCreative) });
+        router.back();
+      } catch (err) {
+        Alert.alert("Couldn't save", err instanceof Error ? err.message : 'Please try again.');
+      }
+    };
+    if (!draftsSendToReview(test, drafts)) {
+      await submit();
+      return;
+    }
+    Alert.alert(
+      'Send back for review?',
+      "New or edited variants are reviewed before they run. Your ad won't run until it's approved.",
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Save', onPress: submit },
+      ],
+    );
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <StatusBar style={statusBarStyle} />
+      {header}
+      <ScrollView
+        contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + SPACING.xl }]}
+        keyboardShouldPersistTaps="handled"
+      >
+        <Text style={[styles.note, { color: colors.textSecondary }]}>
+          Each viewer sees one of {VARIANT_MIN}–{VARIANT_MAX} versions of your ad. Change one thing at a time
+          to learn what works.
+        </Text>
+
+        <View style={styles.chips} accessibilityRole="tablist">
+          {VARIANT_MODE_OPTIONS.map((option) => {
+            const selected = option.value === selectedMode;
+            return (
+              <TouchableOpacity
+                key={option.value}
+                style={[
+                  styles.chip,
+                  { borderColor: selected ? colors.primary : colors.border },
+                  selected && { backgroundColor: withAlpha(colors.primary, 0.12) },
+                ]}
+                onPress={() => {
+                  if (selected) return;
+                  Haptics.selectionAsync();
+                  setMode(option.value);
+                }}
+                accessibilityRole="tab"
+                accessibilityState={{ selected }}
+              >
+                <Text style={[styles.chipText, { color: selected ? colors.primary : colors.textSecondary }]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+        <Text style={[styles.note, { color: colors.textMuted }]}>
+          {VARIANT_MODE_OPTIONS.find((option) => option.value === selectedMode)?.description}
+        </Text>
+
+        {drafts.map((draft, index) => {
+          const label = VARIANT_LABELS[index];
+          const preview = draft.imageUrl || draft.thumbnailUrl;
+          return (
+            <View
+              key={draft.id ?? `new-${index}`}
+              style={[styles.card, { backgroundColor: colors.card, borderColor: colors.border }]}
+            >
+              <View style={styles.cardHeader}>
+                <View style={[styles.badge, { backgroundColor: withAlpha(colors.primary, 0.12) }]}>
+                  <Text style={[styles.badgeText, { color: colors.primary }]}>{label}</Text>
+                </View>
+                <Text style={[styles.cardTitle, { color: colors.text }]}>Variant {label}</Text>
+                {drafts.length > VARIANT_MIN && (
+                  <TouchableOpacity
+                    onPress={() => setEdited(removeDraft(drafts, index))}
+                    hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Remove variant ${label}`}
+                  >
+                    <X color={colors.textMuted} size={ICON_SIZE.md} />
+                  </TouchableOpacity>
+                )}
+              </View>
+
+              <TouchableOpacity
+                style={[styles.media, { backgroundColor: colors.background, borderColor: colors.border }]}
+                onPress={() => pickMedia(index)}
+                disabled={uploadingIndex !== null}
+                accessibilityRole="button"
+                accessibilityLabel={`Change variant ${label}'s image or video`}
+              >
+                {draft.videoUrl && !preview ? (
+                  <VideoIcon color={colors.textMuted} size={ICON_SIZE.xl} />
+                ) : (
+                  <ExpoImage
+                    source={{ uri: preview || getPlaceholderImage() }}
+                    style={StyleSheet.absoluteFill}
+                    contentFit="cover"
+                    cachePolicy="memory-disk"
+                  />
+                )}
+                <View style={[styles.mediaAction, { backgroundColor: withAlpha(colors.background, 0.85) }]}>
+                  {uploadingIndex === index
+                    ? <ActivityIndicator size="small" color={colors.primary} />
+                    : <ImagePlus color={colors.text} size={ICON_SIZE.sm} />}
+                  <Text style={[styles.mediaActionText, { color: colors.text }]}>
+                    {draft.videoUrl ? 'Video' : 'Image'} · Change
+                  </Text>
+                </View>
+              </TouchableOpacity>
+
+              <FormInput
+                label="Headline"
+                value={draft.headline}
+                onChangeText={(text) => updateDraft(index, { headline: text })}
+                maxLength={MAX_VARIANT_HEADLINE_CHARS}
+                autoCapitalize="sentences"
+              />
+              <FormInput
+                label="Description (optional)"
+                value={draft.description}
+                onChangeText={(text) => updateDraft(index, { description: text })}
+                maxLength={MAX_VARIANT_DESCRIPTION_CHARS}
+                autoCapitalize="sentences"
+                multiline
+              />
+              <View style={[styles.chips, styles.wrap]}>
+                {CTA_TYPES.map((cta) => {
+                  const selected = cta === draft.callToAction;
+                  return (
+                    <TouchableOpacity
+                      key={cta}
+                      style={[
+                        styles.chip,
+                        { borderColor: selected ? colors.primary : colors.border },
+                        selected && { backgroundColor: withAlpha(colors.primary, 0.12) },
+                      ]}
+                      onPress={() => updateDraft(index, { callToAction: cta })}
+                      accessibilityRole="radio"
+                      accessibilityState={{ selected }}
+                    >
+                      <Text style={[styles.chipText, { color: selected ? colors.primary : colors.textSecondary }]}>
+                        {AD_CTA_LABELS[cta]}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+          );
+        })}
+
+        {drafts.length < VARIANT_MAX && (
+          <PrimaryButton
+            title="Add a variant"
+            variant="outline"
+            leftIcon={<Plus color={colors.primary} size={ICON_SIZE.md} />}
+            onPress={() => setEdited(addDraft(drafts))}
+          />
+        )}
+        <PrimaryButton
+          title={data.mode ? 'Save variants' : 'Start test'}
+          onPress={() => save(data)}
+          loading={saveVariants.isPending}
+          disabled={uploadingIndex !== null}
+        />
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: SPACING.md,
+    padding: SPACING.xl,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    paddingHorizontal: SPACING.md,
+    paddingBottom: SPACING.md,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    padding: SPACING.xs,
+  },
+  headerTitle: {
+    flex: 1,
+    fontFamily: TYPOGRAPHY.fontFamily.bold,
+    fontSize: TYPOGRAPHY.fontSize.lg,
+  },
+  content: {
+    padding: SPACING.md,
+    gap: SPACING.md,
+  },
+  message: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.base,
+    textAlign: 'center',
+  },
+  note: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  chips: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+  },
+  wrap: {
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+    borderWidth: 1,
+    borderRadius: RADIUS.full,
+  },
+  chipText: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  card: {
+    padding: SPACING.md,
+    borderWidth: 1,
+    borderRadius: RADIUS.md,
+    gap: SPACING.sm,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+  },
+  cardTitle: {
+    flex: 1,
+    fontFamily: TYPOGRAPHY.fontFamily.bold,
+    fontSize: TYPOGRAPHY.fontSize.base,
+  },
+  badge: {
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: 2,
+    borderRadius: RADIUS.full,
+  },
+  badgeText: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  media: {
+    aspectRatio: 16 / 9,
+    borderWidth: 1,
+    borderRadius: RADIUS.md,
+    overflow: 'hidden',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  mediaAction: {
+    position: 'absolute',
+    right: SPACING.sm,
+    bottom: SPACING.sm,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.xs,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xxs,
+    borderRadius: RADIUS.full,
+  },
+  mediaActionText: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+});
+
+export default AdVariantsScreen;
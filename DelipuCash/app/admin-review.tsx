@@ -0,0 +1,960 @@
+/**
+ * Review Console Screen
+ * Where admins and moderators approve ads and act on user reports
+ *
+ * Features:
+ * - Ads: pending ads oldest first, each with its creative preview and any
+ *   test variants; approve or reject one at a time or in bulk, with canned
+ *   rejection reasons
+ * - Reports: reported videos, comments, answers and surveys, most-reported
+ *   first; remove or dismiss one at a time or in bulk
+ * - Audit: who approved, rejected, removed or dismissed what
+ *
+ * Only ADMIN and MODERATOR users get past the gate; the server checks the
+ * role again on every call. Reached from "Review Console" in the profile.
+ */
+
+import React, { useCallback, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Modal,
+  Pressable,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { StatusBar } from 'expo-status-bar';
+import { router } from 'expo-router';
+import { Image as ExpoImage } from 'expo-image';
+import * as Haptics from '@/utils/haptics';
+import {
+  Check,
+  ChevronLeft,
+  Eye,
+  EyeOff,
+  Flag,
+  History,
+  Megaphone,
+  ShieldCheck,
+  Trash2,
+  X,
+} from 'lucide-react-native';
+import { Checkbox, FormInput, PrimaryButton } from '@/components';
+import { AdPreviewCard, type PreviewVariant } from '@/components/ads';
+import {
+  useApproveAd,
+  useAuditTrail,
+  useBulkReviewAds,
+  useModerationSummary,
+  usePendingAds,
+  useRejectAd,
+  useReportQueue,
+  useResolveReports,
+} from '@/services/moderationHooks';
+import { formatRelativeTime } from '@/services/api';
+import { useAuthStore } from '@/utils/auth/store';
+import { formatUGX } from '@/utils/adCampaigns';
+import {
+  AD_REJECTION_REASONS,
+  REPORT_TARGET_LABELS,
+  REPORT_TYPE_FILTERS,
+  auditEntryLabel,
+  isModerator,
+  openReportTotal,
+  queueItemKey,
+  rejectionReasonError,
+  reportReasonSummary,
+  reviewResultMessage,
+  toggleSelectAll,
+  toggleSelection,
+} from '@/utils/moderation';
+import type { PendingAd } from '@/services/adApi';
+import type {
+  Ad,
+  ModerationAuditEntry,
+  ModerationQueueItem,
+  ReportDecision,
+  ReportTargetType,
+} from '@/types';
+import {
+  ICON_SIZE,
+  RADIUS,
+  SPACING,
+  TYPOGRAPHY,
+  useTheme,
+  withAlpha,
+} from '@/utils/theme';
+
+type ConsoleTab = 'ads' | 'reports' | 'audit';
+
+const THUMBNAIL_SIZE = 56;
+
+const previewVariant = (ad: Ad): PreviewVariant => {
+  if (ad.videoUrl || ad.type === 'video') return 'video';
+  if (ad.type === 'banner') return 'banner';
+  return 'native';
+};
+
+/** A pending ad as one of its creative-test variants shows it */
+const asVariant = (ad: PendingAd, variant: NonNullable<PendingAd['variants']>[number]): Ad => ({
+  ...ad,
+  headline: variant.headline,
+  description: variant.description ?? '',
+  imageUrl: variant.imageUrl,
+  videoUrl: variant.videoUrl,
+  thumbnailUrl: variant.thumbnailUrl,
+  callToAction: variant.callToAction,
+});
+
+const errorText = (error: unknown, fallback: string) => (error instanceof Error ? error.message : fallback);
+
+// ============================================================================
+// SHARED
+// ============================================================================
+
+const LoadingState = ({ label }: { label: string }) => {
+  const { colors } = useTheme();
+  return (
+    <View style={styles.centered} accessibilityRole="progressbar" accessibilityLabel={label}>
+      <ActivityIndicator size="large" color={colors.primary} />
+    </View>
+  );
+};
+
+const ErrorState = ({ message, onRetry }: { message: string; onRetry: () => void }) => {
+  const { colors } = useTheme();
+  return (
+    <View style={styles.centered} accessibilityRole="alert">
+      <X color={colors.error} size={48} accessibilityElementsHidden />
+      <Text style={[styles.message, { color: colors.textSecondary }]}>{message}</Text>
+      <PrimaryButton title="Retry" onPress={onRetry} />
+    </View>
+  );
+};
+
+/** The action bar pinned under a list while items are selected */
+const BulkBar = ({
+  count,
+  primary,
+  secondary,
+}: {
+  count: number;
+  primary: { title: string; onPress: () => void; loading?: boolean };
+  secondary: { title: string; onPress: () => void; loading?: boolean };
+}) => {
+  const { colors } = useTheme();
+  const insets = useSafeAreaInsets();
+  if (count === 0) return null;
+  return (
+    <View
+      style={[
+        styles.bulkBar,
+        { backgroundColor: colors.card, borderTopColor: colors.border, paddingBottom: insets.bottom + SPACING.sm },
+      ]}
+    >
+      <Text style={[styles.meta, { color: colors.textSecondary }]}>{count} selected</Text>
+      <View style={styles.bulkActions}>
+        <PrimaryButton title={secondary.title} variant="outline" size="small" onPress={secondary.onPress} loading={secondary.loading} />
+        <PrimaryButton title={primary.title} size="small" onPress={primary.onPress} loading={primary.loading} />
+      </View>
+    </View>
+  );
+};
+
+// ============================================================================
+// ADS
+// ============================================================================
+
+/** Canned reasons plus a free-text one; the advertiser sees whichever is sent */
+const RejectReasonModal = ({
+  count,
+  loading,
+  onCancel,
+  onReject,
+}: {
+  count: number | null;
+  loading: boolean;
+  onCancel: () => void;
+  onReject: (reason: string) => void;
+}) => {
+  const { colors } = useTheme();
+  const insets = useSafeAreaInsets();
+  const [reason, setReason] = useState('');
+  const [touched, setTouched] = useState(false);
+  const error = rejectionReasonError(reason);
+
+  const close = () => {
+    setReason('');
+    setTouched(false);
+    onCancel();
+  };
+
+  const submit = () => {
+    setTouched(true);
+    if (error) return;
+    onReject(reason.trim());
+    setReason('');
+    setTouched(false);
+  };
+
+  return (
+    <Modal visible={count !== null} transparent animationType="slide" onRequestClose={close}>
+      <Pressable style={styles.backdrop} onPress={close} accessibilityLabel="Cancel rejection" />
+      <View
+        style={[
+          styles.sheet,
+          { backgroundColor: colors.card, borderColor: colors.border, paddingBottom: insets.bottom + SPACING.lg },
+        ]}
+        accessibilityViewIsModal
+      >
+        <Text style={[styles.sheetTitle, { color: colors.text }]}>
+          Reject {count === 1 ? 'this ad' : `${count ?? 0} ads`}
+        </Text>
+        <Text style={[styles.meta, { color: colors.textMuted }]}>The advertiser sees this reason.</Text>
+        <View style={styles.chips}>
+          {AD_REJECTION_REASONS.map((option) => {
+            const selected = option === reason;
+            return (
+              <TouchableOpacity
+                key={option}
+                style={[
+                  styles.chip,
+                  { borderColor: selected ? colors.primary : colors.border },
+                  selected && { backgroundColor: withAlpha(colors.primary, 0.12) },
+                ]}
+                onPress={() => setReason(option)}
+                accessibilityRole="radio"
+                accessibilityState={{ checked: selected }}
+              >
+                <Text style={[styles.chipText, { color: selected ? colors.primary : colors.textSecondary }]}>{option}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+        <FormInput
+          label="Reason"
+          value={reason}
+          onChangeText={setReason}
+          error={error}
+          touched={touched}
+          multiline
+        />
+        <PrimaryButton title="Reject" onPress={submit} loading={loading} />
+      </View>
+    </Modal>
+  );
+};
+
+const AdQueue = () => {
+  const { colors } = useTheme();
+  const { data, isLoading, isError, error, refetch, isRefetching, hasNextPage, fetchNextPage, isFetchingNextPage } =
+    usePendingAds();
+  const approveAd = useApproveAd();
+  const rejectAd = useRejectAd();
+  const bulkReview = useBulkReviewAds();
+  const [selected, setSelected] = useState<string[]>([]);
+  const [previewId, setPreviewId] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<string[] | null>(null);
+
+  const ads = useMemo(() => data?.pages.flatMap((page) => page.data) ?? [], [data]);
+  const total = data?.pages[0]?.pagination.total ?? 0;
+
+  const onFailed = (error: Error) => Alert.alert('Review failed', error.message);
+
+  const handleApprove = (adIds: string[]) => {
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    if (adIds.length === 1) {
+      approveAd.mutate(adIds[0], { onError: onFailed });
+      return;
+    }
+    bulkReview.mutate(
+      { adIds, action: 'approve' },
+      {
+        onSuccess: (result) => {
+          setSelected([]);
+          Alert.alert('Ads reviewed', reviewResultMessage('approve', result.reviewed.length, result.skipped, 'ad'));
+        },
+        onError: onFailed,
+      },
+    );
+  };
+
+  const handleReject = (reason: string) => {
+    const adIds = rejecting ?? [];
+    const done = () => setRejecting(null);
+    if (adIds.length === 1) {
+      rejectAd.mutate({ adId: adIds[0], reason }, { onSuccess: done, onError: onFailed });
+      return;
+    }
+    bulkReview.mutate(
+      { adIds, action: 'reject', reason },
+      {
+        onSuccess: (result) => {
+          done();
+          setSelected([]);
+          Alert.alert('Ads reviewed', reviewResultMessage('reject', result.reviewed.length, result.skipped, 'ad'));
+        },
+        onError: onFailed,
+      },
+    );
+  };
+
+  if (isLoading) return <LoadingState label="Loading pending ads" />;
+  if (isError) return <ErrorState message={errorText(error, 'Could not load pending ads.')} onRetry={refetch} />;
+
+  const renderAd = ({ item }: { item: PendingAd }) => {
+    const isSelected = selected.includes(item.id);
+    const showPreview = previewId === item.id;
+    const advertiser = item.user ? `${item.user.firstName} ${item.user.lastName}`.trim() : null;
+    return (
+      <View style={[styles.card, { backgroundColor: colors.card, borderColor: isSelected ? colors.primary : colors.border }]}>
+        <View style={styles.cardRow}>
+          <Checkbox
+            checked={isSelected}
+            onPress={() => setSelected((current) => toggleSelection(current, item.id))}
+            testID={`select-ad-${item.id}`}
+          />
+          <View style={styles.cardBody}>
+            <Text style={[styles.title, { color: colors.text }]} numberOfLines={2}>{item.title}</Text>
+            <Text style={[styles.meta, { color: colors.textSecondary }]}>
+              {advertiser ? `${advertiser} · ` : ''}{item.type} · {item.pricingModel.toUpperCase()} · {formatUGX(item.totalBudget)} budget
+            </Text>
+            <Text style={[styles.meta, { color: colors.textMuted }]}>Submitted {formatRelativeTime(item.createdAt)}</Text>
+            {!!item.targetUrl && (
+              <Text style={[styles.meta, { color: colors.primary }]} numberOfLines={1}>{item.targetUrl}</Text>
+            )}
+          </View>
+          <TouchableOpacity
+            onPress={() => setPreviewId(showPreview ? null : item.id)}
+            accessibilityRole="button"
+            accessibilityLabel={showPreview ? 'Hide preview' : 'Show preview'}
+            hitSlop={8}
+          >
+            {showPreview
+              ? <EyeOff color={colors.textMuted} size={ICON_SIZE.md} />
+              : <Eye color={colors.primary} size={ICON_SIZE.md} />}
+          </TouchableOpacity>
+        </View>
+
+        {showPreview && (
+          <AdPreviewCard
+            ad={item}
+            variant={previewVariant(item)}
+            showDeviceFrame={false}
+            showVariantTabs={false}
+            scale={0.85}
+          />
+        )}
+        {showPreview && item.variants?.map((testVariant) => {
+          const shown = asVariant(item, testVariant);
+          return (
+            <View key={testVariant.id} style={styles.variantPreview}>
+              <Text style={[styles.meta, { color: colors.textSecondary }]}>Test variant {testVariant.label}</Text>
+              <AdPreviewCard
+                ad={shown}
+                variant={previewVariant(shown)}
+                showDeviceFrame={false}
+                showVariantTabs={false}
+                scale={0.85}
+              />
+            </View>
+          );
+        })}
+
+        <View style={styles.cardActions}>
+          <PrimaryButton
+            title="Reject"
+            variant="outline"
+            size="small"
+            onPress={() => setRejecting([item.id])}
+            leftIcon={<X color={colors.error} size={ICON_SIZE.sm} />}
+          />
+          <PrimaryButton
+            title="Approve"
+            size="small"
+            onPress={() => handleApprove([item.id])}
+            loading={approveAd.isPending && approveAd.variables === item.id}
+            leftIcon={<Check color={colors.primaryText} size={ICON_SIZE.sm} />}
+          />
+        </View>
+      </View>
+    );
+  };
+
+  const allKeys = ads.map((ad) => ad.id);
+  const listHeader = ads.length > 0 && (
+    <View style={styles.listHeader}>
+      <Text style={[styles.meta, { color: colors.textSecondary }]}>{total} waiting for review · oldest first</Text>
+      <TouchableOpacity onPress={() => setSelected((current) => toggleSelectAll(current, allKeys))} accessibilityRole="button">
+        <Text style={[styles.link, { color: colors.primary }]}>
+          {allKeys.length > 0 && allKeys.every((id) => selected.includes(id)) ? 'Clear' : 'Select all'}
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={ads}
+        keyExtractor={(item) => item.id}
+        renderItem={renderAd}
+        extraData={[selected, previewId, approveAd.variables]}
+        ListHeaderComponent={listHeader || null}
+        ListEmptyComponent={
+          <View style={styles.empty}>
+            <ShieldCheck color={colors.success} size={48} accessibilityElementsHidden />
+            <Text style={[styles.message, { color: colors.textMuted }]}>No ads are waiting for review.</Text>
+          </View>
+        }
+        ListFooterComponent={isFetchingNextPage ? <ActivityIndicator color={colors.primary} /> : null}
+        onEndReached={() => hasNextPage && !isFetchingNextPage && fetchNextPage()}
+        onEndReachedThreshold={0.5}
+        contentContainerStyle={styles.content}
+        refreshControl={<RefreshControl refreshing={isRefetching} onRefresh={refetch} tintColor={colors.primary} />}
+      />
+      <BulkBar
+        count={selected.length}
+        secondary={{ title: 'Reject', onPress: () => setRejecting(selected) }}
+        primary={{
+          title: 'Approve',
+          onPress: () => handleApprove(selected),
+          loading: bulkReview.isPending && bulkReview.variables?.action === 'approve',
+        }}
+      />
+      <RejectReasonModal
+        count={rejecting?.length ?? null}
+        loading={rejectAd.isPending || bulkReview.isPending}
+        onCancel={() => setRejecting(null)}
+        onReject={handleReject}
+      />
+    </View>
+  );
+};
+
+// ============================================================================
+// REPORTS
+// ============================================================================
+
+const ReportQueue = ({ counts }: { counts?: Record<ReportTargetType, number> }) => {
+  const { colors } = useTheme();
+  const [type, setType] = useState<ReportTargetType | undefined>(undefined);
+  const { data, isLoading, isError, error, refetch, isRefetching, hasNextPage, fetchNextPage, isFetchingNextPage } =
+    useReportQueue(type);
+  const resolve = useResolveReports();
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const items = useMemo(() => data?.pages.flatMap((page) => page.items) ?? [], [data]);
+
+  const handleFilter = (next: ReportTargetType | undefined) => {
+    if (next === type) return;
+    Haptics.selectionAsync();
+    setType(next);
+    setSelected([]);
+  };
+
+  const handleResolve = useCallback((keys: string[], decision: ReportDecision) => {
+    const targets = items
+      .filter((item) => keys.includes(queueItemKey(item)))
+      .map(({ targetType, targetId }) => ({ targetType, targetId }));
+    const run = () =>
+      resolve.mutate(
+        { targets, decision },
+        {
+          onSuccess: (result) => {
+            setSelected((current) => current.filter((key) => !keys.includes(key)));
+            if (targets.length > 1 || result.skipped.length > 0) {
+              Alert.alert('Reports resolved', reviewResultMessage(decision, result.resolved.length, result.skipped, 'item'));
+            }
+          },
+          onError: (error) => Alert.alert('Review failed', error.message),
+        },
+      );
+
+    if (decision === 'dismiss') {
+      run();
+      return;
+    }
+    Alert.alert(
+      targets.length === 1 ? 'Remove this item?' : `Remove ${targets.length} items?`,
+      'Comments are hidden, videos and answers are deleted, and surveys are ended.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Remove', style: 'destructive', onPress: run },
+      ],
+    );
+  }, [items, resolve]);
+
+  const filters = (
+    <View style={styles.chips} accessibilityRole="tablist">
+      {REPORT_TYPE_FILTERS.map((option) => {
+        const selectedFilter = option.value === type;
+        const count = option.value && counts ? counts[option.value] : undefined;
+        return (
+          <TouchableOpacity
+            key={option.label}
+            style={[
+              styles.chip,
+              { borderColor: selectedFilter ? colors.primary : colors.border },
+              selectedFilter && { backgroundColor: withAlpha(colors.primary, 0.12) },
+            ]}
+            onPress={() => handleFilter(option.value)}
+            accessibilityRole="tab"
+            accessibilityState={{ selected: selectedFilter }}
+          >
+            <Text style={[styles.chipText, { color: selectedFilter ? colors.primary : colors.textSecondary }]}>
+              {option.label}{count ? ` · ${count}` : ''}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  const renderItem = ({ item }: { item: ModerationQueueItem }) => {
+    const key = queueItemKey(item);
+    const isSelected = selected.includes(key);
+    const { preview } = item;
+    const busy = resolve.isPending && resolve.variables?.targets.some((target) => queueItemKey(target) === key);
+    return (
+      <View style={[styles.card, { backgroundColor: colors.card, borderColor: isSelected ? colors.primary : colors.border }]}>
+        <View style={styles.cardRow}>
+          <Checkbox checked={isSelected} onPress={() => setSelected((current) => toggleSelection(current, key))} />
+          {!!preview?.thumbnailUrl && (
+            <ExpoImage
+              source={{ uri: preview.thumbnailUrl }}
+              style={[styles.thumbnail, { backgroundColor: colors.background }]}
+              contentFit="cover"
+              recyclingKey={key}
+            />
+          )}
+          <View style={styles.cardBody}>
+            <View style={[styles.badge, { backgroundColor: withAlpha(colors.error, 0.12) }]}>
+              <Text style={[styles.badgeText, { color: colors.error }]}>{REPORT_TARGET_LABELS[item.targetType]}</Text>
+            </View>
+            <Text style={[styles.title, { color: colors.text }]} numberOfLines={2}>
+              {preview?.title ?? 'Already deleted'}
+            </Text>
+            {!!preview?.author.name && (
+              <Text style={[styles.meta, { color: colors.textSecondary }]}>by {preview.author.name}</Text>
+            )}
+          </View>
+        </View>
+
+        {!!preview?.body && (
+          <Text style={[styles.body, { color: colors.text }]} numberOfLines={4}>{preview.body}</Text>
+        )}
+        <Text style={[styles.meta, { color: colors.error }]}>{reportReasonSummary(item)}</Text>
+        {item.details.map((detail, index) => (
+          <Text key={index} style={[styles.meta, { color: colors.textSecondary }]} numberOfLines={2}>
+            “{detail}”
+          </Text>
+        ))}
+        <Text style={[styles.meta, { color: colors.textMuted }]}>
+          First reported {formatRelativeTime(item.firstReportedAt)}
+          {preview?.removed ? ' · already taken down' : ''}
+        </Text>
+
+        <View style={styles.cardActions}>
+          <PrimaryButton
+            title="Dismiss"
+            variant="outline"
+            size="small"
+            onPress={() => handleResolve([key], 'dismiss')}
+            loading={busy && resolve.variables?.decision === 'dismiss'}
+          />
+          <PrimaryButton
+            title="Remove"
+            size="small"
+            onPress={() => handleResolve([key], 'remove')}
+            loading={busy && resolve.variables?.decision === 'remove'}
+            leftIcon={<Trash2 color={colors.primaryText} size={ICON_SIZE.sm} />}
+          />
+        </View>
+      </View>
+    );
+  };
+
+  const allKeys = items.map(queueItemKey);
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={isLoading || isError ? [] : items}
+        keyExtractor={queueItemKey}
+        renderItem={renderItem}
+        extraData={[selected, resolve.variables]}
+        ListHeaderComponent={
+          <View style={styles.listGap}>
+            {filters}
+            {items.length > 0 && (
+              <View style={styles.listHeader}>
+                <Text style={[styles.meta, { color: colors.textSecondary }]}>Most reported first</Text>
+                <TouchableOpacity onPress={() => setSelected((current) => toggleSelectAll(current, allKeys))} accessibilityRole="button">
+                  <Text style={[styles.link, { color: colors.primary }]}>
+                    {allKeys.every((key) => selected.includes(key)) ? 'Clear' : 'Select all'}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+        }
+        ListEmptyComponent={
+          isLoading ? <LoadingState label="Loading reports" />
+            : isError ? <ErrorState message={errorText(error, 'Could not load reports.')} onRetry={refetch} />
+            : (
+              <View style={styles.empty}>
+                <ShieldCheck color={colors.success} size={48} accessibilityElementsHidden />
+                <Text style={[styles.message, { color: colors.textMuted }]}>Nothing reported right now.</Text>
+              </View>
+            )
+        }
+        ListFooterComponent={isFetchingNextPage ? <ActivityIndicator color={colors.primary} /> : null}
+        onEndReached={() => hasNextPage && !isFetchingNextPage && fetchNextPage()}
+        onEndReachedThreshold={0.5}
+        contentContainerStyle={styles.content}
+        refreshControl={<RefreshControl refreshing={isRefetching} onRefresh={refetch} tintColor={colors.primary} />}
+      />
+      <BulkBar
+        count={selected.length}
+        secondary={{
+          title: 'Dismiss',
+          onPress: () => handleResolve(selected, 'dismiss'),
+          loading: resolve.isPending && resolve.variables?.decision === 'dismiss',
+        }}
+        primary={{
+          title: 'Remove',
+          onPress: () => handleResolve(selected, 'remove'),
+          loading: resolve.isPending && resolve.variables?.decision === 'remove',
+        }}
+      />
+    </View>
+  );
+};
+
+// ============================================================================
+// AUDIT
+// ============================================================================
+
+const AuditTrail = () => {
+  const { colors } = useTheme();
+  const { data, isLoading, isError, error, refetch, isRefetching, hasNextPage, fetchNextPage, isFetchingNextPage } =
+    useAuditTrail();
+  const entries = useMemo(() => data?.pages.flatMap((page) => page.entries) ?? [], [data]);
+
+  if (isLoading) return <LoadingState label="Loading audit trail" />;
+  if (isError) return <ErrorState message={errorText(error, 'Could not load the audit trail.')} onRetry={refetch} />;
+
+  const tone = (entry: ModerationAuditEntry) =>
+    entry.action === 'approved' ? colors.success : entry.action === 'dismissed' ? colors.textMuted : colors.error;
+
+  const renderEntry = ({ item }: { item: ModerationAuditEntry }) => (
+    <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.border }]}>
+      <Text style={[styles.title, { color: tone(item) }]}>{auditEntryLabel(item)}</Text>
+      {!!item.targetLabel && (
+        <Text style={[styles.body, { color: colors.text }]} numberOfLines={2}>“{item.targetLabel}”</Text>
+      )}
+      {!!item.reason && (
+        <Text style={[styles.meta, { color: colors.textSecondary }]}>Reason: {item.reason}</Text>
+      )}
+      <Text style={[styles.meta, { color: colors.textMuted }]}>
+        {formatRelativeTime(item.createdAt)}{item.actor.role ? ` · ${item.actor.role.toLowerCase()}` : ''}
+      </Text>
+    </View>
+  );
+
+  return (
+    <FlatList
+      data={entries}
+      keyExtractor={(item) => item.id}
+      renderItem={renderEntry}
+      ListEmptyComponent={
+        <View style={styles.empty}>
+          <History color={colors.textMuted} size={48} accessibilityElementsHidden />
+          <Text style={[styles.message, { color: colors.textMuted }]}>No review decisions yet.</Text>
+        </View>
+      }
+      ListFooterComponent={isFetchingNextPage ? <ActivityIndicator color={colors.primary} /> : null}
+      onEndReached={() => hasNextPage && !isFetchingNextPage && fetchNextPage()}
+      onEndReachedThreshold={0.5}
+      contentContainerStyle={styles.content}
+      refreshControl={<RefreshControl refreshing={isRefetching} onRefresh={refetch} tintColor={colors.primary} />}
+    />
+  );
+};
+
+// ============================================================================
+// SCREEN
+// ============================================================================
+
+const AdminReviewScreen = (): React.ReactElement => {
+  const insets = useSafeAreaInsets();
+  const { colors, statusBarStyle } = useTheme();
+  const role = useAuthStore((s) => s.auth?.user?.role);
+  const allowed = isModerator(role);
+  const [tab, setTab] = useState<ConsoleTab>('ads');
+  const { data: summary } = useModerationSummary(allowed);
+
+  const tabs: { value: ConsoleTab; label: string; icon: typeof Megaphone; count?: number }[] = [
+    { value: 'ads', label: 'Ads', icon: Megaphone, count: summary?.pendingAds },
+    { value: 'reports', label: 'Reports', icon: Flag, count: openReportTotal(summary) },
+    { value: 'audit', label: 'Audit', icon: History },
+  ];
+
+  const header = (
+    <View style={[styles.header, { paddingTop: insets.top + SPACING.sm, borderBottomColor: colors.border }]}>
+      <TouchableOpacity
+        style={styles.backButton}
+        onPress={() => router.back()}
+        hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        accessibilityRole="button"
+        accessibilityLabel="Go back"
+      >
+        <ChevronLeft color={colors.text} size={ICON_SIZE.xl} />
+      </TouchableOpacity>
+      <ShieldCheck color={colors.text} size={ICON_SIZE.lg} accessibilityElementsHidden />
+      <Text style={[styles.headerTitle, { color: colors.text }]} accessibilityRole="header">
+        Review console
+      </Text>
+    </View>
+  );
+
+  if (!allowed) {
+    return (
+      <View style={[styles.container, { backgroundColor: colors.background }]}>
+        <StatusBar style={statusBarStyle} />
+        {header}
+        <View style={styles.centered}>
+          <ShieldCheck color={colors.textMuted} size={48} accessibilityElementsHidden />
+          <Text style={[styles.message, { color: colors.textSecondary }]}>
+            The review console is for admins and moderators.
+          </Text>
+          <PrimaryButton title="Go back" variant="outline" onPress={() => router.back()} />
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <StatusBar style={statusBarStyle} />
+      {header}
+      <View style={[styles.tabs, { borderBottomColor: colors.border }]} accessibilityRole="tablist">
+        {tabs.map(({ value, label, icon: Icon, count }) => {
+          const selected = value === tab;
+          const color = selected ? colors.primary : colors.textSecondary;
+          return (
+            <TouchableOpacity
+              key={value}
+              style={[styles.tab, selected && { borderBottomColor: colors.primary }]}
+              onPress={() => {
+                if (selected) return;
+                Haptics.selectionAsync();
+                setTab(value);
+              }}
+              accessibilityRole="tab"
+              accessibilityState={{ selected }}
+              accessibilityLabel={count ? `${label}, ${count} waiting` : label}
+            >
+              <Icon color={color} size={ICON_SIZE.sm} />
+              <Text style={[styles.tabText, { color }]}>{label}</Text>
+              {!!count && (
+                <View style={[styles.countBadge, { backgroundColor: colors.error }]}>
+                  <Text style={[styles.countText, { color: colors.primaryText }]}>{count > 99 ? '99+' : count}</Text>
+                </View>
+              )}
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {tab === 'ads' && <AdQueue />}
+      {tab === 'reports' && <ReportQueue counts={summary?.openReports} />}
+      {tab === 'audit' && <AuditTrail />}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: SPACING.md,
+    padding: SPACING.xl,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    paddingHorizontal: SPACING.md,
+    paddingBottom: SPACING.md,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    padding: SPACING.xs,
+  },
+  headerTitle: {
+    flex: 1,
+    fontFamily: TYPOGRAPHY.fontFamily.bold,
+    fontSize: TYPOGRAPHY.fontSize.lg,
+  },
+  tabs: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+  },
+  tab: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: SPACING.xs,
+    paddingVertical: SPACING.sm,
+    borderBottomWidth: 2,
+    borderBottomColor: 'transparent',
+  },
+  tabText: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.base,
+  },
+  countBadge: {
+    minWidth: 18,
+    paddingHorizontal: SPACING.xs,
+    borderRadius: RADIUS.full,
+    alignItems: 'center',
+  },
+  countText: {
+    fontFamily: TYPOGRAPHY.fontFamily.bold,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  content: {
+    padding: SPACING.md,
+    gap: SPACING.md,
+  },
+  listGap: {
+    gap: SPACING.md,
+  },
+  listHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  link: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  message: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.base,
+    textAlign: 'center',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.sm,
+  },
+  chip: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+    borderWidth: 1,
+    borderRadius: RADIUS.full,
+  },
+  chipText: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  card: {
+    padding: SPACING.md,
+    borderWidth: 1,
+    borderRadius: RADIUS.md,
+    gap: SPACING.xs,
+  },
+  cardRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: SPACING.md,
+  },
+  cardBody: {
+    flex: 1,
+    gap: SPACING.xxs,
+  },
+  cardActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: SPACING.sm,
+    marginTop: SPACING.xs,
+  },
+  thumbnail: {
+    width: THUMBNAIL_SIZE,
+    height: THUMBNAIL_SIZE,
+    borderRadius: RADIUS.md,
+  },
+  title: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.base,
+  },
+  body: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.base,
+  },
+  badge: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: 2,
+    borderRadius: RADIUS.full,
+  },
+  badgeText: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+    textTransform: 'capitalize',
+  },
+  meta: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  variantPreview: {
+    gap: SPACING.xs,
+  },
+  empty: {
+    alignItems: 'center',
+    gap: SPACING.md,
+    paddingVertical: SPACING.xl,
+  },
+  bulkBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: SPACING.md,
+    paddingTop: SPACING.sm,
+    borderTopWidth: 1,
+  },
+  bulkActions: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+  },
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.4)',
+  },
+  sheet: {
+    borderTopLeftRadius: RADIUS.xl,
+    borderTopRightRadius: RADIUS.xl,
+    borderWidth: 1,
+    padding: SPACING.lg,
+    gap: SPACING.md,
+  },
+  sheetTitle: {
+    fontFamily: TYPOGRAPHY.fontFamily.bold,
+    fontSize: TYPOGRAPHY.fontSize.lg,
+  },
+});
+
+export default AdminReviewScreen;
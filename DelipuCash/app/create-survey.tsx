@@ -203,6 +203,9 @@ const CreateSurveyScreen: React.FC = () => {
       if (c.title) builderActions.setSurveyTitle(c.title);
       if (c.description) builderActions.setSurveyDescription(c.description);
       builderActions.loadQuestions(c.questions);
+      for (const language of c.languages ?? []) {
+        useSurveyBuilderStore.getState().addSurveyLanguage(language);
+      }
       setActiveTab('build');
     };
 
@@ -0,0 +1,285 @@
+/**
+ * Creator Profile Screen
+ * A creator's channel: who they are, their playlists and series, and their videos
+ *
+ * Features:
+ * - Name, avatar and follower counts, with a follow button for other viewers
+ * - The creator's playlist shelf (PlaylistShelf) — with a "New" card on your own
+ * - Every video they have posted, newest first; tap to play
+ *
+ * Reached by tapping a creator's avatar in the video feed.
+ */
+
+import React from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { StatusBar } from 'expo-status-bar';
+import { router, useLocalSearchParams, type Href } from 'expo-router';
+import { Image as ExpoImage } from 'expo-image';
+import * as Haptics from '@/utils/haptics';
+import { ChevronLeft, User, Video as VideoIcon, X } from 'lucide-react-native';
+import { PrimaryButton } from '@/components';
+import { FollowButton, PlaylistShelf } from '@/components/video';
+import { useFollowCounts, useUserVideos } from '@/services/videoHooks';
+import { useAuthStore } from '@/utils/auth/store';
+import type { Video } from '@/types';
+import { formatCount } from '@/utils/video-utils';
+import { getPlaceholderImage } from '@/utils/thumbnail-utils';
+import {
+  ICON_SIZE,
+  RADIUS,
+  SPACING,
+  TYPOGRAPHY,
+  useTheme,
+} from '@/utils/theme';
+
+const GRID_COLUMNS = 3;
+const AVATAR_SIZE = 72;
+
+const CreatorProfileScreen = (): React.ReactElement => {
+  const insets = useSafeAreaInsets();
+  const { colors, statusBarStyle } = useTheme();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const viewerId = useAuthStore((s) => s.auth?.user?.id);
+  const isOwn = viewerId === id;
+
+  const { data: videos, isLoading, isError, error, refetch, isRefetching } = useUserVideos(id);
+  const { data: counts } = useFollowCounts(id);
+  const creator = videos?.[0]?.user;
+  const name = `${creator?.firstName ?? ''} ${creator?.lastName ?? ''}`.trim() || 'Creator';
+
+  const handlePlay = (video: Video) => {
+    Haptics.selectionAsync();
+    router.push(`/video/${video.id}` as Href);
+  };
+
+  const header = (
+    <View style={[styles.header, { paddingTop: insets.top + SPACING.sm, borderBottomColor: colors.border }]}>
+      <TouchableOpacity
+        style={styles.backButton}
+        onPress={() => router.back()}
+        hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        accessibilityRole="button"
+        accessibilityLabel="Go back"
+      >
+        <ChevronLeft color={colors.text} size={ICON_SIZE.xl} />
+      </TouchableOpacity>
+      <User color={colors.text} size={ICON_SIZE.lg} accessibilityElementsHidden />
+      <Text style={[styles.headerTitle, { color: colors.text }]} accessibilityRole="header" numberOfLines={1}>
+        {name}
+      </Text>
+    </View>
+  );
+
+  if (isLoading) {
+    return (
+      <View
+        style={[styles.centered, { backgroundColor: colors.background }]}
+        accessibilityRole="progressbar"
+        accessibilityLabel="Loading creator"
+      >
+        <StatusBar style={statusBarStyle} />
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  if (isError) {
+    return (
+      <View style={[styles.container, { backgroundColor: colors.background }]} accessibilityRole="alert">
+        <StatusBar style={statusBarStyle} />
+        {header}
+        <View style={styles.centered}>
+          <X color={colors.error} size={48} accessibilityElementsHidden />
+          <Text style={[styles.message, { color: colors.textSecondary }]}>
+            {error instanceof Error ? error.message : 'Could not load this creator.'}
+          </Text>
+          <PrimaryButton title="Retry" onPress={() => refetch()} />
+        </View>
+      </View>
+    );
+  }
+
+  const profile = (
+    <View style={styles.profile}>
+      <View style={styles.identity}>
+        {creator?.avatar ? (
+          <ExpoImage
+            source={{ uri: creator.avatar }}
+            style={[styles.avatar, { backgroundColor: colors.card }]}
+            contentFit="cover"
+            accessibilityIgnoresInvertColors
+          />
+        ) : (
+          <View style={[styles.avatar, styles.avatarFallback, { backgroundColor: colors.card }]}>
+            <User color={colors.textMuted} size={ICON_SIZE.xl} />
+          </View>
+        )}
+        <View style={styles.identityBody}>
+          <Text style={[styles.name, { color: colors.text }]} numberOfLines={1}>{name}</Text>
+          <Text style={[styles.stats, { color: colors.textSecondary }]}>
+            {formatCount(counts?.followersCount ?? 0)} followers · {formatCount(videos?.length ?? 0)} videos
+          </Text>
+          {!isOwn && id && <FollowButton creatorId={id} creatorName={creator?.firstName} size="sm" />}
+        </View>
+      </View>
+      {id && <PlaylistShelf userId={id} isOwner={isOwn} />}
+      <Text style={[styles.sectionTitle, { color: colors.text }]} accessibilityRole="header">
+        Videos
+      </Text>
+    </View>
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <StatusBar style={statusBarStyle} />
+      {header}
+      <FlatList
+        data={videos ?? []}
+        keyExtractor={(item) => item.id}
+        numColumns={GRID_COLUMNS}
+        renderItem={({ item }) => (
+          <TouchableOpacity
+            style={[styles.tile, { backgroundColor: colors.card }]}
+            onPress={() => handlePlay(item)}
+            accessibilityRole="button"
+            accessibilityLabel={item.title || 'Untitled video'}
+            accessibilityHint="Plays the video"
+          >
+            <ExpoImage
+              source={{ uri: item.thumbnail || getPlaceholderImage('video') }}
+              style={StyleSheet.absoluteFill}
+              contentFit="cover"
+              cachePolicy="memory-disk"
+              recyclingKey={item.id}
+            />
+            <Text style={styles.tileViews}>{formatCount(item.views || 0)}</Text>
+          </TouchableOpacity>
+        )}
+        ListHeaderComponent={profile}
+        ListEmptyComponent={
+          <View style={styles.empty}>
+            <VideoIcon color={colors.textMuted} size={48} accessibilityElementsHidden />
+            <Text style={[styles.message, { color: colors.textSecondary }]}>No videos yet.</Text>
+          </View>
+        }
+        columnWrapperStyle={styles.gridRow}
+        refreshControl={<RefreshControl refreshing={isRefetching} onRefresh={refetch} tintColor={colors.primary} />}
+        contentContainerStyle={[styles.list, { paddingBottom: insets.bottom + SPACING.xl }]}
+        initialNumToRender={12}
+        windowSize={7}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: SPACING.md,
+    padding: SPACING.xl,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    paddingHorizontal: SPACING.md,
+    paddingBottom: SPACING.md,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    padding: SPACING.xs,
+  },
+  headerTitle: {
+    flex: 1,
+    fontFamily: TYPOGRAPHY.fontFamily.bold,
+    fontSize: TYPOGRAPHY.fontSize.lg,
+  },
+  list: {
+    paddingHorizontal: SPACING.md,
+    flexGrow: 1,
+  },
+  profile: {
+    gap: SPACING.lg,
+    paddingVertical: SPACING.lg,
+  },
+  identity: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.md,
+  },
+  avatar: {
+    width: AVATAR_SIZE,
+    height: AVATAR_SIZE,
+    borderRadius: AVATAR_SIZE / 2,
+  },
+  avatarFallback: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  identityBody: {
+    flex: 1,
+    alignItems: 'flex-start',
+    gap: SPACING.xs,
+  },
+  name: {
+    fontFamily: TYPOGRAPHY.fontFamily.bold,
+    fontSize: TYPOGRAPHY.fontSize.lg,
+  },
+  stats: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  sectionTitle: {
+    fontFamily: TYPOGRAPHY.fontFamily.bold,
+    fontSize: TYPOGRAPHY.fontSize.base,
+  },
+  gridRow: {
+    gap: SPACING.xs,
+    marginBottom: SPACING.xs,
+  },
+  tile: {
+    flex: 1 / GRID_COLUMNS,
+    aspectRatio: 9 / 16,
+    borderRadius: RADIUS.sm,
+    overflow: 'hidden',
+  },
+  tileViews: {
+    position: 'absolute',
+    left: SPACING.xs,
+    bottom: SPACING.xs,
+    color: '#FFFFFF',
+    fontFamily: TYPOGRAPHY.fontFamily.bold,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+    textShadowColor: 'rgba(0,0,0,0.6)',
+    textShadowOffset: { width: 0, height: 1 },
+    textShadowRadius: 2,
+  },
+  empty: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: SPACING.md,
+    paddingTop: SPACING.xl,
+    paddingHorizontal: SPACING.xl,
+  },
+  message: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.base,
+    textAlign: 'center',
+  },
+});
+
+export default CreatorProfileScreen;
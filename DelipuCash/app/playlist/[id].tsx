@@ -0,0 +1,659 @@
+/**
+ * Playlist Screen
+ * One playlist or series with its videos in order — and, for its creator, the editor
+ *
+ * Features:
+ * - Videos in order; a series numbers them Part 1, Part 2, …
+ * - Tap a video to play it, or "Play from the start"
+ * - The creator edits the title, description and kind, reorders with the
+ *   arrows, removes videos and adds more of their own, or deletes it
+ * - /playlist/new opens the editor for a new one (?videoId= starts it with that video)
+ *
+ * Reached from a creator's playlist shelf and from the series chip on a video.
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  KeyboardAvoidingView,
+  Platform,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { StatusBar } from 'expo-status-bar';
+import { router, useLocalSearchParams, type Href } from 'expo-router';
+import { Image as ExpoImage } from 'expo-image';
+import * as Haptics from '@/utils/haptics';
+import {
+  ArrowDown,
+  ArrowUp,
+  ChevronLeft,
+  ListVideo,
+  Pencil,
+  Play,
+  Plus,
+  Trash2,
+  X,
+} from 'lucide-react-native';
+import { PrimaryButton } from '@/components';
+import {
+  useCreatePlaylist,
+  useDeletePlaylist,
+  usePlaylist,
+  useUpdatePlaylist,
+  useUserVideos,
+} from '@/services/videoHooks';
+import { useAuthStore } from '@/utils/auth/store';
+import type { PlaylistKind, Video } from '@/types';
+import { formatDuration } from '@/utils/video-utils';
+import { getPlaceholderImage } from '@/utils/thumbnail-utils';
+import {
+  PLAYLIST_DESCRIPTION_MAX,
+  PLAYLIST_KIND_LABELS,
+  PLAYLIST_TITLE_MAX,
+  moveItem,
+  playlistDraftError,
+  playlistSubtitle,
+  toggleItem,
+} from '@/utils/playlists';
+import {
+  ICON_SIZE,
+  RADIUS,
+  SPACING,
+  TYPOGRAPHY,
+  useTheme,
+  withAlpha,
+} from '@/utils/theme';
+
+const THUMBNAIL_WIDTH = 112;
+const KINDS: PlaylistKind[] = ['playlist', 'series'];
+
+interface Draft {
+  title: string;
+  description: string;
+  kind: PlaylistKind;
+  videoIds: string[];
+}
+
+const PlaylistScreen = (): React.ReactElement => {
+  const insets = useSafeAreaInsets();
+  const { colors, statusBarStyle } = useTheme();
+  const { id, videoId } = useLocalSearchParams<{ id: string; videoId?: string }>();
+  const isNew = id === 'new';
+  const userId = useAuthStore((s) => s.auth?.user?.id);
+
+  const { data: playlist, isLoading, isError, error, refetch } = usePlaylist(isNew ? null : id);
+  const createPlaylist = useCreatePlaylist();
+  const updatePlaylist = useUpdatePlaylist();
+  const deletePlaylist = useDeletePlaylist();
+  const isOwner = isNew || (!!playlist && playlist.userId === userId);
+
+  const [draft, setDraft] = useState<Draft | null>(() =>
+    isNew ? { title: '', description: '', kind: 'playlist', videoIds: videoId ? [videoId] : [] } : null,
+  );
+  const editing = draft !== null;
+  const { data: ownVideos, isLoading: ownVideosLoading } = useUserVideos(editing ? userId : undefined);
+
+  const videosById = useMemo(() => {
+    const map = new Map<string, Video>();
+    for (const video of ownVideos ?? []) map.set(video.id, video);
+    for (const video of playlist?.videos ?? []) map.set(video.id, video);
+    return map;
+  }, [ownVideos, playlist]);
+  const addable = useMemo(
+    () => (draft ? (ownVideos ?? []).filter((v) => !draft.videoIds.includes(v.id)) : []),
+    [ownVideos, draft],
+  );
+  const isSaving = createPlaylist.isPending || updatePlaylist.isPending;
+
+  const handleEdit = () => {
+    if (!playlist) return;
+    Haptics.selectionAsync();
+    setDraft({
+      title: playlist.title,
+      description: playlist.description ?? '',
+      kind: playlist.kind,
+      videoIds: playlist.videos.map((v) => v.id),
+    });
+  };
+
+  const handleCancelEdit = () => {
+    if (isNew) {
+      router.back();
+      return;
+    }
+    setDraft(null);
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    const problem = playlistDraftError(draft);
+    if (problem) {
+      Alert.alert('Can’t save yet', problem);
+      return;
+    }
+    const input = {
+      title: draft.title.trim(),
+      description: draft.description.trim() || null,
+      kind: draft.kind,
+      videoIds: draft.videoIds,
+    };
+    const onError = (err: Error) => Alert.alert('Could not save', err.message);
+    if (isNew) {
+      createPlaylist.mutate(input, {
+        onSuccess: (created) => {
+          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
+          router.replace(`/playlist/${created.id}` as Href);
+        },
+        onError,
+      });
+      return;
+    }
+    updatePlaylist.mutate({ playlistId: id, changes: input }, {
+      onSuccess: () => {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
+        setDraft(null);
+      },
+      onError,
+    });
+  };
+
+  const handleDelete = () => {
+    if (!playlist) return;
+    Alert.alert(`Delete "${playlist.title}"?`, 'The videos stay on your channel.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () =>
+          deletePlaylist.mutate({ playlistId: playlist.id, kind: playlist.kind }, {
+            onSuccess: () => router.back(),
+            onError: (err) => Alert.alert('Could not delete', err.message),
+          }),
+      },
+    ]);
+  };
+
+  const handlePlay = (video: Video) => {
+    Haptics.selectionAsync();
+    router.push(`/video/${video.id}` as Href);
+  };
+
+  const updateDraft = (changes: Partial<Draft>) => setDraft((d) => (d ? { ...d, ...changes } : d));
+
+  const header = (
+    <View style={[styles.header, { paddingTop: insets.top + SPACING.sm, borderBottomColor: colors.border }]}>
+      <TouchableOpacity
+        style={styles.backButton}
+        onPress={editing ? handleCancelEdit : () => router.back()}
+        hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        accessibilityRole="button"
+        accessibilityLabel={editing ? 'Stop editing' : 'Go back'}
+      >
+        {editing ? <X color={colors.text} size={ICON_SIZE.xl} /> : <ChevronLeft color={colors.text} size={ICON_SIZE.xl} />}
+      </TouchableOpacity>
+      <ListVideo color={colors.text} size={ICON_SIZE.lg} accessibilityElementsHidden />
+      <Text style={[styles.headerTitle, { color: colors.text }]} accessibilityRole="header" numberOfLines={1}>
+        {isNew ? 'New playlist' : editing ? 'Edit playlist' : playlist?.title ?? 'Playlist'}
+      </Text>
+      {editing ? (
+        <TouchableOpacity
+          style={styles.headerAction}
+          onPress={handleSave}
+          disabled={isSaving}
+          accessibilityRole="button"
+          accessibilityLabel="Save playlist"
+          accessibilityState={{ busy: isSaving }}
+        >
+          {isSaving
+            ? <ActivityIndicator color={colors.primary} />
+            : <Text style={[styles.headerActionText, { color: colors.primary }]}>Save</Text>}
+        </TouchableOpacity>
+      ) : isOwner && playlist && (
+        <>
+          <TouchableOpacity
+            style={styles.headerAction}
+            onPress={handleEdit}
+            accessibilityRole="button"
+            accessibilityLabel="Edit playlist"
+          >
+            <Pencil color={colors.text} size={ICON_SIZE.md} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.headerAction}
+            onPress={handleDelete}
+            disabled={deletePlaylist.isPending}
+            accessibilityRole="button"
+            accessibilityLabel="Delete playlist"
+          >
+            <Trash2 color={colors.error} size={ICON_SIZE.md} />
+          </TouchableOpacity>
+        </>
+      )}
+    </View>
+  );
+
+  const renderThumbnail = (video: Video | undefined, key: string) => (
+    <View style={[styles.thumbnail, { backgroundColor: colors.card }]}>
+      <ExpoImage
+        source={{ uri: video?.thumbnail || getPlaceholderImage('video') }}
+        style={StyleSheet.absoluteFill}
+        contentFit="cover"
+        cachePolicy="memory-disk"
+        recyclingKey={key}
+      />
+      {!!video?.duration && <Text style={styles.duration}>{formatDuration(video.duration)}</Text>}
+    </View>
+  );
+
+  if (!isNew && isLoading) {
+    return (
+      <View
+        style={[styles.centered, { backgroundColor: colors.background }]}
+        accessibilityRole="progressbar"
+        accessibilityLabel="Loading playlist"
+      >
+        <StatusBar style={statusBarStyle} />
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  if (!isNew && (isError || !playlist)) {
+    return (
+      <View style={[styles.container, { backgroundColor: colors.background }]} accessibilityRole="alert">
+        <StatusBar style={statusBarStyle} />
+        {header}
+        <View style={styles.centered}>
+          <X color={colors.error} size={48} accessibilityElementsHidden />
+          <Text style={[styles.message, { color: colors.textSecondary }]}>
+            {error instanceof Error ? error.message : 'Could not load this playlist.'}
+          </Text>
+          <PrimaryButton title="Retry" onPress={() => refetch()} />
+        </View>
+      </View>
+    );
+  }
+
+  // ==========================================================================
+  // EDITOR
+  // ==========================================================================
+
+  if (draft) {
+    const inputStyle = [styles.input, { color: colors.text, borderColor: colors.border, backgroundColor: colors.card }];
+    const partLabel = draft.kind === 'series' ? 'Part' : '#';
+
+    const renderDraftRow = ({ item, index }: { item: string; index: number }) => {
+      const video = videosById.get(item);
+      return (
+        <View style={styles.row}>
+          <Text style={[styles.position, { color: colors.textMuted }]}>{partLabel} {index + 1}</Text>
+          {renderThumbnail(video, item)}
+          <Text style={[styles.rowTitle, styles.rowBody, { color: colors.text }]} numberOfLines={2}>
+            {video?.title || 'Untitled video'}
+          </Text>
+          <View style={styles.rowActions}>
+            <TouchableOpacity
+              onPress={() => updateDraft({ videoIds: moveItem(draft.videoIds, index, index - 1) })}
+              disabled={index === 0}
+              hitSlop={{ top: 6, bottom: 6, left: 6, right: 6 }}
+              accessibilityRole="button"
+              accessibilityLabel={`Move ${video?.title || 'video'} up`}
+            >
+              <ArrowUp color={index === 0 ? colors.textMuted : colors.text} size={ICON_SIZE.md} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => updateDraft({ videoIds: moveItem(draft.videoIds, index, index + 1) })}
+              disabled={index === draft.videoIds.length - 1}
+              hitSlop={{ top: 6, bottom: 6, left: 6, right: 6 }}
+              accessibilityRole="button"
+              accessibilityLabel={`Move ${video?.title || 'video'} down`}
+            >
+              <ArrowDown
+                color={index === draft.videoIds.length - 1 ? colors.textMuted : colors.text}
+                size={ICON_SIZE.md}
+              />
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => updateDraft({ videoIds: toggleItem(draft.videoIds, item) })}
+              hitSlop={{ top: 6, bottom: 6, left: 6, right: 6 }}
+              accessibilityRole="button"
+              accessibilityLabel={`Remove ${video?.title || 'video'}`}
+            >
+              <X color={colors.error} size={ICON_SIZE.md} />
+            </TouchableOpacity>
+          </View>
+        </View>
+      );
+    };
+
+    const editorHeader = (
+      <View style={styles.editorFields}>
+        <TextInput
+          value={draft.title}
+          onChangeText={(title) => updateDraft({ title })}
+          style={inputStyle}
+          maxLength={PLAYLIST_TITLE_MAX}
+          placeholder="Title"
+          placeholderTextColor={colors.textMuted}
+          accessibilityLabel="Playlist title"
+        />
+        <TextInput
+          value={draft.description}
+          onChangeText={(description) => updateDraft({ description })}
+          style={[inputStyle, styles.descriptionInput]}
+          maxLength={PLAYLIST_DESCRIPTION_MAX}
+          multiline
+          placeholder="Description (optional)"
+          placeholderTextColor={colors.textMuted}
+          accessibilityLabel="Playlist description"
+        />
+        <View style={styles.kindRow} accessibilityRole="radiogroup">
+          {KINDS.map((kind) => {
+            const selected = draft.kind === kind;
+            return (
+              <TouchableOpacity
+                key={kind}
+                style={[
+                  styles.kindChip,
+                  { borderColor: selected ? colors.primary : colors.border },
+                  selected && { backgroundColor: withAlpha(colors.primary, 0.12) },
+                ]}
+                onPress={() => updateDraft({ kind })}
+                accessibilityRole="radio"
+                accessibilityState={{ checked: selected }}
+              >
+                <Text style={[styles.kindLabel, { color: selected ? colors.primary : colors.text }]}>
+                  {PLAYLIST_KIND_LABELS[kind]}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+        <Text style={[styles.hint, { color: colors.textSecondary }]}>
+          {draft.kind === 'series'
+            ? 'Watched in order — each video shows its part number and plays into the next. A video can be in one series.'
+            : 'A list of your videos, in the order you choose.'}
+        </Text>
+        {draft.videoIds.length === 0 && (
+          <Text style={[styles.hint, { color: colors.textMuted }]}>No videos yet — add some below.</Text>
+        )}
+      </View>
+    );
+
+    const addSection = (
+      <View style={styles.addSection}>
+        <Text style={[styles.sectionTitle, { color: colors.text }]} accessibilityRole="header">
+          Add your videos
+        </Text>
+        {ownVideosLoading && <ActivityIndicator color={colors.primary} />}
+        {!ownVideosLoading && addable.length === 0 && (
+          <Text style={[styles.hint, { color: colors.textMuted }]}>All your videos are in this playlist.</Text>
+        )}
+        {addable.map((video) => (
+          <TouchableOpacity
+            key={video.id}
+            style={styles.row}
+            onPress={() => updateDraft({ videoIds: toggleItem(draft.videoIds, video.id) })}
+            accessibilityRole="button"
+            accessibilityLabel={`Add ${video.title || 'video'}`}
+          >
+            {renderThumbnail(video, video.id)}
+            <Text style={[styles.rowTitle, styles.rowBody, { color: colors.text }]} numberOfLines={2}>
+              {video.title || 'Untitled video'}
+            </Text>
+            <Plus color={colors.primary} size={ICON_SIZE.md} />
+          </TouchableOpacity>
+        ))}
+      </View>
+    );
+
+    return (
+      <KeyboardAvoidingView
+        style={[styles.container, { backgroundColor: colors.background }]}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <StatusBar style={statusBarStyle} />
+        {header}
+        <FlatList
+          data={draft.videoIds}
+          keyExtractor={(item) => item}
+          renderItem={renderDraftRow}
+          extraData={videosById}
+          ListHeaderComponent={editorHeader}
+          ListFooterComponent={addSection}
+          contentContainerStyle={[styles.list, { paddingBottom: insets.bottom + SPACING.xl }]}
+          keyboardShouldPersistTaps="handled"
+        />
+      </KeyboardAvoidingView>
+    );
+  }
+
+  // ==========================================================================
+  // VIEW
+  // ==========================================================================
+
+  const videos = playlist?.videos ?? [];
+  const isSeries = playlist?.kind === 'series';
+
+  const renderItem = ({ item, index }: { item: Video; index: number }) => (
+    <TouchableOpacity
+      style={styles.row}
+      onPress={() => handlePlay(item)}
+      accessibilityRole="button"
+      accessibilityLabel={`${isSeries ? `Part ${index + 1}, ` : ''}${item.title || 'Untitled video'}`}
+      accessibilityHint="Plays the video"
+    >
+      <Text style={[styles.position, { color: colors.textMuted }]}>
+        {isSeries ? `Part ${index + 1}` : index + 1}
+      </Text>
+      {renderThumbnail(item, item.id)}
+      <View style={styles.rowBody}>
+        <Text style={[styles.rowTitle, { color: colors.text }]} numberOfLines={2}>
+          {item.title || 'Untitled video'}
+        </Text>
+        <Text style={[styles.rowMeta, { color: colors.textSecondary }]}>{item.views} views</Text>
+      </View>
+    </TouchableOpacity>
+  );
+
+  const listHeader = playlist && (
+    <View style={styles.summary}>
+      <Text style={[styles.summaryMeta, { color: colors.textSecondary }]}>{playlistSubtitle(playlist)}</Text>
+      {!!playlist.description && (
+        <Text style={[styles.description, { color: colors.text }]}>{playlist.description}</Text>
+      )}
+      {videos.length > 0 && (
+        <PrimaryButton
+          title={isSeries ? 'Play from Part 1' : 'Play from the start'}
+          onPress={() => handlePlay(videos[0])}
+          leftIcon={<Play color="#FFFFFF" size={ICON_SIZE.md} />}
+        />
+      )}
+    </View>
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <StatusBar style={statusBarStyle} />
+      {header}
+      <FlatList
+        data={videos}
+        keyExtractor={(item) => item.id}
+        renderItem={renderItem}
+        ListHeaderComponent={listHeader}
+        ListEmptyComponent={
+          <View style={styles.empty}>
+            <ListVideo color={colors.textMuted} size={48} accessibilityElementsHidden />
+            <Text style={[styles.message, { color: colors.textSecondary }]}>
+              Nothing in this playlist yet. Tap the pencil to add videos.
+            </Text>
+          </View>
+        }
+        contentContainerStyle={[styles.list, { paddingBottom: insets.bottom + SPACING.xl }]}
+        initialNumToRender={10}
+        windowSize={7}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: SPACING.md,
+    padding: SPACING.xl,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    paddingHorizontal: SPACING.md,
+    paddingBottom: SPACING.md,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    padding: SPACING.xs,
+  },
+  headerTitle: {
+    flex: 1,
+    fontFamily: TYPOGRAPHY.fontFamily.bold,
+    fontSize: TYPOGRAPHY.fontSize.lg,
+  },
+  headerAction: {
+    padding: SPACING.sm,
+  },
+  headerActionText: {
+    fontFamily: TYPOGRAPHY.fontFamily.bold,
+    fontSize: TYPOGRAPHY.fontSize.base,
+  },
+  list: {
+    paddingHorizontal: SPACING.md,
+    flexGrow: 1,
+  },
+  summary: {
+    gap: SPACING.sm,
+    paddingVertical: SPACING.md,
+  },
+  summaryMeta: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  description: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  editorFields: {
+    gap: SPACING.sm,
+    paddingVertical: SPACING.md,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: RADIUS.sm,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.sm,
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.base,
+  },
+  descriptionInput: {
+    minHeight: 72,
+    textAlignVertical: 'top',
+  },
+  kindRow: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+  },
+  kindChip: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+    borderWidth: 1,
+    borderRadius: RADIUS.full,
+  },
+  kindLabel: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  hint: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  addSection: {
+    gap: SPACING.xs,
+    paddingTop: SPACING.lg,
+  },
+  sectionTitle: {
+    fontFamily: TYPOGRAPHY.fontFamily.bold,
+    fontSize: TYPOGRAPHY.fontSize.base,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    paddingVertical: SPACING.sm,
+  },
+  position: {
+    width: 44,
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  thumbnail: {
+    width: THUMBNAIL_WIDTH,
+    aspectRatio: 16 / 9,
+    borderRadius: RADIUS.md,
+    overflow: 'hidden',
+  },
+  duration: {
+    position: 'absolute',
+    right: SPACING.xs,
+    bottom: SPACING.xs,
+    paddingHorizontal: SPACING.xs,
+    borderRadius: RADIUS.sm,
+    overflow: 'hidden',
+    backgroundColor: 'rgba(0,0,0,0.7)',
+    color: '#FFFFFF',
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  rowBody: {
+    flex: 1,
+    gap: SPACING.xxs,
+  },
+  rowTitle: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  rowMeta: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  rowActions: {
+    flexDirection: 'row',
+    gap: SPACING.md,
+  },
+  empty: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: SPACING.md,
+    paddingTop: SPACING['3xl'],
+    paddingHorizontal: SPACING.xl,
+  },
+  message: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.base,
+    textAlign: 'center',
+  },
+});
+
+export default PlaylistScreen;
@@ -1,4 +1,4 @@
-import { PrimaryButton, StatCard } from "@/components";
+import { PrimaryButton, ReportContentModal, StatCard } from "@/components";
 import {
   QuestionDetailHeader,
   QuestionHeroCard,
@@ -11,6 +11,7 @@ import { useQuestionDetail, useSubmitQuestionResponse } from "@/services/questio
 import { useLikeResponse, useDislikeResponse } from "@/services/hooks";
 import { triggerHaptic } from "@/utils/quiz-utils";
 import { useToast } from "@/components/ui/Toast";
+import { useAuthStore } from "@/utils/auth/store";
 import {
   BORDER_WIDTH,
   COMPONENT_SIZE,
@@ -47,6 +48,8 @@ export default function QuestionCommentsScreen(): React.ReactElement {
   // Track optimistic like/dislike state locally until server confirms
   const [liked, setLiked] = useState<Record<string, boolean>>({});
   const [disliked, setDisliked] = useState<Record<string, boolean>>({});
+  const [reportingId, setReportingId] = useState<string | null>(null);
+  const userId = useAuthStore((s) => s.auth?.user?.id);
 
   // Use dedicated question detail hook with optimistic updates
   const {
@@ -144,9 +147,10 @@ export default function QuestionCommentsScreen(): React.ReactElement {
       isDisliked={disliked[item.id]}
       onLike={toggleLike}
       onDislike={toggleDislike}
+      onReport={userId && item.userId !== userId ? setReportingId : undefined}
       colors={colors}
     />
-  ), [liked, disliked, toggleLike, toggleDislike, colors]);
+  ), [liked, disliked, toggleLike, toggleDislike, userId, colors]);
 
   const keyExtractor = useCallback((item: ReturnType<typeof transformResponses>[number]) => item.id, []);
 
@@ -262,6 +266,12 @@ export default function QuestionCommentsScreen(): React.ReactElement {
         />
       </View>
       </KeyboardAvoidingView>
+
+      <ReportContentModal
+        visible={!!reportingId}
+        target={reportingId ? { targetType: 'response', targetId: reportingId } : null}
+        onClose={() => setReportingId(null)}
+      />
     </View>
   );
 }
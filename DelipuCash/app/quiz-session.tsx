@@ -46,6 +46,7 @@ import {
   Smartphone,
 } from 'lucide-react-native';
 import { PrimaryButton } from '@/components';
+import { RewardedAdButton } from '@/components/ads';
 import {
   useTheme,
   ThemeColors,
@@ -911,6 +912,9 @@ export default function QuizSessionScreen({
             </View>
           </View>
 
+          {/* Rewarded ad — top up the session's points */}
+          <RewardedAdButton />
+
           {/* Redemption Section */}
           {canRedeem(availablePoints, rewardConfig) && (
             <View style={[styles.redemptionCard, { backgroundColor: colors.card }]}>
@@ -0,0 +1,244 @@
+/**
+ * Save to Collection Screen
+ * Picks which collection a video is saved into
+ *
+ * Features:
+ * - "No collection" plus every collection, with the current one checked
+ *   when the caller knows it (`?collectionId=`)
+ * - Create a collection and save into it in one step
+ * - Saving bookmarks the video if it wasn't already
+ *
+ * Opened as a modal from a video's options sheet and from Saved videos.
+ */
+
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { StatusBar } from 'expo-status-bar';
+import { router, useLocalSearchParams } from 'expo-router';
+import * as Haptics from '@/utils/haptics';
+import { Bookmark, Check, Folder, FolderPlus, X } from 'lucide-react-native';
+import { PrimaryButton } from '@/components';
+import {
+  useCreateCollection,
+  useSaveToCollection,
+  useVideoCollections,
+} from '@/services/videoHooks';
+import { COLLECTION_NAME_MAX } from '@/utils/playlists';
+import {
+  ICON_SIZE,
+  RADIUS,
+  SPACING,
+  TYPOGRAPHY,
+  useTheme,
+} from '@/utils/theme';
+
+const SaveToCollectionScreen = (): React.ReactElement => {
+  const insets = useSafeAreaInsets();
+  const { colors, statusBarStyle } = useTheme();
+  const params = useLocalSearchParams<{ videoId: string; collectionId?: string }>();
+  const current = params.collectionId === undefined ? undefined : params.collectionId || null;
+  const [name, setName] = useState('');
+
+  const { data, isLoading, isError, refetch } = useVideoCollections();
+  const createCollection = useCreateCollection();
+  const saveToCollection = useSaveToCollection();
+  const busy = createCollection.isPending || saveToCollection.isPending;
+
+  const handleSave = (collectionId: string | null) => {
+    if (!params.videoId || busy) return;
+    Haptics.selectionAsync();
+    saveToCollection.mutate(
+      { videoId: params.videoId, collectionId },
+      {
+        onSuccess: () => {
+          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
+          router.back();
+        },
+        onError: (err) => Alert.alert('Could not save video', err.message),
+      },
+    );
+  };
+
+  const handleCreate = () => {
+    const trimmed = name.trim();
+    if (!trimmed || busy) return;
+    createCollection.mutate(trimmed, {
+      onSuccess: (collection) => handleSave(collection.id),
+      onError: (err) => Alert.alert('Could not create collection', err.message),
+    });
+  };
+
+  const renderOption = (collectionId: string | null, label: string, meta: string) => {
+    const selected = current === collectionId;
+    const Icon = collectionId ? Folder : Bookmark;
+    return (
+      <TouchableOpacity
+        key={collectionId ?? 'none'}
+        style={[styles.option, { borderBottomColor: colors.border }]}
+        onPress={() => handleSave(collectionId)}
+        disabled={busy}
+        accessibilityRole="radio"
+        accessibilityState={{ checked: selected, disabled: busy }}
+        accessibilityLabel={`${label}, ${meta}`}
+      >
+        <Icon color={colors.text} size={ICON_SIZE.lg} accessibilityElementsHidden />
+        <View style={styles.optionBody}>
+          <Text style={[styles.optionLabel, { color: colors.text }]} numberOfLines={1}>{label}</Text>
+          <Text style={[styles.optionMeta, { color: colors.textSecondary }]}>{meta}</Text>
+        </View>
+        {selected && <Check color={colors.primary} size={ICON_SIZE.lg} />}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={[styles.container, { backgroundColor: colors.background }]}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      <StatusBar style={statusBarStyle} />
+      <View style={[styles.header, { paddingTop: insets.top + SPACING.sm, borderBottomColor: colors.border }]}>
+        <FolderPlus color={colors.text} size={ICON_SIZE.lg} accessibilityElementsHidden />
+        <Text style={[styles.headerTitle, { color: colors.text }]} accessibilityRole="header">
+          Save to collection
+        </Text>
+        <TouchableOpacity
+          style={styles.headerAction}
+          onPress={() => router.back()}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          accessibilityRole="button"
+          accessibilityLabel="Close"
+        >
+          <X color={colors.text} size={ICON_SIZE.xl} />
+        </TouchableOpacity>
+      </View>
+
+      {isLoading ? (
+        <View style={styles.centered} accessibilityRole="progressbar" accessibilityLabel="Loading collections">
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : isError ? (
+        <View style={styles.centered} accessibilityRole="alert">
+          <Text style={[styles.message, { color: colors.textSecondary }]}>Could not load your collections.</Text>
+          <PrimaryButton title="Retry" onPress={() => refetch()} />
+        </View>
+      ) : (
+        <ScrollView
+          contentContainerStyle={[styles.list, { paddingBottom: insets.bottom + SPACING.xl }]}
+          keyboardShouldPersistTaps="handled"
+          accessibilityRole="radiogroup"
+        >
+          {renderOption(null, 'No collection', 'Saved, but not filed anywhere')}
+          {(data?.collections ?? []).map((c) =>
+            renderOption(c.id, c.name, `${c.count} video${c.count === 1 ? '' : 's'}`),
+          )}
+          <View style={styles.create}>
+            <TextInput
+              value={name}
+              onChangeText={setName}
+              style={[styles.input, { color: colors.text, borderColor: colors.border, backgroundColor: colors.card }]}
+              maxLength={COLLECTION_NAME_MAX}
+              placeholder="New collection"
+              placeholderTextColor={colors.textMuted}
+              returnKeyType="done"
+              onSubmitEditing={handleCreate}
+              accessibilityLabel="New collection name"
+            />
+            <PrimaryButton
+              title="Create & save"
+              onPress={handleCreate}
+              loading={createCollection.isPending}
+              disabled={!name.trim() || busy}
+              size="small"
+            />
+          </View>
+        </ScrollView>
+      )}
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: SPACING.md,
+    padding: SPACING.xl,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    paddingHorizontal: SPACING.md,
+    paddingBottom: SPACING.md,
+    borderBottomWidth: 1,
+  },
+  headerTitle: {
+    flex: 1,
+    fontFamily: TYPOGRAPHY.fontFamily.bold,
+    fontSize: TYPOGRAPHY.fontSize.lg,
+  },
+  headerAction: {
+    padding: SPACING.xs,
+  },
+  list: {
+    paddingHorizontal: SPACING.md,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.md,
+    paddingVertical: SPACING.md,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  optionBody: {
+    flex: 1,
+    gap: SPACING.xxs,
+  },
+  optionLabel: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.base,
+  },
+  optionMeta: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  create: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    paddingTop: SPACING.lg,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: RADIUS.sm,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.sm,
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.base,
+  },
+  message: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.base,
+    textAlign: 'center',
+  },
+});
+
+export default SaveToCollectionScreen;
@@ -0,0 +1,485 @@
+/**
+ * Saved Videos Screen
+ * Every video the viewer has bookmarked, filtered by the collection it was saved into
+ *
+ * Features:
+ * - "All" plus one chip per collection, each with its count
+ * - Create a collection; long-press a chip to rename or delete it
+ *   (deleting a collection keeps its videos saved, in no collection)
+ * - Move a saved video to another collection
+ * - Pages in older saves as the list scrolls
+ *
+ * Reached from "Saved videos" on the profile tab.
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { StatusBar } from 'expo-status-bar';
+import { router, type Href } from 'expo-router';
+import { Image as ExpoImage } from 'expo-image';
+import * as Haptics from '@/utils/haptics';
+import { Bookmark, ChevronLeft, FolderInput, FolderPlus, X } from 'lucide-react-native';
+import { PrimaryButton } from '@/components';
+import {
+  useCreateCollection,
+  useDeleteCollection,
+  useRenameCollection,
+  useSavedVideos,
+  useVideoCollections,
+} from '@/services/videoHooks';
+import type { SavedVideo, VideoCollection } from '@/types';
+import { formatDuration } from '@/utils/video-utils';
+import { getPlaceholderImage } from '@/utils/thumbnail-utils';
+import { COLLECTION_NAME_MAX } from '@/utils/playlists';
+import {
+  ICON_SIZE,
+  RADIUS,
+  SPACING,
+  TYPOGRAPHY,
+  useTheme,
+  withAlpha,
+} from '@/utils/theme';
+
+const THUMBNAIL_WIDTH = 128;
+
+/** The collection name input: creating a new one, or renaming `collection` */
+type NameEditor = { mode: 'create' } | { mode: 'rename'; collection: VideoCollection };
+
+const SavedVideosScreen = (): React.ReactElement => {
+  const insets = useSafeAreaInsets();
+  const { colors, statusBarStyle } = useTheme();
+  const [collectionId, setCollectionId] = useState<string | null>(null);
+  const [editor, setEditor] = useState<NameEditor | null>(null);
+  const [name, setName] = useState('');
+
+  const { data: collections } = useVideoCollections();
+  const {
+    data,
+    isLoading,
+    isError,
+    error,
+    refetch,
+    isRefetching,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useSavedVideos(collectionId);
+  const createCollection = useCreateCollection();
+  const renameCollection = useRenameCollection();
+  const deleteCollection = useDeleteCollection();
+
+  const items = useMemo(() => data?.pages.flatMap((page) => page.items) ?? [], [data]);
+  const collectionNames = useMemo(
+    () => new Map((collections?.collections ?? []).map((c) => [c.id, c.name])),
+    [collections],
+  );
+  const saving = createCollection.isPending || renameCollection.isPending;
+
+  const openEditor = (next: NameEditor) => {
+    setEditor(next);
+    setName(next.mode === 'rename' ? next.collection.name : '');
+  };
+
+  const closeEditor = () => {
+    setEditor(null);
+    setName('');
+  };
+
+  const handleSaveName = () => {
+    const trimmed = name.trim();
+    if (!editor || !trimmed) return;
+    const callbacks = {
+      onSuccess: () => {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
+        closeEditor();
+      },
+      onError: (err: Error) => Alert.alert('Could not save collection', err.message),
+    };
+    if (editor.mode === 'create') {
+      createCollection.mutate(trimmed, callbacks);
+    } else {
+      renameCollection.mutate({ collectionId: editor.collection.id, name: trimmed }, callbacks);
+    }
+  };
+
+  const handleDelete = (collection: VideoCollection) => {
+    Alert.alert(`Delete "${collection.name}"?`, 'Its videos stay saved, just not in a collection.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () =>
+          deleteCollection.mutate(collection.id, {
+            onSuccess: () => {
+              if (collectionId === collection.id) setCollectionId(null);
+            },
+            onError: (err) => Alert.alert('Could not delete collection', err.message),
+          }),
+      },
+    ]);
+  };
+
+  const handleManage = (collection: VideoCollection) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    Alert.alert(collection.name, undefined, [
+      { text: 'Rename', onPress: () => openEditor({ mode: 'rename', collection }) },
+      { text: 'Delete', style: 'destructive', onPress: () => handleDelete(collection) },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const handleOpen = (item: SavedVideo) => {
+    Haptics.selectionAsync();
+    router.push(`/video/${item.video.id}` as Href);
+  };
+
+  const handleMove = (item: SavedVideo) => {
+    Haptics.selectionAsync();
+    router.push({
+      pathname: '/save-to-collection',
+      params: { videoId: item.video.id, collectionId: item.collectionId ?? '' },
+    } as Href);
+  };
+
+  const renderChip = (id: string | null, label: string, count: number, collection?: VideoCollection) => {
+    const selected = collectionId === id;
+    return (
+      <TouchableOpacity
+        key={id ?? 'all'}
+        style={[
+          styles.chip,
+          { borderColor: selected ? colors.primary : colors.border },
+          selected && { backgroundColor: withAlpha(colors.primary, 0.12) },
+        ]}
+        onPress={() => setCollectionId(id)}
+        onLongPress={collection ? () => handleManage(collection) : undefined}
+        accessibilityRole="tab"
+        accessibilityState={{ selected }}
+        accessibilityLabel={`${label}, ${count} saved`}
+        accessibilityHint={collection ? 'Long press to rename or delete' : undefined}
+      >
+        <Text style={[styles.chipLabel, { color: selected ? colors.primary : colors.text }]}>
+          {label} · {count}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderItem = ({ item }: { item: SavedVideo }) => {
+    const { video } = item;
+    const creator = video.user ? `${video.user.firstName} ${video.user.lastName}`.trim() : null;
+    const collectionName = item.collectionId ? collectionNames.get(item.collectionId) : null;
+    return (
+      <TouchableOpacity
+        style={styles.row}
+        onPress={() => handleOpen(item)}
+        accessibilityRole="button"
+        accessibilityLabel={video.title || 'Untitled video'}
+        accessibilityHint="Plays the video"
+      >
+        <View style={[styles.thumbnail, { backgroundColor: colors.card }]}>
+          <ExpoImage
+            source={{ uri: video.thumbnail || getPlaceholderImage('video') }}
+            style={StyleSheet.absoluteFill}
+            contentFit="cover"
+            cachePolicy="memory-disk"
+            recyclingKey={video.id}
+          />
+          {!!video.duration && <Text style={styles.duration}>{formatDuration(video.duration)}</Text>}
+        </View>
+        <View style={styles.rowBody}>
+          <Text style={[styles.rowTitle, { color: colors.text }]} numberOfLines={2}>
+            {video.title || 'Untitled video'}
+          </Text>
+          {creator && (
+            <Text style={[styles.rowMeta, { color: colors.textSecondary }]} numberOfLines={1}>
+              {creator}
+            </Text>
+          )}
+          {collectionId === null && collectionName && (
+            <Text style={[styles.rowMeta, { color: colors.primary }]} numberOfLines={1}>
+              {collectionName}
+            </Text>
+          )}
+        </View>
+        <TouchableOpacity
+          onPress={() => handleMove(item)}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          accessibilityRole="button"
+          accessibilityLabel={`Move ${video.title || 'video'} to a collection`}
+        >
+          <FolderInput color={colors.textMuted} size={ICON_SIZE.md} />
+        </TouchableOpacity>
+      </TouchableOpacity>
+    );
+  };
+
+  const header = (
+    <View style={[styles.header, { paddingTop: insets.top + SPACING.sm, borderBottomColor: colors.border }]}>
+      <TouchableOpacity
+        style={styles.backButton}
+        onPress={() => router.back()}
+        hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        accessibilityRole="button"
+        accessibilityLabel="Go back"
+      >
+        <ChevronLeft color={colors.text} size={ICON_SIZE.xl} />
+      </TouchableOpacity>
+      <Bookmark color={colors.text} size={ICON_SIZE.lg} accessibilityElementsHidden />
+      <Text style={[styles.headerTitle, { color: colors.text }]} accessibilityRole="header">
+        Saved videos
+      </Text>
+      <TouchableOpacity
+        style={styles.headerAction}
+        onPress={() => openEditor({ mode: 'create' })}
+        accessibilityRole="button"
+        accessibilityLabel="New collection"
+      >
+        <FolderPlus color={colors.text} size={ICON_SIZE.md} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  if (isLoading) {
+    return (
+      <View
+        style={[styles.centered, { backgroundColor: colors.background }]}
+        accessibilityRole="progressbar"
+        accessibilityLabel="Loading saved videos"
+      >
+        <StatusBar style={statusBarStyle} />
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  if (isError) {
+    return (
+      <View style={[styles.container, { backgroundColor: colors.background }]} accessibilityRole="alert">
+        <StatusBar style={statusBarStyle} />
+        {header}
+        <View style={styles.centered}>
+          <X color={colors.error} size={48} accessibilityElementsHidden />
+          <Text style={[styles.message, { color: colors.textSecondary }]}>
+            {error instanceof Error ? error.message : 'Could not load your saved videos.'}
+          </Text>
+          <PrimaryButton title="Retry" onPress={() => refetch()} />
+        </View>
+      </View>
+    );
+  }
+
+  const filters = (
+    <View style={styles.filters}>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.chips}
+        accessibilityRole="tablist"
+      >
+        {renderChip(null, 'All', collections?.savedCount ?? items.length)}
+        {(collections?.collections ?? []).map((c) => renderChip(c.id, c.name, c.count, c))}
+      </ScrollView>
+      {editor && (
+        <View style={styles.editor}>
+          <TextInput
+            value={name}
+            onChangeText={setName}
+            style={[styles.input, { color: colors.text, borderColor: colors.border, backgroundColor: colors.card }]}
+            maxLength={COLLECTION_NAME_MAX}
+            placeholder={editor.mode === 'create' ? 'New collection name' : 'Collection name'}
+            placeholderTextColor={colors.textMuted}
+            autoFocus
+            returnKeyType="done"
+            onSubmitEditing={handleSaveName}
+            accessibilityLabel="Collection name"
+          />
+          <PrimaryButton
+            title={editor.mode === 'create' ? 'Create' : 'Rename'}
+            onPress={handleSaveName}
+            loading={saving}
+            disabled={!name.trim() || saving}
+            size="small"
+          />
+          <TouchableOpacity
+            onPress={closeEditor}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            accessibilityRole="button"
+            accessibilityLabel="Cancel"
+          >
+            <X color={colors.textMuted} size={ICON_SIZE.md} />
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <StatusBar style={statusBarStyle} />
+      {header}
+      <FlatList
+        data={items}
+        keyExtractor={(item) => item.video.id}
+        renderItem={renderItem}
+        ListHeaderComponent={filters}
+        ListEmptyComponent={
+          <View style={styles.empty}>
+            <Bookmark color={colors.textMuted} size={48} accessibilityElementsHidden />
+            <Text style={[styles.message, { color: colors.textSecondary }]}>
+              {collectionId
+                ? 'Nothing in this collection yet. Save a video into it from the video’s options.'
+                : 'Bookmark videos to watch later — they show up here.'}
+            </Text>
+          </View>
+        }
+        ListFooterComponent={
+          isFetchingNextPage ? <ActivityIndicator style={styles.footer} color={colors.primary} /> : null
+        }
+        onEndReached={() => {
+          if (hasNextPage && !isFetchingNextPage) fetchNextPage();
+        }}
+        onEndReachedThreshold={0.5}
+        refreshControl={
+          <RefreshControl refreshing={isRefetching && !isFetchingNextPage} onRefresh={refetch} tintColor={colors.primary} />
+        }
+        keyboardShouldPersistTaps="handled"
+        contentContainerStyle={[styles.list, { paddingBottom: insets.bottom + SPACING.xl }]}
+        initialNumToRender={10}
+        windowSize={7}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: SPACING.md,
+    padding: SPACING.xl,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    paddingHorizontal: SPACING.md,
+    paddingBottom: SPACING.md,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    padding: SPACING.xs,
+  },
+  headerTitle: {
+    flex: 1,
+    fontFamily: TYPOGRAPHY.fontFamily.bold,
+    fontSize: TYPOGRAPHY.fontSize.lg,
+  },
+  headerAction: {
+    padding: SPACING.sm,
+  },
+  list: {
+    paddingHorizontal: SPACING.md,
+    flexGrow: 1,
+  },
+  filters: {
+    gap: SPACING.sm,
+    paddingVertical: SPACING.md,
+  },
+  chips: {
+    gap: SPACING.sm,
+  },
+  chip: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+    borderWidth: 1,
+    borderRadius: RADIUS.full,
+  },
+  chipLabel: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  editor: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: RADIUS.sm,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.sm,
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.base,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.md,
+    paddingVertical: SPACING.sm,
+  },
+  thumbnail: {
+    width: THUMBNAIL_WIDTH,
+    aspectRatio: 16 / 9,
+    borderRadius: RADIUS.md,
+    overflow: 'hidden',
+  },
+  duration: {
+    position: 'absolute',
+    right: SPACING.xs,
+    bottom: SPACING.xs,
+    paddingHorizontal: SPACING.xs,
+    borderRadius: RADIUS.sm,
+    overflow: 'hidden',
+    backgroundColor: 'rgba(0,0,0,0.7)',
+    color: '#FFFFFF',
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  rowBody: {
+    flex: 1,
+    gap: SPACING.xxs,
+  },
+  rowTitle: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  rowMeta: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  empty: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: SPACING.md,
+    paddingHorizontal: SPACING.xl,
+  },
+  message: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.base,
+    textAlign: 'center',
+  },
+  footer: {
+    paddingVertical: SPACING.lg,
+  },
+});
+
+export default SavedVideosScreen;
@@ -4,7 +4,9 @@
  * For survey owners to view and analyze their survey responses
  * 
  * Features:
- * - Summary, Questions, and Individual response views
+ * - Summary, Questions, Compare (cross-tab) and Individual response views
+ * - Saved segments ("respondents who chose X") that narrow every view
+ * - Per-version analytics, or every version merged, plus the version history
  * - Export to CSV, JSON, and PDF formats
  * - Responsive design for phones and tablets
  * - Full accessibility support (WCAG 2.1 compliant)
@@ -35,7 +37,7 @@ import {
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { StatusBar } from 'expo-status-bar';
-import { router, useLocalSearchParams } from 'expo-router';
+import { router, useLocalSearchParams, type Href } from 'expo-router';
 import * as Print from 'expo-print';
 import * as Haptics from '@/utils/haptics';
 import * as Sharing from 'expo-sharing';
@@ -54,26 +56,32 @@ import {
   FileSpreadsheet,
   FileText,
   Filter,
+  History,
   PieChart,
+  Table2,
   RefreshCw,
   Search,
   Share2,
+  ShieldAlert,
   User,
   Users,
   X,
 } from 'lucide-react-native';
 import { PrimaryButton } from '@/components';
+import { SegmentFilter } from '@/components/survey/SegmentFilter';
 import {
   BarChart,
   BooleanChart,
+  CrossTabTable,
   PieChart as PieChartComponent,
+  QuotaProgress,
   RatingDisplay,
   StatCard,
   WordCloud,
 } from '@/components/ui/SurveyCharts';
 
 // TanStack Query hooks for server state
-import { useSurveyResponseData } from '@/services/surveyResponseHooks';
+import { useSurveyQuotas, useSurveyResponseData, useSurveyVersions } from '@/services/surveyResponseHooks';
 
 // Zustand store for UI state
 import {
@@ -85,10 +93,15 @@ import {
   exportToJSON,
   exportToPDFHtml,
   type QuestionAggregate,
+  type ResponseViewMode,
 } from '@/store/SurveyResponseUIStore';
 import { useShallow } from 'zustand/react/shallow';
 
 import { useAuth } from '@/utils/auth';
+import { matrixAnswerToRecord, parseMatrixConfig } from '@/utils/surveyQuestionTypes';
+import { applySegment, computeCrossTab, isCrossTabQuestion } from '@/utils/crossTab';
+import { annotateQuality, isFlagged, QUALITY_FLAG_LABELS } from '@/utils/responseQuality';
+import { scopeToVersion } from '@/utils/surveyVersioning';
 import {
   BORDER_WIDTH,
   ICON_SIZE,
@@ -109,8 +122,6 @@ const BREAKPOINTS = {
 
 type DeviceType = 'phone' | 'tablet' | 'desktop';
 
-type ViewMode = 'summary' | 'questions' | 'individual';
-
 // Hook to determine device type based on screen width
 const useDeviceType = (): DeviceType => {
   const { width } = useWindowDimensions();
@@ -148,12 +159,18 @@ const SurveyResponsesScreen = (): React.ReactElement => {
     searchQuery,
     currentResponseIndex,
     expandedQuestionId,
+    activeSegment,
+    savedSegments,
+    versionScope,
   } = useSurveyResponseUIStore(useShallow(s => ({
     viewMode: s.viewMode,
     filters: s.filters,
     searchQuery: s.searchQuery,
     currentResponseIndex: s.currentResponseIndex,
     expandedQuestionId: s.expandedQuestionId,
+    activeSegment: s.activeSegment,
+    savedSegments: s.savedSegments,
+    versionScope: s.versionScope,
   })));
   // Actions (stable refs — no useShallow needed)
   const setViewMode = useSurveyResponseUIStore(s => s.setViewMode);
@@ -163,9 +180,18 @@ const SurveyResponsesScreen = (): React.ReactElement => {
   const previousResponse = useSurveyResponseUIStore(s => s.previousResponse);
   const setExpandedQuestion = useSurveyResponseUIStore(s => s.setExpandedQuestion);
   const updateLastSync = useSurveyResponseUIStore(s => s.updateLastSync);
+  const setActiveSegment = useSurveyResponseUIStore(s => s.setActiveSegment);
+  const saveSegment = useSurveyResponseUIStore(s => s.saveSegment);
+  const deleteSegment = useSurveyResponseUIStore(s => s.deleteSegment);
+  const setVersionScope = useSurveyResponseUIStore(s => s.setVersionScope);
 
   // Local UI state
   const [showFilters, setShowFilters] = useState(false);
+  const [crossTabIds, setCrossTabIds] = useState<{ rowId: string | null; columnId: string | null }>({
+    rowId: null,
+    columnId: null,
+  });
+  const [crossTabPercentBy, setCrossTabPercentBy] = useState<'row' | 'column'>('row');
   const [showExportModal, setShowExportModal] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
 
@@ -174,7 +200,7 @@ const SurveyResponsesScreen = (): React.ReactElement => {
   // ============================================================================
   const {
     survey: currentSurvey,
-    questions: surveyQuestions,
+    questions: liveQuestions,
     responses,
     isOwner,
     isLoading,
@@ -184,18 +210,48 @@ const SurveyResponsesScreen = (): React.ReactElement => {
     refetchAll,
     dataUpdatedAt,
   } = useSurveyResponseData(surveyId, userId, filters);
+  const { data: quotas = [] } = useSurveyQuotas(surveyId, { enabled: isOwner });
+  const { data: versionHistory } = useSurveyVersions(surveyId, { enabled: isOwner });
 
   // ============================================================================
   // DERIVED/COMPUTED DATA (from TanStack Query data + Zustand filters)
   // ============================================================================
-  const parsedResponses = useMemo(() => {
+  // Quality is scored on the whole set — the speeder median and duplicate
+  // text must not shift as filters narrow the view
+  const allResponses = useMemo(() => {
     if (!responses) return [];
-    return parseResponses(responses);
-  }, [responses]);
+    return annotateQuality(parseResponses(responses, liveQuestions), liveQuestions ?? []);
+  }, [responses, liveQuestions]);
+
+  // One version's questions and responses, or every version merged onto the
+  // live questions. A scope left on another survey's screen is ignored.
+  const versions = useMemo(() => versionHistory?.versions ?? [], [versionHistory]);
+  const scopedVersion = versionScope && versionScope.surveyId === surveyId ? versionScope.version : null;
+  const versionScoped = useMemo(
+    () => scopeToVersion(
+      { id: surveyId ?? '', userId: currentSurvey?.userId ?? '', currentVersion: versionHistory?.currentVersion ?? currentSurvey?.currentVersion },
+      liveQuestions ?? [],
+      allResponses,
+      versions,
+      scopedVersion,
+    ),
+    [surveyId, currentSurvey, versionHistory, liveQuestions, allResponses, versions, scopedVersion],
+  );
+  const surveyQuestions = versionScoped.questions;
+  const parsedResponses = versionScoped.responses;
+  const flaggedCount = useMemo(() => parsedResponses.filter(isFlagged).length, [parsedResponses]);
+
+  // Segments are per survey — one left active on another survey's screen is ignored
+  const surveySegment = activeSegment?.surveyId === surveyId ? activeSegment : null;
+  const surveySegments = useMemo(
+    () => savedSegments.filter((segment) => segment.surveyId === surveyId),
+    [savedSegments, surveyId],
+  );
+  const hasActiveFilters = Object.keys(filters).length > 0 || surveySegment !== null || scopedVersion !== null;
 
   const filteredResponses = useMemo(() => {
-    return filterResponses(parsedResponses, filters);
-  }, [parsedResponses, filters]);
+    return applySegment(filterResponses(parsedResponses, filters), surveySegment, surveyQuestions);
+  }, [parsedResponses, filters, surveySegment, surveyQuestions]);
 
   const analytics = useMemo(() => {
     if (!currentSurvey || !surveyQuestions || filteredResponses.length === 0) return null;
@@ -425,6 +481,18 @@ const SurveyResponsesScreen = (): React.ReactElement => {
             </Text>
           </View>
         </View>
+        <TouchableOpacity
+          style={[styles.iconButton, { backgroundColor: colors.card }]}
+          onPress={() => {
+            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+            router.push(`/survey-versions/${surveyId}` as Href);
+          }}
+          accessibilityRole="button"
+          accessibilityLabel="Version history"
+          accessibilityHint="Shows what changed in each published version of the questions"
+        >
+          <History color={colors.text} size={ICON_SIZE.lg} />
+        </TouchableOpacity>
         <TouchableOpacity
           style={[styles.iconButton, { backgroundColor: colors.card }]}
           onPress={() => {
@@ -446,7 +514,7 @@ const SurveyResponsesScreen = (): React.ReactElement => {
           deviceType !== 'phone' && { justifyContent: 'center', gap: SPACING.xl },
         ]}
       >
-        {(['summary', 'questions', 'individual'] as ViewMode[]).map((mode) => (
+        {(['summary', 'questions', 'compare', 'individual'] as ResponseViewMode[]).map((mode) => (
           <TouchableOpacity
             key={mode}
             style={[
@@ -465,6 +533,7 @@ const SurveyResponsesScreen = (): React.ReactElement => {
           >
             {mode === 'summary' && <PieChart size={ICON_SIZE.md} color={viewMode === mode ? colors.primary : colors.textMuted} />}
             {mode === 'questions' && <BarChart3 size={ICON_SIZE.md} color={viewMode === mode ? colors.primary : colors.textMuted} />}
+            {mode === 'compare' && <Table2 size={ICON_SIZE.md} color={viewMode === mode ? colors.primary : colors.textMuted} />}
             {mode === 'individual' && <User size={ICON_SIZE.md} color={viewMode === mode ? colors.primary : colors.textMuted} />}
             <Text style={[
               styles.tabText,
@@ -509,16 +578,16 @@ const SurveyResponsesScreen = (): React.ReactElement => {
         <TouchableOpacity
           style={[
             styles.filterButton,
-            { backgroundColor: Object.keys(filters).length > 0 ? withAlpha(colors.primary, 0.2) : colors.card },
+            { backgroundColor: hasActiveFilters ? withAlpha(colors.primary, 0.2) : colors.card },
           ]}
           onPress={() => setShowFilters(!showFilters)}
           accessibilityRole="button"
-          accessibilityLabel={Object.keys(filters).length > 0 ? 'Filters active' : 'Open filters'}
+          accessibilityLabel={hasActiveFilters ? 'Filters active' : 'Open filters'}
           accessibilityHint="Opens filter options for responses"
           accessibilityState={{ expanded: showFilters }}
         >
           <Filter
-            color={Object.keys(filters).length > 0 ? colors.primary : colors.textMuted}
+            color={hasActiveFilters ? colors.primary : colors.textMuted}
             size={ICON_SIZE.md}
           />
         </TouchableOpacity>
@@ -548,6 +617,24 @@ const SurveyResponsesScreen = (): React.ReactElement => {
         </Text>
       </View>
 
+      {/* Active Segment */}
+      {surveySegment && (
+        <View style={[styles.segmentBanner, { backgroundColor: withAlpha(colors.primary, 0.1) }]}>
+          <Users color={colors.primary} size={ICON_SIZE.sm} accessibilityElementsHidden />
+          <Text style={[styles.segmentBannerText, { color: colors.primary }]} numberOfLines={1}>
+            {surveySegment.name} · {filteredResponses.length} {filteredResponses.length === 1 ? 'respondent' : 'respondents'}
+          </Text>
+          <TouchableOpacity
+            onPress={() => setActiveSegment(null)}
+            hitSlop={8}
+            accessibilityRole="button"
+            accessibilityLabel="Show all respondents"
+          >
+            <X color={colors.primary} size={ICON_SIZE.sm} />
+          </TouchableOpacity>
+        </View>
+      )}
+
       {/* Filter Panel */}
       {showFilters && (
         <View
@@ -585,11 +672,89 @@ const SurveyResponsesScreen = (): React.ReactElement => {
             </View>
           </View>
 
+          {/* Response Quality */}
+          <View style={styles.filterRow}>
+            <Text style={[styles.filterLabel, { color: colors.textMuted }]}>Quality</Text>
+            <View style={styles.filterChips}>
+              {(['all', 'clean', 'flagged'] as const).map(quality => {
+                const isActive = (filters.quality || 'all') === quality;
+                return (
+                  <TouchableOpacity
+                    key={quality}
+                    style={[
+                      styles.filterChip,
+                      { borderColor: isActive ? colors.primary : colors.border },
+                      isActive && { backgroundColor: withAlpha(colors.primary, 0.12) },
+                    ]}
+                    onPress={() => setFilters({ quality: quality === 'all' ? undefined : quality })}
+                    accessibilityRole="button"
+                    accessibilityState={{ selected: isActive }}
+                    accessibilityLabel={quality === 'clean' ? 'Exclude flagged responses' : `Filter by quality ${quality}`}
+                  >
+                    <Text style={[styles.filterChipText, { color: isActive ? colors.primary : colors.textMuted }]}>
+                      {quality.charAt(0).toUpperCase() + quality.slice(1)}
+                      {quality === 'flagged' ? ` (${flaggedCount})` : ''}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+
+          {/* Survey Version */}
+          {versions.length > 1 && (
+            <>
+            <View style={styles.filterRow}>
+              <Text style={[styles.filterLabel, { color: colors.textMuted }]}>Version</Text>
+              <View style={styles.filterChips}>
+                {[null, ...versions.map((v) => v.version).sort((a, b) => a - b)].map(version => {
+                  const isActive = scopedVersion === version;
+                  return (
+                    <TouchableOpacity
+                      key={version ?? 'all'}
+                      style={[
+                        styles.filterChip,
+                        { borderColor: isActive ? colors.primary : colors.border },
+                        isActive && { backgroundColor: withAlpha(colors.primary, 0.12) },
+                      ]}
+                      onPress={() => setVersionScope(version === null || !surveyId ? null : { surveyId, version })}
+                      accessibilityRole="button"
+                      accessibilityState={{ selected: isActive }}
+                      accessibilityLabel={version === null ? 'Merge all versions' : `Only version ${version}`}
+                    >
+                      <Text style={[styles.filterChipText, { color: isActive ? colors.primary : colors.textMuted }]}>
+                        {version === null ? 'All' : `v${version}`}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+            {scopedVersion === null && versionScoped.droppedAnswers > 0 && (
+              <Text style={[styles.filterNote, { color: colors.textMuted }]}>
+                {versionScoped.droppedAnswers} older {versionScoped.droppedAnswers === 1 ? 'answer is' : 'answers are'} left
+                out — {versionScoped.droppedAnswers === 1 ? 'its question has' : 'their questions have'} changed since.
+              </Text>
+            )}
+            </>
+          )}
+
+          {/* Segment */}
+          <SegmentFilter
+            surveyId={surveyId ?? ''}
+            questions={surveyQuestions}
+            savedSegments={surveySegments}
+            activeSegmentId={surveySegment?.id ?? null}
+            onApply={setActiveSegment}
+            onSave={saveSegment}
+            onDelete={deleteSegment}
+          />
+
           {/* Clear Filters */}
-          {(filters.completionStatus || filters.dateRange || filters.respondentId) && (
+          {(filters.completionStatus || filters.quality || filters.dateRange || filters.respondentId) && (
             <TouchableOpacity
               style={[styles.clearFiltersBtn, { borderColor: colors.border }]}
-              onPress={() => setFilters({ completionStatus: undefined, dateRange: undefined, respondentId: undefined })}
+              onPress={() => setFilters({ completionStatus: undefined, quality: undefined, dateRange: undefined, respondentId: undefined })}
               accessibilityRole="button"
               accessibilityLabel="Clear all filters"
             >
@@ -657,8 +822,10 @@ const SurveyResponsesScreen = (): React.ReactElement => {
           </View>
           <View style={{ width: statCardWidth }}>
             <StatCard
-              label="Avg. Time"
-              value={`${Math.floor(analytics.averageCompletionTime / 60)}m`}
+              label="Median Time"
+              value={analytics.averageCompletionTime > 0
+                ? `${Math.floor(analytics.averageCompletionTime / 60)}m ${analytics.averageCompletionTime % 60}s`
+                : '—'}
               icon={<Clock color={colors.info} size={ICON_SIZE.md} />}
               subtext="to complete"
             />
@@ -688,6 +855,19 @@ const SurveyResponsesScreen = (): React.ReactElement => {
           />
         </View>
 
+        {/* Quota Fill */}
+        {quotas.length > 0 && (
+          <View
+            style={[styles.chartCard, { backgroundColor: colors.card, borderColor: withAlpha(colors.border, 0.6) }]}
+            accessibilityLabel={`Quota fill for ${quotas.length} screener answers`}
+          >
+            <Text style={[styles.chartCardTitle, { color: colors.text }]}>
+              Quota Fill
+            </Text>
+            <QuotaProgress quotas={quotas} />
+          </View>
+        )}
+
         {/* Question Summaries */}
         <Text 
           style={[styles.sectionTitle, { color: colors.text }]}
@@ -774,6 +954,64 @@ const SurveyResponsesScreen = (): React.ReactElement => {
           />
         );
 
+      case 'nps':
+        return (
+          <View>
+            <View style={styles.numberStats}>
+              <View style={styles.numberStatItem}>
+                <Text style={[styles.numberStatLabel, { color: colors.textMuted }]}>NPS</Text>
+                <Text style={[styles.numberStatValue, { color: colors.text }]}>{aggregate.npsScore ?? '-'}</Text>
+              </View>
+              <View style={styles.numberStatItem}>
+                <Text style={[styles.numberStatLabel, { color: colors.textMuted }]}>Promoters</Text>
+                <Text style={[styles.numberStatValue, { color: colors.success }]}>{aggregate.promoters ?? 0}</Text>
+              </View>
+              <View style={styles.numberStatItem}>
+                <Text style={[styles.numberStatLabel, { color: colors.textMuted }]}>Passives</Text>
+                <Text style={[styles.numberStatValue, { color: colors.text }]}>{aggregate.passives ?? 0}</Text>
+              </View>
+              <View style={styles.numberStatItem}>
+                <Text style={[styles.numberStatLabel, { color: colors.textMuted }]}>Detractors</Text>
+                <Text style={[styles.numberStatValue, { color: colors.error }]}>{aggregate.detractors ?? 0}</Text>
+              </View>
+            </View>
+            <BarChart
+              data={(aggregate.ratingDistribution || []).map((value, score) => ({ label: String(score), value }))}
+            />
+          </View>
+        );
+
+      case 'ranking':
+        return (
+          <View style={styles.rankList}>
+            {Object.entries(aggregate.meanRanks || {}).map(([item, meanRank], index) => (
+              <View key={item} style={styles.rankRow}>
+                <Text style={[styles.rankPosition, { color: colors.primary }]}>{index + 1}</Text>
+                <Text style={[styles.rankItem, { color: colors.text }]}>{item}</Text>
+                <Text style={[styles.numberStatLabel, { color: colors.textMuted }]}>
+                  avg. rank {meanRank.toFixed(1)}
+                </Text>
+              </View>
+            ))}
+          </View>
+        );
+
+      case 'matrix':
+        return (
+          <View style={styles.rankList}>
+            {Object.entries(aggregate.rowDistributions || {}).map(([row, distribution]) => (
+              <View key={row}>
+                <Text style={[styles.matrixRowLabel, { color: colors.textSecondary }]}>{row}</Text>
+                <BarChart
+                  data={Object.entries(distribution).map(([label, value]) => ({ label, value }))}
+                  horizontal
+                  showPercentages
+                />
+              </View>
+            ))}
+          </View>
+        );
+
       case 'checkbox':
         const barData = Object.entries(aggregate.answerDistribution).map(([label, value]) => ({
           label,
@@ -916,6 +1154,125 @@ const SurveyResponsesScreen = (): React.ReactElement => {
     );
   };
 
+  const renderCompareView = () => {
+    const candidates = surveyQuestions
+      .map((question, index) => ({ question, index }))
+      .filter(({ question }) => isCrossTabQuestion(question));
+
+    if (candidates.length < 2) {
+      return (
+        <View style={styles.emptyState}>
+          <Table2 color={colors.textMuted} size={48} strokeWidth={1.5} />
+          <Text style={[styles.emptyStateText, { color: colors.textMuted }]}>
+            Comparing needs at least two choice, yes/no, rating, NPS or ranking questions.
+          </Text>
+        </View>
+      );
+    }
+
+    const row = candidates.find((c) => c.question.id === crossTabIds.rowId) ?? candidates[0];
+    const column =
+      candidates.find((c) => c.question.id === crossTabIds.columnId && c.question.id !== row.question.id) ??
+      candidates.find((c) => c.question.id !== row.question.id)!;
+    const crossTab = computeCrossTab(row.question, column.question, filteredResponses);
+
+    const renderPicker = (
+      label: string,
+      selectedId: string,
+      disabledId: string,
+      onPick: (id: string) => void,
+    ) => (
+      <View style={styles.compareField}>
+        <Text style={[styles.filterLabel, { color: colors.textMuted }]}>{label}</Text>
+        <View style={styles.filterChips}>
+          {candidates.map(({ question, index }) => {
+            const isActive = question.id === selectedId;
+            const isDisabled = question.id === disabledId;
+            return (
+              <TouchableOpacity
+                key={question.id}
+                style={[
+                  styles.filterChip,
+                  { borderColor: isActive ? colors.primary : colors.border, opacity: isDisabled ? 0.4 : 1 },
+                  isActive && { backgroundColor: withAlpha(colors.primary, 0.12) },
+                ]}
+                onPress={() => {
+                  Haptics.selectionAsync();
+                  onPick(question.id);
+                }}
+                disabled={isDisabled}
+                accessibilityRole="button"
+                accessibilityState={{ selected: isActive, disabled: isDisabled }}
+                accessibilityLabel={`${label} question ${index + 1}: ${question.text}`}
+              >
+                <Text style={[styles.filterChipText, { color: isActive ? colors.primary : colors.textMuted }]}>
+                  Q{index + 1}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </View>
+    );
+
+    return (
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={[
+          styles.contentContainer,
+          { maxWidth: pageMaxWidth, alignSelf: 'center', width: '100%' },
+        ]}
+        showsVerticalScrollIndicator={false}
+        accessibilityLabel="Compare answers view"
+      >
+        <View style={[styles.chartCard, { backgroundColor: colors.card, borderColor: withAlpha(colors.border, 0.6) }]}>
+          {renderPicker('Break down', column.question.id, row.question.id, (id) =>
+            setCrossTabIds((prev) => ({ ...prev, columnId: id })),
+          )}
+          {renderPicker('By', row.question.id, column.question.id, (id) =>
+            setCrossTabIds((prev) => ({ ...prev, rowId: id })),
+          )}
+          <View style={styles.compareField}>
+            <Text style={[styles.filterLabel, { color: colors.textMuted }]}>Percent of</Text>
+            <View style={styles.filterChips}>
+              {(['row', 'column'] as const).map((by) => {
+                const isActive = crossTabPercentBy === by;
+                return (
+                  <TouchableOpacity
+                    key={by}
+                    style={[
+                      styles.filterChip,
+                      { borderColor: isActive ? colors.primary : colors.border },
+                      isActive && { backgroundColor: withAlpha(colors.primary, 0.12) },
+                    ]}
+                    onPress={() => setCrossTabPercentBy(by)}
+                    accessibilityRole="button"
+                    accessibilityState={{ selected: isActive }}
+                    accessibilityLabel={`Percent of ${by} total`}
+                  >
+                    <Text style={[styles.filterChipText, { color: isActive ? colors.primary : colors.textMuted }]}>
+                      {by === 'row' ? 'Row' : 'Column'}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        </View>
+
+        <View style={[styles.chartCard, { backgroundColor: colors.card, borderColor: withAlpha(colors.border, 0.6) }]}>
+          <Text style={[styles.chartCardTitle, { color: colors.text }]}>
+            Q{column.index + 1}. {column.question.text}
+          </Text>
+          <Text style={[styles.compareSubtitle, { color: colors.textMuted }]}>
+            Rows: Q{row.index + 1}. {row.question.text} · {crossTab.respondents} answered both
+          </Text>
+          <CrossTabTable crossTab={crossTab} percentBy={crossTabPercentBy} />
+        </View>
+      </ScrollView>
+    );
+  };
+
   const renderIndividualView = () => {
     const currentResponse = filteredResponses[currentResponseIndex];
 
@@ -973,13 +1330,30 @@ const SurveyResponsesScreen = (): React.ReactElement => {
           </View>
         </View>
 
+        {/* Quality Badge */}
+        {currentResponse.quality && currentResponse.quality.flags.length > 0 && (
+          <View
+            style={[styles.qualityBadge, { backgroundColor: withAlpha(colors.warning, 0.12) }]}
+            accessible
+            accessibilityLabel={`Quality score ${currentResponse.quality.score}. Flagged: ${currentResponse.quality.flags
+              .map((flag) => QUALITY_FLAG_LABELS[flag])
+              .join(', ')}`}
+          >
+            <ShieldAlert color={colors.warning} size={ICON_SIZE.sm} />
+            <Text style={[styles.qualityBadgeText, { color: colors.text }]}>
+              Quality {currentResponse.quality.score}/100 ·{' '}
+              {currentResponse.quality.flags.map((flag) => QUALITY_FLAG_LABELS[flag]).join(' · ')}
+            </Text>
+          </View>
+        )}
+
         {/* Responses */}
         <ScrollView
           style={styles.responsesScroll}
           contentContainerStyle={styles.responsesContent}
           showsVerticalScrollIndicator={false}
         >
-          {surveyQuestions?.map((question: { id: string; text: string; type: string }, index: number) => {
+          {surveyQuestions?.map((question: { id: string; text: string; type: string; options: string }, index: number) => {
             const answer = currentResponse.responses[question.id];
             
             return (
@@ -991,7 +1365,7 @@ const SurveyResponsesScreen = (): React.ReactElement => {
                   Q{index + 1}. {question.text}
                 </Text>
                 <View style={styles.responseAnswer}>
-                  {renderAnswer(answer, question.type)}
+                  {renderAnswer(answer, question.type, question.options)}
                 </View>
               </View>
             );
@@ -1001,7 +1375,7 @@ const SurveyResponsesScreen = (): React.ReactElement => {
     );
   };
 
-  const renderAnswer = (answer: unknown, type: string) => {
+  const renderAnswer = (answer: unknown, type: string, options?: string) => {
     if (answer === undefined || answer === null) {
       return (
         <Text style={[styles.answerText, { color: colors.textMuted, fontStyle: 'italic' }]}>
@@ -1050,6 +1424,44 @@ const SurveyResponsesScreen = (): React.ReactElement => {
           </View>
         );
 
+      case 'matrix': {
+        const picked = Object.entries(matrixAnswerToRecord(answer, parseMatrixConfig(options).rows));
+        return (
+          <View style={styles.rankList}>
+            {picked.map(([row, column]) => (
+              <Text key={row} style={[styles.answerText, { color: colors.text }]}>
+                {row}: {column}
+              </Text>
+            ))}
+          </View>
+        );
+      }
+
+      case 'ranking':
+        if (Array.isArray(answer)) {
+          return (
+            <View style={styles.rankList}>
+              {answer.map((item, idx) => (
+                <Text key={idx} style={[styles.answerText, { color: colors.text }]}>
+                  {idx + 1}. {String(item)}
+                </Text>
+              ))}
+            </View>
+          );
+        }
+        return (
+          <Text style={[styles.answerText, { color: colors.text }]}>
+            {String(answer)}
+          </Text>
+        );
+
+      case 'nps':
+        return (
+          <Text style={[styles.answerText, { color: colors.text }]}>
+            {String(answer)}/10
+          </Text>
+        );
+
       case 'checkbox':
         if (Array.isArray(answer)) {
           return (
@@ -1290,6 +1702,8 @@ const SurveyResponsesScreen = (): React.ReactElement => {
             renderSummaryView()
           ) : viewMode === 'questions' ? (
             renderQuestionsView()
+          ) : viewMode === 'compare' ? (
+            renderCompareView()
           ) : (
             renderIndividualView()
           )}
@@ -1473,6 +1887,20 @@ const styles = StyleSheet.create({
     fontFamily: TYPOGRAPHY.fontFamily.regular,
     fontSize: TYPOGRAPHY.fontSize.xs,
   },
+  segmentBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.xs,
+    marginTop: SPACING.sm,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xs,
+    borderRadius: RADIUS.md,
+  },
+  segmentBannerText: {
+    flex: 1,
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
 
   // Filter Panel
   filterPanel: {
@@ -1512,6 +1940,10 @@ const styles = StyleSheet.create({
     fontFamily: TYPOGRAPHY.fontFamily.medium,
     fontSize: TYPOGRAPHY.fontSize.xs,
   },
+  filterNote: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
   clearFiltersBtn: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1572,6 +2004,17 @@ const styles = StyleSheet.create({
     marginBottom: SPACING.md,
   },
 
+  // Compare View
+  compareField: {
+    gap: SPACING.xs,
+    marginBottom: SPACING.sm,
+  },
+  compareSubtitle: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+    marginTop: -SPACING.sm,
+  },
+
   // Section
   sectionTitle: {
     fontFamily: TYPOGRAPHY.fontFamily.bold,
@@ -1708,6 +2151,29 @@ const styles = StyleSheet.create({
     fontSize: TYPOGRAPHY.fontSize.xl,
     letterSpacing: -0.2,
   },
+  rankList: {
+    gap: SPACING.sm,
+  },
+  rankRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+  },
+  rankPosition: {
+    fontFamily: TYPOGRAPHY.fontFamily.bold,
+    fontSize: TYPOGRAPHY.fontSize.base,
+    minWidth: 20,
+  },
+  rankItem: {
+    flex: 1,
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.base,
+  },
+  matrixRowLabel: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+    marginBottom: SPACING.xs,
+  },
 
   // Individual View
   individualContainer: {
@@ -1766,6 +2232,20 @@ const styles = StyleSheet.create({
     fontFamily: TYPOGRAPHY.fontFamily.regular,
     fontSize: TYPOGRAPHY.fontSize.sm,
   },
+  qualityBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.xs,
+    marginHorizontal: SPACING.md,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xs,
+    borderRadius: RADIUS.md,
+  },
+  qualityBadgeText: {
+    flex: 1,
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
   responsesScroll: {
     flex: 1,
   },
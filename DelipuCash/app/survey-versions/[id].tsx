@@ -0,0 +1,381 @@
+/**
+ * Survey Version History Screen
+ * Every published version of a survey's questions, newest first
+ *
+ * Features:
+ * - Response count per version, with the live version marked
+ * - Question-level diff against the version before (added, removed, reworded,
+ *   options changed)
+ * - One-tap rollback: the chosen version's questions are republished as the
+ *   next version, so no response ever loses the questions it answered
+ *
+ * Reached from the History button on app/survey-responses/[id].tsx.
+ */
+
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { StatusBar } from 'expo-status-bar';
+import { router, useLocalSearchParams } from 'expo-router';
+import * as Haptics from '@/utils/haptics';
+import { ChevronDown, ChevronLeft, ChevronUp, History, RotateCcw, X } from 'lucide-react-native';
+import { PrimaryButton } from '@/components';
+import { useRollbackSurveyVersion, useSurveyVersions } from '@/services/surveyResponseHooks';
+import type { SurveyVersion } from '@/types';
+import { diffVersions, type VersionChange } from '@/utils/surveyVersioning';
+import {
+  ICON_SIZE,
+  RADIUS,
+  SPACING,
+  TYPOGRAPHY,
+  useTheme,
+  withAlpha,
+} from '@/utils/theme';
+
+const CHANGE_LABELS: Record<VersionChange['kind'], string> = {
+  added: 'Added',
+  removed: 'Removed',
+  reworded: 'Reworded',
+  options_changed: 'Options changed',
+};
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const SurveyVersionsScreen = (): React.ReactElement => {
+  const insets = useSafeAreaInsets();
+  const { colors, statusBarStyle } = useTheme();
+  const { id } = useLocalSearchParams<{ id?: string }>();
+  const surveyId = Array.isArray(id) ? id?.[0] : id;
+
+  const { data, isLoading, isError, error, refetch } = useSurveyVersions(surveyId);
+  const rollback = useRollbackSurveyVersion();
+  const [expandedVersion, setExpandedVersion] = useState<number | null>(null);
+
+  const versions = data?.versions ?? [];
+  const currentVersion = data?.currentVersion ?? 1;
+
+  const changeColor = (kind: VersionChange['kind']) =>
+    kind === 'added' ? colors.success : kind === 'removed' ? colors.error : colors.warning;
+
+  const handleRestore = (version: SurveyVersion) => {
+    if (!surveyId) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    Alert.alert(
+      `Restore version ${version.version}?`,
+      `Its ${version.questions.length} ${version.questions.length === 1 ? 'question goes' : 'questions go'} live as version ${currentVersion + 1}. Responses already collected keep the version they answered.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Restore',
+          onPress: () =>
+            rollback.mutate(
+              { surveyId, version: version.version },
+              {
+                onSuccess: (result) => {
+                  Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
+                  setExpandedVersion(null);
+                  Alert.alert('Version restored', `Version ${result.restoredFrom} is live again as version ${result.currentVersion}.`);
+                },
+                onError: (err) => Alert.alert('Restore failed', err.message),
+              },
+            ),
+        },
+      ],
+    );
+  };
+
+  const renderChange = (change: VersionChange, index: number) => (
+    <View key={`${change.kind}-${change.questionId}-${index}`} style={styles.changeRow}>
+      <View style={[styles.changeBadge, { backgroundColor: withAlpha(changeColor(change.kind), 0.15) }]}>
+        <Text style={[styles.changeBadgeText, { color: changeColor(change.kind) }]}>{CHANGE_LABELS[change.kind]}</Text>
+      </View>
+      <View style={styles.changeBody}>
+        <Text style={[styles.changeText, { color: colors.text }]}>{change.text}</Text>
+        {change.previousText !== undefined && (
+          <Text style={[styles.changeDetail, { color: colors.textMuted }]}>Was: {change.previousText}</Text>
+        )}
+        {!!change.addedOptions?.length && (
+          <Text style={[styles.changeDetail, { color: colors.success }]}>+ {change.addedOptions.join(', ')}</Text>
+        )}
+        {!!change.removedOptions?.length && (
+          <Text style={[styles.changeDetail, { color: colors.error }]}>− {change.removedOptions.join(', ')}</Text>
+        )}
+      </View>
+    </View>
+  );
+
+  const renderVersion = (version: SurveyVersion, index: number) => {
+    const isCurrent = version.version === currentVersion;
+    const isExpanded = expandedVersion === version.version;
+    // Newest first — the version before this one is next in the list
+    const previous = versions[index + 1];
+    const changes = previous ? diffVersions(previous.questions, version.questions) : [];
+
+    return (
+      <View
+        key={version.version}
+        style={[styles.card, { backgroundColor: colors.card, borderColor: isCurrent ? colors.primary : colors.border }]}
+      >
+        <TouchableOpacity
+          style={styles.cardHeader}
+          onPress={() => setExpandedVersion(isExpanded ? null : version.version)}
+          accessibilityRole="button"
+          accessibilityState={{ expanded: isExpanded }}
+          accessibilityLabel={`Version ${version.version}${isCurrent ? ', live' : ''}, ${version.responseCount} responses`}
+          accessibilityHint="Shows what changed in this version"
+        >
+          <View style={styles.cardTitleRow}>
+            <Text style={[styles.cardTitle, { color: colors.text }]}>Version {version.version}</Text>
+            {isCurrent && (
+              <View style={[styles.currentBadge, { backgroundColor: withAlpha(colors.success, 0.2) }]}>
+                <Text style={[styles.currentBadgeText, { color: colors.success }]}>Live</Text>
+              </View>
+            )}
+          </View>
+          <Text style={[styles.cardMeta, { color: colors.textSecondary }]}>
+            {formatDate(version.createdAt)} · {version.responseCount} {version.responseCount === 1 ? 'response' : 'responses'}
+          </Text>
+          {version.restoredFrom !== null && (
+            <Text style={[styles.cardMeta, { color: colors.textMuted }]}>Restored from version {version.restoredFrom}</Text>
+          )}
+          <View style={styles.chevron}>
+            {isExpanded
+              ? <ChevronUp color={colors.textMuted} size={ICON_SIZE.md} />
+              : <ChevronDown color={colors.textMuted} size={ICON_SIZE.md} />}
+          </View>
+        </TouchableOpacity>
+
+        {isExpanded && (
+          <View style={[styles.cardBody, { borderTopColor: colors.border }]}>
+            {!previous ? (
+              <Text style={[styles.changeDetail, { color: colors.textMuted }]}>
+                First published version · {version.questions.length} {version.questions.length === 1 ? 'question' : 'questions'}
+              </Text>
+            ) : changes.length === 0 ? (
+              <Text style={[styles.changeDetail, { color: colors.textMuted }]}>
+                Same questions as version {previous.version}
+              </Text>
+            ) : (
+              changes.map(renderChange)
+            )}
+            {!isCurrent && (
+              <TouchableOpacity
+                style={[styles.restoreButton, { borderColor: colors.primary }]}
+                onPress={() => handleRestore(version)}
+                disabled={rollback.isPending}
+                accessibilityRole="button"
+                accessibilityLabel={`Restore version ${version.version}`}
+                accessibilityState={{ disabled: rollback.isPending, busy: rollback.isPending }}
+              >
+                {rollback.isPending && rollback.variables?.version === version.version
+                  ? <ActivityIndicator size="small" color={colors.primary} />
+                  : <RotateCcw color={colors.primary} size={ICON_SIZE.sm} />}
+                <Text style={[styles.restoreText, { color: colors.primary }]}>Restore this version</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  const header = (
+    <View style={[styles.header, { paddingTop: insets.top + SPACING.sm, borderBottomColor: colors.border }]}>
+      <TouchableOpacity
+        style={styles.backButton}
+        onPress={() => router.back()}
+        hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        accessibilityRole="button"
+        accessibilityLabel="Go back"
+      >
+        <ChevronLeft color={colors.text} size={ICON_SIZE.xl} />
+      </TouchableOpacity>
+      <History color={colors.text} size={ICON_SIZE.lg} accessibilityElementsHidden />
+      <Text style={[styles.headerTitle, { color: colors.text }]} accessibilityRole="header">
+        Version history
+      </Text>
+    </View>
+  );
+
+  if (isLoading) {
+    return (
+      <View
+        style={[styles.centered, { backgroundColor: colors.background }]}
+        accessibilityRole="progressbar"
+        accessibilityLabel="Loading version history"
+      >
+        <StatusBar style={statusBarStyle} />
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  if (isError) {
+    return (
+      <View style={[styles.container, { backgroundColor: colors.background }]} accessibilityRole="alert">
+        <StatusBar style={statusBarStyle} />
+        {header}
+        <View style={styles.centered}>
+          <X color={colors.error} size={48} accessibilityElementsHidden />
+          <Text style={[styles.errorText, { color: colors.textSecondary }]}>
+            {error instanceof Error ? error.message : 'Could not load the version history.'}
+          </Text>
+          <PrimaryButton title="Retry" onPress={() => refetch()} />
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <StatusBar style={statusBarStyle} />
+      {header}
+      <ScrollView contentContainerStyle={[styles.list, { paddingBottom: insets.bottom + SPACING.xl }]}>
+        <Text style={[styles.intro, { color: colors.textSecondary }]}>
+          Editing questions publishes a new version. Each response stays linked to the version it answered.
+        </Text>
+        {versions.map(renderVersion)}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: SPACING.md,
+    padding: SPACING.xl,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    paddingHorizontal: SPACING.md,
+    paddingBottom: SPACING.md,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    padding: SPACING.xs,
+  },
+  headerTitle: {
+    fontFamily: TYPOGRAPHY.fontFamily.bold,
+    fontSize: TYPOGRAPHY.fontSize.lg,
+  },
+  list: {
+    padding: SPACING.md,
+    gap: SPACING.md,
+  },
+  intro: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  card: {
+    borderWidth: 1,
+    borderRadius: RADIUS.lg,
+    overflow: 'hidden',
+  },
+  cardHeader: {
+    padding: SPACING.md,
+    paddingRight: SPACING['2xl'],
+    gap: SPACING.xs,
+  },
+  cardTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+  },
+  cardTitle: {
+    fontFamily: TYPOGRAPHY.fontFamily.bold,
+    fontSize: TYPOGRAPHY.fontSize.base,
+  },
+  cardMeta: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  chevron: {
+    position: 'absolute',
+    right: SPACING.md,
+    top: SPACING.md,
+  },
+  currentBadge: {
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: 2,
+    borderRadius: RADIUS.full,
+  },
+  currentBadgeText: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  cardBody: {
+    borderTopWidth: 1,
+    padding: SPACING.md,
+    gap: SPACING.sm,
+  },
+  changeRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: SPACING.sm,
+  },
+  changeBadge: {
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: 2,
+    borderRadius: RADIUS.sm,
+  },
+  changeBadgeText: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  changeBody: {
+    flex: 1,
+    gap: 2,
+  },
+  changeText: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  changeDetail: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  restoreButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: SPACING.xs,
+    marginTop: SPACING.sm,
+    paddingVertical: SPACING.sm,
+    borderWidth: 1,
+    borderRadius: RADIUS.md,
+  },
+  restoreText: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  errorText: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+    textAlign: 'center',
+  },
+});
+
+export default SurveyVersionsScreen;
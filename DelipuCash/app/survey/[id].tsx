@@ -27,8 +27,12 @@ import {
   ChevronLeft,
   ChevronRight,
   Clock,
+  CloudUpload,
   FileText,
+  Flag,
   Hash,
+  HeartHandshake,
+  Languages,
   ListChecks,
   Lock,
   MessageCircle,
@@ -40,11 +44,20 @@ import {
 } from "lucide-react-native";
 import DateTimePicker, { DateTimePickerEvent } from "@react-native-community/datetimepicker";
 import * as Haptics from "@/utils/haptics";
-import { PrimaryButton } from "@/components";
+import { PrimaryButton, ReportContentModal } from "@/components";
 import { formatCurrency, formatDuration } from "@/services";
 import { useCheckSurveyAttempt, useSubmitSurvey, useSurvey } from "@/services/hooks";
 import { useRewardConfig, pointsToUgx } from "@/services/configHooks";
-import { useSurveyAttemptStore } from "@/store/SurveyAttemptStore";
+import { useSurveyQuotas } from "@/services/surveyResponseHooks";
+import { useSurveyAttemptStore, type ScreeningOutcome } from "@/store/SurveyAttemptStore";
+import {
+  generateSubmissionKey,
+  getStagedFileId,
+  selectIsSurveyPendingSync,
+  useSurveySubmissionQueueStore,
+} from "@/store/SurveySubmissionQueueStore";
+import { SurveySubmitError } from "@/services/surveyApi";
+import { onlineManager } from "@tanstack/react-query";
 import { useShallow } from "zustand/react/shallow";
 import { UploadSurvey } from "@/types";
 import { useAuth } from "@/utils/auth";
@@ -57,9 +70,22 @@ import {
   useTheme,
   withAlpha,
 } from "@/utils/theme";
-import { evaluateConditions, getLogicSourceIds, buildLogicAnswersKey } from "@/utils/conditionalLogic";
-import type { ConditionalLogicConfig } from "@/types";
+import {
+  evaluateConditions,
+  getLogicSourceIds,
+  buildLogicAnswersKey,
+  getSurveyPath,
+  hasSkipLogic,
+  resolveNextQuestionId,
+} from "@/utils/conditionalLogic";
+import { computeVariables, hasPiping, pipeText, type PipingQuestion } from "@/utils/piping";
+import { NPS_MAX, NPS_MIN, isMatrixComplete, isNpsScore, isRankingComplete } from "@/utils/surveyQuestionTypes";
+import { getScreenerOutcome } from "@/utils/surveyScreening";
+import { getDeviceLanguage, getLanguageName, pickSurveyLanguage } from "@/utils/surveyTranslation";
+import type { ConditionalLogicConfig, QuestionTranslation, ScreenerConfig } from "@/types";
 import { FileUploadQuestion } from "@/components/survey/FileUploadQuestion";
+import { MatrixQuestion } from "@/components/survey/MatrixQuestion";
+import { RankingQuestion } from "@/components/survey/RankingQuestion";
 import { SurveyCompletionOverlay } from "@/components/survey/SurveyCompletionOverlay";
 
 // Unique ID for InputAccessoryView (iOS keyboard toolbar)
@@ -76,7 +102,10 @@ type QuestionType =
   | "date"
   | "time"
   | "number"
-  | "file_upload";
+  | "file_upload"
+  | "matrix"
+  | "ranking"
+  | "nps";
 
 type AnswerValue = string | number | string[];
 
@@ -105,7 +134,12 @@ interface SurveyQuestion {
   placeholder?: string | null;
   booleanLabels?: BooleanLabels;
   numberConstraints?: NumberConstraints;
+  /** Matrix only — `options` holds the rows */
+  matrixColumns?: string[];
+  /** Matrix only — translated column labels, aligned with `matrixColumns` */
+  matrixColumnLabels?: string[];
   conditionalLogic?: ConditionalLogicConfig | null;
+  screener?: ScreenerConfig | null;
 }
 
 interface SurveyDisplay {
@@ -149,6 +183,7 @@ interface ParsedQuestionConfig {
   maxRating: number;
   booleanLabels: BooleanLabels;
   numberConstraints: NumberConstraints;
+  matrixColumns: string[];
 }
 
 const parseQuestionConfig = (question: UploadSurvey): ParsedQuestionConfig => {
@@ -159,18 +194,21 @@ const parseQuestionConfig = (question: UploadSurvey): ParsedQuestionConfig => {
     parsed = null;
   }
   const obj = parsed && typeof parsed === "object" && !Array.isArray(parsed)
-    ? (parsed as { options?: unknown[]; labels?: string[]; max?: number; min?: number; yesLabel?: string; noLabel?: string })
+    ? (parsed as { options?: unknown[]; labels?: string[]; rows?: unknown[]; columns?: unknown[]; max?: number; min?: number; yesLabel?: string; noLabel?: string })
     : null;
 
-  // Options: plain array, { options: [...] }, or { labels: [...] }
+  // Options: plain array, { options: [...] }, { labels: [...] } or matrix { rows: [...] }
   let options: ParsedOption[] = [];
   if (Array.isArray(parsed)) {
     options = parsed.map(toParsedOption);
   } else if (obj) {
     if (Array.isArray(obj.options)) options = obj.options.map(toParsedOption);
     else if (Array.isArray(obj.labels)) options = obj.labels.map(toParsedOption);
+    else if (Array.isArray(obj.rows)) options = obj.rows.map(toParsedOption);
   }
 
+  const matrixColumns = Array.isArray(obj?.columns) ? obj.columns.map((c) => toParsedOption(c).id) : [];
+
   // Rating scale: column max, then options.max, then labels length, then 5
   const maxRating =
     question.maxValue ||
@@ -187,7 +225,28 @@ const parseQuestionConfig = (question: UploadSurvey): ParsedQuestionConfig => {
     max: obj?.max != null ? obj.max : question.maxValue ?? null,
   };
 
-  return { options, maxRating, booleanLabels, numberConstraints };
+  return { options, maxRating, booleanLabels, numberConstraints, matrixColumns };
+};
+
+/**
+ * Show a question in one of the survey's translations. Only display text
+ * changes: option ids stay the source labels, so the stored answer, logic,
+ * screeners and analytics are identical in every language.
+ */
+const localizeQuestion = (question: SurveyQuestion, translation: QuestionTranslation | undefined): SurveyQuestion => {
+  if (!translation) return question;
+  const labels = translation.options ?? [];
+  return {
+    ...question,
+    text: translation.text || question.text,
+    placeholder: translation.placeholder || question.placeholder,
+    options: question.options?.map((o, i) => ({ ...o, text: labels[i] || o.text })),
+    booleanLabels: question.booleanLabels && {
+      yesLabel: labels[0] || question.booleanLabels.yesLabel,
+      noLabel: labels[1] || question.booleanLabels.noLabel,
+    },
+    matrixColumnLabels: question.matrixColumns && translation.matrixColumns,
+  };
 };
 
 const SurveyAttemptScreen = (): React.ReactElement => {
@@ -202,6 +261,13 @@ const SurveyAttemptScreen = (): React.ReactElement => {
   // Server state: TanStack Query
   const { data: surveyData, isLoading, error } = useSurvey(id || "");
   const submitSurveyMutation = useSubmitSurvey();
+  const isPendingSync = useSurveySubmissionQueueStore(selectIsSurveyPendingSync(id || "", userId));
+
+  // Screeners: live quota fill lets a full answer stop the respondent at the
+  // screener instead of at submit, after the whole survey
+  const surveyHasScreeners = useMemo(() => !!surveyData?.uploads?.some((q) => q.screener), [surveyData]);
+  const { data: quotas } = useSurveyQuotas(id, { enabled: surveyHasScreeners && !!userId });
+  const screeningOutcome = useSurveyAttemptStore((s) => (id ? s.screenedOut[id] : undefined));
 
   // Check if user has already attempted this survey (single attempt enforcement)
   const {
@@ -238,14 +304,29 @@ const SurveyAttemptScreen = (): React.ReactElement => {
   const storeGoPrevious = useSurveyAttemptStore((s) => s.goPrevious);
   const storeSetSubmitting = useSurveyAttemptStore((s) => s.setSubmitting);
   const storeSetSubmitted = useSurveyAttemptStore((s) => s.setSubmitted);
+  const storeSetQueued = useSurveyAttemptStore((s) => s.setQueued);
+  const storeSetScreenedOut = useSurveyAttemptStore((s) => s.setScreenedOut);
   const storeSetSubmissionError = useSurveyAttemptStore((s) => s.setSubmissionError);
   const storeResetSubmission = useSurveyAttemptStore((s) => s.resetSubmission);
   const storeReset = useSurveyAttemptStore((s) => s.reset);
   const storeSetCurrentIndex = useSurveyAttemptStore((s) => s.setCurrentIndex);
   const storeSetTotalQuestions = useSurveyAttemptStore((s) => s.setTotalQuestions);
+  const storePushHistory = useSurveyAttemptStore((s) => s.pushQuestionHistory);
+  const storePopHistory = useSurveyAttemptStore((s) => s.popQuestionHistory);
+  const storeSetHistory = useSurveyAttemptStore((s) => s.setQuestionHistory);
+  const preferredLanguage = useSurveyAttemptStore((s) => s.preferredLanguage);
+  const storeSetPreferredLanguage = useSurveyAttemptStore((s) => s.setPreferredLanguage);
+
+  // Multilingual surveys open in the respondent's last pick, else the device language
+  const language = surveyData ? pickSurveyLanguage(surveyData, [preferredLanguage, getDeviceLanguage()]) : undefined;
+  const surveyLanguages = useMemo(
+    () => (surveyData?.languages?.length ? [surveyData.defaultLanguage ?? "en", ...surveyData.languages] : []),
+    [surveyData]
+  );
 
   // Local UI state
   const [showReview, setShowReview] = useState(false);
+  const [showReport, setShowReport] = useState(false);
   const [showSuccess, setShowSuccess] = useState(false);
   const [showDropdownModal, setShowDropdownModal] = useState(false);
   const [showDatePicker, setShowDatePicker] = useState(false);
@@ -265,7 +346,7 @@ const SurveyAttemptScreen = (): React.ReactElement => {
 
   // Initialize attempt store when survey loads
   useEffect(() => {
-    if (surveyData && id && !attemptStatus?.hasAttempted) {
+    if (surveyData && id && !attemptStatus?.hasAttempted && !useSurveyAttemptStore.getState().screenedOut[id]) {
       const totalQ = surveyData.uploads?.length || 0;
       if (totalQ > 0) {
         storeStartAttempt(id, totalQ);
@@ -277,7 +358,8 @@ const SurveyAttemptScreen = (): React.ReactElement => {
   // Clean up on unmount — save draft if not submitted
   useEffect(() => {
     return () => {
-      if (useSurveyAttemptStore.getState().submissionStatus !== 'submitted') {
+      const { submissionStatus: status } = useSurveyAttemptStore.getState();
+      if (status !== 'submitted' && status !== 'queued' && status !== 'screened_out') {
         storeAbandonAttempt();
       }
     };
@@ -321,15 +403,17 @@ const SurveyAttemptScreen = (): React.ReactElement => {
 
   const survey: SurveyDisplay | null = useMemo(() => {
     if (!surveyData) return null;
+    const translated = language && language !== (surveyData.defaultLanguage ?? "en") ? language : null;
+    const surveyText = translated ? surveyData.translations?.[translated] : undefined;
     return {
       id: surveyData.id,
-      title: surveyData.title,
-      description: surveyData.description || "",
+      title: surveyText?.title || surveyData.title,
+      description: surveyText?.description || surveyData.description || "",
       rewardAmount: surveyData.rewardAmount || 0,
       estimatedTime: (surveyData.uploads?.length || 0) * 2,
       questions: (surveyData.uploads || []).map((q: UploadSurvey) => {
         const config = parseQuestionConfig(q); // one JSON.parse per question
-        return {
+        const display: SurveyQuestion = {
           id: q.id,
           text: q.text,
           type: (q.type as QuestionType) || "text",
@@ -339,13 +423,17 @@ const SurveyAttemptScreen = (): React.ReactElement => {
           placeholder: q.placeholder,
           booleanLabels: q.type === "boolean" ? config.booleanLabels : undefined,
           numberConstraints: q.type === "number" ? config.numberConstraints : undefined,
+          matrixColumns: q.type === "matrix" ? config.matrixColumns : undefined,
           conditionalLogic: q.conditionalLogic ?? null,
+          screener: q.screener ?? null,
         };
+        return translated ? localizeQuestion(display, q.translations?.[translated]) : display;
       }),
     };
-  }, [surveyData]);
+  }, [surveyData, language]);
 
-  // Filter questions based on conditional logic — hidden questions are skipped.
+  // Filter questions based on conditional logic — hidden questions are skipped,
+  // and questions jumped over by skip_to rules drop out of the path entirely.
   //
   // Perf: visibility depends ONLY on answers to rule-SOURCE questions, so the
   // memo is keyed on those (logicAnswersKey), not the whole answers map.
@@ -359,9 +447,14 @@ const SurveyAttemptScreen = (): React.ReactElement => {
     () => buildLogicAnswersKey(answers, logicSourceIds),
     [answers, logicSourceIds]
   );
+  const surveyHasSkipLogic = useMemo(
+    () => (survey ? hasSkipLogic(survey.questions) : false),
+    [survey]
+  );
   const visibleQuestions = useMemo(() => {
     if (!survey) return [];
     if (logicSourceIds.size === 0) return survey.questions; // no logic anywhere
+    if (surveyHasSkipLogic) return getSurveyPath(survey.questions, answers);
     return survey.questions.filter((q) => {
       if (!q.conditionalLogic?.rules?.length) return true;
       return evaluateConditions(q.conditionalLogic, answers);
@@ -369,7 +462,7 @@ const SurveyAttemptScreen = (): React.ReactElement => {
     // `answers` is intentionally represented by logicAnswersKey: only the
     // rule-source answers can change the result.
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [survey, logicSourceIds, logicAnswersKey]);
+  }, [survey, logicSourceIds, surveyHasSkipLogic, logicAnswersKey]);
 
   // Keep the store's question count in sync with the *visible* set so navigation
   // (goNext / setCurrentIndex) clamps against questions the user can actually
@@ -380,7 +473,38 @@ const SurveyAttemptScreen = (): React.ReactElement => {
     storeSetTotalQuestions(visibleQuestions.length);
   }, [visibleQuestions.length, storeSetTotalQuestions]);
 
-  const question = visibleQuestions[currentQuestionIndex];
+  // Answer piping: {{q3}} / {{score}} tokens in question text and options are
+  // filled from the answers so far. Positions index the FULL question list (as
+  // numbered in the builder), not the visible path. Option ids stay raw so the
+  // stored answer and conditional-logic comparisons are unaffected.
+  const pipingQuestions = useMemo<PipingQuestion[]>(
+    () =>
+      (survey?.questions ?? []).map((q) => ({
+        id: q.id,
+        type: q.type,
+        options: q.options?.map((o) => o.id),
+        booleanLabels: q.booleanLabels,
+      })),
+    [survey]
+  );
+  const computedValues = useMemo(
+    () => computeVariables(surveyData?.computedVariables, pipingQuestions, answers),
+    [surveyData?.computedVariables, pipingQuestions, answers]
+  );
+  const rawQuestion = visibleQuestions[currentQuestionIndex];
+  const question = useMemo(() => {
+    if (!rawQuestion) return rawQuestion;
+    const optionsPiped = rawQuestion.options?.some((o) => hasPiping(o.text)) ?? false;
+    if (!hasPiping(rawQuestion.text) && !optionsPiped) return rawQuestion;
+    const context = { questions: pipingQuestions, answers, variables: computedValues };
+    return {
+      ...rawQuestion,
+      text: pipeText(rawQuestion.text, context),
+      options: optionsPiped
+        ? rawQuestion.options!.map((o) => (hasPiping(o.text) ? { ...o, text: pipeText(o.text, context) } : o))
+        : rawQuestion.options,
+    };
+  }, [rawQuestion, pipingQuestions, answers, computedValues]);
   const isLastQuestion = visibleQuestions.length > 0 ? currentQuestionIndex === visibleQuestions.length - 1 : false;
   const progress = visibleQuestions.length > 0 ? ((currentQuestionIndex + 1) / visibleQuestions.length) * 100 : 0;
 
@@ -389,6 +513,8 @@ const SurveyAttemptScreen = (): React.ReactElement => {
       case "rating":
         return 0;
       case "checkbox":
+      case "matrix":
+      case "ranking":
         return [];
       case "radio":
       case "text":
@@ -405,8 +531,8 @@ const SurveyAttemptScreen = (): React.ReactElement => {
 
   const currentAnswer = question ? answers[question.id] ?? getDefaultValue(question.type) : "";
 
-  const isAnswerValid = (type: QuestionType, answer: AnswerValue): boolean => {
-    switch (type) {
+  const isAnswerValid = (q: SurveyQuestion, answer: AnswerValue): boolean => {
+    switch (q.type) {
       case "rating":
         return typeof answer === "number" && answer > 0;
       case "checkbox":
@@ -424,6 +550,12 @@ const SurveyAttemptScreen = (): React.ReactElement => {
         return typeof answer === "string" && answer.length > 0;
       case "number":
         return typeof answer === "string" && answer.trim().length > 0 && !isNaN(Number(answer));
+      case "nps":
+        return isNpsScore(answer);
+      case "matrix":
+        return isMatrixComplete(answer, q.options?.length ?? 0);
+      case "ranking":
+        return isRankingComplete(answer, (q.options ?? []).map((o) => o.id));
       default:
         return false;
     }
@@ -431,13 +563,13 @@ const SurveyAttemptScreen = (): React.ReactElement => {
 
   const isQuestionAnswered = (): boolean => {
     if (!question) return false;
-    return isAnswerValid(question.type, currentAnswer);
+    return isAnswerValid(question, currentAnswer);
   };
 
   const answeredCount = visibleQuestions.reduce((count, q) => {
     const value = answers[q.id];
     if (value === undefined || value === null) return count;
-    return isAnswerValid(q.type, value) ? count + 1 : count;
+    return isAnswerValid(q, value) ? count + 1 : count;
   }, 0);
 
   // Use store's setAnswer for auto-save
@@ -452,23 +584,63 @@ const SurveyAttemptScreen = (): React.ReactElement => {
     // on upload success, so leaving the question now would discard it.
     if (isFileUploading) return;
 
+    // Screeners end the attempt here, before the paid section starts
+    if (question.screener) {
+      const outcome = getScreenerOutcome(question, answers[question.id], quotas);
+      if (outcome !== "qualified") {
+        endScreening(outcome);
+        return;
+      }
+    }
+
     // Haptic feedback on navigation
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {});
 
-    if (isLastQuestion) {
+    if (isLastQuestion || !survey) {
+      openReviewModal();
+      return;
+    }
+
+    // Resolve the branch (skip rules on this question, then visibility) and
+    // remember where we came from so Back retraces the jump.
+    const nextId = resolveNextQuestionId(survey.questions, question.id, answers);
+    const nextIndex = nextId ? visibleQuestions.findIndex((q) => q.id === nextId) : -1;
+    if (!nextId) {
       openReviewModal();
+    } else if (nextIndex !== -1) {
+      storePushHistory(question.id);
+      storeSetCurrentIndex(nextIndex);
     } else {
+      storePushHistory(question.id);
       storeGoNext();
     }
   };
 
+  const endScreening = (outcome: ScreeningOutcome): void => {
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning).catch(() => {});
+    storeSetScreenedOut(outcome);
+  };
+
   const handlePrevious = (): void => {
     if (currentQuestionIndex > 0) {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {});
-      storeGoPrevious();
+      const previousId = storePopHistory();
+      const previousIndex = previousId ? visibleQuestions.findIndex((q) => q.id === previousId) : -1;
+      if (previousIndex !== -1 && previousIndex < currentQuestionIndex) {
+        storeSetCurrentIndex(previousIndex);
+      } else {
+        storeGoPrevious();
+      }
     }
   };
 
+  // Jumping straight to a question (step chips, "go to first unanswered")
+  // rebuilds the history from the path so Back still walks the branch taken.
+  const jumpToQuestion = (index: number): void => {
+    storeSetHistory(visibleQuestions.slice(0, index).map((q) => q.id));
+    storeSetCurrentIndex(index);
+  };
+
   const handleSubmit = (): void => {
     if (!survey || !userId) {
       Alert.alert("Error", "You must be logged in to submit a survey.");
@@ -476,7 +648,7 @@ const SurveyAttemptScreen = (): React.ReactElement => {
     }
 
     // Guard against double-submit
-    if (submissionStatus === 'submitting' || submissionStatus === 'submitted') {
+    if (submissionStatus === 'submitting' || submissionStatus === 'submitted' || submissionStatus === 'queued') {
       return;
     }
 
@@ -485,7 +657,7 @@ const SurveyAttemptScreen = (): React.ReactElement => {
       if (!q.required) return false;
       const val = answers[q.id];
       if (val === undefined || val === null || val === '') return true;
-      return !isAnswerValid(q.type, val);
+      return !isAnswerValid(q, val);
     });
 
     if (unanswered.length > 0) {
@@ -495,16 +667,72 @@ const SurveyAttemptScreen = (): React.ReactElement => {
         `${unanswered.length} required question(s) need an answer. Tap OK to go to the first unanswered question.`,
         [
           { text: "Cancel", style: "cancel" },
-          { text: "OK", onPress: () => { if (firstIdx >= 0) storeSetCurrentIndex(firstIdx); } },
+          { text: "OK", onPress: () => { if (firstIdx >= 0) jumpToQuestion(firstIdx); } },
         ]
       );
       return;
     }
 
+    // Step chips can jump past a screener's Next — check them again before submitting
+    const screenedBy = visibleQuestions
+      .map((q) => getScreenerOutcome(q, answers[q.id], quotas))
+      .find((outcome) => outcome !== "qualified");
+    if (screenedBy) {
+      closeReviewModal();
+      endScreening(screenedBy);
+      return;
+    }
+
     storeSetSubmitting();
 
+    // Only submit answers on the path actually taken — answers left behind on
+    // a branch the respondent backed out of must not reach analytics.
+    const pathIds = new Set(visibleQuestions.map((q) => q.id));
+    const responses = Object.fromEntries(
+      Object.entries(answers).filter(([questionId]) => pathIds.has(questionId))
+    );
+
+    // Read at submit time — only the speeder check needs it, not the render
+    const startedAt = useSurveyAttemptStore.getState().startedAt ?? undefined;
+    // One key per attempt: a queued replay of this submit returns its original result
+    const idempotencyKey = generateSubmissionKey();
+
+    const queueSubmission = (): void => {
+      useSurveySubmissionQueueStore.getState().enqueue({
+        idempotencyKey,
+        userId,
+        surveyId: survey.id,
+        surveyTitle: survey.title,
+        responses,
+        startedAt,
+        ...(surveyLanguages.length > 0 ? { language } : {}),
+        ...(surveyData?.currentVersion ? { surveyVersion: surveyData.currentVersion } : {}),
+      });
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
+      storeSetQueued();
+      closeReviewModal();
+      Alert.alert(
+        "Saved Offline",
+        "Your answers are saved on this device and will be submitted automatically when you're back online.",
+        [{ text: "OK", onPress: () => router.back() }]
+      );
+    };
+
+    // Offline, or a file is still waiting to upload — the queue sends it once connected
+    if (!onlineManager.isOnline() || Object.values(responses).some((answer) => getStagedFileId(answer))) {
+      queueSubmission();
+      return;
+    }
+
     submitSurveyMutation.mutate(
-      { surveyId: survey.id, responses: answers },
+      {
+        surveyId: survey.id,
+        responses,
+        startedAt,
+        idempotencyKey,
+        ...(surveyLanguages.length > 0 ? { language } : {}),
+        ...(surveyData?.currentVersion ? { surveyVersion: surveyData.currentVersion } : {}),
+      },
       {
         onSuccess: (data) => {
           Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
@@ -513,6 +741,17 @@ const SurveyAttemptScreen = (): React.ReactElement => {
           setShowSuccess(true);
         },
         onError: (err) => {
+          // Never reached the server (signal dropped mid-submit) — keep the answers
+          if (err instanceof SurveySubmitError && !err.rejected) {
+            queueSubmission();
+            return;
+          }
+          // The quota filled (or a screener failed) server-side while they answered
+          if (err instanceof SurveySubmitError && (err.code === "SCREENED_OUT" || err.code === "OVER_QUOTA")) {
+            closeReviewModal();
+            endScreening(err.code === "SCREENED_OUT" ? "screened_out" : "over_quota");
+            return;
+          }
           Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error).catch(() => {});
           const message = err.message || "Failed to submit survey. Please try again.";
           
@@ -648,6 +887,55 @@ const SurveyAttemptScreen = (): React.ReactElement => {
     );
   }
 
+  // Finished offline — the answers wait in the submission queue until the device reconnects
+  if (isPendingSync) {
+    return (
+      <View style={[styles.stateContainer, { backgroundColor: colors.background }]}>
+        <StatusBar style={statusBarStyle} />
+        <View style={[styles.alreadyAttemptedIcon, { backgroundColor: withAlpha(colors.primary, 0.12) }]}>
+          <CloudUpload size={48} color={colors.primary} strokeWidth={1.5} />
+        </View>
+        <Text style={[styles.stateTitle, { color: colors.text }]}>Waiting to Submit</Text>
+        <Text style={[styles.stateText, { color: colors.textMuted, textAlign: 'center', maxWidth: 280 }]}>
+          Your answers are saved on this device and will be submitted automatically when you&apos;re back online.
+        </Text>
+        <PrimaryButton
+          title="Browse Other Surveys"
+          onPress={() => router.back()}
+          style={{ marginTop: SPACING.xl }}
+          accessibilityLabel="Go back to browse other surveys"
+        />
+      </View>
+    );
+  }
+
+  // A screener ended the attempt — thank them politely; nothing was submitted or earned
+  if (screeningOutcome) {
+    const overQuota = screeningOutcome === "over_quota";
+    return (
+      <View style={[styles.stateContainer, { backgroundColor: colors.background }]}>
+        <StatusBar style={statusBarStyle} />
+        <View style={[styles.alreadyAttemptedIcon, { backgroundColor: withAlpha(colors.primary, 0.12) }]}>
+          <HeartHandshake size={48} color={colors.primary} strokeWidth={1.5} />
+        </View>
+        <Text style={[styles.stateTitle, { color: colors.text }]}>
+          {overQuota ? "This Survey Is Full" : "Thanks for Your Interest"}
+        </Text>
+        <Text style={[styles.stateText, { color: colors.textMuted, textAlign: 'center', maxWidth: 280 }]}>
+          {overQuota
+            ? "We already have all the responses we need from people like you, so the survey ends here. No points were earned — thank you for your time."
+            : "This survey is looking for a different group of people, so it ends here. No points were earned — thank you for your time."}
+        </Text>
+        <PrimaryButton
+          title="Browse Other Surveys"
+          onPress={() => router.back()}
+          style={{ marginTop: SPACING.xl }}
+          accessibilityLabel="Go back to browse other surveys"
+        />
+      </View>
+    );
+  }
+
   if (error || !survey || survey.questions.length === 0) {
     return (
       <View style={[styles.stateContainer, { backgroundColor: colors.background }]}>
@@ -1071,6 +1359,67 @@ const SurveyAttemptScreen = (): React.ReactElement => {
         );
       }
 
+      case "nps": {
+        const value = isNpsScore(currentAnswer) ? currentAnswer : null;
+        return (
+          <View>
+            <View style={styles.npsRow}>
+              {Array.from({ length: NPS_MAX - NPS_MIN + 1 }).map((_, index) => {
+                const score = NPS_MIN + index;
+                const selected = value === score;
+                return (
+                  <TouchableOpacity
+                    key={score}
+                    onPress={() => {
+                      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {});
+                      setAnswer(score);
+                    }}
+                    style={[
+                      styles.npsCell,
+                      {
+                        borderColor: selected ? colors.primary : colors.border,
+                        backgroundColor: selected ? colors.primary : colors.card,
+                      },
+                    ]}
+                    accessibilityRole="radio"
+                    accessibilityState={{ checked: selected }}
+                    accessibilityLabel={`${score} out of ${NPS_MAX}`}
+                  >
+                    <Text style={[styles.npsCellText, { color: selected ? colors.primaryText : colors.text }]}>
+                      {score}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <View style={styles.npsAnchors}>
+              <Text style={[styles.helperText, { color: colors.textMuted }]}>Not at all likely</Text>
+              <Text style={[styles.helperText, { color: colors.textMuted }]}>Extremely likely</Text>
+            </View>
+          </View>
+        );
+      }
+
+      case "matrix":
+        return (
+          <MatrixQuestion
+            rows={question.options || []}
+            columns={question.matrixColumns || []}
+            columnLabels={question.matrixColumnLabels}
+            value={currentAnswer}
+            onChange={setAnswer}
+          />
+        );
+
+      case "ranking":
+        return (
+          <RankingQuestion
+            items={question.options || []}
+            value={currentAnswer}
+            onChange={setAnswer}
+          />
+        );
+
       case "paragraph":
         return (
           <View style={styles.textFieldWrapper}>
@@ -1216,6 +1565,20 @@ const SurveyAttemptScreen = (): React.ReactElement => {
                 <Text style={[styles.metaText, { color: colors.text }]}>~{formatDuration(survey.estimatedTime)}</Text>
               </View>
             </View>
+
+            {userId && surveyData?.userId !== userId && (
+              <TouchableOpacity
+                style={[
+                  styles.iconButton,
+                  { backgroundColor: colors.card, borderColor: colors.border },
+                ]}
+                onPress={() => setShowReport(true)}
+                accessibilityRole="button"
+                accessibilityLabel="Report survey"
+              >
+                <Flag size={16} color={colors.textMuted} strokeWidth={1.6} />
+              </TouchableOpacity>
+            )}
           </View>
 
           <Text style={[styles.surveyTitle, { color: colors.text }]}>{survey.title}</Text>
@@ -1223,6 +1586,35 @@ const SurveyAttemptScreen = (): React.ReactElement => {
             <Text style={[styles.surveyDescription, { color: colors.textMuted }]}>{survey.description}</Text>
           ) : null}
 
+          {surveyLanguages.length > 0 && (
+            <View style={styles.languageRow} accessibilityRole="radiogroup" accessibilityLabel="Survey language">
+              <Languages size={14} color={colors.textMuted} strokeWidth={1.5} />
+              {surveyLanguages.map((code) => {
+                const selected = code === language;
+                return (
+                  <TouchableOpacity
+                    key={code}
+                    style={[
+                      styles.metaChip,
+                      { backgroundColor: selected ? withAlpha(colors.primary, 0.16) : withAlpha(colors.textMuted, 0.1) },
+                    ]}
+                    onPress={() => {
+                      Haptics.selectionAsync().catch(() => {});
+                      storeSetPreferredLanguage(code);
+                    }}
+                    accessibilityRole="radio"
+                    accessibilityState={{ checked: selected }}
+                    accessibilityLabel={getLanguageName(code)}
+                  >
+                    <Text style={[styles.metaText, { color: selected ? colors.primary : colors.text }]}>
+                      {getLanguageName(code)}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          )}
+
           <View style={styles.rewardRow}>
             <View style={[styles.rewardPill, { backgroundColor: colors.card, borderColor: withAlpha(colors.primary, 0.2) }]}>
               <CheckCircle2 size={16} color={colors.primary} strokeWidth={1.5} />
@@ -1254,7 +1646,7 @@ const SurveyAttemptScreen = (): React.ReactElement => {
           contentContainerStyle={{ paddingHorizontal: SPACING.base, gap: SPACING.sm, marginBottom: SPACING.lg }}
         >
           {visibleQuestions.map((q, idx) => {
-            const answered = !!answers[q.id] && ((): boolean => {
+            const answered = answers[q.id] != null && ((): boolean => {
               const value = answers[q.id];
               switch (q.type) {
                 case "rating":
@@ -1265,6 +1657,10 @@ const SurveyAttemptScreen = (): React.ReactElement => {
                   return typeof value === "string" && value.length > 0;
                 case "text":
                   return typeof value === "string" && value.trim().length > 0;
+                case "nps":
+                case "matrix":
+                case "ranking":
+                  return isAnswerValid(q, value);
                 default:
                   return false;
               }
@@ -1273,7 +1669,7 @@ const SurveyAttemptScreen = (): React.ReactElement => {
             return (
               <TouchableOpacity
                 key={q.id}
-                onPress={() => storeSetCurrentIndex(idx)}
+                onPress={() => jumpToQuestion(idx)}
                 style={[
                   styles.stepChip,
                   {
@@ -1380,14 +1776,14 @@ const SurveyAttemptScreen = (): React.ReactElement => {
               </View>
               <View style={styles.modalHeaderText}>
                 <Text style={[styles.modalTitle, { color: colors.text }]}>Review your responses</Text>
-                <Text style={[styles.modalSubtitle, { color: colors.textMuted }]}>Answered {answeredCount} of {survey.questions.length} questions</Text>
+                <Text style={[styles.modalSubtitle, { color: colors.textMuted }]}>Answered {answeredCount} of {visibleQuestions.length} questions</Text>
               </View>
             </View>
 
             <View style={[styles.modalStats, { backgroundColor: withAlpha(colors.text, 0.04) }]}>
               <View style={styles.modalStatRow}>
                 <Clock size={18} color={colors.text} strokeWidth={1.5} />
-                <Text style={[styles.modalStatText, { color: colors.text }]}>Estimated time left ~ {formatDuration(Math.max(survey.questions.length - currentQuestionIndex - 1, 0) * 2)}</Text>
+                <Text style={[styles.modalStatText, { color: colors.text }]}>Estimated time left ~ {formatDuration(Math.max(visibleQuestions.length - currentQuestionIndex - 1, 0) * 2)}</Text>
               </View>
               <View style={styles.modalStatRow}>
                 <CheckCircle2 size={18} color={colors.primary} strokeWidth={1.5} />
@@ -1442,6 +1838,12 @@ const SurveyAttemptScreen = (): React.ReactElement => {
           </View>
         </InputAccessoryView>
       )}
+
+      <ReportContentModal
+        visible={showReport}
+        target={{ targetType: "survey", targetId: survey.id }}
+        onClose={() => setShowReport(false)}
+      />
     </KeyboardAvoidingView>
   );
 };
@@ -1502,6 +1904,13 @@ const styles = StyleSheet.create({
     fontSize: TYPOGRAPHY.fontSize.base,
     lineHeight: TYPOGRAPHY.fontSize.base * TYPOGRAPHY.lineHeight.relaxed,
   },
+  languageRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    alignItems: "center",
+    gap: SPACING.sm,
+    marginTop: SPACING.md,
+  },
   rewardRow: {
     flexDirection: "row",
     gap: SPACING.sm,
@@ -1664,6 +2073,30 @@ const styles = StyleSheet.create({
     alignItems: "center",
     justifyContent: "center",
   },
+  npsRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: SPACING.xs,
+    justifyContent: "center",
+    paddingTop: SPACING.md,
+  },
+  npsCell: {
+    minWidth: 44,
+    minHeight: 44,
+    borderRadius: RADIUS.md,
+    borderWidth: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  npsCellText: {
+    fontSize: TYPOGRAPHY.fontSize.lg,
+    fontWeight: "600",
+  },
+  npsAnchors: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingTop: SPACING.sm,
+  },
   textFieldWrapper: {
     gap: SPACING.sm,
   },
@@ -0,0 +1,599 @@
+/**
+ * Creator Analytics Screen
+ * How the creator's videos are watched, from feed telemetry
+ *
+ * Features:
+ * - Channel view: views, average view duration, swipe-aways and completion,
+ *   follower growth per day, traffic sources, top videos and top comments
+ * - Video view (`videoId` param): the same metrics against the creator's
+ *   typical (median) video, the retention curve, and plain-language reasons
+ *   it may be underperforming
+ * - 7, 28 or 90 day ranges
+ *
+ * Reached from "Creator analytics" in the profile, or "Analytics" in the
+ * options sheet of the creator's own video.
+ */
+
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { StatusBar } from 'expo-status-bar';
+import { router, useLocalSearchParams, type Href } from 'expo-router';
+import { Image as ExpoImage } from 'expo-image';
+import * as Haptics from '@/utils/haptics';
+import { BarChart3, ChevronLeft, ChevronRight, Lightbulb, MessageCircle, X } from 'lucide-react-native';
+import { PrimaryButton } from '@/components';
+import { useChannelAnalytics, useVideoAnalytics } from '@/services/videoHooks';
+import type {
+  AnalyticsBenchmark,
+  AnalyticsComment,
+  AnalyticsRange,
+  TrafficSourceShare,
+  VideoMetrics,
+} from '@/types';
+import { formatDuration } from '@/utils/video-utils';
+import { getPlaceholderImage } from '@/utils/thumbnail-utils';
+import {
+  ANALYTICS_RANGE_OPTIONS,
+  TRAFFIC_SOURCE_LABELS,
+  analyticsInsights,
+  compareToMedian,
+  formatCount,
+  formatShare,
+  formatWatchTime,
+  type ComparedMetric,
+} from '@/utils/videoAnalytics';
+import {
+  ICON_SIZE,
+  RADIUS,
+  SPACING,
+  TYPOGRAPHY,
+  useTheme,
+  withAlpha,
+} from '@/utils/theme';
+
+const THUMBNAIL_WIDTH = 96;
+const RETENTION_CHART_HEIGHT = 120;
+const FOLLOWER_CHART_HEIGHT = 80;
+
+const METRIC_CARDS: { key: ComparedMetric; label: string; format: (metrics: VideoMetrics) => string }[] = [
+  { key: 'views', label: 'Views', format: (m) => formatCount(m.views) },
+  { key: 'avgViewSeconds', label: 'Avg. view duration', format: (m) => formatWatchTime(m.avgViewSeconds) },
+  { key: 'swipeAwayRate', label: 'Swiped away in 3s', format: (m) => formatShare(m.swipeAwayRate) },
+  { key: 'completionRate', label: 'Watched to the end', format: (m) => formatShare(m.completionRate) },
+];
+
+const VideoAnalyticsScreen = (): React.ReactElement => {
+  const insets = useSafeAreaInsets();
+  const { colors, statusBarStyle } = useTheme();
+  const { videoId } = useLocalSearchParams<{ videoId?: string }>();
+  const [range, setRange] = useState<AnalyticsRange>('28d');
+
+  const videoQuery = useVideoAnalytics(videoId, range);
+  const channelQuery = useChannelAnalytics(range, !videoId);
+  const { isLoading, isError, error, refetch, isRefetching } = videoId ? videoQuery : channelQuery;
+
+  const handleRange = (next: AnalyticsRange) => {
+    if (next === range) return;
+    Haptics.selectionAsync();
+    setRange(next);
+  };
+
+  const header = (
+    <View style={[styles.header, { paddingTop: insets.top + SPACING.sm, borderBottomColor: colors.border }]}>
+      <TouchableOpacity
+        style={styles.backButton}
+        onPress={() => router.back()}
+        hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        accessibilityRole="button"
+        accessibilityLabel="Go back"
+      >
+        <ChevronLeft color={colors.text} size={ICON_SIZE.xl} />
+      </TouchableOpacity>
+      <BarChart3 color={colors.text} size={ICON_SIZE.lg} accessibilityElementsHidden />
+      <Text style={[styles.headerTitle, { color: colors.text }]} accessibilityRole="header">
+        {videoId ? 'Video analytics' : 'Creator analytics'}
+      </Text>
+    </View>
+  );
+
+  if (isLoading) {
+    return (
+      <View
+        style={[styles.centered, { backgroundColor: colors.background }]}
+        accessibilityRole="progressbar"
+        accessibilityLabel="Loading analytics"
+      >
+        <StatusBar style={statusBarStyle} />
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  if (isError) {
+    return (
+      <View style={[styles.container, { backgroundColor: colors.background }]} accessibilityRole="alert">
+        <StatusBar style={statusBarStyle} />
+        {header}
+        <View style={styles.centered}>
+          <X color={colors.error} size={48} accessibilityElementsHidden />
+          <Text style={[styles.message, { color: colors.textSecondary }]}>
+            {error instanceof Error ? error.message : 'Could not load analytics.'}
+          </Text>
+          <PrimaryButton title="Retry" onPress={() => refetch()} />
+        </View>
+      </View>
+    );
+  }
+
+  const rangeChips = (
+    <View style={styles.chips} accessibilityRole="tablist">
+      {ANALYTICS_RANGE_OPTIONS.map((option) => {
+        const selected = option.value === range;
+        return (
+          <TouchableOpacity
+            key={option.value}
+            style={[
+              styles.chip,
+              { borderColor: selected ? colors.primary : colors.border },
+              selected && { backgroundColor: withAlpha(colors.primary, 0.12) },
+            ]}
+            onPress={() => handleRange(option.value)}
+            accessibilityRole="tab"
+            accessibilityState={{ selected }}
+          >
+            <Text style={[styles.chipText, { color: selected ? colors.primary : colors.textSecondary }]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  const metricCards = (metrics: VideoMetrics, benchmark: AnalyticsBenchmark, compare: boolean) => (
+    <View style={styles.cards}>
+      {METRIC_CARDS.map(({ key, label, format }) => {
+        const comparison = compare ? compareToMedian(key, metrics, benchmark) : null;
+        const tone = comparison?.verdict === 'better'
+          ? colors.success
+          : comparison?.verdict === 'worse' ? colors.error : colors.textMuted;
+        return (
+          <View key={key} style={[styles.card, { backgroundColor: colors.card, borderColor: colors.border }]}>
+            <Text style={[styles.cardLabel, { color: colors.textSecondary }]}>{label}</Text>
+            <Text style={[styles.cardValue, { color: colors.text }]}>{format(metrics)}</Text>
+            {comparison && <Text style={[styles.cardMeta, { color: tone }]}>{comparison.label}</Text>}
+          </View>
+        );
+      })}
+    </View>
+  );
+
+  const sectionTitle = (title: string) => (
+    <Text style={[styles.sectionTitle, { color: colors.text }]} accessibilityRole="header">{title}</Text>
+  );
+
+  const retentionChart = (retention: VideoMetrics['retention']) => (
+    <View
+      style={styles.barChart}
+      accessible
+      accessibilityLabel={`Retention: ${retention.map((p) => `${formatShare(p.share)} at ${p.percent}%`).join(', ')}`}
+    >
+      {retention.map((point) => (
+        <View key={point.percent} style={styles.barColumn}>
+          <Text style={[styles.barValue, { color: colors.textSecondary }]}>{formatShare(point.share)}</Text>
+          <View style={[styles.barTrack, { height: RETENTION_CHART_HEIGHT, backgroundColor: withAlpha(colors.primary, 0.08) }]}>
+            <View style={[styles.barFill, { height: `${point.share * 100}%`, backgroundColor: colors.primary }]} />
+          </View>
+          <Text style={[styles.barLabel, { color: colors.textMuted }]}>{point.percent}%</Text>
+        </View>
+      ))}
+    </View>
+  );
+
+  const trafficSources = (sources: TrafficSourceShare[]) => (
+    sources.length === 0
+      ? <Text style={[styles.empty, { color: colors.textMuted }]}>No views in this range.</Text>
+      : sources.map((source) => (
+        <View key={source.source} style={styles.sourceRow}>
+          <Text style={[styles.sourceLabel, { color: colors.text }]}>{TRAFFIC_SOURCE_LABELS[source.source]}</Text>
+          <View style={[styles.sourceTrack, { backgroundColor: withAlpha(colors.primary, 0.08) }]}>
+            <View style={[styles.barFill, { width: `${source.share * 100}%`, backgroundColor: colors.primary }]} />
+          </View>
+          <Text style={[styles.sourceValue, { color: colors.textSecondary }]}>{formatShare(source.share)}</Text>
+        </View>
+      ))
+  );
+
+  const topComments = (comments: AnalyticsComment[]) => (
+    comments.length === 0
+      ? <Text style={[styles.empty, { color: colors.textMuted }]}>No comments in this range.</Text>
+      : comments.map((comment) => (
+        <View key={comment.id} style={[styles.comment, { borderBottomColor: colors.border }]}>
+          <Text style={[styles.commentAuthor, { color: colors.textSecondary }]}>{comment.userName ?? 'Someone'}</Text>
+          <Text style={[styles.commentText, { color: colors.text }]} numberOfLines={3}>{comment.text}</Text>
+          <View style={styles.commentMeta}>
+            <MessageCircle color={colors.textMuted} size={ICON_SIZE.xs} accessibilityElementsHidden />
+            <Text style={[styles.cardMeta, { color: colors.textMuted }]}>
+              {comment.replyCount} {comment.replyCount === 1 ? 'reply' : 'replies'} · {comment.engagement} interactions
+            </Text>
+          </View>
+        </View>
+      ))
+  );
+
+  const refreshControl = (
+    <RefreshControl refreshing={isRefetching} onRefresh={refetch} tintColor={colors.primary} />
+  );
+  const contentStyle = [styles.content, { paddingBottom: insets.bottom + SPACING.xl }];
+
+  if (videoId && videoQuery.data) {
+    const { video, metrics, benchmark, trafficSources: sources, topComments: comments } = videoQuery.data;
+    const insights = analyticsInsights(metrics, benchmark, sources, video.duration);
+    return (
+      <View style={[styles.container, { backgroundColor: colors.background }]}>
+        <StatusBar style={statusBarStyle} />
+        {header}
+        <ScrollView contentContainerStyle={contentStyle} refreshControl={refreshControl}>
+          <View style={styles.videoRow}>
+            <ExpoImage
+              source={{ uri: video.thumbnail || getPlaceholderImage('video') }}
+              style={[styles.thumbnail, { backgroundColor: colors.card }]}
+              contentFit="cover"
+              cachePolicy="memory-disk"
+            />
+            <View style={styles.videoBody}>
+              <Text style={[styles.videoTitle, { color: colors.text }]} numberOfLines={2}>
+                {video.title || 'Untitled video'}
+              </Text>
+              <Text style={[styles.cardMeta, { color: colors.textSecondary }]}>
+                {formatCount(video.lifetimeViews)} views all time · {formatCount(video.likes)} likes · {formatCount(video.comments)} comments
+              </Text>
+            </View>
+          </View>
+          {rangeChips}
+          {metricCards(metrics, benchmark, true)}
+          <Text style={[styles.note, { color: colors.textMuted }]}>
+            {benchmark.videos >= 2
+              ? `Compared with your typical video — the median of ${benchmark.videos} viewed in this range.`
+              : 'Comparisons appear once more of your videos are viewed in this range.'}
+          </Text>
+
+          <View style={[styles.insights, { backgroundColor: withAlpha(colors.primary, 0.08) }]}>
+            <Lightbulb color={colors.primary} size={ICON_SIZE.md} accessibilityElementsHidden />
+            <View style={styles.insightList}>
+              {insights.map((insight) => (
+                <Text key={insight} style={[styles.insightText, { color: colors.text }]}>{insight}</Text>
+              ))}
+            </View>
+          </View>
+
+          {sectionTitle('Retention')}
+          {retentionChart(metrics.retention)}
+          {sectionTitle('Traffic sources')}
+          {trafficSources(sources)}
+          {sectionTitle('Top comments')}
+          {topComments(comments)}
+        </ScrollView>
+      </View>
+    );
+  }
+
+  const channel = channelQuery.data;
+  const daily = channel?.followers.daily ?? [];
+  const maxDaily = Math.max(1, ...daily.map((d) => d.count));
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <StatusBar style={statusBarStyle} />
+      {header}
+      <ScrollView contentContainerStyle={contentStyle} refreshControl={refreshControl}>
+        {rangeChips}
+        {channel && (
+          <>
+            {metricCards(channel.totals, channel.benchmark, false)}
+
+            {sectionTitle('Followers')}
+            <Text style={[styles.followers, { color: colors.text }]}>
+              {formatCount(channel.followers.total)}
+              <Text style={{ color: channel.followers.gained > 0 ? colors.success : colors.textMuted }}>
+                {'  '}+{formatCount(channel.followers.gained)} in this range
+              </Text>
+            </Text>
+            <View
+              style={[styles.followerChart, { height: FOLLOWER_CHART_HEIGHT }]}
+              accessible
+              accessibilityLabel={`${channel.followers.gained} new followers over ${daily.length} days`}
+            >
+              {daily.map((day) => (
+                <View
+                  key={day.date}
+                  style={[
+                    styles.followerBar,
+                    {
+                      height: `${Math.max(2, (day.count / maxDaily) * 100)}%`,
+                      backgroundColor: day.count > 0 ? colors.primary : withAlpha(colors.primary, 0.15),
+                    },
+                  ]}
+                />
+              ))}
+            </View>
+
+            {sectionTitle('Traffic sources')}
+            {trafficSources(channel.trafficSources)}
+
+            {sectionTitle('Top videos')}
+            {channel.topVideos.length === 0 ? (
+              <Text style={[styles.empty, { color: colors.textMuted }]}>
+                {channel.videoCount === 0 ? 'Upload a video to see how it does.' : 'No views in this range.'}
+              </Text>
+            ) : (
+              channel.topVideos.map(({ video, metrics }) => (
+                <TouchableOpacity
+                  key={video.id}
+                  style={styles.videoRow}
+                  onPress={() => {
+                    Haptics.selectionAsync();
+                    router.push({ pathname: '/video-analytics', params: { videoId: video.id } } as Href);
+                  }}
+                  accessibilityRole="button"
+                  accessibilityLabel={`${video.title || 'Untitled video'}, ${formatCount(metrics.views)} views`}
+                  accessibilityHint="Opens this video's analytics"
+                >
+                  <View style={[styles.thumbnail, { backgroundColor: colors.card }]}>
+                    <ExpoImage
+                      source={{ uri: video.thumbnail || getPlaceholderImage('video') }}
+                      style={StyleSheet.absoluteFill}
+                      contentFit="cover"
+                      cachePolicy="memory-disk"
+                      recyclingKey={video.id}
+                    />
+                    {!!video.duration && <Text style={styles.duration}>{formatDuration(video.duration)}</Text>}
+                  </View>
+                  <View style={styles.videoBody}>
+                    <Text style={[styles.videoTitle, { color: colors.text }]} numberOfLines={2}>
+                      {video.title || 'Untitled video'}
+                    </Text>
+                    <Text style={[styles.cardMeta, { color: colors.textSecondary }]}>
+                      {formatCount(metrics.views)} views · {formatWatchTime(metrics.avgViewSeconds)} avg · {formatShare(metrics.swipeAwayRate)} swiped away
+                    </Text>
+                  </View>
+                  <ChevronRight color={colors.textMuted} size={ICON_SIZE.md} />
+                </TouchableOpacity>
+              ))
+            )}
+
+            {sectionTitle('Top comments')}
+            {topComments(channel.topComments)}
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: SPACING.md,
+    padding: SPACING.xl,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    paddingHorizontal: SPACING.md,
+    paddingBottom: SPACING.md,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    padding: SPACING.xs,
+  },
+  headerTitle: {
+    flex: 1,
+    fontFamily: TYPOGRAPHY.fontFamily.bold,
+    fontSize: TYPOGRAPHY.fontSize.lg,
+  },
+  content: {
+    padding: SPACING.md,
+    gap: SPACING.md,
+  },
+  message: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.base,
+    textAlign: 'center',
+  },
+  chips: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+  },
+  chip: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+    borderWidth: 1,
+    borderRadius: RADIUS.full,
+  },
+  chipText: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  cards: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.sm,
+  },
+  card: {
+    flexGrow: 1,
+    flexBasis: '45%',
+    padding: SPACING.md,
+    borderWidth: 1,
+    borderRadius: RADIUS.md,
+    gap: SPACING.xxs,
+  },
+  cardLabel: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  cardValue: {
+    fontFamily: TYPOGRAPHY.fontFamily.bold,
+    fontSize: TYPOGRAPHY.fontSize.xl,
+  },
+  cardMeta: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  note: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  insights: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+    padding: SPACING.md,
+    borderRadius: RADIUS.md,
+  },
+  insightList: {
+    flex: 1,
+    gap: SPACING.xs,
+  },
+  insightText: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  sectionTitle: {
+    fontFamily: TYPOGRAPHY.fontFamily.bold,
+    fontSize: TYPOGRAPHY.fontSize.base,
+    marginTop: SPACING.sm,
+  },
+  empty: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  barChart: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+  },
+  barColumn: {
+    flex: 1,
+    alignItems: 'center',
+    gap: SPACING.xxs,
+  },
+  barTrack: {
+    width: '100%',
+    justifyContent: 'flex-end',
+    borderRadius: RADIUS.sm,
+    overflow: 'hidden',
+  },
+  barFill: {
+    width: '100%',
+    height: '100%',
+  },
+  barValue: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  barLabel: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  sourceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+  },
+  sourceLabel: {
+    width: 80,
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  sourceTrack: {
+    flex: 1,
+    height: 8,
+    borderRadius: RADIUS.sm,
+    overflow: 'hidden',
+  },
+  sourceValue: {
+    width: 44,
+    textAlign: 'right',
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  followers: {
+    fontFamily: TYPOGRAPHY.fontFamily.bold,
+    fontSize: TYPOGRAPHY.fontSize.xl,
+  },
+  followerChart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 1,
+  },
+  followerBar: {
+    flex: 1,
+    borderTopLeftRadius: 2,
+    borderTopRightRadius: 2,
+  },
+  videoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.md,
+  },
+  thumbnail: {
+    width: THUMBNAIL_WIDTH,
+    aspectRatio: 16 / 9,
+    borderRadius: RADIUS.md,
+    overflow: 'hidden',
+  },
+  duration: {
+    position: 'absolute',
+    right: SPACING.xs,
+    bottom: SPACING.xs,
+    paddingHorizontal: SPACING.xs,
+    borderRadius: RADIUS.sm,
+    overflow: 'hidden',
+    backgroundColor: 'rgba(0,0,0,0.7)',
+    color: '#FFFFFF',
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  videoBody: {
+    flex: 1,
+    gap: SPACING.xxs,
+  },
+  videoTitle: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  comment: {
+    gap: SPACING.xxs,
+    paddingBottom: SPACING.sm,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  commentAuthor: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  commentText: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  commentMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.xxs,
+  },
+});
+
+export default VideoAnalyticsScreen;
@@ -0,0 +1,692 @@
+/**
+ * Video Caption Editor Screen
+ * The creator's caption tracks for one video, one language at a time
+ *
+ * Features:
+ * - Track chips per language, with generating / failed states for auto tracks
+ * - Line-by-line editing: text, start and end ("1:23.5"), add and delete lines;
+ *   checked with the same rules as the server before saving
+ * - Add a language by uploading a .vtt/.srt file or auto-generating it
+ * - Delete a track
+ *
+ * Reached from "Edit captions" in VideoOptionsSheet (own videos only).
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  KeyboardAvoidingView,
+  Platform,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { StatusBar } from 'expo-status-bar';
+import { router, useLocalSearchParams } from 'expo-router';
+import * as DocumentPicker from 'expo-document-picker';
+import * as Haptics from '@/utils/haptics';
+import { Captions, ChevronLeft, Plus, Sparkles, Trash2, Upload, X } from 'lucide-react-native';
+import { PrimaryButton } from '@/components';
+import {
+  useDeleteCaption,
+  useRequestAutoCaptions,
+  useSaveCaptions,
+  useUploadCaption,
+  useVideoCaptions,
+} from '@/services/videoHooks';
+import type { CaptionCue, VideoCaptionTrack } from '@/types';
+import {
+  CAPTION_LANGUAGES,
+  MAX_CUE_CHARS,
+  formatCueTime,
+  getCaptionLanguageName,
+  insertCueAfter,
+  parseCueTime,
+  validateCueEdits,
+} from '@/utils/captions';
+import {
+  ICON_SIZE,
+  RADIUS,
+  SPACING,
+  TYPOGRAPHY,
+  useTheme,
+  withAlpha,
+} from '@/utils/theme';
+
+/** A cue as typed — times stay text until save so half-typed values aren't rewritten */
+interface DraftCue {
+  key: string;
+  start: string;
+  end: string;
+  text: string;
+}
+
+const toCues = (rows: DraftCue[]): CaptionCue[] =>
+  rows.map((row) => ({
+    start: parseCueTime(row.start) ?? Number.NaN,
+    end: parseCueTime(row.end) ?? Number.NaN,
+    text: row.text,
+  }));
+
+const STATUS_LABELS: Record<VideoCaptionTrack['status'], string> = {
+  pending: 'Queued',
+  processing: 'Generating',
+  ready: 'Ready',
+  failed: 'Failed',
+};
+
+const VideoCaptionsScreen = (): React.ReactElement => {
+  const insets = useSafeAreaInsets();
+  const { colors, statusBarStyle } = useTheme();
+  const { id } = useLocalSearchParams<{ id?: string }>();
+  const videoId = Array.isArray(id) ? id?.[0] : id;
+
+  const { data: tracks = [], isLoading, isError, error, refetch } = useVideoCaptions(videoId);
+  const saveCaptions = useSaveCaptions();
+  const deleteCaption = useDeleteCaption();
+  const uploadCaption = useUploadCaption();
+  const requestAutoCaptions = useRequestAutoCaptions();
+
+  const [selectedLanguage, setSelectedLanguage] = useState<string | null>(null);
+  const [rows, setRows] = useState<DraftCue[]>([]);
+  const [isDirty, setIsDirty] = useState(false);
+  const [invalid, setInvalid] = useState<{ index: number; message: string } | null>(null);
+  const nextKeyRef = useRef(0);
+  const newKey = () => `cue-${(nextKeyRef.current += 1)}`;
+
+  const track = tracks.find((t) => t.language === selectedLanguage) ?? tracks[0] ?? null;
+  const missingLanguages = useMemo(
+    () => CAPTION_LANGUAGES.filter(({ code }) => !tracks.some((t) => t.language === code)),
+    [tracks],
+  );
+  const isBusy = saveCaptions.isPending || deleteCaption.isPending;
+
+  // Load the track into the draft when it changes — including after a save,
+  // which bumps updatedAt and hands back the cleaned-up cues
+  useEffect(() => {
+    setRows(
+      (track?.cues ?? []).map((cue) => ({
+        key: newKey(),
+        start: formatCueTime(cue.start),
+        end: formatCueTime(cue.end),
+        text: cue.text,
+      })),
+    );
+    setIsDirty(false);
+    setInvalid(null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [track?.language, track?.updatedAt]);
+
+  const confirmDiscard = (then: () => void) => {
+    if (!isDirty) {
+      then();
+      return;
+    }
+    Alert.alert('Discard changes?', 'Your edits to these captions are not saved.', [
+      { text: 'Keep editing', style: 'cancel' },
+      { text: 'Discard', style: 'destructive', onPress: then },
+    ]);
+  };
+
+  const updateRow = (key: string, changes: Partial<DraftCue>) => {
+    setRows((prev) => prev.map((row) => (row.key === key ? { ...row, ...changes } : row)));
+    setIsDirty(true);
+    setInvalid(null);
+  };
+
+  const handleAddAfter = (index: number) => {
+    const added = insertCueAfter(toCues(rows), index)[index + 1];
+    const start = Number.isFinite(added.start) ? added.start : 0;
+    const row = { key: newKey(), start: formatCueTime(start), end: formatCueTime(start + 2), text: '' };
+    setRows((prev) => [...prev.slice(0, index + 1), row, ...prev.slice(index + 1)]);
+    setIsDirty(true);
+    setInvalid(null);
+  };
+
+  const handleRemove = (key: string) => {
+    setRows((prev) => prev.filter((row) => row.key !== key));
+    setIsDirty(true);
+    setInvalid(null);
+  };
+
+  const handleSave = () => {
+    if (!videoId || !track) return;
+    const cues = toCues(rows);
+    const problem = validateCueEdits(cues);
+    if (problem) {
+      setInvalid(problem);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error).catch(() => {});
+      Alert.alert(
+        'Check your captions',
+        problem.index >= 0 ? `Line ${problem.index + 1}: ${problem.message}` : problem.message,
+      );
+      return;
+    }
+    saveCaptions.mutate(
+      { videoId, language: track.language, cues },
+      {
+        onSuccess: () => {
+          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
+        },
+        onError: (err) => Alert.alert('Save failed', err.message),
+      },
+    );
+  };
+
+  const handleDeleteTrack = () => {
+    if (!videoId || !track) return;
+    Alert.alert(
+      `Delete ${getCaptionLanguageName(track.language)} captions?`,
+      'Viewers will no longer see captions in this language.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () =>
+            deleteCaption.mutate(
+              { videoId, language: track.language },
+              {
+                onSuccess: () => setSelectedLanguage(null),
+                onError: (err) => Alert.alert('Delete failed', err.message),
+              },
+            ),
+        },
+      ],
+    );
+  };
+
+  const handleGenerate = (language: string) => {
+    if (!videoId) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    requestAutoCaptions.mutate(
+      { videoId, language },
+      {
+        onSuccess: () => setSelectedLanguage(language),
+        onError: (err) => Alert.alert('Could not generate captions', err.message),
+      },
+    );
+  };
+
+  const handleUpload = async (language: string) => {
+    if (!videoId) return;
+    try {
+      const result = await DocumentPicker.getDocumentAsync({ type: '*/*', copyToCacheDirectory: true });
+      if (result.canceled || !result.assets?.[0]) return;
+      const file = result.assets[0];
+      if (!/\.(vtt|srt)$/i.test(file.name || '')) {
+        Alert.alert('Unsupported file', 'Choose a WebVTT (.vtt) or SubRip (.srt) caption file.');
+        return;
+      }
+      uploadCaption.mutate(
+        { videoId, file: { uri: file.uri, name: file.name, mimeType: file.mimeType }, language },
+        {
+          onSuccess: () => setSelectedLanguage(language),
+          onError: (err) => Alert.alert('Upload failed', err.message),
+        },
+      );
+    } catch {
+      Alert.alert('Error', 'Failed to select caption file. Please try again.');
+    }
+  };
+
+  const handleBack = () => confirmDiscard(() => router.back());
+
+  const renderRow = ({ item, index }: { item: DraftCue; index: number }) => {
+    const isInvalid = invalid?.index === index;
+    const inputStyle = [
+      styles.timeInput,
+      { color: colors.text, borderColor: colors.border, backgroundColor: colors.background },
+    ];
+    return (
+      <View
+        style={[
+          styles.cueCard,
+          { backgroundColor: colors.card, borderColor: isInvalid ? colors.error : colors.border },
+        ]}
+      >
+        <View style={styles.cueHeader}>
+          <Text style={[styles.cueIndex, { color: colors.textMuted }]}>{index + 1}</Text>
+          <TextInput
+            value={item.start}
+            onChangeText={(start) => updateRow(item.key, { start })}
+            style={inputStyle}
+            keyboardType="numbers-and-punctuation"
+            accessibilityLabel={`Line ${index + 1} start time`}
+          />
+          <Text style={[styles.cueArrow, { color: colors.textMuted }]}>→</Text>
+          <TextInput
+            value={item.end}
+            onChangeText={(end) => updateRow(item.key, { end })}
+            style={inputStyle}
+            keyboardType="numbers-and-punctuation"
+            accessibilityLabel={`Line ${index + 1} end time`}
+          />
+          <View style={styles.cueActions}>
+            <TouchableOpacity
+              onPress={() => handleAddAfter(index)}
+              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+              accessibilityRole="button"
+              accessibilityLabel={`Add a line after line ${index + 1}`}
+            >
+              <Plus color={colors.primary} size={ICON_SIZE.md} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => handleRemove(item.key)}
+              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+              accessibilityRole="button"
+              accessibilityLabel={`Delete line ${index + 1}`}
+            >
+              <Trash2 color={colors.error} size={ICON_SIZE.md} />
+            </TouchableOpacity>
+          </View>
+        </View>
+        <TextInput
+          value={item.text}
+          onChangeText={(text) => updateRow(item.key, { text })}
+          style={[styles.cueText, { color: colors.text, borderColor: colors.border, backgroundColor: colors.background }]}
+          multiline
+          maxLength={MAX_CUE_CHARS}
+          placeholder="Caption text"
+          placeholderTextColor={colors.textMuted}
+          accessibilityLabel={`Line ${index + 1} text`}
+        />
+        {isInvalid && (
+          <Text style={[styles.cueError, { color: colors.error }]} accessibilityRole="alert">
+            {invalid.message}
+          </Text>
+        )}
+      </View>
+    );
+  };
+
+  const header = (
+    <View style={[styles.header, { paddingTop: insets.top + SPACING.sm, borderBottomColor: colors.border }]}>
+      <TouchableOpacity
+        style={styles.backButton}
+        onPress={handleBack}
+        hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        accessibilityRole="button"
+        accessibilityLabel="Go back"
+      >
+        <ChevronLeft color={colors.text} size={ICON_SIZE.xl} />
+      </TouchableOpacity>
+      <Captions color={colors.text} size={ICON_SIZE.lg} accessibilityElementsHidden />
+      <Text style={[styles.headerTitle, { color: colors.text }]} accessibilityRole="header">
+        Captions
+      </Text>
+      {track?.status === 'ready' && (
+        <TouchableOpacity
+          style={[styles.saveButton, { backgroundColor: isDirty ? colors.primary : withAlpha(colors.primary, 0.3) }]}
+          onPress={handleSave}
+          disabled={!isDirty || isBusy}
+          accessibilityRole="button"
+          accessibilityLabel="Save captions"
+          accessibilityState={{ disabled: !isDirty || isBusy, busy: saveCaptions.isPending }}
+        >
+          {saveCaptions.isPending
+            ? <ActivityIndicator size="small" color={colors.primaryText} />
+            : <Text style={[styles.saveText, { color: colors.primaryText }]}>Save</Text>}
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
+  if (isLoading) {
+    return (
+      <View
+        style={[styles.centered, { backgroundColor: colors.background }]}
+        accessibilityRole="progressbar"
+        accessibilityLabel="Loading captions"
+      >
+        <StatusBar style={statusBarStyle} />
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  if (isError) {
+    return (
+      <View style={[styles.container, { backgroundColor: colors.background }]} accessibilityRole="alert">
+        <StatusBar style={statusBarStyle} />
+        {header}
+        <View style={styles.centered}>
+          <X color={colors.error} size={48} accessibilityElementsHidden />
+          <Text style={[styles.message, { color: colors.textSecondary }]}>
+            {error instanceof Error ? error.message : 'Could not load the captions.'}
+          </Text>
+          <PrimaryButton title="Retry" onPress={() => refetch()} />
+        </View>
+      </View>
+    );
+  }
+
+  const trackChips = (
+    <View style={styles.chips}>
+      {tracks.map((t) => {
+        const selected = t.language === track?.language;
+        return (
+          <TouchableOpacity
+            key={t.language}
+            style={[
+              styles.chip,
+              {
+                borderColor: selected ? colors.primary : colors.border,
+                backgroundColor: selected ? withAlpha(colors.primary, 0.1) : 'transparent',
+              },
+            ]}
+            onPress={() => !selected && confirmDiscard(() => setSelectedLanguage(t.language))}
+            accessibilityRole="tab"
+            accessibilityState={{ selected }}
+            accessibilityLabel={`${getCaptionLanguageName(t.language)}, ${STATUS_LABELS[t.status]}`}
+          >
+            <Text style={[styles.chipText, { color: selected ? colors.primary : colors.text }]}>
+              {getCaptionLanguageName(t.language)}
+            </Text>
+            <Text style={[styles.chipMeta, { color: t.status === 'failed' ? colors.error : colors.textMuted }]}>
+              {t.source === 'auto' ? 'Auto · ' : ''}{STATUS_LABELS[t.status]}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  const addLanguages = missingLanguages.length > 0 && (
+    <View style={[styles.addSection, { borderColor: colors.border }]}>
+      <Text style={[styles.sectionTitle, { color: colors.text }]}>Add a language</Text>
+      {missingLanguages.map(({ code, name }) => (
+        <View key={code} style={styles.addRow}>
+          <Text style={[styles.addLanguage, { color: colors.text }]}>{name}</Text>
+          <TouchableOpacity
+            style={[styles.addButton, { borderColor: colors.border }]}
+            onPress={() => handleUpload(code)}
+            disabled={uploadCaption.isPending}
+            accessibilityRole="button"
+            accessibilityLabel={`Upload ${name} caption file`}
+          >
+            <Upload color={colors.text} size={ICON_SIZE.sm} />
+            <Text style={[styles.addButtonText, { color: colors.text }]}>File</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.addButton, { borderColor: colors.primary }]}
+            onPress={() => handleGenerate(code)}
+            disabled={requestAutoCaptions.isPending}
+            accessibilityRole="button"
+            accessibilityLabel={`Auto-generate ${name} captions`}
+          >
+            <Sparkles color={colors.primary} size={ICON_SIZE.sm} />
+            <Text style={[styles.addButtonText, { color: colors.primary }]}>Generate</Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+    </View>
+  );
+
+  const trackStatus = track && track.status !== 'ready' && (
+    <View style={[styles.statusCard, { backgroundColor: colors.card, borderColor: colors.border }]}>
+      {track.status === 'failed' ? (
+        <>
+          <Text style={[styles.message, { color: colors.textSecondary }]}>
+            Generating {getCaptionLanguageName(track.language)} captions failed.
+          </Text>
+          <PrimaryButton
+            title="Try again"
+            onPress={() => handleGenerate(track.language)}
+            loading={requestAutoCaptions.isPending}
+          />
+        </>
+      ) : (
+        <>
+          <ActivityIndicator color={colors.primary} />
+          <Text style={[styles.message, { color: colors.textSecondary }]}>
+            {getCaptionLanguageName(track.language)} captions are being generated. You can edit them once they are ready.
+          </Text>
+        </>
+      )}
+    </View>
+  );
+
+  const listHeader = (
+    <View style={styles.listHeader}>
+      {tracks.length === 0 ? (
+        <Text style={[styles.intro, { color: colors.textSecondary }]}>
+          No captions yet. Captions help deaf and hard-of-hearing viewers, and anyone watching with the sound off.
+        </Text>
+      ) : (
+        trackChips
+      )}
+      {trackStatus}
+      {track?.status === 'ready' && (
+        <View style={styles.trackBar}>
+          <Text style={[styles.intro, { color: colors.textSecondary }]}>
+            {rows.length} {rows.length === 1 ? 'line' : 'lines'} · times as m:ss.s
+          </Text>
+          <TouchableOpacity
+            onPress={handleDeleteTrack}
+            disabled={isBusy}
+            accessibilityRole="button"
+            accessibilityLabel={`Delete ${getCaptionLanguageName(track.language)} captions`}
+          >
+            <Text style={[styles.deleteText, { color: colors.error }]}>Delete track</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+      {track?.status === 'ready' && rows.length === 0 && (
+        <TouchableOpacity
+          style={[styles.addButton, styles.addFirst, { borderColor: colors.primary }]}
+          onPress={() => handleAddAfter(-1)}
+          accessibilityRole="button"
+          accessibilityLabel="Add a line"
+        >
+          <Plus color={colors.primary} size={ICON_SIZE.sm} />
+          <Text style={[styles.addButtonText, { color: colors.primary }]}>Add a line</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
+  return (
+    <KeyboardAvoidingView
+      style={[styles.container, { backgroundColor: colors.background }]}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      <StatusBar style={statusBarStyle} />
+      {header}
+      <FlatList
+        data={track?.status === 'ready' ? rows : []}
+        keyExtractor={(row) => row.key}
+        renderItem={renderRow}
+        extraData={rows}
+        ListHeaderComponent={listHeader}
+        ListFooterComponent={addLanguages || null}
+        contentContainerStyle={[styles.list, { paddingBottom: insets.bottom + SPACING.xl }]}
+        keyboardShouldPersistTaps="handled"
+        initialNumToRender={12}
+        windowSize={7}
+      />
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: SPACING.md,
+    padding: SPACING.xl,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    paddingHorizontal: SPACING.md,
+    paddingBottom: SPACING.md,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    padding: SPACING.xs,
+  },
+  headerTitle: {
+    flex: 1,
+    fontFamily: TYPOGRAPHY.fontFamily.bold,
+    fontSize: TYPOGRAPHY.fontSize.lg,
+  },
+  saveButton: {
+    minWidth: 72,
+    alignItems: 'center',
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+    borderRadius: RADIUS.full,
+  },
+  saveText: {
+    fontFamily: TYPOGRAPHY.fontFamily.bold,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  list: {
+    padding: SPACING.md,
+    gap: SPACING.sm,
+  },
+  listHeader: {
+    gap: SPACING.md,
+    marginBottom: SPACING.xs,
+  },
+  intro: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.sm,
+  },
+  chip: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+    borderWidth: 1,
+    borderRadius: RADIUS.md,
+  },
+  chipText: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  chipMeta: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  statusCard: {
+    alignItems: 'center',
+    gap: SPACING.md,
+    padding: SPACING.lg,
+    borderWidth: 1,
+    borderRadius: RADIUS.lg,
+  },
+  message: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+    textAlign: 'center',
+  },
+  trackBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  deleteText: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  cueCard: {
+    borderWidth: 1,
+    borderRadius: RADIUS.md,
+    padding: SPACING.sm,
+    gap: SPACING.sm,
+  },
+  cueHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.xs,
+  },
+  cueIndex: {
+    minWidth: 24,
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  timeInput: {
+    width: 72,
+    borderWidth: 1,
+    borderRadius: RADIUS.sm,
+    paddingHorizontal: SPACING.xs,
+    paddingVertical: 4,
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+    textAlign: 'center',
+  },
+  cueArrow: {
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  cueActions: {
+    flex: 1,
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: SPACING.md,
+  },
+  cueText: {
+    borderWidth: 1,
+    borderRadius: RADIUS.sm,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xs,
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.base,
+  },
+  cueError: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  addSection: {
+    marginTop: SPACING.lg,
+    paddingTop: SPACING.md,
+    borderTopWidth: 1,
+    gap: SPACING.sm,
+  },
+  sectionTitle: {
+    fontFamily: TYPOGRAPHY.fontFamily.bold,
+    fontSize: TYPOGRAPHY.fontSize.base,
+  },
+  addRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+  },
+  addLanguage: {
+    flex: 1,
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.xs,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xs,
+    borderWidth: 1,
+    borderRadius: RADIUS.md,
+  },
+  addFirst: {
+    alignSelf: 'flex-start',
+  },
+  addButtonText: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+});
+
+export default VideoCaptionsScreen;
@@ -17,7 +17,7 @@ import { View, Text, StyleSheet, Pressable, ScrollView } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { StatusBar } from 'expo-status-bar';
 import { router } from 'expo-router';
-import { ArrowLeft, Upload, Wifi, Camera, Crown } from 'lucide-react-native';
+import { ArrowLeft, Upload, Wifi, Camera, Download, Crown } from 'lucide-react-native';
 import * as Haptics from '@/utils/haptics';
 import {
   useTheme,
@@ -94,6 +94,7 @@ export default function VideoSubscriptionScreen() {
             { icon: Upload, text: 'Upload videos up to 500 MB' },
             { icon: Wifi, text: 'Livestream up to 2 hours' },
             { icon: Camera, text: 'Record videos up to 30 minutes' },
+            { icon: Download, text: 'Download videos to watch offline' },
           ]}
           onPurchaseComplete={() => {
             Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
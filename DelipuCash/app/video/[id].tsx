@@ -28,6 +28,7 @@ import {
 import { VideoPlayer } from '@/components/video';
 import { useVideoDetails, useLikeVideo } from '@/services/videoHooks';
 import { useVideoFeedStore, selectLikedVideoIds } from '@/store/VideoFeedStore';
+import type { Video } from '@/types';
 
 export default function VideoDeepLinkScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
@@ -59,6 +60,11 @@ export default function VideoDeepLinkScreen() {
     );
   }, [video, toggleLike, likeVideoMutate]);
 
+  // Next part of a series — replace, so Back leaves the series rather than stepping through it
+  const handlePlayNext = useCallback((next: Video) => {
+    router.replace(`/video/${next.id}` as Href);
+  }, []);
+
   // Loading state
   if (isLoading) {
     return (
@@ -106,6 +112,7 @@ export default function VideoDeepLinkScreen() {
       videoDetails={video}
       onClose={handleClose}
       onLike={handleLike}
+      onPlayNext={handlePlayNext}
       isLiked={likedVideoIds.has(video.id)}
       autoPlay
       loop={false}
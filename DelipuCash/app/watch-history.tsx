@@ -0,0 +1,417 @@
+/**
+ * Watch History Screen
+ * Every video the viewer has watched, newest first, grouped by day
+ *
+ * Features:
+ * - Thumbnail with how far they got, and where playback will resume
+ * - Tap to continue watching; the player picks up at the saved position
+ * - Remove one video, clear everything, or pause recording new history
+ * - Pages in older history as the list scrolls
+ *
+ * Reached from "Watch history" in the profile's settings.
+ */
+
+import React, { useMemo } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  RefreshControl,
+  SectionList,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { StatusBar } from 'expo-status-bar';
+import { router, type Href } from 'expo-router';
+import { Image as ExpoImage } from 'expo-image';
+import * as Haptics from '@/utils/haptics';
+import { ChevronLeft, History, Pause, Play, Trash2, X } from 'lucide-react-native';
+import { PrimaryButton } from '@/components';
+import {
+  useClearWatchHistory,
+  useRemoveWatchHistoryEntry,
+  useSetWatchHistoryPaused,
+  useWatchHistory,
+} from '@/services/videoHooks';
+import { useVideoStore, selectWatchHistory } from '@/store/VideoStore';
+import type { WatchHistoryItem } from '@/types';
+import { formatDuration } from '@/utils/video-utils';
+import { getPlaceholderImage } from '@/utils/thumbnail-utils';
+import { COMPLETE_PERCENT, groupHistoryByDay, withLocalProgress } from '@/utils/watchHistory';
+import {
+  ICON_SIZE,
+  RADIUS,
+  SPACING,
+  TYPOGRAPHY,
+  useTheme,
+  withAlpha,
+} from '@/utils/theme';
+
+const THUMBNAIL_WIDTH = 128;
+
+const WatchHistoryScreen = (): React.ReactElement => {
+  const insets = useSafeAreaInsets();
+  const { colors, statusBarStyle } = useTheme();
+
+  const {
+    data,
+    isLoading,
+    isError,
+    error,
+    refetch,
+    isRefetching,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useWatchHistory();
+  const removeEntry = useRemoveWatchHistoryEntry();
+  const clearHistory = useClearWatchHistory();
+  const setPaused = useSetWatchHistoryPaused();
+  const localHistory = useVideoStore(selectWatchHistory);
+
+  const paused = data?.pages[0]?.paused ?? false;
+  const sections = useMemo(() => {
+    const entries = data?.pages.flatMap((page) => page.entries) ?? [];
+    return groupHistoryByDay(withLocalProgress(entries, localHistory));
+  }, [data, localHistory]);
+  const isEmpty = sections.length === 0;
+
+  const handleOpen = (item: WatchHistoryItem) => {
+    if (!item.video) return;
+    Haptics.selectionAsync();
+    router.push(`/video/${item.videoId}` as Href);
+  };
+
+  const handleRemove = (item: WatchHistoryItem) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    removeEntry.mutate(item.videoId, {
+      onError: (err) => Alert.alert('Could not remove video', err.message),
+    });
+  };
+
+  const handleClear = () => {
+    Alert.alert('Clear watch history?', 'Resume positions are forgotten on all your devices.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Clear',
+        style: 'destructive',
+        onPress: () =>
+          clearHistory.mutate(undefined, {
+            onSuccess: () => {
+              Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
+            },
+            onError: (err) => Alert.alert('Could not clear history', err.message),
+          }),
+      },
+    ]);
+  };
+
+  const handleTogglePaused = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    setPaused.mutate(!paused, {
+      onError: (err) => Alert.alert('Could not update history', err.message),
+    });
+  };
+
+  const renderItem = ({ item }: { item: WatchHistoryItem }) => {
+    const { video } = item;
+    const finished = item.progressPercent >= COMPLETE_PERCENT;
+    const creator = video?.user ? `${video.user.firstName} ${video.user.lastName}`.trim() : null;
+    const status = finished
+      ? 'Watched'
+      : item.resumeAt !== null
+        ? `Resume at ${formatDuration(item.resumeAt)}`
+        : `${item.progressPercent}% watched`;
+    return (
+      <TouchableOpacity
+        style={styles.row}
+        onPress={() => handleOpen(item)}
+        disabled={!video}
+        accessibilityRole="button"
+        accessibilityLabel={video ? `${video.title || 'Untitled video'}, ${status}` : 'Video no longer available'}
+        accessibilityHint={video ? 'Continues playing the video' : undefined}
+      >
+        <View style={[styles.thumbnail, { backgroundColor: colors.card }]}>
+          <ExpoImage
+            source={{ uri: video?.thumbnail || getPlaceholderImage('video') }}
+            style={StyleSheet.absoluteFill}
+            contentFit="cover"
+            cachePolicy="memory-disk"
+            recyclingKey={item.videoId}
+          />
+          <Text style={styles.duration}>{formatDuration(item.durationSeconds)}</Text>
+          <View style={[styles.progressTrack, { backgroundColor: withAlpha('#FFFFFF', 0.35) }]}>
+            <View style={[styles.progressFill, { width: `${item.progressPercent}%`, backgroundColor: colors.primary }]} />
+          </View>
+        </View>
+        <View style={styles.rowBody}>
+          <Text style={[styles.rowTitle, { color: video ? colors.text : colors.textMuted }]} numberOfLines={2}>
+            {video ? video.title || 'Untitled video' : 'Video no longer available'}
+          </Text>
+          {creator && (
+            <Text style={[styles.rowMeta, { color: colors.textSecondary }]} numberOfLines={1}>
+              {creator}
+            </Text>
+          )}
+          <Text style={[styles.rowMeta, { color: finished ? colors.textMuted : colors.primary }]}>{status}</Text>
+        </View>
+        <TouchableOpacity
+          onPress={() => handleRemove(item)}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          accessibilityRole="button"
+          accessibilityLabel={`Remove ${video?.title || 'video'} from watch history`}
+        >
+          <X color={colors.textMuted} size={ICON_SIZE.md} />
+        </TouchableOpacity>
+      </TouchableOpacity>
+    );
+  };
+
+  const header = (
+    <View style={[styles.header, { paddingTop: insets.top + SPACING.sm, borderBottomColor: colors.border }]}>
+      <TouchableOpacity
+        style={styles.backButton}
+        onPress={() => router.back()}
+        hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        accessibilityRole="button"
+        accessibilityLabel="Go back"
+      >
+        <ChevronLeft color={colors.text} size={ICON_SIZE.xl} />
+      </TouchableOpacity>
+      <History color={colors.text} size={ICON_SIZE.lg} accessibilityElementsHidden />
+      <Text style={[styles.headerTitle, { color: colors.text }]} accessibilityRole="header">
+        Watch history
+      </Text>
+      {data && (
+        <TouchableOpacity
+          style={styles.headerAction}
+          onPress={handleTogglePaused}
+          disabled={setPaused.isPending}
+          accessibilityRole="switch"
+          accessibilityLabel="Record watch history"
+          accessibilityState={{ checked: !paused, busy: setPaused.isPending }}
+        >
+          {paused
+            ? <Play color={colors.primary} size={ICON_SIZE.md} />
+            : <Pause color={colors.text} size={ICON_SIZE.md} />}
+        </TouchableOpacity>
+      )}
+      {!isEmpty && (
+        <TouchableOpacity
+          style={styles.headerAction}
+          onPress={handleClear}
+          disabled={clearHistory.isPending}
+          accessibilityRole="button"
+          accessibilityLabel="Clear watch history"
+        >
+          <Trash2 color={colors.error} size={ICON_SIZE.md} />
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
+  if (isLoading) {
+    return (
+      <View
+        style={[styles.centered, { backgroundColor: colors.background }]}
+        accessibilityRole="progressbar"
+        accessibilityLabel="Loading watch history"
+      >
+        <StatusBar style={statusBarStyle} />
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  if (isError) {
+    return (
+      <View style={[styles.container, { backgroundColor: colors.background }]} accessibilityRole="alert">
+        <StatusBar style={statusBarStyle} />
+        {header}
+        <View style={styles.centered}>
+          <X color={colors.error} size={48} accessibilityElementsHidden />
+          <Text style={[styles.message, { color: colors.textSecondary }]}>
+            {error instanceof Error ? error.message : 'Could not load your watch history.'}
+          </Text>
+          <PrimaryButton title="Retry" onPress={() => refetch()} />
+        </View>
+      </View>
+    );
+  }
+
+  const pausedBanner = paused && (
+    <View style={[styles.banner, { backgroundColor: withAlpha(colors.warning, 0.12), borderColor: colors.warning }]}>
+      <Pause color={colors.warning} size={ICON_SIZE.sm} accessibilityElementsHidden />
+      <Text style={[styles.bannerText, { color: colors.text }]}>
+        History is paused. Videos you watch now won&apos;t be added or resumed.
+      </Text>
+    </View>
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <StatusBar style={statusBarStyle} />
+      {header}
+      <SectionList
+        sections={sections}
+        keyExtractor={(item) => item.videoId}
+        renderItem={renderItem}
+        renderSectionHeader={({ section }) => (
+          <Text
+            style={[styles.sectionTitle, { color: colors.text, backgroundColor: colors.background }]}
+            accessibilityRole="header"
+          >
+            {section.title}
+          </Text>
+        )}
+        ListHeaderComponent={pausedBanner || null}
+        ListEmptyComponent={
+          <View style={styles.empty}>
+            <History color={colors.textMuted} size={48} accessibilityElementsHidden />
+            <Text style={[styles.message, { color: colors.textSecondary }]}>
+              {paused
+                ? 'Nothing here, and history is paused.'
+                : 'Videos you watch show up here, so you can pick up where you left off.'}
+            </Text>
+          </View>
+        }
+        ListFooterComponent={
+          isFetchingNextPage ? <ActivityIndicator style={styles.footer} color={colors.primary} /> : null
+        }
+        onEndReached={() => {
+          if (hasNextPage && !isFetchingNextPage) fetchNextPage();
+        }}
+        onEndReachedThreshold={0.5}
+        refreshControl={
+          <RefreshControl refreshing={isRefetching && !isFetchingNextPage} onRefresh={refetch} tintColor={colors.primary} />
+        }
+        contentContainerStyle={[styles.list, { paddingBottom: insets.bottom + SPACING.xl }]}
+        stickySectionHeadersEnabled
+        initialNumToRender={10}
+        windowSize={7}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: SPACING.md,
+    padding: SPACING.xl,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    paddingHorizontal: SPACING.md,
+    paddingBottom: SPACING.md,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    padding: SPACING.xs,
+  },
+  headerTitle: {
+    flex: 1,
+    fontFamily: TYPOGRAPHY.fontFamily.bold,
+    fontSize: TYPOGRAPHY.fontSize.lg,
+  },
+  headerAction: {
+    padding: SPACING.sm,
+  },
+  list: {
+    paddingHorizontal: SPACING.md,
+    flexGrow: 1,
+  },
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    marginTop: SPACING.md,
+    padding: SPACING.md,
+    borderWidth: 1,
+    borderRadius: RADIUS.md,
+  },
+  bannerText: {
+    flex: 1,
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  sectionTitle: {
+    fontFamily: TYPOGRAPHY.fontFamily.bold,
+    fontSize: TYPOGRAPHY.fontSize.base,
+    paddingTop: SPACING.lg,
+    paddingBottom: SPACING.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.md,
+    paddingVertical: SPACING.sm,
+  },
+  thumbnail: {
+    width: THUMBNAIL_WIDTH,
+    aspectRatio: 16 / 9,
+    borderRadius: RADIUS.md,
+    overflow: 'hidden',
+  },
+  duration: {
+    position: 'absolute',
+    right: SPACING.xs,
+    bottom: SPACING.sm,
+    paddingHorizontal: SPACING.xs,
+    borderRadius: RADIUS.sm,
+    overflow: 'hidden',
+    backgroundColor: 'rgba(0,0,0,0.7)',
+    color: '#FFFFFF',
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  progressTrack: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    height: 3,
+  },
+  progressFill: {
+    height: '100%',
+  },
+  rowBody: {
+    flex: 1,
+    gap: SPACING.xxs,
+  },
+  rowTitle: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  rowMeta: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  empty: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: SPACING.md,
+    paddingTop: SPACING['3xl'],
+    paddingHorizontal: SPACING.xl,
+  },
+  message: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.base,
+    textAlign: 'center',
+  },
+  footer: {
+    paddingVertical: SPACING.lg,
+  },
+});
+
+export default WatchHistoryScreen;
@@ -0,0 +1,201 @@
+import React, { memo, useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { Flag, X } from 'lucide-react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { FormInput } from './FormInput';
+import { PrimaryButton } from './PrimaryButton';
+import { useReportContent } from '@/services/moderationHooks';
+import {
+  MAX_REVIEW_NOTE_CHARS,
+  REPORT_REASONS,
+  REPORT_REASON_LABELS,
+  REPORT_TARGET_LABELS,
+} from '@/utils/moderation';
+import {
+  ICON_SIZE,
+  RADIUS,
+  SPACING,
+  TYPOGRAPHY,
+  useTheme,
+  withAlpha,
+} from '@/utils/theme';
+import type { ReportReason, ReportTargetType } from '@/types';
+
+/**
+ * Props for the ReportContentModal component
+ */
+export interface ReportContentModalProps {
+  /** Whether the sheet is shown */
+  visible: boolean;
+  /** What is being reported — null keeps the sheet closed */
+  target: { targetType: ReportTargetType; targetId: string } | null;
+  /** Called when the sheet closes, after a report or on cancel */
+  onClose: () => void;
+}
+
+/**
+ * Bottom sheet for reporting a video, comment, answer or survey to the
+ * moderators. The reporter picks a reason and may add a note.
+ *
+ * @example
+ * ```tsx
+ * <ReportContentModal
+ *   visible={!!reporting}
+ *   target={reporting}
+ *   onClose={() => setReporting(null)}
+ * />
+ * ```
+ */
+export const ReportContentModal = memo<ReportContentModalProps>(({ visible, target, onClose }) => {
+  const { colors } = useTheme();
+  const insets = useSafeAreaInsets();
+  const { mutate: report, isPending } = useReportContent();
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [details, setDetails] = useState('');
+
+  // Each report starts blank
+  useEffect(() => {
+    if (visible) {
+      setReason(null);
+      setDetails('');
+    }
+  }, [visible, target?.targetId]);
+
+  const handleSubmit = useCallback(() => {
+    if (!target || !reason) return;
+    report(
+      { ...target, reason, details: details.trim() || undefined },
+      {
+        onSuccess: () => {
+          onClose();
+          Alert.alert('Report sent', 'Thanks — a moderator will review it.');
+        },
+        onError: (error) => Alert.alert('Report not sent', error.message),
+      },
+    );
+  }, [target, reason, details, report, onClose]);
+
+  const noun = target ? REPORT_TARGET_LABELS[target.targetType] : 'item';
+
+  return (
+    <Modal visible={visible && !!target} transparent animationType="slide" onRequestClose={onClose}>
+      <Pressable style={styles.backdrop} onPress={onClose} accessibilityLabel="Close report" />
+      <View
+        style={[
+          styles.sheet,
+          { backgroundColor: colors.card, borderColor: colors.border, paddingBottom: insets.bottom + SPACING.lg },
+        ]}
+        accessibilityViewIsModal
+      >
+        <View style={styles.header}>
+          <Flag size={ICON_SIZE.md} color={colors.error} strokeWidth={1.8} />
+          <Text style={[styles.title, { color: colors.text }]}>Report this {noun}</Text>
+          <TouchableOpacity onPress={onClose} accessibilityRole="button" accessibilityLabel="Cancel" hitSlop={8}>
+            <X size={ICON_SIZE.md} color={colors.textMuted} strokeWidth={1.8} />
+          </TouchableOpacity>
+        </View>
+        <Text style={[styles.subtitle, { color: colors.textMuted }]}>
+          Reports are anonymous. What&apos;s wrong with it?
+        </Text>
+
+        <ScrollView style={styles.reasons} keyboardShouldPersistTaps="handled">
+          {REPORT_REASONS.map((value) => {
+            const selected = reason === value;
+            return (
+              <TouchableOpacity
+                key={value}
+                style={[
+                  styles.reason,
+                  {
+                    borderColor: selected ? colors.primary : colors.border,
+                    backgroundColor: selected ? withAlpha(colors.primary, 0.12) : 'transparent',
+                  },
+                ]}
+                onPress={() => setReason(value)}
+                accessibilityRole="radio"
+                accessibilityState={{ checked: selected }}
+              >
+                <Text style={[styles.reasonText, { color: selected ? colors.primary : colors.text }]}>
+                  {REPORT_REASON_LABELS[value]}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+
+          {reason && (
+            <FormInput
+              label="Anything else? (optional)"
+              value={details}
+              onChangeText={setDetails}
+              maxLength={MAX_REVIEW_NOTE_CHARS}
+              multiline
+            />
+          )}
+        </ScrollView>
+
+        <PrimaryButton
+          title="Send report"
+          onPress={handleSubmit}
+          disabled={!reason}
+          loading={isPending}
+        />
+      </View>
+    </Modal>
+  );
+});
+
+ReportContentModal.displayName = 'ReportContentModal';
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.4)',
+  },
+  sheet: {
+    maxHeight: '80%',
+    borderTopLeftRadius: RADIUS.xl,
+    borderTopRightRadius: RADIUS.xl,
+    borderWidth: 1,
+    padding: SPACING.lg,
+    gap: SPACING.md,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+  },
+  title: {
+    flex: 1,
+    fontFamily: TYPOGRAPHY.fontFamily.bold,
+    fontSize: TYPOGRAPHY.fontSize.lg,
+  },
+  subtitle: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  reasons: {
+    flexGrow: 0,
+  },
+  reason: {
+    borderWidth: 1,
+    borderRadius: RADIUS.md,
+    paddingVertical: SPACING.sm,
+    paddingHorizontal: SPACING.md,
+    marginBottom: SPACING.sm,
+  },
+  reasonText: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.base,
+  },
+});
+
+export default ReportContentModal;
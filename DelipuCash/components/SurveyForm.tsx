@@ -14,7 +14,7 @@
  * - Accessible form patterns: labels, hints, live regions
  */
 
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import {
   View,
   Text,
@@ -54,11 +54,20 @@ import {
   CircleDot,
   Sparkles,
   GitBranch,
+  Filter,
+  Languages,
   Award,
+  Grid3x3,
+  ListOrdered,
+  Gauge,
 } from 'lucide-react-native';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import { useTheme, SPACING, TYPOGRAPHY, RADIUS, BORDER_WIDTH, SHADOWS, withAlpha } from '@/utils/theme';
 import { validateBuilderSurvey } from '@/utils/surveyBuilderValidation';
+import { previewPipedText, validatePiping } from '@/utils/piping';
+import { NPS_MAX, NPS_MIN } from '@/utils/surveyQuestionTypes';
+import { isScreenerQuestionType } from '@/utils/surveyScreening';
+import { compactQuestionTranslations, getLanguageName } from '@/utils/surveyTranslation';
 import { useCreateSurvey } from '@/services/hooks';
 import { UploadSurvey } from '@/types';
 import useUser from '@/utils/useUser';
@@ -69,16 +78,23 @@ import {
   selectIsMultiSelectMode,
   selectSelectedQuestionIds,
   selectIsScoringEnabled,
+  selectComputedVariables,
+  selectDefaultLanguage,
+  selectSurveyLanguages,
+  selectSurveyTranslations,
   useBuilderActions,
   type BuilderQuestionData,
   type BuilderQuestionType,
 } from '@/store/SurveyBuilderStore';
 import { UndoRedoToolbar } from '@/components/survey/UndoRedoToolbar';
 import { ConditionalLogicEditor } from '@/components/survey/ConditionalLogicEditor';
+import { ScreenerEditor } from '@/components/survey/ScreenerEditor';
+import { TranslationsEditor } from '@/components/survey/TranslationsEditor';
 import { DraggableQuestionList } from '@/components/survey/DraggableQuestionList';
 import { CreationProgressBadges } from '@/components/survey/CreationProgressBadges';
 import { DevicePreviewFrame } from '@/components/survey/DevicePreviewFrame';
 import { ImportWizard, type ParsedImport } from '@/components/survey/ImportWizard';
+import { ComputedVariablesEditor } from '@/components/survey/ComputedVariablesEditor';
 
 // ============================================================================
 // TYPES
@@ -112,6 +128,20 @@ const SurveyForm: React.FC<SurveyFormProps> = ({ onSuccess, onCancel, startWithI
   const isMultiSelectMode = useSurveyBuilderStore(selectIsMultiSelectMode);
   const selectedQuestionIds = useSurveyBuilderStore(selectSelectedQuestionIds);
   const isScoringEnabled = useSurveyBuilderStore(selectIsScoringEnabled);
+  const computedVariables = useSurveyBuilderStore(selectComputedVariables);
+  const defaultLanguage = useSurveyBuilderStore(selectDefaultLanguage);
+  const surveyLanguages = useSurveyBuilderStore(selectSurveyLanguages);
+  const surveyTranslations = useSurveyBuilderStore(selectSurveyTranslations);
+
+  // Inline piping warnings ({{q5}} in Q3, unknown variables), keyed by question id
+  const pipingIssuesById = useMemo(() => {
+    const byId = new Map<string, string>();
+    for (const issue of validatePiping(questions, computedVariables)) {
+      const id = questions[issue.questionIndex]?.id;
+      if (id && !byId.has(id)) byId.set(id, `This question ${issue.message}`);
+    }
+    return byId;
+  }, [questions, computedVariables]);
 
   // 2026 Pattern: Use dedicated actions hook (pre-memoized with useShallow)
   const builderActions = useBuilderActions();
@@ -142,6 +172,8 @@ const SurveyForm: React.FC<SurveyFormProps> = ({ onSuccess, onCancel, startWithI
   const [showImportWizard, setShowImportWizard] = useState(false);
   const [showPreviewModal, setShowPreviewModal] = useState(false);
   const [conditionalLogicQuestionId, setConditionalLogicQuestionId] = useState<string | null>(null);
+  const [screenerQuestionId, setScreenerQuestionId] = useState<string | null>(null);
+  const [showTranslations, setShowTranslations] = useState(false);
   const hasAutoOpenedImport = useRef(false);
 
   // Animations
@@ -184,11 +216,19 @@ const SurveyForm: React.FC<SurveyFormProps> = ({ onSuccess, onCancel, startWithI
         minValue: q.minValue,
         maxValue: q.maxValue,
         points: q.points,
+        ...(q.translations ? { translations: q.translations } : {}),
+        ...(q.matrixColumns ? { matrixColumns: q.matrixColumns } : {}),
+        // Branching from a Google Forms / Typeform export — rules point at the ids kept above
+        ...(q.conditionalLogic ? { conditionalLogic: q.conditionalLogic } : {}),
       }));
 
       if (data.title) setTitle(data.title);
       if (data.description) setDescription(data.description);
       builderActions.loadQuestions(builderQuestions);
+      // Translation columns (text_lg, options_sw…) offer those languages
+      for (const language of data.languages ?? []) {
+        useSurveyBuilderStore.getState().addSurveyLanguage(language);
+      }
 
       setShowImportWizard(false);
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
@@ -246,6 +286,18 @@ const SurveyForm: React.FC<SurveyFormProps> = ({ onSuccess, onCancel, startWithI
     builderActions.updateOption(questionId, optionIndex, value);
   }, [builderActions]);
 
+  const addMatrixColumn = useCallback((questionId: string) => {
+    builderActions.addMatrixColumn(questionId);
+  }, [builderActions]);
+
+  const removeMatrixColumn = useCallback((questionId: string, columnIndex: number) => {
+    builderActions.removeMatrixColumn(questionId, columnIndex);
+  }, [builderActions]);
+
+  const updateMatrixColumn = useCallback((questionId: string, columnIndex: number, value: string) => {
+    builderActions.updateMatrixColumn(questionId, columnIndex, value);
+  }, [builderActions]);
+
   const handleSave = async () => {
     // Pre-publish guards that mirror the server and protect the attempt
     // renderer (empty options, inverted bounds, dates, response cap). The
@@ -256,6 +308,10 @@ const SurveyForm: React.FC<SurveyFormProps> = ({ onSuccess, onCancel, startWithI
       startDate,
       endDate,
       maxResponses,
+      computedVariables,
+      description,
+      languages: surveyLanguages,
+      surveyTranslations,
     });
     if (validationError) {
       Alert.alert('Error', validationError);
@@ -268,6 +324,8 @@ const SurveyForm: React.FC<SurveyFormProps> = ({ onSuccess, onCancel, startWithI
       let minValue: number | null = null;
       let maxValue: number | null = null;
 
+      const translations = compactQuestionTranslations(q, surveyLanguages);
+
       switch (q.type) {
         case 'rating':
           minValue = q.minValue || 1;
@@ -307,6 +365,18 @@ const SurveyForm: React.FC<SurveyFormProps> = ({ onSuccess, onCancel, startWithI
         case 'time':
           options = JSON.stringify({ format: 'HH:mm' });
           break;
+        case 'matrix':
+          options = JSON.stringify({
+            rows: q.options.filter(o => o.trim().length > 0),
+            columns: (q.matrixColumns ?? []).filter(c => c.trim().length > 0),
+          });
+          break;
+        case 'nps':
+          // Fixed 0–10 scale; the columns keep rating-style consumers honest
+          minValue = NPS_MIN;
+          maxValue = NPS_MAX;
+          options = JSON.stringify({ min: NPS_MIN, max: NPS_MAX });
+          break;
         case 'file_upload':
           options = JSON.stringify(q.fileUploadConfig || {
             allowedTypes: ['image/*', 'application/pdf'],
@@ -317,6 +387,7 @@ const SurveyForm: React.FC<SurveyFormProps> = ({ onSuccess, onCancel, startWithI
         case 'radio':
         case 'checkbox':
         case 'dropdown':
+        case 'ranking':
         default:
           // Strip blank options so a trailing empty input never ships as a
           // selectable empty row (validation already guaranteed ≥2 non-empty).
@@ -337,6 +408,8 @@ const SurveyForm: React.FC<SurveyFormProps> = ({ onSuccess, onCancel, startWithI
         maxValue,
         required: q.required,
         ...(q.conditionalLogic ? { conditionalLogic: q.conditionalLogic } : {}),
+        ...(q.screener ? { screener: q.screener } : {}),
+        ...(translations ? { translations } : {}),
         ...(isScoringEnabled && q.points ? { points: q.points } : {}),
       };
     });
@@ -355,6 +428,23 @@ const SurveyForm: React.FC<SurveyFormProps> = ({ onSuccess, onCancel, startWithI
         maxResponses: parsedMaxResponses,
         totalBudget: parsedBudget,
         questions: surveyQuestions,
+        // Sources reference builder ids — remapped server-side like conditionalLogic
+        ...(computedVariables.length > 0 ? { computedVariables } : {}),
+        defaultLanguage,
+        ...(surveyLanguages.length > 0
+          ? {
+              languages: surveyLanguages,
+              translations: Object.fromEntries(
+                surveyLanguages.map((language) => [
+                  language,
+                  {
+                    title: surveyTranslations[language]?.title?.trim() ?? '',
+                    ...(description.trim() ? { description: surveyTranslations[language]?.description?.trim() ?? '' } : {}),
+                  },
+                ])
+              ),
+            }
+          : {}),
         userId: user?.id,
       });
 
@@ -401,6 +491,9 @@ const SurveyForm: React.FC<SurveyFormProps> = ({ onSuccess, onCancel, startWithI
       case 'time': return <Clock size={size} color={colors.primary} />;
       case 'number': return <Hash size={size} color={colors.primary} />;
       case 'file_upload': return <Upload size={size} color={colors.primary} />;
+      case 'matrix': return <Grid3x3 size={size} color={colors.primary} />;
+      case 'ranking': return <ListOrdered size={size} color={colors.primary} />;
+      case 'nps': return <Gauge size={size} color={colors.primary} />;
       default: return <FileText size={size} color={colors.primary} />;
     }
   };
@@ -419,6 +512,9 @@ const SurveyForm: React.FC<SurveyFormProps> = ({ onSuccess, onCancel, startWithI
       time: 'Time',
       number: 'Number',
       file_upload: 'File Upload',
+      matrix: 'Matrix / Likert',
+      ranking: 'Ranking',
+      nps: 'NPS (0–10)',
     };
     return labels[type] || type;
   };
@@ -522,6 +618,21 @@ const SurveyForm: React.FC<SurveyFormProps> = ({ onSuccess, onCancel, startWithI
                 />
               </TouchableOpacity>
             )}
+            {/* Screener — single-choice questions can end the survey for non-qualifiers */}
+            {isScreenerQuestionType(question.type) && (
+              <TouchableOpacity
+                onPress={() => {
+                  Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {});
+                  setScreenerQuestionId(question.id);
+                }}
+                style={styles.actionButton}
+                hitSlop={{ top: 12, bottom: 12, left: 12, right: 12 }}
+                accessibilityRole="button"
+                accessibilityLabel={`Configure screener for question ${questionIndex + 1}`}
+              >
+                <Filter size={16} color={question.screener ? colors.primary : colors.textMuted} />
+              </TouchableOpacity>
+            )}
             {questions.length > 1 && (
               <TouchableOpacity
                 onPress={() => removeQuestion(question.id)}
@@ -552,13 +663,22 @@ const SurveyForm: React.FC<SurveyFormProps> = ({ onSuccess, onCancel, startWithI
                 style={[styles.input, { color: colors.text, borderColor: colors.border, backgroundColor: colors.background }]}
                 multiline
               />
+              {pipingIssuesById.has(question.id) ? (
+                <Text style={[styles.pipingHint, { color: colors.error }]} accessibilityLiveRegion="polite">
+                  {pipingIssuesById.get(question.id)}
+                </Text>
+              ) : questionIndex > 0 ? (
+                <Text style={[styles.pipingHint, { color: colors.textMuted }]}>
+                  {`Tip: type {{q${questionIndex}}} to pipe in the answer to Q${questionIndex}`}
+                </Text>
+              ) : null}
             </View>
 
             {/* Question Type */}
             <View style={styles.inputGroup}>
               <Text style={[styles.inputLabel, { color: colors.textMuted }]}>Question Type</Text>
               <View style={styles.typeSelector}>
-                {(['text', 'paragraph', 'radio', 'checkbox', 'dropdown', 'rating', 'boolean', 'date', 'time', 'number', 'file_upload'] as QuestionType[]).map((type) => (
+                {(['text', 'paragraph', 'radio', 'checkbox', 'dropdown', 'rating', 'boolean', 'date', 'time', 'number', 'file_upload', 'matrix', 'ranking', 'nps'] as QuestionType[]).map((type) => (
                   <TouchableOpacity
                     key={type}
                     style={[
@@ -608,6 +728,79 @@ const SurveyForm: React.FC<SurveyFormProps> = ({ onSuccess, onCancel, startWithI
               </View>
             )}
 
+            {(question.type === 'matrix' || question.type === 'ranking') && (
+              <View style={styles.inputGroup}>
+                <View style={styles.optionHeader}>
+                  <Text style={[styles.inputLabel, { color: colors.textMuted }]}>
+                    {question.type === 'matrix' ? 'Rows' : 'Items to rank'}
+                  </Text>
+                  <TouchableOpacity onPress={() => addOption(question.id)} style={styles.addButton}>
+                    <Plus size={14} color={colors.primary} />
+                    <Text style={[styles.addText, { color: colors.primary }]}>
+                      {question.type === 'matrix' ? 'Add row' : 'Add item'}
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+                {question.options.map((option, index) => (
+                  <View key={index} style={styles.optionRow}>
+                    <TextInput
+                      value={option}
+                      onChangeText={(text) => updateOption(question.id, index, text)}
+                      placeholder={question.type === 'matrix' ? `Row ${index + 1}` : `Item ${index + 1}`}
+                      placeholderTextColor={colors.textMuted}
+                      style={[styles.optionInput, { color: colors.text, borderColor: colors.border, backgroundColor: colors.background }]}
+                    />
+                    {question.options.length > (question.type === 'matrix' ? 1 : 2) && (
+                      <TouchableOpacity onPress={() => removeOption(question.id, index)} style={styles.removeOption}>
+                        <Trash2 size={14} color={colors.error} />
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                ))}
+                {question.type === 'ranking' && (
+                  <Text style={[styles.helperText, { color: colors.textMuted }]}>
+                    Respondents drag these into their order of preference
+                  </Text>
+                )}
+              </View>
+            )}
+
+            {question.type === 'matrix' && (
+              <View style={styles.inputGroup}>
+                <View style={styles.optionHeader}>
+                  <Text style={[styles.inputLabel, { color: colors.textMuted }]}>Columns (answer scale)</Text>
+                  <TouchableOpacity onPress={() => addMatrixColumn(question.id)} style={styles.addButton}>
+                    <Plus size={14} color={colors.primary} />
+                    <Text style={[styles.addText, { color: colors.primary }]}>Add column</Text>
+                  </TouchableOpacity>
+                </View>
+                {(question.matrixColumns ?? []).map((column, index) => (
+                  <View key={index} style={styles.optionRow}>
+                    <TextInput
+                      value={column}
+                      onChangeText={(text) => updateMatrixColumn(question.id, index, text)}
+                      placeholder={`Column ${index + 1}`}
+                      placeholderTextColor={colors.textMuted}
+                      style={[styles.optionInput, { color: colors.text, borderColor: colors.border, backgroundColor: colors.background }]}
+                    />
+                    {(question.matrixColumns ?? []).length > 2 && (
+                      <TouchableOpacity onPress={() => removeMatrixColumn(question.id, index)} style={styles.removeOption}>
+                        <Trash2 size={14} color={colors.error} />
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                ))}
+              </View>
+            )}
+
+            {question.type === 'nps' && (
+              <View style={styles.inputGroup}>
+                <Text style={[styles.helperText, { color: colors.textMuted }]}>
+                  Respondents pick 0–10. Results split into promoters (9–10), passives (7–8) and detractors (0–6)
+                </Text>
+              </View>
+            )}
+
             {question.type === 'rating' && (
               <View style={styles.inputGroup}>
                 <Text style={[styles.inputLabel, { color: colors.textMuted }]}>Rating Scale</Text>
@@ -964,6 +1157,39 @@ const SurveyForm: React.FC<SurveyFormProps> = ({ onSuccess, onCancel, startWithI
             dragEnabled={questions.length > 1}
           />
         </View>
+
+        {/* Languages (respondents pick one before they start) */}
+        <View style={[styles.section, { backgroundColor: colors.card, borderColor: colors.border }]}>
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>Languages</Text>
+          <TouchableOpacity
+            style={[styles.dateButton, { borderColor: colors.border, backgroundColor: colors.background }]}
+            onPress={() => setShowTranslations(true)}
+            accessibilityRole="button"
+            accessibilityLabel="Edit survey languages"
+          >
+            <Languages size={16} color={colors.primary} />
+            <Text style={[styles.dateText, { color: colors.text }]}>
+              {[defaultLanguage, ...surveyLanguages].map(getLanguageName).join(' · ')}
+            </Text>
+          </TouchableOpacity>
+          {surveyLanguages.length === 0 && (
+            <Text style={[styles.helperText, { color: colors.textMuted }]}>
+              Offer this survey in Luganda or Swahili too
+            </Text>
+          )}
+        </View>
+
+        {/* Computed variables (hidden score / segment values for piping) */}
+        <View style={[styles.section, { backgroundColor: colors.card, borderColor: colors.border }]}>
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>Computed Variables</Text>
+          <ComputedVariablesEditor
+            variables={computedVariables}
+            questions={questions}
+            onAdd={builderActions.addComputedVariable}
+            onUpdate={builderActions.updateComputedVariable}
+            onRemove={builderActions.removeComputedVariable}
+          />
+        </View>
       </ScrollView>
 
       {/* 2026: Sticky bottom action bar with elevation */}
@@ -1102,7 +1328,7 @@ const SurveyForm: React.FC<SurveyFormProps> = ({ onSuccess, onCancel, startWithI
                 {questions.map((question, index) => (
                   <View key={question.id} style={styles.previewQuestion}>
                     <Text style={[styles.previewQuestionText, { color: colors.text }]}>
-                      {index + 1}. {question.text || 'Untitled Question'}
+                      {index + 1}. {previewPipedText(question.text) || 'Untitled Question'}
                       {question.required && <Text style={{ color: colors.error }}> *</Text>}
                     </Text>
 
@@ -1131,7 +1357,7 @@ const SurveyForm: React.FC<SurveyFormProps> = ({ onSuccess, onCancel, startWithI
                               question.type === 'radio' ? styles.previewRadio : styles.previewCheckbox,
                               { borderColor: colors.border }
                             ]} />
-                            <Text style={[styles.previewOptionText, { color: colors.text }]}>{option}</Text>
+                            <Text style={[styles.previewOptionText, { color: colors.text }]}>{previewPipedText(option)}</Text>
                           </View>
                         ))}
                       </View>
@@ -1211,6 +1437,41 @@ const SurveyForm: React.FC<SurveyFormProps> = ({ onSuccess, onCancel, startWithI
                         </Text>
                       </View>
                     )}
+
+                    {question.type === 'matrix' && question.options.map((row, rowIndex) => (
+                      <View key={rowIndex} style={styles.previewMatrixRow}>
+                        <Text style={[styles.previewOptionText, { color: colors.text }]}>
+                          {previewPipedText(row) || `Row ${rowIndex + 1}`}
+                        </Text>
+                        <View style={styles.previewMatrixScale}>
+                          {(question.matrixColumns ?? []).map((column, columnIndex) => (
+                            <View key={columnIndex} style={[styles.previewMatrixCell, { borderColor: colors.border }]}>
+                              <Text style={[styles.previewRatingNumber, { color: colors.textMuted }]}>{column}</Text>
+                            </View>
+                          ))}
+                        </View>
+                      </View>
+                    ))}
+
+                    {question.type === 'ranking' && question.options.map((item, itemIndex) => (
+                      <View key={itemIndex} style={[styles.previewOption, { borderColor: colors.border }]}>
+                        <Text style={[styles.previewRatingNumber, { color: colors.primary }]}>{itemIndex + 1}</Text>
+                        <Text style={[styles.previewOptionText, { color: colors.text }]}>
+                          {previewPipedText(item) || `Item ${itemIndex + 1}`}
+                        </Text>
+                      </View>
+                    ))}
+
+                    {question.type === 'nps' && (
+                      <View style={styles.previewRating}>
+                        {Array.from({ length: NPS_MAX - NPS_MIN + 1 }, (_, i) => (
+                          <View key={i} style={styles.previewRatingItem}>
+                            <Text style={[styles.previewRatingNumber, { color: colors.textMuted }]}>{NPS_MIN + i}</Text>
+                            <View style={[styles.previewRatingCircle, { borderColor: colors.border }]} />
+                          </View>
+                        ))}
+                      </View>
+                    )}
                   </View>
                 ))}
               </DevicePreviewFrame>
@@ -1237,6 +1498,48 @@ const SurveyForm: React.FC<SurveyFormProps> = ({ onSuccess, onCancel, startWithI
           />
         );
       })()}
+
+      {/* Languages + Translations Modal */}
+      {showTranslations && (
+        <TranslationsEditor
+          title={title}
+          description={description}
+          questions={questions}
+          defaultLanguage={defaultLanguage}
+          languages={surveyLanguages}
+          surveyTranslations={surveyTranslations}
+          onSetDefaultLanguage={(language) => useSurveyBuilderStore.getState().setDefaultLanguage(language)}
+          onAddLanguage={(language) => useSurveyBuilderStore.getState().addSurveyLanguage(language)}
+          onRemoveLanguage={(language) => useSurveyBuilderStore.getState().removeSurveyLanguage(language)}
+          onSurveyTranslationChange={(language, updates) =>
+            useSurveyBuilderStore.getState().setSurveyTranslation(language, updates)
+          }
+          onQuestionTranslationChange={(questionId, language, updates) =>
+            useSurveyBuilderStore.getState().setQuestionTranslation(questionId, language, updates)
+          }
+          onClose={() => setShowTranslations(false)}
+          visible
+        />
+      )}
+
+      {/* Screener Editor Modal */}
+      {screenerQuestionId && (() => {
+        const targetQuestion = questions.find(q => q.id === screenerQuestionId);
+        if (!targetQuestion) return null;
+        return (
+          <ScreenerEditor
+            question={targetQuestion}
+            allQuestions={questions}
+            config={targetQuestion.screener ?? null}
+            onSave={(config) => {
+              useSurveyBuilderStore.getState().setScreener(screenerQuestionId, config);
+              setScreenerQuestionId(null);
+            }}
+            onClose={() => setScreenerQuestionId(null)}
+            visible
+          />
+        );
+      })()}
     </View>
   );
 };
@@ -1271,6 +1574,10 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     marginBottom: SPACING.xs,
   },
+  pipingHint: {
+    fontSize: TYPOGRAPHY.fontSize.xs,
+    marginTop: SPACING.xs,
+  },
   input: {
     borderWidth: BORDER_WIDTH.thin,
     borderRadius: RADIUS.base,
@@ -1678,6 +1985,20 @@ const styles = StyleSheet.create({
     borderWidth: BORDER_WIDTH.thin,
     borderRadius: 10,
   },
+  previewMatrixRow: {
+    gap: SPACING.xs,
+  },
+  previewMatrixScale: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.xs,
+  },
+  previewMatrixCell: {
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: 2,
+    borderWidth: BORDER_WIDTH.thin,
+    borderRadius: RADIUS.full,
+  },
   previewDropdown: {
     flexDirection: 'row',
     alignItems: 'center',
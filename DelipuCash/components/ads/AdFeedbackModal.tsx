@@ -41,6 +41,7 @@ import {
   Linking,
   Alert,
   Platform,
+  Switch,
 } from 'react-native';
 import Animated, {
   useSharedValue,
@@ -76,7 +77,9 @@ import {
 } from '@/utils/theme';
 import type { Ad } from '@/types';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { useAdUIStore } from '@/store/AdUIStore';
+import { useAdUIStore, useAdPreferences } from '@/store/AdUIStore';
+import { useAdViewerProfile } from '@/services/adHooksRefactored';
+import { AD_AGE_RANGES, VIEWER_GENDER_OPTIONS, whyThisAd } from '@/utils/adTargeting';
 
 // ============================================================================
 // TYPES
@@ -172,14 +175,6 @@ const FEEDBACK_OPTIONS: {
   },
 ];
 
-const TARGETING_REASONS = [
-  { key: 'interests', label: 'Your interests and activity' },
-  { key: 'demographics', label: 'Your demographics (age, location)' },
-  { key: 'similar', label: 'Similar users who engaged' },
-  { key: 'topic', label: 'Topic of content you viewed' },
-  { key: 'general', label: 'General audience targeting' },
-];
-
 const AD_PREFERENCES_KEY = '@ad_preferences';
 const AD_FEEDBACK_KEY = '@ad_feedback_history';
 
@@ -198,6 +193,10 @@ const AdFeedbackModalComponent: React.FC<AdFeedbackModalProps> = ({
 }) => {
   const { colors } = useTheme();
   const blockAdvertiser = useAdUIStore(s => s.blockAdvertiser);
+  const updatePreferences = useAdUIStore(s => s.updatePreferences);
+  const togglePersonalizedAds = useAdUIStore(s => s.togglePersonalizedAds);
+  const preferences = useAdPreferences();
+  const viewer = useAdViewerProfile();
 
   // ========== STATE ==========
   const [activeTab, setActiveTab] = useState<'feedback' | 'why'>('feedback');
@@ -205,6 +204,7 @@ const AdFeedbackModalComponent: React.FC<AdFeedbackModalProps> = ({
   const [hideAdvertiser, setHideAdvertiser] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showConfirmation, setShowConfirmation] = useState(false);
+  const [showAdSettings, setShowAdSettings] = useState(false);
 
   // ========== ANIMATIONS ==========
   const backdropOpacity = useSharedValue(0);
@@ -223,6 +223,7 @@ const AdFeedbackModalComponent: React.FC<AdFeedbackModalProps> = ({
       setSelectedFeedback(null);
       setHideAdvertiser(false);
       setShowConfirmation(false);
+      setShowAdSettings(false);
       setActiveTab('feedback');
     }
   }, [visible, backdropOpacity, sheetTranslate]);
@@ -281,8 +282,7 @@ const AdFeedbackModalComponent: React.FC<AdFeedbackModalProps> = ({
   }, []);
 
   const handleOpenAdSettings = useCallback(() => {
-    // Navigate to in-app ad settings
-    Alert.alert('Ad Settings', 'Ad personalization settings would open here.');
+    setShowAdSettings((open) => !open);
   }, []);
 
   // ========== ANIMATED STYLES ==========
@@ -300,8 +300,8 @@ const AdFeedbackModalComponent: React.FC<AdFeedbackModalProps> = ({
   const selectedOption = FEEDBACK_OPTIONS.find(o => o.type === selectedFeedback);
   const isSevereReport = selectedOption?.severity === 'high';
 
-  // Get mock targeting reasons
-  const targetingReasons = TARGETING_REASONS.slice(0, 3);
+  // The same match the ad pickers used (utils/adTargeting)
+  const targetingReasons = whyThisAd(ad, viewer);
 
   // ========== RENDER ==========
 
@@ -542,20 +542,20 @@ const AdFeedbackModalComponent: React.FC<AdFeedbackModalProps> = ({
                     Why you&apos;re seeing this ad
                   </Text>
                   <Text style={[styles.whyDescription, { color: colors.textSecondary }]}>
-                    Advertisers can target people based on various factors. Here&apos;s why this ad might be shown to you:
+                    Advertisers choose who sees their ads. Here&apos;s how this ad matched you:
                   </Text>
                 </View>
 
                 {/* Targeting Reasons */}
                 <View style={styles.reasonsContainer}>
-                  {targetingReasons.map((reason, index) => (
+                  {targetingReasons.map((reason) => (
                     <View
-                      key={reason.key}
+                      key={reason}
                       style={[styles.reasonItem, { backgroundColor: colors.card }]}
                     >
                       <View style={[styles.reasonBullet, { backgroundColor: colors.primary }]} />
                       <Text style={[styles.reasonText, { color: colors.text }]}>
-                        {reason.label}
+                        {reason}
                       </Text>
                     </View>
                   ))}
@@ -583,6 +583,7 @@ const AdFeedbackModalComponent: React.FC<AdFeedbackModalProps> = ({
                     onPress={handleOpenAdSettings}
                     accessibilityLabel="Manage ad preferences"
                     accessibilityRole="button"
+                    accessibilityState={{ expanded: showAdSettings }}
                   >
                     <Settings size={18} color={colors.primary} />
                     <Text style={[styles.linkText, { color: colors.primary }]}>
@@ -591,6 +592,79 @@ const AdFeedbackModalComponent: React.FC<AdFeedbackModalProps> = ({
                     <ChevronRight size={18} color={colors.primary} />
                   </TouchableOpacity>
 
+                  {showAdSettings && (
+                    <View style={[styles.settingsCard, { backgroundColor: colors.card }]}>
+                      <View style={styles.settingsRow}>
+                        <View style={styles.advertiserContent}>
+                          <Text style={[styles.advertiserName, { color: colors.text }]}>
+                            Personalized ads
+                          </Text>
+                          <Text style={[styles.advertiserLabel, { color: colors.textSecondary }]}>
+                            Use your age, gender and what you watch to choose ads. Your country is always used.
+                          </Text>
+                        </View>
+                        <Switch
+                          value={preferences.personalizedAds}
+                          onValueChange={togglePersonalizedAds}
+                          accessibilityLabel="Personalized ads"
+                        />
+                      </View>
+
+                      {preferences.personalizedAds && (
+                        <>
+                          <Text style={[styles.advertiserLabel, { color: colors.textSecondary }]}>
+                            About you (optional)
+                          </Text>
+                          <View style={styles.settingsChips}>
+                            {AD_AGE_RANGES.map((range) => {
+                              const selected = preferences.ageRange === range;
+                              return (
+                                <TouchableOpacity
+                                  key={range}
+                                  style={[
+                                    styles.settingsChip,
+                                    { borderColor: selected ? colors.primary : colors.border },
+                                    selected && { backgroundColor: withAlpha(colors.primary, 0.1) },
+                                  ]}
+                                  onPress={() => updatePreferences({ ageRange: selected ? null : range })}
+                                  accessibilityRole="radio"
+                                  accessibilityState={{ selected }}
+                                  accessibilityLabel={`Age ${range}`}
+                                >
+                                  <Text style={[styles.settingsChipText, { color: selected ? colors.primary : colors.textSecondary }]}>
+                                    {range}
+                                  </Text>
+                                </TouchableOpacity>
+                              );
+                            })}
+                          </View>
+                          <View style={styles.settingsChips}>
+                            {VIEWER_GENDER_OPTIONS.map((option) => {
+                              const selected = preferences.gender === option.value;
+                              return (
+                                <TouchableOpacity
+                                  key={option.value}
+                                  style={[
+                                    styles.settingsChip,
+                                    { borderColor: selected ? colors.primary : colors.border },
+                                    selected && { backgroundColor: withAlpha(colors.primary, 0.1) },
+                                  ]}
+                                  onPress={() => updatePreferences({ gender: selected ? null : option.value })}
+                                  accessibilityRole="radio"
+                                  accessibilityState={{ selected }}
+                                >
+                                  <Text style={[styles.settingsChipText, { color: selected ? colors.primary : colors.textSecondary }]}>
+                                    {option.label}
+                                  </Text>
+                                </TouchableOpacity>
+                              );
+                            })}
+                          </View>
+                        </>
+                      )}
+                    </View>
+                  )}
+
                   <TouchableOpacity
                     style={styles.linkButton}
                     onPress={handleOpenPrivacyPolicy}
@@ -904,6 +978,33 @@ const styles = StyleSheet.create({
     fontSize: TYPOGRAPHY.fontSize.sm,
   },
 
+  // Ad settings
+  settingsCard: {
+    padding: SPACING.md,
+    borderRadius: RADIUS.md,
+    gap: SPACING.sm,
+  },
+  settingsRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+  },
+  settingsChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.xs,
+  },
+  settingsChip: {
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xs,
+    borderRadius: RADIUS.full,
+    borderWidth: 1,
+  },
+  settingsChipText: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+
   // Confirmation
   confirmationContainer: {
     alignItems: 'center',
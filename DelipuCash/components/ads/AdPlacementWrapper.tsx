@@ -23,7 +23,7 @@
  * - Accessibility improvements (WCAG 2.2 AA)
  */
 
-import React, { memo, useEffect, useState, useCallback, useRef } from 'react';
+import React, { memo, useEffect, useMemo, useState, useCallback, useRef } from 'react';
 import {
   View,
   StyleSheet,
@@ -50,6 +50,8 @@ import { BannerAd, NativeAd, FeaturedAd, CompactAd, SmartAd } from './AdComponen
 import VideoAdComponent from './VideoAdComponent';
 import { AdFrequencyManager } from '../../services/adFrequencyManager';
 import { useSmartAdPlacement, AdContextType } from '../../services/useSmartAdPlacement';
+import { useAdViewerProfile } from '../../services/adHooksRefactored';
+import { rankAdsForViewer } from '../../utils/adTargeting';
 
 // ============================================================================
 // CONSTANTS
@@ -713,12 +715,20 @@ const AdPlacementWrapperComponent: React.FC<AdPlacementWrapperProps> = ({
             ? 'video'
             : 'native';
 
+  // The ad to show: the one given, else the list's best fit for this viewer
+  const viewer = useAdViewerProfile();
+  const candidate = useMemo(
+    () => ad ?? (ads ? rankAdsForViewer(ads, viewer)[0] : undefined) ?? null,
+    [ad, ads, viewer],
+  );
+
   // Use smart ad placement hook
   const smartPlacement = useSmartAdPlacement({
     placementType: frequencyPlacementType as any,
     contextType,
     position: feedPosition,
-    adId: ad?.id || ads?.[0]?.id || 'unknown',
+    adId: candidate?.id || 'unknown',
+    ad: candidate,
     forceShow: bypassFrequencyCap,
     trackViewability,
   });
@@ -738,12 +748,15 @@ const AdPlacementWrapperComponent: React.FC<AdPlacementWrapperProps> = ({
     onViewable?.(viewableAd);
   }, [trackImpression, onViewable]);
 
-  if (!ad && (!ads || ads.length === 0)) return null;
+  if (!candidate) return null;
   if (!visible) return null;
 
   // Wait for eligibility check to complete
   if (!smartPlacement.isReady) return null;
 
+  // Never show an ad aimed at someone else, even when the frequency cap is bypassed
+  if (smartPlacement.blockedReason === 'targeting') return null;
+
   // Check frequency cap (unless bypassed)
   if (!bypassFrequencyCap && !smartPlacement.canShowAd) {
     // Log blocked reason for analytics (only if not initializing)
@@ -754,7 +767,7 @@ const AdPlacementWrapperComponent: React.FC<AdPlacementWrapperProps> = ({
   }
 
   // Single ad rendering logic
-  const singleAd = ad || (ads && ads[0]);
+  const singleAd = candidate;
 
   switch (placement) {
     case 'interstitial':
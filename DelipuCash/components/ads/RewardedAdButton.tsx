@@ -0,0 +1,342 @@
+/**
+ * RewardedAdButton — "Watch an ad for +N points" Entry
+ *
+ * Opt-in rewarded ad for the wallet and quiz screens. Tapping the entry asks
+ * the server for an ad and a signed completion token, plays the ad fullscreen
+ * with skipping disabled, and claims the points once it has played to the end
+ * (server/controllers/rewardedAdController.mjs). The claim's new balance goes
+ * straight into the user cache; useSyncWalletBalance carries it into the
+ * wallet.
+ *
+ * - Hidden when rewarded ads are off; greyed out at the daily cap or when no
+ *   ad is ready (utils/rewardedAds.ts)
+ * - The claim waits until the server's minimum watch time has passed since
+ *   the ad started — a shorter ad just shows "Adding your points…" a moment
+ * - Closing before the end asks first: leaving forfeits the points
+ * - Opt-in, so unlike placed ads it also shows for premium users
+ *
+ * @example
+ * ```tsx
+ * <RewardedAdButton />
+ * ```
+ */
+
+import React, { memo, useCallback, useEffect, useRef, useState } from 'react';
+import {
+  AccessibilityInfo,
+  ActivityIndicator,
+  Alert,
+  Modal,
+  Pressable,
+  StyleProp,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+  ViewStyle,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { CheckCircle2, PlayCircle, X } from 'lucide-react-native';
+import { SkippableVideoAd } from './SkippableVideoAd';
+import {
+  useClaimRewardedAd,
+  useRewardedAdStatus,
+  useStartRewardedAd,
+} from '@/services/adHooksRefactored';
+import { useSyncWalletBalance } from '@/hooks/useSyncWalletBalance';
+import { rewardCountdown, rewardedEntry } from '@/utils/rewardedAds';
+import { triggerHaptic } from '@/utils/quiz-utils';
+import {
+  RADIUS,
+  SPACING,
+  TYPOGRAPHY,
+  useTheme,
+  withAlpha,
+} from '@/utils/theme';
+import type { RewardedAdSession } from '@/types';
+
+// ─── Props ──────────────────────────────────────────────────────────────────
+
+export interface RewardedAdButtonProps {
+  /** Custom style for the entry card */
+  style?: StyleProp<ViewStyle>;
+  /** Test ID */
+  testID?: string;
+}
+
+type Phase = 'watching' | 'claiming' | 'done' | 'failed';
+
+// ─── Component ──────────────────────────────────────────────────────────────
+
+export const RewardedAdButton = memo(function RewardedAdButton({
+  style,
+  testID = 'rewarded-ad-button',
+}: RewardedAdButtonProps) {
+  const { colors } = useTheme();
+  const insets = useSafeAreaInsets();
+  const { data: status } = useRewardedAdStatus();
+  const startMutation = useStartRewardedAd();
+  const claimMutation = useClaimRewardedAd();
+  useSyncWalletBalance();
+
+  const [session, setSession] = useState<RewardedAdSession | null>(null);
+  const [phase, setPhase] = useState<Phase>('watching');
+  const [message, setMessage] = useState('');
+  const [caption, setCaption] = useState(rewardCountdown(0, 0));
+  const startedAtRef = useRef(0);
+  const claimTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const entry = rewardedEntry(status);
+
+  useEffect(() => () => {
+    if (claimTimerRef.current) clearTimeout(claimTimerRef.current);
+  }, []);
+
+  const close = useCallback(() => {
+    if (claimTimerRef.current) clearTimeout(claimTimerRef.current);
+    claimTimerRef.current = null;
+    setSession(null);
+  }, []);
+
+  const handleStart = useCallback(() => {
+    if (!entry.enabled || startMutation.isPending) return;
+    triggerHaptic('light');
+    startMutation.mutate(undefined, {
+      onSuccess: (next) => {
+        startedAtRef.current = Date.now();
+        setPhase('watching');
+        setMessage('');
+        setCaption(rewardCountdown(0, 0));
+        setSession(next);
+      },
+      onError: (error) => {
+        triggerHaptic('error');
+        Alert.alert('Rewarded ad', error.message);
+      },
+    });
+  }, [entry.enabled, startMutation]);
+
+  const claim = useCallback((token: string) => {
+    claimMutation.mutate(token, {
+      onSuccess: (result) => {
+        setPhase('done');
+        setMessage(`+${result.earned} points added`);
+        triggerHaptic('success');
+        AccessibilityInfo.announceForAccessibility(`${result.earned} points added to your wallet`);
+      },
+      onError: (error) => {
+        setPhase('failed');
+        setMessage(error.message);
+        triggerHaptic('error');
+      },
+    });
+  }, [claimMutation]);
+
+  const handleComplete = useCallback(() => {
+    if (!session || phase !== 'watching') return;
+    setPhase('claiming');
+    setCaption(rewardCountdown(1, 1));
+    // The server refuses a claim sooner than its minimum watch time
+    const wait = Math.max(0, startedAtRef.current + session.minWatchSeconds * 1000 - Date.now());
+    claimTimerRef.current = setTimeout(() => claim(session.token), wait);
+  }, [claim, phase, session]);
+
+  const handleProgress = useCallback((_progress: number, currentTime: number, duration: number) => {
+    if (phase === 'watching') setCaption(rewardCountdown(currentTime, duration));
+  }, [phase]);
+
+  const handleError = useCallback(() => {
+    if (phase !== 'watching') return;
+    setPhase('failed');
+    setMessage("This ad couldn't play — try another");
+  }, [phase]);
+
+  const handleClose = useCallback(() => {
+    if (phase !== 'watching') {
+      close();
+      return;
+    }
+    Alert.alert('Leave the ad?', "You won't get the points unless you watch to the end.", [
+      { text: 'Keep watching', style: 'cancel' },
+      { text: 'Leave', style: 'destructive', onPress: close },
+    ]);
+  }, [close, phase]);
+
+  if (!entry.visible) return null;
+
+  return (
+    <>
+      <Pressable
+        onPress={handleStart}
+        disabled={!entry.enabled || startMutation.isPending}
+        style={[
+          styles.entry,
+          { backgroundColor: colors.card, borderColor: withAlpha(colors.primary, 0.3) },
+          !entry.enabled && styles.entryDisabled,
+          style,
+        ]}
+        accessibilityRole="button"
+        accessibilityLabel={`${entry.title}. ${entry.subtitle}`}
+        accessibilityState={{ disabled: !entry.enabled, busy: startMutation.isPending }}
+        testID={testID}
+      >
+        <View style={[styles.entryIcon, { backgroundColor: withAlpha(colors.primary, 0.12) }]}>
+          {startMutation.isPending
+            ? <ActivityIndicator size="small" color={colors.primary} />
+            : <PlayCircle size={22} color={colors.primary} strokeWidth={1.75} />}
+        </View>
+        <View style={styles.entryText}>
+          <Text style={[styles.entryTitle, { color: colors.text }]}>{entry.title}</Text>
+          <Text style={[styles.entrySubtitle, { color: colors.textMuted }]}>{entry.subtitle}</Text>
+        </View>
+      </Pressable>
+
+      <Modal
+        visible={!!session}
+        animationType="fade"
+        presentationStyle="fullScreen"
+        onRequestClose={handleClose}
+        statusBarTranslucent
+      >
+        <View style={[styles.player, { paddingTop: insets.top, paddingBottom: insets.bottom }]}>
+          <View style={styles.playerHeader}>
+            <Text style={styles.caption} accessibilityLiveRegion="polite">
+              {phase === 'watching' || phase === 'claiming' ? caption : ''}
+            </Text>
+            <TouchableOpacity
+              onPress={handleClose}
+              style={styles.closeButton}
+              accessibilityRole="button"
+              accessibilityLabel="Close ad"
+              testID={`${testID}-close`}
+            >
+              <X size={20} color="#FFFFFF" strokeWidth={2} />
+            </TouchableOpacity>
+          </View>
+
+          {session && (
+            <SkippableVideoAd
+              ad={session.ad}
+              skippable={false}
+              variant="fullscreen"
+              showCTA
+              onProgress={handleProgress}
+              onComplete={handleComplete}
+              onError={handleError}
+            />
+          )}
+
+          {(phase === 'done' || phase === 'failed') && (
+            <View style={[styles.result, { backgroundColor: colors.card }]}>
+              {phase === 'done' && <CheckCircle2 size={32} color={colors.success} strokeWidth={1.75} />}
+              <Text style={[styles.resultText, { color: phase === 'done' ? colors.text : colors.error }]}>
+                {message}
+              </Text>
+              <TouchableOpacity
+                onPress={close}
+                style={[styles.doneButton, { backgroundColor: colors.primary }]}
+                accessibilityRole="button"
+                testID={`${testID}-done`}
+              >
+                <Text style={[styles.doneText, { color: colors.primaryText }]}>Done</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+      </Modal>
+    </>
+  );
+});
+
+// ─── Styles ─────────────────────────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+  entry: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.md,
+    padding: SPACING.md,
+    borderRadius: RADIUS.lg,
+    borderWidth: 1,
+  },
+  entryDisabled: {
+    opacity: 0.6,
+  },
+  entryIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: RADIUS.full,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  entryText: {
+    flex: 1,
+    gap: SPACING.xxs,
+  },
+  entryTitle: {
+    fontFamily: TYPOGRAPHY.fontFamily.bold,
+    fontSize: TYPOGRAPHY.fontSize.base,
+  },
+  entrySubtitle: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  player: {
+    flex: 1,
+    backgroundColor: '#000000',
+    justifyContent: 'center',
+  },
+  playerHeader: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    zIndex: 2,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: SPACING.md,
+    paddingTop: SPACING.xl,
+  },
+  caption: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+    color: '#FFFFFF',
+  },
+  closeButton: {
+    width: 36,
+    height: 36,
+    borderRadius: RADIUS.full,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  result: {
+    position: 'absolute',
+    left: SPACING.lg,
+    right: SPACING.lg,
+    bottom: SPACING['3xl'],
+    zIndex: 2,
+    alignItems: 'center',
+    gap: SPACING.sm,
+    padding: SPACING.lg,
+    borderRadius: RADIUS.lg,
+  },
+  resultText: {
+    fontFamily: TYPOGRAPHY.fontFamily.bold,
+    fontSize: TYPOGRAPHY.fontSize.lg,
+    textAlign: 'center',
+  },
+  doneButton: {
+    alignSelf: 'stretch',
+    alignItems: 'center',
+    paddingVertical: SPACING.sm,
+    borderRadius: RADIUS.md,
+  },
+  doneText: {
+    fontFamily: TYPOGRAPHY.fontFamily.bold,
+    fontSize: TYPOGRAPHY.fontSize.base,
+  },
+});
+
+export default RewardedAdButton;
@@ -10,7 +10,8 @@
  * - Instagram Reels sponsored videos
  * 
  * Features:
- * - Skip countdown timer (customizable 5-15 seconds)
+ * - Skip countdown timer (customizable 5-15 seconds), or no skipping at all
+ *   for rewarded ads (`skippable={false}`)
  * - Smooth progress bar animation
  * - Mute/unmute toggle
  * - Fullscreen toggle
@@ -87,6 +88,8 @@ export interface SkippableVideoAdProps {
   ad: Ad;
   /** Seconds before skip is available (default: 5) */
   skipAfterSeconds?: number;
+  /** Show the skip button at all (default: true) — rewarded ads play to the end */
+  skippable?: boolean;
   /** Auto-play video (default: true) */
   autoPlay?: boolean;
   /** Start muted (default: true for mobile UX) */
@@ -144,6 +147,7 @@ const CTA_CONFIG: Record<string, { label: string; icon: string }> = {
 const SkippableVideoAdComponent: React.FC<SkippableVideoAdProps> = ({
   ad,
   skipAfterSeconds = 5,
+  skippable = true,
   autoPlay = true,
   muted: initialMuted = true,
   loop = false,
@@ -298,7 +302,7 @@ const SkippableVideoAdComponent: React.FC<SkippableVideoAdProps> = ({
 
   // Skip countdown
   useEffect(() => {
-    if (!isPlaying || canSkip) return;
+    if (!skippable || !isPlaying || canSkip) return;
 
     skipIntervalRef.current = setInterval(() => {
       setSkipCountdown((prev) => {
@@ -321,7 +325,7 @@ const SkippableVideoAdComponent: React.FC<SkippableVideoAdProps> = ({
         clearInterval(skipIntervalRef.current);
       }
     };
-  }, [isPlaying, canSkip, skipButtonScale]);
+  }, [skippable, isPlaying, canSkip, skipButtonScale]);
 
   // Auto-hide controls
   useEffect(() => {
@@ -371,11 +375,11 @@ const SkippableVideoAdComponent: React.FC<SkippableVideoAdProps> = ({
   }, [player, isMuted]);
 
   const handleSkip = useCallback(() => {
-    if (!canSkip) return;
+    if (!skippable || !canSkip) return;
     
     player?.pause();
     onSkip?.(ad, currentTime);
-  }, [canSkip, player, ad, currentTime, onSkip]);
+  }, [skippable, canSkip, player, ad, currentTime, onSkip]);
 
   const handleCTA = useCallback(() => {
     if (ad.targetUrl) {
@@ -441,7 +445,7 @@ const SkippableVideoAdComponent: React.FC<SkippableVideoAdProps> = ({
         onPress={handleTapControls}
         accessible
         accessibilityRole="button"
-        accessibilityLabel={`Sponsored video ad: ${ad.title || 'Advertisement'}. ${isPlaying ? 'Playing' : 'Paused'}. ${canSkip ? 'Tap to skip' : `Skip available in ${skipCountdown} seconds`}`}
+        accessibilityLabel={`Sponsored video ad: ${ad.title || 'Advertisement'}. ${isPlaying ? 'Playing' : 'Paused'}.${!skippable ? '' : canSkip ? ' Tap to skip' : ` Skip available in ${skipCountdown} seconds`}`}
       >
         {/* Video Player */}
         <VideoView
@@ -538,37 +542,39 @@ const SkippableVideoAdComponent: React.FC<SkippableVideoAdProps> = ({
         )}
 
         {/* Skip Button (Right Side) */}
-        <Animated.View
-          style={[styles.skipContainer, skipButtonAnimatedStyle]}
-          entering={SlideInRight.duration(300)}
-        >
-          <TouchableOpacity
-            style={[
-              styles.skipButton,
-              {
-                backgroundColor: canSkip
-                  ? withAlpha('#FFFFFF', 0.9)
-                  : withAlpha('#000000', 0.6),
-              },
-            ]}
-            onPress={handleSkip}
-            disabled={!canSkip}
-            accessibilityLabel={canSkip ? 'Skip ad' : `Skip available in ${skipCountdown} seconds`}
-            accessibilityRole="button"
+        {skippable && (
+          <Animated.View
+            style={[styles.skipContainer, skipButtonAnimatedStyle]}
+            entering={SlideInRight.duration(300)}
           >
-            {canSkip ? (
-              <>
-                <Text style={[styles.skipText, { color: '#000000' }]}>Skip</Text>
-                <SkipForward size={16} color="#000000" />
-              </>
-            ) : (
-              <>
-                <Clock size={14} color="#FFFFFF" />
-                <Text style={[styles.skipText, { color: '#FFFFFF' }]}>{skipCountdown}s</Text>
-              </>
-            )}
-          </TouchableOpacity>
-        </Animated.View>
+            <TouchableOpacity
+              style={[
+                styles.skipButton,
+                {
+                  backgroundColor: canSkip
+                    ? withAlpha('#FFFFFF', 0.9)
+                    : withAlpha('#000000', 0.6),
+                },
+              ]}
+              onPress={handleSkip}
+              disabled={!canSkip}
+              accessibilityLabel={canSkip ? 'Skip ad' : `Skip available in ${skipCountdown} seconds`}
+              accessibilityRole="button"
+            >
+              {canSkip ? (
+                <>
+                  <Text style={[styles.skipText, { color: '#000000' }]}>Skip</Text>
+                  <SkipForward size={16} color="#000000" />
+                </>
+              ) : (
+                <>
+                  <Clock size={14} color="#FFFFFF" />
+                  <Text style={[styles.skipText, { color: '#FFFFFF' }]}>{skipCountdown}s</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </Animated.View>
+        )}
 
         {/* CTA Overlay (Bottom Right) */}
         {showCTA && ad.targetUrl && (
@@ -40,6 +40,7 @@ export {
 // New Industry-Standard Components
 export { NativeQuestionAd } from './NativeQuestionAd';
 export { SkippableVideoAd } from './SkippableVideoAd';
+export { RewardedAdButton } from './RewardedAdButton';
 export { AdFeedbackModal } from './AdFeedbackModal';
 export { AdPreviewCard } from './AdPreviewCard';
 
@@ -54,5 +55,6 @@ export type {
 } from './AdPlacementWrapper';
 export type { NativeQuestionAdProps } from './NativeQuestionAd';
 export type { SkippableVideoAdProps } from './SkippableVideoAd';
+export type { RewardedAdButtonProps } from './RewardedAdButton';
 export type { AdFeedbackModalProps, FeedbackType, AdFeedbackResult } from './AdFeedbackModal';
 export type { AdPreviewCardProps, PreviewVariant, AdPreviewData } from './AdPreviewCard';
@@ -12,6 +12,7 @@
  * - Reduced-motion fallbacks per prefers-reduced-motion
  * - Spatial depth via animated press overlay (glassmorphism-lite)
  * - Contextual CTA surface with gesture affordance hints
+ * - "Pending sync" strip while the user's offline attempt waits in the submission queue
  */
 
 import React, { useCallback, useMemo, memo } from 'react';
@@ -45,6 +46,7 @@ import {
   Zap,
   Gift,
   Sparkles,
+  CloudUpload,
 } from 'lucide-react-native';
 import {
   useTheme,
@@ -59,6 +61,11 @@ import { Survey } from '@/types';
 import { triggerHaptic } from '@/utils/quiz-utils';
 import { useReducedMotion } from '@/utils/accessibility';
 import { useRewardConfig, pointsToUgx } from '@/services/configHooks';
+import { useAuthStore } from '@/utils/auth/store';
+import {
+  selectIsSurveyPendingSync,
+  useSurveySubmissionQueueStore,
+} from '@/store/SurveySubmissionQueueStore';
 
 export interface SurveyCardProps {
   /** Survey data object */
@@ -116,6 +123,10 @@ function SurveyCardComponent({
   }, [rewardConfig]);
   const rewardLabel = isOwner ? formatCurrency(survey.rewardAmount || 0) : respondentRewardLabel;
 
+  // Finished offline — the attempt is queued and submits once the device reconnects
+  const userId = useAuthStore((s) => s.auth?.user?.id);
+  const isPendingSync = useSurveySubmissionQueueStore(selectIsSurveyPendingSync(survey.id, userId)) && !isOwner;
+
   const progress = useMemo(() => {
     return survey.maxResponses
       ? ((survey.totalResponses || 0) / survey.maxResponses) * 100
@@ -235,7 +246,11 @@ function SurveyCardComponent({
         ]}
         accessibilityRole="button"
         accessibilityLabel={`Survey: ${survey.title}`}
-        accessibilityHint={`${statusConfig.text}, ${getTimeRemaining()}, ${rewardLabel} reward. Double tap to ${isOwner ? 'edit' : 'take'} survey.`}
+        accessibilityHint={
+          isPendingSync
+            ? `Pending sync — your answers will be submitted when you're back online.`
+            : `${statusConfig.text}, ${getTimeRemaining()}, ${rewardLabel} reward. Double tap to ${isOwner ? 'edit' : 'take'} survey.`
+        }
         accessibilityActions={[
           { name: 'activate', label: isOwner ? 'Edit survey' : 'Take survey' },
           ...(isOwner && onViewResponses ? [{ name: 'magicTap', label: 'View responses' }] : []),
@@ -265,6 +280,14 @@ function SurveyCardComponent({
             </Text>
           </View>
         )}
+        {isPendingSync && (
+          <View style={[styles.urgencyStrip, { backgroundColor: withAlpha(colors.info, 0.08) }]}>
+            <CloudUpload size={13} color={colors.info} strokeWidth={2.5} />
+            <Text style={[styles.urgencyText, { color: colors.info }]}>
+              Pending sync — submits when you&apos;re back online
+            </Text>
+          </View>
+        )}
         {/* Header: Status & Reward — 2026 bordered pill badges */}
         <View style={styles.header}>
           <View
@@ -395,7 +418,7 @@ function SurveyCardComponent({
             </View>
             <View style={[styles.actionHint, { backgroundColor: withAlpha(colors.primary, 0.08) }]}>
               <Text style={[styles.actionText, { color: colors.primary }]}>
-                {isOwner ? 'Manage' : isScheduled ? 'Details' : 'Start'}
+                {isOwner ? 'Manage' : isPendingSync ? 'Pending sync' : isScheduled ? 'Details' : 'Start'}
               </Text>
               <ChevronRight size={14} color={colors.primary} strokeWidth={2.5} />
             </View>
@@ -16,6 +16,8 @@ export type { CheckboxProps } from './Checkbox';
 // Modal Components
 export { UploadRewardQuestionModal } from './UploadRewardQuestionModal';
 export { default as SurveyForm } from './SurveyForm';
+export { ReportContentModal } from './ReportContentModal';
+export type { ReportContentModalProps } from './ReportContentModal';
 
 // Button Components
 export { PrimaryButton } from './PrimaryButton';
@@ -14,7 +14,7 @@ import {
   ActivityIndicator,
   Platform,
 } from 'react-native';
-import { Music, Sparkles, ImageIcon, Filter } from 'lucide-react-native';
+import { Music, Sparkles, ImageIcon, Filter, Shield } from 'lucide-react-native';
 import { SPACING, TYPOGRAPHY, RADIUS, Z_INDEX, useTheme } from '@/utils/theme';
 import { RecordButton } from './RecordButton';
 import { getResponsiveSize, getResponsivePadding, formatDuration } from '@/utils/video-utils';
@@ -38,6 +38,8 @@ export interface BottomControlsProps {
   onGalleryPress?: () => void;
   /** Filters button press handler */
   onFiltersPress?: () => void;
+  /** Chat moderation handler — while recording, replaces Effects with "Moderate" */
+  onModerationPress?: () => void;
   /** Fade animation value */
   fadeAnim?: Animated.Value;
   /** Whether controls are visible */
@@ -94,6 +96,7 @@ export const BottomControls = memo<BottomControlsProps>(({
   onEffectsPress,
   onGalleryPress,
   onFiltersPress,
+  onModerationPress,
   fadeAnim,
   visible = true,
   uploadProgress,
@@ -144,12 +147,20 @@ export const BottomControls = memo<BottomControlsProps>(({
 
             {/* Right side buttons */}
             <View style={styles.sideButtons}>
-              <SideButton
-                icon={<Sparkles size={iconSize} color="white" />}
-                label="Effects"
-                onPress={onEffectsPress}
-                disabled={isRecording}
-              />
+              {isRecording && onModerationPress ? (
+                <SideButton
+                  icon={<Shield size={iconSize} color="white" />}
+                  label="Moderate"
+                  onPress={onModerationPress}
+                />
+              ) : (
+                <SideButton
+                  icon={<Sparkles size={iconSize} color="white" />}
+                  label="Effects"
+                  onPress={onEffectsPress}
+                  disabled={isRecording}
+                />
+              )}
             </View>
           </View>
 
@@ -8,9 +8,14 @@
  * - 100-message rolling buffer
  * - TextInput for sending via `useSendLivestreamChat`
  * - Semi-transparent overlay design (TikTok/YouTube Live style)
+ * - Replay mode: renders `replayMessages` (the stored chat at a replay's
+ *   playhead — useReplayChat) read-only, ignoring live events
+ * - Moderation: drops messages on `livestream.chatDeleted`; staff long-press a
+ *   viewer's message to delete it, time them out or ban them. A restricted
+ *   viewer's input is replaced by the notice, and refused sends show why.
  */
 
-import React, { memo, useCallback, useRef, useState } from 'react';
+import React, { memo, useCallback, useEffect, useRef, useState } from 'react';
 import {
   View,
   Text,
@@ -19,13 +24,24 @@ import {
   StyleSheet,
   Pressable,
   Keyboard,
+  Alert,
   type ListRenderItemInfo,
+  type StyleProp,
+  type ViewStyle,
 } from 'react-native';
 import { Send } from 'lucide-react-native';
 import { useTheme, SPACING, TYPOGRAPHY, RADIUS, withAlpha } from '@/utils/theme';
 import { useSSEEvent } from '@/services/sse/useSSE';
-import { useSendLivestreamChat } from '@/services/videoHooks';
-import type { LivestreamChatPayload } from '@/services/sse/types';
+import {
+  useDeleteLivestreamChatMessage,
+  useLivestreamModeration,
+  useRestrictChatUser,
+  useSendLivestreamChat,
+} from '@/services/videoHooks';
+import { useAuthStore } from '@/utils/auth/store';
+import { TIMEOUT_OPTIONS, restrictionNotice } from '@/utils/livestreamModeration';
+import type { LivestreamChatDeletedPayload, LivestreamChatPayload } from '@/services/sse/types';
+import type { LivestreamChatMessage } from '@/types';
 
 // ============================================================================
 // TYPES
@@ -38,15 +54,13 @@ export interface LiveChatProps {
   inputEnabled?: boolean;
   /** Maximum visible height for the chat overlay */
   maxHeight?: number;
+  /** Replay mode: show these messages instead of live ones (input is hidden) */
+  replayMessages?: LivestreamChatMessage[];
+  /** Overrides the overlay's default position */
+  style?: StyleProp<ViewStyle>;
 }
 
-interface ChatMessage {
-  id: string;
-  userId: string;
-  userName: string;
-  text: string;
-  timestamp: string;
-}
+type ChatMessage = LivestreamChatMessage;
 
 // ============================================================================
 // CONSTANTS
@@ -63,16 +77,30 @@ export const LiveChat = memo<LiveChatProps>(({
   sessionId,
   inputEnabled = true,
   maxHeight = 280,
+  replayMessages,
+  style,
 }) => {
   const { colors } = useTheme();
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const isReplay = replayMessages !== undefined;
+  const [liveMessages, setMessages] = useState<ChatMessage[]>([]);
+  const messages = replayMessages ?? liveMessages;
   const [inputText, setInputText] = useState('');
   const flatListRef = useRef<FlatList<ChatMessage>>(null);
   const sendChat = useSendLivestreamChat();
+  const deleteMessage = useDeleteLivestreamChatMessage();
+  const restrictUser = useRestrictChatUser();
+  const viewerId = useAuthStore((state) => state.auth?.user?.id);
+  const { data: moderation } = useLivestreamModeration(sessionId, { enabled: !isReplay });
+  const canModerate = !!moderation?.canModerate;
+  const [sendError, setSendError] = useState<string | null>(null);
+
+  // Re-evaluated each render; a timeout's countdown is refreshed by the
+  // message traffic around it and cleared by the lift event
+  const notice = restrictionNotice(moderation?.myRestriction);
 
   // Subscribe to SSE chat events for this session
   useSSEEvent<LivestreamChatPayload>('livestream.chat', useCallback((data) => {
-    if (data.sessionId !== sessionId) return;
+    if (isReplay || data.sessionId !== sessionId) return;
 
     const msg: ChatMessage = {
       id: data.messageId,
@@ -80,6 +108,7 @@ export const LiveChat = memo<LiveChatProps>(({
       userName: data.userName,
       text: data.text,
       timestamp: data.timestamp,
+      offsetMs: data.offsetMs,
     };
 
     setMessages((prev) => {
@@ -92,13 +121,26 @@ export const LiveChat = memo<LiveChatProps>(({
     setTimeout(() => {
       flatListRef.current?.scrollToEnd({ animated: true });
     }, 50);
-  }, [sessionId]));
+  }, [isReplay, sessionId]));
+
+  // Deleted by staff — drop it from the buffer
+  useSSEEvent<LivestreamChatDeletedPayload>('livestream.chatDeleted', useCallback((data) => {
+    if (isReplay || data.sessionId !== sessionId) return;
+    setMessages((prev) => prev.filter((m) => m.id !== data.messageId));
+  }, [isReplay, sessionId]));
+
+  // Replay: follow the playhead as messages are crossed
+  const lastReplayId = replayMessages?.[replayMessages.length - 1]?.id;
+  useEffect(() => {
+    if (lastReplayId) flatListRef.current?.scrollToEnd({ animated: true });
+  }, [lastReplayId]);
 
   // Send message handler
   const handleSend = useCallback(() => {
     const text = inputText.trim();
     if (!text || !sessionId) return;
 
+    setSendError(null);
     sendChat.mutate(
       { sessionId, text },
       {
@@ -106,26 +148,73 @@ export const LiveChat = memo<LiveChatProps>(({
           setInputText('');
           Keyboard.dismiss();
         },
+        onError: (error) => setSendError(error.message),
       },
     );
   }, [inputText, sessionId, sendChat]);
 
+  // Staff actions on a viewer's message
+  const handleModerate = useCallback((item: ChatMessage) => {
+    const restrict = (kind: 'timeout' | 'ban', durationSeconds?: number) =>
+      restrictUser.mutate(
+        { sessionId, userId: item.userId, kind, durationSeconds },
+        { onError: (error) => Alert.alert('Could not restrict viewer', error.message) },
+      );
+
+    Alert.alert(item.userName, item.text, [
+      {
+        text: 'Delete message',
+        style: 'destructive',
+        onPress: () => deleteMessage.mutate(
+          { sessionId, messageId: item.id },
+          { onError: (error) => Alert.alert('Could not delete message', error.message) },
+        ),
+      },
+      {
+        text: 'Time out…',
+        onPress: () => Alert.alert(`Time out ${item.userName}`, 'They can watch but not chat until it ends.', [
+          ...TIMEOUT_OPTIONS.map((option) => ({
+            text: option.label,
+            onPress: () => restrict('timeout', option.seconds),
+          })),
+          { text: 'Cancel', style: 'cancel' as const },
+        ]),
+      },
+      {
+        text: 'Ban from chat',
+        style: 'destructive',
+        onPress: () => restrict('ban'),
+      },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  }, [sessionId, deleteMessage, restrictUser]);
+
   // Render individual chat message
-  const renderMessage = useCallback(({ item }: ListRenderItemInfo<ChatMessage>) => (
-    <View style={styles.messageRow}>
-      <Text style={[styles.userName, { color: colors.primary }]} numberOfLines={1}>
-        {item.userName}
-      </Text>
-      <Text style={[styles.messageText, { color: colors.text }]} numberOfLines={2}>
-        {item.text}
-      </Text>
-    </View>
-  ), [colors.primary, colors.text]);
+  const renderMessage = useCallback(({ item }: ListRenderItemInfo<ChatMessage>) => {
+    const moderatable = canModerate && !isReplay && item.userId !== viewerId;
+    return (
+      <Pressable
+        style={styles.messageRow}
+        onLongPress={moderatable ? () => handleModerate(item) : undefined}
+        disabled={!moderatable}
+        accessibilityHint={moderatable ? 'Long press to moderate' : undefined}
+      >
+        <Text style={[styles.userName, { color: colors.primary }]} numberOfLines={1}>
+          {item.userName}
+        </Text>
+        <Text style={[styles.messageText, { color: colors.text }]} numberOfLines={2}>
+          {item.text}
+        </Text>
+      </Pressable>
+    );
+  }, [canModerate, isReplay, viewerId, handleModerate, colors.primary, colors.text]);
+
+  const inputStatus = notice ?? sendError;
 
   const keyExtractor = useCallback((item: ChatMessage) => item.id, []);
 
   return (
-    <View style={[styles.container, { maxHeight }]}>
+    <View style={[styles.container, { maxHeight }, style]}>
       {/* Message list */}
       <FlatList
         ref={flatListRef}
@@ -146,13 +235,20 @@ export const LiveChat = memo<LiveChatProps>(({
       {messages.length === 0 && (
         <View style={styles.emptyState}>
           <Text style={[styles.emptyText, { color: withAlpha(colors.text, 0.5) }]}>
-            Chat messages will appear here
+            {isReplay ? 'No chat yet at this point of the stream' : 'Chat messages will appear here'}
           </Text>
         </View>
       )}
 
+      {/* Restriction notice / refused send */}
+      {inputEnabled && !isReplay && inputStatus && (
+        <Text style={[styles.inputStatus, { color: colors.warning }]} numberOfLines={2}>
+          {inputStatus}
+        </Text>
+      )}
+
       {/* Input bar */}
-      {inputEnabled && (
+      {inputEnabled && !isReplay && !notice && (
         <View style={[styles.inputBar, { backgroundColor: withAlpha(colors.background, 0.6) }]}>
           <TextInput
             style={[
@@ -164,7 +260,10 @@ export const LiveChat = memo<LiveChatProps>(({
               },
             ]}
             value={inputText}
-            onChangeText={setInputText}
+            onChangeText={(text) => {
+              setInputText(text);
+              if (sendError) setSendError(null);
+            }}
             placeholder="Say something..."
             placeholderTextColor={withAlpha(colors.text, 0.4)}
             maxLength={MAX_MESSAGE_LENGTH}
@@ -250,6 +349,12 @@ const styles = StyleSheet.create({
     fontSize: TYPOGRAPHY.fontSize.sm,
     fontStyle: 'italic',
   },
+  inputStatus: {
+    fontSize: TYPOGRAPHY.fontSize.xs,
+    fontWeight: '600',
+    paddingHorizontal: SPACING.sm,
+    paddingBottom: SPACING.xs,
+  },
   inputBar: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -51,6 +51,7 @@ import { GradientOverlay } from './GradientOverlay';
 import { PreLiveLobby } from './PreLiveLobby';
 import { StreamHealthBadge } from './StreamHealthBadge';
 import { LiveChat } from './LiveChat';
+import { LivestreamModerationSheet } from './LivestreamModerationSheet';
 import { PostCaptureDraft } from './PostCaptureDraft';
 
 // ============================================================================
@@ -156,7 +157,12 @@ export const LiveStreamScreen = memo<LiveStreamScreenProps>(({
   const [showControls, setShowControls] = useState(true);
   const [showLimitWarning, setShowLimitWarning] = useState(false);
   const [showLobby, setShowLobby] = useState(mode === 'live');
-  const [draftState, setDraftState] = useState<{ videoUri: string; duration: number } | null>(null);
+  // livestreamSessionId: set for an ended livestream — publishing makes the video its replay
+  const [draftState, setDraftState] = useState<{
+    videoUri: string;
+    duration: number;
+    livestreamSessionId?: string;
+  } | null>(null);
   
   // Camera hook - industry standard lazy camera initialization
   // autoRequest: false - Show permission prompt UI first for better UX
@@ -203,6 +209,7 @@ export const LiveStreamScreen = memo<LiveStreamScreenProps>(({
   // Orientation state for landscape recording support
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   const [isLandscape, setIsLandscape] = useState(false);
+  const [showModeration, setShowModeration] = useState(false);
 
   // Navigate to subscription screen for upgrade
   const handleUpgrade = useCallback(() => {
@@ -499,7 +506,8 @@ export const LiveStreamScreen = memo<LiveStreamScreenProps>(({
     // Update store state (recording stopped)
     storeStopRecording();
 
-    // End server-side session
+    // End server-side session (a livestream's id is kept for publishing its replay)
+    const endedSessionId = mode === 'live' ? sessionIdRef.current ?? undefined : undefined;
     if (sessionIdRef.current) {
       try {
         await endLivestreamMutation.mutateAsync({
@@ -523,7 +531,7 @@ export const LiveStreamScreen = memo<LiveStreamScreenProps>(({
         console.warn('Failed to save to media library');
       }
       // Show post-capture draft screen for metadata entry
-      setDraftState({ videoUri, duration: recordingTime });
+      setDraftState({ videoUri, duration: recordingTime, livestreamSessionId: endedSessionId });
     } else {
       // No video recorded, just close
       Alert.alert('Recording Error', 'No video was recorded.');
@@ -546,7 +554,7 @@ export const LiveStreamScreen = memo<LiveStreamScreenProps>(({
     if (!draftState || !userId || isUploading || isProcessing) return;
 
     // Capture values before any state changes to avoid stale closures
-    const { videoUri, duration } = draftState;
+    const { videoUri, duration, livestreamSessionId } = draftState;
 
     try {
       // Use combined video+thumbnail upload when thumbnail is available
@@ -557,6 +565,7 @@ export const LiveStreamScreen = memo<LiveStreamScreenProps>(({
             title: metadata.title,
             description: metadata.description,
             duration,
+            livestreamSessionId,
             thumbnailUri: metadata.thumbnailUri,
           })
         : await uploadVideoHook.mutateAsync({
@@ -565,6 +574,7 @@ export const LiveStreamScreen = memo<LiveStreamScreenProps>(({
             title: metadata.title,
             description: metadata.description,
             duration,
+            livestreamSessionId,
           });
 
       // Success — dismiss draft, reset title ref, notify parent
@@ -586,6 +596,7 @@ export const LiveStreamScreen = memo<LiveStreamScreenProps>(({
         'validation', 'authentication', 'auth_required', 'unauthorized', 'forbidden',
         'token expired', 'not signed in', 'user_not_found', 'user not found',
         'file too large', 'invalid file', 'failed to get upload url', 'file not found in storage',
+        'already has a replay',
       ];
       if (nonRetryable.some(p => msg.includes(p))) {
         Alert.alert('Upload Failed', error.message);
@@ -601,6 +612,7 @@ export const LiveStreamScreen = memo<LiveStreamScreenProps>(({
         description: metadata.description,
         duration,
         userId,
+        livestreamSessionId,
       });
       Alert.alert('Upload Queued', 'Upload will retry when connection improves.');
       onClose?.();
@@ -637,6 +649,9 @@ export const LiveStreamScreen = memo<LiveStreamScreenProps>(({
     Alert.alert('Filters', 'Filters feature coming soon!');
   }, []);
 
+  const handleModerationPress = useCallback(() => setShowModeration(true), []);
+  const handleModerationClose = useCallback(() => setShowModeration(false), []);
+
   const handleSettingsPress = useCallback(() => {
     Alert.alert('Settings', 'Camera settings coming soon!');
   }, []);
@@ -819,12 +834,22 @@ export const LiveStreamScreen = memo<LiveStreamScreenProps>(({
               onEffectsPress={handleEffectsPress}
               onGalleryPress={handleGalleryPress}
               onFiltersPress={handleFiltersPress}
+              onModerationPress={mode === 'live' && storeLivestreamStatus.sessionId ? handleModerationPress : undefined}
               fadeAnim={fadeAnim}
               visible={showControls}
               uploadProgress={uploadProgress}
               maxDuration={effectiveMaxDuration}
               hasVideoPremium={hasVideoPremium}
             />
+
+            {/* Chat moderation (slow mode, banned words, timeouts, co-moderators) */}
+            {mode === 'live' && isRecording && (
+              <LivestreamModerationSheet
+                visible={showModeration}
+                sessionId={storeLivestreamStatus.sessionId}
+                onClose={handleModerationClose}
+              />
+            )}
           </View>
         </TouchableOpacity>
       </SafeAreaView>
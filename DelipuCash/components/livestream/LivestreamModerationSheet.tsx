@@ -0,0 +1,509 @@
+/**
+ * LivestreamModerationSheet — the streamer's chat controls while live
+ *
+ * Sections:
+ * - Slow mode — one message per N seconds for viewers
+ * - Followers-only chat and link blocking
+ * - Banned words — checked on every viewer message before it is broadcast;
+ *   the list belongs to the streamer and applies to all their streams
+ * - Co-moderators — appointed from the streamer's followers; they can delete
+ *   messages and time out or ban viewers (long-press in LiveChat)
+ * - Restricted viewers — this session's timeouts and bans, each liftable
+ *
+ * Follows VideoOptionsSheet pattern (reanimated + GestureDetector, state-based visibility).
+ *
+ * @module components/livestream/LivestreamModerationSheet
+ */
+
+import React, { memo, useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  Pressable,
+  ScrollView,
+  Switch,
+  Dimensions,
+  Alert,
+} from 'react-native';
+import Animated, {
+  useSharedValue,
+  useAnimatedStyle,
+  withTiming,
+  runOnJS,
+} from 'react-native-reanimated';
+import {
+  Gesture,
+  GestureDetector,
+} from 'react-native-gesture-handler';
+import { Check, Plus, X } from 'lucide-react-native';
+import * as Haptics from '@/utils/haptics';
+import {
+  useTheme,
+  SPACING,
+  TYPOGRAPHY,
+  RADIUS,
+} from '@/utils/theme';
+import { useAuthStore } from '@/utils/auth/store';
+import {
+  useAddLivestreamModerator,
+  useFollowers,
+  useLiftChatRestriction,
+  useLivestreamModeration,
+  useLivestreamModerationSettings,
+  useRemoveLivestreamModerator,
+  useUpdateLivestreamBannedWords,
+  useUpdateLivestreamChatSettings,
+} from '@/services/videoHooks';
+import {
+  SLOW_MODE_OPTIONS,
+  addBannedWords,
+  restrictionNotice,
+  slowModeLabel,
+} from '@/utils/livestreamModeration';
+import type { FollowedCreator, LivestreamChatSettings } from '@/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface LivestreamModerationSheetProps {
+  visible: boolean;
+  /** The live session being moderated */
+  sessionId: string | null;
+  onClose: () => void;
+  testID?: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const { height: SCREEN_HEIGHT } = Dimensions.get('window');
+const SHEET_HEIGHT = Math.round(SCREEN_HEIGHT * 0.75);
+
+const fullName = (user: FollowedCreator) => `${user.firstName} ${user.lastName}`.trim();
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+function LivestreamModerationSheetComponent({
+  visible,
+  sessionId,
+  onClose,
+  testID,
+}: LivestreamModerationSheetProps): React.ReactElement | null {
+  const { colors } = useTheme();
+  const userId = useAuthStore((s) => s.auth?.user?.id);
+  const [wordInput, setWordInput] = useState('');
+  const [showFollowers, setShowFollowers] = useState(false);
+
+  const { data: moderation } = useLivestreamModeration(sessionId, { enabled: visible });
+  const { data: streamerSettings } = useLivestreamModerationSettings({ enabled: visible });
+  const { data: followers = [] } = useFollowers(userId, { enabled: visible && showFollowers });
+  const updateSettings = useUpdateLivestreamChatSettings();
+  const liftRestriction = useLiftChatRestriction();
+  const updateBannedWords = useUpdateLivestreamBannedWords();
+  const addModerator = useAddLivestreamModerator();
+  const removeModerator = useRemoveLivestreamModerator();
+
+  const settings = moderation?.settings;
+  const bannedWords = useMemo(() => streamerSettings?.bannedWords ?? [], [streamerSettings?.bannedWords]);
+  const moderators = useMemo(() => streamerSettings?.moderators ?? [], [streamerSettings?.moderators]);
+  const candidates = useMemo(
+    () => followers.filter((f) => !moderators.some((m) => m.id === f.id)),
+    [followers, moderators],
+  );
+
+  // Animation values
+  const translateY = useSharedValue(SHEET_HEIGHT);
+  const backdropOpacity = useSharedValue(0);
+
+  // Animate open/close
+  useEffect(() => {
+    if (visible) {
+      translateY.value = withTiming(0, { duration: 250 });
+      backdropOpacity.value = withTiming(0.5, { duration: 200 });
+    } else {
+      translateY.value = withTiming(SHEET_HEIGHT, { duration: 200 });
+      backdropOpacity.value = withTiming(0, { duration: 200 });
+      setShowFollowers(false);
+      setWordInput('');
+    }
+  }, [visible, translateY, backdropOpacity]);
+
+  const handleClose = useCallback(() => {
+    onClose();
+  }, [onClose]);
+
+  const showError = useCallback((title: string) => (error: Error) => {
+    Alert.alert(title, error.message);
+  }, []);
+
+  const handleSetting = useCallback(
+    (changes: Partial<LivestreamChatSettings>) => {
+      if (!sessionId) return;
+      Haptics.selectionAsync();
+      updateSettings.mutate({ sessionId, changes }, { onError: showError('Could not update chat') });
+    },
+    [sessionId, updateSettings, showError],
+  );
+
+  const handleAddWords = useCallback(() => {
+    const next = addBannedWords(bannedWords, wordInput);
+    setWordInput('');
+    if (next.length === bannedWords.length) return;
+    updateBannedWords.mutate(next, { onError: showError('Could not save banned words') });
+  }, [bannedWords, wordInput, updateBannedWords, showError]);
+
+  const handleRemoveWord = useCallback(
+    (word: string) => {
+      updateBannedWords.mutate(
+        bannedWords.filter((w) => w !== word),
+        { onError: showError('Could not save banned words') },
+      );
+    },
+    [bannedWords, updateBannedWords, showError],
+  );
+
+  const handleLift = useCallback(
+    (targetId: string) => {
+      if (!sessionId) return;
+      liftRestriction.mutate({ sessionId, userId: targetId }, { onError: showError('Could not lift restriction') });
+    },
+    [sessionId, liftRestriction, showError],
+  );
+
+  // Swipe down to dismiss
+  const panGesture = Gesture.Pan()
+    .onEnd((e) => {
+      if (e.translationY > 50) {
+        runOnJS(handleClose)();
+      }
+    });
+
+  // Animated styles
+  const sheetStyle = useAnimatedStyle(() => ({
+    transform: [{ translateY: translateY.value }],
+  }));
+
+  const backdropStyle = useAnimatedStyle(() => ({
+    opacity: backdropOpacity.value,
+  }));
+
+  if (!visible && !sessionId) return null;
+
+  const restrictions = moderation?.restrictions ?? [];
+
+  return (
+    <View style={[StyleSheet.absoluteFill, styles.overlay]} pointerEvents={visible ? 'auto' : 'none'} accessibilityViewIsModal={visible}>
+      {/* Backdrop */}
+      <Pressable style={StyleSheet.absoluteFill} onPress={handleClose}>
+        <Animated.View style={[StyleSheet.absoluteFill, { backgroundColor: '#000000' }, backdropStyle]} />
+      </Pressable>
+
+      {/* Sheet */}
+      <Animated.View
+        style={[
+          styles.sheet,
+          { backgroundColor: colors.card },
+          sheetStyle,
+        ]}
+        testID={testID}
+      >
+        {/* Handle */}
+        <GestureDetector gesture={panGesture}>
+          <View style={styles.handleContainer}>
+            <View style={[styles.handle, { backgroundColor: colors.border }]} />
+            <Text style={[styles.title, { color: colors.text }]}>Chat moderation</Text>
+          </View>
+        </GestureDetector>
+
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          {/* Slow mode */}
+          <Text style={[styles.sectionLabel, { color: colors.textMuted }]}>Slow mode</Text>
+          <View style={styles.chipRow}>
+            {SLOW_MODE_OPTIONS.map((seconds) => {
+              const selected = (settings?.slowModeSeconds ?? 0) === seconds;
+              return (
+                <Pressable
+                  key={seconds}
+                  style={[styles.chip, { borderColor: selected ? colors.primary : colors.border }]}
+                  onPress={() => handleSetting({ slowModeSeconds: seconds })}
+                  disabled={!settings || selected}
+                  accessibilityRole="radio"
+                  accessibilityState={{ checked: selected }}
+                  testID={`moderation-slow-${seconds}`}
+                >
+                  {selected && <Check size={14} color={colors.primary} strokeWidth={2} />}
+                  <Text style={[styles.chipLabel, { color: selected ? colors.primary : colors.text }]}>
+                    {slowModeLabel(seconds)}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+
+          {/* Toggles */}
+          <View style={styles.toggleRow}>
+            <View style={styles.toggleText}>
+              <Text style={[styles.toggleLabel, { color: colors.text }]}>Followers-only chat</Text>
+              <Text style={[styles.toggleHint, { color: colors.textMuted }]}>Only your followers can send messages</Text>
+            </View>
+            <Switch
+              value={!!settings?.followersOnlyChat}
+              onValueChange={(value) => handleSetting({ followersOnlyChat: value })}
+              disabled={!settings}
+              thumbColor={settings?.followersOnlyChat ? colors.primary : colors.border}
+              trackColor={{ false: colors.border, true: colors.primary + '60' }}
+              accessibilityLabel="Followers-only chat"
+            />
+          </View>
+          <View style={styles.toggleRow}>
+            <View style={styles.toggleText}>
+              <Text style={[styles.toggleLabel, { color: colors.text }]}>Block links</Text>
+              <Text style={[styles.toggleHint, { color: colors.textMuted }]}>Stops payment and scam links from viewers</Text>
+            </View>
+            <Switch
+              value={!!settings?.blockChatLinks}
+              onValueChange={(value) => handleSetting({ blockChatLinks: value })}
+              disabled={!settings}
+              thumbColor={settings?.blockChatLinks ? colors.primary : colors.border}
+              trackColor={{ false: colors.border, true: colors.primary + '60' }}
+              accessibilityLabel="Block links"
+            />
+          </View>
+
+          {/* Banned words */}
+          <Text style={[styles.sectionLabel, { color: colors.textMuted }]}>Banned words</Text>
+          <View style={styles.inputRow}>
+            <TextInput
+              style={[styles.input, { color: colors.text, borderColor: colors.border }]}
+              value={wordInput}
+              onChangeText={setWordInput}
+              placeholder="Add words, separated by commas"
+              placeholderTextColor={colors.textMuted}
+              autoCapitalize="none"
+              autoCorrect={false}
+              returnKeyType="done"
+              onSubmitEditing={handleAddWords}
+              testID="moderation-banned-input"
+            />
+            <Pressable
+              style={[styles.iconButton, { backgroundColor: colors.primary }]}
+              onPress={handleAddWords}
+              disabled={!wordInput.trim() || updateBannedWords.isPending}
+              accessibilityRole="button"
+              accessibilityLabel="Add banned words"
+            >
+              <Plus size={18} color="#FFFFFF" />
+            </Pressable>
+          </View>
+          <View style={styles.chipRow}>
+            {bannedWords.map((word) => (
+              <Pressable
+                key={word}
+                style={[styles.chip, { borderColor: colors.border }]}
+                onPress={() => handleRemoveWord(word)}
+                accessibilityRole="button"
+                accessibilityLabel={`Remove ${word}`}
+              >
+                <Text style={[styles.chipLabel, { color: colors.text }]}>{word}</Text>
+                <X size={12} color={colors.textMuted} />
+              </Pressable>
+            ))}
+          </View>
+
+          {/* Co-moderators */}
+          <Text style={[styles.sectionLabel, { color: colors.textMuted }]}>Moderators</Text>
+          {moderators.map((mod) => (
+            <View key={mod.id} style={styles.personRow}>
+              <Text style={[styles.personName, { color: colors.text }]} numberOfLines={1}>{fullName(mod)}</Text>
+              <Pressable
+                onPress={() => removeModerator.mutate(mod.id, { onError: showError('Could not remove moderator') })}
+                accessibilityRole="button"
+                accessibilityLabel={`Remove ${fullName(mod)} as moderator`}
+              >
+                <Text style={[styles.personAction, { color: colors.error }]}>Remove</Text>
+              </Pressable>
+            </View>
+          ))}
+          <Pressable
+            style={styles.personRow}
+            onPress={() => setShowFollowers((open) => !open)}
+            accessibilityRole="button"
+            accessibilityState={{ expanded: showFollowers }}
+            testID="moderation-add-moderator"
+          >
+            <Text style={[styles.personAction, { color: colors.primary }]}>
+              {showFollowers ? 'Done' : 'Add from followers'}
+            </Text>
+          </Pressable>
+          {showFollowers && candidates.map((follower) => (
+            <View key={follower.id} style={styles.personRow}>
+              <Text style={[styles.personName, { color: colors.text }]} numberOfLines={1}>{fullName(follower)}</Text>
+              <Pressable
+                onPress={() => addModerator.mutate(follower.id, { onError: showError('Could not add moderator') })}
+                disabled={addModerator.isPending}
+                accessibilityRole="button"
+                accessibilityLabel={`Make ${fullName(follower)} a moderator`}
+              >
+                <Text style={[styles.personAction, { color: colors.primary }]}>Add</Text>
+              </Pressable>
+            </View>
+          ))}
+
+          {/* Restricted viewers */}
+          <Text style={[styles.sectionLabel, { color: colors.textMuted }]}>Restricted viewers</Text>
+          {restrictions.length === 0 ? (
+            <Text style={[styles.toggleHint, { color: colors.textMuted }]}>Nobody is timed out or banned</Text>
+          ) : (
+            restrictions.map((restriction) => (
+              <View key={restriction.userId} style={styles.personRow}>
+                <View style={styles.toggleText}>
+                  <Text style={[styles.personName, { color: colors.text }]} numberOfLines={1}>
+                    {restriction.userName ?? 'Viewer'}
+                  </Text>
+                  <Text style={[styles.toggleHint, { color: colors.textMuted }]}>
+                    {restriction.kind === 'ban' ? 'Banned' : restrictionNotice(restriction)}
+                  </Text>
+                </View>
+                <Pressable
+                  onPress={() => handleLift(restriction.userId)}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Lift restriction on ${restriction.userName ?? 'viewer'}`}
+                >
+                  <Text style={[styles.personAction, { color: colors.primary }]}>Lift</Text>
+                </Pressable>
+              </View>
+            ))
+          )}
+        </ScrollView>
+      </Animated.View>
+    </View>
+  );
+}
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = StyleSheet.create({
+  overlay: {
+    zIndex: 100,
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    borderTopLeftRadius: RADIUS.xl,
+    borderTopRightRadius: RADIUS.xl,
+    height: SHEET_HEIGHT,
+  },
+  handleContainer: {
+    alignItems: 'center',
+    paddingVertical: SPACING.sm,
+    gap: SPACING.sm,
+  },
+  handle: {
+    width: 36,
+    height: 4,
+    borderRadius: 2,
+  },
+  title: {
+    fontFamily: TYPOGRAPHY.fontFamily.bold,
+    fontSize: TYPOGRAPHY.fontSize.lg,
+  },
+  content: {
+    paddingHorizontal: SPACING.lg,
+    paddingBottom: SPACING['2xl'],
+  },
+  sectionLabel: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+    textTransform: 'uppercase',
+    marginTop: SPACING.lg,
+    marginBottom: SPACING.sm,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.sm,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.xs,
+    borderWidth: 1,
+    borderRadius: RADIUS.full,
+    paddingHorizontal: SPACING.md,
+    minHeight: 36,
+  },
+  chipLabel: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: SPACING.sm,
+    gap: SPACING.md,
+    minHeight: 48,
+  },
+  toggleText: {
+    flex: 1,
+  },
+  toggleLabel: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.base,
+  },
+  toggleHint: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    marginBottom: SPACING.sm,
+  },
+  input: {
+    flex: 1,
+    height: 40,
+    borderWidth: 1,
+    borderRadius: RADIUS.md,
+    paddingHorizontal: SPACING.md,
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  iconButton: {
+    width: 40,
+    height: 40,
+    borderRadius: RADIUS.full,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  personRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    minHeight: 44,
+    gap: SPACING.md,
+  },
+  personName: {
+    flexShrink: 1,
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.base,
+  },
+  personAction: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+});
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+export const LivestreamModerationSheet = memo(LivestreamModerationSheetComponent);
+export default LivestreamModerationSheet;
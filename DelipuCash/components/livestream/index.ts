@@ -43,3 +43,6 @@ export type { StreamHealthBadgeProps, UploadHealth } from './StreamHealthBadge';
 
 export { LiveChat } from './LiveChat';
 export type { LiveChatProps } from './LiveChat';
+
+export { LivestreamModerationSheet } from './LivestreamModerationSheet';
+export type { LivestreamModerationSheetProps } from './LivestreamModerationSheet';
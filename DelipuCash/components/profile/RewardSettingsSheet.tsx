@@ -45,6 +45,7 @@ import {
   Sparkles,
   Users,
   Gift,
+  PlayCircle,
 } from 'lucide-react-native';
 import * as Haptics from '@/utils/haptics';
 
@@ -92,6 +93,8 @@ export function RewardSettingsSheet({ visible, onClose }: RewardSettingsSheetPro
   const [defaultRegularReward, setDefaultRegularReward] = useState('');
   const [defaultInstantReward, setDefaultInstantReward] = useState('');
   const [referralBonus, setReferralBonus] = useState('');
+  const [rewardedAdPoints, setRewardedAdPoints] = useState('');
+  const [rewardedAdDailyCap, setRewardedAdDailyCap] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<RewardTab>('points');
 
@@ -105,6 +108,8 @@ export function RewardSettingsSheet({ visible, onClose }: RewardSettingsSheetPro
       setDefaultRegularReward(String(config.defaultRegularRewardAmount));
       setDefaultInstantReward(String(config.defaultInstantRewardAmount));
       setReferralBonus(String(config.referralBonusPoints));
+      setRewardedAdPoints(String(config.rewardedAdPoints));
+      setRewardedAdDailyCap(String(config.rewardedAdDailyCap));
       setError(null);
     }
   }, [visible, config]);
@@ -147,6 +152,18 @@ export function RewardSettingsSheet({ visible, onClose }: RewardSettingsSheetPro
     return `${pts} points = ${ugx.toLocaleString()} UGX per referral (each party)`;
   }, [referralBonus, cashNumerator, cashDenominator]);
 
+  // Rewarded ad preview
+  const rewardedAdPreview = useMemo(() => {
+    const pts = Number(rewardedAdPoints);
+    const cap = Number(rewardedAdDailyCap);
+    const num = Number(cashNumerator);
+    const den = Number(cashDenominator);
+    if (!pts || pts <= 0 || !num || !den || den <= 0) return null;
+    if (cap === 0) return 'Rewarded ads are off';
+    const ugx = Math.floor((pts * num) / den);
+    return `${pts} points = ${ugx.toLocaleString()} UGX per ad, up to ${cap} a day`;
+  }, [rewardedAdPoints, rewardedAdDailyCap, cashNumerator, cashDenominator]);
+
   // Withdrawal preview
   const withdrawalPreview = useMemo(() => {
     const min = Number(minWithdrawal);
@@ -170,6 +187,8 @@ export function RewardSettingsSheet({ visible, onClose }: RewardSettingsSheetPro
     const drr = Number(defaultRegularReward);
     const dir = Number(defaultInstantReward);
     const rb = Number(referralBonus);
+    const rap = Number(rewardedAdPoints);
+    const rac = Number(rewardedAdDailyCap);
 
     // Points & Rates tab validations
     if (!Number.isInteger(pps) || pps < 1) {
@@ -209,9 +228,19 @@ export function RewardSettingsSheet({ visible, onClose }: RewardSettingsSheetPro
       setError('Referral bonus must be between 1 and 10,000 points.');
       return false;
     }
+    if (!Number.isInteger(rap) || rap < 1 || rap > 1000) {
+      setActiveTab('rewards');
+      setError('Rewarded ad points must be between 1 and 1,000.');
+      return false;
+    }
+    if (!Number.isInteger(rac) || rac < 0 || rac > 50) {
+      setActiveTab('rewards');
+      setError('Rewarded ads per day must be between 0 (off) and 50.');
+      return false;
+    }
     setError(null);
     return true;
-  }, [pointsPerSurvey, cashNumerator, cashDenominator, minWithdrawal, defaultRegularReward, defaultInstantReward, referralBonus]);
+  }, [pointsPerSurvey, cashNumerator, cashDenominator, minWithdrawal, defaultRegularReward, defaultInstantReward, referralBonus, rewardedAdPoints, rewardedAdDailyCap]);
 
   const handleSave = useCallback(async () => {
     if (!validate()) return;
@@ -227,6 +256,8 @@ export function RewardSettingsSheet({ visible, onClose }: RewardSettingsSheetPro
         defaultRegularRewardAmount: Number(defaultRegularReward),
         defaultInstantRewardAmount: Number(defaultInstantReward),
         referralBonusPoints: Number(referralBonus),
+        rewardedAdPoints: Number(rewardedAdPoints),
+        rewardedAdDailyCap: Number(rewardedAdDailyCap),
       });
 
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
@@ -236,7 +267,7 @@ export function RewardSettingsSheet({ visible, onClose }: RewardSettingsSheetPro
       setError(err.message || 'Failed to save settings.');
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
     }
-  }, [validate, pointsPerSurvey, cashNumerator, cashDenominator, minWithdrawal, defaultRegularReward, defaultInstantReward, referralBonus, updateConfig, onClose]);
+  }, [validate, pointsPerSurvey, cashNumerator, cashDenominator, minWithdrawal, defaultRegularReward, defaultInstantReward, referralBonus, rewardedAdPoints, rewardedAdDailyCap, updateConfig, onClose]);
 
   const handleClose = useCallback(() => {
     if (!updateConfig.isPending) {
@@ -445,6 +476,31 @@ export function RewardSettingsSheet({ visible, onClose }: RewardSettingsSheetPro
                     </Text>
                   </Animated.View>
                 )}
+
+                {/* Rewarded ads */}
+                <SettingField
+                  icon={<PlayCircle size={18} color="#2196F3" />}
+                  label="Rewarded ad (points)"
+                  hint="Points for watching a rewarded ad to the end"
+                  value={rewardedAdPoints}
+                  onChangeText={setRewardedAdPoints}
+                  colors={colors}
+                />
+                <SettingField
+                  icon={<PlayCircle size={18} color="#2196F3" />}
+                  label="Rewarded ads per day"
+                  hint="How many a user can be paid for each day — 0 turns them off"
+                  value={rewardedAdDailyCap}
+                  onChangeText={setRewardedAdDailyCap}
+                  colors={colors}
+                />
+                {rewardedAdPreview && (
+                  <Animated.View entering={FadeIn.duration(200)} style={{ marginTop: -SPACING.sm }}>
+                    <Text style={[styles.previewText, { color: colors.success }]}>
+                      {rewardedAdPreview}
+                    </Text>
+                  </Animated.View>
+                )}
               </>
             )}
 
@@ -37,6 +37,7 @@ import {
   ArrowLeft,
   Award,
   CheckCircle2,
+  Flag,
   MessageSquare,
   RefreshCw,
   Send,
@@ -68,6 +69,8 @@ import { QuestionDetailSkeleton } from '@/components/question/QuestionSkeletons'
 interface ResponseCardProps {
   response: {
     id: string;
+    /** Author — the viewer can't report their own response */
+    userId?: string;
     userName: string;
     responseText: string;
     createdAt: string;
@@ -83,6 +86,8 @@ interface ResponseCardProps {
   isDisliked?: boolean;
   onLike?: (id: string) => void;
   onDislike?: (id: string) => void;
+  /** Report the response to the moderators — omit for the viewer's own */
+  onReport?: (id: string) => void;
   colors: ThemeColors;
 }
 
@@ -90,7 +95,7 @@ interface ResponseCardProps {
  * Memoized response card with SO-style accepted answer badge
  */
 export const ResponseCard = memo<ResponseCardProps>(
-  ({ response, isLiked, isDisliked, onLike, onDislike, colors }) => {
+  ({ response, isLiked, isDisliked, onLike, onDislike, onReport, colors }) => {
     const likeCount = response.likeCount + (isLiked ? 1 : 0);
     const dislikeCount = response.dislikeCount + (isDisliked ? 1 : 0);
 
@@ -143,7 +148,7 @@ export const ResponseCard = memo<ResponseCardProps>(
           {response.responseText}
         </Text>
 
-        {(onLike || onDislike) && (
+        {(onLike || onDislike || onReport) && (
           <View style={layoutStyles.responseActions}>
             {onLike && (
               <Pressable
@@ -193,6 +198,17 @@ export const ResponseCard = memo<ResponseCardProps>(
                 </Text>
               </Pressable>
             )}
+            {onReport && (
+              <Pressable
+                style={[layoutStyles.actionButton, layoutStyles.reportButton]}
+                onPress={() => { triggerHaptic('light'); onReport(response.id); }}
+                accessibilityRole="button"
+                accessibilityLabel="Report response"
+                hitSlop={8}
+              >
+                <Flag size={ICON_SIZE.sm} color={colors.textMuted} strokeWidth={1.5} />
+              </Pressable>
+            )}
           </View>
         )}
       </View>
@@ -227,6 +243,7 @@ export function transformResponses(responses: Response[] | undefined): ResponseC
 
   return responses.map((r) => ({
     id: r.id,
+    userId: r.userId,
     userName: r.user
       ? `${r.user.firstName || ''} ${r.user.lastName || ''}`.trim() || 'Anonymous'
       : 'Anonymous',
@@ -736,6 +753,10 @@ const layoutStyles = StyleSheet.create({
     fontFamily: TYPOGRAPHY.fontFamily.medium,
     fontSize: TYPOGRAPHY.fontSize.sm,
   },
+  reportButton: {
+    marginLeft: 'auto',
+    justifyContent: 'center',
+  },
 
   // Input Card
   inputCard: {
@@ -9,6 +9,7 @@
  * - Trend indicators
  * - Responsive grid layout for tablets
  * - Export menu with progress feedback
+ * - Active segment banner (analytics computed for a saved respondent segment)
  * - Full accessibility support
  */
 
@@ -38,6 +39,7 @@ import {
   FileText,
   X,
   Share2,
+  Filter,
 } from 'lucide-react-native';
 import * as Haptics from '@/utils/haptics';
 import {
@@ -50,6 +52,7 @@ import {
 } from '@/utils/theme';
 import { AnalyticsDashboardSkeleton } from './SurveySkeletons';
 import type { QuestionAggregate, SurveyAnalytics } from '@/store/SurveyResponseUIStore';
+import type { ResponseSegment } from '@/utils/crossTab';
 
 // ============================================================================
 // TYPES
@@ -62,6 +65,9 @@ interface AnalyticsDashboardProps {
   onExport: (format: 'csv' | 'json' | 'pdf') => Promise<void>;
   onShare: () => void;
   onRefresh: () => void;
+  /** Segment the analytics were computed for; every card and chart reflects only its respondents */
+  segment?: ResponseSegment | null;
+  onClearSegment?: () => void;
 }
 
 interface MetricCardData {
@@ -461,6 +467,8 @@ export const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
   onExport,
   onShare,
   onRefresh,
+  segment,
+  onClearSegment,
 }) => {
   const { colors } = useTheme();
   const { width } = useWindowDimensions();
@@ -570,6 +578,26 @@ export const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
         </View>
       </View>
 
+      {/* Active Segment */}
+      {segment && (
+        <View style={[styles.segmentBanner, { backgroundColor: withAlpha(colors.primary, 0.1) }]}>
+          <Filter size={14} color={colors.primary} />
+          <Text style={[styles.segmentText, { color: colors.primary }]} numberOfLines={1}>
+            {segment.name}
+          </Text>
+          {onClearSegment && (
+            <TouchableOpacity
+              onPress={onClearSegment}
+              hitSlop={8}
+              accessibilityRole="button"
+              accessibilityLabel="Show all respondents"
+            >
+              <X size={14} color={colors.primary} />
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
       {/* Key Metrics Grid */}
       <View style={[styles.metricsGrid, isTablet && styles.metricsGridTablet]}>
         {metrics.map((metric, index) => (
@@ -691,6 +719,22 @@ const styles = StyleSheet.create({
     borderWidth: 1,
   },
 
+  // Segment banner
+  segmentBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.xs,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xs,
+    borderRadius: RADIUS.md,
+    marginBottom: SPACING.md,
+  },
+  segmentText: {
+    flex: 1,
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+
   // Metrics grid
   metricsGrid: {
     flexDirection: 'row',
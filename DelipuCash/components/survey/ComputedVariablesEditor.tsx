@@ -0,0 +1,326 @@
+/**
+ * ComputedVariablesEditor — Hidden survey variables for answer piping
+ *
+ * Lets creators define variables respondents never see, then pipe them into
+ * question text as {{name}}:
+ * - Score: "Add up [Q2] [Q4] [Q5]" (numbers, checkbox counts, option positions)
+ * - Segment: "Label [Q3 or an earlier variable] by bands" with a fallback
+ *
+ * Edits write straight to SurveyBuilderStore; publish-time validation
+ * (validateBuilderSurvey) reports broken definitions.
+ */
+
+import React, { useCallback } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import * as Haptics from '@/utils/haptics';
+import { Plus, Trash2, X, Sigma, Tag } from 'lucide-react-native';
+import { useTheme, SPACING, TYPOGRAPHY, RADIUS, withAlpha } from '@/utils/theme';
+import type { BuilderQuestionData, ComputedVariable, SegmentBand } from '@/store/SurveyBuilderStore';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface ComputedVariablesEditorProps {
+  variables: ComputedVariable[];
+  questions: BuilderQuestionData[];
+  onAdd: (kind: ComputedVariable['kind']) => void;
+  onUpdate: (id: string, updates: Partial<ComputedVariable>) => void;
+  onRemove: (id: string) => void;
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export const ComputedVariablesEditor: React.FC<ComputedVariablesEditorProps> = ({
+  variables,
+  questions,
+  onAdd,
+  onUpdate,
+  onRemove,
+}) => {
+  const { colors } = useTheme();
+
+  const handleAdd = useCallback((kind: ComputedVariable['kind']) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {});
+    onAdd(kind);
+  }, [onAdd]);
+
+  const updateBand = (variable: ComputedVariable, bandIndex: number, updates: Partial<SegmentBand>) => {
+    onUpdate(variable.id, {
+      bands: (variable.bands ?? []).map((b, i) => (i === bandIndex ? { ...b, ...updates } : b)),
+    });
+  };
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.chip,
+        {
+          backgroundColor: selected ? colors.primary : colors.background,
+          borderColor: selected ? colors.primary : colors.border,
+        },
+      ]}
+      onPress={onPress}
+      accessibilityRole="button"
+      accessibilityState={{ selected }}
+    >
+      <Text style={[styles.chipText, { color: selected ? colors.primaryText : colors.text }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderScoreSources = (variable: ComputedVariable) => (
+    <View style={styles.chipRow}>
+      {questions.map((q, i) => {
+        const selected = variable.sourceQuestionIds.includes(q.id);
+        return renderChip(q.id, `Q${i + 1}`, selected, () =>
+          onUpdate(variable.id, {
+            sourceQuestionIds: selected
+              ? variable.sourceQuestionIds.filter((id) => id !== q.id)
+              : [...variable.sourceQuestionIds, q.id],
+          })
+        );
+      })}
+    </View>
+  );
+
+  const renderSegment = (variable: ComputedVariable, variableIndex: number) => {
+    const earlierVariables = variables.slice(0, variableIndex).filter((v) => v.name.trim());
+    const bands = variable.bands ?? [];
+    return (
+      <>
+        <Text style={[styles.fieldLabel, { color: colors.textMuted }]}>Reads</Text>
+        <View style={styles.chipRow}>
+          {earlierVariables.map((v) =>
+            renderChip(v.id, v.name, variable.source === v.name, () => onUpdate(variable.id, { source: v.name }))
+          )}
+          {questions.map((q, i) =>
+            renderChip(q.id, `Q${i + 1}`, variable.source === q.id, () => onUpdate(variable.id, { source: q.id }))
+          )}
+        </View>
+
+        <Text style={[styles.fieldLabel, { color: colors.textMuted }]}>Bands (highest match wins)</Text>
+        {bands.map((band, bandIndex) => (
+          <View key={bandIndex} style={styles.bandRow}>
+            <TextInput
+              value={Number.isFinite(band.min) ? String(band.min) : ''}
+              onChangeText={(text) => updateBand(variable, bandIndex, { min: text.trim() === '' ? NaN : Number(text) })}
+              placeholder="From"
+              placeholderTextColor={colors.textMuted}
+              keyboardType="numeric"
+              style={[styles.input, styles.bandMin, { color: colors.text, borderColor: colors.border }]}
+              accessibilityLabel={`Band ${bandIndex + 1} minimum`}
+            />
+            <TextInput
+              value={band.label}
+              onChangeText={(label) => updateBand(variable, bandIndex, { label })}
+              placeholder="Label, e.g. Promoter"
+              placeholderTextColor={colors.textMuted}
+              style={[styles.input, styles.bandLabel, { color: colors.text, borderColor: colors.border }]}
+              accessibilityLabel={`Band ${bandIndex + 1} label`}
+            />
+            {bands.length > 1 && (
+              <TouchableOpacity
+                onPress={() => onUpdate(variable.id, { bands: bands.filter((_, i) => i !== bandIndex) })}
+                style={styles.iconButton}
+                accessibilityRole="button"
+                accessibilityLabel={`Remove band ${bandIndex + 1}`}
+              >
+                <X size={14} color={colors.textMuted} />
+              </TouchableOpacity>
+            )}
+          </View>
+        ))}
+        <TouchableOpacity
+          onPress={() => onUpdate(variable.id, { bands: [...bands, { min: 0, label: '' }] })}
+          style={styles.inlineAdd}
+          accessibilityRole="button"
+          accessibilityLabel="Add band"
+        >
+          <Plus size={14} color={colors.primary} />
+          <Text style={[styles.inlineAddText, { color: colors.primary }]}>Add band</Text>
+        </TouchableOpacity>
+
+        <TextInput
+          value={variable.fallback ?? ''}
+          onChangeText={(fallback) => onUpdate(variable.id, { fallback })}
+          placeholder="Fallback label (unanswered)"
+          placeholderTextColor={colors.textMuted}
+          style={[styles.input, { color: colors.text, borderColor: colors.border }]}
+          accessibilityLabel="Fallback label"
+        />
+      </>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.hint, { color: colors.textMuted }]}>
+        Hidden from respondents. Pipe into any question with {'{{name}}'}, or an earlier answer with {'{{q1}}'}.
+      </Text>
+
+      {variables.map((variable, index) => (
+        <View
+          key={variable.id}
+          style={[styles.card, { backgroundColor: colors.background, borderColor: withAlpha(colors.border, 0.5) }]}
+        >
+          <View style={styles.cardHeader}>
+            {variable.kind === 'score' ? (
+              <Sigma size={16} color={colors.primary} />
+            ) : (
+              <Tag size={16} color={colors.primary} />
+            )}
+            <TextInput
+              value={variable.name}
+              onChangeText={(name) => onUpdate(variable.id, { name: name.replace(/\s/g, '_') })}
+              placeholder="name"
+              placeholderTextColor={colors.textMuted}
+              autoCapitalize="none"
+              autoCorrect={false}
+              style={[styles.input, styles.nameInput, { color: colors.text, borderColor: colors.border }]}
+              accessibilityLabel={`Variable ${index + 1} name`}
+            />
+            <TouchableOpacity
+              onPress={() => onRemove(variable.id)}
+              style={styles.iconButton}
+              accessibilityRole="button"
+              accessibilityLabel={`Delete variable ${variable.name || index + 1}`}
+            >
+              <Trash2 size={16} color={colors.error} />
+            </TouchableOpacity>
+          </View>
+
+          {variable.kind === 'score' ? (
+            <>
+              <Text style={[styles.fieldLabel, { color: colors.textMuted }]}>Adds up</Text>
+              {renderScoreSources(variable)}
+            </>
+          ) : (
+            renderSegment(variable, index)
+          )}
+        </View>
+      ))}
+
+      <View style={styles.addRow}>
+        <TouchableOpacity
+          onPress={() => handleAdd('score')}
+          style={[styles.addButton, { borderColor: colors.primary }]}
+          accessibilityRole="button"
+          accessibilityLabel="Add score variable"
+        >
+          <Sigma size={14} color={colors.primary} />
+          <Text style={[styles.addButtonText, { color: colors.primary }]}>Add Score</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={() => handleAdd('segment')}
+          style={[styles.addButton, { borderColor: colors.primary }]}
+          accessibilityRole="button"
+          accessibilityLabel="Add segment variable"
+        >
+          <Tag size={14} color={colors.primary} />
+          <Text style={[styles.addButtonText, { color: colors.primary }]}>Add Segment</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    gap: SPACING.sm,
+  },
+  hint: {
+    fontSize: TYPOGRAPHY.fontSize.xs,
+    lineHeight: 18,
+  },
+  card: {
+    padding: SPACING.sm,
+    borderRadius: RADIUS.sm,
+    borderWidth: 1,
+    gap: SPACING.xs,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+  },
+  nameInput: {
+    flex: 1,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: RADIUS.sm,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xs,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  fieldLabel: {
+    fontSize: TYPOGRAPHY.fontSize.xs,
+    fontWeight: '600',
+    marginTop: SPACING.xs,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.xs,
+  },
+  chip: {
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xs,
+    borderRadius: RADIUS.full,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: TYPOGRAPHY.fontSize.xs,
+    fontWeight: '600',
+  },
+  bandRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.xs,
+  },
+  bandMin: {
+    width: 72,
+  },
+  bandLabel: {
+    flex: 1,
+  },
+  iconButton: {
+    padding: SPACING.xs,
+  },
+  inlineAdd: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.xs,
+    paddingVertical: SPACING.xs,
+  },
+  inlineAddText: {
+    fontSize: TYPOGRAPHY.fontSize.xs,
+    fontWeight: '600',
+  },
+  addRow: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+  },
+  addButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: SPACING.xs,
+    paddingVertical: SPACING.sm,
+    borderRadius: RADIUS.sm,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+  },
+  addButtonText: {
+    fontSize: TYPOGRAPHY.fontSize.sm,
+    fontWeight: '600',
+  },
+});
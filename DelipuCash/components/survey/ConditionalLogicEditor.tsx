@@ -3,9 +3,12 @@
  *
  * Allows survey creators to set display conditions on questions:
  * "Show this question if [Question X] [operator] [value]"
+ * and branching jumps taken when the respondent leaves it:
+ * "Skip to [Question Y] if [Question X] [operator] [value]"
  *
  * Features:
- * - Source question picker (only preceding questions)
+ * - Per-rule action: show vs skip-to (with a forward-only target picker)
+ * - Source question picker (preceding questions; skip rules may also use this one)
  * - Dynamic operator list based on source question type
  * - Value input (text, option picker, numeric depending on type)
  * - Multiple rules with AND/OR toggle
@@ -31,8 +34,10 @@ import {
   GitBranch,
   ChevronDown,
   Check,
+  CornerDownRight,
 } from 'lucide-react-native';
 import { useTheme, SPACING, TYPOGRAPHY, RADIUS, SHADOWS, withAlpha } from '@/utils/theme';
+import { SKIP_TO_END } from '@/store/SurveyBuilderStore';
 import type {
   ConditionalLogicConfig,
   ConditionalRule,
@@ -84,24 +89,44 @@ export const ConditionalLogicEditor: React.FC<ConditionalLogicEditorProps> = ({
   const [logicType, setLogicType] = useState<'all' | 'any'>(config?.logicType || 'all');
   const [showSourcePicker, setShowSourcePicker] = useState<number | null>(null);
   const [showOperatorPicker, setShowOperatorPicker] = useState<number | null>(null);
+  const [showTargetPicker, setShowTargetPicker] = useState<number | null>(null);
 
-  // Only questions that come BEFORE this question can be sources
-  const availableSources = useMemo(() => {
-    const currentIdx = allQuestions.findIndex((q) => q.id === question.id);
-    return allQuestions.slice(0, currentIdx).filter((q) => q.text.trim());
-  }, [allQuestions, question.id]);
+  const currentIdx = useMemo(
+    () => allQuestions.findIndex((q) => q.id === question.id),
+    [allQuestions, question.id]
+  );
+
+  // Only questions that come BEFORE this question can be show-rule sources
+  const availableSources = useMemo(
+    () => allQuestions.slice(0, currentIdx).filter((q) => q.text.trim()),
+    [allQuestions, currentIdx]
+  );
 
-  // Validation
+  // Skip rules fire when leaving this question, so its own answer is a source too
+  const skipSources = useMemo(
+    () => allQuestions.slice(0, currentIdx + 1).filter((q) => q.text.trim() || q.id === question.id),
+    [allQuestions, currentIdx, question.id]
+  );
+
+  // Jumps are forward-only: any later question, or straight to the end
+  const availableTargets = useMemo(
+    () => allQuestions.slice(currentIdx + 1).filter((q) => q.text.trim()),
+    [allQuestions, currentIdx]
+  );
+
+  // Validation — against the whole survey so source/target lookups resolve
   const validationErrors = useMemo(() => {
     if (rules.length === 0) return [];
-    return validateConditionalLogic([
-      { ...question, conditionalLogic: { rules, logicType } },
-    ]);
-  }, [rules, logicType, question]);
-
-  const addRule = useCallback(() => {
+    return validateConditionalLogic(
+      allQuestions.map((q) =>
+        q.id === question.id ? { ...q, conditionalLogic: { rules, logicType } } : q
+      )
+    ).filter((err) => err.questionId === question.id);
+  }, [rules, logicType, question.id, allQuestions]);
+
+  const addRule = useCallback((action: ConditionalRule['action'] = 'show') => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {});
-    const firstSource = availableSources[0];
+    const firstSource = action === 'skip_to' ? skipSources[skipSources.length - 1] : availableSources[0];
     if (!firstSource) return;
     setRules((prev) => [
       ...prev,
@@ -109,14 +134,15 @@ export const ConditionalLogicEditor: React.FC<ConditionalLogicEditorProps> = ({
         sourceQuestionId: firstSource.id,
         operator: 'equals',
         value: '',
-        action: 'show',
+        action,
+        ...(action === 'skip_to' ? { targetQuestionId: availableTargets[0]?.id ?? SKIP_TO_END } : {}),
       },
     ]);
     // Scroll to the newly added rule after render
     setTimeout(() => {
       scrollViewRef.current?.scrollToEnd({ animated: true });
     }, 100);
-  }, [availableSources]);
+  }, [availableSources, skipSources, availableTargets]);
 
   const removeRule = useCallback((index: number) => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {});
@@ -148,6 +174,12 @@ export const ConditionalLogicEditor: React.FC<ConditionalLogicEditorProps> = ({
   const getSourceQuestion = (sourceId: string) =>
     allQuestions.find((q) => q.id === sourceId);
 
+  const getTargetLabel = (targetId: string | null | undefined): string => {
+    if (targetId === SKIP_TO_END) return 'End of survey';
+    const target = targetId ? allQuestions.find((q) => q.id === targetId) : undefined;
+    return target ? target.text || 'Untitled Question' : 'Select a question...';
+  };
+
   const getSourceOptions = (sourceId: string): string[] => {
     const source = getSourceQuestion(sourceId);
     if (!source) return [];
@@ -167,6 +199,8 @@ export const ConditionalLogicEditor: React.FC<ConditionalLogicEditorProps> = ({
     const operators = sourceQuestion ? getOperatorsForType(sourceQuestion.type) : [];
     const sourceOptions = getSourceOptions(rule.sourceQuestionId);
     const needsValue = operatorRequiresValue(rule.operator);
+    const isSkip = rule.action === 'skip_to';
+    const ruleSources = isSkip ? skipSources : availableSources;
 
     return (
       <View
@@ -178,7 +212,7 @@ export const ConditionalLogicEditor: React.FC<ConditionalLogicEditorProps> = ({
         {/* Rule header with delete */}
         <View style={styles.ruleHeader}>
           <Text style={[styles.ruleLabel, { color: colors.textMuted }]}>
-            {index > 0 ? (logicType === 'all' ? 'AND' : 'OR') : 'IF'}
+            {isSkip ? 'SKIP IF' : index > 0 && logicType === 'any' ? 'OR' : index > 0 ? 'AND' : 'IF'}
           </Text>
           <TouchableOpacity
             onPress={() => removeRule(index)}
@@ -206,7 +240,7 @@ export const ConditionalLogicEditor: React.FC<ConditionalLogicEditorProps> = ({
         {/* Source picker dropdown */}
         {showSourcePicker === index && (
           <View style={[styles.dropdown, { backgroundColor: colors.card, borderColor: colors.border }, SHADOWS.md]}>
-            {availableSources.map((src) => (
+            {ruleSources.map((src) => (
               <TouchableOpacity
                 key={src.id}
                 style={[styles.dropdownItem, rule.sourceQuestionId === src.id && { backgroundColor: withAlpha(colors.primary, 0.08) }]}
@@ -216,7 +250,7 @@ export const ConditionalLogicEditor: React.FC<ConditionalLogicEditorProps> = ({
                 }}
               >
                 <Text style={[styles.dropdownText, { color: colors.text }]} numberOfLines={1}>
-                  {src.text}
+                  {src.id === question.id ? `${src.text || 'Untitled Question'} (this question)` : src.text}
                 </Text>
                 {rule.sourceQuestionId === src.id && <Check size={14} color={colors.primary} />}
               </TouchableOpacity>
@@ -290,11 +324,55 @@ export const ConditionalLogicEditor: React.FC<ConditionalLogicEditorProps> = ({
                 placeholder="Enter value..."
                 placeholderTextColor={colors.textMuted}
                 style={[styles.valueInput, { color: colors.text, borderColor: colors.border, backgroundColor: colors.card }]}
-                keyboardType={sourceQuestion?.type === 'number' || sourceQuestion?.type === 'rating' ? 'numeric' : 'default'}
+                keyboardType={sourceQuestion?.type === 'number' || sourceQuestion?.type === 'rating' || sourceQuestion?.type === 'nps' ? 'numeric' : 'default'}
               />
             )}
           </View>
         )}
+
+        {/* Skip destination (skip_to rules only) */}
+        {isSkip && (
+          <>
+            <View style={styles.skipRow}>
+              <CornerDownRight size={14} color={colors.primary} />
+              <Text style={[styles.skipLabel, { color: colors.textMuted }]}>then skip to</Text>
+            </View>
+            <TouchableOpacity
+              style={[styles.pickerButton, { borderColor: colors.border, backgroundColor: colors.card }]}
+              onPress={() => setShowTargetPicker(showTargetPicker === index ? null : index)}
+              accessibilityRole="button"
+              accessibilityLabel="Select skip destination"
+            >
+              <Text
+                style={[styles.pickerText, { color: rule.targetQuestionId ? colors.text : colors.textMuted }]}
+                numberOfLines={1}
+              >
+                {getTargetLabel(rule.targetQuestionId)}
+              </Text>
+              <ChevronDown size={16} color={colors.textMuted} />
+            </TouchableOpacity>
+
+            {showTargetPicker === index && (
+              <View style={[styles.dropdown, { backgroundColor: colors.card, borderColor: colors.border }, SHADOWS.md]}>
+                {[...availableTargets.map((t) => t.id), SKIP_TO_END].map((targetId) => (
+                  <TouchableOpacity
+                    key={targetId}
+                    style={[styles.dropdownItem, rule.targetQuestionId === targetId && { backgroundColor: withAlpha(colors.primary, 0.08) }]}
+                    onPress={() => {
+                      updateRule(index, { targetQuestionId: targetId });
+                      setShowTargetPicker(null);
+                    }}
+                  >
+                    <Text style={[styles.dropdownText, { color: colors.text }]} numberOfLines={1}>
+                      {getTargetLabel(targetId)}
+                    </Text>
+                    {rule.targetQuestionId === targetId && <Check size={14} color={colors.primary} />}
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+          </>
+        )}
       </View>
     );
   };
@@ -321,15 +399,15 @@ export const ConditionalLogicEditor: React.FC<ConditionalLogicEditorProps> = ({
 
           {/* Target question */}
           <View style={[styles.targetBanner, { backgroundColor: withAlpha(colors.primary, 0.06) }]}>
-            <Text style={[styles.targetLabel, { color: colors.textMuted }]}>Show this question:</Text>
+            <Text style={[styles.targetLabel, { color: colors.textMuted }]}>Show or branch from this question:</Text>
             <Text style={[styles.targetText, { color: colors.text }]} numberOfLines={2}>
               {question.text || 'Untitled Question'}
             </Text>
           </View>
 
           <ScrollView ref={scrollViewRef} style={styles.body} contentContainerStyle={styles.bodyContent}>
-            {/* Logic type toggle (AND/OR) */}
-            {rules.length > 1 && (
+            {/* Logic type toggle (AND/OR) — combines show rules; skip rules are independent */}
+            {rules.filter((r) => r.action !== 'skip_to').length > 1 && (
               <View style={styles.logicToggle}>
                 <Text style={[styles.logicLabel, { color: colors.textMuted }]}>Match:</Text>
                 {(['all', 'any'] as const).map((type) => (
@@ -370,24 +448,35 @@ export const ConditionalLogicEditor: React.FC<ConditionalLogicEditorProps> = ({
             {availableSources.length === 0 && (
               <View style={[styles.emptyState, { backgroundColor: withAlpha(colors.warning, 0.08) }]}>
                 <Text style={[styles.emptyText, { color: colors.textMuted }]}>
-                  Add questions before this one to use conditional logic.
+                  Add questions before this one to use show conditions.
                   Conditions can only reference preceding questions.
                 </Text>
               </View>
             )}
 
-            {/* Add rule button */}
-            {availableSources.length > 0 && (
+            {/* Add rule buttons */}
+            <View style={styles.addRuleRow}>
+              {availableSources.length > 0 && (
+                <TouchableOpacity
+                  style={[styles.addRuleBtn, { borderColor: withAlpha(colors.primary, 0.3) }]}
+                  onPress={() => addRule('show')}
+                  accessibilityRole="button"
+                  accessibilityLabel="Add condition rule"
+                >
+                  <Plus size={16} color={colors.primary} />
+                  <Text style={[styles.addRuleText, { color: colors.primary }]}>Add Condition</Text>
+                </TouchableOpacity>
+              )}
               <TouchableOpacity
                 style={[styles.addRuleBtn, { borderColor: withAlpha(colors.primary, 0.3) }]}
-                onPress={addRule}
+                onPress={() => addRule('skip_to')}
                 accessibilityRole="button"
-                accessibilityLabel="Add condition rule"
+                accessibilityLabel="Add skip rule"
               >
-                <Plus size={16} color={colors.primary} />
-                <Text style={[styles.addRuleText, { color: colors.primary }]}>Add Condition</Text>
+                <CornerDownRight size={16} color={colors.primary} />
+                <Text style={[styles.addRuleText, { color: colors.primary }]}>Add Skip</Text>
               </TouchableOpacity>
-            )}
+            </View>
           </ScrollView>
 
           {/* Footer actions */}
@@ -587,7 +676,23 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     lineHeight: 20,
   },
+  addRuleRow: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+  },
+  skipRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.xs,
+    marginTop: SPACING.sm,
+    marginBottom: SPACING.xs,
+  },
+  skipLabel: {
+    fontSize: TYPOGRAPHY.fontSize.xs,
+    fontWeight: '600',
+  },
   addRuleBtn: {
+    flex: 1,
     flexDirection: 'row',
     alignItems: 'center',
     justifyContent: 'center',
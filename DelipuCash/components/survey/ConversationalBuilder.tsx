@@ -50,6 +50,9 @@ import {
   Save,
   Eye,
   GripVertical,
+  Grid3x3,
+  ListOrdered,
+  Gauge,
 } from 'lucide-react-native';
 import * as Haptics from '@/utils/haptics';
 import { Upload } from 'lucide-react-native';
@@ -181,6 +184,30 @@ const QUESTION_TYPES: QuestionTypeConfig[] = [
     hasOptions: false,
     hasScale: false,
   },
+  {
+    type: 'matrix',
+    label: 'Matrix / Likert',
+    description: 'Rate several rows on one scale',
+    icon: <Grid3x3 size={20} />,
+    hasOptions: true,
+    hasScale: false,
+  },
+  {
+    type: 'ranking',
+    label: 'Ranking',
+    description: 'Drag items into order',
+    icon: <ListOrdered size={20} />,
+    hasOptions: true,
+    hasScale: false,
+  },
+  {
+    type: 'nps',
+    label: 'NPS',
+    description: 'Likelihood to recommend (0-10)',
+    icon: <Gauge size={20} />,
+    hasOptions: false,
+    hasScale: false,
+  },
 ];
 
 // ============================================================================
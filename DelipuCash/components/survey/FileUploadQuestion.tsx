@@ -7,6 +7,8 @@
  * - File preview (icon + filename + size)
  * - Delete button, retry on failure
  * - Haptic feedback on complete
+ * - Offline: the file is staged on the device and uploads with the queued
+ *   submission once back online (see SurveySubmissionQueueStore)
  */
 
 import React, { useCallback, useEffect, useState } from 'react';
@@ -26,10 +28,18 @@ import {
   RefreshCw,
   CheckCircle2,
   AlertCircle,
+  CloudUpload,
 } from 'lucide-react-native';
+import { onlineManager } from '@tanstack/react-query';
 import { SPACING, RADIUS, TYPOGRAPHY, useTheme, withAlpha } from '@/utils/theme';
 import { useUploadSurveyFile, useDeleteSurveyFile } from '@/services/surveyFileHooks';
 import type { SurveyFileUploadResult } from '@/services/surveyFileApi';
+import {
+  getStagedFileId,
+  toStagedFileAnswer,
+  useSurveySubmissionQueueStore,
+} from '@/store/SurveySubmissionQueueStore';
+import { deleteStagedSurveyFile, stageSurveyFile } from '@/utils/surveyFileStaging';
 
 // ============================================================================
 // TYPES
@@ -38,7 +48,7 @@ import type { SurveyFileUploadResult } from '@/services/surveyFileApi';
 interface FileUploadQuestionProps {
   surveyId: string;
   questionId: string;
-  /** Called with the file ID when upload completes */
+  /** Called with the file ID when upload completes (a `staged-file:` answer when staged offline) */
   onFileUploaded: (fileId: string) => void;
   /** Called when file is deleted */
   onFileDeleted?: () => void;
@@ -51,6 +61,12 @@ interface FileUploadQuestionProps {
 /** Maximum accepted file size (must match the "Max 25MB" copy and the server cap). */
 const MAX_FILE_BYTES = 25 * 1024 * 1024;
 
+let stagedCounter = 0;
+function generateStagedId(): string {
+  stagedCounter += 1;
+  return `staged_${Date.now()}_${stagedCounter}`;
+}
+
 // ============================================================================
 // HELPERS
 // ============================================================================
@@ -94,6 +110,9 @@ export const FileUploadQuestion: React.FC<FileUploadQuestionProps> = ({
 
   const { mutate: deleteFile, isPending: isDeleting } = useDeleteSurveyFile();
 
+  const stagedId = getStagedFileId(currentFileId);
+  const stagedFile = useSurveySubmissionQueueStore((s) => (stagedId ? s.stagedFiles[stagedId] : undefined));
+
   // Surface the in-flight upload state to the parent so it can prevent the user
   // navigating to the next question (and losing the answer) mid-upload. Always
   // signal "not uploading" on unmount so a stranded flag can't block the survey.
@@ -104,6 +123,32 @@ export const FileUploadQuestion: React.FC<FileUploadQuestionProps> = ({
     return () => onUploadingChange?.(false);
   }, [onUploadingChange]);
 
+  // No connection — keep a copy on the device; the queued submission uploads it later
+  const stageForLater = useCallback(
+    async (file: { uri: string; name: string; mimeType?: string; size?: number }) => {
+      const id = generateStagedId();
+      try {
+        const uri = await stageSurveyFile(file.uri, id, file.name);
+        useSurveySubmissionQueueStore.getState().stageFile({
+          id,
+          surveyId,
+          questionId,
+          uri,
+          fileName: file.name,
+          mimeType: file.mimeType || 'application/octet-stream',
+          size: file.size,
+          stagedAt: Date.now(),
+        });
+        onFileUploaded(toStagedFileAnswer(id));
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
+      } catch {
+        setError('Could not save the file for later. Please try again when you are online.');
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error).catch(() => {});
+      }
+    },
+    [surveyId, questionId, onFileUploaded],
+  );
+
   const handlePickFile = useCallback(async () => {
     setError(null);
 
@@ -140,6 +185,11 @@ export const FileUploadQuestion: React.FC<FileUploadQuestionProps> = ({
 
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {});
 
+      if (!onlineManager.isOnline()) {
+        await stageForLater(file);
+        return;
+      }
+
       uploadFile(
         {
           surveyId,
@@ -154,6 +204,9 @@ export const FileUploadQuestion: React.FC<FileUploadQuestionProps> = ({
               setUploadedFile(uploadResult.data);
               onFileUploaded(uploadResult.data.id);
               Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
+            } else if (uploadResult.networkError) {
+              resetUpload();
+              stageForLater(file);
             } else {
               setError(uploadResult.error || 'Upload failed');
               Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error).catch(() => {});
@@ -172,9 +225,19 @@ export const FileUploadQuestion: React.FC<FileUploadQuestionProps> = ({
       }
       setError('Failed to pick file. Please try again.');
     }
-  }, [surveyId, questionId, uploadFile, onFileUploaded]);
+  }, [surveyId, questionId, uploadFile, onFileUploaded, stageForLater, resetUpload]);
 
   const handleDelete = useCallback(() => {
+    // A staged file never reached the server — just drop the local copy
+    if (stagedId) {
+      if (stagedFile) deleteStagedSurveyFile(stagedFile.uri);
+      useSurveySubmissionQueueStore.getState().unstageFile(stagedId);
+      onFileDeleted?.();
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {});
+      return;
+    }
+
+
     // Fall back to currentFileId so a file restored from a draft (where
     // uploadedFile is null but currentFileId is set) is still deletable.
     const fileId = uploadedFile?.id ?? currentFileId;
@@ -193,7 +256,7 @@ export const FileUploadQuestion: React.FC<FileUploadQuestionProps> = ({
         },
       },
     );
-  }, [uploadedFile, currentFileId, surveyId, deleteFile, onFileDeleted]);
+  }, [uploadedFile, currentFileId, stagedId, stagedFile, surveyId, deleteFile, onFileDeleted]);
 
   const handleRetry = useCallback(() => {
     setError(null);
@@ -201,6 +264,35 @@ export const FileUploadQuestion: React.FC<FileUploadQuestionProps> = ({
     handlePickFile();
   }, [resetUpload, handlePickFile]);
 
+  // ── Staged state (waiting for a connection) ──
+  if (stagedId) {
+    return (
+      <View style={[styles.container, { borderColor: withAlpha(colors.warning, 0.3), backgroundColor: withAlpha(colors.warning, 0.04) }]}>
+        <View style={styles.fileRow}>
+          <View style={[styles.fileIcon, { backgroundColor: withAlpha(colors.warning, 0.12) }]}>
+            <CloudUpload size={20} color={colors.warning} />
+          </View>
+          <View style={styles.fileInfo}>
+            <Text style={[styles.fileName, { color: colors.text }]} numberOfLines={1}>
+              {stagedFile?.fileName || 'File saved'}
+            </Text>
+            <Text style={[styles.fileMeta, { color: colors.textMuted }]}>
+              {stagedFile?.size ? `${formatFileSize(stagedFile.size)} · ` : ''}Uploads when you&apos;re back online
+            </Text>
+          </View>
+          <TouchableOpacity
+            onPress={handleDelete}
+            style={styles.deleteBtn}
+            accessibilityRole="button"
+            accessibilityLabel="Remove saved file"
+          >
+            <Trash2 size={18} color={colors.error} />
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  }
+
   // ── Uploaded state ──
   if (uploadedFile || currentFileId) {
     return (
@@ -1,18 +1,19 @@
 /**
  * Survey Import Wizard Component
- * CSV/TSV/JSON import wizard for bulk question creation (2026)
+ * CSV/TSV/Excel/JSON import wizard for bulk question creation (2026)
  *
- * NOTE: Excel (.xlsx) is intentionally NOT supported — there is no spreadsheet
- * parser on the client or server, so a real .xlsx would have failed to parse.
- * Spreadsheet import is CSV/TSV (parsed with papaparse for correct handling of
- * quoted fields, embedded newlines, and delimiter detection). To import from
- * Excel, export the sheet as CSV first.
+ * CSV/TSV is parsed with papaparse (quoted fields, embedded newlines, delimiter
+ * detection). Excel (.xlsx) is read on the device (utils/xlsxReader.ts) — the
+ * server import endpoint only takes text — and its rows go through the same
+ * column auto-mapping; a workbook with several sheets gets a sheet picker.
+ * JSON may be our own format or a Google Forms / Typeform export, converted
+ * with branching mapped onto skip rules (utils/formExportConverters.ts).
  *
  * Features:
  * - Step-by-step import flow (select → preview → confirm)
  * - Server-side file parsing with client-side fallback
  * - Per-question inline editing in preview
- * - Column auto-mapping display for CSV/TSV
+ * - Column auto-mapping display for CSV/TSV/Excel
  * - Validation with clear error messages
  * - Invalid row tracking (partial import support)
  * - Progress feedback during parsing
@@ -70,16 +71,20 @@ import {
   autoMapColumns,
   isHighConfidence,
   getConfidenceLabel,
+  getTranslationColumns,
   type ColumnMapping,
   type TargetField,
 } from '@/utils/columnAutoMapper';
+import { openXlsx, base64ToBytes, type XlsxWorkbook } from '@/utils/xlsxReader';
+import { convertFormExport } from '@/utils/formExportConverters';
+import type { ConditionalLogicConfig, QuestionTranslation } from '@/store/SurveyBuilderStore';
 import { surveyApi } from '@/services/surveyApi';
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
-type ImportFileType = 'json' | 'csv';
+type ImportFileType = 'json' | 'csv' | 'xlsx';
 type ImportStep = 'select' | 'preview' | 'validate' | 'complete';
 
 interface QuestionData {
@@ -92,6 +97,10 @@ interface QuestionData {
   minValue?: number;
   maxValue?: number;
   points?: number;
+  translations?: Record<string, QuestionTranslation>;
+  matrixColumns?: string[];
+  /** Skip rules from a Google Forms / Typeform export; ids refer to other imported questions */
+  conditionalLogic?: ConditionalLogicConfig | null;
 }
 
 interface InvalidRow {
@@ -103,12 +112,14 @@ interface InvalidRow {
 export interface ParsedImport {
   title?: string;
   description?: string;
+  /** Languages the file carries translations for */
+  languages?: string[];
   questions: QuestionData[];
   warnings: string[];
   errors: string[];
   /** Rows that failed per-row validation (partial import support) */
   invalidRows?: InvalidRow[];
-  /** Auto-mapped column mappings (for CSV/TSV) */
+  /** Auto-mapped column mappings (for CSV/TSV/Excel) */
   columnMappings?: ColumnMapping[];
 }
 
@@ -126,6 +137,7 @@ interface ImportWizardProps {
 const VALID_QUESTION_TYPES = [
   'text', 'paragraph', 'radio', 'checkbox', 'dropdown',
   'rating', 'boolean', 'date', 'time', 'number', 'file_upload',
+  'matrix', 'ranking', 'nps',
 ];
 
 const QUESTION_TYPE_LABELS: Record<string, string> = {
@@ -140,6 +152,9 @@ const QUESTION_TYPE_LABELS: Record<string, string> = {
   time: 'Time',
   number: 'Number',
   file_upload: 'File Upload',
+  matrix: 'Matrix / Likert',
+  ranking: 'Ranking',
+  nps: 'NPS (0–10)',
 };
 
 // Stable references for FlatList items (avoid re-renders)
@@ -179,6 +194,15 @@ function normalizeLineEndings(content: string): string {
   return content.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
 }
 
+/** Options cell: a JSON array or a `|`-separated list */
+function splitOptionsCell(cell: string): string[] {
+  const optVal = cell.replace(/^["']|["']$/g, '');
+  if (optVal.startsWith('[')) {
+    try { return JSON.parse(optVal); } catch { return optVal.split('|').filter(Boolean); }
+  }
+  return optVal.split('|').map(o => o.trim()).filter(Boolean);
+}
+
 /**
  * Parse delimited text into rows with papaparse. Handles quoted fields,
  * embedded newlines/commas, and CSV vs TSV vs semicolon delimiters — the
@@ -202,6 +226,7 @@ function getMimeType(fileType: ImportFileType): string {
   switch (fileType) {
     case 'json': return 'application/json';
     case 'csv': return 'text/csv';
+    case 'xlsx': return 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
   }
 }
 
@@ -222,6 +247,9 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({
   const [parsedData, setParsedData] = useState<ParsedImport | null>(null);
   const [parsedByServer, setParsedByServer] = useState(false);
   const [editingQuestionIndex, setEditingQuestionIndex] = useState<number | null>(null);
+  // Excel only: the open workbook, so another sheet can be picked without re-reading the file
+  const [workbook, setWorkbook] = useState<XlsxWorkbook | null>(null);
+  const [sheetIndex, setSheetIndex] = useState(0);
 
   const resetWizard = useCallback(() => {
     setStep('select');
@@ -230,6 +258,8 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({
     setParsedData(null);
     setParsedByServer(false);
     setEditingQuestionIndex(null);
+    setWorkbook(null);
+    setSheetIndex(0);
   }, []);
 
   const handleClose = useCallback(() => {
@@ -253,6 +283,18 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({
     const errors: string[] = [];
     const warnings: string[] = [];
 
+    const converted = convertFormExport(parsed);
+    if (converted) {
+      const tool = converted.source === 'google_forms' ? 'Google Forms' : 'Typeform';
+      return {
+        title: converted.title,
+        description: converted.description,
+        questions: converted.questions,
+        warnings: converted.warnings,
+        errors: converted.questions.length === 0 ? [`No importable questions found in this ${tool} export`] : [],
+      };
+    }
+
     if (!parsed.questions || !Array.isArray(parsed.questions)) {
       errors.push('Invalid JSON format: missing "questions" array');
       return { questions: [], errors, warnings };
@@ -280,21 +322,26 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({
         minValue: typeof q.minValue === 'number' ? q.minValue : undefined,
         maxValue: typeof q.maxValue === 'number' ? q.maxValue : undefined,
         points: typeof q.points === 'number' ? q.points : undefined,
+        translations: q.translations && typeof q.translations === 'object'
+          ? (q.translations as Record<string, QuestionTranslation>)
+          : undefined,
       });
     });
 
+    const languages = [...new Set(questions.flatMap((q) => Object.keys(q.translations ?? {})))];
+
     return {
       title: parsed.title ? String(parsed.title) : undefined,
       description: parsed.description ? String(parsed.description) : undefined,
+      ...(languages.length > 0 ? { languages } : {}),
       questions,
       warnings,
       errors,
     };
   }, []);
 
-  const parseSpreadsheetContent = useCallback((content: string): ParsedImport => {
-    const cleanContent = normalizeLineEndings(stripBOM(content));
-    const rows = parseDelimitedRows(cleanContent);
+  /** Header row + data rows, from CSV/TSV text or an Excel sheet */
+  const parseSpreadsheetRows = useCallback((rows: string[][]): ParsedImport => {
     const errors: string[] = [];
     const warnings: string[] = [];
     const invalidRows: InvalidRow[] = [];
@@ -319,6 +366,8 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({
     const minValueIndex = fieldIndex('minValue');
     const maxValueIndex = fieldIndex('maxValue');
     const pointsIndex = fieldIndex('points');
+    const translationColumns = getTranslationColumns(columnMappings);
+    const languages = [...new Set(translationColumns.map((c) => c.language))];
 
     if (textIndex === -1) {
       errors.push('Missing required column: "text" or "question". No column could be auto-mapped.');
@@ -349,12 +398,17 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({
 
       let options: string[] = [];
       if (optionsIndex !== -1 && values[optionsIndex]) {
-        const optVal = values[optionsIndex].replace(/^["']|["']$/g, '');
-        if (optVal.startsWith('[')) {
-          try { options = JSON.parse(optVal); } catch { options = optVal.split('|').filter(Boolean); }
-        } else {
-          options = optVal.split('|').map(o => o.trim()).filter(Boolean);
-        }
+        options = splitOptionsCell(values[optionsIndex]);
+      }
+
+      // One entry per language with any translated cell in this row
+      const translations: Record<string, QuestionTranslation> = {};
+      for (const { headerIndex, field, language } of translationColumns) {
+        const cell = values[headerIndex]?.replace(/^["']|["']$/g, '').trim();
+        if (!cell) continue;
+        translations[language] ??= { text: '' };
+        if (field === 'options') translations[language].options = splitOptionsCell(cell);
+        else translations[language][field] = cell;
       }
 
       if (['radio', 'checkbox', 'dropdown'].includes(type) && options.length < 2) {
@@ -371,6 +425,7 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({
         minValue: minValueIndex !== -1 && values[minValueIndex] ? Number(values[minValueIndex]) : undefined,
         maxValue: maxValueIndex !== -1 && values[maxValueIndex] ? Number(values[maxValueIndex]) : undefined,
         points: pointsIndex !== -1 && values[pointsIndex] ? Number(values[pointsIndex]) || 0 : undefined,
+        ...(Object.keys(translations).length > 0 ? { translations } : {}),
       });
     }
 
@@ -378,7 +433,7 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({
       warnings.push(`${invalidRows.length} row(s) skipped due to validation errors`);
     }
 
-    return { questions, warnings, errors, invalidRows, columnMappings };
+    return { ...(languages.length > 0 ? { languages } : {}), questions, warnings, errors, invalidRows, columnMappings };
   }, []);
 
   // ============================================================================
@@ -396,6 +451,7 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({
         // CSV card covers TSV too — the parser auto-detects the delimiter.
         // text/plain is the common fallback OSes report for .csv/.tsv.
         csv: ['text/csv', 'text/comma-separated-values', 'text/tab-separated-values', 'text/plain'],
+        xlsx: ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'],
       };
 
       const result = await DocumentPicker.getDocumentAsync({
@@ -412,8 +468,8 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({
       let parsed: ParsedImport | null = null;
       let serverParsed = false;
 
-      // Try server-side parsing first
-      if (useServerParsing) {
+      // Try server-side parsing first (text formats only — the endpoint rejects binary files)
+      if (useServerParsing && selectedFileType !== 'xlsx') {
         try {
           const serverResult = await surveyApi.importPreview(
             file.uri,
@@ -426,6 +482,7 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({
             parsed = {
               title: data.title,
               description: data.description,
+              languages: data.languages,
               questions: data.questions || [],
               warnings: data.warnings || [],
               errors: data.errors || [],
@@ -449,12 +506,23 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({
       }
 
       // Client-side fallback
-      if (!parsed) {
+      if (!parsed && selectedFileType === 'xlsx') {
+        const content = await FileSystem.readAsStringAsync(file.uri, { encoding: 'base64' });
+        try {
+          const book = openXlsx(base64ToBytes(content));
+          setWorkbook(book);
+          setSheetIndex(0);
+          parsed = parseSpreadsheetRows(book.readSheet(0));
+        } catch (xlsxErr) {
+          const msg = xlsxErr instanceof Error ? xlsxErr.message : 'Could not read the workbook';
+          parsed = { questions: [], errors: [msg], warnings: [] };
+        }
+      } else if (!parsed) {
         const content = await FileSystem.readAsStringAsync(file.uri, { encoding: 'utf8' });
         if (selectedFileType === 'json') {
           parsed = parseJSONContent(content);
         } else {
-          parsed = parseSpreadsheetContent(content);
+          parsed = parseSpreadsheetRows(parseDelimitedRows(normalizeLineEndings(stripBOM(content))));
         }
       }
 
@@ -472,7 +540,23 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({
     } finally {
       setIsLoading(false);
     }
-  }, [selectedFileType, useServerParsing, parseJSONContent, parseSpreadsheetContent]);
+  }, [selectedFileType, useServerParsing, parseJSONContent, parseSpreadsheetRows]);
+
+  const handleSelectSheet = useCallback((index: number) => {
+    if (!workbook || index === sheetIndex) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    let parsed: ParsedImport;
+    try {
+      parsed = parseSpreadsheetRows(workbook.readSheet(index));
+    } catch (xlsxErr) {
+      const msg = xlsxErr instanceof Error ? xlsxErr.message : 'Could not read this sheet';
+      parsed = { questions: [], errors: [msg], warnings: [] };
+    }
+    setSheetIndex(index);
+    setParsedData(parsed);
+    setEditingQuestionIndex(null);
+    setStep(parsed.errors.length > 0 ? 'validate' : 'preview');
+  }, [workbook, sheetIndex, parseSpreadsheetRows]);
 
   const handleDownloadTemplate = useCallback(async (type: ImportFileType) => {
     try {
@@ -522,7 +606,18 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({
   const removeQuestion = useCallback((index: number) => {
     if (!parsedData) return;
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-    const newQuestions = parsedData.questions.filter((_, i) => i !== index);
+    const removedId = parsedData.questions[index]?.id;
+    // Skip rules that read or jump to the removed question go with it
+    const newQuestions = parsedData.questions
+      .filter((_, i) => i !== index)
+      .map((q) => {
+        if (!q.conditionalLogic) return q;
+        const rules = q.conditionalLogic.rules.filter(
+          (r) => r.sourceQuestionId !== removedId && r.targetQuestionId !== removedId,
+        );
+        if (rules.length === q.conditionalLogic.rules.length) return q;
+        return { ...q, conditionalLogic: rules.length > 0 ? { ...q.conditionalLogic, rules } : null };
+      });
     setParsedData({ ...parsedData, questions: newQuestions });
     // Adjust editing index after removal
     if (editingQuestionIndex === null) return;
@@ -577,8 +672,9 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({
       </Text>
 
       {([
-        { type: 'json', label: 'JSON', icon: <FileJson size={28} color={colors.primary} />, desc: 'Structured data format' },
+        { type: 'json', label: 'JSON', icon: <FileJson size={28} color={colors.primary} />, desc: 'Our template, or a Google Forms / Typeform export' },
         { type: 'csv', label: 'CSV / TSV', icon: <FileSpreadsheet size={28} color={colors.success} />, desc: 'Comma- or tab-separated values' },
+        { type: 'xlsx', label: 'Excel', icon: <FileSpreadsheet size={28} color={colors.primary} />, desc: 'Excel workbook (.xlsx), any sheet' },
       ] as const).map((item) => (
         <TouchableOpacity
           key={item.type}
@@ -667,6 +763,44 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({
     </View>
   );
 
+  // ============================================================================
+  // RENDER: SHEET PICKER (Excel workbooks with several sheets)
+  // ============================================================================
+
+  const renderSheetPicker = () => {
+    if (!workbook || workbook.sheetNames.length < 2) return null;
+
+    return (
+      <View style={styles.editField}>
+        <Text style={[styles.editLabel, { color: colors.textMuted }]}>Sheet</Text>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.typeScroll}>
+          <View style={styles.typeRow}>
+            {workbook.sheetNames.map((name, index) => (
+              <TouchableOpacity
+                key={`${index}-${name}`}
+                style={[
+                  styles.typePill,
+                  {
+                    backgroundColor: sheetIndex === index ? colors.primary : colors.card,
+                    borderColor: sheetIndex === index ? colors.primary : colors.border,
+                  },
+                ]}
+                onPress={() => handleSelectSheet(index)}
+                accessibilityRole="radio"
+                accessibilityState={{ checked: sheetIndex === index }}
+                accessibilityLabel={`Sheet ${name}`}
+              >
+                <Text style={[styles.typePillText, { color: sheetIndex === index ? '#FFF' : colors.text }]}>
+                  {name}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </ScrollView>
+      </View>
+    );
+  };
+
   // ============================================================================
   // RENDER: INLINE QUESTION EDITOR
   // ============================================================================
@@ -810,7 +944,9 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({
           </Text>
         </View>
 
-        {/* Auto-mapping summary (CSV/TSV only) */}
+        {renderSheetPicker()}
+
+        {/* Auto-mapping summary (CSV/TSV/Excel only) */}
         {columnMappings.length > 0 && (
           <View style={[styles.mappingBox, { backgroundColor: withAlpha(colors.info, 0.06), borderColor: withAlpha(colors.info, 0.15) }]}>
             <View style={styles.warningsHeader}>
@@ -942,6 +1078,11 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({
                           <Text style={[styles.typeBadgeText, { color: colors.warning }]}>{item.points} pts</Text>
                         </View>
                       )}
+                      {(item.conditionalLogic?.rules.length ?? 0) > 0 && (
+                        <View style={[styles.typeBadge, { backgroundColor: withAlpha(colors.primary, 0.1) }]}>
+                          <Text style={[styles.typeBadgeText, { color: colors.primary }]}>Branching</Text>
+                        </View>
+                      )}
                     </View>
                   </View>
                   <View style={styles.questionActions}>
@@ -1006,6 +1147,8 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({
             : 'Please fix the issues below or download a template to see the expected format.'}
         </Text>
 
+        {renderSheetPicker()}
+
         <View
           style={[styles.errorsBox, { backgroundColor: withAlpha(colors.error, 0.05) }]}
           accessibilityLiveRegion="assertive"
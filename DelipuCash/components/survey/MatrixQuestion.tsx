@@ -0,0 +1,129 @@
+/**
+ * MatrixQuestion — Respondent-facing matrix / Likert grid for survey attempts
+ *
+ * Each row is answered on the same column scale (e.g. Strongly disagree …
+ * Strongly agree). Rows stack vertically with the scale as wrapping pills so
+ * long column labels stay readable on a phone.
+ *
+ * The answer is row-aligned: answer[i] is the column picked for row i and ''
+ * while that row is unanswered (see utils/surveyQuestionTypes.ts). In a
+ * translated survey `columnLabels` changes what is shown, never what is stored.
+ */
+
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import * as Haptics from '@/utils/haptics';
+import { SPACING, RADIUS, TYPOGRAPHY, useTheme, withAlpha } from '@/utils/theme';
+import { setMatrixCell } from '@/utils/surveyQuestionTypes';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface MatrixRow {
+  /** Raw row text */
+  id: string;
+  /** Display text (may be piped) */
+  text: string;
+}
+
+interface MatrixQuestionProps {
+  rows: MatrixRow[];
+  columns: string[];
+  /** Display labels aligned with `columns` (translated surveys) */
+  columnLabels?: string[];
+  value: unknown;
+  onChange: (answer: string[]) => void;
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export const MatrixQuestion: React.FC<MatrixQuestionProps> = ({ rows, columns, columnLabels, value, onChange }) => {
+  const { colors } = useTheme();
+  const answer = Array.isArray(value) ? value : [];
+
+  return (
+    <View style={styles.container}>
+      {rows.map((row, rowIndex) => {
+        const picked = typeof answer[rowIndex] === 'string' ? answer[rowIndex] : '';
+        return (
+          <View
+            key={row.id}
+            style={[styles.row, { borderColor: picked ? withAlpha(colors.primary, 0.4) : colors.border }]}
+            accessibilityRole="radiogroup"
+            accessibilityLabel={row.text}
+          >
+            <Text style={[styles.rowLabel, { color: colors.text }]}>{row.text}</Text>
+            <View style={styles.scale}>
+              {columns.map((column, columnIndex) => {
+                const selected = picked === column;
+                const label = columnLabels?.[columnIndex] || column;
+                return (
+                  <TouchableOpacity
+                    key={column}
+                    style={[
+                      styles.cell,
+                      {
+                        borderColor: selected ? colors.primary : colors.border,
+                        backgroundColor: selected ? withAlpha(colors.primary, 0.12) : colors.card,
+                      },
+                    ]}
+                    onPress={() => {
+                      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {});
+                      onChange(setMatrixCell(value, rows.length, rowIndex, column));
+                    }}
+                    accessibilityRole="radio"
+                    accessibilityState={{ checked: selected }}
+                    accessibilityLabel={`${row.text}: ${label}`}
+                  >
+                    <Text style={[styles.cellText, { color: selected ? colors.primary : colors.text }]}>
+                      {label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    gap: SPACING.md,
+  },
+  row: {
+    gap: SPACING.sm,
+    paddingBottom: SPACING.md,
+    borderBottomWidth: 1,
+  },
+  rowLabel: {
+    fontSize: TYPOGRAPHY.fontSize.body,
+    fontWeight: '600',
+  },
+  scale: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.xs,
+  },
+  cell: {
+    paddingVertical: SPACING.xs,
+    paddingHorizontal: SPACING.sm,
+    borderRadius: RADIUS.full,
+    borderWidth: 1,
+  },
+  cellText: {
+    fontSize: TYPOGRAPHY.fontSize.sm,
+    fontWeight: '500',
+  },
+});
+
+export default MatrixQuestion;
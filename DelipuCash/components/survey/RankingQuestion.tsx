@@ -0,0 +1,243 @@
+/**
+ * RankingQuestion — Respondent-facing drag-to-rank list for survey attempts
+ *
+ * Features:
+ * - Drag an item by its grip to a new position
+ * - Up/down buttons as the accessible alternative to dragging
+ * - "Keep this order" confirms the starting order without moving anything
+ * - Haptic feedback on pickup and drop
+ *
+ * The answer is every item id, most preferred first. Uses PanResponder with
+ * measured row heights (no external drag library needed).
+ */
+
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  PanResponder,
+  AccessibilityInfo,
+  type LayoutChangeEvent,
+} from 'react-native';
+import * as Haptics from '@/utils/haptics';
+import { GripVertical, ChevronUp, ChevronDown, CheckCircle2 } from 'lucide-react-native';
+import { SPACING, RADIUS, TYPOGRAPHY, SHADOWS, useTheme, withAlpha } from '@/utils/theme';
+import { isRankingComplete, moveRankedItem, resolveRankingOrder } from '@/utils/surveyQuestionTypes';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface RankingItem {
+  /** Raw item text — what gets stored in the answer */
+  id: string;
+  /** Display text (may be piped) */
+  text: string;
+}
+
+interface RankingQuestionProps {
+  items: RankingItem[];
+  value: unknown;
+  onChange: (order: string[]) => void;
+}
+
+/** Fallback row pitch until the first row reports its layout */
+const DEFAULT_ROW_HEIGHT = 60;
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export const RankingQuestion: React.FC<RankingQuestionProps> = ({ items, value, onChange }) => {
+  const { colors } = useTheme();
+  const itemIds = useMemo(() => items.map((i) => i.id), [items]);
+  const textById = useMemo(() => new Map(items.map((i) => [i.id, i.text])), [items]);
+  const order = resolveRankingOrder(value, itemIds);
+  const confirmed = isRankingComplete(value, itemIds);
+
+  const rowHeight = useRef(DEFAULT_ROW_HEIGHT);
+  const [drag, setDrag] = useState<{ index: number; dy: number } | null>(null);
+
+  const move = useCallback(
+    (fromIndex: number, toIndex: number) => {
+      const next = moveRankedItem(order, fromIndex, toIndex);
+      onChange(next);
+      if (next !== order) {
+        AccessibilityInfo.announceForAccessibility(`Moved to position ${toIndex + 1} of ${order.length}`);
+      }
+    },
+    [order, onChange],
+  );
+
+  const responders = useMemo(
+    () =>
+      order.map((_, index) =>
+        PanResponder.create({
+          onStartShouldSetPanResponder: () => true,
+          onMoveShouldSetPanResponder: () => true,
+          // Keep the gesture when the parent ScrollView wants to scroll
+          onPanResponderTerminationRequest: () => false,
+          onPanResponderGrant: () => {
+            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium).catch(() => {});
+            setDrag({ index, dy: 0 });
+          },
+          onPanResponderMove: (_event, gesture) => setDrag({ index, dy: gesture.dy }),
+          onPanResponderRelease: (_event, gesture) => {
+            setDrag(null);
+            const target = Math.min(
+              order.length - 1,
+              Math.max(0, index + Math.round(gesture.dy / rowHeight.current)),
+            );
+            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {});
+            move(index, target);
+          },
+          onPanResponderTerminate: () => setDrag(null),
+        }),
+      ),
+    [order, move],
+  );
+
+  const handleRowLayout = useCallback((event: LayoutChangeEvent) => {
+    const { height } = event.nativeEvent.layout;
+    if (height > 0) rowHeight.current = height + SPACING.sm;
+  }, []);
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.hint, { color: colors.textMuted }]}>
+        Drag to order from most to least preferred.
+      </Text>
+
+      {order.map((id, index) => {
+        const isDragging = drag?.index === index;
+        const label = textById.get(id) ?? id;
+        return (
+          <View
+            key={id}
+            onLayout={index === 0 ? handleRowLayout : undefined}
+            style={[
+              styles.row,
+              {
+                borderColor: isDragging ? colors.primary : colors.border,
+                backgroundColor: isDragging ? withAlpha(colors.primary, 0.12) : colors.card,
+              },
+              isDragging && [SHADOWS.md, styles.dragging, { transform: [{ translateY: drag.dy }] }],
+            ]}
+            accessibilityLabel={`${label}, ranked ${index + 1} of ${order.length}`}
+          >
+            <View
+              {...responders[index].panHandlers}
+              style={styles.grip}
+              accessibilityLabel={`Drag handle for ${label}`}
+            >
+              <GripVertical size={18} color={colors.textMuted} />
+            </View>
+            <View style={[styles.rankBadge, { backgroundColor: withAlpha(colors.primary, 0.14) }]}>
+              <Text style={[styles.rankText, { color: colors.primary }]}>{index + 1}</Text>
+            </View>
+            <Text style={[styles.itemText, { color: colors.text }]}>{label}</Text>
+            <TouchableOpacity
+              onPress={() => move(index, index - 1)}
+              disabled={index === 0}
+              style={[styles.moveButton, { opacity: index === 0 ? 0.25 : 1 }]}
+              accessibilityRole="button"
+              accessibilityLabel={`Move ${label} up`}
+              accessibilityState={{ disabled: index === 0 }}
+            >
+              <ChevronUp size={18} color={colors.textMuted} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => move(index, index + 1)}
+              disabled={index === order.length - 1}
+              style={[styles.moveButton, { opacity: index === order.length - 1 ? 0.25 : 1 }]}
+              accessibilityRole="button"
+              accessibilityLabel={`Move ${label} down`}
+              accessibilityState={{ disabled: index === order.length - 1 }}
+            >
+              <ChevronDown size={18} color={colors.textMuted} />
+            </TouchableOpacity>
+          </View>
+        );
+      })}
+
+      {!confirmed && order.length > 0 && (
+        <TouchableOpacity
+          onPress={() => {
+            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {});
+            onChange(order);
+          }}
+          style={[styles.confirmButton, { borderColor: colors.primary }]}
+          accessibilityRole="button"
+          accessibilityLabel="Keep this order"
+        >
+          <CheckCircle2 size={16} color={colors.primary} />
+          <Text style={[styles.confirmText, { color: colors.primary }]}>Keep this order</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    gap: SPACING.sm,
+  },
+  hint: {
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    paddingVertical: SPACING.sm,
+    paddingHorizontal: SPACING.sm,
+    borderRadius: RADIUS.md,
+    borderWidth: 1,
+  },
+  dragging: {
+    zIndex: 10,
+  },
+  grip: {
+    padding: SPACING.xs,
+  },
+  rankBadge: {
+    width: 28,
+    height: 28,
+    borderRadius: RADIUS.full,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  rankText: {
+    fontSize: TYPOGRAPHY.fontSize.sm,
+    fontWeight: '700',
+  },
+  itemText: {
+    flex: 1,
+    fontSize: TYPOGRAPHY.fontSize.base,
+  },
+  moveButton: {
+    padding: SPACING.xs,
+  },
+  confirmButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: SPACING.xs,
+    paddingVertical: SPACING.sm,
+    borderRadius: RADIUS.md,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+  },
+  confirmText: {
+    fontSize: TYPOGRAPHY.fontSize.sm,
+    fontWeight: '600',
+  },
+});
+
+export default RankingQuestion;
@@ -0,0 +1,360 @@
+/**
+ * ScreenerEditor — Screener + quota configuration modal
+ *
+ * Turns a single-choice question at the start of the survey into a screener:
+ * "Continue only if the answer is [A] or [B]" with an optional cap per
+ * qualifying answer ("at most 100 × Female"). Respondents who don't qualify,
+ * or whose answer's quota is full, are thanked and leave before the paid
+ * section.
+ *
+ * Features:
+ * - Qualify toggle per answer (boolean questions use their Yes/No labels)
+ * - Optional quota limit per qualifying answer
+ * - Validation against the whole survey (position, required, answer space)
+ * - Accessible: roles, labels, checked state
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  Modal,
+  StyleSheet,
+} from 'react-native';
+import * as Haptics from '@/utils/haptics';
+import { X, Filter, Check } from 'lucide-react-native';
+import { useTheme, SPACING, TYPOGRAPHY, RADIUS, withAlpha } from '@/utils/theme';
+import type { BuilderQuestionData, ScreenerConfig } from '@/store/SurveyBuilderStore';
+import { getScreenerAnswerSpace, validateScreeners } from '@/utils/surveyScreening';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface ScreenerEditorProps {
+  /** The question being configured */
+  question: BuilderQuestionData;
+  /** All questions in the survey (screeners must precede every other question) */
+  allQuestions: BuilderQuestionData[];
+  /** Current config (or null) */
+  config: ScreenerConfig | null;
+  /** Callback when config changes */
+  onSave: (config: ScreenerConfig | null) => void;
+  /** Close the editor */
+  onClose: () => void;
+  /** Whether the modal is visible */
+  visible: boolean;
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export const ScreenerEditor: React.FC<ScreenerEditorProps> = ({
+  question,
+  allQuestions,
+  config,
+  onSave,
+  onClose,
+  visible,
+}) => {
+  const { colors } = useTheme();
+
+  // Local editing state — quota limits stay as raw input until save
+  const [qualifying, setQualifying] = useState<string[]>(config?.qualifying ?? []);
+  const [limits, setLimits] = useState<Record<string, string>>(() =>
+    Object.fromEntries((config?.quotas ?? []).map((q) => [q.answer, String(q.limit)]))
+  );
+
+  const answers = useMemo(() => getScreenerAnswerSpace(question), [question]);
+
+  const labelFor = (answer: string): string => {
+    if (question.type !== 'boolean') return answer;
+    return answer === 'true' ? question.options[0] || 'Yes' : question.options[1] || 'No';
+  };
+
+  const draft = useMemo<ScreenerConfig>(() => {
+    const quotas = qualifying
+      .filter((answer) => (limits[answer] ?? '').trim() !== '')
+      .map((answer) => ({ answer, limit: Number(limits[answer]) }));
+    return quotas.length > 0 ? { qualifying, quotas } : { qualifying };
+  }, [qualifying, limits]);
+
+  // Validation — against the whole survey so position + required are checked
+  const validationErrors = useMemo(() => {
+    const index = allQuestions.findIndex((q) => q.id === question.id);
+    return validateScreeners(
+      allQuestions.map((q) => (q.id === question.id ? { ...q, screener: draft } : q))
+    ).filter((issue) => issue.questionIndex === index);
+  }, [allQuestions, question.id, draft]);
+
+  const toggleAnswer = (answer: string) => {
+    Haptics.selectionAsync().catch(() => {});
+    setQualifying((prev) =>
+      prev.includes(answer) ? prev.filter((a) => a !== answer) : answers.filter((a) => prev.includes(a) || a === answer)
+    );
+  };
+
+  const handleSave = () => {
+    if (validationErrors.length > 0) return;
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
+    onSave(qualifying.length > 0 ? draft : null);
+  };
+
+  const handleClear = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {});
+    onSave(null);
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={[styles.modal, { backgroundColor: colors.card }]}>
+          {/* Header */}
+          <View style={[styles.header, { borderBottomColor: withAlpha(colors.border, 0.3) }]}>
+            <View style={styles.headerLeft}>
+              <Filter size={20} color={colors.primary} />
+              <Text style={[styles.headerTitle, { color: colors.text }]}>Screener & Quotas</Text>
+            </View>
+            <TouchableOpacity onPress={onClose} accessibilityRole="button" accessibilityLabel="Close">
+              <X size={20} color={colors.textMuted} />
+            </TouchableOpacity>
+          </View>
+
+          {/* Target question */}
+          <View style={[styles.targetBanner, { backgroundColor: withAlpha(colors.primary, 0.06) }]}>
+            <Text style={[styles.targetLabel, { color: colors.textMuted }]}>Continue only if the answer to:</Text>
+            <Text style={[styles.targetText, { color: colors.text }]} numberOfLines={2}>
+              {question.text || 'Untitled Question'}
+            </Text>
+          </View>
+
+          <ScrollView style={styles.body} contentContainerStyle={styles.bodyContent}>
+            <Text style={[styles.hint, { color: colors.textMuted }]}>
+              Tick the answers that qualify. Anyone else is thanked and leaves before the paid questions.
+              Add a limit to stop accepting an answer once that many people have completed the survey.
+            </Text>
+
+            {answers.map((answer) => {
+              const selected = qualifying.includes(answer);
+              return (
+                <View key={answer} style={[styles.answerRow, { borderColor: selected ? colors.primary : colors.border }]}>
+                  <TouchableOpacity
+                    style={styles.answerToggle}
+                    onPress={() => toggleAnswer(answer)}
+                    accessibilityRole="checkbox"
+                    accessibilityState={{ checked: selected }}
+                    accessibilityLabel={`${labelFor(answer)} qualifies`}
+                  >
+                    <View
+                      style={[
+                        styles.checkbox,
+                        { borderColor: selected ? colors.primary : colors.border, backgroundColor: selected ? colors.primary : 'transparent' },
+                      ]}
+                    >
+                      {selected && <Check size={12} color={colors.primaryText} />}
+                    </View>
+                    <Text style={[styles.answerText, { color: colors.text }]} numberOfLines={1}>
+                      {labelFor(answer)}
+                    </Text>
+                  </TouchableOpacity>
+                  {selected && (
+                    <TextInput
+                      value={limits[answer] ?? ''}
+                      onChangeText={(text) => setLimits((prev) => ({ ...prev, [answer]: text.replace(/[^0-9]/g, '') }))}
+                      placeholder="No limit"
+                      placeholderTextColor={colors.textMuted}
+                      keyboardType="number-pad"
+                      style={[styles.limitInput, { color: colors.text, borderColor: colors.border, backgroundColor: colors.background }]}
+                      accessibilityLabel={`Quota for ${labelFor(answer)}`}
+                    />
+                  )}
+                </View>
+              );
+            })}
+
+            {/* Validation errors */}
+            {validationErrors.length > 0 && qualifying.length > 0 && (
+              <View style={[styles.errorBanner, { backgroundColor: withAlpha(colors.error, 0.08) }]}>
+                {validationErrors.map((err, i) => (
+                  <Text key={i} style={[styles.errorText, { color: colors.error }]}>
+                    This question {err.message}
+                  </Text>
+                ))}
+              </View>
+            )}
+          </ScrollView>
+
+          {/* Footer actions */}
+          <View style={[styles.footer, { borderTopColor: withAlpha(colors.border, 0.3) }]}>
+            {config && (
+              <TouchableOpacity
+                style={[styles.clearBtn, { borderColor: colors.border }]}
+                onPress={handleClear}
+                accessibilityRole="button"
+                accessibilityLabel="Remove screener"
+              >
+                <Text style={[styles.clearText, { color: colors.error }]}>Remove Screener</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={[styles.saveBtn, { backgroundColor: colors.primary, opacity: qualifying.length > 0 && validationErrors.length > 0 ? 0.5 : 1 }]}
+              onPress={handleSave}
+              disabled={qualifying.length > 0 && validationErrors.length > 0}
+              accessibilityRole="button"
+              accessibilityLabel="Save screener"
+            >
+              <Text style={[styles.saveText, { color: colors.primaryText }]}>
+                {qualifying.length > 0 ? 'Save Screener' : 'Done'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'flex-end',
+  },
+  modal: {
+    maxHeight: '85%',
+    borderTopLeftRadius: RADIUS.lg,
+    borderTopRightRadius: RADIUS.lg,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: SPACING.lg,
+    paddingVertical: SPACING.base,
+    borderBottomWidth: 1,
+  },
+  headerLeft: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+  },
+  headerTitle: {
+    fontSize: TYPOGRAPHY.fontSize.lg,
+    fontWeight: '700',
+  },
+  targetBanner: {
+    marginHorizontal: SPACING.lg,
+    marginTop: SPACING.base,
+    padding: SPACING.sm,
+    borderRadius: RADIUS.sm,
+  },
+  targetLabel: {
+    fontSize: TYPOGRAPHY.fontSize.xs,
+    fontWeight: '500',
+    marginBottom: 2,
+  },
+  targetText: {
+    fontSize: TYPOGRAPHY.fontSize.sm,
+    fontWeight: '600',
+  },
+  body: {
+    maxHeight: 400,
+  },
+  bodyContent: {
+    padding: SPACING.lg,
+    gap: SPACING.sm,
+  },
+  hint: {
+    fontSize: TYPOGRAPHY.fontSize.xs,
+    lineHeight: 18,
+    marginBottom: SPACING.xs,
+  },
+  answerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    padding: SPACING.sm,
+    borderRadius: RADIUS.sm,
+    borderWidth: 1,
+  },
+  answerToggle: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    minHeight: 32,
+  },
+  checkbox: {
+    width: 20,
+    height: 20,
+    borderRadius: 4,
+    borderWidth: 1.5,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  answerText: {
+    flex: 1,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+    fontWeight: '500',
+  },
+  limitInput: {
+    width: 88,
+    borderWidth: 1,
+    borderRadius: RADIUS.sm,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xs,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+    textAlign: 'right',
+  },
+  errorBanner: {
+    padding: SPACING.sm,
+    borderRadius: RADIUS.sm,
+    gap: 4,
+  },
+  errorText: {
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    paddingHorizontal: SPACING.lg,
+    paddingVertical: SPACING.base,
+    borderTopWidth: 1,
+  },
+  clearBtn: {
+    paddingHorizontal: SPACING.base,
+    paddingVertical: SPACING.xs + 2,
+    borderRadius: RADIUS.sm,
+    borderWidth: 1,
+  },
+  clearText: {
+    fontSize: TYPOGRAPHY.fontSize.sm,
+    fontWeight: '600',
+  },
+  saveBtn: {
+    paddingHorizontal: SPACING.xl,
+    paddingVertical: SPACING.xs + 4,
+    borderRadius: RADIUS.sm,
+  },
+  saveText: {
+    fontSize: TYPOGRAPHY.fontSize.sm,
+    fontWeight: '700',
+  },
+});
+
+export default ScreenerEditor;
@@ -0,0 +1,260 @@
+/**
+ * SegmentFilter — "Respondents who chose X" picker for the survey responses screen
+ *
+ * Features:
+ * - Saved segments as chips: tap to apply or remove, × to delete
+ * - Build a new segment from any choice, yes/no, rating, NPS or ranking question
+ * - Saving a segment applies it straight away
+ *
+ * Rendered inside the responses filter panel; the active segment narrows every
+ * chart, the Compare view, the individual view and exports.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Plus, X } from 'lucide-react-native';
+import * as Haptics from '@/utils/haptics';
+import { BORDER_WIDTH, ICON_SIZE, RADIUS, SPACING, TYPOGRAPHY, useTheme, withAlpha } from '@/utils/theme';
+import {
+  describeSegment,
+  getDeclaredCategories,
+  isCrossTabQuestion,
+  type ResponseSegment,
+} from '@/utils/crossTab';
+import type { UploadSurvey } from '@/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface SegmentFilterProps {
+  surveyId: string;
+  questions: UploadSurvey[];
+  /** Segments saved for this survey */
+  savedSegments: ResponseSegment[];
+  activeSegmentId: string | null;
+  onApply: (segment: ResponseSegment | null) => void;
+  onSave: (segment: ResponseSegment) => void;
+  onDelete: (segmentId: string) => void;
+}
+
+let segmentCounter = 0;
+function generateSegmentId(): string {
+  segmentCounter += 1;
+  return `seg_${Date.now()}_${segmentCounter}`;
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export const SegmentFilter: React.FC<SegmentFilterProps> = ({
+  surveyId,
+  questions,
+  savedSegments,
+  activeSegmentId,
+  onApply,
+  onSave,
+  onDelete,
+}) => {
+  const { colors } = useTheme();
+  const [questionId, setQuestionId] = useState<string | null>(null);
+  const [values, setValues] = useState<string[]>([]);
+
+  const candidates = useMemo(
+    () => questions.map((q, index) => ({ question: q, index })).filter(({ question }) => isCrossTabQuestion(question)),
+    [questions],
+  );
+  const selected = candidates.find((c) => c.question.id === questionId) ?? null;
+  const categories = useMemo(() => (selected ? getDeclaredCategories(selected.question) : []), [selected]);
+
+  const chipStyle = (active: boolean) => [
+    styles.chip,
+    { borderColor: active ? colors.primary : colors.border },
+    active && { backgroundColor: withAlpha(colors.primary, 0.12) },
+  ];
+  const chipTextStyle = (active: boolean) => [styles.chipText, { color: active ? colors.primary : colors.textMuted }];
+
+  const pickQuestion = (id: string) => {
+    Haptics.selectionAsync();
+    setQuestionId(id === questionId ? null : id);
+    setValues([]);
+  };
+
+  const toggleValue = (value: string) => {
+    Haptics.selectionAsync();
+    setValues((prev) => (prev.includes(value) ? prev.filter((v) => v !== value) : [...prev, value]));
+  };
+
+  const handleSave = () => {
+    if (!selected || values.length === 0) return;
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    const segment: ResponseSegment = {
+      id: generateSegmentId(),
+      surveyId,
+      name: describeSegment(`Q${selected.index + 1}`, values),
+      questionId: selected.question.id,
+      values,
+    };
+    onSave(segment);
+    onApply(segment);
+    setQuestionId(null);
+    setValues([]);
+  };
+
+  if (candidates.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.label, { color: colors.textMuted }]}>Segment</Text>
+
+      {savedSegments.length > 0 && (
+        <View style={styles.chips}>
+          {savedSegments.map((segment) => {
+            const isActive = segment.id === activeSegmentId;
+            return (
+              <View key={segment.id} style={[chipStyle(isActive), styles.savedChip]}>
+                <TouchableOpacity
+                  onPress={() => onApply(isActive ? null : segment)}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: isActive }}
+                  accessibilityLabel={`Segment ${segment.name}`}
+                  accessibilityHint={isActive ? 'Shows all respondents again' : 'Shows only these respondents'}
+                >
+                  <Text style={chipTextStyle(isActive)} numberOfLines={1}>
+                    {segment.name}
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={() => onDelete(segment.id)}
+                  hitSlop={8}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Delete segment ${segment.name}`}
+                >
+                  <X size={ICON_SIZE.xs} color={colors.textMuted} />
+                </TouchableOpacity>
+              </View>
+            );
+          })}
+        </View>
+      )}
+
+      <Text style={[styles.hint, { color: colors.textSecondary }]}>Respondents who chose…</Text>
+      <View style={styles.chips}>
+        {candidates.map(({ question, index }) => {
+          const isActive = question.id === questionId;
+          return (
+            <TouchableOpacity
+              key={question.id}
+              style={chipStyle(isActive)}
+              onPress={() => pickQuestion(question.id)}
+              accessibilityRole="button"
+              accessibilityState={{ selected: isActive }}
+              accessibilityLabel={`Segment by question ${index + 1}: ${question.text}`}
+            >
+              <Text style={chipTextStyle(isActive)}>Q{index + 1}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {selected && (
+        <>
+          <Text style={[styles.questionText, { color: colors.text }]} numberOfLines={2}>
+            {selected.question.text}
+          </Text>
+          <View style={styles.chips}>
+            {categories.map((value) => {
+              const isActive = values.includes(value);
+              return (
+                <TouchableOpacity
+                  key={value}
+                  style={chipStyle(isActive)}
+                  onPress={() => toggleValue(value)}
+                  accessibilityRole="checkbox"
+                  accessibilityState={{ checked: isActive }}
+                  accessibilityLabel={value}
+                >
+                  <Text style={chipTextStyle(isActive)}>{value}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          <TouchableOpacity
+            style={[
+              styles.saveButton,
+              { backgroundColor: values.length > 0 ? colors.primary : withAlpha(colors.primary, 0.3) },
+            ]}
+            onPress={handleSave}
+            disabled={values.length === 0}
+            accessibilityRole="button"
+            accessibilityLabel="Save segment"
+            accessibilityState={{ disabled: values.length === 0 }}
+          >
+            <Plus size={ICON_SIZE.sm} color={colors.primaryText} />
+            <Text style={[styles.saveText, { color: colors.primaryText }]}>Save segment</Text>
+          </TouchableOpacity>
+        </>
+      )}
+    </View>
+  );
+};
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    gap: SPACING.xs,
+  },
+  label: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  hint: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.xs,
+  },
+  chip: {
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xs,
+    borderRadius: RADIUS.full,
+    borderWidth: BORDER_WIDTH.thin,
+  },
+  savedChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.xs,
+    maxWidth: '100%',
+  },
+  chipText: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  questionText: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  saveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    alignSelf: 'flex-start',
+    gap: SPACING.xs,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+    borderRadius: RADIUS.full,
+  },
+  saveText: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+});
+
+export default SegmentFilter;
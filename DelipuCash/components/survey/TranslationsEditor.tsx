@@ -0,0 +1,501 @@
+/**
+ * TranslationsEditor — Survey languages + per-language text modal
+ *
+ * Lets the creator pick the language the survey is written in, offer it in
+ * more languages (English, Luganda, Swahili), and fill in each language's
+ * title, description and question text. Answer labels are translated in place
+ * next to the source label, so translations stay aligned by position — the
+ * respondent sees their language, the stored answer stays the source label.
+ *
+ * Features:
+ * - "Written in" picker and offered-language toggles (removal confirms first)
+ * - One tab per offered language with a live count of what's missing
+ * - Source text shown above every input for side-by-side translating
+ * - Edits apply immediately (no save step), like the variables editor
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  Modal,
+  Alert,
+  StyleSheet,
+} from 'react-native';
+import * as Haptics from '@/utils/haptics';
+import { X, Languages, Check } from 'lucide-react-native';
+import { useTheme, SPACING, TYPOGRAPHY, RADIUS, withAlpha } from '@/utils/theme';
+import type {
+  BuilderQuestionData,
+  QuestionTranslation,
+  SurveyTextTranslation,
+} from '@/store/SurveyBuilderStore';
+import {
+  SURVEY_LANGUAGES,
+  findMissingTranslations,
+  getLanguageName,
+  getSourceLabels,
+} from '@/utils/surveyTranslation';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface TranslationsEditorProps {
+  title: string;
+  description: string;
+  questions: BuilderQuestionData[];
+  defaultLanguage: string;
+  languages: string[];
+  surveyTranslations: Record<string, SurveyTextTranslation>;
+  onSetDefaultLanguage: (language: string) => void;
+  onAddLanguage: (language: string) => void;
+  onRemoveLanguage: (language: string) => void;
+  onSurveyTranslationChange: (language: string, updates: Partial<SurveyTextTranslation>) => void;
+  onQuestionTranslationChange: (questionId: string, language: string, updates: Partial<QuestionTranslation>) => void;
+  /** Close the editor */
+  onClose: () => void;
+  /** Whether the modal is visible */
+  visible: boolean;
+}
+
+/** Replace one entry of a translated label list, padding gaps with '' */
+const withLabel = (labels: string[] | undefined, index: number, value: string): string[] => {
+  const next = [...(labels ?? [])];
+  while (next.length <= index) next.push('');
+  next[index] = value;
+  return next;
+};
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export const TranslationsEditor: React.FC<TranslationsEditorProps> = ({
+  title,
+  description,
+  questions,
+  defaultLanguage,
+  languages,
+  surveyTranslations,
+  onSetDefaultLanguage,
+  onAddLanguage,
+  onRemoveLanguage,
+  onSurveyTranslationChange,
+  onQuestionTranslationChange,
+  onClose,
+  visible,
+}) => {
+  const { colors } = useTheme();
+  const [activeTab, setActiveTab] = useState<string | null>(languages[0] ?? null);
+  const activeLanguage = activeTab && languages.includes(activeTab) ? activeTab : languages[0] ?? null;
+
+  const missing = useMemo(
+    () => findMissingTranslations({ languages, description, surveyTranslations, questions }),
+    [languages, description, surveyTranslations, questions]
+  );
+  const missingFor = (language: string) => missing.filter((m) => m.language === language).length;
+
+  const toggleLanguage = (language: string) => {
+    Haptics.selectionAsync().catch(() => {});
+    if (!languages.includes(language)) {
+      onAddLanguage(language);
+      setActiveTab(language);
+      return;
+    }
+    Alert.alert(
+      `Remove ${getLanguageName(language)}?`,
+      'Respondents will no longer be able to pick it, and its translations will be deleted.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Remove', style: 'destructive', onPress: () => onRemoveLanguage(language) },
+      ]
+    );
+  };
+
+  const inputStyle = [styles.input, { color: colors.text, borderColor: colors.border, backgroundColor: colors.background }];
+
+  const renderQuestion = (question: BuilderQuestionData, index: number, language: string) => {
+    const entry = question.translations?.[language];
+    const source = getSourceLabels(question);
+    const name = getLanguageName(language);
+    const update = (updates: Partial<QuestionTranslation>) => onQuestionTranslationChange(question.id, language, updates);
+
+    return (
+      <View key={question.id} style={[styles.questionCard, { borderColor: colors.border }]}>
+        <Text style={[styles.sourceText, { color: colors.textMuted }]} numberOfLines={3}>
+          {index + 1}. {question.text || 'Untitled Question'}
+        </Text>
+        <TextInput
+          value={entry?.text ?? ''}
+          onChangeText={(text) => update({ text })}
+          placeholder={`Question in ${name}`}
+          placeholderTextColor={colors.textMuted}
+          multiline
+          style={inputStyle}
+          accessibilityLabel={`Question ${index + 1} in ${name}`}
+        />
+
+        {source.options.map(({ index: optionIndex, label }) => (
+          <View key={`o${optionIndex}`} style={styles.labelRow}>
+            <Text style={[styles.labelSource, { color: colors.textMuted }]} numberOfLines={1}>
+              {label}
+            </Text>
+            <TextInput
+              value={entry?.options?.[optionIndex] ?? ''}
+              onChangeText={(text) => update({ options: withLabel(entry?.options, optionIndex, text) })}
+              placeholder={name}
+              placeholderTextColor={colors.textMuted}
+              style={[inputStyle, styles.labelInput]}
+              accessibilityLabel={`"${label}" in ${name}`}
+            />
+          </View>
+        ))}
+
+        {source.matrixColumns.length > 0 && (
+          <Text style={[styles.subheading, { color: colors.textMuted }]}>Columns</Text>
+        )}
+        {source.matrixColumns.map(({ index: columnIndex, label }) => (
+          <View key={`c${columnIndex}`} style={styles.labelRow}>
+            <Text style={[styles.labelSource, { color: colors.textMuted }]} numberOfLines={1}>
+              {label}
+            </Text>
+            <TextInput
+              value={entry?.matrixColumns?.[columnIndex] ?? ''}
+              onChangeText={(text) => update({ matrixColumns: withLabel(entry?.matrixColumns, columnIndex, text) })}
+              placeholder={name}
+              placeholderTextColor={colors.textMuted}
+              style={[inputStyle, styles.labelInput]}
+              accessibilityLabel={`Column "${label}" in ${name}`}
+            />
+          </View>
+        ))}
+
+        {!!question.placeholder?.trim() && (
+          <TextInput
+            value={entry?.placeholder ?? ''}
+            onChangeText={(placeholder) => update({ placeholder })}
+            placeholder={`Hint in ${name}: ${question.placeholder}`}
+            placeholderTextColor={colors.textMuted}
+            style={inputStyle}
+            accessibilityLabel={`Question ${index + 1} hint in ${name}`}
+          />
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={[styles.modal, { backgroundColor: colors.card }]}>
+          {/* Header */}
+          <View style={[styles.header, { borderBottomColor: withAlpha(colors.border, 0.3) }]}>
+            <View style={styles.headerLeft}>
+              <Languages size={20} color={colors.primary} />
+              <Text style={[styles.headerTitle, { color: colors.text }]}>Languages</Text>
+            </View>
+            <TouchableOpacity onPress={onClose} accessibilityRole="button" accessibilityLabel="Close">
+              <X size={20} color={colors.textMuted} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.body} contentContainerStyle={styles.bodyContent}>
+            {/* Written in */}
+            <Text style={[styles.subheading, { color: colors.textMuted }]}>Written in</Text>
+            <View style={styles.chipRow}>
+              {SURVEY_LANGUAGES.map(({ code, name }) => {
+                const selected = code === defaultLanguage;
+                return (
+                  <TouchableOpacity
+                    key={code}
+                    style={[
+                      styles.chip,
+                      { borderColor: selected ? colors.primary : colors.border, backgroundColor: selected ? withAlpha(colors.primary, 0.1) : 'transparent' },
+                    ]}
+                    onPress={() => onSetDefaultLanguage(code)}
+                    accessibilityRole="radio"
+                    accessibilityState={{ checked: selected }}
+                    accessibilityLabel={`Written in ${name}`}
+                  >
+                    <Text style={[styles.chipText, { color: selected ? colors.primary : colors.text }]}>{name}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            {/* Also offered in */}
+            <Text style={[styles.subheading, { color: colors.textMuted }]}>Also offer in</Text>
+            <View style={styles.chipRow}>
+              {SURVEY_LANGUAGES.filter((l) => l.code !== defaultLanguage).map(({ code, name }) => {
+                const offered = languages.includes(code);
+                return (
+                  <TouchableOpacity
+                    key={code}
+                    style={[
+                      styles.chip,
+                      { borderColor: offered ? colors.primary : colors.border, backgroundColor: offered ? withAlpha(colors.primary, 0.1) : 'transparent' },
+                    ]}
+                    onPress={() => toggleLanguage(code)}
+                    accessibilityRole="checkbox"
+                    accessibilityState={{ checked: offered }}
+                    accessibilityLabel={`Offer in ${name}`}
+                  >
+                    {offered && <Check size={12} color={colors.primary} />}
+                    <Text style={[styles.chipText, { color: offered ? colors.primary : colors.text }]}>{name}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            {languages.length === 0 ? (
+              <Text style={[styles.hint, { color: colors.textMuted }]}>
+                Offer the survey in another language and respondents can pick it before they start.
+                Their answers are recorded against your original options, so results stay in one place.
+              </Text>
+            ) : (
+              <>
+                {/* Language tabs */}
+                <View style={[styles.tabs, { borderBottomColor: withAlpha(colors.border, 0.3) }]}>
+                  {languages.map((language) => {
+                    const active = language === activeLanguage;
+                    const count = missingFor(language);
+                    return (
+                      <TouchableOpacity
+                        key={language}
+                        style={[styles.tab, active && { borderBottomColor: colors.primary }]}
+                        onPress={() => setActiveTab(language)}
+                        accessibilityRole="tab"
+                        accessibilityState={{ selected: active }}
+                        accessibilityLabel={`${getLanguageName(language)} translations, ${count} missing`}
+                      >
+                        <Text style={[styles.tabText, { color: active ? colors.primary : colors.text }]}>
+                          {getLanguageName(language)}
+                        </Text>
+                        {count > 0 && (
+                          <View style={[styles.badge, { backgroundColor: withAlpha(colors.error, 0.12) }]}>
+                            <Text style={[styles.badgeText, { color: colors.error }]}>{count}</Text>
+                          </View>
+                        )}
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+
+                {activeLanguage && (
+                  <>
+                    <Text style={[styles.sourceText, { color: colors.textMuted }]} numberOfLines={2}>
+                      {title || 'Untitled Survey'}
+                    </Text>
+                    <TextInput
+                      value={surveyTranslations[activeLanguage]?.title ?? ''}
+                      onChangeText={(text) => onSurveyTranslationChange(activeLanguage, { title: text })}
+                      placeholder={`Title in ${getLanguageName(activeLanguage)}`}
+                      placeholderTextColor={colors.textMuted}
+                      style={inputStyle}
+                      accessibilityLabel={`Survey title in ${getLanguageName(activeLanguage)}`}
+                    />
+                    {!!description.trim() && (
+                      <>
+                        <Text style={[styles.sourceText, { color: colors.textMuted }]} numberOfLines={3}>
+                          {description}
+                        </Text>
+                        <TextInput
+                          value={surveyTranslations[activeLanguage]?.description ?? ''}
+                          onChangeText={(text) => onSurveyTranslationChange(activeLanguage, { description: text })}
+                          placeholder={`Description in ${getLanguageName(activeLanguage)}`}
+                          placeholderTextColor={colors.textMuted}
+                          multiline
+                          style={inputStyle}
+                          accessibilityLabel={`Survey description in ${getLanguageName(activeLanguage)}`}
+                        />
+                      </>
+                    )}
+                    {questions.map((question, index) => renderQuestion(question, index, activeLanguage))}
+                  </>
+                )}
+              </>
+            )}
+          </ScrollView>
+
+          {/* Footer */}
+          <View style={[styles.footer, { borderTopColor: withAlpha(colors.border, 0.3) }]}>
+            {missing.length > 0 && (
+              <Text style={[styles.footerNote, { color: colors.error }]}>
+                {missing.length} translation{missing.length !== 1 ? 's' : ''} missing
+              </Text>
+            )}
+            <TouchableOpacity
+              style={[styles.doneBtn, { backgroundColor: colors.primary }]}
+              onPress={onClose}
+              accessibilityRole="button"
+              accessibilityLabel="Done"
+            >
+              <Text style={[styles.doneText, { color: colors.primaryText }]}>Done</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'flex-end',
+  },
+  modal: {
+    maxHeight: '90%',
+    borderTopLeftRadius: RADIUS.lg,
+    borderTopRightRadius: RADIUS.lg,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: SPACING.lg,
+    paddingVertical: SPACING.base,
+    borderBottomWidth: 1,
+  },
+  headerLeft: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+  },
+  headerTitle: {
+    fontSize: TYPOGRAPHY.fontSize.lg,
+    fontWeight: '700',
+  },
+  body: {
+    maxHeight: 520,
+  },
+  bodyContent: {
+    padding: SPACING.lg,
+    gap: SPACING.sm,
+  },
+  subheading: {
+    fontSize: TYPOGRAPHY.fontSize.xs,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginTop: SPACING.xs,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.xs,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xs,
+    borderRadius: RADIUS.full,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: TYPOGRAPHY.fontSize.sm,
+    fontWeight: '500',
+  },
+  hint: {
+    fontSize: TYPOGRAPHY.fontSize.xs,
+    lineHeight: 18,
+    marginTop: SPACING.xs,
+  },
+  tabs: {
+    flexDirection: 'row',
+    gap: SPACING.base,
+    borderBottomWidth: 1,
+    marginTop: SPACING.sm,
+  },
+  tab: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: SPACING.xs,
+    borderBottomWidth: 2,
+    borderBottomColor: 'transparent',
+  },
+  tabText: {
+    fontSize: TYPOGRAPHY.fontSize.sm,
+    fontWeight: '600',
+  },
+  badge: {
+    minWidth: 18,
+    paddingHorizontal: 5,
+    borderRadius: RADIUS.full,
+    alignItems: 'center',
+  },
+  badgeText: {
+    fontSize: TYPOGRAPHY.fontSize.xs,
+    fontWeight: '700',
+  },
+  questionCard: {
+    gap: SPACING.xs,
+    padding: SPACING.sm,
+    borderRadius: RADIUS.sm,
+    borderWidth: 1,
+  },
+  sourceText: {
+    fontSize: TYPOGRAPHY.fontSize.xs,
+    fontWeight: '500',
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: RADIUS.sm,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xs,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  labelRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+  },
+  labelSource: {
+    width: '38%',
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  labelInput: {
+    flex: 1,
+  },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    paddingHorizontal: SPACING.lg,
+    paddingVertical: SPACING.base,
+    borderTopWidth: 1,
+  },
+  footerNote: {
+    flex: 1,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+    fontWeight: '500',
+  },
+  doneBtn: {
+    paddingHorizontal: SPACING.xl,
+    paddingVertical: SPACING.xs + 4,
+    borderRadius: RADIUS.sm,
+  },
+  doneText: {
+    fontSize: TYPOGRAPHY.fontSize.sm,
+    fontWeight: '700',
+  },
+});
+
+export default TranslationsEditor;
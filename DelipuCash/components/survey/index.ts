@@ -29,6 +29,9 @@ export { SurveyShareModal } from './SurveyShareModal';
 // Analytics Dashboard
 export { AnalyticsDashboard } from './AnalyticsDashboard';
 
+// Segment Filter (response analytics)
+export { SegmentFilter } from './SegmentFilter';
+
 // FAB & Creation Flow
 export {
   SurveyCreationFAB,
@@ -43,6 +46,12 @@ export { UndoRedoToolbar } from './UndoRedoToolbar';
 // Conditional Logic Editor
 export { ConditionalLogicEditor } from './ConditionalLogicEditor';
 
+// Screener + Quota Editor
+export { ScreenerEditor } from './ScreenerEditor';
+
+// Languages + Translations Editor
+export { TranslationsEditor } from './TranslationsEditor';
+
 // File Upload Question (respondent-facing)
 export { FileUploadQuestion } from './FileUploadQuestion';
 
@@ -9,6 +9,7 @@ import {
   Text,
   StyleSheet,
   Dimensions,
+  ScrollView,
 } from 'react-native';
 import {
   SPACING,
@@ -17,6 +18,9 @@ import {
   useTheme,
   withAlpha,
 } from '@/utils/theme';
+import { formatPValue, type CrossTab } from '@/utils/crossTab';
+import { getQuotaFillRatio } from '@/utils/surveyScreening';
+import type { SurveyQuotaFill } from '@/types';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 
@@ -670,6 +674,172 @@ export const WordCloud: React.FC<WordCloudProps> = ({
   );
 };
 
+// ============================================================================
+// CROSS-TAB TABLE
+// ============================================================================
+
+interface CrossTabTableProps {
+  crossTab: CrossTab;
+  /** Which total each percentage is taken from */
+  percentBy?: 'row' | 'column';
+}
+
+const CROSS_TAB_CELL_WIDTH = 72;
+const CROSS_TAB_LABEL_WIDTH = 112;
+
+export const CrossTabTable: React.FC<CrossTabTableProps> = ({
+  crossTab,
+  percentBy = 'row',
+}) => {
+  const { colors } = useTheme();
+  const { rows, columns, counts, rowTotals, columnTotals, total, chiSquare } = crossTab;
+
+  if (total === 0) {
+    return (
+      <View style={styles.emptyChart}>
+        <Text style={[styles.emptyText, { color: colors.textMuted }]}>
+          No respondents answered both questions
+        </Text>
+      </View>
+    );
+  }
+
+  const percents = percentBy === 'row' ? crossTab.rowPercents : crossTab.columnPercents;
+  const verdict = !chiSquare
+    ? 'Needs at least two answers on each side to test significance'
+    : chiSquare.significant
+    ? `Significant difference (${formatPValue(chiSquare.pValue)})`
+    : `No significant difference (${formatPValue(chiSquare.pValue)})`;
+  const verdictColor = chiSquare?.significant ? colors.success : colors.textMuted;
+
+  return (
+    <View style={styles.chartContainer}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        <View>
+          <View style={styles.crossTabRow}>
+            <View style={[styles.crossTabLabelCell, { width: CROSS_TAB_LABEL_WIDTH }]} />
+            {columns.map((column) => (
+              <Text
+                key={column}
+                style={[styles.crossTabHeader, { width: CROSS_TAB_CELL_WIDTH, color: colors.textSecondary }]}
+                numberOfLines={2}
+              >
+                {column}
+              </Text>
+            ))}
+            <Text style={[styles.crossTabHeader, { width: CROSS_TAB_CELL_WIDTH, color: colors.textMuted }]}>
+              Total
+            </Text>
+          </View>
+
+          {rows.map((row, i) => (
+            <View key={row} style={[styles.crossTabRow, { borderTopColor: colors.border }]}>
+              <Text
+                style={[styles.crossTabLabelCell, { width: CROSS_TAB_LABEL_WIDTH, color: colors.text }]}
+                numberOfLines={2}
+              >
+                {row}
+              </Text>
+              {columns.map((column, j) => (
+                <View
+                  key={column}
+                  style={[
+                    styles.crossTabCell,
+                    { width: CROSS_TAB_CELL_WIDTH, backgroundColor: withAlpha(colors.primary, (percents[i][j] / 100) * 0.5) },
+                  ]}
+                  accessibilityLabel={`${row}, ${column}: ${counts[i][j]} (${percents[i][j].toFixed(0)}%)`}
+                >
+                  <Text style={[styles.crossTabCount, { color: colors.text }]}>{counts[i][j]}</Text>
+                  <Text style={[styles.crossTabPercent, { color: colors.textSecondary }]}>
+                    {percents[i][j].toFixed(0)}%
+                  </Text>
+                </View>
+              ))}
+              <View style={[styles.crossTabCell, { width: CROSS_TAB_CELL_WIDTH }]}>
+                <Text style={[styles.crossTabCount, { color: colors.textMuted }]}>{rowTotals[i]}</Text>
+              </View>
+            </View>
+          ))}
+
+          <View style={[styles.crossTabRow, { borderTopColor: colors.border }]}>
+            <Text style={[styles.crossTabLabelCell, { width: CROSS_TAB_LABEL_WIDTH, color: colors.textMuted }]}>
+              Total
+            </Text>
+            {columnTotals.map((count, j) => (
+              <View key={columns[j]} style={[styles.crossTabCell, { width: CROSS_TAB_CELL_WIDTH }]}>
+                <Text style={[styles.crossTabCount, { color: colors.textMuted }]}>{count}</Text>
+              </View>
+            ))}
+            <View style={[styles.crossTabCell, { width: CROSS_TAB_CELL_WIDTH }]}>
+              <Text style={[styles.crossTabCount, { color: colors.textMuted }]}>{total}</Text>
+            </View>
+          </View>
+        </View>
+      </ScrollView>
+
+      <View
+        style={[styles.crossTabVerdict, { backgroundColor: withAlpha(verdictColor, 0.1) }]}
+        accessibilityLabel={verdict}
+      >
+        <Text style={[styles.crossTabVerdictText, { color: verdictColor }]}>{verdict}</Text>
+        {chiSquare && (
+          <Text style={[styles.crossTabVerdictDetail, { color: colors.textMuted }]}>
+            χ² = {chiSquare.statistic.toFixed(2)}, df = {chiSquare.degreesOfFreedom}
+            {chiSquare.sparse ? ' · Some groups are small, so treat this with caution' : ''}
+          </Text>
+        )}
+      </View>
+    </View>
+  );
+};
+
+// ============================================================================
+// QUOTA PROGRESS COMPONENT
+// ============================================================================
+
+interface QuotaProgressProps {
+  quotas: SurveyQuotaFill[];
+}
+
+export const QuotaProgress: React.FC<QuotaProgressProps> = ({ quotas }) => {
+  const { colors } = useTheme();
+
+  return (
+    <View style={[styles.chartContainer, styles.quotaList]}>
+      {quotas.map((quota) => {
+        const barColor = quota.full ? colors.warning : colors.primary;
+        return (
+          <View
+            key={`${quota.questionId}:${quota.answer}`}
+            style={styles.quotaRow}
+            accessibilityLabel={`${quota.answer}: ${quota.filled} of ${quota.limit}${quota.full ? ', full' : ''}`}
+          >
+            <View style={styles.quotaLabelRow}>
+              <Text style={[styles.quotaAnswer, { color: colors.text }]} numberOfLines={1}>
+                {quota.answer}
+              </Text>
+              <Text style={[styles.quotaCount, { color: quota.full ? colors.warning : colors.textMuted }]}>
+                {quota.full ? 'Full · ' : ''}{quota.filled}/{quota.limit}
+              </Text>
+            </View>
+            <Text style={[styles.quotaQuestion, { color: colors.textMuted }]} numberOfLines={1}>
+              {quota.questionText}
+            </Text>
+            <View style={[styles.quotaTrack, { backgroundColor: withAlpha(colors.border, 0.5) }]}>
+              <View
+                style={[
+                  styles.quotaFill,
+                  { width: `${getQuotaFillRatio(quota) * 100}%`, backgroundColor: barColor },
+                ]}
+              />
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
 // ============================================================================
 // STYLES
 // ============================================================================
@@ -1002,6 +1172,89 @@ const styles = StyleSheet.create({
     fontFamily: TYPOGRAPHY.fontFamily.regular,
     fontSize: TYPOGRAPHY.fontSize.xs,
   },
+
+  // Cross-Tab Table
+  crossTabRow: {
+    flexDirection: 'row',
+    alignItems: 'stretch',
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: 'transparent',
+  },
+  crossTabLabelCell: {
+    paddingVertical: SPACING.xs,
+    paddingRight: SPACING.sm,
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  crossTabHeader: {
+    paddingVertical: SPACING.xs,
+    textAlign: 'center',
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  crossTabCell: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: SPACING.xs,
+  },
+  crossTabCount: {
+    fontFamily: TYPOGRAPHY.fontFamily.bold,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  crossTabPercent: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  crossTabVerdict: {
+    marginTop: SPACING.md,
+    padding: SPACING.sm,
+    borderRadius: RADIUS.md,
+    gap: SPACING.xxs,
+  },
+  crossTabVerdictText: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  crossTabVerdictDetail: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  // Quota Progress
+  quotaList: {
+    gap: SPACING.md,
+  },
+  quotaRow: {
+    gap: SPACING.xxs,
+  },
+  quotaLabelRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: SPACING.sm,
+  },
+  quotaAnswer: {
+    flex: 1,
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  quotaCount: {
+    fontFamily: TYPOGRAPHY.fontFamily.bold,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  quotaQuestion: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  quotaTrack: {
+    height: 8,
+    borderRadius: RADIUS.full,
+    overflow: 'hidden',
+    marginTop: SPACING.xxs,
+  },
+  quotaFill: {
+    height: '100%',
+    borderRadius: RADIUS.full,
+  },
 });
 
 export default {
@@ -1012,4 +1265,6 @@ export default {
   MiniLineChart,
   StatCard,
   WordCloud,
+  CrossTabTable,
+  QuotaProgress,
 };
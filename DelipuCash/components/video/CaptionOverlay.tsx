@@ -0,0 +1,102 @@
+/**
+ * CaptionOverlay — Caption lines drawn over a playing video
+ *
+ * expo-video only renders subtitle tracks muxed into the stream, so caption
+ * tracks (utils/captions) are drawn here, synced to the time the player's
+ * own progress interval already reports. Follows the system accessibility
+ * settings: bold text, larger font sizes (capped like other captions), and an
+ * opaque box under grayscale / inverted colors.
+ *
+ * Hidden from screen readers — they'd announce every line over the audio
+ * the viewer can already hear.
+ *
+ * @module components/video/CaptionOverlay
+ */
+
+import React, { memo } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import type { CaptionCue } from '@/types';
+import { SPACING, RADIUS, TYPOGRAPHY, withAlpha } from '@/utils/theme';
+import { getAccessibleFontSize, getMaxFontSizeMultiplier, useAccessibilitySettings } from '@/utils/accessibility';
+import { activeCueText, captionAppearance } from '@/utils/captions';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CaptionOverlayProps {
+  cues: CaptionCue[];
+  /** Playback position in seconds */
+  currentTime: number;
+  /** Distance from the bottom of the video — clear of progress bars and info */
+  bottomOffset?: number;
+  testID?: string;
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+function CaptionOverlayComponent({
+  cues,
+  currentTime,
+  bottomOffset = SPACING.xl,
+  testID,
+}: CaptionOverlayProps): React.ReactElement | null {
+  const accessibility = useAccessibilitySettings();
+  const text = activeCueText(cues, currentTime);
+  if (!text) return null;
+
+  const appearance = captionAppearance(accessibility);
+  const fontSize = getAccessibleFontSize(TYPOGRAPHY.fontSize.lg, getMaxFontSizeMultiplier('caption'));
+
+  return (
+    <View
+      style={[styles.container, { bottom: bottomOffset }]}
+      pointerEvents="none"
+      accessibilityElementsHidden
+      importantForAccessibility="no-hide-descendants"
+      testID={testID}
+    >
+      <Text
+        style={[
+          styles.text,
+          {
+            fontSize,
+            lineHeight: Math.round(fontSize * 1.35),
+            fontWeight: appearance.fontWeight,
+            backgroundColor: withAlpha('#000000', appearance.backgroundOpacity),
+          },
+        ]}
+        // Already scaled above — don't let the OS scale it a second time
+        allowFontScaling={false}
+      >
+        {text}
+      </Text>
+    </View>
+  );
+}
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: SPACING.lg,
+    right: SPACING.lg,
+    alignItems: 'center',
+  },
+  text: {
+    color: '#FFFFFF',
+    textAlign: 'center',
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xs,
+    borderRadius: RADIUS.sm,
+    overflow: 'hidden',
+  },
+});
+
+export const CaptionOverlay = memo(CaptionOverlayComponent);
+export default CaptionOverlay;
@@ -77,6 +77,8 @@ import {
 } from '@/utils/theme';
 import { Video } from '@/types';
 import { getBestThumbnailUrl, getPlaceholderImage } from '@/utils/thumbnail-utils';
+import { useVideoStore } from '@/store/VideoStore';
+import { savedProgress } from '@/utils/watchHistory';
 
 // ============================================================================
 // CONSTANTS
@@ -129,6 +131,9 @@ function EnhancedMiniPlayerComponent({
 }: EnhancedMiniPlayerProps): React.ReactElement {
   const { colors } = useTheme();
   const insets = useSafeAreaInsets();
+  // Until the player reports a position, show where the viewer left off
+  const resumeProgress = useVideoStore((s) => savedProgress(s.watchHistory, video.id));
+  const shownProgress = progress > 0 ? progress : resumeProgress;
 
   // Animation values
   const translateY = useSharedValue(MINI_PLAYER_HEIGHT + 100); // Start off screen
@@ -245,8 +250,8 @@ function EnhancedMiniPlayerComponent({
 
   // Update progress animation
   useEffect(() => {
-    progressWidth.value = withTiming(progress * 100, { duration: 100 });
-  }, [progress, progressWidth]);
+    progressWidth.value = withTiming(shownProgress * 100, { duration: 100 });
+  }, [shownProgress, progressWidth]);
 
   // ============================================================================
   // HANDLERS
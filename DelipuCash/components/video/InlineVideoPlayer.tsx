@@ -22,7 +22,7 @@
  * ```
  */
 
-import React, { memo, useState, useCallback, useEffect, useRef } from 'react';
+import React, { memo, useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import {
   View,
   Text,
@@ -67,6 +67,7 @@ import {
 } from '@/utils/theme';
 import { Video } from '@/types';
 import { getBestThumbnailUrl, getPlaceholderImage } from '@/utils/thumbnail-utils';
+import { useRenditionSwitch, useVideoRendition } from '@/hooks/useVideoRendition';
 
 // ============================================================================
 // CONSTANTS
@@ -164,7 +165,13 @@ function InlineVideoPlayerComponent({
   // VIDEO PLAYER
   // ============================================================================
   
-  const player = useVideoPlayer(video.videoUrl || null, (player) => {
+  // HLS rung / master / MP4 per network, data saver and the quality pick —
+  // swapped in place when that changes so the preview doesn't restart
+  const rendition = useVideoRendition(video);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const initialSource = useMemo(() => rendition.uri, [video.id, video.videoUrl]);
+
+  const player = useVideoPlayer(initialSource, (player) => {
     try {
       player.loop = true;
       player.muted = isMuted;
@@ -174,6 +181,8 @@ function InlineVideoPlayerComponent({
     }
   });
   
+  useRenditionSwitch(player, initialSource, rendition.uri);
+
   // ============================================================================
   // EFFECTS
   // ============================================================================
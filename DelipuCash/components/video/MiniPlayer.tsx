@@ -39,6 +39,8 @@ import {
 import { Video } from '@/types';
 import { ProgressBar } from '../ui/ProgressBar';
 import { getBestThumbnailUrl, getPlaceholderImage } from '@/utils/thumbnail-utils';
+import { useVideoStore } from '@/store/VideoStore';
+import { savedProgress } from '@/utils/watchHistory';
 
 /**
  * Props for the MiniPlayer component
@@ -73,6 +75,9 @@ function MiniPlayerComponent({
   testID,
 }: MiniPlayerProps): React.ReactElement {
   const { colors } = useTheme();
+  // Until the player reports a position, show where the viewer left off
+  const resumeProgress = useVideoStore((s) => savedProgress(s.watchHistory, video.id));
+  const shownProgress = progress > 0 ? progress : resumeProgress;
 
   // Thumbnail state with fallback handling
   const [thumbnailUrl, setThumbnailUrl] = useState<string | null>(video.thumbnail || null);
@@ -138,7 +143,7 @@ function MiniPlayerComponent({
         {/* Progress indicator */}
         <View style={[styles.progress, { backgroundColor: colors.border }]}>
           <ProgressBar
-            progress={progress}
+            progress={shownProgress}
             size="small"
             trackColor={colors.border}
             fillColor={colors.primary}
@@ -0,0 +1,204 @@
+/**
+ * PlaylistShelf — a creator's playlists and series as a horizontal row of cards
+ *
+ * Shown on the creator profile and, for the creator's own channel, on the
+ * profile tab with a "New" card. Tapping a card opens the playlist; renders
+ * nothing for viewers when the creator has no playlists.
+ *
+ * @module components/video/PlaylistShelf
+ */
+
+import React, { memo, useCallback } from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  Pressable,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import { Image as ExpoImage } from 'expo-image';
+import { router, type Href } from 'expo-router';
+import { ListVideo, Plus } from 'lucide-react-native';
+import * as Haptics from '@/utils/haptics';
+import { useCreatorPlaylists } from '@/services/videoHooks';
+import type { VideoPlaylist } from '@/types';
+import { getPlaceholderImage } from '@/utils/thumbnail-utils';
+import { playlistSubtitle } from '@/utils/playlists';
+import {
+  ICON_SIZE,
+  RADIUS,
+  SPACING,
+  TYPOGRAPHY,
+  useTheme,
+  withAlpha,
+} from '@/utils/theme';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PlaylistShelfProps {
+  /** Whose playlists to show */
+  userId: string;
+  /** The viewer owns them — also shows empty playlists and a "New" card */
+  isOwner?: boolean;
+  title?: string;
+  testID?: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const CARD_WIDTH = 160;
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+function PlaylistShelfComponent({
+  userId,
+  isOwner = false,
+  title = 'Playlists',
+  testID,
+}: PlaylistShelfProps): React.ReactElement | null {
+  const { colors } = useTheme();
+  const { data: playlists, isLoading } = useCreatorPlaylists(userId);
+
+  const handleOpen = useCallback((playlist: VideoPlaylist) => {
+    Haptics.selectionAsync();
+    router.push(`/playlist/${playlist.id}` as Href);
+  }, []);
+
+  const handleCreate = useCallback(() => {
+    Haptics.selectionAsync();
+    router.push('/playlist/new' as Href);
+  }, []);
+
+  if (isLoading) {
+    return <ActivityIndicator style={styles.loading} color={colors.primary} />;
+  }
+  if (!isOwner && !playlists?.length) return null;
+
+  const renderItem = ({ item }: { item: VideoPlaylist }) => (
+    <Pressable
+      style={({ pressed }) => [styles.card, pressed && { opacity: 0.7 }]}
+      onPress={() => handleOpen(item)}
+      accessibilityRole="button"
+      accessibilityLabel={`${item.title}, ${playlistSubtitle(item)}`}
+    >
+      <View style={[styles.cover, { backgroundColor: colors.card }]}>
+        <ExpoImage
+          source={{ uri: item.thumbnail || getPlaceholderImage('video') }}
+          style={StyleSheet.absoluteFill}
+          contentFit="cover"
+          cachePolicy="memory-disk"
+          recyclingKey={item.id}
+        />
+        <View style={[styles.countBadge, { backgroundColor: withAlpha('#000000', 0.7) }]}>
+          <ListVideo color="#FFFFFF" size={ICON_SIZE.xs} />
+          <Text style={styles.countText}>{item.itemCount}</Text>
+        </View>
+      </View>
+      <Text style={[styles.cardTitle, { color: colors.text }]} numberOfLines={2}>
+        {item.title}
+      </Text>
+      <Text style={[styles.cardMeta, { color: colors.textSecondary }]} numberOfLines={1}>
+        {playlistSubtitle(item)}
+      </Text>
+    </Pressable>
+  );
+
+  return (
+    <View style={styles.container} testID={testID}>
+      <Text style={[styles.title, { color: colors.text }]} accessibilityRole="header">
+        {title}
+      </Text>
+      <FlatList
+        horizontal
+        data={playlists ?? []}
+        keyExtractor={(item) => item.id}
+        renderItem={renderItem}
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.row}
+        ListHeaderComponent={isOwner ? (
+          <Pressable
+            style={({ pressed }) => [styles.card, pressed && { opacity: 0.7 }]}
+            onPress={handleCreate}
+            accessibilityRole="button"
+            accessibilityLabel="New playlist or series"
+          >
+            <View style={[styles.cover, styles.newCover, { borderColor: colors.border }]}>
+              <Plus color={colors.primary} size={ICON_SIZE.xl} />
+            </View>
+            <Text style={[styles.cardTitle, { color: colors.text }]}>New</Text>
+            <Text style={[styles.cardMeta, { color: colors.textSecondary }]}>Playlist or series</Text>
+          </Pressable>
+        ) : null}
+      />
+    </View>
+  );
+}
+
+export const PlaylistShelf = memo(PlaylistShelfComponent);
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    gap: SPACING.sm,
+  },
+  loading: {
+    paddingVertical: SPACING.lg,
+  },
+  title: {
+    fontFamily: TYPOGRAPHY.fontFamily.bold,
+    fontSize: TYPOGRAPHY.fontSize.base,
+  },
+  row: {
+    gap: SPACING.md,
+  },
+  card: {
+    width: CARD_WIDTH,
+    gap: SPACING.xxs,
+  },
+  cover: {
+    width: CARD_WIDTH,
+    aspectRatio: 16 / 9,
+    borderRadius: RADIUS.md,
+    overflow: 'hidden',
+    marginBottom: SPACING.xxs,
+  },
+  newCover: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderStyle: 'dashed',
+  },
+  countBadge: {
+    position: 'absolute',
+    right: SPACING.xs,
+    bottom: SPACING.xs,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.xxs,
+    paddingHorizontal: SPACING.xs,
+    borderRadius: RADIUS.sm,
+  },
+  countText: {
+    color: '#FFFFFF',
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  cardTitle: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  cardMeta: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+});
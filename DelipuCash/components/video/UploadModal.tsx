@@ -24,6 +24,7 @@ import {
   Platform,
   Alert,
   Image,
+  Switch,
 } from 'react-native';
 import {
   X,
@@ -32,6 +33,7 @@ import {
   AlertTriangle,
   Crown,
   CheckCircle,
+  Captions,
 } from 'lucide-react-native';
 import * as Haptics from '@/utils/haptics';
 import * as DocumentPicker from 'expo-document-picker';
@@ -67,6 +69,13 @@ import {
   useUploadMediaToR2,
   useValidateR2Upload,
 } from '@/services/r2UploadHooks';
+import {
+  MULTIPART_THRESHOLD_BYTES,
+  abortMultipartUpload,
+  type MultipartUploadSession,
+} from '@/services/r2UploadService';
+import { useUploadCaption, useRequestAutoCaptions } from '@/services/videoHooks';
+import { CAPTION_LANGUAGES } from '@/utils/captions';
 
 /**
  * Selected file info
@@ -87,6 +96,15 @@ interface SelectedThumbnail {
   type: string;
 }
 
+/**
+ * Selected caption file (.vtt / .srt)
+ */
+interface SelectedCaptionFile {
+  uri: string;
+  name: string;
+  mimeType?: string;
+}
+
 const NON_RETRYABLE_UPLOAD_ERROR_PATTERNS = [
   'validation',
   'authentication',
@@ -163,6 +181,7 @@ function UploadModalComponent({
   const {
     mutateAsync: uploadVideoOnly,
     progress: videoProgress,
+    uploadedBytes: videoUploadedBytes,
     isUploading: isUploadingVideo,
     isProcessing: isProcessingVideo,
   } = useUploadVideoToR2();
@@ -170,6 +189,7 @@ function UploadModalComponent({
   const {
     mutateAsync: uploadMedia,
     progress: mediaProgress,
+    uploadedBytes: mediaUploadedBytes,
     isUploading: isUploadingMedia,
     isProcessing: isProcessingMedia,
   } = useUploadMediaToR2();
@@ -180,6 +200,7 @@ function UploadModalComponent({
   const isUploading = isUploadingVideo || isUploadingMedia;
   const isProcessing = isProcessingVideo || isProcessingMedia;
   const uploadProgress = isUploadingMedia ? mediaProgress : videoProgress;
+  const uploadedBytes = (isUploadingMedia ? mediaUploadedBytes : videoUploadedBytes) ?? 0;
 
   // Upload phase for UI feedback
   const [uploadPhase, setUploadPhase] = useState<'idle' | 'uploading' | 'processing'>('idle');
@@ -213,6 +234,12 @@ function UploadModalComponent({
   const [isGeneratingThumbnail, setIsGeneratingThumbnail] = useState(false);
   const [thumbnailGenFailed, setThumbnailGenFailed] = useState(false);
   const [fileSizeError, setFileSizeError] = useState<string | null>(null);
+  // Captions — attached or requested once the video exists (best effort)
+  const [captionFile, setCaptionFile] = useState<SelectedCaptionFile | null>(null);
+  const [captionLanguage, setCaptionLanguage] = useState('en');
+  const [autoCaptions, setAutoCaptions] = useState(false);
+  const uploadCaption = useUploadCaption();
+  const requestAutoCaptions = useRequestAutoCaptions();
 
   // Auto-generate thumbnail when video is selected (if user hasn't picked one manually)
   useEffect(() => {
@@ -265,6 +292,10 @@ function UploadModalComponent({
   // rapid taps could both pass validation and spawn concurrent uploads.
   const uploadInFlightRef = useRef(false);
 
+  // Queue entry of a large (multipart) upload — kept across Retry taps so
+  // each attempt resumes from the parts already confirmed.
+  const pendingUploadIdRef = useRef<string | null>(null);
+
   // Abort any in-flight upload if the modal unmounts (and drop the reference
   // so the controller doesn't outlive the component).
   useEffect(() => {
@@ -279,7 +310,7 @@ function UploadModalComponent({
     // stops consuming bandwidth and cannot finalize after cancellation.
     abortControllerRef.current?.abort();
     abortControllerRef.current = null;
-    abortControllerRef.current = null;
+    pendingUploadIdRef.current = null;
     setTitle('');
     setDescription('');
     setSelectedFile(null);
@@ -288,6 +319,9 @@ function UploadModalComponent({
     setIsGeneratingThumbnail(false);
     setThumbnailGenFailed(false);
     setFileSizeError(null);
+    setCaptionFile(null);
+    setCaptionLanguage('en');
+    setAutoCaptions(false);
     if (storeCurrentUpload) {
       cancelUpload(storeCurrentUpload.fileId);
     }
@@ -342,6 +376,7 @@ function UploadModalComponent({
       }
 
       setFileSizeError(null);
+      pendingUploadIdRef.current = null;
       setSelectedFile({ uri: file.uri, name: fileName, size: fileSize, type: mimeType });
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     } catch {
@@ -377,6 +412,48 @@ function UploadModalComponent({
     setSelectedThumbnail(null);
   }, []);
 
+  // ── Caption file picker ────────────────────────────────────────────────────
+  const handleSelectCaptionFile = useCallback(async () => {
+    try {
+      // Caption MIME types are unreliable across platforms — accept any file
+      // and check the extension (the server parses and validates the cues)
+      const result = await DocumentPicker.getDocumentAsync({ type: '*/*', copyToCacheDirectory: true });
+      if (result.canceled || !result.assets?.[0]) return;
+
+      const file = result.assets[0];
+      if (!/\.(vtt|srt)$/i.test(file.name || '')) {
+        Alert.alert('Unsupported File', 'Choose a WebVTT (.vtt) or SubRip (.srt) caption file.');
+        return;
+      }
+      setCaptionFile({ uri: file.uri, name: file.name, mimeType: file.mimeType });
+      setAutoCaptions(false);
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    } catch {
+      Alert.alert('Error', 'Failed to select caption file. Please try again.');
+    }
+  }, []);
+
+  /**
+   * Attach the chosen captions to the new video. Runs after the modal closes —
+   * the video is already published, so a failure only costs a toast (the
+   * creator can retry from the caption editor).
+   */
+  const attachCaptions = useCallback((videoId: string) => {
+    if (!videoId) return;
+    const onError = (error: Error) =>
+      showToast({ message: `Video published, but captions failed: ${error.message}`, type: 'warning' });
+
+    // mutateAsync, not mutate — per-call callbacks are dropped if the modal unmounts
+    if (captionFile) {
+      uploadCaption.mutateAsync({ videoId, file: captionFile, language: captionLanguage }).catch(onError);
+    } else if (autoCaptions) {
+      requestAutoCaptions
+        .mutateAsync({ videoId, language: captionLanguage })
+        .then(() => showToast({ message: 'Captions are being generated.', type: 'info' }))
+        .catch(onError);
+    }
+  }, [captionFile, captionLanguage, autoCaptions, uploadCaption, requestAutoCaptions, showToast]);
+
   // Navigate to subscription screen for upgrade
   const handleUpgrade = useCallback(() => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
@@ -442,6 +519,37 @@ function UploadModalComponent({
     }
 
     uploadInFlightRef.current = true;
+
+    // Large videos go up in resumable parts. Their queue entry exists from the
+    // start, so a crash or dropped connection resumes from the last confirmed
+    // part — here on Retry, or via useUploadQueueProcessor on reconnect/relaunch.
+    const videoStore = useVideoStore.getState();
+    let pendingId = pendingUploadIdRef.current;
+    if (pendingId && !videoStore.pendingUploads.some((u) => u.id === pendingId)) {
+      pendingId = null;
+    }
+    if (!pendingId && selectedFile.size >= MULTIPART_THRESHOLD_BYTES) {
+      pendingId = videoStore.enqueuePendingUpload({
+        videoUri: selectedFile.uri,
+        thumbnailUri: effectiveThumbnail?.uri,
+        title: title.trim(),
+        description: description.trim(),
+        duration: 0,
+        userId,
+        fileName: selectedFile.name,
+        mimeType: selectedFile.type,
+        fileSize: selectedFile.size,
+      });
+    }
+    pendingUploadIdRef.current = pendingId;
+    const resumableId = pendingId;
+    if (resumableId && !videoStore.claimPendingUpload(resumableId)) {
+      uploadInFlightRef.current = false;
+      showToast({ message: 'This upload is already resuming in the background.', type: 'info' });
+      onClose();
+      return;
+    }
+
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
     setUploadPhase('uploading');
 
@@ -453,6 +561,7 @@ function UploadModalComponent({
     });
     if (!upload?.fileId) {
       uploadInFlightRef.current = false;
+      if (resumableId) useVideoStore.getState().releasePendingUpload(resumableId);
       const uploadError = useVideoStore.getState().lastError || 'Unable to start upload';
       Alert.alert('Upload Error', uploadError);
       return;
@@ -470,33 +579,39 @@ function UploadModalComponent({
         error: undefined,
       });
 
+      const videoParams = {
+        videoUri: selectedFile.uri,
+        userId,
+        title: title.trim(),
+        description: description.trim(),
+        fileName: selectedFile.name,
+        mimeType: selectedFile.type,
+        fileSize: selectedFile.size,
+        multipartSession: resumableId
+          ? useVideoStore.getState().pendingUploads.find((u) => u.id === resumableId)?.multipart
+          : undefined,
+        onMultipartSession: resumableId
+          ? (session: MultipartUploadSession) =>
+              useVideoStore.getState().updatePendingUpload(resumableId, { multipart: session })
+          : undefined,
+        signal: abortController.signal,
+      };
+
       // Single call — hook internally does: presign → R2 upload → finalize
       // Thumbnail is included when available; hook uploads it via presigned URL first
       const result = effectiveThumbnail
         ? await uploadMedia({
-            videoUri: selectedFile.uri,
-            userId,
-            title: title.trim(),
-            description: description.trim(),
-            fileName: selectedFile.name,
-            mimeType: selectedFile.type,
+            ...videoParams,
             thumbnailUri: effectiveThumbnail.uri,
             thumbnailFileName: effectiveThumbnail.name,
             thumbnailMimeType: effectiveThumbnail.type,
-            signal: abortController.signal,
           })
-        : await uploadVideoOnly({
-            videoUri: selectedFile.uri,
-            userId,
-            title: title.trim(),
-            description: description.trim(),
-            fileName: selectedFile.name,
-            mimeType: selectedFile.type,
-            signal: abortController.signal,
-          });
+        : await uploadVideoOnly(videoParams);
 
       // Success — sync store, reset form, notify parent
       abortControllerRef.current = null;
+      if (resumableId) useVideoStore.getState().removePendingUpload(resumableId);
+      pendingUploadIdRef.current = null;
       if (fileId) completeUpload(fileId, result.data?.videoUrl || '');
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       const videoId = result.data?.id || '';
@@ -506,6 +621,9 @@ function UploadModalComponent({
       setSelectedFile(null);
       setSelectedThumbnail(null);
       setFileSizeError(null);
+      attachCaptions(videoId);
+      setCaptionFile(null);
+      setAutoCaptions(false);
       onUploadComplete?.(videoId);
       onClose();
     } catch (err) {
@@ -518,6 +636,9 @@ function UploadModalComponent({
       if (wasCancelled) {
         setUploadPhase('idle');
         if (fileId) failUpload(fileId, 'Cancelled by user');
+        // The service already aborted the multipart upload on R2
+        if (resumableId) useVideoStore.getState().removePendingUpload(resumableId);
+        pendingUploadIdRef.current = null;
         return;
       }
 
@@ -527,15 +648,21 @@ function UploadModalComponent({
       const finalizePayload = (error as Error & { finalizePayload?: Record<string, unknown> })
         .finalizePayload;
       if (finalizePayload && userId && selectedFile) {
-        useVideoStore.getState().enqueuePendingUpload({
-          videoUri: selectedFile.uri,
-          thumbnailUri: effectiveThumbnail?.uri,
-          title: title.trim(),
-          description: description.trim(),
-          duration: Number(finalizePayload.duration) || 0,
-          userId,
-          finalizePayload,
-        });
+        if (resumableId) {
+          useVideoStore.getState().updatePendingUpload(resumableId, { finalizePayload, multipart: undefined });
+          useVideoStore.getState().releasePendingUpload(resumableId);
+        } else {
+          useVideoStore.getState().enqueuePendingUpload({
+            videoUri: selectedFile.uri,
+            thumbnailUri: effectiveThumbnail?.uri,
+            title: title.trim(),
+            description: description.trim(),
+            duration: Number(finalizePayload.duration) || 0,
+            userId,
+            finalizePayload,
+          });
+        }
+        pendingUploadIdRef.current = null;
         if (fileId) completeUpload(fileId, String(finalizePayload.videoUrl || ''));
         setUploadPhase('idle');
         setTitle('');
@@ -580,6 +707,26 @@ function UploadModalComponent({
         ];
       }
 
+      // Multipart: transient failures keep the confirmed parts queued for
+      // resume (Retry here, or automatically on reconnect); anything else
+      // (rejected file, expired session the server refused) starts over.
+      if (resumableId) {
+        const pending = useVideoStore
+          .getState()
+          .pendingUploads.find((u) => u.id === resumableId);
+        const sentBytes = pending?.multipart?.parts.reduce((sum, part) => sum + part.size, 0) ?? 0;
+        if (actions.some((action) => action.text === 'Retry')) {
+          useVideoStore.getState().releasePendingUpload(resumableId);
+          if (sentBytes > 0) {
+            userMessage = `Upload paused at ${formatFileSize(sentBytes)} of ${formatFileSize(selectedFile.size)}. It will resume from there automatically when you're back online, or tap Retry.`;
+          }
+        } else {
+          if (pending?.multipart) abortMultipartUpload(pending.multipart);
+          useVideoStore.getState().removePendingUpload(resumableId);
+          pendingUploadIdRef.current = null;
+        }
+      }
+
       Alert.alert('Upload Failed', userMessage, actions);
     } finally {
       uploadInFlightRef.current = false;
@@ -587,7 +734,7 @@ function UploadModalComponent({
   }, [
     title, description, selectedFile, effectiveThumbnail, userId,
     uploadVideoOnly, uploadMedia, startUpload, completeUpload, failUpload,
-    onUploadComplete, onClose, showToast,
+    onUploadComplete, onClose, showToast, attachCaptions,
   ]);
 
   const isValid = title.trim().length > 0 && selectedFile !== null && !fileSizeError;
@@ -627,21 +774,17 @@ function UploadModalComponent({
     const diff = uploadProgress - lastSyncedProgressRef.current;
     if (diff >= 1 || uploadProgress === 100 || uploadProgress === 0) {
       lastSyncedProgressRef.current = uploadProgress;
-      const currentUpload = useVideoStore.getState().currentUpload;
-      const fileSize =
-        currentUpload && currentUpload.fileId === fid
-          ? currentUpload.fileSize
-          : 0;
       const clampedProgress = Math.min(Math.max(uploadProgress, 0), 100);
-      const uploadedBytes = Math.round((clampedProgress / 100) * fileSize);
 
+      // Bytes straight from the upload — on a resumed multipart upload they
+      // include the parts confirmed by earlier attempts
       useVideoStore.getState().updateUploadProgress(fid, {
         progress: clampedProgress,
         uploadedBytes,
         status: clampedProgress >= 100 ? 'processing' : 'uploading',
       });
     }
-  }, [uploadProgress, isUploading, isProcessing]);
+  }, [uploadProgress, uploadedBytes, isUploading, isProcessing]);
 
   return (
     <Modal
@@ -961,6 +1104,87 @@ function UploadModalComponent({
             </Text>
           </View>
 
+          {/* Captions — file or auto-generated, in the spoken language */}
+          <View style={styles.inputGroup}>
+            <Text style={[styles.inputLabel, { color: colors.text }]}>
+              Captions
+            </Text>
+            <View style={styles.languageChips} accessibilityRole="radiogroup">
+              {CAPTION_LANGUAGES.map(({ code, name }) => {
+                const selected = captionLanguage === code;
+                return (
+                  <TouchableOpacity
+                    key={code}
+                    style={[
+                      styles.languageChip,
+                      {
+                        borderColor: selected ? colors.primary : colors.border,
+                        backgroundColor: selected ? withAlpha(colors.primary, 0.1) : 'transparent',
+                      },
+                    ]}
+                    onPress={() => setCaptionLanguage(code)}
+                    disabled={isUploading}
+                    accessibilityRole="radio"
+                    accessibilityState={{ checked: selected }}
+                    accessibilityLabel={`Captions in ${name}`}
+                  >
+                    <Text style={[styles.languageChipText, { color: selected ? colors.primary : colors.textMuted }]}>
+                      {name}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <TouchableOpacity
+              style={[
+                styles.thumbnailSelector,
+                {
+                  borderColor: captionFile ? colors.success : colors.border,
+                  backgroundColor: captionFile ? withAlpha(colors.success, 0.05) : withAlpha(colors.card, 0.5),
+                },
+              ]}
+              onPress={captionFile ? () => setCaptionFile(null) : handleSelectCaptionFile}
+              disabled={isUploading}
+              accessibilityLabel={captionFile ? `Remove caption file ${captionFile.name}` : 'Attach caption file'}
+              accessibilityRole="button"
+            >
+              <View style={styles.thumbnailPlaceholder}>
+                <Captions size={20} color={captionFile ? colors.success : colors.textMuted} strokeWidth={1.5} />
+                <Text
+                  style={[styles.thumbnailPlaceholderText, { color: captionFile ? colors.text : colors.textMuted }]}
+                  numberOfLines={1}
+                >
+                  {captionFile ? captionFile.name : 'Attach a .vtt or .srt file (optional)'}
+                </Text>
+                {captionFile && (
+                  <Text style={[styles.thumbnailRemove, { color: colors.error }]}>Remove</Text>
+                )}
+              </View>
+            </TouchableOpacity>
+            <View style={styles.switchRow}>
+              <View style={styles.switchText}>
+                <Text style={[styles.switchLabel, { color: captionFile ? colors.textMuted : colors.text }]}>
+                  Auto-generate captions
+                </Text>
+                <Text style={[styles.charCount, styles.switchHint, { color: colors.textMuted }]}>
+                  {captionFile
+                    ? 'Using your caption file instead'
+                    : 'Transcribed after upload — review them in the caption editor'}
+                </Text>
+              </View>
+              <Switch
+                value={autoCaptions && !captionFile}
+                onValueChange={setAutoCaptions}
+                disabled={isUploading || captionFile !== null}
+                trackColor={{ false: colors.border, true: withAlpha(colors.primary, 0.4) }}
+                thumbColor={autoCaptions && !captionFile ? colors.primary : colors.textMuted}
+                accessibilityLabel="Auto-generate captions"
+                accessibilityRole="switch"
+                accessibilityState={{ checked: autoCaptions && !captionFile, disabled: isUploading || captionFile !== null }}
+              />
+            </View>
+          </View>
+
           {/* Tips section */}
           <View style={[styles.tipsSection, { backgroundColor: withAlpha(colors.info, 0.1) }]}>
             <Text style={[styles.tipsTitle, { color: colors.info }]}>
@@ -1119,6 +1343,38 @@ const styles = StyleSheet.create({
     fontSize: TYPOGRAPHY.fontSize.base,
     minHeight: 100,
   },
+  languageChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.xs,
+    marginBottom: SPACING.sm,
+  },
+  languageChip: {
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xs,
+    borderRadius: RADIUS.full,
+    borderWidth: 1,
+  },
+  languageChipText: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.md,
+    marginTop: SPACING.sm,
+  },
+  switchText: {
+    flex: 1,
+  },
+  switchLabel: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.base,
+  },
+  switchHint: {
+    textAlign: 'left',
+  },
   charCount: {
     fontFamily: TYPOGRAPHY.fontFamily.regular,
     fontSize: TYPOGRAPHY.fontSize.xs,
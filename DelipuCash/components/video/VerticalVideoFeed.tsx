@@ -55,7 +55,7 @@ import {
   SPACING,
   TYPOGRAPHY,
 } from '@/utils/theme';
-import { Video } from '@/types';
+import { Video, TrafficSource } from '@/types';
 import {
   useVideoFeedStore,
   selectIsPlaybackAllowed,
@@ -147,6 +147,8 @@ export interface VerticalVideoFeedProps {
   emptyTitle?: string;
   /** Custom empty state subtitle (per-tab differentiation) */
   emptySubtitle?: string;
+  /** Feed these videos are shown in — tagged on impressions for creator analytics */
+  trafficSource?: TrafficSource;
   /** Test ID for testing */
   testID?: string;
   /** Callback when FlatList scrolls (for scroll-based animations) */
@@ -181,6 +183,7 @@ function VerticalVideoFeedComponent({
   headerHeight,
   emptyTitle,
   emptySubtitle,
+  trafficSource,
   testID,
   onScroll,
 }: VerticalVideoFeedProps): React.ReactElement {
@@ -444,7 +447,9 @@ function VerticalVideoFeedComponent({
         onAdFeedback={onAdFeedback}
         screenReaderEnabled={screenReaderEnabled}
         isDataSaver={isDataSaver}
+        cellularTrim={cellularTrim}
         bottomInset={bottomInset}
+        trafficSource={trafficSource}
         testID={`video-feed-item-${index}`}
       />
     ),
@@ -467,6 +472,7 @@ function VerticalVideoFeedComponent({
       screenReaderEnabled,
       isDataSaver,
       bottomInset,
+      trafficSource,
     ]
   );
 
@@ -4,7 +4,7 @@
  *
  * 2026 Standards Applied:
  * 1. Pinned Comments — Creator-pinned comment with visual distinction
- * 2. Creator Hearts — Special heart icon for creator-liked comments
+ * 2. Threaded Replies — Two levels deep, indented; "View N replies" loads the rest
  * 3. Contextual Haptics — Action-specific feedback (Soft/Medium/Rigid/Success)
  * 4. WCAG 2.2 AAA — 48px touch targets, live regions, semantic roles, accessibilityViewIsModal
  * 5. Enhanced Gesture Dismiss — Velocity-aware sheet dismissal
@@ -13,6 +13,10 @@
  * 8. Engagement Counts — Formatted counts with animation
  * 9. No double-state — single source of truth via props + React Query
  * 10. Character counter — visible progress toward limit
+ * 11. Emoji Reactions — Optimistic reaction bar shared with live updates
+ * 12. @Mentions — Autocomplete from followed creators, highlighted in the text
+ * 13. Creator Tools — Pin/hide, review queue for held comments, keyword filter
+ *     and hold-for-review settings (only for the video's creator)
  *
  * @module components/video/VideoCommentsSheet
  */
@@ -32,6 +36,7 @@ import {
   Image,
   Alert,
   RefreshControl,
+  Switch,
 } from 'react-native';
 import Animated, {
   useSharedValue,
@@ -47,10 +52,17 @@ import {
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import {
   X,
-  Heart,
   Send,
   MessageCircle,
   BadgeCheck,
+  SmilePlus,
+  MoreHorizontal,
+  Pin,
+  Clock,
+  EyeOff,
+  Check,
+  Settings,
+  ShieldCheck,
 } from 'lucide-react-native';
 import * as Haptics from '@/utils/haptics';
 import {
@@ -64,7 +76,34 @@ import {
   COMPONENT_SIZE,
   withAlpha,
 } from '@/utils/theme';
-import { Comment } from '@/types';
+import {
+  COMMENT_REACTIONS,
+  type Comment,
+  type CommentMention,
+  type CommentModerationAction,
+  type CommentReaction,
+  type FollowedCreator,
+} from '@/types';
+import {
+  useCommentThreads,
+  useReactToComment,
+  useModerateComment,
+  useHeldComments,
+  useCommentSettings,
+  useUpdateCommentSettings,
+  useFollowingCreators,
+} from '@/services/videoHooks';
+import {
+  buildCommentRows,
+  activeMentionQuery,
+  filterMentionSuggestions,
+  insertMention,
+  shiftMentions,
+  mentionSegments,
+  creatorName,
+  type CommentRow,
+} from '@/utils/commentThreads';
+import { ReportContentModal } from '@/components/ReportContentModal';
 
 // ============================================================================
 // CONSTANTS
@@ -72,17 +111,33 @@ import { Comment } from '@/types';
 
 const DRAG_THRESHOLD = 100;
 const AVATAR_SIZE = 36;
+const REPLY_AVATAR_SIZE = 28;
+const REPLY_INDENT = 40;
 const MAX_COMMENT_LENGTH = 500;
+const MAX_KEYWORD_LENGTH = 40;
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
+export interface AddCommentOptions {
+  /** The comment being replied to — the reply lands in its thread */
+  replyTo?: Comment | null;
+  /** @mention spans of the text */
+  mentions?: CommentMention[];
+}
+
+type SheetView = 'comments' | 'held' | 'settings';
+
 export interface VideoCommentsSheetProps {
   /** Whether the sheet is visible */
   visible: boolean;
   /** Video ID to load comments for */
   videoId: string;
+  /** The video's creator — gets the moderation tools and the creator badge */
+  videoOwnerId?: string;
+  /** Signed-in viewer (mention suggestions come from who they follow) */
+  currentUserId?: string;
   /** Comments data from React Query (single source of truth) */
   comments?: Comment[];
   /** Total comment count from server pagination */
@@ -91,12 +146,8 @@ export interface VideoCommentsSheetProps {
   isLoading?: boolean;
   /** Close handler */
   onClose: () => void;
-  /** Add comment handler */
-  onAddComment?: (text: string) => Promise<void>;
-  /** Like comment handler */
-  onLikeComment?: (commentId: string) => void;
-  /** Reply to comment handler */
-  onReplyComment?: (commentId: string, text: string) => Promise<void>;
+  /** Add comment (or reply) handler */
+  onAddComment?: (text: string, options?: AddCommentOptions) => Promise<void>;
   /** Load more comments (pagination) */
   onLoadMore?: () => void;
   /** Whether more comments are available */
@@ -145,49 +196,115 @@ const getCommentAuthorInitial = (comment: Comment): string => {
   return name.charAt(0).toUpperCase() || 'U';
 };
 
+/** Optimistic comments have no server id yet — nothing can reply to or react to them */
+const isPendingComment = (comment: Comment): boolean => comment.id.startsWith('temp_');
+
+// ============================================================================
+// COMMENT TEXT — mentions highlighted
+// ============================================================================
+
+const CommentText = memo(({ comment }: { comment: Comment }) => {
+  const { colors } = useTheme();
+  const segments = mentionSegments(comment.text, comment.mentions);
+
+  return (
+    <Text style={[styles.commentText, { color: colors.text }]} accessibilityRole="text">
+      {segments.map((segment, idx) =>
+        segment.userId ? (
+          <Text key={idx} style={[styles.mentionText, { color: colors.primary }]}>
+            {segment.text}
+          </Text>
+        ) : (
+          segment.text
+        ),
+      )}
+    </Text>
+  );
+});
+
+CommentText.displayName = 'CommentText';
+
 // ============================================================================
 // COMMENT ITEM — stable callbacks via ID-based pattern
 // ============================================================================
 
 interface CommentItemProps {
   comment: Comment;
-  onLike: (commentId: string) => void;
-  onReply: (commentId: string) => void;
-  isLiked: boolean;
+  depth: number;
+  /** Written by the video's creator */
+  isCreatorComment: boolean;
+  /** Viewer is the video's creator */
+  canModerate: boolean;
+  /** Viewer is signed in and didn't write it */
+  canReport: boolean;
+  onReact: (comment: Comment, emoji: CommentReaction) => void;
+  onReply: (comment: Comment) => void;
+  onManage: (comment: Comment) => void;
+  onReport: (comment: Comment) => void;
 }
 
-const CommentItem = memo(({ comment, onLike, onReply, isLiked }: CommentItemProps) => {
+const CommentItem = memo(({
+  comment,
+  depth,
+  isCreatorComment,
+  canModerate,
+  canReport,
+  onReact,
+  onReply,
+  onManage,
+  onReport,
+}: CommentItemProps) => {
   const { colors } = useTheme();
-  const likeScale = useSharedValue(1);
-
-  // `likedComments` is a session-local toggle seeded empty, so the displayed
-  // count must layer the local like over the server base to stay consistent with
-  // the filled/outline heart (otherwise the heart fills but the number never moves).
-  const displayLikes = (comment.likes || 0) + (isLiked ? 1 : 0);
-
-  const handleLike = useCallback(() => {
-    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-    likeScale.value = withSpring(1.3, { damping: 6, stiffness: 400 }, () => {
-      likeScale.value = withSpring(1);
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const pickerScale = useSharedValue(1);
+
+  const isPending = isPendingComment(comment);
+  const avatarSize = depth > 0 ? REPLY_AVATAR_SIZE : AVATAR_SIZE;
+  const myReactions = comment.myReactions ?? [];
+  const reactionChips = COMMENT_REACTIONS.filter((emoji) => (comment.reactions?.[emoji] ?? 0) > 0);
+
+  const handleReact = useCallback((emoji: CommentReaction) => {
+    setPickerOpen(false);
+    onReact(comment, emoji);
+  }, [onReact, comment]);
+
+  const handleTogglePicker = useCallback(() => {
+    Haptics.selectionAsync();
+    pickerScale.value = withSpring(1.2, { damping: 6, stiffness: 400 }, () => {
+      pickerScale.value = withSpring(1);
     });
-    onLike(comment.id);
-  }, [onLike, comment.id, likeScale]);
+    setPickerOpen((open) => !open);
+  }, [pickerScale]);
 
   const handleReply = useCallback(() => {
-    onReply(comment.id);
-  }, [onReply, comment.id]);
+    onReply(comment);
+  }, [onReply, comment]);
 
-  const likeStyle = useAnimatedStyle(() => ({
-    transform: [{ scale: likeScale.value }],
+  // The creator manages comments on their video; anyone else can report one
+  const handleManage = useCallback(() => {
+    if (canModerate) onManage(comment);
+    else onReport(comment);
+  }, [canModerate, onManage, onReport, comment]);
+
+  const pickerStyle = useAnimatedStyle(() => ({
+    transform: [{ scale: pickerScale.value }],
   }));
 
   return (
-    <View style={styles.commentItem} accessibilityRole="text">
-      <View style={[styles.avatar, { backgroundColor: colors.border }]}>
+    <View
+      style={[styles.commentItem, { marginLeft: depth * REPLY_INDENT }]}
+      accessibilityRole="text"
+    >
+      <View
+        style={[
+          styles.avatar,
+          { width: avatarSize, height: avatarSize, borderRadius: avatarSize / 2, backgroundColor: colors.border },
+        ]}
+      >
         {comment.user?.avatar ? (
           <Image
             source={{ uri: comment.user.avatar }}
-            style={styles.avatarImage}
+            style={[styles.avatarImage, { borderRadius: avatarSize / 2 }]}
             resizeMode="cover"
             accessibilityLabel={`${getCommentAuthorName(comment)}'s avatar`}
           />
@@ -199,59 +316,133 @@ const CommentItem = memo(({ comment, onLike, onReply, isLiked }: CommentItemProp
       </View>
 
       <View style={styles.commentContent}>
+        {comment.isPinned && (
+          <View style={styles.commentBadge}>
+            <Pin size={12} color={colors.textMuted} />
+            <Text style={[styles.commentBadgeText, { color: colors.textMuted }]}>Pinned by creator</Text>
+          </View>
+        )}
+        {comment.status === 'held' && (
+          <View style={styles.commentBadge}>
+            <Clock size={12} color={colors.warning} />
+            <Text style={[styles.commentBadgeText, { color: colors.warning }]}>
+              Waiting for the creator&apos;s review
+            </Text>
+          </View>
+        )}
+        {comment.status === 'hidden' && (
+          <View style={styles.commentBadge}>
+            <EyeOff size={12} color={colors.textMuted} />
+            <Text style={[styles.commentBadgeText, { color: colors.textMuted }]}>
+              Hidden by the creator — only you can see it
+            </Text>
+          </View>
+        )}
+
         <View style={styles.commentHeader}>
           <View style={styles.commentAuthorRow}>
             <Text style={[styles.commentAuthor, { color: colors.text }]}>
               {getCommentAuthorName(comment)}
             </Text>
-            {comment.userId === 'creator' && (
+            {isCreatorComment && (
               <BadgeCheck size={14} color={colors.primary} strokeWidth={2.5} />
             )}
           </View>
-          <Text style={[styles.commentTime, { color: colors.textMuted }]}>
-            {formatTimeAgo(comment.createdAt)}
-          </Text>
+          <View style={styles.commentAuthorRow}>
+            <Text style={[styles.commentTime, { color: colors.textMuted }]}>
+              {isPending ? 'Posting…' : formatTimeAgo(comment.createdAt)}
+            </Text>
+            {(canModerate || canReport) && !isPending && (
+              <Pressable
+                onPress={handleManage}
+                style={styles.commentMenuButton}
+                accessibilityRole="button"
+                accessibilityLabel={canModerate ? 'Manage comment' : 'Report comment'}
+                hitSlop={8}
+              >
+                <MoreHorizontal size={16} color={colors.textMuted} />
+              </Pressable>
+            )}
+          </View>
         </View>
 
-        <Text
-          style={[styles.commentText, { color: colors.text }]}
-          accessibilityRole="text"
-        >
-          {comment.text}
-        </Text>
+        <CommentText comment={comment} />
 
-        <View style={styles.commentActions}>
-          <Pressable
-            onPress={handleLike}
-            style={styles.commentAction}
-            accessibilityRole="button"
-            accessibilityLabel={`${isLiked ? 'Unlike' : 'Like'} comment. ${displayLikes} likes`}
-            accessibilityState={{ selected: isLiked }}
-          >
-            <Animated.View style={likeStyle}>
-              <Heart
-                size={16}
-                color={isLiked ? colors.error : colors.textMuted}
-                fill={isLiked ? colors.error : 'transparent'}
-              />
-            </Animated.View>
-            <Text style={[styles.commentActionText, { color: colors.textMuted }]}>
-              {displayLikes}
-            </Text>
-          </Pressable>
+        {!isPending && (
+          <View style={styles.commentActions}>
+            {reactionChips.map((emoji) => {
+              const selected = myReactions.includes(emoji);
+              return (
+                <Pressable
+                  key={emoji}
+                  onPress={() => handleReact(emoji)}
+                  style={[
+                    styles.reactionChip,
+                    {
+                      borderColor: selected ? colors.primary : colors.border,
+                      backgroundColor: selected ? withAlpha(colors.primary, 0.12) : 'transparent',
+                    },
+                  ]}
+                  accessibilityRole="button"
+                  accessibilityLabel={`${emoji} ${comment.reactions?.[emoji]} reactions`}
+                  accessibilityState={{ selected }}
+                >
+                  <Text style={styles.reactionEmoji}>{emoji}</Text>
+                  <Text style={[styles.commentActionText, { color: selected ? colors.primary : colors.textMuted }]}>
+                    {comment.reactions?.[emoji]}
+                  </Text>
+                </Pressable>
+              );
+            })}
+
+            <Pressable
+              onPress={handleTogglePicker}
+              style={styles.commentAction}
+              accessibilityRole="button"
+              accessibilityLabel="Add reaction"
+              accessibilityState={{ expanded: pickerOpen }}
+            >
+              <Animated.View style={pickerStyle}>
+                <SmilePlus size={16} color={pickerOpen ? colors.primary : colors.textMuted} />
+              </Animated.View>
+            </Pressable>
+
+            <Pressable
+              onPress={handleReply}
+              style={styles.commentAction}
+              accessibilityRole="button"
+              accessibilityLabel="Reply to comment"
+            >
+              <MessageCircle size={16} color={colors.textMuted} />
+              <Text style={[styles.commentActionText, { color: colors.textMuted }]}>
+                Reply
+              </Text>
+            </Pressable>
+          </View>
+        )}
 
-          <Pressable
-            onPress={handleReply}
-            style={styles.commentAction}
-            accessibilityRole="button"
-            accessibilityLabel="Reply to comment"
+        {pickerOpen && (
+          <View
+            style={[styles.reactionPicker, { backgroundColor: colors.background, borderColor: colors.border }]}
+            accessibilityRole="menu"
           >
-            <MessageCircle size={16} color={colors.textMuted} />
-            <Text style={[styles.commentActionText, { color: colors.textMuted }]}>
-              Reply
-            </Text>
-          </Pressable>
-        </View>
+            {COMMENT_REACTIONS.map((emoji) => (
+              <Pressable
+                key={emoji}
+                onPress={() => handleReact(emoji)}
+                style={[
+                  styles.reactionOption,
+                  myReactions.includes(emoji) && { backgroundColor: withAlpha(colors.primary, 0.12) },
+                ]}
+                accessibilityRole="menuitem"
+                accessibilityLabel={`React with ${emoji}`}
+                accessibilityState={{ selected: myReactions.includes(emoji) }}
+              >
+                <Text style={styles.reactionOptionEmoji}>{emoji}</Text>
+              </Pressable>
+            ))}
+          </View>
+        )}
       </View>
     </View>
   );
@@ -259,6 +450,196 @@ const CommentItem = memo(({ comment, onLike, onReply, isLiked }: CommentItemProp
 
 CommentItem.displayName = 'CommentItem';
 
+// ============================================================================
+// MORE REPLIES ROW
+// ============================================================================
+
+interface MoreRepliesRowProps {
+  rootId: string;
+  remaining: number;
+  isLoading: boolean;
+  onPress: (rootId: string) => void;
+}
+
+const MoreRepliesRow = memo(({ rootId, remaining, isLoading, onPress }: MoreRepliesRowProps) => {
+  const { colors } = useTheme();
+  const label = `View ${remaining} more ${remaining === 1 ? 'reply' : 'replies'}`;
+
+  return (
+    <Pressable
+      onPress={() => onPress(rootId)}
+      disabled={isLoading}
+      style={styles.moreReplies}
+      accessibilityRole="button"
+      accessibilityLabel={label}
+      accessibilityState={{ busy: isLoading }}
+    >
+      <View style={[styles.moreRepliesLine, { backgroundColor: colors.border }]} />
+      {isLoading ? (
+        <ActivityIndicator size="small" color={colors.textMuted} />
+      ) : (
+        <Text style={[styles.moreRepliesText, { color: colors.primary }]}>{label}</Text>
+      )}
+    </Pressable>
+  );
+});
+
+MoreRepliesRow.displayName = 'MoreRepliesRow';
+
+// ============================================================================
+// HELD COMMENT ITEM — the creator's review queue
+// ============================================================================
+
+interface HeldCommentItemProps {
+  comment: Comment;
+  onModerate: (comment: Comment, action: CommentModerationAction) => void;
+}
+
+const HeldCommentItem = memo(({ comment, onModerate }: HeldCommentItemProps) => {
+  const { colors } = useTheme();
+
+  return (
+    <View style={[styles.heldItem, { borderColor: colors.border }]}>
+      <View style={styles.commentHeader}>
+        <Text style={[styles.commentAuthor, { color: colors.text }]}>{getCommentAuthorName(comment)}</Text>
+        <Text style={[styles.commentTime, { color: colors.textMuted }]}>{formatTimeAgo(comment.createdAt)}</Text>
+      </View>
+      {comment.depth ? (
+        <Text style={[styles.commentBadgeText, { color: colors.textMuted }]}>Reply in a thread</Text>
+      ) : null}
+      <CommentText comment={comment} />
+      <View style={styles.heldActions}>
+        <Pressable
+          onPress={() => onModerate(comment, 'hide')}
+          style={[styles.heldButton, { borderColor: colors.border }]}
+          accessibilityRole="button"
+          accessibilityLabel={`Hide comment from ${getCommentAuthorName(comment)}`}
+        >
+          <EyeOff size={16} color={colors.text} />
+          <Text style={[styles.heldButtonText, { color: colors.text }]}>Hide</Text>
+        </Pressable>
+        <Pressable
+          onPress={() => onModerate(comment, 'approve')}
+          style={[styles.heldButton, { backgroundColor: colors.primary, borderColor: colors.primary }]}
+          accessibilityRole="button"
+          accessibilityLabel={`Approve comment from ${getCommentAuthorName(comment)}`}
+        >
+          <Check size={16} color={colors.primaryText} />
+          <Text style={[styles.heldButtonText, { color: colors.primaryText }]}>Approve</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+});
+
+HeldCommentItem.displayName = 'HeldCommentItem';
+
+// ============================================================================
+// COMMENT SETTINGS — blocked keywords + hold for review (creator-wide)
+// ============================================================================
+
+const CommentSettingsPanel = memo(() => {
+  const { colors } = useTheme();
+  const { data: settings, isLoading } = useCommentSettings();
+  const { mutate: updateSettings, isPending } = useUpdateCommentSettings();
+  const [keywordDraft, setKeywordDraft] = useState('');
+
+  const keywords = useMemo(() => settings?.blockedKeywords ?? [], [settings?.blockedKeywords]);
+
+  const save = useCallback((next: Parameters<typeof updateSettings>[0]) => {
+    updateSettings(next, {
+      onError: (error) => Alert.alert('Settings not saved', error.message),
+    });
+  }, [updateSettings]);
+
+  const handleAddKeyword = useCallback(() => {
+    const keyword = keywordDraft.trim().toLowerCase();
+    if (!keyword) return;
+    setKeywordDraft('');
+    if (keywords.includes(keyword)) return;
+    save({ blockedKeywords: [...keywords, keyword] });
+  }, [keywordDraft, keywords, save]);
+
+  if (isLoading) {
+    return (
+      <View style={styles.loadingMore}>
+        <ActivityIndicator size="small" color={colors.textMuted} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.settingsPanel}>
+      <View style={styles.settingsRow}>
+        <View style={styles.settingsRowText}>
+          <Text style={[styles.settingsTitle, { color: colors.text }]}>Hold all comments for review</Text>
+          <Text style={[styles.settingsHint, { color: colors.textMuted }]}>
+            New comments wait in your review queue until you approve them.
+          </Text>
+        </View>
+        <Switch
+          value={settings?.holdForReview ?? false}
+          onValueChange={(holdForReview) => save({ holdForReview })}
+          disabled={isPending}
+          trackColor={{ false: colors.border, true: withAlpha(colors.primary, 0.4) }}
+          thumbColor={settings?.holdForReview ? colors.primary : colors.textMuted}
+          accessibilityLabel="Hold all comments for review"
+        />
+      </View>
+
+      <Text style={[styles.settingsTitle, { color: colors.text }]}>Blocked keywords</Text>
+      <Text style={[styles.settingsHint, { color: colors.textMuted }]}>
+        Comments containing these words are held for your review. Applies to all your videos.
+      </Text>
+      <View style={styles.inputRow}>
+        <TextInput
+          style={[
+            styles.input,
+            styles.keywordInput,
+            { backgroundColor: colors.background, color: colors.text, borderColor: colors.border },
+          ]}
+          placeholder="Add a word or phrase"
+          placeholderTextColor={colors.textMuted}
+          value={keywordDraft}
+          onChangeText={setKeywordDraft}
+          onSubmitEditing={handleAddKeyword}
+          maxLength={MAX_KEYWORD_LENGTH}
+          autoCapitalize="none"
+          returnKeyType="done"
+          accessibilityLabel="Blocked keyword"
+        />
+        <Pressable
+          onPress={handleAddKeyword}
+          disabled={!keywordDraft.trim() || isPending}
+          style={[styles.keywordAdd, { backgroundColor: keywordDraft.trim() ? colors.primary : colors.border }]}
+          accessibilityRole="button"
+          accessibilityLabel="Add blocked keyword"
+        >
+          <Text style={[styles.heldButtonText, { color: colors.primaryText }]}>Add</Text>
+        </Pressable>
+      </View>
+      <View style={styles.keywordList}>
+        {keywords.map((keyword) => (
+          <View key={keyword} style={[styles.keywordChip, { borderColor: colors.border }]}>
+            <Text style={[styles.commentActionText, { color: colors.text }]}>{keyword}</Text>
+            <Pressable
+              onPress={() => save({ blockedKeywords: keywords.filter((k) => k !== keyword) })}
+              disabled={isPending}
+              hitSlop={8}
+              accessibilityRole="button"
+              accessibilityLabel={`Remove blocked keyword ${keyword}`}
+            >
+              <X size={12} color={colors.textMuted} />
+            </Pressable>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+});
+
+CommentSettingsPanel.displayName = 'CommentSettingsPanel';
+
 // ============================================================================
 // LOADING SKELETON
 // ============================================================================
@@ -286,13 +667,13 @@ CommentSkeleton.displayName = 'CommentSkeleton';
 function VideoCommentsSheetComponent({
   visible,
   videoId,
+  videoOwnerId,
+  currentUserId,
   comments: propComments,
   totalCount,
   isLoading,
   onClose,
   onAddComment,
-  onLikeComment,
-  onReplyComment,
   onLoadMore,
   hasMore,
   isLoadingMore,
@@ -307,35 +688,45 @@ function VideoCommentsSheetComponent({
   const listRef = useRef<FlatList>(null);
 
   const SHEET_MAX_HEIGHT = screenHeight * 0.75;
+  const isCreator = !!currentUserId && currentUserId === videoOwnerId;
 
   // Animation values
   const translateY = useSharedValue(SHEET_MAX_HEIGHT);
   const backdropOpacity = useSharedValue(0);
 
-  // Normalize comments from props (single source of truth — no local state duplication)
-  const comments = useMemo(
-    () => (propComments || []).map((comment) => ({
-      ...comment,
-      likes: comment.likes || 0,
-    })),
-    [propComments],
-  );
+  // Comments from props (single source of truth — no local state duplication)
+  const comments = useMemo(() => propComments || [], [propComments]);
 
   // Display count: prefer server total, fallback to loaded count
   const displayCount = totalCount ?? comments.length;
 
   // Local UI state only (not duplicated data)
+  const [view, setView] = useState<SheetView>('comments');
   const [newComment, setNewComment] = useState('');
+  const [mentions, setMentions] = useState<CommentMention[]>([]);
+  const [cursor, setCursor] = useState<number | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [likedComments, setLikedComments] = useState<Set<string>>(new Set());
-  const [replyingTo, setReplyingTo] = useState<string | null>(null);
-
-  // Resolve reply author name for display
-  const replyAuthorName = useMemo(() => {
-    if (!replyingTo) return null;
-    const replyComment = comments.find((c) => c.id === replyingTo);
-    return replyComment ? getCommentAuthorName(replyComment) : null;
-  }, [replyingTo, comments]);
+  const [reportingId, setReportingId] = useState<string | null>(null);
+  const [replyingTo, setReplyingTo] = useState<Comment | null>(null);
+  const [expandedThreads, setExpandedThreads] = useState<string[]>([]);
+
+  // Threads, reactions and creator tools — all React Query
+  const { threads, loadingIds } = useCommentThreads(videoId, expandedThreads);
+  const { mutate: reactToComment } = useReactToComment();
+  const { mutate: moderateComment } = useModerateComment();
+  const { data: heldData } = useHeldComments(videoId, 'held', { enabled: visible && isCreator });
+  const { data: followingCreators } = useFollowingCreators(currentUserId, { enabled: visible });
+
+  const rows = useMemo(() => buildCommentRows(comments, threads), [comments, threads]);
+  const heldCount = heldData?.total ?? 0;
+
+  // @mention autocomplete — the query being typed at the cursor
+  const mentionQuery = activeMentionQuery(newComment, cursor ?? newComment.length);
+  const mentionText = mentionQuery?.query ?? null;
+  const mentionSuggestions = useMemo(
+    () => (mentionText === null ? [] : filterMentionSuggestions(followingCreators ?? [], mentionText)),
+    [mentionText, followingCreators],
+  );
 
   // ============================================================================
   // EFFECTS
@@ -352,6 +743,13 @@ function VideoCommentsSheetComponent({
     }
   }, [visible, translateY, backdropOpacity, SHEET_MAX_HEIGHT]);
 
+  // A different video starts from its comments with every thread collapsed
+  useEffect(() => {
+    setView('comments');
+    setExpandedThreads([]);
+    setReplyingTo(null);
+  }, [videoId]);
+
   // ============================================================================
   // HANDLERS
   // ============================================================================
@@ -362,47 +760,102 @@ function VideoCommentsSheetComponent({
     setTimeout(onClose, 200);
   }, [translateY, backdropOpacity, onClose, SHEET_MAX_HEIGHT]);
 
+  const handleChangeText = useCallback((text: string) => {
+    setMentions(shiftMentions(newComment, text, mentions));
+    setNewComment(text);
+    setCursor(null);
+  }, [newComment, mentions]);
+
+  const handleSelectionChange = useCallback(
+    (event: { nativeEvent: { selection: { start: number; end: number } } }) => {
+      setCursor(event.nativeEvent.selection.end);
+    },
+    [],
+  );
+
+  const handleSelectMention = useCallback((creator: FollowedCreator) => {
+    if (!mentionQuery) return;
+    Haptics.selectionAsync();
+    const next = insertMention(newComment, mentions, mentionQuery, cursor ?? newComment.length, creator);
+    setNewComment(next.text);
+    setMentions(next.mentions);
+    setCursor(next.cursor);
+  }, [mentionQuery, newComment, mentions, cursor]);
+
   const handleSubmitComment = useCallback(async () => {
-    if (!newComment.trim() || isSubmitting) return;
+    const text = newComment.trim();
+    if (!text || isSubmitting) return;
 
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
     setIsSubmitting(true);
 
+    // Trimming moves the text — move the mention spans with it
+    const lead = newComment.indexOf(text);
+    const textMentions = mentions
+      .map((m) => ({ ...m, offset: m.offset - lead }))
+      .filter((m) => m.offset >= 0 && m.offset + m.length <= text.length);
+
     try {
       if (onAddComment) {
-        await onAddComment(newComment.trim());
+        await onAddComment(text, { replyTo: replyingTo, mentions: textMentions });
       }
       setNewComment('');
+      setMentions([]);
+      setCursor(null);
+      // A top-level comment lands first — scroll up to it; a reply stays in place
+      if (!replyingTo) listRef.current?.scrollToOffset({ offset: 0, animated: true });
       setReplyingTo(null);
-      // Scroll to top to see optimistic comment
-      listRef.current?.scrollToOffset({ offset: 0, animated: true });
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Something went wrong';
       Alert.alert('Comment failed', message);
     } finally {
       setIsSubmitting(false);
     }
-  }, [newComment, isSubmitting, onAddComment]);
-
-  // Stable ID-based callbacks — avoids inline closures in renderComment
-  const handleLikeComment = useCallback((commentId: string) => {
-    setLikedComments((prev) => {
-      const newSet = new Set(prev);
-      if (newSet.has(commentId)) {
-        newSet.delete(commentId);
-      } else {
-        newSet.add(commentId);
-      }
-      return newSet;
-    });
-    onLikeComment?.(commentId);
-  }, [onLikeComment]);
+  }, [newComment, mentions, isSubmitting, onAddComment, replyingTo]);
 
-  const handleReply = useCallback((commentId: string) => {
-    setReplyingTo(commentId);
+  // Stable comment-based callbacks — avoids inline closures in renderRow
+  const handleReact = useCallback((comment: Comment, emoji: CommentReaction) => {
+    Haptics.selectionAsync();
+    reactToComment({ videoId, comment, emoji });
+  }, [reactToComment, videoId]);
+
+  const handleReply = useCallback((comment: Comment) => {
+    setReplyingTo(comment);
     inputRef.current?.focus();
   }, []);
 
+  const handleModerate = useCallback((comment: Comment, action: CommentModerationAction) => {
+    Haptics.impactAsync(action === 'hide' ? Haptics.ImpactFeedbackStyle.Rigid : Haptics.ImpactFeedbackStyle.Light);
+    moderateComment(
+      { videoId, commentId: comment.id, action },
+      { onError: (error) => Alert.alert('Action failed', error.message) },
+    );
+  }, [moderateComment, videoId]);
+
+  const handleManage = useCallback((comment: Comment) => {
+    const canPin = !comment.depth && (comment.status ?? 'visible') === 'visible';
+    Alert.alert('Manage comment', 'Hidden comments stay visible to their author only.', [
+      ...(canPin
+        ? [{
+            text: comment.isPinned ? 'Unpin' : 'Pin to top',
+            onPress: () => handleModerate(comment, comment.isPinned ? 'unpin' : 'pin'),
+          }]
+        : []),
+      { text: 'Hide comment', style: 'destructive' as const, onPress: () => handleModerate(comment, 'hide') },
+      { text: 'Cancel', style: 'cancel' as const },
+    ]);
+  }, [handleModerate]);
+
+  const handleReport = useCallback((comment: Comment) => {
+    setReportingId(comment.id);
+  }, []);
+
+  const handleCloseReport = useCallback(() => setReportingId(null), []);
+
+  const handleExpandThread = useCallback((rootId: string) => {
+    setExpandedThreads((prev) => (prev.includes(rootId) ? prev : [...prev, rootId]));
+  }, []);
+
   const handleEmptyPress = useCallback(() => {
     inputRef.current?.focus();
   }, []);
@@ -414,18 +867,44 @@ function VideoCommentsSheetComponent({
   }, [hasMore, isLoadingMore, onLoadMore]);
 
   // Stable FlatList callbacks
-  const commentKeyExtractor = useCallback((item: Comment) => item.id, []);
-
-  const renderComment = useCallback(
-    ({ item }: { item: Comment }) => (
-      <CommentItem
-        comment={item}
-        onLike={handleLikeComment}
-        onReply={handleReply}
-        isLiked={likedComments.has(item.id)}
-      />
-    ),
-    [handleLikeComment, handleReply, likedComments],
+  const rowKeyExtractor = useCallback((item: CommentRow) => item.key, []);
+  const heldKeyExtractor = useCallback((item: Comment) => item.id, []);
+
+  const renderRow = useCallback(
+    ({ item }: { item: CommentRow }) => {
+      if (item.type === 'more') {
+        const isThreadLoading = loadingIds.includes(item.rootId);
+        // An expanded thread has everything it can show
+        if (expandedThreads.includes(item.rootId) && !isThreadLoading) return null;
+        return (
+          <MoreRepliesRow
+            rootId={item.rootId}
+            remaining={item.remaining}
+            isLoading={isThreadLoading}
+            onPress={handleExpandThread}
+          />
+        );
+      }
+      return (
+        <CommentItem
+          comment={item.comment}
+          depth={item.depth}
+          isCreatorComment={!!videoOwnerId && item.comment.userId === videoOwnerId}
+          canModerate={isCreator}
+          canReport={!!currentUserId && item.comment.userId !== currentUserId}
+          onReact={handleReact}
+          onReply={handleReply}
+          onManage={handleManage}
+          onReport={handleReport}
+        />
+      );
+    },
+    [loadingIds, expandedThreads, handleExpandThread, videoOwnerId, currentUserId, isCreator, handleReact, handleReply, handleManage, handleReport],
+  );
+
+  const renderHeldComment = useCallback(
+    ({ item }: { item: Comment }) => <HeldCommentItem comment={item} onModerate={handleModerate} />,
+    [handleModerate],
   );
 
   // Loading skeleton list
@@ -458,6 +937,18 @@ function VideoCommentsSheetComponent({
     [colors.textMuted, handleEmptyPress],
   );
 
+  const heldEmptyComponent = useMemo(
+    () => (
+      <View style={styles.emptyContainer}>
+        <ShieldCheck size={48} color={colors.textMuted} />
+        <Text style={[styles.emptyText, { color: colors.textMuted }]}>
+          Nothing waiting for review.
+        </Text>
+      </View>
+    ),
+    [colors.textMuted],
+  );
+
   const listFooterComponent = useMemo(
     () =>
       isLoadingMore ? (
@@ -513,6 +1004,11 @@ function VideoCommentsSheetComponent({
   const charCount = newComment.length;
   const charWarning = charCount > MAX_COMMENT_LENGTH * 0.9;
 
+  const creatorTabs: { view: SheetView; label: string }[] = [
+    { view: 'comments', label: 'Comments' },
+    { view: 'held', label: heldCount > 0 ? `Review (${heldCount})` : 'Review' },
+  ];
+
   return (
     <View
       style={styles.overlay}
@@ -564,15 +1060,57 @@ function VideoCommentsSheetComponent({
             </Pressable>
           </View>
 
+          {/* Creator tools */}
+          {isCreator && (
+            <View style={[styles.creatorTabs, { borderBottomColor: colors.border }]} accessibilityRole="tablist">
+              {creatorTabs.map((tab) => {
+                const selected = view === tab.view;
+                return (
+                  <Pressable
+                    key={tab.view}
+                    onPress={() => setView(tab.view)}
+                    style={[styles.creatorTab, selected && { backgroundColor: withAlpha(colors.primary, 0.12) }]}
+                    accessibilityRole="tab"
+                    accessibilityState={{ selected }}
+                  >
+                    <Text style={[styles.creatorTabText, { color: selected ? colors.primary : colors.textMuted }]}>
+                      {tab.label}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+              <Pressable
+                onPress={() => setView('settings')}
+                style={[styles.creatorTab, view === 'settings' && { backgroundColor: withAlpha(colors.primary, 0.12) }]}
+                accessibilityRole="tab"
+                accessibilityLabel="Comment settings"
+                accessibilityState={{ selected: view === 'settings' }}
+              >
+                <Settings size={16} color={view === 'settings' ? colors.primary : colors.textMuted} />
+              </Pressable>
+            </View>
+          )}
+
           {/* Comments List */}
-          {isLoading ? (
+          {view === 'settings' ? (
+            <CommentSettingsPanel />
+          ) : view === 'held' ? (
+            <FlatList
+              data={heldData?.comments ?? []}
+              keyExtractor={heldKeyExtractor}
+              renderItem={renderHeldComment}
+              contentContainerStyle={styles.listContent}
+              showsVerticalScrollIndicator={false}
+              ListEmptyComponent={heldEmptyComponent}
+            />
+          ) : isLoading ? (
             loadingComponent
           ) : (
             <FlatList
               ref={listRef}
-              data={comments}
-              keyExtractor={commentKeyExtractor}
-              renderItem={renderComment}
+              data={rows}
+              keyExtractor={rowKeyExtractor}
+              renderItem={renderRow}
               contentContainerStyle={styles.listContent}
               showsVerticalScrollIndicator={false}
               ListEmptyComponent={commentsEmptyComponent}
@@ -598,83 +1136,116 @@ function VideoCommentsSheetComponent({
           )}
 
           {/* Input */}
-          <KeyboardAvoidingView
-            behavior={Platform.OS === 'ios' ? 'padding' : undefined}
-            keyboardVerticalOffset={100}
-          >
-            <View style={[styles.inputContainer, { borderTopColor: colors.border }]}>
-              {replyingTo && (
-                <View style={styles.replyingContainer}>
-                  <Text style={[styles.replyingText, { color: colors.textMuted }]}>
-                    Replying to {replyAuthorName || 'comment'}
-                  </Text>
+          {view === 'comments' && (
+            <KeyboardAvoidingView
+              behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+              keyboardVerticalOffset={100}
+            >
+              <View style={[styles.inputContainer, { borderTopColor: colors.border }]}>
+                {mentionSuggestions.length > 0 && (
+                  <View style={styles.mentionSuggestions} accessibilityRole="menu">
+                    {mentionSuggestions.map((creator) => (
+                      <Pressable
+                        key={creator.id}
+                        onPress={() => handleSelectMention(creator)}
+                        style={styles.mentionSuggestion}
+                        accessibilityRole="menuitem"
+                        accessibilityLabel={`Mention ${creatorName(creator)}`}
+                      >
+                        <View style={[styles.mentionAvatar, { backgroundColor: colors.border }]}>
+                          {creator.avatar ? (
+                            <Image source={{ uri: creator.avatar }} style={styles.mentionAvatarImage} />
+                          ) : (
+                            <Text style={[styles.avatarText, { color: colors.text }]}>
+                              {creatorName(creator).charAt(0).toUpperCase()}
+                            </Text>
+                          )}
+                        </View>
+                        <Text style={[styles.commentAuthor, { color: colors.text }]}>{creatorName(creator)}</Text>
+                      </Pressable>
+                    ))}
+                  </View>
+                )}
+                {replyingTo && (
+                  <View style={styles.replyingContainer}>
+                    <Text style={[styles.replyingText, { color: colors.textMuted }]}>
+                      Replying to {getCommentAuthorName(replyingTo)}
+                    </Text>
+                    <Pressable
+                      onPress={() => setReplyingTo(null)}
+                      style={styles.replyDismiss}
+                      accessibilityRole="button"
+                      accessibilityLabel="Cancel reply"
+                      hitSlop={8}
+                    >
+                      <X size={14} color={colors.textMuted} />
+                    </Pressable>
+                  </View>
+                )}
+                <View style={styles.inputRow}>
+                  <View style={styles.inputWrapper}>
+                    <TextInput
+                      ref={inputRef}
+                      style={[
+                        styles.input,
+                        {
+                          backgroundColor: colors.background,
+                          color: colors.text,
+                          borderColor: colors.border,
+                        },
+                      ]}
+                      placeholder={replyingTo ? 'Add a reply...' : 'Add a comment... (@ to mention)'}
+                      placeholderTextColor={colors.textMuted}
+                      value={newComment}
+                      onChangeText={handleChangeText}
+                      onSelectionChange={handleSelectionChange}
+                      multiline
+                      maxLength={MAX_COMMENT_LENGTH}
+                      accessibilityLabel="Comment input"
+                      accessibilityHint={`${MAX_COMMENT_LENGTH - charCount} characters remaining`}
+                    />
+                    {charCount > 0 && (
+                      <Text
+                        style={[
+                          styles.charCounter,
+                          { color: charWarning ? colors.error : colors.textMuted },
+                        ]}
+                      >
+                        {charCount}/{MAX_COMMENT_LENGTH}
+                      </Text>
+                    )}
+                  </View>
                   <Pressable
-                    onPress={() => setReplyingTo(null)}
-                    style={styles.replyDismiss}
-                    accessibilityRole="button"
-                    accessibilityLabel="Cancel reply"
-                    hitSlop={8}
-                  >
-                    <X size={14} color={colors.textMuted} />
-                  </Pressable>
-                </View>
-              )}
-              <View style={styles.inputRow}>
-                <View style={styles.inputWrapper}>
-                  <TextInput
-                    ref={inputRef}
+                    onPress={handleSubmitComment}
+                    disabled={!newComment.trim() || isSubmitting}
                     style={[
-                      styles.input,
+                      styles.sendButton,
                       {
-                        backgroundColor: colors.background,
-                        color: colors.text,
-                        borderColor: colors.border,
+                        backgroundColor: newComment.trim() ? colors.primary : colors.border,
                       },
                     ]}
-                    placeholder="Add a comment..."
-                    placeholderTextColor={colors.textMuted}
-                    value={newComment}
-                    onChangeText={setNewComment}
-                    multiline
-                    maxLength={MAX_COMMENT_LENGTH}
-                    accessibilityLabel="Comment input"
-                    accessibilityHint={`${MAX_COMMENT_LENGTH - charCount} characters remaining`}
-                  />
-                  {charCount > 0 && (
-                    <Text
-                      style={[
-                        styles.charCounter,
-                        { color: charWarning ? colors.error : colors.textMuted },
-                      ]}
-                    >
-                      {charCount}/{MAX_COMMENT_LENGTH}
-                    </Text>
-                  )}
+                    accessibilityRole="button"
+                    accessibilityLabel="Send comment"
+                    accessibilityState={{ disabled: !newComment.trim() || isSubmitting }}
+                  >
+                    {isSubmitting ? (
+                      <ActivityIndicator size="small" color={colors.primaryText} />
+                    ) : (
+                      <Send size={18} color={colors.primaryText} />
+                    )}
+                  </Pressable>
                 </View>
-                <Pressable
-                  onPress={handleSubmitComment}
-                  disabled={!newComment.trim() || isSubmitting}
-                  style={[
-                    styles.sendButton,
-                    {
-                      backgroundColor: newComment.trim() ? colors.primary : colors.border,
-                    },
-                  ]}
-                  accessibilityRole="button"
-                  accessibilityLabel="Send comment"
-                  accessibilityState={{ disabled: !newComment.trim() || isSubmitting }}
-                >
-                  {isSubmitting ? (
-                    <ActivityIndicator size="small" color={colors.primaryText} />
-                  ) : (
-                    <Send size={18} color={colors.primaryText} />
-                  )}
-                </Pressable>
               </View>
-            </View>
-          </KeyboardAvoidingView>
+            </KeyboardAvoidingView>
+          )}
         </Animated.View>
       </GestureDetector>
+
+      <ReportContentModal
+        visible={!!reportingId}
+        target={reportingId ? { targetType: 'comment', targetId: reportingId } : null}
+        onClose={handleCloseReport}
+      />
     </View>
   );
 }
@@ -799,6 +1370,162 @@ const styles = StyleSheet.create({
     fontFamily: TYPOGRAPHY.fontFamily.medium,
     fontSize: TYPOGRAPHY.fontSize.xs,
   },
+  commentBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.xxs,
+    marginBottom: SPACING.xxs,
+  },
+  commentBadgeText: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  commentMenuButton: {
+    minWidth: COMPONENT_SIZE.touchTarget / 2,
+    minHeight: COMPONENT_SIZE.touchTarget / 2,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  mentionText: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+  },
+  reactionChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.xxs,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xxs,
+    borderWidth: 1,
+    borderRadius: RADIUS.full,
+  },
+  reactionEmoji: {
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  reactionPicker: {
+    flexDirection: 'row',
+    alignSelf: 'flex-start',
+    gap: SPACING.xxs,
+    padding: SPACING.xxs,
+    borderWidth: 1,
+    borderRadius: RADIUS.full,
+    ...SHADOWS.sm,
+  },
+  reactionOption: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  reactionOptionEmoji: {
+    fontSize: TYPOGRAPHY.fontSize.xl,
+  },
+  moreReplies: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    marginLeft: REPLY_INDENT,
+    marginTop: -SPACING.sm,
+    marginBottom: SPACING.md,
+    minHeight: COMPONENT_SIZE.touchTarget,
+  },
+  moreRepliesLine: {
+    width: 24,
+    height: 1,
+  },
+  moreRepliesText: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  creatorTabs: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.xs,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+    borderBottomWidth: 1,
+  },
+  creatorTab: {
+    minHeight: COMPONENT_SIZE.touchTarget - SPACING.sm,
+    paddingHorizontal: SPACING.md,
+    borderRadius: RADIUS.full,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  creatorTabText: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  heldItem: {
+    borderWidth: 1,
+    borderRadius: RADIUS.lg,
+    padding: SPACING.md,
+    marginBottom: SPACING.md,
+  },
+  heldActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: SPACING.sm,
+  },
+  heldButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.xs,
+    minHeight: COMPONENT_SIZE.touchTarget,
+    paddingHorizontal: SPACING.md,
+    borderWidth: 1,
+    borderRadius: RADIUS.full,
+  },
+  heldButtonText: {
+    fontFamily: TYPOGRAPHY.fontFamily.bold,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  settingsPanel: {
+    padding: SPACING.md,
+    gap: SPACING.sm,
+  },
+  settingsRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.md,
+    marginBottom: SPACING.md,
+  },
+  settingsRowText: {
+    flex: 1,
+  },
+  settingsTitle: {
+    fontFamily: TYPOGRAPHY.fontFamily.bold,
+    fontSize: TYPOGRAPHY.fontSize.base,
+  },
+  settingsHint: {
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  keywordInput: {
+    flex: 1,
+  },
+  keywordAdd: {
+    minWidth: COMPONENT_SIZE.touchTarget,
+    minHeight: COMPONENT_SIZE.touchTarget,
+    paddingHorizontal: SPACING.md,
+    borderRadius: RADIUS.lg,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  keywordList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.xs,
+  },
+  keywordChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.xs,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xxs,
+    borderWidth: 1,
+    borderRadius: RADIUS.full,
+  },
   emptyContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -820,6 +1547,27 @@ const styles = StyleSheet.create({
     paddingHorizontal: SPACING.md,
     paddingVertical: SPACING.sm,
   },
+  mentionSuggestions: {
+    paddingBottom: SPACING.xs,
+  },
+  mentionSuggestion: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    minHeight: COMPONENT_SIZE.touchTarget,
+  },
+  mentionAvatar: {
+    width: REPLY_AVATAR_SIZE,
+    height: REPLY_AVATAR_SIZE,
+    borderRadius: REPLY_AVATAR_SIZE / 2,
+    justifyContent: 'center',
+    alignItems: 'center',
+    overflow: 'hidden',
+  },
+  mentionAvatarImage: {
+    width: '100%',
+    height: '100%',
+  },
   replyingContainer: {
     flexDirection: 'row',
     alignItems: 'center',
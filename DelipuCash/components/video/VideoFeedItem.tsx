@@ -10,7 +10,7 @@
  * - Ambient Design: Dynamic gradient based on video content
  * - WCAG 2.2 AAA: Enhanced semantic roles, reduced motion support
  * - Micro-interactions: Particle burst on like, confetti on milestones
- * - AI Enhancement: Caption toggle, auto-translate indicator
+ * - AI Enhancement: Caption toggle (CC chip cycles off → each language)
  * 
  * @example
  * ```tsx
@@ -40,6 +40,7 @@ import {
   ActivityIndicator,
   Dimensions,
   Linking,
+  Platform,
 } from 'react-native';
 import { Image as ExpoImage } from 'expo-image';
 import Animated, {
@@ -76,7 +77,10 @@ import {
   Sparkles,
   ExternalLink,
   Info,
+  Captions,
+  ListVideo,
 } from 'lucide-react-native';
+import { router, type Href } from 'expo-router';
 import * as Haptics from '@/utils/haptics';
 import {
   useTheme,
@@ -87,8 +91,9 @@ import {
   COMPONENT_SIZE,
   withAlpha,
 } from '@/utils/theme';
-import { Video } from '@/types';
+import { Video, TrafficSource } from '@/types';
 import { useVideoFeedStore } from '@/store/VideoFeedStore';
+import { useAdUIStore } from '@/store/AdUIStore';
 import { CreatorAvatarButton } from './CreatorAvatarButton';
 import { useFollowStatus, useFollowCreator, useUnfollowCreator } from '@/services/videoHooks';
 import { useToast } from '@/components/ui/Toast';
@@ -97,6 +102,12 @@ import NetInfo from '@react-native-community/netinfo';
 import { telemetry } from '@/services/telemetryApi';
 import { videoApi } from '@/services/videoApi';
 import { recordView } from '@/services/viewTracker';
+import { useVideoRendition } from '@/hooks/useVideoRendition';
+import { computePreloadBuffer } from '@/utils/videoPreload';
+import { useCaptionTrack } from '@/hooks/useCaptionTrack';
+import { getCaptionLanguageName } from '@/utils/captions';
+import { CaptionOverlay } from './CaptionOverlay';
+import { seriesChipLabel } from '@/utils/playlists';
 
 // ============================================================================
 // CONSTANTS
@@ -110,6 +121,10 @@ const CONTROLS_HIDE_DELAY = 3000;
 // Neutral near-black placeholder while a thumbnail streams in (matches the
 // feed's black letterbox). Per-video blurhashes need an upload-pipeline field.
 const THUMBNAIL_BLURHASH = 'L00000fQfQfQfQfQfQfQfQfQfQfQ';
+// expo-video's own forward-buffer defaults (restored when an item turns active)
+const DEFAULT_FORWARD_BUFFER = Platform.OS === 'ios' ? 0 : 20;
+// Captions sit above the creator/title block and progress bar
+const CAPTION_BOTTOM_OFFSET = 190;
 
 // ============================================================================
 // TYPES
@@ -152,8 +167,12 @@ export interface VideoFeedItemProps {
   onAdFeedback?: (video: Video) => void;
   /** 2026: Data saver — skip neighbor preloading when true */
   isDataSaver?: boolean;
+  /** Auto data-saver on cellular — a neighbor buffers one segment, not ~20 s */
+  cellularTrim?: boolean;
   /** Bottom inset (tab bar height) — offsets interactive content above the tab bar */
   bottomInset?: number;
+  /** Feed this item is shown in — sent with the impression for creator analytics */
+  trafficSource?: TrafficSource;
   /** Test ID */
   testID?: string;
 }
@@ -568,7 +587,9 @@ function VideoFeedItemComponent({
   onAdCtaPress,
   onAdFeedback,
   isDataSaver = false,
+  cellularTrim = false,
   bottomInset = 0,
+  trafficSource,
   testID,
 }: VideoFeedItemProps): React.ReactElement {
   const { colors } = useTheme();
@@ -594,6 +615,9 @@ function VideoFeedItemComponent({
   const isFollowLoading = followMutation.isPending || unfollowMutation.isPending;
   const { showToast } = useToast();
 
+  // Captions — cues only load for the active item with CC on
+  const captions = useCaptionTrack(video, isActive);
+
   // ============================================================================
   // STATE
   // ============================================================================
@@ -669,11 +693,9 @@ function VideoFeedItemComponent({
   // buffering stall or replaceAsync recovery) does not override a manual pause.
   const userPausedRef = useRef(false);
 
-  // 2026: Guard against empty/null sources — expo-video errors on empty string
-  const videoSource = useMemo(() => {
-    const url = (video.videoUrl || '').trim();
-    return url.length > 0 ? url : null;
-  }, [video.videoUrl]);
+  // HLS rung / master / MP4 per network, data saver and the quality pick.
+  // Null for an empty URL — expo-video errors on empty string.
+  const videoSource = useVideoRendition(video).uri;
 
   // Created SOURCELESS — the load-window effect below attaches/detaches the
   // source. windowSize keeps ~5 items mounted, but only items inside the
@@ -704,6 +726,10 @@ function VideoFeedItemComponent({
   const isActiveRef = useRef(isActive);
   useEffect(() => { isActiveRef.current = isActive; }, [isActive]);
 
+  // Read by the impression below so a source change doesn't re-run playback
+  const trafficSourceRef = useRef(trafficSource);
+  useEffect(() => { trafficSourceRef.current = trafficSource; }, [trafficSource]);
+
   // Tracks one-shot UI timeouts (heart burst, seek indicator, deferred tap) so
   // they can be cleared on unmount — prevents setState-after-unmount when the
   // feed recycles this item shortly after an interaction.
@@ -742,6 +768,8 @@ function VideoFeedItemComponent({
     if (!player) return;
     const desired = shouldLoad ? videoSource : null;
     if (loadedSourceRef.current === desired) return;
+    // A rendition switch (quality pick, Wi-Fi → cellular) keeps the position
+    const resumeAt = loadedSourceRef.current !== null && desired !== null ? player.currentTime : 0;
     loadedSourceRef.current = desired;
     if (desired === null) {
       isPlayerReadyRef.current = false;
@@ -749,6 +777,7 @@ function VideoFeedItemComponent({
     (async () => {
       try {
         await player.replaceAsync(desired);
+        if (resumeAt > 0) player.currentTime = resumeAt;
       } catch (error) {
         // Allow a later window change to retry the load
         loadedSourceRef.current = null;
@@ -757,6 +786,21 @@ function VideoFeedItemComponent({
     })();
   }, [player, shouldLoad, videoSource]);
 
+  // Neighbors in the load window buffer just their first segment on cellular
+  // (utils/videoPreload). Only touched once trimmed, so untrimmed players keep
+  // whatever expo-video chose.
+  const forwardBuffer = computePreloadBuffer({ isActive, cellularTrim });
+  const bufferTrimmedRef = useRef(false);
+  useEffect(() => {
+    if (!player || (forwardBuffer === null && !bufferTrimmedRef.current)) return;
+    bufferTrimmedRef.current = forwardBuffer !== null;
+    try {
+      player.bufferOptions = { preferredForwardBufferDuration: forwardBuffer ?? DEFAULT_FORWARD_BUFFER };
+    } catch (error) {
+      if (__DEV__) console.warn('[VideoFeedItem] Error setting buffer options:', error);
+    }
+  }, [player, forwardBuffer]);
+
   // Safe player method wrapper to prevent calls on released objects
   const safePlayerCall = useCallback(<T,>(fn: () => T, fallback?: T): T | undefined => {
     if (!player || !isMountedRef.current) return fallback;
@@ -802,7 +846,12 @@ function VideoFeedItemComponent({
       const t = telemetryRef.current;
       if (!t.impressionSent) {
         t.impressionSent = true;
-        telemetry.track({ videoId: video.id, eventType: 'impression', videoIndex: index });
+        telemetry.track({
+          videoId: video.id,
+          eventType: 'impression',
+          videoIndex: index,
+          payload: trafficSourceRef.current ? { source: trafficSourceRef.current } : undefined,
+        });
       }
       t.viewportEnterTime = Date.now();
       t.playStartTime = Date.now();
@@ -1044,7 +1093,11 @@ function VideoFeedItemComponent({
             // Organic view — the single watch path for all feed tabs. Sponsored
             // items are synthetic (ad-*) entries with their own impression
             // tracking; they are not Video rows, so don't count them here.
-            if (!video.isSponsored) recordView(video.id);
+            if (!video.isSponsored) {
+              recordView(video.id);
+              // Interests for ad targeting come from what gets watched
+              useAdUIStore.getState().recordWatchedTopics(video.topicTags ?? []);
+            }
           }
           if (pct >= 25 && !t.milestones['25pct']) {
             t.milestones['25pct'] = true;
@@ -1212,12 +1265,25 @@ function VideoFeedItemComponent({
     toggleMute();
   }, [toggleMute]);
 
-  const handleCreatorProfile = useCallback((_creatorId: string) => {
+  const handleCycleCaptions = useCallback(() => {
+    buttonTappedRef.current = true;
+    Haptics.selectionAsync();
+    captions.cycle();
+  }, [captions]);
+
+  const handleCreatorProfile = useCallback((creatorId: string) => {
     buttonTappedRef.current = true;
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-    // Profile route placeholder — wire when creator profile screen exists
+    router.push(`/creator/${creatorId}` as Href);
   }, []);
 
+  const handleOpenSeries = useCallback(() => {
+    if (!video.series) return;
+    buttonTappedRef.current = true;
+    Haptics.selectionAsync();
+    router.push(`/playlist/${video.series.id}` as Href);
+  }, [video.series]);
+
   const creatorDisplayName = video.user?.firstName
     ? `@${video.user.firstName.toLowerCase()}`
     : 'creator';
@@ -1611,6 +1677,23 @@ function VideoFeedItemComponent({
               </View>
             </View>
 
+            {/* Series chip — "Part 2 of 5 · title", opens the whole series */}
+            {video.series && (
+              <Pressable
+                onPress={handleOpenSeries}
+                style={styles.seriesChip}
+                hitSlop={{ top: 8, bottom: 8 }}
+                accessibilityRole="button"
+                accessibilityLabel={seriesChipLabel(video.series)}
+                accessibilityHint="Opens every part of the series"
+              >
+                <ListVideo size={12} color="#FFFFFF" strokeWidth={2} />
+                <Text style={styles.seriesChipText} numberOfLines={1}>
+                  {seriesChipLabel(video.series)}
+                </Text>
+              </Pressable>
+            )}
+
             {/* Video Title/Description */}
             <Text style={styles.videoTitle} numberOfLines={2}>
               {video.title || 'Untitled Video'}
@@ -1659,9 +1742,37 @@ function VideoFeedItemComponent({
                   Original audio - creator
                 </Text>
               </View>
+              {captions.languages.length > 0 && (
+                <Pressable
+                  onPress={handleCycleCaptions}
+                  style={[styles.captionChip, captions.language !== null && styles.captionChipActive]}
+                  hitSlop={{ top: 12, bottom: 12, left: 8, right: 8 }}
+                  accessibilityRole="button"
+                  accessibilityLabel={
+                    captions.language
+                      ? `Captions: ${getCaptionLanguageName(captions.language)}`
+                      : 'Captions off'
+                  }
+                  accessibilityHint="Switches caption language or turns captions off"
+                  testID="feed-captions-toggle"
+                >
+                  <Captions size={12} color="#FFFFFF" strokeWidth={2} />
+                  <Text style={styles.captionChipText}>
+                    {captions.language ? captions.language.toUpperCase() : 'CC'}
+                  </Text>
+                </Pressable>
+              )}
             </View>
           </View>
 
+          {isActive && captions.language && (
+            <CaptionOverlay
+              cues={captions.cues}
+              currentTime={currentTime}
+              bottomOffset={bottomInset + CAPTION_BOTTOM_OFFSET}
+            />
+          )}
+
           {/* Interactive Progress Bar + Duration */}
           <VideoProgressBar
             progress={progress}
@@ -1961,6 +2072,43 @@ const styles = StyleSheet.create({
     textShadowOffset: { width: 0, height: 1 },
     textShadowRadius: 2,
   },
+  captionChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 3,
+    paddingHorizontal: SPACING.xs,
+    paddingVertical: 2,
+    borderRadius: RADIUS.sm,
+    borderWidth: 1,
+    borderColor: withAlpha('#FFFFFF', 0.5),
+  },
+  captionChipActive: {
+    backgroundColor: withAlpha('#FFFFFF', 0.25),
+    borderColor: '#FFFFFF',
+  },
+  captionChipText: {
+    fontFamily: TYPOGRAPHY.fontFamily.bold,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+    color: '#FFFFFF',
+  },
+  seriesChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: SPACING.xs,
+    maxWidth: '100%',
+    marginBottom: SPACING.xs,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: 3,
+    borderRadius: RADIUS.full,
+    backgroundColor: withAlpha('#FFFFFF', 0.2),
+  },
+  seriesChipText: {
+    flexShrink: 1,
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+    color: '#FFFFFF',
+  },
   // Interactive progress bar + duration display
   progressWrapper: {
     position: 'absolute',
@@ -2122,12 +2270,15 @@ function arePropsEqual(
     prevProps.video.likes === nextProps.video.likes &&
     prevProps.video.commentsCount === nextProps.video.commentsCount &&
     prevProps.video.user?.avatar === nextProps.video.user?.avatar &&
+    prevProps.video.hls?.masterUrl === nextProps.video.hls?.masterUrl &&
+    prevProps.video.captionLanguages?.join() === nextProps.video.captionLanguages?.join() &&
     prevProps.isActive === nextProps.isActive &&
     prevProps.shouldLoad === nextProps.shouldLoad &&
     prevProps.isMuted === nextProps.isMuted &&
     prevProps.itemHeight === nextProps.itemHeight &&
     prevProps.screenReaderEnabled === nextProps.screenReaderEnabled &&
     prevProps.isDataSaver === nextProps.isDataSaver &&
+    prevProps.cellularTrim === nextProps.cellularTrim &&
     prevProps.bottomInset === nextProps.bottomInset &&
     prevProps.index === nextProps.index
   );
@@ -2,6 +2,13 @@
  * VideoOptionsSheet — "More" bottom sheet for video feed items
  *
  * Actions:
+ * - Quality — Auto or a fixed rung of the video's HLS ladder (only once the
+ *   ladder is ready); the pick is remembered for every video
+ * - Edit captions — creator's own videos only; opens the caption editor
+ * - Analytics — creator's own videos only; opens the video's analytics
+ * - Save to collection — signed-in viewers; opens the collection picker
+ * - Download — signed-in viewers; queues the video for offline viewing with
+ *   video premium, otherwise opens the video premium upgrade
  * - Not Interested — removes video from feed + backend feedback
  * - Hide content from this creator — removes all their videos
  * - Report — flags content
@@ -12,7 +19,7 @@
  * @module components/video/VideoOptionsSheet
  */
 
-import React, { memo, useCallback, useEffect } from 'react';
+import React, { memo, useCallback, useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -35,8 +42,15 @@ import {
   UserX,
   Shield,
   Flag,
+  Layers,
+  Check,
+  Captions,
+  BarChart3,
+  FolderPlus,
+  Download,
   X,
 } from 'lucide-react-native';
+import { router, type Href } from 'expo-router';
 import * as Haptics from '@/utils/haptics';
 import {
   useTheme,
@@ -45,6 +59,21 @@ import {
   RADIUS,
 } from '@/utils/theme';
 import type { Video } from '@/types';
+import { useVideoStore, selectVideoQuality } from '@/store/VideoStore';
+import { useVideoRendition } from '@/hooks/useVideoRendition';
+import { useAuthStore } from '@/utils/auth/store';
+import { useVideoPremium } from '@/services/purchasesHooks';
+import {
+  useOfflineDownloadStore,
+  selectOfflineDownload,
+  selectEnqueueDownload,
+} from '@/store/OfflineDownloadStore';
+import {
+  hasQualityChoices,
+  qualityOptionsFor,
+  renditionLabel,
+  type VideoQuality,
+} from '@/utils/videoRendition';
 
 // ============================================================================
 // TYPES
@@ -79,6 +108,15 @@ function VideoOptionsSheetComponent({
   testID,
 }: VideoOptionsSheetProps): React.ReactElement | null {
   const { colors } = useTheme();
+  const quality = useVideoStore(selectVideoQuality);
+  const setQuality = useVideoStore((s) => s.setQuality);
+  const rendition = useVideoRendition(video);
+  const [showQuality, setShowQuality] = useState(false);
+  const userId = useAuthStore((s) => s.auth?.user?.id);
+  const isOwner = !!video && !!userId && video.userId === userId;
+  const { isPremium: hasVideoPremium } = useVideoPremium();
+  const download = useOfflineDownloadStore(selectOfflineDownload(video?.id));
+  const enqueueDownload = useOfflineDownloadStore(selectEnqueueDownload);
 
   // Animation values
   const translateY = useSharedValue(SHEET_HEIGHT);
@@ -92,6 +130,7 @@ function VideoOptionsSheetComponent({
     } else {
       translateY.value = withTiming(SHEET_HEIGHT, { duration: 200 });
       backdropOpacity.value = withTiming(0, { duration: 200 });
+      setShowQuality(false);
     }
   }, [visible, translateY, backdropOpacity]);
 
@@ -105,6 +144,48 @@ function VideoOptionsSheetComponent({
     [video, onAction, onClose],
   );
 
+  const handleQuality = useCallback(
+    (value: VideoQuality) => {
+      Haptics.selectionAsync();
+      setQuality(value);
+      onClose();
+    },
+    [setQuality, onClose],
+  );
+
+  const handleEditCaptions = useCallback(() => {
+    if (!video) return;
+    Haptics.selectionAsync();
+    onClose();
+    router.push(`/video-captions/${video.id}` as Href);
+  }, [video, onClose]);
+
+  const handleAnalytics = useCallback(() => {
+    if (!video) return;
+    Haptics.selectionAsync();
+    onClose();
+    router.push({ pathname: '/video-analytics', params: { videoId: video.id } } as Href);
+  }, [video, onClose]);
+
+  const handleSaveToCollection = useCallback(() => {
+    if (!video) return;
+    Haptics.selectionAsync();
+    onClose();
+    router.push({ pathname: '/save-to-collection', params: { videoId: video.id } } as Href);
+  }, [video, onClose]);
+
+  const handleDownload = useCallback(() => {
+    if (!video || !userId) return;
+    Haptics.selectionAsync();
+    onClose();
+    if (!hasVideoPremium) {
+      router.push('/video-subscription' as Href);
+      return;
+    }
+    const { id, title, thumbnail, duration, user } = video;
+    enqueueDownload({ id, title, thumbnail, duration, userId: video.userId, user }, userId);
+  }, [video, userId, hasVideoPremium, enqueueDownload, onClose]);
+
   const handleClose = useCallback(() => {
     onClose();
   }, [onClose]);
@@ -157,6 +238,114 @@ function VideoOptionsSheetComponent({
             <View style={[styles.handle, { backgroundColor: colors.border }]} />
           </View>
 
+          {/* Quality */}
+          {hasQualityChoices(video) && (
+            <>
+              <Pressable
+                style={({ pressed }) => [styles.option, pressed && { opacity: 0.6 }]}
+                onPress={() => setShowQuality((open) => !open)}
+                accessibilityRole="button"
+                accessibilityLabel={`Quality, ${renditionLabel(rendition)}`}
+                accessibilityState={{ expanded: showQuality }}
+                testID="video-options-quality"
+              >
+                <Layers size={22} color={colors.text} strokeWidth={1.5} />
+                <Text style={[styles.optionLabel, { color: colors.text }]}>Quality</Text>
+                <Text style={[styles.optionValue, { color: colors.textMuted }]}>
+                  {renditionLabel(rendition)}
+                </Text>
+              </Pressable>
+              {showQuality && (
+                <View style={styles.qualityRow}>
+                  {qualityOptionsFor(video).map((option) => {
+                    const selected = quality === option.value;
+                    return (
+                      <Pressable
+                        key={option.value}
+                        style={[
+                          styles.qualityChip,
+                          { borderColor: selected ? colors.primary : colors.border },
+                        ]}
+                        onPress={() => handleQuality(option.value)}
+                        accessibilityRole="radio"
+                        accessibilityState={{ checked: selected }}
+                        testID={`video-options-quality-${option.value}`}
+                      >
+                        {selected && <Check size={14} color={colors.primary} strokeWidth={2} />}
+                        <Text style={[styles.qualityChipLabel, { color: selected ? colors.primary : colors.text }]}>
+                          {option.label}
+                        </Text>
+                      </Pressable>
+                    );
+                  })}
+                </View>
+              )}
+            </>
+          )}
+
+          {/* Edit captions (own videos) */}
+          {isOwner && (
+            <Pressable
+              style={({ pressed }) => [styles.option, pressed && { opacity: 0.6 }]}
+              onPress={handleEditCaptions}
+              accessibilityRole="button"
+              accessibilityLabel="Edit captions"
+              testID="video-options-captions"
+            >
+              <Captions size={22} color={colors.text} strokeWidth={1.5} />
+              <Text style={[styles.optionLabel, { color: colors.text }]}>Edit captions</Text>
+            </Pressable>
+          )}
+
+          {/* Analytics (own videos) */}
+          {isOwner && (
+            <Pressable
+              style={({ pressed }) => [styles.option, pressed && { opacity: 0.6 }]}
+              onPress={handleAnalytics}
+              accessibilityRole="button"
+              accessibilityLabel="Analytics"
+              testID="video-options-analytics"
+            >
+              <BarChart3 size={22} color={colors.text} strokeWidth={1.5} />
+              <Text style={[styles.optionLabel, { color: colors.text }]}>Analytics</Text>
+            </Pressable>
+          )}
+
+          {/* Save to collection (signed in) */}
+          {!!userId && (
+            <Pressable
+              style={({ pressed }) => [styles.option, pressed && { opacity: 0.6 }]}
+              onPress={handleSaveToCollection}
+              accessibilityRole="button"
+              accessibilityLabel="Save to collection"
+              testID="video-options-save-collection"
+            >
+              <FolderPlus size={22} color={colors.text} strokeWidth={1.5} />
+              <Text style={[styles.optionLabel, { color: colors.text }]}>Save to collection</Text>
+            </Pressable>
+          )}
+
+          {/* Download (signed in) — a failed one can be queued again */}
+          {!!userId && (
+            <Pressable
+              style={({ pressed }) => [styles.option, pressed && { opacity: 0.6 }]}
+              onPress={handleDownload}
+              disabled={!!download && download.status !== 'failed'}
+              accessibilityRole="button"
+              accessibilityLabel="Download"
+              accessibilityState={{ disabled: !!download && download.status !== 'failed' }}
+              testID="video-options-download"
+            >
+              <Download size={22} color={colors.text} strokeWidth={1.5} />
+              <Text style={[styles.optionLabel, { color: colors.text }]}>Download</Text>
+              {download && download.status !== 'failed' && (
+                <Text style={[styles.optionValue, { color: colors.textMuted }]}>
+                  {download.status === 'ready' ? 'Downloaded' : 'In your downloads'}
+                </Text>
+              )}
+            </Pressable>
+          )}
+
           {/* Options */}
           {options.map(({ action, icon: Icon, label, color }) => (
             <Pressable
@@ -239,6 +428,31 @@ const styles = StyleSheet.create({
     fontFamily: TYPOGRAPHY.fontFamily.medium,
     fontSize: TYPOGRAPHY.fontSize.base,
   },
+  optionValue: {
+    marginLeft: 'auto',
+    fontFamily: TYPOGRAPHY.fontFamily.regular,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  qualityRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.sm,
+    paddingHorizontal: SPACING.lg,
+    paddingBottom: SPACING.sm,
+  },
+  qualityChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.xs,
+    borderWidth: 1,
+    borderRadius: RADIUS.full,
+    paddingHorizontal: SPACING.md,
+    minHeight: 36,
+  },
+  qualityChipLabel: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
   cancelOption: {
     borderTopWidth: StyleSheet.hairlineWidth,
     marginTop: SPACING.xs,
@@ -11,10 +11,19 @@
  * 6. Playback Speed — 0.25x–2x via the settings menu (player.playbackRate)
  * 7. Immersive Gestures — Volume/brightness with visual HUD overlays
  * 8. Reduced Motion — Respects OS-level motion preferences
+ * 9. Adaptive Quality — HLS ladder picked per network/data saver, with a
+ *    manual Quality submenu (utils/videoRendition)
+ * 10. Captions — CC button + language submenu over the video's caption tracks,
+ *    drawn by CaptionOverlay in the system's accessibility styling
+ * 11. Livestream Replays — peak-viewers badge and the stream's chat (LiveChat,
+ *    read-only) replayed in sync with the playhead, toggled from the top bar
+ * 12. Resume Playback — picks up where the viewer left off (watch history),
+ *    with a brief "Start over" notice; the playhead is recorded as they watch
+ * 13. Series Auto-advance — when a part of a series ends, an "Up next" card
+ *    counts down to the next part (onPlayNext), with Play now and Cancel
  *
- * Honest-UX note: quality selection, captions, silence-skip, and gift controls
- * were removed — they were state-only placeholders with no real behavior
- * (single-rendition R2 MP4s, no captions pipeline). Re-add each only when the
+ * Honest-UX note: silence-skip and gift controls were removed — they were
+ * state-only placeholders with no real behavior. Re-add each only when the
  * backing capability ships.
  *
  * @example
@@ -68,7 +77,14 @@ import {
   ChevronRight,
   Check,
   Gauge,
+  Layers,
   Sun,
+  Captions,
+  CaptionsOff,
+  MessageSquare,
+  MessageSquareOff,
+  Radio,
+  ListVideo,
 } from 'lucide-react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import {
@@ -83,6 +99,17 @@ import {
 } from '@/utils/theme';
 import { Video } from '@/types';
 import { ProgressBar } from '../ui/ProgressBar';
+import { useRenditionSwitch, useVideoRendition } from '@/hooks/useVideoRendition';
+import { useVideoStore, selectVideoQuality } from '@/store/VideoStore';
+import { hasQualityChoices, qualityOptionsFor, renditionLabel, type VideoQuality } from '@/utils/videoRendition';
+import { useCaptionTrack } from '@/hooks/useCaptionTrack';
+import { getCaptionLanguageName } from '@/utils/captions';
+import { CaptionOverlay } from './CaptionOverlay';
+import { useReplayChat } from '@/hooks/useReplayChat';
+import { LiveChat } from '../livestream/LiveChat';
+import { useWatchProgress } from '@/hooks/useWatchProgress';
+import { usePlaylist } from '@/services/videoHooks';
+import { AUTO_ADVANCE_SECONDS, nextPart } from '@/utils/playlists';
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 
@@ -131,6 +158,8 @@ enum SettingsMenu {
   None = 'none',
   Main = 'main',
   Speed = 'speed',
+  Quality = 'quality',
+  Captions = 'captions',
 }
 
 /**
@@ -147,11 +176,20 @@ const PLAYBACK_SPEEDS = [
   { label: '2x', value: 2 },
 ];
 
-// NOTE: there is intentionally NO quality menu / captions / silence-skip UI.
-// R2 stores a single MP4 per video (no renditions) and no captions pipeline
-// exists — earlier versions shipped those controls as state-only toggles that
-// did nothing. Honest UX: re-add them only when a transcoding/captions
-// pipeline makes them real.
+// NOTE: there is intentionally NO silence-skip UI — earlier versions shipped
+// it as a state-only toggle that did nothing. Quality and Captions are real,
+// and each only shows once the video has something to offer: a ready HLS
+// ladder (until then there is just the MP4) or at least one caption track.
+
+/** Caption lift while the bottom controls (title, stats, progress) are showing */
+const CAPTION_OFFSET_WITH_CONTROLS = 160;
+
+/** Replay chat sits this far above the caption line so the two never overlap */
+const REPLAY_CHAT_CAPTION_GAP = 72;
+
+/** How long the "Resumed at" notice stays up (ms), and how far below the safe area */
+const RESUME_NOTICE_DURATION = 5000;
+const RESUME_NOTICE_TOP = 72;
 
 /**
  * Props for the VideoPlayer component
@@ -179,6 +217,8 @@ export interface VideoPlayerProps {
   onSpeedChange?: (speed: number) => void;
   /** Callback when video ends */
   onVideoEnd?: () => void;
+  /** Play the next part of the video's series — without it, a series part just ends */
+  onPlayNext?: (video: Video) => void;
   /** Whether the screen containing the player is focused (for pausing on navigation) */
   isFocused?: boolean;
   /** Test ID for testing */
@@ -234,6 +274,7 @@ function VideoPlayerComponent({
   initialSpeed = 1,
   onSpeedChange,
   onVideoEnd,
+  onPlayNext,
   isFocused = true,
   testID,
 }: VideoPlayerProps): React.ReactElement | null {
@@ -299,8 +340,31 @@ function VideoPlayerComponent({
     return url.length > 0 ? url : null;
   }, [videoSource]);
 
+  // HLS master / pinned rung when the video has a ladder, else the MP4 prop
+  const rendition = useVideoRendition({ videoUrl: safeSource ?? '', hls: videoDetails?.hls });
+  const quality = useVideoStore(selectVideoQuality);
+  const setQuality = useVideoStore((s) => s.setQuality);
+  const showQualityMenu = hasQualityChoices(videoDetails);
+
+  // Caption tracks — the CC preference is shared with the feed (VideoStore)
+  const captions = useCaptionTrack(videoDetails);
+  const showCaptionsMenu = captions.languages.length > 0;
+  const captionLabelFor = useCallback(
+    (language: string) =>
+      captions.tracks.find((t) => t.language === language)?.label ?? getCaptionLanguageName(language),
+    [captions.tracks],
+  );
+
+  // Livestream replay — chat follows the scrub preview while seeking
+  const replay = useReplayChat(videoDetails, isSeeking ? seekPreviewTime : currentTime);
+
+  // The player is built once per video; later rendition switches (quality
+  // pick, Wi-Fi → cellular) swap its source in place so the position survives.
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const initialSource = useMemo(() => rendition.uri, [safeSource, videoDetails?.id]);
+
   // Initialize video player with error handling for keep-awake issues in Expo Go
-  const player = useVideoPlayer(safeSource, (playerInstance) => {
+  const player = useVideoPlayer(initialSource, (playerInstance) => {
     try {
       playerInstance.loop = loop;
       playerInstance.volume = volume;
@@ -312,6 +376,21 @@ function VideoPlayerComponent({
     }
   });
 
+  useRenditionSwitch(player, initialSource, rendition.uri);
+
+  // Resume where the viewer left off; a live stream has no position to keep
+  const watchProgress = useWatchProgress(player, videoDetails?.id, !videoDetails?.isLive);
+  const [resumeNoticeVisible, setResumeNoticeVisible] = useState(false);
+  useEffect(() => {
+    if (watchProgress.resumedAt === null) {
+      setResumeNoticeVisible(false);
+      return;
+    }
+    setResumeNoticeVisible(true);
+    const timer = setTimeout(() => setResumeNoticeVisible(false), RESUME_NOTICE_DURATION);
+    return () => clearTimeout(timer);
+  }, [watchProgress.resumedAt]);
+
   // Derived state
   const isPlaying = playbackState === PlaybackState.Playing;
   const isBuffering = playbackState === PlaybackState.Buffering;
@@ -319,6 +398,39 @@ function VideoPlayerComponent({
   const hasEnded = playbackState === PlaybackState.Ended;
   const hasError = playbackState === PlaybackState.Error;
 
+  // Series auto-advance — the next part comes from the series' own order
+  const { data: series } = usePlaylist(onPlayNext ? videoDetails?.series?.id : null);
+  const upNext = useMemo(
+    () => (series && videoDetails ? nextPart(series.videos, videoDetails.id) : null),
+    [series, videoDetails],
+  );
+  const [upNextCancelled, setUpNextCancelled] = useState(false);
+  const [upNextSeconds, setUpNextSeconds] = useState(AUTO_ADVANCE_SECONDS);
+  const showUpNext = hasEnded && !!upNext && !upNextCancelled;
+  const onPlayNextRef = useRef(onPlayNext);
+  useEffect(() => {
+    onPlayNextRef.current = onPlayNext;
+  }, [onPlayNext]);
+
+  useEffect(() => {
+    setUpNextCancelled(false);
+  }, [videoDetails?.id]);
+
+  useEffect(() => {
+    if (!showUpNext || !upNext) return;
+    let remaining = AUTO_ADVANCE_SECONDS;
+    setUpNextSeconds(remaining);
+    const timer = setInterval(() => {
+      remaining -= 1;
+      setUpNextSeconds(remaining);
+      if (remaining <= 0) {
+        clearInterval(timer);
+        onPlayNextRef.current?.(upNext);
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [showUpNext, upNext]);
+
   // ============================================================================
   // EFFECTS
   // ============================================================================
@@ -786,6 +898,35 @@ function VideoPlayerComponent({
     showControls();
   }, [showControls]);
 
+  // Pick a rendition ('auto' hands it back to network + data saver)
+  const handleQualityChange = useCallback((value: VideoQuality) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Rigid);
+    setQuality(value);
+    setSettingsMenu(SettingsMenu.None);
+    showControls();
+  }, [setQuality, showControls]);
+
+  // Pick a caption language (null turns captions off)
+  const handleCaptionsChange = useCallback((language: string | null) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Rigid);
+    captions.setLanguage(language);
+    setSettingsMenu(SettingsMenu.None);
+    showControls();
+  }, [captions, showControls]);
+
+  // CC button — off, or back on in the last language picked
+  const toggleCaptions = useCallback(() => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    captions.toggle();
+    showControls();
+  }, [captions, showControls]);
+
+  const toggleReplayChat = useCallback(() => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    replay.toggle();
+    showControls();
+  }, [replay, showControls]);
+
   // ============================================================================
   // OTHER HANDLERS
   // ============================================================================
@@ -850,6 +991,110 @@ function VideoPlayerComponent({
                   <ChevronRight size={ICON_SIZE.sm} color={colors.textMuted} strokeWidth={2} />
                 </View>
               </TouchableOpacity>
+              {showQualityMenu && (
+                <TouchableOpacity
+                  style={styles.settingsItem}
+                  onPress={() => setSettingsMenu(SettingsMenu.Quality)}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Quality, ${renditionLabel(rendition)}`}
+                >
+                  <View style={styles.settingsItemLeft}>
+                    <Layers size={ICON_SIZE.md} color={colors.text} strokeWidth={2} />
+                    <Text style={[styles.settingsItemText, { color: colors.text }]}>Quality</Text>
+                  </View>
+                  <View style={styles.settingsItemRight}>
+                    <Text style={[styles.settingsItemValue, { color: colors.textMuted }]}>
+                      {renditionLabel(rendition)}
+                    </Text>
+                    <ChevronRight size={ICON_SIZE.sm} color={colors.textMuted} strokeWidth={2} />
+                  </View>
+                </TouchableOpacity>
+              )}
+              {showCaptionsMenu && (
+                <TouchableOpacity
+                  style={styles.settingsItem}
+                  onPress={() => setSettingsMenu(SettingsMenu.Captions)}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Captions, ${captions.language ? captionLabelFor(captions.language) : 'Off'}`}
+                >
+                  <View style={styles.settingsItemLeft}>
+                    <Captions size={ICON_SIZE.md} color={colors.text} strokeWidth={2} />
+                    <Text style={[styles.settingsItemText, { color: colors.text }]}>Captions</Text>
+                  </View>
+                  <View style={styles.settingsItemRight}>
+                    <Text style={[styles.settingsItemValue, { color: colors.textMuted }]}>
+                      {captions.language ? captionLabelFor(captions.language) : 'Off'}
+                    </Text>
+                    <ChevronRight size={ICON_SIZE.sm} color={colors.textMuted} strokeWidth={2} />
+                  </View>
+                </TouchableOpacity>
+              )}
+            </>
+          )}
+
+          {settingsMenu === SettingsMenu.Captions && (
+            <>
+              <TouchableOpacity
+                style={styles.settingsHeader}
+                onPress={() => setSettingsMenu(SettingsMenu.Main)}
+              >
+                <ChevronRight
+                  size={ICON_SIZE.md}
+                  color={colors.text}
+                  strokeWidth={2}
+                  style={{ transform: [{ rotate: '180deg' }] }}
+                />
+                <Text style={[styles.settingsTitle, { color: colors.text }]}>Captions</Text>
+              </TouchableOpacity>
+              {[null, ...captions.languages].map((language) => (
+                <TouchableOpacity
+                  key={language ?? 'off'}
+                  style={styles.settingsItem}
+                  onPress={() => handleCaptionsChange(language)}
+                  accessibilityRole="radio"
+                  accessibilityState={{ checked: captions.language === language }}
+                >
+                  <Text style={[styles.settingsItemText, { color: colors.text }]}>
+                    {language ? captionLabelFor(language) : 'Off'}
+                  </Text>
+                  {captions.language === language && (
+                    <Check size={ICON_SIZE.md} color={colors.primary} strokeWidth={2} />
+                  )}
+                </TouchableOpacity>
+              ))}
+            </>
+          )}
+
+          {settingsMenu === SettingsMenu.Quality && (
+            <>
+              <TouchableOpacity
+                style={styles.settingsHeader}
+                onPress={() => setSettingsMenu(SettingsMenu.Main)}
+              >
+                <ChevronRight
+                  size={ICON_SIZE.md}
+                  color={colors.text}
+                  strokeWidth={2}
+                  style={{ transform: [{ rotate: '180deg' }] }}
+                />
+                <Text style={[styles.settingsTitle, { color: colors.text }]}>Quality</Text>
+              </TouchableOpacity>
+              {qualityOptionsFor(videoDetails).map((option) => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={styles.settingsItem}
+                  onPress={() => handleQualityChange(option.value)}
+                  accessibilityRole="radio"
+                  accessibilityState={{ checked: quality === option.value }}
+                >
+                  <Text style={[styles.settingsItemText, { color: colors.text }]}>
+                    {option.value === 'auto' && quality === 'auto' ? renditionLabel(rendition) : option.label}
+                  </Text>
+                  {quality === option.value && (
+                    <Check size={ICON_SIZE.md} color={colors.primary} strokeWidth={2} />
+                  )}
+                </TouchableOpacity>
+              ))}
             </>
           )}
 
@@ -1053,6 +1298,107 @@ function VideoPlayerComponent({
             </View>
           )}
 
+          {/* Resume notice — tap to start from the beginning instead */}
+          {resumeNoticeVisible && watchProgress.resumedAt !== null && (
+            <View
+              style={[
+                styles.resumeNotice,
+                { top: insets.top + RESUME_NOTICE_TOP, backgroundColor: withAlpha(colors.card, 0.9) },
+              ]}
+              accessibilityLiveRegion="polite"
+              testID="video-player-resume-notice"
+            >
+              <Text style={[styles.resumeNoticeText, { color: colors.text }]}>
+                Resumed at {formatDuration(watchProgress.resumedAt)}
+              </Text>
+              <TouchableOpacity
+                style={styles.resumeNoticeAction}
+                onPress={() => {
+                  watchProgress.startOver();
+                  Haptics.selectionAsync();
+                }}
+                accessibilityRole="button"
+                accessibilityLabel="Start over from the beginning"
+              >
+                <RotateCcw size={ICON_SIZE.sm} color={colors.primary} strokeWidth={2} />
+                <Text style={[styles.resumeNoticeActionText, { color: colors.primary }]}>Start over</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {/* Up next — the series' next part, counting down */}
+          {showUpNext && upNext && (
+            <View
+              style={[
+                styles.upNext,
+                { top: insets.top + RESUME_NOTICE_TOP, backgroundColor: withAlpha(colors.card, 0.95) },
+              ]}
+              accessibilityLiveRegion="polite"
+              testID="video-player-up-next"
+            >
+              <View style={styles.upNextHeader}>
+                <ListVideo size={ICON_SIZE.sm} color={colors.primary} strokeWidth={2} />
+                <Text style={[styles.upNextLabel, { color: colors.textSecondary }]}>
+                  Up next{upNext.series ? `: Part ${upNext.series.part}` : ''} in {Math.max(0, upNextSeconds)}s
+                </Text>
+              </View>
+              <Text style={[styles.upNextTitle, { color: colors.text }]} numberOfLines={2}>
+                {upNext.title || 'Untitled video'}
+              </Text>
+              <View style={styles.upNextActions}>
+                <TouchableOpacity
+                  style={styles.resumeNoticeAction}
+                  onPress={() => {
+                    setUpNextCancelled(true);
+                    Haptics.selectionAsync();
+                  }}
+                  accessibilityRole="button"
+                  accessibilityLabel="Cancel playing the next part"
+                >
+                  <Text style={[styles.resumeNoticeActionText, { color: colors.textSecondary }]}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.resumeNoticeAction}
+                  onPress={() => {
+                    Haptics.selectionAsync();
+                    onPlayNext?.(upNext);
+                  }}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Play ${upNext.title || 'the next part'} now`}
+                >
+                  <Play size={ICON_SIZE.sm} color={colors.primary} strokeWidth={2} />
+                  <Text style={[styles.resumeNoticeActionText, { color: colors.primary }]}>Play now</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+
+          {/* Captions — lifted above the bottom controls while they show */}
+          {captions.language && (
+            <CaptionOverlay
+              cues={captions.cues}
+              currentTime={isSeeking ? seekPreviewTime : currentTime}
+              bottomOffset={insets.bottom + (controlsVisible ? CAPTION_OFFSET_WITH_CONTROLS : SPACING.xl)}
+            />
+          )}
+
+          {/* Replay chat — read-only, above the caption line */}
+          {replay.isReplay && replay.visible && videoDetails?.replay && (
+            <View style={StyleSheet.absoluteFill} pointerEvents="none">
+              <LiveChat
+                sessionId={videoDetails.replay.sessionId}
+                replayMessages={replay.messages}
+                maxHeight={220}
+                style={{
+                  bottom:
+                    insets.bottom +
+                    (controlsVisible ? CAPTION_OFFSET_WITH_CONTROLS : SPACING.xl) +
+                    REPLAY_CHAT_CAPTION_GAP,
+                }}
+              />
+            </View>
+          )}
+
           {/* Controls Overlay */}
           <Animated.View
             style={[
@@ -1077,9 +1423,54 @@ function VideoPlayerComponent({
                 <X size={ICON_SIZE.lg} color={colors.text} strokeWidth={2} />
               </TouchableOpacity>
 
-              <View style={styles.topCenter} />
+              <View style={styles.topCenter}>
+                {replay.isReplay && (
+                  <View
+                    style={[styles.replayBadge, { backgroundColor: withAlpha(colors.card, 0.6) }]}
+                    accessibilityLabel={`Livestream replay, ${replay.peakViewers} peak viewers`}
+                    testID="video-player-replay-badge"
+                  >
+                    <Radio size={ICON_SIZE.sm} color={colors.error} strokeWidth={2} />
+                    <Text style={[styles.replayBadgeText, { color: colors.text }]}>
+                      Replay · {formatCount(replay.peakViewers)} peak
+                    </Text>
+                  </View>
+                )}
+              </View>
 
               <View style={styles.topActions}>
+                {replay.isReplay && (
+                  <TouchableOpacity
+                    onPress={toggleReplayChat}
+                    style={[styles.iconButton, { backgroundColor: withAlpha(colors.card, 0.6) }]}
+                    accessibilityLabel={replay.visible ? 'Hide stream chat' : 'Show stream chat'}
+                    accessibilityRole="switch"
+                    accessibilityState={{ checked: replay.visible }}
+                    testID="video-player-replay-chat"
+                  >
+                    {replay.visible ? (
+                      <MessageSquare size={ICON_SIZE.lg} color={colors.primary} strokeWidth={2} />
+                    ) : (
+                      <MessageSquareOff size={ICON_SIZE.lg} color={colors.text} strokeWidth={2} />
+                    )}
+                  </TouchableOpacity>
+                )}
+                {showCaptionsMenu && (
+                  <TouchableOpacity
+                    onPress={toggleCaptions}
+                    style={[styles.iconButton, { backgroundColor: withAlpha(colors.card, 0.6) }]}
+                    accessibilityLabel={captions.language ? 'Turn captions off' : 'Turn captions on'}
+                    accessibilityRole="switch"
+                    accessibilityState={{ checked: captions.language !== null }}
+                    testID="video-player-captions"
+                  >
+                    {captions.language ? (
+                      <Captions size={ICON_SIZE.lg} color={colors.primary} strokeWidth={2} />
+                    ) : (
+                      <CaptionsOff size={ICON_SIZE.lg} color={colors.text} strokeWidth={2} />
+                    )}
+                  </TouchableOpacity>
+                )}
                 <TouchableOpacity
                   onPress={toggleSettings}
                   style={[styles.iconButton, { backgroundColor: withAlpha(colors.card, 0.6) }]}
@@ -1355,6 +1746,59 @@ const styles = StyleSheet.create({
     fontFamily: TYPOGRAPHY.fontFamily.bold,
     fontSize: TYPOGRAPHY.fontSize['2xl'],
   },
+  resumeNotice: {
+    position: 'absolute',
+    alignSelf: 'center',
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.md,
+    paddingLeft: SPACING.md,
+    paddingRight: SPACING.xs,
+    paddingVertical: SPACING.xs,
+    borderRadius: RADIUS.full,
+  },
+  resumeNoticeText: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  resumeNoticeAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.xs,
+    minHeight: COMPONENT_SIZE.touchTarget,
+    paddingHorizontal: SPACING.sm,
+  },
+  resumeNoticeActionText: {
+    fontFamily: TYPOGRAPHY.fontFamily.bold,
+    fontSize: TYPOGRAPHY.fontSize.sm,
+  },
+  upNext: {
+    position: 'absolute',
+    left: SPACING.lg,
+    right: SPACING.lg,
+    gap: SPACING.xs,
+    paddingTop: SPACING.md,
+    paddingHorizontal: SPACING.md,
+    paddingBottom: SPACING.xs,
+    borderRadius: RADIUS.lg,
+  },
+  upNextHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.xs,
+  },
+  upNextLabel: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
+  upNextTitle: {
+    fontFamily: TYPOGRAPHY.fontFamily.bold,
+    fontSize: TYPOGRAPHY.fontSize.base,
+  },
+  upNextActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+  },
   // Loading & Error states
   loadingOverlay: {
     ...StyleSheet.absoluteFillObject,
@@ -1410,6 +1854,18 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     gap: SPACING.sm,
   },
+  replayBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.xs,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xs,
+    borderRadius: RADIUS.full,
+  },
+  replayBadgeText: {
+    fontFamily: TYPOGRAPHY.fontFamily.medium,
+    fontSize: TYPOGRAPHY.fontSize.xs,
+  },
   iconButton: {
     width: COMPONENT_SIZE.touchTarget,
     height: COMPONENT_SIZE.touchTarget,
@@ -46,6 +46,14 @@ export type { VideoCommentsSheetProps } from './VideoCommentsSheet';
 export { VideoOptionsSheet } from './VideoOptionsSheet';
 export type { VideoOptionsSheetProps, VideoOptionsAction } from './VideoOptionsSheet';
 
+// Playlist Shelf (a creator's playlists and series as a row of cards)
+export { PlaylistShelf } from './PlaylistShelf';
+export type { PlaylistShelfProps } from './PlaylistShelf';
+
+// Caption Overlay (caption lines drawn over a playing video)
+export { CaptionOverlay } from './CaptionOverlay';
+export type { CaptionOverlayProps } from './CaptionOverlay';
+
 // Video Error Boundary (Crash isolation for video components)
 export { VideoErrorBoundary } from './VideoErrorBoundary';
 
@@ -0,0 +1,58 @@
+import { useCallback, useMemo } from 'react';
+import type { CaptionCue, Video, VideoCaptionTrack } from '@/types';
+import { useVideoStore, selectCaptionsEnabled, selectCaptionLanguage } from '@/store/VideoStore';
+import { useVideoCaptions } from '@/services/videoHooks';
+import { nextCaptionLanguage, pickCaptionLanguage } from '@/utils/captions';
+
+export interface CaptionTrackState {
+  /** Languages this video has ready captions in */
+  languages: string[];
+  /** The track being shown — null when captions are off or the video has none */
+  language: string | null;
+  /** Cues of that track — empty until they load */
+  cues: CaptionCue[];
+  /** Ready tracks, for labels in a language picker (loaded once captions are on) */
+  tracks: VideoCaptionTrack[];
+  /** Turn captions on in a language, or off with null */
+  setLanguage: (language: string | null) => void;
+  /** CC button: off, or back on in the last language picked */
+  toggle: () => void;
+  /** Off → each language → off (the feed's single CC button) */
+  cycle: () => void;
+}
+
+const NO_CUES: CaptionCue[] = [];
+
+/**
+ * Caption state for `video` from the persisted CC preference (VideoStore).
+ * Cues are only fetched once captions are on and `active` — feeds pass their
+ * active item only, so scrolling past captioned videos costs nothing.
+ */
+export function useCaptionTrack(
+  video: Pick<Video, 'id' | 'captionLanguages'> | null | undefined,
+  active: boolean = true,
+): CaptionTrackState {
+  const enabled = useVideoStore(selectCaptionsEnabled);
+  const preferred = useVideoStore(selectCaptionLanguage);
+  const setCaptions = useVideoStore((s) => s.setCaptions);
+
+  const languages = useMemo(() => video?.captionLanguages ?? [], [video?.captionLanguages]);
+  const language = pickCaptionLanguage(languages, { enabled, language: preferred });
+
+  const { data } = useVideoCaptions(video?.id, { enabled: active && language !== null });
+  const tracks = useMemo(() => (data ?? []).filter((t) => t.status === 'ready'), [data]);
+  const cues = tracks.find((t) => t.language === language)?.cues ?? NO_CUES;
+
+  const toggle = useCallback(() => {
+    setCaptions(language ? null : pickCaptionLanguage(languages, { enabled: true, language: preferred }));
+  }, [languages, language, preferred, setCaptions]);
+
+  const cycle = useCallback(() => {
+    setCaptions(nextCaptionLanguage(languages, language));
+  }, [languages, language, setCaptions]);
+
+  return useMemo(
+    () => ({ languages, language, cues, tracks, setLanguage: setCaptions, toggle, cycle }),
+    [languages, language, cues, tracks, setCaptions, toggle, cycle],
+  );
+}
@@ -0,0 +1,202 @@
+/**
+ * useOfflineDownloadProcessor
+ *
+ * Works through the offline download queue (OfflineDownloadStore) and keeps
+ * finished downloads licensed. Mount ONCE in _layout.tsx, alongside the other
+ * queue processors.
+ *
+ * - Downloads one video at a time, only when the network allows it
+ *   (Wi-Fi only unless the viewer turned that off in AppSettingsStore)
+ * - Refuses a video that would take the downloads past the storage cap
+ * - A download cut off by losing the connection is queued again without
+ *   using an attempt; others fail after MAX_DOWNLOAD_ATTEMPTS
+ * - Whenever online: renews every download's expiry from the server, or
+ *   deletes them all once video premium has lapsed
+ * - Deletes expired downloads, and another account's, on launch and foreground
+ *
+ * Follows the same architecture as useUploadQueueProcessor.
+ */
+
+import { useEffect, useRef } from 'react';
+import { AppState } from 'react-native';
+import NetInfo, { NetInfoStateType } from '@react-native-community/netinfo';
+import { onlineManager } from '@tanstack/react-query';
+import { videoApi } from '@/services/videoApi';
+import {
+  clearOfflineScratch,
+  deleteOfflineFiles,
+  downloadOfflineVideo,
+} from '@/services/offlineDownloadService';
+import { useOfflineDownloadStore, type OfflineDownload } from '@/store/OfflineDownloadStore';
+import { useAppSettingsStore } from '@/store/AppSettingsStore';
+import { useAuthStore } from '@/utils/auth/store';
+import { formatFileSize } from '@/utils/video-utils';
+import {
+  MAX_DOWNLOAD_ATTEMPTS,
+  fitsStorageCap,
+  isDownloadExpired,
+  nextQueuedDownload,
+  queueBlocker,
+} from '@/utils/offlineDownloads';
+
+/** Progress is written to the (persisted) store at most this often */
+const PROGRESS_STEP = 0.02;
+
+async function currentBlocker() {
+  const net = await NetInfo.fetch();
+  const isWifi = net.type === NetInfoStateType.wifi || net.type === NetInfoStateType.ethernet;
+  const isOnline = net.isConnected !== false && net.isInternetReachable !== false;
+  return queueBlocker({ isOnline, isWifi }, useAppSettingsStore.getState().downloadWifiOnly);
+}
+
+async function deleteDownloads(downloads: OfflineDownload[]) {
+  for (const download of downloads) {
+    await deleteOfflineFiles(download.videoId, download.fileUri);
+    useOfflineDownloadStore.getState().removeDownload(download.videoId);
+  }
+}
+
+export function useOfflineDownloadProcessor() {
+  const isProcessingRef = useRef(false);
+  const isRenewingRef = useRef(false);
+
+  useEffect(() => {
+    /** Another account's downloads and expired ones go; true when someone is signed in */
+    const prune = async () => {
+      const userId = useAuthStore.getState().auth?.user?.id;
+      if (!userId) return false;
+      const stale = useOfflineDownloadStore
+        .getState()
+        .downloads.filter((d) => d.userId !== userId || isDownloadExpired(d));
+      await deleteDownloads(stale);
+      return true;
+    };
+
+    const renew = async () => {
+      if (isRenewingRef.current || !onlineManager.isOnline()) return;
+      if (!useAuthStore.getState().auth?.token) return;
+      if (useOfflineDownloadStore.getState().downloads.length === 0) return;
+
+      isRenewingRef.current = true;
+      try {
+        const res = await videoApi.getDownloadEntitlement();
+        if (!res.success) return; // couldn't check — keep everything until next time
+        if (res.data) {
+          useOfflineDownloadStore.getState().renewDownloads(res.data.expiresAt);
+        } else {
+          await deleteDownloads(useOfflineDownloadStore.getState().downloads);
+        }
+      } finally {
+        isRenewingRef.current = false;
+      }
+    };
+
+    const runDownload = async (download: OfflineDownload) => {
+      const store = useOfflineDownloadStore.getState();
+      store.updateDownload(download.videoId, { status: 'downloading', progress: 0, error: null });
+      let lastProgress = 0;
+      try {
+        const result = await downloadOfflineVideo(download.videoId, {
+          onLicensed: (sizeBytes) => {
+            const cap = useAppSettingsStore.getState().downloadStorageCapBytes;
+            const { downloads } = useOfflineDownloadStore.getState();
+            if (fitsStorageCap(downloads, download.videoId, sizeBytes, cap)) {
+              useOfflineDownloadStore.getState().updateDownload(download.videoId, { sizeBytes });
+              return true;
+            }
+            useOfflineDownloadStore.getState().updateDownload(download.videoId, {
+              status: 'failed',
+              error: `Over your ${formatFileSize(cap)} download limit`,
+            });
+            return false;
+          },
+          onProgress: (progress) => {
+            if (progress - lastProgress < PROGRESS_STEP) return;
+            lastProgress = progress;
+            useOfflineDownloadStore.getState().updateDownload(download.videoId, { progress });
+          },
+        });
+        // null: refused over the cap, or removed while downloading
+        if (!result) return;
+
+        if (!useOfflineDownloadStore.getState().downloads.some((d) => d.videoId === download.videoId)) {
+          // Removed while the file was being encrypted
+          await deleteOfflineFiles(download.videoId, result.fileUri);
+          return;
+        }
+        useOfflineDownloadStore.getState().updateDownload(download.videoId, {
+          status: 'ready',
+          progress: 1,
+          fileUri: result.fileUri,
+          sizeBytes: result.sizeBytes,
+          expiresAt: result.expiresAt,
+          completedAt: new Date().toISOString(),
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Download failed';
+        const current = useOfflineDownloadStore.getState().downloads.find((d) => d.videoId === download.videoId);
+        if (!current) return;
+        if (await currentBlocker()) {
+          // The connection went — try again once it is back, without using an attempt
+          useOfflineDownloadStore.getState().updateDownload(download.videoId, { status: 'queued', progress: 0 });
+          return;
+        }
+        const attempts = current.attempts + 1;
+        useOfflineDownloadStore.getState().updateDownload(download.videoId, {
+          status: attempts >= MAX_DOWNLOAD_ATTEMPTS ? 'failed' : 'queued',
+          progress: 0,
+          attempts,
+          error: message,
+        });
+      }
+    };
+
+    const processQueue = async () => {
+      if (isProcessingRef.current) return;
+      isProcessingRef.current = true;
+      try {
+        if (!(await prune())) return;
+        for (;;) {
+          if (await currentBlocker()) return;
+          const next = nextQueuedDownload(useOfflineDownloadStore.getState().downloads);
+          if (!next) return;
+          await runDownload(next);
+        }
+      } finally {
+        isProcessingRef.current = false;
+      }
+    };
+
+    const onActive = () => {
+      renew().finally(processQueue);
+    };
+
+    // New items in the queue
+    const unsubscribeStore = useOfflineDownloadStore.subscribe((state, prev) => {
+      if (state.downloads !== prev.downloads && nextQueuedDownload(state.downloads)) processQueue();
+    });
+    // Wi-Fi only switched off
+    const unsubscribeSettings = useAppSettingsStore.subscribe((state, prev) => {
+      if (state.downloadWifiOnly !== prev.downloadWifiOnly) processQueue();
+    });
+    const unsubscribeNet = NetInfo.addEventListener(() => {
+      processQueue();
+    });
+    const unsubscribeOnline = onlineManager.subscribe((isOnline) => {
+      if (isOnline) onActive();
+    });
+    const appState = AppState.addEventListener('change', (next) => {
+      if (next === 'active') onActive();
+    });
+
+    clearOfflineScratch().finally(onActive);
+
+    return () => {
+      unsubscribeStore();
+      unsubscribeSettings();
+      unsubscribeNet();
+      unsubscribeOnline();
+      appState.remove();
+    };
+  }, []);
+}
@@ -0,0 +1,56 @@
+import { useCallback, useMemo, useState } from 'react';
+import type { LivestreamChatMessage, Video } from '@/types';
+import { useReplayChatWindows } from '@/services/videoHooks';
+import { REPLAY_CHAT_VISIBLE, REPLAY_CHAT_WINDOW_MS, playheadIndex, replayChatWindows } from '@/utils/replayChat';
+
+export interface ReplayChatState {
+  /** Whether the video is a livestream replay at all */
+  isReplay: boolean;
+  /** Peak concurrent viewers during the stream (0 for ordinary videos) */
+  peakViewers: number;
+  /** Chat as it stood at the playhead — empty while hidden */
+  messages: LivestreamChatMessage[];
+  /** Whether the chat overlay is shown */
+  visible: boolean;
+  toggle: () => void;
+}
+
+const NO_MESSAGES: LivestreamChatMessage[] = [];
+
+/**
+ * Chat playback for a livestream replay, synced to `positionSeconds` (the
+ * player's playhead — pass the seek preview while scrubbing). Windows around
+ * the playhead load only while the chat is shown and `active`, so feeds can
+ * pass their active item only.
+ */
+export function useReplayChat(
+  video: Pick<Video, 'id' | 'replay'> | null | undefined,
+  positionSeconds: number,
+  active: boolean = true,
+): ReplayChatState {
+  const [visible, setVisible] = useState(true);
+  const isReplay = !!video?.replay;
+  const positionMs = Math.max(0, Math.round(positionSeconds * 1000));
+
+  // Re-derive the window list only when the playhead crosses a window boundary
+  const windowIndex = Math.floor(positionMs / REPLAY_CHAT_WINDOW_MS);
+  const windowStarts = useMemo(() => replayChatWindows(windowIndex * REPLAY_CHAT_WINDOW_MS), [windowIndex]);
+
+  const { messages: loaded } = useReplayChatWindows(video?.id, windowStarts, {
+    enabled: isReplay && visible && active,
+  });
+  // Keyed by how many messages the playhead has passed, so the list only
+  // changes when a message is crossed — not on every tick
+  const end = playheadIndex(loaded, positionMs);
+  const messages = useMemo(
+    () => (isReplay && visible ? loaded.slice(Math.max(0, end - REPLAY_CHAT_VISIBLE), end) : NO_MESSAGES),
+    [isReplay, visible, loaded, end],
+  );
+
+  const toggle = useCallback(() => setVisible((v) => !v), []);
+
+  return useMemo(
+    () => ({ isReplay, peakViewers: video?.replay?.peakViewers ?? 0, messages, visible, toggle }),
+    [isReplay, video?.replay?.peakViewers, messages, visible, toggle],
+  );
+}
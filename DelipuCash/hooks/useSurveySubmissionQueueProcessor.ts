@@ -0,0 +1,201 @@
+/**
+ * useSurveySubmissionQueueProcessor
+ *
+ * Submits survey attempts queued offline (SurveySubmissionQueueStore) when the device
+ * comes back online, once on mount for attempts left over from a previous session, and
+ * straight away when an attempt is queued while the device still reports online.
+ * Mount ONCE in _layout.tsx, alongside the other queue processors.
+ *
+ * - Per-user guard: only the signed-in user's attempts are sent; another user's wait for them
+ * - Staged files are uploaded first and their answers swapped for the real file ids
+ * - Every submit carries the attempt's idempotency key, so a replay is safe
+ * - A network failure stops the pass without using up a retry — a finished survey is
+ *   never dropped for bad signal. Only server rejections count toward MAX_RETRIES.
+ * - A screener or quota refusal is final — the attempt is dropped on the first one
+ */
+
+import { useEffect, useRef } from 'react';
+import { onlineManager, useQueryClient } from '@tanstack/react-query';
+import { useAuthStore } from '@/utils/auth/store';
+import { useToast } from '@/components/ui/Toast';
+import { queryKeys } from '@/services/hooks';
+import { surveyApi, isSubmissionRejected } from '@/services/surveyApi';
+import { uploadSurveyFile } from '@/services/surveyFileApi';
+import { deleteStagedSurveyFile, stagedFileExists } from '@/utils/surveyFileStaging';
+import {
+  getStagedFileId,
+  useSurveySubmissionQueueStore,
+  type QueuedSurveySubmission,
+} from '@/store/SurveySubmissionQueueStore';
+
+const MAX_RETRIES = 3;
+
+/** Refusals no replay can change: the respondent doesn't qualify or their quota filled */
+const FINAL_REFUSAL_CODES = ['SCREENED_OUT', 'OVER_QUOTA'];
+
+type ReplayOutcome = 'done' | 'failed' | 'offline';
+
+type ShowToast = ReturnType<typeof useToast>['showToast'];
+
+/** Drop a submission for good, along with any files still staged for it */
+function discard(submission: QueuedSurveySubmission) {
+  const store = useSurveySubmissionQueueStore.getState();
+  Object.values(submission.responses).forEach((answer) => {
+    const stagedId = getStagedFileId(answer);
+    const staged = stagedId ? store.stagedFiles[stagedId] : undefined;
+    if (stagedId) store.unstageFile(stagedId);
+    if (staged) deleteStagedSurveyFile(staged.uri);
+  });
+  store.remove(submission.idempotencyKey);
+}
+
+async function uploadStagedFiles(submission: QueuedSurveySubmission, showToast: ShowToast): Promise<ReplayOutcome> {
+  for (const [questionId, answer] of Object.entries(submission.responses)) {
+    const stagedId = getStagedFileId(answer);
+    if (!stagedId) continue;
+
+    const staged = useSurveySubmissionQueueStore.getState().stagedFiles[stagedId];
+    // A missing file can never succeed — drop the attempt instead of burning retries
+    if (!staged || !(await stagedFileExists(staged.uri))) {
+      discard(submission);
+      showToast({
+        message: `"${submission.surveyTitle}" couldn't be submitted — an attached file is no longer on this device.`,
+        type: 'error',
+      });
+      return 'failed';
+    }
+
+    const result = await uploadSurveyFile(submission.surveyId, questionId, staged.uri, staged.fileName, staged.mimeType);
+    if (result.networkError) return 'offline';
+    if (!result.success || !result.data) {
+      useSurveySubmissionQueueStore.getState().recordFailure(submission.idempotencyKey, result.error || 'File upload failed');
+      return 'failed';
+    }
+
+    useSurveySubmissionQueueStore.getState().resolveStagedFile(submission.idempotencyKey, stagedId, result.data.id);
+    deleteStagedSurveyFile(staged.uri);
+  }
+  return 'done';
+}
+
+export function useSurveySubmissionQueueProcessor() {
+  const { showToast } = useToast();
+  const queryClient = useQueryClient();
+  const isProcessingRef = useRef(false);
+  const showToastRef = useRef(showToast);
+  showToastRef.current = showToast;
+
+  useEffect(() => {
+    const replay = async (queued: QueuedSurveySubmission): Promise<ReplayOutcome> => {
+      const toast = showToastRef.current;
+
+      const uploaded = await uploadStagedFiles(queued, toast);
+      if (uploaded !== 'done') return uploaded;
+
+      // Re-read — uploading swapped the staged answers for real file ids
+      const submission = useSurveySubmissionQueueStore
+        .getState()
+        .pending.find((s) => s.idempotencyKey === queued.idempotencyKey);
+      if (!submission) return 'done';
+
+      const response = await surveyApi.submitResponse(submission.surveyId, submission.responses, {
+        startedAt: submission.startedAt,
+        idempotencyKey: submission.idempotencyKey,
+        language: submission.language,
+        surveyVersion: submission.surveyVersion,
+      });
+      const store = useSurveySubmissionQueueStore.getState();
+
+      if (response.success || response.data?.alreadyAttempted) {
+        store.remove(submission.idempotencyKey);
+        // Same caches useSubmitSurvey refreshes — the queue bypasses the mutation
+        queryClient.invalidateQueries({ queryKey: queryKeys.surveys });
+        queryClient.invalidateQueries({ queryKey: queryKeys.userStats });
+        queryClient.invalidateQueries({ queryKey: queryKeys.user });
+        queryClient.invalidateQueries({ queryKey: ['surveyAttempt', submission.surveyId] });
+        queryClient.invalidateQueries({ queryKey: ['surveyResponses', 'list', submission.surveyId] });
+        const points = response.data?.pointsAwarded;
+        toast(
+          response.success
+            ? {
+                message: points
+                  ? `"${submission.surveyTitle}" submitted — you earned ${points} points!`
+                  : `"${submission.surveyTitle}" submitted!`,
+                type: 'success',
+              }
+            : { message: `You've already completed "${submission.surveyTitle}".`, type: 'info' }
+        );
+        return 'done';
+      }
+
+      if (!isSubmissionRejected(response)) return 'offline';
+
+      if (FINAL_REFUSAL_CODES.includes(response.data?.code ?? '')) {
+        discard(submission);
+        toast({
+          message: `"${submission.surveyTitle}" wasn't submitted: ${response.error || 'it no longer needs your answers'}`,
+          type: 'info',
+        });
+        return 'failed';
+      }
+
+      if (submission.retryCount + 1 >= MAX_RETRIES) {
+        discard(submission);
+        toast({
+          message: `"${submission.surveyTitle}" couldn't be submitted: ${response.error || 'the server rejected it'}.`,
+          type: 'error',
+        });
+      } else {
+        store.recordFailure(submission.idempotencyKey, response.error || 'Submission failed');
+      }
+      return 'failed';
+    };
+
+    const flush = async () => {
+      if (isProcessingRef.current) return;
+      if (!onlineManager.isOnline()) return;
+
+      const userId = useAuthStore.getState().auth?.user?.id;
+      if (!userId) return;
+
+      const pending = useSurveySubmissionQueueStore.getState().pending.filter((s) => s.userId === userId);
+      if (pending.length === 0) return;
+
+      isProcessingRef.current = true;
+      try {
+        showToastRef.current({
+          message: `Submitting ${pending.length} saved survey${pending.length === 1 ? '' : 's'}…`,
+          type: 'info',
+        });
+        for (const submission of pending) {
+          let outcome: ReplayOutcome;
+          try {
+            outcome = await replay(submission);
+          } catch {
+            outcome = 'offline';
+          }
+          // Connection dropped again — the rest would fail the same way
+          if (outcome === 'offline') break;
+        }
+      } finally {
+        isProcessingRef.current = false;
+      }
+    };
+
+    // Replay whenever connectivity returns…
+    const unsubscribeOnline = onlineManager.subscribe((isOnline) => {
+      if (isOnline) flush();
+    });
+    // …when an attempt is queued while still "online" (a request that timed out)…
+    const unsubscribeQueue = useSurveySubmissionQueueStore.subscribe((state, prev) => {
+      if (state.pending.length > prev.pending.length) flush();
+    });
+    // …and once on mount if already online (app restart with a stale queue).
+    if (onlineManager.isOnline()) flush();
+
+    return () => {
+      unsubscribeOnline();
+      unsubscribeQueue();
+    };
+  }, [queryClient]);
+}
@@ -7,7 +7,10 @@
  * - Processes uploads sequentially (one at a time to avoid bandwidth contention)
  * - Max 3 retries per item; permanently failed items are discarded with toast
  * - Cross-user guard: skips uploads from a different userId
- * - Race condition guard: skips items already being processed
+ * - Race condition guard: skips items already being processed — here or by
+ *   the upload modal (claimPendingUpload)
+ * - Large videos resume their multipart upload from the last confirmed part;
+ *   an attempt that confirmed new parts isn't counted as a failed retry
  *
  * Follows the same architecture as useOfflineQueueProcessor (reward answers).
  */
@@ -22,6 +25,7 @@ import {
   uploadVideoViaPresignedUrl,
   uploadThumbnailViaPresignedUrl,
   finalizeVideoUploadOnly,
+  abortMultipartUpload,
 } from '@/services/r2UploadService';
 
 const MAX_RETRIES = 3;
@@ -29,7 +33,6 @@ const MAX_RETRIES = 3;
 export function useUploadQueueProcessor() {
   const { showToast } = useToast();
   const queryClient = useQueryClient();
-  const processingRef = useRef<Set<string>>(new Set());
   const isProcessingRef = useRef(false);
   const showToastRef = useRef(showToast);
   showToastRef.current = showToast;
@@ -50,8 +53,12 @@ export function useUploadQueueProcessor() {
 
         // Let the user know queued work is being retried (silent-retry UX gap:
         // previously the only signal was the eventual success/failure toast).
+        const { claimedUploadIds } = useVideoStore.getState();
         const retryable = pending.filter(
-          (u) => u.userId === currentUserId && u.retryCount < MAX_RETRIES,
+          (u) =>
+            u.userId === currentUserId &&
+            u.retryCount < MAX_RETRIES &&
+            !claimedUploadIds.includes(u.id),
         );
         if (retryable.length > 0) {
           showToastRef.current({
@@ -62,7 +69,7 @@ export function useUploadQueueProcessor() {
 
         for (const upload of pending) {
           // Skip if already being processed (race condition guard)
-          if (processingRef.current.has(upload.id)) continue;
+          if (!useVideoStore.getState().claimPendingUpload(upload.id)) continue;
 
           // Skip if upload belongs to a different user (stale data)
           if (upload.userId !== currentUserId) {
@@ -72,6 +79,7 @@ export function useUploadQueueProcessor() {
 
           // Discard if max retries exceeded
           if (upload.retryCount >= MAX_RETRIES) {
+            if (upload.multipart) abortMultipartUpload(upload.multipart);
             useVideoStore.getState().removePendingUpload(upload.id);
             showToastRef.current({
               message: `Upload of "${upload.title}" failed after multiple attempts.`,
@@ -80,7 +88,7 @@ export function useUploadQueueProcessor() {
             continue;
           }
 
-          processingRef.current.add(upload.id);
+          const confirmedParts = upload.multipart?.parts.length ?? 0;
 
           try {
             // Finalize-only recovery: the file is already in R2 — just
@@ -102,6 +110,7 @@ export function useUploadQueueProcessor() {
             // message instead of burning retries on a generic failure.
             const videoInfo = await FileSystem.getInfoAsync(upload.videoUri).catch(() => null);
             if (!videoInfo?.exists) {
+              if (upload.multipart) abortMultipartUpload(upload.multipart);
               useVideoStore.getState().removePendingUpload(upload.id);
               showToastRef.current({
                 message: `"${upload.title}" can't be uploaded — the video file no longer exists on this device.`,
@@ -133,8 +142,21 @@ export function useUploadQueueProcessor() {
             const result = await uploadVideoViaPresignedUrl(
               upload.videoUri,
               upload.userId,
-              { title: upload.title, description: upload.description, duration: upload.duration },
-              {}, // no progress tracking for background retry
+              {
+                title: upload.title,
+                description: upload.description,
+                duration: upload.duration,
+                fileName: upload.fileName,
+                mimeType: upload.mimeType,
+                fileSize: upload.fileSize,
+                livestreamSessionId: upload.livestreamSessionId,
+              },
+              {
+                // No progress tracking for background retry — only resume state
+                session: upload.multipart,
+                onSession: (session) =>
+                  useVideoStore.getState().updatePendingUpload(upload.id, { multipart: session }),
+              },
               thumbnailData
             );
 
@@ -155,13 +177,27 @@ export function useUploadQueueProcessor() {
               type: 'success',
             });
           } catch (error) {
-            // Single increment per failed attempt (a second pre-attempt
-            // increment used to double-count, halving the real retry budget)
             const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-            useVideoStore.getState().incrementUploadRetry(upload.id, errorMsg);
+            const finalizePayload = (error as { finalizePayload?: Record<string, unknown> })
+              ?.finalizePayload;
+            const store = useVideoStore.getState();
+            if (finalizePayload) {
+              // Transfer done, only the record failed — next time finalize only
+              store.updatePendingUpload(upload.id, { finalizePayload, multipart: undefined });
+            }
+            const current = store.pendingUploads.find((u) => u.id === upload.id);
+            if ((current?.multipart?.parts.length ?? 0) > confirmedParts) {
+              // Progress was made (typically a connection that keeps dropping
+              // on mobile data) — keep going next time without using a retry
+              store.updatePendingUpload(upload.id, { lastError: errorMsg });
+            } else {
+              // Single increment per failed attempt (a second pre-attempt
+              // increment used to double-count, halving the real retry budget)
+              store.incrementUploadRetry(upload.id, errorMsg);
+            }
             // Stays in queue for next online event
           } finally {
-            processingRef.current.delete(upload.id);
+            useVideoStore.getState().releasePendingUpload(upload.id);
           }
         }
       } finally {
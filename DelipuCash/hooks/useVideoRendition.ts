@@ -0,0 +1,62 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { NetInfoStateType, useNetInfo } from '@react-native-community/netinfo';
+import type { VideoPlayer } from 'expo-video';
+import type { Video } from '@/types';
+import { useAppSettingsStore, selectDataSaverEnabled } from '@/store/AppSettingsStore';
+import { useVideoStore, selectVideoQuality } from '@/store/VideoStore';
+import { pickRendition, type RenditionChoice } from '@/utils/videoRendition';
+
+/**
+ * The source a player should load for `video` — its HLS master, a pinned rung
+ * or the MP4 — from the quality-menu pick, data saver and the current network
+ * (see utils/videoRendition). Only re-picks when one of those changes class
+ * (e.g. Wi-Fi → cellular), not on every NetInfo update.
+ */
+export function useVideoRendition(video: Pick<Video, 'videoUrl' | 'hls'> | null | undefined): RenditionChoice {
+  const netInfo = useNetInfo();
+  const dataSaver = useAppSettingsStore(selectDataSaverEnabled);
+  const quality = useVideoStore(selectVideoQuality);
+
+  const connectionType = netInfo.type;
+  const cellularGeneration =
+    netInfo.type === NetInfoStateType.cellular ? netInfo.details?.cellularGeneration ?? null : null;
+
+  return useMemo(
+    () => pickRendition(video, { quality, dataSaver, connectionType, cellularGeneration }),
+    [video, quality, dataSaver, connectionType, cellularGeneration],
+  );
+}
+
+/**
+ * Swap `player` onto `source` in place when the rendition changes after the
+ * player was built from `initialSource` — keeping the position and whether it
+ * was playing, which rebuilding the player would lose.
+ */
+export function useRenditionSwitch(player: VideoPlayer | null, initialSource: string | null, source: string | null): void {
+  const loadedSourceRef = useRef(initialSource);
+  useEffect(() => {
+    loadedSourceRef.current = initialSource;
+  }, [initialSource]);
+
+  useEffect(() => {
+    if (!player || !source || loadedSourceRef.current === source) return;
+    loadedSourceRef.current = source;
+    let resumeAt = 0;
+    let wasPlaying = false;
+    try {
+      resumeAt = player.currentTime;
+      wasPlaying = player.playing;
+    } catch {
+      // Player may have been released already
+    }
+    (async () => {
+      try {
+        await player.replaceAsync(source);
+        player.currentTime = resumeAt;
+        if (wasPlaying) player.play();
+      } catch (error) {
+        if (__DEV__) console.warn('[useRenditionSwitch] Rendition switch failed:', error);
+      }
+    })();
+  }, [player, source]);
+}
@@ -0,0 +1,68 @@
+/**
+ * useWatchHistorySync
+ *
+ * Uploads watch progress the players recorded in VideoStore (pendingHistorySync)
+ * to PUT /api/videos/history, so history survives a reinstall and feeds the
+ * personalised feed. Flushes on mount, every SYNC_INTERVAL_MS, when the device
+ * comes back online and when the app goes to the background.
+ * Mount ONCE in _layout.tsx, alongside the other queue processors.
+ *
+ * The server keeps the later watchedAt per video, so re-sending a batch is
+ * harmless. A failed batch simply stays pending for the next flush; a reply of
+ * `paused` means the account paused history elsewhere, so the queue is dropped.
+ */
+import { useEffect, useRef } from 'react';
+import { AppState } from 'react-native';
+import { onlineManager } from '@tanstack/react-query';
+import { videoApi } from '@/services/videoApi';
+import { useVideoStore } from '@/store/VideoStore';
+import { useAuthStore } from '@/utils/auth/store';
+import { historySyncBatch } from '@/utils/watchHistory';
+
+const SYNC_INTERVAL_MS = 60_000;
+
+export function useWatchHistorySync() {
+  const isSyncingRef = useRef(false);
+
+  useEffect(() => {
+    const flush = async () => {
+      if (isSyncingRef.current) return;
+      if (!onlineManager.isOnline() || !useAuthStore.getState().auth?.token) return;
+
+      const { watchHistory, pendingHistorySync } = useVideoStore.getState();
+      const batch = historySyncBatch(watchHistory, pendingHistorySync);
+      if (batch.length === 0) {
+        // Only entries that fell off the list are pending — nothing to send
+        if (pendingHistorySync.length) useVideoStore.getState().markHistorySynced([]);
+        return;
+      }
+
+      isSyncingRef.current = true;
+      try {
+        const res = await videoApi.syncWatchHistory(batch);
+        if (!res.success) return; // stays pending
+        if (res.data.paused) useVideoStore.getState().setWatchHistoryPaused(true);
+        else useVideoStore.getState().markHistorySynced(batch);
+      } catch {
+        // stays pending for the next flush
+      } finally {
+        isSyncingRef.current = false;
+      }
+    };
+
+    const interval = setInterval(flush, SYNC_INTERVAL_MS);
+    const unsubscribeOnline = onlineManager.subscribe((isOnline) => {
+      if (isOnline) flush();
+    });
+    const appState = AppState.addEventListener('change', (next) => {
+      if (next === 'background') flush();
+    });
+    flush();
+
+    return () => {
+      clearInterval(interval);
+      unsubscribeOnline();
+      appState.remove();
+    };
+  }, []);
+}
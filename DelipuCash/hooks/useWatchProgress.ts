@@ -0,0 +1,99 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { VideoPlayer } from 'expo-video';
+import { useVideoStore } from '@/store/VideoStore';
+import { resumePosition } from '@/utils/watchHistory';
+
+/** How often the playhead is written to the history while playing */
+const RECORD_INTERVAL_MS = 5_000;
+
+export interface WatchProgressState {
+  /** Where playback resumed, in seconds — null when it started from the beginning */
+  resumedAt: number | null;
+  /** Jump back to 0 after a resume */
+  startOver: () => void;
+}
+
+/**
+ * Resume `videoId` where the viewer left off and keep recording where they
+ * are (VideoStore watch history — useWatchHistorySync uploads it). Seeks once,
+ * on the first readyToPlay; later rendition switches keep their own position.
+ * Nothing is recorded while history is paused (the store ignores it) or when
+ * `enabled` is false — livestreams have no position to come back to.
+ */
+export function useWatchProgress(
+  player: VideoPlayer | null,
+  videoId: string | undefined,
+  enabled: boolean = true,
+): WatchProgressState {
+  const [resumedAt, setResumedAt] = useState<number | null>(null);
+  const resumedRef = useRef(false);
+
+  useEffect(() => {
+    resumedRef.current = false;
+    setResumedAt(null);
+  }, [videoId]);
+
+  useEffect(() => {
+    if (!player || !videoId || !enabled) return;
+
+    const record = () => {
+      try {
+        const duration = player.duration || 0;
+        if (duration > 0) useVideoStore.getState().addToWatchHistory(videoId, player.currentTime || 0, duration);
+      } catch {
+        // Player may have been released
+      }
+    };
+
+    const resume = () => {
+      if (resumedRef.current) return;
+      resumedRef.current = true;
+      const entry = useVideoStore.getState().watchHistory.find((h) => h.videoId === videoId);
+      const at = resumePosition(entry);
+      if (at === null) return;
+      try {
+        player.currentTime = at;
+        setResumedAt(at);
+      } catch {
+        // Player may have been released
+      }
+    };
+
+    const statusSub = player.addListener('statusChange', (event) => {
+      if (event.status === 'readyToPlay') resume();
+    });
+    // Already loaded before this effect subscribed
+    if (player.status === 'readyToPlay') resume();
+
+    const interval = setInterval(() => {
+      try {
+        if (player.playing) record();
+      } catch {
+        clearInterval(interval);
+      }
+    }, RECORD_INTERVAL_MS);
+
+    return () => {
+      clearInterval(interval);
+      // Where the viewer stopped — the last tick can be up to RECORD_INTERVAL_MS stale
+      if (resumedRef.current) record();
+      try {
+        statusSub.remove();
+      } catch {
+        // Listener may already be removed
+      }
+    };
+  }, [player, videoId, enabled]);
+
+  const startOver = useCallback(() => {
+    if (!player) return;
+    try {
+      player.currentTime = 0;
+    } catch {
+      // Player may have been released
+    }
+    setResumedAt(null);
+  }, [player]);
+
+  return { resumedAt, startOver };
+}
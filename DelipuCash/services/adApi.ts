@@ -5,8 +5,21 @@
  * Enhanced with industry-standard ad management features
  */
 
+import { Platform } from 'react-native';
 import { api } from './api';
-import type { Ad } from '../types';
+import type {
+  Ad,
+  AdCampaign,
+  AdCampaignPerformance,
+  AdCreativeTest,
+  AdReviewDecision,
+  AdVariantCreative,
+  AdVariantMode,
+  AnalyticsRange,
+  RewardedAdClaim,
+  RewardedAdSession,
+  RewardedAdStatus,
+} from '../types';
 import type { AdPlacement, AdType } from '../store/AdStore';
 
 // ============================================================================
@@ -54,6 +67,8 @@ export interface AdClickPayload {
   adId: string;
   /** Idempotency key — lets the server dedup retries/offline re-sends of the same event. */
   eventId?: string;
+  /** The creative-test variant that was shown (Ad.variantId) */
+  variantId?: string;
   timestamp: string;
   placement: AdPlacement;
   userId?: string;
@@ -67,6 +82,8 @@ export interface AdImpressionPayload {
   adId: string;
   /** Idempotency key — lets the server dedup retries/offline re-sends of the same event. */
   eventId?: string;
+  /** The creative-test variant that was shown (Ad.variantId) */
+  variantId?: string;
   timestamp: string;
   placement: AdPlacement;
   duration: number;
@@ -86,6 +103,7 @@ export interface AdVideoProgressPayload {
 
 export interface AdConversionPayload {
   adId: string;
+  variantId?: string;
   conversionType?: string;
   value?: number;
 }
@@ -146,6 +164,8 @@ export interface CreateAdPayload {
   imageSizeBytes?: number;
   videoSizeBytes?: number;
   thumbnailSizeBytes?: number;
+  /** Length of the video creative — a rewarded view pays only after this long */
+  videoDurationSeconds?: number;
   storageProvider?: string;
 }
 
@@ -176,6 +196,28 @@ export interface AdsListResponse {
   message?: string;
 }
 
+/** A pending ad with the creative-test variants the reviewer must also see */
+export type PendingAd = Ad & { variants?: (AdVariantCreative & { id: string; label: string })[] };
+
+export interface PendingAdsResponse {
+  success: boolean;
+  /** Oldest first, with signed media URLs for the creative preview */
+  data: PendingAd[];
+  pagination: {
+    total: number;
+    limit: number;
+    offset: number;
+    hasMore: boolean;
+  };
+}
+
+export interface BulkAdReviewResult {
+  action: AdReviewDecision;
+  reviewed: string[];
+  /** Ads that couldn't be reviewed, e.g. already approved by someone else */
+  skipped: { adId: string; message: string }[];
+}
+
 export interface AdAnalyticsResponse {
   success: boolean;
   data: {
@@ -227,11 +269,23 @@ const AD_ENDPOINTS = {
   analytics: (id: string) => `/api/ads/${id}/analytics`,
   pause: (id: string) => `/api/ads/${id}/pause`,
   resume: (id: string) => `/api/ads/${id}/resume`,
+
+  // Campaign dashboard
+  mine: '/api/ads/mine',
+  performance: (id: string) => `/api/ads/${id}/performance`,
+  variants: (id: string) => `/api/ads/${id}/variants`,
+
+  // Rewarded ads
+  rewarded: '/api/ads/rewarded',
+  rewardedStart: '/api/ads/rewarded/start',
+  rewardedClaim: '/api/ads/rewarded/claim',
+  integrityNonce: '/api/rewards/integrity-nonce',
   
   // Admin
   pending: '/api/ads/admin/pending',
   approve: (id: string) => `/api/ads/${id}/approve`,
   reject: (id: string) => `/api/ads/${id}/reject`,
+  bulkReview: '/api/ads/admin/bulk-review',
   
   // Tracking
   view: (id: string) => `/api/ads/${id}/view`,
@@ -601,6 +655,144 @@ export const resumeAd = async (adId: string): Promise<AdResponse> => {
   }
 };
 
+/**
+ * Fetch the current user's campaigns, newest first
+ */
+export const fetchMyCampaigns = async (status?: AdStatus): Promise<AdCampaign[]> => {
+  try {
+    const url = status ? `${AD_ENDPOINTS.mine}?status=${status}` : AD_ENDPOINTS.mine;
+    const response = await api.get(url);
+    return response.data?.data ?? [];
+  } catch (error: any) {
+    console.error('Error fetching campaigns:', error);
+    throw new Error(error.response?.data?.message || 'Failed to fetch campaigns');
+  }
+};
+
+/**
+ * Fetch one campaign's daily performance, spend pacing and status timeline
+ */
+export const fetchCampaignPerformance = async (
+  adId: string,
+  range: AnalyticsRange
+): Promise<AdCampaignPerformance> => {
+  try {
+    const response = await api.get(`${AD_ENDPOINTS.performance(adId)}?range=${range}`);
+    return response.data.data;
+  } catch (error: any) {
+    console.error('Error fetching campaign performance:', error);
+    throw new Error(error.response?.data?.message || 'Failed to fetch campaign performance');
+  }
+};
+
+/**
+ * Fetch an ad's creative test — its variants, their traffic shares and the readout
+ */
+export const fetchAdCreativeTest = async (adId: string): Promise<AdCreativeTest> => {
+  try {
+    const response = await api.get(AD_ENDPOINTS.variants(adId));
+    return response.data.data;
+  } catch (error: any) {
+    console.error('Error fetching creative test:', error);
+    throw new Error(error.response?.data?.message || 'Failed to fetch creative test');
+  }
+};
+
+/**
+ * Set an ad's 2–4 test variants. Unchanged ones (same `id`, same creative) keep
+ * their counts; a new or edited one sends a reviewed ad back to review.
+ */
+export const saveAdVariants = async (
+  adId: string,
+  mode: AdVariantMode,
+  variants: AdVariantCreative[]
+): Promise<AdCreativeTest> => {
+  try {
+    const response = await api.put(AD_ENDPOINTS.variants(adId), { mode, variants });
+    return response.data.data;
+  } catch (error: any) {
+    console.error('Error saving ad variants:', error);
+    throw new Error(error.response?.data?.message || 'Failed to save ad variants');
+  }
+};
+
+/**
+ * Switch a test between split and bandit, or give one variant all the traffic
+ * (`winnerVariantId: null` shares it out again)
+ */
+export const updateAdCreativeTest = async (
+  adId: string,
+  changes: { mode?: AdVariantMode; winnerVariantId?: string | null }
+): Promise<AdCreativeTest> => {
+  try {
+    const response = await api.patch(AD_ENDPOINTS.variants(adId), changes);
+    return response.data.data;
+  } catch (error: any) {
+    console.error('Error updating creative test:', error);
+    throw new Error(error.response?.data?.message || 'Failed to update creative test');
+  }
+};
+
+/**
+ * End an ad's creative test — the ad shows its own creative again
+ */
+export const endAdCreativeTest = async (adId: string): Promise<AdCreativeTest> => {
+  try {
+    const response = await api.delete(AD_ENDPOINTS.variants(adId));
+    return response.data.data;
+  } catch (error: any) {
+    console.error('Error ending creative test:', error);
+    throw new Error(error.response?.data?.message || 'Failed to end creative test');
+  }
+};
+
+// ============================================================================
+// REWARDED ADS
+// ============================================================================
+
+/**
+ * What the user can earn from rewarded ads today
+ */
+export const fetchRewardedAdStatus = async (): Promise<RewardedAdStatus> => {
+  try {
+    const response = await api.get(AD_ENDPOINTS.rewarded);
+    return response.data.data;
+  } catch (error: any) {
+    console.error('Error fetching rewarded ad status:', error);
+    throw new Error(error.message || 'Failed to fetch rewarded ads');
+  }
+};
+
+/**
+ * Get an ad to watch and the token that claims its points once it has played
+ */
+export const startRewardedAd = async (): Promise<RewardedAdSession> => {
+  try {
+    const response = await api.post(AD_ENDPOINTS.rewardedStart);
+    return response.data.data;
+  } catch (error: any) {
+    console.error('Error starting rewarded ad:', error);
+    throw new Error(error.message || 'Failed to start the ad');
+  }
+};
+
+/**
+ * Claim a watched ad's points. The claim sits behind Play Integrity, like
+ * redemption, so it carries a fresh integrity nonce and the platform.
+ */
+export const claimRewardedAd = async (token: string): Promise<RewardedAdClaim> => {
+  try {
+    const { data: { nonce } } = await api.get<{ nonce: string }>(AD_ENDPOINTS.integrityNonce);
+    const response = await api.post(AD_ENDPOINTS.rewardedClaim, { token }, {
+      headers: { 'X-Play-Integrity-Nonce': nonce, 'X-Client-Platform': Platform.OS },
+    });
+    return response.data.data;
+  } catch (error: any) {
+    console.error('Error claiming rewarded ad:', error);
+    throw new Error(error.message || 'Failed to add your points');
+  }
+};
+
 // ============================================================================
 // ADMIN FUNCTIONS
 // ============================================================================
@@ -608,7 +800,7 @@ export const resumeAd = async (adId: string): Promise<AdResponse> => {
 /**
  * Fetch pending ads for admin review
  */
-export const fetchPendingAds = async (limit?: number, offset?: number): Promise<AdsListResponse> => {
+export const fetchPendingAds = async (limit?: number, offset?: number): Promise<PendingAdsResponse> => {
   try {
     const params = new URLSearchParams();
     if (limit) params.append('limit', String(limit));
@@ -626,11 +818,11 @@ export const fetchPendingAds = async (limit?: number, offset?: number): Promise<
 };
 
 /**
- * Approve an ad (Admin only)
+ * Approve a pending ad (Admin/Moderator) — the server records the reviewer from the token
  */
-export const approveAd = async (adId: string, adminUserId: string): Promise<AdResponse> => {
+export const approveAd = async (adId: string): Promise<AdResponse> => {
   try {
-    const response = await api.put(AD_ENDPOINTS.approve(adId), { adminUserId });
+    const response = await api.put(AD_ENDPOINTS.approve(adId));
     return response.data;
   } catch (error: any) {
     console.error('Error approving ad:', error);
@@ -639,11 +831,11 @@ export const approveAd = async (adId: string, adminUserId: string): Promise<AdRe
 };
 
 /**
- * Reject an ad (Admin only)
+ * Reject an ad (Admin/Moderator) — the advertiser sees the reason
  */
-export const rejectAd = async (adId: string, reason: string, adminUserId?: string): Promise<AdResponse> => {
+export const rejectAd = async (adId: string, reason: string): Promise<AdResponse> => {
   try {
-    const response = await api.put(AD_ENDPOINTS.reject(adId), { reason, adminUserId });
+    const response = await api.put(AD_ENDPOINTS.reject(adId), { reason });
     return response.data;
   } catch (error: any) {
     console.error('Error rejecting ad:', error);
@@ -651,6 +843,23 @@ export const rejectAd = async (adId: string, reason: string, adminUserId?: strin
   }
 };
 
+/**
+ * Approve or reject up to 50 ads at once (Admin/Moderator)
+ */
+export const bulkReviewAds = async (
+  adIds: string[],
+  action: AdReviewDecision,
+  reason?: string
+): Promise<BulkAdReviewResult> => {
+  try {
+    const response = await api.put(AD_ENDPOINTS.bulkReview, { adIds, action, reason });
+    return response.data?.data;
+  } catch (error: any) {
+    console.error('Error reviewing ads:', error);
+    throw new Error(error.response?.data?.message || 'Failed to review ads');
+  }
+};
+
 // ============================================================================
 // TRACKING FUNCTIONS - Enhanced with budget tracking
 // ============================================================================
@@ -705,11 +914,23 @@ export const adApi = {
   pauseAd,
   resumeAd,
   fetchAdAnalytics,
+  fetchMyCampaigns,
+  fetchCampaignPerformance,
+  fetchAdCreativeTest,
+  saveAdVariants,
+  updateAdCreativeTest,
+  endAdCreativeTest,
+
+  // Rewarded ads
+  fetchRewardedAdStatus,
+  startRewardedAd,
+  claimRewardedAd,
   
   // Admin
   fetchPendingAds,
   approveAd,
   rejectAd,
+  bulkReviewAds,
   
   // Tracking
   recordAdView,
@@ -14,18 +14,37 @@
  * REST API integration - No mock data fallbacks
  */
 
-import { useQuery, useMutation, useQueryClient, UseQueryResult } from '@tanstack/react-query';
-import { useCallback, useEffect, useRef } from 'react';
+import { useQuery, useMutation, useQueryClient, UseQueryResult, type QueryClient } from '@tanstack/react-query';
+import { useCallback, useEffect, useMemo, useRef } from 'react';
 import { Platform, AppState, AppStateStatus, Linking } from 'react-native';
-import type { Ad } from '../types';
+import type {
+  Ad,
+  AdCampaign,
+  AdCampaignPerformance,
+  AdCreativeTest,
+  AdVariantCreative,
+  AdVariantMode,
+  AnalyticsRange,
+  RewardedAdClaim,
+  RewardedAdStatus,
+} from '../types';
 import type { AdType } from '../store/AdStore';
-import { adApi, type AdFilters, type CreateAdPayload, type UpdateAdPayload } from './adApi';
+import {
+  adApi,
+  type AdAnalyticsResponse,
+  type AdFilters,
+  type AdStatus,
+  type CreateAdPayload,
+  type UpdateAdPayload,
+} from './adApi';
 import { useAuthStore } from '../utils/auth/store';
+import { queryKeys } from './hooks';
 
 // Import UI store for client-side interactions (NOT for caching server data)
 import { useAdUIStore, type AdPlacement } from '../store/AdUIStore';
 import { useAdEventQueueStore } from '../store/AdEventQueueStore';
 import { useShallow } from 'zustand/react/shallow';
+import { adViewerProfile, regionFromLocale, type AdViewerProfile } from '../utils/adTargeting';
 
 /** Time before data is considered stale (5 minutes) */
 const STALE_TIME = 1000 * 60 * 5;
@@ -64,6 +83,12 @@ export const adQueryKeys = {
   userAdsList: () => [...adQueryKeys.all, 'user'] as const,
   userAds: (userId: string, filters?: AdFilters) => [...adQueryKeys.all, 'user', userId, filters] as const,
   analytics: (id: string) => [...adQueryKeys.all, 'analytics', id] as const,
+  campaignLists: () => [...adQueryKeys.all, 'campaigns'] as const,
+  campaigns: (status?: AdStatus) => [...adQueryKeys.campaignLists(), status ?? 'all'] as const,
+  campaignPerformance: (id: string, range?: AnalyticsRange) =>
+    [...adQueryKeys.all, 'performance', id, ...(range ? [range] : [])] as const,
+  creativeTest: (id: string) => [...adQueryKeys.all, 'creativeTest', id] as const,
+  rewarded: () => [...adQueryKeys.all, 'rewarded'] as const,
 };
 
 // ============================================================================
@@ -75,15 +100,8 @@ export interface AdsListData {
   total: number;
 }
 
-export interface AdAnalyticsData {
-  impressions: number;
-  clicks: number;
-  ctr: number;
-  views: number;
-  completionRate: number;
-  avgViewDuration: number;
-  revenue?: number;
-}
+/** Server-side ad analytics with every ratio as a number */
+export type AdAnalyticsData = AdAnalyticsResponse['data'];
 
 // ============================================================================
 // DATA FETCHING HOOKS
@@ -285,15 +303,19 @@ export function useAdAnalytics(
   return useQuery({
     queryKey: adQueryKeys.analytics(adId),
     queryFn: async (): Promise<AdAnalyticsData> => {
-      const response = await adApi.fetchAdAnalytics(adId);
-      // Map API response to AdAnalyticsData format
+      const { data } = await adApi.fetchAdAnalytics(adId);
+      // The server sends most ratios as toFixed() strings
       return {
-        impressions: response.data.impressions,
-        clicks: response.data.clicks,
-        ctr: response.data.ctr,
-        views: response.data.views,
-        completionRate: 0, // Not provided by API, default to 0
-        avgViewDuration: 0, // Not provided by API, default to 0
+        ...data,
+        ctr: Number(data.ctr) || 0,
+        conversionRate: Number(data.conversionRate) || 0,
+        totalBudget: Number(data.totalBudget) || 0,
+        amountSpent: Number(data.amountSpent) || 0,
+        budgetRemaining: Number(data.budgetRemaining) || 0,
+        budgetUtilization: Number(data.budgetUtilization) || 0,
+        costPerClick: Number(data.costPerClick) || 0,
+        costPerMille: Number(data.costPerMille) || 0,
+        costPerConversion: Number(data.costPerConversion) || 0,
       };
     },
     enabled: enabled && !!adId,
@@ -302,6 +324,64 @@ export function useAdAnalytics(
   });
 }
 
+/**
+ * Hook to fetch the current user's campaigns (advertiser dashboard)
+ */
+export function useMyCampaigns(status?: AdStatus): UseQueryResult<AdCampaign[], Error> {
+  const userId = useAuthStore(s => s.auth?.user?.id ?? '');
+  return useQuery({
+    queryKey: adQueryKeys.campaigns(status),
+    queryFn: () => adApi.fetchMyCampaigns(status),
+    enabled: !!userId,
+    staleTime: 1000 * 60,
+    gcTime: GC_TIME,
+  });
+}
+
+/**
+ * Hook to fetch one campaign's daily performance, pacing and status timeline
+ */
+export function useCampaignPerformance(
+  adId: string,
+  range: AnalyticsRange
+): UseQueryResult<AdCampaignPerformance, Error> {
+  return useQuery({
+    queryKey: adQueryKeys.campaignPerformance(adId, range),
+    queryFn: () => adApi.fetchCampaignPerformance(adId, range),
+    enabled: !!adId,
+    staleTime: 1000 * 60,
+    gcTime: GC_TIME,
+  });
+}
+
+/**
+ * Hook to fetch an ad's creative test (variants, traffic shares, readout)
+ */
+export function useAdCreativeTest(adId: string): UseQueryResult<AdCreativeTest, Error> {
+  return useQuery({
+    queryKey: adQueryKeys.creativeTest(adId),
+    queryFn: () => adApi.fetchAdCreativeTest(adId),
+    enabled: !!adId,
+    staleTime: 1000 * 60,
+    gcTime: GC_TIME,
+  });
+}
+
+/**
+ * Hook to fetch what the user can still earn from rewarded ads today
+ */
+export function useRewardedAdStatus(enabled = true): UseQueryResult<RewardedAdStatus, Error> {
+  const isAuthenticated = useAuthStore((s) => !!s.auth?.token);
+
+  return useQuery({
+    queryKey: adQueryKeys.rewarded(),
+    queryFn: adApi.fetchRewardedAdStatus,
+    enabled: enabled && isAuthenticated,
+    staleTime: 1000 * 60,
+    gcTime: GC_TIME,
+  });
+}
+
 // ============================================================================
 // MUTATION HOOKS
 // ============================================================================
@@ -338,7 +418,131 @@ export function useUpdateAd() {
       queryClient.invalidateQueries({ queryKey: adQueryKeys.detail(adId) });
       queryClient.invalidateQueries({ queryKey: adQueryKeys.lists() });
       queryClient.invalidateQueries({ queryKey: adQueryKeys.userAdsList() });
+      // A creative edit sends the ad back to review
+      invalidateCampaign(queryClient, adId);
+    },
+  });
+}
+
+/** Refresh a campaign's dashboard entries after its status or settings change */
+function invalidateCampaign(queryClient: QueryClient, adId: string) {
+  queryClient.invalidateQueries({ queryKey: adQueryKeys.campaignLists() });
+  queryClient.invalidateQueries({ queryKey: adQueryKeys.campaignPerformance(adId) });
+  queryClient.invalidateQueries({ queryKey: adQueryKeys.analytics(adId) });
+}
+
+/**
+ * Hook to pause a running campaign
+ */
+export function usePauseAd() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: ['ads', 'pause'],
+    mutationFn: (adId: string) => adApi.pauseAd(adId),
+    onSuccess: (_, adId) => {
+      invalidateCampaign(queryClient, adId);
+      queryClient.invalidateQueries({ queryKey: adQueryKeys.lists() });
+    },
+  });
+}
+
+/**
+ * Hook to resume a paused (or completed, with budget left) campaign
+ */
+export function useResumeAd() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: ['ads', 'resume'],
+    mutationFn: (adId: string) => adApi.resumeAd(adId),
+    onSuccess: (_, adId) => {
+      invalidateCampaign(queryClient, adId);
+      queryClient.invalidateQueries({ queryKey: adQueryKeys.lists() });
+    },
+  });
+}
+
+/** After a test changes: the test itself, its campaign, and the feeds that serve it */
+function onCreativeTestChanged(queryClient: QueryClient, test: AdCreativeTest) {
+  queryClient.setQueryData(adQueryKeys.creativeTest(test.adId), test);
+  invalidateCampaign(queryClient, test.adId);
+  queryClient.invalidateQueries({ queryKey: adQueryKeys.lists() });
+}
+
+/**
+ * Hook to set an ad's 2–4 creative variants
+ */
+export function useSaveAdVariants() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: ['ads', 'saveVariants'],
+    mutationFn: ({ adId, mode, variants }: { adId: string; mode: AdVariantMode; variants: AdVariantCreative[] }) =>
+      adApi.saveAdVariants(adId, mode, variants),
+    onSuccess: (test) => onCreativeTestChanged(queryClient, test),
+  });
+}
+
+/**
+ * Hook to switch a test's mode or pick its winner
+ */
+export function useUpdateAdCreativeTest() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: ['ads', 'updateCreativeTest'],
+    mutationFn: ({ adId, ...changes }: { adId: string; mode?: AdVariantMode; winnerVariantId?: string | null }) =>
+      adApi.updateAdCreativeTest(adId, changes),
+    onSuccess: (test) => onCreativeTestChanged(queryClient, test),
+  });
+}
+
+/**
+ * Hook to end a creative test
+ */
+export function useEndAdCreativeTest() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: ['ads', 'endCreativeTest'],
+    mutationFn: (adId: string) => adApi.endAdCreativeTest(adId),
+    onSuccess: (test) => onCreativeTestChanged(queryClient, test),
+  });
+}
+
+/**
+ * Hook to get a rewarded ad to watch, with the token that claims its points
+ */
+export function useStartRewardedAd() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: ['ads', 'startRewarded'],
+    mutationFn: adApi.startRewardedAd,
+    // A refusal (daily cap, no ad) means the status shown is out of date
+    onError: () => queryClient.invalidateQueries({ queryKey: adQueryKeys.rewarded() }),
+  });
+}
+
+/**
+ * Hook to claim a watched rewarded ad. The new balance goes straight into the
+ * user cache, which useSyncWalletBalance carries into the wallet.
+ */
+export function useClaimRewardedAd() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: ['ads', 'claimRewarded'],
+    mutationFn: (token: string) => adApi.claimRewardedAd(token),
+    onSuccess: (claim: RewardedAdClaim) => {
+      queryClient.setQueryData(queryKeys.user, (old: any) =>
+        old ? { ...old, points: claim.balance, walletBalance: claim.balance } : old);
+      queryClient.setQueryData<RewardedAdStatus>(adQueryKeys.rewarded(), (old) =>
+        old ? { ...old, creditedToday: claim.creditedToday, remaining: claim.remaining } : old);
+      queryClient.invalidateQueries({ queryKey: queryKeys.transactions });
     },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: adQueryKeys.rewarded() }),
   });
 }
 
@@ -377,6 +581,8 @@ export function useRecordAdClick() {
       adId: string;
       placement: AdPlacement;
       eventId?: string;
+      /** The creative-test variant shown (Ad.variantId) */
+      variantId?: string;
       deviceInfo?: { platform: string; version: string };
     }) => {
       // Record locally in UI store
@@ -412,6 +618,8 @@ export function useRecordAdImpression() {
       placement: AdPlacement;
       duration: number;
       eventId?: string;
+      /** The creative-test variant shown (Ad.variantId) */
+      variantId?: string;
       wasVisible?: boolean;
       viewportPercentage?: number;
     }) => {
@@ -514,6 +722,7 @@ export function useAdImpressionTracker(
     viewStartTime.current = null;
     recordImpression({
       adId: a.id,
+      variantId: a.variantId,
       placement: p,
       duration,
       wasVisible: true,
@@ -556,6 +765,7 @@ export function useAdClickHandler(placement: AdPlacement) {
     (ad: Ad) => {
       recordClick({
         adId: ad.id,
+        variantId: ad.variantId,
         placement,
         deviceInfo: {
           platform: Platform.OS,
@@ -609,6 +819,42 @@ export function useAdPreferences() {
   })));
 }
 
+let cachedRegion: { code: string; name: string | null } | null | undefined;
+
+/** The device's country, from its locale — the only location ads are matched on */
+function deviceRegion(): { code: string; name: string | null } | null {
+  if (cachedRegion !== undefined) return cachedRegion;
+  const code = regionFromLocale(Intl.DateTimeFormat().resolvedOptions().locale);
+  let name: string | null = null;
+  if (code) {
+    try {
+      name = new Intl.DisplayNames(['en'], { type: 'region' }).of(code) ?? null;
+    } catch { /* no Intl.DisplayNames on this engine — match on the code alone */ }
+  }
+  cachedRegion = code ? { code, name } : null;
+  return cachedRegion;
+}
+
+/**
+ * Hook for the viewer profile ads are targeted against (utils/adTargeting):
+ * shared age range and gender, the device's country, and interests from
+ * watched videos — only the country when personalized ads are off
+ */
+export function useAdViewerProfile(): AdViewerProfile {
+  const { personalizedAds, ageRange, gender, topicCounts } = useAdUIStore(useShallow((s) => ({
+    personalizedAds: s.preferences.personalizedAds,
+    // Preferences persisted before these were added don't have them
+    ageRange: s.preferences.ageRange ?? null,
+    gender: s.preferences.gender ?? null,
+    topicCounts: s.topicCounts,
+  })));
+
+  return useMemo(
+    () => adViewerProfile({ personalizedAds, ageRange, gender, region: deviceRegion(), topicCounts }),
+    [personalizedAds, ageRange, gender, topicCounts],
+  );
+}
+
 // ============================================================================
 // COMBINED DATA HOOKS
 // ============================================================================
@@ -125,19 +125,21 @@ async function fetchJson<T>(path: string, init?: RequestInit): Promise<ApiRespon
       }
     }
 
+    // Guard against Vercel/Netlify HTML error pages leaking into JSON.parse
+    const contentType = response.headers.get('content-type') ?? '';
+    const looksJson = contentType.includes('application/json');
+    const json = looksJson ? await response.json() : { message: await response.text() };
+
     // 403 Forbidden = tampered / permanently invalid token (not just expired).
     // The server distinguishes 401 (expired, refreshable) from 403 (invalid, not
     // refreshable). Clear auth state so the user is redirected to login instead
-    // of seeing cryptic "Request failed" errors on every screen.
-    if (response.status === 403) {
+    // of seeing cryptic "Request failed" errors on every screen. A failed Play
+    // Integrity check (lib/playIntegrity.mjs) is about the install, not the
+    // session, so it leaves the user signed in.
+    if (response.status === 403 && json?.error !== 'INTEGRITY_FAILED') {
       useAuthStore.getState().setAuth(null);
     }
 
-    // Guard against Vercel/Netlify HTML error pages leaking into JSON.parse
-    const contentType = response.headers.get('content-type') ?? '';
-    const looksJson = contentType.includes('application/json');
-    const json = looksJson ? await response.json() : { message: await response.text() };
-
     if (!response.ok) {
       return { success: false, data: json as T, error: json?.message || "Request failed" };
     }
@@ -165,10 +167,11 @@ export const api = {
     return { data: response.data };
   },
 
-  async post<T = any>(url: string, data?: any): Promise<{ data: T }> {
+  async post<T = any>(url: string, data?: any, config?: { headers?: Record<string, string> }): Promise<{ data: T }> {
     const response = await fetchJson<T>(url, {
       method: 'POST',
       body: data ? JSON.stringify(data) : undefined,
+      headers: config?.headers,
     });
     if (!response.success) {
       throw new Error(response.error || 'Request failed');
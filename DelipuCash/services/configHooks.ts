@@ -23,6 +23,10 @@ export interface RewardConfig {
   defaultRegularRewardAmount: number;
   defaultInstantRewardAmount: number;
   referralBonusPoints: number;
+  /** Points for watching a rewarded ad to the end */
+  rewardedAdPoints: number;
+  /** Rewarded ads paid per day (UTC); 0 turns them off */
+  rewardedAdDailyCap: number;
 }
 
 // ============================================================================
@@ -76,6 +80,8 @@ const DEFAULT_CONFIG: RewardConfig = {
   defaultRegularRewardAmount: 200,
   defaultInstantRewardAmount: 500,
   referralBonusPoints: 60,
+  rewardedAdPoints: 5,
+  rewardedAdDailyCap: 5,
 };
 
 // ============================================================================
@@ -16,6 +16,8 @@ import {
     RewardQuestion,
     RewardQuestionType,
     AnswerMatchMode,
+    ComputedVariable,
+    SurveyTextTranslation,
     Survey,
     Transaction,
     UploadSurvey,
@@ -25,7 +27,7 @@ import {
 import { useCallback } from "react";
 import { keepPreviousData, useMutation, UseMutationResult, useQuery, useQueryClient, UseQueryResult, useSuspenseQuery } from "@tanstack/react-query";
 import api from "./api";
-import { surveyApi } from "./surveyApi";
+import { surveyApi, isSubmissionRejected, SurveySubmitError } from "./surveyApi";
 import { useAuthStore } from '@/utils/auth/store';
 import { useInstantRewardStore } from '@/store/InstantRewardStore';
 import { useSSEStore, selectNeedsPolling } from '@/store/SSEStore';
@@ -884,18 +886,33 @@ export function useCheckSurveyAttempt(
 export function useSubmitSurvey(): UseMutationResult<
   { pointsAwarded?: number; cashEquivalent?: number; reward?: number; message: string },
   Error,
-  { surveyId: string; responses: Record<string, unknown> }
+  {
+    surveyId: string;
+    responses: Record<string, unknown>;
+    startedAt?: string;
+    idempotencyKey?: string;
+    language?: string;
+    surveyVersion?: number;
+  }
 > {
   const queryClient = useQueryClient();
 
   return useMutation({
     mutationKey: ['surveys', 'submit'],
-    mutationFn: async ({ surveyId, responses }) => {
+    mutationFn: async ({ surveyId, responses, startedAt, idempotencyKey, language, surveyVersion }) => {
       // Submit through the dedicated survey API layer (services/surveyApi.ts) —
       // reads already live there; the legacy services/api.ts submit path had
       // drifted (untyped pointsAwarded/cashEquivalent).
-      const response = await surveyApi.submitResponse(surveyId, responses);
-      if (!response.success) throw new Error(response.error);
+      const response = await surveyApi.submitResponse(surveyId, responses, {
+        startedAt,
+        idempotencyKey,
+        language,
+        surveyVersion,
+      });
+      // `rejected: false` tells the caller the request never landed — queue it
+      if (!response.success) {
+        throw new SurveySubmitError(response.error || 'Failed to submit survey', isSubmissionRejected(response), response.data?.code);
+      }
       return response.data;
     },
     onSuccess: (_data, variables) => {
@@ -935,6 +952,10 @@ export function useCreateSurvey(): UseMutationResult<Survey, Error, {
   maxResponses?: number;
   totalBudget?: number;
   questions: Omit<UploadSurvey, 'id' | 'userId' | 'surveyId' | 'createdAt' | 'updatedAt'>[];
+  computedVariables?: ComputedVariable[];
+  defaultLanguage?: string;
+  languages?: string[];
+  translations?: Record<string, SurveyTextTranslation>;
   userId?: string;
 }> {
   const queryClient = useQueryClient();
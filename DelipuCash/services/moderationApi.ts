@@ -0,0 +1,157 @@
+/**
+ * Moderation API Service
+ * User reports and the review console (reported-content queue, audit trail).
+ * The ad approval queue lives in adApi (fetchPendingAds, approveAd, rejectAd,
+ * bulkReviewAds).
+ */
+
+import { api } from './api';
+import type {
+  ModerationAuditEntry,
+  ModerationQueueItem,
+  ModerationSummary,
+  ReportDecision,
+  ReportReason,
+  ReportTargetType,
+} from '../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ReportContentPayload {
+  targetType: ReportTargetType;
+  targetId: string;
+  reason: ReportReason;
+  details?: string;
+}
+
+export interface ReportQueuePage {
+  items: ModerationQueueItem[];
+  total: number;
+  hasMore: boolean;
+}
+
+export interface ReviewTarget {
+  targetType: ReportTargetType;
+  targetId: string;
+}
+
+export interface ResolveReportsResult {
+  decision: ReportDecision;
+  resolved: ReviewTarget[];
+  /** Items that couldn't be resolved, e.g. already handled by another moderator */
+  skipped: (ReviewTarget & { message: string })[];
+}
+
+export interface AuditTrailPage {
+  entries: ModerationAuditEntry[];
+  /** Cursor for the next (older) page; null on the last one */
+  nextBefore: string | null;
+}
+
+// ============================================================================
+// API ENDPOINTS
+// ============================================================================
+
+const MODERATION_ENDPOINTS = {
+  reports: '/api/moderation/reports',
+  resolve: '/api/moderation/reports/resolve',
+  summary: '/api/moderation/summary',
+  audit: '/api/moderation/audit',
+};
+
+// ============================================================================
+// REPORTING (any signed-in user)
+// ============================================================================
+
+/**
+ * Report a video, comment, question response or survey. Reporting the same
+ * item again updates the reason.
+ */
+export const reportContent = async (payload: ReportContentPayload): Promise<{ id: string; status: string }> => {
+  try {
+    const response = await api.post(MODERATION_ENDPOINTS.reports, payload);
+    return response.data?.data;
+  } catch (error: any) {
+    console.error('Error reporting content:', error);
+    throw new Error(error.response?.data?.message || 'Failed to send report');
+  }
+};
+
+// ============================================================================
+// REVIEW CONSOLE (Admin/Moderator)
+// ============================================================================
+
+/**
+ * Pending ads and open reports per type — the console's tab badges
+ */
+export const fetchModerationSummary = async (): Promise<ModerationSummary> => {
+  try {
+    const response = await api.get(MODERATION_ENDPOINTS.summary);
+    return response.data?.data;
+  } catch (error: any) {
+    console.error('Error fetching moderation summary:', error);
+    throw new Error(error.response?.data?.message || 'Failed to fetch moderation summary');
+  }
+};
+
+/**
+ * Reported items, most-reported first
+ */
+export const fetchReportQueue = async (type?: ReportTargetType, offset = 0): Promise<ReportQueuePage> => {
+  try {
+    const params: Record<string, string> = {};
+    if (type) params.type = type;
+    if (offset) params.offset = String(offset);
+    const response = await api.get(MODERATION_ENDPOINTS.reports, { params });
+    return response.data?.data ?? { items: [], total: 0, hasMore: false };
+  } catch (error: any) {
+    console.error('Error fetching report queue:', error);
+    throw new Error(error.response?.data?.message || 'Failed to fetch reports');
+  }
+};
+
+/**
+ * Remove or dismiss up to 50 reported items, closing all of their open reports
+ */
+export const resolveReports = async (
+  targets: ReviewTarget[],
+  decision: ReportDecision,
+  note?: string
+): Promise<ResolveReportsResult> => {
+  try {
+    const response = await api.post(MODERATION_ENDPOINTS.resolve, { targets, decision, note });
+    return response.data?.data;
+  } catch (error: any) {
+    console.error('Error resolving reports:', error);
+    throw new Error(error.response?.data?.message || 'Failed to resolve reports');
+  }
+};
+
+/**
+ * Who approved, rejected, removed or dismissed what, newest first
+ */
+export const fetchAuditTrail = async (before?: string): Promise<AuditTrailPage> => {
+  try {
+    const response = await api.get(MODERATION_ENDPOINTS.audit, before ? { params: { before } } : undefined);
+    return response.data?.data ?? { entries: [], nextBefore: null };
+  } catch (error: any) {
+    console.error('Error fetching audit trail:', error);
+    throw new Error(error.response?.data?.message || 'Failed to fetch audit trail');
+  }
+};
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+export const moderationApi = {
+  reportContent,
+  fetchModerationSummary,
+  fetchReportQueue,
+  resolveReports,
+  fetchAuditTrail,
+};
+
+export default moderationApi;
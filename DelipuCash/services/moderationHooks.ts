@@ -0,0 +1,171 @@
+/**
+ * Moderation Hooks — TanStack Query v5 layer over moderationApi and the ad
+ * review calls in adApi.
+ *
+ * - The console's three queues (pending ads, reported items, audit trail) are
+ *   infinite queries; every review decision refreshes the queue it came from,
+ *   the summary badges and the audit trail.
+ * - useReportContent is the only hook here for regular users.
+ */
+
+import {
+  useInfiniteQuery,
+  useMutation,
+  useQuery,
+  useQueryClient,
+  type QueryClient,
+} from '@tanstack/react-query';
+
+import { adApi } from './adApi';
+import { adQueryKeys } from './adHooksRefactored';
+import {
+  moderationApi,
+  type ReportContentPayload,
+  type ReviewTarget,
+} from './moderationApi';
+import type { AdReviewDecision, ReportDecision, ReportTargetType } from '../types';
+
+// ===========================================
+// Query Keys
+// ===========================================
+
+export const moderationQueryKeys = {
+  all: ['moderation'] as const,
+  summary: () => [...moderationQueryKeys.all, 'summary'] as const,
+  pendingAds: () => [...moderationQueryKeys.all, 'pendingAds'] as const,
+  reportQueues: () => [...moderationQueryKeys.all, 'reports'] as const,
+  reportQueue: (type?: ReportTargetType) => [...moderationQueryKeys.reportQueues(), type ?? 'all'] as const,
+  audit: () => [...moderationQueryKeys.all, 'audit'] as const,
+};
+
+const PENDING_ADS_PAGE = 20;
+
+// A queue other moderators work too — keep it fresh but don't poll
+const MODERATION_STALE_TIME = 1000 * 30;
+
+/** After any decision: badges, and the trail that now holds the decision */
+function invalidateReviewed(queryClient: QueryClient) {
+  queryClient.invalidateQueries({ queryKey: moderationQueryKeys.summary() });
+  queryClient.invalidateQueries({ queryKey: moderationQueryKeys.audit() });
+}
+
+/** After an ad decision: the queue, and the feeds and dashboards that show the ad */
+function invalidateAdReview(queryClient: QueryClient) {
+  invalidateReviewed(queryClient);
+  queryClient.invalidateQueries({ queryKey: moderationQueryKeys.pendingAds() });
+  queryClient.invalidateQueries({ queryKey: adQueryKeys.lists() });
+  queryClient.invalidateQueries({ queryKey: adQueryKeys.campaignLists() });
+}
+
+// ===========================================
+// Query Hooks
+// ===========================================
+
+/** Pending ads and open reports per type — the console's tab badges */
+export function useModerationSummary(enabled = true) {
+  return useQuery({
+    queryKey: moderationQueryKeys.summary(),
+    queryFn: moderationApi.fetchModerationSummary,
+    staleTime: MODERATION_STALE_TIME,
+    enabled,
+  });
+}
+
+/** Ads waiting for review, oldest first */
+export function usePendingAds(enabled = true) {
+  return useInfiniteQuery({
+    queryKey: moderationQueryKeys.pendingAds(),
+    queryFn: ({ pageParam }) => adApi.fetchPendingAds(PENDING_ADS_PAGE, pageParam),
+    initialPageParam: 0,
+    getNextPageParam: (lastPage) =>
+      lastPage.pagination.hasMore ? lastPage.pagination.offset + lastPage.pagination.limit : undefined,
+    staleTime: MODERATION_STALE_TIME,
+    enabled,
+  });
+}
+
+/** Reported items, most-reported first; all types unless `type` is given */
+export function useReportQueue(type?: ReportTargetType, enabled = true) {
+  return useInfiniteQuery({
+    queryKey: moderationQueryKeys.reportQueue(type),
+    queryFn: ({ pageParam }) => moderationApi.fetchReportQueue(type, pageParam),
+    initialPageParam: 0,
+    getNextPageParam: (lastPage, pages) =>
+      lastPage.hasMore ? pages.reduce((sum, page) => sum + page.items.length, 0) : undefined,
+    staleTime: MODERATION_STALE_TIME,
+    enabled,
+  });
+}
+
+/** Who approved, rejected, removed or dismissed what, newest first */
+export function useAuditTrail(enabled = true) {
+  return useInfiniteQuery({
+    queryKey: moderationQueryKeys.audit(),
+    queryFn: ({ pageParam }) => moderationApi.fetchAuditTrail(pageParam),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextBefore ?? undefined,
+    staleTime: MODERATION_STALE_TIME,
+    enabled,
+  });
+}
+
+// ===========================================
+// Mutation Hooks
+// ===========================================
+
+/** Approve one pending ad */
+export function useApproveAd() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: ['moderation', 'approveAd'],
+    mutationFn: (adId: string) => adApi.approveAd(adId),
+    onSuccess: () => invalidateAdReview(queryClient),
+  });
+}
+
+/** Reject one ad with the reason its advertiser will see */
+export function useRejectAd() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: ['moderation', 'rejectAd'],
+    mutationFn: ({ adId, reason }: { adId: string; reason: string }) => adApi.rejectAd(adId, reason),
+    onSuccess: () => invalidateAdReview(queryClient),
+  });
+}
+
+/** Approve or reject several ads; the result lists the ones that were skipped */
+export function useBulkReviewAds() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: ['moderation', 'bulkReviewAds'],
+    mutationFn: ({ adIds, action, reason }: { adIds: string[]; action: AdReviewDecision; reason?: string }) =>
+      adApi.bulkReviewAds(adIds, action, reason),
+    onSettled: () => invalidateAdReview(queryClient),
+  });
+}
+
+/** Remove or dismiss reported items */
+export function useResolveReports() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: ['moderation', 'resolveReports'],
+    mutationFn: ({ targets, decision, note }: { targets: ReviewTarget[]; decision: ReportDecision; note?: string }) =>
+      moderationApi.resolveReports(targets, decision, note),
+    onSettled: () => {
+      invalidateReviewed(queryClient);
+      queryClient.invalidateQueries({ queryKey: moderationQueryKeys.reportQueues() });
+    },
+  });
+}
+
+/** Report a video, comment, question response or survey */
+export function useReportContent() {
+  return useMutation({
+    mutationKey: ['moderation', 'report'],
+    mutationFn: (payload: ReportContentPayload) => moderationApi.reportContent(payload),
+  });
+}
@@ -0,0 +1,167 @@
+/**
+ * Offline download files — fetching, encrypting and opening videos kept on
+ * the device for video premium (utils/offlineDownloads.ts explains the scheme).
+ *
+ * A download is licensed (videoApi.getDownloadLicense), fetched from a signed
+ * URL into the cache, encrypted in place with the license's content key and
+ * moved to documentDirectory/offline-videos/. The key goes to SecureStore.
+ * To play, the file is copied to cache/offline-playback/ and decrypted there;
+ * the copy is deleted when the player closes, and any left over from a crash
+ * on the next launch.
+ *
+ * The queue and each download's state live in OfflineDownloadStore —
+ * useOfflineDownloadProcessor drives this module.
+ */
+
+import * as FileSystem from 'expo-file-system/legacy';
+import { File } from 'expo-file-system';
+import * as SecureStore from 'expo-secure-store';
+import { videoApi } from './videoApi';
+import { getSignedPlaybackUrl } from './r2UploadService';
+import { cryptRange, encryptedRanges } from '@/utils/offlineDownloads';
+import { base64ToBytes } from '@/utils/xlsxReader';
+
+const DOWNLOAD_DIR = 'offline-videos/';
+const PARTIAL_DIR = 'offline-partial/';
+const PLAYBACK_DIR = 'offline-playback/';
+
+/** Signed URLs only need to outlive the download itself */
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+const documentDir = () => `${FileSystem.documentDirectory || FileSystem.cacheDirectory || ''}`;
+const cacheDir = () => `${FileSystem.cacheDirectory || FileSystem.documentDirectory || ''}`;
+const contentKeyName = (videoId: string) => `offline_key_${videoId}`;
+
+// Running transfers, so a download removed mid-way can be cancelled
+const activeTransfers = new Map<string, FileSystem.DownloadResumable>();
+
+/** Encrypt or decrypt the file at `uri` in place — the same XOR either way */
+function cryptFile(uri: string, key: Uint8Array): void {
+  const handle = new File(uri).open();
+  try {
+    for (const range of encryptedRanges(handle.size ?? 0)) {
+      handle.offset = range.offset;
+      const bytes = handle.readBytes(range.length);
+      handle.offset = range.offset;
+      handle.writeBytes(cryptRange(key, range.offset, bytes));
+    }
+  } finally {
+    handle.close();
+  }
+}
+
+export interface OfflineDownloadResult {
+  fileUri: string;
+  sizeBytes: number;
+  expiresAt: string;
+}
+
+/**
+ * License, fetch and encrypt `videoId`. Rejects with a message for the
+ * Downloads tab; `onLicensed` reports the expected size before fetching so the
+ * caller can check the storage cap, and may return false to stop there.
+ */
+export async function downloadOfflineVideo(
+  videoId: string,
+  {
+    onLicensed,
+    onProgress,
+  }: {
+    onLicensed?: (sizeBytes: number | null) => boolean;
+    onProgress?: (progress: number) => void;
+  } = {},
+): Promise<OfflineDownloadResult | null> {
+  const license = await videoApi.getDownloadLicense(videoId);
+  if (!license.success || !license.data) throw new Error(license.error || 'Could not download this video');
+  if (onLicensed && !onLicensed(license.data.sizeBytes)) return null;
+
+  let url = license.data.url;
+  if (license.data.storageKey) {
+    const signed = await getSignedPlaybackUrl(license.data.storageKey, SIGNED_URL_TTL_SECONDS);
+    if (!signed.success || !signed.data.url) throw new Error(signed.error || 'Could not reach the video');
+    url = signed.data.url;
+  }
+  if (!url) throw new Error('Could not reach the video');
+
+  const partialDir = `${cacheDir()}${PARTIAL_DIR}`;
+  const finalDir = `${documentDir()}${DOWNLOAD_DIR}`;
+  await FileSystem.makeDirectoryAsync(partialDir, { intermediates: true }).catch(() => {});
+  await FileSystem.makeDirectoryAsync(finalDir, { intermediates: true }).catch(() => {});
+  const partialUri = `${partialDir}${videoId}.part`;
+  const fileUri = `${finalDir}${videoId}.bin`;
+
+  const transfer = FileSystem.createDownloadResumable(url, partialUri, {}, ({ totalBytesWritten, totalBytesExpectedToWrite }) => {
+    if (totalBytesExpectedToWrite > 0) onProgress?.(totalBytesWritten / totalBytesExpectedToWrite);
+  });
+  activeTransfers.set(videoId, transfer);
+  try {
+    const result = await transfer.downloadAsync();
+    // undefined: cancelled by cancelOfflineDownload
+    if (!result) return null;
+    if (result.status >= 400) throw new Error(`Download failed (${result.status})`);
+
+    cryptFile(partialUri, base64ToBytes(license.data.contentKey));
+    await SecureStore.setItemAsync(contentKeyName(videoId), license.data.contentKey);
+    await FileSystem.moveAsync({ from: partialUri, to: fileUri });
+
+    const info = await FileSystem.getInfoAsync(fileUri);
+    return {
+      fileUri,
+      sizeBytes: info.exists ? info.size : license.data.sizeBytes ?? 0,
+      expiresAt: license.data.expiresAt,
+    };
+  } catch (error) {
+    await FileSystem.deleteAsync(partialUri, { idempotent: true }).catch(() => {});
+    throw error;
+  } finally {
+    activeTransfers.delete(videoId);
+  }
+}
+
+/** Stop a running download — its downloadOfflineVideo resolves null */
+export async function cancelOfflineDownload(videoId: string): Promise<void> {
+  await activeTransfers.get(videoId)?.cancelAsync().catch(() => {});
+}
+
+/** Delete a download's file and key — best effort, a leftover only costs disk space */
+export async function deleteOfflineFiles(videoId: string, fileUri: string | null): Promise<void> {
+  await cancelOfflineDownload(videoId);
+  await Promise.all([
+    fileUri ? FileSystem.deleteAsync(fileUri, { idempotent: true }).catch(() => {}) : Promise.resolve(),
+    FileSystem.deleteAsync(`${cacheDir()}${PARTIAL_DIR}${videoId}.part`, { idempotent: true }).catch(() => {}),
+    SecureStore.deleteItemAsync(contentKeyName(videoId)).catch(() => {}),
+  ]);
+}
+
+/**
+ * A playable copy of a downloaded video — decrypted into the cache. Pass the
+ * uri to closeOfflineVideo when the player closes.
+ */
+export async function openOfflineVideo(videoId: string, fileUri: string): Promise<string> {
+  const contentKey = await SecureStore.getItemAsync(contentKeyName(videoId));
+  if (!contentKey) throw new Error('This download can’t be opened on this device');
+
+  const playbackDir = `${cacheDir()}${PLAYBACK_DIR}`;
+  await FileSystem.makeDirectoryAsync(playbackDir, { intermediates: true }).catch(() => {});
+  const playbackUri = `${playbackDir}${videoId}.mp4`;
+  await FileSystem.copyAsync({ from: fileUri, to: playbackUri });
+  try {
+    cryptFile(playbackUri, base64ToBytes(contentKey));
+  } catch (error) {
+    await FileSystem.deleteAsync(playbackUri, { idempotent: true }).catch(() => {});
+    throw error;
+  }
+  return playbackUri;
+}
+
+export async function closeOfflineVideo(playbackUri: string): Promise<void> {
+  await FileSystem.deleteAsync(playbackUri, { idempotent: true }).catch(() => {});
+}
+
+/** Delete decrypted copies a crash left behind, and unfinished downloads */
+export async function clearOfflineScratch(): Promise<void> {
+  await Promise.all([
+    FileSystem.deleteAsync(`${cacheDir()}${PLAYBACK_DIR}`, { idempotent: true }).catch(() => {}),
+    FileSystem.deleteAsync(`${cacheDir()}${PARTIAL_DIR}`, { idempotent: true }).catch(() => {}),
+  ]);
+}
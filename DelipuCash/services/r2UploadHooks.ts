@@ -43,6 +43,7 @@ import {
   ValidateUploadResult,
   UploadProgressEvent,
   AdMediaUploadResult,
+  MultipartUploadSession,
 } from './r2UploadService';
 import { ApiResponse } from '@/types';
 
@@ -69,6 +70,14 @@ export interface UseUploadVideoParams {
   duration?: number;
   fileName?: string;
   mimeType?: string;
+  /** Bytes — large files go up as a resumable multipart upload */
+  fileSize?: number;
+  /** Publish as the replay of this ended livestream */
+  livestreamSessionId?: string;
+  /** Multipart upload to resume (persisted from an earlier attempt's onSession) */
+  multipartSession?: MultipartUploadSession | null;
+  /** Persist this to resume after a crash or dropped connection */
+  onMultipartSession?: (session: MultipartUploadSession) => void;
   /** Abort the in-flight upload (e.g. when the upload modal is closed/cancelled). */
   signal?: AbortSignal;
 }
@@ -90,6 +99,8 @@ export interface UploadHookResult {
   isUploading: boolean;
   /** True after XHR completes (100%) while waiting for server response */
   isProcessing: boolean;
+  /** Bytes of the video sent so far — counts parts from earlier attempts on resume */
+  uploadedBytes?: number;
 }
 
 // ============================================================================
@@ -145,6 +156,7 @@ export function useUploadVideoToR2(): UseMutationResult<
   UseUploadVideoParams
 > & UploadHookResult {
   const [progress, setProgress] = useState(0);
+  const [uploadedBytes, setUploadedBytes] = useState(0);
   const [isUploading, setIsUploading] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const queryClient = useQueryClient();
@@ -156,6 +168,7 @@ export function useUploadVideoToR2(): UseMutationResult<
     retry: 0,
     mutationFn: async (params: UseUploadVideoParams) => {
       setProgress(0);
+      setUploadedBytes(0);
       setIsUploading(true);
       setIsProcessing(false);
 
@@ -169,10 +182,15 @@ export function useUploadVideoToR2(): UseMutationResult<
             duration: params.duration,
             fileName: params.fileName,
             mimeType: params.mimeType,
+            fileSize: params.fileSize,
+            livestreamSessionId: params.livestreamSessionId,
           },
           {
+            session: params.multipartSession,
+            onSession: params.onMultipartSession,
             onProgress: (event: UploadProgressEvent) => {
               setProgress(event.progress);
+              setUploadedBytes(event.loaded);
               // XHR bytes fully sent — now waiting for finalize API call
               if (event.progress >= 100) {
                 setIsProcessing(true);
@@ -206,6 +224,7 @@ export function useUploadVideoToR2(): UseMutationResult<
   return {
     ...mutation,
     progress,
+    uploadedBytes,
     isUploading,
     isProcessing,
   };
@@ -225,6 +244,7 @@ export function useUploadMediaToR2(): UseMutationResult<
   UseUploadMediaParams
 > & UploadHookResult {
   const [progress, setProgress] = useState(0);
+  const [uploadedBytes, setUploadedBytes] = useState(0);
   const [isUploading, setIsUploading] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const queryClient = useQueryClient();
@@ -234,6 +254,7 @@ export function useUploadMediaToR2(): UseMutationResult<
     retry: 0,
     mutationFn: async (params: UseUploadMediaParams) => {
       setProgress(0);
+      setUploadedBytes(0);
       setIsUploading(true);
       setIsProcessing(false);
 
@@ -260,10 +281,15 @@ export function useUploadMediaToR2(): UseMutationResult<
             duration: params.duration,
             fileName: params.fileName,
             mimeType: params.mimeType,
+            fileSize: params.fileSize,
+            livestreamSessionId: params.livestreamSessionId,
           },
           {
+            session: params.multipartSession,
+            onSession: params.onMultipartSession,
             onProgress: (event: UploadProgressEvent) => {
               setProgress(event.progress);
+              setUploadedBytes(event.loaded);
               // XHR bytes fully sent — now waiting for finalize API call
               if (event.progress >= 100) {
                 setIsProcessing(true);
@@ -298,6 +324,7 @@ export function useUploadMediaToR2(): UseMutationResult<
   return {
     ...mutation,
     progress,
+    uploadedBytes,
     isUploading,
     isProcessing,
   };
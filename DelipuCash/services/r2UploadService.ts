@@ -6,6 +6,7 @@
  * - Video upload with progress tracking
  * - Thumbnail upload
  * - Direct presigned URL uploads for large files
+ * - Resumable multipart uploads for very large videos
  * - Livestream chunk uploads
  * 
  * Industry standards:
@@ -15,6 +16,7 @@
  * - Type safety
  */
 
+import { File } from 'expo-file-system';
 import { ApiResponse } from "@/types";
 import { useAuthStore } from "@/utils/auth/store";
 import { silentRefresh, isTokenExpiredResponse } from './tokenRefresh';
@@ -822,6 +824,406 @@ async function finalizeVideoUpload(
   throw lastError;
 }
 
+// ============================================================================
+// RESUMABLE MULTIPART UPLOAD (large videos — server/lib/multipartUpload.mjs)
+// ============================================================================
+
+/** Files at least this big go up in parts instead of one PUT */
+export const MULTIPART_THRESHOLD_BYTES = 16 * 1024 * 1024;
+/** Parts in flight at once — enough to fill a mobile uplink without starving the UI */
+const MULTIPART_CONCURRENCY = 3;
+/** Most part URLs requested per sign call (server MULTIPART_LIMITS.SIGN_BATCH) */
+const MULTIPART_SIGN_BATCH = 20;
+/** Per-part PUT timeout — a part is 8MB, not a whole video */
+const PART_TIMEOUT_MS = 5 * 60 * 1000;
+
+/** A part R2 has confirmed, with the ETag CompleteMultipartUpload needs */
+export interface MultipartPart {
+  partNumber: number;
+  etag: string;
+  size: number;
+}
+
+/**
+ * Everything needed to resume a multipart upload after a crash or a dropped
+ * connection. Persisted with the PendingUpload (store/VideoStore) and updated
+ * through `onSession` every time a part is confirmed.
+ */
+export interface MultipartUploadSession {
+  key: string;
+  uploadId: string;
+  publicUrl: string;
+  fileSize: number;
+  partSize: number;
+  partCount: number;
+  parts: MultipartPart[];
+}
+
+export interface MultipartUploadOptions extends UploadOptions {
+  /** Resume this session instead of starting a new upload */
+  session?: MultipartUploadSession | null;
+  /** Called with the session on start and after every confirmed part — persist it */
+  onSession?: (session: MultipartUploadSession) => void;
+  concurrency?: number;
+}
+
+type MultipartError = Error & { status?: number; code?: string };
+
+/**
+ * JSON call to a /api/r2/multipart endpoint. Retries network errors and 5xx
+ * with backoff and refreshes an expired token once; other 4xx throw at once
+ * with `status` and `code` set.
+ */
+async function multipartRequest(
+  path: string,
+  init: { method: 'GET' | 'POST'; body?: Record<string, unknown> },
+  signal?: AbortSignal
+): Promise<any> {
+  let lastError: MultipartError = new Error('Upload request failed');
+
+  for (let attempt = 1; attempt <= UPLOAD_MAX_ATTEMPTS; attempt++) {
+    if (signal?.aborted) throw new Error('Upload was cancelled');
+
+    let response: Response;
+    try {
+      response = await fetchWithTimeout(
+        `${API_BASE_URL}/api/r2/multipart/${path}`,
+        {
+          method: init.method,
+          headers: authHeaders(),
+          body: init.body ? JSON.stringify(init.body) : undefined,
+        },
+        FINALIZE_TIMEOUT_MS,
+        signal
+      );
+    } catch {
+      if (signal?.aborted) throw new Error('Upload was cancelled');
+      lastError = new Error('Network error during upload. Please check your connection.');
+      if (attempt < UPLOAD_MAX_ATTEMPTS) await wait(1000 * 2 ** (attempt - 1));
+      continue;
+    }
+
+    if (isTokenExpiredResponse(response.status)) {
+      const refreshed = await silentRefresh();
+      if (refreshed && attempt < UPLOAD_MAX_ATTEMPTS) continue;
+    }
+
+    const data = await safeParseJSON(response).catch((error: Error) => ({ message: error.message }));
+    if (response.ok) return data;
+
+    lastError = Object.assign(new Error(data?.message || 'Upload request failed'), {
+      status: response.status,
+      code: data?.error,
+    });
+    if (response.status >= 500 && attempt < UPLOAD_MAX_ATTEMPTS) {
+      await wait(1000 * 2 ** (attempt - 1));
+      continue;
+    }
+    throw lastError;
+  }
+
+  throw lastError;
+}
+
+async function startMultipartUpload(
+  fileName: string,
+  mimeType: string,
+  fileSize: number,
+  signal?: AbortSignal
+): Promise<MultipartUploadSession> {
+  const data = await multipartRequest(
+    'create',
+    { method: 'POST', body: { fileName, mimeType, fileSize } },
+    signal
+  );
+  return {
+    key: data.key,
+    uploadId: data.uploadId,
+    publicUrl: data.publicUrl,
+    fileSize,
+    partSize: data.partSize,
+    partCount: data.partCount,
+    parts: [],
+  };
+}
+
+/** Parts R2 holds for the session — null once the upload has expired */
+async function listUploadedParts(
+  session: MultipartUploadSession,
+  signal?: AbortSignal
+): Promise<MultipartPart[] | null> {
+  const query = `key=${encodeURIComponent(session.key)}&uploadId=${encodeURIComponent(session.uploadId)}`;
+  try {
+    const data = await multipartRequest(`parts?${query}`, { method: 'GET' }, signal);
+    return data.parts as MultipartPart[];
+  } catch (error) {
+    if ((error as MultipartError).status === 404) return null;
+    throw error;
+  }
+}
+
+/**
+ * Discard a multipart upload and the parts stored so far. Best effort — an
+ * upload that's never aborted is cleaned up by the bucket's lifecycle rule.
+ */
+export async function abortMultipartUpload(
+  session: Pick<MultipartUploadSession, 'key' | 'uploadId'>
+): Promise<void> {
+  try {
+    await multipartRequest('abort', {
+      method: 'POST',
+      body: { key: session.key, uploadId: session.uploadId },
+    });
+  } catch (error) {
+    console.warn('[R2Upload] Abort multipart upload failed:', error);
+  }
+}
+
+/** Byte length of part `partNumber` (the last part is usually short) */
+const partLength = (session: MultipartUploadSession, partNumber: number) =>
+  Math.min(session.partSize, session.fileSize - (partNumber - 1) * session.partSize);
+
+/** Read one part of the file from disk */
+function readFileRange(fileUri: string, offset: number, length: number): Uint8Array {
+  const handle = new File(fileUri).open();
+  try {
+    handle.offset = offset;
+    return handle.readBytes(length);
+  } finally {
+    handle.close();
+  }
+}
+
+/** PUT one part to its presigned URL; resolves with the ETag R2 returns */
+function putPart(
+  url: string,
+  body: Uint8Array,
+  onProgress: (loaded: number) => void,
+  signal: AbortSignal
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new Error('Upload was cancelled'));
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    const onAbort = () => {
+      try { xhr.abort(); } catch { /* already done */ }
+    };
+    signal.addEventListener('abort', onAbort);
+    const cleanupSignal = () => signal.removeEventListener('abort', onAbort);
+
+    xhr.upload.addEventListener('progress', (event) => {
+      if (event.lengthComputable) onProgress(event.loaded);
+    });
+
+    xhr.addEventListener('load', () => {
+      cleanupSignal();
+      const etag = xhr.getResponseHeader('ETag')?.replace(/"/g, '');
+      if (xhr.status >= 200 && xhr.status < 300 && etag) {
+        resolve(etag);
+      } else {
+        reject(Object.assign(new Error(`Part upload failed with status ${xhr.status}`), { status: xhr.status }));
+      }
+    });
+
+    xhr.addEventListener('error', () => {
+      cleanupSignal();
+      reject(new Error('Network error during upload. Please check your connection.'));
+    });
+
+    xhr.addEventListener('abort', () => {
+      cleanupSignal();
+      reject(new Error('Upload was cancelled'));
+    });
+
+    xhr.addEventListener('timeout', () => {
+      cleanupSignal();
+      reject(new Error('Upload timed out. Please try again.'));
+    });
+
+    xhr.open('PUT', url);
+    xhr.timeout = PART_TIMEOUT_MS;
+    xhr.send(body);
+  });
+}
+
+/**
+ * Upload a large file to R2 in parts, resuming `options.session` if given.
+ *
+ * - Resume: R2's own part list is the source of truth — persisted parts it
+ *   no longer has are uploaded again, and an expired upload starts over.
+ * - Up to `concurrency` parts are in flight; each part retries with a fresh
+ *   URL, so one dropped part never costs the parts around it.
+ * - Progress is in bytes of the whole file: confirmed parts (including those
+ *   from earlier attempts) plus what's in flight.
+ * - Cancelling via `options.signal` aborts the upload on R2. Any other failure
+ *   keeps it, so the next attempt picks up from the last confirmed part.
+ */
+export async function uploadFileMultipart(
+  fileUri: string,
+  fileName: string,
+  mimeType: string,
+  fileSize: number,
+  options: MultipartUploadOptions = {}
+): Promise<{ key: string; publicUrl: string }> {
+  const { signal, onSession } = options;
+  let session: MultipartUploadSession | null = null;
+
+  try {
+    if (options.session && options.session.fileSize === fileSize) {
+      const stored = await listUploadedParts(options.session, signal);
+      if (stored) {
+        const resumed = options.session;
+        session = {
+          ...resumed,
+          parts: stored.filter(
+            (part) =>
+              part.partNumber <= resumed.partCount && part.size === partLength(resumed, part.partNumber)
+          ),
+        };
+      }
+    }
+    if (!session) {
+      session = await startMultipartUpload(fileName, mimeType, fileSize, signal);
+    }
+    onSession?.(session);
+    options.onStart?.();
+
+    const active = session;
+    const confirmed = new Map(active.parts.map((part) => [part.partNumber, part]));
+    const confirmedParts = () => [...confirmed.values()].sort((a, b) => a.partNumber - b.partNumber);
+    const queue: number[] = [];
+    for (let n = 1; n <= active.partCount; n++) {
+      if (!confirmed.has(n)) queue.push(n);
+    }
+
+    let confirmedBytes = active.parts.reduce((sum, part) => sum + part.size, 0);
+    const inFlight = new Map<number, number>();
+    const reportProgress = () => {
+      let loaded = confirmedBytes;
+      inFlight.forEach((bytes) => { loaded += bytes; });
+      loaded = Math.min(loaded, fileSize);
+      options.onProgress?.({
+        loaded,
+        total: fileSize,
+        progress: Math.min(Math.max(Math.round((loaded / fileSize) * 100), 0), 100),
+      });
+    };
+    reportProgress();
+
+    // Part URLs, signed in batches ahead of the workers
+    const urls = new Map<number, string>();
+    let signing: Promise<void> | null = null;
+    const urlFor = async (partNumber: number): Promise<string> => {
+      while (!urls.has(partNumber)) {
+        if (!signing) {
+          const batch = [partNumber, ...queue.filter((n) => !urls.has(n) && n !== partNumber)]
+            .slice(0, MULTIPART_SIGN_BATCH);
+          signing = multipartRequest(
+            'sign-parts',
+            { method: 'POST', body: { key: active.key, uploadId: active.uploadId, partNumbers: batch } },
+            signal
+          )
+            .then((data) => {
+              for (const part of data.parts as { partNumber: number; url: string }[]) {
+                urls.set(part.partNumber, part.url);
+              }
+            })
+            .finally(() => {
+              signing = null;
+            });
+        }
+        await signing;
+      }
+      return urls.get(partNumber)!;
+    };
+
+    // One failed part stops the others — its siblings are aborted, not lost,
+    // since every confirmed part is already in the session.
+    const workers = new AbortController();
+    const onCancel = () => workers.abort();
+    signal?.addEventListener('abort', onCancel);
+    let failure: Error | null = null;
+
+    const uploadPart = async (partNumber: number) => {
+      const offset = (partNumber - 1) * active.partSize;
+      const body = readFileRange(fileUri, offset, partLength(active, partNumber));
+
+      for (let attempt = 1; ; attempt++) {
+        try {
+          const etag = await putPart(
+            await urlFor(partNumber),
+            body,
+            (loaded) => {
+              inFlight.set(partNumber, loaded);
+              reportProgress();
+            },
+            workers.signal
+          );
+          inFlight.delete(partNumber);
+          confirmed.set(partNumber, { partNumber, etag, size: body.byteLength });
+          confirmedBytes += body.byteLength;
+          onSession?.({ ...active, parts: confirmedParts() });
+          reportProgress();
+          return;
+        } catch (error) {
+          inFlight.delete(partNumber);
+          // Presigned URLs expire — always sign afresh for the retry
+          urls.delete(partNumber);
+          if (workers.signal.aborted || attempt >= UPLOAD_MAX_ATTEMPTS) throw error;
+          await wait(1000 * 2 ** (attempt - 1));
+        }
+      }
+    };
+
+    const worker = async () => {
+      while (!failure && !workers.signal.aborted) {
+        const partNumber = queue.shift();
+        if (partNumber === undefined) return;
+        try {
+          await uploadPart(partNumber);
+        } catch (error) {
+          failure ??= error instanceof Error ? error : new Error('Upload failed');
+          workers.abort();
+        }
+      }
+    };
+
+    try {
+      const poolSize = Math.max(1, Math.min(options.concurrency ?? MULTIPART_CONCURRENCY, queue.length));
+      await Promise.all(Array.from({ length: poolSize }, worker));
+    } finally {
+      signal?.removeEventListener('abort', onCancel);
+    }
+    if (signal?.aborted) throw new Error('Upload was cancelled');
+    if (failure) throw failure;
+
+    const data = await multipartRequest(
+      'complete',
+      {
+        method: 'POST',
+        body: {
+          key: active.key,
+          uploadId: active.uploadId,
+          parts: confirmedParts().map(({ partNumber, etag }) => ({ partNumber, etag })),
+        },
+      },
+      signal
+    );
+    return { key: active.key, publicUrl: data.publicUrl || active.publicUrl };
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error('Upload failed');
+    if (isCancellation(err, signal)) {
+      if (session) await abortMultipartUpload(session);
+      throw new Error('Upload was cancelled');
+    }
+    options.onError?.(err);
+    throw err;
+  }
+}
+
 /**
  * Upload a thumbnail via presigned URL (with fresh-presign retry).
  * Returns the R2 key and public URL for use in the finalize call.
@@ -849,7 +1251,9 @@ export async function uploadThumbnailViaPresignedUrl(
  *
  * Flow:
  * 1+2. Presign + upload directly to R2 (progress tracked; fresh-presign retry
- *      on transient failure — see uploadFileWithFreshPresign)
+ *      on transient failure — see uploadFileWithFreshPresign). Files of
+ *      MULTIPART_THRESHOLD_BYTES or more (when `metadata.fileSize` is known)
+ *      go up in resumable parts instead — see uploadFileMultipart
  * 3.   Finalize — create the Video DB record (timeout + retry — see
  *      finalizeVideoUpload; the transfer is never redone once it succeeded)
  */
@@ -862,21 +1266,21 @@ export async function uploadVideoViaPresignedUrl(
     duration?: number;
     fileName?: string;
     mimeType?: string;
+    /** Bytes — needed to choose (and plan) a multipart upload */
+    fileSize?: number;
+    /** Ended livestream this recording is the replay of */
+    livestreamSessionId?: string;
   } = {},
-  options: UploadOptions = {},
+  options: MultipartUploadOptions = {},
   thumbnailData?: { key: string; publicUrl: string; mimeType: string }
 ): Promise<ApiResponse<VideoUploadResult>> {
   const fileName = metadata.fileName || videoUri.split('/').pop() || 'video.mp4';
   const mimeType = metadata.mimeType || 'video/mp4';
 
-  const { key: r2VideoKey, publicUrl: videoPublicUrl } = await uploadFileWithFreshPresign(
-    videoUri,
-    fileName,
-    mimeType,
-    userId,
-    'video',
-    options
-  );
+  const multipart = !!metadata.fileSize && metadata.fileSize >= MULTIPART_THRESHOLD_BYTES;
+  const { key: r2VideoKey, publicUrl: videoPublicUrl } = multipart
+    ? await uploadFileMultipart(videoUri, fileName, mimeType, metadata.fileSize!, options)
+    : await uploadFileWithFreshPresign(videoUri, fileName, mimeType, userId, 'video', options);
 
   const finalizeBody = {
     r2VideoKey,
@@ -888,6 +1292,7 @@ export async function uploadVideoViaPresignedUrl(
     title: metadata.title,
     description: metadata.description,
     duration: metadata.duration,
+    livestreamSessionId: metadata.livestreamSessionId,
   };
 
   let data;
@@ -1313,6 +1718,10 @@ export const r2UploadService = {
   getPresignedUploadUrl,
   uploadToPresignedUrl,
 
+  // Resumable multipart
+  uploadFileMultipart,
+  abortMultipartUpload,
+
   // Livestream
   uploadLivestreamChunk,
   finalizeLivestreamRecording,
@@ -3,6 +3,13 @@
  * Mirrors the server-side event taxonomy from eventBus.mjs
  */
 
+import type {
+  Comment,
+  CommentStatus,
+  LivestreamChatSettings,
+  LivestreamRestrictionKind,
+} from '@/types';
+
 export type SSEEventType =
   | 'notification.new'
   | 'notification.read'
@@ -26,6 +33,9 @@ export type SSEEventType =
   | 'livestream.ended'
   | 'livestream.viewerCount'
   | 'livestream.chat'
+  | 'livestream.chatDeleted'
+  | 'livestream.chatSettings'
+  | 'livestream.chatRestriction'
   | 'creator.new_follower'
   | 'creator.follow'
   | 'creator.unfollow'
@@ -101,6 +111,13 @@ export interface VideoCommentPayload {
   videoId: string;
   commentId: string;
   commentsCount: number;
+  /** Thread position — where the comment goes in an open comments sheet */
+  parentId: string | null;
+  rootId: string | null;
+  depth: number;
+  /** 'held' only reaches the creator (review queue); 'hidden' means remove it */
+  status: CommentStatus;
+  comment: Comment;
 }
 
 export interface VideoLikePayload {
@@ -131,9 +148,35 @@ export interface LivestreamChatPayload {
   userId: string;
   userName: string;
   text: string;
+  /** Milliseconds since the stream started — where the message lands in the replay */
+  offsetMs?: number;
   timestamp: string;
 }
 
+/** A chat message removed by the streamer or a co-moderator */
+export interface LivestreamChatDeletedPayload {
+  sessionId: string;
+  messageId: string;
+  /** The message's author */
+  userId: string;
+  deletedBy: string;
+}
+
+export interface LivestreamChatSettingsPayload extends LivestreamChatSettings {
+  sessionId: string;
+}
+
+/** A viewer restricted for the session — `kind: null` when it was lifted */
+export interface LivestreamChatRestrictionPayload {
+  sessionId: string;
+  userId: string;
+  /** Absent when the restriction was lifted */
+  userName?: string | null;
+  kind: LivestreamRestrictionKind | null;
+  expiresAt: string | null;
+  createdAt?: string;
+}
+
 export interface CreatorFollowPayload {
   creatorId: string;
   followerId: string;
@@ -14,13 +14,21 @@ import { useSSEStore } from '@/store/SSEStore';
 import { useAuthStore } from '@/utils/auth/store';
 import { queryKeys } from '@/services/hooks';
 import { questionQueryKeys } from '@/services/questionHooks';
-import { videoQueryKeys } from '@/services/videoHooks';
+import { videoQueryKeys, makeCommentCacheUpdater } from '@/services/videoHooks';
 import { transactionQueryKeys } from '@/services/transactionHooks';
 import { notificationQueryKeys } from '@/services/notificationHooks';
 import { purchasesQueryKeys } from '@/services/purchasesHooks';
 import { subscriptionPaymentKeys } from '@/services/subscriptionPaymentHooks';
 import { useVideoStore } from '@/store/VideoStore';
-import type { SSEEventType, LivestreamViewerCountPayload } from './types';
+import { applyRestrictionEvent, applySettingsEvent } from '@/utils/livestreamModeration';
+import type { LivestreamModerationState } from '@/types';
+import type {
+  SSEEventType,
+  LivestreamChatRestrictionPayload,
+  LivestreamChatSettingsPayload,
+  LivestreamViewerCountPayload,
+  VideoCommentPayload,
+} from './types';
 
 /**
  * Root-level hook that manages the SSE connection and routes events
@@ -303,15 +311,33 @@ export function useSSEConnection(): void {
 
     cleanupRef.current.push(
       manager.on('video.comment', (data: unknown) => {
-        const payload = data as { videoId?: string };
-        if (payload?.videoId) {
+        const payload = data as Partial<VideoCommentPayload>;
+        if (!payload?.videoId) return;
+        // Slot the comment into open sheets by its thread position instead of
+        // refetching every page; older servers send no comment, so refetch.
+        if (payload.comment && payload.status === 'visible') {
+          queryClient.setQueriesData(
+            { queryKey: videoQueryKeys.comments(payload.videoId) },
+            makeCommentCacheUpdater({ add: payload.comment }),
+          );
+        } else if (payload.comment && payload.status === 'hidden') {
+          queryClient.setQueriesData(
+            { queryKey: videoQueryKeys.comments(payload.videoId) },
+            makeCommentCacheUpdater({ removeId: payload.comment.id }),
+          );
+        } else if (!payload.comment) {
           queryClient.invalidateQueries({
             queryKey: videoQueryKeys.comments(payload.videoId),
           });
+        }
+        if (payload.status === 'held') {
           queryClient.invalidateQueries({
-            queryKey: videoQueryKeys.detail(payload.videoId),
+            queryKey: videoQueryKeys.heldComments(payload.videoId),
           });
         }
+        queryClient.invalidateQueries({
+          queryKey: videoQueryKeys.detail(payload.videoId),
+        });
       }),
     );
 
@@ -325,6 +351,31 @@ export function useSSEConnection(): void {
       }),
     );
 
+    // Livestream chat moderation — patch the session's cached moderation state
+    // so chat bars and the moderation sheet follow without a refetch
+    cleanupRef.current.push(
+      manager.on('livestream.chatSettings', (data: unknown) => {
+        const payload = data as LivestreamChatSettingsPayload;
+        if (!payload?.sessionId) return;
+        queryClient.setQueryData<LivestreamModerationState>(
+          videoQueryKeys.livestreamModeration(payload.sessionId),
+          (old) => (old ? applySettingsEvent(old, payload) : old),
+        );
+      }),
+    );
+
+    cleanupRef.current.push(
+      manager.on('livestream.chatRestriction', (data: unknown) => {
+        const payload = data as LivestreamChatRestrictionPayload;
+        if (!payload?.sessionId || !payload.userId) return;
+        const viewerId = useAuthStore.getState().auth?.user?.id;
+        queryClient.setQueryData<LivestreamModerationState>(
+          videoQueryKeys.livestreamModeration(payload.sessionId),
+          (old) => (old ? applyRestrictionEvent(old, payload, viewerId) : old),
+        );
+      }),
+    );
+
     // Connect
     manager.connect();
 
@@ -16,6 +16,9 @@ import {
   SurveyResponse,
   UploadSurvey,
   PaginatedResponse,
+  SurveyQuotaFill,
+  SurveyVersion,
+  QuestionTranslation,
 } from "@/types";
 import { useAuthStore } from '@/utils/auth/store';
 
@@ -40,6 +43,9 @@ const SURVEY_ROUTES = {
   checkAttempt: (id: string, userId: string) => `/api/surveys/${id}/attempt?userId=${userId}`,
   byStatus: (status: string) => `/api/surveys/status/${status}`,
   analytics: (id: string) => `/api/surveys/${id}/analytics`,
+  quotas: (id: string) => `/api/surveys/${id}/quotas`,
+  versions: (id: string) => `/api/surveys/${id}/versions`,
+  rollback: (id: string, version: number) => `/api/surveys/${id}/versions/${version}/rollback`,
   delete: (id: string) => `/api/surveys/${id}`,
   update: (id: string) => `/api/surveys/${id}`,
   importPreview: "/api/surveys/import/preview",
@@ -66,6 +72,30 @@ export interface SurveySubmissionResult {
   submittedAt?: string;
   message: string;
   alreadyAttempted?: boolean;
+  /** Machine-readable refusal, e.g. SURVEY_FULL, SCREENED_OUT, OVER_QUOTA */
+  code?: string;
+}
+
+/**
+ * Every error body the submit endpoint sends carries `submitted: false`. A
+ * failed request without one never reached the server (offline, timeout,
+ * gateway page) and is safe to queue and replay.
+ */
+export function isSubmissionRejected(response: ApiResponse<SurveySubmissionResult>): boolean {
+  return response.data?.submitted === false;
+}
+
+export class SurveySubmitError extends Error {
+  /** The server answered and refused — replaying the same answers won't help */
+  rejected: boolean;
+  /** The server's refusal code, when it sent one */
+  code?: string;
+  constructor(message: string, rejected: boolean, code?: string) {
+    super(message);
+    this.name = 'SurveySubmitError';
+    this.rejected = rejected;
+    this.code = code;
+  }
 }
 
 // Helper to fetch JSON with optional auth token
@@ -157,6 +187,18 @@ export interface SurveyAnalytics {
   }[];
 }
 
+// Published versions of a survey, newest first
+export interface SurveyVersionHistory {
+  currentVersion: number;
+  versions: SurveyVersion[];
+}
+
+// Rollback result — the restored snapshot went live as `currentVersion`
+export interface SurveyRollbackResult {
+  currentVersion: number;
+  restoredFrom: number;
+}
+
 // ===========================================
 // Import Preview Types
 // ===========================================
@@ -171,6 +213,8 @@ export interface ImportPreviewQuestion {
   minValue?: number;
   maxValue?: number;
   points?: number;
+  /** Per-language text from translation columns (text_lg, options_sw…) */
+  translations?: Record<string, QuestionTranslation>;
 }
 
 export interface ImportInvalidRow {
@@ -190,6 +234,8 @@ export interface ServerImportPreviewResponse {
   success: boolean;
   title?: string;
   description?: string;
+  /** Languages that translation columns were found for */
+  languages?: string[];
   questions: ImportPreviewQuestion[];
   warnings: string[];
   errors: string[];
@@ -271,17 +317,28 @@ export const surveyApi = {
 
   /**
    * Submit survey response
-   * Backend extracts userId from JWT token
+   * Backend extracts userId from JWT token. `startedAt` (when the attempt
+   * began) feeds completion-time analytics and speeder detection.
+   * `idempotencyKey` is generated once per attempt, so a replay from the
+   * offline queue returns the original result instead of a 409. `language`
+   * records which translation a multilingual survey was answered in, and
+   * `surveyVersion` which published version of its questions.
    */
   async submitResponse(
     surveyId: string,
     answers: Record<string, any>,
+    { startedAt, idempotencyKey, language, surveyVersion }: {
+      startedAt?: string;
+      idempotencyKey?: string;
+      language?: string;
+      surveyVersion?: number;
+    } = {},
   ): Promise<ApiResponse<SurveySubmissionResult>> {
     return fetchJson<SurveySubmissionResult>(
       SURVEY_ROUTES.submit(surveyId),
       {
         method: "POST",
-        body: JSON.stringify({ responses: answers }),
+        body: JSON.stringify({ responses: answers, startedAt, idempotencyKey, language, surveyVersion }),
       },
       getAuthToken()
     );
@@ -354,6 +411,46 @@ export const surveyApi = {
     return fetchJson<SurveyAnalytics>(SURVEY_ROUTES.analytics(surveyId));
   },
 
+  /**
+   * Get quota fill for the survey's screener questions
+   */
+  async getQuotas(surveyId: string): Promise<ApiResponse<SurveyQuotaFill[]>> {
+    const response = await fetchJson<{ data: { quotas: SurveyQuotaFill[] } }>(
+      SURVEY_ROUTES.quotas(surveyId),
+      undefined,
+      getAuthToken()
+    );
+    return { success: response.success, data: response.data?.data?.quotas || [], error: response.error };
+  },
+
+  /**
+   * Get the survey's published versions, newest first (owner only)
+   */
+  async getVersions(surveyId: string): Promise<ApiResponse<SurveyVersionHistory>> {
+    const response = await fetchJson<{ data: SurveyVersionHistory }>(
+      SURVEY_ROUTES.versions(surveyId),
+      undefined,
+      getAuthToken()
+    );
+    return {
+      success: response.success,
+      data: response.data?.data || { currentVersion: 1, versions: [] },
+      error: response.error,
+    };
+  },
+
+  /**
+   * Republish an earlier version's questions as the next version (owner only)
+   */
+  async rollbackVersion(surveyId: string, version: number): Promise<ApiResponse<SurveyRollbackResult>> {
+    const response = await fetchJson<{ data: SurveyRollbackResult }>(
+      SURVEY_ROUTES.rollback(surveyId, version),
+      { method: "POST" },
+      getAuthToken()
+    );
+    return { success: response.success, data: response.data?.data as SurveyRollbackResult, error: response.error };
+  },
+
   /**
    * Get survey statistics summary
    */
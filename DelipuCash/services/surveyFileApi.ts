@@ -50,6 +50,15 @@ export interface UploadProgressEvent {
   progress: number; // 0-100
 }
 
+export interface SurveyFileUploadResponse {
+  success: boolean;
+  data?: SurveyFileUploadResult;
+  error?: string;
+  cancelled?: boolean;
+  /** The request never reached the server — the file can be staged and retried */
+  networkError?: boolean;
+}
+
 export interface UploadOptions {
   onProgress?: (event: UploadProgressEvent) => void;
   /** Abort the in-flight XHR when this fires (see r2UploadService precedent —
@@ -93,7 +102,7 @@ export async function uploadSurveyFile(
   fileName: string,
   mimeType: string,
   options: UploadOptions = {},
-): Promise<{ success: boolean; data?: SurveyFileUploadResult; error?: string; cancelled?: boolean }> {
+): Promise<SurveyFileUploadResponse> {
   const token = getAuthToken();
   if (!token) return { success: false, error: 'Not authenticated' };
 
@@ -157,7 +166,7 @@ export async function uploadSurveyFile(
 
     xhr.onerror = () => {
       cleanup();
-      resolve({ success: false, error: 'Network error during upload' });
+      resolve({ success: false, error: 'Network error during upload', networkError: true });
     };
 
     xhr.send(formData);
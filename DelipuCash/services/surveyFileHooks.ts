@@ -11,7 +11,7 @@ import {
   uploadSurveyFile,
   getSurveyFileDownloadUrl,
   deleteSurveyFile,
-  type SurveyFileUploadResult,
+  type SurveyFileUploadResponse,
   type UploadProgressEvent,
 } from './surveyFileApi';
 
@@ -35,7 +35,7 @@ export function useUploadSurveyFile() {
   const abortRef = useRef<AbortController | null>(null);
 
   const mutation = useMutation<
-    { success: boolean; data?: SurveyFileUploadResult; error?: string; cancelled?: boolean },
+    SurveyFileUploadResponse,
     Error,
     UseUploadSurveyFileParams
   >({
@@ -14,9 +14,17 @@
  * - Loading states managed automatically
  */
 
-import { useQuery, useQueryClient, UseQueryResult, useSuspenseQuery } from '@tanstack/react-query';
-import type { Survey, SurveyResponse, UploadSurvey } from '@/types';
-import { surveyApi } from './surveyApi';
+import {
+  useMutation,
+  UseMutationResult,
+  useQuery,
+  useQueryClient,
+  UseQueryResult,
+  useSuspenseQuery,
+} from '@tanstack/react-query';
+import type { Survey, SurveyQuotaFill, SurveyResponse, UploadSurvey } from '@/types';
+import { queryKeys } from './hooks';
+import { surveyApi, type SurveyRollbackResult, type SurveyVersionHistory } from './surveyApi';
 
 // ============================================================================
 // QUERY KEYS
@@ -30,6 +38,8 @@ export const surveyResponseKeys = {
   details: () => [...surveyResponseKeys.all, 'detail'] as const,
   detail: (surveyId: string) => [...surveyResponseKeys.details(), surveyId] as const,
   analytics: (surveyId: string) => [...surveyResponseKeys.all, 'analytics', surveyId] as const,
+  quotas: (surveyId: string) => [...surveyResponseKeys.all, 'quotas', surveyId] as const,
+  versions: (surveyId: string) => [...surveyResponseKeys.all, 'versions', surveyId] as const,
   ownership: (surveyId: string, userId: string) => 
     [...surveyResponseKeys.all, 'ownership', surveyId, userId] as const,
 };
@@ -214,6 +224,79 @@ export function useSurveyAnalytics(
   });
 }
 
+/**
+ * Hook to fetch quota fill for a survey's screener questions.
+ * Respondents check it at the screener; the owner's analytics draws fill bars.
+ */
+export function useSurveyQuotas(
+  surveyId: string | undefined,
+  options?: { enabled?: boolean }
+): UseQueryResult<SurveyQuotaFill[], Error> {
+  return useQuery({
+    queryKey: surveyResponseKeys.quotas(surveyId || ''),
+    queryFn: async () => {
+      const response = await surveyApi.getQuotas(surveyId!);
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to fetch quotas');
+      }
+      return response.data;
+    },
+    enabled: options?.enabled !== false && !!surveyId,
+    staleTime: 1000 * 30, // quotas fill while respondents take the survey
+  });
+}
+
+/**
+ * Hook to fetch a survey's published versions, newest first (owner only)
+ */
+export function useSurveyVersions(
+  surveyId: string | undefined,
+  options?: { enabled?: boolean }
+): UseQueryResult<SurveyVersionHistory, Error> {
+  return useQuery({
+    queryKey: surveyResponseKeys.versions(surveyId || ''),
+    queryFn: async () => {
+      const response = await surveyApi.getVersions(surveyId!);
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to fetch survey versions');
+      }
+      return response.data;
+    },
+    enabled: options?.enabled !== false && !!surveyId,
+    staleTime: 1000 * 60 * 2,
+  });
+}
+
+/**
+ * Hook to roll a survey back to an earlier version. The server republishes
+ * that version's questions as the next one, so everything showing the live
+ * questions or per-version counts is refetched.
+ */
+export function useRollbackSurveyVersion(): UseMutationResult<
+  SurveyRollbackResult,
+  Error,
+  { surveyId: string; version: number }
+> {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ surveyId, version }) => {
+      const response = await surveyApi.rollbackVersion(surveyId, version);
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to restore this version');
+      }
+      return response.data;
+    },
+    onSuccess: (_data, { surveyId }) => {
+      queryClient.invalidateQueries({ queryKey: surveyResponseKeys.versions(surveyId) });
+      queryClient.invalidateQueries({ queryKey: surveyResponseKeys.detail(surveyId) });
+      queryClient.invalidateQueries({ queryKey: surveyResponseKeys.analytics(surveyId) });
+      queryClient.invalidateQueries({ queryKey: surveyResponseKeys.quotas(surveyId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.survey(surveyId) });
+    },
+  });
+}
+
 /**
  * Hook to fetch all survey response data at once
  * Combines survey details, responses, and ownership check
@@ -442,6 +525,8 @@ export default {
   useSurveyWithQuestions,
   useSurveyResponses,
   useSurveyAnalytics,
+  useSurveyVersions,
+  useRollbackSurveyVersion,
   useSurveyResponseData,
   useInvalidateSurveyResponses,
   usePrefetchSurveyResponses,
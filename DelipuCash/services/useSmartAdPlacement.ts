@@ -6,6 +6,8 @@
  * - Viewability tracking (IAB standards)
  * - User fatigue detection
  * - Contextual relevance
+ * - Audience targeting (utils/adTargeting) — an ad aimed at someone else is
+ *   never shown, not even with forceShow
  * - Performance optimization
  * 
  * Inspired by:
@@ -42,6 +44,9 @@ import {
   AdFrequencyManager, 
   AdPlacementType,
 } from './adFrequencyManager';
+import { useAdViewerProfile } from './adHooksRefactored';
+import { matchAdTargeting, type AdTargetingMatch } from '../utils/adTargeting';
+import type { Ad } from '../types';
 
 // Session fatigue threshold - show max 20 ads per session
 const SESSION_FATIGUE_THRESHOLD = 20;
@@ -71,6 +76,8 @@ export interface SmartAdPlacementConfig {
   position?: number;
   /** Ad ID (for tracking specific ads) */
   adId?: string;
+  /** The ad to be shown — when given, its audience targeting is checked against the viewer */
+  ad?: Ad | null;
   /** Force show regardless of caps */
   forceShow?: boolean;
   /** Minimum time between ads in same context (ms) */
@@ -96,6 +103,8 @@ export interface SmartAdPlacementResult {
   isReady: boolean;
   /** Reason why ad cannot be shown */
   blockedReason: string | null;
+  /** How `ad` fits the viewer (null without an ad) — its reasons feed "Why this ad?" */
+  targeting: AdTargetingMatch | null;
   /** Track impression when ad is viewed */
   trackImpression: () => Promise<void>;
   /** Track click when ad is clicked */
@@ -198,6 +207,7 @@ export function useSmartAdPlacement(config: SmartAdPlacementConfig): SmartAdPlac
     contextType = 'home',
     position = 0,
     adId = `ad-${placementType}-${position}`,
+    ad = null,
     forceShow = false,
     minContextInterval,
     maxAdsPerContext,
@@ -236,6 +246,10 @@ export function useSmartAdPlacement(config: SmartAdPlacementConfig): SmartAdPlac
 
   // ========== COMPUTED ==========
 
+  const viewer = useAdViewerProfile();
+  const targeting = useMemo(() => (ad ? matchAdTargeting(ad, viewer) : null), [ad, viewer]);
+  const targetingAllowed = targeting?.eligible !== false;
+
   const contextConfig = useMemo(() => {
     const defaultConfig = CONTEXT_CONFIGS[contextType];
     return {
@@ -245,6 +259,7 @@ export function useSmartAdPlacement(config: SmartAdPlacementConfig): SmartAdPlac
   }, [contextType, maxAdsPerContext, minContextInterval]);
 
   const shouldShowAd = useMemo(() => {
+    if (!targetingAllowed) return false;
     if (forceShow) return true;
     if (!canShowAd) return false;
 
@@ -255,7 +270,7 @@ export function useSmartAdPlacement(config: SmartAdPlacementConfig): SmartAdPlac
     }
 
     return true;
-  }, [canShowAd, forceShow, placementType, position]);
+  }, [canShowAd, targetingAllowed, forceShow, placementType, position]);
 
   const recommendedDelay = useMemo(() => {
     return calculateRecommendedDelay(placementType, userFatigueRef.current, sessionImpressionsRef.current);
@@ -265,7 +280,16 @@ export function useSmartAdPlacement(config: SmartAdPlacementConfig): SmartAdPlac
 
   // Check ad eligibility
   useEffect(() => {
-    // Force show overrides all checks
+    // Targeting comes first — advertisers pay for the audience they chose
+    if (!targetingAllowed) {
+      if (__DEV__) console.log(`[SmartAd] Blocked: targeting for ${placementType}`);
+      setCanShowAd(false);
+      setBlockedReason('targeting');
+      setIsReady(true);
+      return;
+    }
+
+    // Force show overrides all other checks
     if (forceShow) {
       setCanShowAd(true);
       setBlockedReason(null);
@@ -318,7 +342,7 @@ export function useSmartAdPlacement(config: SmartAdPlacementConfig): SmartAdPlac
     setCanShowAd(true);
     setBlockedReason(null);
     setIsReady(true);
-  }, [placementType, forceShow, contextConfig, refreshTrigger]);
+  }, [placementType, forceShow, targetingAllowed, contextConfig, refreshTrigger]);
 
   // Load context state from AsyncStorage (once per context type)
   useEffect(() => {
@@ -479,6 +503,7 @@ export function useSmartAdPlacement(config: SmartAdPlacementConfig): SmartAdPlac
     canShowAd,
     isReady,
     blockedReason,
+    targeting,
     trackImpression,
     trackClick,
     startViewabilityTracking,
@@ -496,6 +521,7 @@ export function useSmartAdPlacement(config: SmartAdPlacementConfig): SmartAdPlac
     canShowAd,
     isReady,
     blockedReason,
+    targeting,
     trackImpression,
     trackClick,
     startViewabilityTracking,
@@ -9,7 +9,32 @@ import {
   ApiResponse,
   Video,
   Comment,
+  CommentMention,
+  CommentModerationAction,
+  CommentReaction,
+  CommentSettings,
+  CaptionCue,
+  FollowedCreator,
+  LivestreamChatMessage,
+  LivestreamChatRestriction,
+  LivestreamChatSettings,
+  LivestreamModerationSettings,
+  LivestreamModerationState,
+  LivestreamRestrictionKind,
   PaginatedResponse,
+  VideoCaptionTrack,
+  WatchHistoryPage,
+  AnalyticsRange,
+  ChannelAnalytics,
+  VideoAnalytics,
+  PlaylistInput,
+  SavedVideosPage,
+  VideoCollection,
+  VideoCollections,
+  VideoPlaylist,
+  VideoPlaylistDetail,
+  OfflineDownloadEntitlement,
+  OfflineDownloadLicense,
 } from "@/types";
 
 import { useAuthStore } from '@/utils/auth/store';
@@ -33,8 +58,25 @@ const normalizeVideo = (video: Video): Video => ({
   ...video,
   videoUrl: toAbsoluteUrl(video.videoUrl),
   thumbnail: toAbsoluteUrl(video.thumbnail),
+  // Playlist routes come back relative to the API host
+  hls: video.hls
+    ? {
+        masterUrl: toAbsoluteUrl(video.hls.masterUrl),
+        renditions: video.hls.renditions.map((r) => ({ ...r, url: toAbsoluteUrl(r.url) })),
+      }
+    : video.hls,
 });
 
+const normalizePlaylist = (playlist: VideoPlaylistDetail | undefined): VideoPlaylistDetail | null =>
+  playlist
+    ? {
+        ...playlist,
+        thumbnail: playlist.thumbnail && toAbsoluteUrl(playlist.thumbnail),
+        // Not filtered like the feeds — part numbers follow this order
+        videos: playlist.videos.map(normalizeVideo),
+      }
+    : null;
+
 const extractVideos = (payload: unknown): Video[] => {
   if (Array.isArray(payload)) return payload as Video[];
   if (payload && typeof payload === 'object' && 'data' in payload) {
@@ -80,6 +122,18 @@ const VIDEO_ROUTES = {
   livestreamJoin: (sessionId: string) => `/api/videos/livestream/${sessionId}/join`,
   livestreamLeave: (sessionId: string) => `/api/videos/livestream/${sessionId}/leave`,
   livestreamChat: (sessionId: string) => `/api/videos/livestream/${sessionId}/chat`,
+  replayChat: (id: string) => `/api/videos/${id}/replay-chat`,
+  // Livestream chat moderation — aligned with backend livestreamChatRoutes.mjs
+  livestreamChatMessage: (sessionId: string, messageId: string) =>
+    `/api/videos/livestream/${sessionId}/chat/${messageId}`,
+  livestreamModeration: (sessionId: string) => `/api/videos/livestream/${sessionId}/moderation`,
+  livestreamChatSettings: (sessionId: string) => `/api/videos/livestream/${sessionId}/chat-settings`,
+  livestreamRestrictions: (sessionId: string) => `/api/videos/livestream/${sessionId}/restrictions`,
+  livestreamRestriction: (sessionId: string, userId: string) =>
+    `/api/videos/livestream/${sessionId}/restrictions/${userId}`,
+  livestreamModerationSettings: "/api/videos/livestream/moderation-settings",
+  livestreamModerators: "/api/videos/livestream/moderators",
+  livestreamModerator: (userId: string) => `/api/videos/livestream/moderators/${userId}`,
   trending: "/api/videos/trending",
   following: "/api/videos/following",
   live: "/api/videos/live",
@@ -90,6 +144,34 @@ const VIDEO_ROUTES = {
   feedback: "/api/videos/feedback",
   completion: (id: string) => `/api/videos/${id}/completion`,
   explore: "/api/videos/explore",
+  // Caption tracks — aligned with backend videoCaptionRoutes.mjs
+  captions: (id: string) => `/api/videos/${id}/captions`,
+  captionsAuto: (id: string) => `/api/videos/${id}/captions/auto`,
+  caption: (id: string, language: string) => `/api/videos/${id}/captions/${language}`,
+  // Threaded comments — aligned with backend videoCommentRoutes.mjs
+  commentReplies: (id: string, commentId: string) => `/api/videos/${id}/comments/${commentId}/replies`,
+  commentReactions: (id: string, commentId: string) => `/api/videos/${id}/comments/${commentId}/reactions`,
+  commentModeration: (id: string, commentId: string) => `/api/videos/${id}/comments/${commentId}/moderation`,
+  heldComments: (id: string) => `/api/videos/${id}/comments/held`,
+  commentSettings: "/api/videos/comment-settings",
+  // Watch history — aligned with backend watchHistoryRoutes.mjs
+  history: "/api/videos/history",
+  historySettings: "/api/videos/history/settings",
+  historyEntry: (videoId: string) => `/api/videos/history/${videoId}`,
+  // Creator analytics — aligned with backend videoAnalyticsRoutes.mjs
+  analytics: (id: string) => `/api/videos/${id}/analytics`,
+  channelAnalytics: "/api/videos/analytics/channel",
+  // Playlists, series and saved collections — aligned with backend playlistRoutes.mjs
+  creatorPlaylists: (userId: string) => `/api/videos/playlists/user/${userId}`,
+  playlists: "/api/videos/playlists",
+  playlist: (playlistId: string) => `/api/videos/playlists/${playlistId}`,
+  collections: "/api/videos/collections",
+  collection: (collectionId: string) => `/api/videos/collections/${collectionId}`,
+  saved: "/api/videos/saved",
+  saveToCollection: (id: string) => `/api/videos/${id}/collection`,
+  // Offline downloads — aligned with backend offlineDownloadRoutes.mjs
+  downloadEntitlement: "/api/videos/downloads/entitlement",
+  downloadLicense: (id: string) => `/api/videos/${id}/download`,
 } as const;
 
 // Follow graph routes — aligned with backend followRoutes.mjs
@@ -344,23 +426,6 @@ export interface UploadVideoData {
   isLive?: boolean;
 }
 
-// Video analytics interface
-export interface VideoAnalytics {
-  videoId: string;
-  views: number;
-  uniqueViewers: number;
-  likes: number;
-  dislikes: number;
-  comments: number;
-  shares: number;
-  averageWatchTime: number;
-  completionRate: number;
-  viewsByDay: { date: string; views: number }[];
-  viewsByLocation: { location: string; views: number }[];
-  engagementRate: number;
-  clickThroughRate: number;
-}
-
 // ===========================================
 // Video API
 // ===========================================
@@ -706,17 +771,228 @@ export const videoApi = {
   },
 
   /**
-   * Add comment to video — server derives userId from auth token
+   * Add comment to video — server derives userId from auth token. `parentId`
+   * makes it a reply; the server decides where in the thread it lands and
+   * whether it's held for the creator's review (check `status` on the result).
    */
-  async addComment(videoId: string, text: string): Promise<ApiResponse<Comment>> {
+  async addComment(
+    videoId: string,
+    text: string,
+    options: { parentId?: string | null; mentions?: CommentMention[] } = {},
+  ): Promise<ApiResponse<Comment>> {
     const response = await fetchJson<{ comment: Comment }>(VIDEO_ROUTES.comments(videoId), {
       method: "POST",
-      body: JSON.stringify({ text }),
+      body: JSON.stringify({
+        text,
+        ...(options.parentId ? { parentId: options.parentId } : {}),
+        ...(options.mentions?.length ? { mentions: options.mentions } : {}),
+      }),
     }, getAuthToken());
     // Backend wraps in { message, comment }
     return { success: response.success, data: response.data?.comment || (response.data as any), error: response.error };
   },
 
+  /**
+   * Replies under a comment — the whole thread (both levels, oldest first)
+   * for a top-level comment, or the replies filed directly under a reply
+   */
+  async getCommentReplies(
+    videoId: string,
+    commentId: string,
+    page: number = 1,
+    limit: number = 50,
+  ): Promise<PaginatedResponse<Comment>> {
+    const response = await fetchJson<{
+      data?: { replies?: Comment[]; pagination?: { page: number; limit: number; total: number; totalPages: number } };
+    }>(`${VIDEO_ROUTES.commentReplies(videoId, commentId)}?page=${page}&limit=${limit}`, undefined, getAuthToken());
+    const replies = response.data?.data?.replies ?? [];
+    return {
+      success: response.success,
+      data: replies,
+      pagination: response.data?.data?.pagination || { page, limit, total: replies.length, totalPages: 1 },
+      error: response.error,
+    };
+  },
+
+  /**
+   * Toggle one emoji reaction on a comment — returns the fresh counts
+   */
+  async reactToComment(
+    videoId: string,
+    commentId: string,
+    emoji: CommentReaction,
+  ): Promise<ApiResponse<{ commentId: string; reactions: Comment['reactions']; myReactions: CommentReaction[] }>> {
+    const response = await fetchJson<{
+      data?: { commentId: string; reactions: Comment['reactions']; myReactions: CommentReaction[] };
+    }>(VIDEO_ROUTES.commentReactions(videoId, commentId), {
+      method: "POST",
+      body: JSON.stringify({ emoji }),
+    }, getAuthToken());
+    return {
+      success: response.success,
+      data: response.data?.data || { commentId, reactions: {}, myReactions: [] },
+      error: response.error,
+    };
+  },
+
+  /**
+   * Creator tools: pin/unpin a top-level comment, hide/unhide, approve a held one
+   */
+  async moderateComment(
+    videoId: string,
+    commentId: string,
+    action: CommentModerationAction,
+  ): Promise<ApiResponse<Comment>> {
+    const response = await fetchJson<{ data?: { comment: Comment } }>(VIDEO_ROUTES.commentModeration(videoId, commentId), {
+      method: "PATCH",
+      body: JSON.stringify({ action }),
+    }, getAuthToken());
+    return { success: response.success, data: response.data?.data?.comment as Comment, error: response.error };
+  },
+
+  /**
+   * The creator's review queue for a video — held comments, or hidden ones
+   */
+  async getHeldComments(
+    videoId: string,
+    status: 'held' | 'hidden' = 'held',
+  ): Promise<ApiResponse<{ comments: Comment[]; total: number }>> {
+    const response = await fetchJson<{ data?: { comments: Comment[]; total: number } }>(
+      `${VIDEO_ROUTES.heldComments(videoId)}?status=${status}`,
+      undefined,
+      getAuthToken(),
+    );
+    return { success: response.success, data: response.data?.data || { comments: [], total: 0 }, error: response.error };
+  },
+
+  /**
+   * The signed-in creator's blocked keywords and hold-for-review switch
+   */
+  async getCommentSettings(): Promise<ApiResponse<CommentSettings>> {
+    const response = await fetchJson<{ data?: CommentSettings }>(VIDEO_ROUTES.commentSettings, undefined, getAuthToken());
+    return {
+      success: response.success,
+      data: response.data?.data || { blockedKeywords: [], holdForReview: false },
+      error: response.error,
+    };
+  },
+
+  async updateCommentSettings(settings: Partial<CommentSettings>): Promise<ApiResponse<CommentSettings>> {
+    const response = await fetchJson<{ data?: CommentSettings }>(VIDEO_ROUTES.commentSettings, {
+      method: "PUT",
+      body: JSON.stringify(settings),
+    }, getAuthToken());
+    return {
+      success: response.success,
+      data: response.data?.data || { blockedKeywords: [], holdForReview: false },
+      error: response.error,
+    };
+  },
+
+  // ============================================================================
+  // CAPTIONS
+  // ============================================================================
+
+  /**
+   * Caption tracks with cues — ready ones for viewers; the owner also gets
+   * pending/failed tracks (sent with the auth token when there is one)
+   */
+  async getCaptions(videoId: string): Promise<ApiResponse<VideoCaptionTrack[]>> {
+    const response = await fetchJson<{ data?: { captions?: VideoCaptionTrack[] } }>(
+      VIDEO_ROUTES.captions(videoId),
+      undefined,
+      getAuthToken()
+    );
+    return { success: response.success, data: response.data?.data?.captions ?? [], error: response.error };
+  },
+
+  /**
+   * Attach a .vtt/.srt file as the track for `language` (replaces an existing one).
+   * Uses FormData (not JSON) since we're sending a file.
+   */
+  async uploadCaption(
+    videoId: string,
+    file: { uri: string; name: string; mimeType?: string | null },
+    language: string,
+    label?: string,
+  ): Promise<ApiResponse<VideoCaptionTrack>> {
+    const token = getAuthToken();
+    if (!token) {
+      return { success: false, data: {} as VideoCaptionTrack, error: 'Not authenticated' };
+    }
+
+    const formData = new FormData();
+    formData.append('file', {
+      uri: file.uri,
+      name: file.name,
+      type: file.mimeType || 'text/plain',
+    } as unknown as Blob);
+    formData.append('language', language);
+    if (label) formData.append('label', label);
+
+    try {
+      const response = await fetch(`${API_BASE_URL}${VIDEO_ROUTES.captions(videoId)}`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          // Do NOT set Content-Type for FormData — fetch sets it with boundary
+        },
+        body: formData,
+      });
+      const json = await response.json().catch(() => null);
+      if (!response.ok) {
+        return {
+          success: false,
+          data: {} as VideoCaptionTrack,
+          error: json?.message || `Caption upload failed (${response.status})`,
+        };
+      }
+      return { success: true, data: json?.data?.caption };
+    } catch (error) {
+      return {
+        success: false,
+        data: {} as VideoCaptionTrack,
+        error: error instanceof Error ? error.message : 'Network error',
+      };
+    }
+  },
+
+  /**
+   * Queue auto-generated captions in `language` — the track comes back 'pending'
+   */
+  async requestAutoCaptions(videoId: string, language: string): Promise<ApiResponse<VideoCaptionTrack>> {
+    const response = await fetchJson<{ data?: { caption: VideoCaptionTrack } }>(VIDEO_ROUTES.captionsAuto(videoId), {
+      method: "POST",
+      body: JSON.stringify({ language }),
+    }, getAuthToken());
+    return { success: response.success, data: response.data?.data?.caption as VideoCaptionTrack, error: response.error };
+  },
+
+  /**
+   * Replace a track's cues (and optionally its label) from the caption editor
+   */
+  async updateCaption(
+    videoId: string,
+    language: string,
+    changes: { cues: CaptionCue[]; label?: string },
+  ): Promise<ApiResponse<VideoCaptionTrack>> {
+    const response = await fetchJson<{ data?: { caption: VideoCaptionTrack } }>(VIDEO_ROUTES.caption(videoId, language), {
+      method: "PUT",
+      body: JSON.stringify(changes),
+    }, getAuthToken());
+    return { success: response.success, data: response.data?.data?.caption as VideoCaptionTrack, error: response.error };
+  },
+
+  /**
+   * Remove a caption track
+   */
+  async deleteCaption(videoId: string, language: string): Promise<ApiResponse<{ deleted: boolean }>> {
+    const response = await fetchJson<unknown>(VIDEO_ROUTES.caption(videoId, language), {
+      method: "DELETE",
+    }, getAuthToken());
+    return { success: response.success, data: { deleted: response.success }, error: response.error };
+  },
+
   // ============================================================================
   // VIDEO PREMIUM & LIMITS METHODS
   // ============================================================================
@@ -786,6 +1062,316 @@ export const videoApi = {
     }, getAuthToken());
   },
 
+  /**
+   * A replay's chat in [fromMs, toMs) of its playhead (the server caps the
+   * window at 10 minutes). Ordinary videos return an empty list.
+   */
+  async getReplayChat(videoId: string, fromMs: number, toMs: number): Promise<ApiResponse<LivestreamChatMessage[]>> {
+    const response = await fetchJson<{ data?: LivestreamChatMessage[] }>(
+      `${VIDEO_ROUTES.replayChat(videoId)}?fromMs=${fromMs}&toMs=${toMs}`
+    );
+    return { success: response.success, data: response.data?.data ?? [], error: response.error };
+  },
+
+  // ============================================================================
+  // LIVESTREAM CHAT MODERATION
+  // ============================================================================
+
+  /** Chat settings, the caller's role and restriction (staff also get every restriction) */
+  async getLivestreamModeration(sessionId: string): Promise<ApiResponse<LivestreamModerationState>> {
+    const response = await fetchJson<{ data?: LivestreamModerationState }>(
+      VIDEO_ROUTES.livestreamModeration(sessionId),
+      undefined,
+      getAuthToken()
+    );
+    return { success: response.success, data: response.data?.data as LivestreamModerationState, error: response.error };
+  },
+
+  /** Change slow mode, followers-only or link blocking (staff) — only the fields sent change */
+  async updateLivestreamChatSettings(
+    sessionId: string,
+    changes: Partial<LivestreamChatSettings>,
+  ): Promise<ApiResponse<LivestreamChatSettings>> {
+    const response = await fetchJson<{ data?: LivestreamChatSettings }>(VIDEO_ROUTES.livestreamChatSettings(sessionId), {
+      method: "PUT",
+      body: JSON.stringify(changes),
+    }, getAuthToken());
+    return { success: response.success, data: response.data?.data as LivestreamChatSettings, error: response.error };
+  },
+
+  /** Time out (for `durationSeconds`) or ban a viewer for the session (staff) */
+  async restrictChatUser(
+    sessionId: string,
+    restriction: { userId: string; kind: LivestreamRestrictionKind; durationSeconds?: number },
+  ): Promise<ApiResponse<LivestreamChatRestriction>> {
+    const response = await fetchJson<{ data?: LivestreamChatRestriction }>(VIDEO_ROUTES.livestreamRestrictions(sessionId), {
+      method: "POST",
+      body: JSON.stringify(restriction),
+    }, getAuthToken());
+    return { success: response.success, data: response.data?.data as LivestreamChatRestriction, error: response.error };
+  },
+
+  /** Lift a viewer's timeout or ban (staff) */
+  async liftChatRestriction(sessionId: string, userId: string): Promise<ApiResponse<{ lifted: boolean }>> {
+    const response = await fetchJson<{ data?: { lifted: boolean } }>(VIDEO_ROUTES.livestreamRestriction(sessionId, userId), {
+      method: "DELETE",
+    }, getAuthToken());
+    return { success: response.success, data: { lifted: response.data?.data?.lifted ?? false }, error: response.error };
+  },
+
+  /** Delete a chat message (staff) — everyone's overlay drops it via `livestream.chatDeleted` */
+  async deleteLivestreamChatMessage(sessionId: string, messageId: string): Promise<ApiResponse<{ deleted: boolean }>> {
+    const response = await fetchJson<unknown>(VIDEO_ROUTES.livestreamChatMessage(sessionId, messageId), {
+      method: "DELETE",
+    }, getAuthToken());
+    return { success: response.success, data: { deleted: response.success }, error: response.error };
+  },
+
+  /** The caller's banned words and co-moderators */
+  async getLivestreamModerationSettings(): Promise<ApiResponse<LivestreamModerationSettings>> {
+    const response = await fetchJson<{ data?: LivestreamModerationSettings }>(
+      VIDEO_ROUTES.livestreamModerationSettings,
+      undefined,
+      getAuthToken()
+    );
+    return {
+      success: response.success,
+      data: response.data?.data || { bannedWords: [], moderators: [] },
+      error: response.error,
+    };
+  },
+
+  /** Replace the caller's banned words */
+  async updateLivestreamBannedWords(bannedWords: string[]): Promise<ApiResponse<{ bannedWords: string[] }>> {
+    const response = await fetchJson<{ data?: { bannedWords: string[] } }>(VIDEO_ROUTES.livestreamModerationSettings, {
+      method: "PUT",
+      body: JSON.stringify({ bannedWords }),
+    }, getAuthToken());
+    return { success: response.success, data: response.data?.data || { bannedWords }, error: response.error };
+  },
+
+  /** Appoint one of the caller's followers as co-moderator */
+  async addLivestreamModerator(userId: string): Promise<ApiResponse<FollowedCreator>> {
+    const response = await fetchJson<{ data?: FollowedCreator }>(VIDEO_ROUTES.livestreamModerators, {
+      method: "POST",
+      body: JSON.stringify({ userId }),
+    }, getAuthToken());
+    return { success: response.success, data: response.data?.data as FollowedCreator, error: response.error };
+  },
+
+  /** Remove a co-moderator */
+  async removeLivestreamModerator(userId: string): Promise<ApiResponse<{ removed: boolean }>> {
+    const response = await fetchJson<{ data?: { removed: boolean } }>(VIDEO_ROUTES.livestreamModerator(userId), {
+      method: "DELETE",
+    }, getAuthToken());
+    return { success: response.success, data: { removed: response.data?.data?.removed ?? false }, error: response.error };
+  },
+
+  // ============================================================================
+  // WATCH HISTORY
+  // ============================================================================
+
+  /** The caller's watch history, most recent first — `before` is the previous page's nextBefore */
+  async getWatchHistory(before?: string | null): Promise<ApiResponse<WatchHistoryPage>> {
+    const qs = before ? `?before=${encodeURIComponent(before)}` : "";
+    const response = await fetchJson<{ data?: WatchHistoryPage }>(`${VIDEO_ROUTES.history}${qs}`, undefined, getAuthToken());
+    return {
+      success: response.success,
+      data: response.data?.data || { paused: false, entries: [], nextBefore: null },
+      error: response.error,
+    };
+  },
+
+  /** Upload recorded progress; the server keeps the latest per video and saves nothing while paused */
+  async syncWatchHistory(
+    entries: { videoId: string; positionSeconds: number; durationSeconds: number; watchedAt: string }[],
+  ): Promise<ApiResponse<{ saved: number; paused: boolean }>> {
+    const response = await fetchJson<{ data?: { saved: number; paused: boolean } }>(VIDEO_ROUTES.history, {
+      method: "PUT",
+      body: JSON.stringify({ entries }),
+    }, getAuthToken());
+    return { success: response.success, data: response.data?.data || { saved: 0, paused: false }, error: response.error };
+  },
+
+  /** Pause or resume history recording for the account */
+  async updateWatchHistorySettings(paused: boolean): Promise<ApiResponse<{ paused: boolean }>> {
+    const response = await fetchJson<{ data?: { paused: boolean } }>(VIDEO_ROUTES.historySettings, {
+      method: "PUT",
+      body: JSON.stringify({ paused }),
+    }, getAuthToken());
+    return { success: response.success, data: response.data?.data || { paused }, error: response.error };
+  },
+
+  /** Remove one video from the history */
+  async removeWatchHistoryEntry(videoId: string): Promise<ApiResponse<{ videoId: string; removed: boolean }>> {
+    const response = await fetchJson<{ data?: { videoId: string; removed: boolean } }>(VIDEO_ROUTES.historyEntry(videoId), {
+      method: "DELETE",
+    }, getAuthToken());
+    return {
+      success: response.success,
+      data: { videoId, removed: response.data?.data?.removed ?? false },
+      error: response.error,
+    };
+  },
+
+  /** Clear the whole history */
+  async clearWatchHistory(): Promise<ApiResponse<{ removed: number }>> {
+    const response = await fetchJson<{ data?: { removed: number } }>(VIDEO_ROUTES.history, {
+      method: "DELETE",
+    }, getAuthToken());
+    return { success: response.success, data: { removed: response.data?.data?.removed ?? 0 }, error: response.error };
+  },
+
+  // ============================================================================
+  // PLAYLISTS, SERIES & COLLECTIONS
+  // ============================================================================
+
+  /** A creator's playlists and series, most recently updated first — empty ones only for the creator */
+  async getCreatorPlaylists(userId: string): Promise<ApiResponse<VideoPlaylist[]>> {
+    const response = await fetchJson<{ data?: VideoPlaylist[] }>(
+      VIDEO_ROUTES.creatorPlaylists(userId), undefined, getAuthToken(),
+    );
+    return {
+      success: response.success,
+      data: (response.data?.data || []).map((p) => ({ ...p, thumbnail: p.thumbnail && toAbsoluteUrl(p.thumbnail) })),
+      error: response.error,
+    };
+  },
+
+  /** One playlist with its videos in order */
+  async getPlaylist(playlistId: string): Promise<ApiResponse<VideoPlaylistDetail | null>> {
+    const response = await fetchJson<{ data?: VideoPlaylistDetail }>(
+      VIDEO_ROUTES.playlist(playlistId), undefined, getAuthToken(),
+    );
+    return { success: response.success, data: normalizePlaylist(response.data?.data), error: response.error };
+  },
+
+  /** Create a playlist or series from the caller's own videos — 409 when a video is already in another series */
+  async createPlaylist(input: PlaylistInput): Promise<ApiResponse<VideoPlaylistDetail | null>> {
+    const response = await fetchJson<{ data?: VideoPlaylistDetail }>(VIDEO_ROUTES.playlists, {
+      method: "POST",
+      body: JSON.stringify(input),
+    }, getAuthToken());
+    return { success: response.success, data: normalizePlaylist(response.data?.data), error: response.error };
+  },
+
+  /** Change the fields given — `videoIds` replaces the order */
+  async updatePlaylist(
+    playlistId: string,
+    changes: Partial<PlaylistInput>,
+  ): Promise<ApiResponse<VideoPlaylistDetail | null>> {
+    const response = await fetchJson<{ data?: VideoPlaylistDetail }>(VIDEO_ROUTES.playlist(playlistId), {
+      method: "PUT",
+      body: JSON.stringify(changes),
+    }, getAuthToken());
+    return { success: response.success, data: normalizePlaylist(response.data?.data), error: response.error };
+  },
+
+  /** Delete a playlist — its videos stay */
+  async deletePlaylist(playlistId: string): Promise<ApiResponse<{ id: string }>> {
+    const response = await fetchJson<{ data?: { id: string } }>(VIDEO_ROUTES.playlist(playlistId), {
+      method: "DELETE",
+    }, getAuthToken());
+    return { success: response.success, data: { id: playlistId }, error: response.error };
+  },
+
+  /** The caller's collections and how many videos they have saved in all */
+  async getCollections(): Promise<ApiResponse<VideoCollections>> {
+    const response = await fetchJson<{ data?: VideoCollections }>(VIDEO_ROUTES.collections, undefined, getAuthToken());
+    const data = response.data?.data;
+    return {
+      success: response.success,
+      data: {
+        savedCount: data?.savedCount ?? 0,
+        collections: (data?.collections || []).map((c) => ({ ...c, thumbnail: c.thumbnail && toAbsoluteUrl(c.thumbnail) })),
+      },
+      error: response.error,
+    };
+  },
+
+  async createCollection(name: string): Promise<ApiResponse<VideoCollection | null>> {
+    const response = await fetchJson<{ data?: VideoCollection }>(VIDEO_ROUTES.collections, {
+      method: "POST",
+      body: JSON.stringify({ name }),
+    }, getAuthToken());
+    return { success: response.success, data: response.data?.data || null, error: response.error };
+  },
+
+  async renameCollection(collectionId: string, name: string): Promise<ApiResponse<VideoCollection | null>> {
+    const response = await fetchJson<{ data?: VideoCollection }>(VIDEO_ROUTES.collection(collectionId), {
+      method: "PUT",
+      body: JSON.stringify({ name }),
+    }, getAuthToken());
+    return { success: response.success, data: response.data?.data || null, error: response.error };
+  },
+
+  /** Delete a collection — its videos stay saved */
+  async deleteCollection(collectionId: string): Promise<ApiResponse<{ id: string }>> {
+    const response = await fetchJson<{ data?: { id: string } }>(VIDEO_ROUTES.collection(collectionId), {
+      method: "DELETE",
+    }, getAuthToken());
+    return { success: response.success, data: { id: collectionId }, error: response.error };
+  },
+
+  /** Saved videos, newest first — all of them, or one collection's; `before` is the previous page's nextBefore */
+  async getSavedVideos(collectionId?: string | null, before?: string | null): Promise<ApiResponse<SavedVideosPage>> {
+    const params = new URLSearchParams();
+    if (collectionId) params.set("collectionId", collectionId);
+    if (before) params.set("before", before);
+    const qs = params.toString() ? `?${params.toString()}` : "";
+    const response = await fetchJson<{ data?: SavedVideosPage }>(`${VIDEO_ROUTES.saved}${qs}`, undefined, getAuthToken());
+    return {
+      success: response.success,
+      data: {
+        items: (response.data?.data?.items || []).map((item) => ({ ...item, video: normalizeVideo(item.video) })),
+        nextBefore: response.data?.data?.nextBefore ?? null,
+      },
+      error: response.error,
+    };
+  },
+
+  /** Save a video into a collection, or into none — bookmarks it if it wasn't already */
+  async saveToCollection(
+    videoId: string,
+    collectionId: string | null,
+  ): Promise<ApiResponse<{ videoId: string; isBookmarked: boolean; collectionId: string | null }>> {
+    const response = await fetchJson<{ data?: { videoId: string; isBookmarked: boolean; collectionId: string | null } }>(
+      VIDEO_ROUTES.saveToCollection(videoId),
+      { method: "PUT", body: JSON.stringify({ collectionId }) },
+      getAuthToken(),
+    );
+    return {
+      success: response.success,
+      data: response.data?.data || { videoId, isBookmarked: false, collectionId: null },
+      error: response.error,
+    };
+  },
+
+  /**
+   * How long downloads may be kept. `data` is null — with success — when the
+   * caller has no video premium (403 PREMIUM_REQUIRED), so a failed check is
+   * never mistaken for a lapsed subscription.
+   */
+  async getDownloadEntitlement(): Promise<ApiResponse<OfflineDownloadEntitlement | null>> {
+    const response = await fetchJson<{ data?: OfflineDownloadEntitlement; code?: string }>(
+      VIDEO_ROUTES.downloadEntitlement,
+      undefined,
+      getAuthToken(),
+    );
+    if (response.data?.code === 'PREMIUM_REQUIRED') return { success: true, data: null };
+    return { success: response.success, data: response.data?.data ?? null, error: response.error };
+  },
+
+  /** License one video for offline viewing (video premium only) */
+  async getDownloadLicense(videoId: string): Promise<ApiResponse<OfflineDownloadLicense | null>> {
+    const response = await fetchJson<{ data?: OfflineDownloadLicense }>(
+      VIDEO_ROUTES.downloadLicense(videoId),
+      { method: "POST" },
+      getAuthToken(),
+    );
+    return { success: response.success && !!response.data?.data, data: response.data?.data ?? null, error: response.error };
+  },
+
   /**
    * Validate session duration (recording or livestream)
    */
@@ -954,20 +1540,30 @@ export const videoApi = {
     return { success: false, data: { deleted: false }, error: 'Delete comment not yet supported by backend' };
   },
 
-  /**
-   * Get bookmarked videos — no dedicated backend route
-   * TODO: Add GET /api/videos/bookmarked backend route
-   */
+  /** The caller's most recently saved (bookmarked) videos — first page of getSavedVideos */
   async getBookmarked(): Promise<ApiResponse<Video[]>> {
-    return { success: false, data: [], error: 'Bookmarked videos endpoint not yet available' };
+    const response = await videoApi.getSavedVideos();
+    return {
+      success: response.success,
+      data: response.data.items.map((item) => item.video),
+      error: response.error,
+    };
   },
 
-  /**
-   * Get video analytics — no backend route yet
-   * TODO: Add analytics backend route
-   */
-  async getAnalytics(_videoId: string): Promise<ApiResponse<VideoAnalytics>> {
-    return { success: false, data: {} as VideoAnalytics, error: 'Analytics not yet available' };
+  /** One of the caller's videos over `range`, against their median video — creator only */
+  async getAnalytics(videoId: string, range: AnalyticsRange = '28d'): Promise<ApiResponse<VideoAnalytics | null>> {
+    const response = await fetchJson<{ data?: VideoAnalytics }>(
+      `${VIDEO_ROUTES.analytics(videoId)}?range=${range}`, undefined, getAuthToken(),
+    );
+    return { success: response.success, data: response.data?.data || null, error: response.error };
+  },
+
+  /** The caller's channel over `range`: totals, follower growth, traffic sources, top videos and comments */
+  async getChannelAnalytics(range: AnalyticsRange = '28d'): Promise<ApiResponse<ChannelAnalytics | null>> {
+    const response = await fetchJson<{ data?: ChannelAnalytics }>(
+      `${VIDEO_ROUTES.channelAnalytics}?range=${range}`, undefined, getAuthToken(),
+    );
+    return { success: response.success, data: response.data?.data || null, error: response.error };
   },
 
   /**
@@ -1011,6 +1607,22 @@ export const videoApi = {
     return { success: json?.success ?? ok, data: json?.data || { isFollowing: false, notificationsEnabled: false }, error: json?.message || error };
   },
 
+  /** Creators `userId` follows — the @mention suggestions in comments */
+  async getFollowingCreators(userId: string, limit: number = 50): Promise<ApiResponse<FollowedCreator[]>> {
+    const { ok, json, error } = await safeFollowFetch(
+      toAbsoluteUrl(`${FOLLOW_ROUTES.following(userId)}?limit=${limit}`),
+    );
+    return { success: json?.success ?? ok, data: Array.isArray(json?.data) ? json.data : [], error: json?.message || error };
+  },
+
+  /** Users following `userId` — co-moderator candidates for a streamer */
+  async getFollowers(userId: string, limit: number = 50): Promise<ApiResponse<FollowedCreator[]>> {
+    const { ok, json, error } = await safeFollowFetch(
+      toAbsoluteUrl(`${FOLLOW_ROUTES.followers(userId)}?limit=${limit}`),
+    );
+    return { success: json?.success ?? ok, data: Array.isArray(json?.data) ? json.data : [], error: json?.message || error };
+  },
+
   async getFollowCounts(userId: string): Promise<ApiResponse<{ followersCount: number; followingCount: number }>> {
     const { ok, json, error } = await safeFollowFetch(toAbsoluteUrl(FOLLOW_ROUTES.counts(userId)));
     return { success: json?.success ?? ok, data: json?.data || { followersCount: 0, followingCount: 0 }, error: json?.message || error };
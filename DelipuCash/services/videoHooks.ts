@@ -18,15 +18,55 @@ import {
   useMutation,
   useQueryClient,
   useInfiniteQuery,
+  useQueries,
+  keepPreviousData,
   type QueryClient,
   type UseQueryResult,
   type UseMutationResult,
   type UseInfiniteQueryResult,
 } from '@tanstack/react-query';
-import { Video, Comment } from '@/types';
-import { videoApi, VideoWithDetails, VideoAnalytics, VideoStats, LivestreamListItem } from './videoApi';
+import {
+  Video,
+  Comment,
+  CaptionCue,
+  VideoCaptionTrack,
+  type CommentMention,
+  type FollowedCreator,
+  type LivestreamChatMessage,
+  type LivestreamChatSettings,
+  type LivestreamModerationSettings,
+  type LivestreamModerationState,
+  type LivestreamRestrictionKind,
+  type WatchHistoryPage,
+  type AnalyticsRange,
+  type ChannelAnalytics,
+  type VideoAnalytics,
+  type PlaylistInput,
+  type SavedVideosPage,
+  type VideoCollections,
+  type VideoPlaylist,
+  type VideoPlaylistDetail,
+  type CommentModerationAction,
+  type CommentReaction,
+  type CommentSettings,
+} from '@/types';
+import { videoApi, VideoWithDetails, VideoStats, LivestreamListItem } from './videoApi';
 import { useAuthStore } from '@/utils/auth/store';
 import { useSSEStore, selectNeedsPolling } from '@/store/SSEStore';
+import { useVideoStore } from '@/store/VideoStore';
+import { useVideoFeedStore } from '@/store/VideoFeedStore';
+import {
+  insertComment,
+  removeComment,
+  replaceComment,
+  threadPosition,
+  toggleReaction,
+  updateThread,
+  type CommentThreadData,
+} from '@/utils/commentThreads';
+import { REPLAY_CHAT_WINDOW_MS, mergeReplayWindows } from '@/utils/replayChat';
+import { upsertRestriction } from '@/utils/livestreamModeration';
+import { PLAYLIST_MAX_ITEMS } from '@/utils/playlists';
 
 // ============================================================================
 // ADAPTIVE POLLING — SSE fallback for cross-device sync
@@ -61,6 +101,11 @@ export const videoQueryKeys = {
   details: () => [...videoQueryKeys.all, 'detail'] as const,
   detail: (id: string) => [...videoQueryKeys.details(), id] as const,
   comments: (videoId: string) => [...videoQueryKeys.all, 'comments', videoId] as const,
+  // Outside the comments() prefix so comment cache updaters never touch the queue
+  heldComments: (videoId: string) => [...videoQueryKeys.all, 'heldComments', videoId] as const,
+  commentSettings: () => [...videoQueryKeys.all, 'commentSettings'] as const,
+  captions: (videoId: string) => [...videoQueryKeys.all, 'captions', videoId] as const,
+  watchHistory: () => [...videoQueryKeys.all, 'watchHistory'] as const,
   trending: () => [...videoQueryKeys.all, 'trending'] as const,
   following: () => [...videoQueryKeys.all, 'following'] as const,
   live: () => [...videoQueryKeys.all, 'live'] as const,
@@ -69,11 +114,20 @@ export const videoQueryKeys = {
   bookmarked: () => [...videoQueryKeys.all, 'bookmarked'] as const,
   userVideos: (userId: string) => [...videoQueryKeys.all, 'user', userId] as const,
   status: (videoId: string) => [...videoQueryKeys.all, 'status', videoId] as const,
-  analytics: (videoId: string) => [...videoQueryKeys.all, 'analytics', videoId] as const,
+  analytics: (videoId: string, range: AnalyticsRange) => [...videoQueryKeys.all, 'analytics', videoId, range] as const,
+  channelAnalytics: (range: AnalyticsRange) => [...videoQueryKeys.all, 'channelAnalytics', range] as const,
+  playlists: () => [...videoQueryKeys.all, 'playlists'] as const,
+  creatorPlaylists: (userId: string) => [...videoQueryKeys.playlists(), 'user', userId] as const,
+  playlist: (playlistId: string) => [...videoQueryKeys.playlists(), playlistId] as const,
+  collections: () => [...videoQueryKeys.all, 'collections'] as const,
+  savedVideos: (collectionId: string | null) => [...videoQueryKeys.all, 'saved', collectionId ?? 'all'] as const,
   stats: () => [...videoQueryKeys.all, 'stats'] as const,
   // Livestream keys
   livestreams: () => [...videoQueryKeys.all, 'livestreams'] as const,
   livestreamSession: (sessionId: string) => [...videoQueryKeys.all, 'livestream', sessionId] as const,
+  replayChat: (videoId: string, fromMs: number) => [...videoQueryKeys.all, 'replayChat', videoId, fromMs] as const,
+  livestreamModeration: (sessionId: string) => [...videoQueryKeys.all, 'livestreamModeration', sessionId] as const,
+  livestreamModerationSettings: () => [...videoQueryKeys.all, 'livestreamModerationSettings'] as const,
   // 2026 Feed enhancement keys
   personalized: (filters: Record<string, unknown>) => [...videoQueryKeys.all, 'personalized', filters] as const,
   trendingInfinite: (filters: Record<string, unknown>) => [...videoQueryKeys.all, 'trending-infinite', filters] as const,
@@ -84,6 +138,8 @@ export const videoQueryKeys = {
   followStatus: (creatorId: string) => ['follows', 'status', creatorId] as const,
   followCounts: (userId: string) => ['follows', 'counts', userId] as const,
   blocked: () => ['follows', 'blocked'] as const,
+  followingCreators: (userId: string) => ['follows', 'following', userId] as const,
+  followers: (userId: string) => ['follows', 'followers', userId] as const,
 } as const;
 
 // ============================================================================
@@ -148,43 +204,52 @@ function restoreQueriesSnapshot(
 }
 
 /**
- * Build an updater for comment caches that is safe across BOTH shapes that share
- * the `comments(videoId)` key prefix (fuzzy-matched by setQueriesData):
+ * Build an updater for comment caches that is safe across EVERY shape that
+ * shares the `comments(videoId)` key prefix (fuzzy-matched by setQueriesData):
  *  - flat / suspense: `{ comments: Comment[], pagination }`
  *  - infinite:        `{ pages: [{ comments: Comment[], nextPage }] }`
+ *  - thread:          `{ rootId, replies: Comment[], total }` (useCommentThreads)
  *
  * Previously the optimistic updater assumed only the flat shape, which corrupted
  * the infinite cache (replacing `{ pages }` with a bogus `{ comments, pagination }`).
+ * Comments are placed by thread position (utils/commentThreads): a reply joins
+ * its thread instead of landing at the top of the list. `replace` swaps a
+ * comment in place — `previousId` lets a temp comment become the server's.
  */
-export function makeCommentCacheUpdater(op: { add?: Comment; removeId?: string }) {
+export function makeCommentCacheUpdater(op: {
+  add?: Comment;
+  removeId?: string;
+  replace?: Comment;
+  previousId?: string;
+}) {
+  const apply = (list: Comment[], firstPage: boolean): Comment[] => {
+    if (op.add) return firstPage || op.add.parentId ? insertComment(list, op.add) : list;
+    if (op.removeId) return removeComment(list, op.removeId);
+    if (op.replace) return replaceComment(list, op.replace, op.previousId);
+    return list;
+  };
+
   return (old: any): any => {
     if (!old || typeof old !== 'object') return old;
 
-    // Infinite shape — add to the first page; remove from every page.
+    // Infinite shape — new top-level comments go on the first page; replies,
+    // removals and replacements apply wherever the comment's thread is.
     if (Array.isArray(old.pages)) {
       return {
         ...old,
         pages: old.pages.map((page: any, idx: number) => {
           if (!Array.isArray(page?.comments)) return page;
-          if (op.add) {
-            return idx === 0 ? { ...page, comments: [op.add, ...page.comments] } : page;
-          }
-          if (op.removeId) {
-            return { ...page, comments: page.comments.filter((c: Comment) => c.id !== op.removeId) };
-          }
-          return page;
+          const comments = apply(page.comments, idx === 0);
+          return comments === page.comments ? page : { ...page, comments };
         }),
       };
     }
 
-    // Flat / suspense shape — { comments, pagination }
+    // Flat / suspense shape — { comments, pagination }; the total counts top-level comments
     if (Array.isArray(old.comments)) {
-      const comments = op.add
-        ? [op.add, ...old.comments]
-        : op.removeId
-          ? old.comments.filter((c: Comment) => c.id !== op.removeId)
-          : old.comments;
-      const delta = op.add ? 1 : op.removeId ? -1 : 0;
+      const comments = apply(old.comments, true);
+      const delta = comments.length - old.comments.length;
+      if (comments === old.comments) return old;
       return {
         ...old,
         comments,
@@ -194,6 +259,11 @@ export function makeCommentCacheUpdater(op: { add?: Comment; removeId?: string }
       };
     }
 
+    // Thread shape — { rootId, replies, total }
+    if (typeof old.rootId === 'string' && Array.isArray(old.replies)) {
+      return updateThread(old, op);
+    }
+
     return old;
   };
 }
@@ -529,6 +599,9 @@ export function useRecordVideoView(): UseMutationResult<{ views: number }, Error
 // VIDEO COMMENTS HOOKS
 // ============================================================================
 
+/** Replies fetched per thread — enough for any realistic thread in one go */
+const COMMENT_THREAD_PAGE_LIMIT = 100;
+
 interface CommentsData {
   comments: Comment[];
   pagination: { page: number; limit: number; total: number; totalPages: number };
@@ -590,25 +663,34 @@ export function useInfiniteVideoComments(videoId: string, limit: number = 20) {
  * ```tsx
  * const { mutate: addComment, isPending } = useAddVideoComment();
  * addComment({ videoId: 'video_001', text: 'Great video!' });
+ * addComment({ videoId: 'video_001', text: '@Ann agreed', replyTo: comment, mentions });
  * ```
  */
 export function useAddVideoComment(): UseMutationResult<
   Comment,
   Error,
-  { videoId: string; text: string; mediaUrls?: string[] }
+  {
+    videoId: string;
+    text: string;
+    mediaUrls?: string[];
+    /** The comment being replied to — the reply is placed in its thread */
+    replyTo?: Pick<Comment, 'id' | 'parentId' | 'rootId' | 'depth'> | null;
+    mentions?: CommentMention[];
+  },
+  { previousQueries: QueriesSnapshot; optimisticId: string }
 > {
   const queryClient = useQueryClient();
 
   return useMutation({
     mutationKey: ['videos', 'addComment'],
-    mutationFn: async ({ videoId, text }) => {
-      const response = await videoApi.addComment(videoId, text);
+    mutationFn: async ({ videoId, text, replyTo, mentions }) => {
+      const response = await videoApi.addComment(videoId, text, { parentId: replyTo?.id, mentions });
       if (!response.success) throw new Error(response.error || 'Failed to post comment');
       return response.data;
     },
     // Optimistic update — use fuzzy key matching (getQueriesData/setQueriesData)
     // because useVideoCommentsQuery appends { page, limit } to the base key
-    onMutate: async ({ videoId, text, mediaUrls }) => {
+    onMutate: async ({ videoId, text, mediaUrls, replyTo, mentions }) => {
       const baseKey = videoQueryKeys.comments(videoId);
       await queryClient.cancelQueries({ queryKey: baseKey });
 
@@ -624,6 +706,9 @@ export function useAddVideoComment(): UseMutationResult<
         userId: authState?.user?.id || 'current_user',
         videoId,
         createdAt: new Date().toISOString(),
+        ...threadPosition(replyTo),
+        mentions: mentions || [],
+        replyCount: 0,
         user: authState?.user ? {
           id: authState.user.id,
           firstName: authState.user.firstName,
@@ -640,7 +725,16 @@ export function useAddVideoComment(): UseMutationResult<
         makeCommentCacheUpdater({ add: optimisticComment }),
       );
 
-      return { previousQueries };
+      return { previousQueries, optimisticId: optimisticComment.id };
+    },
+    onSuccess: (comment, { videoId }, context) => {
+      // Swap in the server's copy — it says whether the comment was held for review
+      if (comment?.id && context) {
+        queryClient.setQueriesData(
+          { queryKey: videoQueryKeys.comments(videoId) },
+          makeCommentCacheUpdater({ replace: comment, previousId: context.optimisticId }),
+        );
+      }
     },
     onError: (_, { videoId }, context) => {
       // Rollback ALL matching comment queries
@@ -657,6 +751,161 @@ export function useAddVideoComment(): UseMutationResult<
   });
 }
 
+/**
+ * Every reply in the threads the viewer expanded ("View N replies"), by root
+ * comment id. Each thread is its own query under the comments(videoId) prefix
+ * so optimistic updates and live events reach it.
+ */
+export function useCommentThreads(
+  videoId: string,
+  rootIds: readonly string[],
+): { threads: Record<string, Comment[]>; loadingIds: string[] } {
+  return useQueries({
+    queries: rootIds.map((rootId) => ({
+      queryKey: [...videoQueryKeys.comments(videoId), 'thread', rootId],
+      queryFn: async (): Promise<CommentThreadData> => {
+        const response = await videoApi.getCommentReplies(videoId, rootId, 1, COMMENT_THREAD_PAGE_LIMIT);
+        if (!response.success) throw new Error(response.error || 'Failed to load replies');
+        return { rootId, replies: response.data, total: response.pagination?.total ?? response.data.length };
+      },
+      enabled: !!videoId,
+      staleTime: 1000 * 30,
+    })),
+    // A stable combine keeps the result referentially stable between renders
+    combine: useCallback((results: UseQueryResult<CommentThreadData>[]) => {
+      const threads: Record<string, Comment[]> = {};
+      const loadingIds: string[] = [];
+      results.forEach((result, idx) => {
+        if (result.data) threads[rootIds[idx]] = result.data.replies;
+        if (result.isLoading) loadingIds.push(rootIds[idx]);
+      });
+      return { threads, loadingIds };
+    }, [rootIds]),
+  });
+}
+
+/** Toggle an emoji reaction — optimistic across every comment cache, server counts win */
+export function useReactToComment(): UseMutationResult<
+  { commentId: string; reactions: Comment['reactions']; myReactions: CommentReaction[] },
+  Error,
+  { videoId: string; comment: Comment; emoji: CommentReaction },
+  { previousQueries: QueriesSnapshot }
+> {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: ['videos', 'reactToComment'],
+    mutationFn: async ({ videoId, comment, emoji }) => {
+      const response = await videoApi.reactToComment(videoId, comment.id, emoji);
+      if (!response.success) throw new Error(response.error || 'Failed to react');
+      return response.data;
+    },
+    onMutate: async ({ videoId, comment, emoji }) => {
+      const baseKey = videoQueryKeys.comments(videoId);
+      await queryClient.cancelQueries({ queryKey: baseKey });
+      const previousQueries = queryClient.getQueriesData({ queryKey: baseKey });
+      queryClient.setQueriesData({ queryKey: baseKey }, makeCommentCacheUpdater({ replace: toggleReaction(comment, emoji) }));
+      return { previousQueries };
+    },
+    onSuccess: (result, { videoId, comment }) => {
+      queryClient.setQueriesData(
+        { queryKey: videoQueryKeys.comments(videoId) },
+        makeCommentCacheUpdater({ replace: { ...comment, reactions: result.reactions, myReactions: result.myReactions } }),
+      );
+    },
+    onError: (_, __, context) => {
+      restoreQueriesSnapshot(queryClient, context?.previousQueries);
+    },
+  });
+}
+
+/**
+ * Creator tools on one comment. Hiding drops it from the list right away;
+ * everything else (pin order, approved comments) comes back from a refetch.
+ */
+export function useModerateComment(): UseMutationResult<
+  Comment,
+  Error,
+  { videoId: string; commentId: string; action: CommentModerationAction },
+  { previousQueries: QueriesSnapshot }
+> {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: ['videos', 'moderateComment'],
+    mutationFn: async ({ videoId, commentId, action }) => {
+      const response = await videoApi.moderateComment(videoId, commentId, action);
+      if (!response.success) throw new Error(response.error || 'Failed to update comment');
+      return response.data;
+    },
+    onMutate: async ({ videoId, commentId, action }) => {
+      const baseKey = videoQueryKeys.comments(videoId);
+      await queryClient.cancelQueries({ queryKey: baseKey });
+      const previousQueries = queryClient.getQueriesData({ queryKey: baseKey });
+      if (action === 'hide') {
+        queryClient.setQueriesData({ queryKey: baseKey }, makeCommentCacheUpdater({ removeId: commentId }));
+      }
+      return { previousQueries };
+    },
+    onError: (_, __, context) => {
+      restoreQueriesSnapshot(queryClient, context?.previousQueries);
+    },
+    onSettled: (_, __, { videoId }) => {
+      queryClient.invalidateQueries({ queryKey: videoQueryKeys.comments(videoId) });
+      queryClient.invalidateQueries({ queryKey: videoQueryKeys.heldComments(videoId) });
+      queryClient.invalidateQueries({ queryKey: videoQueryKeys.detail(videoId) });
+    },
+  });
+}
+
+/** The creator's review queue for a video (held comments, or hidden ones) */
+export function useHeldComments(
+  videoId: string,
+  status: 'held' | 'hidden' = 'held',
+  options: { enabled?: boolean } = {},
+): UseQueryResult<{ comments: Comment[]; total: number }> {
+  return useQuery({
+    queryKey: [...videoQueryKeys.heldComments(videoId), status],
+    queryFn: async () => {
+      const response = await videoApi.getHeldComments(videoId, status);
+      if (!response.success) throw new Error(response.error || 'Failed to load held comments');
+      return response.data;
+    },
+    enabled: !!videoId && (options.enabled ?? true),
+    staleTime: 1000 * 15,
+  });
+}
+
+/** The signed-in creator's blocked keywords and hold-for-review switch */
+export function useCommentSettings(options: { enabled?: boolean } = {}): UseQueryResult<CommentSettings> {
+  return useQuery({
+    queryKey: videoQueryKeys.commentSettings(),
+    queryFn: async () => {
+      const response = await videoApi.getCommentSettings();
+      if (!response.success) throw new Error(response.error || 'Failed to load comment settings');
+      return response.data;
+    },
+    enabled: options.enabled ?? true,
+    staleTime: 1000 * 60 * 5,
+  });
+}
+
+export function useUpdateCommentSettings(): UseMutationResult<CommentSettings, Error, Partial<CommentSettings>> {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: ['videos', 'updateCommentSettings'],
+    mutationFn: async (settings) => {
+      const response = await videoApi.updateCommentSettings(settings);
+      if (!response.success) throw new Error(response.error || 'Failed to save comment settings');
+      return response.data;
+    },
+    onSuccess: (settings) => {
+      queryClient.setQueryData(videoQueryKeys.commentSettings(), settings);
+    },
+  });
+}
+
 /**
  * Hook to delete a comment
  * 
@@ -822,8 +1071,303 @@ export function useLeaveLivestream() {
  */
 export function useSendLivestreamChat() {
   return useMutation({
-    mutationFn: ({ sessionId, text }: { sessionId: string; text: string }) =>
-      videoApi.sendLivestreamChat(sessionId, text),
+    // Rejections (slow mode, timeout, banned word…) surface as errors with the server's message
+    mutationFn: async ({ sessionId, text }: { sessionId: string; text: string }) => {
+      const response = await videoApi.sendLivestreamChat(sessionId, text);
+      if (!response.success) throw new Error(response.error || 'Failed to send message');
+      return response.data;
+    },
+  });
+}
+
+/**
+ * Hook to load a replay's chat windows (start offsets from replayChatWindows),
+ * merged and ordered by offset. A finished stream's chat never changes, so each
+ * window is fetched once and seeking back to it is free.
+ */
+export function useReplayChatWindows(
+  videoId: string | undefined,
+  windowStarts: readonly number[],
+  options: { enabled?: boolean } = {},
+): { messages: LivestreamChatMessage[]; isLoading: boolean } {
+  return useQueries({
+    queries: windowStarts.map((fromMs) => ({
+      queryKey: videoQueryKeys.replayChat(videoId ?? '', fromMs),
+      queryFn: async (): Promise<LivestreamChatMessage[]> => {
+        const response = await videoApi.getReplayChat(videoId!, fromMs, fromMs + REPLAY_CHAT_WINDOW_MS);
+        if (!response.success) throw new Error(response.error || 'Failed to load replay chat');
+        return response.data;
+      },
+      enabled: !!videoId && (options.enabled ?? true),
+      staleTime: Infinity,
+    })),
+    // A stable combine keeps the result referentially stable between renders
+    combine: useCallback((results: UseQueryResult<LivestreamChatMessage[]>[]) => ({
+      messages: mergeReplayWindows(results.map((result) => result.data)),
+      isLoading: results.some((result) => result.isLoading),
+    }), []),
+  });
+}
+
+// ============================================================================
+// LIVESTREAM CHAT MODERATION HOOKS
+// ============================================================================
+
+/**
+ * Hook to fetch a session's chat settings and the caller's place in it — staff
+ * also get the active restrictions. Live events keep it current (useSSE).
+ */
+export function useLivestreamModeration(
+  sessionId: string | null | undefined,
+  options: { enabled?: boolean } = {},
+): UseQueryResult<LivestreamModerationState> {
+  return useQuery({
+    queryKey: videoQueryKeys.livestreamModeration(sessionId ?? ''),
+    queryFn: async () => {
+      const response = await videoApi.getLivestreamModeration(sessionId!);
+      if (!response.success) throw new Error(response.error || 'Failed to load chat moderation');
+      return response.data;
+    },
+    enabled: !!sessionId && (options.enabled ?? true),
+    staleTime: 1000 * 30,
+  });
+}
+
+/** Change slow mode, followers-only or link blocking — the cached state follows the server */
+export function useUpdateLivestreamChatSettings() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ sessionId, changes }: { sessionId: string; changes: Partial<LivestreamChatSettings> }) => {
+      const response = await videoApi.updateLivestreamChatSettings(sessionId, changes);
+      if (!response.success) throw new Error(response.error || 'Failed to update chat settings');
+      return response.data;
+    },
+    onSuccess: (settings, { sessionId }) => {
+      queryClient.setQueryData<LivestreamModerationState>(
+        videoQueryKeys.livestreamModeration(sessionId),
+        (old) => (old ? { ...old, settings } : old),
+      );
+    },
+  });
+}
+
+/** Time out or ban a viewer for the session */
+export function useRestrictChatUser() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ sessionId, userId, kind, durationSeconds }: {
+      sessionId: string;
+      userId: string;
+      kind: LivestreamRestrictionKind;
+      durationSeconds?: number;
+    }) => {
+      const response = await videoApi.restrictChatUser(sessionId, { userId, kind, durationSeconds });
+      if (!response.success) throw new Error(response.error || 'Failed to restrict viewer');
+      return response.data;
+    },
+    onSuccess: (restriction, { sessionId, userId }) => {
+      queryClient.setQueryData<LivestreamModerationState>(
+        videoQueryKeys.livestreamModeration(sessionId),
+        (old) => (old ? { ...old, restrictions: upsertRestriction(old.restrictions, userId, restriction) } : old),
+      );
+    },
+  });
+}
+
+/** Lift a viewer's timeout or ban */
+export function useLiftChatRestriction() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ sessionId, userId }: { sessionId: string; userId: string }) => {
+      const response = await videoApi.liftChatRestriction(sessionId, userId);
+      if (!response.success) throw new Error(response.error || 'Failed to lift restriction');
+      return response.data;
+    },
+    onSuccess: (_data, { sessionId, userId }) => {
+      queryClient.setQueryData<LivestreamModerationState>(
+        videoQueryKeys.livestreamModeration(sessionId),
+        (old) => (old ? { ...old, restrictions: upsertRestriction(old.restrictions, userId, null) } : old),
+      );
+    },
+  });
+}
+
+/** Delete a chat message — overlays drop it on the `livestream.chatDeleted` event */
+export function useDeleteLivestreamChatMessage() {
+  return useMutation({
+    mutationFn: async ({ sessionId, messageId }: { sessionId: string; messageId: string }) => {
+      const response = await videoApi.deleteLivestreamChatMessage(sessionId, messageId);
+      if (!response.success) throw new Error(response.error || 'Failed to delete message');
+      return response.data;
+    },
+  });
+}
+
+/** Hook to fetch the streamer's banned words and co-moderators */
+export function useLivestreamModerationSettings(
+  options: { enabled?: boolean } = {},
+): UseQueryResult<LivestreamModerationSettings> {
+  return useQuery({
+    queryKey: videoQueryKeys.livestreamModerationSettings(),
+    queryFn: async () => {
+      const response = await videoApi.getLivestreamModerationSettings();
+      if (!response.success) throw new Error(response.error || 'Failed to load moderation settings');
+      return response.data;
+    },
+    enabled: options.enabled ?? true,
+    staleTime: 1000 * 60 * 5,
+  });
+}
+
+/** Replace the streamer's banned words */
+export function useUpdateLivestreamBannedWords() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (bannedWords: string[]) => {
+      const response = await videoApi.updateLivestreamBannedWords(bannedWords);
+      if (!response.success) throw new Error(response.error || 'Failed to save banned words');
+      return response.data;
+    },
+    onSuccess: ({ bannedWords }) => {
+      queryClient.setQueryData<LivestreamModerationSettings>(
+        videoQueryKeys.livestreamModerationSettings(),
+        (old) => (old ? { ...old, bannedWords } : old),
+      );
+    },
+  });
+}
+
+/** Appoint a follower as co-moderator */
+export function useAddLivestreamModerator() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (userId: string) => {
+      const response = await videoApi.addLivestreamModerator(userId);
+      if (!response.success) throw new Error(response.error || 'Failed to add moderator');
+      return response.data;
+    },
+    onSuccess: (moderator: FollowedCreator) => {
+      queryClient.setQueryData<LivestreamModerationSettings>(
+        videoQueryKeys.livestreamModerationSettings(),
+        (old) =>
+          old && !old.moderators.some((m) => m.id === moderator.id)
+            ? { ...old, moderators: [...old.moderators, moderator] }
+            : old,
+      );
+    },
+  });
+}
+
+/** Remove a co-moderator */
+export function useRemoveLivestreamModerator() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (userId: string) => {
+      const response = await videoApi.removeLivestreamModerator(userId);
+      if (!response.success) throw new Error(response.error || 'Failed to remove moderator');
+      return response.data;
+    },
+    onSuccess: (_data, userId) => {
+      queryClient.setQueryData<LivestreamModerationSettings>(
+        videoQueryKeys.livestreamModerationSettings(),
+        (old) => (old ? { ...old, moderators: old.moderators.filter((m) => m.id !== userId) } : old),
+      );
+    },
+  });
+}
+
+// ============================================================================
+// WATCH HISTORY
+// ============================================================================
+
+/**
+ * The caller's watch history, newest first, a page at a time. Each page is
+ * merged into VideoStore so resume positions from other devices (or before a
+ * reinstall) apply here too, and the account's paused setting is mirrored.
+ */
+export function useWatchHistory(options: { enabled?: boolean } = {}) {
+  return useInfiniteQuery({
+    queryKey: videoQueryKeys.watchHistory(),
+    queryFn: async ({ pageParam }: { pageParam: string | null }) => {
+      const response = await videoApi.getWatchHistory(pageParam);
+      if (!response.success) throw new Error(response.error || 'Failed to load watch history');
+      const store = useVideoStore.getState();
+      store.mergeWatchHistory(response.data.entries);
+      if (store.watchHistoryPaused !== response.data.paused) store.setWatchHistoryPaused(response.data.paused);
+      return response.data;
+    },
+    getNextPageParam: (lastPage: WatchHistoryPage) => lastPage.nextBefore,
+    initialPageParam: null as string | null,
+    enabled: options.enabled ?? true,
+    staleTime: 1000 * 30,
+  });
+}
+
+type WatchHistoryCache = { pages: WatchHistoryPage[]; pageParams: (string | null)[] };
+
+/** Remove a video from the history — gone from the device and the list at once */
+export function useRemoveWatchHistoryEntry() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (videoId: string) => {
+      const response = await videoApi.removeWatchHistoryEntry(videoId);
+      if (!response.success) throw new Error(response.error || 'Failed to remove from history');
+      return response.data;
+    },
+    onMutate: async (videoId) => {
+      await queryClient.cancelQueries({ queryKey: videoQueryKeys.watchHistory() });
+      const previous = queryClient.getQueryData<WatchHistoryCache>(videoQueryKeys.watchHistory());
+      useVideoStore.getState().removeFromWatchHistory(videoId);
+      queryClient.setQueryData<WatchHistoryCache>(videoQueryKeys.watchHistory(), (old) =>
+        old && {
+          ...old,
+          pages: old.pages.map((page) => ({ ...page, entries: page.entries.filter((e) => e.videoId !== videoId) })),
+        },
+      );
+      return { previous };
+    },
+    onError: (_error, _videoId, context) => {
+      if (context?.previous) queryClient.setQueryData(videoQueryKeys.watchHistory(), context.previous);
+    },
+  });
+}
+
+/** Clear the whole history, on the device and the account */
+export function useClearWatchHistory() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async () => {
+      const response = await videoApi.clearWatchHistory();
+      if (!response.success) throw new Error(response.error || 'Failed to clear watch history');
+      return response.data;
+    },
+    onSuccess: () => {
+      useVideoStore.getState().clearWatchHistory();
+      queryClient.setQueryData<WatchHistoryCache>(videoQueryKeys.watchHistory(), (old) =>
+        old && {
+          pages: [{ ...old.pages[0], entries: [], nextBefore: null }],
+          pageParams: [null],
+        },
+      );
+    },
+  });
+}
+
+/** Pause or resume history recording for the account */
+export function useSetWatchHistoryPaused() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (paused: boolean) => {
+      const response = await videoApi.updateWatchHistorySettings(paused);
+      if (!response.success) throw new Error(response.error || 'Failed to update history settings');
+      return response.data;
+    },
+    onSuccess: ({ paused }) => {
+      useVideoStore.getState().setWatchHistoryPaused(paused);
+      queryClient.setQueryData<WatchHistoryCache>(videoQueryKeys.watchHistory(), (old) =>
+        old && { ...old, pages: old.pages.map((page) => ({ ...page, paused })) },
+      );
+    },
   });
 }
 
@@ -933,23 +1477,381 @@ export function useDeleteVideo(): UseMutationResult<{ deleted: boolean }, Error,
   });
 }
 
+// ============================================================================
+// CAPTION HOOKS
+// ============================================================================
+
+/** While an auto track is being generated, how often the owner's list re-checks */
+const PENDING_CAPTIONS_POLL_INTERVAL_MS = 15_000;
+
+/**
+ * Hook to fetch a video's caption tracks (with cues). Viewers get ready tracks;
+ * the owner also gets pending/failed ones and polls until generation settles.
+ * Pass `enabled: false` to hold off until captions are actually shown.
+ */
+export function useVideoCaptions(
+  videoId: string | undefined,
+  options: { enabled?: boolean } = {},
+): UseQueryResult<VideoCaptionTrack[]> {
+  return useQuery({
+    queryKey: videoQueryKeys.captions(videoId ?? ''),
+    queryFn: async () => {
+      const response = await videoApi.getCaptions(videoId!);
+      if (!response.success) throw new Error(response.error || 'Failed to load captions');
+      return response.data;
+    },
+    enabled: !!videoId && (options.enabled ?? true),
+    staleTime: 1000 * 60 * 5,
+    refetchInterval: (query) =>
+      query.state.data?.some((track) => track.status === 'pending' || track.status === 'processing')
+        ? PENDING_CAPTIONS_POLL_INTERVAL_MS
+        : false,
+  });
+}
+
+/**
+ * After a caption write: refetch the video's tracks and mirror the ready
+ * languages into every cached copy of the video, so CC buttons in feeds
+ * appear/disappear without refetching the feeds.
+ */
+function useSyncCaptionCaches() {
+  const queryClient = useQueryClient();
+  return useCallback(async (videoId: string) => {
+    await queryClient.invalidateQueries({ queryKey: videoQueryKeys.captions(videoId) });
+    const tracks = queryClient.getQueryData<VideoCaptionTrack[]>(videoQueryKeys.captions(videoId));
+    if (!tracks) return;
+    const captionLanguages = tracks.filter((t) => t.status === 'ready').map((t) => t.language);
+    queryClient.setQueriesData(
+      { queryKey: videoQueryKeys.all },
+      makeVideoCacheUpdater(videoId, (v) => ({ ...v, captionLanguages })),
+    );
+  }, [queryClient]);
+}
+
+/**
+ * Hook to attach a .vtt/.srt caption file to a video
+ */
+export function useUploadCaption(): UseMutationResult<
+  VideoCaptionTrack,
+  Error,
+  { videoId: string; file: { uri: string; name: string; mimeType?: string | null }; language: string; label?: string }
+> {
+  const syncCaptionCaches = useSyncCaptionCaches();
+
+  return useMutation({
+    mutationKey: ['videos', 'captions', 'upload'],
+    mutationFn: async ({ videoId, file, language, label }) => {
+      const response = await videoApi.uploadCaption(videoId, file, language, label);
+      if (!response.success) throw new Error(response.error);
+      return response.data;
+    },
+    onSuccess: (_, { videoId }) => syncCaptionCaches(videoId),
+  });
+}
+
+/**
+ * Hook to queue auto-generated captions for a video
+ */
+export function useRequestAutoCaptions(): UseMutationResult<
+  VideoCaptionTrack,
+  Error,
+  { videoId: string; language: string }
+> {
+  const syncCaptionCaches = useSyncCaptionCaches();
+
+  return useMutation({
+    mutationKey: ['videos', 'captions', 'auto'],
+    mutationFn: async ({ videoId, language }) => {
+      const response = await videoApi.requestAutoCaptions(videoId, language);
+      if (!response.success) throw new Error(response.error);
+      return response.data;
+    },
+    onSuccess: (_, { videoId }) => syncCaptionCaches(videoId),
+  });
+}
+
+/**
+ * Hook to save edited cues from the caption editor
+ */
+export function useSaveCaptions(): UseMutationResult<
+  VideoCaptionTrack,
+  Error,
+  { videoId: string; language: string; cues: CaptionCue[]; label?: string }
+> {
+  const syncCaptionCaches = useSyncCaptionCaches();
+
+  return useMutation({
+    mutationKey: ['videos', 'captions', 'save'],
+    mutationFn: async ({ videoId, language, cues, label }) => {
+      const response = await videoApi.updateCaption(videoId, language, { cues, label });
+      if (!response.success) throw new Error(response.error);
+      return response.data;
+    },
+    onSuccess: (_, { videoId }) => syncCaptionCaches(videoId),
+  });
+}
+
+/**
+ * Hook to remove a caption track
+ */
+export function useDeleteCaption(): UseMutationResult<
+  { deleted: boolean },
+  Error,
+  { videoId: string; language: string }
+> {
+  const syncCaptionCaches = useSyncCaptionCaches();
+
+  return useMutation({
+    mutationKey: ['videos', 'captions', 'delete'],
+    mutationFn: async ({ videoId, language }) => {
+      const response = await videoApi.deleteCaption(videoId, language);
+      if (!response.success) throw new Error(response.error);
+      return response.data;
+    },
+    onSuccess: (_, { videoId }) => syncCaptionCaches(videoId),
+  });
+}
+
 // ============================================================================
 // ANALYTICS HOOKS
 // ============================================================================
 
 /**
- * Hook to fetch video analytics
+ * One of the caller's videos over `range`, against their median video.
+ * Creator only — anyone else gets an error.
  */
-export function useVideoAnalytics(videoId: string): UseQueryResult<VideoAnalytics> {
+export function useVideoAnalytics(
+  videoId: string | undefined,
+  range: AnalyticsRange = '28d',
+): UseQueryResult<VideoAnalytics> {
   return useQuery({
-    queryKey: videoQueryKeys.analytics(videoId),
+    queryKey: videoQueryKeys.analytics(videoId ?? '', range),
     queryFn: async () => {
-      const response = await videoApi.getAnalytics(videoId);
-      if (!response.success) throw new Error(response.error || 'Failed to fetch analytics');
+      const response = await videoApi.getAnalytics(videoId!, range);
+      if (!response.success || !response.data) throw new Error(response.error || 'Failed to fetch analytics');
       return response.data;
     },
     enabled: !!videoId,
     staleTime: 1000 * 60 * 5,
+    placeholderData: keepPreviousData,
+  });
+}
+
+/** The caller's channel over `range` — totals, follower growth, traffic sources, top videos and comments */
+export function useChannelAnalytics(range: AnalyticsRange = '28d', enabled: boolean = true): UseQueryResult<ChannelAnalytics> {
+  return useQuery({
+    queryKey: videoQueryKeys.channelAnalytics(range),
+    queryFn: async () => {
+      const response = await videoApi.getChannelAnalytics(range);
+      if (!response.success || !response.data) throw new Error(response.error || 'Failed to fetch channel analytics');
+      return response.data;
+    },
+    enabled,
+    staleTime: 1000 * 60 * 5,
+    placeholderData: keepPreviousData,
+  });
+}
+
+// ============================================================================
+// PLAYLIST, SERIES & COLLECTION HOOKS
+// ============================================================================
+
+/** Every video a creator has posted, newest first — their profile grid and the playlist editor's picker */
+export function useUserVideos(userId: string | undefined): UseQueryResult<Video[]> {
+  return useQuery({
+    queryKey: videoQueryKeys.userVideos(userId ?? ''),
+    queryFn: async () => {
+      const response = await videoApi.getByUser(userId!, 1, PLAYLIST_MAX_ITEMS);
+      if (!response.success) throw new Error(response.error || 'Failed to fetch videos');
+      return response.data;
+    },
+    enabled: !!userId,
+    staleTime: 1000 * 60 * 2,
+  });
+}
+
+/** A creator's playlists and series — the shelf on their profile */
+export function useCreatorPlaylists(userId: string | undefined): UseQueryResult<VideoPlaylist[]> {
+  return useQuery({
+    queryKey: videoQueryKeys.creatorPlaylists(userId ?? ''),
+    queryFn: async () => {
+      const response = await videoApi.getCreatorPlaylists(userId!);
+      if (!response.success) throw new Error(response.error || 'Failed to fetch playlists');
+      return response.data;
+    },
+    enabled: !!userId,
+    staleTime: 1000 * 60 * 2,
+  });
+}
+
+/** One playlist with its videos in order — also how the player finds a series' next part */
+export function usePlaylist(playlistId: string | null | undefined): UseQueryResult<VideoPlaylistDetail> {
+  return useQuery({
+    queryKey: videoQueryKeys.playlist(playlistId ?? ''),
+    queryFn: async () => {
+      const response = await videoApi.getPlaylist(playlistId!);
+      if (!response.success || !response.data) throw new Error(response.error || 'Failed to fetch playlist');
+      return response.data;
+    },
+    enabled: !!playlistId,
+    staleTime: 1000 * 60 * 2,
+  });
+}
+
+/**
+ * After a playlist changes: the cached playlist and shelves, and — when a
+ * series changed — every cached video, whose "Part n of N" may have moved.
+ */
+function refreshAfterPlaylistChange(queryClient: QueryClient, series: boolean) {
+  queryClient.invalidateQueries({ queryKey: series ? videoQueryKeys.all : videoQueryKeys.playlists() });
+}
+
+/** Create a playlist or series from the caller's own videos */
+export function useCreatePlaylist() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (input: PlaylistInput) => {
+      const response = await videoApi.createPlaylist(input);
+      if (!response.success || !response.data) throw new Error(response.error || 'Failed to create playlist');
+      return response.data;
+    },
+    onSuccess: (playlist) => {
+      queryClient.setQueryData(videoQueryKeys.playlist(playlist.id), playlist);
+      refreshAfterPlaylistChange(queryClient, playlist.kind === 'series');
+    },
+  });
+}
+
+/** Edit a playlist's title, description, kind or order */
+export function useUpdatePlaylist() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ playlistId, changes }: { playlistId: string; changes: Partial<PlaylistInput> }) => {
+      const response = await videoApi.updatePlaylist(playlistId, changes);
+      if (!response.success || !response.data) throw new Error(response.error || 'Failed to update playlist');
+      return response.data;
+    },
+    onSuccess: (playlist, { changes }) => {
+      queryClient.setQueryData(videoQueryKeys.playlist(playlist.id), playlist);
+      refreshAfterPlaylistChange(queryClient, playlist.kind === 'series' || changes.kind !== undefined);
+    },
+  });
+}
+
+/** Delete a playlist — its videos stay */
+export function useDeletePlaylist() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ playlistId }: { playlistId: string; kind: VideoPlaylist['kind'] }) => {
+      const response = await videoApi.deletePlaylist(playlistId);
+      if (!response.success) throw new Error(response.error || 'Failed to delete playlist');
+      return response.data;
+    },
+    onSuccess: (_, { playlistId, kind }) => {
+      queryClient.removeQueries({ queryKey: videoQueryKeys.playlist(playlistId) });
+      refreshAfterPlaylistChange(queryClient, kind === 'series');
+    },
+  });
+}
+
+/** The caller's collections and how many videos they have saved in all */
+export function useVideoCollections(enabled: boolean = true): UseQueryResult<VideoCollections> {
+  return useQuery({
+    queryKey: videoQueryKeys.collections(),
+    queryFn: async () => {
+      const response = await videoApi.getCollections();
+      if (!response.success) throw new Error(response.error || 'Failed to fetch collections');
+      return response.data;
+    },
+    enabled,
+    staleTime: 1000 * 60,
+  });
+}
+
+export function useCreateCollection() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (name: string) => {
+      const response = await videoApi.createCollection(name);
+      if (!response.success || !response.data) throw new Error(response.error || 'Failed to create collection');
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: videoQueryKeys.collections() });
+    },
+  });
+}
+
+export function useRenameCollection() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ collectionId, name }: { collectionId: string; name: string }) => {
+      const response = await videoApi.renameCollection(collectionId, name);
+      if (!response.success || !response.data) throw new Error(response.error || 'Failed to rename collection');
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: videoQueryKeys.collections() });
+    },
+  });
+}
+
+/** Delete a collection — its videos stay saved, in no collection */
+export function useDeleteCollection() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (collectionId: string) => {
+      const response = await videoApi.deleteCollection(collectionId);
+      if (!response.success) throw new Error(response.error || 'Failed to delete collection');
+      return response.data;
+    },
+    onSuccess: (_, collectionId) => {
+      queryClient.removeQueries({ queryKey: videoQueryKeys.savedVideos(collectionId) });
+      queryClient.invalidateQueries({ queryKey: videoQueryKeys.collections() });
+      queryClient.invalidateQueries({ queryKey: videoQueryKeys.savedVideos(null) });
+    },
+  });
+}
+
+/** Saved videos, newest first, a page at a time — all of them, or one collection's */
+export function useSavedVideos(collectionId: string | null = null, options: { enabled?: boolean } = {}) {
+  return useInfiniteQuery({
+    queryKey: videoQueryKeys.savedVideos(collectionId),
+    queryFn: async ({ pageParam }: { pageParam: string | null }) => {
+      const response = await videoApi.getSavedVideos(collectionId, pageParam);
+      if (!response.success) throw new Error(response.error || 'Failed to load saved videos');
+      return response.data;
+    },
+    getNextPageParam: (lastPage: SavedVideosPage) => lastPage.nextBefore,
+    initialPageParam: null as string | null,
+    enabled: options.enabled ?? true,
+    staleTime: 1000 * 30,
+  });
+}
+
+/**
+ * Save a video into a collection (or into none). Saving bookmarks it, so the
+ * bookmark button lights up everywhere the video is shown.
+ */
+export function useSaveToCollection() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ videoId, collectionId }: { videoId: string; collectionId: string | null }) => {
+      const response = await videoApi.saveToCollection(videoId, collectionId);
+      if (!response.success) throw new Error(response.error || 'Failed to save video');
+      return response.data;
+    },
+    onSuccess: ({ videoId }) => {
+      const feed = useVideoFeedStore.getState();
+      if (!feed.bookmarkedVideoIds.has(videoId)) feed.toggleBookmark(videoId);
+      queryClient.setQueriesData(
+        { queryKey: videoQueryKeys.all },
+        makeVideoCacheUpdater(videoId, (v) => ({ ...v, isBookmarked: true })),
+      );
+      queryClient.invalidateQueries({ queryKey: videoQueryKeys.collections() });
+      queryClient.invalidateQueries({ queryKey: [...videoQueryKeys.all, 'saved'] });
+      queryClient.invalidateQueries({ queryKey: videoQueryKeys.bookmarked() });
+    },
   });
 }
 
@@ -1336,6 +2238,7 @@ export default {
   useUploadVideo,
   useDeleteVideo,
   useVideoAnalytics,
+  useChannelAnalytics,
   useVideoStats,
   useVideoState,
   videoQueryKeys,
@@ -1460,6 +2363,34 @@ export function useFollowCounts(userId: string | undefined) {
   });
 }
 
+/** Creators `userId` follows — suggestions for @mentions in comments */
+export function useFollowingCreators(userId: string | undefined, options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: videoQueryKeys.followingCreators(userId || ''),
+    queryFn: async () => {
+      const response = await videoApi.getFollowingCreators(userId!);
+      if (!response.success) return [];
+      return response.data;
+    },
+    enabled: !!userId && (options.enabled ?? true),
+    staleTime: 1000 * 60 * 5,
+  });
+}
+
+/** Users following `userId` — the streamer's co-moderator candidates */
+export function useFollowers(userId: string | undefined, options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: videoQueryKeys.followers(userId || ''),
+    queryFn: async () => {
+      const response = await videoApi.getFollowers(userId!);
+      if (!response.success) return [];
+      return response.data;
+    },
+    enabled: !!userId && (options.enabled ?? true),
+    staleTime: 1000 * 60 * 5,
+  });
+}
+
 /** Block a user — invalidates all feed queries */
 export function useBlockUser() {
   const queryClient = useQueryClient();
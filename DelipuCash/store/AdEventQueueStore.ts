@@ -4,7 +4,8 @@
  * Ad tracking is fire-and-forget, so a failed send (offline / flaky network) would lose a
  * billable event. This queue persists failed events to AsyncStorage and `useAdEventQueueProcessor`
  * replays them when connectivity returns. Each event carries its `eventId`, so a replay is
- * safe — the server dedups on `eventId` and counts it at most once.
+ * safe — the server dedups on `eventId` and counts it at most once. A payload keeps the
+ * creative-test `variantId` it was shown with, so a replayed event still counts for that variant.
  */
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
@@ -15,6 +15,13 @@ import { persist, createJSONStorage, devtools } from 'zustand/middleware';
 import { useShallow } from 'zustand/react/shallow';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import type { Ad } from '../types';
+import type { AgeRange } from '../services/adApi';
+import {
+  addWatchedTopics,
+  rankAdsForViewer,
+  type AdViewerProfile,
+  type ViewerGender,
+} from '../utils/adTargeting';
 
 // ============================================================================
 // TYPES
@@ -33,6 +40,10 @@ export interface AdPreferences {
   blockedCategories: string[];
   /** Specific advertisers user has blocked */
   blockedAdvertisers: string[];
+  /** Age range the user chose to share for ad targeting (null = not shared) */
+  ageRange: AgeRange | null;
+  /** Gender the user chose to share for ad targeting (null = not shared) */
+  gender: ViewerGender | null;
   /** Whether user has completed ad preferences onboarding */
   hasCompletedOnboarding: boolean;
 }
@@ -91,6 +102,10 @@ export interface AdUIState {
   // Creative exposure tracking (2026 Feed Enhancement)
   creativeExposureCounts: Record<string, number>;     // session only
   crossSessionExposure: Record<string, number>;       // persisted
+
+  // Topic tags of watched videos → count; interests for ad targeting (persisted,
+  // only while personalized ads are on)
+  topicCounts: Record<string, number>;
 }
 
 export interface AdUIActions {
@@ -134,6 +149,9 @@ export interface AdUIActions {
   getCreativeSessionCount: (adId: string) => number;
   getCreativeCrossSessionCount: (adId: string) => number;
 
+  // Ad targeting interests
+  recordWatchedTopics: (tags: string[]) => void;
+
   // Reset
   reset: () => void;
 }
@@ -147,6 +165,8 @@ const initialPreferences: AdPreferences = {
   adFrequency: 'medium',
   blockedCategories: [],
   blockedAdvertisers: [],
+  ageRange: null,
+  gender: null,
   hasCompletedOnboarding: false,
 };
 
@@ -162,6 +182,7 @@ const initialState: AdUIState = {
   lastMetricsSyncAt: null,
   creativeExposureCounts: {},
   crossSessionExposure: {},
+  topicCounts: {},
 };
 
 // ============================================================================
@@ -189,13 +210,16 @@ const calculateAvgDuration = (
 };
 
 /**
- * Filter ads based on user preferences
+ * Filter ads based on user preferences. With a viewer profile, ads whose
+ * targeting rules the viewer out are dropped too, and the rest come best fit
+ * first (utils/adTargeting).
  */
 export const filterAdsByPreferences = (
   ads: Ad[],
-  preferences: AdPreferences
+  preferences: AdPreferences,
+  viewer?: AdViewerProfile
 ): Ad[] => {
-  return ads.filter((ad) => {
+  const allowed = ads.filter((ad) => {
     // Filter out blocked advertisers
     if (preferences.blockedAdvertisers.includes(ad.userId)) {
       return false;
@@ -205,6 +229,7 @@ export const filterAdsByPreferences = (
     // when categories are added to the ad schema
     return true;
   });
+  return viewer ? rankAdsForViewer(allowed, viewer) : allowed;
 };
 
 /**
@@ -229,9 +254,10 @@ export const sortAdsByPriority = (ads: Ad[]): Ad[] => {
 export const getRandomAdFromPool = (
   ads: Ad[],
   preferences: AdPreferences,
-  excludeIds: string[] = []
+  excludeIds: string[] = [],
+  viewer?: AdViewerProfile
 ): Ad | null => {
-  const filtered = filterAdsByPreferences(ads, preferences).filter(
+  const filtered = filterAdsByPreferences(ads, preferences, viewer).filter(
     (ad) => !excludeIds.includes(ad.id) && ad.isActive
   );
   
@@ -256,6 +282,8 @@ export const useAdUIStore = create<AdUIState & AdUIActions>()(
       updatePreferences: (newPreferences) => {
         set((state) => ({
           preferences: { ...state.preferences, ...newPreferences },
+          // Turning personalized ads off forgets what was learned from viewing
+          ...(newPreferences.personalizedAds === false && { topicCounts: {} }),
         }));
       },
 
@@ -265,6 +293,7 @@ export const useAdUIStore = create<AdUIState & AdUIActions>()(
             ...state.preferences,
             personalizedAds: !state.preferences.personalizedAds,
           },
+          ...(state.preferences.personalizedAds && { topicCounts: {} }),
         }));
       },
 
@@ -548,6 +577,17 @@ export const useAdUIStore = create<AdUIState & AdUIActions>()(
         return get().crossSessionExposure[adId] || 0;
       },
 
+      // ========================================
+      // AD TARGETING INTERESTS
+      // ========================================
+
+      recordWatchedTopics: (tags) => {
+        const { preferences, topicCounts } = get();
+        if (!preferences.personalizedAds) return;
+        const next = addWatchedTopics(topicCounts, tags);
+        if (next !== topicCounts) set({ topicCounts: next });
+      },
+
       // ========================================
       // RESET
       // ========================================
@@ -558,10 +598,11 @@ export const useAdUIStore = create<AdUIState & AdUIActions>()(
       name: 'ad-ui-storage',
       storage: createJSONStorage(() => AsyncStorage),
       partialize: (state) => ({
-        // Only persist preferences, local metrics, and cross-session exposure
+        // Only persist preferences, local metrics, cross-session exposure and watched topics
         preferences: state.preferences,
         localMetrics: state.localMetrics,
         crossSessionExposure: state.crossSessionExposure,
+        topicCounts: state.topicCounts,
         // Don't persist session state (queue, dismissedAds, modal, session exposure)
       }),
     }
@@ -587,6 +628,7 @@ export const selectIsAdModalVisible = (state: AdUIState) => state.isAdModalVisib
 export const selectCurrentModalAd = (state: AdUIState) => state.currentModalAd;
 export const selectCreativeExposureCounts = (state: AdUIState) => state.creativeExposureCounts;
 export const selectCrossSessionExposure = (state: AdUIState) => state.crossSessionExposure;
+export const selectTopicCounts = (state: AdUIState) => state.topicCounts;
 
 // ============================================================================
 // CONVENIENCE HOOKS (pre-wrapped with useShallow for object selectors)
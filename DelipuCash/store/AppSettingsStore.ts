@@ -1,6 +1,6 @@
 /**
  * AppSettingsStore — Zustand store for app-level quick settings.
- * Persists user preferences (notifications, data saver, haptics) across sessions.
+ * Persists user preferences (notifications, data saver, haptics, offline downloads) across sessions.
  *
  * Pattern: Follows TransactionUIStore / NotificationUIStore conventions —
  * devtools + persist middleware, atomic selectors, AsyncStorage persistence.
@@ -9,6 +9,7 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage, devtools } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DEFAULT_STORAGE_CAP_BYTES } from '@/utils/offlineDownloads';
 
 // ============================================================================
 // TYPES
@@ -24,6 +25,10 @@ interface AppSettingsState {
   autoDataSaverOnCellular: boolean;
   /** Haptic/vibration feedback on interactions */
   hapticFeedbackEnabled: boolean;
+  /** Offline downloads wait for Wi-Fi instead of using mobile data */
+  downloadWifiOnly: boolean;
+  /** Offline downloads stop queueing new videos past this many bytes */
+  downloadStorageCapBytes: number;
 }
 
 interface AppSettingsActions {
@@ -31,6 +36,8 @@ interface AppSettingsActions {
   toggleDataSaver: () => void;
   toggleAutoDataSaverOnCellular: () => void;
   toggleHapticFeedback: () => void;
+  toggleDownloadWifiOnly: () => void;
+  setDownloadStorageCap: (bytes: number) => void;
   /** Reset all preferences to defaults */
   resetSettings: () => void;
 }
@@ -44,6 +51,8 @@ const initialState: AppSettingsState = {
   dataSaverEnabled: false,
   autoDataSaverOnCellular: true,
   hapticFeedbackEnabled: true,
+  downloadWifiOnly: true,
+  downloadStorageCapBytes: DEFAULT_STORAGE_CAP_BYTES,
 };
 
 // ============================================================================
@@ -63,6 +72,9 @@ export const useAppSettingsStore = create<AppSettingsState & AppSettingsActions>
           set((s) => ({ autoDataSaverOnCellular: !s.autoDataSaverOnCellular })),
         toggleHapticFeedback: () =>
           set((s) => ({ hapticFeedbackEnabled: !s.hapticFeedbackEnabled })),
+        toggleDownloadWifiOnly: () =>
+          set((s) => ({ downloadWifiOnly: !s.downloadWifiOnly })),
+        setDownloadStorageCap: (bytes) => set({ downloadStorageCapBytes: bytes }),
         resetSettings: () => set(initialState),
       }),
       {
@@ -73,6 +85,8 @@ export const useAppSettingsStore = create<AppSettingsState & AppSettingsActions>
           dataSaverEnabled: state.dataSaverEnabled,
           autoDataSaverOnCellular: state.autoDataSaverOnCellular,
           hapticFeedbackEnabled: state.hapticFeedbackEnabled,
+          downloadWifiOnly: state.downloadWifiOnly,
+          downloadStorageCapBytes: state.downloadStorageCapBytes,
         }),
       },
     ),
@@ -88,10 +102,14 @@ export const selectPushNotificationsEnabled = (s: AppSettingsState) => s.pushNot
 export const selectDataSaverEnabled = (s: AppSettingsState) => s.dataSaverEnabled;
 export const selectAutoDataSaverOnCellular = (s: AppSettingsState) => s.autoDataSaverOnCellular;
 export const selectHapticFeedbackEnabled = (s: AppSettingsState) => s.hapticFeedbackEnabled;
+export const selectDownloadWifiOnly = (s: AppSettingsState) => s.downloadWifiOnly;
+export const selectDownloadStorageCapBytes = (s: AppSettingsState) => s.downloadStorageCapBytes;
 
 // Action selectors
 export const selectTogglePushNotifications = (s: AppSettingsState & AppSettingsActions) => s.togglePushNotifications;
 export const selectToggleDataSaver = (s: AppSettingsState & AppSettingsActions) => s.toggleDataSaver;
 export const selectToggleAutoDataSaverOnCellular = (s: AppSettingsState & AppSettingsActions) => s.toggleAutoDataSaverOnCellular;
 export const selectToggleHapticFeedback = (s: AppSettingsState & AppSettingsActions) => s.toggleHapticFeedback;
+export const selectToggleDownloadWifiOnly = (s: AppSettingsState & AppSettingsActions) => s.toggleDownloadWifiOnly;
+export const selectSetDownloadStorageCap = (s: AppSettingsState & AppSettingsActions) => s.setDownloadStorageCap;
 export const selectResetSettings = (s: AppSettingsState & AppSettingsActions) => s.resetSettings;
@@ -0,0 +1,126 @@
+/**
+ * OfflineDownloadStore — Zustand store for videos kept on the device.
+ * Holds the download queue and each finished download's file and expiry;
+ * useOfflineDownloadProcessor works through the queue and renews licenses,
+ * services/offlineDownloadService owns the files and content keys.
+ *
+ * Pattern: Follows AppSettingsStore conventions —
+ * devtools + persist middleware, atomic selectors, AsyncStorage persistence.
+ */
+
+import { create } from 'zustand';
+import { persist, createJSONStorage, devtools } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { Video } from '@/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type OfflineDownloadStatus = 'queued' | 'downloading' | 'ready' | 'failed';
+
+/** What the Downloads tab shows and the player needs — kept so it works offline */
+export type OfflineVideoSnapshot = Pick<Video, 'id' | 'title' | 'thumbnail' | 'duration' | 'userId' | 'user'>;
+
+export interface OfflineDownload {
+  videoId: string;
+  /** The owner — downloads are cleared when someone else signs in */
+  userId: string;
+  video: OfflineVideoSnapshot;
+  status: OfflineDownloadStatus;
+  /** 0–1 while downloading */
+  progress: number;
+  /** From the license; null until licensed or when the server doesn't know */
+  sizeBytes: number | null;
+  /** The encrypted file — set once ready */
+  fileUri: string | null;
+  /** License expiry (ISO) — renewed while the subscription lasts */
+  expiresAt: string | null;
+  queuedAt: string;
+  completedAt: string | null;
+  attempts: number;
+  error: string | null;
+}
+
+interface OfflineDownloadState {
+  downloads: OfflineDownload[];
+}
+
+interface OfflineDownloadActions {
+  /** Queue `video` — a failed download is queued again; anything else is left alone */
+  enqueueDownload: (video: OfflineVideoSnapshot, userId: string) => void;
+  updateDownload: (videoId: string, changes: Partial<OfflineDownload>) => void;
+  removeDownload: (videoId: string) => void;
+  /** Move every ready download's expiry to `expiresAt` (a renewed license) */
+  renewDownloads: (expiresAt: string) => void;
+  clearDownloads: () => void;
+}
+
+// ============================================================================
+// STORE
+// ============================================================================
+
+export const useOfflineDownloadStore = create<OfflineDownloadState & OfflineDownloadActions>()(
+  devtools(
+    persist(
+      (set) => ({
+        downloads: [],
+        enqueueDownload: (video, userId) =>
+          set((s) => {
+            const existing = s.downloads.find((d) => d.videoId === video.id);
+            if (existing && existing.status !== 'failed') return s;
+            const queued: OfflineDownload = {
+              videoId: video.id,
+              userId,
+              video,
+              status: 'queued',
+              progress: 0,
+              sizeBytes: null,
+              fileUri: null,
+              expiresAt: null,
+              queuedAt: new Date().toISOString(),
+              completedAt: null,
+              attempts: 0,
+              error: null,
+            };
+            return { downloads: [queued, ...s.downloads.filter((d) => d.videoId !== video.id)] };
+          }),
+        updateDownload: (videoId, changes) =>
+          set((s) => ({
+            downloads: s.downloads.map((d) => (d.videoId === videoId ? { ...d, ...changes } : d)),
+          })),
+        removeDownload: (videoId) =>
+          set((s) => ({ downloads: s.downloads.filter((d) => d.videoId !== videoId) })),
+        renewDownloads: (expiresAt) =>
+          set((s) => ({
+            downloads: s.downloads.map((d) => (d.status === 'ready' ? { ...d, expiresAt } : d)),
+          })),
+        clearDownloads: () => set({ downloads: [] }),
+      }),
+      {
+        name: '@offline_downloads',
+        storage: createJSONStorage(() => AsyncStorage),
+        // A download cut off by the app closing starts over from the queue
+        merge: (persisted, current) => {
+          const downloads = ((persisted as Partial<OfflineDownloadState> | undefined)?.downloads ?? []).map((d) =>
+            d.status === 'downloading' ? { ...d, status: 'queued' as const, progress: 0 } : d,
+          );
+          return { ...current, downloads };
+        },
+      },
+    ),
+    { name: 'OfflineDownloadStore', enabled: __DEV__ },
+  ),
+);
+
+// ============================================================================
+// ATOMIC SELECTORS (stable references — no new objects per render)
+// ============================================================================
+
+export const selectOfflineDownloads = (s: OfflineDownloadState) => s.downloads;
+export const selectOfflineDownload = (videoId: string | undefined) => (s: OfflineDownloadState) =>
+  videoId ? s.downloads.find((d) => d.videoId === videoId) : undefined;
+
+// Action selectors
+export const selectEnqueueDownload = (s: OfflineDownloadState & OfflineDownloadActions) => s.enqueueDownload;
+export const selectRemoveDownload = (s: OfflineDownloadState & OfflineDownloadActions) => s.removeDownload;
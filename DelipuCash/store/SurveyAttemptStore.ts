@@ -6,7 +6,9 @@
  * - Auto-save draft answers locally (survives app crash/nav away)
  * - Track progress per survey
  * - Timer tracking for completion analytics
+ * - Navigation history stack so Back retraces skip-logic jumps
  * - Submission guard (prevent double-submit)
+ * - Screen-outs remembered per survey so a screener can't be re-answered
  * - Pair with TanStack Query hooks for server state
  */
 
@@ -14,6 +16,7 @@ import { create } from 'zustand';
 import { persist, createJSONStorage, devtools } from 'zustand/middleware';
 import { useShallow } from 'zustand/react/shallow';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { ScreenerOutcome } from '@/utils/surveyScreening';
 
 // ============================================================================
 // TYPES
@@ -32,20 +35,31 @@ export interface SurveyAttemptDraft {
   startedAt: string;
   lastSavedAt: string;
   totalQuestions: number;
+  /** Question ids visited before the current one (absent on pre-branching drafts) */
+  questionHistory?: string[];
 }
 
 export type SubmissionStatus =
   | 'idle'
   | 'submitting'
   | 'submitted'
+  /** Saved to the offline submission queue — sent when the device reconnects */
+  | 'queued'
+  /** Ended by a screener answer or a full quota — nothing is submitted */
+  | 'screened_out'
   | 'error';
 
+/** Why a screener ended the attempt */
+export type ScreeningOutcome = Exclude<ScreenerOutcome, 'qualified'>;
+
 export interface SurveyAttemptState {
   // Active attempt
   activeSurveyId: string | null;
   answers: DraftAnswers;
   currentQuestionIndex: number;
   totalQuestions: number;
+  /** Stack of question ids the respondent came through — Back pops it */
+  questionHistory: string[];
 
   // Progress
   startedAt: string | null;
@@ -58,6 +72,12 @@ export interface SurveyAttemptState {
 
   // Drafts (persisted across sessions)
   drafts: Record<string, SurveyAttemptDraft>;
+
+  // Surveys a screener ended, by survey id (persisted across sessions)
+  screenedOut: Record<string, ScreeningOutcome>;
+
+  // Language last picked on a multilingual survey (persisted across sessions)
+  preferredLanguage: string | null;
 }
 
 export interface SurveyAttemptActions {
@@ -77,10 +97,16 @@ export interface SurveyAttemptActions {
   setTotalQuestions: (total: number) => void;
   goNext: () => void;
   goPrevious: () => void;
+  pushQuestionHistory: (questionId: string) => void;
+  popQuestionHistory: () => string | undefined;
+  setQuestionHistory: (questionIds: string[]) => void;
 
   // Submission
   setSubmitting: () => void;
   setSubmitted: (reward: number) => void;
+  setQueued: () => void;
+  setScreenedOut: (outcome: ScreeningOutcome) => void;
+  setPreferredLanguage: (language: string) => void;
   setSubmissionError: (error: string) => void;
   resetSubmission: () => void;
 
@@ -103,12 +129,15 @@ const initialState: SurveyAttemptState = {
   answers: {},
   currentQuestionIndex: 0,
   totalQuestions: 0,
+  questionHistory: [],
   startedAt: null,
   lastSavedAt: null,
   submissionStatus: 'idle',
   submissionError: null,
   submittedReward: null,
   drafts: {},
+  screenedOut: {},
+  preferredLanguage: null,
 };
 
 // ============================================================================
@@ -132,6 +161,7 @@ const flushDraftPersist = (set: any, get: any): void => {
       startedAt: state.startedAt || new Date().toISOString(),
       lastSavedAt: new Date().toISOString(),
       totalQuestions: state.totalQuestions,
+      questionHistory: state.questionHistory,
     };
     set((prev: SurveyAttemptState) => ({
       drafts: { ...prev.drafts, [state.activeSurveyId!]: draft },
@@ -166,6 +196,7 @@ export const useSurveyAttemptStore = create<
             answers: existingDraft.answers,
             currentQuestionIndex: existingDraft.currentIndex,
             totalQuestions: existingDraft.totalQuestions,
+            questionHistory: existingDraft.questionHistory ?? [],
             startedAt: existingDraft.startedAt,
             lastSavedAt: existingDraft.lastSavedAt,
             submissionStatus: 'idle',
@@ -179,6 +210,7 @@ export const useSurveyAttemptStore = create<
             answers: {},
             currentQuestionIndex: 0,
             totalQuestions,
+            questionHistory: [],
             startedAt: new Date().toISOString(),
             lastSavedAt: null,
             submissionStatus: 'idle',
@@ -208,6 +240,7 @@ export const useSurveyAttemptStore = create<
           answers: draft.answers,
           currentQuestionIndex: draft.currentIndex,
           totalQuestions: draft.totalQuestions,
+          questionHistory: draft.questionHistory ?? [],
           startedAt: draft.startedAt,
           lastSavedAt: draft.lastSavedAt,
           submissionStatus: 'idle',
@@ -231,10 +264,13 @@ export const useSurveyAttemptStore = create<
             startedAt: state.startedAt || new Date().toISOString(),
             lastSavedAt: new Date().toISOString(),
             totalQuestions: state.totalQuestions,
+            questionHistory: state.questionHistory,
           };
           set((prev) => ({
             ...initialState,
             drafts: { ...prev.drafts, [state.activeSurveyId!]: draft },
+            screenedOut: prev.screenedOut,
+            preferredLanguage: prev.preferredLanguage,
           }));
         } else {
           set({
@@ -242,6 +278,7 @@ export const useSurveyAttemptStore = create<
             answers: {},
             currentQuestionIndex: 0,
             totalQuestions: 0,
+            questionHistory: [],
             startedAt: null,
             lastSavedAt: null,
             submissionStatus: 'idle',
@@ -284,6 +321,7 @@ export const useSurveyAttemptStore = create<
               startedAt: latest.startedAt || new Date().toISOString(),
               lastSavedAt: new Date().toISOString(),
               totalQuestions: latest.totalQuestions,
+              questionHistory: latest.questionHistory,
             };
             set((prev: SurveyAttemptState) => ({
               drafts: { ...prev.drafts, [latest.activeSurveyId!]: draft },
@@ -312,7 +350,7 @@ export const useSurveyAttemptStore = create<
         if (index >= 0 && index < state.totalQuestions) {
           set({ currentQuestionIndex: index });
 
-          // Update draft with new index
+          // Update draft with new index (and the history that led here)
           if (state.activeSurveyId && state.drafts[state.activeSurveyId]) {
             set((prev) => ({
               drafts: {
@@ -320,6 +358,7 @@ export const useSurveyAttemptStore = create<
                 [state.activeSurveyId!]: {
                   ...prev.drafts[state.activeSurveyId!],
                   currentIndex: index,
+                  questionHistory: prev.questionHistory,
                 },
               },
             }));
@@ -359,6 +398,27 @@ export const useSurveyAttemptStore = create<
         }
       },
 
+      /**
+       * Skip logic makes "previous" path-dependent: after a jump from Q2 to Q7,
+       * Back must land on Q2, not Q6. The screen pushes the question it leaves
+       * and pops on Back. Kept in the draft so a resumed attempt retraces too.
+       */
+      pushQuestionHistory: (questionId) => {
+        set((state) => ({ questionHistory: [...state.questionHistory, questionId] }));
+      },
+
+      popQuestionHistory: () => {
+        const { questionHistory } = get();
+        if (questionHistory.length === 0) return undefined;
+        const previous = questionHistory[questionHistory.length - 1];
+        set({ questionHistory: questionHistory.slice(0, -1) });
+        return previous;
+      },
+
+      setQuestionHistory: (questionIds) => {
+        set({ questionHistory: questionIds });
+      },
+
       // ============================
       // Submission
       // ============================
@@ -387,6 +447,34 @@ export const useSurveyAttemptStore = create<
         }
       },
 
+      setQueued: () => {
+        const state = get();
+        // The queue holds the answers now — a leftover draft would invite a second attempt
+        if (state.activeSurveyId) {
+          const { [state.activeSurveyId]: _, ...remainingDrafts } = state.drafts;
+          set({ submissionStatus: 'queued', submissionError: null, drafts: remainingDrafts });
+        } else {
+          set({ submissionStatus: 'queued', submissionError: null });
+        }
+      },
+
+      setScreenedOut: (outcome) => {
+        const state = get();
+        if (!state.activeSurveyId) return;
+        // Discard the draft — resuming it would only re-ask the screener
+        const { [state.activeSurveyId]: _, ...remainingDrafts } = state.drafts;
+        set({
+          submissionStatus: 'screened_out',
+          submissionError: null,
+          drafts: remainingDrafts,
+          screenedOut: { ...state.screenedOut, [state.activeSurveyId]: outcome },
+        });
+      },
+
+      setPreferredLanguage: (language) => {
+        set({ preferredLanguage: language });
+      },
+
       setSubmissionError: (error) => {
         set({ submissionStatus: 'error', submissionError: error });
       },
@@ -443,8 +531,10 @@ export const useSurveyAttemptStore = create<
       name: 'survey-attempt-storage',
       storage: createJSONStorage(() => AsyncStorage),
       partialize: (state) => ({
-        // Only persist drafts across sessions
+        // Only persist drafts, screen-outs and the language pick across sessions
         drafts: state.drafts,
+        screenedOut: state.screenedOut,
+        preferredLanguage: state.preferredLanguage,
       }),
     }
   ),
@@ -460,6 +550,7 @@ export const selectActiveSurveyId = (s: SurveyAttemptState) => s.activeSurveyId;
 export const selectAnswers = (s: SurveyAttemptState) => s.answers;
 export const selectCurrentIndex = (s: SurveyAttemptState) => s.currentQuestionIndex;
 export const selectTotalQuestions = (s: SurveyAttemptState) => s.totalQuestions;
+export const selectQuestionHistory = (s: SurveyAttemptState) => s.questionHistory;
 export const selectSubmissionStatus = (s: SurveyAttemptState) => s.submissionStatus;
 export const selectSubmissionError = (s: SurveyAttemptState) => s.submissionError;
 export const selectSubmittedReward = (s: SurveyAttemptState) => s.submittedReward;
@@ -16,6 +16,7 @@ import { persist, createJSONStorage, devtools } from 'zustand/middleware';
 import { useShallow } from 'zustand/react/shallow';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { withUndo, type UndoState, type UndoActions } from './middleware/undoMiddleware';
+import { remapPipingReferences } from '@/utils/piping';
 
 // ============================================================================
 // TYPES
@@ -32,21 +33,71 @@ export type BuilderQuestionType =
   | 'date'
   | 'time'
   | 'number'
-  | 'file_upload';
+  | 'file_upload'
+  | 'matrix'
+  | 'ranking'
+  | 'nps';
 
-/** Conditional logic rule for branching */
+/**
+ * Conditional logic rule for branching.
+ *
+ * - `show`: the host question is displayed only when its show rules pass.
+ * - `skip_to`: when the respondent leaves the host question and the rule
+ *   matches, navigation jumps forward to `targetQuestionId` (or to the end of
+ *   the survey for SKIP_TO_END). The source may be the host question itself.
+ */
 export interface ConditionalRule {
   sourceQuestionId: string;
   operator: 'equals' | 'not_equals' | 'contains' | 'greater_than' | 'less_than' | 'is_empty' | 'is_not_empty';
   value: string | number | boolean;
   action: 'show' | 'skip_to';
+  /** Jump destination for `skip_to` rules — a later question id or SKIP_TO_END */
+  targetQuestionId?: string | null;
 }
 
+// `targetQuestionId` sentinel for skip_to rules — defined with the engine that resolves it
+export { SKIP_TO_END } from '@/utils/conditionalLogic';
+
 export interface ConditionalLogicConfig {
   rules: ConditionalRule[];
   logicType: 'all' | 'any';
 }
 
+/** Cap on one qualifying screener answer, e.g. 100 × "Female" */
+export interface ScreenerQuota {
+  answer: string;
+  limit: number;
+}
+
+/**
+ * Screener on a single-choice question at the start of the survey: an answer
+ * outside `qualifying` politely ends the attempt before the paid section, and
+ * a qualifying answer with a quota stops being accepted once the quota fills.
+ */
+export interface ScreenerConfig {
+  qualifying: string[];
+  quotas?: ScreenerQuota[];
+}
+
+/**
+ * One question in one offered language. `options` (choices, ranking items,
+ * matrix rows, or the Yes/No labels) and `matrixColumns` line up with the
+ * question's own arrays by index; blank source entries are dropped together
+ * with their translations on publish.
+ */
+export interface QuestionTranslation {
+  text: string;
+  options?: string[];
+  matrixColumns?: string[];
+  placeholder?: string;
+}
+
+/** Survey title + description in one offered language */
+export interface SurveyTextTranslation {
+  title: string;
+  description?: string;
+}
+
 /** File upload configuration for file_upload question type */
 export interface FileUploadConfig {
   allowedTypes: string[]; // MIME types: ['image/*', 'application/pdf']
@@ -58,16 +109,46 @@ export interface BuilderQuestionData {
   id: string;
   text: string;
   type: BuilderQuestionType;
+  /** Choices; the rows of a matrix; the items to order for ranking */
   options: string[];
+  /** Matrix only: the shared answer scale across every row */
+  matrixColumns?: string[];
   minValue?: number;
   maxValue?: number;
   placeholder?: string;
   required: boolean;
   conditionalLogic?: ConditionalLogicConfig | null;
   fileUploadConfig?: FileUploadConfig | null;
+  screener?: ScreenerConfig | null;
+  /** Per-language text, keyed by language code */
+  translations?: Record<string, QuestionTranslation>;
   points?: number;
 }
 
+/** One band of a segment variable: the label applies from `min` upward */
+export interface SegmentBand {
+  min: number;
+  label: string;
+}
+
+/**
+ * Hidden computed variable, piped into question text as `{{name}}`.
+ *
+ * - `score`: sum of the numeric value of each source question's answer.
+ * - `segment`: label of the highest band the source reaches; `source` is a
+ *   question id or the name of a variable defined above this one.
+ */
+export interface ComputedVariable {
+  id: string;
+  name: string;
+  kind: 'score' | 'segment';
+  sourceQuestionIds: string[];
+  source?: string | null;
+  bands?: SegmentBand[];
+  /** Segment label when the source is unanswered or below every band */
+  fallback?: string;
+}
+
 export interface SurveyBuilderState {
   // Survey metadata
   surveyTitle: string;
@@ -85,6 +166,14 @@ export interface SurveyBuilderState {
   // Scoring
   isScoringEnabled: boolean;
 
+  // Hidden computed variables (score, segment) for answer piping
+  computedVariables: ComputedVariable[];
+
+  // Languages: the one the survey is written in, and the others it's offered in
+  defaultLanguage: string;
+  surveyLanguages: string[];
+  surveyTranslations: Record<string, SurveyTextTranslation>;
+
   // Gamification
   earnedBadges: string[];
 
@@ -122,12 +211,32 @@ export interface SurveyBuilderActions {
   removeOption: (questionId: string, optionIndex: number) => void;
   updateOption: (questionId: string, optionIndex: number, value: string) => void;
 
+  // Matrix column helpers
+  addMatrixColumn: (questionId: string) => void;
+  removeMatrixColumn: (questionId: string, columnIndex: number) => void;
+  updateMatrixColumn: (questionId: string, columnIndex: number, value: string) => void;
+
   // Conditional logic
   setConditionalLogic: (questionId: string, config: ConditionalLogicConfig | null) => void;
 
   // File upload config
   setFileUploadConfig: (questionId: string, config: FileUploadConfig | null) => void;
 
+  // Screener + quotas
+  setScreener: (questionId: string, config: ScreenerConfig | null) => void;
+
+  // Languages
+  setDefaultLanguage: (language: string) => void;
+  addSurveyLanguage: (language: string) => void;
+  removeSurveyLanguage: (language: string) => void;
+  setSurveyTranslation: (language: string, updates: Partial<SurveyTextTranslation>) => void;
+  setQuestionTranslation: (questionId: string, language: string, updates: Partial<QuestionTranslation>) => void;
+
+  // Computed variables
+  addComputedVariable: (kind: ComputedVariable['kind']) => string;
+  updateComputedVariable: (id: string, updates: Partial<ComputedVariable>) => void;
+  removeComputedVariable: (id: string) => void;
+
   // UI
   setExpandedQuestion: (id: string | null) => void;
 
@@ -153,8 +262,56 @@ function generateQuestionId(): string {
   return `q_${Date.now()}_${questionCounter}`;
 }
 
+let variableCounter = 0;
+
+function generateVariableId(): string {
+  variableCounter += 1;
+  return `var_${Date.now()}_${variableCounter}`;
+}
+
+function createDefaultVariable(kind: ComputedVariable['kind'], existing: ComputedVariable[]): ComputedVariable {
+  const base = kind === 'score' ? 'score' : 'segment';
+  let name = base;
+  for (let n = 2; existing.some((v) => v.name === name); n += 1) name = `${base}${n}`;
+  return kind === 'score'
+    ? { id: generateVariableId(), name, kind, sourceQuestionIds: [] }
+    : {
+        id: generateVariableId(),
+        name,
+        kind,
+        sourceQuestionIds: [],
+        source: null,
+        bands: [{ min: 0, label: '' }],
+        fallback: '',
+      };
+}
+
+/** Likert scale seeded when a question becomes a matrix */
+export const DEFAULT_MATRIX_COLUMNS = ['Strongly disagree', 'Disagree', 'Neutral', 'Agree', 'Strongly agree'];
+
+const MAX_OPTIONS = 10;
+const MAX_MATRIX_COLUMNS = 7;
+
+/**
+ * Seed what a newly chosen type needs to be publishable: a matrix gets the
+ * Likert columns, and matrix rows / ranking items start with two entries.
+ * Existing values are never overwritten, so switching types back and forth
+ * keeps the creator's edits.
+ */
+function applyTypeDefaults(question: BuilderQuestionData): BuilderQuestionData {
+  if (question.type !== 'matrix' && question.type !== 'ranking') return question;
+  const seeded = { ...question };
+  if (seeded.options.length === 0) {
+    seeded.options = question.type === 'matrix' ? ['Row 1', 'Row 2'] : ['Item 1', 'Item 2'];
+  }
+  if (question.type === 'matrix' && !seeded.matrixColumns?.length) {
+    seeded.matrixColumns = [...DEFAULT_MATRIX_COLUMNS];
+  }
+  return seeded;
+}
+
 function createDefaultQuestion(overrides?: Partial<BuilderQuestionData>): BuilderQuestionData {
-  return {
+  return applyTypeDefaults({
     id: generateQuestionId(),
     text: '',
     type: 'text',
@@ -165,7 +322,22 @@ function createDefaultQuestion(overrides?: Partial<BuilderQuestionData>): Builde
     fileUploadConfig: null,
     points: 0,
     ...overrides,
-  };
+  });
+}
+
+/** Drop one index from every language's copy of a translated label list */
+function spliceTranslations(
+  translations: Record<string, QuestionTranslation> | undefined,
+  key: 'options' | 'matrixColumns',
+  index: number
+): Record<string, QuestionTranslation> | undefined {
+  if (!translations) return translations;
+  return Object.fromEntries(
+    Object.entries(translations).map(([language, entry]) => [
+      language,
+      entry[key] ? { ...entry, [key]: entry[key]!.filter((_, i) => i !== index) } : entry,
+    ])
+  );
 }
 
 // Badge definitions
@@ -191,6 +363,10 @@ const initialState: SurveyBuilderState = {
   isMultiSelectMode: false,
   selectedQuestionIds: [],
   isScoringEnabled: false,
+  computedVariables: [],
+  defaultLanguage: 'en',
+  surveyLanguages: [],
+  surveyTranslations: {},
   earnedBadges: [],
   expandedQuestionId: 'q1',
 };
@@ -255,6 +431,20 @@ export function sanitizePersistedBuilderState(
         state.isScoringEnabled = false;
       }
     }
+    if (version < 3) {
+      // Computed variables (answer piping) arrived in v3
+      if (!Array.isArray(state.computedVariables)) {
+        state.computedVariables = [];
+      }
+    }
+    if (version < 4) {
+      // Multilingual surveys arrived in v4
+      if (typeof state.defaultLanguage !== 'string') state.defaultLanguage = 'en';
+      if (!Array.isArray(state.surveyLanguages)) state.surveyLanguages = [];
+      if (!state.surveyTranslations || typeof state.surveyTranslations !== 'object') {
+        state.surveyTranslations = {};
+      }
+    }
     return state;
   } catch {
     return {}; // corrupt beyond repair — start the builder clean
@@ -298,7 +488,7 @@ export const useSurveyBuilderStore = create<FullBuilderStore>()(
             set((prev) => {
               const remaining = prev.questions.filter((q) => q.id !== id);
               return {
-                questions: remaining,
+                questions: remapPipingReferences(prev.questions, remaining),
                 expandedQuestionId:
                   prev.expandedQuestionId === id
                     ? remaining[0]?.id ?? null
@@ -310,9 +500,11 @@ export const useSurveyBuilderStore = create<FullBuilderStore>()(
 
           updateQuestion: (id, updates) => {
             set((state) => ({
-              questions: state.questions.map((q) =>
-                q.id === id ? { ...q, ...updates } : q
-              ),
+              questions: state.questions.map((q) => {
+                if (q.id !== id) return q;
+                const updated = { ...q, ...updates };
+                return updates.type && updates.type !== q.type ? applyTypeDefaults(updated) : updated;
+              }),
             }));
           },
 
@@ -329,7 +521,10 @@ export const useSurveyBuilderStore = create<FullBuilderStore>()(
             const index = state.questions.findIndex((q) => q.id === id);
             const newQuestions = [...state.questions];
             newQuestions.splice(index + 1, 0, duplicate);
-            set({ questions: newQuestions, expandedQuestionId: newId });
+            set({
+              questions: remapPipingReferences(state.questions, newQuestions),
+              expandedQuestionId: newId,
+            });
             return newId;
           },
 
@@ -338,7 +533,8 @@ export const useSurveyBuilderStore = create<FullBuilderStore>()(
               const newQuestions = [...state.questions];
               const [moved] = newQuestions.splice(fromIndex, 1);
               newQuestions.splice(toIndex, 0, moved);
-              return { questions: newQuestions };
+              // {{qN}} tokens are positional — keep them on the same questions
+              return { questions: remapPipingReferences(state.questions, newQuestions) };
             });
           },
 
@@ -354,7 +550,10 @@ export const useSurveyBuilderStore = create<FullBuilderStore>()(
             if (state.questions.length <= ids.length) return; // Must keep at least 1
             const idSet = new Set(ids);
             set((prev) => ({
-              questions: prev.questions.filter((q) => !idSet.has(q.id)),
+              questions: remapPipingReferences(
+                prev.questions,
+                prev.questions.filter((q) => !idSet.has(q.id))
+              ),
               isMultiSelectMode: false,
               selectedQuestionIds: [],
               expandedQuestionId: idSet.has(prev.expandedQuestionId ?? '')
@@ -383,7 +582,11 @@ export const useSurveyBuilderStore = create<FullBuilderStore>()(
                 text: `${original.text} (copy)`,
               });
             }
-            set({ questions: newQuestions, isMultiSelectMode: false, selectedQuestionIds: [] });
+            set({
+              questions: remapPipingReferences(state.questions, newQuestions),
+              isMultiSelectMode: false,
+              selectedQuestionIds: [],
+            });
             return newIds;
           },
 
@@ -420,7 +623,7 @@ export const useSurveyBuilderStore = create<FullBuilderStore>()(
           addOption: (questionId) => {
             set((state) => ({
               questions: state.questions.map((q) => {
-                if (q.id !== questionId || q.options.length >= 10) return q;
+                if (q.id !== questionId || q.options.length >= MAX_OPTIONS) return q;
                 return { ...q, options: [...q.options, `Option ${q.options.length + 1}`] };
               }),
             }));
@@ -430,7 +633,11 @@ export const useSurveyBuilderStore = create<FullBuilderStore>()(
             set((state) => ({
               questions: state.questions.map((q) => {
                 if (q.id !== questionId) return q;
-                return { ...q, options: q.options.filter((_, i) => i !== optionIndex) };
+                return {
+                  ...q,
+                  options: q.options.filter((_, i) => i !== optionIndex),
+                  translations: spliceTranslations(q.translations, 'options', optionIndex),
+                };
               }),
             }));
           },
@@ -446,6 +653,41 @@ export const useSurveyBuilderStore = create<FullBuilderStore>()(
             }));
           },
 
+          // ── Matrix Column Helpers ────────────────────────────────────
+          addMatrixColumn: (questionId) => {
+            set((state) => ({
+              questions: state.questions.map((q) => {
+                const columns = q.matrixColumns ?? [];
+                if (q.id !== questionId || columns.length >= MAX_MATRIX_COLUMNS) return q;
+                return { ...q, matrixColumns: [...columns, `Column ${columns.length + 1}`] };
+              }),
+            }));
+          },
+
+          removeMatrixColumn: (questionId, columnIndex) => {
+            set((state) => ({
+              questions: state.questions.map((q) => {
+                if (q.id !== questionId) return q;
+                return {
+                  ...q,
+                  matrixColumns: (q.matrixColumns ?? []).filter((_, i) => i !== columnIndex),
+                  translations: spliceTranslations(q.translations, 'matrixColumns', columnIndex),
+                };
+              }),
+            }));
+          },
+
+          updateMatrixColumn: (questionId, columnIndex, value) => {
+            set((state) => ({
+              questions: state.questions.map((q) => {
+                if (q.id !== questionId) return q;
+                const columns = [...(q.matrixColumns ?? [])];
+                columns[columnIndex] = value;
+                return { ...q, matrixColumns: columns };
+              }),
+            }));
+          },
+
           // ── Conditional Logic ────────────────────────────────────────
           setConditionalLogic: (questionId, config) => {
             set((state) => ({
@@ -464,6 +706,91 @@ export const useSurveyBuilderStore = create<FullBuilderStore>()(
             }));
           },
 
+          // ── Screener + Quotas ────────────────────────────────────────
+          setScreener: (questionId, config) => {
+            set((state) => ({
+              questions: state.questions.map((q) =>
+                q.id === questionId ? { ...q, screener: config } : q
+              ),
+            }));
+          },
+
+          // ── Languages ────────────────────────────────────────────────
+          setDefaultLanguage: (language) => {
+            // The written-in language can't also be a translation
+            get().removeSurveyLanguage(language);
+            set({ defaultLanguage: language });
+          },
+
+          addSurveyLanguage: (language) => {
+            set((state) =>
+              language === state.defaultLanguage || state.surveyLanguages.includes(language)
+                ? state
+                : { surveyLanguages: [...state.surveyLanguages, language] }
+            );
+          },
+
+          removeSurveyLanguage: (language) => {
+            set((state) => {
+              const { [language]: _, ...surveyTranslations } = state.surveyTranslations;
+              return {
+                surveyLanguages: state.surveyLanguages.filter((l) => l !== language),
+                surveyTranslations,
+                questions: state.questions.map((q) => {
+                  if (!q.translations?.[language]) return q;
+                  const { [language]: _, ...translations } = q.translations;
+                  return { ...q, translations };
+                }),
+              };
+            });
+          },
+
+          setSurveyTranslation: (language, updates) => {
+            set((state) => ({
+              surveyTranslations: {
+                ...state.surveyTranslations,
+                [language]: { ...(state.surveyTranslations[language] ?? { title: '' }), ...updates },
+              },
+            }));
+          },
+
+          setQuestionTranslation: (questionId, language, updates) => {
+            set((state) => ({
+              questions: state.questions.map((q) =>
+                q.id === questionId
+                  ? {
+                      ...q,
+                      translations: {
+                        ...q.translations,
+                        [language]: { text: '', ...q.translations?.[language], ...updates },
+                      },
+                    }
+                  : q
+              ),
+            }));
+          },
+
+          // ── Computed Variables ───────────────────────────────────────
+          addComputedVariable: (kind) => {
+            const variable = createDefaultVariable(kind, get().computedVariables);
+            set((state) => ({ computedVariables: [...state.computedVariables, variable] }));
+            return variable.id;
+          },
+
+          updateComputedVariable: (id, updates) => {
+            set((state) => ({
+              computedVariables: state.computedVariables.map((v) =>
+                v.id === id ? { ...v, ...updates } : v
+              ),
+            }));
+          },
+
+          removeComputedVariable: (id) => {
+            set((state) => ({
+              computedVariables: state.computedVariables.filter((v) => v.id !== id),
+            }));
+          },
+
           // ── UI ───────────────────────────────────────────────────────
           setExpandedQuestion: (id) => set({ expandedQuestionId: id }),
 
@@ -492,6 +819,7 @@ export const useSurveyBuilderStore = create<FullBuilderStore>()(
           // ── Reset ────────────────────────────────────────────────────
           resetBuilder: () => {
             questionCounter = 0;
+            variableCounter = 0;
             set({
               ...initialState,
               questions: [createDefaultQuestion({ id: 'q1' })],
@@ -524,7 +852,7 @@ export const useSurveyBuilderStore = create<FullBuilderStore>()(
       {
         name: 'survey-builder-storage',
         storage: createJSONStorage(() => AsyncStorage),
-        version: 2,
+        version: 4,
         migrate: (persistedState: unknown, version: number) =>
           sanitizePersistedBuilderState(persistedState, version),
         partialize: (state) => ({
@@ -535,6 +863,10 @@ export const useSurveyBuilderStore = create<FullBuilderStore>()(
           lastSavedAt: state.lastSavedAt,
           questions: state.questions,
           isScoringEnabled: state.isScoringEnabled,
+          computedVariables: state.computedVariables,
+          defaultLanguage: state.defaultLanguage,
+          surveyLanguages: state.surveyLanguages,
+          surveyTranslations: state.surveyTranslations,
           earnedBadges: state.earnedBadges,
         }),
       }
@@ -555,6 +887,10 @@ export const selectExpandedQuestionId = (state: SurveyBuilderState) => state.exp
 export const selectIsMultiSelectMode = (state: SurveyBuilderState) => state.isMultiSelectMode;
 export const selectSelectedQuestionIds = (state: SurveyBuilderState) => state.selectedQuestionIds;
 export const selectIsScoringEnabled = (state: SurveyBuilderState) => state.isScoringEnabled;
+export const selectComputedVariables = (state: SurveyBuilderState) => state.computedVariables;
+export const selectDefaultLanguage = (state: SurveyBuilderState) => state.defaultLanguage;
+export const selectSurveyLanguages = (state: SurveyBuilderState) => state.surveyLanguages;
+export const selectSurveyTranslations = (state: SurveyBuilderState) => state.surveyTranslations;
 export const selectEarnedBadges = (state: SurveyBuilderState) => state.earnedBadges;
 export const selectQuestionsCount = (state: SurveyBuilderState) => state.questions.length;
 export const selectCanUndo = (state: { canUndo: boolean }) => state.canUndo;
@@ -590,6 +926,9 @@ export const selectBuilderActions = (state: SurveyBuilderState & SurveyBuilderAc
   addOption: state.addOption,
   removeOption: state.removeOption,
   updateOption: state.updateOption,
+  addMatrixColumn: state.addMatrixColumn,
+  removeMatrixColumn: state.removeMatrixColumn,
+  updateMatrixColumn: state.updateMatrixColumn,
   loadQuestions: state.loadQuestions,
   setSurveyTitle: state.setSurveyTitle,
   setSurveyDescription: state.setSurveyDescription,
@@ -597,6 +936,9 @@ export const selectBuilderActions = (state: SurveyBuilderState & SurveyBuilderAc
   toggleMultiSelectMode: state.toggleMultiSelectMode,
   toggleQuestionSelection: state.toggleQuestionSelection,
   setScoringEnabled: state.setScoringEnabled,
+  addComputedVariable: state.addComputedVariable,
+  updateComputedVariable: state.updateComputedVariable,
+  removeComputedVariable: state.removeComputedVariable,
   resetBuilder: state.resetBuilder,
 });
 
@@ -15,6 +15,15 @@ import { persist, createJSONStorage, devtools } from 'zustand/middleware';
 import { useShallow } from 'zustand/react/shallow';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import type { SurveyResponse, Survey, UploadSurvey } from '../types';
+import {
+  isNpsScore,
+  matrixAnswerToRecord,
+  parseMatrixConfig,
+  summarizeNps,
+} from '../utils/surveyQuestionTypes';
+import type { ResponseSegment } from '../utils/crossTab';
+import { isFlagged, medianDuration, QUALITY_FLAG_LABELS, type ResponseQuality } from '../utils/responseQuality';
+import { canonicalizeAnswer } from '../utils/surveyTranslation';
 
 // ============================================================================
 // TYPES
@@ -27,6 +36,8 @@ export interface ResponseFilters {
   };
   respondentId?: string;
   completionStatus?: 'completed' | 'partial' | 'all';
+  /** Responses without a quality score count as clean */
+  quality?: 'clean' | 'flagged';
   searchQuery?: string;
 }
 
@@ -45,12 +56,22 @@ export interface QuestionAggregate {
   min?: number;
   max?: number;
   average?: number;
+  /** NPS: % promoters (9–10) − % detractors (0–6) */
+  npsScore?: number;
+  promoters?: number;
+  passives?: number;
+  detractors?: number;
+  /** Ranking: item → mean position (1 = most preferred), best first */
+  meanRanks?: Record<string, number>;
+  /** Matrix: row → column → count, every row and column present */
+  rowDistributions?: Record<string, Record<string, number>>;
 }
 
 export interface SurveyAnalytics {
   surveyId: string;
   totalResponses: number;
   completionRate: number;
+  /** Median seconds from open to submit; 0 when no response reported a start */
   averageCompletionTime: number;
   responsesByDay: { date: string; count: number }[];
   questionAggregates: QuestionAggregate[];
@@ -64,16 +85,40 @@ export interface ParsedResponse {
   createdAt: string;
   responses: Record<string, unknown>;
   isComplete: boolean;
+  /** Seconds from open to submit; null when the client didn't report a start */
+  durationSeconds?: number | null;
+  /** Language a multilingual survey was answered in */
+  language?: string | null;
+  /** Survey version answered; null before versioning (version 1) */
+  surveyVersion?: number | null;
+  /** Set by annotateQuality (utils/responseQuality.ts) */
+  quality?: ResponseQuality;
 }
 
+export type ResponseViewMode = 'summary' | 'questions' | 'compare' | 'individual';
+
 // Client-only UI state
 export interface SurveyResponseUIState {
   // View preferences (persisted)
-  viewMode: 'summary' | 'questions' | 'individual';
+  viewMode: ResponseViewMode;
   pageSize: number;
+  /** Segments the owner saved, across all their surveys (persisted) */
+  savedSegments: ResponseSegment[];
   
   // Filters (session)
   filters: ResponseFilters;
+  /**
+   * Segment applied to every chart, the individual view and exports. Kept out
+   * of `filters` because those key the responses query — a segment is applied
+   * client-side and must not refetch.
+   */
+  activeSegment: ResponseSegment | null;
+  /**
+   * One survey version to analyse on its own; null merges every version,
+   * keeping older answers whose question is unchanged in shape
+   * (utils/surveyVersioning.ts). Like a segment, applied client-side.
+   */
+  versionScope: { surveyId: string; version: number } | null;
   
   // UI state (session)
   currentResponseIndex: number;
@@ -86,7 +131,7 @@ export interface SurveyResponseUIState {
 
 export interface SurveyResponseUIActions {
   // View management
-  setViewMode: (mode: 'summary' | 'questions' | 'individual') => void;
+  setViewMode: (mode: ResponseViewMode) => void;
   setPageSize: (size: number) => void;
   
   // Response navigation
@@ -103,6 +148,14 @@ export interface SurveyResponseUIActions {
   clearFilters: () => void;
   setSearchQuery: (query: string) => void;
   
+  // Segments
+  setActiveSegment: (segment: ResponseSegment | null) => void;
+  saveSegment: (segment: ResponseSegment) => void;
+  deleteSegment: (segmentId: string) => void;
+  
+  // Versions
+  setVersionScope: (scope: { surveyId: string; version: number } | null) => void;
+  
   // Sync tracking
   updateLastSync: () => void;
   
@@ -117,7 +170,10 @@ export interface SurveyResponseUIActions {
 const initialState: SurveyResponseUIState = {
   viewMode: 'summary',
   pageSize: 20,
+  savedSegments: [],
   filters: {},
+  activeSegment: null,
+  versionScope: null,
   currentResponseIndex: 0,
   expandedQuestionId: null,
   searchQuery: '',
@@ -144,6 +200,10 @@ export const parseResponseData = (response: SurveyResponse): ParsedResponse => {
     parsedResponses = {};
   }
   
+  const duration = response.startedAt && response.completedAt
+    ? (new Date(response.completedAt).getTime() - new Date(response.startedAt).getTime()) / 1000
+    : NaN;
+  
   return {
     userId: response.userId,
     userEmail: response.user?.email,
@@ -151,14 +211,29 @@ export const parseResponseData = (response: SurveyResponse): ParsedResponse => {
     createdAt: response.createdAt,
     responses: parsedResponses,
     isComplete: Object.keys(parsedResponses).length > 0,
+    durationSeconds: Number.isFinite(duration) && duration >= 0 ? duration : null,
+    language: response.language ?? null,
+    surveyVersion: response.surveyVersion ?? null,
   };
 };
 
 /**
- * Parse multiple responses
+ * Parse multiple responses. With the survey's questions, answers given as a
+ * translated label are folded back onto the source label so every language
+ * counts towards the same option.
  */
-export const parseResponses = (responses: SurveyResponse[]): ParsedResponse[] => {
-  return responses.map(parseResponseData);
+export const parseResponses = (responses: SurveyResponse[], questions: UploadSurvey[] = []): ParsedResponse[] => {
+  const translated = questions.filter((q) => q.translations && Object.keys(q.translations).length > 0);
+  const parsed = responses.map(parseResponseData);
+  if (translated.length === 0) return parsed;
+
+  return parsed.map((response) => {
+    const answers = { ...response.responses };
+    for (const question of translated) {
+      if (question.id in answers) answers[question.id] = canonicalizeAnswer(question, answers[question.id]);
+    }
+    return { ...response, responses: answers };
+  });
 };
 
 /**
@@ -192,6 +267,11 @@ export const filterResponses = (
     );
   }
   
+  // Quality filter (clean = no flags, so unscored responses stay in)
+  if (filters.quality) {
+    filtered = filtered.filter((r) => (filters.quality === 'flagged' ? isFlagged(r) : !isFlagged(r)));
+  }
+  
   // Search query filter
   if (filters.searchQuery) {
     const query = filters.searchQuery.toLowerCase();
@@ -206,6 +286,19 @@ export const filterResponses = (
   return filtered;
 };
 
+/**
+ * Plain string list from a question's serialized options (ranking items,
+ * choice options). Non-array JSON yields [].
+ */
+const parseOptionList = (options: string | null | undefined): string[] => {
+  try {
+    const parsed = JSON.parse(options || '[]');
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+};
+
 /**
  * Compute question aggregate from responses
  */
@@ -262,6 +355,67 @@ export const computeQuestionAggregate = (
       break;
     }
     
+    case 'nps': {
+      const scores = answers.filter(isNpsScore);
+      aggregate.ratingDistribution = Array(11).fill(0);
+      scores.forEach((score) => {
+        aggregate.ratingDistribution![score]++;
+        aggregate.answerDistribution[String(score)] = (aggregate.answerDistribution[String(score)] || 0) + 1;
+      });
+      const summary = summarizeNps(scores);
+      aggregate.npsScore = summary.score;
+      aggregate.promoters = summary.promoters;
+      aggregate.passives = summary.passives;
+      aggregate.detractors = summary.detractors;
+      if (scores.length > 0) {
+        aggregate.average = scores.reduce((sum, s) => sum + s, 0) / scores.length;
+      }
+      break;
+    }
+
+    case 'ranking': {
+      const items = parseOptionList(question.options);
+      const positionTotals: Record<string, { sum: number; count: number }> = {};
+      answers.forEach((answer) => {
+        if (!Array.isArray(answer)) return;
+        answer.forEach((item, index) => {
+          const key = String(item);
+          const totals = positionTotals[key] ?? (positionTotals[key] = { sum: 0, count: 0 });
+          totals.sum += index + 1;
+          totals.count++;
+        });
+        // answerDistribution counts first-place picks
+        if (answer.length > 0) {
+          const first = String(answer[0]);
+          aggregate.answerDistribution[first] = (aggregate.answerDistribution[first] || 0) + 1;
+        }
+      });
+      const ranked = (items.length > 0 ? items : Object.keys(positionTotals))
+        .filter((item) => positionTotals[item])
+        .map((item) => [item, positionTotals[item].sum / positionTotals[item].count] as const)
+        .sort((a, b) => a[1] - b[1]);
+      aggregate.meanRanks = Object.fromEntries(ranked);
+      break;
+    }
+
+    case 'matrix': {
+      const { rows, columns } = parseMatrixConfig(question.options);
+      const rowDistributions: Record<string, Record<string, number>> = {};
+      rows.forEach((row) => {
+        rowDistributions[row] = Object.fromEntries(columns.map((column) => [column, 0]));
+      });
+      answers.forEach((answer) => {
+        Object.entries(matrixAnswerToRecord(answer, rows)).forEach(([row, column]) => {
+          if (!Object.prototype.hasOwnProperty.call(rowDistributions[row], column)) return; // stale column label
+          rowDistributions[row][column]++;
+          // answerDistribution totals each column across all rows
+          aggregate.answerDistribution[column] = (aggregate.answerDistribution[column] || 0) + 1;
+        });
+      });
+      aggregate.rowDistributions = rowDistributions;
+      break;
+    }
+
     case 'boolean': {
       let yesCount = 0;
       let noCount = 0;
@@ -352,7 +506,7 @@ export const computeAnalytics = (
     surveyId: survey.id,
     totalResponses: parsedResponses.length,
     completionRate: (completedResponses.length / maxResponses) * 100,
-    averageCompletionTime: 120, // Placeholder
+    averageCompletionTime: Math.round(medianDuration(parsedResponses.map((r) => r.durationSeconds)) ?? 0),
     responsesByDay,
     questionAggregates,
     lastResponseAt: parsedResponses.length > 0
@@ -363,6 +517,43 @@ export const computeAnalytics = (
   };
 };
 
+interface ExportColumn {
+  header: string;
+  cell: (answer: unknown) => string;
+}
+
+/**
+ * CSV columns for one question. A matrix spreads into one column per row
+ * (holding the chosen column) and a ranking into one column per item (holding
+ * its position), so each cell is a single analysable value.
+ */
+const getExportColumns = (question: UploadSurvey): ExportColumn[] => {
+  const type = question.type.toLowerCase();
+  if (type === 'matrix') {
+    return parseMatrixConfig(question.options).rows.map((row, i) => ({
+      header: `${question.text} [${row}]`,
+      cell: (answer) => (Array.isArray(answer) && typeof answer[i] === 'string' ? answer[i] : ''),
+    }));
+  }
+  if (type === 'ranking') {
+    return parseOptionList(question.options).map((item) => ({
+      header: `${question.text} [${item}]`,
+      cell: (answer) => {
+        const position = Array.isArray(answer) ? answer.indexOf(item) : -1;
+        return position === -1 ? '' : String(position + 1);
+      },
+    }));
+  }
+  return [{
+    header: question.text,
+    cell: (answer) => {
+      if (Array.isArray(answer)) return answer.join('; ');
+      // `??` keeps a 0 (an NPS detractor) instead of blanking it
+      return String(answer ?? '');
+    },
+  }];
+};
+
 /**
  * Export responses to CSV
  */
@@ -373,20 +564,21 @@ export const exportToCSV = (
 ): string => {
   if (!survey || parsedResponses.length === 0) return '';
   
+  const columns = questions.map((q) => ({ id: q.id, columns: getExportColumns(q) }));
+  // Only scored exports carry the column — an empty one would read as "all clean"
+  const scored = parsedResponses.some((r) => r.quality);
   const headers = [
     'Timestamp',
     'Respondent',
-    ...questions.map((q) => q.text),
+    ...(scored ? ['Quality flags'] : []),
+    ...columns.flatMap((q) => q.columns.map((c) => c.header)),
   ];
   
   const rows = parsedResponses.map((r) => [
     r.createdAt,
     r.userEmail || r.userId,
-    ...questions.map((q) => {
-      const answer = r.responses[q.id];
-      if (Array.isArray(answer)) return answer.join('; ');
-      return String(answer || '');
-    }),
+    ...(scored ? [(r.quality?.flags ?? []).map((f) => QUALITY_FLAG_LABELS[f]).join('; ')] : []),
+    ...columns.flatMap((q) => q.columns.map((c) => c.cell(r.responses[q.id]))),
   ]);
   
   const csvContent = [
@@ -397,6 +589,23 @@ export const exportToCSV = (
   return csvContent;
 };
 
+/**
+ * Matrix answers are stored row-aligned; the JSON export keys them by row
+ * label instead so the file reads without the question definition.
+ */
+const toExportAnswers = (
+  questions: UploadSurvey[],
+  responses: Record<string, unknown>
+): Record<string, unknown> => {
+  const answers = { ...responses };
+  questions.forEach((q) => {
+    if (q.type.toLowerCase() === 'matrix' && Array.isArray(answers[q.id])) {
+      answers[q.id] = matrixAnswerToRecord(answers[q.id], parseMatrixConfig(q.options).rows);
+    }
+  });
+  return answers;
+};
+
 /**
  * Export responses to JSON
  */
@@ -411,15 +620,21 @@ export const exportToJSON = (
       title: survey?.title,
       description: survey?.description,
     },
-    questions: questions.map((q) => ({
-      id: q.id,
-      text: q.text,
-      type: q.type,
-    })),
+    questions: questions.map((q) => {
+      const type = q.type.toLowerCase();
+      return {
+        id: q.id,
+        text: q.text,
+        type: q.type,
+        ...(type === 'matrix' ? parseMatrixConfig(q.options) : {}),
+        ...(type === 'ranking' ? { items: parseOptionList(q.options) } : {}),
+      };
+    }),
     responses: parsedResponses.map((r) => ({
       timestamp: r.createdAt,
       respondent: r.userEmail || r.userId,
-      answers: r.responses,
+      ...(r.quality ? { quality: r.quality } : {}),
+      answers: toExportAnswers(questions, r.responses),
     })),
     exportedAt: new Date().toISOString(),
   };
@@ -651,6 +866,27 @@ export const useSurveyResponseUIStore = create<SurveyResponseUIState & SurveyRes
         }));
       },
       
+      // Segments
+      setActiveSegment: (activeSegment) => set({ activeSegment, currentResponseIndex: 0 }),
+
+      saveSegment: (segment) => {
+        set((state) => ({
+          savedSegments: state.savedSegments.some((s) => s.id === segment.id)
+            ? state.savedSegments.map((s) => (s.id === segment.id ? segment : s))
+            : [...state.savedSegments, segment],
+        }));
+      },
+
+      deleteSegment: (segmentId) => {
+        set((state) => ({
+          savedSegments: state.savedSegments.filter((s) => s.id !== segmentId),
+          activeSegment: state.activeSegment?.id === segmentId ? null : state.activeSegment,
+        }));
+      },
+      
+      // Versions
+      setVersionScope: (versionScope) => set({ versionScope, currentResponseIndex: 0 }),
+      
       // Sync tracking
       updateLastSync: () => set({ lastSyncedAt: new Date().toISOString() }),
       
@@ -664,6 +900,7 @@ export const useSurveyResponseUIStore = create<SurveyResponseUIState & SurveyRes
         // Only persist view preferences
         viewMode: state.viewMode,
         pageSize: state.pageSize,
+        savedSegments: state.savedSegments,
       }),
     }
   ),
@@ -684,6 +921,9 @@ export const selectHasFilters = (state: SurveyResponseUIState) =>
   Object.keys(state.filters).length > 0;
 export const selectPageSize = (state: SurveyResponseUIState) => state.pageSize;
 export const selectLastSyncedAt = (state: SurveyResponseUIState) => state.lastSyncedAt;
+export const selectActiveSegment = (state: SurveyResponseUIState) => state.activeSegment;
+export const selectVersionScope = (state: SurveyResponseUIState) => state.versionScope;
+export const selectSavedSegments = (state: SurveyResponseUIState) => state.savedSegments;
 
 // ============================================================================
 // Object Selectors — use with useShallow to prevent re-renders
@@ -0,0 +1,141 @@
+/**
+ * SurveySubmissionQueueStore — persisted offline queue for completed survey attempts.
+ *
+ * A respondent on a dropped connection shouldn't lose a finished survey. The attempt screen
+ * queues the answers here instead, and `useSurveySubmissionQueueProcessor` submits them when
+ * connectivity returns. Each submission carries the idempotency key generated for the attempt,
+ * so a replay whose first response was lost returns the original result instead of a 409.
+ *
+ * Files picked for `file_upload` questions while offline are staged on disk (see
+ * utils/surveyFileStaging.ts) and referenced from the answers as `staged-file:<id>`; the
+ * processor uploads them and swaps in the real file id before submitting.
+ */
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+export interface QueuedSurveySubmission {
+  /** Sent with every replay — the server returns the first result for a repeated key */
+  idempotencyKey: string;
+  userId: string;
+  surveyId: string;
+  /** For toasts — the survey may not be cached when the replay happens */
+  surveyTitle: string;
+  responses: Record<string, unknown>;
+  startedAt?: string;
+  /** Translation the survey was answered in (multilingual surveys only) */
+  language?: string;
+  /** Published version the questions were loaded from — a replay may land after the next edit */
+  surveyVersion?: number;
+  queuedAt: number;
+  retryCount: number;
+  lastError: string | null;
+}
+
+export interface StagedSurveyFile {
+  id: string;
+  surveyId: string;
+  questionId: string;
+  /** Local copy under documentDirectory — survives restarts */
+  uri: string;
+  fileName: string;
+  mimeType: string;
+  size?: number;
+  stagedAt: number;
+}
+
+export const STAGED_FILE_PREFIX = 'staged-file:';
+
+/** The answer stored for a file_upload question until its staged file is uploaded */
+export const toStagedFileAnswer = (stagedId: string): string => `${STAGED_FILE_PREFIX}${stagedId}`;
+
+export function getStagedFileId(answer: unknown): string | null {
+  return typeof answer === 'string' && answer.startsWith(STAGED_FILE_PREFIX)
+    ? answer.slice(STAGED_FILE_PREFIX.length)
+    : null;
+}
+
+/** Idempotency key for one survey attempt (the server accepts 8–100 word characters or dashes) */
+export function generateSubmissionKey(): string {
+  const c = (globalThis as { crypto?: { randomUUID?: () => string } }).crypto;
+  if (typeof c?.randomUUID === 'function') return c.randomUUID();
+  return `sub-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+interface SurveySubmissionQueueState {
+  pending: QueuedSurveySubmission[];
+  stagedFiles: Record<string, StagedSurveyFile>;
+  /** One queued attempt per user and survey — a second enqueue is ignored */
+  enqueue: (submission: Omit<QueuedSurveySubmission, 'queuedAt' | 'retryCount' | 'lastError'>) => void;
+  remove: (idempotencyKey: string) => void;
+  recordFailure: (idempotencyKey: string, error: string) => void;
+  stageFile: (file: StagedSurveyFile) => void;
+  /** Swap a queued `staged-file:<id>` answer for the uploaded file id and forget the staged file */
+  resolveStagedFile: (idempotencyKey: string, stagedId: string, fileId: string) => void;
+  unstageFile: (stagedId: string) => void;
+  clear: () => void;
+}
+
+export const useSurveySubmissionQueueStore = create<SurveySubmissionQueueState>()(
+  persist(
+    (set, get) => ({
+      pending: [],
+      stagedFiles: {},
+
+      enqueue: (submission) => {
+        const pending = get().pending;
+        if (pending.some((s) => s.userId === submission.userId && s.surveyId === submission.surveyId)) return;
+        set({ pending: [...pending, { ...submission, queuedAt: Date.now(), retryCount: 0, lastError: null }] });
+      },
+
+      remove: (idempotencyKey) =>
+        set({ pending: get().pending.filter((s) => s.idempotencyKey !== idempotencyKey) }),
+
+      recordFailure: (idempotencyKey, error) =>
+        set({
+          pending: get().pending.map((s) =>
+            s.idempotencyKey === idempotencyKey ? { ...s, retryCount: s.retryCount + 1, lastError: error } : s
+          ),
+        }),
+
+      stageFile: (file) => set({ stagedFiles: { ...get().stagedFiles, [file.id]: file } }),
+
+      resolveStagedFile: (idempotencyKey, stagedId, fileId) => {
+        const stagedAnswer = toStagedFileAnswer(stagedId);
+        const { [stagedId]: _, ...stagedFiles } = get().stagedFiles;
+        set({
+          stagedFiles,
+          pending: get().pending.map((s) =>
+            s.idempotencyKey === idempotencyKey
+              ? {
+                  ...s,
+                  responses: Object.fromEntries(
+                    Object.entries(s.responses).map(([questionId, answer]) => [
+                      questionId,
+                      answer === stagedAnswer ? fileId : answer,
+                    ])
+                  ),
+                }
+              : s
+          ),
+        });
+      },
+
+      unstageFile: (stagedId) => {
+        const { [stagedId]: _, ...stagedFiles } = get().stagedFiles;
+        set({ stagedFiles });
+      },
+
+      clear: () => set({ pending: [], stagedFiles: {} }),
+    }),
+    { name: 'survey-submission-queue', storage: createJSONStorage(() => AsyncStorage) }
+  )
+);
+
+// ============================================================================
+// SELECTORS
+// ============================================================================
+
+export const selectIsSurveyPendingSync =
+  (surveyId: string, userId: string | null | undefined) => (state: SurveySubmissionQueueState) =>
+    !!userId && state.pending.some((s) => s.surveyId === surveyId && s.userId === userId);
@@ -21,6 +21,9 @@ import {
   MAX_LIVESTREAM_DURATION_PREMIUM,
   formatFileSize,
 } from '@/utils/video-utils';
+import type { VideoQuality } from '@/utils/videoRendition';
+import { mergeHistoryEntries, recordProgress } from '@/utils/watchHistory';
+import type { MultipartUploadSession } from '@/services/r2UploadService';
 
 // ============================================================================
 // CONSTANTS — re-exported from video-utils (single source of truth)
@@ -112,7 +115,12 @@ export interface VideoPlayerState {
   duration: number;
   isFullscreen: boolean;
   playbackSpeed: number;
-  quality: 'auto' | '1080p' | '720p' | '480p' | '360p';
+  /** Quality-menu pick, persisted — 'auto' picks from network + data saver (utils/videoRendition) */
+  quality: VideoQuality;
+  /** CC toggle, persisted — captions show whenever the video has a track */
+  captionsEnabled: boolean;
+  /** Last caption language picked, persisted — null: the video's first track */
+  captionLanguage: string | null;
 }
 
 /** Pending upload entry — persisted for retry on reconnect */
@@ -133,12 +141,26 @@ export interface PendingUpload {
    * to the idempotent finalize endpoint instead of re-uploading the file.
    */
   finalizePayload?: Record<string, unknown>;
+  /** Original file name / type / size — needed to resume a multipart upload */
+  fileName?: string;
+  mimeType?: string;
+  fileSize?: number;
+  /** Ended livestream the video is the replay of */
+  livestreamSessionId?: string;
+  /**
+   * Large videos only: the R2 multipart upload and the parts it has
+   * confirmed, so a retry (even after an app restart) resumes from the last
+   * confirmed part instead of byte zero.
+   */
+  multipart?: MultipartUploadSession;
 }
 
-/** Watch history entry */
+/** Watch history entry — where the viewer left off (utils/watchHistory) */
 export interface WatchHistoryEntry {
   videoId: string;
   watchedAt: string;
+  /** Playhead when last recorded — playback resumes here */
+  positionSeconds: number;
   progressPercent: number;
   duration: number;
 }
@@ -167,6 +189,10 @@ export interface VideoState {
 
   // Watch history
   watchHistory: WatchHistoryEntry[];
+  /** Recording paused — the players stop saving progress (mirrors the account setting) */
+  watchHistoryPaused: boolean;
+  /** Videos whose progress changed since the last sync (useWatchHistorySync) */
+  pendingHistorySync: string[];
 
   // Video queue for auto-play
   videoQueue: string[];
@@ -181,6 +207,8 @@ export interface VideoState {
   
   // Pending uploads (persisted for retry)
   pendingUploads: PendingUpload[];
+  /** Pending uploads someone is working on right now — not persisted */
+  claimedUploadIds: string[];
 
   // Error handling
   lastError: string | null;
@@ -238,10 +266,19 @@ export interface VideoActions {
   setProgress: (progress: number) => void;
   setPlaybackSpeed: (speed: number) => void;
   setQuality: (quality: VideoPlayerState['quality']) => void;
+  /** Turn captions on in `language` (null: off) */
+  setCaptions: (language: string | null) => void;
 
   // Watch history
-  addToWatchHistory: (videoId: string, duration: number, progressPercent?: number) => void;
+  /** Record the playhead for `videoId` (ignored while history is paused) */
+  addToWatchHistory: (videoId: string, positionSeconds: number, duration: number) => void;
+  removeFromWatchHistory: (videoId: string) => void;
   clearWatchHistory: () => void;
+  setWatchHistoryPaused: (paused: boolean) => void;
+  /** Merge in the server's entries — local progress that is newer stays */
+  mergeWatchHistory: (entries: Parameters<typeof mergeHistoryEntries>[1]) => void;
+  /** Drop synced entries from the pending list unless they changed during the upload */
+  markHistorySynced: (synced: { videoId: string; watchedAt: string }[]) => void;
   getRecentlyWatched: (limit?: number) => WatchHistoryEntry[];
 
   // Video queue
@@ -257,9 +294,17 @@ export interface VideoActions {
   validateLivestreamDuration: (seconds: number) => { valid: boolean; warning?: string; limitReached: boolean };
   
   // Pending upload queue
-  enqueuePendingUpload: (upload: Omit<PendingUpload, 'id' | 'retryCount' | 'createdAt'>) => void;
+  /** Returns the new entry's id */
+  enqueuePendingUpload: (upload: Omit<PendingUpload, 'id' | 'retryCount' | 'createdAt'>) => string;
+  updatePendingUpload: (id: string, changes: Partial<Omit<PendingUpload, 'id'>>) => void;
   removePendingUpload: (id: string) => void;
   incrementUploadRetry: (id: string, error?: string) => void;
+  /**
+   * Take a pending upload so the upload modal and the reconnect queue never
+   * push the same file at once. False if someone else holds it.
+   */
+  claimPendingUpload: (id: string) => boolean;
+  releasePendingUpload: (id: string) => void;
 
   // Error handling
   setError: (error: string | null) => void;
@@ -282,6 +327,8 @@ const initialPlayerState: VideoPlayerState = {
   isFullscreen: false,
   playbackSpeed: 1,
   quality: 'auto',
+  captionsEnabled: false,
+  captionLanguage: null,
 };
 
 const initialTrendingSliderState: TrendingSliderState = {
@@ -306,8 +353,11 @@ const initialState: VideoState = {
   trendingSlider: initialTrendingSliderState,
   player: initialPlayerState,
   watchHistory: [],
+  watchHistoryPaused: false,
+  pendingHistorySync: [],
   videoQueue: [],
   pendingUploads: [],
+  claimedUploadIds: [],
   activeWarning: null,
   showUpgradePrompt: false,
   isUploadModalVisible: false,
@@ -653,35 +703,57 @@ export const useVideoStore = create<VideoState & VideoActions>()(
         player: { ...state.player, quality },
       })),
 
+      // Turning captions off keeps the language, so CC back on returns to it
+      setCaptions: (language) => set((state) => ({
+        player: {
+          ...state.player,
+          captionsEnabled: language !== null,
+          captionLanguage: language ?? state.player.captionLanguage,
+        },
+      })),
+
       // Watch history
-      addToWatchHistory: (videoId, duration, progressPercent = 0) => {
-        const { watchHistory } = get();
-        const existingIndex = watchHistory.findIndex(h => h.videoId === videoId);
+      addToWatchHistory: (videoId, positionSeconds, duration) => {
+        const { watchHistory, watchHistoryPaused, pendingHistorySync } = get();
+        if (watchHistoryPaused || !(duration > 0)) return;
 
-        const entry: WatchHistoryEntry = {
-          videoId,
-          watchedAt: new Date().toISOString(),
-          progressPercent,
-          duration,
-        };
+        set({
+          watchHistory: recordProgress(watchHistory, videoId, positionSeconds, duration),
+          pendingHistorySync: pendingHistorySync.includes(videoId)
+            ? pendingHistorySync
+            : [...pendingHistorySync, videoId],
+        });
+      },
 
-        let newHistory: WatchHistoryEntry[];
-        if (existingIndex >= 0) {
-          // Update existing entry and move to front
-          newHistory = [
-            entry,
-            ...watchHistory.filter((_, i) => i !== existingIndex),
-          ];
-        } else {
-          // Add new entry to front
-          newHistory = [entry, ...watchHistory];
-        }
+      removeFromWatchHistory: (videoId) => set((state) => ({
+        watchHistory: state.watchHistory.filter(h => h.videoId !== videoId),
+        pendingHistorySync: state.pendingHistorySync.filter(id => id !== videoId),
+      })),
 
-        // Keep only last 100 entries
-        set({ watchHistory: newHistory.slice(0, 100) });
-      },
+      clearWatchHistory: () => set({ watchHistory: [], pendingHistorySync: [] }),
+
+      // The server ignores syncs while paused, so nothing pending is kept either
+      setWatchHistoryPaused: (paused) => set((state) => ({
+        watchHistoryPaused: paused,
+        pendingHistorySync: paused ? [] : state.pendingHistorySync,
+      })),
 
-      clearWatchHistory: () => set({ watchHistory: [] }),
+      mergeWatchHistory: (entries) => set((state) => ({
+        watchHistory: mergeHistoryEntries(state.watchHistory, entries),
+      })),
+
+      markHistorySynced: (synced) => {
+        const { watchHistory, pendingHistorySync } = get();
+        const uploaded = new Map(synced.map(e => [e.videoId, e.watchedAt]));
+        set({
+          pendingHistorySync: pendingHistorySync.filter((id) => {
+            const entry = watchHistory.find(h => h.videoId === id);
+            if (!entry) return false; // Fell off the end of the list
+            // Watched again while the batch was in flight — sync that too
+            return !uploaded.has(id) || entry.watchedAt !== uploaded.get(id);
+          }),
+        });
+      },
 
       getRecentlyWatched: (limit = 10) => {
         const { watchHistory } = get();
@@ -806,10 +878,20 @@ export const useVideoStore = create<VideoState & VideoActions>()(
           createdAt: new Date().toISOString(),
         };
         set({ pendingUploads: [...get().pendingUploads, entry] });
+        return entry.id;
+      },
+
+      updatePendingUpload: (id, changes) => {
+        set({
+          pendingUploads: get().pendingUploads.map(u => (u.id === id ? { ...u, ...changes } : u)),
+        });
       },
 
       removePendingUpload: (id) => {
-        set({ pendingUploads: get().pendingUploads.filter(u => u.id !== id) });
+        set({
+          pendingUploads: get().pendingUploads.filter(u => u.id !== id),
+          claimedUploadIds: get().claimedUploadIds.filter(claimed => claimed !== id),
+        });
       },
 
       incrementUploadRetry: (id, error) => {
@@ -820,6 +902,17 @@ export const useVideoStore = create<VideoState & VideoActions>()(
         });
       },
 
+      claimPendingUpload: (id) => {
+        const { claimedUploadIds } = get();
+        if (claimedUploadIds.includes(id)) return false;
+        set({ claimedUploadIds: [...claimedUploadIds, id] });
+        return true;
+      },
+
+      releasePendingUpload: (id) => {
+        set({ claimedUploadIds: get().claimedUploadIds.filter(claimed => claimed !== id) });
+      },
+
       // Error handling
       setError: (error) => set({ lastError: error }),
       clearError: () => set({ lastError: null }),
@@ -836,8 +929,17 @@ export const useVideoStore = create<VideoState & VideoActions>()(
         uploadHistory: state.uploadHistory.slice(-10), // Keep last 10
         recordingHistory: state.recordingHistory.slice(-10),
         livestreamHistory: state.livestreamHistory.slice(-10),
-        watchHistory: state.watchHistory.slice(-50), // Keep last 50
+        watchHistory: state.watchHistory.slice(0, 50), // Newest 50
+        watchHistoryPaused: state.watchHistoryPaused,
+        pendingHistorySync: state.pendingHistorySync,
         pendingUploads: state.pendingUploads, // Persist for retry on reconnect
+        // Only the quality pick and caption preference
+        player: {
+          ...initialPlayerState,
+          quality: state.player.quality,
+          captionsEnabled: state.player.captionsEnabled,
+          captionLanguage: state.player.captionLanguage,
+        },
       }),
     }
   ),
@@ -882,10 +984,14 @@ export const selectPlayer = (state: VideoState) => state.player;
 export const selectCurrentVideoId = (state: VideoState) => state.player.currentVideoId;
 export const selectIsPlaying = (state: VideoState) => state.player.isPlaying;
 export const selectIsMuted = (state: VideoState) => state.player.isMuted;
+export const selectVideoQuality = (state: VideoState) => state.player.quality;
+export const selectCaptionsEnabled = (state: VideoState) => state.player.captionsEnabled;
+export const selectCaptionLanguage = (state: VideoState) => state.player.captionLanguage;
 
 // Watch history selectors
 export const selectWatchHistory = (state: VideoState) => state.watchHistory;
 export const selectRecentlyWatched = (state: VideoState) => state.watchHistory.slice(0, 10);
+export const selectWatchHistoryPaused = (state: VideoState) => state.watchHistoryPaused;
 
 // Video queue selectors
 export const selectVideoQueue = (state: VideoState) => state.videoQueue;
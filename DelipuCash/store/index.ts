@@ -45,6 +45,7 @@ export {
   selectCurrentModalAd,
   selectCreativeExposureCounts,
   selectCrossSessionExposure,
+  selectTopicCounts,
 } from './AdUIStore';
 
 // ============================================================================
@@ -93,6 +94,7 @@ export {
 } from './SurveyResponseUIStore';
 export type {
   ResponseFilters,
+  ResponseViewMode,
   QuestionAggregate,
   SurveyAnalytics,
   ParsedResponse,
@@ -110,6 +112,8 @@ export {
   selectHasFilters,
   selectPageSize,
   selectLastSyncedAt,
+  selectActiveSegment,
+  selectSavedSegments,
   // Object selectors (use with useShallow)
   selectResponseNavigation,
   selectFilterState,
@@ -405,6 +409,7 @@ export {
   // Selectors — Watch History & Queue
   selectWatchHistory,
   selectRecentlyWatched,
+  selectWatchHistoryPaused,
   selectVideoQueue,
   selectQueueLength,
   // NOTE: liked-video selectors live ONLY in VideoFeedStore now (the old
@@ -527,6 +532,22 @@ export type {
   HiddenContentActions,
 } from './HiddenContentStore';
 
+// ============================================================================
+// Offline Download Store — Premium downloads: queue, files and expiry
+// ============================================================================
+export {
+  useOfflineDownloadStore,
+  selectOfflineDownloads,
+  selectOfflineDownload,
+  selectEnqueueDownload,
+  selectRemoveDownload,
+} from './OfflineDownloadStore';
+export type {
+  OfflineDownload,
+  OfflineDownloadStatus,
+  OfflineVideoSnapshot,
+} from './OfflineDownloadStore';
+
 // ============================================================================
 // SSE Connection Store — Real-time event connection state
 // ============================================================================
@@ -564,16 +585,20 @@ export {
 } from './TransactionUIStore';
 
 // ============================================================================
-// App Settings Store — Quick settings preferences (theme, notifications, data saver, haptics)
+// App Settings Store — Quick settings preferences (theme, notifications, data saver, haptics, downloads)
 // ============================================================================
 export {
   useAppSettingsStore,
   selectPushNotificationsEnabled,
   selectDataSaverEnabled,
   selectHapticFeedbackEnabled,
+  selectDownloadWifiOnly,
+  selectDownloadStorageCapBytes,
   selectTogglePushNotifications,
   selectToggleDataSaver,
   selectToggleHapticFeedback,
+  selectToggleDownloadWifiOnly,
+  selectSetDownloadStorageCap,
   selectResetSettings,
 } from './AppSettingsStore';
 
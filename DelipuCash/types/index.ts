@@ -57,6 +57,7 @@ export enum NotificationType {
   ACHIEVEMENT = "ACHIEVEMENT",
   REFERRAL_BONUS = "REFERRAL_BONUS",
   WELCOME = "WELCOME",
+  MENTION = "MENTION",
 }
 
 export enum NotificationPriority {
@@ -130,13 +131,327 @@ export interface Video {
   sponsorName?: string;
   ctaUrl?: string;
   ctaText?: string;
+  /** The ad's creative-test variant this entry shows (Ad.variantId) */
+  adVariantId?: string;
   // 2026: Personalization & discoverability metadata
   recommendationReason?: string;
   trendingReason?: string;
   topicTags?: string[];
   isFollowing?: boolean;
+  // Adaptive HLS ladder — null until transcoded; playback falls back to videoUrl
+  hls?: VideoHls | null;
+  // Languages with ready captions — cues load on demand (useVideoCaptions)
+  captionLanguages?: string[];
+  // Set when this video is an ended livestream — its chat replays with it
+  replay?: VideoReplay | null;
+  // Set when this video is part of a creator's series — "Part 2 of 5"
+  series?: VideoSeriesInfo | null;
 }
 
+/** An ended livestream's replay (server/lib/livestreamReplay.mjs) */
+export interface VideoReplay {
+  sessionId: string;
+  /** Peak concurrent viewers during the stream */
+  peakViewers: number;
+}
+
+/** The series a video is part of (server/lib/playlists.mjs) */
+export interface VideoSeriesInfo {
+  /** The series playlist's id */
+  id: string;
+  title: string;
+  /** 1-based */
+  part: number;
+  parts: number;
+}
+
+/** A playlist is an ordered list of a creator's videos; a series is watched in order, part by part */
+export type PlaylistKind = 'playlist' | 'series';
+
+export interface VideoPlaylist {
+  id: string;
+  userId: string;
+  title: string;
+  description: string | null;
+  kind: PlaylistKind;
+  itemCount: number;
+  /** The first video's thumbnail — null while empty */
+  thumbnail: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** GET /api/videos/playlists/:id — the videos in order */
+export interface VideoPlaylistDetail extends VideoPlaylist {
+  videos: Video[];
+}
+
+/** Create or replace a playlist — videoIds are the creator's own, in order */
+export interface PlaylistInput {
+  title: string;
+  description?: string | null;
+  kind: PlaylistKind;
+  videoIds: string[];
+}
+
+/** A viewer's named group of saved (bookmarked) videos */
+export interface VideoCollection {
+  id: string;
+  name: string;
+  count: number;
+  /** The most recently saved video's thumbnail — null while empty */
+  thumbnail: string | null;
+  updatedAt: string;
+}
+
+/** GET /api/videos/collections */
+export interface VideoCollections {
+  /** Every saved video, in a collection or not */
+  savedCount: number;
+  collections: VideoCollection[];
+}
+
+export interface SavedVideo {
+  video: Video;
+  /** Null: saved, but in no collection */
+  collectionId: string | null;
+  savedAt: string;
+}
+
+/** GET /api/videos/saved — page on with `before: nextBefore` until it is null */
+export interface SavedVideosPage {
+  items: SavedVideo[];
+  nextBefore: string | null;
+}
+
+/** POST /api/videos/:id/download — permission to keep one video offline (server/lib/offlineDownloads.mjs) */
+export interface OfflineDownloadLicense {
+  videoId: string;
+  /** R2 key to sign with getSignedPlaybackUrl — null for legacy videos, which use `url` */
+  storageKey: string | null;
+  url: string | null;
+  sizeBytes: number | null;
+  mimeType: string | null;
+  /** Base64, 32 bytes — encrypts this copy; the server keeps no copy of it */
+  contentKey: string;
+  expiresAt: string;
+}
+
+/** GET /api/videos/downloads/entitlement — null when the subscription has lapsed */
+export interface OfflineDownloadEntitlement {
+  hasVideoPremium: boolean;
+  premiumExpiresAt: string | null;
+  /** Every download now expires at this time, unless renewed again */
+  expiresAt: string;
+}
+
+/** Where the viewer left off in a video (server/lib/watchHistory.mjs) */
+export interface WatchHistoryItem {
+  videoId: string;
+  positionSeconds: number;
+  durationSeconds: number;
+  progressPercent: number;
+  watchedAt: string;
+  /** Seconds to resume from — null when barely started or practically finished */
+  resumeAt: number | null;
+  /** Null once the video has been deleted */
+  video: Video | null;
+}
+
+/** GET /api/videos/history — page on with `before: nextBefore` until it is null */
+export interface WatchHistoryPage {
+  /** History recording is paused for this account */
+  paused: boolean;
+  entries: WatchHistoryItem[];
+  nextBefore: string | null;
+}
+
+/** Creator analytics date ranges (server/lib/videoAnalytics.mjs ANALYTICS_RANGES) */
+export type AnalyticsRange = '7d' | '28d' | '90d';
+
+/** The feed a view came from — 'other' for app versions that didn't say */
+export type TrafficSource = 'for-you' | 'following' | 'trending' | 'live' | 'search' | 'other';
+
+/** Watch metrics for one video, or a channel's totals */
+export interface VideoMetrics {
+  /** One per impression — each time the video came into view */
+  views: number;
+  avgViewSeconds: number;
+  /** avgViewSeconds as a share of the duration, 0–1 — null when the duration is unknown */
+  avgViewPercent: number | null;
+  /** Share of views swiped away in the first 3 seconds, 0–1 */
+  swipeAwayRate: number;
+  completionRate: number;
+  rewatches: number;
+  /** Share of views reaching 0, 25, 50, 75 and 100% — never rises */
+  retention: { percent: number; share: number }[];
+}
+
+/** The creator's median viewed video over the same range — null metrics when none was viewed */
+export interface AnalyticsBenchmark {
+  videos: number;
+  views: number | null;
+  avgViewSeconds: number | null;
+  swipeAwayRate: number | null;
+  completionRate: number | null;
+}
+
+export interface TrafficSourceShare {
+  source: TrafficSource;
+  views: number;
+  share: number;
+}
+
+/** A root comment ranked by replies plus reactions */
+export interface AnalyticsComment {
+  id: string;
+  videoId: string;
+  text: string;
+  userName: string | null;
+  avatar: string | null;
+  replyCount: number;
+  engagement: number;
+  createdAt: string;
+}
+
+export interface AnalyticsVideo {
+  id: string;
+  title: string | null;
+  thumbnail: string;
+  duration: number | null;
+  createdAt: string;
+}
+
+/** GET /api/videos/:id/analytics — creator only */
+export interface VideoAnalytics {
+  range: AnalyticsRange;
+  since: string;
+  video: AnalyticsVideo & { lifetimeViews: number; likes: number; comments: number };
+  metrics: VideoMetrics;
+  benchmark: AnalyticsBenchmark;
+  trafficSources: TrafficSourceShare[];
+  topComments: AnalyticsComment[];
+}
+
+/** GET /api/videos/analytics/channel — the caller's channel */
+export interface ChannelAnalytics {
+  range: AnalyticsRange;
+  since: string;
+  videoCount: number;
+  totals: VideoMetrics;
+  benchmark: AnalyticsBenchmark;
+  followers: {
+    total: number;
+    gained: number;
+    /** One entry per UTC day of the range, oldest first */
+    daily: { date: string; count: number }[];
+  };
+  trafficSources: TrafficSourceShare[];
+  topVideos: { video: AnalyticsVideo; metrics: VideoMetrics }[];
+  topComments: AnalyticsComment[];
+}
+
+/** A livestream chat message; `offsetMs` is its position in the stream (and replay) */
+export interface LivestreamChatMessage {
+  id: string;
+  userId: string;
+  userName: string;
+  text: string;
+  timestamp: string;
+  offsetMs?: number;
+}
+
+/** A session's chat rules (server/lib/livestreamModeration.mjs) */
+export interface LivestreamChatSettings {
+  /** Seconds between one viewer's messages — 0 is off */
+  slowModeSeconds: number;
+  followersOnlyChat: boolean;
+  blockChatLinks: boolean;
+}
+
+export type LivestreamRestrictionKind = 'timeout' | 'ban';
+
+/** A viewer timed out (until expiresAt) or banned (expiresAt null) for one session */
+export interface LivestreamChatRestriction {
+  userId: string;
+  userName: string | null;
+  kind: LivestreamRestrictionKind;
+  expiresAt: string | null;
+  createdAt: string;
+}
+
+/** GET /livestream/:sessionId/moderation — `restrictions` is only filled for staff */
+export interface LivestreamModerationState {
+  sessionId: string;
+  settings: LivestreamChatSettings;
+  isStreamer: boolean;
+  /** The streamer or one of their co-moderators */
+  canModerate: boolean;
+  myRestriction: LivestreamChatRestriction | null;
+  restrictions: LivestreamChatRestriction[];
+}
+
+/** The streamer's own moderation setup, used on every stream */
+export interface LivestreamModerationSettings {
+  bannedWords: string[];
+  moderators: FollowedCreator[];
+}
+
+/** One rung of a video's HLS ladder. `height: 0` is the audio-only rung. */
+export interface VideoRendition {
+  name: string;
+  height: number;
+  /** Peak bits per second */
+  bandwidth: number;
+  /** Media playlist for this rung alone */
+  url: string;
+}
+
+export interface VideoHls {
+  /** Master playlist over the video rungs — the player adapts between them */
+  masterUrl: string;
+  renditions: VideoRendition[];
+}
+
+/** One caption line; times in seconds */
+export interface CaptionCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export type CaptionSource = 'upload' | 'auto';
+export type CaptionStatus = 'pending' | 'processing' | 'ready' | 'failed';
+
+/** A video's caption track in one language (server/lib/captions.mjs) */
+export interface VideoCaptionTrack {
+  id: string;
+  videoId: string;
+  /** ISO 639 code, e.g. "en", "sw" */
+  language: string;
+  /** Shown in the language picker */
+  label: string;
+  source: CaptionSource;
+  /** Viewers only ever receive 'ready' tracks; the owner also sees the rest */
+  status: CaptionStatus;
+  cues: CaptionCue[];
+  updatedAt: string;
+}
+
+/** An @mention inside a comment: `text.slice(offset, offset + length)` is "@Name" */
+export interface CommentMention {
+  userId: string;
+  offset: number;
+  length: number;
+}
+
+/** visible to everyone · held for the creator's review · hidden by the creator */
+export type CommentStatus = 'visible' | 'held' | 'hidden';
+
+/** The reaction bar — mirrors COMMENT_REACTIONS in the server's lib/videoComments.mjs */
+export const COMMENT_REACTIONS = ['❤️', '😂', '😮', '😢', '🔥', '👏'] as const;
+export type CommentReaction = (typeof COMMENT_REACTIONS)[number];
+
 export interface Comment {
   id: string;
   text: string;
@@ -147,6 +462,36 @@ export interface Comment {
   video?: Video;
   createdAt: string;
   likes?: number;
+  /** Thread position — null/0 for a top-level comment. Threads are two levels deep. */
+  parentId?: string | null;
+  rootId?: string | null;
+  depth?: number;
+  mentions?: CommentMention[];
+  status?: CommentStatus;
+  isPinned?: boolean;
+  /** Visible replies underneath — the whole thread on a top-level comment */
+  replyCount?: number;
+  /** Top-level comments arrive with the first few replies; the rest load on demand */
+  replies?: Comment[];
+  reactions?: Partial<Record<CommentReaction, number>>;
+  myReactions?: CommentReaction[];
+}
+
+/** Creator tools on one comment (PATCH …/comments/:commentId/moderation) */
+export type CommentModerationAction = 'pin' | 'unpin' | 'hide' | 'unhide' | 'approve';
+
+/** A creator the signed-in user follows (GET /api/follows/:userId/following) */
+export interface FollowedCreator {
+  id: string;
+  firstName: string;
+  lastName: string;
+  avatar: string | null;
+}
+
+/** A creator's comment moderation settings (GET/PUT /api/videos/comment-settings) */
+export interface CommentSettings {
+  blockedKeywords: string[];
+  holdForReview: boolean;
 }
 
 export interface Survey {
@@ -166,6 +511,16 @@ export interface Survey {
   maxResponses?: number;
   rewardAmount?: number;
   status?: "running" | "scheduled" | "completed";
+  /** Hidden computed variables piped into question text as {{name}} */
+  computedVariables?: ComputedVariable[] | null;
+  /** Language the survey is written in (default 'en') */
+  defaultLanguage?: string;
+  /** Other languages respondents can take the survey in */
+  languages?: string[];
+  /** Title + description per offered language */
+  translations?: Record<string, SurveyTextTranslation> | null;
+  /** Published version respondents currently get — each question edit or rollback publishes the next */
+  currentVersion?: number;
 }
 
 export interface UploadSurvey {
@@ -183,24 +538,94 @@ export interface UploadSurvey {
   survey?: Survey;
   /** Conditional display logic — when set, question is only shown if rules evaluate to true */
   conditionalLogic?: ConditionalLogicConfig | null;
+  /** Screener — non-qualifying answers end the attempt; quotas cap qualifying ones */
+  screener?: ScreenerConfig | null;
+  /** Question text + labels per offered language, index-aligned with the source */
+  translations?: Record<string, QuestionTranslation> | null;
   /** Points value for scoring (0 = unscored) */
   points?: number;
   createdAt: string;
   updatedAt: string;
 }
 
+/** A question as published in a survey version — the row fields respondents were shown */
+export type SurveyVersionQuestion = Pick<
+  UploadSurvey,
+  'id' | 'text' | 'type' | 'options' | 'placeholder' | 'minValue' | 'maxValue' | 'required'
+  | 'conditionalLogic' | 'screener' | 'translations'
+>;
+
+/** Immutable snapshot of a survey's questions, published by an edit or a rollback */
+export interface SurveyVersion {
+  version: number;
+  title: string;
+  /** In display order, keyed by the same ids responses' answers use */
+  questions: SurveyVersionQuestion[];
+  /** Version this one was rolled back to, null for edits */
+  restoredFrom: number | null;
+  createdAt: string;
+  responseCount: number;
+}
+
 /** Conditional logic configuration for survey branching */
 export interface ConditionalLogicConfig {
   rules: ConditionalRule[];
   logicType: 'all' | 'any';
 }
 
-/** Single conditional display rule */
+/** Single conditional rule — `show` gates display, `skip_to` jumps forward on leave */
 export interface ConditionalRule {
   sourceQuestionId: string;
   operator: 'equals' | 'not_equals' | 'contains' | 'greater_than' | 'less_than' | 'is_empty' | 'is_not_empty';
   value: string | number | boolean;
   action: 'show' | 'skip_to';
+  /** Jump destination for `skip_to` rules (question id, or '__end__' for review & submit) */
+  targetQuestionId?: string | null;
+}
+
+/** Screener on a single-choice question at the start of the survey */
+export interface ScreenerConfig {
+  qualifying: string[];
+  quotas?: { answer: string; limit: number }[];
+}
+
+/** Survey title + description in one offered language */
+export interface SurveyTextTranslation {
+  title: string;
+  description?: string;
+}
+
+/**
+ * One question in one offered language. `options` (choices, ranking items,
+ * matrix rows, or the Yes/No labels) and `matrixColumns` are aligned with the
+ * source labels by index — answers are always stored as the source label.
+ */
+export interface QuestionTranslation {
+  text: string;
+  options?: string[];
+  matrixColumns?: string[];
+  placeholder?: string;
+}
+
+/** Fill of one screener quota (GET /surveys/:id/quotas) */
+export interface SurveyQuotaFill {
+  questionId: string;
+  questionText: string;
+  answer: string;
+  limit: number;
+  filled: number;
+  full: boolean;
+}
+
+/** Hidden computed variable — `score` sums answers, `segment` bands a source into a label */
+export interface ComputedVariable {
+  id: string;
+  name: string;
+  kind: 'score' | 'segment';
+  sourceQuestionIds: string[];
+  source?: string | null;
+  bands?: { min: number; label: string }[];
+  fallback?: string;
 }
 
 export interface Ad {
@@ -248,6 +673,249 @@ export interface Ad {
   rejectionReason: string | null;
   approvedAt: string | null;
   approvedBy: string | null;
+  /** The creative-test variant this copy of the ad shows — send it back with its events */
+  variantId?: string;
+}
+
+/** Campaign ratios from an ad's counters (server/lib/adCampaigns.mjs campaignMetrics) — percentages are 0–100 */
+export interface AdCampaignMetrics {
+  ctr: number;
+  conversionRate: number;
+  costPerMille: number;
+  costPerClick: number;
+  budgetRemaining: number;
+  budgetUtilization: number;
+  daysRunning: number;
+}
+
+/** `no_limit` without a daily budget, `capped` once today's is used up, `idle` when not running */
+export type AdPacingState = 'no_limit' | 'capped' | 'idle' | 'ahead' | 'behind' | 'on_track';
+
+/** Today's spend against the daily budget — resets at UTC midnight */
+export interface AdSpendPacing {
+  dailyBudgetLimit: number | null;
+  spentToday: number;
+  /** Where an even spread of the daily budget would be by now — null without a limit */
+  expectedByNow: number | null;
+  resetsAt: string;
+  pacing: AdPacingState;
+}
+
+/** One of the caller's ads in the campaign dashboard (GET /api/ads/mine) */
+export interface AdCampaign {
+  id: string;
+  title: string;
+  headline: string | null;
+  description: string;
+  targetUrl: string | null;
+  thumbnailUrl: string | null;
+  type: Ad['type'];
+  placement: Ad['placement'];
+  pricingModel: Ad['pricingModel'];
+  status: Ad['status'];
+  isActive: boolean;
+  rejectionReason: string | null;
+  startDate: string | null;
+  endDate: string | null;
+  createdAt: string;
+  totalBudget: number;
+  amountSpent: number;
+  bidAmount: number;
+  dailyBudgetLimit: number | null;
+  impressions: number;
+  views: number;
+  clicks: number;
+  conversions: number;
+  metrics: AdCampaignMetrics;
+  pacing: AdSpendPacing;
+  canPause: boolean;
+  canResume: boolean;
+}
+
+/** One UTC day of a campaign — spend is estimated at the current bid */
+export interface AdPerformanceDay {
+  date: string;
+  impressions: number;
+  clicks: number;
+  ctr: number;
+  spend: number;
+}
+
+/** Who moved the ad to a status — the advertiser, a reviewer, or the server (budget spent) */
+export type AdStatusActor = 'advertiser' | 'review' | 'system';
+
+export interface AdStatusTimelineEntry {
+  status: Ad['status'];
+  reason: string | null;
+  at: string;
+  actor: AdStatusActor;
+}
+
+/** GET /api/ads/:id/performance — owner (or admin/moderator) only */
+export interface AdCampaignPerformance {
+  range: AnalyticsRange;
+  campaign: AdCampaign;
+  /** One entry per UTC day of the range, oldest first */
+  daily: AdPerformanceDay[];
+  /** Oldest first */
+  timeline: AdStatusTimelineEntry[];
+}
+
+// Creative tests — 2–4 variants of one ad (server/lib/adVariants.mjs)
+
+/** `split` shares traffic evenly; `bandit` shifts it toward the better CTR */
+export type AdVariantMode = 'split' | 'bandit';
+
+/** `collecting` until every variant has enough impressions */
+export type AdTestStatus = 'collecting' | 'inconclusive' | 'significant';
+
+/** What a variant shows — also the shape sent to save one (`id` keeps an existing variant) */
+export interface AdVariantCreative {
+  id?: string;
+  headline: string;
+  description: string | null;
+  imageUrl: string | null;
+  videoUrl: string | null;
+  thumbnailUrl: string | null;
+  callToAction: Ad['callToAction'];
+  r2ImageKey?: string | null;
+  r2VideoKey?: string | null;
+  r2ThumbnailKey?: string | null;
+}
+
+export interface AdVariant extends AdVariantCreative {
+  id: string;
+  /** "A"–"D" */
+  label: string;
+  impressions: number;
+  clicks: number;
+  conversions: number;
+  /** Percentages, 0–100 */
+  ctr: number;
+  conversionRate: number;
+  /** Share of the ad's traffic it gets now, 0–1 */
+  share: number;
+  createdAt: string;
+}
+
+/** The leader's CTR against the runner-up's */
+export interface AdTestReadout {
+  status: AdTestStatus;
+  leaderId: string | null;
+  runnerUpId: string | null;
+  /** Percent; null while the runner-up has no clicks */
+  lift: number | null;
+  /** 0–1 */
+  confidence: number;
+  /** Impressions still missing before a result can be called */
+  needed: number;
+}
+
+/** GET /api/ads/:id/variants — `mode` is null when the ad has no test */
+export interface AdCreativeTest {
+  adId: string;
+  mode: AdVariantMode | null;
+  winnerVariantId: string | null;
+  status: Ad['status'];
+  /** The ad's own creative — what a new test starts variant A from */
+  base: AdVariantCreative;
+  variants: AdVariant[];
+  readout: AdTestReadout;
+}
+
+// Rewarded ads — watch a whole ad, earn points (server/lib/rewardedAds.mjs)
+
+/** What the viewer can still earn today; the day is the UTC day */
+export interface RewardedAdAllowance {
+  /** Points per ad, from RewardConfig */
+  points: number;
+  dailyCap: number;
+  creditedToday: number;
+  remaining: number;
+}
+
+export interface RewardedAdStatus extends RewardedAdAllowance {
+  /** Whether an ad is ready to watch */
+  available: boolean;
+}
+
+/** An ad handed out to watch, with the signed token that claims its points */
+export interface RewardedAdSession {
+  token: string;
+  points: number;
+  /** The server pays no sooner than this after the ad starts */
+  minWatchSeconds: number;
+  ad: Ad;
+}
+
+export interface RewardedAdClaim extends RewardedAdAllowance {
+  earned: number;
+  /** The user's points after the credit */
+  balance: number;
+}
+
+// Review console — the ad approval queue, user reports and the audit trail
+
+export type ReportTargetType = 'video' | 'comment' | 'response' | 'survey';
+
+export type ReportReason =
+  | 'spam'
+  | 'harassment'
+  | 'hate'
+  | 'sexual'
+  | 'violence'
+  | 'misinformation'
+  | 'scam'
+  | 'other';
+
+/** remove takes the item down; dismiss keeps it and closes the reports */
+export type ReportDecision = 'remove' | 'dismiss';
+
+export type AdReviewDecision = 'approve' | 'reject';
+
+export type ModerationOutcome = 'approved' | 'rejected' | 'removed' | 'dismissed';
+
+export interface ModerationPreview {
+  title: string;
+  body: string | null;
+  thumbnailUrl: string | null;
+  author: { id: string; name: string | null };
+  /** Already taken down — a hidden comment or an ended survey */
+  removed: boolean;
+  context: { videoId?: string; questionId?: string; surveyId?: string };
+}
+
+/** One reported item with all of its open reports */
+export interface ModerationQueueItem {
+  targetType: ReportTargetType;
+  targetId: string;
+  reportCount: number;
+  /** Most common first */
+  reasons: { reason: ReportReason; count: number }[];
+  /** Up to three of the reporters' notes */
+  details: string[];
+  firstReportedAt: string;
+  lastReportedAt: string;
+  /** Null when the item was deleted since it was reported */
+  preview: ModerationPreview | null;
+}
+
+export interface ModerationSummary {
+  pendingAds: number;
+  openReports: Record<ReportTargetType, number>;
+}
+
+export interface ModerationAuditEntry {
+  id: string;
+  actor: { id: string; name: string | null; role: UserRole | null };
+  targetType: 'ad' | ReportTargetType;
+  targetId: string;
+  /** What the item said when it was reviewed */
+  targetLabel: string | null;
+  action: ModerationOutcome;
+  reason: string | null;
+  reportCount: number;
+  createdAt: string;
 }
 
 export interface SurveyResponse {
@@ -257,6 +925,13 @@ export interface SurveyResponse {
   responses: string;
   user?: AppUser;
   survey?: Survey;
+  /** When the respondent opened the survey; null for responses before it was recorded */
+  startedAt?: string | null;
+  completedAt?: string | null;
+  /** Language the respondent answered in; null when not recorded */
+  language?: string | null;
+  /** Survey version answered; null for responses from before versioning (version 1) */
+  surveyVersion?: number | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -0,0 +1,249 @@
+/**
+ * Ad Campaigns — Pure Functions for the Advertiser Campaign Dashboard
+ *
+ * The server prices each day's impressions and clicks, paces today's spend
+ * against the daily budget and records every status change
+ * (server/lib/adCampaigns.mjs). These helpers:
+ *  - label statuses, pacing and timeline entries;
+ *  - format UGX amounts for the metric cards;
+ *  - scale the daily series for the bar chart;
+ *  - check the edit form and say whether saving sends the ad back to review;
+ *  - build the CSV export.
+ */
+
+import type {
+  AdCampaign,
+  AdPerformanceDay,
+  AdSpendPacing,
+  AdStatusTimelineEntry,
+} from '@/types';
+import type { AdStatus, UpdateAdPayload } from '@/services/adApi';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const AD_STATUS_LABELS: Record<AdStatus, string> = {
+  pending: 'In review',
+  approved: 'Running',
+  rejected: 'Rejected',
+  paused: 'Paused',
+  completed: 'Completed',
+};
+
+export const CAMPAIGN_STATUS_FILTERS: { value: AdStatus | undefined; label: string }[] = [
+  { value: undefined, label: 'All' },
+  { value: 'approved', label: 'Running' },
+  { value: 'pending', label: 'In review' },
+  { value: 'paused', label: 'Paused' },
+  { value: 'rejected', label: 'Rejected' },
+  { value: 'completed', label: 'Completed' },
+];
+
+/** Theme colour key each status is drawn in */
+export type StatusTone = 'success' | 'warning' | 'error' | 'muted';
+
+export const AD_STATUS_TONES: Record<AdStatus, StatusTone> = {
+  pending: 'warning',
+  approved: 'success',
+  rejected: 'error',
+  paused: 'muted',
+  completed: 'muted',
+};
+
+/** Daily series the chart can show */
+export type PerformanceSeries = 'impressions' | 'clicks' | 'spend';
+
+export const PERFORMANCE_SERIES_OPTIONS: { value: PerformanceSeries; label: string }[] = [
+  { value: 'impressions', label: 'Impressions' },
+  { value: 'clicks', label: 'Clicks' },
+  { value: 'spend', label: 'Spend' },
+];
+
+/** Statuses that saving a creative edit moves back to review (server RESUBMITTED_FROM) */
+export const RESUBMITTED_FROM: AdStatus[] = ['approved', 'paused', 'rejected', 'completed'];
+
+/** Fields whose change means the ad shows something new (server CREATIVE_AD_FIELDS) */
+const CREATIVE_FIELDS = ['title', 'headline', 'description', 'targetUrl'] as const;
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+/** 12500 → "UGX 12,500", 0.5 → "UGX 0.5" */
+export function formatUGX(amount: number): string {
+  return `UGX ${amount.toLocaleString('en-US', { maximumFractionDigits: 2 })}`;
+}
+
+/** 2.345 → "2.35%" — the server's ratios are already percentages */
+export function formatPercent(percent: number): string {
+  return `${Number(percent.toFixed(2))}%`;
+}
+
+/** "On track · UGX 2,000 of UGX 4,000 today" */
+export function pacingLabel(pacing: AdSpendPacing): string {
+  const spent = formatUGX(pacing.spentToday);
+  if (pacing.pacing === 'no_limit' || pacing.dailyBudgetLimit == null) {
+    return `No daily limit · ${spent} today`;
+  }
+  const ofLimit = `${spent} of ${formatUGX(pacing.dailyBudgetLimit)} today`;
+  switch (pacing.pacing) {
+    case 'capped':
+      return `Daily budget reached · ${ofLimit}`;
+    case 'idle':
+      return `Not running · ${ofLimit}`;
+    case 'ahead':
+      return `Spending fast · ${ofLimit}`;
+    case 'behind':
+      return `Spending slowly · ${ofLimit}`;
+    default:
+      return `On track · ${ofLimit}`;
+  }
+}
+
+/** Share of today's daily budget spent, 0–1 — null without a limit */
+export function pacingProgress(pacing: AdSpendPacing): number | null {
+  if (!pacing.dailyBudgetLimit) return null;
+  return Math.min(1, pacing.spentToday / pacing.dailyBudgetLimit);
+}
+
+/** What happened at one timeline entry, from the advertiser's side */
+export function timelineLabel(entry: AdStatusTimelineEntry, isFirst: boolean): string {
+  switch (entry.status) {
+    case 'pending':
+      return isFirst ? 'Submitted for review' : 'Edited — back in review';
+    case 'approved':
+      return entry.actor === 'advertiser' ? 'Resumed' : 'Approved';
+    case 'rejected':
+      return 'Rejected';
+    case 'paused':
+      return entry.actor === 'advertiser' ? 'Paused' : 'Paused by review';
+    case 'completed':
+      return entry.actor === 'system' ? 'Budget spent' : 'Completed';
+    default:
+      return entry.status;
+  }
+}
+
+// ============================================================================
+// CHART
+// ============================================================================
+
+/** Each day's value for the series as a share of the busiest day, 0–1 */
+export function barHeights(daily: AdPerformanceDay[], series: PerformanceSeries): number[] {
+  const values = daily.map((day) => day[series]);
+  const max = Math.max(0, ...values);
+  return values.map((value) => (max > 0 ? value / max : 0));
+}
+
+/** Sum of one series over the range */
+export function seriesTotal(daily: AdPerformanceDay[], series: PerformanceSeries): number {
+  return Math.round(daily.reduce((sum, day) => sum + day[series], 0) * 100) / 100;
+}
+
+// ============================================================================
+// EDITING
+// ============================================================================
+
+/** The edit form's text fields */
+export interface CampaignEditForm {
+  title: string;
+  headline: string;
+  description: string;
+  targetUrl: string;
+  totalBudget: string;
+  dailyBudgetLimit: string;
+  bidAmount: string;
+}
+
+export function campaignEditForm(campaign: AdCampaign): CampaignEditForm {
+  return {
+    title: campaign.title,
+    headline: campaign.headline ?? '',
+    description: campaign.description,
+    targetUrl: campaign.targetUrl ?? '',
+    totalBudget: String(campaign.totalBudget),
+    dailyBudgetLimit: campaign.dailyBudgetLimit == null ? '' : String(campaign.dailyBudgetLimit),
+    bidAmount: String(campaign.bidAmount),
+  };
+}
+
+export type CampaignEditResult =
+  | { error: string }
+  | { error: null; payload: UpdateAdPayload; sendsToReview: boolean };
+
+/**
+ * Check the form against the campaign and build the update with only the
+ * changed fields. `sendsToReview` is true when the change alters what a
+ * reviewed ad shows — the server moves it back to pending.
+ */
+export function campaignEditChanges(campaign: AdCampaign, form: CampaignEditForm): CampaignEditResult {
+  const title = form.title.trim();
+  const description = form.description.trim();
+  const headline = form.headline.trim();
+  const targetUrl = form.targetUrl.trim();
+  if (!title) return { error: 'Add a title' };
+  if (!description) return { error: 'Add a description' };
+  if (targetUrl && !/^https?:\/\/\S+$/i.test(targetUrl)) {
+    return { error: 'The link must start with http:// or https://' };
+  }
+
+  const totalBudget = Number(form.totalBudget);
+  const bidAmount = Number(form.bidAmount);
+  const dailyText = form.dailyBudgetLimit.trim();
+  const dailyBudgetLimit = dailyText ? Number(dailyText) : null;
+  if (!Number.isFinite(totalBudget) || totalBudget <= 0) return { error: 'Enter a total budget' };
+  if (totalBudget < campaign.amountSpent) {
+    return { error: `The total budget can't be less than the ${formatUGX(campaign.amountSpent)} already spent` };
+  }
+  if (!Number.isFinite(bidAmount) || bidAmount <= 0) return { error: 'Enter a bid' };
+  if (dailyBudgetLimit !== null) {
+    if (!Number.isFinite(dailyBudgetLimit) || dailyBudgetLimit <= 0) return { error: 'Enter a daily limit, or leave it empty' };
+    if (dailyBudgetLimit > totalBudget) return { error: "The daily limit can't be more than the total budget" };
+  }
+
+  const next = {
+    title,
+    headline: headline || null,
+    description,
+    targetUrl: targetUrl || null,
+    totalBudget,
+    bidAmount,
+    dailyBudgetLimit,
+  };
+  const payload: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(next)) {
+    if (value !== campaign[key as keyof typeof next]) payload[key] = value;
+  }
+
+  const creative = CREATIVE_FIELDS.some((field) => field in payload);
+  return {
+    error: null,
+    payload: payload as UpdateAdPayload,
+    sendsToReview: creative && RESUBMITTED_FROM.includes(campaign.status),
+  };
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+const csvCell = (value: string | number) => `"${String(value).replace(/"/g, '""')}"`;
+
+/** The campaign's totals, then one row per day */
+export function campaignCsv(campaign: AdCampaign, daily: AdPerformanceDay[]): string {
+  const rows: (string | number)[][] = [
+    ['Campaign', campaign.title],
+    ['Status', AD_STATUS_LABELS[campaign.status]],
+    ['Pricing', campaign.pricingModel.toUpperCase()],
+    ['Total budget (UGX)', campaign.totalBudget],
+    ['Spent (UGX)', campaign.amountSpent],
+    ['Impressions', campaign.impressions],
+    ['Clicks', campaign.clicks],
+    ['CTR (%)', campaign.metrics.ctr],
+    [],
+    ['Date', 'Impressions', 'Clicks', 'CTR (%)', 'Spend (UGX)'],
+    ...daily.map((day) => [day.date, day.impressions, day.clicks, day.ctr, day.spend]),
+  ];
+  return rows.map((row) => row.map(csvCell).join(',')).join('\n');
+}
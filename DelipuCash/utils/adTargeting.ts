@@ -0,0 +1,214 @@
+/**
+ * Ad Targeting — Pure Functions for Matching Ads to the Viewer
+ *
+ * Advertisers pick an audience when they create an ad — age ranges, a
+ * gender, locations and interests (app/ad-registration.tsx). The feed's ad
+ * pickers (selectAd, filterAdsByPreferences, useSmartAdPlacement) check each
+ * ad against what the app knows about the viewer. These helpers:
+ *  - keep a running count of the topic tags of watched videos, which is where
+ *    interests come from;
+ *  - build the viewer's profile, leaving out everything personal when they
+ *    have turned personalized ads off;
+ *  - decide whether an ad may be shown, score how well it fits, and say why
+ *    for the "Why this ad?" panel.
+ *
+ * A known age range, gender or location that falls outside an ad's audience
+ * rules the ad out. An unknown one rules nothing out and earns no score.
+ * Interests only rank ads — they never rule one out.
+ */
+
+import type { Ad } from '@/types';
+import type { AgeRange, Gender } from '@/services/adApi';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const AD_AGE_RANGES: AgeRange[] = ['13-17', '18-24', '25-34', '35-44', '45-54', '55-64', '65+'];
+
+export type ViewerGender = Exclude<Gender, 'all'>;
+
+export const VIEWER_GENDER_OPTIONS: { value: ViewerGender; label: string }[] = [
+  { value: 'female', label: 'Female' },
+  { value: 'male', label: 'Male' },
+  { value: 'other', label: 'Other' },
+];
+
+/** The interests advertisers can pick, and the video topic tags that count toward each */
+export const AD_INTEREST_TOPICS: Record<string, string[]> = {
+  Technology: ['technology', 'tech', 'gadgets', 'smartphone', 'apps', 'software', 'coding'],
+  Sports: ['sports', 'football', 'soccer', 'athletics', 'fitness'],
+  Entertainment: ['entertainment', 'fun', 'challenge', 'trending', 'comedy', 'movies'],
+  Fashion: ['fashion', 'style', 'beauty', 'clothing'],
+  Food: ['food', 'cooking', 'recipes'],
+  Travel: ['travel', 'tourism'],
+  Health: ['health', 'wellness', 'fitness'],
+  Business: ['business', 'entrepreneur', 'side-hustle', 'income'],
+  Education: ['education', 'learning', 'howto', 'study'],
+  Gaming: ['gaming', 'games'],
+  Music: ['music'],
+  Finance: ['finance', 'money', 'savings', 'investment'],
+};
+
+/** Distinct topic tags remembered; past this the least-watched are forgotten */
+export const TOPIC_COUNT_LIMIT = 50;
+/** Watched videos with an interest's tags before the viewer counts as interested */
+export const MIN_INTEREST_VIEWS = 2;
+
+// ============================================================================
+// INTERESTS FROM WATCHED TOPICS
+// ============================================================================
+
+const normalizeTag = (tag: string) => tag.trim().toLowerCase();
+
+/** Count one watched video's topic tags — each tag once, capped at TOPIC_COUNT_LIMIT tags */
+export function addWatchedTopics(counts: Record<string, number>, tags: string[]): Record<string, number> {
+  const fresh = [...new Set(tags.map(normalizeTag).filter(Boolean))];
+  if (fresh.length === 0) return counts;
+
+  const next = { ...counts };
+  for (const tag of fresh) next[tag] = (next[tag] ?? 0) + 1;
+
+  const kept = Object.entries(next);
+  if (kept.length <= TOPIC_COUNT_LIMIT) return next;
+  // Forget the least-watched, keeping the tags just counted
+  kept.sort(([a, x], [b, y]) => Number(fresh.includes(b)) - Number(fresh.includes(a)) || y - x);
+  return Object.fromEntries(kept.slice(0, TOPIC_COUNT_LIMIT));
+}
+
+/** The advertiser interests the viewer's watched topics add up to, strongest first */
+export function interestsFromTopics(counts: Record<string, number>): string[] {
+  return Object.entries(AD_INTEREST_TOPICS)
+    .map(([interest, tags]) => ({
+      interest,
+      views: Object.entries(counts).reduce((sum, [tag, n]) => sum + (tags.includes(tag) ? n : 0), 0),
+    }))
+    .filter((entry) => entry.views >= MIN_INTEREST_VIEWS)
+    .sort((a, b) => b.views - a.views)
+    .map((entry) => entry.interest);
+}
+
+// ============================================================================
+// VIEWER PROFILE
+// ============================================================================
+
+export interface AdViewerProfile {
+  /** Whether anything personal was used — false when personalized ads are off */
+  personalized: boolean;
+  ageRange: AgeRange | null;
+  gender: ViewerGender | null;
+  /** Coarse location: the device's country code and name, lowercase */
+  locations: string[];
+  /** Advertiser interests, strongest first */
+  interests: string[];
+}
+
+/**
+ * The profile the ad pickers match against. With personalized ads off, only
+ * the coarse location is kept — age range, gender and interests are left out.
+ */
+export function adViewerProfile(input: {
+  personalizedAds: boolean;
+  ageRange?: AgeRange | null;
+  gender?: ViewerGender | null;
+  region?: { code: string; name?: string | null } | null;
+  topicCounts?: Record<string, number>;
+}): AdViewerProfile {
+  const locations = input.region
+    ? [input.region.code, input.region.name].filter((token): token is string => !!token).map(normalizeTag)
+    : [];
+  if (!input.personalizedAds) {
+    return { personalized: false, ageRange: null, gender: null, locations, interests: [] };
+  }
+  return {
+    personalized: true,
+    ageRange: input.ageRange ?? null,
+    gender: input.gender ?? null,
+    locations,
+    interests: interestsFromTopics(input.topicCounts ?? {}),
+  };
+}
+
+/** "en-UG" → "UG"; null when the locale names no country */
+export function regionFromLocale(locale: string | null | undefined): string | null {
+  const region = locale?.split(/[-_]/).slice(1).find((part) => /^[A-Za-z]{2}$/.test(part));
+  return region ? region.toUpperCase() : null;
+}
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+export interface AdTargetingMatch {
+  /** False when something known about the viewer falls outside the ad's audience */
+  eligible: boolean;
+  /** One point per part of the audience the viewer is known to be in */
+  score: number;
+  /** Why the ad fits, for "Why this ad?" — empty when nothing known was used */
+  reasons: string[];
+}
+
+const targetedAgeRanges = (ad: Ad) => {
+  const ranges = ad.targetAgeRanges ?? [];
+  return ranges.length > 0 && !AD_AGE_RANGES.every((range) => ranges.includes(range)) ? ranges : [];
+};
+
+const GENDER_AUDIENCE: Record<ViewerGender, string> = { female: 'women', male: 'men', other: 'people of another gender' };
+
+const listOf = (items: string[]) =>
+  items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+
+/** Whether the ad may be shown to the viewer, how well it fits, and why */
+export function matchAdTargeting(ad: Ad, viewer: AdViewerProfile): AdTargetingMatch {
+  let eligible = true;
+  const reasons: string[] = [];
+
+  const ages = targetedAgeRanges(ad);
+  if (ages.length > 0 && viewer.ageRange) {
+    if (ages.includes(viewer.ageRange)) reasons.push(`It's for people aged ${viewer.ageRange}, like you`);
+    else eligible = false;
+  }
+
+  const gender = ad.targetGender ?? 'all';
+  if (gender !== 'all' && viewer.gender) {
+    if (gender === viewer.gender) reasons.push(`It's for ${GENDER_AUDIENCE[viewer.gender]}`);
+    else eligible = false;
+  }
+
+  const places = (ad.targetLocations ?? []).filter((place) => place.trim());
+  if (places.length > 0 && viewer.locations.length > 0) {
+    const here = places.find((place) => viewer.locations.includes(normalizeTag(place)));
+    if (here) reasons.push(`It's for people in ${here.trim()}, where you are`);
+    else eligible = false;
+  }
+
+  const wanted = (ad.targetInterests ?? []).map(normalizeTag);
+  const shared = viewer.interests.filter((interest) => wanted.includes(normalizeTag(interest)));
+  if (shared.length > 0) reasons.push(`You watch videos about ${listOf(shared.map((s) => s.toLowerCase()))}`);
+
+  return { eligible, score: reasons.length, reasons };
+}
+
+/** The ads the viewer may see, best fit first — ties keep their order */
+export function rankAdsForViewer(ads: Ad[], viewer: AdViewerProfile): Ad[] {
+  return ads
+    .map((ad, index) => ({ ad, index, match: matchAdTargeting(ad, viewer) }))
+    .filter((entry) => entry.match.eligible)
+    .sort((a, b) => b.match.score - a.match.score || a.index - b.index)
+    .map((entry) => entry.ad);
+}
+
+/** The lines of the "Why this ad?" panel */
+export function whyThisAd(ad: Ad, viewer: AdViewerProfile): string[] {
+  const { reasons } = matchAdTargeting(ad, viewer);
+  const targeted = targetedAgeRanges(ad).length > 0
+    || (ad.targetGender ?? 'all') !== 'all'
+    || (ad.targetLocations ?? []).some((place) => place.trim())
+    || (ad.targetInterests ?? []).length > 0;
+
+  const lines = [...reasons];
+  if (!targeted) lines.push("The advertiser didn't narrow its audience, so anyone can see it");
+  else if (reasons.length === 0) lines.push('The advertiser chose an audience, but nothing we know about you was used to pick it');
+  if (!viewer.personalized) lines.push("Personalized ads are off, so your age, gender and viewing weren't used");
+  return lines;
+}
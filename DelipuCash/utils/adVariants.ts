@@ -0,0 +1,198 @@
+/**
+ * Ad Variants — Pure Functions for Creative A/B Tests
+ *
+ * An advertiser tests 2–4 versions of an ad's creative. The feed shows each
+ * viewer one of them and counts impressions, clicks and conversions per
+ * variant; the server splits traffic evenly or, in bandit mode, shifts it
+ * toward the better CTR, and compares the leader with the runner-up
+ * (server/lib/adVariants.mjs). These helpers:
+ *  - hold the modes, calls to action and limits the editor offers;
+ *  - seed, edit and check the editor's drafts;
+ *  - say whether saving sends the ad back to review;
+ *  - put the significance readout into words.
+ */
+
+import type {
+  AdCreativeTest,
+  AdVariant,
+  AdVariantCreative,
+  AdVariantMode,
+} from '@/types';
+import type { CTAType } from '@/services/adApi';
+import { RESUBMITTED_FROM, formatPercent } from './adCampaigns';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const VARIANT_MIN = 2;
+export const VARIANT_MAX = 4;
+export const MAX_VARIANT_HEADLINE_CHARS = 120;
+export const MAX_VARIANT_DESCRIPTION_CHARS = 500;
+
+export const VARIANT_LABELS = ['A', 'B', 'C', 'D'] as const;
+
+export const AD_CTA_LABELS: Record<CTAType, string> = {
+  learn_more: 'Learn More',
+  shop_now: 'Shop Now',
+  sign_up: 'Sign Up',
+  download: 'Download',
+  contact_us: 'Contact Us',
+  get_offer: 'Get Offer',
+  book_now: 'Book Now',
+  watch_more: 'Watch More',
+  apply_now: 'Apply Now',
+  subscribe: 'Subscribe',
+  get_quote: 'Get Quote',
+};
+
+export const VARIANT_MODE_OPTIONS: { value: AdVariantMode; label: string; description: string }[] = [
+  { value: 'split', label: 'Even split', description: 'Every variant gets the same share until you pick a winner' },
+  { value: 'bandit', label: 'Auto-optimize', description: 'Traffic shifts toward the variant with the better click-through rate' },
+];
+
+/** Fields whose change makes a variant a new creative (server VARIANT_CREATIVE_FIELDS) */
+const CREATIVE_FIELDS = [
+  'headline', 'description', 'imageUrl', 'videoUrl', 'thumbnailUrl', 'callToAction',
+  'r2ImageKey', 'r2VideoKey', 'r2ThumbnailKey',
+] as const;
+
+// ============================================================================
+// DRAFTS
+// ============================================================================
+
+/** One variant in the editor; `id` marks one that is already running */
+export interface VariantDraft {
+  id?: string;
+  headline: string;
+  description: string;
+  callToAction: CTAType;
+  imageUrl: string | null;
+  videoUrl: string | null;
+  thumbnailUrl: string | null;
+  r2ImageKey: string | null;
+  r2VideoKey: string | null;
+  r2ThumbnailKey: string | null;
+}
+
+const toDraft = (creative: AdVariantCreative, id?: string): VariantDraft => ({
+  ...(id ? { id } : {}),
+  headline: creative.headline,
+  description: creative.description ?? '',
+  callToAction: creative.callToAction,
+  imageUrl: creative.imageUrl,
+  videoUrl: creative.videoUrl,
+  thumbnailUrl: creative.thumbnailUrl,
+  r2ImageKey: creative.r2ImageKey ?? null,
+  r2VideoKey: creative.r2VideoKey ?? null,
+  r2ThumbnailKey: creative.r2ThumbnailKey ?? null,
+});
+
+/**
+ * The editor's starting drafts: the running variants, or — for a new test —
+ * the ad's own creative as A and a copy of its media, awaiting a new
+ * headline, as B.
+ */
+export function variantDrafts(test: AdCreativeTest): VariantDraft[] {
+  if (test.mode && test.variants.length > 0) return test.variants.map((variant) => toDraft(variant, variant.id));
+  const base = toDraft(test.base);
+  return [base, { ...base, headline: '' }];
+}
+
+/** Add a draft that reuses the last one's media — none past VARIANT_MAX */
+export function addDraft(drafts: VariantDraft[]): VariantDraft[] {
+  if (drafts.length >= VARIANT_MAX) return drafts;
+  const { id: _id, ...last } = drafts[drafts.length - 1];
+  return [...drafts, { ...last, headline: '', description: '' }];
+}
+
+/** Drop a draft — never below VARIANT_MIN */
+export function removeDraft(drafts: VariantDraft[], index: number): VariantDraft[] {
+  if (drafts.length <= VARIANT_MIN) return drafts;
+  return drafts.filter((_, i) => i !== index);
+}
+
+/** What a draft sends — trimmed, with an empty description as null */
+export function draftCreative(draft: VariantDraft): AdVariantCreative {
+  return {
+    ...(draft.id ? { id: draft.id } : {}),
+    headline: draft.headline.trim(),
+    description: draft.description.trim() || null,
+    callToAction: draft.callToAction,
+    imageUrl: draft.imageUrl,
+    videoUrl: draft.videoUrl,
+    thumbnailUrl: draft.thumbnailUrl,
+    r2ImageKey: draft.r2ImageKey,
+    r2VideoKey: draft.r2VideoKey,
+    r2ThumbnailKey: draft.r2ThumbnailKey,
+  };
+}
+
+const sameCreative = (a: Partial<AdVariantCreative>, b: Partial<AdVariantCreative>) =>
+  CREATIVE_FIELDS.every((field) => (a[field] ?? null) === (b[field] ?? null));
+
+/** Why the drafts can't be saved, or null when they can */
+export function variantDraftsError(drafts: VariantDraft[]): string | null {
+  if (drafts.length < VARIANT_MIN || drafts.length > VARIANT_MAX) {
+    return `A test needs ${VARIANT_MIN}–${VARIANT_MAX} variants`;
+  }
+  const creatives = drafts.map(draftCreative);
+  for (const [index, creative] of creatives.entries()) {
+    const label = VARIANT_LABELS[index];
+    if (!creative.headline) return `Give variant ${label} a headline`;
+    if (creative.headline.length > MAX_VARIANT_HEADLINE_CHARS) {
+      return `Keep variant ${label}'s headline under ${MAX_VARIANT_HEADLINE_CHARS} characters`;
+    }
+    if ((creative.description ?? '').length > MAX_VARIANT_DESCRIPTION_CHARS) {
+      return `Keep variant ${label}'s description under ${MAX_VARIANT_DESCRIPTION_CHARS} characters`;
+    }
+    if (!creative.imageUrl && !creative.videoUrl) return `Add an image or video to variant ${label}`;
+    const twin = creatives.findIndex((other, i) => i < index && sameCreative(other, creative));
+    if (twin >= 0) return `Variants ${VARIANT_LABELS[twin]} and ${label} are the same — change one`;
+  }
+  return null;
+}
+
+/**
+ * Whether saving the drafts sends the ad back to review: a reviewed ad
+ * whose drafts include a new variant or an edited one.
+ */
+export function draftsSendToReview(test: AdCreativeTest, drafts: VariantDraft[]): boolean {
+  if (!RESUBMITTED_FROM.includes(test.status)) return false;
+  return drafts.some((draft) => {
+    const running = draft.id ? test.variants.find((variant) => variant.id === draft.id) : undefined;
+    return !running || !sameCreative(running, draftCreative(draft));
+  });
+}
+
+// ============================================================================
+// READOUT
+// ============================================================================
+
+const labelOf = (test: AdCreativeTest, id: string | null) =>
+  test.variants.find((variant) => variant.id === id)?.label ?? '?';
+
+/** 0.625 → "63%" */
+export const formatShare = (share: number): string => `${Math.round(share * 100)}%`;
+
+/** What the test has shown so far, in one line */
+export function readoutLabel(test: AdCreativeTest): string {
+  if (test.winnerVariantId) return `${labelOf(test, test.winnerVariantId)} is the winner — it gets all the traffic`;
+  const { readout } = test;
+  if (readout.status === 'collecting') {
+    return `Collecting data — ${readout.needed.toLocaleString('en-US')} more impressions before a result`;
+  }
+  if (!readout.leaderId) return 'No clicks yet — no variant is ahead';
+  const leader = labelOf(test, readout.leaderId);
+  const runnerUp = labelOf(test, readout.runnerUpId);
+  const lift = readout.lift === null ? '' : ` by ${formatPercent(readout.lift)}`;
+  const confidence = formatPercent(readout.confidence * 100);
+  if (readout.status === 'significant') return `${leader} beats ${runnerUp}${lift} at ${confidence} confidence`;
+  return `No clear winner yet — ${leader} leads ${runnerUp}${lift} (${confidence} confidence)`;
+}
+
+/** The variant the advertiser can make the winner now, if any */
+export function winnerCandidate(test: AdCreativeTest): AdVariant | null {
+  if (test.winnerVariantId || test.readout.status !== 'significant') return null;
+  return test.variants.find((variant) => variant.id === test.readout.leaderId) ?? null;
+}
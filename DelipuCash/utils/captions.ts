@@ -0,0 +1,159 @@
+/**
+ * Captions — Pure Functions for Showing and Editing Caption Tracks
+ *
+ * A video's captions are one track per language (server/lib/captions.mjs):
+ * cues of `{ start, end, text }` in seconds, already parsed from the creator's
+ * WebVTT/SRT file or generated by the transcription worker. Feeds only carry
+ * `captionLanguages`; cues load when captions are actually shown.
+ *
+ * expo-video can only show subtitle tracks muxed into the stream, so the app
+ * draws captions itself (components/video/CaptionOverlay) — which is also what
+ * lets them follow the system's bold-text / high-contrast / font-size settings.
+ */
+
+import type { CaptionCue } from '@/types';
+
+// ============================================================================
+// LANGUAGES
+// ============================================================================
+
+/** Languages creators can caption in — the survey languages plus French and Kinyarwanda */
+export const CAPTION_LANGUAGES = [
+  { code: 'en', name: 'English' },
+  { code: 'lg', name: 'Luganda' },
+  { code: 'sw', name: 'Swahili' },
+  { code: 'fr', name: 'French' },
+  { code: 'rw', name: 'Kinyarwanda' },
+];
+
+export const getCaptionLanguageName = (code: string): string =>
+  CAPTION_LANGUAGES.find((l) => l.code === code)?.name ?? code.toUpperCase();
+
+/**
+ * The track to show: the viewer's last pick when this video has it, else the
+ * video's first track. Null when captions are off or there are none.
+ */
+export function pickCaptionLanguage(
+  available: readonly string[] | undefined,
+  preference: { enabled: boolean; language: string | null },
+): string | null {
+  if (!preference.enabled || !available || available.length === 0) return null;
+  if (preference.language && available.includes(preference.language)) return preference.language;
+  return available[0];
+}
+
+/**
+ * What the feed's CC button switches to next — off → first language → … →
+ * last language → off — so one button is both the toggle and the picker.
+ */
+export function nextCaptionLanguage(available: readonly string[], current: string | null): string | null {
+  if (available.length === 0) return null;
+  if (current === null) return available[0];
+  const index = available.indexOf(current);
+  return index === -1 || index === available.length - 1 ? null : available[index + 1];
+}
+
+// ============================================================================
+// PLAYBACK
+// ============================================================================
+
+/**
+ * Text to show at `time` — cues must be sorted by start (the server sorts
+ * them). Overlapping cues (two speakers) are shown together, earliest first.
+ */
+export function activeCueText(cues: readonly CaptionCue[], time: number): string | null {
+  // Last cue starting at or before `time`
+  let lo = 0;
+  let hi = cues.length - 1;
+  let last = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (cues[mid].start <= time) {
+      last = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  if (last === -1) return null;
+
+  // Earlier cues can still be on screen — look back a few for overlaps
+  const lines: string[] = [];
+  for (let i = Math.max(0, last - 4); i <= last; i += 1) {
+    if (cues[i].end > time) lines.push(cues[i].text);
+  }
+  return lines.length > 0 ? lines.join('\n') : null;
+}
+
+export interface CaptionAccessibility {
+  isBoldTextEnabled: boolean;
+  isGrayscaleEnabled: boolean;
+  isInvertColorsEnabled: boolean;
+}
+
+export interface CaptionAppearance {
+  fontWeight: '600' | '800';
+  /** Opacity of the box behind the text */
+  backgroundOpacity: number;
+}
+
+/**
+ * Caption look from the system accessibility settings: bold text makes the
+ * captions heavier, and grayscale / inverted colors (used by low-vision
+ * viewers) get an opaque box so the text never sits on busy video.
+ */
+export function captionAppearance(settings: CaptionAccessibility): CaptionAppearance {
+  const highContrast = settings.isGrayscaleEnabled || settings.isInvertColorsEnabled;
+  return {
+    fontWeight: settings.isBoldTextEnabled ? '800' : '600',
+    backgroundOpacity: highContrast ? 1 : 0.75,
+  };
+}
+
+// ============================================================================
+// EDITING
+// ============================================================================
+
+/** Mirrors CAPTION_LIMITS in server/lib/captions.mjs */
+export const MAX_CUE_CHARS = 300;
+
+/** Seconds → "m:ss.s" for the editor's time fields (e.g. 83.45 → "1:23.5") */
+export function formatCueTime(seconds: number): string {
+  const tenths = Math.max(0, Math.round(seconds * 10));
+  const minutes = Math.floor(tenths / 600);
+  const rest = (tenths % 600) / 10;
+  return `${minutes}:${rest < 10 ? '0' : ''}${rest.toFixed(1)}`;
+}
+
+/** "1:23.5", "83.5" or "1:02:03" → seconds; null if unreadable */
+export function parseCueTime(text: string): number | null {
+  const value = text.trim();
+  if (!/^\d+(:\d{1,2}){0,2}(\.\d+)?$/.test(value)) return null;
+  const parts = value.split(':').map(Number);
+  const seconds = parts.reduce((total, part) => total * 60 + part, 0);
+  return Number.isFinite(seconds) ? Math.round(seconds * 1000) / 1000 : null;
+}
+
+/**
+ * The first problem with an edited track, matching the server's validateCues
+ * so the editor can point at the cue before saving. Null when it's valid.
+ */
+export function validateCueEdits(cues: readonly CaptionCue[]): { index: number; message: string } | null {
+  if (cues.length === 0) return { index: -1, message: 'A caption track needs at least one line' };
+  for (let index = 0; index < cues.length; index += 1) {
+    const { start, end, text } = cues[index];
+    if (!Number.isFinite(start) || !Number.isFinite(end) || start < 0) return { index, message: 'Check the times' };
+    if (end <= start) return { index, message: 'Must end after it starts' };
+    if (!text.trim()) return { index, message: 'Add some text or delete this line' };
+    if (text.trim().length > MAX_CUE_CHARS) return { index, message: `Keep it under ${MAX_CUE_CHARS} characters` };
+  }
+  return null;
+}
+
+/** A new cue right after `index` (or at the start), lasting two seconds */
+export function insertCueAfter(cues: readonly CaptionCue[], index: number): CaptionCue[] {
+  const start = index >= 0 && cues[index] ? cues[index].end : 0;
+  const next = [...cues];
+  next.splice(index + 1, 0, { start, end: Math.round((start + 2) * 1000) / 1000, text: '' });
+  return next;
+}
@@ -3,7 +3,9 @@
  *
  * Automatically maps imported file headers to expected question fields.
  * Uses normalized string matching + fuzzy (Levenshtein) distance for
- * high-confidence auto-mapping.
+ * high-confidence auto-mapping. Translation columns (`text_lg`,
+ * `options_sw`, "Text (Luganda)") map to localized fields so a bilingual
+ * sheet imports as one multilingual survey.
  *
  * No React dependencies — fully testable.
  */
@@ -12,7 +14,7 @@
 // TYPES
 // ============================================================================
 
-export type TargetField =
+type BaseTargetField =
   | 'text'
   | 'type'
   | 'options'
@@ -22,6 +24,20 @@ export type TargetField =
   | 'placeholder'
   | 'points';
 
+/** Fields that have a per-language column */
+export type TranslatableField = 'text' | 'options' | 'placeholder';
+
+/** e.g. 'text_lg', 'options_sw' */
+export type LocalizedTargetField = `${TranslatableField}_${string}`;
+
+export type TargetField = BaseTargetField | LocalizedTargetField;
+
+export interface TranslationColumn {
+  headerIndex: number;
+  field: TranslatableField;
+  language: string;
+}
+
 export interface ColumnMapping {
   /** Index in the CSV/TSV headers array */
   headerIndex: number;
@@ -38,7 +54,7 @@ export interface ColumnMapping {
 // ============================================================================
 
 /** Map of target field → known aliases (lowercase, trimmed) */
-const FIELD_ALIASES: Record<TargetField, string[]> = {
+const FIELD_ALIASES: Record<BaseTargetField, string[]> = {
   text: [
     'text', 'question', 'question_text', 'questiontext', 'label', 'prompt',
     'title', 'question text', 'survey question', 'q', 'item',
@@ -73,6 +89,22 @@ const FIELD_ALIASES: Record<TargetField, string[]> = {
   ],
 };
 
+/**
+ * Header suffixes per survey language. Only these are recognised, so headers
+ * like `question_id` never turn into translation columns.
+ */
+const TRANSLATION_LANGUAGE_ALIASES: Record<string, string[]> = {
+  lg: ['lg', 'luganda'],
+  sw: ['sw', 'swahili', 'kiswahili'],
+};
+
+/** Header prefixes per translatable field */
+const TRANSLATABLE_FIELD_ALIASES: Record<TranslatableField, string[]> = {
+  text: ['text', 'question', 'question_text', 'label'],
+  options: ['options', 'choices', 'answers'],
+  placeholder: ['placeholder', 'hint'],
+};
+
 // ============================================================================
 // LEVENSHTEIN DISTANCE
 // ============================================================================
@@ -135,14 +167,35 @@ interface MatchResult {
   confidence: number;
 }
 
+/** "<field> <language>" headers, e.g. "text_lg" or "options swahili" */
+function matchTranslationHeader(normalizedHeader: string): MatchResult | null {
+  const parts = normalizedHeader.split(/[\s_]+/);
+  if (parts.length < 2) return null;
+  const suffix = parts[parts.length - 1];
+  const base = parts.slice(0, -1).join('_');
+
+  const language = Object.keys(TRANSLATION_LANGUAGE_ALIASES).find((code) =>
+    TRANSLATION_LANGUAGE_ALIASES[code].includes(suffix)
+  );
+  if (!language) return null;
+  const field = (Object.keys(TRANSLATABLE_FIELD_ALIASES) as TranslatableField[]).find((f) =>
+    TRANSLATABLE_FIELD_ALIASES[f].includes(base)
+  );
+  return field ? { field: `${field}_${language}`, confidence: 1.0 } : null;
+}
+
 /**
  * Try to match a normalized header to a target field.
  * Returns the best match with confidence score, or null if no match.
  */
 function matchHeader(normalizedHeader: string): MatchResult | null {
+  // Translation columns first — "text_lg" would otherwise contain-match "text"
+  const translation = matchTranslationHeader(normalizedHeader);
+  if (translation) return translation;
+
   let bestMatch: MatchResult | null = null;
 
-  for (const [field, aliases] of Object.entries(FIELD_ALIASES) as [TargetField, string[]][]) {
+  for (const [field, aliases] of Object.entries(FIELD_ALIASES) as [BaseTargetField, string[]][]) {
     // 1. Exact match → confidence 1.0
     if (aliases.includes(normalizedHeader)) {
       return { field, confidence: 1.0 };
@@ -244,6 +297,18 @@ export function autoMapColumns(headers: string[]): ColumnMapping[] {
   return results;
 }
 
+/**
+ * Columns holding a translation, with the field and language they translate.
+ */
+export function getTranslationColumns(mappings: ColumnMapping[]): TranslationColumn[] {
+  return mappings.flatMap((m) => {
+    const match = /^(text|options|placeholder)_([a-z]{2,3})$/.exec(m.targetField ?? '');
+    return match
+      ? [{ headerIndex: m.headerIndex, field: match[1] as TranslatableField, language: match[2] }]
+      : [];
+  });
+}
+
 /**
  * Get the confidence level label for display.
  */
@@ -0,0 +1,277 @@
+/**
+ * Comment Threads — Pure Functions for Threaded Video Comments
+ *
+ * Video comments thread two levels deep (server/lib/videoComments.mjs): a
+ * top-level comment, its replies, and replies to those. The list endpoint
+ * returns top-level comments with the first few replies embedded; a thread's
+ * full set of replies loads on demand into its own cache entry. Everything
+ * here works on those two shapes:
+ *  - placing, replacing and removing a comment by its thread position (used by
+ *    the optimistic updaters and by live `video.comment` events);
+ *  - flattening threads into the rows VideoCommentsSheet renders;
+ *  - @mentions: detecting the query being typed, suggesting followed creators,
+ *    inserting a mention and keeping mention spans aligned while the text is edited.
+ */
+
+import type { Comment, CommentMention, CommentReaction, FollowedCreator } from '@/types';
+
+// ============================================================================
+// THREAD PLACEMENT
+// ============================================================================
+
+/** Replies a thread cache holds — `[...comments(videoId), 'thread', rootId]` */
+export interface CommentThreadData {
+  rootId: string;
+  replies: Comment[];
+  total: number;
+}
+
+/** Threads stop here — replies to a depth-2 comment are filed next to it */
+export const MAX_COMMENT_DEPTH = 2;
+
+/**
+ * Where a reply to `parent` lands (null parent → top-level). Mirrors the
+ * server's threadPosition so optimistic replies appear where they'll stay.
+ */
+export function threadPosition(
+  parent: Pick<Comment, 'id' | 'parentId' | 'rootId' | 'depth'> | null | undefined,
+): { parentId: string | null; rootId: string | null; depth: number } {
+  if (!parent) return { parentId: null, rootId: null, depth: 0 };
+  const depth = parent.depth ?? 0;
+  if (depth >= MAX_COMMENT_DEPTH) {
+    return { parentId: parent.parentId ?? null, rootId: parent.rootId ?? null, depth: MAX_COMMENT_DEPTH };
+  }
+  return { parentId: parent.id, rootId: parent.rootId ?? parent.id, depth: depth + 1 };
+}
+
+const containsComment = (list: readonly Comment[], id: string): boolean =>
+  list.some((c) => c.id === id || (c.replies ?? []).some((r) => r.id === id));
+
+const bumpReplyCount = (comment: Comment, delta: number): Comment => ({
+  ...comment,
+  replyCount: Math.max(0, (comment.replyCount ?? 0) + delta),
+});
+
+/**
+ * `list` of top-level comments with `comment` placed by its thread position:
+ * a top-level comment goes first (after a pinned comment), a reply joins its
+ * thread's embedded replies and bumps the reply counts. Returns `list`
+ * itself when the comment is already there or its thread isn't loaded.
+ */
+export function insertComment(list: readonly Comment[], comment: Comment): Comment[] {
+  if (containsComment(list, comment.id)) return list as Comment[];
+
+  if (!comment.parentId) {
+    const at = list[0]?.isPinned ? 1 : 0;
+    return [...list.slice(0, at), comment, ...list.slice(at)];
+  }
+
+  const rootId = comment.rootId ?? comment.parentId;
+  if (!list.some((c) => c.id === rootId)) return list as Comment[];
+  return list.map((c) => {
+    if (c.id !== rootId) return c;
+    const replies = (c.replies ?? []).map((r) => (r.id === comment.parentId ? bumpReplyCount(r, 1) : r));
+    return { ...bumpReplyCount(c, 1), replies: [...replies, comment] };
+  });
+}
+
+/** `list` without comment `id`, wherever it sits; reply counts follow */
+export function removeComment(list: readonly Comment[], id: string): Comment[] {
+  if (!containsComment(list, id)) return list as Comment[];
+  return list
+    .filter((c) => c.id !== id)
+    .map((c) => {
+      const removed = (c.replies ?? []).find((r) => r.id === id);
+      if (!removed) return c;
+      const replies = (c.replies ?? [])
+        .filter((r) => r.id !== id)
+        .map((r) => (r.id === removed.parentId ? bumpReplyCount(r, -1) : r));
+      return { ...bumpReplyCount(c, -1), replies };
+    });
+}
+
+/** `list` with comment `next.id` swapped for `next` (its loaded replies are kept) */
+export function replaceComment(list: readonly Comment[], next: Comment, previousId: string = next.id): Comment[] {
+  if (!containsComment(list, previousId)) return list as Comment[];
+  const swap = (c: Comment): Comment =>
+    c.id === previousId ? { ...c, ...next, replies: next.replies ?? c.replies } : c;
+  return list.map((c) => {
+    const swapped = swap(c);
+    return swapped.replies ? { ...swapped, replies: swapped.replies.map(swap) } : swapped;
+  });
+}
+
+/** Thread cache with `comment` added (if it belongs to this thread), removed or replaced */
+export function updateThread(
+  thread: CommentThreadData,
+  op: { add?: Comment; removeId?: string; replace?: Comment; previousId?: string },
+): CommentThreadData {
+  if (op.add) {
+    const belongs = op.add.rootId === thread.rootId && !thread.replies.some((r) => r.id === op.add!.id);
+    return belongs ? { ...thread, replies: [...thread.replies, op.add], total: thread.total + 1 } : thread;
+  }
+  if (op.removeId) {
+    const replies = thread.replies.filter((r) => r.id !== op.removeId);
+    return replies.length === thread.replies.length ? thread : { ...thread, replies, total: Math.max(0, thread.total - 1) };
+  }
+  if (op.replace) {
+    const previousId = op.previousId ?? op.replace.id;
+    if (!thread.replies.some((r) => r.id === previousId)) return thread;
+    return { ...thread, replies: thread.replies.map((r) => (r.id === previousId ? { ...r, ...op.replace } : r)) };
+  }
+  return thread;
+}
+
+/** `comment` with the viewer's `emoji` reaction toggled — the optimistic reaction tap */
+export function toggleReaction(comment: Comment, emoji: CommentReaction): Comment {
+  const mine = comment.myReactions ?? [];
+  const had = mine.includes(emoji);
+  const count = Math.max(0, (comment.reactions?.[emoji] ?? 0) + (had ? -1 : 1));
+  const reactions = { ...comment.reactions, [emoji]: count };
+  if (count === 0) delete reactions[emoji];
+  return {
+    ...comment,
+    reactions,
+    myReactions: had ? mine.filter((e) => e !== emoji) : [...mine, emoji],
+  };
+}
+
+// ============================================================================
+// ROWS
+// ============================================================================
+
+export type CommentRow =
+  | { type: 'comment'; key: string; comment: Comment; depth: 0 | 1 | 2 }
+  | { type: 'more'; key: string; rootId: string; remaining: number };
+
+const byCreatedAt = (a: Comment, b: Comment) => a.createdAt.localeCompare(b.createdAt);
+
+/**
+ * Flatten top-level comments into sheet rows: each comment, then its replies
+ * (a reply's own replies straight under it), then a "view N more" row while
+ * the thread has replies that aren't loaded. `threads` holds the fully loaded
+ * threads by root id; otherwise the embedded preview replies are shown.
+ */
+export function buildCommentRows(
+  comments: readonly Comment[],
+  threads: Readonly<Record<string, readonly Comment[] | undefined>> = {},
+): CommentRow[] {
+  const rows: CommentRow[] = [];
+  for (const comment of comments) {
+    rows.push({ type: 'comment', key: comment.id, comment, depth: 0 });
+
+    const byId = new Map<string, Comment>();
+    for (const reply of [...(comment.replies ?? []), ...(threads[comment.id] ?? [])]) byId.set(reply.id, reply);
+    const replies = [...byId.values()].sort(byCreatedAt);
+
+    const placed = new Set<string>();
+    const children = (parentId: string) => replies.filter((r) => r.parentId === parentId && !placed.has(r.id));
+    const place = (reply: Comment, depth: 1 | 2) => {
+      placed.add(reply.id);
+      rows.push({ type: 'comment', key: reply.id, comment: reply, depth });
+    };
+    for (const reply of children(comment.id)) {
+      place(reply, 1);
+      for (const nested of children(reply.id)) place(nested, 2);
+    }
+    // Replies whose parent isn't loaded still show, at their own depth
+    for (const reply of replies) {
+      if (!placed.has(reply.id)) place(reply, (reply.depth ?? 1) >= 2 ? 2 : 1);
+    }
+
+    const remaining = (comment.replyCount ?? 0) - placed.size;
+    if (remaining > 0) rows.push({ type: 'more', key: `more_${comment.id}`, rootId: comment.id, remaining });
+  }
+  return rows;
+}
+
+// ============================================================================
+// MENTIONS
+// ============================================================================
+
+export const creatorName = (creator: Pick<FollowedCreator, 'firstName' | 'lastName'>): string =>
+  [creator.firstName, creator.lastName].filter(Boolean).join(' ').trim();
+
+/**
+ * The @query being typed at `cursor` — `{ start, query }` where `start` is the
+ * '@' — or null when the cursor isn't in one. The query may not contain spaces.
+ */
+export function activeMentionQuery(text: string, cursor: number = text.length): { start: number; query: string } | null {
+  const match = /(^|\s)@([^\s@]{0,30})$/.exec(text.slice(0, cursor));
+  if (!match) return null;
+  return { start: match.index + match[1].length, query: match[2] };
+}
+
+/** Followed creators whose first or last name starts with `query` (case-insensitive) */
+export function filterMentionSuggestions(
+  creators: readonly FollowedCreator[],
+  query: string,
+  limit: number = 5,
+): FollowedCreator[] {
+  const q = query.toLowerCase();
+  return creators
+    .filter((c) => creatorName(c).toLowerCase().split(/\s+/).some((part) => part.startsWith(q)))
+    .slice(0, limit);
+}
+
+/**
+ * Mention spans after editing `prev` into `next`: spans before the edit stay,
+ * spans after it shift with it, and any span the edit touched is dropped
+ * (a half-deleted "@Ann Le" is no longer a mention).
+ */
+export function shiftMentions(prev: string, next: string, mentions: readonly CommentMention[]): CommentMention[] {
+  if (prev === next) return mentions as CommentMention[];
+  let start = 0;
+  while (start < prev.length && start < next.length && prev[start] === next[start]) start += 1;
+  let prevEnd = prev.length;
+  let nextEnd = next.length;
+  while (prevEnd > start && nextEnd > start && prev[prevEnd - 1] === next[nextEnd - 1]) {
+    prevEnd -= 1;
+    nextEnd -= 1;
+  }
+  const delta = nextEnd - prevEnd;
+  return mentions.flatMap((m) => {
+    if (m.offset + m.length <= start) return [m];
+    if (m.offset >= prevEnd) return [{ ...m, offset: m.offset + delta }];
+    return [];
+  });
+}
+
+/**
+ * Replace the @query at `query.start`…`cursor` with "@First Last " and record
+ * the span. Returns the new text, mentions and cursor position.
+ */
+export function insertMention(
+  text: string,
+  mentions: readonly CommentMention[],
+  query: { start: number },
+  cursor: number,
+  creator: FollowedCreator,
+): { text: string; mentions: CommentMention[]; cursor: number } {
+  const label = `@${creatorName(creator)}`;
+  const nextText = `${text.slice(0, query.start)}${label} ${text.slice(cursor)}`;
+  const shifted = shiftMentions(text, nextText, mentions).filter((m) => m.offset !== query.start);
+  const mention: CommentMention = { userId: creator.id, offset: query.start, length: label.length };
+  return {
+    text: nextText,
+    mentions: [...shifted, mention].sort((a, b) => a.offset - b.offset),
+    cursor: query.start + label.length + 1,
+  };
+}
+
+/** `text` split into plain and mention segments, for highlighting mentions */
+export function mentionSegments(
+  text: string,
+  mentions: readonly CommentMention[] | undefined,
+): { text: string; userId?: string }[] {
+  const segments: { text: string; userId?: string }[] = [];
+  let at = 0;
+  for (const m of [...(mentions ?? [])].sort((a, b) => a.offset - b.offset)) {
+    if (m.offset < at || m.offset + m.length > text.length) continue;
+    if (m.offset > at) segments.push({ text: text.slice(at, m.offset) });
+    segments.push({ text: text.slice(m.offset, m.offset + m.length), userId: m.userId });
+    at = m.offset + m.length;
+  }
+  if (at < text.length) segments.push({ text: text.slice(at) });
+  return segments;
+}
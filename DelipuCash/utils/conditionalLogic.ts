@@ -1,7 +1,8 @@
 /**
  * Conditional Logic Engine — Pure Functions for Survey Branching
  *
- * Evaluates conditional display rules to show/hide questions based on answers.
+ * Evaluates conditional display rules to show/hide questions based on answers,
+ * and resolves `skip_to` jumps into the respondent's navigation path.
  * Used by both the survey builder (preview) and respondent survey screen.
  *
  * No React dependencies — fully testable.
@@ -13,6 +14,9 @@ import type { ConditionalLogicConfig, ConditionalRule, BuilderQuestionData } fro
 // TYPES
 // ============================================================================
 
+/** `targetQuestionId` sentinel: jump straight to review & submit */
+export const SKIP_TO_END = '__end__';
+
 /** Answer values from the survey attempt store */
 export type AnswerMap = Record<string, string | number | boolean | string[] | null | undefined>;
 
@@ -83,21 +87,31 @@ export function evaluateCondition(rule: ConditionalRule, answers: AnswerMap): bo
 // ============================================================================
 
 /**
- * Evaluate all rules in a conditional logic config using AND/OR logic.
- * Returns true if the question should be SHOWN.
+ * Whether a rule is a jump rule. Rules persisted before `action` was honoured
+ * may lack the field entirely — those are show rules.
+ */
+export function isSkipRule(rule: ConditionalRule): boolean {
+  return rule.action === 'skip_to';
+}
+
+/**
+ * Evaluate the SHOW rules in a conditional logic config using AND/OR logic.
+ * Returns true if the question should be SHOWN. `skip_to` rules never affect
+ * visibility — they only steer navigation (see resolveSkipTarget).
  */
 export function evaluateConditions(
   config: ConditionalLogicConfig,
   answers: AnswerMap
 ): boolean {
-  if (!config.rules || config.rules.length === 0) return true;
+  const showRules = (config.rules ?? []).filter((rule) => !isSkipRule(rule));
+  if (showRules.length === 0) return true;
 
   if (config.logicType === 'all') {
     // AND: all rules must be true
-    return config.rules.every((rule) => evaluateCondition(rule, answers));
+    return showRules.every((rule) => evaluateCondition(rule, answers));
   } else {
     // OR: at least one rule must be true
-    return config.rules.some((rule) => evaluateCondition(rule, answers));
+    return showRules.some((rule) => evaluateCondition(rule, answers));
   }
 }
 
@@ -160,6 +174,90 @@ export function buildLogicAnswersKey(answers: AnswerMap, sourceIds: Set<string>)
   return JSON.stringify([...sourceIds].sort().map((id) => [id, answers[id] ?? null]));
 }
 
+// ============================================================================
+// SKIP-TO NAVIGATION
+// ============================================================================
+
+type NavigableQuestion = { id: string; conditionalLogic?: ConditionalLogicConfig | null };
+
+/**
+ * The jump a question requests when the respondent leaves it. Skip rules are
+ * independent branches (logicType only combines show rules): the first matching
+ * rule wins, in authoring order. Returns the target question id, SKIP_TO_END,
+ * or null when no skip rule matches.
+ */
+export function resolveSkipTarget(
+  question: { conditionalLogic?: ConditionalLogicConfig | null },
+  answers: AnswerMap
+): string | null {
+  for (const rule of question.conditionalLogic?.rules ?? []) {
+    if (!isSkipRule(rule) || !rule.targetQuestionId) continue;
+    if (evaluateCondition(rule, answers)) return rule.targetQuestionId;
+  }
+  return null;
+}
+
+/**
+ * Resolve the question that follows `currentId`: honour the current question's
+ * skip rules, then advance to the first question at or after the landing point
+ * whose show rules pass. Returns null when the respondent has reached the end
+ * (last question, or a SKIP_TO_END jump).
+ *
+ * Jumps are forward-only (validateConditionalLogic rejects anything else); a
+ * backward or unknown target is ignored here so a bad rule can never trap a
+ * respondent in a loop.
+ */
+export function resolveNextQuestionId<T extends NavigableQuestion>(
+  allQuestions: T[],
+  currentId: string,
+  answers: AnswerMap
+): string | null {
+  const currentIndex = allQuestions.findIndex((q) => q.id === currentId);
+  if (currentIndex === -1) return null;
+
+  let landingIndex = currentIndex + 1;
+  const target = resolveSkipTarget(allQuestions[currentIndex], answers);
+  if (target === SKIP_TO_END) return null;
+  if (target) {
+    const targetIndex = allQuestions.findIndex((q) => q.id === target);
+    if (targetIndex > currentIndex) landingIndex = targetIndex;
+  }
+
+  for (let i = landingIndex; i < allQuestions.length; i++) {
+    if (isQuestionVisible(allQuestions[i], answers)) return allQuestions[i].id;
+  }
+  return null;
+}
+
+/**
+ * The ordered questions a respondent will actually traverse for the given
+ * answers: visibility from show rules, jumps from skip rules. Questions jumped
+ * over are excluded, so progress, required-answer checks and submission all
+ * operate on the same set.
+ */
+export function getSurveyPath<T extends NavigableQuestion>(
+  allQuestions: T[],
+  answers: AnswerMap
+): T[] {
+  const byId = new Map(allQuestions.map((q) => [q.id, q]));
+  const path: T[] = [];
+  let current = allQuestions.find((q) => isQuestionVisible(q, answers));
+  while (current) {
+    path.push(current);
+    const nextId = resolveNextQuestionId(allQuestions, current.id, answers);
+    current = nextId ? byId.get(nextId) : undefined;
+  }
+  return path;
+}
+
+/**
+ * Whether any question carries a skip rule — lets callers keep the cheap
+ * visibility-only fast path for surveys without branching.
+ */
+export function hasSkipLogic(questions: { conditionalLogic?: ConditionalLogicConfig | null }[]): boolean {
+  return questions.some((q) => q.conditionalLogic?.rules?.some(isSkipRule) ?? false);
+}
+
 // ============================================================================
 // AVAILABLE OPERATORS PER QUESTION TYPE
 // ============================================================================
@@ -180,6 +278,11 @@ const OPERATORS_BY_TYPE: Record<string, OperatorType[]> = {
   date: ['equals', 'not_equals', ...COMMON_OPERATORS],
   time: ['equals', 'not_equals', ...COMMON_OPERATORS],
   file_upload: [...COMMON_OPERATORS],
+  nps: ['equals', 'not_equals', 'greater_than', 'less_than', ...COMMON_OPERATORS],
+  // Matrix and ranking answers are whole grids/orders — a single value
+  // comparison has no clear meaning, so only answered/unanswered branch
+  matrix: [...COMMON_OPERATORS],
+  ranking: [...COMMON_OPERATORS],
 };
 
 /**
@@ -218,7 +321,8 @@ export function operatorRequiresValue(operator: OperatorType): boolean {
 
 /**
  * Validate all conditional logic rules across all questions.
- * Catches circular dependencies, references to nonexistent or later questions, etc.
+ * Catches circular dependencies, references to nonexistent or later questions,
+ * and skip_to jumps that are missing, dangling, backward or cyclic.
  */
 export function validateConditionalLogic(
   questions: Pick<BuilderQuestionData, 'id' | 'conditionalLogic'>[]
@@ -232,6 +336,7 @@ export function validateConditionalLogic(
 
     for (let i = 0; i < question.conditionalLogic.rules.length; i++) {
       const rule = question.conditionalLogic.rules[i];
+      const skip = isSkipRule(rule);
 
       // Rule references a nonexistent question
       if (!questionIds.has(rule.sourceQuestionId)) {
@@ -243,8 +348,8 @@ export function validateConditionalLogic(
         continue;
       }
 
-      // Self-reference
-      if (rule.sourceQuestionId === question.id) {
+      // Self-reference — a skip rule may branch on its own host's answer
+      if (!skip && rule.sourceQuestionId === question.id) {
         errors.push({
           questionId: question.id,
           ruleIndex: i,
@@ -256,19 +361,48 @@ export function validateConditionalLogic(
       // Reference to a later question (branching should only look backward)
       const sourceOrder = questionOrder.get(rule.sourceQuestionId) ?? -1;
       const targetOrder = questionOrder.get(question.id) ?? -1;
-      if (sourceOrder >= targetOrder) {
+      if (skip ? sourceOrder > targetOrder : sourceOrder >= targetOrder) {
+        errors.push({
+          questionId: question.id,
+          ruleIndex: i,
+          message: skip
+            ? `Skip logic can only reference this question or ones before it`
+            : `Conditional logic can only reference questions that appear before this one`,
+        });
+        continue;
+      }
+
+      if (!skip) continue;
+
+      // Skip destination must exist and lie strictly after the host question
+      if (!rule.targetQuestionId) {
         errors.push({
           questionId: question.id,
           ruleIndex: i,
-          message: `Conditional logic can only reference questions that appear before this one`,
+          message: `Choose where this rule should skip to`,
         });
+      } else if (rule.targetQuestionId !== SKIP_TO_END) {
+        if (!questionIds.has(rule.targetQuestionId)) {
+          errors.push({
+            questionId: question.id,
+            ruleIndex: i,
+            message: `Skip target is a question that no longer exists`,
+          });
+        } else if ((questionOrder.get(rule.targetQuestionId) ?? -1) <= targetOrder) {
+          errors.push({
+            questionId: question.id,
+            ruleIndex: i,
+            message: `Skip logic can only jump forward to a later question`,
+          });
+        }
       }
     }
   }
 
   // Check for circular dependencies (A depends on B, B depends on A)
   // Since we enforce "only reference previous questions" above, circular deps
-  // are structurally impossible. But we add a safety check anyway.
+  // are structurally impossible. But we add a safety check anyway. A skip rule
+  // reading its own host's answer is not a dependency edge.
   const visited = new Set<string>();
   const visiting = new Set<string>();
 
@@ -280,6 +414,7 @@ export function validateConditionalLogic(
     const q = questions.find((qq) => qq.id === qId);
     if (q?.conditionalLogic?.rules) {
       for (const rule of q.conditionalLogic.rules) {
+        if (isSkipRule(rule) && rule.sourceQuestionId === qId) continue;
         if (hasCycle(rule.sourceQuestionId)) {
           errors.push({
             questionId: qId,
@@ -302,5 +437,39 @@ export function validateConditionalLogic(
     }
   }
 
+  // Jump cycles: follow every possible navigation edge (fall-through to the
+  // next question plus each skip target). Forward-only jumps make this
+  // impossible too, but a loop here would trap respondents, so check it.
+  const jumpVisited = new Set<string>();
+  const jumpVisiting = new Set<string>();
+
+  function walkJumps(index: number): void {
+    const q = questions[index];
+    if (!q || jumpVisited.has(q.id)) return;
+
+    jumpVisiting.add(q.id);
+    walkJumps(index + 1);
+    const rules = q.conditionalLogic?.rules ?? [];
+    for (let i = 0; i < rules.length; i++) {
+      const rule = rules[i];
+      if (!isSkipRule(rule) || !rule.targetQuestionId) continue;
+      const targetIndex = questionOrder.get(rule.targetQuestionId);
+      if (targetIndex === undefined) continue;
+      if (jumpVisiting.has(rule.targetQuestionId)) {
+        errors.push({
+          questionId: q.id,
+          ruleIndex: i,
+          message: `Skip logic creates a loop between questions`,
+        });
+        continue;
+      }
+      walkJumps(targetIndex);
+    }
+    jumpVisiting.delete(q.id);
+    jumpVisited.add(q.id);
+  }
+
+  walkJumps(0);
+
   return errors;
 }
@@ -0,0 +1,332 @@
+/**
+ * Cross-tabulation and respondent segments for survey response analytics —
+ * pure functions used by the Compare view and the segment filter in
+ * app/survey-responses/[id].tsx.
+ *
+ * Answers are bucketed into categories by question type: option text for
+ * choice questions, Yes/No for boolean, the score for rating and NPS, and the
+ * first-place pick for a ranking. A checkbox respondent lands in every option
+ * they ticked, so a checkbox table counts selections rather than people and
+ * its chi-square is only indicative.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** The parts of an UploadSurvey the cross-tab needs */
+export interface CrossTabQuestion {
+  id: string;
+  type: string;
+  options?: string | null;
+  maxValue?: number | null;
+}
+
+/** The parts of a ParsedResponse the cross-tab needs */
+export interface CrossTabResponse {
+  responses: Record<string, unknown>;
+}
+
+export interface ChiSquareResult {
+  statistic: number;
+  degreesOfFreedom: number;
+  pValue: number;
+  /** p < SIGNIFICANCE_LEVEL */
+  significant: boolean;
+  /** More than 20% of cells expect fewer than 5 — the approximation is unreliable */
+  sparse: boolean;
+}
+
+export interface CrossTab {
+  rowQuestionId: string;
+  columnQuestionId: string;
+  /** Row categories (answers to the row question), declared order first */
+  rows: string[];
+  columns: string[];
+  /** counts[row][column] */
+  counts: number[][];
+  rowTotals: number[];
+  columnTotals: number[];
+  total: number;
+  /** Respondents who answered both questions */
+  respondents: number;
+  /** % of each row's total, 0–100 */
+  rowPercents: number[][];
+  /** % of each column's total, 0–100 */
+  columnPercents: number[][];
+  /** null until there are at least 2 rows and 2 columns */
+  chiSquare: ChiSquareResult | null;
+}
+
+/** A saved "respondents who chose X" filter, scoped to one survey */
+export interface ResponseSegment {
+  id: string;
+  surveyId: string;
+  name: string;
+  questionId: string;
+  /** Categories (see getAnswerCategories) — matching any one qualifies */
+  values: string[];
+}
+
+export const SIGNIFICANCE_LEVEL = 0.05;
+
+/** Question types that bucket into categories and can be cross-tabulated or segmented on */
+export const CROSS_TAB_TYPES = ['radio', 'dropdown', 'checkbox', 'boolean', 'rating', 'nps', 'ranking'];
+
+export function isCrossTabQuestion(question: { type: string }): boolean {
+  return CROSS_TAB_TYPES.includes(question.type.toLowerCase());
+}
+
+// ============================================================================
+// CATEGORIES
+// ============================================================================
+
+const parseOptions = (options: string | null | undefined): string[] => {
+  try {
+    const parsed = JSON.parse(options || '[]');
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * The categories one answer falls into — usually one, several for a checkbox,
+ * none when unanswered. Boolean answers follow the response aggregate: true,
+ * "yes" and "1" are Yes, anything else No.
+ */
+export function getAnswerCategories(type: string, answer: unknown): string[] {
+  if (answer === undefined || answer === null || answer === '') return [];
+  switch (type.toLowerCase()) {
+    case 'boolean': {
+      const value = String(answer).toLowerCase();
+      return [value === 'true' || value === 'yes' || value === '1' ? 'Yes' : 'No'];
+    }
+    case 'rating':
+    case 'nps': {
+      const score = typeof answer === 'number' ? answer : Number(answer);
+      return Number.isFinite(score) ? [String(score)] : [];
+    }
+    case 'ranking':
+      return Array.isArray(answer) && answer.length > 0 ? [String(answer[0])] : [];
+    default:
+      if (Array.isArray(answer)) {
+        return [...new Set(answer.filter((a) => a !== '' && a != null).map(String))];
+      }
+      return [String(answer)];
+  }
+}
+
+/** Every category a question can produce, in the order the owner expects to read them */
+export function getDeclaredCategories(question: CrossTabQuestion): string[] {
+  switch (question.type.toLowerCase()) {
+    case 'boolean':
+      return ['Yes', 'No'];
+    case 'rating':
+      return Array.from({ length: question.maxValue || 5 }, (_, i) => String(i + 1));
+    case 'nps':
+      return Array.from({ length: 11 }, (_, i) => String(i));
+    default:
+      return parseOptions(question.options);
+  }
+}
+
+/** Declared categories that occur, then any undeclared ones (renamed options) in first-seen order */
+function orderCategories(declared: string[], seen: Set<string>): string[] {
+  const extras = [...seen].filter((c) => !declared.includes(c));
+  return [...declared.filter((c) => seen.has(c)), ...extras];
+}
+
+// ============================================================================
+// CHI-SQUARE
+// ============================================================================
+
+const LANCZOS = [
+  676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059,
+  12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+];
+
+function logGamma(z: number): number {
+  if (z < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * z)) - logGamma(1 - z);
+  const x = z - 1;
+  let sum = 0.99999999999980993;
+  LANCZOS.forEach((c, i) => {
+    sum += c / (x + i + 1);
+  });
+  const t = x + LANCZOS.length - 0.5;
+  return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+const EPSILON = 1e-12;
+const TINY = 1e-300;
+const MAX_ITERATIONS = 300;
+
+/** Q(a, x) — the regularized upper incomplete gamma function */
+function upperIncompleteGamma(a: number, x: number): number {
+  if (x <= 0) return 1;
+  const prefix = Math.exp(-x + a * Math.log(x) - logGamma(a));
+  if (x < a + 1) {
+    // Series for P(a, x), then Q = 1 − P
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n < MAX_ITERATIONS && Math.abs(term) > Math.abs(sum) * EPSILON; n++) {
+      term *= x / (a + n);
+      sum += term;
+    }
+    return 1 - sum * prefix;
+  }
+  // Continued fraction for Q(a, x) (modified Lentz)
+  let b = x + 1 - a;
+  let c = 1 / TINY;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < MAX_ITERATIONS; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = b + an / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < EPSILON) break;
+  }
+  return prefix * h;
+}
+
+/** P(χ² ≥ statistic) with the given degrees of freedom */
+export function chiSquarePValue(statistic: number, degreesOfFreedom: number): number {
+  if (degreesOfFreedom <= 0 || !Number.isFinite(statistic)) return 1;
+  return Math.min(1, Math.max(0, upperIncompleteGamma(degreesOfFreedom / 2, statistic / 2)));
+}
+
+/**
+ * Pearson's chi-square test of independence on a contingency table. Rows and
+ * columns with no observations must already be dropped.
+ */
+export function chiSquareTest(counts: number[][]): ChiSquareResult | null {
+  const rowCount = counts.length;
+  const columnCount = counts[0]?.length ?? 0;
+  if (rowCount < 2 || columnCount < 2) return null;
+
+  const rowTotals = counts.map((row) => row.reduce((sum, n) => sum + n, 0));
+  const columnTotals = counts[0].map((_, j) => counts.reduce((sum, row) => sum + row[j], 0));
+  const total = rowTotals.reduce((sum, n) => sum + n, 0);
+  if (total === 0) return null;
+
+  let statistic = 0;
+  let sparseCells = 0;
+  counts.forEach((row, i) => {
+    row.forEach((observed, j) => {
+      const expected = (rowTotals[i] * columnTotals[j]) / total;
+      if (expected < 5) sparseCells++;
+      if (expected > 0) statistic += (observed - expected) ** 2 / expected;
+    });
+  });
+
+  const degreesOfFreedom = (rowCount - 1) * (columnCount - 1);
+  const pValue = chiSquarePValue(statistic, degreesOfFreedom);
+  return {
+    statistic,
+    degreesOfFreedom,
+    pValue,
+    significant: pValue < SIGNIFICANCE_LEVEL,
+    sparse: sparseCells / (rowCount * columnCount) > 0.2,
+  };
+}
+
+// ============================================================================
+// CROSS-TAB
+// ============================================================================
+
+const percentOf = (count: number, total: number) => (total > 0 ? (count / total) * 100 : 0);
+
+/**
+ * Break `columnQuestion` down by the answers to `rowQuestion`. Only
+ * respondents who answered both are counted; categories nobody picked are
+ * left out so they can't skew the chi-square.
+ */
+export function computeCrossTab(
+  rowQuestion: CrossTabQuestion,
+  columnQuestion: CrossTabQuestion,
+  responses: CrossTabResponse[]
+): CrossTab {
+  const pairs: [string[], string[]][] = [];
+  const seenRows = new Set<string>();
+  const seenColumns = new Set<string>();
+  responses.forEach((r) => {
+    const rowCategories = getAnswerCategories(rowQuestion.type, r.responses[rowQuestion.id]);
+    const columnCategories = getAnswerCategories(columnQuestion.type, r.responses[columnQuestion.id]);
+    if (rowCategories.length === 0 || columnCategories.length === 0) return;
+    pairs.push([rowCategories, columnCategories]);
+    rowCategories.forEach((c) => seenRows.add(c));
+    columnCategories.forEach((c) => seenColumns.add(c));
+  });
+
+  const rows = orderCategories(getDeclaredCategories(rowQuestion), seenRows);
+  const columns = orderCategories(getDeclaredCategories(columnQuestion), seenColumns);
+  const counts = rows.map(() => columns.map(() => 0));
+  pairs.forEach(([rowCategories, columnCategories]) => {
+    rowCategories.forEach((rc) => {
+      columnCategories.forEach((cc) => {
+        counts[rows.indexOf(rc)][columns.indexOf(cc)]++;
+      });
+    });
+  });
+
+  const rowTotals = counts.map((row) => row.reduce((sum, n) => sum + n, 0));
+  const columnTotals = columns.map((_, j) => counts.reduce((sum, row) => sum + row[j], 0));
+  const total = rowTotals.reduce((sum, n) => sum + n, 0);
+
+  return {
+    rowQuestionId: rowQuestion.id,
+    columnQuestionId: columnQuestion.id,
+    rows,
+    columns,
+    counts,
+    rowTotals,
+    columnTotals,
+    total,
+    respondents: pairs.length,
+    rowPercents: counts.map((row, i) => row.map((n) => percentOf(n, rowTotals[i]))),
+    columnPercents: counts.map((row) => row.map((n, j) => percentOf(n, columnTotals[j]))),
+    chiSquare: chiSquareTest(counts),
+  };
+}
+
+export function formatPValue(pValue: number): string {
+  return pValue < 0.001 ? 'p < 0.001' : `p = ${pValue.toFixed(3)}`;
+}
+
+// ============================================================================
+// SEGMENTS
+// ============================================================================
+
+export function matchesSegment(
+  answers: Record<string, unknown>,
+  segment: Pick<ResponseSegment, 'questionId' | 'values'>,
+  questionType: string
+): boolean {
+  return getAnswerCategories(questionType, answers[segment.questionId]).some((c) => segment.values.includes(c));
+}
+
+/**
+ * Keep only respondents in `segment`. A segment whose question no longer
+ * exists filters nothing, so a stale saved segment can't blank every chart.
+ */
+export function applySegment<T extends CrossTabResponse>(
+  responses: T[],
+  segment: ResponseSegment | null | undefined,
+  questions: CrossTabQuestion[]
+): T[] {
+  if (!segment || segment.values.length === 0) return responses;
+  const question = questions.find((q) => q.id === segment.questionId);
+  if (!question) return responses;
+  return responses.filter((r) => matchesSegment(r.responses, segment, question.type));
+}
+
+/** Default segment name, e.g. "Age group: 18–24 or 25–34" */
+export function describeSegment(questionText: string, values: string[]): string {
+  return `${questionText}: ${values.join(' or ')}`;
+}
@@ -7,11 +7,14 @@
  * - Creative rotation (fewest impressions first)
  * - Content safety: no restricted ads next to children's content
  * - Session-level ad caps
+ * - Audience targeting: ads that rule the viewer out are skipped, and the
+ *   best fit wins among equally-shown ads (utils/adTargeting)
  *
  * @module utils/feedAdEngine
  */
 
 import type { Ad, Video } from '@/types';
+import { matchAdTargeting, type AdViewerProfile } from '@/utils/adTargeting';
 
 // ============================================================================
 // CONFIG
@@ -46,6 +49,8 @@ export interface AdInsertionContext {
   crossSessionExposure: Record<string, number>;
   /** Total ads shown this session (incremented by caller) */
   sessionAdCount: number;
+  /** Who is watching (useAdViewerProfile) — without it, targeting isn't checked */
+  viewer?: AdViewerProfile;
 }
 
 // ============================================================================
@@ -79,8 +84,9 @@ const isRestrictedAd = (ad: Ad): boolean => {
 // ============================================================================
 
 /**
- * Select the best ad from the pool, respecting caps and safety rules.
- * Uses weighted round-robin: fewest session impressions → highest priority.
+ * Select the best ad from the pool, respecting caps, safety and targeting rules.
+ * Uses weighted round-robin: fewest session impressions → best targeting fit →
+ * highest priority.
  */
 export function selectAd(
   ads: Ad[],
@@ -91,10 +97,18 @@ export function selectAd(
   if (ads.length === 0) return null;
 
   const hasChildrenAdjacent = adjacentVideos.some(isChildrenContent);
+  const { viewer } = context;
+  const scores = new Map<string, number>();
 
   // Filter eligible ads
   const eligible = ads.filter((ad) => {
     if (!ad.isActive) return false;
+    // Audience targeting: skip ads aimed at someone else
+    if (viewer) {
+      const match = matchAdTargeting(ad, viewer);
+      if (!match.eligible) return false;
+      scores.set(ad.id, match.score);
+    }
     // Per-creative session cap
     if ((context.sessionExposure[ad.id] || 0) >= config.maxPerCreative) return false;
     // Content safety: no restricted ads near children's content
@@ -104,11 +118,13 @@ export function selectAd(
 
   if (eligible.length === 0) return null;
 
-  // Sort by fewest session impressions (creative rotation), then by priority desc
+  // Sort by fewest session impressions (creative rotation), then targeting fit, then by priority desc
   eligible.sort((a, b) => {
     const aCount = context.sessionExposure[a.id] || 0;
     const bCount = context.sessionExposure[b.id] || 0;
     if (aCount !== bCount) return aCount - bCount;
+    const fit = (scores.get(b.id) ?? 0) - (scores.get(a.id) ?? 0);
+    if (fit !== 0) return fit;
     return (b.priority ?? 0) - (a.priority ?? 0);
   });
 
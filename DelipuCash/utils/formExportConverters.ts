@@ -0,0 +1,414 @@
+/**
+ * Form Export Converters — Google Forms + Typeform JSON → Builder Questions
+ *
+ * Clients keep questionnaires in Google Forms and Typeform; exporting those to
+ * CSV loses option lists and all branching. These converters read each tool's
+ * JSON export directly and produce BuilderQuestionData, with branching mapped
+ * onto our skip_to rules (ConditionalLogicConfig):
+ *
+ * - Google Forms (Forms API `forms.get`): an option's "go to section" becomes a
+ *   skip to the first question of that section; "submit form" skips to the end.
+ * - Typeform (Create API `GET /forms/{id}`): `jump` actions become skip rules on
+ *   the field the logic block belongs to, one rule per condition (an `or`
+ *   splits into several rules, `always` covers every answer).
+ *
+ * Anything we can't represent — backward jumps, `and` conditions, calculations,
+ * unsupported field types — is dropped with a warning rather than guessed at.
+ * Question ids are `imported_N`, and rules reference those ids.
+ */
+
+import { SKIP_TO_END } from '@/utils/conditionalLogic';
+import type {
+  BuilderQuestionData,
+  BuilderQuestionType,
+  ConditionalRule,
+} from '@/store/SurveyBuilderStore';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type FormExportSource = 'google_forms' | 'typeform';
+
+export interface ConvertedForm {
+  source: FormExportSource;
+  title?: string;
+  description?: string;
+  questions: BuilderQuestionData[];
+  warnings: string[];
+}
+
+type Json = Record<string, unknown>;
+
+/** A skip rule before its destination is known */
+type RuleCondition = Omit<ConditionalRule, 'action' | 'targetQuestionId'>;
+
+const isObject = (value: unknown): value is Json =>
+  value != null && typeof value === 'object' && !Array.isArray(value);
+const asArray = (value: unknown): Json[] => (Array.isArray(value) ? value.filter(isObject) : []);
+const asString = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+/** Builds questions with sequential ids and rules attached by host id */
+function createQuestionList() {
+  const questions: BuilderQuestionData[] = [];
+  return {
+    questions,
+    add(question: Omit<BuilderQuestionData, 'id' | 'conditionalLogic'>): BuilderQuestionData {
+      const built: BuilderQuestionData = { id: `imported_${questions.length + 1}`, conditionalLogic: null, ...question };
+      questions.push(built);
+      return built;
+    },
+    addSkipRule(hostId: string, rule: RuleCondition & { targetQuestionId: string }) {
+      const host = questions.find((q) => q.id === hostId);
+      if (!host) return;
+      host.conditionalLogic ??= { rules: [], logicType: 'any' };
+      host.conditionalLogic.rules.push({ ...rule, action: 'skip_to' });
+    },
+  };
+}
+
+/** Is the jump target strictly after the host (or the end)? Our skips only go forward */
+const isForwardJump = (questions: BuilderQuestionData[], hostId: string, targetId: string): boolean =>
+  targetId === SKIP_TO_END || questions.findIndex((q) => q.id === targetId) > questions.findIndex((q) => q.id === hostId);
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+/** Which tool exported this JSON, or null for our own format / anything else */
+export function detectFormExport(parsed: unknown): FormExportSource | null {
+  if (!isObject(parsed)) return null;
+  if (Array.isArray(parsed.items) && (isObject(parsed.info) || typeof parsed.formId === 'string')) {
+    return 'google_forms';
+  }
+  // Our own format lists `questions`; Typeform lists `fields`
+  if (Array.isArray(parsed.fields) && !Array.isArray(parsed.questions)) return 'typeform';
+  return null;
+}
+
+export function convertFormExport(parsed: unknown): ConvertedForm | null {
+  switch (detectFormExport(parsed)) {
+    case 'google_forms':
+      return convertGoogleForm(parsed as Json);
+    case 'typeform':
+      return convertTypeform(parsed as Json);
+    default:
+      return null;
+  }
+}
+
+// ============================================================================
+// GOOGLE FORMS
+// ============================================================================
+
+const GOOGLE_CHOICE_TYPES: Record<string, BuilderQuestionType> = {
+  RADIO: 'radio',
+  CHECKBOX: 'checkbox',
+  DROP_DOWN: 'dropdown',
+};
+
+/** Pending "go to section" jump, resolved once every section's first question is known */
+interface PendingJump {
+  hostId: string;
+  label: string;
+  answer: string;
+  sectionId: string;
+  action: string;
+}
+
+export function convertGoogleForm(form: Json): ConvertedForm {
+  const info = isObject(form.info) ? form.info : {};
+  const list = createQuestionList();
+  const warnings: string[] = [];
+  const jumps: PendingJump[] = [];
+  /** Section (page break item) id → first question id after it; null when the section is empty */
+  const sectionStarts = new Map<string, string | null>();
+  let openSection: string | null = null;
+
+  asArray(form.items).forEach((item, index) => {
+    const title = asString(item.title);
+    const label = `Item ${index + 1}${title ? ` ("${title}")` : ''}`;
+
+    if (isObject(item.pageBreakItem)) {
+      openSection = asString(item.itemId);
+      sectionStarts.set(openSection, null);
+      return;
+    }
+
+    let added: BuilderQuestionData | null = null;
+    const questionItem = isObject(item.questionItem) ? item.questionItem : null;
+    const question = questionItem && isObject(questionItem.question) ? questionItem.question : null;
+    const groupItem = isObject(item.questionGroupItem) ? item.questionGroupItem : null;
+
+    if (question) {
+      const required = question.required === true;
+      if (isObject(question.choiceQuestion)) {
+        const choice = question.choiceQuestion;
+        const type = GOOGLE_CHOICE_TYPES[asString(choice.type)] ?? 'radio';
+        const options = asArray(choice.options);
+        if (options.some((o) => o.isOther === true)) warnings.push(`${label}: the "Other" free-text option was dropped`);
+        const labels = options.filter((o) => o.isOther !== true).map((o) => asString(o.value)).filter(Boolean);
+        added = list.add({ text: title, type, options: labels, required });
+        for (const option of options) {
+          if (!option.goToSectionId && !option.goToAction) continue;
+          jumps.push({
+            hostId: added.id,
+            label,
+            answer: asString(option.value),
+            sectionId: asString(option.goToSectionId),
+            action: asString(option.goToAction),
+          });
+        }
+      } else if (isObject(question.textQuestion)) {
+        added = list.add({ text: title, type: question.textQuestion.paragraph ? 'paragraph' : 'text', options: [], required });
+      } else if (isObject(question.scaleQuestion)) {
+        const scale = question.scaleQuestion;
+        added = list.add({
+          text: title,
+          type: 'rating',
+          options: [],
+          required,
+          minValue: typeof scale.low === 'number' ? scale.low : 1,
+          maxValue: typeof scale.high === 'number' ? scale.high : 5,
+        });
+      } else if (isObject(question.ratingQuestion)) {
+        const level = question.ratingQuestion.ratingScaleLevel;
+        added = list.add({ text: title, type: 'rating', options: [], required, minValue: 1, maxValue: typeof level === 'number' ? level : 5 });
+      } else if (isObject(question.dateQuestion)) {
+        added = list.add({ text: title, type: 'date', options: [], required });
+      } else if (isObject(question.timeQuestion)) {
+        added = list.add({ text: title, type: 'time', options: [], required });
+      } else if (isObject(question.fileUploadQuestion)) {
+        added = list.add({ text: title, type: 'file_upload', options: [], required });
+      } else {
+        warnings.push(`${label}: unsupported question type, skipped`);
+      }
+    } else if (groupItem && isObject(groupItem.grid)) {
+      const grid = groupItem.grid;
+      const columnsSpec = isObject(grid.columns) ? grid.columns : {};
+      if (asString(columnsSpec.type) === 'CHECKBOX') {
+        warnings.push(`${label}: tick-box grid imported as a single-choice matrix`);
+      }
+      const rows = asArray(groupItem.questions)
+        .map((q) => (isObject(q.rowQuestion) ? asString(q.rowQuestion.title) : ''))
+        .filter(Boolean);
+      added = list.add({
+        text: title,
+        type: 'matrix',
+        options: rows,
+        matrixColumns: asArray(columnsSpec.options).map((o) => asString(o.value)).filter(Boolean),
+        required: asArray(groupItem.questions).some((q) => q.required === true),
+      });
+    }
+    // textItem / imageItem / videoItem are display-only — nothing to import
+
+    if (added) {
+      if (!added.text) warnings.push(`${label}: question has no text`);
+      if (openSection && sectionStarts.get(openSection) === null) sectionStarts.set(openSection, added.id);
+    }
+  });
+
+  // Resolve jumps now that every section's first question is known
+  for (const jump of jumps) {
+    let target: string | null;
+    if (jump.action === 'SUBMIT_FORM') {
+      target = SKIP_TO_END;
+    } else if (jump.sectionId) {
+      // A section with no questions lands on whatever follows it — here, the end
+      target = sectionStarts.has(jump.sectionId) ? sectionStarts.get(jump.sectionId) ?? SKIP_TO_END : null;
+    } else {
+      // NEXT_SECTION is the default flow; RESTART_FORM has no equivalent
+      if (jump.action === 'RESTART_FORM') warnings.push(`${jump.label}: "restart form" branching was dropped`);
+      continue;
+    }
+    if (!target || !isForwardJump(list.questions, jump.hostId, target)) {
+      warnings.push(`${jump.label}: branching to an earlier or missing section was dropped`);
+      continue;
+    }
+    list.addSkipRule(jump.hostId, { sourceQuestionId: jump.hostId, operator: 'equals', value: jump.answer, targetQuestionId: target });
+  }
+
+  return {
+    source: 'google_forms',
+    title: asString(info.title) || asString(info.documentTitle) || undefined,
+    description: asString(info.description) || undefined,
+    questions: list.questions,
+    warnings,
+  };
+}
+
+// ============================================================================
+// TYPEFORM
+// ============================================================================
+
+/** Typeform condition operators with a direct counterpart */
+const TYPEFORM_OPERATORS: Record<string, ConditionalRule['operator']> = {
+  is: 'equals',
+  equal: 'equals',
+  is_not: 'not_equals',
+  not_equal: 'not_equals',
+  contains: 'contains',
+  greater_than: 'greater_than',
+  lower_than: 'less_than',
+};
+
+const TYPEFORM_TEXT_TYPES: Record<string, BuilderQuestionType> = {
+  short_text: 'text',
+  email: 'text',
+  phone_number: 'text',
+  website: 'text',
+  long_text: 'paragraph',
+  number: 'number',
+  date: 'date',
+  file_upload: 'file_upload',
+  nps: 'nps',
+  yes_no: 'boolean',
+  legal: 'boolean',
+};
+
+const choiceLabels = (field: Json): string[] =>
+  asArray(isObject(field.properties) ? field.properties.choices : []).map((c) => asString(c.label)).filter(Boolean);
+
+export function convertTypeform(form: Json): ConvertedForm {
+  const list = createQuestionList();
+  const warnings: string[] = [];
+  /** Field ref → { question id, choice ref → label } */
+  const refs = new Map<string, { id: string; choices: Map<string, string> }>();
+
+  const addField = (field: Json, position: string) => {
+    const type = asString(field.type);
+    const title = asString(field.title);
+    const label = `${position}${title ? ` ("${title}")` : ''}`;
+    const properties = isObject(field.properties) ? field.properties : {};
+    const validations = isObject(field.validations) ? field.validations : {};
+    const required = validations.required === true;
+    let added: BuilderQuestionData | null = null;
+
+    if (type === 'group' || type === 'inline_group') {
+      asArray(properties.fields).forEach((inner, i) => addField(inner, `${position}.${i + 1}`));
+      return;
+    }
+    if (type === 'statement') return; // display-only
+
+    if (type === 'multiple_choice' || type === 'picture_choice' || type === 'dropdown') {
+      const multiple = properties.allow_multiple_selection === true;
+      added = list.add({
+        text: title,
+        type: type === 'dropdown' ? 'dropdown' : multiple ? 'checkbox' : 'radio',
+        options: choiceLabels(field),
+        required,
+      });
+      if (properties.allow_other_choice === true) warnings.push(`${label}: the "Other" free-text option was dropped`);
+    } else if (type === 'ranking') {
+      added = list.add({ text: title, type: 'ranking', options: choiceLabels(field), required });
+    } else if (type === 'matrix') {
+      const rows = asArray(properties.fields);
+      added = list.add({
+        text: title,
+        type: 'matrix',
+        options: rows.map((row) => asString(row.title)).filter(Boolean),
+        matrixColumns: rows[0] ? choiceLabels(rows[0]) : [],
+        required,
+      });
+    } else if (type === 'rating' || type === 'opinion_scale') {
+      const steps = typeof properties.steps === 'number' ? properties.steps : type === 'rating' ? 5 : 11;
+      const min = type === 'opinion_scale' && properties.start_at_one !== true ? 0 : 1;
+      added = list.add({ text: title, type: 'rating', options: [], required, minValue: min, maxValue: min + steps - 1 });
+    } else if (TYPEFORM_TEXT_TYPES[type]) {
+      added = list.add({ text: title, type: TYPEFORM_TEXT_TYPES[type], options: [], required });
+    } else {
+      warnings.push(`${label}: unsupported field type "${type || 'unknown'}", skipped`);
+    }
+
+    if (!added) return;
+    if (!added.text) warnings.push(`${label}: question has no text`);
+    const choices = new Map(
+      asArray(properties.choices).map((c) => [asString(c.ref) || asString(c.id), asString(c.label)] as [string, string])
+    );
+    refs.set(asString(field.ref) || asString(field.id), { id: added.id, choices });
+  };
+
+  asArray(form.fields).forEach((field, i) => addField(field, `Field ${i + 1}`));
+
+  /** One condition → rule parts, or null when it can't be represented */
+  const toRules = (condition: Json, hostId: string): RuleCondition[] | null => {
+    const op = asString(condition.op);
+    const vars = asArray(condition.vars);
+
+    if (op === 'always') {
+      // Answered or not — first-match-wins keeps earlier jumps ahead of this one
+      return [
+        { sourceQuestionId: hostId, operator: 'is_not_empty', value: '' },
+        { sourceQuestionId: hostId, operator: 'is_empty', value: '' },
+      ];
+    }
+    if (op === 'or') {
+      const rules: RuleCondition[] = [];
+      for (const part of vars) {
+        const converted = toRules(part, hostId);
+        if (!converted) return null;
+        rules.push(...converted);
+      }
+      return rules;
+    }
+    const operator = TYPEFORM_OPERATORS[op];
+    const fieldVar = vars.find((v) => v.type === 'field');
+    const source = fieldVar ? refs.get(asString(fieldVar.value)) : undefined;
+    const operand = vars.find((v) => v !== fieldVar);
+    if (!operator || !source || !operand) return null;
+
+    let value: string | number | boolean;
+    if (operand.type === 'choice') {
+      const choice = source.choices.get(asString(operand.value));
+      if (choice === undefined) return null;
+      value = choice;
+    } else if (typeof operand.value === 'boolean') {
+      value = String(operand.value); // yes/no answers are stored as 'true' / 'false'
+    } else if (typeof operand.value === 'string' || typeof operand.value === 'number') {
+      value = operand.value;
+    } else {
+      return null;
+    }
+    return [{ sourceQuestionId: source.id, operator, value }];
+  };
+
+  asArray(form.logic).forEach((block) => {
+    const host = refs.get(asString(block.ref));
+    if (asString(block.type) !== 'field' || !host) return;
+    const hostLabel = `Logic on "${list.questions.find((q) => q.id === host.id)?.text ?? block.ref}"`;
+
+    for (const action of asArray(block.actions)) {
+      if (asString(action.action) !== 'jump') {
+        warnings.push(`${hostLabel}: "${asString(action.action)}" actions were dropped`);
+        continue;
+      }
+      const details = isObject(action.details) ? action.details : {};
+      const to = isObject(details.to) ? details.to : {};
+      const target = asString(to.type) === 'thankyou' ? SKIP_TO_END : refs.get(asString(to.value))?.id;
+      const rules = isObject(action.condition) ? toRules(action.condition, host.id) : null;
+
+      if (!target || !isForwardJump(list.questions, host.id, target)) {
+        warnings.push(`${hostLabel}: a jump to an earlier or missing question was dropped`);
+        continue;
+      }
+      // Skip rules may only read the host or questions before it
+      const hostIndex = list.questions.findIndex((q) => q.id === host.id);
+      if (!rules || rules.some((r) => list.questions.findIndex((q) => q.id === r.sourceQuestionId) > hostIndex)) {
+        warnings.push(`${hostLabel}: a jump with an unsupported condition was dropped`);
+        continue;
+      }
+      for (const rule of rules) list.addSkipRule(host.id, { ...rule, targetQuestionId: target });
+    }
+  });
+
+  const welcome = asArray(form.welcome_screens)[0];
+  const welcomeProperties = welcome && isObject(welcome.properties) ? welcome.properties : {};
+
+  return {
+    source: 'typeform',
+    title: asString(form.title) || undefined,
+    description: asString(welcomeProperties.description) || undefined,
+    questions: list.questions,
+    warnings,
+  };
+}
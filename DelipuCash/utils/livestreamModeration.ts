@@ -0,0 +1,142 @@
+/**
+ * Livestream Moderation — Pure Functions for Chat Moderation
+ *
+ * The server decides what gets through (server/lib/livestreamModeration.mjs);
+ * these helpers drive the app's side of it:
+ *  - the slow-mode and timeout choices offered to the streamer and labels for them;
+ *  - what a viewer's chat bar says while they are restricted;
+ *  - keeping the cached moderation state in step with `livestream.chatSettings`
+ *    and `livestream.chatRestriction` events;
+ *  - turning typed text into banned-word entries.
+ */
+
+import type {
+  LivestreamChatRestriction,
+  LivestreamChatSettings,
+  LivestreamModerationState,
+} from '@/types';
+
+// ============================================================================
+// CHOICES
+// ============================================================================
+
+/** Slow-mode steps offered in the moderation sheet (server max: 300s) */
+export const SLOW_MODE_OPTIONS = [0, 5, 15, 30, 60, 120] as const;
+
+/** Timeout lengths offered when long-pressing a chat message */
+export const TIMEOUT_OPTIONS = [
+  { label: '1 min', seconds: 60 },
+  { label: '5 min', seconds: 5 * 60 },
+  { label: '10 min', seconds: 10 * 60 },
+  { label: '1 hour', seconds: 60 * 60 },
+] as const;
+
+/** "Off", "30s", "2m" */
+export function slowModeLabel(seconds: number): string {
+  if (seconds <= 0) return 'Off';
+  return seconds % 60 === 0 ? `${seconds / 60}m` : `${seconds}s`;
+}
+
+// ============================================================================
+// RESTRICTIONS
+// ============================================================================
+
+/** Whether `restriction` still applies at `now` — bans always do */
+export function isRestrictionActive(
+  restriction: Pick<LivestreamChatRestriction, 'kind' | 'expiresAt'> | null | undefined,
+  now: number = Date.now(),
+): boolean {
+  if (!restriction) return false;
+  if (restriction.kind === 'ban') return true;
+  return !!restriction.expiresAt && new Date(restriction.expiresAt).getTime() > now;
+}
+
+/**
+ * What the chat bar shows a restricted viewer — "You're banned from this
+ * chat", "Timed out · 4:05 left" — or null when they may chat.
+ */
+export function restrictionNotice(
+  restriction: Pick<LivestreamChatRestriction, 'kind' | 'expiresAt'> | null | undefined,
+  now: number = Date.now(),
+): string | null {
+  if (!isRestrictionActive(restriction, now)) return null;
+  if (restriction!.kind === 'ban') return "You're banned from this chat";
+  const left = Math.ceil((new Date(restriction!.expiresAt!).getTime() - now) / 1000);
+  const minutes = Math.floor(left / 60);
+  const seconds = String(left % 60).padStart(2, '0');
+  return `Timed out · ${minutes}:${seconds} left`;
+}
+
+/** `list` with `userId`'s restriction replaced (or removed when `next` is null) */
+export function upsertRestriction(
+  list: readonly LivestreamChatRestriction[],
+  userId: string,
+  next: LivestreamChatRestriction | null,
+): LivestreamChatRestriction[] {
+  const rest = list.filter((r) => r.userId !== userId);
+  return next ? [next, ...rest] : rest;
+}
+
+/**
+ * Cached moderation state after a `livestream.chatRestriction` event (a null
+ * kind means it was lifted). The viewer's own restriction follows too.
+ */
+export function applyRestrictionEvent(
+  state: LivestreamModerationState,
+  event: {
+    userId: string;
+    userName?: string | null;
+    kind: LivestreamChatRestriction['kind'] | null;
+    expiresAt: string | null;
+    createdAt?: string;
+  },
+  viewerId: string | undefined,
+): LivestreamModerationState {
+  const next: LivestreamChatRestriction | null = event.kind
+    ? {
+        userId: event.userId,
+        userName: event.userName ?? null,
+        kind: event.kind,
+        expiresAt: event.expiresAt,
+        createdAt: event.createdAt ?? new Date().toISOString(),
+      }
+    : null;
+  return {
+    ...state,
+    restrictions: state.canModerate ? upsertRestriction(state.restrictions, event.userId, next) : state.restrictions,
+    myRestriction: event.userId === viewerId ? next : state.myRestriction,
+  };
+}
+
+/** Cached moderation state after a `livestream.chatSettings` event */
+export function applySettingsEvent(
+  state: LivestreamModerationState,
+  settings: LivestreamChatSettings,
+): LivestreamModerationState {
+  return {
+    ...state,
+    settings: {
+      slowModeSeconds: settings.slowModeSeconds,
+      followersOnlyChat: settings.followersOnlyChat,
+      blockChatLinks: settings.blockChatLinks,
+    },
+  };
+}
+
+// ============================================================================
+// BANNED WORDS
+// ============================================================================
+
+/**
+ * `existing` plus the comma-separated words in `input`, lowercased, trimmed,
+ * whitespace-collapsed and without duplicates — the server normalizes the
+ * same way, so the list shown is the list stored.
+ */
+export function addBannedWords(existing: readonly string[], input: string): string[] {
+  const words = new Set(existing);
+  for (const part of input.split(',')) {
+    const word = part.trim().toLowerCase().replace(/\s+/g, ' ');
+    if (word) words.add(word);
+  }
+  return [...words];
+}
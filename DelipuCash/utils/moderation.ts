@@ -0,0 +1,165 @@
+/**
+ * Moderation — Pure Functions for the Review Console and Content Reports
+ *
+ * Moderators (ADMIN or MODERATOR) approve or reject pending ads and remove or
+ * dismiss items users reported; the server records each decision with who
+ * made it (server/lib/moderation.mjs). These helpers:
+ *  - gate the console by role;
+ *  - label report reasons, item types and audit entries;
+ *  - hold the canned rejection reasons advertisers see;
+ *  - keep the bulk selection and summarize what a bulk action did.
+ */
+
+import {
+  UserRole,
+  type AdReviewDecision,
+  type ModerationAuditEntry,
+  type ModerationQueueItem,
+  type ModerationSummary,
+  type ReportDecision,
+  type ReportReason,
+  type ReportTargetType,
+} from '@/types';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** The server's cap on one bulk action */
+export const BULK_REVIEW_MAX = 50;
+
+/** Longest rejection reason or removal note the server takes */
+export const MAX_REVIEW_NOTE_CHARS = 500;
+
+/** Rejection reasons a moderator can pick instead of typing one — the advertiser sees it */
+export const AD_REJECTION_REASONS = [
+  'Misleading or unverifiable claims',
+  'Prohibited product or service',
+  'Low-quality or unreadable creative',
+  'Landing page is broken or does not match the ad',
+  'Adult or shocking content',
+  'Uses trademarks or content without permission',
+] as const;
+
+export const REPORT_REASON_LABELS: Record<ReportReason, string> = {
+  spam: 'Spam',
+  harassment: 'Harassment or bullying',
+  hate: 'Hate speech',
+  sexual: 'Sexual content',
+  violence: 'Violence or threats',
+  misinformation: 'False information',
+  scam: 'Scam or fraud',
+  other: 'Something else',
+};
+
+export const REPORT_REASONS = Object.keys(REPORT_REASON_LABELS) as ReportReason[];
+
+export const REPORT_TARGET_LABELS: Record<ReportTargetType | 'ad', string> = {
+  ad: 'ad',
+  video: 'video',
+  comment: 'comment',
+  response: 'answer',
+  survey: 'survey',
+};
+
+export const REPORT_TYPE_FILTERS: { value: ReportTargetType | undefined; label: string }[] = [
+  { value: undefined, label: 'All' },
+  { value: 'video', label: 'Videos' },
+  { value: 'comment', label: 'Comments' },
+  { value: 'response', label: 'Answers' },
+  { value: 'survey', label: 'Surveys' },
+];
+
+const OUTCOME_VERBS: Record<ModerationAuditEntry['action'], string> = {
+  approved: 'approved',
+  rejected: 'rejected',
+  removed: 'removed',
+  dismissed: 'dismissed reports on',
+};
+
+const DECISION_PAST: Record<AdReviewDecision | ReportDecision, string> = {
+  approve: 'Approved',
+  reject: 'Rejected',
+  remove: 'Removed',
+  dismiss: 'Dismissed',
+};
+
+// ============================================================================
+// ACCESS
+// ============================================================================
+
+/** Whether this role may open the review console */
+export function isModerator(role: UserRole | string | null | undefined): boolean {
+  return role === UserRole.ADMIN || role === UserRole.MODERATOR;
+}
+
+// ============================================================================
+// LABELS
+// ============================================================================
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/** Open reports across every type */
+export function openReportTotal(summary: ModerationSummary | undefined): number {
+  if (!summary) return 0;
+  return Object.values(summary.openReports).reduce((sum, count) => sum + count, 0);
+}
+
+/** "3 reports · Scam ×2, Spam" */
+export function reportReasonSummary(item: Pick<ModerationQueueItem, 'reportCount' | 'reasons'>): string {
+  const reasons = item.reasons
+    .map(({ reason, count }) => `${REPORT_REASON_LABELS[reason] ?? reason}${count > 1 ? ` ×${count}` : ''}`)
+    .join(', ');
+  return `${plural(item.reportCount, 'report')} · ${reasons}`;
+}
+
+/** Key that identifies a reported item across types */
+export const queueItemKey = (item: Pick<ModerationQueueItem, 'targetType' | 'targetId'>): string =>
+  `${item.targetType}:${item.targetId}`;
+
+/** "Ada Nabirye removed a comment (4 reports)" */
+export function auditEntryLabel(entry: ModerationAuditEntry): string {
+  const actor = entry.actor.name || 'A moderator';
+  const noun = REPORT_TARGET_LABELS[entry.targetType] ?? entry.targetType;
+  const article = /^[aeiou]/.test(noun) ? 'an' : 'a';
+  const reports = entry.reportCount > 0 ? ` (${plural(entry.reportCount, 'report')})` : '';
+  return `${actor} ${OUTCOME_VERBS[entry.action]} ${article} ${noun}${reports}`;
+}
+
+/** "Approved 3 ads · 1 skipped: This ad is already rejected" */
+export function reviewResultMessage(
+  decision: AdReviewDecision | ReportDecision,
+  done: number,
+  skipped: { message: string }[],
+  noun: string
+): string {
+  const head = `${DECISION_PAST[decision]} ${plural(done, noun)}`;
+  if (skipped.length === 0) return head;
+  const reasons = [...new Set(skipped.map((item) => item.message))].join('; ');
+  return `${head} · ${skipped.length} skipped: ${reasons}`;
+}
+
+// ============================================================================
+// SELECTION & INPUT
+// ============================================================================
+
+/** Add or remove `key`; the selection never grows past one bulk action */
+export function toggleSelection(selected: string[], key: string): string[] {
+  if (selected.includes(key)) return selected.filter((item) => item !== key);
+  if (selected.length >= BULK_REVIEW_MAX) return selected;
+  return [...selected, key];
+}
+
+/** Select everything shown (up to one bulk action), or clear when all already are */
+export function toggleSelectAll(selected: string[], keys: string[]): string[] {
+  const all = keys.slice(0, BULK_REVIEW_MAX);
+  return all.length > 0 && all.every((key) => selected.includes(key)) ? [] : all;
+}
+
+/** Why a rejection reason can't be sent, or null when it can */
+export function rejectionReasonError(reason: string): string | null {
+  const trimmed = reason.trim();
+  if (!trimmed) return 'Pick or write a reason — the advertiser sees it';
+  if (trimmed.length > MAX_REVIEW_NOTE_CHARS) return `Keep it under ${MAX_REVIEW_NOTE_CHARS} characters`;
+  return null;
+}
@@ -0,0 +1,197 @@
+/**
+ * Offline Downloads — Pure Functions for the Download Queue and On-Device Encryption
+ *
+ * Video premium subscribers keep videos on the device
+ * (server/lib/offlineDownloads.mjs). Each download is licensed by the server,
+ * fetched from a signed URL, encrypted with the license's content key and
+ * kept until the license expires — renewed whenever the app is online, gone
+ * once the subscription lapses. These helpers:
+ *  - run ChaCha20 (RFC 8439) over the byte ranges that are encrypted;
+ *  - pick the next queued download, or say why the queue is waiting;
+ *  - keep the downloads under the storage cap;
+ *  - label a download's status and expiry for the Downloads tab.
+ *
+ * Only the first and last ENCRYPTED_SPAN_BYTES of a file are encrypted: that
+ * covers the container header and index (MP4 ftyp/moov sit at one end or the
+ * other), so a copied file won't play, while opening a download for playback
+ * stays a copy plus two small passes instead of decrypting hundreds of MB.
+ */
+
+import type { OfflineDownload } from '@/store/OfflineDownloadStore';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const GB = 1024 * 1024 * 1024;
+
+/** Bytes encrypted at each end of a downloaded file — a multiple of the 64-byte block */
+export const ENCRYPTED_SPAN_BYTES = 1024 * 1024;
+
+/** Storage caps offered in the Downloads settings */
+export const STORAGE_CAP_OPTIONS = [1 * GB, 2 * GB, 5 * GB, 10 * GB] as const;
+export const DEFAULT_STORAGE_CAP_BYTES = 2 * GB;
+
+/** Failed attempts before a download stops retrying on its own */
+export const MAX_DOWNLOAD_ATTEMPTS = 3;
+
+const BLOCK_BYTES = 64;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// CHACHA20
+// ============================================================================
+
+const SIGMA = [0x61707865, 0x3320646e, 0x79622d32, 0x6b206574]; // "expand 32-byte k"
+
+const readWord = (bytes: Uint8Array, at: number) =>
+  (bytes[at] | (bytes[at + 1] << 8) | (bytes[at + 2] << 16) | (bytes[at + 3] << 24)) >>> 0;
+
+function quarterRound(s: Uint32Array, a: number, b: number, c: number, d: number): void {
+  s[a] += s[b]; s[d] ^= s[a]; s[d] = (s[d] << 16) | (s[d] >>> 16);
+  s[c] += s[d]; s[b] ^= s[c]; s[b] = (s[b] << 12) | (s[b] >>> 20);
+  s[a] += s[b]; s[d] ^= s[a]; s[d] = (s[d] << 8) | (s[d] >>> 24);
+  s[c] += s[d]; s[b] ^= s[c]; s[b] = (s[b] << 7) | (s[b] >>> 25);
+}
+
+/** One 64-byte ChaCha20 keystream block (RFC 8439 §2.3) */
+export function chacha20Block(key: Uint8Array, counter: number, nonce: Uint8Array): Uint8Array {
+  if (key.length !== 32) throw new Error('ChaCha20 key must be 32 bytes');
+  if (nonce.length !== 12) throw new Error('ChaCha20 nonce must be 12 bytes');
+
+  const input = new Uint32Array(16);
+  input.set(SIGMA, 0);
+  for (let i = 0; i < 8; i++) input[4 + i] = readWord(key, i * 4);
+  input[12] = counter >>> 0;
+  for (let i = 0; i < 3; i++) input[13 + i] = readWord(nonce, i * 4);
+
+  const state = input.slice();
+  for (let round = 0; round < 10; round++) {
+    quarterRound(state, 0, 4, 8, 12);
+    quarterRound(state, 1, 5, 9, 13);
+    quarterRound(state, 2, 6, 10, 14);
+    quarterRound(state, 3, 7, 11, 15);
+    quarterRound(state, 0, 5, 10, 15);
+    quarterRound(state, 1, 6, 11, 12);
+    quarterRound(state, 2, 7, 8, 13);
+    quarterRound(state, 3, 4, 9, 14);
+  }
+
+  const out = new Uint8Array(BLOCK_BYTES);
+  for (let i = 0; i < 16; i++) {
+    const word = (state[i] + input[i]) >>> 0;
+    out[i * 4] = word & 0xff;
+    out[i * 4 + 1] = (word >>> 8) & 0xff;
+    out[i * 4 + 2] = (word >>> 16) & 0xff;
+    out[i * 4 + 3] = (word >>> 24) & 0xff;
+  }
+  return out;
+}
+
+/**
+ * XOR `data` with the keystream starting at block `counter` — encrypting and
+ * decrypting are the same operation. Returns a new array.
+ */
+export function chacha20Xor(key: Uint8Array, nonce: Uint8Array, counter: number, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(data.length);
+  for (let offset = 0, block = counter; offset < data.length; offset += BLOCK_BYTES, block++) {
+    const stream = chacha20Block(key, block, nonce);
+    const end = Math.min(BLOCK_BYTES, data.length - offset);
+    for (let i = 0; i < end; i++) out[offset + i] = data[offset + i] ^ stream[i];
+  }
+  return out;
+}
+
+// A content key is used for exactly one file, so a fixed nonce never repeats
+// a keystream; the block counter is the byte offset / 64, so each range of
+// the file gets its own part of the one keystream.
+const FILE_NONCE = new Uint8Array(12);
+
+/** The byte ranges of a `size`-byte file that are encrypted — both ends, or all of a small file */
+export function encryptedRanges(size: number): { offset: number; length: number }[] {
+  if (size <= 0) return [];
+  if (size <= ENCRYPTED_SPAN_BYTES * 2) return [{ offset: 0, length: size }];
+  // Block-aligned, so the tail's counter is a whole number; never overlaps the head
+  const tailStart = Math.floor((size - ENCRYPTED_SPAN_BYTES) / BLOCK_BYTES) * BLOCK_BYTES;
+  return [
+    { offset: 0, length: ENCRYPTED_SPAN_BYTES },
+    { offset: tailStart, length: size - tailStart },
+  ];
+}
+
+/** Encrypt or decrypt the bytes read from `offset` of a downloaded file */
+export function cryptRange(key: Uint8Array, offset: number, bytes: Uint8Array): Uint8Array {
+  if (offset % BLOCK_BYTES !== 0) throw new Error('Encrypted ranges start on a 64-byte block');
+  return chacha20Xor(key, FILE_NONCE, offset / BLOCK_BYTES, bytes);
+}
+
+// ============================================================================
+// QUEUE
+// ============================================================================
+
+export type QueueBlocker = 'offline' | 'waiting_for_wifi' | null;
+
+/** Why queued downloads can't start right now — null when they can */
+export function queueBlocker(network: { isOnline: boolean; isWifi: boolean }, wifiOnly: boolean): QueueBlocker {
+  if (!network.isOnline) return 'offline';
+  if (wifiOnly && !network.isWifi) return 'waiting_for_wifi';
+  return null;
+}
+
+/** The download to start next — the oldest queued one */
+export function nextQueuedDownload(downloads: readonly OfflineDownload[]): OfflineDownload | null {
+  return downloads
+    .filter((d) => d.status === 'queued')
+    .reduce<OfflineDownload | null>((oldest, d) => (!oldest || d.queuedAt < oldest.queuedAt ? d : oldest), null);
+}
+
+/** Bytes the downloads take (or will, once running ones finish) */
+export function storageUsedBytes(downloads: readonly OfflineDownload[], excludeVideoId?: string): number {
+  return downloads
+    .filter((d) => d.videoId !== excludeVideoId && (d.status === 'ready' || d.status === 'downloading'))
+    .reduce((sum, d) => sum + (d.sizeBytes ?? 0), 0);
+}
+
+/** Whether a `sizeBytes` file for `videoId` fits under the cap next to the others */
+export function fitsStorageCap(
+  downloads: readonly OfflineDownload[],
+  videoId: string,
+  sizeBytes: number | null,
+  capBytes: number,
+): boolean {
+  return storageUsedBytes(downloads, videoId) + (sizeBytes ?? 0) <= capBytes;
+}
+
+/** Whether `download`'s license has run out */
+export function isDownloadExpired(download: Pick<OfflineDownload, 'expiresAt'>, now: Date = new Date()): boolean {
+  return !!download.expiresAt && new Date(download.expiresAt).getTime() <= now.getTime();
+}
+
+// ============================================================================
+// LABELS
+// ============================================================================
+
+/** "Expires today", "Expires tomorrow", "Expires in 12 days" */
+export function expiryLabel(expiresAt: string, now: Date = new Date()): string {
+  const days = Math.ceil((new Date(expiresAt).getTime() - now.getTime()) / DAY_MS);
+  if (days <= 0) return 'Expired';
+  if (days === 1) return 'Expires today';
+  if (days === 2) return 'Expires tomorrow';
+  return `Expires in ${days - 1} days`;
+}
+
+/** The status line under a download on the Downloads tab */
+export function downloadStatusLabel(download: OfflineDownload, blocker: QueueBlocker, now: Date = new Date()): string {
+  switch (download.status) {
+    case 'queued':
+      if (blocker === 'offline') return 'Waiting for a connection';
+      if (blocker === 'waiting_for_wifi') return 'Waiting for Wi-Fi';
+      return 'Queued';
+    case 'downloading':
+      return `Downloading · ${Math.round(download.progress * 100)}%`;
+    case 'failed':
+      return download.error ? `Failed — ${download.error}` : 'Failed';
+    case 'ready':
+      return download.expiresAt ? expiryLabel(download.expiresAt, now) : 'Downloaded';
+  }
+}
@@ -0,0 +1,390 @@
+/**
+ * Answer Piping Engine — Pure Functions for Personalised Question Text
+ *
+ * Question text and options may reference earlier answers and hidden computed
+ * variables with `{{…}}` tokens:
+ *   {{q3}}     the respondent's answer to question 3 (1-based survey position)
+ *   {{score}}  a computed variable defined on the survey (never shown as a question)
+ *
+ * Positions are what creators see in the builder ("Q3"), so the builder store
+ * rewrites tokens whenever questions move (remapPipingReferences) and the
+ * server can store text verbatim. Used by the builder (validation, preview)
+ * and the respondent survey screen.
+ */
+
+import type { AnswerMap } from '@/utils/conditionalLogic';
+import type { ComputedVariable } from '@/store/SurveyBuilderStore';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PipingReference =
+  | { kind: 'question'; position: number }
+  | { kind: 'variable'; name: string }
+  | { kind: 'deleted' }
+  | { kind: 'invalid'; raw: string };
+
+/** The slice of a question piping needs — builder and respondent shapes both fit */
+export interface PipingQuestion {
+  id: string;
+  type?: string;
+  /** Option values in display order (a choice answer scores by its position) */
+  options?: string[];
+  booleanLabels?: { yesLabel: string; noLabel: string };
+}
+
+export type ComputedValues = Record<string, string | number>;
+
+export interface PipingContext {
+  questions: PipingQuestion[];
+  answers: AnswerMap;
+  variables?: ComputedValues;
+}
+
+export interface PipingIssue {
+  /** Offending question (0-based), or -1 for a variable definition */
+  questionIndex: number;
+  /** Offending variable name, for variable definition issues */
+  variableName?: string;
+  message: string;
+}
+
+// ============================================================================
+// TOKENS
+// ============================================================================
+
+const TOKEN_PATTERN = /\{\{\s*([^{}]*?)\s*\}\}/g;
+const QUESTION_REF_PATTERN = /^q(\d+)$/i;
+const VARIABLE_NAME_PATTERN = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+/** What a reference to a deleted question is rewritten to — validation flags it */
+export const DELETED_REFERENCE_TOKEN = '{{q?}}';
+
+export function parsePipingReference(raw: string): PipingReference {
+  const name = raw.trim();
+  const questionMatch = QUESTION_REF_PATTERN.exec(name);
+  if (questionMatch) return { kind: 'question', position: Number(questionMatch[1]) };
+  if (name === 'q?') return { kind: 'deleted' };
+  if (VARIABLE_NAME_PATTERN.test(name)) return { kind: 'variable', name };
+  return { kind: 'invalid', raw: name };
+}
+
+/** Every reference in a piece of text, in order of appearance */
+export function extractPipingReferences(text: string): PipingReference[] {
+  const refs: PipingReference[] = [];
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    refs.push(parsePipingReference(match[1]));
+  }
+  return refs;
+}
+
+export function hasPiping(text: string | null | undefined): boolean {
+  return !!text && /\{\{[^{}]*\}\}/.test(text);
+}
+
+/** Names shaped like a question reference (q1, Q12) can't be variables */
+export function isReservedVariableName(name: string): boolean {
+  return QUESTION_REF_PATTERN.test(name.trim());
+}
+
+// ============================================================================
+// COMPUTED VARIABLES
+// ============================================================================
+
+/**
+ * Numeric contribution of one answer to a score: numbers count as-is, a
+ * checkbox counts its selections (a matrix its answered rows), yes = 1, and a
+ * choice answer counts its 1-based option position (so an agree/disagree scale
+ * scores naturally).
+ * Unanswered or unreadable answers contribute 0.
+ */
+export function scoreAnswer(value: AnswerMap[string], question?: PipingQuestion): number {
+  if (value == null || value === '') return 0;
+  if (Array.isArray(value)) return value.filter((v) => v !== '').length;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : 0;
+  if (question?.type === 'boolean') return value === 'true' ? 1 : 0;
+  const optionIndex = question?.options?.indexOf(value) ?? -1;
+  if (optionIndex !== -1) return optionIndex + 1;
+  const numeric = Number(value);
+  return Number.isFinite(numeric) ? numeric : 0;
+}
+
+/**
+ * Evaluate the survey's computed variables, in definition order, against the
+ * current answers. A segment may read a question or an EARLIER variable;
+ * bands are matched highest-minimum first, and an unanswered source falls back.
+ */
+export function computeVariables(
+  variables: ComputedVariable[] | null | undefined,
+  questions: PipingQuestion[],
+  answers: AnswerMap
+): ComputedValues {
+  const values: ComputedValues = {};
+  if (!variables?.length) return values;
+  const byId = new Map(questions.map((q) => [q.id, q]));
+
+  for (const variable of variables) {
+    if (variable.kind === 'score') {
+      values[variable.name] = variable.sourceQuestionIds.reduce(
+        (sum, id) => sum + scoreAnswer(answers[id], byId.get(id)),
+        0
+      );
+      continue;
+    }
+
+    const source = variable.source ?? '';
+    let reading: number | null = null;
+    if (Object.prototype.hasOwnProperty.call(values, source)) {
+      const value = Number(values[source]);
+      reading = Number.isFinite(value) ? value : null;
+    } else if (byId.has(source)) {
+      const answer = answers[source];
+      reading = answer == null || answer === '' ? null : scoreAnswer(answer, byId.get(source));
+    }
+
+    const band = reading === null
+      ? undefined
+      : [...(variable.bands ?? [])]
+          .sort((a, b) => b.min - a.min)
+          .find((b) => reading! >= b.min);
+    values[variable.name] = band?.label ?? variable.fallback ?? '';
+  }
+  return values;
+}
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+const EMPTY_MARKER = '\u0000';
+const EMPTY_RUN = / *\u0000+ */g;
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+/** Display form of one answer inside piped text */
+export function formatPipedValue(value: AnswerMap[string], question?: PipingQuestion): string {
+  if (value == null || value === '') return '';
+  if (question?.type === 'file_upload') return ''; // an upload id means nothing to the respondent
+  // Matrix answers hold '' for unanswered rows
+  if (Array.isArray(value)) return value.filter((v) => v !== '').join(', ');
+  if (typeof value === 'number') return formatNumber(value);
+  if (question?.type === 'boolean' || typeof value === 'boolean') {
+    const yes = value === true || value === 'true';
+    return yes ? question?.booleanLabels?.yesLabel ?? 'Yes' : question?.booleanLabels?.noLabel ?? 'No';
+  }
+  return String(value);
+}
+
+/**
+ * Replace every token with the respondent's answer or computed value. Tokens
+ * that can't be resolved (unanswered, skipped, unknown) render as nothing,
+ * taking one adjoining space with them so no gap is left behind.
+ */
+export function pipeText(text: string, context: PipingContext): string {
+  if (!hasPiping(text)) return text;
+  const piped = text.replace(TOKEN_PATTERN, (_token, raw: string) => {
+    const ref = parsePipingReference(raw);
+    let value = '';
+    if (ref.kind === 'question') {
+      const question = context.questions[ref.position - 1];
+      value = question ? formatPipedValue(context.answers[question.id], question) : '';
+    } else if (ref.kind === 'variable') {
+      const computed = context.variables?.[ref.name];
+      if (computed !== undefined) value = typeof computed === 'number' ? formatNumber(computed) : computed;
+    }
+    return value || EMPTY_MARKER;
+  });
+  return piped.replace(EMPTY_RUN, (run: string, offset: number) => {
+    const before = run.startsWith(' ');
+    const after = run.endsWith(' ');
+    return after && (before || offset > 0) ? ' ' : '';
+  });
+}
+
+/**
+ * Builder preview form: tokens become readable placeholders
+ * ("[answer to Q3]", "[score]") since there are no answers yet.
+ */
+export function previewPipedText(text: string): string {
+  if (!hasPiping(text)) return text;
+  return text.replace(TOKEN_PATTERN, (token, raw: string) => {
+    const ref = parsePipingReference(raw);
+    if (ref.kind === 'question') return `[answer to Q${ref.position}]`;
+    if (ref.kind === 'variable') return `[${ref.name}]`;
+    return token;
+  });
+}
+
+// ============================================================================
+// BUILDER: KEEP REFERENCES POINTING AT THE SAME QUESTIONS
+// ============================================================================
+
+/**
+ * Rewrite `{{qN}}` tokens after questions were moved, inserted or deleted, so
+ * each keeps pointing at the same question. `previous` is the order the
+ * tokens were written against. References to a removed question become
+ * DELETED_REFERENCE_TOKEN; already-dangling ones are left for validation.
+ * Unchanged questions keep their object identity.
+ */
+export function remapPipingReferences<T extends { id: string; text: string; options: string[] }>(
+  previous: readonly { id: string }[],
+  next: T[]
+): T[] {
+  const nextPosition = new Map(next.map((q, i) => [q.id, i + 1]));
+  const rewrite = (text: string) =>
+    hasPiping(text)
+      ? text.replace(TOKEN_PATTERN, (token, raw: string) => {
+          const ref = parsePipingReference(raw);
+          if (ref.kind !== 'question') return token;
+          const referencedId = previous[ref.position - 1]?.id;
+          if (referencedId === undefined) return token;
+          const position = nextPosition.get(referencedId);
+          if (position === undefined) return DELETED_REFERENCE_TOKEN;
+          return position === ref.position ? token : `{{q${position}}}`;
+        })
+      : text;
+
+  return next.map((question) => {
+    const text = rewrite(question.text);
+    const options = question.options.map(rewrite);
+    const changed = text !== question.text || options.some((o, i) => o !== question.options[i]);
+    return changed ? { ...question, text, options } : question;
+  });
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Highest question position (1-based) each variable depends on, following a
+ * segment's source through earlier variables. Unknown sources contribute 0.
+ */
+function variableDependencies(
+  variables: ComputedVariable[],
+  questions: { id?: string }[]
+): Map<string, number> {
+  const positionById = new Map(questions.map((q, i) => [q.id, i + 1]));
+  const depth = new Map<string, number>();
+  for (const variable of variables) {
+    const sources = variable.kind === 'score' ? variable.sourceQuestionIds : [variable.source ?? ''];
+    const deepest = sources.reduce(
+      (max, id) => Math.max(max, depth.get(id) ?? positionById.get(id) ?? 0),
+      0
+    );
+    if (!depth.has(variable.name)) depth.set(variable.name, deepest);
+  }
+  return depth;
+}
+
+/** Definition problems on the computed variables themselves */
+export function validateComputedVariables(
+  variables: ComputedVariable[],
+  questions: { id?: string }[]
+): PipingIssue[] {
+  const issues: PipingIssue[] = [];
+  const questionIds = new Set(questions.map((q) => q.id).filter(Boolean));
+  const defined = new Set<string>();
+  const definedLower = new Set<string>();
+
+  variables.forEach((variable) => {
+    const name = variable.name.trim();
+    const issue = (message: string) => issues.push({ questionIndex: -1, variableName: name, message });
+
+    if (!VARIABLE_NAME_PATTERN.test(name)) {
+      issue('Variable names must start with a letter and use only letters, numbers and _');
+      return;
+    }
+    if (isReservedVariableName(name)) {
+      issue(`"${name}" is reserved for question references`);
+      return;
+    }
+    if (definedLower.has(name.toLowerCase())) {
+      issue('This variable name is used more than once');
+      return;
+    }
+
+    if (variable.kind === 'score') {
+      if (variable.sourceQuestionIds.length === 0) {
+        issue('Pick at least one question to score');
+      } else if (variable.sourceQuestionIds.some((id) => !questionIds.has(id))) {
+        issue('Scores a question that no longer exists');
+      }
+    } else {
+      const source = variable.source ?? '';
+      if (!source) {
+        issue('Choose what this segment reads from');
+      } else if (!questionIds.has(source) && !defined.has(source)) {
+        issue('Segments can only read a question or a variable defined above them');
+      } else if (!variable.bands?.length) {
+        issue('Add at least one band');
+      } else if (variable.bands.some((b) => !b.label.trim() || !Number.isFinite(b.min))) {
+        issue('Every band needs a label and a minimum value');
+      }
+    }
+    defined.add(name);
+    definedLower.add(name.toLowerCase());
+  });
+
+  return issues;
+}
+
+/**
+ * Reference problems in question text and options: references to questions
+ * that don't exist, to the question itself or a later one (its answer can't
+ * be known yet), to deleted questions, and to unknown variables — including
+ * variables that depend on a later question.
+ */
+export function validatePiping(
+  questions: { id?: string; text: string; options: string[] }[],
+  variables: ComputedVariable[] = []
+): PipingIssue[] {
+  const issues: PipingIssue[] = [];
+  const dependencies = variableDependencies(variables, questions);
+
+  questions.forEach((question, questionIndex) => {
+    const position = questionIndex + 1;
+    const refs = [question.text, ...question.options].flatMap(extractPipingReferences);
+    const reported = new Set<string>();
+    const issue = (message: string) => {
+      if (reported.has(message)) return;
+      reported.add(message);
+      issues.push({ questionIndex, message });
+    };
+
+    for (const ref of refs) {
+      switch (ref.kind) {
+        case 'question':
+          if (ref.position < 1 || ref.position > questions.length) {
+            issue(`references Q${ref.position}, which doesn't exist`);
+          } else if (ref.position === position) {
+            issue(`can't pipe in its own answer`);
+          } else if (ref.position > position) {
+            issue(`references Q${ref.position}, which comes later — only earlier answers can be piped in`);
+          }
+          break;
+        case 'deleted':
+          issue('references a question that was deleted');
+          break;
+        case 'variable': {
+          const deepest = dependencies.get(ref.name);
+          if (deepest === undefined) {
+            issue(`references {{${ref.name}}}, which isn't a computed variable`);
+          } else if (deepest >= position) {
+            issue(`uses {{${ref.name}}}, which depends on Q${deepest} — a question that isn't answered yet`);
+          }
+          break;
+        }
+        case 'invalid':
+          issue(`has an unreadable reference {{${ref.raw}}}`);
+          break;
+      }
+    }
+  });
+
+  return issues;
+}
@@ -0,0 +1,95 @@
+/**
+ * Playlists — Pure Functions for Playlists, Series and Saved Collections
+ *
+ * Creators group their own videos into playlists and series
+ * (server/lib/playlists.mjs); a series is watched in order, so its videos
+ * carry "Part n of N" and the player offers the next part when one ends.
+ * These helpers:
+ *  - label the series chip and playlist cards;
+ *  - find the next part of a series;
+ *  - edit a playlist draft (add, remove, move) and check it before saving.
+ */
+
+import type { PlaylistKind, Video, VideoPlaylist, VideoSeriesInfo } from '@/types';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Mirrors PLAYLIST_LIMITS in server/lib/playlists.mjs */
+export const PLAYLIST_TITLE_MAX = 80;
+export const PLAYLIST_DESCRIPTION_MAX = 500;
+export const PLAYLIST_MAX_ITEMS = 100;
+export const COLLECTION_NAME_MAX = 40;
+
+/** Seconds the "Up next" card counts down before playing the next part */
+export const AUTO_ADVANCE_SECONDS = 5;
+
+export const PLAYLIST_KIND_LABELS: Record<PlaylistKind, string> = {
+  playlist: 'Playlist',
+  series: 'Series',
+};
+
+// ============================================================================
+// LABELS
+// ============================================================================
+
+/** "Part 2 of 5 · Budget meals" */
+export function seriesChipLabel(series: VideoSeriesInfo): string {
+  return `Part ${series.part} of ${series.parts} · ${series.title}`;
+}
+
+/** "Series · 5 parts", "Playlist · 1 video", "Playlist · Empty" */
+export function playlistSubtitle(playlist: Pick<VideoPlaylist, 'kind' | 'itemCount'>): string {
+  const noun = playlist.kind === 'series' ? 'part' : 'video';
+  const count = playlist.itemCount === 0
+    ? 'Empty'
+    : `${playlist.itemCount} ${noun}${playlist.itemCount === 1 ? '' : 's'}`;
+  return `${PLAYLIST_KIND_LABELS[playlist.kind]} · ${count}`;
+}
+
+// ============================================================================
+// SERIES
+// ============================================================================
+
+/**
+ * The part after `videoId` in a series' videos — null on the last part, or
+ * when the video isn't in the list (the series changed since it loaded).
+ */
+export function nextPart(videos: readonly Video[], videoId: string): Video | null {
+  const index = videos.findIndex((v) => v.id === videoId);
+  if (index === -1) return null;
+  return videos[index + 1] ?? null;
+}
+
+// ============================================================================
+// DRAFT EDITING
+// ============================================================================
+
+/** Add `id` to the end, or take it out if it is already there */
+export function toggleItem(ids: readonly string[], id: string): string[] {
+  if (ids.includes(id)) return ids.filter((existing) => existing !== id);
+  if (ids.length >= PLAYLIST_MAX_ITEMS) return [...ids];
+  return [...ids, id];
+}
+
+/** Move the item at `from` to `to` — out-of-range moves leave the order as it was */
+export function moveItem<T>(items: readonly T[], from: number, to: number): T[] {
+  const next = [...items];
+  if (from < 0 || from >= items.length || to < 0 || to >= items.length || from === to) return next;
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+}
+
+/** Why a playlist draft can't be saved yet — null when it can */
+export function playlistDraftError(draft: { title: string; description?: string | null; videoIds: readonly string[] }): string | null {
+  const title = draft.title.trim();
+  if (!title) return 'Give it a title';
+  if (title.length > PLAYLIST_TITLE_MAX) return `Keep the title under ${PLAYLIST_TITLE_MAX} characters`;
+  if ((draft.description ?? '').trim().length > PLAYLIST_DESCRIPTION_MAX) {
+    return `Keep the description under ${PLAYLIST_DESCRIPTION_MAX} characters`;
+  }
+  if (draft.videoIds.length > PLAYLIST_MAX_ITEMS) return `A playlist holds at most ${PLAYLIST_MAX_ITEMS} videos`;
+  return null;
+}
@@ -0,0 +1,69 @@
+/**
+ * Replay Chat — Pure Functions for Livestream Chat Playback
+ *
+ * An ended livestream's replay keeps the stream's chat, each message stored at
+ * `offsetMs` — milliseconds since the stream started, which is exactly the
+ * replay's playhead (server/lib/livestreamReplay.mjs). The player loads chat in
+ * fixed windows around the playhead (one cache entry per window, so seeking
+ * back is free) and shows the messages already "sent" at the current position:
+ *  - which windows to load for a playhead position;
+ *  - merging loaded windows into one ordered list;
+ *  - the tail of that list at the playhead, as LiveChat renders it.
+ */
+
+import type { LivestreamChatMessage } from '@/types';
+
+/** Chat is fetched in windows of this length (the server allows up to 10 min) */
+export const REPLAY_CHAT_WINDOW_MS = 60_000;
+
+/** Messages shown at once — matches LiveChat's live rolling buffer */
+export const REPLAY_CHAT_VISIBLE = 100;
+
+/**
+ * Start offsets of the windows to load at `positionMs`: the current one, the
+ * one before (its messages are still on screen just after a boundary) and the
+ * next (so crossing the boundary doesn't wait on the network).
+ */
+export function replayChatWindows(positionMs: number): number[] {
+  const current = Math.floor(Math.max(0, positionMs) / REPLAY_CHAT_WINDOW_MS);
+  return [current - 1, current, current + 1]
+    .filter((index) => index >= 0)
+    .map((index) => index * REPLAY_CHAT_WINDOW_MS);
+}
+
+const byOffset = (a: LivestreamChatMessage, b: LivestreamChatMessage) =>
+  (a.offsetMs ?? 0) - (b.offsetMs ?? 0) || a.timestamp.localeCompare(b.timestamp);
+
+/** Loaded windows as one list ordered by offset, without duplicates */
+export function mergeReplayWindows(
+  windows: readonly (readonly LivestreamChatMessage[] | undefined)[],
+): LivestreamChatMessage[] {
+  const byId = new Map<string, LivestreamChatMessage>();
+  for (const window of windows) {
+    for (const message of window ?? []) byId.set(message.id, message);
+  }
+  return [...byId.values()].sort(byOffset);
+}
+
+/**
+ * How many of `messages` (ordered by offset) were sent at or before
+ * `positionMs` — the chat's end at that moment of the stream.
+ */
+export function playheadIndex(messages: readonly LivestreamChatMessage[], positionMs: number): number {
+  let end = 0;
+  while (end < messages.length && (messages[end].offsetMs ?? 0) <= positionMs) end += 1;
+  return end;
+}
+
+/**
+ * The last `limit` messages sent at or before `positionMs` — what the chat
+ * looked like at that moment of the stream. `messages` must be ordered by offset.
+ */
+export function messagesAtPlayhead(
+  messages: readonly LivestreamChatMessage[],
+  positionMs: number,
+  limit: number = REPLAY_CHAT_VISIBLE,
+): LivestreamChatMessage[] {
+  const end = playheadIndex(messages, positionMs);
+  return messages.slice(Math.max(0, end - limit), end);
+}
@@ -0,0 +1,213 @@
+/**
+ * Response quality scoring for survey analytics — flags speeders,
+ * straight-liners, copy-pasted text and keyboard mash so the owner can
+ * review or exclude them in app/survey-responses/[id].tsx.
+ *
+ * Every check is relative to the batch being scored: a speeder is measured
+ * against the median completion time, duplicate text against every other
+ * respondent. Score the full response set before filtering, or the median
+ * and the duplicates move with the filters.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type QualityFlag = 'speeder' | 'straight_liner' | 'duplicate_text' | 'gibberish';
+
+export interface ResponseQuality {
+  /** 100 for a clean response, less a penalty per flag, never below 0 */
+  score: number;
+  flags: QualityFlag[];
+}
+
+/** The parts of an UploadSurvey the scoring needs */
+export interface QualityQuestion {
+  id: string;
+  type: string;
+}
+
+/** The parts of a ParsedResponse the scoring needs */
+export interface QualityResponse {
+  userId: string;
+  responses: Record<string, unknown>;
+  /** Open → submit, in seconds; null/undefined when the client didn't report a start */
+  durationSeconds?: number | null;
+}
+
+export const QUALITY_FLAG_LABELS: Record<QualityFlag, string> = {
+  speeder: 'Too fast',
+  straight_liner: 'Straight-lined',
+  duplicate_text: 'Duplicate text',
+  gibberish: 'Gibberish',
+};
+
+const FLAG_PENALTIES: Record<QualityFlag, number> = {
+  speeder: 40,
+  straight_liner: 25,
+  duplicate_text: 25,
+  gibberish: 30,
+};
+
+/** Faster than this fraction of the median completion time is a speeder */
+export const SPEEDER_RATIO = 1 / 3;
+/** Below this many timed responses the median is too noisy to judge speed */
+export const MIN_TIMED_RESPONSES = 5;
+/** Fewer identical answers than this is a coincidence, not a straight line */
+export const MIN_STRAIGHT_LINE_ITEMS = 3;
+/** Short answers ("Good service") legitimately repeat across respondents */
+const MIN_DUPLICATE_LENGTH = 15;
+
+const TEXT_TYPES = ['text', 'paragraph'];
+
+// ============================================================================
+// SPEEDERS
+// ============================================================================
+
+export function medianDuration(durations: (number | null | undefined)[]): number | null {
+  const timed = durations
+    .filter((d): d is number => typeof d === 'number' && Number.isFinite(d) && d > 0)
+    .sort((a, b) => a - b);
+  if (timed.length === 0) return null;
+  const mid = Math.floor(timed.length / 2);
+  return timed.length % 2 === 0 ? (timed[mid - 1] + timed[mid]) / 2 : timed[mid];
+}
+
+// ============================================================================
+// STRAIGHT-LINING
+// ============================================================================
+
+const allSame = (values: string[]) =>
+  values.length >= MIN_STRAIGHT_LINE_ITEMS && values.every((v) => v === values[0]);
+
+/**
+ * The same score on every rating question, or the same column down every row
+ * of a matrix. Each matrix is judged on its own; ratings are judged together.
+ */
+export function isStraightLined(answers: Record<string, unknown>, questions: QualityQuestion[]): boolean {
+  const ratings: string[] = [];
+  for (const question of questions) {
+    const answer = answers[question.id];
+    const type = question.type.toLowerCase();
+    if (type === 'rating' && answer != null && answer !== '') {
+      ratings.push(String(answer));
+    }
+    if (type === 'matrix' && Array.isArray(answer)) {
+      const picked = answer.filter((cell): cell is string => typeof cell === 'string' && cell !== '');
+      if (allSame(picked)) return true;
+    }
+  }
+  return allSame(ratings);
+}
+
+// ============================================================================
+// TEXT CHECKS
+// ============================================================================
+
+const KEYBOARD_ROWS = ['qwertyuiop', 'asdfghjkl', 'zxcvbnm'];
+/** Four-key runs hit real words ("property", "strewn"); five don't */
+const KEYBOARD_RUN = 5;
+
+const KEYBOARD_RUNS: string[] = KEYBOARD_ROWS.flatMap((row) => {
+  const runs: string[] = [];
+  for (let i = 0; i + KEYBOARD_RUN <= row.length; i++) {
+    const run = row.slice(i, i + KEYBOARD_RUN);
+    runs.push(run, [...run].reverse().join(''));
+  }
+  return runs;
+});
+
+/** Six consonants in a row — "strengths" has five */
+const CONSONANT_RUN = /[bcdfghjklmnpqrstvwxz]{6,}/;
+const REPEATED_LETTER = /([a-z])\1{3,}/;
+const VOWEL = /[aeiouy]/;
+
+const isJunkWord = (word: string): boolean =>
+  KEYBOARD_RUNS.some((run) => word.includes(run)) ||
+  CONSONANT_RUN.test(word) ||
+  REPEATED_LETTER.test(word) ||
+  (word.length >= 4 && !VOWEL.test(word));
+
+/**
+ * Keyboard mash: at least half the words are keyboard-row runs, unpronounceable
+ * consonant strings, held-down keys or vowel-less. Only Latin letters are
+ * judged, so answers in other scripts are never flagged.
+ */
+export function isGibberish(text: string): boolean {
+  const words = text
+    .toLowerCase()
+    .split(/\s+/)
+    .map((word) => word.replace(/[^a-z]/g, ''))
+    .filter((word) => word.length >= 3);
+  if (words.length === 0) return false;
+  const junk = words.filter(isJunkWord).length;
+  return junk / words.length >= 0.5;
+}
+
+/** Case, punctuation and spacing don't make copy-pasted text original */
+export function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[!-/:-@[-`{-~]/g, '') // ASCII punctuation — letters in any script survive
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+const getTextAnswers = (answers: Record<string, unknown>, questions: QualityQuestion[]): string[] =>
+  questions
+    .filter((q) => TEXT_TYPES.includes(q.type.toLowerCase()))
+    .map((q) => answers[q.id])
+    .filter((answer): answer is string => typeof answer === 'string' && answer.trim() !== '');
+
+// ============================================================================
+// SCORING
+// ============================================================================
+
+export function scoreFlags(flags: QualityFlag[]): ResponseQuality {
+  const penalty = flags.reduce((sum, flag) => sum + FLAG_PENALTIES[flag], 0);
+  return { score: Math.max(0, 100 - penalty), flags };
+}
+
+/**
+ * Score every response against the rest of the batch. Returns new objects
+ * with `quality` set; the input is not mutated.
+ */
+export function annotateQuality<T extends QualityResponse>(
+  responses: T[],
+  questions: QualityQuestion[]
+): (T & { quality: ResponseQuality })[] {
+  const timed = responses.map((r) => r.durationSeconds);
+  const median = timed.filter((d) => typeof d === 'number' && d > 0).length >= MIN_TIMED_RESPONSES
+    ? medianDuration(timed)
+    : null;
+
+  // normalized text → respondents who wrote it
+  const authors = new Map<string, Set<string>>();
+  const normalizedTexts = responses.map((r) =>
+    getTextAnswers(r.responses, questions)
+      .map(normalizeText)
+      .filter((text) => text.length >= MIN_DUPLICATE_LENGTH)
+  );
+  normalizedTexts.forEach((texts, i) => {
+    texts.forEach((text) => {
+      const users = authors.get(text) ?? new Set<string>();
+      users.add(responses[i].userId);
+      authors.set(text, users);
+    });
+  });
+
+  return responses.map((r, i) => {
+    const flags: QualityFlag[] = [];
+    if (median !== null && typeof r.durationSeconds === 'number' && r.durationSeconds < median * SPEEDER_RATIO) {
+      flags.push('speeder');
+    }
+    if (isStraightLined(r.responses, questions)) flags.push('straight_liner');
+    if (normalizedTexts[i].some((text) => (authors.get(text)?.size ?? 0) > 1)) flags.push('duplicate_text');
+    if (getTextAnswers(r.responses, questions).some(isGibberish)) flags.push('gibberish');
+    return { ...r, quality: scoreFlags(flags) };
+  });
+}
+
+export function isFlagged(response: { quality?: ResponseQuality }): boolean {
+  return (response.quality?.flags.length ?? 0) > 0;
+}
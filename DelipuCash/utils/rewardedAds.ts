@@ -0,0 +1,54 @@
+/**
+ * Rewarded Ads — Pure Functions for the "Watch an ad for points" Entry
+ *
+ * A user can watch a whole ad to earn points, up to a daily cap
+ * (RewardConfig.rewardedAdPoints / rewardedAdDailyCap). The server hands out
+ * the ad with a signed completion token and pays once the ad has played
+ * (server/lib/rewardedAds.mjs). These helpers:
+ *  - decide whether the entry shows, whether it can be tapped, and its words;
+ *  - put the time left on a playing ad into words.
+ */
+
+import type { RewardedAdStatus } from '@/types';
+
+// ============================================================================
+// ENTRY
+// ============================================================================
+
+export interface RewardedEntry {
+  /** False when rewarded ads are off — the entry isn't shown */
+  visible: boolean;
+  /** False when the cap is reached or no ad is ready */
+  enabled: boolean;
+  title: string;
+  subtitle: string;
+}
+
+const HIDDEN: RewardedEntry = { visible: false, enabled: false, title: '', subtitle: '' };
+
+/** What the entry shows for today's status — hidden until it has loaded */
+export function rewardedEntry(status: RewardedAdStatus | null | undefined): RewardedEntry {
+  if (!status || status.points <= 0 || status.dailyCap <= 0) return HIDDEN;
+
+  const title = `Watch an ad for +${status.points} points`;
+  if (status.remaining <= 0) {
+    const ads = status.dailyCap === 1 ? "today's ad" : `all ${status.dailyCap} ads today`;
+    return { visible: true, enabled: false, title, subtitle: `You've watched ${ads} — more tomorrow` };
+  }
+  if (!status.available) {
+    return { visible: true, enabled: false, title, subtitle: 'No ads to watch right now — check back soon' };
+  }
+  return { visible: true, enabled: true, title, subtitle: `${status.remaining} of ${status.dailyCap} left today` };
+}
+
+// ============================================================================
+// PLAYBACK
+// ============================================================================
+
+/** "Points in 0:12", or a prompt to wait for the server once the ad has played */
+export function rewardCountdown(currentTime: number, duration: number): string {
+  if (duration <= 0) return 'Watch to the end to earn points';
+  const left = Math.max(0, Math.ceil(duration - currentTime));
+  if (left === 0) return 'Adding your points…';
+  return `Points in ${Math.floor(left / 60)}:${String(left % 60).padStart(2, '0')}`;
+}
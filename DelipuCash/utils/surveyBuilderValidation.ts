@@ -6,7 +6,15 @@
  *  - empty survey / missing question text
  *  - choice questions with fewer than 2 NON-EMPTY options (a blank option is a
  *    selectable empty row that submits "" — indistinguishable from no answer)
+ *  - matrices without a row or 2 columns, rankings with fewer than 2 items,
+ *    and repeated row/column/item labels (the label IS the stored answer)
  *  - inverted rating/number bounds (min > max)
+ *  - piped {{…}} references to missing, deleted or later questions, and
+ *    broken computed-variable definitions
+ *  - screeners that aren't single-choice, required and ahead of the paid
+ *    questions, or quotas on answers that don't qualify
+ *  - an offered language missing the title, description, or any question's
+ *    text or answer labels (respondents would fall back mid-survey)
  *  - end date not after start date
  *  - a response limit that isn't a positive whole number
  *
@@ -15,23 +23,67 @@
  * or null when valid, plus the parsed response cap.
  */
 
+import { validateComputedVariables, validatePiping } from '@/utils/piping';
+import { validateScreeners } from '@/utils/surveyScreening';
+import { findMissingTranslations } from '@/utils/surveyTranslation';
+import type {
+  ComputedVariable,
+  QuestionTranslation,
+  ScreenerConfig,
+  SurveyTextTranslation,
+} from '@/store/SurveyBuilderStore';
+
 const CHOICE_TYPES = ['radio', 'checkbox', 'dropdown'];
 
+const nonEmpty = (labels: string[] | undefined): string[] =>
+  (labels ?? []).map((l) => l.trim()).filter((l) => l.length > 0);
+
+const hasDuplicates = (labels: string[]): boolean => new Set(labels).size !== labels.length;
+
+/** Structural problem with a matrix or ranking question, or null */
+function gridIssue(q: BuilderValidationQuestion): string | null {
+  if (q.type === 'matrix') {
+    const rows = nonEmpty(q.options);
+    const columns = nonEmpty(q.matrixColumns);
+    if (rows.length < 1) return 'needs at least 1 row';
+    if (columns.length < 2) return 'needs at least 2 columns';
+    if (hasDuplicates(rows)) return 'has two rows with the same label';
+    if (hasDuplicates(columns)) return 'has two columns with the same label';
+  }
+  if (q.type === 'ranking') {
+    const items = nonEmpty(q.options);
+    if (items.length < 2) return 'needs at least 2 items to rank';
+    if (hasDuplicates(items)) return 'has two items with the same label';
+  }
+  return null;
+}
+
 export interface BuilderValidationQuestion {
+  /** Needed to resolve computed-variable sources */
+  id?: string;
   text: string;
   type: string;
   options: string[];
+  matrixColumns?: string[];
   minValue?: number | null;
   maxValue?: number | null;
+  required?: boolean;
+  screener?: ScreenerConfig | null;
+  translations?: Record<string, QuestionTranslation>;
 }
 
 export interface BuilderValidationInput {
   title: string;
+  description?: string;
   questions: BuilderValidationQuestion[];
   startDate: Date;
   endDate: Date;
   /** Raw text from the "Response limit" input ('' = unlimited). */
   maxResponses: string;
+  computedVariables?: ComputedVariable[];
+  /** Languages offered besides the one the survey is written in */
+  languages?: string[];
+  surveyTranslations?: Record<string, SurveyTextTranslation>;
 }
 
 export interface BuilderValidationResult {
@@ -65,6 +117,13 @@ export function validateBuilderSurvey(input: BuilderValidationInput): BuilderVal
     };
   }
 
+  for (let i = 0; i < questions.length; i++) {
+    const issue = gridIssue(questions[i]);
+    if (issue) {
+      return { error: `Question ${i + 1} (${questions[i].type}) ${issue}` };
+    }
+  }
+
   const invertedIndex = questions.findIndex(
     (q) =>
       (q.type === 'rating' || q.type === 'number') &&
@@ -76,6 +135,36 @@ export function validateBuilderSurvey(input: BuilderValidationInput): BuilderVal
     return { error: `Question ${invertedIndex + 1}: the minimum cannot be greater than the maximum` };
   }
 
+  const computedVariables = input.computedVariables ?? [];
+  const variableIssue = validateComputedVariables(computedVariables, questions)[0];
+  if (variableIssue) {
+    return { error: `Variable "${variableIssue.variableName || 'untitled'}": ${variableIssue.message}` };
+  }
+
+  const pipingIssue = validatePiping(questions, computedVariables)[0];
+  if (pipingIssue) {
+    return { error: `Question ${pipingIssue.questionIndex + 1} ${pipingIssue.message}` };
+  }
+
+  const screenerIssue = validateScreeners(questions)[0];
+  if (screenerIssue) {
+    return { error: `Question ${screenerIssue.questionIndex + 1} ${screenerIssue.message}` };
+  }
+
+  const translationIssue = findMissingTranslations({
+    languages: input.languages ?? [],
+    description: input.description,
+    surveyTranslations: input.surveyTranslations,
+    questions,
+  })[0];
+  if (translationIssue) {
+    return {
+      error: translationIssue.questionIndex === null
+        ? translationIssue.message
+        : `Question ${translationIssue.questionIndex + 1} ${translationIssue.message}`,
+    };
+  }
+
   if (startDate >= endDate) {
     return { error: 'End date must be after start date' };
   }
@@ -0,0 +1,37 @@
+/**
+ * Survey file staging — keeps a file picked for a `file_upload` question
+ * while the respondent is offline, so the queued submission can upload it
+ * once the device reconnects.
+ *
+ * DocumentPicker hands back a cache copy the OS may purge at any time, so
+ * the file is copied into documentDirectory/survey-staged/ first. The copy
+ * is deleted once it's uploaded or the respondent removes it.
+ */
+
+import * as FileSystem from 'expo-file-system/legacy';
+
+const STAGING_DIR = 'survey-staged/';
+
+function stagingDirectory(): string {
+  return `${FileSystem.documentDirectory || FileSystem.cacheDirectory || ''}${STAGING_DIR}`;
+}
+
+/** Copy a picked file somewhere it survives restarts; returns the new uri */
+export async function stageSurveyFile(sourceUri: string, stagedId: string, fileName: string): Promise<string> {
+  const dir = stagingDirectory();
+  await FileSystem.makeDirectoryAsync(dir, { intermediates: true }).catch(() => {});
+  const extension = fileName.includes('.') ? fileName.slice(fileName.lastIndexOf('.')) : '';
+  const uri = `${dir}${stagedId}${extension}`;
+  await FileSystem.copyAsync({ from: sourceUri, to: uri });
+  return uri;
+}
+
+export async function stagedFileExists(uri: string): Promise<boolean> {
+  const info = await FileSystem.getInfoAsync(uri).catch(() => null);
+  return !!info?.exists;
+}
+
+/** Best effort — a leftover copy only costs disk space */
+export async function deleteStagedSurveyFile(uri: string): Promise<void> {
+  await FileSystem.deleteAsync(uri, { idempotent: true }).catch(() => {});
+}
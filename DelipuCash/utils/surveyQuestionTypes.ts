@@ -0,0 +1,139 @@
+/**
+ * Matrix, ranking and NPS question helpers — pure functions shared by the
+ * respondent renderer (app/survey/[id].tsx), response analytics and the
+ * CSV/JSON exporters (store/SurveyResponseUIStore.ts).
+ *
+ * Answer shapes all fit the attempt store's AnswerValue, so drafts, submission
+ * and conditional logic need no new value type:
+ * - matrix:  string[] aligned with the rows — answer[i] is the column picked
+ *            for row i, '' while that row is unanswered
+ * - ranking: string[] holding every item, most preferred first
+ * - nps:     number from 0 to 10
+ */
+
+// ============================================================================
+// NPS
+// ============================================================================
+
+export const NPS_MIN = 0;
+export const NPS_MAX = 10;
+
+export type NpsCategory = 'promoter' | 'passive' | 'detractor';
+
+export interface NpsSummary {
+  /** % promoters − % detractors, −100…100 (0 with no scores) */
+  score: number;
+  promoters: number;
+  passives: number;
+  detractors: number;
+}
+
+/** 9–10 promoter, 7–8 passive, 0–6 detractor */
+export function getNpsCategory(score: number): NpsCategory {
+  if (score >= 9) return 'promoter';
+  if (score >= 7) return 'passive';
+  return 'detractor';
+}
+
+export function isNpsScore(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= NPS_MIN && value <= NPS_MAX;
+}
+
+export function summarizeNps(scores: number[]): NpsSummary {
+  const summary: NpsSummary = { score: 0, promoters: 0, passives: 0, detractors: 0 };
+  scores.forEach((s) => {
+    const category = getNpsCategory(s);
+    if (category === 'promoter') summary.promoters++;
+    else if (category === 'passive') summary.passives++;
+    else summary.detractors++;
+  });
+  if (scores.length > 0) {
+    summary.score = Math.round(((summary.promoters - summary.detractors) / scores.length) * 100);
+  }
+  return summary;
+}
+
+// ============================================================================
+// MATRIX
+// ============================================================================
+
+export interface MatrixConfig {
+  rows: string[];
+  columns: string[];
+}
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+
+/**
+ * Read a matrix question's serialized options (`{ rows, columns }`, as a JSON
+ * string or already parsed). Anything unreadable yields an empty grid.
+ */
+export function parseMatrixConfig(options: unknown): MatrixConfig {
+  let parsed = options;
+  if (typeof options === 'string') {
+    try {
+      parsed = JSON.parse(options);
+    } catch {
+      parsed = null;
+    }
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { rows: [], columns: [] };
+  }
+  const obj = parsed as { rows?: unknown; columns?: unknown };
+  return { rows: toStringList(obj.rows), columns: toStringList(obj.columns) };
+}
+
+/** Record `column` for one row, padding the row-aligned answer as needed */
+export function setMatrixCell(answer: unknown, rowCount: number, rowIndex: number, column: string): string[] {
+  const current = Array.isArray(answer) ? answer : [];
+  return Array.from({ length: rowCount }, (_, i) =>
+    i === rowIndex ? column : typeof current[i] === 'string' ? current[i] : ''
+  );
+}
+
+export function isMatrixComplete(answer: unknown, rowCount: number): boolean {
+  if (!Array.isArray(answer) || rowCount === 0) return false;
+  for (let i = 0; i < rowCount; i++) {
+    if (typeof answer[i] !== 'string' || answer[i] === '') return false;
+  }
+  return true;
+}
+
+/** Row label → chosen column, skipping unanswered rows */
+export function matrixAnswerToRecord(answer: unknown, rows: string[]): Record<string, string> {
+  const record: Record<string, string> = {};
+  if (!Array.isArray(answer)) return record;
+  rows.forEach((row, i) => {
+    if (typeof answer[i] === 'string' && answer[i] !== '') record[row] = answer[i];
+  });
+  return record;
+}
+
+// ============================================================================
+// RANKING
+// ============================================================================
+
+/** Move one item and return a new order (out-of-range moves are a no-op) */
+export function moveRankedItem(order: string[], fromIndex: number, toIndex: number): string[] {
+  if (fromIndex === toIndex || toIndex < 0 || toIndex >= order.length || fromIndex < 0 || fromIndex >= order.length) {
+    return order;
+  }
+  const next = [...order];
+  const [moved] = next.splice(fromIndex, 1);
+  next.splice(toIndex, 0, moved);
+  return next;
+}
+
+/** A ranking answer is complete when it orders exactly the question's items */
+export function isRankingComplete(answer: unknown, items: string[]): boolean {
+  if (!Array.isArray(answer) || answer.length !== items.length || items.length === 0) return false;
+  const remaining = new Set(items);
+  return answer.every((item) => typeof item === 'string' && remaining.delete(item));
+}
+
+/** The respondent's current order, or the question's order until they touch it */
+export function resolveRankingOrder(answer: unknown, items: string[]): string[] {
+  return isRankingComplete(answer, items) ? (answer as string[]) : items;
+}
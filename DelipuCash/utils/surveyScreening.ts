@@ -0,0 +1,118 @@
+/**
+ * Survey Screening — Pure Functions for Screener Questions and Quotas
+ *
+ * A screener is a single-choice question at the start of a survey. An answer
+ * outside its `qualifying` list politely ends the attempt before the paid
+ * section; a qualifying answer with a quota is only accepted while the quota
+ * has room. The server enforces both at submit time (403 SCREENED_OUT,
+ * 410 OVER_QUOTA) — the respondent screen checks early so nobody answers the
+ * whole survey for nothing. Mirrors server/lib/surveyScreening.mjs.
+ */
+
+import type { ScreenerConfig } from '@/store/SurveyBuilderStore';
+import type { SurveyQuotaFill } from '@/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const SCREENER_QUESTION_TYPES = ['radio', 'dropdown', 'boolean'];
+
+/** Boolean questions are answered with the strings the renderer writes */
+export const BOOLEAN_SCREENER_ANSWERS = ['true', 'false'];
+
+/** The slice of a question screening needs — builder and respondent shapes both fit */
+export interface ScreeningQuestion {
+  id?: string;
+  type: string;
+  options: string[];
+  required?: boolean;
+  screener?: ScreenerConfig | null;
+}
+
+export interface ScreenerIssue {
+  questionIndex: number;
+  message: string;
+}
+
+export type ScreenerOutcome = 'qualified' | 'screened_out' | 'over_quota';
+
+// ============================================================================
+// BUILDER
+// ============================================================================
+
+export const isScreenerQuestionType = (type: string): boolean => SCREENER_QUESTION_TYPES.includes(type);
+
+/** The answers a screener question can receive */
+export function getScreenerAnswerSpace(question: Pick<ScreeningQuestion, 'type' | 'options'>): string[] {
+  if (question.type === 'boolean') return BOOLEAN_SCREENER_ANSWERS;
+  return question.options.filter((o) => o.trim().length > 0);
+}
+
+/**
+ * Screeners must be single-choice, required, ahead of every other question,
+ * leave at least one answer that doesn't qualify, and only cap qualifying
+ * answers with positive whole-number quotas.
+ */
+export function validateScreeners(questions: ScreeningQuestion[]): ScreenerIssue[] {
+  const issues: ScreenerIssue[] = [];
+  let paidSectionStarted = false;
+
+  questions.forEach((question, questionIndex) => {
+    const screener = question.screener;
+    const fail = (message: string) => issues.push({ questionIndex, message });
+
+    if (!screener) {
+      paidSectionStarted = true;
+      return;
+    }
+    if (!isScreenerQuestionType(question.type)) {
+      return fail('can only screen respondents as a single-choice or yes/no question');
+    }
+    if (paidSectionStarted) return fail('is a screener, so it must come before every other question');
+    if (question.required === false) return fail('is a screener, so it must be required');
+
+    const answerSpace = getScreenerAnswerSpace(question);
+    const { qualifying } = screener;
+    if (qualifying.length === 0) return fail('needs at least one qualifying answer');
+    if (qualifying.some((a) => !answerSpace.includes(a))) return fail('has a qualifying answer that is no longer an option');
+    if (qualifying.length >= answerSpace.length) return fail('must leave at least one answer that does not qualify');
+
+    const seen = new Set<string>();
+    for (const quota of screener.quotas ?? []) {
+      if (!qualifying.includes(quota.answer)) return fail(`caps "${quota.answer}", which does not qualify`);
+      if (seen.has(quota.answer)) return fail(`has two quotas for "${quota.answer}"`);
+      if (!Number.isInteger(quota.limit) || quota.limit < 1) return fail('needs quota limits of 1 or more');
+      seen.add(quota.answer);
+    }
+  });
+
+  return issues;
+}
+
+// ============================================================================
+// RESPONDENT
+// ============================================================================
+
+/**
+ * Outcome of answering a screener. `quotas` is the live fill from
+ * GET /surveys/:id/quotas — a full cell for this answer means over quota.
+ */
+export function getScreenerOutcome(
+  question: { id: string; screener?: ScreenerConfig | null },
+  answer: unknown,
+  quotas: SurveyQuotaFill[] = [],
+): ScreenerOutcome {
+  const screener = question.screener;
+  if (!screener || answer == null || answer === '') return 'qualified';
+
+  const value = String(answer);
+  if (!screener.qualifying.includes(value)) return 'screened_out';
+
+  const full = quotas.some((q) => q.questionId === question.id && q.answer === value && q.full);
+  return full ? 'over_quota' : 'qualified';
+}
+
+/** Fill as a 0–1 ratio for progress bars */
+export const getQuotaFillRatio = (quota: Pick<SurveyQuotaFill, 'filled' | 'limit'>): number =>
+  quota.limit > 0 ? Math.min(1, quota.filled / quota.limit) : 0;
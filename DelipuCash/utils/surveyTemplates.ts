@@ -14,12 +14,14 @@
  * editor.
  */
 
-import type { BuilderQuestionData, BuilderQuestionType } from '@/store/SurveyBuilderStore';
+import type { BuilderQuestionData, BuilderQuestionType, QuestionTranslation } from '@/store/SurveyBuilderStore';
 
 export interface TemplateContent {
   title: string;
   description: string;
   questions: BuilderQuestionData[];
+  /** Languages the imported questions carry translations for */
+  languages?: string[];
 }
 
 interface SeedQuestion {
@@ -146,6 +148,7 @@ export function hasTemplateContent(templateId: string): boolean {
 const RENDERER_TYPES: BuilderQuestionType[] = [
   'text', 'paragraph', 'radio', 'checkbox', 'dropdown',
   'rating', 'boolean', 'date', 'time', 'number', 'file_upload',
+  'matrix', 'ranking', 'nps',
 ];
 
 /**
@@ -156,6 +159,25 @@ const RENDERER_TYPES: BuilderQuestionType[] = [
  * type is constrained to the renderer vocabulary, and every field is coerced to
  * its expected shape. Untrusted conditional logic is not carried through.
  */
+/** Keep well-formed { [lang]: { text, options?, matrixColumns?, placeholder? } } entries */
+function sanitizeTranslations(raw: unknown): Record<string, QuestionTranslation> | undefined {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return undefined;
+  const strings = (value: unknown): string[] | undefined =>
+    Array.isArray(value) ? value.map((v) => (typeof v === 'string' ? v : '')) : undefined;
+  const entries = Object.entries(raw as Record<string, unknown>).flatMap(([language, value]) => {
+    if (!/^[a-z]{2,3}$/.test(language) || !value || typeof value !== 'object') return [];
+    const entry = value as Record<string, unknown>;
+    const translation: QuestionTranslation = { text: typeof entry.text === 'string' ? entry.text : '' };
+    const options = strings(entry.options);
+    const matrixColumns = strings(entry.matrixColumns);
+    if (options) translation.options = options;
+    if (matrixColumns) translation.matrixColumns = matrixColumns;
+    if (typeof entry.placeholder === 'string') translation.placeholder = entry.placeholder;
+    return [[language, translation] as const];
+  });
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
 function sanitizeImportedQuestions(parsed: unknown): BuilderQuestionData[] {
   if (!Array.isArray(parsed)) return [];
   const out: BuilderQuestionData[] = [];
@@ -173,12 +195,16 @@ function sanitizeImportedQuestions(parsed: unknown): BuilderQuestionData[] {
       : [];
     const min = typeof q.minValue === 'number' && Number.isFinite(q.minValue) ? q.minValue : undefined;
     const max = typeof q.maxValue === 'number' && Number.isFinite(q.maxValue) ? q.maxValue : undefined;
+    const translations = sanitizeTranslations(q.translations);
 
     out.push({
       id: typeof q.id === 'string' && q.id ? q.id : `imported_${i + 1}`,
       text,
       type,
       options,
+      ...(type === 'matrix' && Array.isArray(q.matrixColumns)
+        ? { matrixColumns: q.matrixColumns.filter((c): c is string => typeof c === 'string') }
+        : {}),
       minValue: min,
       maxValue: max,
       placeholder: typeof q.placeholder === 'string' ? q.placeholder : undefined,
@@ -186,6 +212,7 @@ function sanitizeImportedQuestions(parsed: unknown): BuilderQuestionData[] {
       conditionalLogic: null,
       fileUploadConfig: null,
       points: typeof q.points === 'number' && Number.isFinite(q.points) ? q.points : 0,
+      ...(translations ? { translations } : {}),
     });
   });
   return out;
@@ -211,7 +238,9 @@ export function resolveCreationEntry(params: {
       return null;
     }
     const questions = sanitizeImportedQuestions(parsed);
-    return questions.length > 0 ? { title: '', description: '', questions } : null;
+    if (questions.length === 0) return null;
+    const languages = [...new Set(questions.flatMap((q) => Object.keys(q.translations ?? {})))];
+    return { title: '', description: '', questions, ...(languages.length > 0 ? { languages } : {}) };
   }
   if (params.templateId) {
     return getTemplateContent(params.templateId);
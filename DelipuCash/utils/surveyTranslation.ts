@@ -0,0 +1,224 @@
+/**
+ * Survey Translation — Pure Functions for Multilingual Surveys
+ *
+ * A survey is written in one language (`defaultLanguage`) and may also be
+ * offered in others. Each offered language carries its own title, description
+ * and copy of every question's text and answer labels. Translated labels line
+ * up with the source labels by index, and answers are always recorded as the
+ * source label at that index — so conditional logic, screeners, quotas and
+ * analytics only ever see one language. The server re-checks completeness
+ * (server/lib/surveyTranslation.mjs) and rejects a partial translation.
+ */
+
+import type { QuestionTranslation, SurveyTextTranslation } from '@/store/SurveyBuilderStore';
+import type { UploadSurvey } from '@/types';
+
+// ============================================================================
+// LANGUAGES
+// ============================================================================
+
+export const DEFAULT_SURVEY_LANGUAGE = 'en';
+
+/** Languages a survey can be written or offered in */
+export const SURVEY_LANGUAGES = [
+  { code: 'en', name: 'English' },
+  { code: 'lg', name: 'Luganda' },
+  { code: 'sw', name: 'Swahili' },
+];
+
+export const getLanguageName = (code: string): string =>
+  SURVEY_LANGUAGES.find((l) => l.code === code)?.name ?? code.toUpperCase();
+
+/** The device's language code ('en-UG' → 'en'), or null when unavailable */
+export function getDeviceLanguage(): string | null {
+  try {
+    const locale = Intl.DateTimeFormat().resolvedOptions().locale;
+    return locale ? locale.split(/[-_]/)[0].toLowerCase() : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The language to open a survey in: the first preference the survey offers
+ * (a past pick, then the device language), else the language it's written in.
+ */
+export function pickSurveyLanguage(
+  survey: { defaultLanguage?: string; languages?: string[] },
+  preferred: (string | null | undefined)[],
+): string {
+  const fallback = survey.defaultLanguage ?? DEFAULT_SURVEY_LANGUAGE;
+  const offered = [fallback, ...(survey.languages ?? [])];
+  return preferred.find((l): l is string => !!l && offered.includes(l)) ?? fallback;
+}
+
+// ============================================================================
+// BUILDER
+// ============================================================================
+
+/** The slice of a builder question a translation covers */
+export interface TranslatableQuestion {
+  type: string;
+  text?: string;
+  options: string[];
+  matrixColumns?: string[];
+  translations?: Record<string, QuestionTranslation>;
+}
+
+/** A source label and its position in the builder's own array */
+export interface SourceLabel {
+  index: number;
+  label: string;
+}
+
+export interface TranslationIssue {
+  language: string;
+  /** null for the survey title/description */
+  questionIndex: number | null;
+  message: string;
+}
+
+const LIST_TYPES = ['radio', 'checkbox', 'dropdown', 'ranking'];
+
+const withIndex = (labels: string[] = []): SourceLabel[] =>
+  labels.map((label, index) => ({ index, label })).filter((l) => l.label.trim().length > 0);
+
+/**
+ * The labels a translation must cover, as they ship on publish: choices,
+ * ranking items, matrix rows + columns, or the Yes/No labels of a boolean.
+ * Blank entries are skipped — SurveyForm drops them on publish too.
+ */
+export function getSourceLabels(question: TranslatableQuestion): { options: SourceLabel[]; matrixColumns: SourceLabel[] } {
+  if (LIST_TYPES.includes(question.type)) return { options: withIndex(question.options), matrixColumns: [] };
+  if (question.type === 'matrix') {
+    return { options: withIndex(question.options), matrixColumns: withIndex(question.matrixColumns) };
+  }
+  if (question.type === 'boolean') {
+    return {
+      options: [
+        { index: 0, label: question.options[0] || 'Yes' },
+        { index: 1, label: question.options[1] || 'No' },
+      ],
+      matrixColumns: [],
+    };
+  }
+  return { options: [], matrixColumns: [] };
+}
+
+const isFilled = (value: string | undefined): boolean => !!value && value.trim().length > 0;
+
+/**
+ * Everything still untranslated, per offered language. Messages read after
+ * "Question N" (or stand alone for survey-level issues).
+ */
+export function findMissingTranslations(input: {
+  languages: string[];
+  description?: string;
+  surveyTranslations?: Record<string, SurveyTextTranslation>;
+  questions: TranslatableQuestion[];
+}): TranslationIssue[] {
+  const issues: TranslationIssue[] = [];
+
+  for (const language of input.languages) {
+    const name = getLanguageName(language);
+    const survey = input.surveyTranslations?.[language];
+    if (!isFilled(survey?.title)) {
+      issues.push({ language, questionIndex: null, message: `The survey title needs a ${name} translation` });
+    }
+    if (isFilled(input.description) && !isFilled(survey?.description)) {
+      issues.push({ language, questionIndex: null, message: `The survey description needs a ${name} translation` });
+    }
+
+    input.questions.forEach((question, questionIndex) => {
+      const entry = question.translations?.[language];
+      const fail = (message: string) => issues.push({ language, questionIndex, message });
+      if (!isFilled(entry?.text)) return fail(`needs a ${name} translation of its text`);
+
+      const source = getSourceLabels(question);
+      if (source.options.some((s) => !isFilled(entry?.options?.[s.index]))) {
+        fail(`needs a ${name} translation of every ${question.type === 'matrix' ? 'row' : 'option'}`);
+      }
+      if (source.matrixColumns.some((s) => !isFilled(entry?.matrixColumns?.[s.index]))) {
+        fail(`needs a ${name} translation of every column`);
+      }
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * A question's translations as they publish: label lists compacted to the
+ * non-blank source labels (matching the options SurveyForm sends), text
+ * trimmed, empty placeholders dropped. Undefined when there is nothing to send.
+ */
+export function compactQuestionTranslations(
+  question: TranslatableQuestion,
+  languages: string[],
+): Record<string, QuestionTranslation> | undefined {
+  if (languages.length === 0) return undefined;
+  const source = getSourceLabels(question);
+
+  return Object.fromEntries(
+    languages.map((language) => {
+      const entry = question.translations?.[language];
+      const compacted: QuestionTranslation = { text: entry?.text?.trim() ?? '' };
+      if (source.options.length > 0) compacted.options = source.options.map((s) => entry?.options?.[s.index]?.trim() ?? '');
+      if (source.matrixColumns.length > 0) {
+        compacted.matrixColumns = source.matrixColumns.map((s) => entry?.matrixColumns?.[s.index]?.trim() ?? '');
+      }
+      if (isFilled(entry?.placeholder)) compacted.placeholder = entry!.placeholder!.trim();
+      return [language, compacted];
+    }),
+  );
+}
+
+// ============================================================================
+// ANSWERS
+// ============================================================================
+
+/** The source labels a published question's answers are stored as */
+export function publishedLabels(question: Pick<UploadSurvey, 'type' | 'options'>): { options: string[]; columns: string[] } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(question.options);
+  } catch {
+    return { options: [], columns: [] };
+  }
+  const obj = parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? (parsed as Record<string, unknown>) : null;
+  const strings = (value: unknown): string[] => (Array.isArray(value) ? value.map(String) : []);
+
+  if (question.type === 'matrix') return { options: strings(obj?.rows), columns: strings(obj?.columns) };
+  if (Array.isArray(parsed)) return { options: strings(parsed), columns: [] };
+  return { options: strings(obj?.options), columns: [] };
+}
+
+/**
+ * Map an answer given as a translated label back to the source label at the
+ * same index, so answers in every language land in the same bucket. Answers
+ * already in the source language (the normal case) pass through unchanged.
+ */
+export function canonicalizeAnswer(
+  question: Pick<UploadSurvey, 'type' | 'options' | 'translations'>,
+  answer: unknown,
+): unknown {
+  const translations = Object.values(question.translations ?? {});
+  if (translations.length === 0 || answer == null) return answer;
+
+  const source = publishedLabels(question);
+  const toSource = (value: unknown, key: 'options' | 'matrixColumns', labels: string[]): unknown => {
+    if (typeof value !== 'string' || labels.includes(value)) return value;
+    for (const entry of translations) {
+      const index = entry[key]?.indexOf(value) ?? -1;
+      if (index !== -1 && labels[index] !== undefined) return labels[index];
+    }
+    return value;
+  };
+
+  // Matrix answers are row-aligned column labels (see utils/surveyQuestionTypes.ts)
+  if (question.type === 'matrix') {
+    return Array.isArray(answer) ? answer.map((value) => toSource(value, 'matrixColumns', source.columns)) : answer;
+  }
+  if (Array.isArray(answer)) return answer.map((value) => toSource(value, 'options', source.options));
+  return toSource(answer, 'options', source.options);
+}
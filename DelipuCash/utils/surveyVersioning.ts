@@ -0,0 +1,194 @@
+/**
+ * Survey Versioning — Pure Functions for Version History and Analytics
+ *
+ * Every question edit or rollback publishes a new, immutable version of a
+ * survey (server/lib/surveyVersioning.mjs). A version's questions keep their
+ * ids across versions, so two versions are compared question by question: a
+ * question is added, removed, reworded, or has its options changed.
+ *
+ * Responses record the version they answered. Analytics either look at one
+ * version on its own, or merge every version — in which case an older answer
+ * only counts if its question still collects the same kind of answer
+ * (`isCompatibleQuestion`). Rewording alone keeps a question compatible.
+ */
+
+import type { Survey, SurveyVersion, SurveyVersionQuestion, UploadSurvey } from '@/types';
+import { publishedLabels } from './surveyTranslation';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type VersionChangeKind = 'added' | 'removed' | 'reworded' | 'options_changed';
+
+export interface VersionChange {
+  kind: VersionChangeKind;
+  questionId: string;
+  /** Question text in the newer version (the older one for removals) */
+  text: string;
+  /** Reworded: the text it replaced */
+  previousText?: string;
+  /** Options changed: labels new to this version */
+  addedOptions?: string[];
+  /** Options changed: labels this version dropped */
+  removedOptions?: string[];
+}
+
+/** The parts of a ParsedResponse version scoping needs */
+export interface VersionedResponse {
+  responses: Record<string, unknown>;
+  surveyVersion?: number | null;
+}
+
+export interface VersionScopeResult<T extends VersionedResponse> {
+  /** The questions to chart — the scoped version's, or the live ones when merged */
+  questions: UploadSurvey[];
+  responses: T[];
+  /** Merged: older answers left out because their question changed shape */
+  droppedAnswers: number;
+}
+
+// ============================================================================
+// COMPARING VERSIONS
+// ============================================================================
+
+type ComparableQuestion = Pick<SurveyVersionQuestion, 'type' | 'options' | 'minValue' | 'maxValue'>;
+
+/** Responses from before versioning answered version 1 */
+export const responseVersion = (response: VersionedResponse): number => response.surveyVersion ?? 1;
+
+const sameSet = (a: string[], b: string[]): boolean =>
+  a.length === b.length && a.every((label) => b.includes(label));
+
+/**
+ * Whether answers to `before` can be counted alongside answers to `after`.
+ * Answers are stored as option text, so choice options may be reordered but
+ * not added, removed or renamed. Matrix answers are row-aligned, so the rows
+ * must also keep their order.
+ */
+export function isCompatibleQuestion(before: ComparableQuestion, after: ComparableQuestion): boolean {
+  if (before.type !== after.type) return false;
+  if ((before.minValue ?? null) !== (after.minValue ?? null) || (before.maxValue ?? null) !== (after.maxValue ?? null)) {
+    return false;
+  }
+  const a = publishedLabels(before);
+  const b = publishedLabels(after);
+  if (before.type === 'matrix') {
+    return a.options.join('\u0000') === b.options.join('\u0000') && sameSet(a.columns, b.columns);
+  }
+  return sameSet(a.options, b.options);
+}
+
+/**
+ * What changed from one version to the next, in the newer version's question
+ * order with removals last. A question can be both reworded and have its
+ * options changed — it then gets an entry for each.
+ */
+export function diffVersions(before: SurveyVersionQuestion[], after: SurveyVersionQuestion[]): VersionChange[] {
+  const previous = new Map(before.map((q) => [q.id, q]));
+  const current = new Set(after.map((q) => q.id));
+  const changes: VersionChange[] = [];
+
+  for (const question of after) {
+    const old = previous.get(question.id);
+    if (!old) {
+      changes.push({ kind: 'added', questionId: question.id, text: question.text });
+      continue;
+    }
+    if (old.text.trim() !== question.text.trim()) {
+      changes.push({ kind: 'reworded', questionId: question.id, text: question.text, previousText: old.text });
+    }
+    if (!isCompatibleQuestion(old, question)) {
+      const oldLabels = publishedLabels(old);
+      const newLabels = publishedLabels(question);
+      const oldAll = [...oldLabels.options, ...oldLabels.columns];
+      const newAll = [...newLabels.options, ...newLabels.columns];
+      changes.push({
+        kind: 'options_changed',
+        questionId: question.id,
+        text: question.text,
+        addedOptions: newAll.filter((label) => !oldAll.includes(label)),
+        removedOptions: oldAll.filter((label) => !newAll.includes(label)),
+      });
+    }
+  }
+
+  for (const question of before) {
+    if (!current.has(question.id)) {
+      changes.push({ kind: 'removed', questionId: question.id, text: question.text });
+    }
+  }
+  return changes;
+}
+
+// ============================================================================
+// ANALYTICS SCOPE
+// ============================================================================
+
+/** A version's question as the UploadSurvey row the analytics helpers take */
+export function snapshotToUploadSurvey(
+  question: SurveyVersionQuestion,
+  version: Pick<SurveyVersion, 'createdAt'>,
+  survey: Pick<Survey, 'id' | 'userId'>,
+): UploadSurvey {
+  return {
+    ...question,
+    userId: survey.userId,
+    surveyId: survey.id,
+    createdAt: version.createdAt,
+    updatedAt: version.createdAt,
+  };
+}
+
+/**
+ * Narrow responses and questions to one version (`scope`), or — with a null
+ * scope — merge every version onto the live questions, dropping older answers
+ * whose question was removed or changed shape since. Versions that aren't
+ * loaded yet are treated as compatible.
+ */
+export function scopeToVersion<T extends VersionedResponse>(
+  survey: Pick<Survey, 'id' | 'userId' | 'currentVersion'>,
+  liveQuestions: UploadSurvey[],
+  responses: T[],
+  versions: SurveyVersion[],
+  scope: number | null,
+): VersionScopeResult<T> {
+  const currentVersion = survey.currentVersion ?? 1;
+  const byNumber = new Map(versions.map((v) => [v.version, v]));
+
+  if (scope !== null) {
+    const version = byNumber.get(scope);
+    return {
+      questions: scope === currentVersion || !version
+        ? liveQuestions
+        : version.questions.map((q) => snapshotToUploadSurvey(q, version, survey)),
+      responses: responses.filter((r) => responseVersion(r) === scope),
+      droppedAnswers: 0,
+    };
+  }
+
+  const live = new Map(liveQuestions.map((q) => [q.id, q]));
+  // Per older version: the question ids whose answers still count
+  const keptIds = new Map<number, Set<string>>();
+  for (const version of versions) {
+    if (version.version === currentVersion) continue;
+    keptIds.set(
+      version.version,
+      new Set(version.questions.filter((q) => live.has(q.id) && isCompatibleQuestion(q, live.get(q.id)!)).map((q) => q.id)),
+    );
+  }
+
+  let droppedAnswers = 0;
+  const merged = responses.map((response) => {
+    const kept = keptIds.get(responseVersion(response));
+    if (!kept) return response;
+    const answers: Record<string, unknown> = {};
+    for (const [questionId, answer] of Object.entries(response.responses)) {
+      if (kept.has(questionId)) answers[questionId] = answer;
+      else droppedAnswers += 1;
+    }
+    return { ...response, responses: answers };
+  });
+
+  return { questions: liveQuestions, responses: merged, droppedAnswers };
+}
@@ -0,0 +1,189 @@
+/**
+ * Video Analytics — Pure Functions for the Creator Analytics Screen
+ *
+ * The server turns feed telemetry into metrics and the creator's median
+ * video ("typical") over the chosen range (server/lib/videoAnalytics.mjs).
+ * These helpers:
+ *  - format shares, watch time and counts for the metric cards;
+ *  - compare a metric to the typical video, knowing which way is better;
+ *  - find the steepest drop on the retention curve;
+ *  - turn all of that into a few plain sentences on why a video is
+ *    underperforming — or that it isn't.
+ */
+
+import type {
+  AnalyticsBenchmark,
+  AnalyticsRange,
+  TrafficSource,
+  TrafficSourceShare,
+  VideoMetrics,
+} from '@/types';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const ANALYTICS_RANGE_OPTIONS: { value: AnalyticsRange; label: string }[] = [
+  { value: '7d', label: '7 days' },
+  { value: '28d', label: '28 days' },
+  { value: '90d', label: '90 days' },
+];
+
+export const TRAFFIC_SOURCE_LABELS: Record<TrafficSource, string> = {
+  'for-you': 'For You',
+  following: 'Following',
+  trending: 'Trending',
+  live: 'Live',
+  search: 'Search',
+  other: 'Other',
+};
+
+/** Below this many views a video's numbers are noise — no insights yet */
+export const MIN_VIEWS_FOR_INSIGHTS = 20;
+/** Within this relative distance of typical counts as "about the same" */
+export const SAME_AS_TYPICAL = 0.1;
+/** A retention drop between two points this steep is worth pointing at */
+export const STEEP_DROP = 0.3;
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+/** 0.423 → "42%", 0.042 → "4.2%" */
+export function formatShare(share: number): string {
+  const percent = share * 100;
+  if (percent > 0 && percent < 10) return `${percent.toFixed(1).replace(/\.0$/, '')}%`;
+  return `${Math.round(percent)}%`;
+}
+
+/** 42 → "42s", 65 → "1m 05s" */
+export function formatWatchTime(seconds: number): string {
+  const whole = Math.round(seconds);
+  if (whole < 60) return `${whole}s`;
+  return `${Math.floor(whole / 60)}m ${String(whole % 60).padStart(2, '0')}s`;
+}
+
+/** 950 → "950", 12_400 → "12.4K", 3_100_000 → "3.1M" */
+export function formatCount(count: number): string {
+  if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1).replace(/\.0$/, '')}M`;
+  if (count >= 1_000) return `${(count / 1_000).toFixed(1).replace(/\.0$/, '')}K`;
+  return String(count);
+}
+
+// ============================================================================
+// COMPARISON
+// ============================================================================
+
+export type ComparedMetric = 'views' | 'avgViewSeconds' | 'swipeAwayRate' | 'completionRate';
+
+export interface MedianComparison {
+  /** Relative difference from typical — 0.25 is 25% above */
+  delta: number;
+  verdict: 'better' | 'worse' | 'same';
+  /** "+25% vs typical", "About typical" */
+  label: string;
+}
+
+/** Swiping away is the one metric where lower is better */
+const LOWER_IS_BETTER: ReadonlySet<ComparedMetric> = new Set(['swipeAwayRate']);
+
+/**
+ * How `metrics[key]` compares to the typical video — null when there is
+ * nothing to compare with (no other viewed videos, or a typical of 0).
+ */
+export function compareToMedian(
+  key: ComparedMetric,
+  metrics: Pick<VideoMetrics, ComparedMetric>,
+  benchmark: AnalyticsBenchmark,
+): MedianComparison | null {
+  const typical = benchmark[key];
+  if (typical === null || typical === 0 || benchmark.videos < 2) return null;
+
+  const delta = (metrics[key] - typical) / typical;
+  if (Math.abs(delta) < SAME_AS_TYPICAL) return { delta, verdict: 'same', label: 'About typical' };
+
+  const higher = delta > 0;
+  const better = LOWER_IS_BETTER.has(key) ? !higher : higher;
+  const percent = Math.round(Math.abs(delta) * 100);
+  return {
+    delta,
+    verdict: better ? 'better' : 'worse',
+    label: `${higher ? '+' : '−'}${percent}% vs typical`,
+  };
+}
+
+// ============================================================================
+// RETENTION & INSIGHTS
+// ============================================================================
+
+/** The steepest fall between two neighbouring retention points, or null on a flat curve */
+export function steepestDrop(
+  retention: VideoMetrics['retention'],
+): { fromPercent: number; toPercent: number; drop: number } | null {
+  let steepest: { fromPercent: number; toPercent: number; drop: number } | null = null;
+  for (let i = 1; i < retention.length; i++) {
+    const drop = retention[i - 1].share - retention[i].share;
+    if (drop > 0 && (!steepest || drop > steepest.drop)) {
+      steepest = { fromPercent: retention[i - 1].percent, toPercent: retention[i].percent, drop };
+    }
+  }
+  return steepest;
+}
+
+/**
+ * Plain sentences on why a video is underperforming against the creator's
+ * typical video, most important first. `durationSeconds` puts the steepest
+ * retention drop at a timestamp.
+ */
+export function analyticsInsights(
+  metrics: VideoMetrics,
+  benchmark: AnalyticsBenchmark,
+  trafficSources: readonly TrafficSourceShare[],
+  durationSeconds: number | null = null,
+): string[] {
+  if (metrics.views < MIN_VIEWS_FOR_INSIGHTS) {
+    return ['Too few views in this range to say how it is doing yet.'];
+  }
+
+  const insights: string[] = [];
+
+  const swipe = compareToMedian('swipeAwayRate', metrics, benchmark);
+  if (swipe?.verdict === 'worse') {
+    insights.push(
+      `${formatShare(metrics.swipeAwayRate)} swiped away in the first 3 seconds, against ` +
+      `${formatShare(benchmark.swipeAwayRate!)} on your typical video — the opening isn't hooking viewers.`,
+    );
+  }
+
+  // Past the opening — the first quarter's drop is mostly the swipe-aways above
+  const drop = steepestDrop(metrics.retention.slice(1));
+  if (drop && drop.drop >= STEEP_DROP) {
+    const at = durationSeconds
+      ? ` (around ${formatWatchTime((durationSeconds * drop.fromPercent) / 100)}–${formatWatchTime((durationSeconds * drop.toPercent) / 100)})`
+      : '';
+    insights.push(`${formatShare(drop.drop)} of viewers leave between ${drop.fromPercent}% and ${drop.toPercent}%${at}.`);
+  }
+
+  const watch = compareToMedian('avgViewSeconds', metrics, benchmark);
+  if (watch?.verdict === 'worse') {
+    insights.push(
+      `Viewers watch ${formatWatchTime(metrics.avgViewSeconds)} on average, ` +
+      `under the ${formatWatchTime(benchmark.avgViewSeconds!)} of your typical video.`,
+    );
+  }
+
+  const views = compareToMedian('views', metrics, benchmark);
+  const forYou = trafficSources.find((s) => s.source === 'for-you')?.share ?? 0;
+  if (views?.verdict === 'worse' && forYou < 0.5) {
+    insights.push('Most views come from outside For You — the feed hasn\'t picked it up widely yet.');
+  }
+
+  if (insights.length === 0) {
+    insights.push(
+      benchmark.videos < 2
+        ? 'Post a few more videos to compare this one against your typical video.'
+        : 'Holding up against your typical video.',
+    );
+  }
+  return insights;
+}
@@ -14,6 +14,11 @@
  *  - auto cellular trim: a narrower window (1 ahead / 0 behind) — softer than
  *    manual saver, autoplay is unaffected;
  *  - default: 2 ahead / 1 behind (the store's long-standing preload targets).
+ *
+ * Which rendition an item loads is utils/videoRendition's call, and it is the
+ * same whether the item is active or a neighbour — so a preloaded buffer is
+ * exactly what plays. `computePreloadBuffer` caps how much of it a neighbour
+ * buffers on cellular.
  */
 
 export const PRELOAD_AHEAD = 2;
@@ -53,3 +58,16 @@ export function computeShouldLoad(
 
   return index >= activeIndex - behind && index <= activeIndex + ahead;
 }
+
+/** One HLS segment (server/lib/hlsLadder.mjs) — enough for an instant start */
+export const CELLULAR_NEIGHBOR_BUFFER_SECONDS = 4;
+
+/**
+ * Forward buffer (seconds) for an item inside the load window, or null for the
+ * player's default. Under cellular trim a neighbour only buffers its first
+ * segment instead of ~20 s of a video the viewer may swipe past; the active
+ * item always gets the default.
+ */
+export function computePreloadBuffer(opts: Pick<ShouldLoadOptions, 'isActive' | 'cellularTrim'> = {}): number | null {
+  return !opts.isActive && opts.cellularTrim ? CELLULAR_NEIGHBOR_BUFFER_SECONDS : null;
+}
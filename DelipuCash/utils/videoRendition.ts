@@ -0,0 +1,127 @@
+/**
+ * Video Rendition — Pure Functions for Picking What to Stream
+ *
+ * Uploaded videos are transcoded into an HLS ladder (360p / 480p / 720p plus
+ * an audio-only rung — server/lib/hlsLadder.mjs). Until a video's ladder is
+ * ready it only has its MP4 (`videoUrl`), and that is what plays.
+ *
+ * With a ladder, the source is picked from the viewer's settings and network:
+ *  - a manual pick from the quality menu wins (the nearest rung at or below it
+ *    when this video's ladder is shorter);
+ *  - data saver: the lowest video rung;
+ *  - cellular: 360p on 2G/3G, at most 480p otherwise — pinned, so the player
+ *    can't climb to 720p on a metered connection;
+ *  - Wi-Fi / anything else: the master playlist, and the player adapts.
+ *
+ * The pick never depends on whether the item is the active one — neighbours
+ * in the videoPreload window buffer exactly what they'll play, so nothing is
+ * re-fetched when they become active.
+ */
+
+import type { Video, VideoRendition } from '@/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Quality menu values — 'auto' lets the network decide */
+export type VideoQuality = 'auto' | '720p' | '480p' | '360p' | 'audio';
+
+export const QUALITY_OPTIONS: { value: VideoQuality; label: string }[] = [
+  { value: 'auto', label: 'Auto' },
+  { value: '720p', label: '720p' },
+  { value: '480p', label: '480p' },
+  { value: '360p', label: '360p' },
+  { value: 'audio', label: 'Audio only' },
+];
+
+export interface RenditionContext {
+  /** Manual pick from the quality menu */
+  quality: VideoQuality;
+  dataSaver: boolean;
+  /** NetInfo connection type ('wifi', 'cellular', …) */
+  connectionType?: string | null;
+  /** NetInfo cellular generation ('2g' … '5g') while on cellular */
+  cellularGeneration?: string | null;
+}
+
+/** Why a source was picked — shown next to "Auto" in the quality menus */
+export type RenditionReason = 'manual' | 'data_saver' | 'cellular' | 'adaptive' | 'mp4';
+
+export interface RenditionChoice {
+  /** What to hand the player; null when the video has no playable URL */
+  uri: string | null;
+  /** The pinned rung — null for adaptive playback or the MP4 */
+  rendition: VideoRendition | null;
+  reason: RenditionReason;
+}
+
+// ============================================================================
+// PICKING
+// ============================================================================
+
+/** Highest rung a cellular connection is pinned to */
+export const CELLULAR_MAX_HEIGHT = 480;
+
+const SLOW_CELLULAR = new Set(['2g', '3g']);
+
+const videoRungs = (renditions: VideoRendition[]): VideoRendition[] =>
+  renditions.filter((r) => r.height > 0).sort((a, b) => a.height - b.height);
+
+/** The tallest video rung at or below `maxHeight` — the lowest rung if none fit */
+function rungAtMost(renditions: VideoRendition[], maxHeight: number): VideoRendition | null {
+  const rungs = videoRungs(renditions);
+  const fitting = rungs.filter((r) => r.height <= maxHeight);
+  return fitting[fitting.length - 1] ?? rungs[0] ?? null;
+}
+
+/** A manual quality → the rung to play, or null when this ladder can't honour it */
+function manualRung(renditions: VideoRendition[], quality: VideoQuality): VideoRendition | null {
+  if (quality === 'auto') return null;
+  if (quality === 'audio') return renditions.find((r) => r.height === 0) ?? null;
+  return rungAtMost(renditions, parseInt(quality, 10));
+}
+
+export function pickRendition(
+  video: Pick<Video, 'videoUrl' | 'hls'> | null | undefined,
+  context: RenditionContext,
+): RenditionChoice {
+  const mp4 = (video?.videoUrl || '').trim();
+  const hls = video?.hls;
+  if (!hls || hls.renditions.length === 0) {
+    return { uri: mp4 || null, rendition: null, reason: 'mp4' };
+  }
+
+  const pin = (rendition: VideoRendition | null, reason: RenditionReason): RenditionChoice | null =>
+    rendition ? { uri: rendition.url, rendition, reason } : null;
+
+  const choice =
+    pin(manualRung(hls.renditions, context.quality), 'manual') ??
+    (context.dataSaver ? pin(rungAtMost(hls.renditions, 0), 'data_saver') : null) ??
+    (context.connectionType === 'cellular'
+      ? pin(
+          rungAtMost(hls.renditions, SLOW_CELLULAR.has(context.cellularGeneration ?? '') ? 0 : CELLULAR_MAX_HEIGHT),
+          'cellular',
+        )
+      : null);
+
+  return choice ?? { uri: hls.masterUrl, rendition: null, reason: 'adaptive' };
+}
+
+/** Menu label for what's playing, e.g. "Auto (480p)" or "Audio only" */
+export function renditionLabel(choice: RenditionChoice): string {
+  if (choice.reason === 'mp4') return 'Original';
+  const name = choice.rendition ? (choice.rendition.height === 0 ? 'Audio only' : choice.rendition.name) : null;
+  if (choice.reason === 'manual') return name ?? 'Auto';
+  return name ? `Auto (${name})` : 'Auto';
+}
+
+/** Whether the quality menu has anything to offer for this video */
+export const hasQualityChoices = (video: Pick<Video, 'hls'> | null | undefined): boolean =>
+  (video?.hls?.renditions.length ?? 0) > 0;
+
+/** Quality menu entries for this video's ladder — Auto plus the rungs it has */
+export function qualityOptionsFor(video: Pick<Video, 'hls'> | null | undefined): typeof QUALITY_OPTIONS {
+  const names = new Set(video?.hls?.renditions.map((r) => r.name) ?? []);
+  return QUALITY_OPTIONS.filter((option) => option.value === 'auto' || names.has(option.value));
+}
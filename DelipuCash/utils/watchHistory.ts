@@ -0,0 +1,186 @@
+/**
+ * Watch History — Pure Functions for Resume Playback and the History Screen
+ *
+ * The players record where the viewer is (VideoStore.watchHistory, newest
+ * first) and useWatchHistorySync uploads what changed in batches; the server
+ * keeps one row per video and the later watchedAt wins
+ * (server/lib/watchHistory.mjs). These helpers:
+ *  - decide where playback resumes — not for a video barely started or
+ *    practically finished;
+ *  - keep the local list newest-first, one entry per video, capped;
+ *  - merge in what the server has (another device, or a reinstall);
+ *  - build sync batches, and lay fresh local progress over the server's list
+ *    and group it by day for the history screen.
+ */
+
+import type { WatchHistoryEntry } from '@/store/VideoStore';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Mirrors WATCH_HISTORY_LIMITS.RESUME_MIN_SECONDS on the server */
+export const RESUME_MIN_SECONDS = 10;
+/** Mirrors WATCH_HISTORY_LIMITS.COMPLETE_PERCENT — from here a video counts as watched */
+export const COMPLETE_PERCENT = 95;
+/** Entries kept on the device */
+export const LOCAL_HISTORY_LIMIT = 100;
+/** Mirrors WATCH_HISTORY_LIMITS.MAX_SYNC_ENTRIES */
+export const SYNC_BATCH_SIZE = 50;
+
+// ============================================================================
+// PROGRESS & RESUME
+// ============================================================================
+
+/** Share of the video watched, 0–100 */
+export function progressPercentOf(positionSeconds: number, durationSeconds: number): number {
+  if (!(durationSeconds > 0)) return 0;
+  return Math.max(0, Math.min(100, Math.round((positionSeconds / durationSeconds) * 100)));
+}
+
+/** Where playback should resume, in seconds — null to start from the beginning */
+export function resumePosition(
+  entry: Pick<WatchHistoryEntry, 'positionSeconds' | 'duration'> | null | undefined,
+): number | null {
+  if (!entry || !(entry.positionSeconds >= RESUME_MIN_SECONDS)) return null;
+  if (progressPercentOf(entry.positionSeconds, entry.duration) >= COMPLETE_PERCENT) return null;
+  return entry.positionSeconds;
+}
+
+/** Saved progress as 0–1 for a progress bar, 0 when the video isn't in the history */
+export function savedProgress(history: readonly WatchHistoryEntry[], videoId: string | undefined): number {
+  const entry = videoId ? history.find((h) => h.videoId === videoId) : undefined;
+  return entry ? entry.progressPercent / 100 : 0;
+}
+
+// ============================================================================
+// LOCAL LIST
+// ============================================================================
+
+/** `history` with `videoId` moved to the front at its new position, capped at LOCAL_HISTORY_LIMIT */
+export function recordProgress(
+  history: readonly WatchHistoryEntry[],
+  videoId: string,
+  positionSeconds: number,
+  duration: number,
+  now: Date = new Date(),
+): WatchHistoryEntry[] {
+  const position = Math.max(0, Math.min(positionSeconds, duration));
+  const entry: WatchHistoryEntry = {
+    videoId,
+    watchedAt: now.toISOString(),
+    positionSeconds: position,
+    progressPercent: progressPercentOf(position, duration),
+    duration,
+  };
+  return [entry, ...history.filter((h) => h.videoId !== videoId)].slice(0, LOCAL_HISTORY_LIMIT);
+}
+
+/**
+ * Local history merged with the server's entries — one per video, the later
+ * watchedAt kept, newest first. Local progress not yet synced survives.
+ */
+export function mergeHistoryEntries(
+  local: readonly WatchHistoryEntry[],
+  remote: readonly {
+    videoId: string;
+    positionSeconds: number;
+    durationSeconds: number;
+    progressPercent: number;
+    watchedAt: string;
+  }[],
+): WatchHistoryEntry[] {
+  const byVideo = new Map(local.map((entry) => [entry.videoId, entry]));
+  for (const item of remote) {
+    const mine = byVideo.get(item.videoId);
+    if (mine && new Date(mine.watchedAt).getTime() >= new Date(item.watchedAt).getTime()) continue;
+    byVideo.set(item.videoId, {
+      videoId: item.videoId,
+      watchedAt: item.watchedAt,
+      positionSeconds: item.positionSeconds,
+      progressPercent: item.progressPercent,
+      duration: item.durationSeconds,
+    });
+  }
+  return [...byVideo.values()]
+    .sort((a, b) => new Date(b.watchedAt).getTime() - new Date(a.watchedAt).getTime())
+    .slice(0, LOCAL_HISTORY_LIMIT);
+}
+
+// ============================================================================
+// SYNC
+// ============================================================================
+
+/** The next batch to upload: pending videos still in the history, at most SYNC_BATCH_SIZE */
+export function historySyncBatch(
+  history: readonly WatchHistoryEntry[],
+  pendingVideoIds: readonly string[],
+): { videoId: string; positionSeconds: number; durationSeconds: number; watchedAt: string }[] {
+  const pending = new Set(pendingVideoIds);
+  return history
+    .filter((entry) => pending.has(entry.videoId) && entry.duration > 0)
+    .slice(0, SYNC_BATCH_SIZE)
+    .map((entry) => ({
+      videoId: entry.videoId,
+      positionSeconds: entry.positionSeconds,
+      durationSeconds: entry.duration,
+      watchedAt: entry.watchedAt,
+    }));
+}
+
+// ============================================================================
+// HISTORY SCREEN
+// ============================================================================
+
+/**
+ * Server entries with this device's progress laid over where it is newer —
+ * the screen shows what was just watched before the next sync lands. Kept
+ * newest first, so a video just watched again moves up.
+ */
+export function withLocalProgress<
+  T extends { videoId: string; positionSeconds: number; progressPercent: number; watchedAt: string; resumeAt: number | null },
+>(items: readonly T[], local: readonly WatchHistoryEntry[]): T[] {
+  const byVideo = new Map(local.map((entry) => [entry.videoId, entry]));
+  const merged = items.map((item) => {
+    const mine = byVideo.get(item.videoId);
+    if (!mine || new Date(mine.watchedAt).getTime() <= new Date(item.watchedAt).getTime()) return item;
+    return {
+      ...item,
+      positionSeconds: mine.positionSeconds,
+      progressPercent: mine.progressPercent,
+      watchedAt: mine.watchedAt,
+      resumeAt: resumePosition(mine),
+    };
+  });
+  return merged.sort((a, b) => new Date(b.watchedAt).getTime() - new Date(a.watchedAt).getTime());
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const dayKey = (d: Date) => `${d.getFullYear()}-${d.getMonth()}-${d.getDate()}`;
+
+/** "Today", "Yesterday", "Mon 12 Oct" — with the year when it isn't this one */
+export function historyDayLabel(watchedAt: string, now: Date = new Date()): string {
+  const day = new Date(watchedAt);
+  if (dayKey(day) === dayKey(now)) return 'Today';
+  const yesterday = new Date(now.getFullYear(), now.getMonth(), now.getDate() - 1);
+  if (dayKey(day) === dayKey(yesterday)) return 'Yesterday';
+  const label = `${WEEKDAYS[day.getDay()]} ${day.getDate()} ${MONTHS[day.getMonth()]}`;
+  return day.getFullYear() === now.getFullYear() ? label : `${label} ${day.getFullYear()}`;
+}
+
+/** SectionList sections by local day, in the order given (newest first) */
+export function groupHistoryByDay<T extends { watchedAt: string }>(
+  items: readonly T[],
+  now: Date = new Date(),
+): { title: string; data: T[] }[] {
+  const sections: { title: string; data: T[] }[] = [];
+  for (const item of items) {
+    const title = historyDayLabel(item.watchedAt, now);
+    const last = sections[sections.length - 1];
+    if (last?.title === title) last.data.push(item);
+    else sections.push({ title, data: [item] });
+  }
+  return sections;
+}
@@ -0,0 +1,405 @@
+/**
+ * XLSX Reader — Pure TypeScript Excel Workbook Reader
+ *
+ * Reads the cell text of an .xlsx workbook so spreadsheet imports keep their
+ * option lists instead of going through a lossy "export to CSV" step. An .xlsx
+ * file is a ZIP archive of XML parts; this module carries just enough of each
+ * format to get at the values:
+ *
+ * - ZIP: central directory + stored/DEFLATE entries (no ZIP64, no encryption)
+ * - DEFLATE: a small RFC 1951 inflater (after zlib's reference `puff.c`)
+ * - XML: workbook sheet list, shared strings, and sheet rows/cells
+ *
+ * Formulas yield their cached value, booleans become "true"/"false", and
+ * styles, dates and merged cells are ignored — the importer only needs text.
+ * Rows come back as string[][], the same shape papaparse gives CSV, so the
+ * result flows through autoMapColumns unchanged.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface XlsxWorkbook {
+  /** Sheet names in workbook (tab) order */
+  sheetNames: string[];
+  /** Cell text of one sheet, row by row; gaps between cells are '' */
+  readSheet: (index: number) => string[][];
+}
+
+// ============================================================================
+// BYTES
+// ============================================================================
+
+const BASE64_VALUES = new Uint8Array(128);
+'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+  .split('')
+  .forEach((char, value) => (BASE64_VALUES[char.charCodeAt(0)] = value));
+
+/** Decode base64 (as returned by expo-file-system) to bytes */
+export function base64ToBytes(base64: string): Uint8Array {
+  const clean = base64.replace(/[^A-Za-z0-9+/]/g, '');
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let buffer = 0;
+  let bits = 0;
+  let length = 0;
+  for (let i = 0; i < clean.length; i++) {
+    buffer = ((buffer << 6) | BASE64_VALUES[clean.charCodeAt(i)]) & 0xffffff;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[length++] = (buffer >> bits) & 0xff;
+    }
+  }
+  return bytes.subarray(0, length);
+}
+
+/** UTF-8 bytes → string (TextDecoder is not available on every RN runtime) */
+function decodeUtf8(bytes: Uint8Array): string {
+  const chunks: string[] = [];
+  let codes: number[] = [];
+  let i = bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf ? 3 : 0;
+  while (i < bytes.length) {
+    const b = bytes[i++];
+    let code: number;
+    if (b < 0x80) code = b;
+    else if (b < 0xe0) code = ((b & 0x1f) << 6) | (bytes[i++] & 0x3f);
+    else if (b < 0xf0) code = ((b & 0x0f) << 12) | ((bytes[i++] & 0x3f) << 6) | (bytes[i++] & 0x3f);
+    else {
+      code = ((b & 0x07) << 18) | ((bytes[i++] & 0x3f) << 12) | ((bytes[i++] & 0x3f) << 6) | (bytes[i++] & 0x3f);
+    }
+    codes.push(code);
+    if (codes.length === 8192) {
+      chunks.push(String.fromCodePoint(...codes));
+      codes = [];
+    }
+  }
+  chunks.push(String.fromCodePoint(...codes));
+  return chunks.join('');
+}
+
+const readUint16 = (bytes: Uint8Array, offset: number): number => bytes[offset] | (bytes[offset + 1] << 8);
+const readUint32 = (bytes: Uint8Array, offset: number): number =>
+  (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+
+// ============================================================================
+// INFLATE (RFC 1951)
+// ============================================================================
+
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DIST_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145,
+  8193, 12289, 16385, 24577,
+];
+const DIST_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+const MAX_BITS = 15;
+
+/** Canonical Huffman table: code counts per length + symbols in code order */
+interface Huffman {
+  counts: Uint16Array;
+  symbols: Uint16Array;
+}
+
+function buildHuffman(lengths: ArrayLike<number>): Huffman {
+  const counts = new Uint16Array(MAX_BITS + 1);
+  for (let i = 0; i < lengths.length; i++) counts[lengths[i]]++;
+  counts[0] = 0;
+
+  const offsets = new Uint16Array(MAX_BITS + 1);
+  for (let len = 1; len < MAX_BITS; len++) offsets[len + 1] = offsets[len] + counts[len];
+
+  const symbols = new Uint16Array(lengths.length);
+  for (let symbol = 0; symbol < lengths.length; symbol++) {
+    if (lengths[symbol] !== 0) symbols[offsets[lengths[symbol]]++] = symbol;
+  }
+  return { counts, symbols };
+}
+
+const FIXED_LITERALS = buildHuffman(
+  Array.from({ length: 288 }, (_, i) => (i < 144 ? 8 : i < 256 ? 9 : i < 280 ? 7 : 8))
+);
+const FIXED_DISTANCES = buildHuffman(Array.from({ length: 30 }, () => 5));
+
+/** Inflate a raw DEFLATE stream into exactly `size` bytes */
+function inflate(input: Uint8Array, size: number): Uint8Array {
+  const out = new Uint8Array(size);
+  let outPos = 0;
+  let inPos = 0;
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const bits = (need: number): number => {
+    while (bitCount < need) {
+      if (inPos >= input.length) throw new Error('The workbook is truncated or corrupt');
+      bitBuffer |= input[inPos++] << bitCount;
+      bitCount += 8;
+    }
+    const value = bitBuffer & ((1 << need) - 1);
+    bitBuffer >>>= need;
+    bitCount -= need;
+    return value;
+  };
+
+  const decode = (table: Huffman): number => {
+    let code = 0;
+    let first = 0;
+    let index = 0;
+    for (let len = 1; len <= MAX_BITS; len++) {
+      code |= bits(1);
+      const count = table.counts[len];
+      if (code - count < first) return table.symbols[index + (code - first)];
+      index += count;
+      first = (first + count) << 1;
+      code <<= 1;
+    }
+    throw new Error('The workbook is truncated or corrupt');
+  };
+
+  const emit = (byte: number) => {
+    if (outPos >= size) throw new Error('The workbook is truncated or corrupt');
+    out[outPos++] = byte;
+  };
+
+  let last = 0;
+  while (!last) {
+    last = bits(1);
+    const type = bits(2);
+
+    if (type === 0) {
+      // Stored block: byte-aligned LEN / NLEN, then raw bytes
+      bitBuffer = 0;
+      bitCount = 0;
+      const length = readUint16(input, inPos);
+      inPos += 4;
+      for (let i = 0; i < length; i++) emit(input[inPos++]);
+      continue;
+    }
+    if (type === 3) throw new Error('The workbook is truncated or corrupt');
+
+    let literals = FIXED_LITERALS;
+    let distances = FIXED_DISTANCES;
+    if (type === 2) {
+      const literalCount = bits(5) + 257;
+      const distanceCount = bits(5) + 1;
+      const codeLengthCount = bits(4) + 4;
+
+      const codeLengthLengths = new Uint8Array(19);
+      for (let i = 0; i < codeLengthCount; i++) codeLengthLengths[CODE_LENGTH_ORDER[i]] = bits(3);
+      const codeLengths = buildHuffman(codeLengthLengths);
+
+      const lengths = new Uint8Array(literalCount + distanceCount);
+      for (let i = 0; i < lengths.length; ) {
+        const symbol = decode(codeLengths);
+        if (symbol < 16) {
+          lengths[i++] = symbol;
+          continue;
+        }
+        let repeat: number;
+        let value = 0;
+        if (symbol === 16) {
+          if (i === 0) throw new Error('The workbook is truncated or corrupt');
+          value = lengths[i - 1];
+          repeat = 3 + bits(2);
+        } else if (symbol === 17) {
+          repeat = 3 + bits(3);
+        } else {
+          repeat = 11 + bits(7);
+        }
+        while (repeat-- > 0) lengths[i++] = value;
+      }
+      literals = buildHuffman(lengths.subarray(0, literalCount));
+      distances = buildHuffman(lengths.subarray(literalCount));
+    }
+
+    for (;;) {
+      const symbol = decode(literals);
+      if (symbol < 256) {
+        emit(symbol);
+        continue;
+      }
+      if (symbol === 256) break;
+
+      const lengthIndex = symbol - 257;
+      const length = LENGTH_BASE[lengthIndex] + bits(LENGTH_EXTRA[lengthIndex]);
+      const distanceIndex = decode(distances);
+      const distance = DIST_BASE[distanceIndex] + bits(DIST_EXTRA[distanceIndex]);
+      if (distance > outPos) throw new Error('The workbook is truncated or corrupt');
+      for (let i = 0; i < length; i++) emit(out[outPos - distance]);
+    }
+  }
+
+  return out;
+}
+
+// ============================================================================
+// ZIP
+// ============================================================================
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+/** Entry name → a thunk that extracts it (only the parts we read get inflated) */
+function readZipEntries(bytes: Uint8Array): Map<string, () => Uint8Array> {
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (readUint32(bytes, i) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) throw new Error('This file is not an Excel workbook (.xlsx)');
+
+  const entryCount = readUint16(bytes, eocd + 10);
+  let offset = readUint32(bytes, eocd + 16);
+  const entries = new Map<string, () => Uint8Array>();
+
+  for (let n = 0; n < entryCount; n++) {
+    if (readUint32(bytes, offset) !== CENTRAL_SIGNATURE) throw new Error('The workbook is truncated or corrupt');
+    const flags = readUint16(bytes, offset + 8);
+    const method = readUint16(bytes, offset + 10);
+    const compressedSize = readUint32(bytes, offset + 20);
+    const size = readUint32(bytes, offset + 24);
+    const nameLength = readUint16(bytes, offset + 28);
+    const extraLength = readUint16(bytes, offset + 30);
+    const commentLength = readUint16(bytes, offset + 32);
+    const localOffset = readUint32(bytes, offset + 42);
+    const name = decodeUtf8(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    entries.set(name, () => {
+      if (flags & 0x1) throw new Error('Password-protected workbooks are not supported');
+      if (readUint32(bytes, localOffset) !== LOCAL_SIGNATURE) throw new Error('The workbook is truncated or corrupt');
+      const start = localOffset + 30 + readUint16(bytes, localOffset + 26) + readUint16(bytes, localOffset + 28);
+      const data = bytes.subarray(start, start + compressedSize);
+      if (method === 0) return data;
+      if (method === 8) return inflate(data, size);
+      throw new Error('The workbook uses an unsupported compression method');
+    });
+  }
+
+  return entries;
+}
+
+// ============================================================================
+// XML
+// ============================================================================
+
+/** Decode XML entities and Excel's _xHHHH_ escapes */
+function decodeXmlText(text: string): string {
+  return text
+    .replace(/&(lt|gt|quot|apos|amp|#\d+|#x[0-9a-fA-F]+);/g, (_, entity: string) => {
+      if (entity[0] === '#') {
+        return String.fromCodePoint(entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+      }
+      return { lt: '<', gt: '>', quot: '"', apos: "'", amp: '&' }[entity] ?? '';
+    })
+    .replace(/_x([0-9a-fA-F]{4})_/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(/([\w:]+)\s*=\s*"([^"]*)"/g)) {
+    attributes[match[1]] = decodeXmlText(match[2]);
+  }
+  return attributes;
+}
+
+/** Every element named `tag` (any namespace prefix): its attributes and inner XML */
+function findElements(xml: string, tag: string): { attributes: Record<string, string>; inner: string }[] {
+  const pattern = new RegExp(`<(?:\\w+:)?${tag}\\b([^>]*?)(?:\\/>|>([\\s\\S]*?)<\\/(?:\\w+:)?${tag}>)`, 'g');
+  return [...xml.matchAll(pattern)].map((match) => ({ attributes: parseAttributes(match[1]), inner: match[2] ?? '' }));
+}
+
+/** Text of a string item: plain <t>, or the <t> of each rich-text run (phonetic hints skipped) */
+const stringItemText = (inner: string): string =>
+  findElements(inner.replace(/<(?:\w+:)?rPh\b[\s\S]*?<\/(?:\w+:)?rPh>/g, ''), 't')
+    .map((t) => decodeXmlText(t.inner))
+    .join('');
+
+/** "AB12" → 27 (zero-based column) */
+function columnIndex(reference: string): number {
+  let index = 0;
+  for (const char of reference.replace(/\d+$/, '')) index = index * 26 + (char.charCodeAt(0) - 64);
+  return index - 1;
+}
+
+/** Resolve a relationship target against the directory of the part that owns it */
+function resolvePartPath(base: string, target: string): string {
+  if (target.startsWith('/')) return target.slice(1);
+  const parts = base.split('/').slice(0, -1);
+  for (const segment of target.split('/')) {
+    if (segment === '..') parts.pop();
+    else if (segment !== '.') parts.push(segment);
+  }
+  return parts.join('/');
+}
+
+// ============================================================================
+// WORKBOOK
+// ============================================================================
+
+/**
+ * Open an .xlsx workbook. Sheets are parsed lazily on `readSheet`, so listing
+ * the tabs of a large workbook for a sheet picker stays cheap.
+ */
+export function openXlsx(bytes: Uint8Array): XlsxWorkbook {
+  const entries = readZipEntries(bytes);
+  const readText = (path: string): string | null => {
+    const entry = entries.get(path);
+    return entry ? decodeUtf8(entry()) : null;
+  };
+
+  const workbookXml = readText('xl/workbook.xml');
+  if (workbookXml === null) throw new Error('This file is not an Excel workbook (.xlsx)');
+
+  const relationships = new Map(
+    findElements(readText('xl/_rels/workbook.xml.rels') ?? '', 'Relationship').map((r) => [
+      r.attributes.Id,
+      resolvePartPath('xl/workbook.xml', r.attributes.Target ?? ''),
+    ])
+  );
+  const sheets = findElements(workbookXml, 'sheet').map((sheet, i) => ({
+    name: sheet.attributes.name ?? `Sheet${i + 1}`,
+    path: relationships.get(sheet.attributes['r:id']) ?? `xl/worksheets/sheet${i + 1}.xml`,
+  }));
+  if (sheets.length === 0) throw new Error('The workbook has no sheets');
+
+  let sharedStrings: string[] | null = null;
+  const getSharedStrings = (): string[] => {
+    sharedStrings ??= findElements(readText('xl/sharedStrings.xml') ?? '', 'si').map((si) => stringItemText(si.inner));
+    return sharedStrings;
+  };
+
+  const readSheet = (index: number): string[][] => {
+    const sheet = sheets[index];
+    if (!sheet) throw new Error(`The workbook has no sheet ${index + 1}`);
+    const xml = readText(sheet.path);
+    if (xml === null) throw new Error(`Sheet "${sheet.name}" is missing from the workbook`);
+
+    const rows: string[][] = [];
+    for (const row of findElements(xml, 'row')) {
+      const values: string[] = [];
+      findElements(row.inner, 'c').forEach((cell, position) => {
+        const { r, t } = cell.attributes;
+        const column = r ? columnIndex(r) : position;
+        const raw = findElements(cell.inner, 'v')[0]?.inner;
+        let value: string;
+        if (t === 's') value = getSharedStrings()[Number(raw)] ?? '';
+        else if (t === 'inlineStr') value = stringItemText(findElements(cell.inner, 'is')[0]?.inner ?? '');
+        else if (t === 'b') value = raw === '1' ? 'true' : 'false';
+        else value = raw !== undefined ? decodeXmlText(raw) : '';
+
+        while (values.length < column) values.push('');
+        values[column] = value.trim();
+      });
+      // Header/data rows may sit below blank rows — keep rows with any text
+      if (values.some((v) => v !== '')) rows.push(values);
+    }
+    return rows;
+  };
+
+  return { sheetNames: sheets.map((s) => s.name), readSheet };
+}
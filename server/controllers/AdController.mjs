@@ -3,17 +3,35 @@ import prisma from '../lib/prisma.mjs';
 import asyncHandler from 'express-async-handler';
 import { getSignedDownloadUrl, URL_EXPIRY } from '../lib/r2.mjs';
 import { getStore, mediaCacheMaxMs } from '../lib/memoryCache.mjs';
+import {
+  RESUBMITTED_FROM,
+  canPause,
+  canResume,
+  changesCreative,
+  statusChangeCreate,
+} from '../lib/adCampaigns.mjs';
+import {
+  AD_REVIEW_DECISIONS,
+  DECISION_OUTCOMES,
+  MODERATION_LIMITS,
+  adReviewBlocker,
+  normalizeAdIds,
+  normalizeNote,
+} from '../lib/moderation.mjs';
+import { pickVariant, trafficShares } from '../lib/adVariants.mjs';
+import { parseVideoDuration } from '../lib/rewardedAds.mjs';
 
 // In-process cache for the public ad feed. The response is fully global (no
 // per-user state), so it is safe to cache by query params. 5 min TTL — well
-// under the signed-URL lifetime (DOWNLOAD_URL_EXPIRY = 24h).
+// under the signed-URL lifetime (DOWNLOAD_URL_EXPIRY = 24h). Creative tests
+// pick their variant per response, after the cache (serveVariants).
 const adsCache = getStore('ads', 200);
 const ADS_TTL_MS = Math.min(5 * 60 * 1000, mediaCacheMaxMs(URL_EXPIRY.DOWNLOAD_URL_EXPIRY));
 
 /**
  * Replace public R2 URLs with signed URLs for ad media.
  */
-async function signAdUrls(ad) {
+export async function signAdUrls(ad) {
   const [imageUrl, videoUrl, thumbnailUrl] = await Promise.all([
     ad.r2ImageKey
       ? getSignedDownloadUrl(ad.r2ImageKey, URL_EXPIRY.DOWNLOAD_URL_EXPIRY)
@@ -53,7 +71,7 @@ function serializeBigInt(obj) {
 const VALID_AD_TYPES = ['regular', 'featured', 'banner', 'compact'];
 const VALID_PLACEMENTS = ['home', 'feed', 'survey', 'video', 'question', 'profile', 'explore', 'interstitial', 'native', 'rewarded', 'story'];
 const VALID_PRICING_MODELS = ['cpm', 'cpc', 'cpa', 'flat'];
-const VALID_CTA_TYPES = [
+export const VALID_CTA_TYPES = [
   'learn_more', 'shop_now', 'sign_up', 'download', 'watch_video', 'watch_more',
   'get_offer', 'book_now', 'contact_us', 'apply_now', 'subscribe', 'get_quote', 'none'
 ];
@@ -72,7 +90,7 @@ const UPDATABLE_AD_FIELDS = new Set([
   // R2 media metadata (set when media is replaced)
   'r2ImageKey', 'r2VideoKey', 'r2ThumbnailKey', 'r2ImageEtag', 'r2VideoEtag', 'r2ThumbnailEtag',
   'imageMimeType', 'videoMimeType', 'thumbnailMimeType', 'imageSizeBytes', 'videoSizeBytes',
-  'thumbnailSizeBytes', 'storageProvider',
+  'thumbnailSizeBytes', 'videoDurationSeconds', 'storageProvider',
 ]);
 
 /**
@@ -80,7 +98,7 @@ const UPDATABLE_AD_FIELDS = new Set([
  * active, approved, and within its (optional) start/end window. Used by the atomic
  * tracking guards so budget is never spent on a paused/expired/unapproved ad.
  */
-const servableAdWhere = (now) => ({
+export const servableAdWhere = (now) => ({
   isActive: true,
   status: 'approved',
   AND: [
@@ -94,7 +112,7 @@ const servableAdWhere = (now) => ({
  * ADMIN/MODERATOR. Sends the 404/403 response and returns null on failure; returns the
  * ad on success. Callers must `if (!ad) return;` after invoking.
  */
-async function loadOwnedAd(req, res) {
+export async function loadOwnedAd(req, res) {
   const ad = await prisma.ad.findUnique({ where: { id: req.params.adId } });
   if (!ad) {
     res.status(404).json({ success: false, message: 'Ad not found' });
@@ -133,6 +151,7 @@ function adEventContext(req) {
     ipAddress: (req.ip || '').slice(0, 64) || null,
     userAgent: str(req.headers?.['user-agent'], 256),
     placement: str(b.placement, 64),
+    variantId: str(b.variantId, 64),
     viewable: b.wasVisible === true,
     viewDuration: int(b.duration, 0, 86_400_000),
     viewportPercentage: int(b.viewportPercentage, 0, 100),
@@ -149,6 +168,7 @@ function eventRowData(eventModel, adId, ctx) {
     ipAddress: ctx.ipAddress,
     userAgent: ctx.userAgent,
     placement: ctx.placement,
+    variantId: ctx.variantId ?? null,
   };
   if (eventModel === 'adImpression') {
     return { ...base, viewable: ctx.viewable, viewDuration: ctx.viewDuration, viewportPercentage: ctx.viewportPercentage };
@@ -159,10 +179,15 @@ function eventRowData(eventModel, adId, ctx) {
 /** Decide the response when the atomic guard rejected the spend (count === 0). */
 async function notServableOrExhausted(ad, cost) {
   if ((Number(ad.amountSpent) || 0) + cost > (Number(ad.totalBudget) || 0)) {
-    await prisma.ad.updateMany({
+    const done = await prisma.ad.updateMany({
       where: { id: ad.id, status: 'approved' },
       data: { status: 'completed', isActive: false },
     });
+    if (done.count > 0) {
+      try {
+        await prisma.adStatusChange.create({ data: { adId: ad.id, status: 'completed', reason: 'Budget spent' } });
+      } catch { /* the timeline is best-effort — the ad's status is the source of truth */ }
+    }
     return { ok: false, status: 200, message: 'Budget exhausted', budgetExhausted: true };
   }
   return { ok: false, status: 409, message: 'Ad not servable' };
@@ -174,11 +199,20 @@ async function notServableOrExhausted(ad, cost) {
  * total-budget check and increment are a single `updateMany` (race-safe). When eventModel +
  * eventId are supplied, the count and a deduped event row are written in one transaction:
  * a duplicate eventId (client retry) is idempotent (counts once); the event rows also give
- * an audit trail + fraud signals. Returns { ok } or { ok:false, status, message }.
+ * an audit trail + fraud signals. An event for one of the ad's running creative-test
+ * variants is counted on that variant too (lib/adVariants.mjs); any other variantId is
+ * dropped. Returns { ok } or { ok:false, status, message }.
  */
 async function recordBillableEvent(adId, { counterField, computeCost, eventModel = null }, eventCtx = {}) {
-  const ad = await prisma.ad.findUnique({ where: { id: adId } });
+  const ad = await prisma.ad.findUnique({
+    where: { id: adId },
+    include: { variants: { where: { isActive: true }, select: { id: true } } },
+  });
   if (!ad) return { ok: false, status: 404, message: 'Ad not found' };
+  const variantId = (ad.variants ?? []).some((v) => v.id === eventCtx.variantId) ? eventCtx.variantId : null;
+  const ctx = { ...eventCtx, variantId };
+  const countVariant = (client) =>
+    client.adVariant.update({ where: { id: variantId }, data: { [counterField]: { increment: 1 } } });
 
   const cost = computeCost(ad);
   const now = new Date();
@@ -209,9 +243,10 @@ async function recordBillableEvent(adId, { counterField, computeCost, eventModel
   if (eventModel && eventCtx.eventId) {
     try {
       return await prisma.$transaction(async (tx) => {
-        await tx[eventModel].create({ data: eventRowData(eventModel, adId, eventCtx) });
+        await tx[eventModel].create({ data: eventRowData(eventModel, adId, ctx) });
         const r = await tx.ad.updateMany({ where: guardWhere, data: incrementData });
         if (r.count === 0) { const e = new Error('guard'); e.guardRejected = true; throw e; }
+        if (variantId) await countVariant(tx);
         return { ok: true };
       });
     } catch (e) {
@@ -224,9 +259,14 @@ async function recordBillableEvent(adId, { counterField, computeCost, eventModel
   // No idempotency key: count atomically, then best-effort log a (server-keyed) event row.
   const r = await prisma.ad.updateMany({ where: guardWhere, data: incrementData });
   if (r.count === 0) return notServableOrExhausted(ad, cost);
+  if (variantId) {
+    try {
+      await countVariant(prisma);
+    } catch { /* the test's counts are best-effort — the ad's counter is what's billed */ }
+  }
   if (eventModel) {
     try {
-      await prisma[eventModel].create({ data: eventRowData(eventModel, adId, { ...eventCtx, eventId: randomUUID() }) });
+      await prisma[eventModel].create({ data: eventRowData(eventModel, adId, { ...ctx, eventId: randomUUID() }) });
     } catch { /* logging is best-effort — the counter is the source of truth */ }
   }
   return { ok: true };
@@ -288,6 +328,7 @@ export const createAd = asyncHandler(async (req, res) => {
         imageSizeBytes,
         videoSizeBytes,
         thumbnailSizeBytes,
+        videoDurationSeconds,
         storageProvider = "r2",
       } = req.body;
   
@@ -427,6 +468,7 @@ export const createAd = asyncHandler(async (req, res) => {
           imageSizeBytes: imageSizeBytes ? BigInt(imageSizeBytes) : null,
           videoSizeBytes: videoSizeBytes ? BigInt(videoSizeBytes) : null,
           thumbnailSizeBytes: thumbnailSizeBytes ? parseInt(thumbnailSizeBytes) : null,
+          videoDurationSeconds: parseVideoDuration(videoDurationSeconds),
           storageProvider: storageProvider || 'r2',
           
           // Initial stats
@@ -437,6 +479,7 @@ export const createAd = asyncHandler(async (req, res) => {
           
           // Status
           status: 'pending', // New ads go to pending for review
+          statusChanges: statusChangeCreate('pending', { actorId: userId }),
           
           createdAt: new Date(),
           updatedAt: new Date()
@@ -527,6 +570,58 @@ function calculateEstimatedReach({ targetAgeRanges, targetGender, targetLocation
 // GET ALL ADS - Enhanced with new fields
 // ============================================================================
 
+/**
+ * A tested ad's running variants, signed, with their traffic shares. They are cached
+ * with the feed (so a bandit's shares refresh with it); serveVariants picks one per
+ * response. Null when the ad has no creative test.
+ */
+async function feedVariants(ad) {
+  if (!ad.variantMode || !ad.variants?.length) return null;
+  const shares = trafficShares(ad.variants, { mode: ad.variantMode, winnerVariantId: ad.winnerVariantId });
+  return Promise.all(ad.variants.map(async (variant) => ({
+    id: variant.id,
+    headline: variant.headline,
+    description: variant.description,
+    callToAction: variant.callToAction,
+    ...(await signAdUrls(variant)),
+    share: shares.find((entry) => entry.id === variant.id)?.share ?? 0,
+  })));
+}
+
+/**
+ * The feed as one viewer gets it: a tested ad shows one variant, picked by traffic
+ * share, and carries its `variantId` so the events it sends back count for that
+ * variant. The other variants never leave the server. Untested ads pass through.
+ */
+function serveVariants(payload, random = Math.random) {
+  const served = new Map();
+  const serve = (ad) => {
+    if (!ad) return ad;
+    if (served.has(ad.id)) return served.get(ad.id);
+    const { variants, ...rest } = ad;
+    const variant = variants && variants.find((v) => v.id === pickVariant(variants, random()));
+    const out = variant
+      ? {
+          ...rest,
+          variantId: variant.id,
+          headline: variant.headline,
+          description: variant.description || rest.description,
+          imageUrl: variant.imageUrl,
+          videoUrl: variant.videoUrl,
+          thumbnailUrl: variant.thumbnailUrl,
+          callToAction: variant.callToAction,
+        }
+      : rest;
+    served.set(ad.id, out);
+    return out;
+  };
+  const { ads, featuredAd, bannerAd, all } = payload.data;
+  return {
+    ...payload,
+    data: { ads: ads.map(serve), featuredAd: serve(featuredAd), bannerAd: serve(bannerAd), all: all.map(serve) },
+  };
+}
+
 // Get all ads
 export const getAllAds = asyncHandler(async (req, res) => {
   try {
@@ -542,7 +637,7 @@ export const getAllAds = asyncHandler(async (req, res) => {
     // Serve from cache when warm (key on every param that varies the result).
     const cacheKey = `ads:${type || ''}:${placement || ''}:${sponsored ?? ''}:${userId || ''}:${limit}:${offset}`;
     const cachedPayload = adsCache.get(cacheKey);
-    if (cachedPayload) return res.json(cachedPayload);
+    if (cachedPayload) return res.json(serveVariants(cachedPayload));
 
     // Build where clause — this is a PUBLIC, cached endpoint, so it is hard-locked to
     // active + approved ads within their (optional) start/end window. The `status`/
@@ -565,7 +660,10 @@ export const getAllAds = asyncHandler(async (req, res) => {
       ],
       take: parseInt(limit),
       skip: parseInt(offset),
-      include: { user: { select: { firstName: true, lastName: true, email: true } } },
+      include: {
+        user: { select: { firstName: true, lastName: true, email: true } },
+        variants: { where: { isActive: true }, orderBy: { label: 'asc' } },
+      },
     });
 
     // Get total count for pagination
@@ -619,6 +717,7 @@ export const getAllAds = asyncHandler(async (req, res) => {
       ctr: ad.impressions > 0 ? ((ad.clicks / ad.impressions) * 100).toFixed(2) : 0,
       // Calculate spend efficiency
       costPerClick: ad.clicks > 0 ? (ad.amountSpent / ad.clicks).toFixed(2) : 0,
+      variants: await feedVariants(ad),
     };
     }));
 
@@ -643,7 +742,7 @@ export const getAllAds = asyncHandler(async (req, res) => {
       }
     };
     adsCache.set(cacheKey, payload, ADS_TTL_MS);
-    res.json(payload);
+    res.json(serveVariants(payload));
 
   } catch (error) {
     console.error("Error fetching ads:", error);
@@ -717,6 +816,9 @@ export const updateAd = asyncHandler(async (req, res) => {
     for (const key of Object.keys(req.body)) {
       if (UPDATABLE_AD_FIELDS.has(key)) updateData[key] = req.body[key];
     }
+    if ('videoDurationSeconds' in updateData) {
+      updateData.videoDurationSeconds = parseVideoDuration(updateData.videoDurationSeconds);
+    }
 
     // Handle date fields if present
     if (updateData.startDate) {
@@ -757,6 +859,15 @@ export const updateAd = asyncHandler(async (req, res) => {
     if (updateData.priority) updateData.priority = Math.min(10, Math.max(1, parseInt(updateData.priority)));
     if (updateData.frequency) updateData.frequency = parseInt(updateData.frequency);
 
+    // An owner changing what the ad shows sends it back to review — otherwise an
+    // approved ad could be swapped for anything. Reviewers' own edits don't.
+    if (ad.userId === req.user?.id && RESUBMITTED_FROM.includes(ad.status) && changesCreative(ad, updateData)) {
+      updateData.status = 'pending';
+      updateData.isActive = true;
+      updateData.rejectionReason = null;
+      updateData.statusChanges = statusChangeCreate('pending', { reason: 'Edited', actorId: req.user.id });
+    }
+
     updateData.updatedAt = new Date();
 
     const updatedAd = await prisma.ad.update({
@@ -784,27 +895,49 @@ export const updateAd = asyncHandler(async (req, res) => {
 // ADMIN FUNCTIONS - Approval, Rejection, Status Management
 // ============================================================================
 
+/**
+ * Approve or reject `adId` for reviewer `actorId`, logging the decision to the
+ * audit trail. `{ ad }` on success, `{ status, message }` when it can't be done.
+ */
+async function reviewAd(adId, decision, { reason = null, actorId }) {
+  const ad = await prisma.ad.findUnique({ where: { id: adId } });
+  if (!ad) return { status: 404, message: 'Ad not found' };
+  const blocker = adReviewBlocker(ad, decision);
+  if (blocker) return { status: 409, message: blocker };
+
+  const now = new Date();
+  // approvedBy comes from the token — never from the body
+  const data = decision === 'approve'
+    ? { status: 'approved', approvedAt: now, approvedBy: actorId, rejectionReason: null }
+    : { status: 'rejected', rejectionReason: reason, isActive: false };
+  const [updated] = await prisma.$transaction([
+    prisma.ad.update({
+      where: { id: ad.id },
+      data: { ...data, statusChanges: statusChangeCreate(data.status, { reason, actorId }), updatedAt: now },
+    }),
+    prisma.moderationAction.create({
+      data: { actorId, targetType: 'ad', targetId: ad.id, action: DECISION_OUTCOMES[decision], targetLabel: ad.title, reason },
+    }),
+  ]);
+
+  // A rejected ad that was serving comes out of the cached feed straight away
+  if (decision === 'reject' && ad.status === 'approved') adsCache.clear();
+  return { ad: updated };
+}
+
 // Approve an ad (Admin only)
 export const approveAd = asyncHandler(async (req, res) => {
   try {
     const { adId } = req.params;
-    const { adminUserId } = req.body;
-
-    const ad = await prisma.ad.update({
-      where: { id: adId },
-      data: {
-        status: 'approved',
-        approvedAt: new Date(),
-        approvedBy: adminUserId,
-        rejectionReason: null,
-        updatedAt: new Date()
-      }
-    });
+    const result = await reviewAd(adId, 'approve', { actorId: req.user.id });
+    if (!result.ad) {
+      return res.status(result.status).json({ success: false, message: result.message });
+    }
 
     res.json({
       success: true,
       message: "Ad approved successfully",
-      data: ad
+      data: result.ad
     });
     console.log("Ad approved:", adId);
   } catch (error) {
@@ -821,7 +954,7 @@ export const approveAd = asyncHandler(async (req, res) => {
 export const rejectAd = asyncHandler(async (req, res) => {
   try {
     const { adId } = req.params;
-    const { reason } = req.body;
+    const reason = normalizeNote(req.body?.reason);
 
     if (!reason) {
       return res.status(400).json({
@@ -830,20 +963,15 @@ export const rejectAd = asyncHandler(async (req, res) => {
       });
     }
 
-    const ad = await prisma.ad.update({
-      where: { id: adId },
-      data: {
-        status: 'rejected',
-        rejectionReason: reason,
-        isActive: false,
-        updatedAt: new Date()
-      }
-    });
+    const result = await reviewAd(adId, 'reject', { reason, actorId: req.user.id });
+    if (!result.ad) {
+      return res.status(result.status).json({ success: false, message: result.message });
+    }
 
     res.json({
       success: true,
       message: "Ad rejected",
-      data: ad
+      data: result.ad
     });
     console.log("Ad rejected:", adId, "Reason:", reason);
   } catch (error) {
@@ -856,6 +984,33 @@ export const rejectAd = asyncHandler(async (req, res) => {
   }
 });
 
+// Approve or reject several ads at once (Admin only) — each is reviewed on its
+// own, so one that can't be (already approved, gone) doesn't stop the rest.
+export const bulkReviewAds = asyncHandler(async (req, res) => {
+  const adIds = normalizeAdIds(req.body?.adIds);
+  if (!adIds) {
+    return res.status(400).json({ success: false, message: `adIds must list 1–${MODERATION_LIMITS.BULK_MAX} ads` });
+  }
+  const { action } = req.body;
+  if (!AD_REVIEW_DECISIONS.includes(action)) {
+    return res.status(400).json({ success: false, message: `action must be one of ${AD_REVIEW_DECISIONS.join(', ')}` });
+  }
+  const reason = normalizeNote(req.body.reason);
+  if (action === 'reject' && !reason) {
+    return res.status(400).json({ success: false, message: "Rejection reason is required" });
+  }
+
+  const reviewed = [];
+  const skipped = [];
+  for (const adId of adIds) {
+    const result = await reviewAd(adId, action, { reason: action === 'reject' ? reason : null, actorId: req.user.id });
+    if (result.ad) reviewed.push(adId);
+    else skipped.push({ adId, message: result.message });
+  }
+
+  res.json({ success: true, data: { action, reviewed, skipped } });
+});
+
 // Pause an ad campaign
 export const pauseAd = asyncHandler(async (req, res) => {
   try {
@@ -863,11 +1018,20 @@ export const pauseAd = asyncHandler(async (req, res) => {
     const owned = await loadOwnedAd(req, res);
     if (!owned) return;
 
+    // Only a running ad pauses — pausing a pending one and resuming it would skip review
+    if (!canPause(owned)) {
+      return res.status(409).json({
+        success: false,
+        message: `Only an approved ad can be paused (this one is ${owned.status})`
+      });
+    }
+
     const ad = await prisma.ad.update({
       where: { id: owned.id },
       data: {
         status: 'paused',
         isActive: false,
+        statusChanges: statusChangeCreate('paused', { actorId: req.user?.id }),
         updatedAt: new Date()
       }
     });
@@ -897,7 +1061,21 @@ export const resumeAd = asyncHandler(async (req, res) => {
     if (ad.status === 'rejected') {
       return res.status(400).json({
         success: false,
-        message: "Cannot resume a rejected ad. Please create a new campaign."
+        message: "Cannot resume a rejected ad. Edit it to send it back for review."
+      });
+    }
+    if (!canResume(ad)) {
+      return res.status(409).json({
+        success: false,
+        message: ad.status === 'pending'
+          ? "This ad is still under review"
+          : `Only a paused or completed ad can be resumed (this one is ${ad.status})`
+      });
+    }
+    if ((Number(ad.amountSpent) || 0) >= (Number(ad.totalBudget) || 0)) {
+      return res.status(409).json({
+        success: false,
+        message: "The budget is spent. Raise the total budget to resume."
       });
     }
 
@@ -906,6 +1084,7 @@ export const resumeAd = asyncHandler(async (req, res) => {
       data: {
         status: 'approved',
         isActive: true,
+        statusChanges: statusChangeCreate('approved', { reason: 'Resumed', actorId: req.user?.id }),
         updatedAt: new Date()
       }
     });
@@ -938,15 +1117,25 @@ export const getPendingAds = asyncHandler(async (req, res) => {
       include: { 
         user: { 
           select: { firstName: true, lastName: true, email: true } 
-        } 
+        },
+        variants: { where: { isActive: true }, orderBy: { label: 'asc' } },
       },
     });
 
     const total = await prisma.ad.count({ where: { status: 'pending' } });
 
+    // Reviewers preview the creative — every test variant's too — so R2 media needs signed URLs
+    const signVariants = (variants = []) =>
+      Promise.all(variants.map(async (variant) => ({ ...variant, ...(await signAdUrls(variant)) })));
+    const signed = await Promise.all(ads.map(async (ad) => ({
+      ...ad,
+      ...(await signAdUrls(ad)),
+      variants: await signVariants(ad.variants),
+    })));
+
     res.json({
       success: true,
-      data: ads,
+      data: signed,
       pagination: {
         total,
         limit: parseInt(limit),
@@ -967,18 +1156,9 @@ export const getPendingAds = asyncHandler(async (req, res) => {
 // Get ad analytics
 export const getAdAnalytics = asyncHandler(async (req, res) => {
   try {
-    const { adId } = req.params;
-
-    const ad = await prisma.ad.findUnique({
-      where: { id: adId }
-    });
-
-    if (!ad) {
-      return res.status(404).json({
-        success: false,
-        message: "Ad not found"
-      });
-    }
+    // Spend and performance are the advertiser's business — owner or admin/moderator only.
+    const ad = await loadOwnedAd(req, res);
+    if (!ad) return;
 
     const analytics = {
       id: ad.id,
@@ -1136,7 +1316,7 @@ export const trackAdConversion = asyncHandler(async (req, res) => {
     const outcome = await recordBillableEvent(adId, {
       counterField: 'conversions',
       computeCost: (ad) => (ad.pricingModel === 'cpa' ? (Number(ad.bidAmount) || 0) : 0),
-    });
+    }, adEventContext(req));
     if (!outcome.ok) {
       return res.status(outcome.status).json({ success: false, message: outcome.message });
     }
@@ -0,0 +1,121 @@
+/**
+ * Advertiser campaign dashboard — the caller's ads and each one's performance
+ * (lib/adCampaigns.mjs).
+ *
+ * GET /api/ads/mine?status=                  the caller's campaigns, newest first, with
+ *                                            CTR/CPM/CPC, budget use and today's pacing
+ * GET /api/ads/:adId/performance?range=      one campaign: daily impressions/clicks/spend,
+ *                                            pacing and the status timeline
+ *
+ * `range` is 7d, 28d (default) or 90d. Performance is for the ad's owner
+ * (or an admin/moderator); anyone else gets 403.
+ */
+
+import asyncHandler from 'express-async-handler';
+import prisma from '../lib/prisma.mjs';
+import {
+  AD_STATUSES,
+  CAMPAIGN_LIMITS,
+  campaignMetrics,
+  canPause,
+  canResume,
+  dailyPerformance,
+  spendPacing,
+  statusTimeline,
+} from '../lib/adCampaigns.mjs';
+import { ANALYTICS_RANGES, parseAnalyticsRange } from '../lib/videoAnalytics.mjs';
+import { loadOwnedAd, signAdUrls } from './AdController.mjs';
+
+const rangeError = `range must be one of ${Object.keys(ANALYTICS_RANGES).join(', ')}`;
+
+async function formatCampaign(ad, now) {
+  const { imageUrl, thumbnailUrl } = await signAdUrls(ad);
+  return {
+    id: ad.id,
+    title: ad.title,
+    headline: ad.headline,
+    description: ad.description,
+    targetUrl: ad.targetUrl,
+    thumbnailUrl: thumbnailUrl || imageUrl || null,
+    type: ad.type,
+    placement: ad.placement,
+    pricingModel: ad.pricingModel,
+    status: ad.status,
+    isActive: ad.isActive,
+    rejectionReason: ad.rejectionReason,
+    startDate: ad.startDate?.toISOString() ?? null,
+    endDate: ad.endDate?.toISOString() ?? null,
+    createdAt: ad.createdAt.toISOString(),
+    totalBudget: Number(ad.totalBudget) || 0,
+    amountSpent: Number(ad.amountSpent) || 0,
+    bidAmount: Number(ad.bidAmount) || 0,
+    dailyBudgetLimit: ad.dailyBudgetLimit == null ? null : Number(ad.dailyBudgetLimit),
+    impressions: ad.impressions,
+    views: ad.views,
+    clicks: ad.clicks,
+    conversions: ad.conversions,
+    metrics: campaignMetrics(ad, now),
+    pacing: spendPacing(ad, now),
+    canPause: canPause(ad),
+    canResume: canResume(ad),
+  };
+}
+
+// `{ day, count }` per UTC day since `since` — truncated in Postgres so at
+// most one row per day comes back (see surveyController's responsesByDay)
+const impressionsByDay = (adId, since) => prisma.$queryRaw`
+  SELECT to_char(DATE_TRUNC('day', "createdAt"), 'YYYY-MM-DD') AS day, COUNT(*)::int AS count
+  FROM "AdImpression"
+  WHERE "adId" = ${adId}::uuid AND "createdAt" >= ${since}
+  GROUP BY day
+`;
+
+const clicksByDay = (adId, since) => prisma.$queryRaw`
+  SELECT to_char(DATE_TRUNC('day', "createdAt"), 'YYYY-MM-DD') AS day, COUNT(*)::int AS count
+  FROM "AdClick"
+  WHERE "adId" = ${adId}::uuid AND "createdAt" >= ${since}
+  GROUP BY day
+`;
+
+export const getMyCampaigns = asyncHandler(async (req, res) => {
+  const { status } = req.query;
+  if (status !== undefined && !AD_STATUSES.includes(status)) {
+    return res.status(400).json({ success: false, message: `status must be one of ${AD_STATUSES.join(', ')}` });
+  }
+
+  const ads = await prisma.ad.findMany({
+    where: { userId: req.user.id, ...(status ? { status } : {}) },
+    orderBy: { createdAt: 'desc' },
+    take: CAMPAIGN_LIMITS.LIST_MAX,
+  });
+
+  const now = new Date();
+  res.json({ success: true, data: await Promise.all(ads.map((ad) => formatCampaign(ad, now))) });
+});
+
+export const getCampaignPerformance = asyncHandler(async (req, res) => {
+  const now = new Date();
+  const range = parseAnalyticsRange(req.query, now);
+  if (!range) {
+    return res.status(400).json({ success: false, message: rangeError });
+  }
+
+  const ad = await loadOwnedAd(req, res);
+  if (!ad) return;
+
+  const [impressionDays, clickDays, changes] = await Promise.all([
+    impressionsByDay(ad.id, range.since),
+    clicksByDay(ad.id, range.since),
+    prisma.adStatusChange.findMany({ where: { adId: ad.id }, orderBy: { createdAt: 'asc' } }),
+  ]);
+
+  res.json({
+    success: true,
+    data: {
+      range: range.range,
+      campaign: await formatCampaign(ad, now),
+      daily: dailyPerformance(ad, impressionDays, clickDays, range.since, now),
+      timeline: statusTimeline(ad, changes),
+    },
+  });
+});
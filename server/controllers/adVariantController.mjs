@@ -0,0 +1,155 @@
+/**
+ * Ad creative tests — an advertiser's 2–4 creative variants of one campaign
+ * and how each is doing (lib/adVariants.mjs).
+ *
+ * GET    /api/ads/:adId/variants    the test: mode, winner, each running variant's
+ *                                   counts, CTR and traffic share, and the readout —
+ *                                   plus the ad's own creative to start a test from
+ * PUT    /api/ads/:adId/variants    set the variants { mode, variants: [...] }
+ * PATCH  /api/ads/:adId/variants    { mode } switches split/bandit; { winnerVariantId }
+ *                                   gives a variant all the traffic (null undoes it)
+ * DELETE /api/ads/:adId/variants    end the test — the ad shows its own creative again
+ *
+ * All four are for the ad's owner (or an admin/moderator). An owner adding or
+ * editing a variant of a reviewed ad sends the ad back to review, just as
+ * editing the ad itself does.
+ */
+
+import asyncHandler from 'express-async-handler';
+import prisma from '../lib/prisma.mjs';
+import { getStore } from '../lib/memoryCache.mjs';
+import { RESUBMITTED_FROM, statusChangeCreate } from '../lib/adCampaigns.mjs';
+import {
+  normalizeTestUpdate,
+  normalizeVariants,
+  planVariantSave,
+  testReadout,
+  trafficShares,
+  variantMetrics,
+} from '../lib/adVariants.mjs';
+import { VALID_CTA_TYPES, loadOwnedAd, signAdUrls } from './AdController.mjs';
+
+// The public feed's cache (AdController) — a change to what a test serves clears it
+const adsCache = getStore('ads', 200);
+
+const runningVariants = (adId) =>
+  prisma.adVariant.findMany({ where: { adId, isActive: true }, orderBy: { label: 'asc' } });
+
+async function formatTest(ad, variants) {
+  const shares = trafficShares(variants, { mode: ad.variantMode, winnerVariantId: ad.winnerVariantId });
+  return {
+    adId: ad.id,
+    mode: ad.variantMode ?? null,
+    winnerVariantId: ad.winnerVariantId ?? null,
+    status: ad.status,
+    base: {
+      headline: ad.headline || ad.title || '',
+      description: ad.description ?? null,
+      ...(await signAdUrls(ad)),
+      callToAction: ad.callToAction ?? 'learn_more',
+      r2ImageKey: ad.r2ImageKey ?? null,
+      r2VideoKey: ad.r2VideoKey ?? null,
+      r2ThumbnailKey: ad.r2ThumbnailKey ?? null,
+    },
+    variants: await Promise.all(variants.map(async (variant) => ({
+      id: variant.id,
+      label: variant.label,
+      headline: variant.headline,
+      description: variant.description,
+      ...(await signAdUrls(variant)),
+      callToAction: variant.callToAction,
+      r2ImageKey: variant.r2ImageKey,
+      r2VideoKey: variant.r2VideoKey,
+      r2ThumbnailKey: variant.r2ThumbnailKey,
+      impressions: variant.impressions,
+      clicks: variant.clicks,
+      conversions: variant.conversions,
+      ...variantMetrics(variant),
+      share: shares.find((entry) => entry.id === variant.id)?.share ?? 0,
+      createdAt: variant.createdAt.toISOString(),
+    }))),
+    readout: testReadout(variants),
+  };
+}
+
+export const getAdVariants = asyncHandler(async (req, res) => {
+  const ad = await loadOwnedAd(req, res);
+  if (!ad) return;
+
+  const variants = ad.variantMode ? await runningVariants(ad.id) : [];
+  res.json({ success: true, data: await formatTest(ad, variants) });
+});
+
+export const saveAdVariants = asyncHandler(async (req, res) => {
+  const parsed = normalizeVariants(req.body, VALID_CTA_TYPES);
+  if (parsed.error) return res.status(400).json({ success: false, message: parsed.error });
+
+  const ad = await loadOwnedAd(req, res);
+  if (!ad) return;
+
+  const plan = planVariantSave(await runningVariants(ad.id), parsed.input.variants);
+  if (plan.error) return res.status(400).json({ success: false, message: plan.error });
+
+  const adData = {
+    variantMode: parsed.input.mode,
+    winnerVariantId: plan.keep.some((v) => v.id === ad.winnerVariantId) ? ad.winnerVariantId : null,
+    updatedAt: new Date(),
+  };
+  // Same rule as updateAd: new creative from the owner goes past a reviewer first
+  if (ad.userId === req.user.id && RESUBMITTED_FROM.includes(ad.status) && plan.changedCreative) {
+    Object.assign(adData, {
+      status: 'pending',
+      isActive: true,
+      rejectionReason: null,
+      statusChanges: statusChangeCreate('pending', { reason: 'Edited test variants', actorId: req.user.id }),
+    });
+  }
+
+  const [updated] = await prisma.$transaction([
+    prisma.ad.update({ where: { id: ad.id }, data: adData }),
+    prisma.adVariant.updateMany({ where: { id: { in: plan.retire } }, data: { isActive: false } }),
+    ...plan.keep.map(({ id, label }) => prisma.adVariant.update({ where: { id }, data: { label } })),
+    ...plan.create.map((variant) => prisma.adVariant.create({ data: { ...variant, adId: ad.id } })),
+  ]);
+  adsCache.clear();
+
+  res.json({ success: true, data: await formatTest(updated, await runningVariants(ad.id)) });
+});
+
+export const updateAdTest = asyncHandler(async (req, res) => {
+  const ad = await loadOwnedAd(req, res);
+  if (!ad) return;
+  if (!ad.variantMode) {
+    return res.status(409).json({ success: false, message: 'This ad has no creative test' });
+  }
+
+  const variants = await runningVariants(ad.id);
+  const parsed = normalizeTestUpdate(req.body, variants.map((v) => v.id));
+  if (parsed.error) return res.status(400).json({ success: false, message: parsed.error });
+
+  const updated = await prisma.ad.update({
+    where: { id: ad.id },
+    data: {
+      ...(parsed.input.mode ? { variantMode: parsed.input.mode } : {}),
+      ...('winnerVariantId' in parsed.input ? { winnerVariantId: parsed.input.winnerVariantId } : {}),
+      updatedAt: new Date(),
+    },
+  });
+  adsCache.clear();
+
+  res.json({ success: true, data: await formatTest(updated, variants) });
+});
+
+export const endAdTest = asyncHandler(async (req, res) => {
+  const ad = await loadOwnedAd(req, res);
+  if (!ad) return;
+
+  // Retired, not deleted — the events that name them keep pointing somewhere
+  const [updated] = await prisma.$transaction([
+    prisma.ad.update({ where: { id: ad.id }, data: { variantMode: null, winnerVariantId: null, updatedAt: new Date() } }),
+    prisma.adVariant.updateMany({ where: { adId: ad.id, isActive: true }, data: { isActive: false } }),
+  ]);
+  adsCache.clear();
+
+  res.json({ success: true, data: await formatTest(updated, []) });
+});
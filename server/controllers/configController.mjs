@@ -2,7 +2,8 @@
  * Config Controller
  *
  * Endpoints for reading and updating the AppConfig singleton
- * (reward rates, points-per-survey, minimum withdrawal threshold).
+ * (reward rates, points-per-survey, minimum withdrawal threshold, rewarded-ad
+ * points and daily cap).
  */
 
 import prisma from '../lib/prisma.mjs';
@@ -16,6 +17,7 @@ import {
   invalidateSubscriptionConfigCache,
   SUBSCRIPTION_PRICE_FIELDS,
 } from '../lib/subscriptionConfig.mjs';
+import { REWARDED_LIMITS } from '../lib/rewardedAds.mjs';
 
 // ---------------------------------------------------------------------------
 // GET /api/config/rewards — public, no auth required
@@ -32,6 +34,8 @@ export const getRewardConfig = asyncHandler(async (_req, res) => {
     defaultRegularRewardAmount: config.defaultRegularRewardAmount,
     defaultInstantRewardAmount: config.defaultInstantRewardAmount,
     referralBonusPoints: config.referralBonusPoints,
+    rewardedAdPoints: config.rewardedAdPoints,
+    rewardedAdDailyCap: config.rewardedAdDailyCap,
   });
 });
 
@@ -48,6 +52,8 @@ export const updateRewardConfig = asyncHandler(async (req, res) => {
     defaultRegularRewardAmount,
     defaultInstantRewardAmount,
     referralBonusPoints,
+    rewardedAdPoints,
+    rewardedAdDailyCap,
   } = req.body;
 
   // Validate — all fields must be positive integers when provided
@@ -109,6 +115,22 @@ export const updateRewardConfig = asyncHandler(async (req, res) => {
     updates.referralBonusPoints = v;
   }
 
+  if (rewardedAdPoints !== undefined) {
+    const v = Number(rewardedAdPoints);
+    if (!Number.isInteger(v) || v < 1 || v > REWARDED_LIMITS.POINTS_MAX) {
+      return res.status(400).json({ error: `rewardedAdPoints must be a positive integer up to ${REWARDED_LIMITS.POINTS_MAX}.` });
+    }
+    updates.rewardedAdPoints = v;
+  }
+
+  if (rewardedAdDailyCap !== undefined) {
+    const v = Number(rewardedAdDailyCap);
+    if (!Number.isInteger(v) || v < 0 || v > REWARDED_LIMITS.DAILY_CAP_MAX) {
+      return res.status(400).json({ error: `rewardedAdDailyCap must be an integer from 0 (off) to ${REWARDED_LIMITS.DAILY_CAP_MAX}.` });
+    }
+    updates.rewardedAdDailyCap = v;
+  }
+
   if (Object.keys(updates).length === 0) {
     return res.status(400).json({ error: 'No valid fields provided to update.' });
   }
@@ -137,6 +159,8 @@ export const updateRewardConfig = asyncHandler(async (req, res) => {
       defaultRegularRewardAmount: config.defaultRegularRewardAmount,
       defaultInstantRewardAmount: config.defaultInstantRewardAmount,
       referralBonusPoints: config.referralBonusPoints,
+      rewardedAdPoints: config.rewardedAdPoints,
+      rewardedAdDailyCap: config.rewardedAdDailyCap,
     },
   });
 });
@@ -0,0 +1,415 @@
+/**
+ * Livestream chat and its moderation (lib/livestreamModeration.mjs).
+ *
+ * POST   /api/videos/livestream/:sessionId/chat                 send — checked against the session's rules first
+ * DELETE /api/videos/livestream/:sessionId/chat/:messageId      delete a message (staff)
+ * GET    /api/videos/livestream/:sessionId/moderation           chat settings, the caller's role and restriction;
+ *                                                               staff also get every active restriction
+ * PUT    /api/videos/livestream/:sessionId/chat-settings        slow mode, followers-only, block links (staff)
+ * POST   /api/videos/livestream/:sessionId/restrictions         time out or ban a viewer for the session (staff)
+ * DELETE /api/videos/livestream/:sessionId/restrictions/:userId lift it (staff)
+ * GET    /api/videos/livestream/moderation-settings             the caller's banned words and co-moderators
+ * PUT    /api/videos/livestream/moderation-settings             replace the banned words
+ * POST   /api/videos/livestream/moderators                      appoint a follower as co-moderator
+ * DELETE /api/videos/livestream/moderators/:userId              remove one
+ *
+ * "Staff" is the streamer plus their co-moderators. Chat and moderation
+ * events go to the staff and the viewer concerned (chatAudience), so every
+ * moderator's chat overlay stays in step.
+ */
+
+import asyncHandler from 'express-async-handler';
+import prisma from '../lib/prisma.mjs';
+import { publishEventToMany } from '../lib/eventBus.mjs';
+import { REPLAY_CHAT_LIMITS, chatOffsetMs } from '../lib/livestreamReplay.mjs';
+import {
+  LIVESTREAM_MODERATION_LIMITS,
+  activeRestriction,
+  chatRejection,
+  chatSettingsPayload,
+  formatRestriction,
+  isChatStaff,
+  normalizeBannedWords,
+  normalizeChatSettings,
+  parseRestriction,
+  restrictionTargetError,
+} from '../lib/livestreamModeration.mjs';
+
+const moderatorUser = { select: { id: true, firstName: true, lastName: true, avatar: true } };
+
+/** Ids of the co-moderators `streamerId` appointed */
+async function loadModeratorIds(streamerId) {
+  const rows = await prisma.livestreamModerator.findMany({
+    where: { streamerId },
+    select: { moderatorId: true },
+  });
+  return rows.map((row) => row.moderatorId);
+}
+
+/** Streamer, co-moderators and any extra users — each once */
+function chatAudience(livestream, moderatorIds, ...extra) {
+  return [...new Set([livestream.userId, ...moderatorIds, ...extra.filter(Boolean)])];
+}
+
+/**
+ * The live session named by req.params.sessionId when the caller is staff,
+ * with its co-moderator ids — or null after a 404/403.
+ */
+async function loadStaffSession(req, res) {
+  const livestream = await prisma.livestream.findUnique({ where: { sessionId: req.params.sessionId } });
+  if (!livestream || livestream.status !== 'live') {
+    res.status(404).json({ success: false, message: 'Livestream not found or not active' });
+    return null;
+  }
+  const moderatorIds = await loadModeratorIds(livestream.userId);
+  if (!isChatStaff(livestream, req.user.id, moderatorIds)) {
+    res.status(403).json({ success: false, message: 'Only the streamer and their moderators can do this' });
+    return null;
+  }
+  return { livestream, moderatorIds };
+}
+
+// ============================================================================
+// CHAT
+// ============================================================================
+
+export const sendLivestreamChat = asyncHandler(async (req, res) => {
+  try {
+    const { sessionId } = req.params;
+    const { text } = req.body;
+    const userId = req.user.id;
+
+    if (!text || !text.trim()) {
+      return res.status(400).json({ message: 'Message text is required' });
+    }
+    if (text.trim().length > REPLAY_CHAT_LIMITS.MAX_TEXT) {
+      return res.status(400).json({ message: `Messages are limited to ${REPLAY_CHAT_LIMITS.MAX_TEXT} characters` });
+    }
+
+    const livestream = await prisma.livestream.findUnique({
+      where: { sessionId },
+    });
+
+    if (!livestream || livestream.status !== 'live') {
+      return res.status(404).json({ message: 'Livestream not found or not active' });
+    }
+
+    const moderatorIds = await loadModeratorIds(livestream.userId);
+    const isStaff = isChatStaff(livestream, userId, moderatorIds);
+    const sentAt = new Date();
+
+    // Viewers go through the session's rules before anything is stored or broadcast
+    if (!isStaff) {
+      const [restriction, follow, lastMessage, streamer] = await Promise.all([
+        prisma.livestreamChatRestriction.findUnique({ where: { sessionId_userId: { sessionId, userId } } }),
+        livestream.followersOnlyChat
+          ? prisma.creatorFollow.findUnique({
+              where: { followerId_followingId: { followerId: userId, followingId: livestream.userId } },
+              select: { id: true },
+            })
+          : null,
+        livestream.slowModeSeconds > 0
+          ? prisma.livestreamChatMessage.findFirst({
+              where: { sessionId, userId },
+              orderBy: { createdAt: 'desc' },
+              select: { createdAt: true },
+            })
+          : null,
+        prisma.appUser.findUnique({ where: { id: livestream.userId }, select: { livestreamBannedWords: true } }),
+      ]);
+
+      const rejection = chatRejection({
+        text: text.trim(),
+        isStaff,
+        isFollower: !!follow,
+        settings: livestream,
+        bannedWords: streamer?.livestreamBannedWords ?? [],
+        restriction,
+        lastSentAt: lastMessage?.createdAt ?? null,
+        now: sentAt,
+      });
+      if (rejection) {
+        const { status, ...body } = rejection;
+        return res.status(status).json({ success: false, ...body });
+      }
+    }
+
+    const sender = await prisma.appUser.findUnique({
+      where: { id: userId },
+      select: { id: true, firstName: true, lastName: true },
+    });
+
+    // Stored with its offset into the stream so the replay can play it back in sync
+    const message = await prisma.livestreamChatMessage.create({
+      data: {
+        sessionId,
+        userId,
+        userName: sender ? `${sender.firstName} ${sender.lastName}`.trim() : 'Anonymous',
+        text: text.trim(),
+        offsetMs: chatOffsetMs(livestream.startedAt, sentAt),
+        createdAt: sentAt,
+      },
+    });
+
+    const chatPayload = {
+      sessionId,
+      messageId: message.id,
+      userId,
+      userName: message.userName,
+      text: message.text,
+      offsetMs: message.offsetMs,
+      timestamp: message.createdAt.toISOString(),
+    };
+
+    // Fire-and-forget — the streamer, their moderators and the sender
+    publishEventToMany(chatAudience(livestream, moderatorIds, userId), 'livestream.chat', chatPayload).catch(() => {});
+
+    res.json({ success: true, data: chatPayload });
+  } catch (error) {
+    console.error('Error sending livestream chat:', error);
+    res.status(500).json({ message: 'Something went wrong' });
+  }
+});
+
+export const deleteLivestreamChatMessage = asyncHandler(async (req, res) => {
+  const session = await loadStaffSession(req, res);
+  if (!session) return;
+  const { livestream, moderatorIds } = session;
+
+  const message = await prisma.livestreamChatMessage.findUnique({ where: { id: req.params.messageId } });
+  if (!message || message.sessionId !== livestream.sessionId) {
+    return res.status(404).json({ success: false, message: 'Message not found' });
+  }
+
+  if (!message.deletedAt) {
+    await prisma.livestreamChatMessage.update({
+      where: { id: message.id },
+      data: { deletedAt: new Date(), deletedById: req.user.id },
+    });
+  }
+
+  publishEventToMany(chatAudience(livestream, moderatorIds, message.userId), 'livestream.chatDeleted', {
+    sessionId: livestream.sessionId,
+    messageId: message.id,
+    userId: message.userId,
+    deletedBy: req.user.id,
+  }).catch(() => {});
+
+  res.json({ success: true, data: { messageId: message.id, deleted: true } });
+});
+
+// ============================================================================
+// SESSION MODERATION
+// ============================================================================
+
+export const getLivestreamModeration = asyncHandler(async (req, res) => {
+  const livestream = await prisma.livestream.findUnique({ where: { sessionId: req.params.sessionId } });
+  if (!livestream) {
+    return res.status(404).json({ success: false, message: 'Livestream not found' });
+  }
+
+  const userId = req.user.id;
+  const moderatorIds = await loadModeratorIds(livestream.userId);
+  const canModerate = isChatStaff(livestream, userId, moderatorIds);
+  const now = new Date();
+
+  const rows = await prisma.livestreamChatRestriction.findMany({
+    where: canModerate ? { sessionId: livestream.sessionId } : { sessionId: livestream.sessionId, userId },
+    orderBy: { createdAt: 'desc' },
+  });
+  const active = rows.filter((row) => activeRestriction(row, now));
+  const mine = active.find((row) => row.userId === userId);
+  const users = canModerate && active.length
+    ? await prisma.appUser.findMany({
+        where: { id: { in: active.map((row) => row.userId) } },
+        select: { id: true, firstName: true, lastName: true },
+      })
+    : [];
+  const userById = new Map(users.map((user) => [user.id, user]));
+
+  res.json({
+    success: true,
+    data: {
+      sessionId: livestream.sessionId,
+      settings: chatSettingsPayload(livestream),
+      isStreamer: livestream.userId === userId,
+      canModerate,
+      myRestriction: mine ? formatRestriction(mine) : null,
+      restrictions: canModerate ? active.map((row) => formatRestriction(row, userById.get(row.userId))) : [],
+    },
+  });
+});
+
+export const updateLivestreamChatSettings = asyncHandler(async (req, res) => {
+  const settings = normalizeChatSettings(req.body);
+  if (!settings) {
+    return res.status(400).json({
+      success: false,
+      message: `slowModeSeconds must be 0–${LIVESTREAM_MODERATION_LIMITS.MAX_SLOW_MODE_SECONDS}; followersOnlyChat and blockChatLinks must be true or false`,
+    });
+  }
+
+  const session = await loadStaffSession(req, res);
+  if (!session) return;
+  const { livestream, moderatorIds } = session;
+
+  const updated = Object.keys(settings).length
+    ? await prisma.livestream.update({ where: { sessionId: livestream.sessionId }, data: settings })
+    : livestream;
+  const payload = chatSettingsPayload(updated);
+
+  publishEventToMany(chatAudience(livestream, moderatorIds), 'livestream.chatSettings', {
+    sessionId: livestream.sessionId,
+    ...payload,
+  }).catch(() => {});
+
+  res.json({ success: true, data: payload });
+});
+
+export const restrictChatUser = asyncHandler(async (req, res) => {
+  const session = await loadStaffSession(req, res);
+  if (!session) return;
+  const { livestream, moderatorIds } = session;
+  const targetId = req.body?.userId;
+
+  const targetError = restrictionTargetError(livestream, req.user.id, targetId, moderatorIds);
+  if (targetError) {
+    return res.status(targetError.status).json({ success: false, message: targetError.message });
+  }
+  const restriction = parseRestriction(req.body);
+  if (!restriction) {
+    return res.status(400).json({
+      success: false,
+      message: `kind must be timeout or ban; a timeout lasts 1–${LIVESTREAM_MODERATION_LIMITS.MAX_TIMEOUT_SECONDS} seconds`,
+    });
+  }
+
+  const target = await prisma.appUser.findUnique({
+    where: { id: targetId },
+    select: { id: true, firstName: true, lastName: true },
+  });
+  if (!target) {
+    return res.status(404).json({ success: false, message: 'User not found' });
+  }
+
+  const row = await prisma.livestreamChatRestriction.upsert({
+    where: { sessionId_userId: { sessionId: livestream.sessionId, userId: targetId } },
+    update: { ...restriction, createdById: req.user.id, createdAt: new Date() },
+    create: { sessionId: livestream.sessionId, userId: targetId, ...restriction, createdById: req.user.id },
+  });
+  const payload = formatRestriction(row, target);
+
+  publishEventToMany(chatAudience(livestream, moderatorIds, targetId), 'livestream.chatRestriction', {
+    sessionId: livestream.sessionId,
+    ...payload,
+  }).catch(() => {});
+
+  res.status(201).json({ success: true, data: payload });
+});
+
+export const liftChatRestriction = asyncHandler(async (req, res) => {
+  const session = await loadStaffSession(req, res);
+  if (!session) return;
+  const { livestream, moderatorIds } = session;
+  const targetId = req.params.userId;
+
+  const { count } = await prisma.livestreamChatRestriction.deleteMany({
+    where: { sessionId: livestream.sessionId, userId: targetId },
+  });
+
+  if (count > 0) {
+    publishEventToMany(chatAudience(livestream, moderatorIds, targetId), 'livestream.chatRestriction', {
+      sessionId: livestream.sessionId,
+      userId: targetId,
+      kind: null,
+      expiresAt: null,
+    }).catch(() => {});
+  }
+
+  res.json({ success: true, data: { userId: targetId, lifted: count > 0 } });
+});
+
+// ============================================================================
+// STREAMER SETTINGS — BANNED WORDS AND CO-MODERATORS
+// ============================================================================
+
+export const getLivestreamModerationSettings = asyncHandler(async (req, res) => {
+  const [user, moderators] = await Promise.all([
+    prisma.appUser.findUnique({ where: { id: req.user.id }, select: { livestreamBannedWords: true } }),
+    prisma.livestreamModerator.findMany({
+      where: { streamerId: req.user.id },
+      include: { moderator: moderatorUser },
+      orderBy: { createdAt: 'asc' },
+    }),
+  ]);
+  if (!user) {
+    return res.status(404).json({ success: false, message: 'User not found' });
+  }
+
+  res.json({
+    success: true,
+    data: {
+      bannedWords: user.livestreamBannedWords ?? [],
+      moderators: moderators.map((row) => row.moderator),
+    },
+  });
+});
+
+export const updateLivestreamModerationSettings = asyncHandler(async (req, res) => {
+  const bannedWords = normalizeBannedWords(req.body?.bannedWords);
+  if (!bannedWords) {
+    return res.status(400).json({ success: false, message: 'bannedWords must be a list of short words or phrases' });
+  }
+
+  const user = await prisma.appUser.update({
+    where: { id: req.user.id },
+    data: { livestreamBannedWords: bannedWords },
+    select: { livestreamBannedWords: true },
+  });
+
+  res.json({ success: true, data: { bannedWords: user.livestreamBannedWords } });
+});
+
+export const addLivestreamModerator = asyncHandler(async (req, res) => {
+  const streamerId = req.user.id;
+  const moderatorId = req.body?.userId;
+  if (!moderatorId || typeof moderatorId !== 'string') {
+    return res.status(400).json({ success: false, message: 'userId is required' });
+  }
+  if (moderatorId === streamerId) {
+    return res.status(400).json({ success: false, message: 'You already moderate your own streams' });
+  }
+
+  // Co-moderators are picked from the streamer's followers
+  const follow = await prisma.creatorFollow.findUnique({
+    where: { followerId_followingId: { followerId: moderatorId, followingId: streamerId } },
+    include: { follower: moderatorUser },
+  });
+  if (!follow) {
+    return res.status(400).json({ success: false, message: 'Only your followers can be moderators' });
+  }
+
+  const existing = await prisma.livestreamModerator.count({ where: { streamerId } });
+  const already = await prisma.livestreamModerator.findUnique({
+    where: { streamerId_moderatorId: { streamerId, moderatorId } },
+  });
+  if (!already && existing >= LIVESTREAM_MODERATION_LIMITS.MAX_MODERATORS) {
+    return res.status(409).json({
+      success: false,
+      message: `You can have at most ${LIVESTREAM_MODERATION_LIMITS.MAX_MODERATORS} moderators`,
+    });
+  }
+
+  if (!already) {
+    await prisma.livestreamModerator.create({ data: { streamerId, moderatorId } });
+  }
+
+  res.status(already ? 200 : 201).json({ success: true, data: follow.follower });
+});
+
+export const removeLivestreamModerator = asyncHandler(async (req, res) => {
+  const { count } = await prisma.livestreamModerator.deleteMany({
+    where: { streamerId: req.user.id, moderatorId: req.params.userId },
+  });
+  res.json({ success: true, data: { userId: req.params.userId, removed: count > 0 } });
+});
@@ -0,0 +1,283 @@
+/**
+ * Review console — user reports, the reported-content queue and the audit
+ * trail (lib/moderation.mjs). The ad queue itself is /api/ads/admin/pending,
+ * /api/ads/:adId/approve|reject and /api/ads/admin/bulk-review.
+ *
+ * POST /api/moderation/reports            report a video, comment, question response or survey (any user)
+ * GET  /api/moderation/summary            pending ads and open reports per type (moderator)
+ * GET  /api/moderation/reports?type=      reported items, most-reported first, with a preview (moderator)
+ * POST /api/moderation/reports/resolve    remove or dismiss 1–50 items — `targets`, `decision`, `note` (moderator)
+ * GET  /api/moderation/audit?before=      who approved, rejected, removed or dismissed what, newest first (moderator)
+ *
+ * "Moderator" is requireModerator: an ADMIN or MODERATOR.
+ */
+
+import asyncHandler from 'express-async-handler';
+import prisma from '../lib/prisma.mjs';
+import {
+  DECISION_OUTCOMES,
+  MODERATION_LIMITS,
+  REPORT_TARGET_TYPES,
+  REVIEW_DECISIONS,
+  groupReports,
+  normalizeNote,
+  normalizeReport,
+  normalizeReviewTargets,
+} from '../lib/moderation.mjs';
+import { COMMENT_STATUS } from '../lib/videoComments.mjs';
+import { removeVideo, signVideoUrls } from './videoController.mjs';
+import { setCommentStatus } from './videoCommentController.mjs';
+
+const authorSelect = { select: { id: true, firstName: true, lastName: true } };
+const fullName = (user) => (user ? `${user.firstName} ${user.lastName}`.trim() : null);
+const clip = (text, length = 120) => (text && text.length > length ? `${text.slice(0, length - 1)}…` : text ?? null);
+
+/**
+ * Previews of the `ids` of one target type, keyed by id: `{ title, body,
+ * thumbnailUrl, author, removed, context }`. Ids that no longer exist are
+ * missing from the map.
+ */
+async function loadTargets(targetType, ids) {
+  const previews = new Map();
+  if (ids.length === 0) return previews;
+  const where = { id: { in: ids } };
+
+  if (targetType === 'video') {
+    const videos = await prisma.video.findMany({ where, include: { user: authorSelect } });
+    for (const video of videos) {
+      const { thumbnail } = await signVideoUrls(video);
+      previews.set(video.id, {
+        title: video.title || 'Untitled video',
+        body: clip(video.description, 280),
+        thumbnailUrl: thumbnail || null,
+        author: { id: video.userId, name: fullName(video.user) },
+        removed: false,
+        context: { videoId: video.id },
+      });
+    }
+  } else if (targetType === 'comment') {
+    const comments = await prisma.comment.findMany({ where, include: { user: authorSelect, video: { select: { title: true } } } });
+    for (const comment of comments) {
+      previews.set(comment.id, {
+        title: `Comment on ${comment.video?.title || 'a video'}`,
+        body: comment.text,
+        thumbnailUrl: comment.mediaUrls[0] ?? null,
+        author: { id: comment.userId, name: fullName(comment.user) },
+        removed: comment.status === COMMENT_STATUS.HIDDEN,
+        context: { videoId: comment.videoId },
+      });
+    }
+  } else if (targetType === 'response') {
+    const responses = await prisma.response.findMany({ where, include: { user: authorSelect, question: { select: { text: true } } } });
+    for (const response of responses) {
+      previews.set(response.id, {
+        title: `Answer to "${clip(response.question?.text, 80) ?? 'a question'}"`,
+        body: response.responseText,
+        thumbnailUrl: null,
+        author: { id: response.userId, name: fullName(response.user) },
+        removed: false,
+        context: { questionId: response.questionId },
+      });
+    }
+  } else if (targetType === 'survey') {
+    const surveys = await prisma.survey.findMany({ where, include: { user: authorSelect } });
+    const now = new Date();
+    for (const survey of surveys) {
+      previews.set(survey.id, {
+        title: survey.title,
+        body: clip(survey.description, 280),
+        thumbnailUrl: null,
+        author: { id: survey.userId, name: fullName(survey.user) },
+        removed: survey.endDate <= now,
+        context: { surveyId: survey.id },
+      });
+    }
+  }
+  return previews;
+}
+
+/**
+ * Take the item down: hide a comment, delete a video or response, end a
+ * survey. An item that is already gone counts as removed.
+ */
+async function removeTarget(targetType, targetId, actorId) {
+  if (targetType === 'video') {
+    const video = await prisma.video.findUnique({ where: { id: targetId } });
+    if (video) await removeVideo(video);
+  } else if (targetType === 'comment') {
+    const comment = await prisma.comment.findUnique({ where: { id: targetId } });
+    if (comment && comment.status !== COMMENT_STATUS.HIDDEN) {
+      const video = await prisma.video.findUnique({ where: { id: comment.videoId } });
+      await setCommentStatus({ video, comment, status: COMMENT_STATUS.HIDDEN, actorId });
+    }
+  } else if (targetType === 'response') {
+    // Likes, dislikes and replies have no DB cascade
+    await prisma.$transaction([
+      prisma.responseLike.deleteMany({ where: { responseId: targetId } }),
+      prisma.responseDislike.deleteMany({ where: { responseId: targetId } }),
+      prisma.responseReply.deleteMany({ where: { responseId: targetId } }),
+      prisma.response.deleteMany({ where: { id: targetId } }),
+    ]);
+  } else if (targetType === 'survey') {
+    // Never deleted — its responses are the respondents' earning records
+    const now = new Date();
+    await prisma.survey.updateMany({ where: { id: targetId, endDate: { gt: now } }, data: { endDate: now } });
+  }
+}
+
+export const createReport = asyncHandler(async (req, res) => {
+  const { input, error } = normalizeReport(req.body);
+  if (error) return res.status(400).json({ success: false, message: error });
+
+  const targets = await loadTargets(input.targetType, [input.targetId]);
+  if (!targets.has(input.targetId)) {
+    return res.status(404).json({ success: false, message: `That ${input.targetType} no longer exists` });
+  }
+
+  const reporterId = req.user.id;
+  // Reporting again updates the reason; it doesn't reopen a report a moderator closed
+  const report = await prisma.contentReport.upsert({
+    where: { reporterId_targetType_targetId: { reporterId, targetType: input.targetType, targetId: input.targetId } },
+    create: { reporterId, ...input },
+    update: { reason: input.reason, details: input.details },
+  });
+
+  res.status(201).json({ success: true, message: 'Thanks — a moderator will review it', data: { id: report.id, status: report.status } });
+});
+
+export const getModerationSummary = asyncHandler(async (req, res) => {
+  const [pendingAds, reportCounts] = await Promise.all([
+    prisma.ad.count({ where: { status: 'pending' } }),
+    prisma.contentReport.groupBy({ by: ['targetType'], where: { status: 'open' }, _count: { _all: true } }),
+  ]);
+
+  const openReports = Object.fromEntries(REPORT_TARGET_TYPES.map((type) => [type, 0]));
+  for (const row of reportCounts) openReports[row.targetType] = row._count._all;
+  res.json({ success: true, data: { pendingAds, openReports } });
+});
+
+export const getReportQueue = asyncHandler(async (req, res) => {
+  const { type } = req.query;
+  if (type !== undefined && !REPORT_TARGET_TYPES.includes(type)) {
+    return res.status(400).json({ success: false, message: `type must be one of ${REPORT_TARGET_TYPES.join(', ')}` });
+  }
+  const offset = Math.max(0, parseInt(req.query.offset, 10) || 0);
+
+  const reports = await prisma.contentReport.findMany({
+    where: { status: 'open', ...(type ? { targetType: type } : {}) },
+    orderBy: { createdAt: 'asc' },
+    take: MODERATION_LIMITS.REPORT_SCAN,
+  });
+  const groups = groupReports(reports);
+  const page = groups.slice(offset, offset + MODERATION_LIMITS.QUEUE_PAGE);
+
+  const previews = new Map();
+  for (const targetType of REPORT_TARGET_TYPES) {
+    const ids = page.filter((item) => item.targetType === targetType).map((item) => item.targetId);
+    for (const [id, preview] of await loadTargets(targetType, ids)) previews.set(`${targetType}:${id}`, preview);
+  }
+
+  res.json({
+    success: true,
+    data: {
+      // preview is null when the item was deleted since it was reported
+      items: page.map((item) => ({ ...item, preview: previews.get(`${item.targetType}:${item.targetId}`) ?? null })),
+      total: groups.length,
+      hasMore: offset + page.length < groups.length,
+    },
+  });
+});
+
+export const resolveReports = asyncHandler(async (req, res) => {
+  const targets = normalizeReviewTargets(req.body?.targets);
+  if (!targets) {
+    return res.status(400).json({ success: false, message: `targets must list 1–${MODERATION_LIMITS.BULK_MAX} reported items` });
+  }
+  const { decision } = req.body;
+  if (!REVIEW_DECISIONS.includes(decision)) {
+    return res.status(400).json({ success: false, message: `decision must be one of ${REVIEW_DECISIONS.join(', ')}` });
+  }
+  const note = normalizeNote(req.body.note);
+  if (note === undefined) {
+    return res.status(400).json({ success: false, message: `note must be at most ${MODERATION_LIMITS.MAX_REASON_CHARS} characters` });
+  }
+
+  const actorId = req.user.id;
+  const outcome = DECISION_OUTCOMES[decision];
+  const resolved = [];
+  const skipped = [];
+  for (const { targetType, targetId } of targets) {
+    try {
+      const open = await prisma.contentReport.count({ where: { targetType, targetId, status: 'open' } });
+      if (open === 0) {
+        skipped.push({ targetType, targetId, message: 'No open reports' });
+        continue;
+      }
+      // Label it before it's gone
+      const preview = (await loadTargets(targetType, [targetId])).get(targetId);
+      if (decision === 'remove') await removeTarget(targetType, targetId, actorId);
+
+      await prisma.$transaction([
+        prisma.contentReport.updateMany({
+          where: { targetType, targetId, status: 'open' },
+          data: { status: outcome, reviewedById: actorId, reviewedAt: new Date() },
+        }),
+        prisma.moderationAction.create({
+          data: {
+            actorId,
+            targetType,
+            targetId,
+            action: outcome,
+            targetLabel: clip(preview?.body ?? preview?.title ?? null),
+            reason: note,
+            reportCount: open,
+          },
+        }),
+      ]);
+      resolved.push({ targetType, targetId });
+    } catch (error) {
+      console.error(`ModerationController: resolveReports - ${decision} ${targetType} ${targetId} failed:`, error);
+      skipped.push({ targetType, targetId, message: 'Something went wrong' });
+    }
+  }
+
+  res.json({ success: true, data: { decision, resolved, skipped } });
+});
+
+export const getAuditTrail = asyncHandler(async (req, res) => {
+  const before = req.query.before ? new Date(req.query.before) : null;
+  if (before && Number.isNaN(before.getTime())) {
+    return res.status(400).json({ success: false, message: 'before must be a date' });
+  }
+
+  const rows = await prisma.moderationAction.findMany({
+    where: before ? { createdAt: { lt: before } } : {},
+    orderBy: { createdAt: 'desc' },
+    take: MODERATION_LIMITS.AUDIT_PAGE + 1,
+  });
+  const page = rows.slice(0, MODERATION_LIMITS.AUDIT_PAGE);
+
+  const actorIds = [...new Set(page.map((row) => row.actorId))];
+  const actors = actorIds.length
+    ? await prisma.appUser.findMany({ where: { id: { in: actorIds } }, select: { id: true, firstName: true, lastName: true, role: true } })
+    : [];
+  const actorById = new Map(actors.map((actor) => [actor.id, actor]));
+
+  res.json({
+    success: true,
+    data: {
+      entries: page.map((row) => ({
+        id: row.id,
+        actor: { id: row.actorId, name: fullName(actorById.get(row.actorId)), role: actorById.get(row.actorId)?.role ?? null },
+        targetType: row.targetType,
+        targetId: row.targetId,
+        targetLabel: row.targetLabel,
+        action: row.action,
+        reason: row.reason,
+        reportCount: row.reportCount,
+        createdAt: row.createdAt.toISOString(),
+      })),
+      nextBefore: rows.length > MODERATION_LIMITS.AUDIT_PAGE ? page[page.length - 1].createdAt.toISOString() : null,
+    },
+  });
+});
@@ -96,6 +96,13 @@ const NOTIFICATION_TEMPLATES = {
     icon: "home",
     priority: "MEDIUM",
     category: "welcome"
+  },
+  MENTION: {
+    title: "{name} mentioned you 💬",
+    body: "\"{preview}\"",
+    icon: "at",
+    priority: "MEDIUM",
+    category: "social"
   }
 };
 
@@ -0,0 +1,87 @@
+/**
+ * Offline downloads for video premium subscribers (lib/offlineDownloads.mjs).
+ *
+ * GET  /api/videos/downloads/entitlement  whether the caller may keep downloads, and until when
+ * POST /api/videos/:id/download           a license to download one video and encrypt it on the device
+ *
+ * Both answer 403 PREMIUM_REQUIRED without video premium; the app then
+ * deletes the copies it holds. A license carries a fresh content key each
+ * time — the server keeps none.
+ */
+
+import crypto from 'crypto';
+import asyncHandler from 'express-async-handler';
+import prisma from '../lib/prisma.mjs';
+import {
+  OFFLINE_LIMITS,
+  formatLicense,
+  licenseExpiresAt,
+  offlineSource,
+  videoPremiumStatus,
+} from '../lib/offlineDownloads.mjs';
+
+/** The caller's video premium status — as getUnifiedSubscriptionStatus works it out */
+async function loadPremiumStatus(userId, now) {
+  const [user, videoPayment] = await Promise.all([
+    prisma.appUser.findUnique({
+      where: { id: userId },
+      select: { role: true, subscriptionStatus: true, videoSubscriptionStatus: true },
+    }),
+    prisma.payment.findFirst({
+      where: { userId, status: 'SUCCESSFUL', featureType: 'VIDEO', endDate: { gt: now } },
+      orderBy: { endDate: 'desc' },
+      select: { endDate: true },
+    }),
+  ]);
+  return videoPremiumStatus(user, videoPayment, now);
+}
+
+const premiumRequired = (res) => res.status(403).json({
+  success: false,
+  code: 'PREMIUM_REQUIRED',
+  message: 'Offline downloads are part of video premium',
+});
+
+export const getDownloadEntitlement = asyncHandler(async (req, res) => {
+  const now = new Date();
+  const premium = await loadPremiumStatus(req.user.id, now);
+  if (!premium.active) return premiumRequired(res);
+
+  res.json({
+    success: true,
+    data: {
+      hasVideoPremium: true,
+      premiumExpiresAt: premium.premiumExpiresAt?.toISOString() ?? null,
+      expiresAt: licenseExpiresAt(premium.premiumExpiresAt, now).toISOString(),
+    },
+  });
+});
+
+export const createDownloadLicense = asyncHandler(async (req, res) => {
+  const now = new Date();
+  const premium = await loadPremiumStatus(req.user.id, now);
+  if (!premium.active) return premiumRequired(res);
+
+  const video = await prisma.video.findUnique({
+    where: { id: req.params.id },
+    select: {
+      id: true, videoUrl: true, r2VideoKey: true, videoSizeBytes: true, videoMimeType: true,
+    },
+  });
+  if (!video) {
+    return res.status(404).json({ success: false, message: 'Video not found' });
+  }
+
+  const source = offlineSource(video);
+  if (!source) {
+    return res.status(409).json({ success: false, message: 'This video can’t be downloaded yet' });
+  }
+
+  res.json({
+    success: true,
+    data: formatLicense(video, source, {
+      contentKey: crypto.randomBytes(OFFLINE_LIMITS.CONTENT_KEY_BYTES).toString('base64'),
+      expiresAt: licenseExpiresAt(premium.premiumExpiresAt, now),
+    }),
+  });
+});
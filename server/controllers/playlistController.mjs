@@ -0,0 +1,390 @@
+/**
+ * Playlists, series and saved-video collections (lib/playlists.mjs).
+ *
+ * GET    /api/videos/playlists/user/:userId     a creator's playlists and series, latest first
+ * GET    /api/videos/playlists/:playlistId      one playlist with its videos in order
+ * POST   /api/videos/playlists                  create one from the caller's own videos
+ * PUT    /api/videos/playlists/:playlistId      edit title, description, kind or order (owner)
+ * DELETE /api/videos/playlists/:playlistId      delete it — the videos stay (owner)
+ *
+ * GET    /api/videos/collections                the caller's collections
+ * POST   /api/videos/collections                create one
+ * PUT    /api/videos/collections/:collectionId  rename one
+ * DELETE /api/videos/collections/:collectionId  delete one — its videos stay saved
+ * GET    /api/videos/saved?collectionId=        the caller's saved videos, newest first
+ * PUT    /api/videos/:id/collection             save a video into a collection (or none)
+ *
+ * Saved videos page with ?before=&limit=. Empty playlists are only listed
+ * for their owner. Writing a series copies its part numbers onto its videos
+ * (syncSeries); a video already part of another series is refused with 409.
+ */
+
+import asyncHandler from 'express-async-handler';
+import prisma from '../lib/prisma.mjs';
+import {
+  PLAYLIST_LIMITS,
+  formatCollection,
+  formatPlaylist,
+  normalizeCollectionName,
+  normalizePlaylistInput,
+  parseSavedPage,
+  seriesConflicts,
+  syncSeries,
+} from '../lib/playlists.mjs';
+import { formatVideoResponse, signVideoUrls } from './videoController.mjs';
+
+const videoUser = { select: { id: true, firstName: true, lastName: true, avatar: true } };
+
+// Enough of a video to sign its thumbnail for a shelf card
+const coverSelect = { thumbnail: true, videoUrl: true, r2ThumbnailKey: true, r2VideoKey: true };
+
+async function coverOf(video) {
+  return video ? (await signVideoUrls(video)).thumbnail : null;
+}
+
+/** A playlist with its videos in order, formatted for `viewerId` — null when it doesn't exist */
+async function loadPlaylistDetail(playlistId, viewerId) {
+  const playlist = await prisma.videoPlaylist.findUnique({
+    where: { id: playlistId },
+    include: {
+      items: { orderBy: { position: 'asc' }, include: { video: { include: { user: videoUser } } } },
+    },
+  });
+  if (!playlist) return null;
+
+  const videoIds = playlist.items.map((item) => item.videoId);
+  const bookmarked = viewerId && videoIds.length
+    ? await prisma.videoBookmark.findMany({
+      where: { userId: viewerId, videoId: { in: videoIds } },
+      select: { videoId: true },
+    })
+    : [];
+  const bookmarkedIds = new Set(bookmarked.map((b) => b.videoId));
+
+  const videos = await Promise.all(playlist.items.map(async ({ video }) => formatVideoResponse(
+    video,
+    await signVideoUrls(video),
+    { isBookmarked: bookmarkedIds.has(video.id) },
+  )));
+  return formatPlaylist(playlist, { videos, thumbnail: videos[0]?.thumbnail ?? null });
+}
+
+/**
+ * Why `videoIds` can't go into a playlist of `kind` owned by `userId` —
+ * `{ status, body }` — or null when they can. `playlistId` is the playlist
+ * being edited, whose own series doesn't count as a conflict.
+ */
+async function videoIdsProblem(userId, videoIds, kind, playlistId = null) {
+  if (videoIds.length === 0) return null;
+  const videos = await prisma.video.findMany({
+    where: { id: { in: videoIds } },
+    select: { id: true, userId: true, seriesId: true },
+  });
+  if (videos.length !== videoIds.length || videos.some((v) => v.userId !== userId)) {
+    return { status: 400, body: { success: false, message: 'Playlists can only hold your own videos' } };
+  }
+  if (kind === 'series') {
+    const conflicts = seriesConflicts(videos, playlistId);
+    if (conflicts.length) {
+      return {
+        status: 409,
+        body: { success: false, message: 'Some videos are already part of another series', videoIds: conflicts },
+      };
+    }
+  }
+  return null;
+}
+
+const itemRows = (playlistId, videoIds) => videoIds.map((videoId, position) => ({ playlistId, videoId, position }));
+
+/** Load the playlist named by req.params.playlistId for its owner — sends 404/403 and returns null otherwise */
+async function loadOwnedPlaylist(req, res) {
+  const playlist = await prisma.videoPlaylist.findUnique({
+    where: { id: req.params.playlistId },
+    include: { items: { orderBy: { position: 'asc' }, select: { videoId: true } } },
+  });
+  if (!playlist) {
+    res.status(404).json({ success: false, message: 'Playlist not found' });
+    return null;
+  }
+  if (playlist.userId !== req.user.id) {
+    res.status(403).json({ success: false, message: 'Only the creator can change this playlist' });
+    return null;
+  }
+  return playlist;
+}
+
+// ============================================================================
+// PLAYLISTS
+// ============================================================================
+
+export const getCreatorPlaylists = asyncHandler(async (req, res) => {
+  const { userId } = req.params;
+  const isOwner = req.user?.id === userId;
+
+  const playlists = await prisma.videoPlaylist.findMany({
+    where: { userId, ...(!isOwner && { items: { some: {} } }) },
+    orderBy: { updatedAt: 'desc' },
+    take: PLAYLIST_LIMITS.MAX_PLAYLISTS,
+    include: {
+      _count: { select: { items: true } },
+      items: { orderBy: { position: 'asc' }, take: 1, include: { video: { select: coverSelect } } },
+    },
+  });
+
+  res.json({
+    success: true,
+    data: await Promise.all(playlists.map(async (playlist) => formatPlaylist(playlist, {
+      itemCount: playlist._count.items,
+      thumbnail: await coverOf(playlist.items[0]?.video),
+    }))),
+  });
+});
+
+export const getPlaylist = asyncHandler(async (req, res) => {
+  const playlist = await loadPlaylistDetail(req.params.playlistId, req.user?.id);
+  if (!playlist || (playlist.itemCount === 0 && playlist.userId !== req.user?.id)) {
+    return res.status(404).json({ success: false, message: 'Playlist not found' });
+  }
+  res.json({ success: true, data: playlist });
+});
+
+export const createPlaylist = asyncHandler(async (req, res) => {
+  const { input, error } = normalizePlaylistInput(req.body);
+  if (error) {
+    return res.status(400).json({ success: false, message: error });
+  }
+
+  const userId = req.user.id;
+  const existing = await prisma.videoPlaylist.count({ where: { userId } });
+  if (existing >= PLAYLIST_LIMITS.MAX_PLAYLISTS) {
+    return res.status(400).json({ success: false, message: `You can have at most ${PLAYLIST_LIMITS.MAX_PLAYLISTS} playlists` });
+  }
+
+  const problem = await videoIdsProblem(userId, input.videoIds, input.kind);
+  if (problem) {
+    return res.status(problem.status).json(problem.body);
+  }
+
+  const playlist = await prisma.videoPlaylist.create({
+    data: {
+      userId,
+      title: input.title,
+      description: input.description ?? null,
+      kind: input.kind,
+      items: { create: input.videoIds.map((videoId, position) => ({ videoId, position })) },
+    },
+  });
+  if (playlist.kind === 'series') {
+    await syncSeries(prisma, playlist.id, { title: playlist.title, videoIds: input.videoIds });
+  }
+
+  res.status(201).json({ success: true, data: await loadPlaylistDetail(playlist.id, userId) });
+});
+
+export const updatePlaylist = asyncHandler(async (req, res) => {
+  const { input, error } = normalizePlaylistInput(req.body, { partial: true });
+  if (error) {
+    return res.status(400).json({ success: false, message: error });
+  }
+
+  const playlist = await loadOwnedPlaylist(req, res);
+  if (!playlist) return;
+
+  const kind = input.kind ?? playlist.kind;
+  const title = input.title ?? playlist.title;
+  const videoIds = input.videoIds ?? playlist.items.map((item) => item.videoId);
+  const problem = await videoIdsProblem(req.user.id, videoIds, kind, playlist.id);
+  if (problem) {
+    return res.status(problem.status).json(problem.body);
+  }
+
+  await prisma.$transaction([
+    prisma.videoPlaylist.update({
+      where: { id: playlist.id },
+      data: {
+        title,
+        kind,
+        ...(input.description !== undefined && { description: input.description }),
+        // Reordering only touches items — bump the shelf order explicitly
+        updatedAt: new Date(),
+      },
+    }),
+    ...(input.videoIds ? [
+      prisma.videoPlaylistItem.deleteMany({ where: { playlistId: playlist.id } }),
+      prisma.videoPlaylistItem.createMany({ data: itemRows(playlist.id, videoIds) }),
+    ] : []),
+  ]);
+  if (kind === 'series' || playlist.kind === 'series') {
+    await syncSeries(prisma, playlist.id, kind === 'series' ? { title, videoIds } : null);
+  }
+
+  res.json({ success: true, data: await loadPlaylistDetail(playlist.id, req.user.id) });
+});
+
+export const deletePlaylist = asyncHandler(async (req, res) => {
+  const playlist = await loadOwnedPlaylist(req, res);
+  if (!playlist) return;
+
+  await prisma.videoPlaylist.delete({ where: { id: playlist.id } });
+  if (playlist.kind === 'series') {
+    await syncSeries(prisma, playlist.id, null);
+  }
+  res.json({ success: true, data: { id: playlist.id } });
+});
+
+// ============================================================================
+// COLLECTIONS & SAVED VIDEOS
+// ============================================================================
+
+const collectionNameError =
+  `name must be 1–${PLAYLIST_LIMITS.MAX_COLLECTION_NAME_CHARS} characters`;
+
+async function formatCollectionWithCover(collection) {
+  return formatCollection(collection, {
+    count: collection._count.bookmarks,
+    thumbnail: await coverOf(collection.bookmarks[0]?.video),
+  });
+}
+
+const collectionInclude = {
+  _count: { select: { bookmarks: true } },
+  bookmarks: { orderBy: { createdAt: 'desc' }, take: 1, include: { video: { select: coverSelect } } },
+};
+
+export const getCollections = asyncHandler(async (req, res) => {
+  const userId = req.user.id;
+  const [collections, savedCount] = await Promise.all([
+    prisma.videoCollection.findMany({
+      where: { userId },
+      orderBy: { updatedAt: 'desc' },
+      include: collectionInclude,
+    }),
+    prisma.videoBookmark.count({ where: { userId } }),
+  ]);
+
+  res.json({
+    success: true,
+    data: { savedCount, collections: await Promise.all(collections.map(formatCollectionWithCover)) },
+  });
+});
+
+export const createCollection = asyncHandler(async (req, res) => {
+  const name = normalizeCollectionName(req.body?.name);
+  if (!name) {
+    return res.status(400).json({ success: false, message: collectionNameError });
+  }
+
+  const userId = req.user.id;
+  const existing = await prisma.videoCollection.count({ where: { userId } });
+  if (existing >= PLAYLIST_LIMITS.MAX_COLLECTIONS) {
+    return res.status(400).json({ success: false, message: `You can have at most ${PLAYLIST_LIMITS.MAX_COLLECTIONS} collections` });
+  }
+
+  try {
+    const collection = await prisma.videoCollection.create({ data: { userId, name }, include: collectionInclude });
+    res.status(201).json({ success: true, data: await formatCollectionWithCover(collection) });
+  } catch (error) {
+    if (error.code !== 'P2002') throw error;
+    res.status(409).json({ success: false, message: 'You already have a collection with that name' });
+  }
+});
+
+export const renameCollection = asyncHandler(async (req, res) => {
+  const name = normalizeCollectionName(req.body?.name);
+  if (!name) {
+    return res.status(400).json({ success: false, message: collectionNameError });
+  }
+
+  const collection = await prisma.videoCollection.findUnique({ where: { id: req.params.collectionId } });
+  if (!collection || collection.userId !== req.user.id) {
+    return res.status(404).json({ success: false, message: 'Collection not found' });
+  }
+
+  try {
+    const renamed = await prisma.videoCollection.update({
+      where: { id: collection.id },
+      data: { name },
+      include: collectionInclude,
+    });
+    res.json({ success: true, data: await formatCollectionWithCover(renamed) });
+  } catch (error) {
+    if (error.code !== 'P2002') throw error;
+    res.status(409).json({ success: false, message: 'You already have a collection with that name' });
+  }
+});
+
+export const deleteCollection = asyncHandler(async (req, res) => {
+  const collection = await prisma.videoCollection.findUnique({ where: { id: req.params.collectionId } });
+  if (!collection || collection.userId !== req.user.id) {
+    return res.status(404).json({ success: false, message: 'Collection not found' });
+  }
+
+  // Its bookmarks fall back to "no collection" (onDelete: SetNull) — still saved
+  await prisma.videoCollection.delete({ where: { id: collection.id } });
+  res.json({ success: true, data: { id: collection.id } });
+});
+
+export const getSavedVideos = asyncHandler(async (req, res) => {
+  const page = parseSavedPage(req.query);
+  if (!page) {
+    return res.status(400).json({ success: false, message: 'before must be a date and limit a positive integer' });
+  }
+
+  const { collectionId } = req.query;
+  const bookmarks = await prisma.videoBookmark.findMany({
+    where: {
+      userId: req.user.id,
+      ...(collectionId && { collectionId: String(collectionId) }),
+      ...(page.before && { createdAt: { lt: page.before } }),
+    },
+    orderBy: { createdAt: 'desc' },
+    take: page.limit + 1,
+    include: { video: { include: { user: videoUser } } },
+  });
+
+  const pageRows = bookmarks.slice(0, page.limit);
+  res.json({
+    success: true,
+    data: {
+      items: await Promise.all(pageRows.map(async (bookmark) => ({
+        collectionId: bookmark.collectionId,
+        savedAt: bookmark.createdAt.toISOString(),
+        video: formatVideoResponse(bookmark.video, await signVideoUrls(bookmark.video), { isBookmarked: true }),
+      }))),
+      nextBefore: bookmarks.length > page.limit ? pageRows[pageRows.length - 1].createdAt.toISOString() : null,
+    },
+  });
+});
+
+export const saveToCollection = asyncHandler(async (req, res) => {
+  const videoId = req.params.id;
+  const userId = req.user.id;
+  const collectionId = req.body?.collectionId ?? null;
+  if (collectionId !== null && typeof collectionId !== 'string') {
+    return res.status(400).json({ success: false, message: 'collectionId must be a string or null' });
+  }
+
+  const [video, collection] = await Promise.all([
+    prisma.video.findUnique({ where: { id: videoId }, select: { id: true } }),
+    collectionId ? prisma.videoCollection.findUnique({ where: { id: collectionId } }) : null,
+  ]);
+  if (!video) {
+    return res.status(404).json({ success: false, message: 'Video not found' });
+  }
+  if (collectionId && (!collection || collection.userId !== userId)) {
+    return res.status(404).json({ success: false, message: 'Collection not found' });
+  }
+
+  // Saving into a collection bookmarks the video if it wasn't already
+  await prisma.$transaction([
+    prisma.videoBookmark.upsert({
+      where: { userId_videoId: { userId, videoId } },
+      create: { userId, videoId, collectionId },
+      update: { collectionId },
+    }),
+    ...(collectionId ? [prisma.videoCollection.update({ where: { id: collectionId }, data: { updatedAt: new Date() } })] : []),
+  ]);
+
+  res.json({ success: true, data: { videoId, isBookmarked: true, collectionId } });
+});
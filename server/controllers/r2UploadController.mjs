@@ -4,8 +4,10 @@
  * Handles file uploads to Cloudflare R2 with:
  * - Video upload with automatic multipart for large files
  * - Thumbnail upload
- * - Livestream chunk upload and finalization
+ * - Livestream chunk upload and finalization (the recording becomes the
+ *   stream's replay — lib/livestreamReplay.mjs)
  * - Presigned URL generation
+ * - Resumable client-driven multipart upload for large videos
  * - Prisma transaction safety for metadata storage
  * 
  * Security:
@@ -37,7 +39,21 @@ import {
   validateFileSize,
   STORAGE_PATHS,
   FILE_LIMITS,
+  createMultipartUpload,
+  getSignedPartUrl,
+  listMultipartParts,
+  completeMultipartUpload,
+  abortMultipartUpload,
 } from '../lib/r2.mjs';
+import {
+  MULTIPART_LIMITS,
+  planParts,
+  isOwnedUploadKey,
+  normalizePartNumbers,
+  normalizeCompletedParts,
+} from '../lib/multipartUpload.mjs';
+import { HLS_STATUS } from '../lib/hlsLadder.mjs';
+import { replayLinkError, replayVideoFields } from '../lib/livestreamReplay.mjs';
 
 // ============================================================================
 // HELPER: Check user premium status
@@ -188,8 +204,9 @@ export const uploadVideoToR2 = asyncHandler(async (req, res) => {
           videoSizeBytes: BigInt(videoFile.size),
           thumbnailSizeBytes: thumbnailFile?.size || null,
           storageProvider: 'r2',
-          isProcessed: true, // Mark as processed (no transcoding for now)
+          isProcessed: true, // Playable as uploaded; the HLS ladder follows
           processingStatus: 'completed',
+          hlsStatus: HLS_STATUS.PENDING, // picked up by scripts/transcode-hls.mjs
         },
         include: {
           user: {
@@ -450,6 +467,246 @@ export const getPresignedDownloadUrl = asyncHandler(async (req, res) => {
   }
 });
 
+// ============================================================================
+// RESUMABLE MULTIPART VIDEO UPLOAD (see lib/multipartUpload.mjs)
+// ============================================================================
+
+/**
+ * Authenticated user plus an owned { key, uploadId } from the body or query.
+ * Responds and returns null when either is missing or the key isn't theirs.
+ */
+function requireOwnedMultipartUpload(req, res) {
+  const userId = req.user?.id ? String(req.user.id).trim() : '';
+  if (!userId) {
+    res.status(401).json({
+      success: false,
+      error: 'AUTH_REQUIRED',
+      message: 'Authentication is required',
+    });
+    return null;
+  }
+
+  const source = req.method === 'GET' ? req.query : req.body;
+  const key = source?.key;
+  const uploadId = source?.uploadId;
+  if (!key || !uploadId || typeof uploadId !== 'string') {
+    res.status(400).json({
+      success: false,
+      error: 'MISSING_PARAMS',
+      message: 'key and uploadId are required',
+    });
+    return null;
+  }
+
+  if (!isOwnedUploadKey(key, userId, STORAGE_PATHS.VIDEOS)) {
+    res.status(403).json({
+      success: false,
+      error: 'FORBIDDEN',
+      message: 'This upload belongs to a different user',
+    });
+    return null;
+  }
+
+  return { userId, key, uploadId };
+}
+
+/**
+ * Start a resumable multipart video upload.
+ * Returns the part plan the client must follow; parts are signed separately.
+ */
+export const createMultipartVideoUpload = asyncHandler(async (req, res) => {
+  const { fileName, mimeType, fileSize } = req.body;
+  const userId = req.user?.id ? String(req.user.id).trim() : '';
+
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'AUTH_REQUIRED',
+      message: 'Authentication is required',
+    });
+  }
+
+  const size = parseInt(fileSize, 10);
+  if (!fileName || !mimeType || !Number.isFinite(size) || size <= 0) {
+    return res.status(400).json({
+      success: false,
+      error: 'MISSING_PARAMS',
+      message: 'fileName, mimeType, and fileSize are required',
+    });
+  }
+
+  const typeValidation = validateFileType(mimeType, 'video');
+  if (!typeValidation.valid) {
+    return res.status(400).json({
+      success: false,
+      error: 'INVALID_FILE_TYPE',
+      message: typeValidation.error,
+    });
+  }
+
+  const { exists, isPremium } = await getUserPremiumStatus(userId);
+  if (!exists) {
+    return res.status(404).json({
+      success: false,
+      error: 'USER_NOT_FOUND',
+      message: 'User not found',
+    });
+  }
+
+  const sizeValidation = validateFileSize(size, 'video', isPremium);
+  if (!sizeValidation.valid) {
+    return res.status(413).json({
+      success: false,
+      error: 'FILE_TOO_LARGE',
+      message: sizeValidation.error,
+      maxSize: sizeValidation.maxSize,
+      fileSize: size,
+      isPremium,
+      upgradeRequired: !isPremium,
+    });
+  }
+
+  try {
+    const key = generateObjectKey(STORAGE_PATHS.VIDEOS, fileName, userId);
+    const uploadId = await createMultipartUpload(key, mimeType);
+    const { partSize, partCount } = planParts(size);
+
+    res.status(201).json({
+      success: true,
+      uploadId,
+      key,
+      publicUrl: getPublicUrl(key),
+      partSize,
+      partCount,
+    });
+  } catch (error) {
+    console.error('[R2Controller] Multipart create error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'MULTIPART_CREATE_FAILED',
+      message: error.message || 'Failed to start upload',
+    });
+  }
+});
+
+/**
+ * Presigned PUT URLs for a batch of parts (at most MULTIPART_LIMITS.SIGN_BATCH)
+ */
+export const signMultipartVideoParts = asyncHandler(async (req, res) => {
+  const upload = requireOwnedMultipartUpload(req, res);
+  if (!upload) return;
+
+  const partNumbers = normalizePartNumbers(req.body.partNumbers);
+  if (!partNumbers) {
+    return res.status(400).json({
+      success: false,
+      error: 'INVALID_PARTS',
+      message: `partNumbers must list 1-${MULTIPART_LIMITS.SIGN_BATCH} part numbers`,
+    });
+  }
+
+  try {
+    const urls = await Promise.all(
+      partNumbers.map(async (partNumber) => ({
+        partNumber,
+        url: await getSignedPartUrl(upload.key, upload.uploadId, partNumber),
+      }))
+    );
+    res.json({ success: true, parts: urls, expiresIn: 900 });
+  } catch (error) {
+    console.error('[R2Controller] Multipart sign error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'URL_GENERATION_FAILED',
+      message: error.message || 'Failed to sign parts',
+    });
+  }
+});
+
+/**
+ * Parts R2 already holds — what a resuming client reconciles against.
+ * 404 UPLOAD_EXPIRED when the upload is gone and must start over.
+ */
+export const listMultipartVideoParts = asyncHandler(async (req, res) => {
+  const upload = requireOwnedMultipartUpload(req, res);
+  if (!upload) return;
+
+  try {
+    const parts = await listMultipartParts(upload.key, upload.uploadId);
+    if (!parts) {
+      return res.status(404).json({
+        success: false,
+        error: 'UPLOAD_EXPIRED',
+        message: 'This upload has expired. Start it again.',
+      });
+    }
+    res.json({ success: true, parts });
+  } catch (error) {
+    console.error('[R2Controller] Multipart list error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'MULTIPART_LIST_FAILED',
+      message: error.message || 'Failed to list uploaded parts',
+    });
+  }
+});
+
+/**
+ * Stitch the uploaded parts into the video object.
+ * The client then finalizes through /upload/finalize-video as usual.
+ */
+export const completeMultipartVideoUpload = asyncHandler(async (req, res) => {
+  const upload = requireOwnedMultipartUpload(req, res);
+  if (!upload) return;
+
+  const parts = normalizeCompletedParts(req.body.parts);
+  if (!parts) {
+    return res.status(400).json({
+      success: false,
+      error: 'INVALID_PARTS',
+      message: 'parts must list every part from 1 with its ETag',
+    });
+  }
+
+  try {
+    await completeMultipartUpload(upload.key, upload.uploadId, parts);
+    res.json({ success: true, key: upload.key, publicUrl: getPublicUrl(upload.key) });
+  } catch (error) {
+    // A retried complete whose first attempt succeeded finds no upload — the
+    // object is already there, so treat it as done.
+    const existing = await getFileMetadata(upload.key).catch(() => null);
+    if (existing) {
+      return res.json({ success: true, key: upload.key, publicUrl: getPublicUrl(upload.key) });
+    }
+    console.error('[R2Controller] Multipart complete error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'MULTIPART_COMPLETE_FAILED',
+      message: error.message || 'Failed to complete upload',
+    });
+  }
+});
+
+/**
+ * Discard a multipart upload the user cancelled, with the parts stored so far
+ */
+export const abortMultipartVideoUpload = asyncHandler(async (req, res) => {
+  const upload = requireOwnedMultipartUpload(req, res);
+  if (!upload) return;
+
+  try {
+    const aborted = await abortMultipartUpload(upload.key, upload.uploadId);
+    res.json({ success: true, aborted });
+  } catch (error) {
+    console.error('[R2Controller] Multipart abort error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'MULTIPART_ABORT_FAILED',
+      message: error.message || 'Failed to abort upload',
+    });
+  }
+});
+
 // ============================================================================
 // FINALIZE PRESIGNED VIDEO UPLOAD
 // ============================================================================
@@ -469,6 +726,7 @@ export const finalizePresignedVideoUpload = asyncHandler(async (req, res) => {
     title,
     description,
     duration,
+    livestreamSessionId,
   } = req.body;
 
   const userId = req.user?.id ? String(req.user.id).trim() : '';
@@ -544,6 +802,28 @@ export const finalizePresignedVideoUpload = asyncHandler(async (req, res) => {
       });
     }
 
+    // Publishing a livestream's recording makes it the stream's replay
+    let replayFields = {};
+    if (livestreamSessionId) {
+      const livestream = await prisma.livestream.findUnique({ where: { sessionId: String(livestreamSessionId) } });
+      const linkError = replayLinkError(livestream, userId);
+      if (linkError) {
+        return res.status(linkError.status).json({ success: false, error: linkError.error, message: linkError.message });
+      }
+      const existingReplay = await prisma.video.findUnique({
+        where: { livestreamSessionId: livestream.sessionId },
+        select: { id: true },
+      });
+      if (existingReplay) {
+        return res.status(409).json({
+          success: false,
+          error: 'REPLAY_EXISTS',
+          message: 'This livestream already has a replay',
+        });
+      }
+      replayFields = replayVideoFields(livestream);
+    }
+
     // Verify the video file actually exists in R2
     const videoMeta = await getFileMetadata(r2VideoKey);
     if (!videoMeta) {
@@ -589,6 +869,8 @@ export const finalizePresignedVideoUpload = asyncHandler(async (req, res) => {
           storageProvider: 'r2',
           isProcessed: true,
           processingStatus: 'completed',
+          hlsStatus: HLS_STATUS.PENDING,
+          ...replayFields,
         },
         include: {
           user: {
@@ -844,22 +1126,34 @@ export const finalizeLivestreamRecording = asyncHandler(async (req, res) => {
       },
     });
     
-    // Optionally create a video record for the recording
-    const video = await prisma.video.create({
-      data: {
-        title: title || `Livestream Recording - ${new Date().toLocaleDateString()}`,
-        description: description || 'Recorded livestream',
-        videoUrl: result.recordingUrl,
-        thumbnail: '', // Generate thumbnail later
-        userId,
-        duration: livestream.durationSeconds || 0,
-        r2VideoKey: recordingKey,
-        videoSizeBytes: BigInt(result.totalSize),
-        storageProvider: 'r2',
-        isProcessed: true,
-        processingStatus: 'completed',
-      },
-    });
+    const recordingData = {
+      title: title || livestream.title || `Livestream Recording - ${new Date().toLocaleDateString()}`,
+      description: description || 'Recorded livestream',
+      videoUrl: result.recordingUrl,
+      thumbnail: '', // Generate thumbnail later
+      userId,
+      duration: livestream.durationSeconds || 0,
+      r2VideoKey: recordingKey,
+      videoSizeBytes: BigInt(result.totalSize),
+      storageProvider: 'r2',
+      isProcessed: true,
+      processingStatus: 'completed',
+    };
+
+    // A livestream's recording is its replay — one per stream, so a retried
+    // finalize refreshes the recording instead of creating a second video
+    const video = livestream.type === 'livestream'
+      ? await prisma.video.upsert({
+          where: { livestreamSessionId: sessionId },
+          update: {
+            videoUrl: recordingData.videoUrl,
+            r2VideoKey: recordingData.r2VideoKey,
+            videoSizeBytes: recordingData.videoSizeBytes,
+            peakViewerCount: livestream.peakViewerCount,
+          },
+          create: { ...recordingData, ...replayVideoFields(livestream) },
+        })
+      : await prisma.video.create({ data: recordingData });
     
     const signedRecordingUrl = video.r2VideoKey
       ? await getSignedDownloadUrl(video.r2VideoKey)
@@ -1176,6 +1470,11 @@ export default {
   uploadAvatarToR2,
   getPresignedUploadUrl,
   getPresignedDownloadUrl,
+  createMultipartVideoUpload,
+  signMultipartVideoParts,
+  listMultipartVideoParts,
+  completeMultipartVideoUpload,
+  abortMultipartVideoUpload,
   validateUploadRequest,
   uploadLivestreamChunk,
   finalizeLivestreamRecording,
@@ -0,0 +1,229 @@
+/**
+ * Rewarded ads — watch a whole ad, earn points (lib/rewardedAds.mjs).
+ *
+ * GET  /api/ads/rewarded         what the caller can earn today: points per ad,
+ *                                the daily cap, how many are left, and whether
+ *                                an ad is ready
+ * POST /api/ads/rewarded/start   pick an ad and open a view — returns the ad and
+ *                                a signed completion token
+ * POST /api/ads/rewarded/claim   { token } after the ad ends, behind Play Integrity
+ *                                (routes/AdRoutes.mjs) — credits the points once and
+ *                                returns what was earned and the new balance
+ *
+ * Points and the daily cap come from AppConfig. A view is credited at most once:
+ * its row flips from started to credited in the transaction that pays. The cap
+ * holds under concurrent claims through the per-day RewardedAdDay counter, moved
+ * by one conditional statement (credited < cap) in that same transaction.
+ */
+
+import asyncHandler from 'express-async-handler';
+import prisma from '../lib/prisma.mjs';
+import { getRewardConfig } from '../lib/rewardConfig.mjs';
+import { publishEvent } from '../lib/eventBus.mjs';
+import {
+  REWARDED_AD_DESCRIPTION,
+  REWARDED_LIMITS,
+  pickRewardedAd,
+  requiredWatchMs,
+  rewardedAllowance,
+  rewardedTokenSecret,
+  signCompletionToken,
+  verifyCompletionToken,
+} from '../lib/rewardedAds.mjs';
+import { servableAdWhere, signAdUrls } from './AdController.mjs';
+
+const startOfUtcToday = () => {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+};
+
+const creditedToday = async (db, userId) => {
+  const row = await db.rewardedAdDay.findUnique({
+    where: { userId_day: { userId, day: startOfUtcToday() } },
+    select: { credited: true },
+  });
+  return row?.credited ?? 0;
+};
+
+// Views started but not yet claimed that could still pay — they hold a slot
+// under the cap until their token runs out
+const OPEN_VIEW_MS = REWARDED_LIMITS.VIDEO_DURATION_MAX_S * 1000 + REWARDED_LIMITS.TOKEN_TTL_MS;
+const openViews = (userId) =>
+  prisma.rewardedAdView.count({
+    where: { userId, status: 'started', createdAt: { gte: new Date(Date.now() - OPEN_VIEW_MS) } },
+  });
+
+const rewardedAds = () =>
+  prisma.ad.findMany({
+    where: { ...servableAdWhere(new Date()), placement: 'rewarded' },
+    orderBy: [{ priority: 'desc' }, { createdAt: 'desc' }],
+    take: 20,
+  });
+
+const DAILY_CAP_BODY = { success: false, error: 'DAILY_CAP', message: "You've earned all your ad points for today" };
+
+const CLAIM_ERRORS = {
+  too_early: 'Watch the whole ad to earn your points',
+  expired: 'This ad has expired — start another',
+};
+
+export const getRewardedStatus = asyncHandler(async (req, res) => {
+  const [config, credited, ads] = await Promise.all([
+    getRewardConfig(),
+    creditedToday(prisma, req.user.id),
+    rewardedAds(),
+  ]);
+  res.json({
+    success: true,
+    data: {
+      ...rewardedAllowance(config, credited),
+      available: Boolean(rewardedTokenSecret()) && pickRewardedAd(ads) !== null,
+    },
+  });
+});
+
+export const startRewardedAd = asyncHandler(async (req, res) => {
+  const userId = req.user.id;
+  // Without a secret every token would fail to verify — don't play an ad that can't pay
+  const secret = rewardedTokenSecret();
+  if (!secret) {
+    return res.status(503).json({
+      success: false,
+      error: 'REWARDED_UNAVAILABLE',
+      message: 'Rewarded ads are not available right now',
+    });
+  }
+
+  const [config, credited, open, ads] = await Promise.all([
+    getRewardConfig(),
+    creditedToday(prisma, userId),
+    openViews(userId),
+    rewardedAds(),
+  ]);
+  const allowance = rewardedAllowance(config, credited);
+  if (allowance.remaining === 0) return res.status(429).json(DAILY_CAP_BODY);
+  if (allowance.remaining <= open) {
+    return res.status(429).json({
+      success: false,
+      error: 'VIEWS_OPEN',
+      message: "Finish the ads you've started first, or try again in a little while",
+    });
+  }
+
+  const started = await prisma.rewardedAdView.groupBy({
+    by: ['adId'],
+    where: { userId, createdAt: { gte: startOfUtcToday() } },
+    _count: { _all: true },
+  });
+  const ad = pickRewardedAd(ads, Object.fromEntries(started.map((row) => [row.adId, row._count._all])));
+  if (!ad) return res.status(404).json({ success: false, message: 'No rewarded ad is available right now' });
+
+  const issuedAt = Date.now();
+  const watchMs = requiredWatchMs(ad);
+  const view = await prisma.rewardedAdView.create({
+    data: { userId, adId: ad.id, points: allowance.points, status: 'started' },
+  });
+  const signed = await signAdUrls(ad);
+
+  res.status(201).json({
+    success: true,
+    data: {
+      token: signCompletionToken({ viewId: view.id, userId, adId: ad.id, issuedAt, watchMs }, secret),
+      points: allowance.points,
+      minWatchSeconds: watchMs / 1000,
+      ad: {
+        id: ad.id,
+        title: ad.title,
+        description: ad.description,
+        headline: ad.headline,
+        ...signed,
+        targetUrl: ad.targetUrl,
+        callToAction: ad.callToAction,
+        placement: ad.placement,
+        type: ad.type,
+        userId: ad.userId,
+        isActive: ad.isActive,
+        priority: ad.priority,
+        createdAt: ad.createdAt.toISOString(),
+        updatedAt: ad.updatedAt.toISOString(),
+      },
+    },
+  });
+});
+
+export const claimRewardedAd = asyncHandler(async (req, res) => {
+  const userId = req.user.id;
+  const check = verifyCompletionToken(req.body?.token, rewardedTokenSecret(), { userId });
+  if (!check.ok) {
+    return res.status(400).json({
+      success: false,
+      error: 'INVALID_COMPLETION',
+      reason: check.reason,
+      message: CLAIM_ERRORS[check.reason] ?? 'This ad view could not be verified',
+    });
+  }
+
+  const config = await getRewardConfig();
+  if (rewardedAllowance(config, 0).remaining === 0) return res.status(429).json(DAILY_CAP_BODY);
+
+  const day = startOfUtcToday();
+  let outcome;
+  try {
+    outcome = await prisma.$transaction(async (tx) => {
+      // Daily cap: the check and the increment are ONE statement, so concurrent
+      // claims queue on the row and only those under the cap get through. A
+      // rollback below undoes the increment with the rest.
+      await tx.rewardedAdDay.createMany({ data: [{ userId, day }], skipDuplicates: true });
+      const counted = await tx.rewardedAdDay.updateMany({
+        where: { userId, day, credited: { lt: config.rewardedAdDailyCap } },
+        data: { credited: { increment: 1 } },
+      });
+      if (counted.count === 0) {
+        const capped = new Error('Rewarded ad daily cap reached');
+        capped.dailyCap = true;
+        throw capped;
+      }
+
+      // Single use: only the first claim finds the view still started
+      const opened = await tx.rewardedAdView.updateMany({
+        where: { id: check.viewId, userId, adId: check.adId, status: 'started' },
+        data: { status: 'credited', creditedAt: new Date() },
+      });
+      if (opened.count === 0) {
+        const claimed = new Error('Rewarded ad view already claimed');
+        claimed.alreadyClaimed = true;
+        throw claimed;
+      }
+
+      const view = await tx.rewardedAdView.findUnique({ where: { id: check.viewId }, select: { points: true } });
+      await tx.reward.create({ data: { userEmail: req.user.email, points: view.points, description: REWARDED_AD_DESCRIPTION } });
+      const user = await tx.appUser.update({
+        where: { id: userId },
+        data: { points: { increment: view.points } },
+        select: { points: true },
+      });
+      return { points: view.points, balance: user.points, credited: await creditedToday(tx, userId) };
+    });
+  } catch (error) {
+    if (error?.dailyCap) return res.status(429).json(DAILY_CAP_BODY);
+    if (error?.alreadyClaimed) {
+      return res.status(409).json({ success: false, error: 'ALREADY_CLAIMED', message: 'These points were already added' });
+    }
+    throw error;
+  }
+
+  publishEvent(userId, 'transaction.new', {
+    type: 'reward',
+    amount: outcome.points,
+    description: 'Rewarded ad',
+  });
+
+  res.json({
+    success: true,
+    data: {
+      earned: outcome.points,
+      balance: outcome.balance,
+      ...rewardedAllowance(config, outcome.credited),
+    },
+  });
+});
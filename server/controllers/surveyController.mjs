@@ -7,8 +7,14 @@ import { getRewardConfig, pointsToUgx } from '../lib/rewardConfig.mjs';
 import { createNotificationFromTemplateHelper } from './notificationController.mjs';
 import { checkAndUnlockAchievements } from '../lib/achievementChecker.mjs';
 import { getStore } from '../lib/memoryCache.mjs';
-import { VALID_QUESTION_TYPES, normalizeQuestionType } from '../lib/surveyQuestionTypes.mjs';
-import { validateConditionalLogic, remapConditionalLogicIds } from '../lib/surveyConditionalLogic.mjs';
+import { VALID_QUESTION_TYPES, isAnswerShapeValid, normalizeQuestionType } from '../lib/surveyQuestionTypes.mjs';
+import { validateConditionalLogic, remapConditionalLogicIds, resolveSurveyPath } from '../lib/surveyConditionalLogic.mjs';
+import { validateComputedVariables, validatePiping, remapComputedVariableIds } from '../lib/surveyPiping.mjs';
+import { validateScreeners, findScreenedOutQuestion, buildQuotaCells, matchQuotas } from '../lib/surveyScreening.mjs';
+import { validateTranslations, resolveResponseLanguage } from '../lib/surveyTranslation.mjs';
+import {
+  QUESTION_ORDER, snapshotQuestions, questionRowData, resolveResponseVersion, countResponsesByVersion,
+} from '../lib/surveyVersioning.mjs';
 
 // In-process cache for public survey lists. These responses carry no per-user
 // fields and no signed URLs, so they are safe to cache by query params. 90s TTL
@@ -57,13 +63,59 @@ async function checkSurveyExpiringNotifications(userId) {
 }
 
 
+// ---------------------------------------------------------------------------
+// Attempt timing (response quality: speeder detection)
+// ---------------------------------------------------------------------------
+
+// Matches the client's attempt-draft expiry — an older start is a stale clock.
+const MAX_ATTEMPT_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * When the respondent opened the survey, as reported by the client. Anything
+ * unparseable, in the future or older than a draft can live is stored as null
+ * rather than rejected — a bad clock must not cost anyone their reward.
+ */
+function parseAttemptStartedAt(value, now) {
+  if (typeof value !== 'string' || value === '') return null;
+  const startedAt = new Date(value);
+  const time = startedAt.getTime();
+  if (Number.isNaN(time) || time > now.getTime() || now.getTime() - time > MAX_ATTEMPT_AGE_MS) return null;
+  return startedAt;
+}
+
+/** Opaque client key (UUID or similar); anything else is ignored, not rejected */
+function parseIdempotencyKey(value) {
+  return typeof value === 'string' && /^[\w-]{8,100}$/.test(value) ? value : null;
+}
+
+/**
+ * 200 for a submission that already landed under its idempotency key. Echoes
+ * the points credited at the time; rows stored before the column existed fall
+ * back to the current config value.
+ */
+async function replaySubmission(res, stored) {
+  const rewardConfig = await getRewardConfig();
+  const pointsAwarded = stored.pointsAwarded ?? rewardConfig.surveyCompletionPoints;
+  return res.status(200).json({
+    success: true,
+    submitted: true,
+    idempotent: true,
+    message: 'Survey response already submitted.',
+    pointsAwarded,
+    cashEquivalent: pointsToUgx(pointsAwarded, rewardConfig),
+    responseId: stored.id,
+    submittedAt: stored.createdAt,
+  });
+}
+
+
 /**
  * Shared validation for survey creation payloads (createSurvey + uploadSurvey).
  * Normalizes question types in place onto `normalizedType`. Returns null when
  * valid, or { status, body } to send. `textKey` differs between the two
  * endpoints' historical payload shapes ('question' vs 'text').
  */
-function validateCreationPayload({ title, questions, startDate, endDate, textKey }) {
+function validateCreationPayload({ title, questions, startDate, endDate, textKey, computedVariables = null, localization = {} }) {
   if (typeof title !== 'string' || title.trim().length === 0) {
     return { status: 400, body: { message: 'Survey title is required' } };
   }
@@ -109,12 +161,11 @@ function validateCreationPayload({ title, questions, startDate, endDate, textKey
   // Conditional logic: rules must reference EARLIER questions by the ids the
   // client used (builder clientIds). Synthetic fallback ids make unresolvable
   // references fail validation instead of being stored dead.
-  const logicErrors = validateConditionalLogic(
-    questions.map((q, i) => ({
-      id: q.clientId ?? q.id ?? `__q${i}`,
-      conditionalLogic: q.conditionalLogic ?? null,
-    }))
-  );
+  const idQuestions = questions.map((q, i) => ({
+    id: q.clientId ?? q.id ?? `__q${i}`,
+    conditionalLogic: q.conditionalLogic ?? null,
+  }));
+  const logicErrors = validateConditionalLogic(idQuestions);
   if (logicErrors.length > 0) {
     return {
       status: 400,
@@ -122,9 +173,123 @@ function validateCreationPayload({ title, questions, startDate, endDate, textKey
     };
   }
 
+  // Answer piping: {{qN}} tokens must point backward, {{name}} tokens at a
+  // computed variable whose sources come before the question using it.
+  const pipingErrors = [
+    ...validateComputedVariables(computedVariables, idQuestions),
+    ...validatePiping(
+      questions.map((q) => ({ text: q[textKey], options: q.options })),
+      idQuestions,
+      computedVariables
+    ),
+  ];
+  if (pipingErrors.length > 0) {
+    return {
+      status: 400,
+      body: { message: 'Invalid answer piping', errors: pipingErrors },
+    };
+  }
+
+  // Screeners: single-choice, required, ahead of every paid question, with
+  // quotas only on qualifying answers.
+  const screenerErrors = validateScreeners(
+    questions.map((q) => ({ type: q.normalizedType, options: q.options, required: q.required ?? true, screener: q.screener ?? null }))
+  );
+  if (screenerErrors.length > 0) {
+    return {
+      status: 400,
+      body: { message: 'Invalid screener questions', errors: screenerErrors },
+    };
+  }
+
+  // Translations: every offered language covers the title, the description
+  // and each question's text and labels, index-aligned with the source
+  const translationErrors = validateTranslations({
+    ...localization,
+    questions: questions.map((q) => ({ type: q.normalizedType, options: q.options, translations: q.translations ?? null })),
+  });
+  if (translationErrors.length > 0) {
+    return {
+      status: 400,
+      body: { message: 'Invalid translations', errors: translationErrors },
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Logic, piping and screener checks against a survey's full ordered question
+ * list — shared by question edits and rollbacks. Returns null when valid, or
+ * { status, body } to send.
+ */
+function validateQuestionList(questions, computedVariables) {
+  const logicErrors = validateConditionalLogic(questions);
+  if (logicErrors.length > 0) {
+    return { status: 400, body: { message: 'Invalid conditional logic', errors: logicErrors } };
+  }
+  // Piped {{…}} references are positional — recheck them against this order
+  const pipingErrors = validatePiping(questions, questions, computedVariables);
+  if (pipingErrors.length > 0) {
+    return { status: 400, body: { message: 'Invalid answer piping', errors: pipingErrors } };
+  }
+  const screenerErrors = validateScreeners(questions);
+  if (screenerErrors.length > 0) {
+    return { status: 400, body: { message: 'Invalid screener questions', errors: screenerErrors } };
+  }
   return null;
 }
 
+/**
+ * Surveys published before versioning have no snapshot of what they launched
+ * with — take one from the live questions before the first versioned edit.
+ */
+async function ensureBaseVersion(tx, surveyId) {
+  if ((await tx.surveyVersion.count({ where: { surveyId } })) > 0) return;
+  const survey = await tx.survey.findUnique({
+    where: { id: surveyId },
+    select: { title: true, currentVersion: true, uploads: { orderBy: QUESTION_ORDER } },
+  });
+  await tx.surveyVersion.create({
+    data: {
+      surveyId,
+      version: survey.currentVersion ?? 1,
+      title: survey.title,
+      questions: snapshotQuestions(survey.uploads ?? []),
+    },
+  });
+}
+
+/** Snapshot the questions as they now stand as the next version, and make it current */
+async function publishNextVersion(tx, surveyId, restoredFrom = null) {
+  const survey = await tx.survey.findUnique({
+    where: { id: surveyId },
+    select: { title: true, currentVersion: true, uploads: { orderBy: QUESTION_ORDER } },
+  });
+  const version = (survey.currentVersion ?? 1) + 1;
+  await tx.surveyVersion.create({
+    data: { surveyId, version, title: survey.title, questions: snapshotQuestions(survey.uploads ?? []), restoredFrom },
+  });
+  await tx.survey.update({ where: { id: surveyId }, data: { currentVersion: version } });
+  return version;
+}
+
+/**
+ * Bring the quota fill counters in line with the questions' screeners. Cells
+ * that survive the edit keep their fill — the survey may already have responses.
+ */
+async function syncQuotaCells(tx, surveyId, questions) {
+  const cells = buildQuotaCells(surveyId, questions);
+  await tx.surveyQuotaCell.deleteMany({
+    where: cells.length > 0
+      ? { surveyId, NOT: { OR: cells.map(({ questionId, answer }) => ({ questionId, answer })) } }
+      : { surveyId },
+  });
+  if (cells.length > 0) {
+    await tx.surveyQuotaCell.createMany({ data: cells, skipDuplicates: true });
+  }
+}
+
 // Create a Survey
 export const createSurvey = asyncHandler(async (req, res) => {
   const { surveyTitle, surveyDescription, questions, startDate, endDate, rewardAmount, maxResponses, totalBudget } = req.body;
@@ -180,7 +345,7 @@ export const createSurvey = asyncHandler(async (req, res) => {
       });
 
       const created = [];
-      for (const q of questions) {
+      for (const [position, q] of questions.entries()) {
         created.push(
           await tx.uploadSurvey.create({
             data: {
@@ -191,12 +356,17 @@ export const createSurvey = asyncHandler(async (req, res) => {
               minValue: q.minValue || null,
               maxValue: q.maxValue || null,
               required: q.required ?? true,
+              position,
               userId,
               surveyId: newSurvey.id,
             },
           })
         );
       }
+
+      await tx.surveyVersion.create({
+        data: { surveyId: newSurvey.id, version: 1, title: surveyTitle, questions: snapshotQuestions(created) },
+      });
       return created;
     });
 
@@ -215,7 +385,10 @@ export const createSurvey = asyncHandler(async (req, res) => {
 
 
 export const uploadSurvey = asyncHandler(async (req, res) => {
-  const { title, description, questions, startDate, endDate, rewardAmount, maxResponses, totalBudget } = req.body;
+  const {
+    title, description, questions, startDate, endDate, rewardAmount, maxResponses, totalBudget, computedVariables,
+    defaultLanguage = 'en', languages = [], translations = null,
+  } = req.body;
   const userId = req.user?.id;
 
   // Log the incoming request (no payloads — question text can carry PII)
@@ -224,7 +397,10 @@ export const uploadSurvey = asyncHandler(async (req, res) => {
   // Validation parity with createSurvey: title/questions presence, dates,
   // canonical question types, conditional-logic references (rules reference the
   // client-supplied per-question `clientId`).
-  const invalid = validateCreationPayload({ title, questions, startDate, endDate, textKey: 'text' });
+  const invalid = validateCreationPayload({
+    title, questions, startDate, endDate, textKey: 'text', computedVariables,
+    localization: { defaultLanguage, languages, description, translations },
+  });
   if (invalid) {
     return res.status(invalid.status).json(invalid.body);
   }
@@ -267,6 +443,9 @@ export const uploadSurvey = asyncHandler(async (req, res) => {
           startDate: new Date(startDate),
           endDate: new Date(endDate),
           totalBudget: parsedBudget,
+          defaultLanguage,
+          languages,
+          translations: languages.length > 0 ? translations : null,
         },
       });
 
@@ -284,6 +463,9 @@ export const uploadSurvey = asyncHandler(async (req, res) => {
             maxValue: q.maxValue || null,
             required: q.required ?? true,
             conditionalLogic: null, // remapped + written in the second pass
+            screener: q.screener ?? null,
+            translations: q.translations ?? null,
+            position: i,
             userId,
             surveyId: newSurvey.id,
           },
@@ -302,6 +484,28 @@ export const uploadSurvey = asyncHandler(async (req, res) => {
         });
       }
 
+      // Computed variables reference questions the same way — remap, then store
+      if (Array.isArray(computedVariables) && computedVariables.length > 0) {
+        await tx.survey.update({
+          where: { id: newSurvey.id },
+          data: { computedVariables: remapComputedVariableIds(computedVariables, idMap) },
+        });
+      }
+
+      // One fill counter per quota — the submit path increments them atomically
+      const quotaCells = buildQuotaCells(
+        newSurvey.id,
+        questions.map((q, i) => ({ id: created[i].id, screener: q.screener }))
+      );
+      if (quotaCells.length > 0) {
+        await tx.surveyQuotaCell.createMany({ data: quotaCells });
+      }
+
+      // Version 1: what the first respondents are asked (rules already remapped)
+      await tx.surveyVersion.create({
+        data: { surveyId: newSurvey.id, version: 1, title, questions: snapshotQuestions(created) },
+      });
+
       return created;
     });
 
@@ -329,7 +533,9 @@ export const getSurveyById = asyncHandler(async (req, res) => {
     const survey = await prisma.survey.findUnique({
       where: { id: surveyId },
       include: {
-        uploads: true,  // Include related questions
+        // Related questions in display (creation) order — skip_to logic jumps
+        // by position, so the respondent and the submit check must agree on it
+        uploads: { orderBy: QUESTION_ORDER },
       },
       // Prisma Accelerate: Cache surveys for 5 min, serve stale for 1 min while revalidating
     });
@@ -350,7 +556,7 @@ export const getSurveyById = asyncHandler(async (req, res) => {
 // Update a Survey
 export const updateSurvey = asyncHandler(async (req, res) => {
   const { surveyId } = req.params;
-  const { title, description, startDate, endDate, questions, rewardAmount, maxResponses } = req.body;
+  const { title, description, startDate, endDate, questions, rewardAmount, maxResponses, defaultLanguage, languages, translations } = req.body;
   const userId = req.user?.id;
 
   console.log('Updating survey:', surveyId);
@@ -359,7 +565,10 @@ export const updateSurvey = asyncHandler(async (req, res) => {
     // Verify ownership before allowing update
     const existingSurvey = await prisma.survey.findUnique({
       where: { id: surveyId },
-      select: { userId: true, startDate: true, endDate: true },
+      select: {
+        userId: true, startDate: true, endDate: true, computedVariables: true,
+        description: true, defaultLanguage: true, languages: true, translations: true,
+      },
     });
 
     if (!existingSurvey) {
@@ -397,20 +606,15 @@ export const updateSurvey = asyncHandler(async (req, res) => {
       }
     }
 
-    // Structural-edit lock: once a survey has responses, answers are keyed by
-    // question id + option TEXT — changing structure silently corrupts every
-    // existing response and the analytics built on them. Metadata edits (title,
-    // description, dates, reward, cap) remain allowed; ending a survey early
-    // via endDate is the supported "close it" path.
-    if (questions && questions.length > 0) {
-      const responseCount = await prisma.surveyResponse.count({ where: { surveyId } });
-      if (responseCount > 0) {
-        return res.status(409).json({
-          code: 'EDIT_LOCKED',
-          message: 'This survey already has responses — its questions can no longer be edited. You can still update the title, description, dates, or end it early.',
-        });
-      }
+    // Full ordered question list after this edit (set when questions change)
+    let merged = null;
+    let hadScreeners = false;
 
+    // Answers are keyed by question id + option TEXT, so a question edit never
+    // rewrites what earlier respondents saw: it publishes the next version
+    // (lib/surveyVersioning.mjs), and every response keeps the version it
+    // answered. Metadata edits (title, dates, reward, cap) don't version.
+    if (questions && questions.length > 0) {
       // Validate conditional logic against the survey's FULL ordered question
       // list (payload edits merged over the persisted questions, new questions
       // appended) — the creation paths validate; the update path must too, or
@@ -418,22 +622,51 @@ export const updateSurvey = asyncHandler(async (req, res) => {
       // operators that the submit-time evaluator then chokes on.
       const existingQuestions = await prisma.uploadSurvey.findMany({
         where: { surveyId },
-        select: { id: true, conditionalLogic: true },
-        orderBy: { createdAt: 'asc' },
+        select: { id: true, text: true, type: true, options: true, required: true, conditionalLogic: true, screener: true, translations: true },
+        orderBy: QUESTION_ORDER,
       });
       const payloadById = new Map(questions.filter((q) => q.id).map((q) => [q.id, q]));
-      const merged = existingQuestions.map((e) => {
+      const fromPayload = (id, q) => ({
+        id,
+        text: q.text,
+        type: q.normalizedType,
+        options: q.options,
+        required: q.required ?? true,
+        conditionalLogic: q.conditionalLogic ?? null,
+        screener: q.screener ?? null,
+        translations: q.translations ?? null,
+      });
+      merged = existingQuestions.map((e) => {
         const incoming = payloadById.get(e.id);
-        return incoming
-          ? { id: e.id, conditionalLogic: incoming.conditionalLogic ?? null }
-          : e;
+        return incoming ? fromPayload(e.id, incoming) : e;
       });
       for (const q of questions) {
-        if (!q.id) merged.push({ id: `__new_${merged.length}`, conditionalLogic: q.conditionalLogic ?? null });
+        if (!q.id) merged.push({ ...fromPayload(`__new_${merged.length}`, q), incoming: q });
       }
-      const logicErrors = validateConditionalLogic(merged);
-      if (logicErrors.length > 0) {
-        return res.status(400).json({ message: 'Invalid conditional logic', errors: logicErrors });
+      hadScreeners = existingQuestions.some((e) => e.screener != null);
+      const invalid = validateQuestionList(merged, existingSurvey.computedVariables);
+      if (invalid) {
+        return res.status(invalid.status).json(invalid.body);
+      }
+    }
+
+    // Translations are checked against what the survey will look like after
+    // this edit — a new language needs every question, a new question every language
+    const localization = {
+      defaultLanguage: defaultLanguage ?? existingSurvey.defaultLanguage ?? 'en',
+      languages: languages ?? existingSurvey.languages ?? [],
+      description: description !== undefined ? description : existingSurvey.description,
+      translations: translations !== undefined ? translations : existingSurvey.translations,
+    };
+    if (merged || localization.languages.length > 0) {
+      const translatedQuestions = merged ?? await prisma.uploadSurvey.findMany({
+        where: { surveyId },
+        select: { type: true, options: true, translations: true },
+        orderBy: QUESTION_ORDER,
+      });
+      const translationErrors = validateTranslations({ ...localization, questions: translatedQuestions });
+      if (translationErrors.length > 0) {
+        return res.status(400).json({ message: 'Invalid translations', errors: translationErrors });
       }
     }
 
@@ -445,12 +678,18 @@ export const updateSurvey = asyncHandler(async (req, res) => {
     if (endDate !== undefined) updateData.endDate = new Date(endDate);
     if (rewardAmount !== undefined) updateData.rewardAmount = rewardAmount;
     if (maxResponses !== undefined) updateData.maxResponses = maxResponses;
+    if (defaultLanguage !== undefined) updateData.defaultLanguage = defaultLanguage;
+    if (languages !== undefined) updateData.languages = languages;
+    if (translations !== undefined) updateData.translations = translations;
 
     // Survey metadata + question writes are atomic. Question updates are scoped
     // to THIS survey via updateMany({ id, surveyId }) — the previous unscoped
     // update({ where: { id: q.id } }) let a caller pass question ids belonging
     // to OTHER surveys and tamper with them (IDOR).
     const updatedSurvey = await prisma.$transaction(async (tx) => {
+      // Before any write — the base snapshot must hold the survey as it was
+      if (questions && questions.length > 0) await ensureBaseVersion(tx, surveyId);
+
       const updated = await tx.survey.update({
         where: { id: surveyId },
         data: updateData,
@@ -468,6 +707,8 @@ export const updateSurvey = asyncHandler(async (req, res) => {
             maxValue: q.maxValue || null,
             required: q.required ?? true,
             conditionalLogic: q.conditionalLogic ?? null,
+            screener: q.screener ?? null,
+            translations: q.translations ?? null,
           };
           if (q.id) {
             const result = await tx.uploadSurvey.updateMany({
@@ -476,9 +717,15 @@ export const updateSurvey = asyncHandler(async (req, res) => {
             });
             if (result.count === 0) unknownIds.push(q.id);
           } else {
-            await tx.uploadSurvey.create({
-              data: { ...data, userId: updated.userId, surveyId: updated.id },
+            const row = await tx.uploadSurvey.create({
+              data: {
+                ...data,
+                position: merged.findIndex((m) => m.incoming === q),
+                userId: updated.userId,
+                surveyId: updated.id,
+              },
             });
+            q.createdId = row.id;
           }
         }
         if (unknownIds.length > 0) {
@@ -486,6 +733,16 @@ export const updateSurvey = asyncHandler(async (req, res) => {
           err.unknownQuestionIds = unknownIds;
           throw err; // rolls back the whole update
         }
+
+        if (hadScreeners || merged.some((m) => m.screener != null)) {
+          await syncQuotaCells(
+            tx,
+            surveyId,
+            merged.map((m) => ({ id: m.incoming?.createdId ?? m.id, screener: m.screener }))
+          );
+        }
+
+        return { ...updated, currentVersion: await publishNextVersion(tx, surveyId) };
       }
 
       return updated;
@@ -501,11 +758,151 @@ export const updateSurvey = asyncHandler(async (req, res) => {
         ids: error.unknownQuestionIds,
       });
     }
+    // Unique (surveyId, version): another edit published the same version first
+    if (error?.code === 'P2002') {
+      return res.status(409).json({
+        code: 'VERSION_CONFLICT',
+        message: 'The survey was changed by another edit. Reload it and try again.',
+      });
+    }
     console.error('Error updating survey:', error);
     res.status(500).json({ message: 'Error updating survey' });
   }
 });
 
+// Version history (owner only): every published snapshot, newest first, with
+// the number of responses each one collected
+export const getSurveyVersions = asyncHandler(async (req, res) => {
+  const { surveyId } = req.params;
+  const userId = req.user?.id;
+
+  const survey = await prisma.survey.findUnique({
+    where: { id: surveyId },
+    select: { userId: true, title: true, currentVersion: true, createdAt: true, uploads: { orderBy: QUESTION_ORDER } },
+  });
+  if (!survey) {
+    return res.status(404).json({ success: false, message: 'Survey not found' });
+  }
+  if (survey.userId !== userId) {
+    return res.status(403).json({ success: false, message: 'Access denied. You do not own this survey.' });
+  }
+
+  const [stored, groups] = await Promise.all([
+    prisma.surveyVersion.findMany({ where: { surveyId }, orderBy: { version: 'desc' } }),
+    prisma.surveyResponse.groupBy({ by: ['surveyVersion'], where: { surveyId }, _count: { _all: true } }),
+  ]);
+  // Not edited since versioning shipped — the live questions are its only version
+  const versions = stored.length > 0
+    ? stored
+    : [{
+        version: survey.currentVersion ?? 1,
+        title: survey.title,
+        questions: snapshotQuestions(survey.uploads),
+        restoredFrom: null,
+        createdAt: survey.createdAt,
+      }];
+  const counts = countResponsesByVersion(groups);
+
+  res.json({
+    success: true,
+    data: {
+      currentVersion: survey.currentVersion ?? 1,
+      versions: versions.map((v) => ({
+        version: v.version,
+        title: v.title,
+        questions: v.questions,
+        restoredFrom: v.restoredFrom,
+        createdAt: v.createdAt,
+        responseCount: counts.get(v.version) ?? 0,
+      })),
+    },
+  });
+});
+
+// Roll back to an earlier version (owner only). Its snapshot is republished as
+// the next version — history is never rewritten, so responses to the versions
+// in between keep the questions they answered.
+export const rollbackSurveyVersion = asyncHandler(async (req, res) => {
+  const { surveyId } = req.params;
+  const version = Number(req.params.version);
+  const userId = req.user?.id;
+
+  const survey = await prisma.survey.findUnique({
+    where: { id: surveyId },
+    select: {
+      userId: true, currentVersion: true, computedVariables: true,
+      description: true, defaultLanguage: true, languages: true, translations: true,
+    },
+  });
+  if (!survey) {
+    return res.status(404).json({ success: false, message: 'Survey not found' });
+  }
+  if (survey.userId !== userId) {
+    return res.status(403).json({ success: false, message: 'Access denied. You do not own this survey.' });
+  }
+  if (!Number.isInteger(version) || version < 1) {
+    return res.status(400).json({ success: false, message: 'Invalid version' });
+  }
+  if (version === (survey.currentVersion ?? 1)) {
+    return res.status(400).json({ success: false, code: 'ALREADY_CURRENT', message: `Version ${version} is already live.` });
+  }
+
+  const target = await prisma.surveyVersion.findUnique({ where: { surveyId_version: { surveyId, version } } });
+  if (!target) {
+    return res.status(404).json({ success: false, message: 'Version not found' });
+  }
+  const questions = target.questions;
+
+  // Valid when it was published, but the survey may have moved on since (new
+  // languages, computed variables) — recheck against the survey as it is now
+  const invalid = validateQuestionList(questions, survey.computedVariables);
+  if (invalid) {
+    return res.status(invalid.status).json({ success: false, ...invalid.body });
+  }
+  const translationErrors = validateTranslations({
+    defaultLanguage: survey.defaultLanguage ?? 'en',
+    languages: survey.languages ?? [],
+    description: survey.description,
+    translations: survey.translations,
+    questions,
+  });
+  if (translationErrors.length > 0) {
+    return res.status(400).json({ success: false, message: 'Invalid translations', errors: translationErrors });
+  }
+
+  try {
+    const currentVersion = await prisma.$transaction(async (tx) => {
+      await ensureBaseVersion(tx, surveyId);
+      await tx.uploadSurvey.deleteMany({ where: { surveyId, id: { notIn: questions.map((q) => q.id) } } });
+      for (const [position, q] of questions.entries()) {
+        const data = questionRowData(q, position);
+        // A question removed since comes back under its old id, so the
+        // answers and rules that reference it line up again
+        await tx.uploadSurvey.upsert({
+          where: { id: q.id },
+          update: data,
+          create: { ...data, id: q.id, userId, surveyId },
+        });
+      }
+      await syncQuotaCells(tx, surveyId, questions);
+      return publishNextVersion(tx, surveyId, version);
+    });
+
+    console.log(`Survey ${surveyId} rolled back to version ${version} as version ${currentVersion}`);
+    res.json({ success: true, data: { currentVersion, restoredFrom: version } });
+  } catch (error) {
+    if (error?.code === 'P2002') {
+      return res.status(409).json({
+        success: false,
+        code: 'VERSION_CONFLICT',
+        message: 'The survey was changed by another edit. Reload it and try again.',
+      });
+    }
+    console.error('Error rolling back survey:', error);
+    res.status(500).json({ success: false, message: 'Error rolling back survey' });
+  }
+});
+
 // Delete a Survey
 export const deleteSurvey = asyncHandler(async (req, res) => {
   const { surveyId } = req.params;
@@ -625,8 +1022,10 @@ export const checkSurveyAttempt = asyncHandler(async (req, res) => {
 
 export const submitSurveyResponse = asyncHandler(async (req, res) => {
   const { surveyId } = req.params;
-  const { responses, answers } = req.body;
+  const { responses, answers, startedAt, language, surveyVersion } = req.body;
   const userId = req.user?.id;
+  // Client-generated per attempt; the offline queue replays with the same key
+  const idempotencyKey = parseIdempotencyKey(req.headers?.['x-idempotency-key'] || req.body.idempotencyKey);
 
   // Accept either "responses" or "answers" key for backward compatibility
   const responseData = responses || answers;
@@ -651,10 +1050,29 @@ export const submitSurveyResponse = asyncHandler(async (req, res) => {
   }
 
   try {
-    // Verify survey exists and is still active
+    // Replay of a submission that already landed (offline queue, or a retry
+    // whose response was lost): answer with the original outcome. Checked
+    // before the date window — the survey may have closed since.
+    if (idempotencyKey) {
+      const replayed = await prisma.surveyResponse.findUnique({ where: { idempotencyKey } });
+      if (replayed) {
+        if (replayed.userId !== userId || replayed.surveyId !== surveyId) {
+          return res.status(409).json({
+            success: false,
+            submitted: false,
+            code: 'IDEMPOTENCY_MISMATCH',
+            message: 'This submission key was already used for a different survey response.',
+          });
+        }
+        return replaySubmission(res, replayed);
+      }
+    }
+
+    // Verify survey exists and is still active (questions in display order for
+    // the skip-logic path check below)
     const survey = await prisma.survey.findUnique({
       where: { id: surveyId },
-      include: { uploads: true },
+      include: { uploads: { orderBy: QUESTION_ORDER } },
     });
 
     if (!survey) {
@@ -690,6 +1108,12 @@ export const submitSurveyResponse = asyncHandler(async (req, res) => {
       },
     });
 
+    // A racing copy of this same submission landed between the replay check
+    // and here — it's the original outcome, not a second attempt
+    if (existingResponse && idempotencyKey && existingResponse.idempotencyKey === idempotencyKey) {
+      return replaySubmission(res, existingResponse);
+    }
+
     if (existingResponse) {
       console.log('User has already attempted this survey:', existingResponse.id);
       return res.status(409).json({
@@ -701,46 +1125,15 @@ export const submitSurveyResponse = asyncHandler(async (req, res) => {
       });
     }
 
-    // Validate that all required AND visible questions have answers.
-    // Questions hidden by conditional logic are excluded from required validation.
+    // Validate that all required questions ON THE RESPONDENT'S PATH have
+    // answers. Questions hidden by show rules or jumped over by skip_to rules
+    // are excluded from required validation.
     const allQuestions = survey.uploads || [];
-    const requiredQuestions = allQuestions.filter(q => q.required === true);
     const answeredIds = Object.keys(responseData);
+    const pathQuestions = resolveSurveyPath(allQuestions, responseData);
 
-    // Helper: evaluate if a question is visible given current answers and conditional logic
-    const isQuestionVisible = (question) => {
-      const logic = question.conditionalLogic;
-      if (!logic || !logic.rules || logic.rules.length === 0) return true;
-
-      const evaluateRule = (rule) => {
-        const answer = responseData[rule.sourceQuestionId];
-        switch (rule.operator) {
-          case 'is_empty':
-            return answer == null || answer === '' || (Array.isArray(answer) && answer.length === 0);
-          case 'is_not_empty':
-            return answer != null && answer !== '' && !(Array.isArray(answer) && answer.length === 0);
-          case 'equals':
-            return Array.isArray(answer) ? answer.includes(String(rule.value)) : String(answer) === String(rule.value);
-          case 'not_equals':
-            return Array.isArray(answer) ? !answer.includes(String(rule.value)) : String(answer) !== String(rule.value);
-          case 'contains':
-            return String(answer ?? '').toLowerCase().includes(String(rule.value).toLowerCase());
-          case 'greater_than':
-            return !isNaN(Number(answer)) && !isNaN(Number(rule.value)) && Number(answer) > Number(rule.value);
-          case 'less_than':
-            return !isNaN(Number(answer)) && !isNaN(Number(rule.value)) && Number(answer) < Number(rule.value);
-          default:
-            return true;
-        }
-      };
-
-      return logic.logicType === 'all'
-        ? logic.rules.every(evaluateRule)
-        : logic.rules.some(evaluateRule);
-    };
-
-    const missingRequired = requiredQuestions
-      .filter(q => isQuestionVisible(q)) // Only check visible (non-hidden) questions
+    const missingRequired = pathQuestions
+      .filter(q => q.required === true)
       .filter(q => !answeredIds.includes(q.id) || responseData[q.id] === '' || responseData[q.id] === null || responseData[q.id] === undefined)
       .map(q => q.id);
 
@@ -753,6 +1146,35 @@ export const submitSurveyResponse = asyncHandler(async (req, res) => {
       });
     }
 
+    // Structured answers (NPS, matrix, ranking) must match their question —
+    // analytics and exports read them positionally.
+    const malformed = pathQuestions
+      .filter(q => responseData[q.id] != null && responseData[q.id] !== '')
+      .filter(q => !isAnswerShapeValid(q, responseData[q.id]))
+      .map(q => q.id);
+
+    if (malformed.length > 0) {
+      return res.status(400).json({
+        success: false,
+        submitted: false,
+        message: `${malformed.length} answer(s) don't match their question type.`,
+        invalidQuestionIds: malformed,
+      });
+    }
+
+    // Screeners: a non-qualifying answer ends the attempt before the paid
+    // section — no response row, no points.
+    const screenedOutBy = findScreenedOutQuestion(pathQuestions, responseData);
+    if (screenedOutBy) {
+      return res.status(403).json({
+        success: false,
+        submitted: false,
+        code: 'SCREENED_OUT',
+        message: "Thanks for your interest — you don't match the audience this survey is looking for.",
+        questionId: screenedOutBy.id,
+      });
+    }
+
     // Award fixed points from global config (computed before the transaction)
     const rewardConfig = await getRewardConfig();
     const pointsAwarded = rewardConfig.surveyCompletionPoints;
@@ -781,12 +1203,30 @@ export const submitSurveyResponse = asyncHandler(async (req, res) => {
         throw full;
       }
 
+      // Per-answer quotas: the same conditional increment, one per matched cell
+      for (const quota of matchQuotas(pathQuestions, responseData)) {
+        const cell = await tx.surveyQuotaCell.updateMany({
+          where: { surveyId, questionId: quota.questionId, answer: quota.answer, filled: { lt: quota.limit } },
+          data: { filled: { increment: 1 } },
+        });
+        if (cell.count === 0) {
+          const over = new Error('Quota is full');
+          over.overQuota = { questionId: quota.questionId, answer: quota.answer };
+          throw over;
+        }
+      }
+
       const created = await tx.surveyResponse.create({
         data: {
           userId,
           surveyId,
           responses: JSON.stringify(responseData),
-          completedAt: new Date(),
+          startedAt: parseAttemptStartedAt(startedAt, now),
+          completedAt: now,
+          idempotencyKey,
+          pointsAwarded,
+          language: resolveResponseLanguage(survey, language),
+          surveyVersion: resolveResponseVersion(survey, surveyVersion),
         },
       });
 
@@ -858,8 +1298,26 @@ export const submitSurveyResponse = asyncHandler(async (req, res) => {
         message: 'This survey has reached its maximum number of responses and is no longer accepting submissions.',
       });
     }
-    // Handle duplicate submission (race condition hitting DB unique constraint)
+    // The respondent's segment filled up (atomic quota guard rejected the increment)
+    if (error?.overQuota) {
+      return res.status(410).json({
+        success: false,
+        submitted: false,
+        code: 'OVER_QUOTA',
+        message: 'Thanks for your interest — this survey already has enough responses from people like you.',
+        questionId: error.overQuota.questionId,
+      });
+    }
+    // Handle duplicate submission (race condition hitting DB unique constraint).
+    // When the winner was this same submission (same idempotency key), answer
+    // with its outcome — the offline queue must not see "already completed".
     if (error.code === 'P2002') {
+      if (idempotencyKey) {
+        const winner = await prisma.surveyResponse.findUnique({ where: { idempotencyKey } });
+        if (winner && winner.userId === userId && winner.surveyId === surveyId) {
+          return replaySubmission(res, winner);
+        }
+      }
       return res.status(409).json({
         success: false,
         submitted: false,
@@ -876,6 +1334,41 @@ export const submitSurveyResponse = asyncHandler(async (req, res) => {
   }
 });
 
+// Get Survey Quota Fill — respondents use it to stop at a full screener
+// answer before the paid section; the owner's analytics draws fill bars
+export const getSurveyQuotas = asyncHandler(async (req, res) => {
+  const { surveyId } = req.params;
+
+  const survey = await prisma.survey.findUnique({
+    where: { id: surveyId },
+    select: {
+      uploads: { select: { id: true, text: true, screener: true }, orderBy: QUESTION_ORDER },
+      quotaCells: { select: { questionId: true, answer: true, filled: true } },
+    },
+  });
+
+  if (!survey) {
+    return res.status(404).json({ success: false, message: 'Survey not found' });
+  }
+
+  const filledByCell = new Map(survey.quotaCells.map((c) => [`${c.questionId}:${c.answer}`, c.filled]));
+  const quotas = survey.uploads.flatMap((q) =>
+    (q.screener?.quotas ?? []).map((quota) => {
+      const filled = filledByCell.get(`${q.id}:${quota.answer}`) ?? 0;
+      return {
+        questionId: q.id,
+        questionText: q.text,
+        answer: quota.answer,
+        limit: quota.limit,
+        filled,
+        full: filled >= quota.limit,
+      };
+    })
+  );
+
+  res.json({ success: true, data: { quotas } });
+});
+
 // Get Survey Responses (with pagination, owner/admin only)
 export const getSurveyResponses = asyncHandler(async (req, res) => {
   const { surveyId } = req.params;
@@ -1134,17 +1627,19 @@ export const getSurveyAnalytics = asyncHandler(async (req, res) => {
       ? Math.min((totalResponses / survey.maxResponses) * 100, 100)
       : 100;
 
-    // Real average completion time from completedAt field (sample last 100)
+    // Real average completion time — open to submit — from responses whose
+    // client reported a start (sample last 100). createdAt is stamped with
+    // completedAt in the same request, so it can't measure the attempt.
     const timedResponses = await prisma.surveyResponse.findMany({
-      where: { surveyId, completedAt: { not: null } },
-      select: { createdAt: true, completedAt: true },
+      where: { surveyId, startedAt: { not: null }, completedAt: { not: null } },
+      select: { startedAt: true, completedAt: true },
       take: 100,
       orderBy: { createdAt: 'desc' },
     });
     const avgTime = timedResponses.length > 0
       ? Math.round(
           timedResponses.reduce((sum, r) =>
-            sum + (new Date(r.completedAt).getTime() - new Date(r.createdAt).getTime()) / 1000, 0
+            sum + (new Date(r.completedAt).getTime() - new Date(r.startedAt).getTime()) / 1000, 0
           ) / timedResponses.length
         )
       : 0;
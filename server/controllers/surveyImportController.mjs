@@ -59,6 +59,35 @@ const FIELD_ALIASES = {
   ],
 };
 
+// Translation columns: text_lg, options_sw, "Placeholder (Luganda)" … Only the
+// survey languages are recognised, so headers like question_id never match.
+const TRANSLATION_LANGUAGES = {
+  lg: ['lg', 'luganda'],
+  sw: ['sw', 'swahili', 'kiswahili'],
+};
+const TRANSLATABLE_FIELD_ALIASES = {
+  text: ['text', 'question', 'question_text', 'label'],
+  options: ['options', 'choices', 'answers'],
+  placeholder: ['placeholder', 'hint'],
+};
+
+function matchTranslationHeader(normalizedHeader) {
+  const parts = normalizedHeader.split(/[\s_]+/);
+  if (parts.length < 2) return null;
+  const suffix = parts[parts.length - 1];
+  const base = parts.slice(0, -1).join('_');
+  const language = Object.keys(TRANSLATION_LANGUAGES).find((code) => TRANSLATION_LANGUAGES[code].includes(suffix));
+  if (!language) return null;
+  const field = Object.keys(TRANSLATABLE_FIELD_ALIASES).find((f) => TRANSLATABLE_FIELD_ALIASES[f].includes(base));
+  return field ? { field: `${field}_${language}`, confidence: 1.0 } : null;
+}
+
+/** 'options_sw' → { field: 'options', language: 'sw' }; null for untranslated fields */
+function parseTranslationField(targetField) {
+  const match = /^(text|options|placeholder)_([a-z]{2,3})$/.exec(targetField ?? '');
+  return match ? { field: match[1], language: match[2] } : null;
+}
+
 function levenshtein(a, b) {
   const m = a.length;
   const n = b.length;
@@ -89,6 +118,9 @@ function normalize(header) {
 }
 
 function matchHeader(normalizedHeader) {
+  const translation = matchTranslationHeader(normalizedHeader);
+  if (translation) return translation;
+
   let bestMatch = null;
 
   for (const [field, aliases] of Object.entries(FIELD_ALIASES)) {
@@ -175,6 +207,33 @@ function normalizeLineEndings(content) {
 // previous hand-rolled line parser + delimiter detector broke on quoted cells
 // that spanned lines (it split on \n first).
 
+/** Options cell: a JSON array or a `|`-separated list */
+function splitOptionsCell(cell) {
+  const optVal = cell.replace(/^["']|["']$/g, '');
+  if (optVal.startsWith('[')) {
+    try { return JSON.parse(optVal); } catch { return optVal.split('|').filter(Boolean); }
+  }
+  return optVal.split('|').map((o) => o.trim()).filter(Boolean);
+}
+
+/**
+ * JSON `translations` per question: { [lang]: { text, options?, placeholder? } }.
+ * Keeps well-formed language entries and coerces labels to strings.
+ */
+function sanitizeTranslations(raw) {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return undefined;
+  const result = {};
+  for (const [language, entry] of Object.entries(raw)) {
+    if (!/^[a-z]{2,3}$/.test(language) || !entry || typeof entry !== 'object') continue;
+    result[language] = {
+      text: entry.text ? String(entry.text).slice(0, MAX_QUESTION_TEXT_LENGTH) : '',
+      ...(Array.isArray(entry.options) ? { options: entry.options.slice(0, MAX_OPTIONS_PER_QUESTION).map(String) } : {}),
+      ...(entry.placeholder ? { placeholder: String(entry.placeholder) } : {}),
+    };
+  }
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
 function detectFormatFromFilename(filename) {
   const ext = (filename || '').toLowerCase().split('.').pop();
   switch (ext) {
@@ -227,7 +286,8 @@ function parseJSONFile(content) {
     }
 
     // Normalize legacy aliases (multiple_choice→radio, textarea→paragraph,
-    // nps/slider→rating) to the renderer vocabulary, matching the creation path.
+    // slider→rating, likert→matrix) to the renderer vocabulary, matching the
+    // creation path.
     const normalizedType = normalizeQuestionType(q.type);
     if (!normalizedType) {
       warnings.push(`Question ${index + 1}: Invalid type "${q.type}", defaulting to "text"`);
@@ -274,12 +334,19 @@ function parseJSONFile(content) {
       minValue: typeof q.minValue === 'number' ? q.minValue : undefined,
       maxValue: typeof q.maxValue === 'number' ? q.maxValue : undefined,
       points: typeof q.points === 'number' ? q.points : undefined,
+      translations: sanitizeTranslations(q.translations),
     });
   });
 
+  // Offered languages: the top-level list, else every language a question is translated into
+  const languages = Array.isArray(parsed.languages)
+    ? parsed.languages.map(String).filter((l) => /^[a-z]{2,3}$/.test(l))
+    : [...new Set(questions.flatMap((q) => Object.keys(q.translations ?? {})))];
+
   return {
     title: parsed.title ? String(parsed.title) : undefined,
     description: parsed.description ? String(parsed.description) : undefined,
+    ...(languages.length > 0 ? { languages } : {}),
     questions,
     warnings,
     errors,
@@ -329,6 +396,10 @@ function parseSpreadsheetFile(content) {
   const maxValueIndex = fieldIndex('maxValue');
   const placeholderIndex = fieldIndex('placeholder');
   const pointsIndex = fieldIndex('points');
+  const translationColumns = columnMappings
+    .map((m) => ({ headerIndex: m.headerIndex, ...parseTranslationField(m.targetField) }))
+    .filter((c) => c.language);
+  const languages = [...new Set(translationColumns.map((c) => c.language))];
 
   if (textIndex === -1) {
     errors.push('Missing required column: "text" or "question". No column could be auto-mapped to the question text field.');
@@ -373,12 +444,7 @@ function parseSpreadsheetFile(content) {
 
     let options = [];
     if (optionsIndex !== -1 && values[optionsIndex]) {
-      const optVal = values[optionsIndex].replace(/^["']|["']$/g, '');
-      if (optVal.startsWith('[')) {
-        try { options = JSON.parse(optVal); } catch { options = optVal.split('|').filter(Boolean); }
-      } else {
-        options = optVal.split('|').map((o) => o.trim()).filter(Boolean);
-      }
+      options = splitOptionsCell(values[optionsIndex]);
     }
 
     // Validate options count
@@ -407,6 +473,7 @@ function parseSpreadsheetFile(content) {
       maxValue: maxValueIndex !== -1 && values[maxValueIndex] ? Number(values[maxValueIndex]) : undefined,
       placeholder: placeholderIndex !== -1 ? values[placeholderIndex]?.replace(/^["']|["']$/g, '') : undefined,
       points: pointsIndex !== -1 && values[pointsIndex] ? Number(values[pointsIndex]) || 0 : undefined,
+      translations: readRowTranslations(values, translationColumns),
     });
   }
 
@@ -414,7 +481,20 @@ function parseSpreadsheetFile(content) {
     warnings.push(`${invalidRows.length} row(s) skipped due to validation errors`);
   }
 
-  return { questions, warnings, errors, invalidRows, columnMappings };
+  return { ...(languages.length > 0 ? { languages } : {}), questions, warnings, errors, invalidRows, columnMappings };
+}
+
+/** One row's translation cells as { [lang]: { text, options?, placeholder? } } */
+function readRowTranslations(values, translationColumns) {
+  const result = {};
+  for (const { headerIndex, field, language } of translationColumns) {
+    const cell = values[headerIndex]?.replace(/^["']|["']$/g, '').trim();
+    if (!cell) continue;
+    result[language] ??= { text: '' };
+    if (field === 'options') result[language].options = splitOptionsCell(cell).map(String);
+    else result[language][field] = field === 'text' ? cell.slice(0, MAX_QUESTION_TEXT_LENGTH) : cell;
+  }
+  return Object.keys(result).length > 0 ? result : undefined;
 }
 
 // ============================================================================
@@ -0,0 +1,178 @@
+/**
+ * Creator analytics — per-video and per-channel dashboards (lib/videoAnalytics.mjs).
+ *
+ * GET /api/videos/:id/analytics?range=      one of the caller's videos, against their median video
+ * GET /api/videos/analytics/channel?range=  all of the caller's videos: totals, follower growth,
+ *                                           traffic sources, top videos and top comments
+ *
+ * `range` is 7d, 28d (default) or 90d. Only the creator sees a video's
+ * analytics; anyone else gets 403.
+ */
+
+import asyncHandler from 'express-async-handler';
+import prisma from '../lib/prisma.mjs';
+import {
+  ANALYTICS_LIMITS,
+  ANALYTICS_RANGES,
+  benchmarkFrom,
+  countsFor,
+  dailyCounts,
+  eventCountsByVideo,
+  parseAnalyticsRange,
+  sumCounts,
+  topComments,
+  trafficSourcesFrom,
+  videoMetrics,
+} from '../lib/videoAnalytics.mjs';
+import { signVideoUrls } from './videoController.mjs';
+
+const commentUser = { select: { id: true, firstName: true, lastName: true, avatar: true } };
+
+const videoSelect = {
+  id: true,
+  userId: true,
+  title: true,
+  thumbnail: true,
+  videoUrl: true,
+  r2ThumbnailKey: true,
+  r2VideoKey: true,
+  duration: true,
+  views: true,
+  likes: true,
+  commentsCount: true,
+  createdAt: true,
+};
+
+const rangeError = `range must be one of ${Object.keys(ANALYTICS_RANGES).join(', ')}`;
+
+/** Event counts for every one of `userId`'s videos since `since` */
+async function creatorEventCounts(userId, since) {
+  const groups = await prisma.videoEvent.groupBy({
+    by: ['videoId', 'eventType'],
+    where: { createdAt: { gte: since }, video: { userId } },
+    _count: { _all: true },
+    _sum: { watchMs: true },
+  });
+  return eventCountsByVideo(groups);
+}
+
+function trafficSourcesWhere(since, videoWhere) {
+  return { eventType: 'impression', createdAt: { gte: since }, ...videoWhere };
+}
+
+async function formatAnalyticsVideo(video) {
+  const { thumbnail } = await signVideoUrls(video);
+  return {
+    id: video.id,
+    title: video.title,
+    thumbnail,
+    duration: video.duration,
+    createdAt: video.createdAt.toISOString(),
+  };
+}
+
+export const getVideoAnalytics = asyncHandler(async (req, res) => {
+  const range = parseAnalyticsRange(req.query);
+  if (!range) {
+    return res.status(400).json({ success: false, message: rangeError });
+  }
+
+  const video = await prisma.video.findUnique({ where: { id: req.params.id }, select: videoSelect });
+  if (!video) {
+    return res.status(404).json({ success: false, message: 'Video not found' });
+  }
+  if (video.userId !== req.user.id) {
+    return res.status(403).json({ success: false, message: 'Only the creator can see analytics for this video' });
+  }
+
+  const [byVideo, creatorVideos, sourceGroups, comments] = await Promise.all([
+    creatorEventCounts(video.userId, range.since),
+    prisma.video.findMany({ where: { userId: video.userId }, select: { id: true, duration: true } }),
+    prisma.videoEvent.groupBy({
+      by: ['source'],
+      where: trafficSourcesWhere(range.since, { videoId: video.id }),
+      _count: { _all: true },
+    }),
+    prisma.comment.findMany({
+      where: { videoId: video.id, depth: 0, status: 'visible', createdAt: { gte: range.since } },
+      include: { user: commentUser },
+      orderBy: { createdAt: 'desc' },
+      take: ANALYTICS_LIMITS.COMMENT_CANDIDATES,
+    }),
+  ]);
+
+  res.json({
+    success: true,
+    data: {
+      range: range.range,
+      since: range.since.toISOString(),
+      video: {
+        ...(await formatAnalyticsVideo(video)),
+        lifetimeViews: video.views,
+        likes: video.likes,
+        comments: video.commentsCount,
+      },
+      metrics: videoMetrics(countsFor(byVideo, video.id), video.duration),
+      benchmark: benchmarkFrom(creatorVideos.map((v) => videoMetrics(countsFor(byVideo, v.id), v.duration))),
+      trafficSources: trafficSourcesFrom(sourceGroups),
+      topComments: topComments(comments),
+    },
+  });
+});
+
+export const getChannelAnalytics = asyncHandler(async (req, res) => {
+  const range = parseAnalyticsRange(req.query);
+  if (!range) {
+    return res.status(400).json({ success: false, message: rangeError });
+  }
+
+  const userId = req.user.id;
+  const [byVideo, videos, sourceGroups, follows, followers, comments] = await Promise.all([
+    creatorEventCounts(userId, range.since),
+    prisma.video.findMany({ where: { userId }, select: videoSelect }),
+    prisma.videoEvent.groupBy({
+      by: ['source'],
+      where: trafficSourcesWhere(range.since, { video: { userId } }),
+      _count: { _all: true },
+    }),
+    prisma.creatorFollow.findMany({
+      where: { followingId: userId, createdAt: { gte: range.since } },
+      select: { createdAt: true },
+    }),
+    prisma.creatorFollow.count({ where: { followingId: userId } }),
+    prisma.comment.findMany({
+      where: { video: { userId }, depth: 0, status: 'visible', createdAt: { gte: range.since } },
+      include: { user: commentUser },
+      orderBy: { createdAt: 'desc' },
+      take: ANALYTICS_LIMITS.COMMENT_CANDIDATES,
+    }),
+  ]);
+
+  const perVideo = videos.map((video) => ({ video, metrics: videoMetrics(countsFor(byVideo, video.id), video.duration) }));
+  const top = perVideo
+    .filter(({ metrics }) => metrics.views > 0)
+    .sort((a, b) => b.metrics.views - a.metrics.views)
+    .slice(0, ANALYTICS_LIMITS.TOP_VIDEOS);
+
+  res.json({
+    success: true,
+    data: {
+      range: range.range,
+      since: range.since.toISOString(),
+      videoCount: videos.length,
+      totals: videoMetrics(sumCounts(videos.map((v) => countsFor(byVideo, v.id)))),
+      benchmark: benchmarkFrom(perVideo.map(({ metrics }) => metrics)),
+      followers: {
+        total: followers,
+        gained: follows.length,
+        daily: dailyCounts(follows.map((f) => f.createdAt), range.since),
+      },
+      trafficSources: trafficSourcesFrom(sourceGroups),
+      topVideos: await Promise.all(top.map(async ({ video, metrics }) => ({
+        video: await formatAnalyticsVideo(video),
+        metrics,
+      }))),
+      topComments: topComments(comments),
+    },
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Video caption tracks (lib/captions.mjs).
+ *
+ * GET    /api/videos/:id/captions                 ready tracks with cues (the owner also sees pending/failed)
+ * GET    /api/videos/:id/captions/:language.vtt   one ready track as a WebVTT file
+ * POST   /api/videos/:id/captions                 attach a WebVTT/SRT file (owner) — multipart `file`
+ * POST   /api/videos/:id/captions/auto            queue an auto-generated track (owner)
+ * PUT    /api/videos/:id/captions/:language       replace a track's cues from the editor (owner)
+ * DELETE /api/videos/:id/captions/:language       remove a track (owner)
+ *
+ * "Owner" is loadOwnedVideo's rule: the uploader, or an ADMIN/MODERATOR.
+ * Every write re-syncs Video.captionLanguages so feeds know which videos have
+ * captions without loading any cues.
+ */
+
+import asyncHandler from 'express-async-handler';
+import prisma from '../lib/prisma.mjs';
+import {
+  CAPTION_LANGUAGE_PATTERN,
+  CAPTION_SOURCE,
+  CAPTION_STATUS,
+  captionLabel,
+  parseCaptionFile,
+  parseStoredCues,
+  syncCaptionLanguages,
+  toWebVTT,
+  validateCues,
+} from '../lib/captions.mjs';
+import { resolveTranscriptionProvider } from '../lib/transcription.mjs';
+import { loadOwnedVideo } from './videoController.mjs';
+
+function formatCaption(track) {
+  return {
+    id: track.id,
+    videoId: track.videoId,
+    language: track.language,
+    label: track.label,
+    source: track.source,
+    status: track.status,
+    cues: parseStoredCues(track.cues),
+    updatedAt: track.updatedAt.toISOString(),
+  };
+}
+
+const languageOf = (value) => {
+  const language = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  return CAPTION_LANGUAGE_PATTERN.test(language) ? language : null;
+};
+
+const invalidLanguage = (res) =>
+  res.status(400).json({ success: false, code: 'INVALID_LANGUAGE', message: 'Pick a caption language (a 2–3 letter code such as "en").' });
+
+export const listVideoCaptions = asyncHandler(async (req, res) => {
+  try {
+    const video = await prisma.video.findUnique({ where: { id: req.params.id }, select: { id: true, userId: true } });
+    if (!video) {
+      return res.status(404).json({ success: false, message: 'Video not found' });
+    }
+
+    // The uploader follows pending auto tracks in the editor; viewers only get ready ones
+    const isOwner = Boolean(req.user?.id) && req.user.id === video.userId;
+    const tracks = await prisma.videoCaption.findMany({
+      where: { videoId: video.id, ...(isOwner ? {} : { status: CAPTION_STATUS.READY }) },
+      orderBy: { language: 'asc' },
+    });
+
+    res.set('Cache-Control', isOwner ? 'no-store' : 'public, max-age=60');
+    res.json({ success: true, data: { captions: tracks.map(formatCaption) } });
+  } catch (error) {
+    console.error('VideoCaptionController: listVideoCaptions - Error occurred:', error);
+    res.status(500).json({ success: false, message: 'Failed to load captions' });
+  }
+});
+
+export const getVideoCaptionFile = asyncHandler(async (req, res) => {
+  try {
+    const language = languageOf(req.params.language);
+    const track = language
+      ? await prisma.videoCaption.findUnique({ where: { videoId_language: { videoId: req.params.id, language } } })
+      : null;
+    if (!track || track.status !== CAPTION_STATUS.READY) {
+      return res.status(404).json({ success: false, message: 'Captions not found' });
+    }
+
+    res.set('Content-Type', 'text/vtt; charset=utf-8');
+    res.set('Cache-Control', 'public, max-age=60');
+    res.send(toWebVTT(parseStoredCues(track.cues)));
+  } catch (error) {
+    console.error('VideoCaptionController: getVideoCaptionFile - Error occurred:', error);
+    res.status(500).json({ success: false, message: 'Failed to load captions' });
+  }
+});
+
+export const uploadVideoCaption = asyncHandler(async (req, res) => {
+  try {
+    const video = await loadOwnedVideo(req, res);
+    if (!video) return;
+
+    const language = languageOf(req.body?.language);
+    if (!language) return invalidLanguage(res);
+    if (!req.file) {
+      return res.status(400).json({ success: false, code: 'FILE_REQUIRED', message: 'Attach a .vtt or .srt caption file.' });
+    }
+
+    const parsed = parseCaptionFile(req.file.buffer.toString('utf8'));
+    const { cues, error } = parsed.error ? parsed : validateCues(parsed.cues);
+    if (error) {
+      return res.status(400).json({ success: false, code: 'INVALID_CAPTIONS', message: error });
+    }
+
+    const label = captionLabel(language, CAPTION_SOURCE.UPLOAD, req.body?.label);
+    const fields = { label, source: CAPTION_SOURCE.UPLOAD, status: CAPTION_STATUS.READY, cues };
+    const track = await prisma.videoCaption.upsert({
+      where: { videoId_language: { videoId: video.id, language } },
+      create: { videoId: video.id, language, ...fields },
+      update: fields,
+    });
+    await syncCaptionLanguages(prisma, video.id);
+
+    res.status(201).json({ success: true, message: 'Captions added', data: { caption: formatCaption(track) } });
+  } catch (error) {
+    console.error('VideoCaptionController: uploadVideoCaption - Error occurred:', error);
+    res.status(500).json({ success: false, message: 'Failed to save captions' });
+  }
+});
+
+export const requestAutoCaptions = asyncHandler(async (req, res) => {
+  try {
+    const video = await loadOwnedVideo(req, res);
+    if (!video) return;
+
+    const language = languageOf(req.body?.language);
+    if (!language) return invalidLanguage(res);
+    if (!resolveTranscriptionProvider()) {
+      return res.status(503).json({
+        success: false,
+        code: 'TRANSCRIPTION_UNAVAILABLE',
+        message: 'Auto captions are not available right now. You can still upload a caption file.',
+      });
+    }
+
+    // Never overwrite a track the creator uploaded or has been editing
+    const existing = await prisma.videoCaption.findUnique({
+      where: { videoId_language: { videoId: video.id, language } },
+    });
+    if (existing && existing.source === CAPTION_SOURCE.UPLOAD) {
+      return res.status(409).json({ success: false, code: 'CAPTIONS_EXIST', message: 'This video already has captions in that language.' });
+    }
+    if (existing && existing.status !== CAPTION_STATUS.FAILED) {
+      return res.status(200).json({ success: true, message: 'Captions already requested', data: { caption: formatCaption(existing) } });
+    }
+
+    const fields = {
+      label: captionLabel(language, CAPTION_SOURCE.AUTO),
+      source: CAPTION_SOURCE.AUTO,
+      status: CAPTION_STATUS.PENDING,
+      cues: null,
+    };
+    const track = await prisma.videoCaption.upsert({
+      where: { videoId_language: { videoId: video.id, language } },
+      create: { videoId: video.id, language, ...fields },
+      update: fields,
+    });
+
+    res.status(202).json({ success: true, message: 'Captions are being generated', data: { caption: formatCaption(track) } });
+  } catch (error) {
+    console.error('VideoCaptionController: requestAutoCaptions - Error occurred:', error);
+    res.status(500).json({ success: false, message: 'Failed to request captions' });
+  }
+});
+
+export const updateVideoCaption = asyncHandler(async (req, res) => {
+  try {
+    const video = await loadOwnedVideo(req, res);
+    if (!video) return;
+
+    const language = languageOf(req.params.language);
+    const track = language
+      ? await prisma.videoCaption.findUnique({ where: { videoId_language: { videoId: video.id, language } } })
+      : null;
+    if (!track) {
+      return res.status(404).json({ success: false, message: 'Captions not found' });
+    }
+    if (track.status === CAPTION_STATUS.PENDING || track.status === CAPTION_STATUS.PROCESSING) {
+      return res.status(409).json({ success: false, code: 'CAPTIONS_PROCESSING', message: 'These captions are still being generated.' });
+    }
+
+    const { cues, error } = validateCues(req.body?.cues);
+    if (error) {
+      return res.status(400).json({ success: false, code: 'INVALID_CAPTIONS', message: error });
+    }
+
+    // An edited auto track stays 'auto' (it's still labelled as generated) but is
+    // ready from now on — fixing a failed track by hand is allowed too
+    const data = { cues, status: CAPTION_STATUS.READY };
+    if (typeof req.body?.label === 'string') data.label = captionLabel(language, track.source, req.body.label);
+    const updated = await prisma.videoCaption.update({ where: { id: track.id }, data });
+    await syncCaptionLanguages(prisma, video.id);
+
+    res.json({ success: true, message: 'Captions updated', data: { caption: formatCaption(updated) } });
+  } catch (error) {
+    console.error('VideoCaptionController: updateVideoCaption - Error occurred:', error);
+    res.status(500).json({ success: false, message: 'Failed to update captions' });
+  }
+});
+
+export const deleteVideoCaption = asyncHandler(async (req, res) => {
+  try {
+    const video = await loadOwnedVideo(req, res);
+    if (!video) return;
+
+    const language = languageOf(req.params.language);
+    const { count } = language
+      ? await prisma.videoCaption.deleteMany({ where: { videoId: video.id, language } })
+      : { count: 0 };
+    if (count === 0) {
+      return res.status(404).json({ success: false, message: 'Captions not found' });
+    }
+    await syncCaptionLanguages(prisma, video.id);
+
+    res.json({ success: true, message: 'Captions removed' });
+  } catch (error) {
+    console.error('VideoCaptionController: deleteVideoCaption - Error occurred:', error);
+    res.status(500).json({ success: false, message: 'Failed to remove captions' });
+  }
+});
@@ -0,0 +1,536 @@
+/**
+ * Threaded video comments (lib/videoComments.mjs).
+ *
+ * GET    /api/videos/:id/comments                           top-level comments, pinned first, each with a reply preview
+ * POST   /api/videos/:id/comments                           comment or reply — `parentId`, `mentions` optional
+ * GET    /api/videos/:id/comments/held                      the creator's review queue (owner) — ?status=held|hidden
+ * GET    /api/videos/:id/comments/:commentId/replies        a thread (for a top-level comment) or a comment's replies
+ * POST   /api/videos/:id/comments/:commentId/reactions      toggle one emoji reaction
+ * PATCH  /api/videos/:id/comments/:commentId/moderation     pin | unpin | hide | unhide | approve (owner)
+ * GET    /api/videos/comment-settings                       the caller's blocked keywords and hold-for-review switch
+ * PUT    /api/videos/comment-settings                       replace them
+ *
+ * "Owner" is loadOwnedVideo's rule: the uploader, or an ADMIN/MODERATOR.
+ *
+ * Every change to a comment's visibility publishes `video.comment` with the
+ * comment and its thread position (commentAudience decides who gets it), so
+ * open comment sheets can slot it in without refetching.
+ */
+
+import asyncHandler from 'express-async-handler';
+import prisma from '../lib/prisma.mjs';
+import { publishEventToMany } from '../lib/eventBus.mjs';
+import {
+  COMMENT_LIMITS,
+  COMMENT_REACTIONS,
+  COMMENT_STATUS,
+  MODERATION_ACTIONS,
+  ancestorIds,
+  commentAudience,
+  formatComment,
+  initialCommentStatus,
+  mentionedUserIds,
+  nextCommentStatus,
+  normalizeKeywords,
+  normalizeMentions,
+  reactionCountsFrom,
+  threadPosition,
+  visibleToViewer,
+} from '../lib/videoComments.mjs';
+import { loadOwnedVideo } from './videoController.mjs';
+import { createNotificationFromTemplateHelper } from './notificationController.mjs';
+
+const commentUser = { select: { id: true, firstName: true, lastName: true, avatar: true } };
+
+/** "commentId:emoji" keys for the reactions `userId` left on `commentIds` */
+async function loadMyReactions(userId, commentIds) {
+  if (!userId || commentIds.length === 0) return new Set();
+  const rows = await prisma.commentReaction.findMany({
+    where: { userId, commentId: { in: commentIds } },
+    select: { commentId: true, emoji: true },
+  });
+  return new Set(rows.map((row) => `${row.commentId}:${row.emoji}`));
+}
+
+/** The comment named by req.params.commentId on req.params.id, or null after a 404 */
+async function loadVideoComment(req, res) {
+  const comment = await prisma.comment.findUnique({ where: { id: req.params.commentId } });
+  if (!comment || comment.videoId !== req.params.id) {
+    res.status(404).json({ success: false, message: 'Comment not found' });
+    return null;
+  }
+  return comment;
+}
+
+/**
+ * Publish `video.comment` for `comment` and, the first time it becomes visible,
+ * send its mention notifications. Held comments only reach the creator.
+ */
+async function announceComment({ video, comment, parentAuthorId, actorId, commentsCount, notifyMentions }) {
+  const recipients = commentAudience({ ownerId: video.userId, comment, parentAuthorId, actorId });
+
+  if (recipients.length > 0) {
+    publishEventToMany(recipients, 'video.comment', {
+      videoId: video.id,
+      commentId: comment.id,
+      commentsCount,
+      parentId: comment.parentId ?? null,
+      rootId: comment.rootId ?? null,
+      depth: comment.depth ?? 0,
+      status: comment.status,
+      comment: formatComment(comment),
+    }).catch(() => {});
+  }
+
+  if (notifyMentions && comment.status === COMMENT_STATUS.VISIBLE) {
+    const name = [comment.user?.firstName, comment.user?.lastName].filter(Boolean).join(' ') || 'Someone';
+    const preview = comment.text.length > 80 ? `${comment.text.slice(0, 77)}...` : comment.text;
+    for (const userId of mentionedUserIds(comment.mentions)) {
+      if (userId === comment.userId) continue;
+      createNotificationFromTemplateHelper(userId, 'MENTION', {
+        name,
+        preview,
+        videoId: video.id,
+        commentId: comment.id,
+        actionUrl: `/video/${video.id}`,
+      }).catch(() => {});
+    }
+  }
+}
+
+export const commentPost = asyncHandler(async (req, res) => {
+  try {
+    const { id: videoId } = req.params;
+    const { text, media, created_at, parentId } = req.body;
+    const effectiveUserId = req.user.id;
+
+    // Validate required fields
+    if (!effectiveUserId) {
+      return res.status(400).json({ message: "User ID is required" });
+    }
+
+    if (!text && (!media || media.length === 0)) {
+      return res.status(400).json({ message: "Comment text or media is required" });
+    }
+
+    // Server-side input hardening — the client caps at 500 chars, but the API must
+    // enforce it too. Media entries must be bounded http(s) URLs.
+    if (typeof text === 'string' && text.length > COMMENT_LIMITS.MAX_TEXT) {
+      return res.status(400).json({ message: `Comment must be at most ${COMMENT_LIMITS.MAX_TEXT} characters` });
+    }
+    if (media !== undefined && media !== null) {
+      const isValidMediaUrl = (u) =>
+        typeof u === 'string' && u.length <= COMMENT_LIMITS.MAX_MEDIA_URL && /^https?:\/\//i.test(u);
+      if (!Array.isArray(media) || media.length > COMMENT_LIMITS.MAX_MEDIA || !media.every(isValidMediaUrl)) {
+        return res.status(400).json({ message: `media must be an array of at most ${COMMENT_LIMITS.MAX_MEDIA} http(s) URLs` });
+      }
+    }
+    const mentions = normalizeMentions(text, req.body.mentions);
+    if (!mentions) {
+      return res.status(400).json({ message: 'mentions must be @-spans of the comment text' });
+    }
+
+    // Verify user exists
+    const user = await prisma.appUser.findUnique({
+      where: { id: effectiveUserId },
+    });
+
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    // Verify video exists — with the creator's moderation settings
+    const video = await prisma.video.findUnique({
+      where: { id: videoId },
+      include: { user: { select: { holdCommentsForReview: true, commentBlockedKeywords: true } } },
+    });
+
+    if (!video) {
+      return res.status(404).json({ message: "Video not found" });
+    }
+
+    // Replies only attach to comments everyone can see
+    let parent = null;
+    if (parentId) {
+      parent = await prisma.comment.findUnique({ where: { id: String(parentId) } });
+      if (!parent || parent.videoId !== videoId || parent.status !== COMMENT_STATUS.VISIBLE) {
+        return res.status(404).json({ message: "The comment you're replying to is no longer available" });
+      }
+    }
+    const position = threadPosition(parent);
+
+    // Mentions of accounts that no longer exist are dropped rather than rejected
+    const mentionIds = mentionedUserIds(mentions);
+    const existing = mentionIds.length
+      ? new Set((await prisma.appUser.findMany({
+          where: { id: { in: mentionIds }, deletedAt: null },
+          select: { id: true },
+        })).map((u) => u.id))
+      : new Set();
+    const validMentions = mentions.filter((m) => existing.has(m.userId));
+
+    const status = initialCommentStatus({
+      authorId: effectiveUserId,
+      ownerId: video.userId,
+      text: text || '',
+      settings: video.user ?? null,
+    });
+    const visible = status === COMMENT_STATUS.VISIBLE;
+
+    const parsedCreatedAt = created_at ? new Date(created_at) : new Date();
+    const commentCreatedAt = Number.isNaN(parsedCreatedAt.getTime())
+      ? new Date()
+      : parsedCreatedAt;
+
+    // Create the comment and bump the visible counters in one transaction
+    const ancestors = ancestorIds(position);
+    const [comment] = await prisma.$transaction([
+      prisma.comment.create({
+        data: {
+          text: text || "",
+          mediaUrls: media || [],
+          userId: effectiveUserId,
+          videoId: videoId,
+          createdAt: commentCreatedAt,
+          ...position,
+          mentions: validMentions,
+          status,
+        },
+        include: { user: commentUser },
+      }),
+      ...(visible
+        ? [prisma.video.update({ where: { id: videoId }, data: { commentsCount: { increment: 1 } } })]
+        : []),
+      ...(visible && ancestors.length
+        ? [prisma.comment.updateMany({ where: { id: { in: ancestors } }, data: { replyCount: { increment: 1 } } })]
+        : []),
+    ]);
+
+    await announceComment({
+      video,
+      comment,
+      parentAuthorId: parent?.userId,
+      actorId: effectiveUserId,
+      commentsCount: video.commentsCount + (visible ? 1 : 0),
+      notifyMentions: true,
+    });
+
+    res.status(201).json({
+      message: visible ? "Comment posted successfully" : "Comment held for the creator's review",
+      comment: formatComment(comment),
+    });
+  } catch (error) {
+    console.error("Error posting comment:", error);
+    res.status(500).json({ message: "Failed to post comment" });
+  }
+});
+
+export const getVideoComments = asyncHandler(async (req, res) => {
+  try {
+    const { id: videoId } = req.params;
+    const page = Math.max(1, Number(req.query.page) || 1);
+    const limit = Math.min(50, Math.max(1, Number(req.query.limit) || 20));
+    const viewerId = req.user?.id;
+
+    // Verify video exists
+    const video = await prisma.video.findUnique({
+      where: { id: videoId },
+      select: { id: true },
+    });
+
+    if (!video) {
+      return res.status(404).json({ message: 'Video not found' });
+    }
+
+    // Top-level comments, the pinned one first; replies come as a short preview
+    const where = { videoId, depth: 0, ...visibleToViewer(viewerId) };
+    const [comments, totalComments] = await Promise.all([
+      prisma.comment.findMany({
+        where,
+        include: {
+          user: commentUser,
+          replies: {
+            where: visibleToViewer(viewerId),
+            include: { user: commentUser },
+            orderBy: { createdAt: 'asc' },
+            take: COMMENT_LIMITS.REPLY_PREVIEW,
+          },
+        },
+        orderBy: [{ pinnedAt: { sort: 'desc', nulls: 'last' } }, { createdAt: 'desc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.comment.count({ where }),
+    ]);
+
+    const ids = comments.flatMap((c) => [c.id, ...(c.replies || []).map((r) => r.id)]);
+    const myReactions = await loadMyReactions(viewerId, ids);
+
+    res.json({
+      success: true,
+      message: 'Comments fetched successfully',
+      data: {
+        comments: comments.map((comment) => formatComment(comment, myReactions)),
+        pagination: {
+          page,
+          limit,
+          total: totalComments,
+          totalPages: Math.ceil(totalComments / limit),
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching video comments:', error);
+    res.status(500).json({ message: 'Failed to fetch comments' });
+  }
+});
+
+export const getCommentReplies = asyncHandler(async (req, res) => {
+  try {
+    const comment = await loadVideoComment(req, res);
+    if (!comment) return;
+
+    const viewerId = req.user?.id;
+    const page = Math.max(1, Number(req.query.page) || 1);
+    const limit = Math.min(100, Math.max(1, Number(req.query.limit) || 50));
+
+    // A top-level comment loads its whole thread (both reply levels) oldest
+    // first; a reply loads the replies filed directly under it
+    const where = {
+      ...(comment.depth === 0 ? { rootId: comment.id } : { parentId: comment.id }),
+      ...visibleToViewer(viewerId),
+    };
+    const [replies, total] = await Promise.all([
+      prisma.comment.findMany({
+        where,
+        include: { user: commentUser },
+        orderBy: { createdAt: 'asc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.comment.count({ where }),
+    ]);
+    const myReactions = await loadMyReactions(viewerId, replies.map((r) => r.id));
+
+    res.json({
+      success: true,
+      data: {
+        commentId: comment.id,
+        replies: replies.map((reply) => formatComment(reply, myReactions)),
+        pagination: { page, limit, total, totalPages: Math.ceil(total / limit), hasMore: page * limit < total },
+      },
+    });
+  } catch (error) {
+    console.error('VideoCommentController: getCommentReplies - Error occurred:', error);
+    res.status(500).json({ success: false, message: 'Failed to load replies' });
+  }
+});
+
+export const reactToComment = asyncHandler(async (req, res) => {
+  try {
+    const emoji = req.body?.emoji;
+    if (!COMMENT_REACTIONS.includes(emoji)) {
+      return res.status(400).json({ success: false, code: 'INVALID_REACTION', message: 'Unsupported reaction' });
+    }
+
+    const comment = await loadVideoComment(req, res);
+    if (!comment) return;
+    const userId = req.user.id;
+    if (comment.status !== COMMENT_STATUS.VISIBLE && comment.userId !== userId) {
+      return res.status(404).json({ success: false, message: 'Comment not found' });
+    }
+
+    // Toggle: a second tap on the same emoji takes the reaction back
+    const key = { commentId_userId_emoji: { commentId: comment.id, userId, emoji } };
+    const existing = await prisma.commentReaction.findUnique({ where: key });
+    if (existing) {
+      await prisma.commentReaction.delete({ where: key });
+    } else {
+      try {
+        await prisma.commentReaction.create({ data: { commentId: comment.id, userId, emoji } });
+      } catch (error) {
+        if (error?.code !== 'P2002') throw error; // double tap — already there
+      }
+    }
+
+    // Recount rather than increment so concurrent toggles can't drift the counts
+    const groups = await prisma.commentReaction.groupBy({
+      by: ['emoji'],
+      where: { commentId: comment.id },
+      _count: true,
+    });
+    const reactions = reactionCountsFrom(groups);
+    await prisma.comment.update({ where: { id: comment.id }, data: { reactionCounts: reactions } });
+    const mine = await loadMyReactions(userId, [comment.id]);
+
+    res.json({
+      success: true,
+      data: {
+        commentId: comment.id,
+        reactions,
+        myReactions: COMMENT_REACTIONS.filter((e) => mine.has(`${comment.id}:${e}`)),
+      },
+    });
+  } catch (error) {
+    console.error('VideoCommentController: reactToComment - Error occurred:', error);
+    res.status(500).json({ success: false, message: 'Failed to save reaction' });
+  }
+});
+
+/**
+ * Move `comment` to `status`, keeping the visible counts on the video and the
+ * comment's ancestors in step, and announce the change. Used by the creator's
+ * moderation and by the review console's removal. Returns the updated comment.
+ */
+export async function setCommentStatus({ video, comment, status, actorId, notifyMentions = false }) {
+  // Hiding or approving moves the comment in or out of the visible counts
+  const delta = (status === COMMENT_STATUS.VISIBLE ? 1 : 0) - (comment.status === COMMENT_STATUS.VISIBLE ? 1 : 0);
+  const writes = [prisma.comment.update({
+    where: { id: comment.id },
+    data: { status, ...(status === COMMENT_STATUS.VISIBLE ? {} : { pinnedAt: null }) },
+    include: { user: commentUser },
+  })];
+  if (delta !== 0) {
+    writes.push(prisma.video.update({ where: { id: video.id }, data: { commentsCount: { increment: delta } } }));
+    const ancestors = ancestorIds(comment);
+    if (ancestors.length) {
+      writes.push(prisma.comment.updateMany({ where: { id: { in: ancestors } }, data: { replyCount: { increment: delta } } }));
+    }
+  }
+  const results = await prisma.$transaction(writes);
+  const updated = results.find((r) => r?.id === comment.id);
+
+  if (status !== comment.status) {
+    const parentAuthorId = comment.parentId
+      ? (await prisma.comment.findUnique({ where: { id: comment.parentId }, select: { userId: true } }))?.userId
+      : null;
+    const counted = results.find((r) => r?.id === video.id && typeof r.commentsCount === 'number');
+    await announceComment({
+      video,
+      comment: updated,
+      parentAuthorId,
+      actorId,
+      commentsCount: counted?.commentsCount ?? video.commentsCount,
+      notifyMentions,
+    });
+  }
+  return updated;
+}
+
+export const moderateComment = asyncHandler(async (req, res) => {
+  try {
+    const action = req.body?.action;
+    if (!MODERATION_ACTIONS.includes(action)) {
+      return res.status(400).json({ success: false, code: 'INVALID_ACTION', message: `action must be one of ${MODERATION_ACTIONS.join(', ')}` });
+    }
+
+    const video = await loadOwnedVideo(req, res);
+    if (!video) return;
+    const comment = await loadVideoComment(req, res);
+    if (!comment) return;
+
+    const status = nextCommentStatus(comment.status, action);
+    if (!status || ((action === 'pin' || action === 'unpin') && comment.depth !== 0)) {
+      return res.status(409).json({
+        success: false,
+        code: 'INVALID_ACTION',
+        message: action === 'pin' ? 'Only visible top-level comments can be pinned.' : `This comment can't be ${action === 'unpin' ? 'unpinned' : `${action}d`}.`,
+      });
+    }
+
+    let updated;
+    if (action === 'pin' || action === 'unpin') {
+      const writes = action === 'pin'
+        // One pinned comment per video
+        ? [
+          prisma.comment.updateMany({ where: { videoId: video.id, pinnedAt: { not: null } }, data: { pinnedAt: null } }),
+          prisma.comment.update({ where: { id: comment.id }, data: { pinnedAt: new Date() }, include: { user: commentUser } }),
+        ]
+        : [prisma.comment.update({ where: { id: comment.id }, data: { pinnedAt: null }, include: { user: commentUser } })];
+      const results = await prisma.$transaction(writes);
+      updated = results.find((r) => r?.id === comment.id);
+    } else {
+      updated = await setCommentStatus({ video, comment, status, actorId: req.user.id, notifyMentions: action === 'approve' });
+    }
+
+    res.json({ success: true, message: 'Comment updated', data: { comment: formatComment(updated) } });
+  } catch (error) {
+    console.error('VideoCommentController: moderateComment - Error occurred:', error);
+    res.status(500).json({ success: false, message: 'Failed to update comment' });
+  }
+});
+
+export const getModerationQueue = asyncHandler(async (req, res) => {
+  try {
+    const video = await loadOwnedVideo(req, res);
+    if (!video) return;
+
+    const status = req.query.status === COMMENT_STATUS.HIDDEN ? COMMENT_STATUS.HIDDEN : COMMENT_STATUS.HELD;
+    const [comments, total] = await Promise.all([
+      prisma.comment.findMany({
+        where: { videoId: video.id, status },
+        include: { user: commentUser },
+        orderBy: { createdAt: 'desc' },
+        take: 100,
+      }),
+      prisma.comment.count({ where: { videoId: video.id, status } }),
+    ]);
+
+    res.set('Cache-Control', 'no-store');
+    res.json({ success: true, data: { status, comments: comments.map((c) => formatComment(c)), total } });
+  } catch (error) {
+    console.error('VideoCommentController: getModerationQueue - Error occurred:', error);
+    res.status(500).json({ success: false, message: 'Failed to load held comments' });
+  }
+});
+
+const formatSettings = (user) => ({
+  blockedKeywords: user?.commentBlockedKeywords ?? [],
+  holdForReview: Boolean(user?.holdCommentsForReview),
+});
+
+export const getCommentSettings = asyncHandler(async (req, res) => {
+  try {
+    const user = await prisma.appUser.findUnique({
+      where: { id: req.user.id },
+      select: { commentBlockedKeywords: true, holdCommentsForReview: true },
+    });
+    if (!user) {
+      return res.status(404).json({ success: false, message: 'User not found' });
+    }
+    res.json({ success: true, data: formatSettings(user) });
+  } catch (error) {
+    console.error('VideoCommentController: getCommentSettings - Error occurred:', error);
+    res.status(500).json({ success: false, message: 'Failed to load comment settings' });
+  }
+});
+
+export const updateCommentSettings = asyncHandler(async (req, res) => {
+  try {
+    const data = {};
+    if (req.body?.blockedKeywords !== undefined) {
+      const keywords = normalizeKeywords(req.body.blockedKeywords);
+      if (!keywords) {
+        return res.status(400).json({
+          success: false,
+          code: 'INVALID_KEYWORDS',
+          message: `Use up to ${COMMENT_LIMITS.MAX_KEYWORDS} keywords of at most ${COMMENT_LIMITS.MAX_KEYWORD_CHARS} characters.`,
+        });
+      }
+      data.commentBlockedKeywords = keywords;
+    }
+    if (req.body?.holdForReview !== undefined) {
+      data.holdCommentsForReview = req.body.holdForReview === true;
+    }
+
+    const user = await prisma.appUser.update({
+      where: { id: req.user.id },
+      data,
+      select: { commentBlockedKeywords: true, holdCommentsForReview: true },
+    });
+    res.json({ success: true, message: 'Comment settings saved', data: formatSettings(user) });
+  } catch (error) {
+    console.error('VideoCommentController: updateCommentSettings - Error occurred:', error);
+    res.status(500).json({ success: false, message: 'Failed to save comment settings' });
+  }
+});
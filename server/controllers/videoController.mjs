@@ -2,8 +2,27 @@ import crypto from 'crypto';
 import prisma from '../lib/prisma.mjs';
 import asyncHandler from 'express-async-handler';
 import { publishEvent } from '../lib/eventBus.mjs';
-import { getSignedDownloadUrl, deleteFile, URL_EXPIRY } from '../lib/r2.mjs';
+import { getSignedDownloadUrl, deleteFile, downloadFile, listFiles, URL_EXPIRY } from '../lib/r2.mjs';
+import {
+  HLS_PLAYLIST_MIME,
+  HLS_STATUS,
+  hlsKey,
+  hlsPayload,
+  parseRenditions,
+  resolvePlaylist,
+  signMediaPlaylist,
+} from '../lib/hlsLadder.mjs';
 import { getStore, cached, mediaCacheMaxMs } from '../lib/memoryCache.mjs';
+import {
+  REPLAY_CHAT_LIMITS,
+  formatReplayChatMessage,
+  parseChatWindow,
+  replayPayload,
+} from '../lib/livestreamReplay.mjs';
+import { historyWatchPct } from '../lib/watchHistory.mjs';
+import { normalizeTrafficSource, clampWatchMs } from '../lib/videoAnalytics.mjs';
+import { resyncSeries, seriesPayload } from '../lib/playlists.mjs';
+import { REPORT_REASONS } from '../lib/moderation.mjs';
 
 // In-process caches for video feeds. Media payloads embed signed R2 URLs (24h
 // expiry), so these short TTLs sit far under the safe ceiling. getAllVideos uses
@@ -19,7 +38,7 @@ const TRENDING_TTL_MS = Math.min(3 * 60 * 1000, mediaCacheMaxMs(URL_EXPIRY.DOWNL
  * Falls back to the stored URL if no R2 key exists (e.g. legacy/external videos).
  * Gracefully degrades to stored URLs if R2 signing fails (prevents feed 500s).
  */
-async function signVideoUrls(video) {
+export async function signVideoUrls(video) {
   try {
     // Legacy livestream rows may have an incomplete key like "livestreams/<sessionId>"
     // (folder prefix without an actual file object). Signed URLs for those keys play
@@ -57,13 +76,17 @@ async function signVideoUrls(video) {
  * @param {string} opts.recommendationReason
  * @param {string} opts.trendingReason
  */
-function formatVideoResponse(video, signed, opts = {}) {
+export function formatVideoResponse(video, signed, opts = {}) {
   return {
     id: video.id,
     title: video.title || 'Untitled Video',
     description: video.description || '',
     videoUrl: signed.videoUrl,
     thumbnail: signed.thumbnail,
+    // Adaptive ladder once transcoded; until then the client plays videoUrl
+    hls: hlsPayload(video),
+    // Languages with ready captions — cues load on demand (GET /:id/captions)
+    captionLanguages: video.captionLanguages || [],
     userId: video.userId,
     likes: video.likes || 0,
     views: video.views || 0,
@@ -78,6 +101,10 @@ function formatVideoResponse(video, signed, opts = {}) {
     comments: [],
     isLive: opts.isLive ?? false,
     livestreamSessionId: opts.livestreamSessionId ?? null,
+    // Set when this video is an ended livestream — chat replays from its session
+    replay: replayPayload(video),
+    // "Part 2 of 5" — null unless the video is part of a creator's series
+    series: seriesPayload(video),
     user: video.user ? {
       id: video.user.id,
       firstName: video.user.firstName || 'Anonymous',
@@ -95,7 +122,7 @@ function formatVideoResponse(video, signed, opts = {}) {
  * ADMIN/MODERATOR. Sends the 404/403 response and returns null on failure; returns the
  * video on success. Callers must `if (!video) return;` after invoking.
  */
-async function loadOwnedVideo(req, res) {
+export async function loadOwnedVideo(req, res) {
   const video = await prisma.video.findUnique({ where: { id: req.params.id } });
   if (!video) {
     res.status(404).json({ message: 'Video not found' });
@@ -239,120 +266,6 @@ export const createVideo = asyncHandler(async (req, res) => {
   }
 });
 
-// Post a Comment on a Video
-export const commentPost = asyncHandler(async (req, res) => {
-  try {
-    const { id: videoId } = req.params;
-    const { text, media, created_at } = req.body;
-    const effectiveUserId = req.user.id;
-
-    // Validate required fields
-    if (!effectiveUserId) {
-      return res.status(400).json({ message: "User ID is required" });
-    }
-
-    if (!text && (!media || media.length === 0)) {
-      return res.status(400).json({ message: "Comment text or media is required" });
-    }
-
-    // Server-side input hardening — the client caps at 500 chars, but the API must
-    // enforce it too. Media entries must be bounded http(s) URLs.
-    const MAX_COMMENT_LENGTH = 500;
-    const MAX_COMMENT_MEDIA = 4;
-    const MAX_MEDIA_URL_LENGTH = 2048;
-    if (typeof text === 'string' && text.length > MAX_COMMENT_LENGTH) {
-      return res.status(400).json({ message: `Comment must be at most ${MAX_COMMENT_LENGTH} characters` });
-    }
-    if (media !== undefined && media !== null) {
-      const isValidMediaUrl = (u) =>
-        typeof u === 'string' && u.length <= MAX_MEDIA_URL_LENGTH && /^https?:\/\//i.test(u);
-      if (!Array.isArray(media) || media.length > MAX_COMMENT_MEDIA || !media.every(isValidMediaUrl)) {
-        return res.status(400).json({ message: `media must be an array of at most ${MAX_COMMENT_MEDIA} http(s) URLs` });
-      }
-    }
-
-    // Verify user exists
-    const user = await prisma.appUser.findUnique({
-      where: { id: effectiveUserId },
-    });
-
-    if (!user) {
-      return res.status(404).json({ message: "User not found" });
-    }
-
-    // Verify video exists
-    const video = await prisma.video.findUnique({
-      where: { id: videoId },
-    });
-
-    if (!video) {
-      return res.status(404).json({ message: "Video not found" });
-    }
-
-    const parsedCreatedAt = created_at ? new Date(created_at) : new Date();
-    const commentCreatedAt = Number.isNaN(parsedCreatedAt.getTime())
-      ? new Date()
-      : parsedCreatedAt;
-
-    // Create comment
-    const comment = await prisma.comment.create({
-      data: {
-        text: text || "",
-        mediaUrls: media || [],
-        userId: effectiveUserId,
-        videoId: videoId,
-        createdAt: commentCreatedAt,
-      },
-      include: {
-        user: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            avatar: true
-          },
-        },
-      },
-    });
-
-    // Update video's comment count
-    await prisma.video.update({
-      where: { id: videoId },
-      data: { commentsCount: { increment: 1 } },
-    });
-
-    // SSE: Notify video owner of new comment
-    if (video.userId !== effectiveUserId) {
-      publishEvent(video.userId, 'video.comment', {
-        videoId,
-        commentId: comment.id,
-        commentsCount: video.commentsCount + 1,
-      }).catch(() => {});
-    }
-
-    res.status(201).json({
-      message: "Comment posted successfully",
-      comment: {
-        id: comment.id,
-        text: comment.text,
-        mediaUrls: comment.mediaUrls,
-        userId: comment.userId,
-        videoId: comment.videoId,
-        createdAt: comment.createdAt.toISOString(), // ISO string for frontend consistency
-        user: {
-          id: comment.user.id,
-          firstName: comment.user.firstName,
-          lastName: comment.user.lastName,
-          avatar: comment.user.avatar
-        }
-      },
-    });
-  } catch (error) {
-    console.error("Error posting comment:", error);
-    res.status(500).json({ message: "Failed to post comment" });
-  }
-});
-
 // Get Videos Uploaded by a User
 export const getVideosByUser = asyncHandler(async (req, res) => {
   try {
@@ -506,6 +419,45 @@ export const getAllVideos = asyncHandler(async (req, res) => {
   }
 });
 
+// ============================================================================
+// HLS PLAYLISTS — master as stored, media playlists with signed segment URLs
+// ============================================================================
+
+export const getVideoHlsPlaylist = asyncHandler(async (req, res) => {
+  try {
+    const { id, playlist } = req.params;
+    const video = await prisma.video.findUnique({
+      where: { id },
+      select: { id: true, hlsStatus: true, hlsRenditions: true },
+    });
+
+    const renditions = video?.hlsStatus === HLS_STATUS.READY ? parseRenditions(video.hlsRenditions) : [];
+    const target = resolvePlaylist(id, playlist, renditions);
+    if (!target) {
+      return res.status(404).json({ success: false, message: 'Playlist not found' });
+    }
+
+    const stored = await downloadFile(target.key);
+    if (!stored) {
+      return res.status(404).json({ success: false, message: 'Playlist not found' });
+    }
+
+    const text = stored.toString('utf8');
+    const body = target.rendition
+      ? await signMediaPlaylist(text, (segment) =>
+          getSignedDownloadUrl(hlsKey(id, `${target.rendition}/${segment}`), URL_EXPIRY.DOWNLOAD_URL_EXPIRY))
+      : text;
+
+    // Segment signatures last 24h; a short client cache keeps seeks cheap
+    res.set('Content-Type', HLS_PLAYLIST_MIME);
+    res.set('Cache-Control', 'private, max-age=300');
+    res.send(body);
+  } catch (error) {
+    console.error('VideoController: getVideoHlsPlaylist - Error occurred:', error);
+    res.status(500).json({ success: false, message: 'Failed to load playlist' });
+  }
+});
+
 // ============================================================================
 // GET SINGLE VIDEO BY ID — returns fresh signed URLs for playback
 // Used by the client to refresh expired signed URLs on playback error
@@ -886,29 +838,54 @@ export const updateVideo = asyncHandler(async (req, res) => {
   }
 });
 
+/**
+ * Delete `video` with its comments, renumber its series and clean up its
+ * storage. Used by the owner's delete and by the review console's removal.
+ */
+export async function removeVideo(video) {
+  // Comment has no DB cascade — delete comments + video atomically so a crash
+  // between the two can't leave a half-deleted video. (Likes/bookmarks/shares/
+  // events/feedback/view-events all cascade at the DB.)
+  await prisma.$transaction([
+    prisma.comment.deleteMany({ where: { videoId: video.id } }),
+    prisma.video.delete({ where: { id: video.id } }),
+  ]);
+
+  // The rest of its series move up a part — must never fail the request.
+  if (video.seriesId) {
+    try {
+      await resyncSeries(prisma, video.seriesId);
+    } catch (seriesError) {
+      console.error(`Error renumbering series ${video.seriesId} after deleting video ${video.id}:`, seriesError.message);
+    }
+  }
+
+  // Best-effort storage cleanup — must never fail the request.
+  const ladderKeys = [];
+  if (video.hlsStatus) {
+    try {
+      ladderKeys.push(...(await listFiles(hlsKey(video.id, ''))).map((file) => file.key));
+    } catch (cleanupError) {
+      console.error(`Error listing HLS ladder for video ${video.id}:`, cleanupError.message);
+    }
+  }
+  for (const key of [video.r2VideoKey, video.r2ThumbnailKey, ...ladderKeys]) {
+    if (!key) continue;
+    try {
+      await deleteFile(key);
+    } catch (cleanupError) {
+      console.error(`Error deleting R2 object "${key}" for video ${video.id}:`, cleanupError.message);
+    }
+  }
+}
+
 // Delete a Video
 export const deleteVideo = asyncHandler(async (req, res) => {
   try {
     const video = await loadOwnedVideo(req, res);
     if (!video) return;
 
-    // Comment has no DB cascade — delete comments + video atomically so a crash
-    // between the two can't leave a half-deleted video. (Likes/bookmarks/shares/
-    // events/feedback/view-events all cascade at the DB.)
-    await prisma.$transaction([
-      prisma.comment.deleteMany({ where: { videoId: video.id } }),
-      prisma.video.delete({ where: { id: video.id } }),
-    ]);
-
-    // Best-effort storage cleanup — must never fail the request.
-    for (const key of [video.r2VideoKey, video.r2ThumbnailKey]) {
-      if (!key) continue;
-      try {
-        await deleteFile(key);
-      } catch (cleanupError) {
-        console.error(`Error deleting R2 object "${key}" for video ${video.id}:`, cleanupError.message);
-      }
-    }
+    await removeVideo(video);
 
     res.json({ message: 'Video deleted successfully' });
   } catch (error) {
@@ -1128,77 +1105,6 @@ export const shareVideo = asyncHandler(async (req, res) => {
   }
 });
 
-// Get Video Comments
-export const getVideoComments = asyncHandler(async (req, res) => {
-  try {
-    const { id: videoId } = req.params;
-    const { page = 1, limit = 20 } = req.query;
-
-    // Verify video exists
-    const video = await prisma.video.findUnique({
-      where: { id: videoId },
-    });
-
-    if (!video) {
-      return res.status(404).json({ message: 'Video not found' });
-    }
-
-    // Get comments with pagination
-    const skip = (Number(page) - 1) * Number(limit);
-    const comments = await prisma.comment.findMany({
-      where: { videoId },
-      include: {
-        user: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            avatar: true
-          }
-        }
-      },
-      orderBy: { createdAt: 'desc' },
-      skip,
-      take: Number(limit),
-    });
-
-    // Get total count for pagination
-    const totalComments = await prisma.comment.count({
-      where: { videoId }
-    });
-
-    res.json({
-      success: true,
-      message: 'Comments fetched successfully',
-      data: {
-        comments: comments.map(comment => ({
-          id: comment.id,
-          text: comment.text,
-          mediaUrls: comment.mediaUrls || [],
-          userId: comment.userId,
-          videoId: comment.videoId,
-          createdAt: comment.createdAt.toISOString(),
-          user: {
-            id: comment.user.id,
-            firstName: comment.user.firstName,
-            lastName: comment.user.lastName,
-            avatar: comment.user.avatar
-          }
-        })),
-        pagination: {
-          page: Number(page),
-          limit: Number(limit),
-          total: totalComments,
-          totalPages: Math.ceil(totalComments / Number(limit)),
-        }
-      }
-    });
-  } catch (error) {
-    console.error('Error fetching video comments:', error);
-    res.status(500).json({ message: 'Failed to fetch comments' });
-  }
-});
-
 // Unlike a Video — per-user with idempotency
 export const unlikeVideo = asyncHandler(async (req, res) => {
   try {
@@ -1496,6 +1402,11 @@ export const endLivestream = asyncHandler(async (req, res) => {
 
     // Only notify via SSE for actual livestreams (not plain recordings)
     if (livestream.type === 'livestream') {
+      // A replay published before the session was closed still gets the final peak
+      await prisma.video.updateMany({
+        where: { livestreamSessionId: sessionId },
+        data: { peakViewerCount: livestream.peakViewerCount },
+      });
       publishEvent(livestream.userId, 'livestream.ended', {
         sessionId,
         durationSeconds: livestream.durationSeconds,
@@ -1649,47 +1560,42 @@ export const leaveLivestream = asyncHandler(async (req, res) => {
   }
 });
 
-// Send a chat message to a livestream
-export const sendLivestreamChat = asyncHandler(async (req, res) => {
+// Replay chat: the stream's chat in [fromMs, toMs) of the replay's playhead
+export const getReplayChat = asyncHandler(async (req, res) => {
   try {
-    const { sessionId } = req.params;
-    const { text } = req.body;
-    const userId = req.user.id;
-
-    if (!text || !text.trim()) {
-      return res.status(400).json({ message: 'Message text is required' });
+    const window = parseChatWindow(req.query);
+    if (!window) {
+      return res.status(400).json({
+        success: false,
+        message: `fromMs and toMs must be whole milliseconds, at most ${REPLAY_CHAT_LIMITS.MAX_WINDOW_MS} apart`,
+      });
     }
 
-    const livestream = await prisma.livestream.findUnique({
-      where: { sessionId },
+    const video = await prisma.video.findUnique({
+      where: { id: req.params.id },
+      select: { id: true, livestreamSessionId: true },
     });
-
-    if (!livestream || livestream.status !== 'live') {
-      return res.status(404).json({ message: 'Livestream not found or not active' });
+    if (!video) {
+      return res.status(404).json({ success: false, message: 'Video not found' });
+    }
+    if (!video.livestreamSessionId) {
+      return res.json({ success: true, data: [], window });
     }
 
-    // Get sender info
-    const sender = await prisma.appUser.findUnique({
-      where: { id: userId },
-      select: { id: true, firstName: true, lastName: true },
+    const messages = await prisma.livestreamChatMessage.findMany({
+      where: {
+        sessionId: video.livestreamSessionId,
+        offsetMs: { gte: window.fromMs, lt: window.toMs },
+        deletedAt: null,
+      },
+      orderBy: [{ offsetMs: 'asc' }, { createdAt: 'asc' }],
+      take: REPLAY_CHAT_LIMITS.MAX_MESSAGES,
     });
 
-    const chatPayload = {
-      sessionId,
-      messageId: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
-      userId,
-      userName: sender ? `${sender.firstName} ${sender.lastName}`.trim() : 'Anonymous',
-      text: text.trim(),
-      timestamp: new Date().toISOString(),
-    };
-
-    // Notify stream owner of chat message (fire-and-forget)
-    publishEvent(livestream.userId, 'livestream.chat', chatPayload).catch(() => {});
-
-    res.json({ success: true, data: chatPayload });
+    res.json({ success: true, data: messages.map(formatReplayChatMessage), window });
   } catch (error) {
-    console.error('Error sending livestream chat:', error);
-    res.status(500).json({ message: 'Something went wrong' });
+    console.error('Error fetching replay chat:', error);
+    res.status(500).json({ success: false, message: 'Failed to fetch replay chat' });
   }
 });
 
@@ -1729,14 +1635,20 @@ export const ingestVideoEvents = asyncHandler(async (req, res) => {
 
     const records = capped
       .filter(e => e.videoId && validEventTypes.includes(e.eventType))
-      .map(e => ({
-        userId,
-        videoId: e.videoId,
-        eventType: e.eventType,
-        payload: clampPayload(e.payload),
-        sessionId: clampSession(sessionId) || clampSession(e.sessionId) || 'unknown',
-        createdAt: e.timestamp ? new Date(e.timestamp) : new Date(),
-      }));
+      .map(e => {
+        const payload = clampPayload(e.payload);
+        return {
+          userId,
+          videoId: e.videoId,
+          eventType: e.eventType,
+          payload,
+          // Lifted out for creator analytics (lib/videoAnalytics.mjs)
+          source: normalizeTrafficSource(payload.source),
+          watchMs: e.eventType === 'dwell' ? clampWatchMs(payload.dwellMs) : null,
+          sessionId: clampSession(sessionId) || clampSession(e.sessionId) || 'unknown',
+          createdAt: e.timestamp ? new Date(e.timestamp) : new Date(),
+        };
+      });
 
     if (records.length > 0) {
       await prisma.videoEvent.createMany({ data: records, skipDuplicates: true });
@@ -1808,13 +1720,17 @@ export const getPersonalizedVideos = asyncHandler(async (req, res) => {
 
     const fourteenDaysAgo = new Date(Date.now() - 14 * 24 * 60 * 60 * 1000);
 
-    // Parallel data fetch: telemetry, follows, blocks, feedback
-    const [recentEvents, explicitFollows, blockedUsers, userFeedback] = await Promise.all([
+    // Parallel data fetch: telemetry, watch history, follows, blocks, feedback
+    const [recentEvents, recentHistory, explicitFollows, blockedUsers, userFeedback] = await Promise.all([
       prisma.videoEvent.groupBy({
         by: ['videoId', 'eventType'],
         where: { userId: authUserId, createdAt: { gte: fourteenDaysAgo } },
         _count: true,
       }),
+      prisma.videoWatchHistory.findMany({
+        where: { userId: authUserId, lastWatchedAt: { gte: fourteenDaysAgo } },
+        select: { videoId: true, progressPercent: true },
+      }),
       prisma.creatorFollow.findMany({
         where: { followerId: authUserId },
         select: { followingId: true },
@@ -1834,8 +1750,8 @@ export const getPersonalizedVideos = asyncHandler(async (req, res) => {
     const hiddenVideoIds = new Set(userFeedback.filter(f => f.action === 'not_interested').map(f => f.videoId));
     const followedCreatorIds = new Set(explicitFollows.map(f => f.followingId));
 
-    // Cold-start tier based on event count
-    const totalEventCount = recentEvents.length;
+    // Cold-start tier based on event count (a synced history entry counts as one)
+    const totalEventCount = recentEvents.length + recentHistory.length;
     const isColdStart = totalEventCount < 10;
     const isWarmStart = totalEventCount >= 10 && totalEventCount < 50;
 
@@ -1851,6 +1767,13 @@ export const getPersonalizedVideos = asyncHandler(async (req, res) => {
       else if (event.eventType === 'skip') sig.skipped = true;
       videoSignals.set(event.videoId, sig);
     }
+    // Watch history reaches the server even when milestone telemetry was lost
+    // offline, and covers long videos watched across several sessions
+    for (const row of recentHistory) {
+      const sig = videoSignals.get(row.videoId) || { watchPct: 0, liked: false, skipped: false };
+      sig.watchPct = Math.max(sig.watchPct, historyWatchPct(row.progressPercent));
+      videoSignals.set(row.videoId, sig);
+    }
 
     // Identify preferred creators (creators of videos the user watched 50%+)
     const watchedVideoIds = [...videoSignals.entries()]
@@ -2091,6 +2014,24 @@ export const submitVideoFeedback = asyncHandler(async (req, res) => {
       update: { reason, createdAt: new Date() },
     });
 
+    // A report also lands in the review console's queue — best-effort, the
+    // feedback itself already counts for the viewer's feed
+    if (action === 'report') {
+      try {
+        const report = {
+          reason: REPORT_REASONS.includes(reason) ? reason : 'other',
+          details: REPORT_REASONS.includes(reason) ? null : (typeof reason === 'string' ? reason.slice(0, 500) : null),
+        };
+        await prisma.contentReport.upsert({
+          where: { reporterId_targetType_targetId: { reporterId: userId, targetType: 'video', targetId: videoId } },
+          create: { reporterId: userId, targetType: 'video', targetId: videoId, ...report },
+          update: report,
+        });
+      } catch (reportError) {
+        console.error(`VideoController: submitVideoFeedback - could not file report for video ${videoId}:`, reportError.message);
+      }
+    }
+
     res.json({
       success: true,
       message: 'Feedback recorded',
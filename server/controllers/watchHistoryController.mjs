@@ -0,0 +1,136 @@
+/**
+ * Watch history — resume positions and the history screen (lib/watchHistory.mjs).
+ *
+ * GET    /api/videos/history?before=&limit= the caller's history, most recent first, with each video
+ * PUT    /api/videos/history                sync a batch of { videoId, positionSeconds, durationSeconds, watchedAt }
+ * PUT    /api/videos/history/settings       pause or resume recording ({ paused })
+ * DELETE /api/videos/history/:videoId       remove one entry
+ * DELETE /api/videos/history                clear it all
+ *
+ * A sync while paused saves nothing and says so (`paused: true`), so the app
+ * can drop its queue instead of retrying.
+ */
+
+import asyncHandler from 'express-async-handler';
+import prisma from '../lib/prisma.mjs';
+import {
+  WATCH_HISTORY_LIMITS,
+  formatHistoryEntry,
+  isNewerThanStored,
+  normalizeSyncBatch,
+  parseHistoryPage,
+} from '../lib/watchHistory.mjs';
+import { formatVideoResponse, signVideoUrls } from './videoController.mjs';
+
+const videoUser = { select: { id: true, firstName: true, lastName: true, avatar: true } };
+
+export const getWatchHistory = asyncHandler(async (req, res) => {
+  const page = parseHistoryPage(req.query);
+  if (!page) {
+    return res.status(400).json({ success: false, message: 'before must be a date and limit a positive integer' });
+  }
+
+  const userId = req.user.id;
+  const [user, rows] = await Promise.all([
+    prisma.appUser.findUnique({ where: { id: userId }, select: { watchHistoryPaused: true } }),
+    prisma.videoWatchHistory.findMany({
+      where: { userId, ...(page.before && { lastWatchedAt: { lt: page.before } }) },
+      include: { video: { include: { user: videoUser } } },
+      orderBy: { lastWatchedAt: 'desc' },
+      take: page.limit,
+    }),
+  ]);
+  if (!user) {
+    return res.status(404).json({ success: false, message: 'User not found' });
+  }
+
+  const entries = await Promise.all(rows.map(async (row) => {
+    const signed = await signVideoUrls(row.video);
+    return formatHistoryEntry(row, formatVideoResponse(row.video, signed));
+  }));
+
+  res.json({
+    success: true,
+    data: {
+      paused: user.watchHistoryPaused,
+      entries,
+      // Full page → there may be more, older than the last entry
+      nextBefore: rows.length === page.limit ? entries[entries.length - 1].watchedAt : null,
+    },
+  });
+});
+
+export const syncWatchHistory = asyncHandler(async (req, res) => {
+  const entries = normalizeSyncBatch(req.body);
+  if (!entries) {
+    return res.status(400).json({
+      success: false,
+      message: `entries must be an array of at most ${WATCH_HISTORY_LIMITS.MAX_SYNC_ENTRIES}`,
+    });
+  }
+
+  const userId = req.user.id;
+  const user = await prisma.appUser.findUnique({ where: { id: userId }, select: { watchHistoryPaused: true } });
+  if (!user) {
+    return res.status(404).json({ success: false, message: 'User not found' });
+  }
+  if (user.watchHistoryPaused || entries.length === 0) {
+    return res.json({ success: true, data: { saved: 0, paused: user.watchHistoryPaused } });
+  }
+
+  const videoIds = entries.map((entry) => entry.videoId);
+  const [videos, stored] = await Promise.all([
+    prisma.video.findMany({ where: { id: { in: videoIds } }, select: { id: true } }),
+    prisma.videoWatchHistory.findMany({
+      where: { userId, videoId: { in: videoIds } },
+      select: { videoId: true, lastWatchedAt: true },
+    }),
+  ]);
+  // Deleted videos are skipped; so is anything older than what's stored
+  const existingVideos = new Set(videos.map((video) => video.id));
+  const storedByVideo = new Map(stored.map((row) => [row.videoId, row]));
+  const toSave = entries.filter(
+    (entry) => existingVideos.has(entry.videoId) && isNewerThanStored(entry, storedByVideo.get(entry.videoId)),
+  );
+
+  if (toSave.length) {
+    await prisma.$transaction(toSave.map(({ videoId, watchedAt, ...progress }) =>
+      prisma.videoWatchHistory.upsert({
+        where: { userId_videoId: { userId, videoId } },
+        update: { ...progress, lastWatchedAt: watchedAt },
+        create: { userId, videoId, ...progress, lastWatchedAt: watchedAt },
+      }),
+    ));
+  }
+
+  res.json({ success: true, data: { saved: toSave.length, paused: false } });
+});
+
+export const updateWatchHistorySettings = asyncHandler(async (req, res) => {
+  const { paused } = req.body ?? {};
+  if (typeof paused !== 'boolean') {
+    return res.status(400).json({ success: false, message: 'paused must be true or false' });
+  }
+
+  const user = await prisma.appUser.update({
+    where: { id: req.user.id },
+    data: { watchHistoryPaused: paused },
+    select: { watchHistoryPaused: true },
+  });
+
+  res.json({ success: true, data: { paused: user.watchHistoryPaused } });
+});
+
+export const removeWatchHistoryEntry = asyncHandler(async (req, res) => {
+  const { count } = await prisma.videoWatchHistory.deleteMany({
+    where: { userId: req.user.id, videoId: req.params.videoId },
+  });
+
+  res.json({ success: true, data: { videoId: req.params.videoId, removed: count > 0 } });
+});
+
+export const clearWatchHistory = asyncHandler(async (req, res) => {
+  const { count } = await prisma.videoWatchHistory.deleteMany({ where: { userId: req.user.id } });
+
+  res.json({ success: true, data: { removed: count } });
+});
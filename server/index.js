@@ -24,6 +24,13 @@ import questionAttemptRoutes from './routes/questionAttemptRoutes.mjs';
 import questionRoutes from './routes/questionRoutes.mjs';
 import surveyRoutes from './routes/surveyRoutes.mjs';
 import videoRoutes from './routes/videoRoutes.mjs';
+import videoCaptionRoutes from './routes/videoCaptionRoutes.mjs';
+import videoCommentRoutes from './routes/videoCommentRoutes.mjs';
+import livestreamChatRoutes from './routes/livestreamChatRoutes.mjs';
+import watchHistoryRoutes from './routes/watchHistoryRoutes.mjs';
+import videoAnalyticsRoutes from './routes/videoAnalyticsRoutes.mjs';
+import playlistRoutes from './routes/playlistRoutes.mjs';
+import offlineDownloadRoutes from './routes/offlineDownloadRoutes.mjs';
 import AdRoutes from './routes/AdRoutes.mjs';
 import exploreRoutes from './routes/exploreRoutes.mjs';
 import rewardQuestionRoutes from './routes/rewardQuestionRoutes.mjs';
@@ -45,6 +52,7 @@ import surveyAiRoutes from './routes/surveyAiRoutes.mjs';
 import configRoutes from './routes/configRoutes.mjs';
 import followRoutes from './routes/followRoutes.mjs';
 import transactionRoutes from './routes/transactionRoutes.mjs';
+import moderationRoutes from './routes/moderationRoutes.mjs';
 import { resetPasswordRedirect, verifyLoginRedirect, appleAppSiteAssociation, androidAssetLinks, inviteRedirect } from './controllers/deepLinkController.mjs';
 import { videoOgRedirect } from './controllers/ogController.mjs';
 import { accountDeletionPage } from './controllers/accountDeletionPageController.mjs';
@@ -137,7 +145,14 @@ app.use('/api/attempts', questionAttemptRoutes);
 app.use('/api/questions', questionRoutes);
 app.use('/api/surveys', surveyRoutes);
 app.use('/api/payments', paymentRoutes);
+app.use('/api/videos', videoCommentRoutes); // Threaded comments — before videoRoutes so /comment-settings isn't read as /:id
+app.use('/api/videos', livestreamChatRoutes); // Livestream chat + moderation
+app.use('/api/videos', watchHistoryRoutes); // Watch history + resume positions
+app.use('/api/videos', videoAnalyticsRoutes); // Creator analytics dashboards
+app.use('/api/videos', playlistRoutes); // Playlists, series + saved collections
+app.use('/api/videos', offlineDownloadRoutes); // Offline download licenses (video premium)
 app.use('/api/videos', videoRoutes);
+app.use('/api/videos', videoCaptionRoutes); // Video caption tracks (upload, auto, editor)
 app.use('/api/auth', authRouter);
 app.use('/api/ads', AdRoutes);
 app.use('/api/explore', exploreRoutes);
@@ -164,6 +179,7 @@ if (REALTIME_ENABLED) {
 app.use('/api/config', configRoutes); // App configuration (reward rates, etc.)
 app.use('/api/follows', followRoutes); // Creator follow graph + user blocks
 app.use('/api/transactions', transactionRoutes); // Unified transaction history
+app.use('/api/moderation', moderationRoutes); // Review console — reports, queue, audit trail
 
 // Health check endpoint for Vercel
 app.get('/api/health', (req, res) => {
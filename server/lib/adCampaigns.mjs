@@ -0,0 +1,190 @@
+/**
+ * Advertiser campaign dashboard — per-ad performance over time, spend pacing
+ * against the daily budget, and the review/status timeline.
+ *
+ * Every billable impression and click leaves an AdImpression / AdClick row
+ * (controllers/AdController.mjs → recordBillableEvent), so they are what the
+ * daily series is counted from. Spend per day is those counts priced at the
+ * ad's current bid — CPM pays per 1,000 impressions, CPC per click — so it
+ * is an estimate if the bid changed mid-range; `amountSpent` on the ad stays
+ * the exact total. CPA and flat-rate campaigns have no per-day spend.
+ *
+ * Pacing compares today's spend (Ad.dailySpend, reset each UTC day) with
+ * where an even spread of `dailyBudgetLimit` would be by now.
+ *
+ * The timeline is the ad's AdStatusChange rows. Ads created before those
+ * were recorded get their submission, approval and rejection filled in from
+ * the columns on the ad itself.
+ */
+
+import { dailyCounts } from './videoAnalytics.mjs';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const AD_STATUSES = ['pending', 'approved', 'rejected', 'paused', 'completed'];
+
+export const CAMPAIGN_LIMITS = {
+  LIST_MAX: 100,
+  // Today's spend this far past an even spread is "ahead"; this far under is "behind"
+  PACING_AHEAD: 1.2,
+  PACING_BEHIND: 0.5,
+};
+
+const round2 = (value) => Math.round(value * 100) / 100;
+const ratio = (part, whole) => (whole > 0 ? part / whole : 0);
+
+// ============================================================================
+// STATUS CHANGES
+// ============================================================================
+
+/** Statuses an owner can pause from, and resume from */
+const PAUSABLE = ['approved'];
+const RESUMABLE = ['paused', 'completed'];
+
+export const canPause = (ad) => PAUSABLE.includes(ad.status);
+export const canResume = (ad) => RESUMABLE.includes(ad.status);
+
+/**
+ * Fields whose change means the ad shows something new — an owner editing
+ * one sends the ad back to review. Budget, bid, schedule and targeting don't.
+ */
+export const CREATIVE_AD_FIELDS = [
+  'title', 'description', 'headline', 'imageUrl', 'videoUrl', 'thumbnailUrl', 'targetUrl',
+  'callToAction', 'r2ImageKey', 'r2VideoKey', 'r2ThumbnailKey',
+];
+
+/** Whether `changes` (a whitelisted update) alters what `ad` shows */
+export function changesCreative(ad, changes) {
+  return CREATIVE_AD_FIELDS.some((field) => field in changes && changes[field] !== ad[field]);
+}
+
+/** Reviewed ads an owner edit sends back to review; a pending one is already there */
+export const RESUBMITTED_FROM = ['approved', 'paused', 'rejected', 'completed'];
+
+/** Prisma nested create for one AdStatusChange — pass as `data.statusChanges` */
+export function statusChangeCreate(status, { reason = null, actorId = null } = {}) {
+  return { create: { status, reason, actorId } };
+}
+
+// ============================================================================
+// METRICS
+// ============================================================================
+
+/** What one impression and one click cost under the ad's pricing model */
+export function unitCosts(ad) {
+  const bid = Number(ad.bidAmount) || 0;
+  return {
+    impression: ad.pricingModel === 'cpm' ? bid / 1000 : 0,
+    click: ad.pricingModel === 'cpc' ? bid : 0,
+  };
+}
+
+/** CTR, CPM, CPC and budget use from the ad's counters — numbers, not strings */
+export function campaignMetrics(ad, now = new Date()) {
+  const spent = Number(ad.amountSpent) || 0;
+  const budget = Number(ad.totalBudget) || 0;
+  return {
+    ctr: round2(ratio(ad.clicks, ad.impressions) * 100),
+    conversionRate: round2(ratio(ad.conversions, ad.clicks) * 100),
+    costPerMille: round2(ratio(spent, ad.impressions) * 1000),
+    costPerClick: round2(ratio(spent, ad.clicks)),
+    budgetRemaining: round2(Math.max(0, budget - spent)),
+    budgetUtilization: round2(ratio(spent, budget) * 100),
+    daysRunning: ad.startDate
+      ? Math.max(0, Math.ceil((now.getTime() - new Date(ad.startDate).getTime()) / DAY_MS))
+      : Math.max(0, Math.ceil((now.getTime() - new Date(ad.createdAt).getTime()) / DAY_MS)),
+  };
+}
+
+/**
+ * Per-day impressions, clicks, CTR and estimated spend from `since` to `now`,
+ * zero-filled. `impressionDays` / `clickDays` are `{ day: 'YYYY-MM-DD', count }`.
+ */
+export function dailyPerformance(ad, impressionDays, clickDays, since, now = new Date()) {
+  const lookup = (rows) => new Map(rows.map((row) => [row.day, Number(row.count) || 0]));
+  const impressions = lookup(impressionDays);
+  const clicks = lookup(clickDays);
+  const costs = unitCosts(ad);
+
+  return dailyCounts([], since, now).map(({ date }) => {
+    const dayImpressions = impressions.get(date) ?? 0;
+    const dayClicks = clicks.get(date) ?? 0;
+    return {
+      date,
+      impressions: dayImpressions,
+      clicks: dayClicks,
+      ctr: round2(ratio(dayClicks, dayImpressions) * 100),
+      spend: round2(dayImpressions * costs.impression + dayClicks * costs.click),
+    };
+  });
+}
+
+// ============================================================================
+// PACING
+// ============================================================================
+
+const startOfUtcDay = (d) => new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
+
+/**
+ * Today's spend against the daily budget. `pacing` is `no_limit` without a
+ * daily budget, `capped` once it's used up (the ad stops serving until UTC
+ * midnight), `idle` for an ad that isn't running, and otherwise `ahead`,
+ * `behind` or `on_track` against an even spread over the day.
+ */
+export function spendPacing(ad, now = new Date()) {
+  const today = startOfUtcDay(now);
+  const sameDay = ad.dailySpendDate && startOfUtcDay(new Date(ad.dailySpendDate)).getTime() === today.getTime();
+  const spentToday = round2(sameDay ? Number(ad.dailySpend) || 0 : 0);
+  const limit = ad.dailyBudgetLimit == null ? null : Number(ad.dailyBudgetLimit);
+  const dayFraction = (now.getTime() - today.getTime()) / DAY_MS;
+
+  const base = { dailyBudgetLimit: limit, spentToday, expectedByNow: null, resetsAt: new Date(today.getTime() + DAY_MS) };
+  if (limit == null || limit <= 0) return { ...base, pacing: 'no_limit' };
+
+  const expectedByNow = round2(limit * dayFraction);
+  let pacing;
+  if (spentToday >= limit) pacing = 'capped';
+  else if (ad.status !== 'approved' || !ad.isActive) pacing = 'idle';
+  else if (spentToday > expectedByNow * CAMPAIGN_LIMITS.PACING_AHEAD) pacing = 'ahead';
+  else if (spentToday < expectedByNow * CAMPAIGN_LIMITS.PACING_BEHIND) pacing = 'behind';
+  else pacing = 'on_track';
+  return { ...base, expectedByNow, pacing };
+}
+
+// ============================================================================
+// TIMELINE
+// ============================================================================
+
+function actorOf(ad, actorId) {
+  if (!actorId) return 'system';
+  return actorId === ad.userId ? 'advertiser' : 'review';
+}
+
+/**
+ * The ad's status history, oldest first: `{ status, reason, at, actor }`
+ * with actor `advertiser`, `review` or `system`.
+ */
+export function statusTimeline(ad, changes = []) {
+  const entries = changes.map((change) => ({
+    status: change.status,
+    reason: change.reason ?? null,
+    at: new Date(change.createdAt),
+    actor: actorOf(ad, change.actorId),
+  }));
+
+  // Older ads: what the ad's own columns still say
+  const has = (status) => entries.some((entry) => entry.status === status);
+  if (!has('pending')) {
+    entries.push({ status: 'pending', reason: null, at: new Date(ad.createdAt), actor: 'advertiser' });
+  }
+  if (ad.approvedAt && !has('approved')) {
+    entries.push({ status: 'approved', reason: null, at: new Date(ad.approvedAt), actor: 'review' });
+  }
+  if (ad.status === 'rejected' && !has('rejected')) {
+    entries.push({ status: 'rejected', reason: ad.rejectionReason ?? null, at: new Date(ad.updatedAt), actor: 'review' });
+  }
+
+  return entries
+    .sort((a, b) => a.at.getTime() - b.at.getTime())
+    .map((entry) => ({ ...entry, at: entry.at.toISOString() }));
+}
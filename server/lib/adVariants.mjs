@@ -0,0 +1,341 @@
+/**
+ * Ad creative tests — 2–4 variants of one campaign's creative (headline,
+ * image or video, call to action) served side by side.
+ *
+ * The public feed (AdController.getAllAds) serves one active variant of a
+ * tested ad per request, picked by traffic share:
+ *  - split:  every active variant gets the same share;
+ *  - bandit: Thompson sampling — a variant's share is the chance its CTR is
+ *            the best, drawn from Beta(clicks + 1, impressions − clicks + 1),
+ *            with a floor so a trailing variant keeps collecting data;
+ *  - once the advertiser picks a winner it takes all the traffic.
+ * The served ad carries `variantId`, and the impressions, clicks and
+ * conversions sent back with it are counted on the variant as well as on
+ * the ad (AdController.recordBillableEvent).
+ *
+ * The readout compares the leader's CTR with the runner-up's in a
+ * two-proportion z-test. It is "collecting" until every variant has
+ * MIN_IMPRESSIONS, then "significant" once the difference clears CONFIDENCE.
+ *
+ * A variant's creative is fixed: editing it retires the old row (its counts
+ * belong to the old creative) and starts a new one.
+ *
+ * Everything here is pure; randomness comes in as `random`.
+ */
+
+import { isUuid } from './moderation.mjs';
+
+export const VARIANT_MODES = ['split', 'bandit'];
+
+export const VARIANT_LABELS = ['A', 'B', 'C', 'D'];
+
+export const VARIANT_LIMITS = {
+  MIN: 2,
+  MAX: VARIANT_LABELS.length,
+  HEADLINE_MAX: 120,
+  DESCRIPTION_MAX: 500,
+  URL_MAX: 2048,
+  /** Impressions every variant needs before the readout calls a result */
+  MIN_IMPRESSIONS: 100,
+  CONFIDENCE: 0.95,
+  /** Smallest share a bandit gives any variant still in the running */
+  BANDIT_FLOOR: 0.05,
+  /** Posterior draws per bandit allocation */
+  BANDIT_DRAWS: 2000,
+};
+
+/** What a variant shows — a change to any of these is a new creative */
+export const VARIANT_CREATIVE_FIELDS = [
+  'headline', 'description', 'imageUrl', 'videoUrl', 'thumbnailUrl', 'callToAction',
+  'r2ImageKey', 'r2VideoKey', 'r2ThumbnailKey',
+];
+
+const ratio = (part, whole) => (whole > 0 ? part / whole : 0);
+
+// ============================================================================
+// INPUT
+// ============================================================================
+
+const optionalString = (value, max) => {
+  if (value == null || value === '') return { value: null };
+  if (typeof value !== 'string' || value.length > max) return { error: true };
+  return { value: value.trim() || null };
+};
+
+function normalizeVariant(source, index, ctaTypes) {
+  const where = `variant ${VARIANT_LABELS[index]}`;
+  if (!source || typeof source !== 'object') return { error: `${where} must be an object` };
+  if (source.id != null && !isUuid(source.id)) return { error: `${where}: id must be an id` };
+
+  const headline = typeof source.headline === 'string' ? source.headline.trim() : '';
+  if (!headline) return { error: `${where} needs a headline` };
+  if (headline.length > VARIANT_LIMITS.HEADLINE_MAX) {
+    return { error: `${where}: headline must be at most ${VARIANT_LIMITS.HEADLINE_MAX} characters` };
+  }
+
+  const variant = { id: source.id ?? null, headline };
+  const limits = { description: VARIANT_LIMITS.DESCRIPTION_MAX };
+  for (const field of VARIANT_CREATIVE_FIELDS.filter((f) => f !== 'headline' && f !== 'callToAction')) {
+    const parsed = optionalString(source[field], limits[field] ?? VARIANT_LIMITS.URL_MAX);
+    if (parsed.error) return { error: `${where}: ${field} is not valid` };
+    variant[field] = parsed.value;
+  }
+  if (!variant.imageUrl && !variant.videoUrl) return { error: `${where} needs an image or a video` };
+
+  const callToAction = source.callToAction ?? 'learn_more';
+  if (!ctaTypes.includes(callToAction)) {
+    return { error: `${where}: callToAction must be one of ${ctaTypes.join(', ')}` };
+  }
+  variant.callToAction = callToAction;
+  return { input: variant };
+}
+
+/**
+ * A variant set from a PUT body — `{ input: { mode, variants } }` on
+ * success, `{ error }` otherwise. `ctaTypes` are the calls to action an ad
+ * may use.
+ */
+export function normalizeVariants(body, ctaTypes) {
+  const source = body && typeof body === 'object' ? body : {};
+  const mode = source.mode ?? 'split';
+  if (!VARIANT_MODES.includes(mode)) return { error: `mode must be one of ${VARIANT_MODES.join(', ')}` };
+  const list = source.variants;
+  if (!Array.isArray(list) || list.length < VARIANT_LIMITS.MIN || list.length > VARIANT_LIMITS.MAX) {
+    return { error: `A test needs ${VARIANT_LIMITS.MIN}–${VARIANT_LIMITS.MAX} variants` };
+  }
+
+  const variants = [];
+  for (const [index, item] of list.entries()) {
+    const parsed = normalizeVariant(item, index, ctaTypes);
+    if (parsed.error) return parsed;
+    variants.push(parsed.input);
+  }
+  const ids = variants.map((v) => v.id).filter(Boolean);
+  if (new Set(ids).size !== ids.length) return { error: 'Each variant can appear only once' };
+  return { input: { mode, variants } };
+}
+
+/** A PATCH body — `{ input: { mode?, winnerVariantId? } }` or `{ error }` */
+export function normalizeTestUpdate(body, activeIds) {
+  const source = body && typeof body === 'object' ? body : {};
+  const input = {};
+  if (source.mode !== undefined) {
+    if (!VARIANT_MODES.includes(source.mode)) return { error: `mode must be one of ${VARIANT_MODES.join(', ')}` };
+    input.mode = source.mode;
+  }
+  if (source.winnerVariantId !== undefined) {
+    if (source.winnerVariantId !== null && !activeIds.includes(source.winnerVariantId)) {
+      return { error: 'The winner must be one of the running variants' };
+    }
+    input.winnerVariantId = source.winnerVariantId;
+  }
+  if (Object.keys(input).length === 0) return { error: 'Nothing to update — send mode or winnerVariantId' };
+  return { input };
+}
+
+/** Whether `next` shows something different from the stored `variant` */
+export const changesVariantCreative = (variant, next) =>
+  VARIANT_CREATIVE_FIELDS.some((field) => (variant[field] ?? null) !== (next[field] ?? null));
+
+/**
+ * How saving `next` onto the ad's `active` variants plays out:
+ *  - keep:   unchanged variants, relabelled to their new position;
+ *  - create: new variants and new versions of edited ones;
+ *  - retire: ids that were dropped or edited.
+ * `changedCreative` is whether any creative is new. `{ error }` names an id
+ * that isn't one of the ad's running variants.
+ */
+export function planVariantSave(active, next) {
+  const byId = new Map(active.map((v) => [v.id, v]));
+  const keep = [];
+  const create = [];
+  const retire = new Set(active.map((v) => v.id));
+
+  for (const [index, variant] of next.entries()) {
+    const { id, ...creative } = variant;
+    const label = VARIANT_LABELS[index];
+    if (id) {
+      const current = byId.get(id);
+      if (!current) return { error: `Variant ${label} is not one of this ad's running variants` };
+      if (!changesVariantCreative(current, creative)) {
+        retire.delete(id);
+        keep.push({ id, label });
+        continue;
+      }
+    }
+    create.push({ ...creative, label });
+  }
+  return { keep, create, retire: [...retire], changedCreative: create.length > 0 };
+}
+
+// ============================================================================
+// TRAFFIC
+// ============================================================================
+
+/** Standard normal draw (Box–Muller) */
+function normalDraw(random) {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/** Gamma(shape, 1) draw (Marsaglia–Tsang; shape ≥ 1 here) */
+function gammaDraw(shape, random) {
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x;
+    let v;
+    do {
+      x = normalDraw(random);
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = 1 - random();
+    if (Math.log(u) < 0.5 * x * x + d - d * v + d * Math.log(v)) return d * v;
+  }
+}
+
+/** Beta(a, b) draw */
+export function betaDraw(a, b, random = Math.random) {
+  const x = gammaDraw(a, random);
+  return x / (x + gammaDraw(b, random));
+}
+
+/** Clicks can't outnumber the impressions they came from in the posterior */
+const posterior = (v) => {
+  const impressions = Math.max(0, v.impressions || 0);
+  const clicks = Math.min(impressions, Math.max(0, v.clicks || 0));
+  return [clicks + 1, impressions - clicks + 1];
+};
+
+/** Share of draws in which each variant had the best CTR */
+function probabilityBest(variants, draws, random) {
+  const wins = new Array(variants.length).fill(0);
+  const params = variants.map(posterior);
+  for (let i = 0; i < draws; i++) {
+    let best = 0;
+    let bestValue = -1;
+    params.forEach(([a, b], index) => {
+      const value = betaDraw(a, b, random);
+      if (value > bestValue) {
+        bestValue = value;
+        best = index;
+      }
+    });
+    wins[best] += 1;
+  }
+  return wins.map((count) => count / draws);
+}
+
+/**
+ * Traffic share per active variant — `[{ id, share }]` summing to 1, in the
+ * variants' order. Empty when there is no test.
+ */
+export function trafficShares(variants, { mode, winnerVariantId = null } = {}, random = Math.random) {
+  const active = variants.filter((v) => v.isActive !== false);
+  if (!mode || active.length === 0) return [];
+  if (winnerVariantId && active.some((v) => v.id === winnerVariantId)) {
+    return active.map((v) => ({ id: v.id, share: v.id === winnerVariantId ? 1 : 0 }));
+  }
+  if (mode !== 'bandit' || active.length === 1) {
+    return active.map((v) => ({ id: v.id, share: 1 / active.length }));
+  }
+
+  const floor = Math.min(VARIANT_LIMITS.BANDIT_FLOOR, 1 / active.length);
+  const best = probabilityBest(active, VARIANT_LIMITS.BANDIT_DRAWS, random);
+  // Lift every share to the floor, taking it back from the rest in proportion
+  const lifted = best.map((p) => Math.max(p, floor));
+  const spare = 1 - floor * active.length;
+  const above = lifted.reduce((sum, p) => sum + (p - floor), 0);
+  return active.map((v, i) => ({
+    id: v.id,
+    share: above > 0 ? floor + ((lifted[i] - floor) / above) * spare : 1 / active.length,
+  }));
+}
+
+/** The variant whose slice of [0, 1) holds `roll`; null when none have traffic */
+export function pickVariant(shares, roll) {
+  let upTo = 0;
+  for (const entry of shares) {
+    upTo += entry.share;
+    if (entry.share > 0 && roll < upTo) return entry.id;
+  }
+  const last = [...shares].reverse().find((entry) => entry.share > 0);
+  return last ? last.id : null;
+}
+
+// ============================================================================
+// READOUT
+// ============================================================================
+
+/** Standard normal CDF (Abramowitz–Stegun 7.1.26, error < 1.5e-7) */
+export function normalCdf(z) {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Two-proportion z-test of `a`'s CTR against `b`'s — the confidence (0–1)
+ * that they really differ, two-sided.
+ */
+export function ctrConfidence(a, b) {
+  const n1 = a.impressions || 0;
+  const n2 = b.impressions || 0;
+  if (n1 === 0 || n2 === 0) return 0;
+  const p1 = Math.min(1, (a.clicks || 0) / n1);
+  const p2 = Math.min(1, (b.clicks || 0) / n2);
+  const pooled = Math.min(1, ((a.clicks || 0) + (b.clicks || 0)) / (n1 + n2));
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / n1 + 1 / n2));
+  if (se === 0) return 0;
+  const z = Math.abs(p1 - p2) / se;
+  return 2 * normalCdf(z) - 1;
+}
+
+/** Counts and rates for one variant */
+export function variantMetrics(variant) {
+  return {
+    ctr: Math.round(ratio(variant.clicks, variant.impressions) * 10000) / 100,
+    conversionRate: Math.round(ratio(variant.conversions, variant.clicks) * 10000) / 100,
+  };
+}
+
+/**
+ * The significance readout for a test's active variants:
+ *  - status:     collecting | inconclusive | significant;
+ *  - leaderId / runnerUpId by CTR;
+ *  - lift:       the leader's CTR over the runner-up's, in percent (null
+ *                when the runner-up has no clicks);
+ *  - confidence: of that difference, 0–1;
+ *  - needed:     impressions still missing before a call can be made.
+ */
+export function testReadout(variants) {
+  const active = variants.filter((v) => v.isActive !== false);
+  if (active.length < 2) {
+    return { status: 'collecting', leaderId: null, runnerUpId: null, lift: null, confidence: 0, needed: 0 };
+  }
+  const ranked = [...active].sort(
+    (a, b) => ratio(b.clicks, b.impressions) - ratio(a.clicks, a.impressions) || b.impressions - a.impressions,
+  );
+  const [leader, runnerUp] = ranked;
+  const leaderCtr = ratio(leader.clicks, leader.impressions);
+  const runnerUpCtr = ratio(runnerUp.clicks, runnerUp.impressions);
+  const confidence = ctrConfidence(leader, runnerUp);
+  const needed = active.reduce((sum, v) => sum + Math.max(0, VARIANT_LIMITS.MIN_IMPRESSIONS - (v.impressions || 0)), 0);
+
+  let status = 'inconclusive';
+  if (needed > 0) status = 'collecting';
+  else if (confidence >= VARIANT_LIMITS.CONFIDENCE && leaderCtr > runnerUpCtr) status = 'significant';
+
+  return {
+    status,
+    leaderId: leaderCtr > 0 ? leader.id : null,
+    runnerUpId: leaderCtr > 0 ? runnerUp.id : null,
+    lift: runnerUpCtr > 0 ? Math.round(((leaderCtr - runnerUpCtr) / runnerUpCtr) * 1000) / 10 : null,
+    confidence: Math.round(confidence * 1000) / 1000,
+    needed,
+  };
+}
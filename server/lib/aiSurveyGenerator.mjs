@@ -181,15 +181,17 @@ export function parseAndNormalize(rawContent) {
       ? q.options.map((o) => String(o).trim()).filter(Boolean)
       : [];
 
-    // Choice types need ≥2 real options; if the model under-delivered, fall
-    // back to short text so the question content still survives for editing.
-    const isChoice = type === 'radio' || type === 'checkbox' || type === 'dropdown';
-    const finalType = isChoice && options.length < 2 ? 'text' : type;
+    // Choice and ranking types need ≥2 real options; if the model
+    // under-delivered, fall back to short text so the question content still
+    // survives for editing. The prompt never asks for a matrix (it has no way
+    // to carry the column scale), so one is treated the same way.
+    const hasOptionList = type === 'radio' || type === 'checkbox' || type === 'dropdown' || type === 'ranking';
+    const finalType = (hasOptionList && options.length < 2) || type === 'matrix' ? 'text' : type;
 
     const out = {
       text,
       type: finalType,
-      options: finalType === 'radio' || finalType === 'checkbox' || finalType === 'dropdown' ? options : [],
+      options: finalType === 'radio' || finalType === 'checkbox' || finalType === 'dropdown' || finalType === 'ranking' ? options : [],
       required: q?.required === true,
     };
 
@@ -0,0 +1,238 @@
+/**
+ * Video captions — parsing, validation and serialization of caption tracks.
+ *
+ * A video has at most one VideoCaption track per language. Tracks come from
+ * two places:
+ *  - 'upload': the creator attaches a WebVTT or SRT file; it's parsed into
+ *    cues here and the file itself is not kept;
+ *  - 'auto':   queued 'pending' and filled by scripts/transcribe-captions.mjs
+ *    through the provider in lib/transcription.mjs.
+ * Either kind can then be corrected line by line in the app's caption editor,
+ * which PUTs the whole cue list back through validateCues.
+ *
+ * Cues are `{ start, end, text }` with times in seconds (millisecond
+ * precision) and plain text — markup is stripped, the app renders its own
+ * caption styling. toWebVTT turns a track back into a file for download.
+ *
+ * Everything here is pure except syncCaptionLanguages, which takes the Prisma
+ * client as an argument.
+ */
+
+export const CAPTION_STATUS = {
+  PENDING: 'pending',
+  PROCESSING: 'processing',
+  READY: 'ready',
+  FAILED: 'failed',
+};
+
+export const CAPTION_SOURCE = {
+  UPLOAD: 'upload',
+  AUTO: 'auto',
+};
+
+/** ISO 639 language code — the same shape Video.language and survey languages use */
+export const CAPTION_LANGUAGE_PATTERN = /^[a-z]{2,3}$/;
+
+export const CAPTION_LIMITS = {
+  MAX_FILE_CHARS: 512 * 1024,
+  MAX_CUES: 5000,
+  MAX_CUE_CHARS: 300,
+  MAX_LABEL_CHARS: 40,
+};
+
+// ── Parsing ──────────────────────────────────────────────────────────────────
+
+const TIMESTAMP = /^(?:(\d+):)?([0-5]?\d):([0-5]\d)[.,](\d{1,3})$/;
+
+/** "01:02:03.450", "02:03.450" or SRT's "01:02:03,450" → seconds; null if malformed */
+export function parseTimestamp(value) {
+  const match = TIMESTAMP.exec(String(value).trim());
+  if (!match) return null;
+  const [, hours = '0', minutes, seconds, fraction] = match;
+  const millis = Number(fraction.padEnd(3, '0'));
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds) + millis / 1000;
+}
+
+/** Drop VTT/SRT markup (<i>, <c.yellow>, <00:01.000>, {\an8}) and decode the basic entities */
+function plainText(lines) {
+  return lines
+    .join('\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/\{\\[^}]*\}/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Parse a WebVTT or SRT file into cues. Both formats are blocks separated by
+ * blank lines with a `start --> end` timing line, so one parser reads both:
+ * blocks without a timing line (the WEBVTT header, NOTE, STYLE, REGION, SRT
+ * counters on their own) are skipped, and so are cues with no text.
+ *
+ * Returns { cues, error } — cues are unvalidated; run them through validateCues.
+ */
+export function parseCaptionFile(text) {
+  if (typeof text !== 'string' || text.trim().length === 0) {
+    return { cues: [], error: 'The caption file is empty' };
+  }
+  if (text.length > CAPTION_LIMITS.MAX_FILE_CHARS) {
+    return { cues: [], error: 'The caption file is too large' };
+  }
+
+  const normalized = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const isVtt = /^WEBVTT(?:[ \t].*)?(?:\n|$)/.test(normalized);
+  const cues = [];
+
+  for (const block of normalized.split(/\n{2,}/)) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex((line) => line.includes('-->'));
+    if (timingIndex === -1 || /^(NOTE|STYLE|REGION)\b/.test(lines[0])) continue;
+
+    // VTT cue settings ("align:start line:90%") follow the end time — ignore them
+    const [startText, rest = ''] = lines[timingIndex].split('-->');
+    const start = parseTimestamp(startText);
+    const end = parseTimestamp(rest.trim().split(/\s+/)[0]);
+    if (start === null || end === null) {
+      return { cues: [], error: `Unreadable timing line: "${lines[timingIndex].slice(0, 60)}"` };
+    }
+    const cueText = plainText(lines.slice(timingIndex + 1));
+    if (cueText) cues.push({ start, end, text: cueText });
+  }
+
+  if (cues.length === 0) {
+    return { cues: [], error: isVtt ? 'The WebVTT file has no cues' : 'Not a WebVTT or SRT file' };
+  }
+  return { cues, error: null };
+}
+
+// ── Validation ───────────────────────────────────────────────────────────────
+
+const round = (seconds) => Math.round(seconds * 1000) / 1000;
+
+/**
+ * Normalize a cue list from a parsed file or the caption editor: times rounded
+ * to milliseconds, text trimmed, cues sorted by start. Overlapping cues are
+ * allowed — two speakers can talk at once.
+ *
+ * Returns { cues, error } — error names the first bad cue (1-based, in the
+ * order given) so the editor can point at it.
+ */
+export function validateCues(input) {
+  if (!Array.isArray(input)) return { cues: [], error: 'Cues must be a list' };
+  if (input.length === 0) return { cues: [], error: 'A caption track needs at least one cue' };
+  if (input.length > CAPTION_LIMITS.MAX_CUES) {
+    return { cues: [], error: `A caption track can have at most ${CAPTION_LIMITS.MAX_CUES} cues` };
+  }
+
+  const cues = [];
+  for (let i = 0; i < input.length; i += 1) {
+    const cue = input[i];
+    const start = Number(cue?.start);
+    const end = Number(cue?.end);
+    const text = typeof cue?.text === 'string' ? cue.text.trim() : '';
+    const fail = (message) => ({ cues: [], error: `Cue ${i + 1}: ${message}` });
+
+    if (!Number.isFinite(start) || !Number.isFinite(end) || start < 0) return fail('invalid timing');
+    if (end <= start) return fail('must end after it starts');
+    if (!text) return fail('has no text');
+    if (text.length > CAPTION_LIMITS.MAX_CUE_CHARS) {
+      return fail(`is longer than ${CAPTION_LIMITS.MAX_CUE_CHARS} characters`);
+    }
+    cues.push({ start: round(start), end: round(end), text });
+  }
+
+  cues.sort((a, b) => a.start - b.start || a.end - b.end);
+  return { cues, error: null };
+}
+
+/** Stored VideoCaption.cues (JSON) → a cue list; anything malformed is dropped */
+export function parseStoredCues(value) {
+  if (!Array.isArray(value)) return [];
+  return value.filter((cue) =>
+    cue && Number.isFinite(cue.start) && Number.isFinite(cue.end) && typeof cue.text === 'string');
+}
+
+// ── Serialization ────────────────────────────────────────────────────────────
+
+/** Seconds → "HH:MM:SS.mmm" */
+export function formatTimestamp(seconds) {
+  const totalMillis = Math.max(0, Math.round(seconds * 1000));
+  const pad = (n, width = 2) => String(n).padStart(width, '0');
+  const hours = Math.floor(totalMillis / 3_600_000);
+  const minutes = Math.floor(totalMillis / 60_000) % 60;
+  const secs = Math.floor(totalMillis / 1000) % 60;
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}.${pad(totalMillis % 1000, 3)}`;
+}
+
+/** A cue list as a WebVTT file */
+export function toWebVTT(cues) {
+  const escape = (text) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  const blocks = cues.map((cue) =>
+    `${formatTimestamp(cue.start)} --> ${formatTimestamp(cue.end)}\n${escape(cue.text)}`);
+  return `WEBVTT\n\n${blocks.join('\n\n')}\n`;
+}
+
+/**
+ * Transcription segments ({ start, end, text } from Whisper's verbose_json) →
+ * cues. Long segments are split at word boundaries so a cue stays readable on
+ * a phone — two lines of about 42 characters — with the time shared out by
+ * length.
+ */
+export function cuesFromSegments(segments, maxChars = 84) {
+  const cues = [];
+  for (const segment of Array.isArray(segments) ? segments : []) {
+    const text = typeof segment?.text === 'string' ? segment.text.trim().replace(/\s+/g, ' ') : '';
+    const start = Number(segment?.start);
+    const end = Number(segment?.end);
+    if (!text || !Number.isFinite(start) || !Number.isFinite(end) || end <= start) continue;
+
+    const chunks = [];
+    let current = '';
+    for (const word of text.split(' ')) {
+      if (current && current.length + 1 + word.length > maxChars) {
+        chunks.push(current);
+        current = word;
+      } else {
+        current = current ? `${current} ${word}` : word;
+      }
+    }
+    if (current) chunks.push(current);
+
+    const perChar = (end - start) / chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    let at = start;
+    chunks.forEach((chunk, i) => {
+      const to = i === chunks.length - 1 ? end : at + chunk.length * perChar;
+      cues.push({ start: round(at), end: round(to), text: chunk.slice(0, CAPTION_LIMITS.MAX_CUE_CHARS) });
+      at = to;
+    });
+  }
+  return cues.filter((cue) => cue.end > cue.start);
+}
+
+/** Picker label for a track — the creator's, else the language code plus "(auto)" for generated tracks */
+export function captionLabel(language, source, label) {
+  const given = typeof label === 'string' ? label.trim().slice(0, CAPTION_LIMITS.MAX_LABEL_CHARS) : '';
+  if (given) return given;
+  return source === CAPTION_SOURCE.AUTO ? `${language.toUpperCase()} (auto)` : language.toUpperCase();
+}
+
+/**
+ * Recompute Video.captionLanguages from the video's READY tracks. Call after
+ * any change that can make a track appear, disappear or change readiness.
+ */
+export async function syncCaptionLanguages(prisma, videoId) {
+  const ready = await prisma.videoCaption.findMany({
+    where: { videoId, status: CAPTION_STATUS.READY },
+    select: { language: true },
+    orderBy: { language: 'asc' },
+  });
+  const captionLanguages = ready.map((track) => track.language);
+  await prisma.video.update({ where: { id: videoId }, data: { captionLanguages } });
+  return captionLanguages;
+}
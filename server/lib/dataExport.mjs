@@ -46,6 +46,7 @@ async function assembleUserExport(userId) {
     videoComments,
     videoShares,
     videoFeedback,
+    watchHistory,
     ads,
     referralsMade,
     referralReceived,
@@ -74,6 +75,7 @@ async function assembleUserExport(userId) {
         verifiedMomoNumbers: true,
         followersCount: true,
         followingCount: true,
+        watchHistoryPaused: true,
         createdAt: true,
         updatedAt: true,
       },
@@ -102,6 +104,7 @@ async function assembleUserExport(userId) {
     prisma.comment.findMany({ where: { userId } }),
     prisma.videoShare.findMany({ where: { userId } }),
     prisma.videoFeedback.findMany({ where: { userId } }),
+    prisma.videoWatchHistory.findMany({ where: { userId }, orderBy: { lastWatchedAt: 'desc' } }),
     prisma.ad.findMany({ where: { userId } }),
     prisma.referral.findMany({ where: { inviterId: userId } }),
     prisma.referral.findUnique({ where: { inviteeId: userId } }),
@@ -129,6 +132,7 @@ async function assembleUserExport(userId) {
     videoComments,
     videoShares,
     videoFeedback,
+    watchHistory,
     adsCreated: ads,
     referrals: { sentByYou: referralsMade, receivedByYou: referralReceived },
   };
@@ -0,0 +1,167 @@
+/**
+ * HLS ladder — the renditions every uploaded video is transcoded into.
+ *
+ * Uploads land in R2 as a single MP4. The transcode worker
+ * (scripts/transcode-hls.mjs, run outside Vercel — functions cap at 60 s)
+ * claims videos with hlsStatus 'pending' and writes, per video:
+ *
+ *   hls/<videoId>/master.m3u8          video rungs only (see masterPlaylist)
+ *   hls/<videoId>/<rung>/index.m3u8    one VOD media playlist per rung
+ *   hls/<videoId>/<rung>/seg_00000.ts  its segments
+ *
+ * R2 objects are private, and a signed playlist URL doesn't authorize the
+ * segments it lists. So playlists are served through the API
+ * (GET /api/videos/:id/hls/:playlist): the master as stored — its variant
+ * URIs are relative, so they resolve back to the same route — and media
+ * playlists with every segment rewritten to a signed R2 URL.
+ *
+ * Everything here is pure; the worker and controller do the I/O.
+ */
+
+export const HLS_STATUS = {
+  PENDING: 'pending',
+  PROCESSING: 'processing',
+  READY: 'ready',
+  FAILED: 'failed',
+};
+
+export const HLS_SEGMENT_SECONDS = 4;
+export const HLS_PLAYLIST_MIME = 'application/vnd.apple.mpegurl';
+export const HLS_SEGMENT_MIME = 'video/mp2t';
+
+const AUDIO_CODEC = 'mp4a.40.2'; // AAC-LC
+const VIDEO_CODEC = 'avc1.4d401f'; // H.264 Main@3.1
+
+/**
+ * Rungs, lowest first. `height: 0` is the audio-only rung — it stays out of the
+ * master so adaptive playback never drops to a black screen; viewers reach it
+ * by picking "Audio only".
+ */
+export const HLS_LADDER = [
+  { name: '360p', height: 360, videoBitrate: 700_000, audioBitrate: 96_000 },
+  { name: '480p', height: 480, videoBitrate: 1_200_000, audioBitrate: 128_000 },
+  { name: '720p', height: 720, videoBitrate: 2_500_000, audioBitrate: 128_000 },
+  { name: 'audio', height: 0, videoBitrate: 0, audioBitrate: 64_000 },
+];
+
+/** Peak bits/s a rung needs — the BANDWIDTH players pick rungs by */
+export function rungBandwidth(rung) {
+  return rung.videoBitrate + rung.audioBitrate;
+}
+
+/**
+ * The rungs worth producing for a source. Video rungs taller than the source
+ * are skipped (never upscale) but the lowest always stays, so a tiny source
+ * still gets a video rung. No audio track, no audio rung. An unknown height
+ * gets the full ladder.
+ */
+export function ladderFor(sourceHeight, hasAudio = true) {
+  const video = HLS_LADDER.filter((rung) => rung.height > 0);
+  const fitting = sourceHeight ? video.filter((rung) => rung.height <= sourceHeight) : video;
+  const rungs = fitting.length > 0 ? fitting : [video[0]];
+  return hasAudio ? [...rungs, ...HLS_LADDER.filter((rung) => rung.height === 0)] : rungs;
+}
+
+/** R2 key of a file under a video's ladder */
+export function hlsKey(videoId, file) {
+  return `hls/${videoId}/${file}`;
+}
+
+/** ffmpeg arguments that write one rung as a VOD playlist + segments into `outDir/<rung>/` */
+export function ffmpegArgs(input, outDir, rung, { hasAudio = true } = {}) {
+  const rungDir = `${outDir}/${rung.name}`;
+  const audio = hasAudio
+    ? ['-c:a', 'aac', '-b:a', String(rung.audioBitrate), '-ac', '2']
+    : ['-an'];
+  const video = rung.height > 0
+    ? [
+        // -2 keeps the width even; min() caps tiny sources at their own height
+        '-vf', `scale=-2:'min(${rung.height},ih)'`,
+        '-c:v', 'libx264', '-preset', 'veryfast', '-profile:v', 'main',
+        '-b:v', String(rung.videoBitrate),
+        '-maxrate', String(Math.round(rung.videoBitrate * 1.07)),
+        '-bufsize', String(rung.videoBitrate * 2),
+        // Keyframe on every segment boundary so rungs can switch cleanly
+        '-force_key_frames', `expr:gte(t,n_forced*${HLS_SEGMENT_SECONDS})`,
+      ]
+    : ['-vn'];
+
+  return [
+    '-y', '-i', input,
+    ...video,
+    ...audio,
+    '-f', 'hls',
+    '-hls_time', String(HLS_SEGMENT_SECONDS),
+    '-hls_playlist_type', 'vod',
+    '-hls_segment_filename', `${rungDir}/seg_%05d.ts`,
+    `${rungDir}/index.m3u8`,
+  ];
+}
+
+/** The rung summary stored on Video.hlsRenditions and sent to clients */
+export function renditionSummary(rungs) {
+  return rungs.map((rung) => ({ name: rung.name, height: rung.height, bandwidth: rungBandwidth(rung) }));
+}
+
+/** Master playlist over the video rungs of a summary, variant URIs relative (`360p.m3u8`) */
+export function masterPlaylist(renditions, { hasAudio = true } = {}) {
+  const codecs = hasAudio ? `${VIDEO_CODEC},${AUDIO_CODEC}` : VIDEO_CODEC;
+  const lines = ['#EXTM3U', '#EXT-X-VERSION:3', '#EXT-X-INDEPENDENT-SEGMENTS'];
+  for (const rendition of renditions) {
+    if (rendition.height === 0) continue;
+    lines.push(`#EXT-X-STREAM-INF:BANDWIDTH=${rendition.bandwidth},CODECS="${codecs}",NAME="${rendition.name}"`);
+    lines.push(`${rendition.name}.m3u8`);
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+/** Video.hlsRenditions (JSON) → a clean summary; anything malformed is dropped */
+export function parseRenditions(value) {
+  if (!Array.isArray(value)) return [];
+  return value.filter((r) =>
+    r && typeof r.name === 'string' && /^[a-z0-9]+$/.test(r.name) &&
+    Number.isInteger(r.height) && Number.isInteger(r.bandwidth));
+}
+
+/**
+ * The `hls` block of a video response: playlist routes (relative — the app
+ * resolves them against its API base) for a ready ladder, else null so the
+ * client plays the MP4.
+ */
+export function hlsPayload(video) {
+  if (video.hlsStatus !== HLS_STATUS.READY) return null;
+  const renditions = parseRenditions(video.hlsRenditions);
+  if (renditions.length === 0) return null;
+  const base = `/api/videos/${video.id}/hls`;
+  return {
+    masterUrl: `${base}/master.m3u8`,
+    renditions: renditions.map((r) => ({ ...r, url: `${base}/${r.name}.m3u8` })),
+  };
+}
+
+/**
+ * Which stored playlist a request for `playlist` ('master.m3u8' or
+ * '<rung>.m3u8') names. Returns null for anything outside the video's ladder.
+ */
+export function resolvePlaylist(videoId, playlist, renditions) {
+  const match = /^([a-z0-9]+)\.m3u8$/.exec(playlist ?? '');
+  if (!match || renditions.length === 0) return null;
+  if (match[1] === 'master') return { key: hlsKey(videoId, 'master.m3u8'), rendition: null };
+  if (!renditions.some((r) => r.name === match[1])) return null;
+  return { key: hlsKey(videoId, `${match[1]}/index.m3u8`), rendition: match[1] };
+}
+
+/**
+ * Rewrite each segment URI of a media playlist through `signSegment(file)`.
+ * Tags and comments pass through; URIs that aren't a bare file name are left
+ * alone rather than signed.
+ */
+export async function signMediaPlaylist(text, signSegment) {
+  const lines = text.split('\n');
+  const signed = await Promise.all(lines.map((line) => {
+    const uri = line.trim();
+    if (!uri || uri.startsWith('#') || !/^[\w.-]+$/.test(uri)) return line;
+    return signSegment(uri);
+  }));
+  return signed.join('\n');
+}
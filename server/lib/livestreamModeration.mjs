@@ -0,0 +1,191 @@
+/**
+ * Livestream chat moderation — who may chat, what gets through, and who may
+ * moderate.
+ *
+ * Staff are the streamer and the co-moderators they appointed from their
+ * followers (LivestreamModerator — one list per streamer, used on every stream).
+ * Staff are exempt from every rule below and can delete messages, time out or
+ * ban a viewer for the session, and change the session's chat settings.
+ *
+ * A viewer's message is checked before it is stored or broadcast, in order:
+ *  1. banned for the session, or timed out until expiresAt;
+ *  2. followers-only chat, when the viewer doesn't follow the streamer;
+ *  3. slow mode: one message per slowModeSeconds;
+ *  4. links, when the session blocks them (scam payment links are the usual spam);
+ *  5. the streamer's banned words (whole words, as comment keywords match).
+ * A rejected message is never stored, so it can't reach the replay either.
+ */
+
+import { matchesBlockedKeyword, normalizeKeywords } from './videoComments.mjs';
+
+export const LIVESTREAM_MODERATION_LIMITS = {
+  MAX_SLOW_MODE_SECONDS: 300,
+  MAX_TIMEOUT_SECONDS: 24 * 60 * 60,
+  DEFAULT_TIMEOUT_SECONDS: 5 * 60,
+  MAX_MODERATORS: 20,
+};
+
+export const RESTRICTION_KIND = {
+  TIMEOUT: 'timeout',
+  BAN: 'ban',
+};
+
+/** The streamer's banned words, normalized like comment keywords — null when invalid */
+export const normalizeBannedWords = normalizeKeywords;
+
+/** Whether `userId` is the streamer or one of their co-moderators */
+export function isChatStaff(livestream, userId, moderatorIds = []) {
+  if (!livestream || !userId) return false;
+  return livestream.userId === userId || moderatorIds.includes(userId);
+}
+
+/**
+ * The restriction in force for a viewer, or null when there is none or the
+ * timeout has run out. Bans never expire within their session.
+ */
+export function activeRestriction(restriction, now = new Date()) {
+  if (!restriction) return null;
+  if (restriction.kind === RESTRICTION_KIND.BAN) return restriction;
+  if (restriction.expiresAt && new Date(restriction.expiresAt) > now) return restriction;
+  return null;
+}
+
+/**
+ * `{ kind, expiresAt }` for a restrict request, or null when malformed. A
+ * timeout defaults to DEFAULT_TIMEOUT_SECONDS; a ban ignores the duration.
+ */
+export function parseRestriction(body = {}, now = new Date()) {
+  const { kind } = body;
+  if (kind === RESTRICTION_KIND.BAN) return { kind, expiresAt: null };
+  if (kind !== RESTRICTION_KIND.TIMEOUT) return null;
+
+  const seconds =
+    body.durationSeconds === undefined ? LIVESTREAM_MODERATION_LIMITS.DEFAULT_TIMEOUT_SECONDS : body.durationSeconds;
+  if (!Number.isInteger(seconds) || seconds < 1 || seconds > LIVESTREAM_MODERATION_LIMITS.MAX_TIMEOUT_SECONDS) {
+    return null;
+  }
+  return { kind, expiresAt: new Date(now.getTime() + seconds * 1000) };
+}
+
+/**
+ * The chat settings in a PUT body — only the fields present — or null when
+ * any is malformed. An empty body is valid and changes nothing.
+ */
+export function normalizeChatSettings(body = {}) {
+  const settings = {};
+  if (body.slowModeSeconds !== undefined) {
+    const seconds = body.slowModeSeconds;
+    if (!Number.isInteger(seconds) || seconds < 0 || seconds > LIVESTREAM_MODERATION_LIMITS.MAX_SLOW_MODE_SECONDS) {
+      return null;
+    }
+    settings.slowModeSeconds = seconds;
+  }
+  for (const key of ['followersOnlyChat', 'blockChatLinks']) {
+    if (body[key] === undefined) continue;
+    if (typeof body[key] !== 'boolean') return null;
+    settings[key] = body[key];
+  }
+  return settings;
+}
+
+/** A session's chat settings as the app sees them */
+export function chatSettingsPayload(livestream) {
+  return {
+    slowModeSeconds: livestream.slowModeSeconds ?? 0,
+    followersOnlyChat: !!livestream.followersOnlyChat,
+    blockChatLinks: !!livestream.blockChatLinks,
+  };
+}
+
+// URLs, www. hosts and bare domains with a path or a common TLD ("pay-now.com",
+// "bit.ly/x"). Deliberately broad: a false positive costs one retyped message.
+const LINK_PATTERN =
+  /(https?:\/\/|www\.)\S+|\b[a-z0-9-]+(\.[a-z0-9-]+)*\.(com|net|org|io|co|me|ly|app|link|xyz|info|biz|shop|site|online|ug|ke|tz)\b(\/\S*)?|\b[a-z0-9-]+\.[a-z]{2,}\/\S+/i;
+
+/** Whether `text` contains something that looks like a link */
+export function containsLink(text) {
+  return typeof text === 'string' && LINK_PATTERN.test(text);
+}
+
+/**
+ * Why a viewer's chat message is refused, as `{ status, error, message,
+ * retryAfterSeconds? }` — or null when it may be sent.
+ * @param {{ text: string, isStaff: boolean, isFollower: boolean,
+ *           settings: { slowModeSeconds?: number, followersOnlyChat?: boolean, blockChatLinks?: boolean },
+ *           bannedWords?: string[], restriction?: object|null, lastSentAt?: Date|null, now?: Date }} input
+ */
+export function chatRejection({
+  text,
+  isStaff,
+  isFollower,
+  settings,
+  bannedWords = [],
+  restriction = null,
+  lastSentAt = null,
+  now = new Date(),
+}) {
+  if (isStaff) return null;
+
+  const active = activeRestriction(restriction, now);
+  if (active?.kind === RESTRICTION_KIND.BAN) {
+    return { status: 403, error: 'CHAT_BANNED', message: 'You have been banned from this chat' };
+  }
+  if (active) {
+    const retryAfterSeconds = Math.ceil((new Date(active.expiresAt).getTime() - now.getTime()) / 1000);
+    return { status: 403, error: 'CHAT_TIMED_OUT', message: 'You have been timed out of this chat', retryAfterSeconds };
+  }
+
+  if (settings?.followersOnlyChat && !isFollower) {
+    return { status: 403, error: 'FOLLOWERS_ONLY', message: 'Only followers can chat on this stream' };
+  }
+
+  const slowMode = settings?.slowModeSeconds ?? 0;
+  if (slowMode > 0 && lastSentAt) {
+    const waitMs = new Date(lastSentAt).getTime() + slowMode * 1000 - now.getTime();
+    if (waitMs > 0) {
+      return {
+        status: 429,
+        error: 'SLOW_MODE',
+        message: `Slow mode is on — one message every ${slowMode}s`,
+        retryAfterSeconds: Math.ceil(waitMs / 1000),
+      };
+    }
+  }
+
+  if (settings?.blockChatLinks && containsLink(text)) {
+    return { status: 400, error: 'LINKS_NOT_ALLOWED', message: 'Links are not allowed in this chat' };
+  }
+
+  // The matched word isn't echoed back — that would just teach spammers the list
+  if (matchesBlockedKeyword(text, bannedWords)) {
+    return { status: 400, error: 'MESSAGE_BLOCKED', message: 'This message was blocked by the streamer' };
+  }
+
+  return null;
+}
+
+/**
+ * Why `actorId` can't restrict `targetId`, as `{ status, message }` — or null
+ * when they can. Nobody restricts themselves or the streamer, and only the
+ * streamer can restrict a co-moderator.
+ */
+export function restrictionTargetError(livestream, actorId, targetId, moderatorIds = []) {
+  if (!targetId || typeof targetId !== 'string') return { status: 400, message: 'userId is required' };
+  if (targetId === actorId) return { status: 400, message: 'You cannot restrict yourself' };
+  if (targetId === livestream.userId) return { status: 403, message: 'The streamer cannot be restricted' };
+  if (moderatorIds.includes(targetId) && actorId !== livestream.userId) {
+    return { status: 403, message: 'Only the streamer can restrict a moderator' };
+  }
+  return null;
+}
+
+/** A LivestreamChatRestriction row as the app sees it, named when `user` is given */
+export function formatRestriction(row, user = null) {
+  return {
+    userId: row.userId,
+    userName: user ? `${user.firstName} ${user.lastName}`.trim() : null,
+    kind: row.kind,
+    expiresAt: row.expiresAt ? new Date(row.expiresAt).toISOString() : null,
+    createdAt: new Date(row.createdAt).toISOString(),
+  };
+}
@@ -0,0 +1,107 @@
+/**
+ * Livestream replays — an ended stream as a first-class Video, with its chat.
+ *
+ * When a livestream ends, its recording becomes a Video that keeps the
+ * stream's sessionId (Video.livestreamSessionId, unique — one replay per
+ * stream) and its peak concurrent viewers. The recording reaches R2 one of
+ * two ways, and both link the same way:
+ *  - the app publishes the recorded file (presigned upload → finalize-video
+ *    with `livestreamSessionId`);
+ *  - chunked recording (POST /api/r2/livestream/finalize).
+ *
+ * Chat sent during the stream is stored with offsetMs — milliseconds since the
+ * stream started — which is exactly the replay's playhead. The player loads
+ * chat in windows (GET /api/videos/:id/replay-chat?fromMs=&toMs=) as playback
+ * moves, so a two-hour stream never ships its whole chat at once.
+ */
+
+export const REPLAY_CHAT_LIMITS = {
+  MAX_TEXT: 200,
+  /** Longest window one replay-chat request may ask for */
+  MAX_WINDOW_MS: 10 * 60 * 1000,
+  DEFAULT_WINDOW_MS: 2 * 60 * 1000,
+  /** Messages per window — a busier window is cut at the cap */
+  MAX_MESSAGES: 500,
+};
+
+/**
+ * Milliseconds into the stream a message sent at `sentAt` lands. Streams
+ * without a start time (never went live) put everything at 0.
+ * @param {Date|string|null} startedAt
+ * @param {Date} [sentAt]
+ */
+export function chatOffsetMs(startedAt, sentAt = new Date()) {
+  if (!startedAt) return 0;
+  const offset = new Date(sentAt).getTime() - new Date(startedAt).getTime();
+  return Number.isFinite(offset) ? Math.max(0, Math.round(offset)) : 0;
+}
+
+/**
+ * Why `livestream` can't get a replay published by `userId`, as
+ * `{ status, error, message }` — or null when it can. Only the streamer's own,
+ * ended livestreams (not plain recordings) become replays.
+ */
+export function replayLinkError(livestream, userId) {
+  if (!livestream) {
+    return { status: 404, error: 'LIVESTREAM_NOT_FOUND', message: 'Livestream not found' };
+  }
+  if (livestream.userId !== userId) {
+    return { status: 403, error: 'FORBIDDEN', message: 'This livestream belongs to a different user' };
+  }
+  if (livestream.type !== 'livestream') {
+    return { status: 400, error: 'NOT_A_LIVESTREAM', message: 'Only livestreams have replays' };
+  }
+  if (livestream.status === 'live' || livestream.status === 'pending') {
+    return { status: 409, error: 'LIVESTREAM_NOT_ENDED', message: 'End the livestream before publishing its replay' };
+  }
+  return null;
+}
+
+/** Video columns that make a video the replay of `livestream` */
+export function replayVideoFields(livestream) {
+  return {
+    livestreamSessionId: livestream.sessionId,
+    peakViewerCount: livestream.peakViewerCount ?? 0,
+  };
+}
+
+/**
+ * The `replay` block of a video response — null for ordinary videos. (The
+ * response's own `livestreamSessionId` is the creator's *current* live session,
+ * for the live badge, so the replay's session lives in here.)
+ */
+export function replayPayload(video) {
+  if (!video?.livestreamSessionId) return null;
+  return {
+    sessionId: video.livestreamSessionId,
+    peakViewers: video.peakViewerCount ?? 0,
+  };
+}
+
+/**
+ * `{ fromMs, toMs }` from replay-chat query params, or null when they are
+ * malformed or span more than MAX_WINDOW_MS. `toMs` is exclusive and defaults
+ * to DEFAULT_WINDOW_MS past `fromMs`.
+ */
+export function parseChatWindow(query = {}) {
+  const fromMs = query.fromMs === undefined || query.fromMs === '' ? 0 : Number(query.fromMs);
+  const toMs =
+    query.toMs === undefined || query.toMs === ''
+      ? fromMs + REPLAY_CHAT_LIMITS.DEFAULT_WINDOW_MS
+      : Number(query.toMs);
+  if (!Number.isInteger(fromMs) || !Number.isInteger(toMs) || fromMs < 0 || toMs <= fromMs) return null;
+  if (toMs - fromMs > REPLAY_CHAT_LIMITS.MAX_WINDOW_MS) return null;
+  return { fromMs, toMs };
+}
+
+/** A LivestreamChatMessage row in the app's chat-message shape */
+export function formatReplayChatMessage(message) {
+  return {
+    id: message.id,
+    userId: message.userId,
+    userName: message.userName,
+    text: message.text,
+    offsetMs: message.offsetMs,
+    timestamp: message.createdAt.toISOString(),
+  };
+}
@@ -0,0 +1,158 @@
+/**
+ * Review console — the ad approval queue, user reports and the audit trail.
+ *
+ * Ads wait in `pending` until a moderator approves or rejects them; a
+ * rejection always carries the reason the advertiser sees. Approving only
+ * applies to a pending ad, while rejecting also takes down one that is
+ * running or paused.
+ *
+ * Users report videos, comments, question responses and surveys
+ * (ContentReport, one per user per item). The queue groups open reports by
+ * item, most-reported first. Resolving an item settles every open report on
+ * it at once:
+ *  - remove:  the item goes — a comment is hidden, a video or response is
+ *             deleted, and a survey is ended (its responses are the
+ *             respondents' earning records, so it is never deleted);
+ *  - dismiss: the item stays and the reports are closed.
+ *
+ * Every approval, rejection, removal and dismissal writes a ModerationAction
+ * with who did it.
+ */
+
+export const REPORT_TARGET_TYPES = ['video', 'comment', 'response', 'survey'];
+
+export const REPORT_REASONS = ['spam', 'harassment', 'hate', 'sexual', 'violence', 'misinformation', 'scam', 'other'];
+
+export const REVIEW_DECISIONS = ['remove', 'dismiss'];
+
+export const AD_REVIEW_DECISIONS = ['approve', 'reject'];
+
+export const MODERATION_LIMITS = {
+  MAX_DETAILS_CHARS: 500,
+  MAX_REASON_CHARS: 500,
+  /** Items one bulk action can take */
+  BULK_MAX: 50,
+  /** Open reports read to build one page of the queue */
+  REPORT_SCAN: 500,
+  QUEUE_PAGE: 50,
+  AUDIT_PAGE: 50,
+};
+
+/** What resolving an item marks its reports, and what the audit trail calls it */
+export const DECISION_OUTCOMES = {
+  remove: 'removed',
+  dismiss: 'dismissed',
+  approve: 'approved',
+  reject: 'rejected',
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const isUuid = (value) => typeof value === 'string' && UUID_PATTERN.test(value);
+
+// ============================================================================
+// INPUT
+// ============================================================================
+
+/** A report from a POST body — `{ input }` on success, `{ error }` otherwise */
+export function normalizeReport(body) {
+  const source = body && typeof body === 'object' ? body : {};
+  if (!REPORT_TARGET_TYPES.includes(source.targetType)) {
+    return { error: `targetType must be one of ${REPORT_TARGET_TYPES.join(', ')}` };
+  }
+  if (!isUuid(source.targetId)) return { error: 'targetId must be an id' };
+  if (!REPORT_REASONS.includes(source.reason)) {
+    return { error: `reason must be one of ${REPORT_REASONS.join(', ')}` };
+  }
+  if (source.details != null && typeof source.details !== 'string') return { error: 'details must be a string' };
+  const details = (source.details ?? '').trim();
+  if (details.length > MODERATION_LIMITS.MAX_DETAILS_CHARS) {
+    return { error: `details must be at most ${MODERATION_LIMITS.MAX_DETAILS_CHARS} characters` };
+  }
+  return { input: { targetType: source.targetType, targetId: source.targetId, reason: source.reason, details: details || null } };
+}
+
+/** Distinct ad ids — null unless 1–BULK_MAX ids */
+export function normalizeAdIds(input) {
+  if (!Array.isArray(input) || input.length === 0 || input.length > MODERATION_LIMITS.BULK_MAX) return null;
+  if (!input.every(isUuid)) return null;
+  return [...new Set(input)];
+}
+
+/** Distinct `{ targetType, targetId }` pairs — null unless 1–BULK_MAX valid ones */
+export function normalizeReviewTargets(input) {
+  if (!Array.isArray(input) || input.length === 0 || input.length > MODERATION_LIMITS.BULK_MAX) return null;
+  const targets = new Map();
+  for (const target of input) {
+    if (!target || !REPORT_TARGET_TYPES.includes(target.targetType) || !isUuid(target.targetId)) return null;
+    targets.set(`${target.targetType}:${target.targetId}`, { targetType: target.targetType, targetId: target.targetId });
+  }
+  return [...targets.values()];
+}
+
+/** A rejection or removal note — trimmed, null when empty, undefined when too long */
+export function normalizeNote(value) {
+  if (value == null) return null;
+  if (typeof value !== 'string') return undefined;
+  const note = value.trim();
+  if (note.length > MODERATION_LIMITS.MAX_REASON_CHARS) return undefined;
+  return note || null;
+}
+
+// ============================================================================
+// ADS
+// ============================================================================
+
+/** Why `ad` can't be approved or rejected right now, or null when it can */
+export function adReviewBlocker(ad, decision) {
+  if (decision === 'approve' && ad.status !== 'pending') return 'Only ads waiting for review can be approved';
+  if (decision === 'reject' && ad.status === 'rejected') return 'This ad is already rejected';
+  return null;
+}
+
+// ============================================================================
+// REPORTS
+// ============================================================================
+
+/**
+ * Open reports grouped per item: `{ targetType, targetId, reportCount,
+ * reasons: [{ reason, count }], details, firstReportedAt, lastReportedAt }`,
+ * most-reported first, then the longest waiting. `details` holds up to three
+ * of the reporters' notes.
+ */
+export function groupReports(reports) {
+  const groups = new Map();
+  for (const report of reports) {
+    const key = `${report.targetType}:${report.targetId}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        targetType: report.targetType,
+        targetId: report.targetId,
+        reportCount: 0,
+        reasonCounts: new Map(),
+        details: [],
+        firstReportedAt: new Date(report.createdAt),
+        lastReportedAt: new Date(report.createdAt),
+      };
+      groups.set(key, group);
+    }
+    const at = new Date(report.createdAt);
+    group.reportCount += 1;
+    group.reasonCounts.set(report.reason, (group.reasonCounts.get(report.reason) ?? 0) + 1);
+    if (report.details && group.details.length < 3) group.details.push(report.details);
+    if (at < group.firstReportedAt) group.firstReportedAt = at;
+    if (at > group.lastReportedAt) group.lastReportedAt = at;
+  }
+
+  return [...groups.values()]
+    .sort((a, b) => b.reportCount - a.reportCount || a.firstReportedAt - b.firstReportedAt)
+    .map(({ reasonCounts, firstReportedAt, lastReportedAt, ...group }) => ({
+      ...group,
+      reasons: [...reasonCounts.entries()]
+        .map(([reason, count]) => ({ reason, count }))
+        .sort((a, b) => b.count - a.count),
+      firstReportedAt: firstReportedAt.toISOString(),
+      lastReportedAt: lastReportedAt.toISOString(),
+    }));
+}
@@ -0,0 +1,103 @@
+/**
+ * Resumable multipart uploads — part planning and request validation.
+ *
+ * Large videos (up to the 500MB premium limit) go straight from the phone to
+ * R2 as an S3 multipart upload the client drives itself:
+ *   1. POST /api/r2/multipart/create      → uploadId, key and the part plan
+ *   2. POST /api/r2/multipart/sign-parts  → presigned PUT URLs, a batch at a time
+ *   3. PUT each part to R2, keeping the ETag it returns
+ *   4. POST /api/r2/multipart/complete    → stitch the parts into one object
+ *   5. POST /api/r2/upload/finalize-video → the usual Video record
+ *
+ * The server keeps no session state: R2 itself knows which parts it holds
+ * (GET /api/r2/multipart/parts), so a client that crashed or lost signal
+ * resumes by listing parts and uploading only the missing ones. Abandoned
+ * uploads are aborted by the client on cancel, and otherwise expire through
+ * the bucket's lifecycle rule.
+ *
+ * Every multipart endpoint only accepts keys under the caller's own
+ * `videos/<userId>/` prefix — an uploadId alone is not a capability.
+ */
+
+export const MULTIPART_LIMITS = {
+  /** Part size handed to clients — small enough that a dropped part on mobile data is cheap to redo */
+  PART_SIZE: 8 * 1024 * 1024,
+  /** S3/R2 minimum for every part but the last */
+  MIN_PART_SIZE: 5 * 1024 * 1024,
+  MAX_PARTS: 10000,
+  /** Most URLs one sign-parts call returns (they expire, so clients sign as they go) */
+  SIGN_BATCH: 20,
+};
+
+/**
+ * Part size and count for a file. Part size grows past PART_SIZE only if the
+ * file would otherwise need more than MAX_PARTS parts.
+ * @param {number} fileSize - Bytes
+ * @returns {{ partSize: number, partCount: number }}
+ */
+export function planParts(fileSize) {
+  const size = Math.max(0, Math.floor(Number(fileSize) || 0));
+  const mib = 1024 * 1024;
+  const minimum = Math.ceil(size / MULTIPART_LIMITS.MAX_PARTS / mib) * mib;
+  const partSize = Math.max(MULTIPART_LIMITS.PART_SIZE, minimum);
+  return { partSize, partCount: Math.max(1, Math.ceil(size / partSize)) };
+}
+
+/**
+ * Whether `key` is an object key generateObjectKey made for this user under
+ * `prefix` — the ownership check behind every multipart endpoint.
+ * @param {unknown} key
+ * @param {string} userId
+ * @param {string} prefix - e.g. STORAGE_PATHS.VIDEOS
+ */
+export function isOwnedUploadKey(key, userId, prefix) {
+  if (typeof key !== 'string' || !userId) return false;
+  const owner = `${prefix}/${userId}/`;
+  if (!key.startsWith(owner)) return false;
+  const rest = key.slice(owner.length);
+  return rest.length > 0 && !rest.includes('/') && !rest.includes('..');
+}
+
+/**
+ * Part numbers to sign: integers 1..MAX_PARTS, de-duplicated and sorted.
+ * Null when the list is empty, malformed or longer than SIGN_BATCH.
+ * @param {unknown} input
+ * @returns {number[] | null}
+ */
+export function normalizePartNumbers(input) {
+  if (!Array.isArray(input) || input.length === 0) return null;
+  const numbers = new Set();
+  for (const value of input) {
+    const n = Number(value);
+    if (!Number.isInteger(n) || n < 1 || n > MULTIPART_LIMITS.MAX_PARTS) return null;
+    numbers.add(n);
+  }
+  if (numbers.size > MULTIPART_LIMITS.SIGN_BATCH) return null;
+  return [...numbers].sort((a, b) => a - b);
+}
+
+/**
+ * The part list for CompleteMultipartUpload: every part from 1 to n exactly
+ * once, each with the ETag R2 returned for it (quotes stripped). Null when a
+ * part is missing, repeated or has no ETag — completing with a gap would
+ * produce a truncated video.
+ * @param {unknown} input
+ * @returns {Array<{ partNumber: number, etag: string }> | null}
+ */
+export function normalizeCompletedParts(input) {
+  if (!Array.isArray(input) || input.length === 0 || input.length > MULTIPART_LIMITS.MAX_PARTS) {
+    return null;
+  }
+  const parts = [];
+  for (const part of input) {
+    const partNumber = Number(part?.partNumber);
+    const etag = typeof part?.etag === 'string' ? part.etag.replace(/"/g, '').trim() : '';
+    if (!Number.isInteger(partNumber) || partNumber < 1 || !etag) return null;
+    parts.push({ partNumber, etag });
+  }
+  parts.sort((a, b) => a.partNumber - b.partNumber);
+  for (let i = 0; i < parts.length; i += 1) {
+    if (parts[i].partNumber !== i + 1) return null;
+  }
+  return parts;
+}
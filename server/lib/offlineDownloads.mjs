@@ -0,0 +1,75 @@
+/**
+ * Offline downloads — video premium subscribers keep videos on the device.
+ *
+ * The app asks for a license per video (POST /api/videos/:id/download). A
+ * license says where to fetch the file (the R2 key, signed by the app through
+ * /api/r2/presign/download, or the stored URL for legacy rows), the key the app
+ * encrypts it with, and when the copy expires. The key is generated here and
+ * never stored: only the device that asked for it can open its copy.
+ *
+ * A copy expires with the subscription: at the latest paid-through date when
+ * it is known (Mobile Money), and never later than LICENSE_MAX_DAYS from now,
+ * which also covers Google Play, whose expiry the server doesn't see. The app
+ * renews every copy whenever it is online (GET /api/videos/downloads/entitlement)
+ * and deletes them all once the subscription has lapsed.
+ */
+
+export const OFFLINE_LIMITS = {
+  LICENSE_MAX_DAYS: 30,
+  CONTENT_KEY_BYTES: 32,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether `user` has video premium and until when — `{ active, premiumExpiresAt }`.
+ * `videoPayment` is their latest successful VIDEO payment still running (or
+ * null), as in getUnifiedSubscriptionStatus. Admins and moderators always have
+ * it, as in the app; a Google Play subscription is active with no known end.
+ */
+export function videoPremiumStatus(user, videoPayment, now = new Date()) {
+  if (!user) return { active: false, premiumExpiresAt: null };
+  if (user.role === 'ADMIN' || user.role === 'MODERATOR') return { active: true, premiumExpiresAt: null };
+
+  const paidUntil = videoPayment?.endDate instanceof Date && videoPayment.endDate > now ? videoPayment.endDate : null;
+  if (paidUntil) return { active: true, premiumExpiresAt: paidUntil };
+
+  const storeActive = user.videoSubscriptionStatus === 'ACTIVE' || user.subscriptionStatus === 'ACTIVE';
+  return { active: storeActive, premiumExpiresAt: null };
+}
+
+/** When a copy licensed now expires — the subscription's end, capped at LICENSE_MAX_DAYS */
+export function licenseExpiresAt(premiumExpiresAt, now = new Date()) {
+  const cap = new Date(now.getTime() + OFFLINE_LIMITS.LICENSE_MAX_DAYS * DAY_MS);
+  return premiumExpiresAt && premiumExpiresAt < cap ? premiumExpiresAt : cap;
+}
+
+/**
+ * Where the app fetches `video` from: `{ storageKey }` to sign, `{ url }` for a
+ * legacy row with no usable R2 key, or null when there is nothing to download
+ * (a livestream that is still live or never recorded).
+ */
+export function offlineSource(video) {
+  // "livestreams/<sessionId>" is a folder prefix, not a file — see signVideoUrls
+  const key = typeof video?.r2VideoKey === 'string' && !/^livestreams\/[^/]+$/.test(video.r2VideoKey)
+    ? video.r2VideoKey
+    : null;
+  if (key) return { storageKey: key, url: null };
+  if (typeof video?.videoUrl === 'string' && /^https?:\/\//.test(video.videoUrl)) {
+    return { storageKey: null, url: video.videoUrl };
+  }
+  return null;
+}
+
+/** The license the app stores next to its copy */
+export function formatLicense(video, source, { contentKey, expiresAt }) {
+  return {
+    videoId: video.id,
+    storageKey: source.storageKey,
+    url: source.url,
+    sizeBytes: video.videoSizeBytes != null ? Number(video.videoSizeBytes) : null,
+    mimeType: video.videoMimeType ?? null,
+    contentKey,
+    expiresAt: expiresAt.toISOString(),
+  };
+}
@@ -0,0 +1,198 @@
+/**
+ * Playlists, series and saved-video collections.
+ *
+ * A creator groups their own videos into playlists — ordered lists shown on
+ * their profile shelf. A series is a playlist meant to be watched in order
+ * ("Part 1 … Part 5"): every part carries its series on the Video row
+ * (seriesId, seriesTitle, seriesPart, seriesParts), so feeds can show the
+ * "Part 2 of 5" chip without a join and the player can move on to the next
+ * part. A video is part of at most one series — otherwise "Part 2" would be
+ * ambiguous. Part numbers follow item order, so removing a part renumbers the
+ * rest.
+ *
+ * Viewers save videos with the existing bookmark (VideoBookmark, the
+ * `isBookmarked` flag). A collection is a name over some of those bookmarks:
+ * saving into a collection bookmarks the video, un-bookmarking drops it from
+ * its collection, and deleting a collection keeps its videos saved.
+ *
+ * Everything here is pure except syncSeries and resyncSeries, which take the
+ * Prisma client as an argument.
+ */
+
+export const PLAYLIST_KINDS = ['playlist', 'series'];
+
+export const PLAYLIST_LIMITS = {
+  MAX_TITLE_CHARS: 80,
+  MAX_DESCRIPTION_CHARS: 500,
+  MAX_ITEMS: 100,
+  MAX_PLAYLISTS: 50,
+  MAX_COLLECTION_NAME_CHARS: 40,
+  MAX_COLLECTIONS: 50,
+  DEFAULT_SAVED_PAGE_SIZE: 30,
+  MAX_SAVED_PAGE_SIZE: 50,
+};
+
+/** What a Video row holds when it isn't part of a series */
+export const NO_SERIES = { seriesId: null, seriesTitle: null, seriesPart: null, seriesParts: null };
+
+const collapseSpaces = (value) => value.trim().replace(/\s+/g, ' ');
+
+// ============================================================================
+// INPUT
+// ============================================================================
+
+/** Distinct video ids in the order given — null unless an array of at most MAX_ITEMS strings */
+export function normalizeVideoIds(input) {
+  if (!Array.isArray(input) || input.length > PLAYLIST_LIMITS.MAX_ITEMS) return null;
+  const ids = [];
+  for (const value of input) {
+    if (typeof value !== 'string' || !value.trim()) return null;
+    if (!ids.includes(value.trim())) ids.push(value.trim());
+  }
+  return ids;
+}
+
+/**
+ * A playlist from a create body — or, with `partial`, only the fields an
+ * update body names. `{ input }` on success, `{ error }` otherwise.
+ */
+export function normalizePlaylistInput(body, { partial = false } = {}) {
+  const source = body && typeof body === 'object' ? body : {};
+  const input = {};
+
+  if (!partial || source.title !== undefined) {
+    const title = typeof source.title === 'string' ? collapseSpaces(source.title) : '';
+    if (!title || title.length > PLAYLIST_LIMITS.MAX_TITLE_CHARS) {
+      return { error: `title must be 1–${PLAYLIST_LIMITS.MAX_TITLE_CHARS} characters` };
+    }
+    input.title = title;
+  }
+
+  if (source.description !== undefined) {
+    if (source.description !== null && typeof source.description !== 'string') {
+      return { error: 'description must be a string' };
+    }
+    const description = (source.description ?? '').trim();
+    if (description.length > PLAYLIST_LIMITS.MAX_DESCRIPTION_CHARS) {
+      return { error: `description must be at most ${PLAYLIST_LIMITS.MAX_DESCRIPTION_CHARS} characters` };
+    }
+    input.description = description || null;
+  }
+
+  if (!partial || source.kind !== undefined) {
+    const kind = source.kind ?? 'playlist';
+    if (!PLAYLIST_KINDS.includes(kind)) return { error: `kind must be one of ${PLAYLIST_KINDS.join(', ')}` };
+    input.kind = kind;
+  }
+
+  if (!partial || source.videoIds !== undefined) {
+    const videoIds = normalizeVideoIds(source.videoIds ?? []);
+    if (!videoIds) return { error: `videoIds must be an array of at most ${PLAYLIST_LIMITS.MAX_ITEMS} video ids` };
+    input.videoIds = videoIds;
+  }
+
+  return { input };
+}
+
+/** A collection name, trimmed — null when empty or too long */
+export function normalizeCollectionName(value) {
+  if (typeof value !== 'string') return null;
+  const name = collapseSpaces(value);
+  return name && name.length <= PLAYLIST_LIMITS.MAX_COLLECTION_NAME_CHARS ? name : null;
+}
+
+/** `?before=&limit=` for the saved-videos list — null when malformed */
+export function parseSavedPage(query = {}) {
+  let before = null;
+  if (query.before !== undefined) {
+    before = new Date(query.before);
+    if (Number.isNaN(before.getTime())) return null;
+  }
+  let limit = PLAYLIST_LIMITS.DEFAULT_SAVED_PAGE_SIZE;
+  if (query.limit !== undefined) {
+    limit = Number(query.limit);
+    if (!Number.isInteger(limit) || limit < 1) return null;
+    limit = Math.min(limit, PLAYLIST_LIMITS.MAX_SAVED_PAGE_SIZE);
+  }
+  return { before, limit };
+}
+
+// ============================================================================
+// SERIES
+// ============================================================================
+
+/** The Video columns for part `index` (0-based) of a series */
+export function seriesFields(seriesId, title, index, parts) {
+  return { seriesId, seriesTitle: title, seriesPart: index + 1, seriesParts: parts };
+}
+
+/** `{ id, title, part, parts }` for a video's feed payload — null when it isn't part of a series */
+export function seriesPayload(video) {
+  if (!video?.seriesId) return null;
+  return { id: video.seriesId, title: video.seriesTitle, part: video.seriesPart, parts: video.seriesParts };
+}
+
+/** Ids of `videos` (rows with seriesId) already part of a series other than `playlistId` */
+export function seriesConflicts(videos, playlistId = null) {
+  return videos.filter((v) => v.seriesId && v.seriesId !== playlistId).map((v) => v.id);
+}
+
+/**
+ * Write the series onto its parts, in order, and clear it from videos that
+ * are no longer parts. `series` is `{ title, videoIds }`, or null when the
+ * playlist was deleted or is no longer a series.
+ */
+export async function syncSeries(prisma, playlistId, series) {
+  const videoIds = series?.videoIds ?? [];
+  await prisma.$transaction([
+    prisma.video.updateMany({ where: { seriesId: playlistId, id: { notIn: videoIds } }, data: NO_SERIES }),
+    ...videoIds.map((videoId, index) => prisma.video.update({
+      where: { id: videoId },
+      data: seriesFields(playlistId, series.title, index, videoIds.length),
+    })),
+  ]);
+}
+
+/** Re-read a series and sync it — after one of its videos was deleted */
+export async function resyncSeries(prisma, playlistId) {
+  const playlist = await prisma.videoPlaylist.findUnique({
+    where: { id: playlistId },
+    include: { items: { orderBy: { position: 'asc' }, select: { videoId: true } } },
+  });
+  await syncSeries(prisma, playlistId, playlist?.kind === 'series'
+    ? { title: playlist.title, videoIds: playlist.items.map((item) => item.videoId) }
+    : null);
+}
+
+// ============================================================================
+// RESPONSES
+// ============================================================================
+
+/**
+ * A playlist for the app. `thumbnail` is the first video's (signed by the
+ * caller); `videos`, when given, are already formatted.
+ */
+export function formatPlaylist(playlist, { itemCount, thumbnail = null, videos } = {}) {
+  return {
+    id: playlist.id,
+    userId: playlist.userId,
+    title: playlist.title,
+    description: playlist.description ?? null,
+    kind: playlist.kind,
+    itemCount: itemCount ?? videos?.length ?? 0,
+    thumbnail,
+    createdAt: new Date(playlist.createdAt).toISOString(),
+    updatedAt: new Date(playlist.updatedAt).toISOString(),
+    ...(videos && { videos }),
+  };
+}
+
+export function formatCollection(collection, { count, thumbnail = null }) {
+  return {
+    id: collection.id,
+    name: collection.name,
+    count,
+    thumbnail,
+    updatedAt: new Date(collection.updatedAt).toISOString(),
+  };
+}
@@ -26,6 +26,7 @@ import {
   UploadPartCommand,
   CompleteMultipartUploadCommand,
   AbortMultipartUploadCommand,
+  ListPartsCommand,
   ListObjectsV2Command,
 } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
@@ -120,6 +121,7 @@ export const STORAGE_PATHS = {
   THUMBNAILS: 'thumbnails',
   AVATARS: 'avatars',
   LIVESTREAMS: 'livestreams',
+  HLS: 'hls', // hls/<videoId>/… — transcode ladder (lib/hlsLadder.mjs)
   TEMP: 'temp',
 };
 
@@ -464,6 +466,139 @@ export async function uploadMultipart(buffer, key, mimeType, metadata = {}) {
   }
 }
 
+// ============================================================================
+// CLIENT-DRIVEN MULTIPART UPLOADS (resumable, see lib/multipartUpload.mjs)
+// ============================================================================
+
+/**
+ * Start a multipart upload the client will fill part by part
+ * @param {string} key - Object key
+ * @param {string} mimeType - File MIME type
+ * @returns {Promise<string>} UploadId
+ */
+export async function createMultipartUpload(key, mimeType) {
+  try {
+    const result = await r2Client.send(new CreateMultipartUploadCommand({
+      Bucket: R2_BUCKET_NAME,
+      Key: key,
+      ContentType: mimeType,
+      CacheControl: 'public, max-age=31536000, immutable',
+    }));
+    return result.UploadId;
+  } catch (error) {
+    console.error('[R2] Create multipart upload error:', error);
+    throw new Error(`Failed to start multipart upload: ${error.message}`, { cause: error });
+  }
+}
+
+/**
+ * Presigned PUT URL for one part of a multipart upload
+ * @param {string} key - Object key
+ * @param {string} uploadId - Multipart UploadId
+ * @param {number} partNumber - 1-based part number
+ * @param {number} [expiresIn] - URL expiry in seconds (default: 15 minutes)
+ * @returns {Promise<string>}
+ */
+export async function getSignedPartUrl(key, uploadId, partNumber, expiresIn = URL_EXPIRY.UPLOAD_URL_EXPIRY) {
+  try {
+    const command = new UploadPartCommand({
+      Bucket: R2_BUCKET_NAME,
+      Key: key,
+      UploadId: uploadId,
+      PartNumber: partNumber,
+    });
+    return await getSignedUrl(r2Client, command, { expiresIn });
+  } catch (error) {
+    console.error('[R2] Presigned part URL generation error:', error);
+    throw new Error(`Failed to generate part upload URL: ${error.message}`, { cause: error });
+  }
+}
+
+/**
+ * Parts R2 already holds for a multipart upload — the source of truth when a
+ * client resumes. Null when the upload no longer exists (completed, aborted,
+ * or expired by the bucket's lifecycle rule).
+ * @param {string} key - Object key
+ * @param {string} uploadId - Multipart UploadId
+ * @returns {Promise<Array<{partNumber: number, etag: string, size: number}> | null>}
+ */
+export async function listMultipartParts(key, uploadId) {
+  const parts = [];
+  let marker;
+  try {
+    do {
+      const result = await r2Client.send(new ListPartsCommand({
+        Bucket: R2_BUCKET_NAME,
+        Key: key,
+        UploadId: uploadId,
+        PartNumberMarker: marker,
+      }));
+      for (const part of result.Parts || []) {
+        parts.push({
+          partNumber: part.PartNumber,
+          etag: part.ETag?.replace(/"/g, '') || '',
+          size: part.Size || 0,
+        });
+      }
+      marker = result.IsTruncated ? result.NextPartNumberMarker : undefined;
+    } while (marker);
+    return parts;
+  } catch (error) {
+    if (error.name === 'NoSuchUpload' || error.$metadata?.httpStatusCode === 404) {
+      return null;
+    }
+    console.error('[R2] List parts error:', error);
+    throw new Error(`Failed to list uploaded parts: ${error.message}`, { cause: error });
+  }
+}
+
+/**
+ * Stitch uploaded parts into the final object
+ * @param {string} key - Object key
+ * @param {string} uploadId - Multipart UploadId
+ * @param {Array<{partNumber: number, etag: string}>} parts - Every part, in order
+ * @returns {Promise<{etag: string}>}
+ */
+export async function completeMultipartUpload(key, uploadId, parts) {
+  try {
+    const result = await r2Client.send(new CompleteMultipartUploadCommand({
+      Bucket: R2_BUCKET_NAME,
+      Key: key,
+      UploadId: uploadId,
+      MultipartUpload: {
+        Parts: parts.map((part) => ({ PartNumber: part.partNumber, ETag: part.etag })),
+      },
+    }));
+    return { etag: result.ETag?.replace(/"/g, '') || '' };
+  } catch (error) {
+    console.error('[R2] Complete multipart upload error:', error);
+    throw new Error(`Failed to complete multipart upload: ${error.message}`, { cause: error });
+  }
+}
+
+/**
+ * Discard a multipart upload and the parts stored so far
+ * @param {string} key - Object key
+ * @param {string} uploadId - Multipart UploadId
+ * @returns {Promise<boolean>} false when it was already gone
+ */
+export async function abortMultipartUpload(key, uploadId) {
+  try {
+    await r2Client.send(new AbortMultipartUploadCommand({
+      Bucket: R2_BUCKET_NAME,
+      Key: key,
+      UploadId: uploadId,
+    }));
+    return true;
+  } catch (error) {
+    if (error.name === 'NoSuchUpload' || error.$metadata?.httpStatusCode === 404) {
+      return false;
+    }
+    console.error('[R2] Abort multipart upload error:', error);
+    throw new Error(`Failed to abort multipart upload: ${error.message}`, { cause: error });
+  }
+}
+
 // ============================================================================
 // SIGNED URL GENERATION
 // ============================================================================
@@ -535,6 +670,26 @@ export async function deleteFile(key) {
   }
 }
 
+/**
+ * Read a file from R2 into memory — meant for small objects (playlists)
+ * @param {string} key - Object key
+ * @returns {Promise<Buffer | null>} File contents, or null if the key does not exist
+ */
+export async function downloadFile(key) {
+  try {
+    const result = await r2Client.send(new GetObjectCommand({
+      Bucket: R2_BUCKET_NAME,
+      Key: key,
+    }));
+    return Buffer.from(await result.Body.transformToByteArray());
+  } catch (error) {
+    if (error.name === 'NoSuchKey' || error.$metadata?.httpStatusCode === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
 /**
  * Check if a file exists in R2
  * @param {string} key - Object key
@@ -686,6 +841,13 @@ export default {
   uploadThumbnail,
   uploadLivestreamRecording,
   uploadMultipart,
+
+  // Client-driven multipart
+  createMultipartUpload,
+  getSignedPartUrl,
+  listMultipartParts,
+  completeMultipartUpload,
+  abortMultipartUpload,
   
   // URL generation
   getPublicUrl,
@@ -693,6 +855,7 @@ export default {
   getSignedUploadUrl,
   
   // File management
+  downloadFile,
   deleteFile,
   fileExists,
   getFileMetadata,
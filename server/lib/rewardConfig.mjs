@@ -25,6 +25,8 @@ const DEFAULTS = {
   defaultRegularRewardAmount: 200,
   defaultInstantRewardAmount: 500,
   referralBonusPoints: 60,
+  rewardedAdPoints: 5,
+  rewardedAdDailyCap: 5,
 };
 
 // ---------------------------------------------------------------------------
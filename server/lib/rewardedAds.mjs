@@ -0,0 +1,117 @@
+/**
+ * Rewarded ads — the viewer watches a whole ad and earns points for it.
+ *
+ * The flow (controllers/rewardedAdController.mjs):
+ *  1. start: the server picks a rewarded ad, opens a RewardedAdView row and
+ *     hands back a completion token signed over the view, the user, the ad,
+ *     the time it was issued and how long the ad must play (its stored
+ *     length, never less than MIN_WATCH_MS);
+ *  2. the app plays the ad with skipping disabled;
+ *  3. claim: the app sends the token back behind Play Integrity
+ *     (routes/AdRoutes.mjs). The server checks the signature,
+ *     that the token is the caller's, that the ad has had time to play and
+ *     that the token hasn't expired, then credits the view once — the row
+ *     flips from started to credited, and the day's counter moves under the
+ *     cap, in the same transaction that pays.
+ *
+ * Points per ad and the daily cap live in AppConfig (lib/rewardConfig.mjs).
+ * The day is the UTC day, as for the daily reward.
+ *
+ * Everything here is pure; the secret and the clock come in as arguments.
+ */
+
+import crypto from 'crypto';
+
+export const REWARDED_LIMITS = {
+  /** No ad pays out sooner than this after it starts — the shortest we accept */
+  MIN_WATCH_MS: 15_000,
+  /** A token left unclaimed this long after the ad could have ended is void */
+  TOKEN_TTL_MS: 30 * 60 * 1000,
+  /** Longest stored ad length we accept, in seconds */
+  VIDEO_DURATION_MAX_S: 600,
+  /** AppConfig bounds for the moderator settings */
+  POINTS_MAX: 1000,
+  DAILY_CAP_MAX: 50,
+};
+
+export const REWARDED_AD_DESCRIPTION = 'rewarded_ad';
+
+/** The secret completion tokens are signed with */
+export const rewardedTokenSecret = () => process.env.REWARDED_AD_SECRET || process.env.JWT_SECRET || '';
+
+const hmac = (body, secret) => crypto.createHmac('sha256', secret).update(body).digest('base64url');
+
+/** Ad length in whole seconds from a create/update body — null when missing or implausible */
+export function parseVideoDuration(value) {
+  const seconds = Math.round(Number(value));
+  return Number.isFinite(seconds) && seconds > 0 && seconds <= REWARDED_LIMITS.VIDEO_DURATION_MAX_S ? seconds : null;
+}
+
+/** How long `ad` must play before it pays: its stored length, at least MIN_WATCH_MS */
+export const requiredWatchMs = (ad) =>
+  Math.max(REWARDED_LIMITS.MIN_WATCH_MS, (ad?.videoDurationSeconds ?? 0) * 1000);
+
+/**
+ * `<payload>.<signature>`, both base64url — payload is
+ * { v: viewId, u: userId, a: adId, iat, w: watchMs }
+ */
+export function signCompletionToken({ viewId, userId, adId, issuedAt, watchMs = REWARDED_LIMITS.MIN_WATCH_MS }, secret) {
+  const body = Buffer.from(JSON.stringify({ v: viewId, u: userId, a: adId, iat: issuedAt, w: watchMs }))
+    .toString('base64url');
+  return `${body}.${hmac(body, secret)}`;
+}
+
+/**
+ * Check a completion token for `userId` at `now`. Returns
+ * { ok: true, viewId, adId, issuedAt } or { ok: false, reason } with reason
+ * one of malformed, bad_signature, wrong_user, too_early, expired.
+ */
+export function verifyCompletionToken(token, secret, { userId, now = Date.now() }) {
+  if (typeof token !== 'string' || !secret) return { ok: false, reason: 'malformed' };
+  const [body, signature, extra] = token.split('.');
+  if (!body || !signature || extra !== undefined) return { ok: false, reason: 'malformed' };
+
+  const expected = Buffer.from(hmac(body, secret));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !crypto.timingSafeEqual(expected, given)) {
+    return { ok: false, reason: 'bad_signature' };
+  }
+
+  let payload;
+  try {
+    payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+  } catch {
+    return { ok: false, reason: 'malformed' };
+  }
+  if (!payload?.v || !payload.u || !payload.a || !Number.isFinite(payload.iat)) return { ok: false, reason: 'malformed' };
+  if (payload.u !== userId) return { ok: false, reason: 'wrong_user' };
+
+  const watchMs = Math.max(REWARDED_LIMITS.MIN_WATCH_MS, Number.isFinite(payload.w) ? payload.w : 0);
+  const elapsed = now - payload.iat;
+  if (elapsed < watchMs) return { ok: false, reason: 'too_early' };
+  if (elapsed > watchMs + REWARDED_LIMITS.TOKEN_TTL_MS) return { ok: false, reason: 'expired' };
+  return { ok: true, viewId: payload.v, adId: payload.a, issuedAt: payload.iat };
+}
+
+/** What the viewer can still earn today */
+export function rewardedAllowance(config, creditedToday) {
+  const points = config.rewardedAdPoints ?? 0;
+  const dailyCap = config.rewardedAdDailyCap ?? 0;
+  return {
+    points,
+    dailyCap,
+    creditedToday,
+    remaining: points > 0 ? Math.max(0, dailyCap - creditedToday) : 0,
+  };
+}
+
+/**
+ * The ad to show next: a servable rewarded ad with a video, the one the
+ * viewer has seen least today, then by priority. `ads` come ordered by
+ * priority; `seenToday` maps adId → views started today.
+ */
+export function pickRewardedAd(ads, seenToday = {}) {
+  const playable = ads.filter((ad) => ad.videoUrl || ad.r2VideoKey);
+  if (playable.length === 0) return null;
+  return playable.reduce((best, ad) => ((seenToday[ad.id] ?? 0) < (seenToday[best.id] ?? 0) ? ad : best));
+}
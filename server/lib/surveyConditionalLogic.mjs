@@ -1,18 +1,25 @@
 /**
- * Server-side validation for survey conditional logic.
+ * Server-side validation and path resolution for survey conditional logic.
  *
- * ESM port of the pure validation half of the client's
+ * ESM port of the pure validation and navigation halves of the client's
  * DelipuCash/utils/conditionalLogic.ts (the client is TypeScript and can't be
  * imported by the .mjs server). The rule SHAPE matches the evaluator already
  * embedded in submitSurveyResponse:
- *   { logicType: 'all'|'any', rules: [{ sourceQuestionId, operator, value? }] }
+ *   { logicType: 'all'|'any', rules: [{ sourceQuestionId, operator, value?, action?, targetQuestionId? }] }
+ *
+ * `action: 'skip_to'` rules are jumps taken when the respondent leaves the host
+ * question; they may read the host's own answer and must target a LATER
+ * question (or SKIP_TO_END). Rules without an action are show rules.
  *
  * Catches: references to nonexistent questions, self-references, forward
- * references (branching may only look backward), circular dependencies, and
- * malformed rule objects. Returns an array of { questionIndex, ruleIndex,
- * message } — empty means valid.
+ * references (branching may only look backward), backward/dangling jumps,
+ * circular dependencies, and malformed rule objects. Returns an array of
+ * { questionIndex, ruleIndex, message } — empty means valid.
  */
 
+/** targetQuestionId sentinel: jump straight to the end of the survey. */
+export const SKIP_TO_END = '__end__';
+
 const VALID_OPERATORS = new Set([
   'equals',
   'not_equals',
@@ -25,6 +32,10 @@ const VALID_OPERATORS = new Set([
 
 const VALID_LOGIC_TYPES = new Set(['all', 'any']);
 
+const VALID_ACTIONS = new Set(['show', 'skip_to']);
+
+const isSkipRule = (rule) => rule?.action === 'skip_to';
+
 /**
  * @param {Array<{ id: string, conditionalLogic?: { logicType?: string, rules?: Array<{ sourceQuestionId?: string, operator?: string }> } | null }>} questions
  *   Questions in display order. `id` is whatever id-space the rules reference
@@ -58,21 +69,40 @@ export function validateConditionalLogic(questions) {
         errors.push({ questionIndex, ruleIndex, message: `Unknown operator: ${String(rule.operator)}` });
         return;
       }
+      if (rule.action !== undefined && !VALID_ACTIONS.has(rule.action)) {
+        errors.push({ questionIndex, ruleIndex, message: `Unknown action: ${String(rule.action)}` });
+        return;
+      }
       if (!questionIds.has(rule.sourceQuestionId)) {
         errors.push({ questionIndex, ruleIndex, message: 'Rule references a question that does not exist' });
         return;
       }
-      if (rule.sourceQuestionId === question.id) {
+      const skip = isSkipRule(rule);
+      if (!skip && rule.sourceQuestionId === question.id) {
         errors.push({ questionIndex, ruleIndex, message: 'Question cannot reference itself in conditional logic' });
         return;
       }
       const sourceOrder = questionOrder.get(rule.sourceQuestionId) ?? -1;
-      if (sourceOrder >= questionIndex) {
+      if (skip ? sourceOrder > questionIndex : sourceOrder >= questionIndex) {
         errors.push({
           questionIndex,
           ruleIndex,
-          message: 'Conditional logic can only reference questions that appear before this one',
+          message: skip
+            ? 'Skip logic can only reference this question or ones before it'
+            : 'Conditional logic can only reference questions that appear before this one',
         });
+        return;
+      }
+      if (!skip) return;
+
+      if (typeof rule.targetQuestionId !== 'string' || rule.targetQuestionId === '') {
+        errors.push({ questionIndex, ruleIndex, message: 'Skip rule must have a targetQuestionId' });
+      } else if (rule.targetQuestionId !== SKIP_TO_END) {
+        if (!questionIds.has(rule.targetQuestionId)) {
+          errors.push({ questionIndex, ruleIndex, message: 'Skip target does not exist' });
+        } else if ((questionOrder.get(rule.targetQuestionId) ?? -1) <= questionIndex) {
+          errors.push({ questionIndex, ruleIndex, message: 'Skip logic can only jump forward to a later question' });
+        }
       }
     });
   });
@@ -91,6 +121,7 @@ export function validateConditionalLogic(questions) {
     const rules = q?.conditionalLogic?.rules;
     if (Array.isArray(rules)) {
       for (const rule of rules) {
+        if (isSkipRule(rule) && rule.sourceQuestionId === qId) continue; // reading its own answer
         if (rule && typeof rule.sourceQuestionId === 'string' && byId.has(rule.sourceQuestionId)) {
           if (hasCycle(rule.sourceQuestionId, questionIndex)) {
             errors.push({ questionIndex, ruleIndex: 0, message: 'Circular dependency detected in conditional logic' });
@@ -115,10 +146,11 @@ export function validateConditionalLogic(questions) {
 }
 
 /**
- * Rewrite every rule's sourceQuestionId through an id map (builder clientId →
- * created DB UUID). Returns a NEW logic object; null/undefined pass through.
- * Throws on an unresolvable reference — callers validate first, so this firing
- * means a bug, and the surrounding transaction must roll back.
+ * Rewrite every rule's sourceQuestionId (and a skip rule's targetQuestionId)
+ * through an id map (builder clientId → created DB UUID). Returns a NEW logic
+ * object; null/undefined pass through. Throws on an unresolvable reference —
+ * callers validate first, so this firing means a bug, and the surrounding
+ * transaction must roll back.
  */
 export function remapConditionalLogicIds(logic, idMap) {
   if (logic == null) return logic;
@@ -130,7 +162,86 @@ export function remapConditionalLogicIds(logic, idMap) {
       if (!mapped) {
         throw new Error(`Unresolvable conditional-logic reference: ${String(rule.sourceQuestionId)}`);
       }
-      return { ...rule, sourceQuestionId: mapped };
+      if (!isSkipRule(rule) || !rule.targetQuestionId || rule.targetQuestionId === SKIP_TO_END) {
+        return { ...rule, sourceQuestionId: mapped };
+      }
+      const mappedTarget = idMap.get(rule.targetQuestionId);
+      if (!mappedTarget) {
+        throw new Error(`Unresolvable skip target: ${String(rule.targetQuestionId)}`);
+      }
+      return { ...rule, sourceQuestionId: mapped, targetQuestionId: mappedTarget };
     }),
   };
 }
+
+// ============================================================================
+// Evaluation (submit-time)
+// ============================================================================
+
+function evaluateRule(rule, answers) {
+  const answer = answers[rule.sourceQuestionId];
+  switch (rule.operator) {
+    case 'is_empty':
+      return answer == null || answer === '' || (Array.isArray(answer) && answer.length === 0);
+    case 'is_not_empty':
+      return answer != null && answer !== '' && !(Array.isArray(answer) && answer.length === 0);
+    case 'equals':
+      return Array.isArray(answer) ? answer.includes(String(rule.value)) : String(answer) === String(rule.value);
+    case 'not_equals':
+      return Array.isArray(answer) ? !answer.includes(String(rule.value)) : String(answer) !== String(rule.value);
+    case 'contains': {
+      const answerStr = Array.isArray(answer) ? answer.join(',') : String(answer ?? '');
+      return answerStr.toLowerCase().includes(String(rule.value).toLowerCase());
+    }
+    case 'greater_than':
+      return !isNaN(Number(answer)) && !isNaN(Number(rule.value)) && Number(answer) > Number(rule.value);
+    case 'less_than':
+      return !isNaN(Number(answer)) && !isNaN(Number(rule.value)) && Number(answer) < Number(rule.value);
+    default:
+      return true;
+  }
+}
+
+/** Show-rule visibility — skip rules never hide a question. */
+export function isQuestionVisible(question, answers) {
+  const rules = Array.isArray(question?.conditionalLogic?.rules)
+    ? question.conditionalLogic.rules.filter((rule) => !isSkipRule(rule))
+    : [];
+  if (rules.length === 0) return true;
+  return question.conditionalLogic.logicType === 'all'
+    ? rules.every((rule) => evaluateRule(rule, answers))
+    : rules.some((rule) => evaluateRule(rule, answers));
+}
+
+/**
+ * The ordered questions a respondent traverses for the given answers: show
+ * rules gate visibility, the first matching skip rule on a question jumps
+ * forward when leaving it. Mirrors getSurveyPath in the client engine so the
+ * required-answer check only covers questions the respondent could reach.
+ * Backward/unknown targets are ignored (fall through), so a bad rule can
+ * never loop.
+ */
+export function resolveSurveyPath(questions, answers) {
+  const indexById = new Map(questions.map((q, i) => [q.id, i]));
+  const path = [];
+  let i = 0;
+  while (i < questions.length) {
+    const question = questions[i];
+    if (!isQuestionVisible(question, answers)) {
+      i += 1;
+      continue;
+    }
+    path.push(question);
+
+    let next = i + 1;
+    const rules = Array.isArray(question.conditionalLogic?.rules) ? question.conditionalLogic.rules : [];
+    const jump = rules.find((rule) => isSkipRule(rule) && rule.targetQuestionId && evaluateRule(rule, answers));
+    if (jump?.targetQuestionId === SKIP_TO_END) break;
+    if (jump) {
+      const targetIndex = indexById.get(jump.targetQuestionId);
+      if (targetIndex !== undefined && targetIndex > i) next = targetIndex;
+    }
+    i = next;
+  }
+  return path;
+}
@@ -0,0 +1,150 @@
+/**
+ * Server-side validation and id remap for survey answer piping.
+ *
+ * ESM port of the validation half of the client's DelipuCash/utils/piping.ts.
+ * Question text and options may carry `{{q3}}` (answer to question 3, 1-based
+ * display position) and `{{name}}` (a hidden computed variable) tokens. Tokens
+ * are positional, so text is stored verbatim; computed variables reference
+ * question ids and are remapped like conditional logic.
+ *
+ * Variable shape:
+ *   { id, name, kind: 'score'|'segment', sourceQuestionIds: string[],
+ *     source?: string, bands?: [{ min, label }], fallback?: string }
+ *
+ * Returns arrays of { questionIndex, variableName?, message } — empty means valid.
+ */
+
+const TOKEN_PATTERN = /\{\{\s*([^{}]*?)\s*\}\}/g;
+const QUESTION_REF_PATTERN = /^q(\d+)$/i;
+const VARIABLE_NAME_PATTERN = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+const VALID_KINDS = new Set(['score', 'segment']);
+
+function extractReferences(text) {
+  if (typeof text !== 'string') return [];
+  return [...text.matchAll(TOKEN_PATTERN)].map((match) => match[1].trim());
+}
+
+/**
+ * @param {Array<{ id: string }>} questions Questions in display order, in the
+ *   id-space the variables reference (builder clientIds before remap).
+ */
+export function validateComputedVariables(variables, questions) {
+  if (variables == null) return [];
+  if (!Array.isArray(variables)) {
+    return [{ questionIndex: -1, message: 'computedVariables must be an array' }];
+  }
+
+  const errors = [];
+  const questionIds = new Set(questions.map((q) => q.id));
+  const defined = new Set();
+  const definedLower = new Set();
+
+  variables.forEach((variable) => {
+    const name = typeof variable?.name === 'string' ? variable.name.trim() : '';
+    const fail = (message) => errors.push({ questionIndex: -1, variableName: name, message });
+
+    if (!VARIABLE_NAME_PATTERN.test(name)) return fail('Invalid variable name');
+    if (QUESTION_REF_PATTERN.test(name)) return fail('Variable name is reserved for question references');
+    if (definedLower.has(name.toLowerCase())) return fail('Duplicate variable name');
+    if (!VALID_KINDS.has(variable.kind)) return fail(`Unknown variable kind: ${String(variable.kind)}`);
+
+    if (variable.kind === 'score') {
+      const sources = variable.sourceQuestionIds;
+      if (!Array.isArray(sources) || sources.length === 0) {
+        fail('Score variable needs at least one source question');
+      } else if (sources.some((id) => !questionIds.has(id))) {
+        fail('Score variable references a question that does not exist');
+      }
+    } else {
+      const bands = variable.bands;
+      if (typeof variable.source !== 'string' || (!questionIds.has(variable.source) && !defined.has(variable.source))) {
+        fail('Segment source must be a question or an earlier variable');
+      } else if (!Array.isArray(bands) || bands.length === 0) {
+        fail('Segment variable needs at least one band');
+      } else if (bands.some((b) => !b || typeof b.label !== 'string' || !b.label.trim() || !Number.isFinite(b.min))) {
+        fail('Every segment band needs a label and a numeric min');
+      }
+    }
+    defined.add(name);
+    definedLower.add(name.toLowerCase());
+  });
+
+  return errors;
+}
+
+/**
+ * Reference check over each question's text and (serialized) options: a
+ * `{{qN}}` must point at an EARLIER question and a `{{name}}` at a defined
+ * variable whose sources all come before the question.
+ *
+ * @param {Array<{ text: string, options?: unknown }>} questions
+ * @param {Array<{ id: string }>} idQuestions Same questions in the variables' id-space
+ */
+export function validatePiping(questions, idQuestions, variables) {
+  const errors = [];
+  const positionById = new Map(idQuestions.map((q, i) => [q.id, i + 1]));
+
+  // Deepest question position each variable depends on (segments chain through
+  // earlier variables)
+  const depth = new Map();
+  for (const variable of Array.isArray(variables) ? variables : []) {
+    if (typeof variable?.name !== 'string' || depth.has(variable.name)) continue;
+    const sources = variable.kind === 'score' ? variable.sourceQuestionIds ?? [] : [variable.source];
+    depth.set(
+      variable.name,
+      sources.reduce((max, id) => Math.max(max, depth.get(id) ?? positionById.get(id) ?? 0), 0)
+    );
+  }
+
+  questions.forEach((question, questionIndex) => {
+    const position = questionIndex + 1;
+    const options = typeof question.options === 'string' ? question.options : JSON.stringify(question.options ?? []);
+    const refs = [...extractReferences(question.text), ...extractReferences(options)];
+    const fail = (message) => {
+      if (!errors.some((e) => e.questionIndex === questionIndex && e.message === message)) {
+        errors.push({ questionIndex, message });
+      }
+    };
+
+    for (const ref of refs) {
+      const questionMatch = QUESTION_REF_PATTERN.exec(ref);
+      if (questionMatch) {
+        const target = Number(questionMatch[1]);
+        if (target < 1 || target > questions.length) fail(`Piped reference {{${ref}}} does not exist`);
+        else if (target >= position) fail(`Piped reference {{${ref}}} must point to an earlier question`);
+      } else if (!VARIABLE_NAME_PATTERN.test(ref)) {
+        fail(`Invalid piped reference {{${ref}}}`);
+      } else if (!depth.has(ref)) {
+        fail(`Piped reference {{${ref}}} is not a computed variable`);
+      } else if (depth.get(ref) >= position) {
+        fail(`Piped variable {{${ref}}} depends on a question that is not answered yet`);
+      }
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Rewrite variable sources through an id map (builder clientId → created DB
+ * UUID). A segment source that names an earlier variable passes through.
+ * Throws on an unresolvable question reference — callers validate first.
+ */
+export function remapComputedVariableIds(variables, idMap) {
+  if (!Array.isArray(variables)) return variables;
+  const resolve = (id) => {
+    const mapped = idMap.get(id);
+    if (!mapped) throw new Error(`Unresolvable computed-variable reference: ${String(id)}`);
+    return mapped;
+  };
+  const names = new Set();
+  return variables.map((variable) => {
+    const remapped =
+      variable.kind === 'score'
+        ? { ...variable, sourceQuestionIds: variable.sourceQuestionIds.map(resolve) }
+        : { ...variable, source: names.has(variable.source) ? variable.source : resolve(variable.source) };
+    names.add(variable.name);
+    return remapped;
+  });
+}
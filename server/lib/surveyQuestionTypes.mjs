@@ -24,13 +24,17 @@ export const VALID_QUESTION_TYPES = [
   'time',
   'number',
   'file_upload',
+  'matrix',
+  'ranking',
+  'nps',
 ];
 
 export const TYPE_ALIASES = {
   textarea: 'paragraph',
   multiple_choice: 'radio',
-  nps: 'rating',
   slider: 'rating',
+  likert: 'matrix',
+  rank: 'ranking',
 };
 
 /**
@@ -44,3 +48,46 @@ export function normalizeQuestionType(rawType) {
   const canonical = TYPE_ALIASES[lowered] || lowered;
   return VALID_QUESTION_TYPES.includes(canonical) ? canonical : null;
 }
+
+function parseOptions(options) {
+  if (typeof options !== 'string') return options ?? null;
+  try {
+    return JSON.parse(options);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Shape check for the structured answer types, mirroring the app's
+ * utils/surveyQuestionTypes.ts. Other types are accepted as-is (their answers
+ * are free-form strings/numbers the renderer already constrains).
+ *
+ *   nps      integer 0–10
+ *   matrix   string[] aligned with options.rows; each entry '' or a column
+ *   ranking  string[] that orders every option exactly once
+ */
+export function isAnswerShapeValid(question, value) {
+  switch (question?.type) {
+    case 'nps':
+      return Number.isInteger(value) && value >= 0 && value <= 10;
+    case 'matrix': {
+      const config = parseOptions(question.options);
+      const rows = Array.isArray(config?.rows) ? config.rows : [];
+      const columns = new Set(Array.isArray(config?.columns) ? config.columns : []);
+      return (
+        Array.isArray(value) &&
+        value.length <= rows.length &&
+        value.every((cell) => cell === '' || (typeof cell === 'string' && columns.has(cell)))
+      );
+    }
+    case 'ranking': {
+      const items = parseOptions(question.options);
+      if (!Array.isArray(items) || !Array.isArray(value) || value.length !== items.length) return false;
+      const remaining = new Set(items.map(String));
+      return value.every((item) => typeof item === 'string' && remaining.delete(item));
+    }
+    default:
+      return true;
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Server-side screener validation and quota helpers.
+ *
+ * ESM port of the validation half of the client's DelipuCash/utils/surveyScreening.ts.
+ * A screener is a single-choice question at the start of the survey whose
+ * answer decides whether the respondent may continue into the paid section:
+ * an answer outside `qualifying` ends the attempt, and a qualifying answer
+ * with a quota counts toward that answer's cap.
+ *
+ * Screener shape (UploadSurvey.screener):
+ *   { qualifying: string[], quotas?: [{ answer, limit }] }
+ *
+ * Quota fill lives in SurveyQuotaCell rows (one per screener question + quota
+ * answer), incremented with the same conditional updateMany the maxResponses
+ * guard uses.
+ *
+ * Returns arrays of { questionIndex, message } — empty means valid.
+ */
+
+export const SCREENER_QUESTION_TYPES = ['radio', 'dropdown', 'boolean'];
+
+/** Boolean questions are answered with the strings the renderer writes */
+const BOOLEAN_ANSWERS = ['true', 'false'];
+
+function parseOptions(options) {
+  if (Array.isArray(options)) return options;
+  if (typeof options !== 'string') return [];
+  try {
+    const parsed = JSON.parse(options);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/** The answers a screener question can receive */
+export function getScreenerAnswerSpace(question) {
+  if (question.type === 'boolean') return BOOLEAN_ANSWERS;
+  return parseOptions(question.options).filter((o) => typeof o === 'string');
+}
+
+/**
+ * @param {Array<{ type: string, options: unknown, required?: boolean, screener?: object|null }>} questions
+ *   Questions in display order, with canonical types.
+ */
+export function validateScreeners(questions) {
+  const errors = [];
+  let paidSectionStarted = false;
+
+  questions.forEach((question, questionIndex) => {
+    const screener = question.screener;
+    const fail = (message) => errors.push({ questionIndex, message });
+
+    if (screener == null) {
+      paidSectionStarted = true;
+      return;
+    }
+    if (typeof screener !== 'object' || !Array.isArray(screener.qualifying)) {
+      return fail('Screener needs a list of qualifying answers');
+    }
+    if (!SCREENER_QUESTION_TYPES.includes(question.type)) {
+      return fail('Only single-choice and yes/no questions can screen respondents');
+    }
+    // Screening after a paid question would end attempts the survey already asked for
+    if (paidSectionStarted) return fail('Screener questions must come before every other question');
+    if (question.required === false) return fail('Screener questions must be required');
+
+    const answerSpace = new Set(getScreenerAnswerSpace(question));
+    const qualifying = screener.qualifying;
+    if (qualifying.length === 0) return fail('Screener needs at least one qualifying answer');
+    if (qualifying.some((a) => !answerSpace.has(a))) return fail('Qualifying answers must be options of the question');
+    if (qualifying.length === answerSpace.size) return fail('Screener must leave at least one answer that does not qualify');
+
+    if (screener.quotas == null) return;
+    if (!Array.isArray(screener.quotas)) return fail('Quotas must be a list');
+    const seen = new Set();
+    for (const quota of screener.quotas) {
+      if (!quota || !qualifying.includes(quota.answer)) return fail('Quotas can only cap qualifying answers');
+      if (seen.has(quota.answer)) return fail('Duplicate quota for the same answer');
+      if (!Number.isInteger(quota.limit) || quota.limit < 1) return fail('Quota limit must be a positive whole number');
+      seen.add(quota.answer);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * First screener the answers fail, or null when the respondent qualifies.
+ * An unanswered screener is left to required-question validation.
+ */
+export function findScreenedOutQuestion(questions, answers) {
+  return (
+    questions.find((q) => {
+      if (!q.screener || !Array.isArray(q.screener.qualifying)) return false;
+      const answer = answers[q.id];
+      if (answer == null || answer === '') return false;
+      return !q.screener.qualifying.includes(String(answer));
+    }) ?? null
+  );
+}
+
+/** One row per capped answer — the SurveyQuotaCell rows to create for a survey */
+export function buildQuotaCells(surveyId, questions) {
+  return questions.flatMap((q) =>
+    (q.screener?.quotas ?? []).map((quota) => ({ surveyId, questionId: q.id, answer: quota.answer }))
+  );
+}
+
+/** The quotas these answers count toward: [{ questionId, answer, limit }] */
+export function matchQuotas(questions, answers) {
+  return questions.flatMap((q) => {
+    const answer = answers[q.id];
+    if (answer == null) return [];
+    const quota = (q.screener?.quotas ?? []).find((entry) => entry.answer === String(answer));
+    return quota ? [{ questionId: q.id, answer: quota.answer, limit: quota.limit }] : [];
+  });
+}
@@ -0,0 +1,146 @@
+/**
+ * Server-side validation for multilingual surveys.
+ *
+ * ESM port of the completeness half of the client's DelipuCash/utils/surveyTranslation.ts.
+ * A survey is written in `defaultLanguage` and may also be offered in each of
+ * `languages`. Every offered language needs its own copy of the title, the
+ * description (when there is one) and every question's text and answer labels,
+ * so a Luganda respondent never falls back to English mid-survey.
+ *
+ * Translation shapes:
+ *   Survey.translations       { [lang]: { title, description? } }
+ *   UploadSurvey.translations { [lang]: { text, options?, matrixColumns?, placeholder? } }
+ *
+ * Translated labels are aligned with the source labels by index. Answers are
+ * always stored as the source label at that index, so conditional logic,
+ * screeners, quotas and analytics never see a translated label.
+ *
+ * Returns arrays of { questionIndex, language, message } — questionIndex is null
+ * for survey-level problems; empty means valid.
+ */
+
+export const LANGUAGE_CODE_PATTERN = /^[a-z]{2,3}$/;
+
+const LIST_TYPES = ['radio', 'checkbox', 'dropdown', 'ranking'];
+
+function parseOptions(options) {
+  if (typeof options !== 'string') return options ?? null;
+  try {
+    return JSON.parse(options);
+  } catch {
+    return null;
+  }
+}
+
+const toLabels = (value) => (Array.isArray(value) ? value.map(String) : []);
+
+/**
+ * The source labels a translation must cover, by canonical question type:
+ * choice/ranking options, matrix rows + columns, and yes/no labels.
+ */
+export function getTranslatableLabels(question) {
+  const parsed = parseOptions(question.options);
+  const obj = parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+
+  if (LIST_TYPES.includes(question.type)) {
+    return { options: toLabels(Array.isArray(parsed) ? parsed : obj?.options), matrixColumns: [] };
+  }
+  if (question.type === 'matrix') {
+    return { options: toLabels(obj?.rows), matrixColumns: toLabels(obj?.columns) };
+  }
+  if (question.type === 'boolean') {
+    return { options: [obj?.yesLabel || 'Yes', obj?.noLabel || 'No'], matrixColumns: [] };
+  }
+  return { options: [], matrixColumns: [] };
+}
+
+const isFilled = (value) => typeof value === 'string' && value.trim().length > 0;
+
+/** A translated label list must match the source one-for-one */
+function labelListError(source, translated, noun) {
+  if (source.length === 0) return null;
+  if (!Array.isArray(translated) || translated.length !== source.length) {
+    return `Needs exactly ${source.length} translated ${noun}`;
+  }
+  if (!translated.every(isFilled)) return `Every ${noun.replace(/s$/, '')} needs a translation`;
+  return null;
+}
+
+/**
+ * @param {{
+ *   defaultLanguage?: string,
+ *   languages?: string[],
+ *   description?: string|null,
+ *   translations?: object|null,
+ *   questions: Array<{ type: string, options: unknown, translations?: object|null }>,
+ * }} survey  Questions in display order, with canonical types.
+ */
+export function validateTranslations({ defaultLanguage = 'en', languages = [], description = null, translations = null, questions }) {
+  const errors = [];
+  const fail = (questionIndex, language, message) => errors.push({ questionIndex, language, message });
+
+  if (!LANGUAGE_CODE_PATTERN.test(String(defaultLanguage))) {
+    fail(null, defaultLanguage, 'Unknown survey language');
+    return errors;
+  }
+  if (!Array.isArray(languages) || languages.some((l) => !LANGUAGE_CODE_PATTERN.test(String(l)))) {
+    fail(null, null, 'Languages must be a list of language codes');
+    return errors;
+  }
+  if (new Set(languages).size !== languages.length || languages.includes(defaultLanguage)) {
+    fail(null, null, 'Each language can only be offered once');
+    return errors;
+  }
+
+  const offered = new Set(languages);
+  const isObject = (value) => value != null && typeof value === 'object' && !Array.isArray(value);
+
+  // Survey title + description
+  if (translations != null && !isObject(translations)) {
+    fail(null, null, 'Survey translations must be an object');
+    return errors;
+  }
+  for (const language of Object.keys(translations ?? {})) {
+    if (!offered.has(language)) fail(null, language, 'Translation for a language the survey does not offer');
+  }
+  for (const language of languages) {
+    const entry = translations?.[language];
+    if (!isFilled(entry?.title)) fail(null, language, 'Survey title has no translation');
+    if (isFilled(description) && !isFilled(entry?.description)) fail(null, language, 'Survey description has no translation');
+  }
+
+  // Questions
+  questions.forEach((question, questionIndex) => {
+    const questionTranslations = question.translations ?? null;
+    if (questionTranslations != null && !isObject(questionTranslations)) {
+      fail(questionIndex, null, 'Question translations must be an object');
+      return;
+    }
+    for (const language of Object.keys(questionTranslations ?? {})) {
+      if (!offered.has(language)) fail(questionIndex, language, 'Translation for a language the survey does not offer');
+    }
+    if (languages.length === 0) return;
+
+    const source = getTranslatableLabels(question);
+    for (const language of languages) {
+      const entry = questionTranslations?.[language];
+      if (!isFilled(entry?.text)) {
+        fail(questionIndex, language, 'Question text has no translation');
+        continue;
+      }
+      const optionError = labelListError(source.options, entry.options, 'options');
+      if (optionError) fail(questionIndex, language, optionError);
+      const columnError = labelListError(source.matrixColumns, entry.matrixColumns, 'columns');
+      if (columnError) fail(questionIndex, language, columnError);
+    }
+  });
+
+  return errors;
+}
+
+/** The language a submission was answered in, or null when the survey doesn't offer it */
+export function resolveResponseLanguage(survey, language) {
+  if (typeof language !== 'string') return null;
+  const offered = [survey.defaultLanguage ?? 'en', ...(survey.languages ?? [])];
+  return offered.includes(language) ? language : null;
+}
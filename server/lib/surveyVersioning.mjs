@@ -0,0 +1,64 @@
+/**
+ * Survey versions — immutable snapshots of what respondents were asked.
+ *
+ * Version 1 is the survey as uploaded. Every question edit after that
+ * (PUT /api/surveys/:id with `questions`) and every rollback publishes the next
+ * version. A snapshot holds the questions as published — the UploadSurvey row
+ * fields the attempt screen and analytics read, in display order, keyed by
+ * their row ids. Answers are keyed by the same ids, so any response can be read
+ * against the wording and options it was actually given.
+ *
+ * Snapshots are never edited: a rollback republishes an old snapshot as a new
+ * version instead of rewinding the counter. Surveys from before versioning get
+ * their base snapshot lazily, just before their first versioned edit.
+ */
+
+/** Display order of a survey's questions. Rows from before versioning all sit at position 0, so creation order decides. */
+export const QUESTION_ORDER = [{ position: 'asc' }, { createdAt: 'asc' }];
+
+const SNAPSHOT_FIELDS = [
+  'id', 'text', 'type', 'options', 'placeholder', 'minValue', 'maxValue',
+  'required', 'conditionalLogic', 'screener', 'translations',
+];
+
+/** Question rows (in display order) → the snapshot stored on a version */
+export function snapshotQuestions(rows) {
+  return rows.map((row) => Object.fromEntries(SNAPSHOT_FIELDS.map((field) => [field, row[field] ?? null])));
+}
+
+/** A snapshot question → the UploadSurvey columns a rollback writes back */
+export function questionRowData(question, position) {
+  return {
+    text: question.text,
+    type: question.type,
+    options: question.options,
+    placeholder: question.placeholder,
+    minValue: question.minValue,
+    maxValue: question.maxValue,
+    required: question.required ?? true,
+    conditionalLogic: question.conditionalLogic,
+    screener: question.screener,
+    translations: question.translations,
+    position,
+  };
+}
+
+/**
+ * The version a response was answered on. The client reports the version it
+ * loaded (a queued submission may land after the next publish); anything that
+ * isn't a published version falls back to the current one.
+ */
+export function resolveResponseVersion(survey, claimed) {
+  const current = survey.currentVersion ?? 1;
+  return Number.isInteger(claimed) && claimed >= 1 && claimed <= current ? claimed : current;
+}
+
+/** Responses per version — responses from before versioning answered version 1 */
+export function countResponsesByVersion(groups) {
+  const counts = new Map();
+  for (const group of groups) {
+    const version = group.surveyVersion ?? 1;
+    counts.set(version, (counts.get(version) ?? 0) + (group._count?._all ?? 0));
+  }
+  return counts;
+}
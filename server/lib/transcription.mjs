@@ -0,0 +1,130 @@
+/**
+ * Speech-to-text for auto-generated captions.
+ *
+ * Provider-neutral like lib/aiSurveyGenerator.mjs: any endpoint speaking the
+ * OpenAI `audio/transcriptions` wire format works over plain `fetch` (OpenAI
+ * Whisper, Groq's hosted Whisper, a self-hosted faster-whisper server). The
+ * response is requested as `verbose_json` for its timed segments, which
+ * lib/captions.mjs cuesFromSegments turns into cues.
+ *
+ * For local development `TRANSCRIPTION_PROVIDER=stub` returns placeholder cues
+ * without touching the audio, so the whole pipeline — queueing, the worker,
+ * the player overlay, the editor — runs with no API key and no ffmpeg.
+ *
+ * Secret handling: API keys are read from env and sent only in the
+ * Authorization header; transcripts are never logged.
+ */
+
+import { cuesFromSegments } from './captions.mjs';
+
+export class TranscriptionUnavailableError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'TranscriptionUnavailableError';
+    this.code = 'TRANSCRIPTION_UNAVAILABLE';
+  }
+}
+
+export class TranscriptionError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'TranscriptionError';
+    this.code = 'TRANSCRIPTION_FAILED';
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 300_000;
+const STUB_CUE_SECONDS = 4;
+const STUB_DEFAULT_DURATION = 30;
+
+/**
+ * The configured provider, or null when auto captions are off.
+ *
+ *  - TRANSCRIPTION_PROVIDER=stub        placeholder cues (development only)
+ *  - TRANSCRIPTION_API_KEY (+ _BASE_URL, _MODEL)  any OpenAI-compatible endpoint;
+ *    the base URL defaults to OpenAI
+ *  - GROQ_API_KEY                       Groq's Whisper — the key the AI survey
+ *    generator already uses, so a deployment with Groq gets captions for free
+ */
+export function resolveTranscriptionProvider(env = process.env) {
+  if (env.TRANSCRIPTION_PROVIDER === 'stub') return { name: 'stub' };
+  if (env.TRANSCRIPTION_API_KEY) {
+    return {
+      name: 'openai',
+      url: env.TRANSCRIPTION_BASE_URL || 'https://api.openai.com/v1/audio/transcriptions',
+      apiKey: env.TRANSCRIPTION_API_KEY,
+      model: env.TRANSCRIPTION_MODEL || 'whisper-1',
+    };
+  }
+  if (env.GROQ_API_KEY) {
+    return {
+      name: 'groq',
+      url: 'https://api.groq.com/openai/v1/audio/transcriptions',
+      apiKey: env.GROQ_API_KEY,
+      model: env.TRANSCRIPTION_MODEL || 'whisper-large-v3-turbo',
+    };
+  }
+  return null;
+}
+
+/** Whether the provider needs the video's audio (the stub doesn't) */
+export const needsAudio = (provider) => provider?.name !== 'stub';
+
+/**
+ * ffmpeg arguments that extract mono 16 kHz speech audio at 32 kb/s — about
+ * 14 MB an hour, under Whisper's 25 MB upload cap for anything the app allows.
+ */
+export function audioExtractArgs(input, output) {
+  return ['-y', '-i', input, '-vn', '-ac', '1', '-ar', '16000', '-c:a', 'libmp3lame', '-b:a', '32k', output];
+}
+
+function stubCues(durationSeconds) {
+  const duration = durationSeconds > 0 ? durationSeconds : STUB_DEFAULT_DURATION;
+  const cues = [];
+  for (let start = 0, n = 1; start < duration; start += STUB_CUE_SECONDS, n += 1) {
+    cues.push({ start, end: Math.min(duration, start + STUB_CUE_SECONDS), text: `[Auto caption ${n}]` });
+  }
+  return cues;
+}
+
+/**
+ * Transcribe a video's audio into cues.
+ *
+ * @param {object} provider  from resolveTranscriptionProvider
+ * @param {object} input
+ * @param {Buffer|null} input.audio     mp3 from audioExtractArgs (ignored by the stub)
+ * @param {string} input.language       ISO 639 code the speech is in
+ * @param {number} [input.durationSeconds]
+ * @param {Function} [input.fetchImpl]  for tests
+ */
+export async function transcribe(provider, { audio, language, durationSeconds = 0, fetchImpl = fetch, timeoutMs = DEFAULT_TIMEOUT_MS }) {
+  if (!provider) throw new TranscriptionUnavailableError('No transcription provider is configured');
+  if (provider.name === 'stub') return stubCues(durationSeconds);
+  if (!audio || audio.length === 0) throw new TranscriptionError('No audio to transcribe');
+
+  const form = new FormData();
+  form.append('file', new Blob([audio], { type: 'audio/mpeg' }), 'audio.mp3');
+  form.append('model', provider.model);
+  form.append('language', language);
+  form.append('response_format', 'verbose_json');
+
+  let response;
+  try {
+    response = await fetchImpl(provider.url, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${provider.apiKey}` },
+      body: form,
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+  } catch (error) {
+    throw new TranscriptionError(`${provider.name} request failed: ${error.name === 'TimeoutError' ? 'timed out' : error.message}`);
+  }
+  if (!response.ok) {
+    throw new TranscriptionError(`${provider.name} returned ${response.status}`);
+  }
+
+  const body = await response.json().catch(() => null);
+  const cues = cuesFromSegments(body?.segments);
+  if (cues.length === 0) throw new TranscriptionError(`${provider.name} returned no speech segments`);
+  return cues;
+}
@@ -0,0 +1,239 @@
+/**
+ * Creator analytics — how a creator's videos are watched, from feed telemetry.
+ *
+ * The app's TelemetryBuffer posts VideoEvents (POST /api/videos/events): an
+ * impression each time a video comes into view, play_3s and the quartile
+ * milestones as it plays, skip when it's swiped away inside 3 seconds, and
+ * a dwell with the time it stayed on screen. At ingest the feed it was
+ * shown in (`source`) and the dwell time (`watchMs`) are lifted out of the
+ * payload so they can be grouped and summed here.
+ *
+ * One impression is one view. Retention is the share of views that reached
+ * each quartile — or a later one, since a seek can skip a milestone — so
+ * the curve never rises. Average view duration is total dwell over the
+ * number of dwells, so loops count as watch time. "Typical" is the
+ * creator's median video over the same range, which is what a single video
+ * is compared to.
+ *
+ * Follower growth counts CreatorFollow rows — the same follow that sends
+ * `creator.new_follower` — so someone who followed and then unfollowed
+ * inside the range isn't counted.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Selectable date ranges, in days */
+export const ANALYTICS_RANGES = { '7d': 7, '28d': 28, '90d': 90 };
+
+export const ANALYTICS_LIMITS = {
+  DEFAULT_RANGE: '28d',
+  TOP_VIDEOS: 10,
+  TOP_COMMENTS: 5,
+  // Recent root comments considered for "top comments"
+  COMMENT_CANDIDATES: 200,
+  // A dwell longer than this is a phone left on a table, not watch time
+  MAX_WATCH_MS: 6 * 60 * 60 * 1000,
+};
+
+/** Feeds a view can come from — the app's FeedTab values plus search */
+export const TRAFFIC_SOURCES = ['for-you', 'following', 'trending', 'live', 'search'];
+
+/** Milestone events behind each point of the retention curve */
+export const RETENTION_MILESTONES = [
+  { percent: 25, eventType: 'play_25pct' },
+  { percent: 50, eventType: 'play_50pct' },
+  { percent: 75, eventType: 'play_75pct' },
+  { percent: 100, eventType: 'play_100pct' },
+];
+
+const COUNTED_EVENTS = ['impression', 'play_3s', 'skip', 'rewatch', 'dwell', ...RETENTION_MILESTONES.map((m) => m.eventType)];
+
+const round3 = (value) => Math.round(value * 1000) / 1000;
+
+// ============================================================================
+// INGEST
+// ============================================================================
+
+/** A telemetry `source` as stored, or null when it isn't one we know */
+export function normalizeTrafficSource(value) {
+  return TRAFFIC_SOURCES.includes(value) ? value : null;
+}
+
+/** A dwell's on-screen time in whole ms, capped — null when it isn't a number */
+export function clampWatchMs(value) {
+  if (!Number.isFinite(value) || value < 0) return null;
+  return Math.min(Math.round(value), ANALYTICS_LIMITS.MAX_WATCH_MS);
+}
+
+// ============================================================================
+// RANGES
+// ============================================================================
+
+/** `{ range, days, since }` from `?range=`, defaulting to 28 days — null when unknown */
+export function parseAnalyticsRange(query = {}, now = new Date()) {
+  const range = query.range ?? ANALYTICS_LIMITS.DEFAULT_RANGE;
+  const days = ANALYTICS_RANGES[range];
+  if (!days) return null;
+  return { range, days, since: new Date(now.getTime() - days * DAY_MS) };
+}
+
+/** Per-day counts of `dates` (UTC days) from `since` to `now`, zero-filled */
+export function dailyCounts(dates, since, now = new Date()) {
+  const dayOf = (date) => new Date(date).toISOString().slice(0, 10);
+  const counts = new Map();
+  for (const date of dates) counts.set(dayOf(date), (counts.get(dayOf(date)) ?? 0) + 1);
+
+  const days = [];
+  const cursor = new Date(`${dayOf(since)}T00:00:00.000Z`);
+  const last = dayOf(now);
+  while (dayOf(cursor) <= last) {
+    const date = dayOf(cursor);
+    days.push({ date, count: counts.get(date) ?? 0 });
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+  return days;
+}
+
+// ============================================================================
+// METRICS
+// ============================================================================
+
+function emptyCounts() {
+  const counts = { watchMs: 0 };
+  for (const type of COUNTED_EVENTS) counts[type] = 0;
+  return counts;
+}
+
+/**
+ * Event counts per video from
+ * `videoEvent.groupBy({ by: ['videoId', 'eventType'], _count: { _all: true }, _sum: { watchMs: true } })`.
+ * Videos without events are absent; use `countsFor` to read one.
+ */
+export function eventCountsByVideo(groups) {
+  const byVideo = new Map();
+  for (const group of groups) {
+    if (!COUNTED_EVENTS.includes(group.eventType)) continue;
+    const counts = byVideo.get(group.videoId) ?? emptyCounts();
+    counts[group.eventType] += group._count?._all ?? 0;
+    if (group.eventType === 'dwell') counts.watchMs += group._sum?.watchMs ?? 0;
+    byVideo.set(group.videoId, counts);
+  }
+  return byVideo;
+}
+
+/** One video's counts, zeros when it had no events */
+export function countsFor(byVideo, videoId) {
+  return byVideo.get(videoId) ?? emptyCounts();
+}
+
+/** Several videos' counts added together — a channel's totals */
+export function sumCounts(countsList) {
+  const total = emptyCounts();
+  for (const counts of countsList) {
+    for (const key of Object.keys(total)) total[key] += counts[key] ?? 0;
+  }
+  return total;
+}
+
+/**
+ * What the dashboard shows for a set of counts: views, average view
+ * duration (seconds, and as a share of `durationSeconds` when known), the
+ * swipe-away rate in the first 3 seconds, completion, rewatches and the
+ * retention curve `[{ percent, share }]` starting at 0%.
+ */
+export function videoMetrics(counts, durationSeconds = null) {
+  const views = counts.impression;
+  const share = (n) => (views > 0 ? round3(Math.min(1, n / views)) : 0);
+
+  // Built from the end: whoever reached a later point passed the earlier
+  // ones, even when a seek skipped their milestone events
+  const retention = [];
+  let reached = 0;
+  for (const { percent, eventType } of [...RETENTION_MILESTONES].reverse()) {
+    reached = Math.max(reached, share(counts[eventType]));
+    retention.unshift({ percent, share: reached });
+  }
+  retention.unshift({ percent: 0, share: views > 0 ? 1 : 0 });
+
+  const avgViewSeconds = counts.dwell > 0 ? Math.round(counts.watchMs / counts.dwell / 100) / 10 : 0;
+  return {
+    views,
+    avgViewSeconds,
+    avgViewPercent: durationSeconds > 0 ? round3(Math.min(1, avgViewSeconds / durationSeconds)) : null,
+    swipeAwayRate: share(counts.skip),
+    completionRate: retention[retention.length - 1].share,
+    rewatches: counts.rewatch,
+    retention,
+  };
+}
+
+/** Median of `values`, null when there are none */
+export function median(values) {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * The creator's typical video: the median of each metric across their
+ * videos that were viewed in the range. `videos` is how many that was.
+ */
+export function benchmarkFrom(metricsList) {
+  const viewed = metricsList.filter((m) => m.views > 0);
+  const medianOf = (key) => median(viewed.map((m) => m[key]));
+  return {
+    videos: viewed.length,
+    views: medianOf('views'),
+    avgViewSeconds: medianOf('avgViewSeconds'),
+    swipeAwayRate: medianOf('swipeAwayRate'),
+    completionRate: medianOf('completionRate'),
+  };
+}
+
+/**
+ * Views by source from
+ * `videoEvent.groupBy({ by: ['source'], where: { eventType: 'impression' }, _count: { _all: true } })`,
+ * biggest first. Views from older app versions, which didn't send a
+ * source, are 'other'.
+ */
+export function trafficSourcesFrom(groups) {
+  const bySource = new Map();
+  for (const group of groups) {
+    const source = normalizeTrafficSource(group.source) ?? 'other';
+    bySource.set(source, (bySource.get(source) ?? 0) + (group._count?._all ?? 0));
+  }
+  const total = [...bySource.values()].reduce((sum, n) => sum + n, 0);
+  return [...bySource.entries()]
+    .filter(([, views]) => views > 0)
+    .map(([source, views]) => ({ source, views, share: round3(views / total) }))
+    .sort((a, b) => b.views - a.views);
+}
+
+// ============================================================================
+// COMMENTS
+// ============================================================================
+
+/** Replies plus reactions — what makes a comment "top" */
+export function commentEngagement(comment) {
+  const reactions = Object.values(comment.reactionCounts ?? {}).reduce((sum, n) => sum + (Number(n) || 0), 0);
+  return (comment.replyCount ?? 0) + reactions;
+}
+
+/** The most engaging comments (with `user` included), newest first on ties */
+export function topComments(comments, limit = ANALYTICS_LIMITS.TOP_COMMENTS) {
+  return comments
+    .map((comment) => ({ comment, engagement: commentEngagement(comment) }))
+    .sort((a, b) => b.engagement - a.engagement || new Date(b.comment.createdAt) - new Date(a.comment.createdAt))
+    .slice(0, limit)
+    .map(({ comment, engagement }) => ({
+      id: comment.id,
+      videoId: comment.videoId,
+      text: comment.text,
+      userName: comment.user ? `${comment.user.firstName} ${comment.user.lastName}`.trim() : null,
+      avatar: comment.user?.avatar ?? null,
+      replyCount: comment.replyCount ?? 0,
+      engagement,
+      createdAt: new Date(comment.createdAt).toISOString(),
+    }));
+}
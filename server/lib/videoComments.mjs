@@ -0,0 +1,249 @@
+/**
+ * Threaded video comments — thread placement, mentions, reactions and the
+ * creator's moderation rules.
+ *
+ * Threads are two levels deep: a top-level comment (depth 0), replies to it
+ * (depth 1) and replies to those (depth 2). Replying to a depth-2 comment
+ * files the reply next to it under the same parent, so a thread never grows
+ * a third level the phone would have to indent. Every reply carries the
+ * thread's rootId, which is what lets a whole thread load with one query and
+ * lets SSE payloads say exactly where a new comment goes.
+ *
+ * Comments are 'visible', 'held' or 'hidden':
+ *  - held:   waiting in the creator's review queue, because the creator holds
+ *            every comment for review or the text matched one of their
+ *            blocked keywords. Only the author and the creator see it.
+ *  - hidden: removed by the creator. Only the author still sees it.
+ * Video.commentsCount and Comment.replyCount only count visible comments, and
+ * mention notifications only go out once a comment is visible.
+ */
+
+export const COMMENT_STATUS = {
+  VISIBLE: 'visible',
+  HELD: 'held',
+  HIDDEN: 'hidden',
+};
+
+export const COMMENT_LIMITS = {
+  MAX_TEXT: 500,
+  MAX_MEDIA: 4,
+  MAX_MEDIA_URL: 2048,
+  MAX_DEPTH: 2,
+  MAX_MENTIONS: 10,
+  MAX_KEYWORDS: 50,
+  MAX_KEYWORD_CHARS: 40,
+  /** Replies embedded under each top-level comment in the list response */
+  REPLY_PREVIEW: 2,
+};
+
+/** The reaction bar — anything else is rejected */
+export const COMMENT_REACTIONS = ['❤️', '😂', '😮', '😢', '🔥', '👏'];
+
+export const MODERATION_ACTIONS = ['pin', 'unpin', 'hide', 'unhide', 'approve'];
+
+/**
+ * Where a new comment goes given the comment it replies to (null for a
+ * top-level comment). Replies past MAX_DEPTH become siblings of their target.
+ * @param {{ id: string, parentId: string|null, rootId: string|null, depth: number } | null} parent
+ * @returns {{ parentId: string|null, rootId: string|null, depth: number }}
+ */
+export function threadPosition(parent) {
+  if (!parent) return { parentId: null, rootId: null, depth: 0 };
+  if (parent.depth >= COMMENT_LIMITS.MAX_DEPTH) {
+    return { parentId: parent.parentId, rootId: parent.rootId, depth: COMMENT_LIMITS.MAX_DEPTH };
+  }
+  return { parentId: parent.id, rootId: parent.rootId ?? parent.id, depth: parent.depth + 1 };
+}
+
+/**
+ * Comments whose replyCount includes a new visible comment at `position`:
+ * its parent, and the thread's root when that's a different comment.
+ * @param {{ parentId: string|null, rootId: string|null }} position
+ * @returns {string[]}
+ */
+export function ancestorIds(position) {
+  const ids = [];
+  if (position.parentId) ids.push(position.parentId);
+  if (position.rootId && position.rootId !== position.parentId) ids.push(position.rootId);
+  return ids;
+}
+
+/**
+ * Mentions as `{ userId, offset, length }` spans of `text`, each starting at
+ * an '@'. Sorted by offset; [] when there are none. Null when the input is
+ * malformed — spans out of range, overlapping, not on an '@', or too many —
+ * so a bad client gets a 400 instead of a silently dropped mention.
+ * @param {string} text
+ * @param {unknown} input
+ * @returns {Array<{ userId: string, offset: number, length: number }> | null}
+ */
+export function normalizeMentions(text, input) {
+  if (input === undefined || input === null) return [];
+  if (!Array.isArray(input) || input.length > COMMENT_LIMITS.MAX_MENTIONS) return null;
+  const body = typeof text === 'string' ? text : '';
+  const spans = [];
+  for (const mention of input) {
+    const userId = typeof mention?.userId === 'string' ? mention.userId.trim() : '';
+    const offset = Number(mention?.offset);
+    const length = Number(mention?.length);
+    if (!userId || !Number.isInteger(offset) || !Number.isInteger(length)) return null;
+    if (offset < 0 || length < 2 || offset + length > body.length || body[offset] !== '@') return null;
+    spans.push({ userId, offset, length });
+  }
+  spans.sort((a, b) => a.offset - b.offset);
+  for (let i = 1; i < spans.length; i += 1) {
+    if (spans[i].offset < spans[i - 1].offset + spans[i - 1].length) return null;
+  }
+  return spans;
+}
+
+/** Distinct user ids a mention list names, in order of first appearance */
+export function mentionedUserIds(mentions) {
+  return [...new Set((Array.isArray(mentions) ? mentions : []).map((m) => m?.userId).filter(Boolean))];
+}
+
+/**
+ * A creator's blocked-keyword list: trimmed, lower-cased, inner whitespace
+ * collapsed, de-duplicated. Null when it isn't a list of strings or is too
+ * long; empty entries are dropped.
+ * @param {unknown} input
+ * @returns {string[] | null}
+ */
+export function normalizeKeywords(input) {
+  if (!Array.isArray(input) || input.length > COMMENT_LIMITS.MAX_KEYWORDS) return null;
+  const keywords = new Set();
+  for (const value of input) {
+    if (typeof value !== 'string') return null;
+    const keyword = value.trim().toLowerCase().replace(/\s+/g, ' ');
+    if (keyword.length > COMMENT_LIMITS.MAX_KEYWORD_CHARS) return null;
+    if (keyword) keywords.add(keyword);
+  }
+  return [...keywords];
+}
+
+const escapeRegExp = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * The first blocked keyword `text` contains as a whole word or phrase
+ * (case-insensitive, so "scam" matches "SCAM!" but not "scampi"), else null.
+ * @param {string} text
+ * @param {string[]} keywords - normalized (normalizeKeywords)
+ * @returns {string | null}
+ */
+export function matchesBlockedKeyword(text, keywords) {
+  if (typeof text !== 'string' || !text || !Array.isArray(keywords)) return null;
+  const haystack = text.toLowerCase().replace(/\s+/g, ' ');
+  for (const keyword of keywords) {
+    if (!keyword) continue;
+    const pattern = new RegExp(`(^|[^\\p{L}\\p{N}_])${escapeRegExp(keyword)}(?=$|[^\\p{L}\\p{N}_])`, 'u');
+    if (pattern.test(haystack)) return keyword;
+  }
+  return null;
+}
+
+/**
+ * Status a new comment starts with. The creator's own comments are never
+ * held; everyone else's are when the creator holds all comments for review
+ * or the text matches a blocked keyword.
+ * @param {{ authorId: string, ownerId: string, text: string,
+ *           settings: { holdCommentsForReview?: boolean, commentBlockedKeywords?: string[] } | null }} input
+ */
+export function initialCommentStatus({ authorId, ownerId, text, settings }) {
+  if (authorId === ownerId || !settings) return COMMENT_STATUS.VISIBLE;
+  if (settings.holdCommentsForReview) return COMMENT_STATUS.HELD;
+  return matchesBlockedKeyword(text, settings.commentBlockedKeywords || [])
+    ? COMMENT_STATUS.HELD
+    : COMMENT_STATUS.VISIBLE;
+}
+
+/**
+ * Status after a moderation action, or null when the action doesn't apply to
+ * a comment in `status` (approving a visible comment, pinning a hidden one).
+ * Pin/unpin leave the status alone.
+ */
+export function nextCommentStatus(status, action) {
+  switch (action) {
+    case 'approve':
+      return status === COMMENT_STATUS.HELD ? COMMENT_STATUS.VISIBLE : null;
+    case 'hide':
+      return status === COMMENT_STATUS.HIDDEN ? null : COMMENT_STATUS.HIDDEN;
+    case 'unhide':
+      return status === COMMENT_STATUS.HIDDEN ? COMMENT_STATUS.VISIBLE : null;
+    case 'pin':
+    case 'unpin':
+      return status === COMMENT_STATUS.VISIBLE ? status : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Who gets a `video.comment` event for `comment`: the creator, the comment's
+ * author, the author of the comment it replies to and everyone it mentions —
+ * minus `actorId`, who made the change. Held comments only reach the creator.
+ * @returns {string[]}
+ */
+export function commentAudience({ ownerId, comment, parentAuthorId, actorId }) {
+  const audience =
+    comment.status === COMMENT_STATUS.HELD
+      ? [ownerId]
+      : [ownerId, comment.userId, parentAuthorId, ...mentionedUserIds(comment.mentions)];
+  return [...new Set(audience.filter((id) => id && id !== actorId))];
+}
+
+/** `{ emoji: count }` from a commentReaction.groupBy({ by: ['emoji'], _count: true }) result */
+export function reactionCountsFrom(groups) {
+  const counts = {};
+  for (const group of groups || []) {
+    const count = typeof group._count === 'number' ? group._count : group._count?._all;
+    if (group.emoji && count > 0) counts[group.emoji] = count;
+  }
+  return counts;
+}
+
+/**
+ * Prisma filter for the comments `viewerId` can see: visible ones, plus the
+ * viewer's own held or hidden comments so a held comment doesn't look lost.
+ */
+export function visibleToViewer(viewerId) {
+  if (!viewerId) return { status: COMMENT_STATUS.VISIBLE };
+  return { OR: [{ status: COMMENT_STATUS.VISIBLE }, { userId: viewerId }] };
+}
+
+/**
+ * A comment row (with `user`, and optionally `replies`) in the app's shape.
+ * @param {object} comment
+ * @param {Set<string>} [myReactions] - "commentId:emoji" keys the viewer reacted with
+ */
+export function formatComment(comment, myReactions) {
+  return {
+    id: comment.id,
+    text: comment.text,
+    mediaUrls: comment.mediaUrls || [],
+    userId: comment.userId,
+    videoId: comment.videoId,
+    parentId: comment.parentId ?? null,
+    rootId: comment.rootId ?? null,
+    depth: comment.depth ?? 0,
+    mentions: Array.isArray(comment.mentions) ? comment.mentions : [],
+    status: comment.status || COMMENT_STATUS.VISIBLE,
+    isPinned: Boolean(comment.pinnedAt),
+    replyCount: comment.replyCount ?? 0,
+    reactions: comment.reactionCounts && typeof comment.reactionCounts === 'object' ? comment.reactionCounts : {},
+    myReactions: myReactions
+      ? COMMENT_REACTIONS.filter((emoji) => myReactions.has(`${comment.id}:${emoji}`))
+      : [],
+    createdAt: comment.createdAt.toISOString(),
+    user: comment.user
+      ? {
+          id: comment.user.id,
+          firstName: comment.user.firstName,
+          lastName: comment.user.lastName,
+          avatar: comment.user.avatar,
+        }
+      : undefined,
+    ...(Array.isArray(comment.replies)
+      ? { replies: comment.replies.map((reply) => formatComment(reply, myReactions)) }
+      : {}),
+  };
+}
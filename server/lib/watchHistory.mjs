@@ -0,0 +1,132 @@
+/**
+ * Watch history — where each viewer left off in each video.
+ *
+ * One VideoWatchHistory row per (user, video), overwritten as they watch. The
+ * app records progress locally while playing and syncs it in batches
+ * (PUT /api/videos/history), so history survives a reinstall and follows the
+ * viewer across devices. When a batch and the stored row disagree, the later
+ * watchedAt wins — an old offline batch can't rewind a position set since.
+ *
+ * Playback resumes from positionSeconds unless the viewer barely started
+ * (under RESUME_MIN_SECONDS) or practically finished (COMPLETE_PERCENT).
+ * The personalised feed reads progressPercent as a watch signal alongside
+ * the play-milestone telemetry.
+ *
+ * Pausing history (AppUser.watchHistoryPaused) stops new progress from being
+ * saved; what is already there stays until removed or cleared.
+ */
+
+export const WATCH_HISTORY_LIMITS = {
+  MAX_SYNC_ENTRIES: 50,
+  DEFAULT_PAGE_SIZE: 30,
+  MAX_PAGE_SIZE: 100,
+  RESUME_MIN_SECONDS: 10,
+  COMPLETE_PERCENT: 95,
+  // Clock skew allowed on a synced watchedAt before it is clamped to now
+  MAX_FUTURE_SKEW_MS: 5 * 60 * 1000,
+};
+
+/** Share of the video watched, 0–100 */
+export function progressPercentOf(positionSeconds, durationSeconds) {
+  if (!(durationSeconds > 0)) return 0;
+  return Math.max(0, Math.min(100, Math.round((positionSeconds / durationSeconds) * 100)));
+}
+
+/**
+ * One synced entry as `{ videoId, positionSeconds, durationSeconds,
+ * progressPercent, watchedAt }`, or null when malformed. The position is
+ * clamped to the duration and a watchedAt from the future to `now`.
+ */
+export function normalizeHistoryEntry(raw, now = new Date()) {
+  if (!raw || typeof raw !== 'object') return null;
+  const { videoId, positionSeconds, durationSeconds } = raw;
+  if (typeof videoId !== 'string' || !videoId) return null;
+  if (!Number.isFinite(positionSeconds) || positionSeconds < 0) return null;
+  if (!Number.isFinite(durationSeconds) || durationSeconds <= 0) return null;
+
+  const watchedAt = new Date(raw.watchedAt);
+  if (Number.isNaN(watchedAt.getTime())) return null;
+
+  const position = Math.min(positionSeconds, durationSeconds);
+  return {
+    videoId,
+    positionSeconds: position,
+    durationSeconds,
+    progressPercent: progressPercentOf(position, durationSeconds),
+    watchedAt:
+      watchedAt.getTime() > now.getTime() + WATCH_HISTORY_LIMITS.MAX_FUTURE_SKEW_MS ? now : watchedAt,
+  };
+}
+
+/**
+ * The valid entries of a sync body — one per video, the latest watchedAt
+ * kept — or null when `entries` isn't an array of at most MAX_SYNC_ENTRIES.
+ * Malformed entries are dropped rather than failing the batch, so one bad
+ * record can't wedge the app's sync queue.
+ */
+export function normalizeSyncBatch(body = {}, now = new Date()) {
+  const { entries } = body;
+  if (!Array.isArray(entries) || entries.length > WATCH_HISTORY_LIMITS.MAX_SYNC_ENTRIES) return null;
+
+  const byVideo = new Map();
+  for (const raw of entries) {
+    const entry = normalizeHistoryEntry(raw, now);
+    if (!entry) continue;
+    const seen = byVideo.get(entry.videoId);
+    if (!seen || entry.watchedAt > seen.watchedAt) byVideo.set(entry.videoId, entry);
+  }
+  return [...byVideo.values()];
+}
+
+/** Whether `entry` should overwrite the stored row — it must be strictly newer */
+export function isNewerThanStored(entry, stored) {
+  return !stored || entry.watchedAt.getTime() > new Date(stored.lastWatchedAt).getTime();
+}
+
+/** Where playback should resume, in seconds — null to start from the beginning */
+export function resumePositionSeconds({ positionSeconds, durationSeconds }) {
+  if (!(positionSeconds >= WATCH_HISTORY_LIMITS.RESUME_MIN_SECONDS)) return null;
+  if (progressPercentOf(positionSeconds, durationSeconds) >= WATCH_HISTORY_LIMITS.COMPLETE_PERCENT) return null;
+  return positionSeconds;
+}
+
+/**
+ * History progress as the feed's play-milestone signal: 25/50/75/100, or 0
+ * below a quarter. A practically finished video counts as complete.
+ */
+export function historyWatchPct(progressPercent) {
+  if (progressPercent >= WATCH_HISTORY_LIMITS.COMPLETE_PERCENT) return 100;
+  return Math.floor(progressPercent / 25) * 25;
+}
+
+/**
+ * `{ before, limit }` from the query — `before` pages by lastWatchedAt — or
+ * null when malformed.
+ */
+export function parseHistoryPage(query = {}) {
+  let limit = WATCH_HISTORY_LIMITS.DEFAULT_PAGE_SIZE;
+  if (query.limit !== undefined) {
+    limit = Number(query.limit);
+    if (!Number.isInteger(limit) || limit < 1) return null;
+    limit = Math.min(limit, WATCH_HISTORY_LIMITS.MAX_PAGE_SIZE);
+  }
+  let before = null;
+  if (query.before !== undefined) {
+    before = new Date(query.before);
+    if (Number.isNaN(before.getTime())) return null;
+  }
+  return { before, limit };
+}
+
+/** A VideoWatchHistory row as the app sees it; `video` is the formatted video */
+export function formatHistoryEntry(row, video = null) {
+  return {
+    videoId: row.videoId,
+    positionSeconds: row.positionSeconds,
+    durationSeconds: row.durationSeconds,
+    progressPercent: row.progressPercent,
+    watchedAt: new Date(row.lastWatchedAt).toISOString(),
+    resumeAt: resumePositionSeconds(row),
+    video,
+  };
+}
@@ -0,0 +1,4 @@
+-- AlterTable
+-- Hidden computed variables (score / segment) piped into question text as {{name}}.
+-- Nullable JSON: existing surveys have none.
+ALTER TABLE "Survey" ADD COLUMN     "computedVariables" JSONB;
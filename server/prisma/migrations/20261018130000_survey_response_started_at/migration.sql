@@ -0,0 +1,5 @@
+-- AlterTable
+-- When the respondent opened the survey, reported by the client on submit.
+-- Powers completion-time analytics and speeder detection; nullable because
+-- earlier responses never recorded it.
+ALTER TABLE "survey_responses" ADD COLUMN     "startedAt" TIMESTAMP(3);
@@ -0,0 +1,7 @@
+-- AlterTable
+-- Client-generated key per survey attempt. Offline-queued submissions replay
+-- with the same key and get the original result instead of a 409.
+ALTER TABLE "survey_responses" ADD COLUMN     "idempotencyKey" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "survey_responses_idempotencyKey_key" ON "survey_responses"("idempotencyKey");
@@ -0,0 +1,21 @@
+-- AlterTable
+-- Screener questions end non-qualifying attempts before the paid section.
+ALTER TABLE "UploadSurvey" ADD COLUMN     "screener" JSONB;
+
+-- CreateTable
+-- Per-answer quota fill, incremented atomically by the submit transaction.
+CREATE TABLE "SurveyQuotaCell" (
+    "id" UUID NOT NULL,
+    "surveyId" UUID NOT NULL,
+    "questionId" UUID NOT NULL,
+    "answer" TEXT NOT NULL,
+    "filled" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "SurveyQuotaCell_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SurveyQuotaCell_surveyId_questionId_answer_key" ON "SurveyQuotaCell"("surveyId", "questionId", "answer");
+
+-- AddForeignKey
+ALTER TABLE "SurveyQuotaCell" ADD CONSTRAINT "SurveyQuotaCell_surveyId_fkey" FOREIGN KEY ("surveyId") REFERENCES "Survey"("id") ON DELETE CASCADE ON UPDATE CASCADE;
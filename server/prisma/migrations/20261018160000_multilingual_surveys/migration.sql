@@ -0,0 +1,12 @@
+-- AlterTable
+-- Surveys are written in one language and may be offered in others.
+ALTER TABLE "Survey" ADD COLUMN     "defaultLanguage" TEXT NOT NULL DEFAULT 'en',
+ADD COLUMN     "languages" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "translations" JSONB;
+
+-- AlterTable
+-- Per-language question text and index-aligned answer labels.
+ALTER TABLE "UploadSurvey" ADD COLUMN     "translations" JSONB;
+
+-- AlterTable
+ALTER TABLE "survey_responses" ADD COLUMN     "language" TEXT;
@@ -0,0 +1,30 @@
+-- AlterTable
+-- Each question edit or rollback publishes the next version.
+ALTER TABLE "Survey" ADD COLUMN     "currentVersion" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+-- Display order within the current version; existing rows stay at 0 and keep creation order.
+ALTER TABLE "UploadSurvey" ADD COLUMN     "position" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "survey_responses" ADD COLUMN     "surveyVersion" INTEGER;
+
+-- CreateTable
+-- Immutable snapshot of a survey's questions as published.
+CREATE TABLE "SurveyVersion" (
+    "id" UUID NOT NULL,
+    "surveyId" UUID NOT NULL,
+    "version" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "questions" JSONB NOT NULL,
+    "restoredFrom" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SurveyVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SurveyVersion_surveyId_version_key" ON "SurveyVersion"("surveyId", "version");
+
+-- AddForeignKey
+ALTER TABLE "SurveyVersion" ADD CONSTRAINT "SurveyVersion_surveyId_fkey" FOREIGN KEY ("surveyId") REFERENCES "Survey"("id") ON DELETE CASCADE ON UPDATE CASCADE;
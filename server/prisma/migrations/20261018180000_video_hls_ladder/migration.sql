@@ -0,0 +1,7 @@
+-- AlterTable
+-- HLS ladder per video; existing rows stay null and keep playing their MP4.
+ALTER TABLE "Video" ADD COLUMN     "hlsStatus" TEXT,
+ADD COLUMN     "hlsRenditions" JSONB;
+
+-- CreateIndex
+CREATE INDEX "Video_hlsStatus_idx" ON "Video"("hlsStatus");
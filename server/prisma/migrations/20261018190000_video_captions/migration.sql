@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "Video" ADD COLUMN     "captionLanguages" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateTable
+CREATE TABLE "VideoCaption" (
+    "id" UUID NOT NULL,
+    "videoId" UUID NOT NULL,
+    "language" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'ready',
+    "cues" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "VideoCaption_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VideoCaption_videoId_language_key" ON "VideoCaption"("videoId", "language");
+
+-- CreateIndex
+CREATE INDEX "VideoCaption_status_idx" ON "VideoCaption"("status");
+
+-- AddForeignKey
+ALTER TABLE "VideoCaption" ADD CONSTRAINT "VideoCaption_videoId_fkey" FOREIGN KEY ("videoId") REFERENCES "Video"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,48 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'MENTION';
+
+-- AlterTable
+ALTER TABLE "AppUser" ADD COLUMN     "commentBlockedKeywords" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "holdCommentsForReview" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "Comment" ADD COLUMN     "depth" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "mentions" JSONB,
+ADD COLUMN     "parentId" UUID,
+ADD COLUMN     "pinnedAt" TIMESTAMP(3),
+ADD COLUMN     "reactionCounts" JSONB,
+ADD COLUMN     "replyCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "rootId" UUID,
+ADD COLUMN     "status" TEXT NOT NULL DEFAULT 'visible';
+
+-- CreateTable
+CREATE TABLE "CommentReaction" (
+    "id" UUID NOT NULL,
+    "commentId" UUID NOT NULL,
+    "userId" UUID NOT NULL,
+    "emoji" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CommentReaction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Comment_videoId_rootId_createdAt_idx" ON "Comment"("videoId", "rootId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Comment_videoId_status_idx" ON "Comment"("videoId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CommentReaction_commentId_userId_emoji_key" ON "CommentReaction"("commentId", "userId", "emoji");
+
+-- CreateIndex
+CREATE INDEX "CommentReaction_userId_idx" ON "CommentReaction"("userId");
+
+-- AddForeignKey
+ALTER TABLE "Comment" ADD CONSTRAINT "Comment_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Comment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CommentReaction" ADD CONSTRAINT "CommentReaction_commentId_fkey" FOREIGN KEY ("commentId") REFERENCES "Comment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CommentReaction" ADD CONSTRAINT "CommentReaction_userId_fkey" FOREIGN KEY ("userId") REFERENCES "AppUser"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
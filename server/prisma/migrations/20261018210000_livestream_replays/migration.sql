@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "Video" ADD COLUMN     "livestreamSessionId" TEXT,
+ADD COLUMN     "peakViewerCount" INTEGER;
+
+-- CreateTable
+CREATE TABLE "LivestreamChatMessage" (
+    "id" UUID NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "userId" UUID NOT NULL,
+    "userName" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "offsetMs" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LivestreamChatMessage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Video_livestreamSessionId_key" ON "Video"("livestreamSessionId");
+
+-- CreateIndex
+CREATE INDEX "LivestreamChatMessage_sessionId_offsetMs_idx" ON "LivestreamChatMessage"("sessionId", "offsetMs");
+
+-- AddForeignKey
+ALTER TABLE "Video" ADD CONSTRAINT "Video_livestreamSessionId_fkey" FOREIGN KEY ("livestreamSessionId") REFERENCES "Livestream"("sessionId") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LivestreamChatMessage" ADD CONSTRAINT "LivestreamChatMessage_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Livestream"("sessionId") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,55 @@
+-- AlterTable
+ALTER TABLE "AppUser" ADD COLUMN     "livestreamBannedWords" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "Livestream" ADD COLUMN     "slowModeSeconds" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "followersOnlyChat" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "blockChatLinks" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "LivestreamChatMessage" ADD COLUMN     "deletedAt" TIMESTAMP(3),
+ADD COLUMN     "deletedById" UUID;
+
+-- CreateTable
+CREATE TABLE "LivestreamChatRestriction" (
+    "id" UUID NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "userId" UUID NOT NULL,
+    "kind" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3),
+    "createdById" UUID NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LivestreamChatRestriction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LivestreamModerator" (
+    "id" UUID NOT NULL,
+    "streamerId" UUID NOT NULL,
+    "moderatorId" UUID NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LivestreamModerator_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LivestreamChatMessage_sessionId_userId_createdAt_idx" ON "LivestreamChatMessage"("sessionId", "userId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LivestreamChatRestriction_sessionId_userId_key" ON "LivestreamChatRestriction"("sessionId", "userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LivestreamModerator_streamerId_moderatorId_key" ON "LivestreamModerator"("streamerId", "moderatorId");
+
+-- CreateIndex
+CREATE INDEX "LivestreamModerator_moderatorId_idx" ON "LivestreamModerator"("moderatorId");
+
+-- AddForeignKey
+ALTER TABLE "LivestreamChatRestriction" ADD CONSTRAINT "LivestreamChatRestriction_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Livestream"("sessionId") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LivestreamModerator" ADD CONSTRAINT "LivestreamModerator_streamerId_fkey" FOREIGN KEY ("streamerId") REFERENCES "AppUser"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LivestreamModerator" ADD CONSTRAINT "LivestreamModerator_moderatorId_fkey" FOREIGN KEY ("moderatorId") REFERENCES "AppUser"("id") ON DELETE CASCADE ON UPDATE CASCADE;
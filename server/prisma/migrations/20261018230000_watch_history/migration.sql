@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "AppUser" ADD COLUMN     "watchHistoryPaused" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "VideoWatchHistory" (
+    "id" UUID NOT NULL,
+    "userId" UUID NOT NULL,
+    "videoId" UUID NOT NULL,
+    "positionSeconds" DOUBLE PRECISION NOT NULL,
+    "durationSeconds" DOUBLE PRECISION NOT NULL,
+    "progressPercent" INTEGER NOT NULL,
+    "lastWatchedAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "VideoWatchHistory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VideoWatchHistory_userId_videoId_key" ON "VideoWatchHistory"("userId", "videoId");
+
+-- CreateIndex
+CREATE INDEX "VideoWatchHistory_userId_lastWatchedAt_idx" ON "VideoWatchHistory"("userId", "lastWatchedAt");
+
+-- CreateIndex
+CREATE INDEX "VideoWatchHistory_videoId_idx" ON "VideoWatchHistory"("videoId");
+
+-- AddForeignKey
+ALTER TABLE "VideoWatchHistory" ADD CONSTRAINT "VideoWatchHistory_userId_fkey" FOREIGN KEY ("userId") REFERENCES "AppUser"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VideoWatchHistory" ADD CONSTRAINT "VideoWatchHistory_videoId_fkey" FOREIGN KEY ("videoId") REFERENCES "Video"("id") ON DELETE CASCADE ON UPDATE CASCADE;
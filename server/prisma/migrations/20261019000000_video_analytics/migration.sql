@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "VideoEvent" ADD COLUMN     "source" TEXT,
+ADD COLUMN     "watchMs" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "VideoEvent_videoId_createdAt_idx" ON "VideoEvent"("videoId", "createdAt");
@@ -0,0 +1,76 @@
+-- AlterTable
+ALTER TABLE "Video" ADD COLUMN     "seriesId" UUID,
+ADD COLUMN     "seriesPart" INTEGER,
+ADD COLUMN     "seriesParts" INTEGER,
+ADD COLUMN     "seriesTitle" TEXT;
+
+-- AlterTable
+ALTER TABLE "VideoBookmark" ADD COLUMN     "collectionId" UUID;
+
+-- CreateTable
+CREATE TABLE "VideoCollection" (
+    "id" UUID NOT NULL,
+    "userId" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "VideoCollection_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "VideoPlaylist" (
+    "id" UUID NOT NULL,
+    "userId" UUID NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "kind" TEXT NOT NULL DEFAULT 'playlist',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "VideoPlaylist_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "VideoPlaylistItem" (
+    "id" UUID NOT NULL,
+    "playlistId" UUID NOT NULL,
+    "videoId" UUID NOT NULL,
+    "position" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "VideoPlaylistItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "VideoBookmark_collectionId_idx" ON "VideoBookmark"("collectionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VideoCollection_userId_name_key" ON "VideoCollection"("userId", "name");
+
+-- CreateIndex
+CREATE INDEX "VideoPlaylist_userId_updatedAt_idx" ON "VideoPlaylist"("userId", "updatedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VideoPlaylistItem_playlistId_videoId_key" ON "VideoPlaylistItem"("playlistId", "videoId");
+
+-- CreateIndex
+CREATE INDEX "VideoPlaylistItem_playlistId_position_idx" ON "VideoPlaylistItem"("playlistId", "position");
+
+-- CreateIndex
+CREATE INDEX "VideoPlaylistItem_videoId_idx" ON "VideoPlaylistItem"("videoId");
+
+-- AddForeignKey
+ALTER TABLE "VideoBookmark" ADD CONSTRAINT "VideoBookmark_collectionId_fkey" FOREIGN KEY ("collectionId") REFERENCES "VideoCollection"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VideoCollection" ADD CONSTRAINT "VideoCollection_userId_fkey" FOREIGN KEY ("userId") REFERENCES "AppUser"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VideoPlaylist" ADD CONSTRAINT "VideoPlaylist_userId_fkey" FOREIGN KEY ("userId") REFERENCES "AppUser"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VideoPlaylistItem" ADD CONSTRAINT "VideoPlaylistItem_playlistId_fkey" FOREIGN KEY ("playlistId") REFERENCES "VideoPlaylist"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VideoPlaylistItem" ADD CONSTRAINT "VideoPlaylistItem_videoId_fkey" FOREIGN KEY ("videoId") REFERENCES "Video"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "AdStatusChange" (
+    "id" UUID NOT NULL,
+    "adId" UUID NOT NULL,
+    "status" TEXT NOT NULL,
+    "reason" TEXT,
+    "actorId" UUID,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AdStatusChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AdStatusChange_adId_createdAt_idx" ON "AdStatusChange"("adId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "AdStatusChange" ADD CONSTRAINT "AdStatusChange_adId_fkey" FOREIGN KEY ("adId") REFERENCES "Ad"("id") ON DELETE CASCADE ON UPDATE CASCADE;
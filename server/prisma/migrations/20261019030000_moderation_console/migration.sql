@@ -0,0 +1,55 @@
+-- CreateTable
+CREATE TABLE "ContentReport" (
+    "id" UUID NOT NULL,
+    "targetType" TEXT NOT NULL,
+    "targetId" UUID NOT NULL,
+    "reporterId" UUID NOT NULL,
+    "reason" TEXT NOT NULL,
+    "details" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "reviewedById" UUID,
+    "reviewedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ContentReport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ModerationAction" (
+    "id" UUID NOT NULL,
+    "actorId" UUID NOT NULL,
+    "targetType" TEXT NOT NULL,
+    "targetId" UUID NOT NULL,
+    "action" TEXT NOT NULL,
+    "targetLabel" TEXT,
+    "reason" TEXT,
+    "reportCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ModerationAction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ContentReport_reporterId_targetType_targetId_key" ON "ContentReport"("reporterId", "targetType", "targetId");
+
+-- CreateIndex
+CREATE INDEX "ContentReport_status_targetType_createdAt_idx" ON "ContentReport"("status", "targetType", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ContentReport_targetType_targetId_idx" ON "ContentReport"("targetType", "targetId");
+
+-- CreateIndex
+CREATE INDEX "ModerationAction_createdAt_idx" ON "ModerationAction"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "ModerationAction_actorId_createdAt_idx" ON "ModerationAction"("actorId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ModerationAction_targetType_targetId_idx" ON "ModerationAction"("targetType", "targetId");
+
+-- Videos already reported through VideoFeedback join the queue
+INSERT INTO "ContentReport" ("id", "targetType", "targetId", "reporterId", "reason", "details", "createdAt")
+SELECT gen_random_uuid(), 'video', "videoId", "userId", 'other', "reason", "createdAt"
+FROM "VideoFeedback"
+WHERE "action" = 'report'
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,45 @@
+-- AlterTable
+ALTER TABLE "Ad" ADD COLUMN "variantMode" TEXT,
+ADD COLUMN "winnerVariantId" UUID;
+
+-- AlterTable
+ALTER TABLE "AdImpression" ADD COLUMN "variantId" UUID;
+
+-- AlterTable
+ALTER TABLE "AdClick" ADD COLUMN "variantId" UUID;
+
+-- CreateTable
+CREATE TABLE "AdVariant" (
+    "id" UUID NOT NULL,
+    "adId" UUID NOT NULL,
+    "label" TEXT NOT NULL,
+    "headline" TEXT NOT NULL,
+    "description" TEXT,
+    "imageUrl" TEXT,
+    "videoUrl" TEXT,
+    "thumbnailUrl" TEXT,
+    "callToAction" TEXT NOT NULL DEFAULT 'learn_more',
+    "r2ImageKey" TEXT,
+    "r2VideoKey" TEXT,
+    "r2ThumbnailKey" TEXT,
+    "impressions" INTEGER NOT NULL DEFAULT 0,
+    "clicks" INTEGER NOT NULL DEFAULT 0,
+    "conversions" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AdVariant_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AdVariant_adId_isActive_idx" ON "AdVariant"("adId", "isActive");
+
+-- CreateIndex
+CREATE INDEX "AdImpression_variantId_idx" ON "AdImpression"("variantId");
+
+-- CreateIndex
+CREATE INDEX "AdClick_variantId_idx" ON "AdClick"("variantId");
+
+-- AddForeignKey
+ALTER TABLE "AdVariant" ADD CONSTRAINT "AdVariant_adId_fkey" FOREIGN KEY ("adId") REFERENCES "Ad"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,43 @@
+-- AlterTable
+ALTER TABLE "AppConfig" ADD COLUMN "rewardedAdPoints" INTEGER NOT NULL DEFAULT 5,
+ADD COLUMN "rewardedAdDailyCap" INTEGER NOT NULL DEFAULT 5;
+
+-- AlterTable
+ALTER TABLE "Ad" ADD COLUMN "videoDurationSeconds" INTEGER;
+
+-- CreateTable
+CREATE TABLE "RewardedAdView" (
+    "id" UUID NOT NULL,
+    "userId" UUID NOT NULL,
+    "adId" UUID NOT NULL,
+    "points" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'started',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "creditedAt" TIMESTAMP(3),
+
+    CONSTRAINT "RewardedAdView_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RewardedAdView_userId_createdAt_idx" ON "RewardedAdView"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "RewardedAdView_userId_status_createdAt_idx" ON "RewardedAdView"("userId", "status", "createdAt");
+
+-- CreateTable
+CREATE TABLE "RewardedAdDay" (
+    "userId" UUID NOT NULL,
+    "day" DATE NOT NULL,
+    "credited" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "RewardedAdDay_pkey" PRIMARY KEY ("userId","day")
+);
+
+-- AddForeignKey
+ALTER TABLE "RewardedAdView" ADD CONSTRAINT "RewardedAdView_userId_fkey" FOREIGN KEY ("userId") REFERENCES "AppUser"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RewardedAdView" ADD CONSTRAINT "RewardedAdView_adId_fkey" FOREIGN KEY ("adId") REFERENCES "Ad"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RewardedAdDay" ADD CONSTRAINT "RewardedAdDay_userId_fkey" FOREIGN KEY ("userId") REFERENCES "AppUser"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- AlterTable
+-- Points credited for the attempt. Idempotent replays echo this instead of the
+-- current config value, which may have changed since.
+ALTER TABLE "survey_responses" ADD COLUMN     "pointsAwarded" INTEGER;
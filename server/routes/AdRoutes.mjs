@@ -13,11 +13,16 @@ import {
   trackAdConversion,
   approveAd,
   rejectAd,
+  bulkReviewAds,
   pauseAd,
   resumeAd,
   getPendingAds,
   getAdAnalytics
 } from '../controllers/AdController.mjs';
+import { getCampaignPerformance, getMyCampaigns } from '../controllers/adCampaignController.mjs';
+import { endAdTest, getAdVariants, saveAdVariants, updateAdTest } from '../controllers/adVariantController.mjs';
+import { claimRewardedAd, getRewardedStatus, startRewardedAd } from '../controllers/rewardedAdController.mjs';
+import { requireIntegrity } from '../lib/playIntegrity.mjs';
 
 const router = express.Router();
 
@@ -35,6 +40,16 @@ router.get('/user/:userId', getAdsByUser);
 // Create a new ad (auth required — userId comes from JWT)
 router.post('/create', verifyToken, createAd);
 
+// ============================================================================
+// REWARDED ADS (auth required — watch a whole ad, earn points)
+// ============================================================================
+
+// Today's allowance, then start a view and claim it with the signed completion
+// token. The claim pays out, so it sits behind Play Integrity like redemption.
+router.get('/rewarded', verifyToken, getRewardedStatus);
+router.post('/rewarded/start', verifyToken, startRewardedAd);
+router.post('/rewarded/claim', verifyToken, requireIntegrity(), claimRewardedAd);
+
 // ============================================================================
 // AD MANAGEMENT ROUTES (auth required — owner or admin)
 // ============================================================================
@@ -48,6 +63,17 @@ router.delete('/:adId/delete', verifyToken, deleteAd);
 // Get ad analytics/performance
 router.get('/:adId/analytics', verifyToken, getAdAnalytics);
 
+// Campaign dashboard — the caller's ads, and one ad's daily performance,
+// spend pacing and status timeline
+router.get('/mine', verifyToken, getMyCampaigns);
+router.get('/:adId/performance', verifyToken, getCampaignPerformance);
+
+// Creative test — 2–4 variants, split evenly or shifted toward the winner
+router.get('/:adId/variants', verifyToken, getAdVariants);
+router.put('/:adId/variants', verifyToken, saveAdVariants);
+router.patch('/:adId/variants', verifyToken, updateAdTest);
+router.delete('/:adId/variants', verifyToken, endAdTest);
+
 // Pause ad campaign
 router.put('/:adId/pause', verifyToken, pauseAd);
 
@@ -61,6 +87,9 @@ router.put('/:adId/resume', verifyToken, resumeAd);
 // Get pending ads for review
 router.get('/admin/pending', verifyToken, requireModerator, getPendingAds);
 
+// Approve or reject several pending ads at once
+router.put('/admin/bulk-review', verifyToken, requireModerator, bulkReviewAds);
+
 // Approve an ad
 router.put('/:adId/approve', verifyToken, requireModerator, approveAd);
 
@@ -0,0 +1,49 @@
+/**
+ * Livestream Chat Routes
+ * Chat and its moderation — see controllers/livestreamChatController.mjs.
+ *
+ * Routes (all protected):
+ * - GET    /api/videos/livestream/moderation-settings              — Banned words + co-moderators
+ * - PUT    /api/videos/livestream/moderation-settings              — Replace the banned words
+ * - POST   /api/videos/livestream/moderators                       — Appoint a follower
+ * - DELETE /api/videos/livestream/moderators/:userId               — Remove a co-moderator
+ * - POST   /api/videos/livestream/:sessionId/chat                  — Send a chat message
+ * - DELETE /api/videos/livestream/:sessionId/chat/:messageId       — Delete a message (staff)
+ * - GET    /api/videos/livestream/:sessionId/moderation            — Settings, role, restrictions
+ * - PUT    /api/videos/livestream/:sessionId/chat-settings         — Slow mode, followers-only, links (staff)
+ * - POST   /api/videos/livestream/:sessionId/restrictions          — Time out or ban a viewer (staff)
+ * - DELETE /api/videos/livestream/:sessionId/restrictions/:userId  — Lift it (staff)
+ *
+ * Mounted before videoRoutes, next to the comment routes.
+ */
+
+import express from 'express';
+import { verifyToken } from '../utils/verifyUser.mjs';
+import {
+  sendLivestreamChat,
+  deleteLivestreamChatMessage,
+  getLivestreamModeration,
+  updateLivestreamChatSettings,
+  restrictChatUser,
+  liftChatRestriction,
+  getLivestreamModerationSettings,
+  updateLivestreamModerationSettings,
+  addLivestreamModerator,
+  removeLivestreamModerator,
+} from '../controllers/livestreamChatController.mjs';
+
+const router = express.Router();
+
+router.get('/livestream/moderation-settings', verifyToken, getLivestreamModerationSettings);
+router.put('/livestream/moderation-settings', verifyToken, updateLivestreamModerationSettings);
+router.post('/livestream/moderators', verifyToken, addLivestreamModerator);
+router.delete('/livestream/moderators/:userId', verifyToken, removeLivestreamModerator);
+
+router.post('/livestream/:sessionId/chat', verifyToken, sendLivestreamChat);
+router.delete('/livestream/:sessionId/chat/:messageId', verifyToken, deleteLivestreamChatMessage);
+router.get('/livestream/:sessionId/moderation', verifyToken, getLivestreamModeration);
+router.put('/livestream/:sessionId/chat-settings', verifyToken, updateLivestreamChatSettings);
+router.post('/livestream/:sessionId/restrictions', verifyToken, restrictChatUser);
+router.delete('/livestream/:sessionId/restrictions/:userId', verifyToken, liftChatRestriction);
+
+export default router;
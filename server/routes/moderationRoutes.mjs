@@ -0,0 +1,31 @@
+/**
+ * Moderation Routes
+ * User reports and the review console — see controllers/moderationController.mjs.
+ *
+ * Routes (all protected):
+ * - POST /api/moderation/reports          — Report a video, comment, question response or survey
+ * - GET  /api/moderation/summary          — Pending ads and open reports per type (moderator)
+ * - GET  /api/moderation/reports          — Reported items, most-reported first (moderator)
+ * - POST /api/moderation/reports/resolve  — Remove or dismiss reported items (moderator)
+ * - GET  /api/moderation/audit            — Who approved, rejected, removed or dismissed what (moderator)
+ */
+
+import express from 'express';
+import { verifyToken, requireModerator } from '../utils/verifyUser.mjs';
+import {
+  createReport,
+  getModerationSummary,
+  getReportQueue,
+  resolveReports,
+  getAuditTrail,
+} from '../controllers/moderationController.mjs';
+
+const router = express.Router();
+
+router.post('/reports', verifyToken, createReport);
+router.get('/summary', verifyToken, requireModerator, getModerationSummary);
+router.get('/reports', verifyToken, requireModerator, getReportQueue);
+router.post('/reports/resolve', verifyToken, requireModerator, resolveReports);
+router.get('/audit', verifyToken, requireModerator, getAuditTrail);
+
+export default router;
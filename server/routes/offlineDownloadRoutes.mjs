@@ -0,0 +1,24 @@
+/**
+ * Offline Download Routes
+ * Download licenses for video premium — see controllers/offlineDownloadController.mjs.
+ *
+ * Routes (all protected):
+ * - GET  /api/videos/downloads/entitlement  — Whether the caller may keep downloads, and until when
+ * - POST /api/videos/:id/download           — License one video for offline viewing
+ *
+ * Mounted before videoRoutes so /downloads isn't read as /:id.
+ */
+
+import express from 'express';
+import { verifyToken } from '../utils/verifyUser.mjs';
+import {
+  getDownloadEntitlement,
+  createDownloadLicense,
+} from '../controllers/offlineDownloadController.mjs';
+
+const router = express.Router();
+
+router.get('/downloads/entitlement', verifyToken, getDownloadEntitlement);
+router.post('/:id/download', verifyToken, createDownloadLicense);
+
+export default router;
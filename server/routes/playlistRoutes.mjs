@@ -0,0 +1,69 @@
+/**
+ * Playlist Routes
+ * Creator playlists and series, and viewers' saved-video collections — see
+ * controllers/playlistController.mjs.
+ *
+ * Routes:
+ * - GET    /api/videos/playlists/user/:userId     — A creator's playlists and series (public)
+ * - GET    /api/videos/playlists/:playlistId      — One playlist with its videos in order (public)
+ * - POST   /api/videos/playlists                  — Create one (protected)
+ * - PUT    /api/videos/playlists/:playlistId      — Edit or reorder it (protected, owner)
+ * - DELETE /api/videos/playlists/:playlistId      — Delete it (protected, owner)
+ * - GET    /api/videos/collections                — The caller's collections (protected)
+ * - POST   /api/videos/collections                — Create one (protected)
+ * - PUT    /api/videos/collections/:collectionId  — Rename one (protected)
+ * - DELETE /api/videos/collections/:collectionId  — Delete one, keeping its videos saved (protected)
+ * - GET    /api/videos/saved                      — The caller's saved videos (protected)
+ * - PUT    /api/videos/:id/collection             — Save a video into a collection (protected)
+ *
+ * Mounted before videoRoutes so /playlists, /collections and /saved aren't read as /:id.
+ */
+
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import { verifyToken } from '../utils/verifyUser.mjs';
+import {
+  getCreatorPlaylists,
+  getPlaylist,
+  createPlaylist,
+  updatePlaylist,
+  deletePlaylist,
+  getCollections,
+  createCollection,
+  renameCollection,
+  deleteCollection,
+  getSavedVideos,
+  saveToCollection,
+} from '../controllers/playlistController.mjs';
+
+const router = express.Router();
+
+// Optional auth — owners also see their empty playlists
+const optionalAuth = (req, res, next) => {
+  const authHeader = req.headers['authorization'];
+  if (!authHeader) return next();
+  const token = authHeader.startsWith('Bearer ') ? authHeader.slice(7) : authHeader;
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET);
+    req.user = decoded;
+    req.userRef = decoded.id;
+  } catch {
+    // Invalid token — continue as anonymous
+  }
+  next();
+};
+
+router.get('/playlists/user/:userId', optionalAuth, getCreatorPlaylists);
+router.get('/playlists/:playlistId', optionalAuth, getPlaylist);
+router.post('/playlists', verifyToken, createPlaylist);
+router.put('/playlists/:playlistId', verifyToken, updatePlaylist);
+router.delete('/playlists/:playlistId', verifyToken, deletePlaylist);
+
+router.get('/collections', verifyToken, getCollections);
+router.post('/collections', verifyToken, createCollection);
+router.put('/collections/:collectionId', verifyToken, renameCollection);
+router.delete('/collections/:collectionId', verifyToken, deleteCollection);
+router.get('/saved', verifyToken, getSavedVideos);
+router.put('/:id/collection', verifyToken, saveToCollection);
+
+export default router;
@@ -24,6 +24,11 @@ import {
   getPresignedUploadUrl,
   getPresignedDownloadUrl,
   finalizePresignedVideoUpload,
+  createMultipartVideoUpload,
+  signMultipartVideoParts,
+  listMultipartVideoParts,
+  completeMultipartVideoUpload,
+  abortMultipartVideoUpload,
   deleteVideoFromR2,
   uploadLivestreamChunk,
   finalizeLivestreamRecording,
@@ -339,6 +344,57 @@ router.post('/presign/download', getPresignedDownloadUrl);
  */
 router.post('/upload/finalize-video', verifyToken, finalizePresignedVideoUpload);
 
+// ============================================================================
+// RESUMABLE MULTIPART VIDEO UPLOAD
+// Stateless — R2 tracks the parts; keys must be under videos/<caller id>/
+// ============================================================================
+
+/**
+ * POST /api/r2/multipart/create
+ * Start a multipart upload for a large video
+ *
+ * Body (JSON):
+ * - fileName: Original file name
+ * - mimeType: Video MIME type
+ * - fileSize: File size in bytes (validated against the user's tier)
+ */
+router.post('/multipart/create', verifyToken, createMultipartVideoUpload);
+
+/**
+ * POST /api/r2/multipart/sign-parts
+ * Presigned PUT URLs for a batch of parts
+ *
+ * Body (JSON):
+ * - key, uploadId: From /multipart/create
+ * - partNumbers: Up to 20 part numbers
+ */
+router.post('/multipart/sign-parts', verifyToken, signMultipartVideoParts);
+
+/**
+ * GET /api/r2/multipart/parts?key=&uploadId=
+ * Parts already stored — used to resume. 404 UPLOAD_EXPIRED when gone.
+ */
+router.get('/multipart/parts', verifyToken, listMultipartVideoParts);
+
+/**
+ * POST /api/r2/multipart/complete
+ * Assemble the parts into the video object
+ *
+ * Body (JSON):
+ * - key, uploadId: From /multipart/create
+ * - parts: [{ partNumber, etag }] for every part
+ */
+router.post('/multipart/complete', verifyToken, completeMultipartVideoUpload);
+
+/**
+ * POST /api/r2/multipart/abort
+ * Discard a cancelled upload
+ *
+ * Body (JSON):
+ * - key, uploadId: From /multipart/create
+ */
+router.post('/multipart/abort', verifyToken, abortMultipartVideoUpload);
+
 // ============================================================================
 // LIVESTREAM ROUTES
 // ============================================================================
@@ -1,5 +1,5 @@
 import express from 'express';
-import { createSurvey, getSurveysByStatus, uploadSurvey, submitSurveyResponse, getSurveyById, getSurveyResponses, checkSurveyAttempt, getAllSurveys, updateSurvey, deleteSurvey, getSurveyAnalytics, getSurveyPayoutSummary } from '../controllers/surveyController.mjs';
+import { createSurvey, getSurveysByStatus, uploadSurvey, submitSurveyResponse, getSurveyById, getSurveyResponses, checkSurveyAttempt, getAllSurveys, updateSurvey, deleteSurvey, getSurveyAnalytics, getSurveyPayoutSummary, getSurveyQuotas, getSurveyVersions, rollbackSurveyVersion } from '../controllers/surveyController.mjs';
 import { verifyToken } from '../utils/verifyUser.mjs';
 import { requireSurveyCreatorAccess } from '../utils/surveyAccess.mjs';
 import { surveySubmitRateLimit, surveyCreateRateLimit } from '../utils/surveyRateLimit.mjs';
@@ -31,6 +31,8 @@ router.get('/:surveyId/attempt', verifyToken, checkSurveyAttempt);
 router.get('/:surveyId/responses', verifyToken, getSurveyResponses);
 router.get('/:surveyId/analytics', verifyToken, getSurveyAnalytics);
 router.get('/:surveyId/payout-summary', verifyToken, getSurveyPayoutSummary);
+router.get('/:surveyId/quotas', verifyToken, getSurveyQuotas);
+router.get('/:surveyId/versions', verifyToken, getSurveyVersions);
 // Creation: server-side paywall (the client gate alone was bypassable by
 // direct API calls) + a modest rate limit.
 router.post('/create', surveyCreateRateLimit, verifyToken, requireSurveyCreatorAccess, createSurvey);
@@ -39,6 +41,7 @@ router.post('/upload', surveyCreateRateLimit, verifyToken, requireSurveyCreatorA
 // the deep defense against double-crediting.
 router.post('/:surveyId/responses', surveySubmitRateLimit, verifyToken, submitSurveyResponse);
 router.put('/:surveyId', verifyToken, updateSurvey);
+router.post('/:surveyId/versions/:version/rollback', verifyToken, rollbackSurveyVersion);
 router.delete('/:surveyId', verifyToken, deleteSurvey);
 
 export default router;
@@ -0,0 +1,21 @@
+/**
+ * Video Analytics Routes
+ * Creator analytics dashboards — see controllers/videoAnalyticsController.mjs.
+ *
+ * Routes (all protected):
+ * - GET /api/videos/analytics/channel  — The caller's channel: totals, followers, sources, top videos
+ * - GET /api/videos/:id/analytics      — One of the caller's videos against their median video
+ *
+ * Mounted before videoRoutes so /analytics isn't read as /:id.
+ */
+
+import express from 'express';
+import { verifyToken } from '../utils/verifyUser.mjs';
+import { getChannelAnalytics, getVideoAnalytics } from '../controllers/videoAnalyticsController.mjs';
+
+const router = express.Router();
+
+router.get('/analytics/channel', verifyToken, getChannelAnalytics);
+router.get('/:id/analytics', verifyToken, getVideoAnalytics);
+
+export default router;
@@ -0,0 +1,97 @@
+/**
+ * Video Caption Routes
+ * Caption tracks per video — see controllers/videoCaptionController.mjs.
+ *
+ * Routes:
+ * - GET    /api/videos/:id/captions               — Tracks with cues (public; owner sees all)
+ * - GET    /api/videos/:id/captions/:language.vtt — One track as WebVTT (public)
+ * - POST   /api/videos/:id/captions               — Attach a .vtt/.srt file (protected, owner)
+ * - POST   /api/videos/:id/captions/auto          — Queue auto-generated captions (protected, owner)
+ * - PUT    /api/videos/:id/captions/:language     — Save edited cues (protected, owner)
+ * - DELETE /api/videos/:id/captions/:language     — Remove a track (protected, owner)
+ */
+
+import express from 'express';
+import multer from 'multer';
+import jwt from 'jsonwebtoken';
+import { verifyToken } from '../utils/verifyUser.mjs';
+import { CAPTION_LIMITS } from '../lib/captions.mjs';
+import {
+  listVideoCaptions,
+  getVideoCaptionFile,
+  uploadVideoCaption,
+  requestAutoCaptions,
+  updateVideoCaption,
+  deleteVideoCaption,
+} from '../controllers/videoCaptionController.mjs';
+
+const router = express.Router();
+
+// Optional auth — the owner's listing includes tracks that aren't ready yet
+const optionalAuth = (req, res, next) => {
+  const authHeader = req.headers['authorization'];
+  if (!authHeader) return next();
+  const token = authHeader.startsWith('Bearer ') ? authHeader.slice(7) : authHeader;
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET);
+    req.user = decoded;
+    req.userRef = decoded.id;
+  } catch {
+    // Invalid token — continue as anonymous
+  }
+  next();
+};
+
+// Multer config: memory storage, one caption file. MIME types for .vtt/.srt vary
+// by platform (text/vtt, application/x-subrip, text/plain, octet-stream), so the
+// extension is checked instead and the parser has the final say.
+const captionUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: CAPTION_LIMITS.MAX_FILE_CHARS, files: 1 },
+  fileFilter: (_req, file, cb) => {
+    if (/\.(vtt|srt)$/i.test(file.originalname || '')) {
+      cb(null, true);
+    } else {
+      const err = new Error('Unsupported caption file. Please upload a .vtt or .srt file.');
+      err.statusCode = 400;
+      cb(err);
+    }
+  },
+});
+
+// Multer error handler (follows surveyImportRoutes.mjs pattern)
+const handleMulterError = (err, _req, res, next) => {
+  if (err instanceof multer.MulterError) {
+    if (err.code === 'LIMIT_FILE_SIZE') {
+      return res.status(413).json({
+        success: false,
+        error: 'FILE_TOO_LARGE',
+        message: 'Caption files can be at most 512KB.',
+      });
+    }
+    return res.status(400).json({
+      success: false,
+      error: 'UPLOAD_ERROR',
+      message: err.message,
+    });
+  }
+  // Preserve auth errors (pass through)
+  if (err && err.statusCode && err.statusCode !== 400) return next(err);
+  if (err) {
+    return res.status(400).json({
+      success: false,
+      error: 'INVALID_FILE',
+      message: err.message || 'Invalid caption file.',
+    });
+  }
+  next();
+};
+
+router.get('/:id/captions', optionalAuth, listVideoCaptions);
+router.get('/:id/captions/:language.vtt', getVideoCaptionFile);
+router.post('/:id/captions/auto', verifyToken, requestAutoCaptions);
+router.post('/:id/captions', verifyToken, captionUpload.single('file'), handleMulterError, uploadVideoCaption);
+router.put('/:id/captions/:language', verifyToken, updateVideoCaption);
+router.delete('/:id/captions/:language', verifyToken, deleteVideoCaption);
+
+export default router;
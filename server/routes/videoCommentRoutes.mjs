@@ -0,0 +1,60 @@
+/**
+ * Video Comment Routes
+ * Threaded comments, reactions and creator moderation — see
+ * controllers/videoCommentController.mjs.
+ *
+ * Routes:
+ * - GET    /api/videos/comment-settings                       — Blocked keywords + hold-for-review (protected)
+ * - PUT    /api/videos/comment-settings                       — Save them (protected)
+ * - GET    /api/videos/:id/comments                           — Top-level comments with reply previews (public)
+ * - POST   /api/videos/:id/comments                           — Comment or reply (protected)
+ * - GET    /api/videos/:id/comments/held                      — Review queue (protected, owner)
+ * - GET    /api/videos/:id/comments/:commentId/replies        — Thread replies (public)
+ * - POST   /api/videos/:id/comments/:commentId/reactions      — Toggle a reaction (protected)
+ * - PATCH  /api/videos/:id/comments/:commentId/moderation     — Pin/hide/approve (protected, owner)
+ *
+ * Mounted before videoRoutes: its GET /:id would otherwise swallow /comment-settings.
+ */
+
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import { verifyToken } from '../utils/verifyUser.mjs';
+import {
+  commentPost,
+  getVideoComments,
+  getCommentReplies,
+  reactToComment,
+  moderateComment,
+  getModerationQueue,
+  getCommentSettings,
+  updateCommentSettings,
+} from '../controllers/videoCommentController.mjs';
+
+const router = express.Router();
+
+// Optional auth — viewers also see their own held comments and reactions
+const optionalAuth = (req, res, next) => {
+  const authHeader = req.headers['authorization'];
+  if (!authHeader) return next();
+  const token = authHeader.startsWith('Bearer ') ? authHeader.slice(7) : authHeader;
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET);
+    req.user = decoded;
+    req.userRef = decoded.id;
+  } catch {
+    // Invalid token — continue as anonymous
+  }
+  next();
+};
+
+router.get('/comment-settings', verifyToken, getCommentSettings);
+router.put('/comment-settings', verifyToken, updateCommentSettings);
+
+router.get('/:id/comments', optionalAuth, getVideoComments);
+router.post('/:id/comments', verifyToken, commentPost);
+router.get('/:id/comments/held', verifyToken, getModerationQueue);
+router.get('/:id/comments/:commentId/replies', optionalAuth, getCommentReplies);
+router.post('/:id/comments/:commentId/reactions', verifyToken, reactToComment);
+router.patch('/:id/comments/:commentId/moderation', verifyToken, moderateComment);
+
+export default router;
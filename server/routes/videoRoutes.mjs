@@ -4,14 +4,13 @@ import {
   getVideosByUser,
   getAllVideos,
   getVideoById,
+  getVideoHlsPlaylist,
   getTrendingVideos,
   getFollowingVideos,
   updateVideo,
   deleteVideo,
   likeVideo,
   unlikeVideo,
-  commentPost,
-  getVideoComments,
   bookmarkVideo,
   getVideoStatus,
   incrementVideoViews,
@@ -26,7 +25,7 @@ import {
   getLiveStreams,
   joinLivestream,
   leaveLivestream,
-  sendLivestreamChat,
+  getReplayChat,
   // 2026 Feed enhancement endpoints
   ingestVideoEvents,
   getPersonalizedVideos,
@@ -68,7 +67,8 @@ router.get('/search', optionalAuth, searchVideos);
 router.get('/explore', optionalAuth, getExploreVideos);
 router.get('/live', getLiveStreams);
 router.get('/user/:userId', getVideosByUser);
-router.get('/:id/comments', getVideoComments);
+router.get('/:id/hls/:playlist', getVideoHlsPlaylist);         // HLS playlists (segments signed per request)
+router.get('/:id/replay-chat', getReplayChat);                // livestream replay chat, by playhead window
 router.get('/limits/:userId', getVideoLimits);
 router.get('/:id', optionalAuth, getVideoById);               // single video with fresh signed URLs (MUST be after all named routes)
 
@@ -81,7 +81,6 @@ router.post('/feedback', verifyToken, submitVideoFeedback);     // user controls
 router.post('/create', verifyToken, createVideo);
 router.post('/:id/like', verifyToken, likeVideo);
 router.post('/:id/unlike', verifyToken, unlikeVideo);
-router.post('/:id/comments', verifyToken, commentPost);
 router.post('/:id/share', optionalAuth, shareVideo);
 router.post('/:id/bookmark', verifyToken, bookmarkVideo);
 router.get('/:id/status', verifyToken, getVideoStatus);
@@ -98,7 +97,6 @@ router.post('/livestream/start', verifyToken, startLivestream);
 router.post('/livestream/end', verifyToken, endLivestream);
 router.post('/livestream/:sessionId/join', verifyToken, joinLivestream);
 router.post('/livestream/:sessionId/leave', verifyToken, leaveLivestream);
-router.post('/livestream/:sessionId/chat', verifyToken, sendLivestreamChat);
 router.post('/validate-session', verifyToken, validateSessionDuration);
 
 export default router;
\ No newline at end of file
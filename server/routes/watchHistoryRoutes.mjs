@@ -0,0 +1,33 @@
+/**
+ * Watch History Routes
+ * Resume positions and history controls — see controllers/watchHistoryController.mjs.
+ *
+ * Routes (all protected):
+ * - GET    /api/videos/history             — The caller's history, most recent first
+ * - PUT    /api/videos/history             — Sync a batch of progress entries
+ * - PUT    /api/videos/history/settings    — Pause or resume recording
+ * - DELETE /api/videos/history/:videoId    — Remove one entry
+ * - DELETE /api/videos/history             — Clear it all
+ *
+ * Mounted before videoRoutes so /history isn't read as /:id.
+ */
+
+import express from 'express';
+import { verifyToken } from '../utils/verifyUser.mjs';
+import {
+  getWatchHistory,
+  syncWatchHistory,
+  updateWatchHistorySettings,
+  removeWatchHistoryEntry,
+  clearWatchHistory,
+} from '../controllers/watchHistoryController.mjs';
+
+const router = express.Router();
+
+router.get('/history', verifyToken, getWatchHistory);
+router.put('/history', verifyToken, syncWatchHistory);
+router.put('/history/settings', verifyToken, updateWatchHistorySettings);
+router.delete('/history/:videoId', verifyToken, removeWatchHistoryEntry);
+router.delete('/history', verifyToken, clearWatchHistory);
+
+export default router;
@@ -0,0 +1,201 @@
+/**
+ * HLS Transcode Worker
+ *
+ * Turns uploaded MP4s into the adaptive ladder in lib/hlsLadder.mjs
+ * (360p / 480p / 720p + audio-only) and stores it in R2 next to the source.
+ * Uploads are queued with Video.hlsStatus = 'pending'; this worker claims one
+ * at a time (pending → processing), transcodes each rung with ffmpeg, uploads
+ * the rung playlists and segments, writes the master last and only then marks
+ * the video 'ready'. A failed video is marked 'failed' and keeps playing its
+ * MP4 — set it back to 'pending' to retry.
+ *
+ * Runs on any box with ffmpeg + ffprobe on PATH — not on Vercel, whose
+ * functions stop after 60 s.
+ *
+ * Run:
+ *   bun scripts/transcode-hls.mjs             # poll forever
+ *   bun scripts/transcode-hls.mjs --once      # drain the queue, then exit
+ *   bun scripts/transcode-hls.mjs --backfill  # also queue videos uploaded before HLS
+ */
+
+import 'dotenv/config';
+import { spawn } from 'node:child_process';
+import { createWriteStream } from 'node:fs';
+import { mkdir, mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import prisma from '../lib/prisma.mjs';
+import { getSignedDownloadUrl, uploadFile } from '../lib/r2.mjs';
+import {
+  HLS_PLAYLIST_MIME,
+  HLS_SEGMENT_MIME,
+  HLS_STATUS,
+  ffmpegArgs,
+  hlsKey,
+  ladderFor,
+  masterPlaylist,
+  renditionSummary,
+} from '../lib/hlsLadder.mjs';
+
+const ONCE = process.argv.includes('--once');
+const BACKFILL = process.argv.includes('--backfill');
+const POLL_INTERVAL_MS = 30_000;
+
+let stopping = false;
+process.on('SIGINT', () => {
+  console.log('[hls] Stopping after the current video…');
+  stopping = true;
+});
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Run a command, resolving with stdout; rejects with the stderr tail on a non-zero exit */
+function run(command, args) {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    let stdout = '';
+    let stderr = '';
+    child.stdout.on('data', (chunk) => { stdout += chunk; });
+    child.stderr.on('data', (chunk) => { stderr = (stderr + chunk).slice(-4000); });
+    child.on('error', reject);
+    child.on('close', (code) => {
+      if (code === 0) resolve(stdout);
+      else reject(new Error(`${command} exited with ${code}: ${stderr.trim().split('\n').pop()}`));
+    });
+  });
+}
+
+/** Height of the first video stream and whether there is an audio stream */
+async function probe(file) {
+  const out = await run('ffprobe', [
+    '-v', 'error', '-show_entries', 'stream=codec_type,height', '-of', 'json', file,
+  ]);
+  const streams = JSON.parse(out).streams ?? [];
+  const video = streams.find((s) => s.codec_type === 'video');
+  return {
+    height: video?.height ?? null,
+    hasAudio: streams.some((s) => s.codec_type === 'audio'),
+  };
+}
+
+async function download(key, file) {
+  const url = await getSignedDownloadUrl(key);
+  const response = await fetch(url);
+  if (!response.ok || !response.body) throw new Error(`Source download failed (${response.status})`);
+  await pipeline(Readable.fromWeb(response.body), createWriteStream(file));
+}
+
+async function uploadRung(videoId, outDir, rung) {
+  const files = await readdir(path.join(outDir, rung.name));
+  // Segments first so the rung playlist never points at a missing object
+  const ordered = [...files.filter((f) => f.endsWith('.ts')), ...files.filter((f) => f.endsWith('.m3u8'))];
+  for (const file of ordered) {
+    const body = await readFile(path.join(outDir, rung.name, file));
+    const key = file.endsWith('.m3u8') ? hlsKey(videoId, `${rung.name}/index.m3u8`) : hlsKey(videoId, `${rung.name}/${file}`);
+    await uploadFile(body, key, file.endsWith('.m3u8') ? HLS_PLAYLIST_MIME : HLS_SEGMENT_MIME);
+  }
+}
+
+// ── Queue ────────────────────────────────────────────────────────────────────
+
+function queuedWhere() {
+  const hasSource = { r2VideoKey: { not: null } };
+  if (!BACKFILL) return { ...hasSource, hlsStatus: HLS_STATUS.PENDING };
+  return {
+    ...hasSource,
+    OR: [
+      { hlsStatus: HLS_STATUS.PENDING },
+      { hlsStatus: null, processingStatus: 'completed' },
+    ],
+  };
+}
+
+/** Claim a queued video — the status guard keeps two workers off the same row */
+async function claim(video) {
+  const { count } = await prisma.video.updateMany({
+    where: { id: video.id, hlsStatus: video.hlsStatus },
+    data: { hlsStatus: HLS_STATUS.PROCESSING },
+  });
+  return count === 1;
+}
+
+async function transcode(video) {
+  const workDir = await mkdtemp(path.join(tmpdir(), `hls-${video.id}-`));
+  try {
+    const source = path.join(workDir, 'source');
+    const outDir = path.join(workDir, 'out');
+    await download(video.r2VideoKey, source);
+
+    const { height, hasAudio } = await probe(source);
+    const rungs = ladderFor(height, hasAudio);
+    for (const rung of rungs) {
+      await mkdir(path.join(outDir, rung.name), { recursive: true });
+      console.log(`[hls] ${video.id}: ${rung.name}`);
+      await run('ffmpeg', ffmpegArgs(source, outDir, rung, { hasAudio }));
+      await uploadRung(video.id, outDir, rung);
+    }
+
+    const renditions = renditionSummary(rungs);
+    await uploadFile(
+      Buffer.from(masterPlaylist(renditions, { hasAudio })),
+      hlsKey(video.id, 'master.m3u8'),
+      HLS_PLAYLIST_MIME,
+    );
+    await prisma.video.update({
+      where: { id: video.id },
+      data: { hlsStatus: HLS_STATUS.READY, hlsRenditions: renditions },
+    });
+    console.log(`[hls] ${video.id}: ready (${renditions.map((r) => r.name).join(', ')})`);
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
+
+async function drain() {
+  let processed = 0;
+  while (!stopping) {
+    const batch = await prisma.video.findMany({
+      where: queuedWhere(),
+      select: { id: true, r2VideoKey: true, hlsStatus: true },
+      orderBy: { createdAt: 'asc' },
+      take: 10,
+    });
+    if (batch.length === 0) break;
+
+    for (const video of batch) {
+      if (stopping) break;
+      if (!(await claim(video))) continue;
+      try {
+        await transcode(video);
+        processed += 1;
+      } catch (error) {
+        console.error(`[hls] ${video.id}: failed —`, error.message);
+        await prisma.video.update({ where: { id: video.id }, data: { hlsStatus: HLS_STATUS.FAILED } });
+      }
+    }
+  }
+  return processed;
+}
+
+// ── Main ─────────────────────────────────────────────────────────────────────
+
+async function main() {
+  await run('ffmpeg', ['-version']).catch(() => {
+    throw new Error('ffmpeg is not on PATH');
+  });
+
+  do {
+    const processed = await drain();
+    if (processed > 0) console.log(`[hls] Transcoded ${processed} video(s)`);
+    if (!ONCE && !stopping) await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  } while (!ONCE && !stopping);
+}
+
+main()
+  .catch((error) => {
+    console.error('[hls] Worker stopped:', error.message);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
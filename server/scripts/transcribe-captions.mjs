@@ -0,0 +1,171 @@
+/**
+ * Caption Transcription Worker
+ *
+ * Fills auto-generated caption tracks (lib/captions.mjs). Creators queue one
+ * with POST /api/videos/:id/captions/auto, which stores a VideoCaption with
+ * source 'auto' and status 'pending'; this worker claims one at a time
+ * (pending → processing), extracts the speech audio with ffmpeg, sends it to
+ * the provider in lib/transcription.mjs and stores the cues as 'ready'. A
+ * failed track is marked 'failed' — the creator can request it again or write
+ * the captions by hand in the editor.
+ *
+ * With TRANSCRIPTION_PROVIDER=stub nothing is downloaded and ffmpeg isn't
+ * needed: tracks get placeholder cues, so the pipeline can be tried locally.
+ * Otherwise runs on any box with ffmpeg on PATH — not on Vercel, whose
+ * functions stop after 60 s.
+ *
+ * Run:
+ *   bun scripts/transcribe-captions.mjs          # poll forever
+ *   bun scripts/transcribe-captions.mjs --once   # drain the queue, then exit
+ */
+
+import 'dotenv/config';
+import { spawn } from 'node:child_process';
+import { createWriteStream } from 'node:fs';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import prisma from '../lib/prisma.mjs';
+import { getSignedDownloadUrl } from '../lib/r2.mjs';
+import { CAPTION_SOURCE, CAPTION_STATUS, syncCaptionLanguages, validateCues } from '../lib/captions.mjs';
+import {
+  audioExtractArgs,
+  needsAudio,
+  resolveTranscriptionProvider,
+  transcribe,
+} from '../lib/transcription.mjs';
+
+const ONCE = process.argv.includes('--once');
+const POLL_INTERVAL_MS = 30_000;
+
+let stopping = false;
+process.on('SIGINT', () => {
+  console.log('[captions] Stopping after the current track…');
+  stopping = true;
+});
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Run a command; rejects with the stderr tail on a non-zero exit */
+function run(command, args) {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ['ignore', 'ignore', 'pipe'] });
+    let stderr = '';
+    child.stderr.on('data', (chunk) => { stderr = (stderr + chunk).slice(-4000); });
+    child.on('error', reject);
+    child.on('close', (code) => {
+      if (code === 0) resolve();
+      else reject(new Error(`${command} exited with ${code}: ${stderr.trim().split('\n').pop()}`));
+    });
+  });
+}
+
+async function download(key, file) {
+  const url = await getSignedDownloadUrl(key);
+  const response = await fetch(url);
+  if (!response.ok || !response.body) throw new Error(`Source download failed (${response.status})`);
+  await pipeline(Readable.fromWeb(response.body), createWriteStream(file));
+}
+
+/** The video's speech audio as an mp3 buffer */
+async function extractAudio(video) {
+  if (!video.r2VideoKey) throw new Error('Video has no stored source');
+  const workDir = await mkdtemp(path.join(tmpdir(), `captions-${video.id}-`));
+  try {
+    const source = path.join(workDir, 'source');
+    const audio = path.join(workDir, 'audio.mp3');
+    await download(video.r2VideoKey, source);
+    await run('ffmpeg', audioExtractArgs(source, audio));
+    return await readFile(audio);
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
+
+// ── Queue ────────────────────────────────────────────────────────────────────
+
+/** Claim a queued track — the status guard keeps two workers off the same row */
+async function claim(track) {
+  const { count } = await prisma.videoCaption.updateMany({
+    where: { id: track.id, status: CAPTION_STATUS.PENDING },
+    data: { status: CAPTION_STATUS.PROCESSING },
+  });
+  return count === 1;
+}
+
+async function captionTrack(provider, track) {
+  const audio = needsAudio(provider) ? await extractAudio(track.video) : null;
+  const transcript = await transcribe(provider, {
+    audio,
+    language: track.language,
+    durationSeconds: track.video.duration ?? 0,
+  });
+  const { cues, error } = validateCues(transcript);
+  if (error) throw new Error(`Transcript rejected — ${error}`);
+
+  await prisma.videoCaption.update({
+    where: { id: track.id },
+    data: { status: CAPTION_STATUS.READY, cues },
+  });
+  await syncCaptionLanguages(prisma, track.videoId);
+  console.log(`[captions] ${track.videoId}/${track.language}: ready (${cues.length} cues)`);
+}
+
+async function drain(provider) {
+  let processed = 0;
+  while (!stopping) {
+    const batch = await prisma.videoCaption.findMany({
+      where: { source: CAPTION_SOURCE.AUTO, status: CAPTION_STATUS.PENDING },
+      select: {
+        id: true,
+        videoId: true,
+        language: true,
+        video: { select: { id: true, r2VideoKey: true, duration: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+      take: 10,
+    });
+    if (batch.length === 0) break;
+
+    for (const track of batch) {
+      if (stopping) break;
+      if (!(await claim(track))) continue;
+      try {
+        await captionTrack(provider, track);
+        processed += 1;
+      } catch (error) {
+        console.error(`[captions] ${track.videoId}/${track.language}: failed —`, error.message);
+        await prisma.videoCaption.update({ where: { id: track.id }, data: { status: CAPTION_STATUS.FAILED } });
+      }
+    }
+  }
+  return processed;
+}
+
+// ── Main ─────────────────────────────────────────────────────────────────────
+
+async function main() {
+  const provider = resolveTranscriptionProvider();
+  if (!provider) throw new Error('No transcription provider configured (see .env.example)');
+  if (needsAudio(provider)) {
+    await run('ffmpeg', ['-version']).catch(() => {
+      throw new Error('ffmpeg is not on PATH');
+    });
+  }
+  console.log(`[captions] Using the ${provider.name} provider`);
+
+  do {
+    const processed = await drain(provider);
+    if (processed > 0) console.log(`[captions] Captioned ${processed} track(s)`);
+    if (!ONCE && !stopping) await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  } while (!ONCE && !stopping);
+}
+
+main()
+  .catch((error) => {
+    console.error('[captions] Worker stopped:', error.message);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
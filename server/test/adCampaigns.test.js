@@ -0,0 +1,282 @@
+/**
+ * Campaign dashboard tests (lib/adCampaigns.mjs, controllers/adCampaignController.mjs
+ * and the status rules in controllers/AdController.mjs).
+ *
+ * Locks:
+ *  - daily performance is zero-filled, with spend priced by the pricing model
+ *  - pacing compares today's spend to an even spread of the daily budget
+ *  - the timeline falls back to the ad's own columns for older ads
+ *  - only an approved ad pauses, and only a paused/completed one with budget
+ *    left resumes — a pending ad can't be pushed live without review
+ *  - an owner editing what an ad shows sends it back to review
+ *  - performance and analytics are for the owner (or admin/moderator) only
+ *
+ * Only prisma is mocked — see the note in adSecurity.test.js.
+ */
+import { test, expect, mock, beforeEach, describe } from 'bun:test';
+import {
+  campaignMetrics,
+  changesCreative,
+  dailyPerformance,
+  spendPacing,
+  statusTimeline,
+} from '../lib/adCampaigns.mjs';
+
+const prismaMock = {
+  ad: {
+    findUnique: mock(async () => null),
+    findMany: mock(async () => []),
+    update: mock(async (args) => ({ id: 'ad-1', ...args.data })),
+  },
+  appUser: {
+    findUnique: mock(async () => ({ role: 'USER' })),
+  },
+  adStatusChange: {
+    findMany: mock(async () => []),
+  },
+  $queryRaw: mock(async () => []),
+};
+
+mock.module('../lib/prisma.mjs', () => ({ default: prismaMock }));
+
+const { getAdAnalytics, pauseAd, resumeAd, updateAd } = await import('../controllers/AdController.mjs');
+const { getCampaignPerformance, getMyCampaigns } = await import('../controllers/adCampaignController.mjs');
+
+function makeRes() {
+  return {
+    statusCode: 200,
+    body: null,
+    status(c) { this.statusCode = c; return this; },
+    json(b) { this.body = b; return this; },
+  };
+}
+
+const NOW = new Date('2026-10-18T12:00:00.000Z');
+
+const adRow = (overrides = {}) => ({
+  id: 'ad-1',
+  userId: 'owner',
+  title: 'Fresh juice',
+  headline: null,
+  description: 'Cold-pressed daily',
+  targetUrl: 'https://juice.example',
+  imageUrl: 'https://cdn.example/juice.jpg',
+  thumbnailUrl: null,
+  videoUrl: null,
+  r2ImageKey: null,
+  r2VideoKey: null,
+  type: 'regular',
+  placement: 'feed',
+  pricingModel: 'cpm',
+  bidAmount: 2000,
+  totalBudget: 50_000,
+  amountSpent: 10_000,
+  dailyBudgetLimit: 4000,
+  dailySpend: 2000,
+  dailySpendDate: new Date('2026-10-18T00:00:00.000Z'),
+  impressions: 5000,
+  views: 4000,
+  clicks: 100,
+  conversions: 5,
+  status: 'approved',
+  isActive: true,
+  rejectionReason: null,
+  approvedAt: new Date('2026-10-02T09:00:00.000Z'),
+  startDate: null,
+  endDate: null,
+  createdAt: new Date('2026-10-01T09:00:00.000Z'),
+  updatedAt: new Date('2026-10-02T09:00:00.000Z'),
+  ...overrides,
+});
+
+beforeEach(() => {
+  prismaMock.ad.findUnique = mock(async () => adRow());
+  prismaMock.ad.findMany = mock(async () => []);
+  prismaMock.ad.update = mock(async (args) => ({ id: 'ad-1', ...args.data }));
+  prismaMock.appUser.findUnique = mock(async () => ({ role: 'USER' }));
+  prismaMock.adStatusChange.findMany = mock(async () => []);
+  prismaMock.$queryRaw = mock(async () => []);
+});
+
+describe('campaign metrics', () => {
+  test('CTR, CPM, CPC and budget use come back as numbers', () => {
+    expect(campaignMetrics(adRow(), NOW)).toMatchObject({
+      ctr: 2,
+      costPerMille: 2000,
+      costPerClick: 100,
+      budgetRemaining: 40_000,
+      budgetUtilization: 20,
+      daysRunning: 18,
+    });
+    expect(campaignMetrics(adRow({ impressions: 0, clicks: 0, amountSpent: 0 }), NOW).ctr).toBe(0);
+  });
+
+  test('daily performance is zero-filled and priced per impression for CPM', () => {
+    const since = new Date('2026-10-16T12:00:00.000Z');
+    const days = dailyPerformance(adRow(), [{ day: '2026-10-17', count: 500 }], [{ day: '2026-10-17', count: 10 }], since, NOW);
+    expect(days.map((d) => d.date)).toEqual(['2026-10-16', '2026-10-17', '2026-10-18']);
+    expect(days[1]).toEqual({ date: '2026-10-17', impressions: 500, clicks: 10, ctr: 2, spend: 1000 });
+    expect(days[0]).toMatchObject({ impressions: 0, spend: 0 });
+  });
+
+  test('CPC spend comes from clicks only', () => {
+    const since = new Date('2026-10-18T00:00:00.000Z');
+    const [day] = dailyPerformance(adRow({ pricingModel: 'cpc', bidAmount: 150 }), [{ day: '2026-10-18', count: 900 }], [{ day: '2026-10-18', count: 4 }], since, NOW);
+    expect(day.spend).toBe(600);
+  });
+});
+
+describe('spendPacing', () => {
+  test('half way through the day with half the daily budget spent is on track', () => {
+    expect(spendPacing(adRow(), NOW)).toMatchObject({ dailyBudgetLimit: 4000, spentToday: 2000, expectedByNow: 2000, pacing: 'on_track' });
+  });
+
+  test('ahead, behind, capped, idle and no limit', () => {
+    expect(spendPacing(adRow({ dailySpend: 3000 }), NOW).pacing).toBe('ahead');
+    expect(spendPacing(adRow({ dailySpend: 500 }), NOW).pacing).toBe('behind');
+    expect(spendPacing(adRow({ dailySpend: 4000 }), NOW).pacing).toBe('capped');
+    expect(spendPacing(adRow({ status: 'paused', isActive: false, dailySpend: 0 }), NOW).pacing).toBe('idle');
+    expect(spendPacing(adRow({ dailyBudgetLimit: null }), NOW)).toMatchObject({ pacing: 'no_limit', expectedByNow: null });
+  });
+
+  test("yesterday's spend doesn't count today", () => {
+    const pacing = spendPacing(adRow({ dailySpendDate: new Date('2026-10-17T00:00:00.000Z') }), NOW);
+    expect(pacing.spentToday).toBe(0);
+    expect(pacing.resetsAt).toEqual(new Date('2026-10-19T00:00:00.000Z'));
+  });
+});
+
+describe('statusTimeline', () => {
+  test('uses recorded changes, naming who made each one', () => {
+    const timeline = statusTimeline(adRow(), [
+      { status: 'pending', reason: null, actorId: 'owner', createdAt: new Date('2026-10-01T09:00:00.000Z') },
+      { status: 'rejected', reason: 'Blurry image', actorId: 'mod', createdAt: new Date('2026-10-01T12:00:00.000Z') },
+      { status: 'completed', reason: 'Budget spent', actorId: null, createdAt: new Date('2026-10-05T12:00:00.000Z') },
+    ]);
+    expect(timeline.map((e) => [e.status, e.actor])).toEqual([
+      ['pending', 'advertiser'],
+      ['rejected', 'review'],
+      // approvedAt with no recorded approval is filled in
+      ['approved', 'review'],
+      ['completed', 'system'],
+    ]);
+    expect(timeline[1].reason).toBe('Blurry image');
+  });
+
+  test('an older rejected ad shows its submission and rejection reason', () => {
+    const timeline = statusTimeline(adRow({ status: 'rejected', approvedAt: null, rejectionReason: 'Misleading claim' }));
+    expect(timeline).toEqual([
+      { status: 'pending', reason: null, at: '2026-10-01T09:00:00.000Z', actor: 'advertiser' },
+      { status: 'rejected', reason: 'Misleading claim', at: '2026-10-02T09:00:00.000Z', actor: 'review' },
+    ]);
+  });
+});
+
+describe('pause and resume', () => {
+  test('a pending ad can be neither paused nor resumed', async () => {
+    prismaMock.ad.findUnique = mock(async () => adRow({ status: 'pending', approvedAt: null }));
+    const paused = makeRes();
+    await pauseAd({ params: { adId: 'ad-1' }, user: { id: 'owner' } }, paused);
+    expect(paused.statusCode).toBe(409);
+
+    const resumed = makeRes();
+    await resumeAd({ params: { adId: 'ad-1' }, user: { id: 'owner' } }, resumed);
+    expect(resumed.statusCode).toBe(409);
+    expect(resumed.body.message).toBe('This ad is still under review');
+    expect(prismaMock.ad.update).not.toHaveBeenCalled();
+  });
+
+  test('pausing and resuming record the change', async () => {
+    let captured;
+    prismaMock.ad.update = mock(async (args) => { captured = args; return { id: 'ad-1', ...args.data }; });
+
+    await pauseAd({ params: { adId: 'ad-1' }, user: { id: 'owner' } }, makeRes());
+    expect(captured.data).toMatchObject({ status: 'paused', isActive: false });
+    expect(captured.data.statusChanges.create).toMatchObject({ status: 'paused', actorId: 'owner' });
+
+    prismaMock.ad.findUnique = mock(async () => adRow({ status: 'paused', isActive: false }));
+    const res = makeRes();
+    await resumeAd({ params: { adId: 'ad-1' }, user: { id: 'owner' } }, res);
+    expect(res.statusCode).toBe(200);
+    expect(captured.data.statusChanges.create).toMatchObject({ status: 'approved', reason: 'Resumed' });
+  });
+
+  test('a completed ad with its budget spent stays completed', async () => {
+    prismaMock.ad.findUnique = mock(async () => adRow({ status: 'completed', amountSpent: 50_000 }));
+    const res = makeRes();
+    await resumeAd({ params: { adId: 'ad-1' }, user: { id: 'owner' } }, res);
+    expect(res.statusCode).toBe(409);
+  });
+});
+
+describe('editing', () => {
+  test('only a change to what the ad shows counts as creative', () => {
+    expect(changesCreative(adRow(), { title: 'Fresh juice' })).toBe(false);
+    expect(changesCreative(adRow(), { totalBudget: 90_000, dailyBudgetLimit: 5000 })).toBe(false);
+    expect(changesCreative(adRow(), { targetUrl: 'https://elsewhere.example' })).toBe(true);
+  });
+
+  test("an owner's creative edit sends an approved ad back to review", async () => {
+    let captured;
+    prismaMock.ad.update = mock(async (args) => { captured = args; return { id: 'ad-1' }; });
+    await updateAd({ params: { adId: 'ad-1' }, body: { title: 'Now 50% off' }, user: { id: 'owner' } }, makeRes());
+    expect(captured.data).toMatchObject({ title: 'Now 50% off', status: 'pending' });
+    expect(captured.data.statusChanges.create).toMatchObject({ status: 'pending', reason: 'Edited' });
+  });
+
+  test('a budget change leaves the ad running', async () => {
+    let captured;
+    prismaMock.ad.update = mock(async (args) => { captured = args; return { id: 'ad-1' }; });
+    await updateAd({ params: { adId: 'ad-1' }, body: { totalBudget: 90_000 }, user: { id: 'owner' } }, makeRes());
+    expect(captured.data.totalBudget).toBe(90_000);
+    expect(captured.data.status).toBeUndefined();
+  });
+});
+
+describe('dashboard endpoints', () => {
+  test("performance and analytics are 403 for someone else's ad", async () => {
+    const res = makeRes();
+    await getCampaignPerformance({ params: { adId: 'ad-1' }, query: {}, user: { id: 'stranger' } }, res);
+    expect(res.statusCode).toBe(403);
+
+    const analytics = makeRes();
+    await getAdAnalytics({ params: { adId: 'ad-1' }, user: { id: 'stranger' } }, analytics);
+    expect(analytics.statusCode).toBe(403);
+  });
+
+  test('performance returns the daily series, pacing and timeline', async () => {
+    prismaMock.$queryRaw = mock(async (strings) =>
+      strings.join('').includes('"AdClick"') ? [{ day: '2026-10-17', count: 3 }] : [{ day: '2026-10-17', count: 300 }],
+    );
+    const res = makeRes();
+    await getCampaignPerformance({ params: { adId: 'ad-1' }, query: { range: '7d' }, user: { id: 'owner' } }, res);
+
+    expect(res.statusCode).toBe(200);
+    const { data } = res.body;
+    expect(data.range).toBe('7d');
+    expect(data.daily.length).toBeGreaterThanOrEqual(7);
+    expect(data.daily.find((d) => d.date === '2026-10-17')).toMatchObject({ impressions: 300, clicks: 3, spend: 600 });
+    expect(data.campaign).toMatchObject({ id: 'ad-1', canPause: true, canResume: false });
+    expect(data.timeline.map((e) => e.status)).toEqual(['pending', 'approved']);
+  });
+
+  test('rejects an unknown range or status', async () => {
+    const res = makeRes();
+    await getCampaignPerformance({ params: { adId: 'ad-1' }, query: { range: '1y' }, user: { id: 'owner' } }, res);
+    expect(res.statusCode).toBe(400);
+
+    const list = makeRes();
+    await getMyCampaigns({ query: { status: 'live' }, user: { id: 'owner' } }, list);
+    expect(list.statusCode).toBe(400);
+  });
+
+  test("lists only the caller's campaigns", async () => {
+    let where;
+    prismaMock.ad.findMany = mock(async (args) => { where = args.where; return [adRow()]; });
+    const res = makeRes();
+    await getMyCampaigns({ query: { status: 'approved' }, user: { id: 'owner' } }, res);
+    expect(where).toEqual({ userId: 'owner', status: 'approved' });
+    expect(res.body.data[0]).toMatchObject({ id: 'ad-1', thumbnailUrl: 'https://cdn.example/juice.jpg' });
+    expect(res.body.data[0].metrics.ctr).toBe(2);
+  });
+});
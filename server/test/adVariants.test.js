@@ -0,0 +1,276 @@
+/**
+ * Creative test tests (lib/adVariants.mjs, controllers/adVariantController.mjs
+ * and the variant paths in controllers/AdController.mjs).
+ *
+ * Locks:
+ *  - a test has 2–4 variants, each with a headline and an image or video
+ *  - saving keeps unchanged variants (and their counts) and retires edited ones
+ *  - split traffic is even, a bandit leans to the better CTR but never starves
+ *    a variant, and a winner takes everything
+ *  - the readout waits for enough impressions before calling a result
+ *  - an owner's new variant on a reviewed ad sends it back to review
+ *  - the feed serves one variant per ad and tracking counts it on that variant
+ *
+ * Only prisma is mocked — see the note in adSecurity.test.js.
+ */
+import { test, expect, mock, beforeEach, describe } from 'bun:test';
+import {
+  VARIANT_LIMITS,
+  ctrConfidence,
+  normalizeTestUpdate,
+  normalizeVariants,
+  pickVariant,
+  planVariantSave,
+  testReadout,
+  trafficShares,
+} from '../lib/adVariants.mjs';
+
+const txMock = {
+  adClick: { create: mock(async () => ({})) },
+  ad: { updateMany: mock(async () => ({ count: 1 })) },
+  adVariant: { update: mock(async () => ({})) },
+};
+const prismaMock = {
+  ad: {
+    findUnique: mock(async () => null),
+    findMany: mock(async () => []),
+    count: mock(async () => 0),
+    update: mock(async (args) => ({ ...args.data })),
+    updateMany: mock(async () => ({ count: 1 })),
+  },
+  adVariant: {
+    findMany: mock(async () => []),
+    create: mock(async (args) => args.data),
+    update: mock(async (args) => args.data),
+    updateMany: mock(async () => ({ count: 0 })),
+  },
+  appUser: {
+    findUnique: mock(async () => ({ role: 'USER' })),
+  },
+  adClick: { create: mock(async () => ({})) },
+  $transaction: mock(async (ops) => (typeof ops === 'function' ? ops(txMock) : Promise.all(ops))),
+};
+
+mock.module('../lib/prisma.mjs', () => ({ default: prismaMock }));
+
+const { getAllAds, trackAdClick, VALID_CTA_TYPES } = await import('../controllers/AdController.mjs');
+const { saveAdVariants, updateAdTest } = await import('../controllers/adVariantController.mjs');
+
+function makeRes() {
+  return {
+    statusCode: 200,
+    body: null,
+    status(c) { this.statusCode = c; return this; },
+    json(b) { this.body = b; return this; },
+  };
+}
+
+// Deterministic stand-in for Math.random (mulberry32)
+function seeded(seed) {
+  let a = seed;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const ID_A = '11111111-1111-4111-8111-111111111111';
+const ID_B = '22222222-2222-4222-8222-222222222222';
+
+const variantRow = (overrides = {}) => ({
+  id: ID_A,
+  label: 'A',
+  headline: 'Cold-pressed daily',
+  description: null,
+  imageUrl: 'https://cdn.example/a.jpg',
+  videoUrl: null,
+  thumbnailUrl: null,
+  callToAction: 'shop_now',
+  r2ImageKey: null,
+  r2VideoKey: null,
+  r2ThumbnailKey: null,
+  impressions: 0,
+  clicks: 0,
+  conversions: 0,
+  isActive: true,
+  createdAt: new Date('2026-10-18T12:00:00.000Z'),
+  ...overrides,
+});
+
+const creative = (headline, overrides = {}) => ({ headline, imageUrl: `https://cdn.example/${headline}.jpg`, ...overrides });
+
+describe('normalizeVariants', () => {
+  test('takes 2–4 variants with a headline and media each', () => {
+    const ok = normalizeVariants({ variants: [creative('a'), creative('b', { callToAction: 'shop_now' })] }, VALID_CTA_TYPES);
+    expect(ok.input.mode).toBe('split');
+    expect(ok.input.variants[0]).toMatchObject({ id: null, headline: 'a', callToAction: 'learn_more', videoUrl: null });
+
+    expect(normalizeVariants({ variants: [creative('a')] }, VALID_CTA_TYPES).error).toMatch(/2–4/);
+    expect(normalizeVariants({ variants: Array.from({ length: 5 }, (_, i) => creative(`v${i}`)) }, VALID_CTA_TYPES).error).toMatch(/2–4/);
+    expect(normalizeVariants({ variants: [creative('a'), { headline: 'b' }] }, VALID_CTA_TYPES).error)
+      .toBe('variant B needs an image or a video');
+    expect(normalizeVariants({ variants: [creative('a'), creative(' ')] }, VALID_CTA_TYPES).error).toMatch(/headline/);
+    expect(normalizeVariants({ variants: [creative('a'), creative('b', { callToAction: 'buy' })] }, VALID_CTA_TYPES).error)
+      .toMatch(/callToAction/);
+    expect(normalizeVariants({ mode: 'auto', variants: [creative('a'), creative('b')] }, VALID_CTA_TYPES).error).toMatch(/mode/);
+    expect(normalizeVariants({ variants: [creative('a', { id: ID_A }), creative('b', { id: ID_A })] }, VALID_CTA_TYPES).error)
+      .toMatch(/only once/);
+  });
+
+  test('a winner must be a running variant', () => {
+    expect(normalizeTestUpdate({ winnerVariantId: ID_B }, [ID_A]).error).toMatch(/running/);
+    expect(normalizeTestUpdate({ winnerVariantId: null }, [ID_A]).input).toEqual({ winnerVariantId: null });
+    expect(normalizeTestUpdate({}, [ID_A]).error).toMatch(/Nothing/);
+  });
+});
+
+describe('planVariantSave', () => {
+  test('keeps unchanged variants, retires edited and dropped ones', () => {
+    const a = variantRow();
+    const b = variantRow({ id: ID_B, label: 'B', headline: 'Squeezed this morning' });
+    const plan = planVariantSave([a, b], [
+      { id: ID_B, headline: b.headline, description: null, imageUrl: b.imageUrl, videoUrl: null, thumbnailUrl: null, callToAction: 'shop_now' },
+      { id: ID_A, headline: 'Edited', description: null, imageUrl: a.imageUrl, videoUrl: null, thumbnailUrl: null, callToAction: 'shop_now' },
+    ]);
+    expect(plan.keep).toEqual([{ id: ID_B, label: 'A' }]);
+    expect(plan.create).toEqual([expect.objectContaining({ headline: 'Edited', label: 'B' })]);
+    expect(plan.retire).toEqual([ID_A]);
+    expect(plan.changedCreative).toBe(true);
+  });
+
+  test('refuses an id that is not one of the running variants', () => {
+    expect(planVariantSave([], [{ id: ID_A, headline: 'x', imageUrl: 'y' }]).error).toMatch(/Variant A/);
+  });
+});
+
+describe('traffic', () => {
+  const a = variantRow({ impressions: 2000, clicks: 100 });
+  const b = variantRow({ id: ID_B, impressions: 2000, clicks: 40 });
+
+  test('split is even and a winner takes everything', () => {
+    expect(trafficShares([a, b], { mode: 'split' }).map((s) => s.share)).toEqual([0.5, 0.5]);
+    expect(trafficShares([a, b], { mode: 'bandit', winnerVariantId: ID_B }).map((s) => s.share)).toEqual([0, 1]);
+    expect(trafficShares([a, b], { mode: null })).toEqual([]);
+  });
+
+  test('a bandit leans to the better CTR but keeps the floor', () => {
+    const shares = trafficShares([a, b], { mode: 'bandit' }, seeded(7));
+    expect(shares[0].share).toBeGreaterThan(0.9);
+    expect(shares[1].share).toBeCloseTo(VARIANT_LIMITS.BANDIT_FLOOR, 5);
+    expect(shares[0].share + shares[1].share).toBeCloseTo(1, 10);
+  });
+
+  test('pickVariant maps a roll onto the shares', () => {
+    const shares = [{ id: 'a', share: 0.25 }, { id: 'b', share: 0 }, { id: 'c', share: 0.75 }];
+    expect(pickVariant(shares, 0.1)).toBe('a');
+    expect(pickVariant(shares, 0.25)).toBe('c');
+    expect(pickVariant(shares, 0.9999)).toBe('c');
+    expect(pickVariant([], 0.5)).toBeNull();
+  });
+});
+
+describe('testReadout', () => {
+  test('collects until every variant has enough impressions', () => {
+    const readout = testReadout([variantRow({ impressions: 500, clicks: 50 }), variantRow({ id: ID_B, impressions: 40, clicks: 1 })]);
+    expect(readout.status).toBe('collecting');
+    expect(readout.needed).toBe(60);
+  });
+
+  test('calls a clear leader and leaves a close race open', () => {
+    const clear = testReadout([variantRow({ impressions: 2000, clicks: 40 }), variantRow({ id: ID_B, impressions: 2000, clicks: 100 })]);
+    expect(clear).toMatchObject({ status: 'significant', leaderId: ID_B, runnerUpId: ID_A, lift: 150 });
+    expect(clear.confidence).toBeGreaterThan(0.99);
+
+    const close = testReadout([variantRow({ impressions: 1000, clicks: 50 }), variantRow({ id: ID_B, impressions: 1000, clicks: 52 })]);
+    expect(close.status).toBe('inconclusive');
+    expect(ctrConfidence({ impressions: 0, clicks: 0 }, { impressions: 10, clicks: 1 })).toBe(0);
+  });
+});
+
+describe('controllers', () => {
+  const adRow = (overrides = {}) => ({
+    id: 'ad-1',
+    userId: 'owner',
+    status: 'approved',
+    variantMode: 'split',
+    winnerVariantId: null,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    prismaMock.ad.findUnique = mock(async () => adRow());
+    prismaMock.ad.update = mock(async (args) => adRow(args.data));
+    prismaMock.adVariant.findMany = mock(async () => [variantRow()]);
+    prismaMock.adVariant.create = mock(async (args) => args.data);
+    prismaMock.adVariant.update = mock(async (args) => args.data);
+    prismaMock.appUser.findUnique = mock(async () => ({ role: 'USER' }));
+    prismaMock.$transaction = mock(async (ops) => (typeof ops === 'function' ? ops(txMock) : Promise.all(ops)));
+    txMock.ad.updateMany = mock(async () => ({ count: 1 }));
+    txMock.adClick.create = mock(async () => ({}));
+    txMock.adVariant.update = mock(async () => ({}));
+  });
+
+  test("an owner's new variant sends a reviewed ad back to review", async () => {
+    const a = variantRow();
+    const res = makeRes();
+    await saveAdVariants({
+      params: { adId: 'ad-1' },
+      user: { id: 'owner' },
+      body: { variants: [{ ...a }, creative('New angle')] },
+    }, res, () => {});
+
+    expect(res.statusCode).toBe(200);
+    const adData = prismaMock.ad.update.mock.calls[0][0].data;
+    expect(adData.status).toBe('pending');
+    expect(adData.statusChanges.create.reason).toBe('Edited test variants');
+    expect(prismaMock.adVariant.update.mock.calls[0][0]).toEqual({ where: { id: ID_A }, data: { label: 'A' } });
+    expect(prismaMock.adVariant.create.mock.calls[0][0].data).toMatchObject({ adId: 'ad-1', label: 'B', headline: 'New angle' });
+  });
+
+  test('switching to bandit mode leaves review alone; strangers are refused', async () => {
+    const res = makeRes();
+    await updateAdTest({ params: { adId: 'ad-1' }, user: { id: 'owner' }, body: { mode: 'bandit' } }, res, () => {});
+    expect(res.body.data.mode).toBe('bandit');
+    expect(prismaMock.ad.update.mock.calls[0][0].data.status).toBeUndefined();
+
+    const stranger = makeRes();
+    await updateAdTest({ params: { adId: 'ad-1' }, user: { id: 'someone' }, body: { mode: 'split' } }, stranger, () => {});
+    expect(stranger.statusCode).toBe(403);
+  });
+
+  test('a click counts on its running variant; an unknown variant is dropped', async () => {
+    prismaMock.ad.findUnique = mock(async () => ({
+      id: 'ad-1', pricingModel: 'cpc', bidAmount: 100, totalBudget: 10_000, amountSpent: 0,
+      dailyBudgetLimit: null, dailySpend: 0, dailySpendDate: null, variants: [{ id: ID_A }],
+    }));
+    const req = (variantId) => ({
+      params: { adId: 'ad-1' }, body: { eventId: `evt-${variantId}`, variantId }, user: {}, headers: {}, ip: '',
+    });
+
+    await trackAdClick(req(ID_A), makeRes(), () => {});
+    expect(txMock.adClick.create.mock.calls[0][0].data.variantId).toBe(ID_A);
+    expect(txMock.adVariant.update.mock.calls[0][0]).toEqual({ where: { id: ID_A }, data: { clicks: { increment: 1 } } });
+
+    await trackAdClick(req(ID_B), makeRes(), () => {});
+    expect(txMock.adClick.create.mock.calls[1][0].data.variantId).toBeNull();
+    expect(txMock.adVariant.update).toHaveBeenCalledTimes(1);
+  });
+
+  test('the feed serves one variant and keeps the rest on the server', async () => {
+    prismaMock.ad.findMany = mock(async () => [{
+      id: 'ad-1', title: 'Fresh juice', description: 'Cold-pressed', headline: 'Own headline', type: 'regular',
+      imageUrl: 'https://cdn.example/own.jpg', createdAt: new Date(), updatedAt: new Date(),
+      impressions: 0, clicks: 0, amountSpent: 0, variantMode: 'split', winnerVariantId: ID_B,
+      variants: [variantRow(), variantRow({ id: ID_B, label: 'B', headline: 'Winner' })],
+    }]);
+    const res = makeRes();
+    await getAllAds({ query: { placement: 'explore', limit: '7' } }, res, () => {});
+
+    const [served] = res.body.data.all;
+    expect(served).toMatchObject({ variantId: ID_B, headline: 'Winner', callToAction: 'shop_now', description: 'Cold-pressed' });
+    expect(served.variants).toBeUndefined();
+    expect(res.body.data.ads[0]).toBe(served);
+  });
+});
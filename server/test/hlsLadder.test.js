@@ -0,0 +1,137 @@
+/**
+ * HLS ladder tests (lib/hlsLadder.mjs + the playlist endpoint in videoController).
+ *
+ * Locks:
+ *  - the ladder never upscales, always keeps one video rung, and only has an
+ *    audio rung when the source has audio
+ *  - the master lists video rungs only (adaptive playback never lands on audio)
+ *  - media playlists come back with every segment signed — tags untouched
+ *  - the playlist route only serves rungs of a READY ladder (no R2 reads for
+ *    anything else), and clients get no `hls` block until then
+ *
+ * Only prisma is mocked — see the note in adSecurity.test.js.
+ */
+import { test, expect, mock, beforeEach, describe } from 'bun:test';
+import {
+  HLS_LADDER, ladderFor, ffmpegArgs, renditionSummary, masterPlaylist,
+  hlsPayload, resolvePlaylist, signMediaPlaylist, parseRenditions,
+} from '../lib/hlsLadder.mjs';
+
+const prismaMock = {
+  video: {
+    findUnique: mock(async () => null),
+  },
+};
+
+mock.module('../lib/prisma.mjs', () => ({ default: prismaMock }));
+
+const { getVideoHlsPlaylist } = await import('../controllers/videoController.mjs');
+
+function makeRes() {
+  return {
+    statusCode: 200,
+    body: null,
+    headers: {},
+    status(c) { this.statusCode = c; return this; },
+    json(b) { this.body = b; return this; },
+    set(k, v) { this.headers[k] = v; return this; },
+    send(b) { this.body = b; return this; },
+  };
+}
+
+const FULL = renditionSummary(ladderFor(1080));
+
+beforeEach(() => {
+  prismaMock.video.findUnique = mock(async () => null);
+});
+
+describe('ladderFor', () => {
+  test('a 1080p source with audio gets every rung', () => {
+    expect(ladderFor(1080).map((r) => r.name)).toEqual(['360p', '480p', '720p', 'audio']);
+  });
+
+  test('never upscales, but a tiny source keeps the lowest video rung', () => {
+    expect(ladderFor(480).map((r) => r.name)).toEqual(['360p', '480p', 'audio']);
+    expect(ladderFor(240).map((r) => r.name)).toEqual(['360p', 'audio']);
+  });
+
+  test('no audio track, no audio rung; unknown height gets the full video ladder', () => {
+    expect(ladderFor(720, false).map((r) => r.name)).toEqual(['360p', '480p', '720p']);
+    expect(ladderFor(null).map((r) => r.name)).toEqual(['360p', '480p', '720p', 'audio']);
+  });
+});
+
+describe('ffmpegArgs', () => {
+  test('video rungs scale without upscaling and cut keyframes on segment boundaries', () => {
+    const args = ffmpegArgs('/w/source', '/w/out', HLS_LADDER[0]).join(' ');
+    expect(args).toContain("scale=-2:'min(360,ih)'");
+    expect(args).toContain('-force_key_frames expr:gte(t,n_forced*4)');
+    expect(args).toContain('-hls_segment_filename /w/out/360p/seg_%05d.ts /w/out/360p/index.m3u8');
+  });
+
+  test('the audio rung drops video; a silent source drops audio', () => {
+    const audio = ffmpegArgs('/w/source', '/w/out', HLS_LADDER[3]);
+    expect(audio).toContain('-vn');
+    expect(audio).not.toContain('-vf');
+    expect(ffmpegArgs('/w/source', '/w/out', HLS_LADDER[0], { hasAudio: false })).toContain('-an');
+  });
+});
+
+describe('masterPlaylist', () => {
+  test('lists video rungs only, lowest first, with relative variant URIs', () => {
+    const master = masterPlaylist(FULL);
+    expect(master).toContain('#EXT-X-STREAM-INF:BANDWIDTH=796000,CODECS="avc1.4d401f,mp4a.40.2",NAME="360p"\n360p.m3u8');
+    expect(master.indexOf('360p.m3u8')).toBeLessThan(master.indexOf('720p.m3u8'));
+    expect(master).not.toContain('audio.m3u8');
+  });
+});
+
+describe('signMediaPlaylist', () => {
+  test('signs each segment and leaves tags alone', async () => {
+    const text = '#EXTM3U\n#EXTINF:4.0,\nseg_00000.ts\n#EXTINF:2.1,\nseg_00001.ts\n#EXT-X-ENDLIST\n';
+    const signed = await signMediaPlaylist(text, async (file) => `https://r2/${file}?sig=1`);
+    expect(signed).toBe(
+      '#EXTM3U\n#EXTINF:4.0,\nhttps://r2/seg_00000.ts?sig=1\n#EXTINF:2.1,\nhttps://r2/seg_00001.ts?sig=1\n#EXT-X-ENDLIST\n',
+    );
+  });
+
+  test('does not sign URIs that escape the rung folder', async () => {
+    const sign = mock(async () => 'signed');
+    expect(await signMediaPlaylist('../../videos/x.mp4\n', sign)).toBe('../../videos/x.mp4\n');
+    expect(sign).not.toHaveBeenCalled();
+  });
+});
+
+describe('playlist routing', () => {
+  test('hlsPayload is null until the ladder is ready', () => {
+    expect(hlsPayload({ id: 'v1', hlsStatus: 'processing', hlsRenditions: FULL })).toBeNull();
+    expect(hlsPayload({ id: 'v1', hlsStatus: null })).toBeNull();
+    expect(hlsPayload({ id: 'v1', hlsStatus: 'ready', hlsRenditions: FULL })).toEqual({
+      masterUrl: '/api/videos/v1/hls/master.m3u8',
+      renditions: FULL.map((r) => ({ ...r, url: `/api/videos/v1/hls/${r.name}.m3u8` })),
+    });
+  });
+
+  test('resolvePlaylist only names the master and the ladder’s own rungs', () => {
+    const renditions = parseRenditions(FULL);
+    expect(resolvePlaylist('v1', 'master.m3u8', renditions)).toEqual({ key: 'hls/v1/master.m3u8', rendition: null });
+    expect(resolvePlaylist('v1', 'audio.m3u8', renditions)).toEqual({ key: 'hls/v1/audio/index.m3u8', rendition: 'audio' });
+    expect(resolvePlaylist('v1', '1080p.m3u8', renditions)).toBeNull();
+    expect(resolvePlaylist('v1', '..%2Fsecret.m3u8', renditions)).toBeNull();
+    expect(resolvePlaylist('v1', 'master.m3u8', [])).toBeNull();
+  });
+
+  test('the endpoint 404s for a video whose ladder is not ready', async () => {
+    prismaMock.video.findUnique = mock(async () => ({ id: 'v1', hlsStatus: 'pending', hlsRenditions: null }));
+    const res = makeRes();
+    await getVideoHlsPlaylist({ params: { id: 'v1', playlist: 'master.m3u8' } }, res, () => {});
+    expect(res.statusCode).toBe(404);
+  });
+
+  test('the endpoint 404s for a rung outside the ladder', async () => {
+    prismaMock.video.findUnique = mock(async () => ({ id: 'v1', hlsStatus: 'ready', hlsRenditions: FULL }));
+    const res = makeRes();
+    await getVideoHlsPlaylist({ params: { id: 'v1', playlist: '1080p.m3u8' } }, res, () => {});
+    expect(res.statusCode).toBe(404);
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * Livestream chat moderation tests (lib/livestreamModeration.mjs and
+ * controllers/livestreamChatController.mjs).
+ *
+ * Locks:
+ *  - a rejected message is never stored or broadcast
+ *  - bans outlast timeouts; an expired timeout no longer applies
+ *  - slow mode, followers-only, links and banned words bind viewers, never staff
+ *  - only staff moderate, only the streamer restricts a co-moderator
+ *  - co-moderators come from the streamer's followers
+ *
+ * Only prisma is mocked — see the note in adSecurity.test.js.
+ */
+import { test, expect, mock, beforeEach, describe } from 'bun:test';
+import {
+  LIVESTREAM_MODERATION_LIMITS,
+  activeRestriction,
+  chatRejection,
+  containsLink,
+  normalizeChatSettings,
+  parseRestriction,
+  restrictionTargetError,
+} from '../lib/livestreamModeration.mjs';
+
+const prismaMock = {
+  appUser: {
+    findUnique: mock(async () => ({ id: 'fan', firstName: 'F', lastName: 'N', livestreamBannedWords: [] })),
+  },
+  livestream: {
+    findUnique: mock(async () => null),
+    update: mock(async ({ data }) => ({ ...liveSession(), ...data })),
+  },
+  livestreamChatMessage: {
+    create: mock(async ({ data }) => ({ id: 'msg-1', ...data })),
+    findFirst: mock(async () => null),
+    findUnique: mock(async () => null),
+    update: mock(async () => ({})),
+  },
+  livestreamModerator: {
+    findMany: mock(async () => []),
+    findUnique: mock(async () => null),
+    count: mock(async () => 0),
+    create: mock(async () => ({})),
+  },
+  livestreamChatRestriction: {
+    findUnique: mock(async () => null),
+    upsert: mock(async ({ create }) => ({ ...create, createdAt: new Date() })),
+  },
+  creatorFollow: {
+    findUnique: mock(async () => null),
+  },
+};
+
+mock.module('../lib/prisma.mjs', () => ({ default: prismaMock }));
+
+const {
+  addLivestreamModerator, deleteLivestreamChatMessage, restrictChatUser, sendLivestreamChat,
+  updateLivestreamChatSettings,
+} = await import('../controllers/livestreamChatController.mjs');
+
+function makeRes() {
+  return {
+    statusCode: 200,
+    body: null,
+    status(c) { this.statusCode = c; return this; },
+    json(b) { this.body = b; return this; },
+  };
+}
+
+function liveSession(overrides = {}) {
+  return {
+    sessionId: 'sess-1', userId: 'streamer', status: 'live', startedAt: new Date(Date.now() - 60_000),
+    slowModeSeconds: 0, followersOnlyChat: false, blockChatLinks: false,
+    ...overrides,
+  };
+}
+
+const NOW = new Date('2026-10-18T12:00:00.000Z');
+const viewer = (overrides = {}) => ({
+  text: 'hello', isStaff: false, isFollower: false, settings: {}, now: NOW, ...overrides,
+});
+
+const send = async (userId, text) => {
+  const res = makeRes();
+  await sendLivestreamChat({ params: { sessionId: 'sess-1' }, body: { text }, user: { id: userId } }, res);
+  return res;
+};
+
+beforeEach(() => {
+  for (const model of Object.values(prismaMock)) {
+    for (const fn of Object.values(model)) fn.mockClear();
+  }
+  prismaMock.livestream.findUnique.mockImplementation(async () => liveSession());
+  prismaMock.livestreamModerator.findMany.mockImplementation(async () => []);
+  prismaMock.livestreamModerator.findUnique.mockImplementation(async () => null);
+  prismaMock.livestreamChatRestriction.findUnique.mockImplementation(async () => null);
+  prismaMock.livestreamChatMessage.findFirst.mockImplementation(async () => null);
+  prismaMock.livestreamChatMessage.findUnique.mockImplementation(async () => null);
+  prismaMock.creatorFollow.findUnique.mockImplementation(async () => null);
+  prismaMock.appUser.findUnique.mockImplementation(
+    async () => ({ id: 'fan', firstName: 'F', lastName: 'N', livestreamBannedWords: [] }),
+  );
+});
+
+describe('chatRejection', () => {
+  test('bans and live timeouts come first; an expired timeout is ignored', () => {
+    expect(chatRejection(viewer({ restriction: { kind: 'ban', expiresAt: null } })).error).toBe('CHAT_BANNED');
+
+    const timedOut = chatRejection(viewer({ restriction: { kind: 'timeout', expiresAt: new Date(NOW.getTime() + 90_500) } }));
+    expect(timedOut).toMatchObject({ error: 'CHAT_TIMED_OUT', retryAfterSeconds: 91 });
+
+    expect(activeRestriction({ kind: 'timeout', expiresAt: new Date(NOW.getTime() - 1) }, NOW)).toBeNull();
+    expect(chatRejection(viewer({ restriction: { kind: 'timeout', expiresAt: new Date(NOW.getTime() - 1) } }))).toBeNull();
+  });
+
+  test('applies followers-only, slow mode, links and banned words to viewers', () => {
+    expect(chatRejection(viewer({ settings: { followersOnlyChat: true } })).error).toBe('FOLLOWERS_ONLY');
+    expect(chatRejection(viewer({ settings: { followersOnlyChat: true }, isFollower: true }))).toBeNull();
+
+    const slow = chatRejection(viewer({ settings: { slowModeSeconds: 30 }, lastSentAt: new Date(NOW.getTime() - 10_000) }));
+    expect(slow).toMatchObject({ status: 429, error: 'SLOW_MODE', retryAfterSeconds: 20 });
+    expect(chatRejection(viewer({ settings: { slowModeSeconds: 30 }, lastSentAt: new Date(NOW.getTime() - 30_000) }))).toBeNull();
+
+    expect(chatRejection(viewer({ text: 'pay at pay-now.com', settings: { blockChatLinks: true } })).error).toBe('LINKS_NOT_ALLOWED');
+    expect(chatRejection(viewer({ text: 'pay at pay-now.com' }))).toBeNull();
+
+    const blocked = chatRejection(viewer({ text: 'Send MoMo now', bannedWords: ['momo'] }));
+    expect(blocked.error).toBe('MESSAGE_BLOCKED');
+    expect(blocked.message).not.toContain('momo');
+  });
+
+  test('staff are exempt from every rule', () => {
+    expect(chatRejection(viewer({
+      isStaff: true,
+      text: 'visit scam.com',
+      bannedWords: ['scam'],
+      settings: { followersOnlyChat: true, slowModeSeconds: 60, blockChatLinks: true },
+      restriction: { kind: 'ban' },
+      lastSentAt: NOW,
+    }))).toBeNull();
+  });
+});
+
+describe('containsLink', () => {
+  test('catches URLs and bare domains without flagging ordinary text', () => {
+    expect(containsLink('https://example.org/x')).toBe(true);
+    expect(containsLink('www.winbig')).toBe(true);
+    expect(containsLink('bit.ly/abc')).toBe(true);
+    expect(containsLink('mtn.co.ug')).toBe(true);
+    expect(containsLink('great stream... loved it')).toBe(false);
+    expect(containsLink('ok.fine')).toBe(false);
+  });
+});
+
+describe('parseRestriction / normalizeChatSettings / restrictionTargetError', () => {
+  test('timeouts default and are bounded; bans never expire', () => {
+    expect(parseRestriction({ kind: 'timeout' }, NOW).expiresAt.getTime())
+      .toBe(NOW.getTime() + LIVESTREAM_MODERATION_LIMITS.DEFAULT_TIMEOUT_SECONDS * 1000);
+    expect(parseRestriction({ kind: 'ban', durationSeconds: 60 }, NOW)).toEqual({ kind: 'ban', expiresAt: null });
+    expect(parseRestriction({ kind: 'timeout', durationSeconds: 0 }, NOW)).toBeNull();
+    expect(parseRestriction({ kind: 'mute' }, NOW)).toBeNull();
+  });
+
+  test('settings keep only valid fields that were sent', () => {
+    expect(normalizeChatSettings({ slowModeSeconds: 15 })).toEqual({ slowModeSeconds: 15 });
+    expect(normalizeChatSettings({})).toEqual({});
+    expect(normalizeChatSettings({ slowModeSeconds: 301 })).toBeNull();
+    expect(normalizeChatSettings({ followersOnlyChat: 'yes' })).toBeNull();
+  });
+
+  test('nobody restricts the streamer; only the streamer restricts a moderator', () => {
+    const stream = liveSession();
+    expect(restrictionTargetError(stream, 'mod', 'streamer', ['mod']).status).toBe(403);
+    expect(restrictionTargetError(stream, 'mod', 'mod2', ['mod', 'mod2']).status).toBe(403);
+    expect(restrictionTargetError(stream, 'streamer', 'mod', ['mod'])).toBeNull();
+    expect(restrictionTargetError(stream, 'mod', 'fan', ['mod'])).toBeNull();
+    expect(restrictionTargetError(stream, 'fan', 'fan').status).toBe(400);
+  });
+});
+
+describe('sendLivestreamChat', () => {
+  test('a banned viewer is refused and nothing is stored', async () => {
+    prismaMock.livestreamChatRestriction.findUnique.mockImplementation(async () => ({ kind: 'ban', expiresAt: null }));
+
+    const res = await send('fan', 'hi');
+
+    expect(res.statusCode).toBe(403);
+    expect(res.body.error).toBe('CHAT_BANNED');
+    expect(prismaMock.livestreamChatMessage.create).not.toHaveBeenCalled();
+  });
+
+  test("the streamer's banned words are applied before broadcast", async () => {
+    prismaMock.appUser.findUnique.mockImplementation(async () => ({ livestreamBannedWords: ['airtime'] }));
+
+    const res = await send('fan', 'free AIRTIME here');
+
+    expect(res.statusCode).toBe(400);
+    expect(prismaMock.livestreamChatMessage.create).not.toHaveBeenCalled();
+  });
+
+  test("slow mode looks up the viewer's last message; moderators skip the checks", async () => {
+    prismaMock.livestream.findUnique.mockImplementation(async () => liveSession({ slowModeSeconds: 30 }));
+    prismaMock.livestreamChatMessage.findFirst.mockImplementation(async () => ({ createdAt: new Date() }));
+    expect((await send('fan', 'again')).statusCode).toBe(429);
+
+    prismaMock.livestreamModerator.findMany.mockImplementation(async () => [{ moderatorId: 'mod' }]);
+    const res = await send('mod', 'again');
+    expect(res.statusCode).toBe(200);
+    expect(prismaMock.livestreamChatRestriction.findUnique).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('staff actions', () => {
+  test('viewers cannot delete messages', async () => {
+    const res = makeRes();
+    await deleteLivestreamChatMessage({ params: { sessionId: 'sess-1', messageId: 'msg-1' }, user: { id: 'fan' } }, res);
+
+    expect(res.statusCode).toBe(403);
+    expect(prismaMock.livestreamChatMessage.update).not.toHaveBeenCalled();
+  });
+
+  test('a moderator soft-deletes a message of this session', async () => {
+    prismaMock.livestreamModerator.findMany.mockImplementation(async () => [{ moderatorId: 'mod' }]);
+    prismaMock.livestreamChatMessage.findUnique.mockImplementation(
+      async () => ({ id: 'msg-1', sessionId: 'sess-1', userId: 'fan', deletedAt: null }),
+    );
+    const res = makeRes();
+
+    await deleteLivestreamChatMessage({ params: { sessionId: 'sess-1', messageId: 'msg-1' }, user: { id: 'mod' } }, res);
+
+    expect(res.body.data).toEqual({ messageId: 'msg-1', deleted: true });
+    expect(prismaMock.livestreamChatMessage.update.mock.calls[0][0].data.deletedById).toBe('mod');
+  });
+
+  test('a timeout is upserted for the session', async () => {
+    const res = makeRes();
+    await restrictChatUser({
+      params: { sessionId: 'sess-1' },
+      body: { userId: 'fan', kind: 'timeout', durationSeconds: 60 },
+      user: { id: 'streamer' },
+    }, res);
+
+    expect(res.statusCode).toBe(201);
+    expect(res.body.data).toMatchObject({ userId: 'fan', userName: 'F N', kind: 'timeout' });
+    expect(prismaMock.livestreamChatRestriction.upsert.mock.calls[0][0].where)
+      .toEqual({ sessionId_userId: { sessionId: 'sess-1', userId: 'fan' } });
+  });
+
+  test('chat settings reject bad values before loading the session', async () => {
+    const res = makeRes();
+    await updateLivestreamChatSettings({ params: { sessionId: 'sess-1' }, body: { slowModeSeconds: -5 }, user: { id: 'streamer' } }, res);
+
+    expect(res.statusCode).toBe(400);
+    expect(prismaMock.livestream.findUnique).not.toHaveBeenCalled();
+  });
+});
+
+describe('addLivestreamModerator', () => {
+  test('only followers can be appointed', async () => {
+    const res = makeRes();
+    await addLivestreamModerator({ body: { userId: 'stranger' }, user: { id: 'streamer' } }, res);
+
+    expect(res.statusCode).toBe(400);
+    expect(prismaMock.livestreamModerator.create).not.toHaveBeenCalled();
+  });
+
+  test('a follower is appointed once, up to the cap', async () => {
+    prismaMock.creatorFollow.findUnique.mockImplementation(
+      async () => ({ follower: { id: 'fan', firstName: 'F', lastName: 'N', avatar: null } }),
+    );
+    const added = makeRes();
+    await addLivestreamModerator({ body: { userId: 'fan' }, user: { id: 'streamer' } }, added);
+    expect(added.statusCode).toBe(201);
+    expect(prismaMock.livestreamModerator.create).toHaveBeenCalledTimes(1);
+
+    prismaMock.livestreamModerator.count.mockImplementation(async () => LIVESTREAM_MODERATION_LIMITS.MAX_MODERATORS);
+    const full = makeRes();
+    await addLivestreamModerator({ body: { userId: 'fan2' }, user: { id: 'streamer' } }, full);
+    expect(full.statusCode).toBe(409);
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * Livestream replay tests (lib/livestreamReplay.mjs, the replay-chat handler
+ * in controllers/videoController.mjs, chat storage in
+ * controllers/livestreamChatController.mjs, and replay linking in
+ * finalizePresignedVideoUpload).
+ *
+ * Locks:
+ *  - chat is stored at its offset into the stream — the replay's playhead
+ *  - replay chat is served in bounded playhead windows, [fromMs, toMs)
+ *  - only the streamer's own, ended livestream can be linked, and only once
+ *  - the replay block is separate from the "creator is live" session id
+ *
+ * Only prisma is mocked — see the note in adSecurity.test.js. Every finalize
+ * case below is rejected before R2 is touched.
+ */
+import { test, expect, mock, beforeEach, describe } from 'bun:test';
+import {
+  REPLAY_CHAT_LIMITS,
+  chatOffsetMs,
+  formatReplayChatMessage,
+  parseChatWindow,
+  replayLinkError,
+  replayPayload,
+  replayVideoFields,
+} from '../lib/livestreamReplay.mjs';
+
+const prismaMock = {
+  appUser: {
+    findUnique: mock(async () => ({ id: 'streamer', firstName: 'Sam', lastName: 'Lee', subscriptionStatus: 'INACTIVE' })),
+  },
+  video: {
+    findUnique: mock(async () => null),
+    findFirst: mock(async () => null),
+  },
+  livestream: {
+    findUnique: mock(async () => null),
+  },
+  livestreamChatMessage: {
+    create: mock(async ({ data }) => ({ id: 'msg-1', ...data })),
+    findMany: mock(async () => []),
+  },
+  livestreamModerator: {
+    findMany: mock(async () => []),
+  },
+  livestreamChatRestriction: {
+    findUnique: mock(async () => null),
+  },
+};
+
+mock.module('../lib/prisma.mjs', () => ({ default: prismaMock }));
+
+const { getReplayChat } = await import('../controllers/videoController.mjs');
+const { sendLivestreamChat } = await import('../controllers/livestreamChatController.mjs');
+const { finalizePresignedVideoUpload } = await import('../controllers/r2UploadController.mjs');
+
+function makeRes() {
+  return {
+    statusCode: 200,
+    body: null,
+    status(c) { this.statusCode = c; return this; },
+    json(b) { this.body = b; return this; },
+  };
+}
+
+const livestream = (overrides = {}) => ({
+  sessionId: 'sess-1',
+  userId: 'streamer',
+  type: 'livestream',
+  status: 'ended',
+  title: 'Friday stream',
+  peakViewerCount: 42,
+  startedAt: new Date(Date.now() - 90_000),
+  ...overrides,
+});
+
+beforeEach(() => {
+  for (const model of Object.values(prismaMock)) {
+    for (const fn of Object.values(model)) fn.mockClear();
+  }
+  prismaMock.video.findUnique.mockImplementation(async () => null);
+  prismaMock.video.findFirst.mockImplementation(async () => null);
+  prismaMock.livestream.findUnique.mockImplementation(async () => null);
+  prismaMock.livestreamChatMessage.findMany.mockImplementation(async () => []);
+});
+
+describe('chatOffsetMs', () => {
+  test('measures from the stream start and never goes negative', () => {
+    const start = new Date('2026-10-18T10:00:00.000Z');
+    expect(chatOffsetMs(start, new Date('2026-10-18T10:01:30.250Z'))).toBe(90_250);
+    expect(chatOffsetMs(start, new Date('2026-10-18T09:59:00.000Z'))).toBe(0);
+    expect(chatOffsetMs(null, new Date())).toBe(0);
+  });
+});
+
+describe('parseChatWindow', () => {
+  test('defaults toMs to one window past fromMs', () => {
+    expect(parseChatWindow({})).toEqual({ fromMs: 0, toMs: REPLAY_CHAT_LIMITS.DEFAULT_WINDOW_MS });
+    expect(parseChatWindow({ fromMs: '60000', toMs: '120000' })).toEqual({ fromMs: 60_000, toMs: 120_000 });
+  });
+
+  test('rejects malformed, empty and oversized windows', () => {
+    expect(parseChatWindow({ fromMs: 'abc' })).toBeNull();
+    expect(parseChatWindow({ fromMs: '1.5' })).toBeNull();
+    expect(parseChatWindow({ fromMs: '-1' })).toBeNull();
+    expect(parseChatWindow({ fromMs: '5000', toMs: '5000' })).toBeNull();
+    expect(parseChatWindow({ fromMs: '0', toMs: String(REPLAY_CHAT_LIMITS.MAX_WINDOW_MS + 1) })).toBeNull();
+  });
+});
+
+describe('replayLinkError', () => {
+  test('only the streamer can link their own ended livestream', () => {
+    expect(replayLinkError(null, 'streamer').status).toBe(404);
+    expect(replayLinkError(livestream(), 'someone-else').status).toBe(403);
+    expect(replayLinkError(livestream({ type: 'recording' }), 'streamer').error).toBe('NOT_A_LIVESTREAM');
+    expect(replayLinkError(livestream({ status: 'live' }), 'streamer').error).toBe('LIVESTREAM_NOT_ENDED');
+    expect(replayLinkError(livestream(), 'streamer')).toBeNull();
+  });
+
+  test('replay fields and payload round-trip the session and peak', () => {
+    const fields = replayVideoFields(livestream());
+    expect(fields).toEqual({ livestreamSessionId: 'sess-1', peakViewerCount: 42 });
+    expect(replayPayload(fields)).toEqual({ sessionId: 'sess-1', peakViewers: 42 });
+    expect(replayPayload({ livestreamSessionId: null })).toBeNull();
+  });
+});
+
+describe('sendLivestreamChat', () => {
+  test('stores the message at its offset and broadcasts the stored row', async () => {
+    prismaMock.livestream.findUnique.mockImplementation(async () => livestream({ status: 'live' }));
+    const res = makeRes();
+
+    await sendLivestreamChat({ params: { sessionId: 'sess-1' }, body: { text: '  hi all ' }, user: { id: 'fan' } }, res);
+
+    const { data } = prismaMock.livestreamChatMessage.create.mock.calls[0][0];
+    expect(data.text).toBe('hi all');
+    expect(data.offsetMs).toBeGreaterThanOrEqual(90_000);
+    expect(res.body.data).toMatchObject({ messageId: 'msg-1', text: 'hi all', offsetMs: data.offsetMs });
+  });
+
+  test('rejects messages over the length limit before touching the stream', async () => {
+    const res = makeRes();
+
+    await sendLivestreamChat({
+      params: { sessionId: 'sess-1' },
+      body: { text: 'x'.repeat(REPLAY_CHAT_LIMITS.MAX_TEXT + 1) },
+      user: { id: 'fan' },
+    }, res);
+
+    expect(res.statusCode).toBe(400);
+    expect(prismaMock.livestream.findUnique).not.toHaveBeenCalled();
+  });
+});
+
+describe('getReplayChat', () => {
+  test('queries the replay session within the window, skipping deleted messages', async () => {
+    prismaMock.video.findUnique.mockImplementation(async () => ({ id: 'vid-1', livestreamSessionId: 'sess-1' }));
+    prismaMock.livestreamChatMessage.findMany.mockImplementation(async () => [
+      { id: 'm1', userId: 'fan', userName: 'Fan', text: 'first', offsetMs: 61_000, createdAt: new Date('2026-10-18T10:01:01.000Z') },
+    ]);
+    const res = makeRes();
+
+    await getReplayChat({ params: { id: 'vid-1' }, query: { fromMs: '60000', toMs: '120000' } }, res);
+
+    const args = prismaMock.livestreamChatMessage.findMany.mock.calls[0][0];
+    expect(args.where).toEqual({ sessionId: 'sess-1', offsetMs: { gte: 60_000, lt: 120_000 }, deletedAt: null });
+    expect(args.take).toBe(REPLAY_CHAT_LIMITS.MAX_MESSAGES);
+    expect(res.body.data).toEqual([
+      formatReplayChatMessage({ id: 'm1', userId: 'fan', userName: 'Fan', text: 'first', offsetMs: 61_000, createdAt: new Date('2026-10-18T10:01:01.000Z') }),
+    ]);
+  });
+
+  test('ordinary videos have no replay chat; bad windows and missing videos fail', async () => {
+    prismaMock.video.findUnique.mockImplementation(async () => ({ id: 'vid-1', livestreamSessionId: null }));
+    const plain = makeRes();
+    await getReplayChat({ params: { id: 'vid-1' }, query: {} }, plain);
+    expect(plain.body.data).toEqual([]);
+    expect(prismaMock.livestreamChatMessage.findMany).not.toHaveBeenCalled();
+
+    const bad = makeRes();
+    await getReplayChat({ params: { id: 'vid-1' }, query: { fromMs: 'x' } }, bad);
+    expect(bad.statusCode).toBe(400);
+
+    prismaMock.video.findUnique.mockImplementation(async () => null);
+    const missing = makeRes();
+    await getReplayChat({ params: { id: 'nope' }, query: {} }, missing);
+    expect(missing.statusCode).toBe(404);
+  });
+});
+
+describe('finalizePresignedVideoUpload replay linking', () => {
+  const finalize = async (livestreamSessionId, userId = 'streamer') => {
+    const res = makeRes();
+    await finalizePresignedVideoUpload({
+      body: { r2VideoKey: `videos/${userId}/1700000000000_abc_stream.mp4`, title: 'Replay', livestreamSessionId },
+      user: { id: userId },
+    }, res);
+    return res;
+  };
+
+  test("refuses someone else's stream and one that is still live", async () => {
+    prismaMock.livestream.findUnique.mockImplementation(async () => livestream());
+    expect((await finalize('sess-1', 'intruder')).statusCode).toBe(403);
+
+    prismaMock.livestream.findUnique.mockImplementation(async () => livestream({ status: 'live' }));
+    expect((await finalize('sess-1')).body.error).toBe('LIVESTREAM_NOT_ENDED');
+  });
+
+  test('refuses a second replay for the same stream', async () => {
+    prismaMock.livestream.findUnique.mockImplementation(async () => livestream());
+    prismaMock.video.findUnique.mockImplementation(async () => ({ id: 'vid-replay' }));
+
+    const res = await finalize('sess-1');
+
+    expect(res.statusCode).toBe(409);
+    expect(res.body.error).toBe('REPLAY_EXISTS');
+    expect(prismaMock.video.findUnique.mock.calls[0][0].where).toEqual({ livestreamSessionId: 'sess-1' });
+  });
+});
@@ -0,0 +1,296 @@
+/**
+ * Review console tests (lib/moderation.mjs, controllers/moderationController.mjs
+ * and the ad review in controllers/AdController.mjs).
+ *
+ * Locks:
+ *  - only a pending ad can be approved, and approvedBy is the moderator from
+ *    the token, never the request body
+ *  - every decision writes a ModerationAction in the same transaction
+ *  - a bulk review skips the ads it can't review instead of failing
+ *  - reports are grouped per item, most-reported first
+ *  - removing a survey ends it — it is never deleted
+ *  - an item with no open reports is skipped, not re-resolved
+ *
+ * Only prisma is mocked — see the note in adSecurity.test.js.
+ */
+import { test, expect, mock, beforeEach, describe } from 'bun:test';
+import {
+  adReviewBlocker,
+  groupReports,
+  normalizeReport,
+  normalizeReviewTargets,
+} from '../lib/moderation.mjs';
+
+const prismaMock = {
+  ad: {
+    findUnique: mock(async () => null),
+    update: mock(async (args) => ({ id: args.where.id, ...args.data })),
+  },
+  moderationAction: {
+    create: mock(async (args) => ({ id: 'action-1', ...args.data })),
+    findMany: mock(async () => []),
+  },
+  contentReport: {
+    count: mock(async () => 0),
+    upsert: mock(async (args) => ({ id: 'report-1', status: 'open', ...args.create })),
+    updateMany: mock(async () => ({ count: 1 })),
+  },
+  appUser: {
+    findUnique: mock(async () => ({ role: 'ADMIN' })),
+    findMany: mock(async () => []),
+  },
+  video: { findMany: mock(async () => []), findUnique: mock(async () => null) },
+  comment: { findMany: mock(async () => []), findUnique: mock(async () => null) },
+  response: { findMany: mock(async () => []), deleteMany: mock(async () => ({ count: 1 })) },
+  responseLike: { deleteMany: mock(async () => ({ count: 0 })) },
+  responseDislike: { deleteMany: mock(async () => ({ count: 0 })) },
+  responseReply: { deleteMany: mock(async () => ({ count: 0 })) },
+  survey: { findMany: mock(async () => []), updateMany: mock(async () => ({ count: 1 })) },
+  $transaction: mock(async (ops) => Promise.all(ops)),
+};
+
+mock.module('../lib/prisma.mjs', () => ({ default: prismaMock }));
+
+const { approveAd, bulkReviewAds } = await import('../controllers/AdController.mjs');
+const { createReport, getAuditTrail, resolveReports } = await import('../controllers/moderationController.mjs');
+
+function makeRes() {
+  return {
+    statusCode: 200,
+    body: null,
+    status(c) { this.statusCode = c; return this; },
+    json(b) { this.body = b; return this; },
+  };
+}
+
+const AD_ID = '11111111-1111-4111-8111-111111111111';
+const OTHER_AD_ID = '22222222-2222-4222-8222-222222222222';
+const TARGET_ID = '33333333-3333-4333-8333-333333333333';
+
+const adRow = (overrides = {}) => ({ id: AD_ID, userId: 'owner', title: 'Fresh juice', status: 'pending', ...overrides });
+
+const surveyRow = (overrides = {}) => ({
+  id: TARGET_ID,
+  userId: 'creator',
+  title: 'Win airtime',
+  description: 'Tell us your PIN',
+  endDate: new Date(Date.now() + 86_400_000),
+  user: { id: 'creator', firstName: 'Sam', lastName: 'Okello' },
+  ...overrides,
+});
+
+beforeEach(() => {
+  for (const model of Object.values(prismaMock)) {
+    if (typeof model === 'function') model.mockClear();
+    else for (const fn of Object.values(model)) fn.mockClear();
+  }
+  prismaMock.ad.findUnique.mockImplementation(async () => null);
+  prismaMock.contentReport.count.mockImplementation(async () => 0);
+  prismaMock.survey.findMany.mockImplementation(async () => []);
+  prismaMock.response.findMany.mockImplementation(async () => []);
+  prismaMock.moderationAction.findMany.mockImplementation(async () => []);
+});
+
+describe('input', () => {
+  test('a report needs a known type, an id and a listed reason', () => {
+    expect(normalizeReport({ targetType: 'survey', targetId: TARGET_ID, reason: 'scam', details: '  asks for PINs ' })).toEqual({
+      input: { targetType: 'survey', targetId: TARGET_ID, reason: 'scam', details: 'asks for PINs' },
+    });
+    expect(normalizeReport({ targetType: 'ad', targetId: TARGET_ID, reason: 'scam' }).error).toMatch(/targetType/);
+    expect(normalizeReport({ targetType: 'video', targetId: 'nope', reason: 'scam' }).error).toMatch(/targetId/);
+    expect(normalizeReport({ targetType: 'video', targetId: TARGET_ID, reason: 'boring' }).error).toMatch(/reason/);
+    expect(normalizeReport({ targetType: 'video', targetId: TARGET_ID, reason: 'other', details: 'x'.repeat(501) }).error).toMatch(/500/);
+  });
+
+  test('review targets are de-duplicated and all-or-nothing', () => {
+    const target = { targetType: 'comment', targetId: TARGET_ID };
+    expect(normalizeReviewTargets([target, { ...target }])).toEqual([target]);
+    expect(normalizeReviewTargets([target, { targetType: 'ad', targetId: TARGET_ID }])).toBeNull();
+    expect(normalizeReviewTargets([])).toBeNull();
+  });
+});
+
+describe('groupReports', () => {
+  test('groups per item, most-reported first, then the longest waiting', () => {
+    const report = (targetId, reason, day, details = null) => ({
+      targetType: 'video',
+      targetId,
+      reason,
+      details,
+      createdAt: new Date(`2026-10-${day}T09:00:00.000Z`),
+    });
+    const groups = groupReports([
+      report('b', 'spam', 10),
+      report('a', 'scam', 12, 'fake giveaway'),
+      report('a', 'scam', 14),
+      report('a', 'spam', 13),
+      report('c', 'hate', 11),
+    ]);
+
+    expect(groups.map((group) => group.targetId)).toEqual(['a', 'b', 'c']);
+    expect(groups[0]).toMatchObject({
+      reportCount: 3,
+      reasons: [{ reason: 'scam', count: 2 }, { reason: 'spam', count: 1 }],
+      details: ['fake giveaway'],
+      firstReportedAt: '2026-10-12T09:00:00.000Z',
+      lastReportedAt: '2026-10-14T09:00:00.000Z',
+    });
+  });
+});
+
+describe('ad review', () => {
+  test('only a pending ad can be approved; a rejected one stays rejected', () => {
+    expect(adReviewBlocker(adRow(), 'approve')).toBeNull();
+    expect(adReviewBlocker(adRow({ status: 'paused' }), 'approve')).toMatch(/waiting for review/);
+    expect(adReviewBlocker(adRow({ status: 'approved' }), 'reject')).toBeNull();
+    expect(adReviewBlocker(adRow({ status: 'rejected' }), 'reject')).toMatch(/already rejected/);
+  });
+
+  test('approving records the moderator from the token and writes the audit entry', async () => {
+    prismaMock.ad.findUnique.mockImplementation(async () => adRow());
+    const res = makeRes();
+    await approveAd({ params: { adId: AD_ID }, body: { adminUserId: 'spoofed' }, user: { id: 'mod-1' } }, res);
+
+    expect(res.statusCode).toBe(200);
+    expect(prismaMock.$transaction).toHaveBeenCalledTimes(1);
+    expect(prismaMock.ad.update.mock.calls[0][0].data).toMatchObject({ status: 'approved', approvedBy: 'mod-1' });
+    expect(prismaMock.moderationAction.create.mock.calls[0][0].data).toMatchObject({
+      actorId: 'mod-1',
+      targetType: 'ad',
+      targetId: AD_ID,
+      action: 'approved',
+      targetLabel: 'Fresh juice',
+    });
+  });
+
+  test('approving an ad that is not pending is a conflict, and a missing one is 404', async () => {
+    prismaMock.ad.findUnique.mockImplementation(async () => adRow({ status: 'paused' }));
+    const res = makeRes();
+    await approveAd({ params: { adId: AD_ID }, user: { id: 'mod-1' } }, res);
+    expect(res.statusCode).toBe(409);
+
+    prismaMock.ad.findUnique.mockImplementation(async () => null);
+    const missing = makeRes();
+    await approveAd({ params: { adId: AD_ID }, user: { id: 'mod-1' } }, missing);
+    expect(missing.statusCode).toBe(404);
+    expect(prismaMock.ad.update).not.toHaveBeenCalled();
+  });
+
+  test('a bulk rejection needs a reason and skips what it cannot review', async () => {
+    const noReason = makeRes();
+    await bulkReviewAds({ body: { adIds: [AD_ID], action: 'reject' }, user: { id: 'mod-1' } }, noReason);
+    expect(noReason.statusCode).toBe(400);
+
+    prismaMock.ad.findUnique.mockImplementation(async ({ where }) =>
+      where.id === AD_ID ? adRow() : adRow({ id: OTHER_AD_ID, status: 'rejected' }));
+    const res = makeRes();
+    await bulkReviewAds({
+      body: { adIds: [AD_ID, OTHER_AD_ID, AD_ID], action: 'reject', reason: 'Misleading claims' },
+      user: { id: 'mod-1' },
+    }, res);
+
+    expect(res.body.data).toEqual({
+      action: 'reject',
+      reviewed: [AD_ID],
+      skipped: [{ adId: OTHER_AD_ID, message: 'This ad is already rejected' }],
+    });
+    expect(prismaMock.ad.update.mock.calls[0][0].data).toMatchObject({ status: 'rejected', rejectionReason: 'Misleading claims', isActive: false });
+  });
+});
+
+describe('reports', () => {
+  test('reporting something that is gone is a 404', async () => {
+    const res = makeRes();
+    await createReport({ body: { targetType: 'survey', targetId: TARGET_ID, reason: 'scam' }, user: { id: 'user-1' } }, res);
+    expect(res.statusCode).toBe(404);
+    expect(prismaMock.contentReport.upsert).not.toHaveBeenCalled();
+  });
+
+  test('reporting again updates the reason without reopening the report', async () => {
+    prismaMock.survey.findMany.mockImplementation(async () => [surveyRow()]);
+    const res = makeRes();
+    await createReport({ body: { targetType: 'survey', targetId: TARGET_ID, reason: 'scam' }, user: { id: 'user-1' } }, res);
+
+    expect(res.statusCode).toBe(201);
+    const args = prismaMock.contentReport.upsert.mock.calls[0][0];
+    expect(args.where).toEqual({ reporterId_targetType_targetId: { reporterId: 'user-1', targetType: 'survey', targetId: TARGET_ID } });
+    expect(args.update).toEqual({ reason: 'scam', details: null });
+  });
+
+  test('removing a survey ends it and closes its reports', async () => {
+    prismaMock.contentReport.count.mockImplementation(async () => 2);
+    prismaMock.survey.findMany.mockImplementation(async () => [surveyRow()]);
+    const res = makeRes();
+    await resolveReports({
+      body: { targets: [{ targetType: 'survey', targetId: TARGET_ID }], decision: 'remove', note: 'Phishing' },
+      user: { id: 'mod-1' },
+    }, res);
+
+    expect(res.body.data.resolved).toEqual([{ targetType: 'survey', targetId: TARGET_ID }]);
+    expect(prismaMock.survey.updateMany.mock.calls[0][0].data.endDate).toBeInstanceOf(Date);
+    expect(prismaMock.contentReport.updateMany.mock.calls[0][0].data).toMatchObject({ status: 'removed', reviewedById: 'mod-1' });
+    expect(prismaMock.moderationAction.create.mock.calls[0][0].data).toMatchObject({
+      action: 'removed',
+      targetType: 'survey',
+      targetLabel: 'Tell us your PIN',
+      reason: 'Phishing',
+      reportCount: 2,
+    });
+  });
+
+  test('removing a response deletes it with its likes and replies; dismissing leaves it', async () => {
+    prismaMock.contentReport.count.mockImplementation(async () => 1);
+    const target = { targetType: 'response', targetId: TARGET_ID };
+
+    await resolveReports({ body: { targets: [target], decision: 'dismiss' }, user: { id: 'mod-1' } }, makeRes());
+    expect(prismaMock.response.deleteMany).not.toHaveBeenCalled();
+
+    await resolveReports({ body: { targets: [target], decision: 'remove' }, user: { id: 'mod-1' } }, makeRes());
+    expect(prismaMock.responseReply.deleteMany).toHaveBeenCalledWith({ where: { responseId: TARGET_ID } });
+    expect(prismaMock.response.deleteMany).toHaveBeenCalledWith({ where: { id: TARGET_ID } });
+  });
+
+  test('an item with no open reports is skipped', async () => {
+    const res = makeRes();
+    await resolveReports({
+      body: { targets: [{ targetType: 'video', targetId: TARGET_ID }], decision: 'dismiss' },
+      user: { id: 'mod-1' },
+    }, res);
+
+    expect(res.body.data).toEqual({
+      decision: 'dismiss',
+      resolved: [],
+      skipped: [{ targetType: 'video', targetId: TARGET_ID, message: 'No open reports' }],
+    });
+    expect(prismaMock.moderationAction.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('audit trail', () => {
+  test('names the moderator and pages by date', async () => {
+    const rows = Array.from({ length: 51 }, (_, i) => ({
+      id: `action-${i}`,
+      actorId: 'mod-1',
+      targetType: 'ad',
+      targetId: AD_ID,
+      action: 'approved',
+      targetLabel: 'Fresh juice',
+      reason: null,
+      reportCount: 0,
+      createdAt: new Date(Date.UTC(2026, 9, 18, 12, 0, 0) - i * 60_000),
+    }));
+    prismaMock.moderationAction.findMany.mockImplementation(async () => rows);
+    prismaMock.appUser.findMany.mockImplementation(async () => [{ id: 'mod-1', firstName: 'Ada', lastName: 'Nabirye', role: 'MODERATOR' }]);
+
+    const res = makeRes();
+    await getAuditTrail({ query: {} }, res);
+
+    expect(res.body.data.entries).toHaveLength(50);
+    expect(res.body.data.entries[0].actor).toEqual({ id: 'mod-1', name: 'Ada Nabirye', role: 'MODERATOR' });
+    expect(res.body.data.nextBefore).toBe(rows[49].createdAt.toISOString());
+
+    const bad = makeRes();
+    await getAuditTrail({ query: { before: 'yesterday' } }, bad);
+    expect(bad.statusCode).toBe(400);
+  });
+});
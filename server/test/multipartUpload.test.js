@@ -0,0 +1,196 @@
+/**
+ * Resumable multipart upload tests (lib/multipartUpload.mjs and the
+ * /api/r2/multipart/* handlers in controllers/r2UploadController.mjs).
+ *
+ * Locks:
+ *  - the part plan stays within R2's limits up to and past the premium cap
+ *  - only keys under the caller's own videos/<userId>/ prefix are accepted —
+ *    an uploadId from someone else's upload is useless
+ *  - complete refuses a part list with a gap, a repeat or a missing ETag
+ *  - create enforces the same type and tier size limits as presigned upload
+ *
+ * Only prisma is mocked — see the note in adSecurity.test.js. Every handler
+ * case below is rejected before R2 is touched.
+ */
+import { test, expect, mock, beforeEach, describe } from 'bun:test';
+import {
+  MULTIPART_LIMITS, planParts, isOwnedUploadKey, normalizePartNumbers, normalizeCompletedParts,
+} from '../lib/multipartUpload.mjs';
+
+const prismaMock = {
+  appUser: {
+    findUnique: mock(async () => ({ id: 'user-1', subscriptionStatus: 'INACTIVE' })),
+  },
+};
+
+mock.module('../lib/prisma.mjs', () => ({ default: prismaMock }));
+
+const {
+  createMultipartVideoUpload, signMultipartVideoParts, listMultipartVideoParts,
+  completeMultipartVideoUpload, abortMultipartVideoUpload,
+} = await import('../controllers/r2UploadController.mjs');
+
+function makeRes() {
+  return {
+    statusCode: 200,
+    body: null,
+    status(c) { this.statusCode = c; return this; },
+    json(b) { this.body = b; return this; },
+  };
+}
+
+const MB = 1024 * 1024;
+const OWN_KEY = 'videos/user-1/1700000000000_abc_clip.mp4';
+
+beforeEach(() => {
+  prismaMock.appUser.findUnique.mockReset();
+  prismaMock.appUser.findUnique.mockImplementation(async () => ({ id: 'user-1', subscriptionStatus: 'INACTIVE' }));
+});
+
+describe('planParts', () => {
+  test('uses 8MB parts for the premium cap', () => {
+    expect(planParts(500 * MB)).toEqual({ partSize: 8 * MB, partCount: 63 });
+    expect(planParts(8 * MB)).toEqual({ partSize: 8 * MB, partCount: 1 });
+    expect(planParts(8 * MB + 1).partCount).toBe(2);
+  });
+
+  test('grows the part size rather than exceed MAX_PARTS', () => {
+    const { partSize, partCount } = planParts(200 * 1024 * MB);
+    expect(partCount).toBeLessThanOrEqual(MULTIPART_LIMITS.MAX_PARTS);
+    expect(partSize % MB).toBe(0);
+  });
+});
+
+describe('isOwnedUploadKey', () => {
+  test('accepts keys generated for the caller', () => {
+    expect(isOwnedUploadKey(OWN_KEY, 'user-1', 'videos')).toBe(true);
+  });
+
+  test('rejects other users, other prefixes and traversal', () => {
+    expect(isOwnedUploadKey(OWN_KEY, 'user-2', 'videos')).toBe(false);
+    expect(isOwnedUploadKey('videos/user-10/x.mp4', 'user-1', 'videos')).toBe(false);
+    expect(isOwnedUploadKey('thumbnails/user-1/x.jpg', 'user-1', 'videos')).toBe(false);
+    expect(isOwnedUploadKey('videos/user-1/../user-2/x.mp4', 'user-1', 'videos')).toBe(false);
+    expect(isOwnedUploadKey('videos/user-1/', 'user-1', 'videos')).toBe(false);
+    expect(isOwnedUploadKey(42, 'user-1', 'videos')).toBe(false);
+  });
+});
+
+describe('normalizePartNumbers', () => {
+  test('dedupes and sorts', () => {
+    expect(normalizePartNumbers([3, '1', 3, 2])).toEqual([1, 2, 3]);
+  });
+
+  test('rejects bad numbers and oversized batches', () => {
+    expect(normalizePartNumbers([])).toBeNull();
+    expect(normalizePartNumbers([0])).toBeNull();
+    expect(normalizePartNumbers([1.5])).toBeNull();
+    expect(normalizePartNumbers([MULTIPART_LIMITS.MAX_PARTS + 1])).toBeNull();
+    expect(normalizePartNumbers(Array.from({ length: MULTIPART_LIMITS.SIGN_BATCH + 1 }, (_, i) => i + 1))).toBeNull();
+  });
+});
+
+describe('normalizeCompletedParts', () => {
+  test('sorts parts and strips ETag quotes', () => {
+    expect(normalizeCompletedParts([{ partNumber: 2, etag: '"b"' }, { partNumber: 1, etag: 'a' }])).toEqual([
+      { partNumber: 1, etag: 'a' },
+      { partNumber: 2, etag: 'b' },
+    ]);
+  });
+
+  test('rejects gaps, repeats and missing ETags', () => {
+    expect(normalizeCompletedParts([{ partNumber: 1, etag: 'a' }, { partNumber: 3, etag: 'c' }])).toBeNull();
+    expect(normalizeCompletedParts([{ partNumber: 1, etag: 'a' }, { partNumber: 1, etag: 'a' }])).toBeNull();
+    expect(normalizeCompletedParts([{ partNumber: 1, etag: '' }])).toBeNull();
+    expect(normalizeCompletedParts([])).toBeNull();
+    expect(normalizeCompletedParts('1,2')).toBeNull();
+  });
+});
+
+describe('createMultipartVideoUpload', () => {
+  const body = { fileName: 'clip.mp4', mimeType: 'video/mp4', fileSize: 100 * MB };
+
+  test('requires authentication', async () => {
+    const res = makeRes();
+    await createMultipartVideoUpload({ body, user: null }, res);
+    expect(res.statusCode).toBe(401);
+  });
+
+  test('requires a file size', async () => {
+    const res = makeRes();
+    await createMultipartVideoUpload({ body: { ...body, fileSize: undefined }, user: { id: 'user-1' } }, res);
+    expect(res.statusCode).toBe(400);
+    expect(res.body.error).toBe('MISSING_PARAMS');
+  });
+
+  test('rejects non-video types', async () => {
+    const res = makeRes();
+    await createMultipartVideoUpload({ body: { ...body, mimeType: 'application/pdf' }, user: { id: 'user-1' } }, res);
+    expect(res.statusCode).toBe(400);
+    expect(res.body.error).toBe('INVALID_FILE_TYPE');
+  });
+
+  test('holds free users to the free size limit', async () => {
+    const res = makeRes();
+    await createMultipartVideoUpload({ body, user: { id: 'user-1' } }, res);
+    expect(res.statusCode).toBe(413);
+    expect(res.body.upgradeRequired).toBe(true);
+  });
+
+  test('caps premium users at 500MB', async () => {
+    prismaMock.appUser.findUnique.mockImplementation(async () => ({ id: 'user-1', subscriptionStatus: 'ACTIVE' }));
+    const res = makeRes();
+    await createMultipartVideoUpload({ body: { ...body, fileSize: 501 * MB }, user: { id: 'user-1' } }, res);
+    expect(res.statusCode).toBe(413);
+    expect(res.body.upgradeRequired).toBe(false);
+  });
+});
+
+describe('multipart endpoints on an existing upload', () => {
+  const handlers = [
+    ['sign-parts', signMultipartVideoParts, 'POST', { partNumbers: [1] }],
+    ['parts', listMultipartVideoParts, 'GET', {}],
+    ['complete', completeMultipartVideoUpload, 'POST', { parts: [{ partNumber: 1, etag: 'a' }] }],
+    ['abort', abortMultipartVideoUpload, 'POST', {}],
+  ];
+
+  for (const [name, handler, method, extra] of handlers) {
+    test(`${name} refuses another user's key`, async () => {
+      const params = { key: OWN_KEY, uploadId: 'up-1', ...extra };
+      const req = method === 'GET'
+        ? { method, query: params, body: {}, user: { id: 'user-2' } }
+        : { method, body: params, query: {}, user: { id: 'user-2' } };
+      const res = makeRes();
+      await handler(req, res);
+      expect(res.statusCode).toBe(403);
+    });
+
+    test(`${name} requires key and uploadId`, async () => {
+      const req = { method, body: { key: OWN_KEY, ...extra }, query: { key: OWN_KEY }, user: { id: 'user-1' } };
+      const res = makeRes();
+      await handler(req, res);
+      expect(res.statusCode).toBe(400);
+    });
+  }
+
+  test('sign-parts rejects an oversized batch', async () => {
+    const res = makeRes();
+    const partNumbers = Array.from({ length: MULTIPART_LIMITS.SIGN_BATCH + 1 }, (_, i) => i + 1);
+    await signMultipartVideoParts(
+      { method: 'POST', body: { key: OWN_KEY, uploadId: 'up-1', partNumbers }, user: { id: 'user-1' } },
+      res
+    );
+    expect(res.statusCode).toBe(400);
+    expect(res.body.error).toBe('INVALID_PARTS');
+  });
+
+  test('complete rejects a part list with a gap', async () => {
+    const res = makeRes();
+    const parts = [{ partNumber: 1, etag: 'a' }, { partNumber: 3, etag: 'c' }];
+    await completeMultipartVideoUpload(
+      { method: 'POST', body: { key: OWN_KEY, uploadId: 'up-1', parts }, user: { id: 'user-1' } },
+      res
+    );
+    expect(res.statusCode).toBe(400);
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Offline download tests (lib/offlineDownloads.mjs and
+ * controllers/offlineDownloadController.mjs).
+ *
+ * Locks:
+ *  - only video premium (a running VIDEO payment, an active store
+ *    subscription, or an admin/moderator) gets a license — anyone else 403
+ *  - a copy expires with the paid-through date, never later than LICENSE_MAX_DAYS
+ *  - the file comes from the R2 key when there is one, else the stored URL
+ *  - every license carries a fresh content key
+ *
+ * Only prisma is mocked — see the note in adSecurity.test.js.
+ */
+import { test, expect, mock, beforeEach, describe } from 'bun:test';
+import {
+  OFFLINE_LIMITS,
+  licenseExpiresAt,
+  offlineSource,
+  videoPremiumStatus,
+} from '../lib/offlineDownloads.mjs';
+
+const prismaMock = {
+  appUser: {
+    findUnique: mock(async () => null),
+  },
+  payment: {
+    findFirst: mock(async () => null),
+  },
+  video: {
+    findUnique: mock(async () => null),
+  },
+};
+
+mock.module('../lib/prisma.mjs', () => ({ default: prismaMock }));
+
+const { createDownloadLicense, getDownloadEntitlement } = await import('../controllers/offlineDownloadController.mjs');
+
+function makeRes() {
+  return {
+    statusCode: 200,
+    body: null,
+    status(c) { this.statusCode = c; return this; },
+    json(b) { this.body = b; return this; },
+  };
+}
+
+const NOW = new Date('2026-10-18T12:00:00.000Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+const inDays = (days) => new Date(NOW.getTime() + days * DAY_MS);
+
+const freeUser = { role: 'USER', subscriptionStatus: 'INACTIVE', videoSubscriptionStatus: 'INACTIVE' };
+const videoRow = (overrides = {}) => ({
+  id: 'vid-1',
+  videoUrl: 'https://cdn.example/vid-1.mp4',
+  r2VideoKey: 'videos/user/vid-1.mp4',
+  videoSizeBytes: 52_428_800n,
+  videoMimeType: 'video/mp4',
+  ...overrides,
+});
+
+beforeEach(() => {
+  for (const model of Object.values(prismaMock)) {
+    for (const fn of Object.values(model)) fn.mockClear();
+  }
+  prismaMock.appUser.findUnique.mockImplementation(async () => freeUser);
+  prismaMock.payment.findFirst.mockImplementation(async () => null);
+  prismaMock.video.findUnique.mockImplementation(async () => videoRow());
+});
+
+describe('videoPremiumStatus', () => {
+  test('a running VIDEO payment is premium until its end date', () => {
+    expect(videoPremiumStatus(freeUser, { endDate: inDays(10) }, NOW)).toEqual({
+      active: true, premiumExpiresAt: inDays(10),
+    });
+  });
+
+  test('a store subscription is premium with no known end', () => {
+    expect(videoPremiumStatus({ ...freeUser, videoSubscriptionStatus: 'ACTIVE' }, null, NOW)).toEqual({
+      active: true, premiumExpiresAt: null,
+    });
+    expect(videoPremiumStatus({ ...freeUser, subscriptionStatus: 'ACTIVE' }, null, NOW).active).toBe(true);
+  });
+
+  test('admins and moderators always have it; free users and a lapsed payment do not', () => {
+    expect(videoPremiumStatus({ ...freeUser, role: 'ADMIN' }, null, NOW).active).toBe(true);
+    expect(videoPremiumStatus({ ...freeUser, role: 'MODERATOR' }, null, NOW).active).toBe(true);
+    expect(videoPremiumStatus(freeUser, null, NOW).active).toBe(false);
+    expect(videoPremiumStatus(freeUser, { endDate: inDays(-1) }, NOW).active).toBe(false);
+    expect(videoPremiumStatus(null, null, NOW).active).toBe(false);
+  });
+});
+
+describe('licenseExpiresAt', () => {
+  test('expires with the subscription when that comes first', () => {
+    expect(licenseExpiresAt(inDays(3), NOW)).toEqual(inDays(3));
+  });
+
+  test('never lasts longer than LICENSE_MAX_DAYS, or that long with no known end', () => {
+    const cap = inDays(OFFLINE_LIMITS.LICENSE_MAX_DAYS);
+    expect(licenseExpiresAt(inDays(365), NOW)).toEqual(cap);
+    expect(licenseExpiresAt(null, NOW)).toEqual(cap);
+  });
+});
+
+describe('offlineSource', () => {
+  test('prefers the R2 key, falling back to the stored URL', () => {
+    expect(offlineSource(videoRow())).toEqual({ storageKey: 'videos/user/vid-1.mp4', url: null });
+    expect(offlineSource(videoRow({ r2VideoKey: null }))).toEqual({
+      storageKey: null, url: 'https://cdn.example/vid-1.mp4',
+    });
+  });
+
+  test('ignores a bare livestream prefix key and has nothing for a video with no file', () => {
+    expect(offlineSource(videoRow({ r2VideoKey: 'livestreams/abc' })).storageKey).toBeNull();
+    expect(offlineSource(videoRow({ r2VideoKey: null, videoUrl: '' }))).toBeNull();
+  });
+});
+
+describe('download endpoints', () => {
+  test('refuse a caller without video premium', async () => {
+    const res = makeRes();
+    await createDownloadLicense({ user: { id: 'u1' }, params: { id: 'vid-1' } }, res);
+    expect(res.statusCode).toBe(403);
+    expect(res.body.code).toBe('PREMIUM_REQUIRED');
+    expect(prismaMock.video.findUnique).not.toHaveBeenCalled();
+
+    const entitlement = makeRes();
+    await getDownloadEntitlement({ user: { id: 'u1' } }, entitlement);
+    expect(entitlement.statusCode).toBe(403);
+  });
+
+  test('license a video with a fresh content key each time', async () => {
+    prismaMock.payment.findFirst.mockImplementation(async () => ({ endDate: new Date(Date.now() + 5 * DAY_MS) }));
+    const first = makeRes();
+    const second = makeRes();
+    await createDownloadLicense({ user: { id: 'u1' }, params: { id: 'vid-1' } }, first);
+    await createDownloadLicense({ user: { id: 'u1' }, params: { id: 'vid-1' } }, second);
+
+    expect(first.statusCode).toBe(200);
+    expect(first.body.data).toMatchObject({
+      videoId: 'vid-1', storageKey: 'videos/user/vid-1.mp4', url: null, sizeBytes: 52_428_800, mimeType: 'video/mp4',
+    });
+    expect(Buffer.from(first.body.data.contentKey, 'base64')).toHaveLength(OFFLINE_LIMITS.CONTENT_KEY_BYTES);
+    expect(first.body.data.contentKey).not.toBe(second.body.data.contentKey);
+    expect(new Date(first.body.data.expiresAt).getTime()).toBeLessThanOrEqual(Date.now() + 5 * DAY_MS);
+  });
+
+  test('404 for a missing video and 409 for one with nothing to download', async () => {
+    prismaMock.appUser.findUnique.mockImplementation(async () => ({ ...freeUser, videoSubscriptionStatus: 'ACTIVE' }));
+
+    prismaMock.video.findUnique.mockImplementation(async () => null);
+    const missing = makeRes();
+    await createDownloadLicense({ user: { id: 'u1' }, params: { id: 'gone' } }, missing);
+    expect(missing.statusCode).toBe(404);
+
+    prismaMock.video.findUnique.mockImplementation(async () => videoRow({ r2VideoKey: null, videoUrl: '' }));
+    const empty = makeRes();
+    await createDownloadLicense({ user: { id: 'u1' }, params: { id: 'vid-1' } }, empty);
+    expect(empty.statusCode).toBe(409);
+  });
+
+  test('report how long downloads may be kept', async () => {
+    prismaMock.appUser.findUnique.mockImplementation(async () => ({ ...freeUser, videoSubscriptionStatus: 'ACTIVE' }));
+    const res = makeRes();
+    await getDownloadEntitlement({ user: { id: 'u1' } }, res);
+    expect(res.body.data.hasVideoPremium).toBe(true);
+    expect(res.body.data.premiumExpiresAt).toBeNull();
+    const days = (new Date(res.body.data.expiresAt).getTime() - Date.now()) / DAY_MS;
+    expect(Math.round(days)).toBe(OFFLINE_LIMITS.LICENSE_MAX_DAYS);
+  });
+});
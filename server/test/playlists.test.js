@@ -0,0 +1,266 @@
+/**
+ * Playlists, series and collections tests (lib/playlists.mjs and
+ * controllers/playlistController.mjs).
+ *
+ * Locks:
+ *  - playlist input is trimmed, ids de-duplicated in order, and partial
+ *    updates only touch the fields they name
+ *  - a series writes "Part n of N" onto its videos and clears it from videos
+ *    it no longer holds; a video is part of at most one series
+ *  - playlists only hold the creator's own videos, and only the creator edits them
+ *  - saving into a collection bookmarks the video; collections are per user
+ *
+ * Only prisma is mocked — see the note in adSecurity.test.js. The videos
+ * below have no R2 keys, so nothing is signed.
+ */
+import { test, expect, mock, beforeEach, describe } from 'bun:test';
+import {
+  NO_SERIES,
+  normalizeCollectionName,
+  normalizePlaylistInput,
+  normalizeVideoIds,
+  parseSavedPage,
+  seriesConflicts,
+  seriesFields,
+  seriesPayload,
+  syncSeries,
+} from '../lib/playlists.mjs';
+
+const prismaMock = {
+  $transaction: mock(async (ops) => Promise.all(ops)),
+  video: {
+    findMany: mock(async () => []),
+    update: mock(async (args) => ({ op: 'update', ...args })),
+    updateMany: mock(async (args) => ({ op: 'updateMany', ...args })),
+  },
+  videoPlaylist: {
+    findUnique: mock(async () => null),
+    findMany: mock(async () => []),
+    count: mock(async () => 0),
+    create: mock(async () => null),
+    update: mock(async () => ({})),
+    delete: mock(async () => ({})),
+  },
+  videoPlaylistItem: {
+    deleteMany: mock(async () => ({ count: 0 })),
+    createMany: mock(async () => ({ count: 0 })),
+  },
+  videoBookmark: {
+    findMany: mock(async () => []),
+    upsert: mock(async () => ({})),
+  },
+  videoCollection: {
+    findUnique: mock(async () => null),
+    update: mock(async () => ({})),
+  },
+};
+
+mock.module('../lib/prisma.mjs', () => ({ default: prismaMock }));
+
+const {
+  createPlaylist,
+  deletePlaylist,
+  getCreatorPlaylists,
+  saveToCollection,
+  updatePlaylist,
+} = await import('../controllers/playlistController.mjs');
+const { formatVideoResponse } = await import('../controllers/videoController.mjs');
+
+function makeRes() {
+  return {
+    statusCode: 200,
+    body: null,
+    status(c) { this.statusCode = c; return this; },
+    json(b) { this.body = b; return this; },
+  };
+}
+
+const NOW = new Date('2026-10-18T12:00:00.000Z');
+
+const playlistRow = (overrides = {}) => ({
+  id: 'pl-1', userId: 'creator', title: 'Budget meals', description: null, kind: 'playlist',
+  createdAt: NOW, updatedAt: NOW, items: [], ...overrides,
+});
+
+beforeEach(() => {
+  prismaMock.$transaction.mockClear();
+  for (const model of ['video', 'videoPlaylist', 'videoPlaylistItem', 'videoBookmark', 'videoCollection']) {
+    for (const fn of Object.values(prismaMock[model])) fn.mockClear();
+  }
+  prismaMock.video.findMany.mockImplementation(async () => []);
+  prismaMock.videoPlaylist.findUnique.mockImplementation(async () => null);
+  prismaMock.videoPlaylist.count.mockImplementation(async () => 0);
+  prismaMock.videoCollection.findUnique.mockImplementation(async () => null);
+});
+
+describe('input', () => {
+  test('a playlist is trimmed, defaults to kind playlist and keeps the first of repeated ids', () => {
+    expect(normalizePlaylistInput({ title: '  Budget   meals ', videoIds: ['a', 'b', 'a'] })).toEqual({
+      input: { title: 'Budget meals', kind: 'playlist', videoIds: ['a', 'b'] },
+    });
+    expect(normalizePlaylistInput({ title: '' }).error).toMatch(/title/);
+    expect(normalizePlaylistInput({ title: 'x', kind: 'album' }).error).toMatch(/kind/);
+    expect(normalizePlaylistInput({ title: 'x', videoIds: 'a' }).error).toMatch(/videoIds/);
+    expect(normalizeVideoIds(Array.from({ length: 101 }, (_, i) => `v${i}`))).toBeNull();
+  });
+
+  test('a partial update only names the fields it changes, and a blank description clears it', () => {
+    expect(normalizePlaylistInput({ description: '  ' }, { partial: true })).toEqual({ input: { description: null } });
+    expect(normalizePlaylistInput({ kind: 'series' }, { partial: true })).toEqual({ input: { kind: 'series' } });
+  });
+
+  test('collection names and saved-video pages', () => {
+    expect(normalizeCollectionName('  Watch   later ')).toBe('Watch later');
+    expect(normalizeCollectionName('')).toBeNull();
+    expect(normalizeCollectionName('x'.repeat(41))).toBeNull();
+    expect(parseSavedPage({})).toEqual({ before: null, limit: 30 });
+    expect(parseSavedPage({ limit: '500' }).limit).toBe(50);
+    expect(parseSavedPage({ before: 'yesterday' })).toBeNull();
+  });
+});
+
+describe('series', () => {
+  test('part numbers are 1-based and feeds get them back as { id, title, part, parts }', () => {
+    const fields = seriesFields('pl-1', 'Budget meals', 1, 5);
+    expect(fields).toEqual({ seriesId: 'pl-1', seriesTitle: 'Budget meals', seriesPart: 2, seriesParts: 5 });
+    expect(seriesPayload(fields)).toEqual({ id: 'pl-1', title: 'Budget meals', part: 2, parts: 5 });
+    expect(seriesPayload(NO_SERIES)).toBeNull();
+  });
+
+  test('only another series counts as a conflict', () => {
+    const videos = [{ id: 'a', seriesId: null }, { id: 'b', seriesId: 'pl-1' }, { id: 'c', seriesId: 'pl-2' }];
+    expect(seriesConflicts(videos)).toEqual(['b', 'c']);
+    expect(seriesConflicts(videos, 'pl-1')).toEqual(['c']);
+  });
+
+  test('syncSeries numbers the parts in order and clears videos no longer in it', async () => {
+    await syncSeries(prismaMock, 'pl-1', { title: 'Budget meals', videoIds: ['b', 'a'] });
+
+    expect(prismaMock.video.updateMany).toHaveBeenCalledWith({
+      where: { seriesId: 'pl-1', id: { notIn: ['b', 'a'] } }, data: NO_SERIES,
+    });
+    expect(prismaMock.video.update.mock.calls.map(([args]) => [args.where.id, args.data.seriesPart, args.data.seriesParts]))
+      .toEqual([['b', 1, 2], ['a', 2, 2]]);
+  });
+
+  test('a video in a series carries it in the shared response shape', () => {
+    const video = {
+      id: 'a', userId: 'creator', createdAt: NOW, updatedAt: NOW,
+      seriesId: 'pl-1', seriesTitle: 'Budget meals', seriesPart: 1, seriesParts: 3,
+    };
+    expect(formatVideoResponse(video, { videoUrl: null, thumbnail: null }).series)
+      .toEqual({ id: 'pl-1', title: 'Budget meals', part: 1, parts: 3 });
+    expect(formatVideoResponse({ ...video, ...NO_SERIES }, { videoUrl: null, thumbnail: null }).series).toBeNull();
+  });
+});
+
+describe('playlists', () => {
+  test('only the creator\'s own videos can be added', async () => {
+    prismaMock.video.findMany.mockImplementation(async () => [
+      { id: 'a', userId: 'creator', seriesId: null },
+      { id: 'b', userId: 'someone-else', seriesId: null },
+    ]);
+    const res = makeRes();
+    await createPlaylist({ user: { id: 'creator' }, body: { title: 'Mine', videoIds: ['a', 'b'] } }, res);
+
+    expect(res.statusCode).toBe(400);
+    expect(prismaMock.videoPlaylist.create).not.toHaveBeenCalled();
+  });
+
+  test('a series refuses videos already part of another series', async () => {
+    prismaMock.video.findMany.mockImplementation(async () => [
+      { id: 'a', userId: 'creator', seriesId: 'pl-other' },
+      { id: 'b', userId: 'creator', seriesId: null },
+    ]);
+    const res = makeRes();
+    await createPlaylist({ user: { id: 'creator' }, body: { title: 'Series', kind: 'series', videoIds: ['a', 'b'] } }, res);
+
+    expect(res.statusCode).toBe(409);
+    expect(res.body.videoIds).toEqual(['a']);
+  });
+
+  test('creating a series numbers its parts', async () => {
+    prismaMock.video.findMany.mockImplementation(async () => [
+      { id: 'a', userId: 'creator', seriesId: null },
+      { id: 'b', userId: 'creator', seriesId: null },
+    ]);
+    prismaMock.videoPlaylist.create.mockImplementation(async ({ data }) => playlistRow({ ...data, id: 'pl-1' }));
+    const res = makeRes();
+    await createPlaylist({ user: { id: 'creator' }, body: { title: 'Series', kind: 'series', videoIds: ['b', 'a'] } }, res);
+
+    expect(res.statusCode).toBe(201);
+    expect(prismaMock.videoPlaylist.create.mock.calls[0][0].data.items.create)
+      .toEqual([{ videoId: 'b', position: 0 }, { videoId: 'a', position: 1 }]);
+    expect(prismaMock.video.update.mock.calls.map(([args]) => [args.where.id, args.data.seriesPart]))
+      .toEqual([['b', 1], ['a', 2]]);
+  });
+
+  test('only the creator can edit a playlist', async () => {
+    prismaMock.videoPlaylist.findUnique.mockImplementation(async () => playlistRow());
+    const res = makeRes();
+    await updatePlaylist({ user: { id: 'viewer' }, params: { playlistId: 'pl-1' }, body: { title: 'Mine now' } }, res);
+
+    expect(res.statusCode).toBe(403);
+    expect(prismaMock.videoPlaylist.update).not.toHaveBeenCalled();
+  });
+
+  test('turning a series back into a playlist clears the part numbers', async () => {
+    prismaMock.videoPlaylist.findUnique.mockImplementation(async () => playlistRow({
+      kind: 'series',
+      items: [{ videoId: 'a', video: { id: 'a', userId: 'creator', createdAt: NOW, updatedAt: NOW } }],
+    }));
+    prismaMock.video.findMany.mockImplementation(async () => [{ id: 'a', userId: 'creator', seriesId: 'pl-1' }]);
+    const res = makeRes();
+    await updatePlaylist({ user: { id: 'creator' }, params: { playlistId: 'pl-1' }, body: { kind: 'playlist' } }, res);
+
+    expect(prismaMock.videoPlaylist.update.mock.calls[0][0].data).toMatchObject({ kind: 'playlist' });
+    expect(prismaMock.videoPlaylistItem.deleteMany).not.toHaveBeenCalled();
+    expect(prismaMock.video.updateMany).toHaveBeenCalledWith({
+      where: { seriesId: 'pl-1', id: { notIn: [] } }, data: NO_SERIES,
+    });
+  });
+
+  test('deleting a series clears it from its videos', async () => {
+    prismaMock.videoPlaylist.findUnique.mockImplementation(async () => playlistRow({ kind: 'series' }));
+    const res = makeRes();
+    await deletePlaylist({ user: { id: 'creator' }, params: { playlistId: 'pl-1' } }, res);
+
+    expect(prismaMock.videoPlaylist.delete).toHaveBeenCalledWith({ where: { id: 'pl-1' } });
+    expect(prismaMock.video.updateMany).toHaveBeenCalledTimes(1);
+  });
+
+  test('empty playlists are only listed for their owner', async () => {
+    await getCreatorPlaylists({ params: { userId: 'creator' } }, makeRes());
+    await getCreatorPlaylists({ user: { id: 'creator' }, params: { userId: 'creator' } }, makeRes());
+
+    const [viewer, owner] = prismaMock.videoPlaylist.findMany.mock.calls.map(([args]) => args.where);
+    expect(viewer).toEqual({ userId: 'creator', items: { some: {} } });
+    expect(owner).toEqual({ userId: 'creator' });
+  });
+});
+
+describe('collections', () => {
+  test('saving into a collection bookmarks the video', async () => {
+    prismaMock.video.findUnique = mock(async () => ({ id: 'a' }));
+    prismaMock.videoCollection.findUnique.mockImplementation(async () => ({ id: 'col-1', userId: 'viewer' }));
+    const res = makeRes();
+    await saveToCollection({ user: { id: 'viewer' }, params: { id: 'a' }, body: { collectionId: 'col-1' } }, res);
+
+    expect(prismaMock.videoBookmark.upsert).toHaveBeenCalledWith({
+      where: { userId_videoId: { userId: 'viewer', videoId: 'a' } },
+      create: { userId: 'viewer', videoId: 'a', collectionId: 'col-1' },
+      update: { collectionId: 'col-1' },
+    });
+    expect(res.body.data).toEqual({ videoId: 'a', isBookmarked: true, collectionId: 'col-1' });
+  });
+
+  test('someone else\'s collection is not found', async () => {
+    prismaMock.video.findUnique = mock(async () => ({ id: 'a' }));
+    prismaMock.videoCollection.findUnique.mockImplementation(async () => ({ id: 'col-1', userId: 'owner' }));
+    const res = makeRes();
+    await saveToCollection({ user: { id: 'viewer' }, params: { id: 'a' }, body: { collectionId: 'col-1' } }, res);
+
+    expect(res.statusCode).toBe(404);
+    expect(prismaMock.videoBookmark.upsert).not.toHaveBeenCalled();
+  });
+});
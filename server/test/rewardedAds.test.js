@@ -0,0 +1,357 @@
+/**
+ * Rewarded ad tests (lib/rewardedAds.mjs, controllers/rewardedAdController.mjs).
+ *
+ * Locks:
+ *  - a completion token is only good for the user it was issued to, after the
+ *    ad has had time to play (its stored length, at least the minimum) and
+ *    before it expires, and any edit breaks it
+ *  - the daily cap from AppConfig stops starting (counting views still open)
+ *    and claiming, including claims sent at the same time
+ *  - a view pays once — a second claim with the same token is refused
+ *  - the claim credits the user's points and returns the new balance
+ *  - without a signing secret, start refuses rather than hand out a token
+ *    that can never verify
+ *  - the claim route sits behind Play Integrity: an Android claim with no
+ *    integrity token is refused, an iOS claim goes through
+ *
+ * Only prisma, the reward config and the event bus are mocked. The mocked
+ * transaction undoes the day counter on rollback, as the database would.
+ */
+import { test, expect, mock, beforeEach, describe } from 'bun:test';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+
+process.env.REWARDED_AD_SECRET = 'test-rewarded-secret';
+
+const {
+  REWARDED_LIMITS,
+  pickRewardedAd,
+  rewardedAllowance,
+  signCompletionToken,
+  verifyCompletionToken,
+} = await import('../lib/rewardedAds.mjs');
+
+const USER = '11111111-1111-4111-8111-111111111111';
+const OTHER = '22222222-2222-4222-8222-222222222222';
+const AD = '33333333-3333-4333-8333-333333333333';
+const VIEW = '44444444-4444-4444-8444-444444444444';
+
+const config = { rewardedAdPoints: 5, rewardedAdDailyCap: 3 };
+
+const views = new Map();
+// RewardedAdDay rows, keyed by user and day
+const days = new Map();
+const dayKey = ({ userId, day }) => `${userId}|${day.toISOString()}`;
+const findDay = mock(async ({ where }) => days.get(dayKey(where.userId_day)) ?? null);
+
+let balance = 100;
+const txMock = {
+  rewardedAdDay: {
+    createMany: mock(async ({ data }) => {
+      for (const row of data) if (!days.has(dayKey(row))) days.set(dayKey(row), { ...row, credited: 0 });
+      return { count: 1 };
+    }),
+    // The conditional increment — check and write in one step, like the UPDATE
+    updateMany: mock(async ({ where }) => {
+      const row = days.get(dayKey(where));
+      if (!row || row.credited >= where.credited.lt) return { count: 0 };
+      row.credited += 1;
+      return { count: 1 };
+    }),
+    findUnique: findDay,
+  },
+  rewardedAdView: {
+    updateMany: mock(async ({ where }) => {
+      const view = views.get(where.id);
+      if (!view || view.status !== where.status || view.userId !== where.userId) return { count: 0 };
+      view.status = 'credited';
+      return { count: 1 };
+    }),
+    findUnique: mock(async ({ where }) => views.get(where.id)),
+  },
+  reward: { create: mock(async (args) => args.data) },
+  appUser: {
+    update: mock(async ({ data }) => {
+      balance += data.points.increment;
+      return { points: balance };
+    }),
+  },
+};
+const prismaMock = {
+  ad: { findMany: mock(async () => []) },
+  rewardedAdDay: { findUnique: findDay },
+  rewardedAdView: {
+    count: mock(async () => 0),
+    groupBy: mock(async () => []),
+    create: mock(async (args) => ({ id: VIEW, ...args.data })),
+  },
+  // A throw rolls back: undo this transaction's counter increment
+  $transaction: mock(async (fn) => {
+    const counted = [];
+    const tx = {
+      ...txMock,
+      rewardedAdDay: {
+        ...txMock.rewardedAdDay,
+        updateMany: async (args) => {
+          const result = await txMock.rewardedAdDay.updateMany(args);
+          if (result.count) counted.push(dayKey(args.where));
+          return result;
+        },
+      },
+    };
+    try {
+      return await fn(tx);
+    } catch (error) {
+      for (const key of counted) days.get(key).credited -= 1;
+      throw error;
+    }
+  }),
+};
+
+mock.module('../lib/prisma.mjs', () => ({ default: prismaMock }));
+mock.module('../lib/eventBus.mjs', () => ({ publishEvent: async () => {} }));
+mock.module('../lib/rewardConfig.mjs', () => ({
+  getRewardConfig: async () => config,
+  invalidateRewardConfigCache: () => {},
+  pointsToUgx: (p, c) => Math.floor((p * c.pointsToCashNumerator) / c.pointsToCashDenominator),
+  ugxToPoints: (u, c) => Math.ceil((u * c.pointsToCashDenominator) / c.pointsToCashNumerator),
+}));
+
+const { claimRewardedAd, startRewardedAd } = await import('../controllers/rewardedAdController.mjs');
+const { default: adRoutes } = await import('../routes/AdRoutes.mjs');
+
+function makeRes() {
+  return {
+    statusCode: 200,
+    body: null,
+    status(c) { this.statusCode = c; return this; },
+    json(b) { this.body = b; return this; },
+  };
+}
+
+const SECRET = 'test-rewarded-secret';
+const watched = () => Date.now() - REWARDED_LIMITS.MIN_WATCH_MS - 1000;
+const token = (overrides = {}) =>
+  signCompletionToken({ viewId: VIEW, userId: USER, adId: AD, issuedAt: watched(), ...overrides }, SECRET);
+
+const adRow = (overrides = {}) => ({
+  id: AD,
+  title: 'Fresh juice',
+  description: 'Cold-pressed daily',
+  headline: null,
+  imageUrl: null,
+  videoUrl: 'https://cdn.example/juice.mp4',
+  thumbnailUrl: null,
+  targetUrl: null,
+  callToAction: 'shop_now',
+  placement: 'rewarded',
+  type: 'regular',
+  userId: OTHER,
+  isActive: true,
+  priority: 5,
+  r2ImageKey: null,
+  r2VideoKey: null,
+  createdAt: new Date('2026-10-18T12:00:00.000Z'),
+  updatedAt: new Date('2026-10-18T12:00:00.000Z'),
+  ...overrides,
+});
+
+const today = () => {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+};
+const creditToday = (credited) => days.set(dayKey({ userId: USER, day: today() }), { userId: USER, day: today(), credited });
+
+beforeEach(() => {
+  views.clear();
+  days.clear();
+  balance = 100;
+  views.set(VIEW, { id: VIEW, userId: USER, adId: AD, points: 5, status: 'started' });
+  txMock.appUser.update.mockClear();
+  txMock.reward.create.mockClear();
+  txMock.rewardedAdDay.updateMany.mockClear();
+  prismaMock.rewardedAdView.count.mockImplementation(async () => 0);
+  prismaMock.rewardedAdView.create.mockClear();
+  prismaMock.ad.findMany.mockImplementation(async () => [adRow()]);
+});
+
+describe('completion token', () => {
+  test('verifies for its user once the ad has had time to play', () => {
+    expect(verifyCompletionToken(token(), SECRET, { userId: USER })).toMatchObject({ ok: true, viewId: VIEW, adId: AD });
+    expect(verifyCompletionToken(token(), SECRET, { userId: OTHER }).reason).toBe('wrong_user');
+    expect(verifyCompletionToken(token({ issuedAt: Date.now() - 2000 }), SECRET, { userId: USER }).reason).toBe('too_early');
+    expect(verifyCompletionToken(token({ issuedAt: Date.now() - REWARDED_LIMITS.MIN_WATCH_MS - REWARDED_LIMITS.TOKEN_TTL_MS - 1 }), SECRET, { userId: USER }).reason)
+      .toBe('expired');
+  });
+
+  test("a long ad isn't done until its own length has passed", () => {
+    const long = token({ issuedAt: Date.now() - 20_000, watchMs: 60_000 });
+    expect(verifyCompletionToken(long, SECRET, { userId: USER }).reason).toBe('too_early');
+    expect(verifyCompletionToken(long, SECRET, { userId: USER, now: Date.now() + 41_000 }).ok).toBe(true);
+  });
+
+  test('any edit or another secret breaks it', () => {
+    const [body, signature] = token().split('.');
+    const forged = Buffer.from(JSON.stringify({ ...JSON.parse(Buffer.from(body, 'base64url')), u: OTHER })).toString('base64url');
+    expect(verifyCompletionToken(`${forged}.${signature}`, SECRET, { userId: OTHER }).reason).toBe('bad_signature');
+    expect(verifyCompletionToken(token(), 'another-secret', { userId: USER }).reason).toBe('bad_signature');
+    expect(verifyCompletionToken('junk', SECRET, { userId: USER }).reason).toBe('malformed');
+    expect(verifyCompletionToken(undefined, SECRET, { userId: USER }).reason).toBe('malformed');
+  });
+});
+
+describe('allowance and ad choice', () => {
+  test('counts down to the daily cap, and a cap of 0 switches it off', () => {
+    expect(rewardedAllowance(config, 1)).toEqual({ points: 5, dailyCap: 3, creditedToday: 1, remaining: 2 });
+    expect(rewardedAllowance(config, 4).remaining).toBe(0);
+    expect(rewardedAllowance({ rewardedAdPoints: 5, rewardedAdDailyCap: 0 }, 0).remaining).toBe(0);
+  });
+
+  test('picks a video ad the viewer has seen least today', () => {
+    const a = adRow({ id: 'a' });
+    const b = adRow({ id: 'b' });
+    const still = adRow({ id: 'still', videoUrl: null, imageUrl: 'https://cdn.example/x.jpg' });
+    expect(pickRewardedAd([still, a, b])?.id).toBe('a');
+    expect(pickRewardedAd([a, b], { a: 2, b: 1 })?.id).toBe('b');
+    expect(pickRewardedAd([still])).toBeNull();
+  });
+});
+
+describe('controllers', () => {
+  test('start hands out an ad with a token, until the cap is reached', async () => {
+    const res = makeRes();
+    await startRewardedAd({ user: { id: USER } }, res);
+    expect(res.statusCode).toBe(201);
+    expect(res.body.data).toMatchObject({ points: 5, minWatchSeconds: 15, ad: { id: AD, videoUrl: 'https://cdn.example/juice.mp4' } });
+    expect(verifyCompletionToken(res.body.data.token, SECRET, { userId: USER, now: Date.now() + REWARDED_LIMITS.MIN_WATCH_MS }))
+      .toMatchObject({ ok: true, viewId: VIEW });
+
+    creditToday(3);
+    const capped = makeRes();
+    await startRewardedAd({ user: { id: USER } }, capped);
+    expect(capped.statusCode).toBe(429);
+    expect(capped.body.error).toBe('DAILY_CAP');
+  });
+
+  test('views still open hold their slots under the cap', async () => {
+    creditToday(1);
+    prismaMock.rewardedAdView.count.mockImplementation(async () => 2);
+    const res = makeRes();
+    await startRewardedAd({ user: { id: USER } }, res);
+    expect(res.statusCode).toBe(429);
+    expect(res.body.error).toBe('VIEWS_OPEN');
+    expect(prismaMock.rewardedAdView.create).not.toHaveBeenCalled();
+    expect(prismaMock.rewardedAdView.count.mock.calls.at(-1)[0].where).toMatchObject({ userId: USER, status: 'started' });
+  });
+
+  test("a long ad's token waits for its stored length", async () => {
+    prismaMock.ad.findMany.mockImplementation(async () => [adRow({ videoDurationSeconds: 60 })]);
+    const res = makeRes();
+    await startRewardedAd({ user: { id: USER } }, res);
+    expect(res.body.data.minWatchSeconds).toBe(60);
+    expect(verifyCompletionToken(res.body.data.token, SECRET, { userId: USER, now: Date.now() + 30_000 }).reason)
+      .toBe('too_early');
+  });
+
+  test('start is unavailable without a signing secret', async () => {
+    const saved = { rewarded: process.env.REWARDED_AD_SECRET, jwt: process.env.JWT_SECRET };
+    delete process.env.REWARDED_AD_SECRET;
+    delete process.env.JWT_SECRET;
+    try {
+      const res = makeRes();
+      await startRewardedAd({ user: { id: USER } }, res);
+      expect(res.statusCode).toBe(503);
+      expect(res.body.error).toBe('REWARDED_UNAVAILABLE');
+      expect(prismaMock.rewardedAdView.create).not.toHaveBeenCalled();
+    } finally {
+      process.env.REWARDED_AD_SECRET = saved.rewarded;
+      if (saved.jwt !== undefined) process.env.JWT_SECRET = saved.jwt;
+    }
+  });
+
+  test('claim pays once and returns the new balance', async () => {
+    const req = { user: { id: USER, email: 'viewer@example.com' }, body: { token: token() } };
+    const res = makeRes();
+    await claimRewardedAd(req, res);
+    expect(res.statusCode).toBe(200);
+    expect(res.body.data).toMatchObject({ earned: 5, balance: 105, remaining: 2 });
+    expect(txMock.reward.create).toHaveBeenCalledWith({
+      data: { userEmail: 'viewer@example.com', points: 5, description: 'rewarded_ad' },
+    });
+    expect(txMock.appUser.update.mock.calls[0][0].data).toEqual({ points: { increment: 5 } });
+
+    const again = makeRes();
+    await claimRewardedAd(req, again);
+    expect(again.statusCode).toBe(409);
+    expect(txMock.appUser.update).toHaveBeenCalledTimes(1);
+    // The refused claim's counter increment rolled back
+    expect(days.get(dayKey({ userId: USER, day: today() })).credited).toBe(1);
+  });
+
+  test('claims sent at the same time never pass the cap', async () => {
+    const ids = ['v1', 'v2', 'v3', 'v4', 'v5'];
+    for (const id of ids) views.set(id, { id, userId: USER, adId: AD, points: 5, status: 'started' });
+    const results = ids.map(() => makeRes());
+    await Promise.all(ids.map((id, i) =>
+      claimRewardedAd({ user: { id: USER, email: 'viewer@example.com' }, body: { token: token({ viewId: id }) } }, results[i])));
+
+    expect(results.filter((r) => r.statusCode === 200)).toHaveLength(3);
+    expect(results.filter((r) => r.statusCode === 429)).toHaveLength(2);
+    expect(txMock.appUser.update).toHaveBeenCalledTimes(3);
+    expect(balance).toBe(115);
+    expect(txMock.rewardedAdDay.updateMany.mock.calls[0][0].where).toMatchObject({ userId: USER, credited: { lt: 3 } });
+  });
+
+  test('claim refuses early, foreign and over-cap completions', async () => {
+    const early = makeRes();
+    await claimRewardedAd({ user: { id: USER }, body: { token: token({ issuedAt: Date.now() }) } }, early);
+    expect(early.statusCode).toBe(400);
+    expect(early.body.reason).toBe('too_early');
+
+    const foreign = makeRes();
+    await claimRewardedAd({ user: { id: OTHER }, body: { token: token() } }, foreign);
+    expect(foreign.body.reason).toBe('wrong_user');
+
+    creditToday(3);
+    const capped = makeRes();
+    await claimRewardedAd({ user: { id: USER }, body: { token: token() } }, capped);
+    expect(capped.statusCode).toBe(429);
+    expect(views.get(VIEW).status).toBe('started');
+    expect(txMock.appUser.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('route', () => {
+  const claimOver = async (platform) => {
+    process.env.JWT_SECRET ||= 'test-jwt-secret';
+    const app = express();
+    app.use(express.json());
+    app.use('/api/ads', adRoutes);
+    app.use((err, req, res, _next) => res.status(err.statusCode || 500).json({ message: err.message }));
+    const server = app.listen(0);
+    try {
+      const auth = jwt.sign({ id: USER, email: 'viewer@example.com' }, process.env.JWT_SECRET);
+      const res = await fetch(`http://127.0.0.1:${server.address().port}/api/ads/rewarded/claim`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${auth}`, 'X-Client-Platform': platform },
+        body: JSON.stringify({ token: token() }),
+      });
+      return { status: res.status, body: await res.json() };
+    } finally {
+      server.close();
+    }
+  };
+
+  test('an Android claim with no integrity token is refused before it pays', async () => {
+    const res = await claimOver('android');
+    expect(res.status).toBe(403);
+    expect(res.body.error).toBe('INTEGRITY_FAILED');
+    expect(txMock.appUser.update).not.toHaveBeenCalled();
+  });
+
+  test('an iOS claim skips the integrity check', async () => {
+    const res = await claimOver('ios');
+    expect(res.status).toBe(200);
+    expect(res.body.data).toMatchObject({ earned: 5, balance: 105 });
+  });
+});
@@ -3,12 +3,15 @@
  *
  * Locks the creation-PR-2 import behaviour:
  *  - Question types are NORMALIZED through the shared vocabulary on import
- *    (multiple_choice→radio, textarea→paragraph, nps/slider→rating), matching
+ *    (multiple_choice→radio, textarea→paragraph, slider→rating), matching
  *    the creation paths — previously import had its own list and coerced legacy
  *    aliases to "text".
- *  - Real .xlsx (binary) is rejected with a clear message (there is no
- *    spreadsheet parser — the client no longer offers Excel either).
+ *  - Real .xlsx (binary) is rejected here with a clear message. Excel files
+ *    are read on the device (DelipuCash/utils/xlsxReader.ts) and their rows
+ *    go through the same column mapping as CSV, so the server never sees one.
  *  - CSV and JSON parse to the renderer vocabulary.
+ *  - Translation columns (text_lg, options_sw, "Text (Luganda)") become
+ *    per-question translations instead of being fuzzy-matched onto base fields.
  *
  * The controller has no Prisma dependency (pure parsing), so no mocks needed.
  */
@@ -39,7 +42,7 @@ test('CSV import normalizes legacy aliases to the renderer vocabulary', async ()
 
   expect(res.statusCode).toBe(200);
   const types = res.body.questions.map((q) => q.type);
-  expect(types).toEqual(['radio', 'paragraph', 'rating']);
+  expect(types).toEqual(['radio', 'paragraph', 'nps']);
 });
 
 test('JSON import normalizes aliases too', async () => {
@@ -67,7 +70,7 @@ test('an unknown type still falls back to text with a warning', async () => {
   expect(res.body.warnings.join(' ')).toMatch(/hologram/i);
 });
 
-test('a binary (.xlsx) upload is rejected with a clear message — no Excel parser', async () => {
+test('a binary (.xlsx) upload is rejected with a clear message — Excel is parsed on the device', async () => {
   // Real .xlsx is a zip; the null byte trips the binary guard.
   const res = makeRes();
   await previewImport(
@@ -91,3 +94,35 @@ test('a quoted CSV cell spanning multiple lines stays one field', async () => {
   expect(res.body.questions[0].text).toContain('Line one');
   expect(res.body.questions[0].text).toContain('Line two');
 });
+
+test('CSV translation columns become per-question translations', async () => {
+  const csv =
+    'text,type,options,text_lg,options_lg,Text (Swahili)\n' +
+    '"Pick one",radio,"Yes|No","Londa kimu","Yee|Nedda","Chagua moja"\n' +
+    '"Why?",text,,,,"Kwa nini?"';
+  const res = makeRes();
+  await previewImport(fileReq('survey.csv', csv), res, next);
+
+  expect(res.statusCode).toBe(200);
+  expect(res.body.languages).toEqual(['lg', 'sw']);
+  expect(res.body.questions[0].options).toEqual(['Yes', 'No']);
+  expect(res.body.questions[0].translations).toEqual({
+    lg: { text: 'Londa kimu', options: ['Yee', 'Nedda'] },
+    sw: { text: 'Chagua moja' },
+  });
+  expect(res.body.questions[1].translations).toEqual({ sw: { text: 'Kwa nini?' } });
+});
+
+test('JSON import keeps question translations and derives the offered languages', async () => {
+  const json = JSON.stringify({
+    title: 'T',
+    questions: [
+      { text: 'Pick', type: 'radio', options: ['A', 'B'], translations: { sw: { text: 'Chagua', options: ['A', 'B'] } } },
+    ],
+  });
+  const res = makeRes();
+  await previewImport(fileReq('survey.json', json, 'application/json'), res, next);
+
+  expect(res.body.languages).toEqual(['sw']);
+  expect(res.body.questions[0].translations).toEqual({ sw: { text: 'Chagua', options: ['A', 'B'] } });
+});
@@ -5,8 +5,9 @@
  *  - updateSurvey scopes per-question writes to THE OWNED SURVEY — the previous
  *    unscoped update({ where: { id: q.id } }) let any survey owner tamper with
  *    questions of OTHER surveys (IDOR). Unknown ids → 400 + transaction rollback.
- *  - Structural edits are locked once a survey has responses (answers are keyed
- *    by question id + option text — edits would corrupt them silently).
+ *  - Question edits publish the next survey version instead of rewriting the
+ *    one earlier respondents answered (answers are keyed by question id +
+ *    option text).
  *  - Single-sided date updates validate the COMBINED window.
  *  - deleteSurvey refuses (409) when responses exist — they are respondents'
  *    earning records and the FK has no cascade (the old code 500'd on P2003
@@ -40,6 +41,10 @@ const prismaMock = {
     findFirst: mock(async () => null),
     count: mock(async () => 0),
   },
+  surveyVersion: {
+    count: mock(async () => 0),
+    create: mock(async (args) => args.data),
+  },
   surveyFileUpload: { findMany: mock(async () => []) },
   appUser: { findUnique: mock(async () => ({ role: 'USER' })), update: mock(async () => ({})) },
   payment: { findFirst: mock(async () => null) },
@@ -91,6 +96,8 @@ beforeEach(() => {
   prismaMock.uploadSurvey.deleteMany = mock(async () => ({ count: 0 }));
   prismaMock.uploadSurvey.findMany = mock(async () => []);
   prismaMock.surveyResponse.count = mock(async () => 0);
+  prismaMock.surveyVersion.count = mock(async () => 0);
+  prismaMock.surveyVersion.create = mock(async (args) => args.data);
   prismaMock.surveyFileUpload.findMany = mock(async () => []);
   prismaMock.appUser.findUnique = mock(async () => ({ role: 'USER' }));
   prismaMock.payment.findFirst = mock(async () => null);
@@ -135,8 +142,9 @@ test('question updates are SCOPED to the owned survey — foreign ids → 400, r
   expect(res.body.ids).toEqual(['someone-elses-question']);
 });
 
-test('structural edits are locked once responses exist (409 EDIT_LOCKED)', async () => {
+test('question edits once responses exist publish the next version', async () => {
   prismaMock.surveyResponse.count = mock(async () => 5);
+  prismaMock.survey.findUnique = mock(async () => ({ ...ownedSurvey, title: 'T', currentVersion: 1, uploads: [] }));
 
   const res = makeRes();
   await updateSurvey(
@@ -148,9 +156,12 @@ test('structural edits are locked once responses exist (409 EDIT_LOCKED)', async
     res, () => {},
   );
 
-  expect(res.statusCode).toBe(409);
-  expect(res.body.code).toBe('EDIT_LOCKED');
-  expect(prismaMock.uploadSurvey.updateMany.mock.calls.length).toBe(0);
+  expect(res.statusCode).toBe(200);
+  expect(prismaMock.uploadSurvey.updateMany.mock.calls.length).toBe(1);
+  // Base snapshot of the survey as answered so far, then the edit as version 2
+  expect(prismaMock.surveyVersion.create.mock.calls.map(([args]) => args.data.version)).toEqual([1, 2]);
+  expect(prismaMock.survey.update.mock.calls.at(-1)[0].data).toEqual({ currentVersion: 2 });
+  expect(res.body.survey.currentVersion).toBe(2);
 });
 
 test('metadata-only edits stay allowed when responses exist', async () => {
@@ -5,10 +5,16 @@
  * client depends on:
  *   - status codes + JSON shape for each guard (auth, empty body, not-found, window, dup)
  *   - required-question validation respects conditional-logic visibility
+ *   - NPS / matrix / ranking answers must fit their question's shape
  *   - answer VALUES are stored verbatim (no option-membership validation) — this is why
  *     the client must submit the option TEXT so it matches rule values + analytics buckets
  *   - success response carries pointsAwarded + cashEquivalent and persists JSON.stringify(responses)
  *   - single-attempt idempotency (pre-check 409 and P2002 race 409)
+ *   - offline-queue replays: the same idempotency key returns the original result,
+ *     including when two copies race and the loser hits P2002
+ *   - screeners: a non-qualifying answer is a 403 SCREENED_OUT; a full quota cell a 410 OVER_QUOTA
+ *   - the answering language is stored when the survey offers it, null otherwise
+ *   - the survey version answered is stored; unknown versions fall back to the current one
  *
  * The controller imports a real Prisma singleton (which throws without DATABASE_URL) plus
  * several fire-and-forget side-effect modules, so we stub them via bun's mock.module BEFORE
@@ -25,10 +31,13 @@ const prismaMock = {
   },
   surveyResponse: {
     findFirst: mock(async () => null),
+    findUnique: mock(async () => null),
     create: mock(async () => ({ id: 'resp-1', createdAt: new Date('2026-01-01T00:00:00.000Z') })),
     count: mock(async () => 0),
   },
   appUser: { update: mock(async () => ({})) },
+  // Per-answer quota guard — count 1 = the respondent's cell has room
+  surveyQuotaCell: { updateMany: mock(async () => ({ count: 1 })) },
   $transaction: mock(async (fn) => fn(prismaMock)),
 };
 
@@ -67,8 +76,8 @@ function makeRes() {
     },
   };
 }
-function makeReq({ surveyId = 's1', body = {}, userId = 'u1' } = {}) {
-  return { params: { surveyId }, body, user: userId ? { id: userId } : undefined };
+function makeReq({ surveyId = 's1', body = {}, userId = 'u1', headers = {} } = {}) {
+  return { params: { surveyId }, body, headers, user: userId ? { id: userId } : undefined };
 }
 // express-async-handler forwards rejections to next; surface them as test failures.
 const next = (err) => {
@@ -93,9 +102,11 @@ beforeEach(() => {
     prismaMock.survey.findUnique,
     prismaMock.survey.updateMany,
     prismaMock.surveyResponse.findFirst,
+    prismaMock.surveyResponse.findUnique,
     prismaMock.surveyResponse.create,
     prismaMock.surveyResponse.count,
     prismaMock.appUser.update,
+    prismaMock.surveyQuotaCell.updateMany,
     prismaMock.$transaction,
   ]) {
     m.mockClear();
@@ -103,11 +114,13 @@ beforeEach(() => {
   // Re-assert default happy-path implementations (mockClear keeps impl, but be explicit).
   prismaMock.survey.updateMany.mockResolvedValue({ count: 1 });
   prismaMock.surveyResponse.findFirst.mockResolvedValue(null);
+  prismaMock.surveyResponse.findUnique.mockResolvedValue(null);
   prismaMock.surveyResponse.create.mockResolvedValue({
     id: 'resp-1',
     createdAt: new Date('2026-01-01T00:00:00.000Z'),
   });
   prismaMock.surveyResponse.count.mockResolvedValue(0);
+  prismaMock.surveyQuotaCell.updateMany.mockResolvedValue({ count: 1 });
   prismaMock.$transaction.mockImplementation(async (fn) => fn(prismaMock));
 });
 
@@ -239,6 +252,138 @@ test('conditional rule matches on the submitted option TEXT', async () => {
   expect(res.body.missingQuestionIds).toEqual(['q2']); // revealed by the text match
 });
 
+test('required questions jumped over by a skip_to rule do NOT block submission', async () => {
+  // Answering "No" on q1 jumps straight to q3 — q2 is never shown.
+  prismaMock.survey.findUnique.mockResolvedValueOnce(
+    activeSurvey({
+      uploads: [
+        {
+          id: 'q1',
+          required: true,
+          conditionalLogic: {
+            logicType: 'all',
+            rules: [{ sourceQuestionId: 'q1', operator: 'equals', value: 'No', action: 'skip_to', targetQuestionId: 'q3' }],
+          },
+        },
+        { id: 'q2', required: true, conditionalLogic: null },
+        { id: 'q3', required: true, conditionalLogic: null },
+      ],
+    })
+  );
+  const res = makeRes();
+  await submitSurveyResponse(makeReq({ body: { responses: { q1: 'No', q3: 'Fine' } } }), res, next);
+  expect(res.statusCode).toBe(201);
+});
+
+test('a skip_to rule that does not match leaves the skipped question required', async () => {
+  prismaMock.survey.findUnique.mockResolvedValueOnce(
+    activeSurvey({
+      uploads: [
+        {
+          id: 'q1',
+          required: true,
+          conditionalLogic: {
+            logicType: 'all',
+            rules: [{ sourceQuestionId: 'q1', operator: 'equals', value: 'No', action: 'skip_to', targetQuestionId: '__end__' }],
+          },
+        },
+        { id: 'q2', required: true, conditionalLogic: null },
+      ],
+    })
+  );
+  const res = makeRes();
+  await submitSurveyResponse(makeReq({ body: { responses: { q1: 'Yes' } } }), res, next);
+  expect(res.statusCode).toBe(400);
+  expect(res.body.missingQuestionIds).toEqual(['q2']);
+});
+
+// ── Structured answer shapes (NPS, matrix, ranking) ─────────────────────────────
+const structuredUploads = [
+  { id: 'nps', type: 'nps', required: true, conditionalLogic: null, options: '{"min":0,"max":10}' },
+  {
+    id: 'grid',
+    type: 'matrix',
+    required: false,
+    conditionalLogic: null,
+    options: JSON.stringify({ rows: ['Speed', 'Price'], columns: ['Bad', 'Good'] }),
+  },
+  { id: 'rank', type: 'ranking', required: false, conditionalLogic: null, options: '["A","B","C"]' },
+];
+
+test('accepts well-formed NPS, matrix and ranking answers (a 0 NPS counts as answered)', async () => {
+  prismaMock.survey.findUnique.mockResolvedValueOnce(activeSurvey({ uploads: structuredUploads }));
+  const res = makeRes();
+  const responses = { nps: 0, grid: ['Good', ''], rank: ['C', 'A', 'B'] };
+  await submitSurveyResponse(makeReq({ body: { responses } }), res, next);
+  expect(res.statusCode).toBe(201);
+  expect(JSON.parse(prismaMock.surveyResponse.create.mock.calls[0][0].data.responses)).toEqual(responses);
+});
+
+test('400 with invalidQuestionIds when a structured answer does not fit its question', async () => {
+  prismaMock.survey.findUnique.mockResolvedValueOnce(activeSurvey({ uploads: structuredUploads }));
+  const res = makeRes();
+  await submitSurveyResponse(
+    makeReq({ body: { responses: { nps: 11, grid: ['Great'], rank: ['A', 'A', 'B'] } } }),
+    res,
+    next
+  );
+  expect(res.statusCode).toBe(400);
+  expect(res.body.invalidQuestionIds).toEqual(['nps', 'grid', 'rank']);
+  expect(prismaMock.surveyResponse.create).not.toHaveBeenCalled();
+});
+
+// ── Screeners + quotas ──────────────────────────────────────────────────────────
+const screenedUploads = [
+  {
+    id: 'gender', type: 'radio', required: true, conditionalLogic: null, options: '["Female","Male","Other"]',
+    screener: { qualifying: ['Female', 'Male'], quotas: [{ answer: 'Female', limit: 100 }] },
+  },
+  { id: 'q2', type: 'text', required: true, conditionalLogic: null, options: '[]', screener: null },
+];
+
+test('403 SCREENED_OUT for a non-qualifying screener answer — no response, no points', async () => {
+  prismaMock.survey.findUnique.mockResolvedValueOnce(activeSurvey({ uploads: screenedUploads }));
+  const res = makeRes();
+  await submitSurveyResponse(makeReq({ body: { responses: { gender: 'Other', q2: 'Brand X' } } }), res, next);
+
+  expect(res.statusCode).toBe(403);
+  expect(res.body).toMatchObject({ submitted: false, code: 'SCREENED_OUT', questionId: 'gender' });
+  expect(prismaMock.surveyResponse.create).not.toHaveBeenCalled();
+  expect(prismaMock.appUser.update).not.toHaveBeenCalled();
+});
+
+test("a qualifying answer increments its quota cell with the limit in the same statement", async () => {
+  prismaMock.survey.findUnique.mockResolvedValueOnce(activeSurvey({ uploads: screenedUploads }));
+  const res = makeRes();
+  await submitSurveyResponse(makeReq({ body: { responses: { gender: 'Female', q2: 'Brand X' } } }), res, next);
+
+  expect(res.statusCode).toBe(201);
+  expect(prismaMock.surveyQuotaCell.updateMany.mock.calls[0][0]).toEqual({
+    where: { surveyId: 's1', questionId: 'gender', answer: 'Female', filled: { lt: 100 } },
+    data: { filled: { increment: 1 } },
+  });
+});
+
+test('a qualifying answer without a quota is uncapped', async () => {
+  prismaMock.survey.findUnique.mockResolvedValueOnce(activeSurvey({ uploads: screenedUploads }));
+  const res = makeRes();
+  await submitSurveyResponse(makeReq({ body: { responses: { gender: 'Male', q2: 'Brand X' } } }), res, next);
+
+  expect(res.statusCode).toBe(201);
+  expect(prismaMock.surveyQuotaCell.updateMany).not.toHaveBeenCalled();
+});
+
+test('410 OVER_QUOTA when the cell is full — the transaction rolls back before the response', async () => {
+  prismaMock.survey.findUnique.mockResolvedValueOnce(activeSurvey({ uploads: screenedUploads }));
+  prismaMock.surveyQuotaCell.updateMany.mockResolvedValueOnce({ count: 0 });
+  const res = makeRes();
+  await submitSurveyResponse(makeReq({ body: { responses: { gender: 'Female', q2: 'Brand X' } } }), res, next);
+
+  expect(res.statusCode).toBe(410);
+  expect(res.body).toMatchObject({ submitted: false, code: 'OVER_QUOTA', questionId: 'gender' });
+  expect(prismaMock.surveyResponse.create).not.toHaveBeenCalled();
+});
+
 // ── Success contract + answer persistence ───────────────────────────────────────
 test('201 success returns the reward fields and persists answers verbatim', async () => {
   prismaMock.survey.findUnique.mockResolvedValueOnce(
@@ -264,6 +409,161 @@ test('201 success returns the reward fields and persists answers verbatim', asyn
   expect(created.data.surveyId).toBe('s1');
 });
 
+test('stores the client-reported startedAt, nulling implausible ones', async () => {
+  const startedAt = new Date(Date.now() - 5 * 60 * 1000).toISOString();
+  const cases = [
+    [startedAt, new Date(startedAt)],
+    [new Date(Date.now() + 60 * 60 * 1000).toISOString(), null], // future
+    ['2020-01-01T00:00:00.000Z', null], // older than an attempt draft lives
+    ['not a date', null],
+    [undefined, null],
+  ];
+
+  for (const [sent, stored] of cases) {
+    prismaMock.survey.findUnique.mockResolvedValueOnce(activeSurvey());
+    prismaMock.surveyResponse.create.mockClear();
+    const res = makeRes();
+    await submitSurveyResponse(makeReq({ body: { responses: { q1: 'Yes' }, startedAt: sent } }), res, next);
+
+    expect(res.statusCode).toBe(201);
+    const created = prismaMock.surveyResponse.create.mock.calls[0][0];
+    expect(created.data.startedAt).toEqual(stored);
+    expect(created.data.completedAt).toBeInstanceOf(Date);
+  }
+});
+
+test('stores the language the survey was answered in, null when it is not offered', async () => {
+  const cases = [
+    ['sw', 'sw'],
+    ['en', 'en'],
+    ['fr', null],
+    [undefined, null],
+  ];
+
+  for (const [sent, stored] of cases) {
+    prismaMock.survey.findUnique.mockResolvedValueOnce(activeSurvey({ defaultLanguage: 'en', languages: ['lg', 'sw'] }));
+    prismaMock.surveyResponse.create.mockClear();
+    await submitSurveyResponse(makeReq({ body: { responses: { q1: 'Yes' }, language: sent } }), makeRes(), next);
+    expect(prismaMock.surveyResponse.create.mock.calls[0][0].data.language).toBe(stored);
+  }
+});
+
+test('stores the version the respondent loaded, the current one when it is not published', async () => {
+  const cases = [
+    [2, 2],
+    [3, 3],
+    [4, 3],
+    ['2', 3],
+    [undefined, 3],
+  ];
+
+  for (const [sent, stored] of cases) {
+    prismaMock.survey.findUnique.mockResolvedValueOnce(activeSurvey({ currentVersion: 3 }));
+    prismaMock.surveyResponse.create.mockClear();
+    await submitSurveyResponse(makeReq({ body: { responses: { q1: 'Yes' }, surveyVersion: sent } }), makeRes(), next);
+    expect(prismaMock.surveyResponse.create.mock.calls[0][0].data.surveyVersion).toBe(stored);
+  }
+});
+
+// ── Offline-queue replays (idempotency key) ─────────────────────────────────────
+test('stores the idempotency key sent in the header or body', async () => {
+  for (const req of [
+    makeReq({ body: { responses: { q1: 'Yes' } }, headers: { 'x-idempotency-key': 'sub_abc12345' } }),
+    makeReq({ body: { responses: { q1: 'Yes' }, idempotencyKey: 'sub_abc12345' } }),
+  ]) {
+    prismaMock.survey.findUnique.mockResolvedValueOnce(activeSurvey());
+    prismaMock.surveyResponse.create.mockClear();
+    await submitSurveyResponse(req, makeRes(), next);
+    expect(prismaMock.surveyResponse.create.mock.calls[0][0].data.idempotencyKey).toBe('sub_abc12345');
+  }
+});
+
+test('200 replay returns the original submission without crediting again', async () => {
+  prismaMock.surveyResponse.findUnique.mockResolvedValueOnce({
+    id: 'resp-9',
+    userId: 'u1',
+    surveyId: 's1',
+    createdAt: new Date('2026-01-01T00:00:00.000Z'),
+  });
+  const res = makeRes();
+  await submitSurveyResponse(makeReq({ body: { responses: { q1: 'Yes' }, idempotencyKey: 'sub_abc12345' } }), res, next);
+
+  expect(res.statusCode).toBe(200);
+  expect(res.body).toMatchObject({ success: true, submitted: true, idempotent: true, responseId: 'resp-9', pointsAwarded: 10 });
+  expect(prismaMock.surveyResponse.findUnique.mock.calls[0][0]).toEqual({ where: { idempotencyKey: 'sub_abc12345' } });
+  // Answered before the survey lookup, so a survey that closed meanwhile can't 410 it
+  expect(prismaMock.survey.findUnique).not.toHaveBeenCalled();
+  expect(prismaMock.surveyResponse.create).not.toHaveBeenCalled();
+  expect(prismaMock.appUser.update).not.toHaveBeenCalled();
+});
+
+test('replay echoes the points credited at the time, not the current config', async () => {
+  prismaMock.surveyResponse.findUnique.mockResolvedValueOnce({
+    id: 'resp-9',
+    userId: 'u1',
+    surveyId: 's1',
+    pointsAwarded: 25,
+    createdAt: new Date('2026-01-01T00:00:00.000Z'),
+  });
+  const res = makeRes();
+  await submitSurveyResponse(makeReq({ body: { responses: { q1: 'Yes' }, idempotencyKey: 'sub_abc12345' } }), res, next);
+
+  expect(res.body).toMatchObject({ idempotent: true, pointsAwarded: 25, cashEquivalent: 1000 });
+});
+
+test('stores the points credited on the response', async () => {
+  prismaMock.survey.findUnique.mockResolvedValueOnce(activeSurvey());
+  await submitSurveyResponse(makeReq({ body: { responses: { q1: 'Yes' } } }), makeRes(), next);
+  expect(prismaMock.surveyResponse.create.mock.calls[0][0].data.pointsAwarded).toBe(10);
+});
+
+test('a racing copy of the same submission that loses on P2002 gets the 200 replay', async () => {
+  const winner = { id: 'resp-9', userId: 'u1', surveyId: 's1', pointsAwarded: 10, createdAt: new Date('2026-01-01T00:00:00.000Z') };
+  prismaMock.survey.findUnique.mockResolvedValueOnce(activeSurvey());
+  // Not there at the replay check, committed by the time the loser's insert fails
+  prismaMock.surveyResponse.findUnique.mockResolvedValueOnce(null).mockResolvedValueOnce(winner);
+  prismaMock.$transaction.mockImplementationOnce(async () => {
+    const err = new Error('Unique constraint failed');
+    err.code = 'P2002';
+    throw err;
+  });
+  const res = makeRes();
+  await submitSurveyResponse(makeReq({ body: { responses: { q1: 'Yes' }, idempotencyKey: 'sub_abc12345' } }), res, next);
+
+  expect(res.statusCode).toBe(200);
+  expect(res.body).toMatchObject({ success: true, idempotent: true, responseId: 'resp-9', pointsAwarded: 10 });
+});
+
+test('a racing copy that lands before the attempt check also gets the replay', async () => {
+  prismaMock.survey.findUnique.mockResolvedValueOnce(activeSurvey());
+  prismaMock.surveyResponse.findFirst.mockResolvedValueOnce({
+    id: 'resp-9', userId: 'u1', surveyId: 's1', idempotencyKey: 'sub_abc12345', createdAt: new Date('2026-01-01T00:00:00.000Z'),
+  });
+  const res = makeRes();
+  await submitSurveyResponse(makeReq({ body: { responses: { q1: 'Yes' }, idempotencyKey: 'sub_abc12345' } }), res, next);
+
+  expect(res.statusCode).toBe(200);
+  expect(res.body.responseId).toBe('resp-9');
+  expect(prismaMock.surveyResponse.create).not.toHaveBeenCalled();
+});
+
+test('409 IDEMPOTENCY_MISMATCH when the key belongs to another user\'s response', async () => {
+  prismaMock.surveyResponse.findUnique.mockResolvedValueOnce({ id: 'resp-9', userId: 'u2', surveyId: 's1' });
+  const res = makeRes();
+  await submitSurveyResponse(makeReq({ body: { responses: { q1: 'Yes' }, idempotencyKey: 'sub_abc12345' } }), res, next);
+
+  expect(res.statusCode).toBe(409);
+  expect(res.body.code).toBe('IDEMPOTENCY_MISMATCH');
+  expect(prismaMock.surveyResponse.create).not.toHaveBeenCalled();
+});
+
+test('ignores a malformed idempotency key', async () => {
+  prismaMock.survey.findUnique.mockResolvedValueOnce(activeSurvey());
+  await submitSurveyResponse(makeReq({ body: { responses: { q1: 'Yes' }, idempotencyKey: 'x' } }), makeRes(), next);
+  expect(prismaMock.surveyResponse.findUnique).not.toHaveBeenCalled();
+  expect(prismaMock.surveyResponse.create.mock.calls[0][0].data.idempotencyKey).toBeNull();
+});
+
 test('credits the fixed reward points to the submitter', async () => {
   prismaMock.survey.findUnique.mockResolvedValueOnce(activeSurvey());
   const res = makeRes();
@@ -9,12 +9,19 @@
  *    the renderer default-cases unknown types to text but isAnswerValid()
  *    returns false, permanently disabling Next on required questions).
  *  - Legacy type aliases normalize onto the renderer vocabulary
- *    (multiple_choice→radio, textarea→paragraph, nps/slider→rating).
+ *    (multiple_choice→radio, textarea→paragraph, slider→rating); nps is a
+ *    real type.
  *  - THE conditional-logic remap: builder rules reference client-side ids; the
  *    server rewrites rule.sourceQuestionId onto the DB-minted UUIDs inside the
  *    creation transaction. Before this existed, every app-created rule
  *    referenced ids that didn't exist — conditional logic was dead end-to-end.
  *  - Creation is atomic (survey + questions in one transaction).
+ *  - Answer piping: {{qN}} tokens must point backward, {{name}} tokens at a
+ *    defined computed variable; variable sources are remapped like rules.
+ *  - Screeners sit ahead of every paid question; each quota gets a fill
+ *    counter row keyed by the created question UUID.
+ *  - Multilingual surveys: every offered language translates the title,
+ *    description and each question's text + labels, index-aligned.
  */
 import { test, expect, mock, beforeEach } from 'bun:test';
 
@@ -22,11 +29,18 @@ let uuidCounter = 0;
 const prismaMock = {
   survey: {
     create: mock(async (args) => ({ id: 'survey-uuid-1', ...args.data })),
+    update: mock(async (args) => ({ id: args.where.id, ...args.data })),
   },
   uploadSurvey: {
     create: mock(async (args) => ({ id: `uuid-${++uuidCounter}`, ...args.data })),
     update: mock(async (args) => ({ id: args.where.id, ...args.data })),
   },
+  surveyQuotaCell: {
+    createMany: mock(async (args) => ({ count: args.data.length })),
+  },
+  surveyVersion: {
+    create: mock(async (args) => args.data),
+  },
   $transaction: mock(async (fn) => fn(prismaMock)),
 };
 
@@ -71,8 +85,11 @@ function validBody(overrides = {}) {
 beforeEach(() => {
   uuidCounter = 0;
   prismaMock.survey.create = mock(async (args) => ({ id: 'survey-uuid-1', ...args.data }));
+  prismaMock.survey.update = mock(async (args) => ({ id: args.where.id, ...args.data }));
   prismaMock.uploadSurvey.create = mock(async (args) => ({ id: `uuid-${++uuidCounter}`, ...args.data }));
   prismaMock.uploadSurvey.update = mock(async (args) => ({ id: args.where.id, ...args.data }));
+  prismaMock.surveyQuotaCell.createMany = mock(async (args) => ({ count: args.data.length }));
+  prismaMock.surveyVersion.create = mock(async (args) => args.data);
   prismaMock.$transaction = mock(async (fn) => fn(prismaMock));
 });
 
@@ -149,7 +166,7 @@ test('legacy aliases normalize to the renderer vocabulary (textarea → paragrap
   expect(prismaMock.uploadSurvey.create.mock.calls[0][0].data.type).toBe('paragraph');
 });
 
-test('createSurvey accepts the app vocabulary it used to reject (radio) and normalizes nps → rating', async () => {
+test('createSurvey accepts the app vocabulary it used to reject (radio) and keeps nps as its own type', async () => {
   const res = makeRes();
   await createSurvey(
     {
@@ -169,7 +186,7 @@ test('createSurvey accepts the app vocabulary it used to reject (radio) and norm
   );
   expect(res.statusCode).toBe(201);
   const types = prismaMock.uploadSurvey.create.mock.calls.map((c) => c[0].data.type);
-  expect(types).toEqual(['radio', 'rating']);
+  expect(types).toEqual(['radio', 'nps']);
 });
 
 // ---------------------------------------------------------------------------
@@ -203,6 +220,271 @@ test('conditional-logic rule ids are remapped from builder clientIds to created
   expect(updateArgs.data.conditionalLogic.rules[0].sourceQuestionId).toBe('uuid-1');
 });
 
+test('skip_to rules have their jump target remapped alongside the source', async () => {
+  const res = makeRes();
+  await uploadSurvey(
+    {
+      body: validBody({
+        questions: [
+          {
+            clientId: 'q_18_1', text: 'Do you drive?', type: 'radio', options: ['Yes', 'No'],
+            conditionalLogic: {
+              logicType: 'all',
+              rules: [{ sourceQuestionId: 'q_18_1', operator: 'equals', value: 'No', action: 'skip_to', targetQuestionId: 'q_18_3' }],
+            },
+          },
+          { clientId: 'q_18_2', text: 'Which car?', type: 'text', options: [] },
+          { clientId: 'q_18_3', text: 'Anything else?', type: 'text', options: [] },
+        ],
+      }),
+      user: { id: 'creator' },
+    },
+    res, () => {},
+  );
+
+  expect(res.statusCode).toBe(201);
+  const updateArgs = prismaMock.uploadSurvey.update.mock.calls[0][0];
+  const rule = updateArgs.data.conditionalLogic.rules[0];
+  expect(rule.sourceQuestionId).toBe(updateArgs.where.id); // reads its own answer
+  expect(rule.targetQuestionId).not.toBe('q_18_3');
+  expect(rule.targetQuestionId).toMatch(/^uuid-/);
+});
+
+test('uploadSurvey 400 on a skip_to rule that jumps backward', async () => {
+  const res = makeRes();
+  await uploadSurvey(
+    {
+      body: validBody({
+        questions: [
+          { clientId: 'a', text: 'First?', type: 'radio', options: ['Yes', 'No'] },
+          {
+            clientId: 'b', text: 'Second?', type: 'radio', options: ['Yes', 'No'],
+            conditionalLogic: {
+              logicType: 'all',
+              rules: [{ sourceQuestionId: 'b', operator: 'equals', value: 'No', action: 'skip_to', targetQuestionId: 'a' }],
+            },
+          },
+        ],
+      }),
+      user: { id: 'creator' },
+    },
+    res, () => {},
+  );
+  expect(res.statusCode).toBe(400);
+});
+
+// ---------------------------------------------------------------------------
+// Answer piping + computed variables
+// ---------------------------------------------------------------------------
+
+test('uploadSurvey 400 when question text pipes in a LATER answer', async () => {
+  const res = makeRes();
+  await uploadSurvey(
+    {
+      body: validBody({
+        questions: [
+          { clientId: 'a', text: 'You said {{q2}} — really?', type: 'text', options: [] },
+          { clientId: 'b', text: 'Rate us', type: 'rating', options: [] },
+        ],
+      }),
+      user: { id: 'creator' },
+    },
+    res, () => {},
+  );
+  expect(res.statusCode).toBe(400);
+  expect(res.body.message).toBe('Invalid answer piping');
+  expect(prismaMock.survey.create.mock.calls.length).toBe(0);
+});
+
+test('uploadSurvey 400 when an option pipes in an unknown variable', async () => {
+  const res = makeRes();
+  await uploadSurvey(
+    {
+      body: validBody({
+        questions: [
+          { clientId: 'a', text: 'Rate us', type: 'rating', options: [] },
+          { clientId: 'b', text: 'Keep going?', type: 'radio', options: ['Yes at {{tier}}', 'No'] },
+        ],
+      }),
+      user: { id: 'creator' },
+    },
+    res, () => {},
+  );
+  expect(res.statusCode).toBe(400);
+  expect(res.body.errors[0].message).toMatch(/tier/);
+});
+
+test('piped text is stored verbatim and computed variable sources are remapped to UUIDs', async () => {
+  const res = makeRes();
+  await uploadSurvey(
+    {
+      body: validBody({
+        questions: [
+          { clientId: 'q_a', text: 'Rate us', type: 'rating', options: [] },
+          { clientId: 'q_b', text: 'You rated us {{q1}} ({{tier}}) — why?', type: 'paragraph', options: [] },
+        ],
+        computedVariables: [
+          { id: 'v1', name: 'score', kind: 'score', sourceQuestionIds: ['q_a'] },
+          { id: 'v2', name: 'tier', kind: 'segment', sourceQuestionIds: [], source: 'score', bands: [{ min: 4, label: 'fan' }], fallback: 'other' },
+        ],
+      }),
+      user: { id: 'creator' },
+    },
+    res, () => {},
+  );
+
+  expect(res.statusCode).toBe(201);
+  expect(prismaMock.uploadSurvey.create.mock.calls[1][0].data.text).toBe('You rated us {{q1}} ({{tier}}) — why?');
+  const stored = prismaMock.survey.update.mock.calls[0][0].data.computedVariables;
+  expect(stored[0].sourceQuestionIds).toEqual(['uuid-1']);
+  expect(stored[1].source).toBe('score'); // earlier-variable source passes through
+});
+
+test('uploadSurvey 400 when a screener comes after a paid question', async () => {
+  const res = makeRes();
+  await uploadSurvey(
+    {
+      body: validBody({
+        questions: [
+          { clientId: 'q_1', text: 'How often do you shop?', type: 'radio', options: ['Daily', 'Weekly'] },
+          { clientId: 'q_2', text: 'Gender', type: 'radio', options: ['Female', 'Male'], screener: { qualifying: ['Female'] } },
+        ],
+      }),
+      user: { id: 'creator' },
+    },
+    res, () => {},
+  );
+  expect(res.statusCode).toBe(400);
+  expect(res.body.message).toBe('Invalid screener questions');
+  expect(res.body.errors[0].questionIndex).toBe(1);
+});
+
+test('uploadSurvey 400 when a quota caps a non-qualifying answer', async () => {
+  const res = makeRes();
+  await uploadSurvey(
+    {
+      body: validBody({
+        questions: [
+          {
+            clientId: 'q_1', text: 'Region', type: 'dropdown', options: ['Central', 'East', 'North'],
+            screener: { qualifying: ['Central', 'East'], quotas: [{ answer: 'North', limit: 50 }] },
+          },
+        ],
+      }),
+      user: { id: 'creator' },
+    },
+    res, () => {},
+  );
+  expect(res.statusCode).toBe(400);
+  expect(res.body.errors[0].message).toMatch(/qualifying/);
+});
+
+test('screeners are stored and each quota gets a fill counter for the created question', async () => {
+  const screener = {
+    qualifying: ['Female', 'Male'],
+    quotas: [{ answer: 'Female', limit: 100 }, { answer: 'Male', limit: 100 }],
+  };
+  const res = makeRes();
+  await uploadSurvey(
+    {
+      body: validBody({
+        questions: [
+          { clientId: 'q_1', text: 'Gender', type: 'radio', options: ['Female', 'Male', 'Prefer not to say'], screener },
+          { clientId: 'q_2', text: 'Favourite brand?', type: 'text', options: [] },
+        ],
+      }),
+      user: { id: 'creator' },
+    },
+    res, () => {},
+  );
+
+  expect(res.statusCode).toBe(201);
+  expect(prismaMock.uploadSurvey.create.mock.calls[0][0].data.screener).toEqual(screener);
+  expect(prismaMock.uploadSurvey.create.mock.calls[1][0].data.screener).toBeNull();
+  expect(prismaMock.surveyQuotaCell.createMany.mock.calls[0][0].data).toEqual([
+    { surveyId: 'survey-uuid-1', questionId: 'uuid-1', answer: 'Female' },
+    { surveyId: 'survey-uuid-1', questionId: 'uuid-1', answer: 'Male' },
+  ]);
+});
+
+test('the uploaded questions are published as version 1, in order, with remapped rules', async () => {
+  const res = makeRes();
+  await uploadSurvey(
+    {
+      body: validBody({
+        questions: [
+          { clientId: 'q_1', text: 'Own a phone?', type: 'boolean', options: [] },
+          {
+            clientId: 'q_2', text: 'Which brand?', type: 'text', options: [],
+            conditionalLogic: { rules: [{ sourceQuestionId: 'q_1', operator: 'equals', value: 'true', action: 'show' }], logicType: 'all' },
+          },
+        ],
+      }),
+      user: { id: 'creator' },
+    },
+    res, () => {},
+  );
+
+  expect(res.statusCode).toBe(201);
+  expect(prismaMock.uploadSurvey.create.mock.calls.map(([args]) => args.data.position)).toEqual([0, 1]);
+  expect(prismaMock.surveyVersion.create.mock.calls).toHaveLength(1);
+  const { data } = prismaMock.surveyVersion.create.mock.calls[0][0];
+  expect(data).toMatchObject({ surveyId: 'survey-uuid-1', version: 1 });
+  expect(data.questions.map((q) => q.id)).toEqual(['uuid-1', 'uuid-2']);
+  expect(data.questions[0].text).toBe('Own a phone?');
+  expect(data.questions[1].conditionalLogic.rules[0].sourceQuestionId).toBe('uuid-1');
+});
+
+test('uploadSurvey 400 when an offered language is missing an option translation', async () => {
+  const res = makeRes();
+  await uploadSurvey(
+    {
+      body: validBody({
+        languages: ['lg'],
+        translations: { lg: { title: 'Okulaba kwaffe', description: 'Tukola tutya?' } },
+        questions: [
+          {
+            clientId: 'q_1', text: 'Happy?', type: 'radio', options: ['Yes', 'No'],
+            translations: { lg: { text: 'Osanyuse?', options: ['Yee'] } },
+          },
+        ],
+      }),
+      user: { id: 'creator' },
+    },
+    res, () => {},
+  );
+  expect(res.statusCode).toBe(400);
+  expect(res.body.message).toBe('Invalid translations');
+  expect(res.body.errors).toEqual([{ questionIndex: 0, language: 'lg', message: 'Needs exactly 2 translated options' }]);
+  expect(prismaMock.survey.create.mock.calls.length).toBe(0);
+});
+
+test('translations are stored on the survey and each question', async () => {
+  const translations = { sw: { title: 'Maoni ya wateja', description: 'Tunaendeleaje?' } };
+  const questionTranslations = { sw: { text: 'Una furaha?', options: ['Ndiyo', 'Hapana'] } };
+  const res = makeRes();
+  await uploadSurvey(
+    {
+      body: validBody({
+        languages: ['sw'],
+        translations,
+        questions: [
+          { clientId: 'q_1', text: 'Happy?', type: 'radio', options: ['Yes', 'No'], translations: questionTranslations },
+        ],
+      }),
+      user: { id: 'creator' },
+    },
+    res, () => {},
+  );
+
+  expect(res.statusCode).toBe(201);
+  const surveyData = prismaMock.survey.create.mock.calls[0][0].data;
+  expect(surveyData.defaultLanguage).toBe('en');
+  expect(surveyData.languages).toEqual(['sw']);
+  expect(surveyData.translations).toEqual(translations);
+  expect(prismaMock.uploadSurvey.create.mock.calls[0][0].data.translations).toEqual(questionTranslations);
+});
+
 test('creation is atomic — a mid-transaction failure returns 500 with no partial survey reported', async () => {
   prismaMock.uploadSurvey.create = mock(async () => { throw new Error('disk full'); });
 
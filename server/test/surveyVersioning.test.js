@@ -0,0 +1,256 @@
+/**
+ * Survey versioning tests (lib/surveyVersioning.mjs + the versions/rollback
+ * endpoints in surveyController).
+ *
+ * Locks the invariants the response analytics depend on:
+ *  - a snapshot holds exactly the question fields respondents were shown, in order
+ *  - a response is pinned to a PUBLISHED version (never a future or bogus one)
+ *  - responses from before versioning count toward version 1
+ *  - a rollback republishes the old snapshot as a NEW version (history is never
+ *    rewritten), brings removed questions back under their old ids, and keeps
+ *    surviving quota fill counts
+ *
+ * Prisma + side-effect modules are stubbed via bun's mock.module BEFORE import.
+ */
+import { test, expect, mock, beforeEach, describe } from 'bun:test';
+import {
+  snapshotQuestions, questionRowData, resolveResponseVersion, countResponsesByVersion,
+} from '../lib/surveyVersioning.mjs';
+
+const prismaMock = {
+  survey: {
+    findUnique: mock(async () => null),
+    update: mock(async (args) => ({ id: 's1', ...args.data })),
+  },
+  uploadSurvey: {
+    deleteMany: mock(async () => ({ count: 0 })),
+    upsert: mock(async (args) => args.create),
+  },
+  surveyResponse: {
+    groupBy: mock(async () => []),
+  },
+  surveyVersion: {
+    count: mock(async () => 2),
+    create: mock(async (args) => args.data),
+    findMany: mock(async () => []),
+    findUnique: mock(async () => null),
+  },
+  surveyQuotaCell: {
+    deleteMany: mock(async () => ({ count: 0 })),
+    createMany: mock(async () => ({ count: 0 })),
+  },
+  $transaction: mock(async (fn) => fn(prismaMock)),
+};
+
+mock.module('../lib/prisma.mjs', () => ({ default: prismaMock }));
+mock.module('../lib/eventBus.mjs', () => ({ publishEvent: async () => {} }));
+mock.module('../lib/webhookDispatcher.mjs', () => ({ dispatchWebhooks: async () => {} }));
+mock.module('./paymentController.mjs', () => ({ processMtnPayment: async () => {}, processAirtelPayment: async () => {} }));
+mock.module('../controllers/paymentController.mjs', () => ({ processMtnPayment: async () => {}, processAirtelPayment: async () => {} }));
+mock.module('./notificationController.mjs', () => ({ createNotificationFromTemplateHelper: async () => {} }));
+mock.module('../controllers/notificationController.mjs', () => ({ createNotificationFromTemplateHelper: async () => {} }));
+mock.module('../lib/achievementChecker.mjs', () => ({ checkAndUnlockAchievements: async () => {} }));
+
+const { getSurveyVersions, rollbackSurveyVersion } = await import('../controllers/surveyController.mjs');
+
+function makeRes() {
+  return {
+    statusCode: 200,
+    body: null,
+    status(c) { this.statusCode = c; return this; },
+    json(b) { this.body = b; return this; },
+  };
+}
+
+const row = (id, text, extra = {}) => ({
+  id, text, type: 'radio', options: JSON.stringify(['Yes', 'No']), placeholder: '', minValue: null, maxValue: null,
+  required: true, conditionalLogic: null, screener: null, translations: null,
+  userId: 'owner', surveyId: 's1', position: 0, createdAt: new Date(), updatedAt: new Date(),
+  ...extra,
+});
+
+const liveSurvey = (extra = {}) => ({
+  userId: 'owner', title: 'Phones', currentVersion: 3, computedVariables: null,
+  description: null, defaultLanguage: 'en', languages: [], translations: null,
+  createdAt: new Date('2026-01-01T00:00:00.000Z'), uploads: [],
+  ...extra,
+});
+
+beforeEach(() => {
+  prismaMock.survey.findUnique = mock(async () => liveSurvey());
+  prismaMock.survey.update = mock(async (args) => ({ id: 's1', ...args.data }));
+  prismaMock.uploadSurvey.deleteMany = mock(async () => ({ count: 0 }));
+  prismaMock.uploadSurvey.upsert = mock(async (args) => args.create);
+  prismaMock.surveyResponse.groupBy = mock(async () => []);
+  prismaMock.surveyVersion.count = mock(async () => 2);
+  prismaMock.surveyVersion.create = mock(async (args) => args.data);
+  prismaMock.surveyVersion.findMany = mock(async () => []);
+  prismaMock.surveyVersion.findUnique = mock(async () => null);
+  prismaMock.surveyQuotaCell.deleteMany = mock(async () => ({ count: 0 }));
+  prismaMock.surveyQuotaCell.createMany = mock(async () => ({ count: 0 }));
+  prismaMock.$transaction = mock(async (fn) => fn(prismaMock));
+});
+
+// ---------------------------------------------------------------------------
+// lib/surveyVersioning.mjs
+// ---------------------------------------------------------------------------
+
+describe('surveyVersioning helpers', () => {
+  test('a snapshot keeps the question fields, not row bookkeeping', () => {
+    const [snap] = snapshotQuestions([row('q1', 'Own a phone?', { placeholder: undefined })]);
+    expect(Object.keys(snap).sort()).toEqual([
+      'conditionalLogic', 'id', 'maxValue', 'minValue', 'options', 'placeholder',
+      'required', 'screener', 'text', 'translations', 'type',
+    ]);
+    expect(snap.placeholder).toBeNull();
+  });
+
+  test('a snapshot question writes back to the row it came from', () => {
+    const [snap] = snapshotQuestions([row('q1', 'Own a phone?')]);
+    expect(questionRowData(snap, 4)).toEqual({
+      text: 'Own a phone?', type: 'radio', options: '["Yes","No"]', placeholder: '', minValue: null, maxValue: null,
+      required: true, conditionalLogic: null, screener: null, translations: null, position: 4,
+    });
+  });
+
+  test('responses pin to a published version, the current one otherwise', () => {
+    const survey = { currentVersion: 3 };
+    expect(resolveResponseVersion(survey, 1)).toBe(1);
+    expect(resolveResponseVersion(survey, 3)).toBe(3);
+    expect(resolveResponseVersion(survey, 4)).toBe(3);
+    expect(resolveResponseVersion(survey, 0)).toBe(3);
+    expect(resolveResponseVersion(survey, 1.5)).toBe(3);
+    expect(resolveResponseVersion(survey, null)).toBe(3);
+    expect(resolveResponseVersion({}, 2)).toBe(1);
+  });
+
+  test('responses from before versioning count toward version 1', () => {
+    const counts = countResponsesByVersion([
+      { surveyVersion: null, _count: { _all: 4 } },
+      { surveyVersion: 1, _count: { _all: 2 } },
+      { surveyVersion: 2, _count: { _all: 7 } },
+    ]);
+    expect(Object.fromEntries(counts)).toEqual({ 1: 6, 2: 7 });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// GET /:surveyId/versions
+// ---------------------------------------------------------------------------
+
+describe('getSurveyVersions', () => {
+  test('is owner only', async () => {
+    const res = makeRes();
+    await getSurveyVersions({ params: { surveyId: 's1' }, user: { id: 'intruder' } }, res, () => {});
+    expect(res.statusCode).toBe(403);
+    expect(prismaMock.surveyVersion.findMany.mock.calls).toHaveLength(0);
+  });
+
+  test('lists stored versions with their response counts', async () => {
+    prismaMock.surveyVersion.findMany = mock(async () => [
+      { version: 2, title: 'Phones', questions: [], restoredFrom: null, createdAt: new Date() },
+      { version: 1, title: 'Phones', questions: [], restoredFrom: null, createdAt: new Date() },
+    ]);
+    prismaMock.surveyResponse.groupBy = mock(async () => [
+      { surveyVersion: null, _count: { _all: 3 } },
+      { surveyVersion: 2, _count: { _all: 5 } },
+    ]);
+    prismaMock.survey.findUnique = mock(async () => liveSurvey({ currentVersion: 2 }));
+
+    const res = makeRes();
+    await getSurveyVersions({ params: { surveyId: 's1' }, user: { id: 'owner' } }, res, () => {});
+    expect(res.statusCode).toBe(200);
+    expect(res.body.data.currentVersion).toBe(2);
+    expect(res.body.data.versions.map((v) => [v.version, v.responseCount])).toEqual([[2, 5], [1, 3]]);
+  });
+
+  test('a survey never edited since versioning lists its live questions as version 1', async () => {
+    prismaMock.survey.findUnique = mock(async () => liveSurvey({ currentVersion: 1, uploads: [row('q1', 'Own a phone?')] }));
+    const res = makeRes();
+    await getSurveyVersions({ params: { surveyId: 's1' }, user: { id: 'owner' } }, res, () => {});
+    expect(res.body.data.versions).toHaveLength(1);
+    expect(res.body.data.versions[0]).toMatchObject({ version: 1, restoredFrom: null, responseCount: 0 });
+    expect(res.body.data.versions[0].questions.map((q) => q.text)).toEqual(['Own a phone?']);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// POST /:surveyId/versions/:version/rollback
+// ---------------------------------------------------------------------------
+
+describe('rollbackSurveyVersion', () => {
+  const rollback = (version, user = 'owner') => {
+    const res = makeRes();
+    return rollbackSurveyVersion(
+      { params: { surveyId: 's1', version: String(version) }, user: { id: user } }, res, () => {},
+    ).then(() => res);
+  };
+
+  test('is owner only', async () => {
+    const res = await rollback(1, 'intruder');
+    expect(res.statusCode).toBe(403);
+    expect(prismaMock.$transaction.mock.calls).toHaveLength(0);
+  });
+
+  test('refuses the live version, bad numbers and unknown versions', async () => {
+    expect((await rollback(3)).body.code).toBe('ALREADY_CURRENT');
+    expect((await rollback('abc')).statusCode).toBe(400);
+    expect((await rollback(0)).statusCode).toBe(400);
+    expect((await rollback(2)).statusCode).toBe(404);
+    expect(prismaMock.$transaction.mock.calls).toHaveLength(0);
+  });
+
+  test('republishes the snapshot as the next version', async () => {
+    const questions = snapshotQuestions([
+      row('q1', 'Own a phone?', {
+        screener: { qualifying: ['Yes'], quotas: [{ answer: 'Yes', limit: 50 }] },
+      }),
+      row('q2', 'Which brand?', { type: 'text', options: '[]' }),
+    ]);
+    prismaMock.surveyVersion.findUnique = mock(async () => ({ version: 1, title: 'Phones', questions }));
+    prismaMock.survey.findUnique = mock(async (args) => (
+      args.select?.uploads
+        ? liveSurvey({ uploads: questions.map((q, position) => row(q.id, q.text, { ...q, position })) })
+        : liveSurvey()
+    ));
+
+    const res = await rollback(1);
+    expect(res.statusCode).toBe(200);
+    expect(res.body.data).toEqual({ currentVersion: 4, restoredFrom: 1 });
+
+    // Questions added since are dropped; the snapshot's come back under their ids, in order
+    expect(prismaMock.uploadSurvey.deleteMany.mock.calls[0][0].where).toEqual({ surveyId: 's1', id: { notIn: ['q1', 'q2'] } });
+    const upserts = prismaMock.uploadSurvey.upsert.mock.calls.map(([args]) => args);
+    expect(upserts.map((u) => [u.where.id, u.update.text, u.update.position])).toEqual([
+      ['q1', 'Own a phone?', 0],
+      ['q2', 'Which brand?', 1],
+    ]);
+    expect(upserts[0].create).toMatchObject({ id: 'q1', userId: 'owner', surveyId: 's1' });
+
+    // Surviving quota cells keep their fill; only missing ones are created
+    expect(prismaMock.surveyQuotaCell.createMany.mock.calls[0][0]).toEqual({
+      data: [{ surveyId: 's1', questionId: 'q1', answer: 'Yes' }],
+      skipDuplicates: true,
+    });
+
+    const published = prismaMock.surveyVersion.create.mock.calls.at(-1)[0].data;
+    expect(published).toMatchObject({ surveyId: 's1', version: 4, restoredFrom: 1 });
+    expect(published.questions).toEqual(questions);
+    expect(prismaMock.survey.update.mock.calls.at(-1)[0].data).toEqual({ currentVersion: 4 });
+  });
+
+  test('refuses a snapshot that no longer fits the survey’s languages', async () => {
+    prismaMock.survey.findUnique = mock(async () => liveSurvey({
+      languages: ['lg'],
+      translations: { lg: { title: 'Essimu' } },
+    }));
+    prismaMock.surveyVersion.findUnique = mock(async () => ({
+      version: 1, title: 'Phones', questions: snapshotQuestions([row('q1', 'Own a phone?')]),
+    }));
+
+    const res = await rollback(1);
+    expect(res.statusCode).toBe(400);
+    expect(res.body.message).toBe('Invalid translations');
+    expect(prismaMock.$transaction.mock.calls).toHaveLength(0);
+  });
+});
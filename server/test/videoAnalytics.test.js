@@ -0,0 +1,260 @@
+/**
+ * Creator analytics tests (lib/videoAnalytics.mjs and
+ * controllers/videoAnalyticsController.mjs).
+ *
+ * Locks:
+ *  - one impression is one view; retention starts at 100% and never rises,
+ *    reaching a later milestone counting for the earlier ones
+ *  - average view duration is total dwell over dwells; swipe-away is skips over views
+ *  - a video is compared to the creator's median viewed video
+ *  - views without a known source count as 'other'
+ *  - follower growth is zero-filled per day; top comments rank replies + reactions
+ *  - only the creator sees a video's analytics
+ *
+ * Only prisma is mocked — see the note in adSecurity.test.js. The videos
+ * below have no R2 keys, so nothing is signed.
+ */
+import { test, expect, mock, beforeEach, describe } from 'bun:test';
+import {
+  benchmarkFrom,
+  clampWatchMs,
+  countsFor,
+  commentEngagement,
+  dailyCounts,
+  eventCountsByVideo,
+  median,
+  normalizeTrafficSource,
+  parseAnalyticsRange,
+  topComments,
+  trafficSourcesFrom,
+  videoMetrics,
+} from '../lib/videoAnalytics.mjs';
+
+const prismaMock = {
+  video: {
+    findUnique: mock(async () => null),
+    findMany: mock(async () => []),
+  },
+  videoEvent: {
+    groupBy: mock(async () => []),
+  },
+  creatorFollow: {
+    findMany: mock(async () => []),
+    count: mock(async () => 0),
+  },
+  comment: {
+    findMany: mock(async () => []),
+  },
+};
+
+mock.module('../lib/prisma.mjs', () => ({ default: prismaMock }));
+
+const { getChannelAnalytics, getVideoAnalytics } = await import('../controllers/videoAnalyticsController.mjs');
+
+function makeRes() {
+  return {
+    statusCode: 200,
+    body: null,
+    status(c) { this.statusCode = c; return this; },
+    json(b) { this.body = b; return this; },
+  };
+}
+
+const NOW = new Date('2026-10-18T12:00:00.000Z');
+
+const group = (videoId, eventType, count, watchMs = null) => ({
+  videoId, eventType, _count: { _all: count }, _sum: { watchMs },
+});
+
+function videoRow(id, overrides = {}) {
+  return {
+    id, userId: 'creator', title: `Video ${id}`, thumbnail: `https://cdn.example/${id}.jpg`,
+    videoUrl: `https://cdn.example/${id}.mp4`, r2ThumbnailKey: null, r2VideoKey: null,
+    duration: 60, views: 500, likes: 20, commentsCount: 4, createdAt: NOW, ...overrides,
+  };
+}
+
+// Three videos: vid-1 (100 views, weak hook), vid-2 (200), vid-3 (50)
+const EVENT_GROUPS = [
+  group('vid-1', 'impression', 100), group('vid-1', 'skip', 60), group('vid-1', 'dwell', 100, 500_000),
+  group('vid-1', 'play_25pct', 30), group('vid-1', 'play_50pct', 20), group('vid-1', 'play_75pct', 25),
+  group('vid-1', 'play_100pct', 10),
+  group('vid-2', 'impression', 200), group('vid-2', 'skip', 40), group('vid-2', 'dwell', 200, 4_000_000),
+  group('vid-2', 'play_100pct', 80),
+  group('vid-3', 'impression', 50), group('vid-3', 'skip', 10), group('vid-3', 'dwell', 50, 1_000_000),
+  group('vid-3', 'like', 5),
+];
+
+beforeEach(() => {
+  for (const model of Object.values(prismaMock)) {
+    for (const fn of Object.values(model)) fn.mockClear();
+  }
+  prismaMock.video.findUnique.mockImplementation(async () => videoRow('vid-1'));
+  prismaMock.video.findMany.mockImplementation(async () => [videoRow('vid-1'), videoRow('vid-2'), videoRow('vid-3')]);
+  prismaMock.videoEvent.groupBy.mockImplementation(async ({ by }) => (
+    by.includes('source')
+      ? [{ source: 'for-you', _count: { _all: 70 } }, { source: null, _count: { _all: 10 } }, { source: 'search', _count: { _all: 20 } }]
+      : EVENT_GROUPS
+  ));
+  prismaMock.creatorFollow.findMany.mockImplementation(async () => []);
+  prismaMock.creatorFollow.count.mockImplementation(async () => 0);
+  prismaMock.comment.findMany.mockImplementation(async () => []);
+});
+
+describe('ingest', () => {
+  test('keeps only known traffic sources', () => {
+    expect(normalizeTrafficSource('trending')).toBe('trending');
+    expect(normalizeTrafficSource('billboard')).toBeNull();
+    expect(normalizeTrafficSource(undefined)).toBeNull();
+  });
+
+  test('rounds and caps watch time, dropping junk', () => {
+    expect(clampWatchMs(1234.4)).toBe(1234);
+    expect(clampWatchMs(Number.MAX_SAFE_INTEGER)).toBe(6 * 60 * 60 * 1000);
+    expect(clampWatchMs(-5)).toBeNull();
+    expect(clampWatchMs('900')).toBeNull();
+  });
+
+  test('parses ranges, defaulting to 28 days', () => {
+    expect(parseAnalyticsRange({}, NOW)).toEqual({ range: '28d', days: 28, since: new Date('2026-09-20T12:00:00.000Z') });
+    expect(parseAnalyticsRange({ range: '7d' }, NOW).days).toBe(7);
+    expect(parseAnalyticsRange({ range: '1y' }, NOW)).toBeNull();
+  });
+});
+
+describe('videoMetrics', () => {
+  const byVideo = eventCountsByVideo(EVENT_GROUPS);
+
+  test('computes views, average view duration and swipe-away rate', () => {
+    const metrics = videoMetrics(byVideo.get('vid-1'), 60);
+    expect(metrics).toMatchObject({ views: 100, avgViewSeconds: 5, avgViewPercent: 0.083, swipeAwayRate: 0.6, completionRate: 0.1 });
+  });
+
+  test('retention starts at 100% and never rises', () => {
+    expect(videoMetrics(byVideo.get('vid-1'), 60).retention).toEqual([
+      { percent: 0, share: 1 }, { percent: 25, share: 0.3 }, { percent: 50, share: 0.25 },
+      { percent: 75, share: 0.25 }, { percent: 100, share: 0.1 },
+    ]);
+  });
+
+  test('is all zeros for a video nobody saw', () => {
+    const metrics = videoMetrics(countsFor(byVideo, 'unseen'));
+    expect(metrics).toMatchObject({ views: 0, avgViewSeconds: 0, avgViewPercent: null, swipeAwayRate: 0 });
+    expect(metrics.retention.every((p) => p.share === 0)).toBe(true);
+  });
+});
+
+describe('benchmark and breakdowns', () => {
+  test('median handles odd, even and empty lists', () => {
+    expect(median([3, 1, 2])).toBe(2);
+    expect(median([4, 1, 3, 2])).toBe(2.5);
+    expect(median([])).toBeNull();
+  });
+
+  test('benchmarks against the median viewed video', () => {
+    const byVideo = eventCountsByVideo(EVENT_GROUPS);
+    const list = ['vid-1', 'vid-2', 'vid-3'].map((id) => videoMetrics(byVideo.get(id), 60));
+    list.push(videoMetrics(countsFor(byVideo, 'unseen'), 60));
+    expect(benchmarkFrom(list)).toEqual({ videos: 3, views: 100, avgViewSeconds: 20, swipeAwayRate: 0.2, completionRate: 0.1 });
+  });
+
+  test('traffic sources are biggest first, unknown as other', () => {
+    expect(trafficSourcesFrom([
+      { source: 'search', _count: { _all: 20 } },
+      { source: null, _count: { _all: 5 } },
+      { source: 'legacy', _count: { _all: 5 } },
+      { source: 'for-you', _count: { _all: 70 } },
+    ])).toEqual([
+      { source: 'for-you', views: 70, share: 0.7 },
+      { source: 'search', views: 20, share: 0.2 },
+      { source: 'other', views: 10, share: 0.1 },
+    ]);
+  });
+
+  test('follower growth is zero-filled per UTC day', () => {
+    const days = dailyCounts(
+      ['2026-10-16T08:00:00.000Z', '2026-10-18T01:00:00.000Z', '2026-10-18T09:00:00.000Z'],
+      new Date('2026-10-15T12:00:00.000Z'),
+      NOW,
+    );
+    expect(days).toEqual([
+      { date: '2026-10-15', count: 0 }, { date: '2026-10-16', count: 1 },
+      { date: '2026-10-17', count: 0 }, { date: '2026-10-18', count: 2 },
+    ]);
+  });
+
+  test('top comments rank replies plus reactions', () => {
+    const comment = (id, replyCount, reactionCounts, createdAt = NOW) => ({
+      id, videoId: 'vid-1', text: id, replyCount, reactionCounts, createdAt,
+      user: { id: 'u', firstName: 'Ada', lastName: 'O', avatar: null },
+    });
+    expect(commentEngagement(comment('a', 2, { '🔥': 3, '😂': 1 }))).toBe(6);
+    const top = topComments([
+      comment('quiet', 0, null),
+      comment('older', 4, null, new Date('2026-10-01T00:00:00.000Z')),
+      comment('newer', 1, { '🔥': 3 }),
+      comment('loud', 2, { '🔥': 9 }),
+    ], 3);
+    expect(top.map((c) => c.id)).toEqual(['loud', 'newer', 'older']);
+    expect(top[0]).toMatchObject({ userName: 'Ada O', engagement: 11, replyCount: 2 });
+  });
+});
+
+describe('getVideoAnalytics', () => {
+  test('returns the video against the creator median', async () => {
+    const res = makeRes();
+    await getVideoAnalytics({ user: { id: 'creator' }, params: { id: 'vid-1' }, query: { range: '7d' } }, res);
+
+    expect(res.body.success).toBe(true);
+    expect(res.body.data.range).toBe('7d');
+    expect(res.body.data.video).toMatchObject({ id: 'vid-1', lifetimeViews: 500, comments: 4 });
+    expect(res.body.data.metrics.swipeAwayRate).toBe(0.6);
+    expect(res.body.data.benchmark).toMatchObject({ videos: 3, swipeAwayRate: 0.2 });
+    expect(res.body.data.trafficSources[0]).toEqual({ source: 'for-you', views: 70, share: 0.7 });
+
+    const eventArgs = prismaMock.videoEvent.groupBy.mock.calls.map(([args]) => args);
+    expect(eventArgs[0].where.video).toEqual({ userId: 'creator' });
+    expect(eventArgs[1].where).toMatchObject({ eventType: 'impression', videoId: 'vid-1' });
+  });
+
+  test('is only for the creator', async () => {
+    const res = makeRes();
+    await getVideoAnalytics({ user: { id: 'someone-else' }, params: { id: 'vid-1' }, query: {} }, res);
+    expect(res.statusCode).toBe(403);
+    expect(prismaMock.videoEvent.groupBy).not.toHaveBeenCalled();
+  });
+
+  test('404s a missing video and 400s an unknown range', async () => {
+    prismaMock.video.findUnique.mockImplementation(async () => null);
+    const missing = makeRes();
+    await getVideoAnalytics({ user: { id: 'creator' }, params: { id: 'gone' }, query: {} }, missing);
+    expect(missing.statusCode).toBe(404);
+
+    const badRange = makeRes();
+    await getVideoAnalytics({ user: { id: 'creator' }, params: { id: 'vid-1' }, query: { range: 'forever' } }, badRange);
+    expect(badRange.statusCode).toBe(400);
+  });
+});
+
+describe('getChannelAnalytics', () => {
+  test('sums the channel, ranks top videos and counts new followers', async () => {
+    prismaMock.creatorFollow.findMany.mockImplementation(async () => [
+      { createdAt: new Date() }, { createdAt: new Date() },
+    ]);
+    prismaMock.creatorFollow.count.mockImplementation(async () => 42);
+    const res = makeRes();
+    await getChannelAnalytics({ user: { id: 'creator' }, query: {} }, res);
+
+    const { data } = res.body;
+    expect(data.videoCount).toBe(3);
+    expect(data.totals).toMatchObject({ views: 350, avgViewSeconds: 15.7, swipeAwayRate: 0.314 });
+    expect(data.topVideos.map((v) => [v.video.id, v.metrics.views])).toEqual([['vid-2', 200], ['vid-1', 100], ['vid-3', 50]]);
+    expect(data.followers.total).toBe(42);
+    expect(data.followers.gained).toBe(2);
+    expect(data.followers.daily).toHaveLength(29);
+    expect(data.followers.daily[data.followers.daily.length - 1].count).toBe(2);
+
+    const [followArgs] = prismaMock.creatorFollow.findMany.mock.calls[0];
+    expect(followArgs.where.followingId).toBe('creator');
+  });
+});
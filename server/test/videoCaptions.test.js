@@ -0,0 +1,284 @@
+/**
+ * Video caption tests (lib/captions.mjs, lib/transcription.mjs and
+ * controllers/videoCaptionController.mjs).
+ *
+ * Locks:
+ *  - WebVTT and SRT parse through one reader — settings, markup, NOTE blocks
+ *    and SRT counters never leak into cue text
+ *  - validateCues rejects unusable cues by position and sorts the rest
+ *  - Whisper segments are split into phone-readable cues
+ *  - writes are owner-only, and every write re-syncs Video.captionLanguages
+ *  - viewers never see pending tracks; auto captions 503 with no provider and
+ *    never overwrite an uploaded track
+ *
+ * Only prisma is mocked — see the note in adSecurity.test.js.
+ */
+import { test, expect, mock, beforeEach, afterEach, describe } from 'bun:test';
+import {
+  parseCaptionFile, parseTimestamp, validateCues, toWebVTT, cuesFromSegments, captionLabel,
+} from '../lib/captions.mjs';
+import { resolveTranscriptionProvider, transcribe, TranscriptionError } from '../lib/transcription.mjs';
+
+const prismaMock = {
+  video: {
+    findUnique: mock(async () => null),
+    update: mock(async () => ({})),
+  },
+  videoCaption: {
+    findMany: mock(async () => []),
+    findUnique: mock(async () => null),
+    upsert: mock(async () => null),
+    update: mock(async () => null),
+    deleteMany: mock(async () => ({ count: 0 })),
+  },
+  appUser: {
+    findUnique: mock(async () => ({ role: 'USER' })),
+  },
+};
+
+mock.module('../lib/prisma.mjs', () => ({ default: prismaMock }));
+
+const {
+  listVideoCaptions, uploadVideoCaption, requestAutoCaptions, updateVideoCaption,
+} = await import('../controllers/videoCaptionController.mjs');
+
+function makeRes() {
+  return {
+    statusCode: 200,
+    body: null,
+    headers: {},
+    status(c) { this.statusCode = c; return this; },
+    json(b) { this.body = b; return this; },
+    set(k, v) { this.headers[k] = v; return this; },
+    send(b) { this.body = b; return this; },
+  };
+}
+
+const track = (overrides = {}) => ({
+  id: 'cap-1', videoId: 'vid-1', language: 'en', label: 'English', source: 'upload', status: 'ready',
+  cues: [{ start: 0, end: 2, text: 'Hi' }], createdAt: new Date(), updatedAt: new Date(), ...overrides,
+});
+
+const SRT = `1
+00:00:01,000 --> 00:00:03,500
+Hello <i>there</i>
+
+2
+00:00:04,000 --> 00:00:06,000
+{\\an8}Second line
+`;
+
+const VTT = `WEBVTT - sample
+
+NOTE this is not a cue
+00:00:09.000 --> 00:00:10.000
+
+intro
+00:01.000 --> 00:03.500 align:start line:90%
+<v Roger>Hello &amp; welcome</v>
+
+00:00:04.000 --> 00:00:06.000
+`;
+
+let savedEnv;
+
+beforeEach(() => {
+  savedEnv = { ...process.env };
+  delete process.env.TRANSCRIPTION_PROVIDER;
+  delete process.env.TRANSCRIPTION_API_KEY;
+  delete process.env.GROQ_API_KEY;
+  prismaMock.video.findUnique = mock(async () => ({ id: 'vid-1', userId: 'owner' }));
+  prismaMock.video.update = mock(async () => ({}));
+  prismaMock.videoCaption.findMany = mock(async () => []);
+  prismaMock.videoCaption.findUnique = mock(async () => null);
+  prismaMock.videoCaption.upsert = mock(async (args) => track({ ...args.create }));
+  prismaMock.videoCaption.update = mock(async (args) => track({ ...args.data }));
+  prismaMock.appUser.findUnique = mock(async () => ({ role: 'USER' }));
+});
+
+afterEach(() => {
+  process.env = savedEnv;
+});
+
+describe('parseCaptionFile', () => {
+  test('reads SRT, stripping markup and positioning tags', () => {
+    expect(parseCaptionFile(SRT)).toEqual({
+      cues: [
+        { start: 1, end: 3.5, text: 'Hello there' },
+        { start: 4, end: 6, text: 'Second line' },
+      ],
+      error: null,
+    });
+  });
+
+  test('reads WebVTT with cue ids, settings and entities; skips NOTE blocks and empty cues', () => {
+    expect(parseCaptionFile(VTT.replace(/\n/g, '\r\n')).cues).toEqual([
+      { start: 1, end: 3.5, text: 'Hello & welcome' },
+    ]);
+  });
+
+  test('names the broken timing line and rejects files with no cues', () => {
+    expect(parseCaptionFile('1\n00:00:01,000 --> soon\nHi\n').error).toContain('00:00:01,000 --> soon');
+    expect(parseCaptionFile('just some text').error).toBe('Not a WebVTT or SRT file');
+    expect(parseCaptionFile('   ').error).toBe('The caption file is empty');
+  });
+
+  test('parseTimestamp accepts both separators and optional hours', () => {
+    expect(parseTimestamp('01:02:03,4')).toBe(3723.4);
+    expect(parseTimestamp('02:03.450')).toBe(123.45);
+    expect(parseTimestamp('2:3.4')).toBeNull();
+  });
+});
+
+describe('validateCues', () => {
+  test('sorts, trims and rounds to milliseconds', () => {
+    expect(validateCues([
+      { start: 5, end: 6, text: ' b ' },
+      { start: 1.23456, end: 2, text: 'a' },
+    ])).toEqual({ cues: [{ start: 1.235, end: 2, text: 'a' }, { start: 5, end: 6, text: 'b' }], error: null });
+  });
+
+  test('points at the first unusable cue', () => {
+    expect(validateCues([{ start: 1, end: 2, text: 'ok' }, { start: 3, end: 3, text: 'x' }]).error)
+      .toBe('Cue 2: must end after it starts');
+    expect(validateCues([{ start: 0, end: 1, text: '  ' }]).error).toBe('Cue 1: has no text');
+    expect(validateCues([]).error).toBe('A caption track needs at least one cue');
+  });
+
+  test('toWebVTT round-trips through the parser', () => {
+    const cues = [{ start: 3661.5, end: 3663, text: 'a < b' }];
+    expect(toWebVTT(cues)).toBe('WEBVTT\n\n01:01:01.500 --> 01:01:03.000\na &lt; b\n');
+    expect(parseCaptionFile(toWebVTT(cues)).cues).toEqual(cues);
+  });
+});
+
+describe('transcription', () => {
+  test('long segments are split at word boundaries with time shared by length', () => {
+    const cues = cuesFromSegments([{ start: 0, end: 4, text: 'aaaa bbbb cccc dddd' }], 9);
+    expect(cues.map((c) => c.text)).toEqual(['aaaa bbbb', 'cccc dddd']);
+    expect(cues[0].start).toBe(0);
+    expect(cues[1].end).toBe(4);
+  });
+
+  test('provider resolution: stub, explicit endpoint, then Groq', () => {
+    expect(resolveTranscriptionProvider({})).toBeNull();
+    expect(resolveTranscriptionProvider({ TRANSCRIPTION_PROVIDER: 'stub', GROQ_API_KEY: 'g' }).name).toBe('stub');
+    expect(resolveTranscriptionProvider({ TRANSCRIPTION_API_KEY: 'k', GROQ_API_KEY: 'g' }).name).toBe('openai');
+    expect(resolveTranscriptionProvider({ GROQ_API_KEY: 'g' }).model).toBe('whisper-large-v3-turbo');
+  });
+
+  test('the stub covers the video without audio; a real provider needs some', async () => {
+    const cues = await transcribe({ name: 'stub' }, { audio: null, language: 'en', durationSeconds: 10 });
+    expect(cues.map((c) => [c.start, c.end])).toEqual([[0, 4], [4, 8], [8, 10]]);
+    await expect(transcribe({ name: 'groq' }, { audio: null, language: 'en' })).rejects.toBeInstanceOf(TranscriptionError);
+  });
+
+  test('sends verbose_json and maps the segments', async () => {
+    const fetchImpl = mock(async () => ({
+      ok: true,
+      json: async () => ({ segments: [{ start: 0, end: 2, text: ' Hello ' }] }),
+    }));
+    const provider = resolveTranscriptionProvider({ GROQ_API_KEY: 'g' });
+    const cues = await transcribe(provider, { audio: Buffer.from('mp3'), language: 'sw', fetchImpl });
+    expect(cues).toEqual([{ start: 0, end: 2, text: 'Hello' }]);
+    const [, init] = fetchImpl.mock.calls[0];
+    expect(init.headers.Authorization).toBe('Bearer g');
+    expect(init.body.get('response_format')).toBe('verbose_json');
+    expect(init.body.get('language')).toBe('sw');
+  });
+
+  test('captionLabel falls back to the language code', () => {
+    expect(captionLabel('sw', 'auto')).toBe('SW (auto)');
+    expect(captionLabel('en', 'upload', '  English  ')).toBe('English');
+  });
+});
+
+describe('caption endpoints', () => {
+  test('viewers only get ready tracks; the owner sees everything', async () => {
+    await listVideoCaptions({ params: { id: 'vid-1' }, user: { id: 'viewer' } }, makeRes(), () => {});
+    expect(prismaMock.videoCaption.findMany.mock.calls[0][0].where).toEqual({ videoId: 'vid-1', status: 'ready' });
+
+    await listVideoCaptions({ params: { id: 'vid-1' }, user: { id: 'owner' } }, makeRes(), () => {});
+    expect(prismaMock.videoCaption.findMany.mock.calls[1][0].where).toEqual({ videoId: 'vid-1' });
+  });
+
+  test('a non-owner cannot attach captions', async () => {
+    const res = makeRes();
+    await uploadVideoCaption({
+      params: { id: 'vid-1' }, user: { id: 'someone' }, body: { language: 'en' },
+      file: { buffer: Buffer.from(SRT) },
+    }, res, () => {});
+    expect(res.statusCode).toBe(403);
+    expect(prismaMock.videoCaption.upsert).not.toHaveBeenCalled();
+  });
+
+  test('an uploaded file is parsed, stored ready and synced to the video', async () => {
+    prismaMock.videoCaption.findMany = mock(async () => [{ language: 'en' }]);
+    const res = makeRes();
+    await uploadVideoCaption({
+      params: { id: 'vid-1' }, user: { id: 'owner' }, body: { language: 'EN', label: 'English' },
+      file: { buffer: Buffer.from(SRT) },
+    }, res, () => {});
+
+    expect(res.statusCode).toBe(201);
+    const { create } = prismaMock.videoCaption.upsert.mock.calls[0][0];
+    expect(create).toMatchObject({ language: 'en', label: 'English', source: 'upload', status: 'ready' });
+    expect(create.cues).toHaveLength(2);
+    expect(prismaMock.video.update.mock.calls[0][0]).toEqual({ where: { id: 'vid-1' }, data: { captionLanguages: ['en'] } });
+  });
+
+  test('an unreadable file is a 400 with the parser message', async () => {
+    const res = makeRes();
+    await uploadVideoCaption({
+      params: { id: 'vid-1' }, user: { id: 'owner' }, body: { language: 'en' },
+      file: { buffer: Buffer.from('not captions') },
+    }, res, () => {});
+    expect(res.statusCode).toBe(400);
+    expect(res.body.code).toBe('INVALID_CAPTIONS');
+  });
+
+  test('auto captions 503 without a provider', async () => {
+    const res = makeRes();
+    await requestAutoCaptions({ params: { id: 'vid-1' }, user: { id: 'owner' }, body: { language: 'en' } }, res, () => {});
+    expect(res.statusCode).toBe(503);
+    expect(res.body.code).toBe('TRANSCRIPTION_UNAVAILABLE');
+  });
+
+  test('auto captions queue a pending track but never replace an upload', async () => {
+    process.env.TRANSCRIPTION_PROVIDER = 'stub';
+    const res = makeRes();
+    await requestAutoCaptions({ params: { id: 'vid-1' }, user: { id: 'owner' }, body: { language: 'en' } }, res, () => {});
+    expect(res.statusCode).toBe(202);
+    expect(prismaMock.videoCaption.upsert.mock.calls[0][0].create).toMatchObject({ source: 'auto', status: 'pending', cues: null });
+
+    prismaMock.videoCaption.findUnique = mock(async () => track());
+    const conflict = makeRes();
+    await requestAutoCaptions({ params: { id: 'vid-1' }, user: { id: 'owner' }, body: { language: 'en' } }, conflict, () => {});
+    expect(conflict.statusCode).toBe(409);
+  });
+
+  test('edits wait for a track that is still being generated', async () => {
+    prismaMock.videoCaption.findUnique = mock(async () => track({ source: 'auto', status: 'processing', cues: null }));
+    const res = makeRes();
+    await updateVideoCaption({
+      params: { id: 'vid-1', language: 'en' }, user: { id: 'owner' },
+      body: { cues: [{ start: 0, end: 1, text: 'Hi' }] },
+    }, res, () => {});
+    expect(res.statusCode).toBe(409);
+    expect(prismaMock.videoCaption.update).not.toHaveBeenCalled();
+  });
+
+  test('edited cues are validated and mark the track ready', async () => {
+    prismaMock.videoCaption.findUnique = mock(async () => track({ source: 'auto', status: 'failed', cues: null }));
+    const res = makeRes();
+    await updateVideoCaption({
+      params: { id: 'vid-1', language: 'en' }, user: { id: 'owner' },
+      body: { cues: [{ start: 2, end: 3, text: 'b' }, { start: 0, end: 1, text: 'a' }] },
+    }, res, () => {});
+    expect(res.statusCode).toBe(200);
+    expect(prismaMock.videoCaption.update.mock.calls[0][0].data).toEqual({
+      cues: [{ start: 0, end: 1, text: 'a' }, { start: 2, end: 3, text: 'b' }],
+      status: 'ready',
+    });
+  });
+});
@@ -0,0 +1,371 @@
+/**
+ * Threaded video comment tests (lib/videoComments.mjs and
+ * controllers/videoCommentController.mjs).
+ *
+ * Locks:
+ *  - threads stop at two levels — a reply to a depth-2 comment becomes its sibling
+ *  - mentions must be '@' spans of the text; keyword matches are whole words
+ *  - held comments stay out of commentsCount/replyCount until approved, and the
+ *    creator's own comments are never held
+ *  - moderation is owner-only and moves comments in and out of the counts
+ *  - reactions toggle and are recounted, never incremented blindly
+ *
+ * Only prisma is mocked — see the note in adSecurity.test.js.
+ */
+import { test, expect, mock, beforeEach, describe } from 'bun:test';
+import {
+  COMMENT_STATUS,
+  ancestorIds,
+  commentAudience,
+  initialCommentStatus,
+  matchesBlockedKeyword,
+  nextCommentStatus,
+  normalizeKeywords,
+  normalizeMentions,
+  reactionCountsFrom,
+  threadPosition,
+} from '../lib/videoComments.mjs';
+
+const prismaMock = {
+  video: {
+    findUnique: mock(async () => null),
+    update: mock(async () => ({})),
+  },
+  comment: {
+    findUnique: mock(async () => null),
+    findMany: mock(async () => []),
+    count: mock(async () => 0),
+    create: mock(async () => ({})),
+    update: mock(async () => ({})),
+    updateMany: mock(async () => ({ count: 0 })),
+  },
+  commentReaction: {
+    findUnique: mock(async () => null),
+    findMany: mock(async () => []),
+    create: mock(async () => ({})),
+    delete: mock(async () => ({})),
+    groupBy: mock(async () => []),
+  },
+  appUser: {
+    findUnique: mock(async () => ({ id: 'fan', role: 'USER' })),
+    findMany: mock(async () => []),
+    update: mock(async () => ({})),
+  },
+  notification: {
+    create: mock(async () => ({ id: 'n-1' })),
+  },
+  $transaction: mock(async (arg) => Promise.all(arg)),
+};
+
+mock.module('../lib/prisma.mjs', () => ({ default: prismaMock }));
+
+const {
+  commentPost, getVideoComments, moderateComment, reactToComment, updateCommentSettings,
+} = await import('../controllers/videoCommentController.mjs');
+
+function makeRes() {
+  return {
+    statusCode: 200,
+    body: null,
+    headers: {},
+    status(c) { this.statusCode = c; return this; },
+    json(b) { this.body = b; return this; },
+    set(k, v) { this.headers[k] = v; return this; },
+  };
+}
+
+const video = (overrides = {}) => ({
+  id: 'vid-1', userId: 'owner', commentsCount: 3,
+  user: { holdCommentsForReview: false, commentBlockedKeywords: [] },
+  ...overrides,
+});
+
+const row = (overrides = {}) => ({
+  id: 'c-1', text: 'hello', mediaUrls: [], userId: 'fan', videoId: 'vid-1',
+  parentId: null, rootId: null, depth: 0, mentions: [], status: 'visible',
+  pinnedAt: null, replyCount: 0, reactionCounts: null, createdAt: new Date(),
+  user: { id: 'fan', firstName: 'F', lastName: 'N', avatar: null },
+  ...overrides,
+});
+
+beforeEach(() => {
+  prismaMock.video.findUnique = mock(async () => video());
+  prismaMock.video.update = mock(async () => ({ id: 'vid-1', commentsCount: 4 }));
+  prismaMock.comment.findUnique = mock(async () => null);
+  prismaMock.comment.findMany = mock(async () => []);
+  prismaMock.comment.count = mock(async () => 0);
+  prismaMock.comment.create = mock(async (args) => row({ id: 'c-new', ...args.data }));
+  prismaMock.comment.update = mock(async (args) => row({ id: args.where.id, ...args.data }));
+  prismaMock.comment.updateMany = mock(async () => ({ count: 1 }));
+  prismaMock.commentReaction.findUnique = mock(async () => null);
+  prismaMock.commentReaction.findMany = mock(async () => []);
+  prismaMock.commentReaction.create = mock(async () => ({}));
+  prismaMock.commentReaction.delete = mock(async () => ({}));
+  prismaMock.commentReaction.groupBy = mock(async () => []);
+  prismaMock.appUser.findUnique = mock(async () => ({ id: 'fan', role: 'USER' }));
+  prismaMock.appUser.findMany = mock(async () => []);
+  prismaMock.appUser.update = mock(async (args) => ({
+    commentBlockedKeywords: args.data.commentBlockedKeywords ?? [],
+    holdCommentsForReview: args.data.holdCommentsForReview ?? false,
+  }));
+  prismaMock.$transaction = mock(async (arg) => Promise.all(arg));
+});
+
+// ---------------------------------------------------------------------------
+// lib/videoComments.mjs
+// ---------------------------------------------------------------------------
+
+describe('threadPosition', () => {
+  test('top-level, reply and reply-to-reply', () => {
+    expect(threadPosition(null)).toEqual({ parentId: null, rootId: null, depth: 0 });
+    expect(threadPosition({ id: 'a', parentId: null, rootId: null, depth: 0 }))
+      .toEqual({ parentId: 'a', rootId: 'a', depth: 1 });
+    expect(threadPosition({ id: 'b', parentId: 'a', rootId: 'a', depth: 1 }))
+      .toEqual({ parentId: 'b', rootId: 'a', depth: 2 });
+  });
+
+  test('a reply to a depth-2 comment is filed next to it', () => {
+    expect(threadPosition({ id: 'c', parentId: 'b', rootId: 'a', depth: 2 }))
+      .toEqual({ parentId: 'b', rootId: 'a', depth: 2 });
+  });
+
+  test('ancestorIds names the parent and a distinct root once each', () => {
+    expect(ancestorIds({ parentId: null, rootId: null })).toEqual([]);
+    expect(ancestorIds({ parentId: 'a', rootId: 'a' })).toEqual(['a']);
+    expect(ancestorIds({ parentId: 'b', rootId: 'a' })).toEqual(['b', 'a']);
+  });
+});
+
+describe('normalizeMentions', () => {
+  const text = 'hey @Ann Lee and @Bo';
+
+  test('accepts @ spans and sorts them', () => {
+    expect(normalizeMentions(text, [
+      { userId: 'u2', offset: 17, length: 3 },
+      { userId: 'u1', offset: 4, length: 8 },
+    ])).toEqual([
+      { userId: 'u1', offset: 4, length: 8 },
+      { userId: 'u2', offset: 17, length: 3 },
+    ]);
+    expect(normalizeMentions(text, undefined)).toEqual([]);
+  });
+
+  test('rejects spans off an @, out of range or overlapping', () => {
+    expect(normalizeMentions(text, [{ userId: 'u1', offset: 0, length: 3 }])).toBeNull();
+    expect(normalizeMentions(text, [{ userId: 'u1', offset: 17, length: 10 }])).toBeNull();
+    expect(normalizeMentions(text, [
+      { userId: 'u1', offset: 4, length: 8 },
+      { userId: 'u2', offset: 4, length: 4 },
+    ])).toBeNull();
+    expect(normalizeMentions(text, 'u1')).toBeNull();
+  });
+});
+
+describe('blocked keywords', () => {
+  test('normalizeKeywords trims, lower-cases and de-duplicates', () => {
+    expect(normalizeKeywords([' Scam ', 'scam', 'free  money', ''])).toEqual(['scam', 'free money']);
+    expect(normalizeKeywords('scam')).toBeNull();
+    expect(normalizeKeywords(['x'.repeat(41)])).toBeNull();
+  });
+
+  test('matches whole words and phrases only', () => {
+    expect(matchesBlockedKeyword('This is a SCAM!', ['scam'])).toBe('scam');
+    expect(matchesBlockedKeyword('I love scampi', ['scam'])).toBeNull();
+    expect(matchesBlockedKeyword('get FREE\nmoney now', ['free money'])).toBe('free money');
+    expect(matchesBlockedKeyword('a+b', ['a+b'])).toBe('a+b');
+  });
+
+  test('initialCommentStatus never holds the creator', () => {
+    const settings = { holdCommentsForReview: true, commentBlockedKeywords: ['scam'] };
+    expect(initialCommentStatus({ authorId: 'owner', ownerId: 'owner', text: 'scam', settings })).toBe('visible');
+    expect(initialCommentStatus({ authorId: 'fan', ownerId: 'owner', text: 'nice', settings })).toBe('held');
+    expect(initialCommentStatus({
+      authorId: 'fan', ownerId: 'owner', text: 'nice', settings: { ...settings, holdCommentsForReview: false },
+    })).toBe('visible');
+  });
+});
+
+describe('moderation helpers', () => {
+  test('nextCommentStatus only allows meaningful transitions', () => {
+    expect(nextCommentStatus('held', 'approve')).toBe('visible');
+    expect(nextCommentStatus('visible', 'approve')).toBeNull();
+    expect(nextCommentStatus('held', 'hide')).toBe('hidden');
+    expect(nextCommentStatus('hidden', 'unhide')).toBe('visible');
+    expect(nextCommentStatus('hidden', 'pin')).toBeNull();
+    expect(nextCommentStatus('visible', 'delete')).toBeNull();
+  });
+
+  test('commentAudience skips the actor and keeps held comments with the creator', () => {
+    const comment = { userId: 'fan', status: 'visible', mentions: [{ userId: 'm1' }, { userId: 'fan' }] };
+    expect(commentAudience({ ownerId: 'owner', comment, parentAuthorId: 'p1', actorId: 'fan' }))
+      .toEqual(['owner', 'p1', 'm1']);
+    expect(commentAudience({ ownerId: 'owner', comment: { ...comment, status: 'held' }, actorId: 'fan' }))
+      .toEqual(['owner']);
+  });
+
+  test('reactionCountsFrom reads either _count shape', () => {
+    expect(reactionCountsFrom([{ emoji: '🔥', _count: 2 }, { emoji: '❤️', _count: { _all: 1 } }, { emoji: '😂', _count: 0 }]))
+      .toEqual({ '🔥': 2, '❤️': 1 });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// commentPost
+// ---------------------------------------------------------------------------
+
+describe('commentPost', () => {
+  const post = (body, userId = 'fan') => {
+    const res = makeRes();
+    return commentPost({ params: { id: 'vid-1' }, body, user: { id: userId } }, res, () => {}).then(() => res);
+  };
+
+  test('a reply bumps the parent and the thread root', async () => {
+    prismaMock.comment.findUnique = mock(async () => row({ id: 'r1', parentId: 'root', rootId: 'root', depth: 1 }));
+
+    const res = await post({ text: 'agreed', parentId: 'r1' });
+
+    expect(res.statusCode).toBe(201);
+    expect(prismaMock.comment.create.mock.calls[0][0].data).toMatchObject({ parentId: 'r1', rootId: 'root', depth: 2, status: 'visible' });
+    expect(prismaMock.comment.updateMany.mock.calls[0][0].where.id.in).toEqual(['r1', 'root']);
+    expect(prismaMock.video.update.mock.calls.length).toBe(1);
+    expect(res.body.comment).toMatchObject({ parentId: 'r1', rootId: 'root', depth: 2 });
+  });
+
+  test('replying to a held or foreign comment is a 404', async () => {
+    prismaMock.comment.findUnique = mock(async () => row({ status: 'held' }));
+    expect((await post({ text: 'hi', parentId: 'c-1' })).statusCode).toBe(404);
+
+    prismaMock.comment.findUnique = mock(async () => row({ videoId: 'other' }));
+    expect((await post({ text: 'hi', parentId: 'c-1' })).statusCode).toBe(404);
+    expect(prismaMock.comment.create.mock.calls.length).toBe(0);
+  });
+
+  test('a keyword match is held and left out of the counts', async () => {
+    prismaMock.video.findUnique = mock(async () => video({ user: { holdCommentsForReview: false, commentBlockedKeywords: ['scam'] } }));
+
+    const res = await post({ text: 'total scam' });
+
+    expect(res.statusCode).toBe(201);
+    expect(res.body.comment.status).toBe('held');
+    expect(prismaMock.video.update.mock.calls.length).toBe(0);
+    expect(prismaMock.comment.updateMany.mock.calls.length).toBe(0);
+  });
+
+  test('keeps mentions of existing accounts only and rejects malformed ones', async () => {
+    prismaMock.appUser.findMany = mock(async () => [{ id: 'u1' }]);
+
+    const res = await post({
+      text: '@Ann and @Gone',
+      mentions: [{ userId: 'u1', offset: 0, length: 4 }, { userId: 'u9', offset: 9, length: 5 }],
+    });
+    expect(res.statusCode).toBe(201);
+    expect(prismaMock.comment.create.mock.calls[0][0].data.mentions).toEqual([{ userId: 'u1', offset: 0, length: 4 }]);
+
+    const bad = await post({ text: 'no at sign', mentions: [{ userId: 'u1', offset: 0, length: 2 }] });
+    expect(bad.statusCode).toBe(400);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// getVideoComments
+// ---------------------------------------------------------------------------
+
+test('getVideoComments lists top-level comments pinned first with the viewer\'s own held ones', async () => {
+  prismaMock.comment.findMany = mock(async () => [
+    row({ id: 'p', pinnedAt: new Date(), replies: [row({ id: 'r', parentId: 'p', rootId: 'p', depth: 1 })] }),
+  ]);
+  prismaMock.comment.count = mock(async () => 1);
+  prismaMock.commentReaction.findMany = mock(async () => [{ commentId: 'r', emoji: '🔥' }]);
+
+  const res = makeRes();
+  await getVideoComments({ params: { id: 'vid-1' }, query: {}, user: { id: 'fan' } }, res, () => {});
+
+  const args = prismaMock.comment.findMany.mock.calls[0][0];
+  expect(args.where).toMatchObject({ videoId: 'vid-1', depth: 0, OR: [{ status: 'visible' }, { userId: 'fan' }] });
+  expect(args.orderBy[0]).toEqual({ pinnedAt: { sort: 'desc', nulls: 'last' } });
+  expect(res.body.data.comments[0].isPinned).toBe(true);
+  expect(res.body.data.comments[0].replies[0].myReactions).toEqual(['🔥']);
+});
+
+// ---------------------------------------------------------------------------
+// moderateComment
+// ---------------------------------------------------------------------------
+
+describe('moderateComment', () => {
+  const moderate = (action, userId = 'owner') => {
+    const res = makeRes();
+    return moderateComment(
+      { params: { id: 'vid-1', commentId: 'c-1' }, body: { action }, user: { id: userId } }, res, () => {},
+    ).then(() => res);
+  };
+
+  test('is owner-only', async () => {
+    const res = await moderate('hide', 'fan');
+    expect(res.statusCode).toBe(403);
+    expect(prismaMock.$transaction.mock.calls.length).toBe(0);
+  });
+
+  test('approving a held reply counts it everywhere', async () => {
+    prismaMock.comment.findUnique = mock(async () => row({ status: 'held', parentId: 'p', rootId: 'p', depth: 1 }));
+
+    const res = await moderate('approve');
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.data.comment.status).toBe(COMMENT_STATUS.VISIBLE);
+    expect(prismaMock.video.update.mock.calls[0][0].data).toEqual({ commentsCount: { increment: 1 } });
+    expect(prismaMock.comment.updateMany.mock.calls[0][0]).toMatchObject({
+      where: { id: { in: ['p'] } }, data: { replyCount: { increment: 1 } },
+    });
+  });
+
+  test('hiding takes a visible comment out of the counts and unpins it', async () => {
+    prismaMock.comment.findUnique = mock(async () => row({ pinnedAt: new Date() }));
+
+    await moderate('hide');
+
+    expect(prismaMock.comment.update.mock.calls[0][0].data).toEqual({ status: 'hidden', pinnedAt: null });
+    expect(prismaMock.video.update.mock.calls[0][0].data).toEqual({ commentsCount: { increment: -1 } });
+  });
+
+  test('pinning unpins the previous comment and refuses replies', async () => {
+    prismaMock.comment.findUnique = mock(async () => row());
+    await moderate('pin');
+    expect(prismaMock.comment.updateMany.mock.calls[0][0].data).toEqual({ pinnedAt: null });
+
+    prismaMock.comment.findUnique = mock(async () => row({ depth: 1, parentId: 'p', rootId: 'p' }));
+    expect((await moderate('pin')).statusCode).toBe(409);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// reactToComment / updateCommentSettings
+// ---------------------------------------------------------------------------
+
+test('reactToComment toggles and stores the recount', async () => {
+  prismaMock.comment.findUnique = mock(async () => row());
+  prismaMock.commentReaction.findUnique = mock(async () => ({ id: 'x' }));
+  prismaMock.commentReaction.groupBy = mock(async () => [{ emoji: '🔥', _count: 4 }]);
+
+  const res = makeRes();
+  await reactToComment({ params: { id: 'vid-1', commentId: 'c-1' }, body: { emoji: '🔥' }, user: { id: 'fan' } }, res, () => {});
+
+  expect(prismaMock.commentReaction.delete.mock.calls.length).toBe(1);
+  expect(prismaMock.commentReaction.create.mock.calls.length).toBe(0);
+  expect(prismaMock.comment.update.mock.calls[0][0].data).toEqual({ reactionCounts: { '🔥': 4 } });
+  expect(res.body.data).toMatchObject({ reactions: { '🔥': 4 }, myReactions: [] });
+
+  const bad = makeRes();
+  await reactToComment({ params: { id: 'vid-1', commentId: 'c-1' }, body: { emoji: '💩' }, user: { id: 'fan' } }, bad, () => {});
+  expect(bad.statusCode).toBe(400);
+});
+
+test('updateCommentSettings normalizes keywords and rejects oversized lists', async () => {
+  const res = makeRes();
+  await updateCommentSettings({ body: { blockedKeywords: [' Spam ', 'spam'], holdForReview: true }, user: { id: 'owner' } }, res, () => {});
+  expect(prismaMock.appUser.update.mock.calls[0][0].data).toEqual({ commentBlockedKeywords: ['spam'], holdCommentsForReview: true });
+  expect(res.body.data).toEqual({ blockedKeywords: ['spam'], holdForReview: true });
+
+  const bad = makeRes();
+  await updateCommentSettings({ body: { blockedKeywords: Array.from({ length: 51 }, (_, i) => `k${i}`) }, user: { id: 'owner' } }, bad, () => {});
+  expect(bad.statusCode).toBe(400);
+});
@@ -10,6 +10,7 @@
  *  - Completions follow the same dedup with their own kind/counter.
  *  - The views response is slim ({ success, views }) — no signed URLs on the hot path.
  *  - ingestVideoEvents clamps client-controlled sessionId/payload sizes.
+ *    It lifts a known traffic source and dwell time into their own columns.
  */
 import { test, expect, mock, beforeEach } from 'bun:test';
 
@@ -211,3 +212,26 @@ test('ingestVideoEvents clamps oversized payloads to {} and long session ids to
   expect(captured.data[1].payload).toEqual({ ok: true });
   expect(captured.data[0].sessionId.length).toBe(128);
 });
+
+test('ingestVideoEvents lifts a known traffic source and dwell time out of the payload', async () => {
+  let captured;
+  prismaMock.videoEvent.createMany = mock(async (args) => { captured = args; return { count: 3 }; });
+
+  const res = makeRes();
+  await ingestVideoEvents(
+    {
+      body: {
+        sessionId: 'sess-1',
+        events: [
+          { videoId: 'vid-1', eventType: 'impression', payload: { source: 'following' } },
+          { videoId: 'vid-1', eventType: 'impression', payload: { source: 'billboard' } },
+          { videoId: 'vid-1', eventType: 'dwell', payload: { dwellMs: 4210.6 } },
+        ],
+      },
+      headers: {},
+    },
+    res, () => {},
+  );
+
+  expect(captured.data.map((r) => [r.source, r.watchMs])).toEqual([['following', null], [null, null], [null, 4211]]);
+});
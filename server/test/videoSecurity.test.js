@@ -8,7 +8,7 @@
  *    be rewritable through the API (desyncs r2VideoKey, injection vector).
  *  - deleteVideo removes comments + video in ONE transaction (Comment has no DB cascade)
  *    and best-effort-cleans the R2 objects — an R2 failure never fails the request.
- *  - commentPost enforces the 500-char cap and bounded http(s) media URLs server-side.
+ *  - commentPost (videoCommentController) enforces the 500-char cap and bounded http(s) media URLs server-side.
  *
  * Prisma is stubbed via bun's mock.module BEFORE importing the controller. r2.mjs is
  * mocked as a FULL spread of the real module (only deleteFile overridden) — a partial
@@ -42,7 +42,8 @@ mock.module('../lib/prisma.mjs', () => ({ default: prismaMock }));
 let deleteFileMock = mock(async () => true);
 mock.module('../lib/r2.mjs', () => ({ ...realR2, deleteFile: (...args) => deleteFileMock(...args) }));
 
-const { updateVideo, deleteVideo, commentPost } = await import('../controllers/videoController.mjs');
+const { updateVideo, deleteVideo } = await import('../controllers/videoController.mjs');
+const { commentPost } = await import('../controllers/videoCommentController.mjs');
 
 function makeRes() {
   return {
@@ -0,0 +1,233 @@
+/**
+ * Watch history tests (lib/watchHistory.mjs and
+ * controllers/watchHistoryController.mjs).
+ *
+ * Locks:
+ *  - positions are clamped to the duration; a future watchedAt to now
+ *  - a sync keeps one entry per video, the latest, and never rewinds a newer stored row
+ *  - a paused history saves nothing, and says so
+ *  - playback resumes only between RESUME_MIN_SECONDS and COMPLETE_PERCENT
+ *  - history pages by lastWatchedAt, most recent first
+ *
+ * Only prisma is mocked — see the note in adSecurity.test.js. The videos
+ * below have no R2 keys, so nothing is signed.
+ */
+import { test, expect, mock, beforeEach, describe } from 'bun:test';
+import {
+  WATCH_HISTORY_LIMITS,
+  formatHistoryEntry,
+  historyWatchPct,
+  isNewerThanStored,
+  normalizeHistoryEntry,
+  normalizeSyncBatch,
+  parseHistoryPage,
+  resumePositionSeconds,
+} from '../lib/watchHistory.mjs';
+
+const prismaMock = {
+  appUser: {
+    findUnique: mock(async () => ({ watchHistoryPaused: false })),
+    update: mock(async ({ data }) => ({ ...data })),
+  },
+  video: {
+    findMany: mock(async () => []),
+  },
+  videoWatchHistory: {
+    findMany: mock(async () => []),
+    upsert: mock(async (args) => args),
+    deleteMany: mock(async () => ({ count: 0 })),
+  },
+  $transaction: mock(async (ops) => Promise.all(ops)),
+};
+
+mock.module('../lib/prisma.mjs', () => ({ default: prismaMock }));
+
+const {
+  clearWatchHistory, getWatchHistory, removeWatchHistoryEntry, syncWatchHistory, updateWatchHistorySettings,
+} = await import('../controllers/watchHistoryController.mjs');
+
+function makeRes() {
+  return {
+    statusCode: 200,
+    body: null,
+    status(c) { this.statusCode = c; return this; },
+    json(b) { this.body = b; return this; },
+  };
+}
+
+const NOW = new Date('2026-10-18T12:00:00.000Z');
+const entry = (overrides = {}) => ({
+  videoId: 'vid-1', positionSeconds: 120, durationSeconds: 600, watchedAt: '2026-10-18T11:00:00.000Z', ...overrides,
+});
+
+function videoRow(id) {
+  return {
+    id, title: `Video ${id}`, description: null, videoUrl: `https://cdn.example/${id}.mp4`,
+    thumbnail: `https://cdn.example/${id}.jpg`, r2VideoKey: null, r2ThumbnailKey: null,
+    userId: 'creator', likes: 0, views: 0, commentsCount: 0, duration: 600,
+    createdAt: NOW, updatedAt: NOW, user: { id: 'creator', firstName: 'C', lastName: 'R', avatar: null },
+  };
+}
+
+beforeEach(() => {
+  for (const model of Object.values(prismaMock)) {
+    if (typeof model === 'function') { model.mockClear(); continue; }
+    for (const fn of Object.values(model)) fn.mockClear();
+  }
+  prismaMock.appUser.findUnique.mockImplementation(async () => ({ watchHistoryPaused: false }));
+  prismaMock.video.findMany.mockImplementation(async () => []);
+  prismaMock.videoWatchHistory.findMany.mockImplementation(async () => []);
+  prismaMock.videoWatchHistory.deleteMany.mockImplementation(async () => ({ count: 0 }));
+});
+
+describe('normalizeHistoryEntry', () => {
+  test('clamps the position to the duration and computes progress', () => {
+    const normalized = normalizeHistoryEntry(entry({ positionSeconds: 700 }), NOW);
+    expect(normalized.positionSeconds).toBe(600);
+    expect(normalized.progressPercent).toBe(100);
+  });
+
+  test('clamps a watchedAt beyond the allowed skew to now', () => {
+    const future = new Date(NOW.getTime() + WATCH_HISTORY_LIMITS.MAX_FUTURE_SKEW_MS + 1000).toISOString();
+    expect(normalizeHistoryEntry(entry({ watchedAt: future }), NOW).watchedAt).toEqual(NOW);
+  });
+
+  test('rejects malformed entries', () => {
+    expect(normalizeHistoryEntry(entry({ videoId: '' }), NOW)).toBeNull();
+    expect(normalizeHistoryEntry(entry({ positionSeconds: -1 }), NOW)).toBeNull();
+    expect(normalizeHistoryEntry(entry({ durationSeconds: 0 }), NOW)).toBeNull();
+    expect(normalizeHistoryEntry(entry({ watchedAt: 'yesterday-ish' }), NOW)).toBeNull();
+  });
+});
+
+describe('normalizeSyncBatch', () => {
+  test('keeps the latest entry per video and drops malformed ones', () => {
+    const batch = normalizeSyncBatch({
+      entries: [
+        entry({ positionSeconds: 60, watchedAt: '2026-10-18T10:00:00.000Z' }),
+        entry({ positionSeconds: 300, watchedAt: '2026-10-18T11:30:00.000Z' }),
+        entry({ videoId: null }),
+        entry({ videoId: 'vid-2' }),
+      ],
+    }, NOW);
+    expect(batch.map((e) => [e.videoId, e.positionSeconds])).toEqual([['vid-1', 300], ['vid-2', 120]]);
+  });
+
+  test('rejects a missing or oversized batch', () => {
+    expect(normalizeSyncBatch({}, NOW)).toBeNull();
+    const tooMany = Array.from({ length: WATCH_HISTORY_LIMITS.MAX_SYNC_ENTRIES + 1 }, () => entry());
+    expect(normalizeSyncBatch({ entries: tooMany }, NOW)).toBeNull();
+  });
+
+  test('an entry must be strictly newer than the stored row', () => {
+    const normalized = normalizeHistoryEntry(entry(), NOW);
+    expect(isNewerThanStored(normalized, null)).toBe(true);
+    expect(isNewerThanStored(normalized, { lastWatchedAt: '2026-10-18T10:00:00.000Z' })).toBe(true);
+    expect(isNewerThanStored(normalized, { lastWatchedAt: '2026-10-18T11:00:00.000Z' })).toBe(false);
+  });
+});
+
+describe('resume and feed signal', () => {
+  test('resumes between the minimum and practically finished', () => {
+    expect(resumePositionSeconds({ positionSeconds: 5, durationSeconds: 600 })).toBeNull();
+    expect(resumePositionSeconds({ positionSeconds: 120, durationSeconds: 600 })).toBe(120);
+    expect(resumePositionSeconds({ positionSeconds: 590, durationSeconds: 600 })).toBeNull();
+  });
+
+  test('maps progress onto the play milestones', () => {
+    expect(historyWatchPct(10)).toBe(0);
+    expect(historyWatchPct(60)).toBe(50);
+    expect(historyWatchPct(95)).toBe(100);
+  });
+
+  test('parses history pages', () => {
+    expect(parseHistoryPage({})).toEqual({ before: null, limit: WATCH_HISTORY_LIMITS.DEFAULT_PAGE_SIZE });
+    expect(parseHistoryPage({ limit: '1000' }).limit).toBe(WATCH_HISTORY_LIMITS.MAX_PAGE_SIZE);
+    expect(parseHistoryPage({ limit: '0' })).toBeNull();
+    expect(parseHistoryPage({ before: 'nope' })).toBeNull();
+  });
+
+  test('formats a row with its resume position', () => {
+    const row = { videoId: 'vid-1', positionSeconds: 120, durationSeconds: 600, progressPercent: 20, lastWatchedAt: NOW };
+    expect(formatHistoryEntry(row)).toEqual({
+      videoId: 'vid-1', positionSeconds: 120, durationSeconds: 600, progressPercent: 20,
+      watchedAt: NOW.toISOString(), resumeAt: 120, video: null,
+    });
+  });
+});
+
+describe('syncWatchHistory', () => {
+  test('upserts new entries, skipping deleted videos and older positions', async () => {
+    prismaMock.video.findMany.mockImplementation(async () => [{ id: 'vid-1' }, { id: 'vid-2' }]);
+    prismaMock.videoWatchHistory.findMany.mockImplementation(async () => [
+      { videoId: 'vid-2', lastWatchedAt: new Date('2026-10-18T11:59:00.000Z') },
+    ]);
+    const req = {
+      user: { id: 'u1' },
+      body: { entries: [entry(), entry({ videoId: 'vid-2' }), entry({ videoId: 'gone' })] },
+    };
+    const res = makeRes();
+    await syncWatchHistory(req, res);
+
+    expect(res.body.data).toEqual({ saved: 1, paused: false });
+    expect(prismaMock.videoWatchHistory.upsert).toHaveBeenCalledTimes(1);
+    const [args] = prismaMock.videoWatchHistory.upsert.mock.calls[0];
+    expect(args.where).toEqual({ userId_videoId: { userId: 'u1', videoId: 'vid-1' } });
+    expect(args.create).toMatchObject({ userId: 'u1', positionSeconds: 120, progressPercent: 20 });
+  });
+
+  test('saves nothing while history is paused', async () => {
+    prismaMock.appUser.findUnique.mockImplementation(async () => ({ watchHistoryPaused: true }));
+    const res = makeRes();
+    await syncWatchHistory({ user: { id: 'u1' }, body: { entries: [entry()] } }, res);
+
+    expect(res.body.data).toEqual({ saved: 0, paused: true });
+    expect(prismaMock.$transaction).not.toHaveBeenCalled();
+  });
+
+  test('rejects a body without entries', async () => {
+    const res = makeRes();
+    await syncWatchHistory({ user: { id: 'u1' }, body: {} }, res);
+    expect(res.statusCode).toBe(400);
+  });
+});
+
+describe('history endpoints', () => {
+  test('returns a page with the videos and the next cursor', async () => {
+    prismaMock.videoWatchHistory.findMany.mockImplementation(async () => [
+      { videoId: 'vid-1', positionSeconds: 120, durationSeconds: 600, progressPercent: 20, lastWatchedAt: NOW, video: videoRow('vid-1') },
+    ]);
+    const res = makeRes();
+    await getWatchHistory({ user: { id: 'u1' }, query: { limit: '1', before: '2026-10-19T00:00:00.000Z' } }, res);
+
+    const [args] = prismaMock.videoWatchHistory.findMany.mock.calls[0];
+    expect(args.where).toEqual({ userId: 'u1', lastWatchedAt: { lt: new Date('2026-10-19T00:00:00.000Z') } });
+    expect(args.orderBy).toEqual({ lastWatchedAt: 'desc' });
+    expect(res.body.data.paused).toBe(false);
+    expect(res.body.data.entries[0]).toMatchObject({ videoId: 'vid-1', resumeAt: 120 });
+    expect(res.body.data.entries[0].video.id).toBe('vid-1');
+    expect(res.body.data.nextBefore).toBe(NOW.toISOString());
+  });
+
+  test('pausing takes a boolean', async () => {
+    const bad = makeRes();
+    await updateWatchHistorySettings({ user: { id: 'u1' }, body: { paused: 'yes' } }, bad);
+    expect(bad.statusCode).toBe(400);
+
+    const res = makeRes();
+    await updateWatchHistorySettings({ user: { id: 'u1' }, body: { paused: true } }, res);
+    expect(res.body.data).toEqual({ paused: true });
+  });
+
+  test('removing and clearing only touch the caller', async () => {
+    prismaMock.videoWatchHistory.deleteMany.mockImplementation(async () => ({ count: 1 }));
+    const removed = makeRes();
+    await removeWatchHistoryEntry({ user: { id: 'u1' }, params: { videoId: 'vid-1' } }, removed);
+    expect(prismaMock.videoWatchHistory.deleteMany.mock.calls[0][0]).toEqual({ where: { userId: 'u1', videoId: 'vid-1' } });
+    expect(removed.body.data).toEqual({ videoId: 'vid-1', removed: true });
+
+    const cleared = makeRes();
+    await clearWatchHistory({ user: { id: 'u1' } }, cleared);
+    expect(prismaMock.videoWatchHistory.deleteMany.mock.calls[1][0]).toEqual({ where: { userId: 'u1' } });
+  });
+});